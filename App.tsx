@@ -6,8 +6,8 @@ import './src/utils/warningSuppression';
 import './src/tasks/locationBackgroundTask';
 
 import React, { useEffect, useRef, useState } from 'react';
-import { View, Text, ActivityIndicator, LogBox, AppState, AppStateStatus } from 'react-native';
-import { NavigationContainer } from '@react-navigation/native';
+import { View, Text, ActivityIndicator, LogBox, AppState, AppStateStatus, Linking } from 'react-native';
+import { NavigationContainer, createNavigationContainerRef } from '@react-navigation/native';
 import { createStackNavigator } from '@react-navigation/stack';
 import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
@@ -18,6 +18,8 @@ import type { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import { ErrorBoundary } from './src/components/ErrorBoundary';
 import { logger } from './src/utils/logger';
 import { updateService } from './src/services/updateService';
+import { sosService } from './src/services/sosService';
+import { inviteService } from './src/services/inviteService';
 
 
 // Screens
@@ -37,6 +39,8 @@ import EmergencyNotesScreen from './src/screens/EmergencyNotesScreen';
 import LocationAccuracyScreen from './src/screens/LocationAccuracyScreen';
 import LocationUpdateFrequencyScreen from './src/screens/LocationUpdateFrequencyScreen';
 import SleepModeScreen from './src/screens/SleepModeScreen';
+import NotificationFiltersScreen from './src/screens/NotificationFiltersScreen';
+import AccountLockScreen from './src/screens/AccountLockScreen';
 import LanguageRegionScreen from './src/screens/LanguageRegionScreen';
 import UnitsScreen from './src/screens/UnitsScreen';
 import BatterySavingScreen from './src/screens/BatterySavingScreen';
@@ -48,6 +52,10 @@ import LockedScreen from './src/screens/LockedScreen';
 import TravelAdvisoryScreen from './src/screens/TravelAdvisoryScreen';
 import CheckInScreen from './src/screens/CheckInScreen';
 import CheckInSettingsScreen from './src/screens/CheckInSettingsScreen';
+import TripScreen from './src/screens/TripScreen';
+import SOSEventScreen from './src/screens/SOSEventScreen';
+import CirclesScreen from './src/screens/CirclesScreen';
+import FindContactsScreen from './src/screens/FindContactsScreen';
 import OfflineMapsScreen from './src/screens/OfflineMapsScreen';
 import NotificationsScreen from './src/screens/NotificationsScreen';
 import UpdateScreen from './src/screens/UpdateScreen';
@@ -59,6 +67,7 @@ import { IncidentProvider } from './src/context/IncidentContext';
 import { AppSettingProvider, useAppSetting } from './src/context/AppSettingContext';
 import { TravelAdvisoryProvider } from './src/context/TravelAdvisoryContext';
 import { CheckInProvider } from './src/context/CheckInContext';
+import { UserSettingsProvider, useUserSettings } from './src/context/UserSettingsContext';
 
 // Types
 import type { RootStackParamList, MainTabParamList } from './src/types';
@@ -78,6 +87,7 @@ type TabScreenOptionsProps = {
 
 function MainTabs() {
   const { hideIncident } = useAppSetting();
+  const { t } = useUserSettings();
 
   const getIconName = (routeName: string, focused: boolean): keyof typeof Ionicons.glyphMap => {
     switch (routeName) {
@@ -106,18 +116,66 @@ function MainTabs() {
         headerShown: false,
       })}
     >
-      <Tab.Screen name="Home" component={HomeScreen} />
-      {!hideIncident && <Tab.Screen name="Incidents" component={IncidentFeedScreen} />}
-      <Tab.Screen name="Connections" component={ConnectionScreen} />
-      <Tab.Screen name="Profile" component={ProfileScreen} />
+      <Tab.Screen name="Home" component={HomeScreen} options={{ tabBarLabel: t('tabs.home') }} />
+      {!hideIncident && (
+        <Tab.Screen name="Incidents" component={IncidentFeedScreen} options={{ tabBarLabel: t('tabs.incidents') }} />
+      )}
+      <Tab.Screen name="Connections" component={ConnectionScreen} options={{ tabBarLabel: t('tabs.connections') }} />
+      <Tab.Screen name="Profile" component={ProfileScreen} options={{ tabBarLabel: t('tabs.profile') }} />
     </Tab.Navigator>
   );
 }
 
+const navigationRef = createNavigationContainerRef<RootStackParamList>();
+
 function AppNavigator() {
   const { isAuthenticated, loading, user } = useAuth();
   const { hideReportIncident, hideIncident, forceUpdateRequired, loading: appSettingLoading } = useAppSetting();
   const [showUpdate, setShowUpdate] = React.useState(false);
+  const [inviteLinkCount, setInviteLinkCount] = React.useState(0);
+
+  // Invite links (famguard://invite?t=...) are kept as a pending invite until signed in
+  React.useEffect(() => {
+    const handleUrl = async (url: string | null) => {
+      if (await inviteService.handleUrl(url)) {
+        setInviteLinkCount((count) => count + 1);
+      }
+    };
+
+    Linking.getInitialURL().then(handleUrl);
+    const subscription = Linking.addEventListener('url', ({ url }) => {
+      handleUrl(url);
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, []);
+
+  // Open the pending invite once signed in - the Connections screen asks to accept it.
+  // Also picks up an invite link copied by the invite page before the app was installed.
+  React.useEffect(() => {
+    if (!isAuthenticated || user?.isLocked) return;
+
+    const openPendingInvite = async () => {
+      await inviteService.checkClipboardForInvite();
+      const token = await inviteService.getPendingInvite();
+      if (token && navigationRef.isReady()) {
+        navigationRef.navigate('Connections');
+      }
+    };
+    openPendingInvite();
+  }, [isAuthenticated, user?.isLocked, inviteLinkCount]);
+
+  // Retry SOS alerts that haven't been delivered yet (persisted across restarts)
+  React.useEffect(() => {
+    if (!isAuthenticated) return;
+
+    sosService.startOutboxProcessing();
+    return () => {
+      sosService.stopOutboxProcessing();
+    };
+  }, [isAuthenticated]);
 
   // Check if update is required from app_setting table
   React.useEffect(() => {
@@ -149,7 +207,7 @@ function AppNavigator() {
   }
 
   return (
-    <NavigationContainer>
+    <NavigationContainer ref={navigationRef}>
       <Stack.Navigator screenOptions={{ headerShown: false }}>
         {/* Flow: Splash → Welcome → Login/Signup → Main App */}
         {!isAuthenticated ? (
@@ -177,6 +235,8 @@ function AppNavigator() {
             <Stack.Screen name="LocationAccuracy" component={LocationAccuracyScreen} />
             <Stack.Screen name="LocationUpdateFrequency" component={LocationUpdateFrequencyScreen} />
             <Stack.Screen name="SleepMode" component={SleepModeScreen} />
+            <Stack.Screen name="NotificationFilters" component={NotificationFiltersScreen} />
+            <Stack.Screen name="AccountLock" component={AccountLockScreen} />
             <Stack.Screen name="LanguageRegion" component={LanguageRegionScreen} />
             <Stack.Screen name="Units" component={UnitsScreen} />
             <Stack.Screen name="BatterySaving" component={BatterySavingScreen} />
@@ -187,6 +247,10 @@ function AppNavigator() {
             <Stack.Screen name="TravelAdvisory" component={TravelAdvisoryScreen} />
             <Stack.Screen name="CheckIn" component={CheckInScreen} />
             <Stack.Screen name="CheckInSettings" component={CheckInSettingsScreen} />
+            <Stack.Screen name="Trip" component={TripScreen} />
+            <Stack.Screen name="SOSEvent" component={SOSEventScreen} />
+            <Stack.Screen name="Circles" component={CirclesScreen} />
+            <Stack.Screen name="FindContacts" component={FindContactsScreen} />
             <Stack.Screen name="OfflineMaps" component={OfflineMapsScreen} />
             <Stack.Screen name="Notifications" component={NotificationsScreen} />
           </>
@@ -262,20 +326,22 @@ export default function App() {
       <SafeAreaProvider>
         <AuthProvider>
           <AppSettingProvider>
-            <ConnectionProvider>
-              <IncidentProvider>
-                <TravelAdvisoryProvider>
-                  <CheckInProvider>
-                    <StatusBar style="auto" />
-                    {showSplash ? (
-                      <SplashScreen onFinish={handleSplashFinish} />
-                    ) : (
-                      <AppContent onReady={handleAppReady} />
-                    )}
-                  </CheckInProvider>
-                </TravelAdvisoryProvider>
-              </IncidentProvider>
-            </ConnectionProvider>
+            <UserSettingsProvider>
+              <ConnectionProvider>
+                <IncidentProvider>
+                  <TravelAdvisoryProvider>
+                    <CheckInProvider>
+                      <StatusBar style="auto" />
+                      {showSplash ? (
+                        <SplashScreen onFinish={handleSplashFinish} />
+                      ) : (
+                        <AppContent onReady={handleAppReady} />
+                      )}
+                    </CheckInProvider>
+                  </TravelAdvisoryProvider>
+                </IncidentProvider>
+              </ConnectionProvider>
+            </UserSettingsProvider>
           </AppSettingProvider>
         </AuthProvider>
       </SafeAreaProvider>
@@ -6,6 +6,8 @@ module.exports = ({ config }) => {
   let EXPO_PUBLIC_EXPO_PROJECT_ID = process.env.EXPO_PUBLIC_EXPO_PROJECT_ID || '';
   let EXPO_PUBLIC_GOOGLE_MAPS_API_KEY = process.env.EXPO_PUBLIC_GOOGLE_MAPS_API_KEY || '';
   let EXPO_PUBLIC_DELETE_ACCOUNT_URL = process.env.EXPO_PUBLIC_DELETE_ACCOUNT_URL || 'https://safezone.app/delete-account';
+  // Connection invite links; defaults to the invite edge function on the Supabase project
+  let EXPO_PUBLIC_INVITE_URL = process.env.EXPO_PUBLIC_INVITE_URL || '';
 
   // Remove placeholder syntax if present (shouldn't happen but safety check)
   EXPO_PUBLIC_SUPABASE_URL = EXPO_PUBLIC_SUPABASE_URL.replace(/\$\{EXPO_PUBLIC_SUPABASE_URL\}/g, '').trim();
@@ -42,6 +44,8 @@ module.exports = ({ config }) => {
     version: "1.0.5",
     sdkVersion: "54.0.0",
     orientation: "portrait",
+    // Deep links: famguard://invite?t=<token>
+    scheme: "famguard",
     userInterfaceStyle: "light",
     icon: "./assets/icon.png",
     splash: {
@@ -62,6 +66,10 @@ module.exports = ({ config }) => {
         NSLocationWhenInUseUsageDescription: "FamGuards needs your location to share it with family members and show nearby safety incidents.",
         NSLocationAlwaysAndWhenInUseUsageDescription: "FamGuards needs your location to share it with family members even when the app is in the background.",
         NSLocationAlwaysUsageDescription: "FamGuards needs your location to share it with family members and keep them updated about your safety.",
+        NSContactsUsageDescription: "FamGuards uses your contacts to find people you know who already use the app. Phone numbers are hashed on your device and never uploaded.",
+        NSCameraUsageDescription: "FamGuards uses your camera to take photos and videos of incidents you report.",
+        NSPhotoLibraryUsageDescription: "FamGuards lets you attach photos and videos from your library to incident reports. Location data is removed before upload.",
+        NSMicrophoneUsageDescription: "FamGuards records audio with videos of incidents you report.",
         ITSAppUsesNonExemptEncryption: false
       }
     },
@@ -86,6 +94,9 @@ module.exports = ({ config }) => {
         "VIBRATE",
         "RECEIVE_BOOT_COMPLETED",
         "POST_NOTIFICATIONS",
+        "READ_CONTACTS",
+        "CAMERA",
+        "RECORD_AUDIO",
         "android.permission.INTERNET",
         "android.permission.ACCESS_NETWORK_STATE",
         "android.permission.ACCESS_COARSE_LOCATION",
@@ -93,7 +104,10 @@ module.exports = ({ config }) => {
         "android.permission.ACCESS_BACKGROUND_LOCATION",
         "android.permission.VIBRATE",
         "android.permission.RECEIVE_BOOT_COMPLETED",
-        "android.permission.POST_NOTIFICATIONS"
+        "android.permission.POST_NOTIFICATIONS",
+        "android.permission.READ_CONTACTS",
+        "android.permission.CAMERA",
+        "android.permission.RECORD_AUDIO"
       ],
       versionCode: 13
     },
@@ -115,6 +129,21 @@ module.exports = ({ config }) => {
           mode: "production"
         }
       ],
+      [
+        "expo-contacts",
+        {
+          contactsPermission: "FamGuards uses your contacts to find people you know who already use the app. Phone numbers are hashed on your device and never uploaded."
+        }
+      ],
+      [
+        "expo-image-picker",
+        {
+          photosPermission: "FamGuards lets you attach photos and videos from your library to incident reports. Location data is removed before upload.",
+          cameraPermission: "FamGuards uses your camera to take photos and videos of incidents you report.",
+          microphonePermission: "FamGuards records audio with videos of incidents you report."
+        }
+      ],
+      "expo-video",
       "./plugins/with-network-access.js",
       "./plugins/with-network-security-config.js",
       "./plugins/with-google-maps-api-key.js"
@@ -127,6 +156,7 @@ module.exports = ({ config }) => {
       EXPO_PUBLIC_SUPABASE_ANON_KEY: EXPO_PUBLIC_SUPABASE_ANON_KEY || '',
       EXPO_PUBLIC_EXPO_PROJECT_ID: EXPO_PUBLIC_EXPO_PROJECT_ID || '',
       EXPO_PUBLIC_DELETE_ACCOUNT_URL: EXPO_PUBLIC_DELETE_ACCOUNT_URL || 'https://safezone.app/delete-account',
+      EXPO_PUBLIC_INVITE_URL: EXPO_PUBLIC_INVITE_URL || '',
       EXPO_PUBLIC_GOOGLE_MAPS_API_KEY: EXPO_PUBLIC_GOOGLE_MAPS_API_KEY || '',
       eas: {
         projectId: "84162762-f743-411c-8b9a-0ed643cdb7a2"
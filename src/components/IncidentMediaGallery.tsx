@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { View, Text, Image, Modal, ScrollView, StyleSheet, TouchableOpacity, useWindowDimensions } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useVideoPlayer, VideoView } from 'expo-video';
+import type { IncidentMedia } from '../types';
+
+interface IncidentMediaGalleryProps {
+  media: IncidentMedia[];
+  thumbnailSize?: number;
+}
+
+const formatClipLength = (seconds: number | null): string => {
+  const total = Math.round(seconds || 0);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+function VideoViewer({ item }: { item: IncidentMedia }) {
+  const player = useVideoPlayer(item.url, (instance) => {
+    instance.play();
+  });
+
+  return <VideoView player={player} style={styles.viewerMedia} contentFit="contain" nativeControls />;
+}
+
+/**
+ * Thumbnail strip of an incident's photos and clips
+ * Tapping one opens it full screen (clips play with native controls).
+ */
+export function IncidentMediaGallery({ media, thumbnailSize = 72 }: IncidentMediaGalleryProps) {
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  const { width } = useWindowDimensions();
+
+  if (!media || media.length === 0) {
+    return null;
+  }
+
+  const openItem = openIndex !== null ? media[openIndex] : null;
+  const viewerHeight = openItem?.width && openItem?.height ? (width * openItem.height) / openItem.width : width;
+
+  return (
+    <>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.strip}>
+        {media.map((item, index) => (
+          <TouchableOpacity
+            key={item.id}
+            onPress={() => setOpenIndex(index)}
+            activeOpacity={0.8}
+            style={[styles.thumbnail, { width: thumbnailSize, height: thumbnailSize }]}
+          >
+            <Image source={{ uri: item.thumbnailUrl }} style={styles.thumbnailImage} />
+            {item.type === 'video' && (
+              <View style={styles.videoBadge}>
+                <Ionicons name="play" size={10} color="#FFFFFF" />
+                <Text style={styles.videoBadgeText}>{formatClipLength(item.durationSeconds)}</Text>
+              </View>
+            )}
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+
+      <Modal visible={openItem !== null} animationType="fade" onRequestClose={() => setOpenIndex(null)}>
+        <SafeAreaView style={styles.viewer} edges={['top', 'bottom']}>
+          <View style={styles.viewerHeader}>
+            <Text style={styles.viewerCount}>
+              {(openIndex ?? 0) + 1} / {media.length}
+            </Text>
+            <TouchableOpacity onPress={() => setOpenIndex(null)} style={styles.viewerClose} activeOpacity={0.7}>
+              <Ionicons name="close" size={24} color="#FFFFFF" />
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.viewerBody}>
+            {openItem && (
+              <View style={{ width, height: Math.min(viewerHeight, width * 1.6) }}>
+                {openItem.type === 'video' ? (
+                  <VideoViewer key={openItem.id} item={openItem} />
+                ) : (
+                  <Image source={{ uri: openItem.url }} style={styles.viewerMedia} resizeMode="contain" />
+                )}
+              </View>
+            )}
+          </View>
+
+          {media.length > 1 && (
+            <View style={styles.viewerNav}>
+              <TouchableOpacity
+                onPress={() => setOpenIndex((index) => Math.max(0, (index ?? 0) - 1))}
+                disabled={openIndex === 0}
+                style={[styles.viewerNavButton, openIndex === 0 && styles.viewerNavButtonDisabled]}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="chevron-back" size={24} color="#FFFFFF" />
+              </TouchableOpacity>
+              <TouchableOpacity
+                onPress={() => setOpenIndex((index) => Math.min(media.length - 1, (index ?? 0) + 1))}
+                disabled={openIndex === media.length - 1}
+                style={[styles.viewerNavButton, openIndex === media.length - 1 && styles.viewerNavButtonDisabled]}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="chevron-forward" size={24} color="#FFFFFF" />
+              </TouchableOpacity>
+            </View>
+          )}
+        </SafeAreaView>
+      </Modal>
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  strip: {
+    gap: 8,
+  },
+  thumbnail: {
+    borderRadius: 10,
+    overflow: 'hidden',
+    backgroundColor: '#E5E7EB',
+  },
+  thumbnailImage: {
+    width: '100%',
+    height: '100%',
+  },
+  videoBadge: {
+    position: 'absolute',
+    left: 4,
+    bottom: 4,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    paddingHorizontal: 5,
+    paddingVertical: 2,
+    borderRadius: 6,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  videoBadgeText: {
+    fontSize: 10,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  viewer: {
+    flex: 1,
+    backgroundColor: '#000000',
+  },
+  viewerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+  },
+  viewerCount: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  viewerClose: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  viewerBody: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  viewerMedia: {
+    width: '100%',
+    height: '100%',
+  },
+  viewerNav: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingHorizontal: 24,
+    paddingVertical: 16,
+  },
+  viewerNavButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  viewerNavButtonDisabled: {
+    opacity: 0.3,
+  },
+});
@@ -0,0 +1,65 @@
+import React, { useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { encodeQrCode } from '../utils/qrCode';
+
+interface QRCodeProps {
+  value: string;
+  size?: number;
+  color?: string;
+  backgroundColor?: string;
+}
+
+// Light border around the code (in modules) required by scanners
+const QUIET_ZONE = 2;
+
+/**
+ * Render text as a QR code using plain Views
+ * Dark modules are merged into horizontal runs to keep the view count low.
+ */
+export function QRCode({ value, size = 200, color = '#000000', backgroundColor = '#FFFFFF' }: QRCodeProps) {
+  const matrix = useMemo(() => encodeQrCode(value), [value]);
+
+  if (!matrix) {
+    return null;
+  }
+
+  const moduleSize = size / (matrix.size + QUIET_ZONE * 2);
+
+  return (
+    <View style={[styles.container, { width: size, height: size, backgroundColor }]}>
+      {matrix.modules.map((row, y) => {
+        const runs: { start: number; length: number }[] = [];
+        row.forEach((isDark, x) => {
+          if (!isDark) return;
+          const last = runs[runs.length - 1];
+          if (last && last.start + last.length === x) {
+            last.length++;
+          } else {
+            runs.push({ start: x, length: 1 });
+          }
+        });
+
+        return runs.map((run) => (
+          <View
+            key={`${y}-${run.start}`}
+            style={{
+              position: 'absolute',
+              left: (run.start + QUIET_ZONE) * moduleSize,
+              top: (y + QUIET_ZONE) * moduleSize,
+              width: run.length * moduleSize + 0.5, // Overlap slightly to avoid hairline gaps
+              height: moduleSize + 0.5,
+              backgroundColor: color,
+            }}
+          />
+        ));
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'relative',
+    overflow: 'hidden',
+  },
+});
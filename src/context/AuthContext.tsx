@@ -108,6 +108,18 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       async (response) => {
         const notificationData = response.notification.request.content.data;
         const notificationType = notificationData?.type;
+
+        // Action buttons on an SOS push (I'm responding / Call / Navigate / Can't help)
+        if (notificationType === 'sos_alert') {
+          try {
+            const { sosEventService } = await import('../services/sosEventService');
+            if (await sosEventService.handleAlertAction(response.actionIdentifier, notificationData)) {
+              return;
+            }
+          } catch (error) {
+            logger.error('Error handling SOS notification action:', error);
+          }
+        }
         
         // Handle location_reminder notification tap
         if (notificationType === 'location_reminder') {
@@ -148,12 +160,13 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
                   .maybeSingle();
 
                 if (familyMember?.family_group_id) {
+                  const sharedLocation = locationService.getShareableLocation(currentLocation);
                   await supabase
                     .from('family_members')
                     .update({
-                      location_latitude: currentLocation.latitude,
-                      location_longitude: currentLocation.longitude,
-                      location_address: currentLocation.address || null,
+                      location_latitude: sharedLocation.latitude,
+                      location_longitude: sharedLocation.longitude,
+                      location_address: sharedLocation.address || null,
                       last_seen: new Date().toISOString(),
                     })
                     .eq('user_id', user.id)
@@ -197,13 +210,14 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
                 .single();
 
               if (userSettings?.location_sharing_enabled) {
+                const sharedLocation = locationService.getShareableLocation(currentLocation);
                 // Update location in connections table
                 await supabase
                   .from('connections')
                   .update({
-                    location_latitude: currentLocation.latitude,
-                    location_longitude: currentLocation.longitude,
-                    location_address: currentLocation.address || null,
+                    location_latitude: sharedLocation.latitude,
+                    location_longitude: sharedLocation.longitude,
+                    location_address: sharedLocation.address || null,
                     location_updated_at: new Date().toISOString(),
                   })
                   .eq('connected_user_id', user.id)
@@ -261,13 +261,14 @@ export const ConnectionProvider: React.FC<ConnectionProviderProps> = ({ children
         const batteryLevel = await locationService.getBatteryLevel();
 
         // Update location for all connections where this user is the connected user
-        // (i.e., update the location that others see)
+        // (i.e., update the location that others see - snapped in approximate mode)
+        const sharedLocation = locationService.getShareableLocation(currentLocation);
         const { error } = await supabase
           .from('connections')
           .update({
-            location_latitude: currentLocation.latitude,
-            location_longitude: currentLocation.longitude,
-            location_address: currentLocation.address || null,
+            location_latitude: sharedLocation.latitude,
+            location_longitude: sharedLocation.longitude,
+            location_address: sharedLocation.address || null,
             location_updated_at: new Date().toISOString(),
             battery_level: batteryLevel,
           })
@@ -2,16 +2,36 @@ import React, { createContext, useState, useContext, useEffect, ReactNode } from
 import { supabase, hasValidSupabaseConfig } from '../lib/supabase';
 import { useAuth } from './AuthContext';
 import { locationService } from '../services/locationService';
-import { incidentProximityService } from '../services/incidentProximityService';
+import { incidentMediaService } from '../services/incidentMediaService';
+import { incidentUpdatesService } from '../services/incidentUpdatesService';
+import { incidentVoteService } from '../services/incidentVoteService';
 import { logger } from '../utils/logger';
-import type { Incident, Location } from '../types';
+import type {
+  Incident,
+  IncidentMedia,
+  IncidentMediaDraft,
+  IncidentMediaUploadProgress,
+  IncidentStatus,
+  IncidentVote,
+  Location,
+} from '../types';
+
+type NewIncident = Omit<
+  Incident,
+  'id' | 'userId' | 'createdAt' | 'upvotes' | 'falseVotes' | 'confirmed' | 'media' | 'status' | 'statusChangedAt' | 'updateCount' | 'lastUpdateAt'
+>;
 
 interface IncidentContextType {
   incidents: Incident[];
   userLocation: Location;
   setUserLocation: (location: Location) => void;
-  addIncident: (incident: Omit<Incident, 'id' | 'createdAt' | 'upvotes' | 'confirmed'>) => Promise<void>;
-  upvoteIncident: (incidentId: string) => Promise<void>;
+  addIncident: (
+    incident: NewIncident,
+    media?: IncidentMediaDraft[],
+    onMediaProgress?: (progress: IncidentMediaUploadProgress) => void
+  ) => Promise<{ mediaQueued: number; mediaFailed: number }>;
+  voteOnIncident: (incidentId: string, vote: IncidentVote | null) => Promise<IncidentVote | null>;
+  setIncidentStatus: (incidentId: string, status: IncidentStatus) => Promise<{ status: IncidentStatus; changed: boolean }>;
   getNearbyIncidents: (timeFilter?: string, distanceFilter?: number) => Incident[];
   fetchNearbyIncidents: (timeFilter?: string, distanceFilter?: number) => Promise<void>;
   calculateDistance: (lat1: number, lon1: number, lat2: number, lon2: number) => number;
@@ -35,9 +55,12 @@ interface IncidentProviderProps {
 
 type TimeFilterKey = '5min' | '30min' | '1hr' | '24hr';
 
+const INCIDENT_COLUMNS = 'id, user_id, type, category, title, description, location_latitude, location_longitude, location_address, reporter_name, reporter_is_anonymous, upvotes, false_votes, confirmed, status, status_changed_at, update_count, last_update_at, created_at, updated_at, incident_media(id, incident_id, media_type, storage_path, thumbnail_path, width, height, duration_seconds, position, created_at)';
+
 // Helper function to convert database row to Incident type
 const mapDbRowToIncident = (row: any): Incident => ({
   id: row.id,
+  userId: row.user_id,
   type: row.type,
   category: row.category,
   title: row.title,
@@ -53,9 +76,24 @@ const mapDbRowToIncident = (row: any): Incident => ({
     isAnonymous: row.reporter_is_anonymous,
   },
   upvotes: row.upvotes || 0,
+  falseVotes: row.false_votes || 0,
   confirmed: row.confirmed || false,
+  media: incidentMediaService.mapMediaRows(row.incident_media),
+  status: row.status || 'ongoing',
+  statusChangedAt: row.status_changed_at || undefined,
+  updateCount: row.update_count || 0,
+  lastUpdateAt: row.last_update_at || undefined,
 });
 
+// Append uploaded media to the incidents they belong to
+const withMedia = (incidents: Incident[], media: IncidentMedia[]): Incident[] =>
+  incidents.map((incident) => {
+    const added = media.filter((item) => item.incidentId === incident.id);
+    if (added.length === 0) return incident;
+    const existingIds = new Set((incident.media || []).map((item) => item.id));
+    return { ...incident, media: [...(incident.media || []), ...added.filter((item) => !existingIds.has(item.id))] };
+  });
+
 export const IncidentProvider: React.FC<IncidentProviderProps> = ({ children }) => {
   const { user } = useAuth();
   const [incidents, setIncidents] = useState<Incident[]>([]);
@@ -85,7 +123,7 @@ export const IncidentProvider: React.FC<IncidentProviderProps> = ({ children })
       setLoading(true);
       const { data, error } = await supabase
         .from('incidents')
-        .select('id, user_id, type, category, title, description, location_latitude, location_longitude, location_address, reporter_name, reporter_is_anonymous, upvotes, confirmed, created_at, updated_at')
+        .select(INCIDENT_COLUMNS)
         .order('created_at', { ascending: false })
         .limit(100); // Limit to recent 100 incidents
 
@@ -135,7 +173,7 @@ export const IncidentProvider: React.FC<IncidentProviderProps> = ({ children })
       // Fetch incidents within time range
       let query = supabase
         .from('incidents')
-        .select('id, user_id, type, category, title, description, location_latitude, location_longitude, location_address, reporter_name, reporter_is_anonymous, upvotes, confirmed, created_at, updated_at')
+        .select(INCIDENT_COLUMNS)
         .gte('created_at', timeThreshold.toISOString())
         .order('created_at', { ascending: false })
         .limit(200); // Get more to filter by distance
@@ -205,7 +243,27 @@ export const IncidentProvider: React.FC<IncidentProviderProps> = ({ children })
     };
   }, []);
 
-  const addIncident = async (incident: Omit<Incident, 'id' | 'createdAt' | 'upvotes' | 'confirmed'>): Promise<void> => {
+  // Finish photo/video uploads that were interrupted (bad connection, app closed)
+  useEffect(() => {
+    if (!user?.id || !hasValidSupabaseConfig) return;
+
+    incidentMediaService
+      .resumePendingUploads(user.id)
+      .then((uploaded) => {
+        if (uploaded.length > 0) {
+          setIncidents((current) => withMedia(current, uploaded));
+        }
+      })
+      .catch((error) => {
+        logger.error('Error resuming incident media uploads:', error?.message || String(error));
+      });
+  }, [user?.id]);
+
+  const addIncident = async (
+    incident: NewIncident,
+    media: IncidentMediaDraft[] = [],
+    onMediaProgress?: (progress: IncidentMediaUploadProgress) => void
+  ): Promise<{ mediaQueued: number; mediaFailed: number }> => {
     if (!user) {
       throw new Error('User must be authenticated to report an incident');
     }
@@ -227,8 +285,6 @@ export const IncidentProvider: React.FC<IncidentProviderProps> = ({ children })
         location_address: incident.location.address || null,
         reporter_name: incident.reporter.name,
         reporter_is_anonymous: incident.reporter.isAnonymous,
-        upvotes: 0,
-        confirmed: false,
       };
 
       // Log the data being inserted for debugging
@@ -258,48 +314,58 @@ export const IncidentProvider: React.FC<IncidentProviderProps> = ({ children })
           location_address: data.location_address,
         });
         const newIncident = mapDbRowToIncident(data);
-        setIncidents([newIncident, ...incidents]);
-
-        // Immediately trigger proximity check to notify nearby users
-        console.log('🚨 Triggering immediate proximity check for new incident...');
-        incidentProximityService.triggerCheck().catch((error) => {
-          console.error('Error triggering proximity check after incident creation:', error);
-        });
+        // Nearby users are alerted server-side by the incidents_proximity_alerts trigger
+        setIncidents((current) => [newIncident, ...current]);
+
+        // Evidence is uploaded once the incident exists, so alerts never wait on a slow upload
+        if (media.length > 0) {
+          const result = await incidentMediaService.uploadIncidentMedia(newIncident.id, user.id, media, onMediaProgress);
+          if (result.uploaded.length > 0) {
+            setIncidents((current) => withMedia(current, result.uploaded));
+          }
+          return { mediaQueued: result.queued, mediaFailed: result.failed };
+        }
       }
+
+      return { mediaQueued: 0, mediaFailed: 0 };
     } catch (error) {
       console.error('Error in addIncident:', error);
       throw error;
     }
   };
 
-  const upvoteIncident = async (incidentId: string): Promise<void> => {
-    try {
-      // Get current incident
-      const incident = incidents.find(i => i.id === incidentId);
-      if (!incident) {
-        throw new Error('Incident not found');
-      }
-
-      const newUpvotes = incident.upvotes + 1;
+  // One vote per user; null withdraws it. Totals and confirmed come back from the server
+  const voteOnIncident = async (incidentId: string, vote: IncidentVote | null): Promise<IncidentVote | null> => {
+    const result = await incidentVoteService.castVote(incidentId, vote);
+    if (!result.success) {
+      throw new Error(result.message || 'Failed to vote on incident');
+    }
 
-      const { error } = await supabase
-        .from('incidents')
-        .update({ upvotes: newUpvotes })
-        .eq('id', incidentId);
+    setIncidents((current) => current.map((i) =>
+      i.id === incidentId
+        ? { ...i, upvotes: result.upvotes ?? i.upvotes, falseVotes: result.falseVotes ?? i.falseVotes, confirmed: !!result.confirmed }
+        : i
+    ));
+    return result.myVote ?? null;
+  };
 
-      if (error) {
-        console.error('Error upvoting incident:', error);
-        throw new Error(error.message || 'Failed to upvote incident');
-      }
+  // Reporter: changes the status. Everyone else: votes (applied once enough agree)
+  const setIncidentStatus = async (
+    incidentId: string,
+    status: IncidentStatus
+  ): Promise<{ status: IncidentStatus; changed: boolean }> => {
+    const result = await incidentUpdatesService.setStatus(incidentId, status);
+    if (!result.success) {
+      throw new Error(result.message || 'Failed to update incident status');
+    }
 
-      // Update local state
-      setIncidents(incidents.map(i =>
-        i.id === incidentId ? { ...i, upvotes: newUpvotes } : i
+    const newStatus = result.status || status;
+    if (result.changed) {
+      setIncidents((current) => current.map((i) =>
+        i.id === incidentId ? { ...i, status: newStatus, statusChangedAt: new Date().toISOString() } : i
       ));
-    } catch (error) {
-      console.error('Error in upvoteIncident:', error);
-      throw error;
     }
+    return { status: newStatus, changed: !!result.changed };
   };
 
   const getNearbyIncidents = (timeFilter: string = '1hr', distanceFilter: number = 5): Incident[] => {
@@ -343,7 +409,8 @@ export const IncidentProvider: React.FC<IncidentProviderProps> = ({ children })
         userLocation,
         setUserLocation,
         addIncident,
-        upvoteIncident,
+        voteOnIncident,
+        setIncidentStatus,
         getNearbyIncidents,
         fetchNearbyIncidents,
         calculateDistance,
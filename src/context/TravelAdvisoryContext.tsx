@@ -316,6 +316,8 @@ export const TravelAdvisoryProvider: React.FC<TravelAdvisoryProviderProps> = ({
       incidentCount30d: row.incident_count_30d || 0,
       lastIncidentAt: row.last_incident_at || undefined,
       averageTravelTimeMinutes: row.average_travel_time_minutes || undefined,
+      categoryBreakdown: row.category_breakdown || {},
+      bufferKm: row.buffer_km || undefined,
       lastUpdated: row.last_updated,
       createdAt: row.created_at,
     };
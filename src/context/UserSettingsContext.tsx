@@ -0,0 +1,234 @@
+import React, { createContext, useState, useContext, useEffect, useCallback, ReactNode } from 'react';
+import { supabase, hasValidSupabaseConfig } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import { useAuth } from './AuthContext';
+import {
+  DEFAULT_UNIT_SYSTEM,
+  normalizeUnitSystem,
+  formatDistance as formatDistanceForSystem,
+  formatDistanceMeters as formatDistanceMetersForSystem,
+  formatRadius as formatRadiusForSystem,
+  formatSpeed as formatSpeedForSystem,
+  getSpeedUnit,
+  getDistanceFilters,
+} from '../utils/units';
+import type { UnitSystem } from '../utils/units';
+import {
+  DEFAULT_LANGUAGE,
+  DEFAULT_REGION,
+  normalizeLanguage,
+  translate,
+  getLocaleTag,
+} from '../i18n';
+import type { SupportedLanguage, TranslationKey, TranslationParams } from '../i18n';
+import { formatTimeAgo as formatTimeAgoForLanguage } from '../utils/lastSeenFormatter';
+import type { DistanceFilter } from '../types';
+
+interface UserSettingsContextType {
+  unitSystem: UnitSystem;
+  language: SupportedLanguage;
+  region: string;
+  locale: string; // BCP 47 tag for Intl formatting, e.g. 'yo-NG'
+  loading: boolean;
+  speedUnit: string;
+  distanceFilters: DistanceFilter[];
+  setUnitSystem: (system: UnitSystem) => Promise<boolean>;
+  setLanguage: (language: SupportedLanguage) => Promise<boolean>;
+  setRegion: (region: string) => Promise<boolean>;
+  t: (key: TranslationKey, params?: TranslationParams) => string;
+  formatTimeAgo: (timestamp: string | number | Date) => string;
+  formatDistance: (km: number, decimals?: number) => string;
+  formatDistanceMeters: (meters: number, decimals?: number) => string;
+  formatRadius: (meters: number) => string;
+  formatSpeed: (kmh: number) => string;
+  refreshSettings: () => Promise<void>;
+}
+
+const UserSettingsContext = createContext<UserSettingsContextType | undefined>(undefined);
+
+export const useUserSettings = (): UserSettingsContextType => {
+  const context = useContext(UserSettingsContext);
+  if (!context) {
+    throw new Error('useUserSettings must be used within UserSettingsProvider');
+  }
+  return context;
+};
+
+interface UserSettingsProviderProps {
+  children: ReactNode;
+}
+
+export const UserSettingsProvider: React.FC<UserSettingsProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [unitSystem, setUnitSystemState] = useState<UnitSystem>(DEFAULT_UNIT_SYSTEM);
+  const [language, setLanguageState] = useState<SupportedLanguage>(DEFAULT_LANGUAGE);
+  const [region, setRegionState] = useState<string>(DEFAULT_REGION);
+  const [loading, setLoading] = useState<boolean>(true);
+
+  const fetchUserSettings = async (): Promise<void> => {
+    if (!user?.id || !hasValidSupabaseConfig) {
+      setUnitSystemState(DEFAULT_UNIT_SYSTEM);
+      setLanguageState(DEFAULT_LANGUAGE);
+      setRegionState(DEFAULT_REGION);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase
+        .from('user_settings')
+        .select('units, language, region')
+        .eq('user_id', user.id)
+        .maybeSingle();
+
+      if (error) {
+        logger.error('Error fetching user settings:', error?.message || error?.code || String(error));
+        return;
+      }
+
+      applySettingsRow(data);
+    } catch (error: any) {
+      logger.error('Error fetching user settings:', error?.message || String(error));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const applySettingsRow = (row: any): void => {
+    setUnitSystemState(normalizeUnitSystem(row?.units));
+    setLanguageState(normalizeLanguage(row?.language));
+    setRegionState(row?.region || DEFAULT_REGION);
+  };
+
+  /**
+   * Save a single user_settings column (optimistic - the caller reverts on failure)
+   */
+  const saveSetting = async (column: 'units' | 'language' | 'region', value: string): Promise<boolean> => {
+    if (!user?.id) return false;
+
+    try {
+      const { error } = await supabase
+        .from('user_settings')
+        .upsert({ user_id: user.id, [column]: value }, { onConflict: 'user_id' });
+
+      if (error) {
+        logger.error(`Error saving ${column}:`, error?.message || error?.code || String(error));
+        return false;
+      }
+
+      return true;
+    } catch (error: any) {
+      logger.error(`Error saving ${column}:`, error?.message || String(error));
+      return false;
+    }
+  };
+
+  const refreshSettings = async (): Promise<void> => {
+    await fetchUserSettings();
+  };
+
+  const setUnitSystem = async (system: UnitSystem): Promise<boolean> => {
+    const previous = unitSystem;
+    setUnitSystemState(system);
+    const saved = await saveSetting('units', system);
+    if (!saved) setUnitSystemState(previous);
+    return saved;
+  };
+
+  const setLanguage = async (nextLanguage: SupportedLanguage): Promise<boolean> => {
+    const previous = language;
+    setLanguageState(nextLanguage);
+    const saved = await saveSetting('language', nextLanguage);
+    if (!saved) setLanguageState(previous);
+    return saved;
+  };
+
+  const setRegion = async (nextRegion: string): Promise<boolean> => {
+    const previous = region;
+    setRegionState(nextRegion);
+    const saved = await saveSetting('region', nextRegion);
+    if (!saved) setRegionState(previous);
+    return saved;
+  };
+
+  useEffect(() => {
+    fetchUserSettings();
+
+    if (!user?.id || !hasValidSupabaseConfig) {
+      return;
+    }
+
+    const channel = supabase
+      .channel(`user_settings_context:${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: '*',
+          schema: 'public',
+          table: 'user_settings',
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          if (payload.new) {
+            applySettingsRow(payload.new);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      try {
+        supabase.removeChannel(channel);
+      } catch (error) {
+        // Silently handle cleanup errors
+      }
+    };
+  }, [user?.id]);
+
+  const formatDistance = useCallback(
+    (km: number, decimals?: number) => formatDistanceForSystem(km, unitSystem, decimals),
+    [unitSystem]
+  );
+  const formatDistanceMeters = useCallback(
+    (meters: number, decimals?: number) => formatDistanceMetersForSystem(meters, unitSystem, decimals),
+    [unitSystem]
+  );
+  const formatRadius = useCallback((meters: number) => formatRadiusForSystem(meters, unitSystem), [unitSystem]);
+  const formatSpeed = useCallback((kmh: number) => formatSpeedForSystem(kmh, unitSystem), [unitSystem]);
+  const t = useCallback(
+    (key: TranslationKey, params?: TranslationParams) => translate(language, key, params),
+    [language]
+  );
+  const formatTimeAgo = useCallback(
+    (timestamp: string | number | Date) => formatTimeAgoForLanguage(timestamp, language),
+    [language]
+  );
+
+  return (
+    <UserSettingsContext.Provider
+      value={{
+        unitSystem,
+        language,
+        region,
+        locale: getLocaleTag(language, region),
+        loading,
+        speedUnit: getSpeedUnit(unitSystem),
+        distanceFilters: getDistanceFilters(unitSystem),
+        setUnitSystem,
+        setLanguage,
+        setRegion,
+        t,
+        formatTimeAgo,
+        formatDistance,
+        formatDistanceMeters,
+        formatRadius,
+        formatSpeed,
+        refreshSettings,
+      }}
+    >
+      {children}
+    </UserSettingsContext.Provider>
+  );
+};
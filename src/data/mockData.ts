@@ -80,8 +80,11 @@ export const mockIncidents: Incident[] = [
       isAnonymous: true,
     },
     upvotes: 12,
+    falseVotes: 0,
     confirmed: true,
     category: 'Robbery',
+    status: 'ongoing',
+    updateCount: 0,
   },
   {
     id: '2',
@@ -99,8 +102,11 @@ export const mockIncidents: Incident[] = [
       isAnonymous: false,
     },
     upvotes: 8,
+    falseVotes: 0,
     confirmed: true,
     category: 'Accident',
+    status: 'ongoing',
+    updateCount: 0,
   },
   {
     id: '3',
@@ -118,8 +124,11 @@ export const mockIncidents: Incident[] = [
       isAnonymous: true,
     },
     upvotes: 15,
+    falseVotes: 0,
     confirmed: true,
     category: 'Fire',
+    status: 'ongoing',
+    updateCount: 0,
   },
   {
     id: '4',
@@ -137,8 +146,11 @@ export const mockIncidents: Incident[] = [
       isAnonymous: false,
     },
     upvotes: 5,
+    falseVotes: 0,
     confirmed: false,
     category: 'Protest',
+    status: 'ongoing',
+    updateCount: 0,
   },
   {
     id: '5',
@@ -156,8 +168,11 @@ export const mockIncidents: Incident[] = [
       isAnonymous: true,
     },
     upvotes: 20,
+    falseVotes: 0,
     confirmed: true,
     category: 'Kidnapping',
+    status: 'ongoing',
+    updateCount: 0,
   },
 ];
 
@@ -186,3 +201,11 @@ export const distanceFilters: DistanceFilter[] = [
   { label: 'City', value: 50 },
 ];
 
+// Same filters for imperial users - values are still km
+export const imperialDistanceFilters: DistanceFilter[] = [
+  { label: '1 mi', value: 1.609344 },
+  { label: '3 mi', value: 4.828032 },
+  { label: '5 mi', value: 8.04672 },
+  { label: 'City', value: 50 },
+];
+
@@ -0,0 +1,105 @@
+/**
+ * Translation catalogs and locale helpers
+ * The language and region come from user_settings (Language & Region screen).
+ * Missing keys fall back to English. Edge Functions use the same language codes
+ * (supabase/functions/_shared/i18n.ts).
+ *
+ * Not translated: the screens before sign-in (Splash, Welcome, Login, Signup)
+ * and the ErrorBoundary fallback, since the language is only known once
+ * user_settings loads, and the long-form Help & Support, User Manual (including
+ * the Profile FAQ), Privacy Policy and Terms of Service pages, which need a
+ * reviewed translation rather than catalog strings. Push titles and bodies sent
+ * from the app stay in English like the other stored notification text.
+ */
+
+import en from './locales/en';
+import es from './locales/es';
+import fr from './locales/fr';
+import de from './locales/de';
+import zh from './locales/zh';
+import yo from './locales/yo';
+import ha from './locales/ha';
+import ig from './locales/ig';
+
+export type TranslationKey = keyof typeof en;
+export type TranslationCatalog = Record<TranslationKey, string>;
+export type TranslationParams = Record<string, string | number>;
+
+export type SupportedLanguage = 'en' | 'es' | 'fr' | 'de' | 'zh' | 'yo' | 'ha' | 'ig';
+
+export const DEFAULT_LANGUAGE: SupportedLanguage = 'en';
+export const DEFAULT_REGION = 'US';
+
+export const SUPPORTED_LANGUAGES: Array<{ code: SupportedLanguage; name: string; nativeName: string }> = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'zh', name: 'Chinese', nativeName: '中文' },
+  { code: 'yo', name: 'Yoruba', nativeName: 'Yorùbá' },
+  { code: 'ha', name: 'Hausa', nativeName: 'Hausa' },
+  { code: 'ig', name: 'Igbo', nativeName: 'Asụsụ Igbo' },
+];
+
+export const SUPPORTED_REGIONS: Array<{ code: string; name: string }> = [
+  { code: 'NG', name: 'Nigeria' },
+  { code: 'GH', name: 'Ghana' },
+  { code: 'US', name: 'United States' },
+  { code: 'GB', name: 'United Kingdom' },
+  { code: 'CA', name: 'Canada' },
+  { code: 'AU', name: 'Australia' },
+  { code: 'IN', name: 'India' },
+];
+
+const CATALOGS: Record<SupportedLanguage, TranslationCatalog> = { en, es, fr, de, zh, yo, ha, ig };
+
+/**
+ * Normalize a stored language code ('fr', 'fr-CA', 'FR') to a supported language
+ */
+export function normalizeLanguage(code: string | null | undefined): SupportedLanguage {
+  const base = (code || '').toLowerCase().split(/[-_]/)[0];
+  return base in CATALOGS ? (base as SupportedLanguage) : DEFAULT_LANGUAGE;
+}
+
+/**
+ * Translate a key, replacing {placeholders} with params
+ */
+export function translate(
+  language: string | null | undefined,
+  key: TranslationKey,
+  params?: TranslationParams
+): string {
+  const catalog = CATALOGS[normalizeLanguage(language)];
+  const template = catalog[key] ?? en[key] ?? key;
+
+  if (!params) return template;
+
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    params[name] !== undefined ? String(params[name]) : match
+  );
+}
+
+/**
+ * Build a BCP 47 locale tag for Intl formatting, e.g. 'yo-NG'
+ */
+export function getLocaleTag(language: string | null | undefined, region?: string | null): string {
+  const lang = normalizeLanguage(language);
+  return region ? `${lang}-${region.toUpperCase()}` : lang;
+}
+
+/**
+ * Format a date with Intl, falling back to English when the runtime has no data
+ * for the locale (Hermes ships a limited set of locales)
+ */
+export function formatLocaleDate(
+  date: Date,
+  locale: string,
+  options: Intl.DateTimeFormatOptions
+): string {
+  try {
+    const supported = Intl.DateTimeFormat.supportedLocalesOf([locale]);
+    return date.toLocaleString(supported.length > 0 ? locale : 'en-US', options);
+  } catch {
+    return date.toLocaleString('en-US', options);
+  }
+}
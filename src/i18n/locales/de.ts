@@ -0,0 +1,998 @@
+import type { TranslationCatalog } from '../index';
+
+// German
+const de: TranslationCatalog = {
+  'common.error': 'Fehler',
+  'common.success': 'Erfolg',
+  'common.ok': 'OK',
+  'common.cancel': 'Abbrechen',
+  'common.save': 'Speichern',
+  'common.delete': 'Löschen',
+  'common.loadingSettings': 'Einstellungen werden geladen...',
+  'common.tryAgain': 'Etwas ist schiefgelaufen. Bitte versuche es erneut.',
+  'common.openSettings': 'Einstellungen öffnen',
+
+  'tabs.home': 'Start',
+  'tabs.incidents': 'Vorfälle',
+  'tabs.connections': 'Kontakte',
+  'tabs.profile': 'Profil',
+
+  'profile.personalInformation': 'Persönliche Daten',
+  'profile.editProfile': 'Profil bearbeiten',
+  'profile.connections': 'Kontakte',
+  'profile.circles': 'Kreise und Rollen',
+  'profile.emergencyNotes': 'Notfallnotizen',
+  'profile.safetyPrivacy': 'Sicherheit & Datenschutz',
+  'profile.shareLocation': 'Standort teilen',
+  'profile.communityReports': 'Community-Meldungen',
+  'profile.locationAccuracy': 'Standortgenauigkeit',
+  'profile.locationUpdateFrequency': 'Aktualisierungshäufigkeit',
+  'profile.notifications': 'Benachrichtigungen',
+  'profile.pushNotifications': 'Push-Benachrichtigungen',
+  'profile.testPushNotification': 'Test-Benachrichtigung senden',
+  'profile.sleepMode': 'Ruhemodus',
+  'profile.notificationFilters': 'Benachrichtigungsfilter',
+  'profile.accountLock': 'SOS-Sperre',
+  'profile.appSettings': 'App-Einstellungen',
+  'profile.languageRegion': 'Sprache & Region',
+  'profile.units': 'Einheiten (km / Meilen)',
+  'profile.batterySaving': 'Energiesparmodus',
+  'profile.offlineMaps': 'Offline-Karten',
+  'profile.usersManual': 'Benutzerhandbuch',
+  'profile.helpSupport': 'Hilfe & Support',
+  'profile.privacyPolicy': 'Datenschutzerklärung',
+  'profile.termsOfService': 'Nutzungsbedingungen',
+  'profile.accountManagement': 'Kontoverwaltung',
+  'profile.deleteAccount': 'Konto löschen',
+  'profile.deleteAccountWebsite': 'Konto über die Website löschen',
+  'profile.signOut': 'Abmelden',
+
+  'languageRegion.title': 'Sprache & Region',
+  'languageRegion.language': 'Sprache',
+  'languageRegion.region': 'Region',
+  'languageRegion.saveLanguageFailed': 'Sprache konnte nicht gespeichert werden. Bitte versuche es erneut.',
+  'languageRegion.saveRegionFailed': 'Region konnte nicht gespeichert werden. Bitte versuche es erneut.',
+
+  'units.title': 'Einheiten',
+  'units.description': 'Wähle dein Einheitensystem für Entfernungen, Geschwindigkeiten und Warnungen.',
+  'units.metric': 'Metrisch (km, m)',
+  'units.metricSubtitle': 'Kilometer und Meter',
+  'units.imperial': 'Imperial (Meilen, Fuß)',
+  'units.imperialSubtitle': 'Meilen und Fuß',
+  'units.saveFailed': 'Einheitensystem konnte nicht gespeichert werden. Bitte versuche es erneut.',
+
+  'incidents.safetyFeed': 'Sicherheits-Feed',
+  'incidents.distanceAway': '{distance} entfernt',
+  'incidents.category.robbery': 'Raub',
+  'incidents.category.kidnapping': 'Entführung',
+  'incidents.category.accident': 'Unfall',
+  'incidents.category.fire': 'Brand',
+  'incidents.category.protest': 'Protest',
+  'incidents.category.assault': 'Körperverletzung',
+  'incidents.category.theft': 'Diebstahl',
+  'incidents.category.other': 'Sonstiges',
+
+  'time.justNow': 'Gerade eben',
+  'time.minuteAgo': 'vor 1 Minute',
+  'time.minutesAgo': 'vor {count} Minuten',
+  'time.hourAgo': 'vor 1 Stunde',
+  'time.hoursAgo': 'vor {count} Stunden',
+  'time.dayAgo': 'vor 1 Tag',
+  'time.daysAgo': 'vor {count} Tagen',
+  'time.weekAgo': 'vor 1 Woche',
+  'time.weeksAgo': 'vor {count} Wochen',
+  'time.monthAgo': 'vor 1 Monat',
+  'time.monthsAgo': 'vor {count} Monaten',
+  'time.yearAgo': 'vor 1 Jahr',
+  'time.yearsAgo': 'vor {count} Jahren',
+  'time.todayAt': 'Heute um {time}',
+  'time.yesterdayAt': 'Gestern um {time}',
+  'time.dateAt': '{date} um {time}',
+
+  'lastSeen.onlineNow': 'Jetzt online',
+  'lastSeen.active': 'Aktiv {time}',
+  'lastSeen.lastSeen': 'Zuletzt gesehen {time}',
+
+  'checkIn.title': 'Sicherheits-Check-in',
+  'checkIn.subtitle': 'Lass deine Kontakte wissen, dass du sicher bist',
+  'checkIn.quickCheckIn': 'Schnell-Check-in',
+  'checkIn.imSafe': 'Ich bin sicher',
+  'checkIn.delayed': 'Verspätet',
+  'checkIn.checkingIn': 'Check-in läuft...',
+  'checkIn.lastCheckIn': 'Letzter Check-in',
+  'checkIn.recentCheckIns': 'Letzte Check-ins',
+  'checkIn.status.safe': 'SICHER',
+  'checkIn.status.unsafe': 'IN GEFAHR',
+  'checkIn.status.delayed': 'VERSPÄTET',
+  'checkIn.status.missed': 'VERPASST',
+  'checkIn.successTitle': '✅ Check-in erfolgreich',
+  'checkIn.successMessage': 'Dein Sicherheitsstatus wurde aktualisiert.',
+  'checkIn.failed': 'Check-in fehlgeschlagen. Bitte versuche es erneut.',
+  'checkIn.settingsTitle': 'Check-in-Einstellungen',
+  'checkIn.autoCheckInsEnabled': 'Automatische Check-ins: aktiviert',
+  'checkIn.autoCheckInsDisabled': 'Automatische Check-ins: deaktiviert',
+  'checkIn.interval': 'Intervall: alle {minutes} Minuten',
+  'checkIn.emergencyContacts': 'Notfallkontakte: {count}',
+
+  'notificationFilters.sosAlert': 'SOS-Alarme',
+  'notificationFilters.sosAlertSubtitle': 'Notfallalarme deiner Kontakte',
+  'notificationFilters.sosResponse': 'SOS-Antworten',
+  'notificationFilters.sosResponseSubtitle': 'Wer auf einen SOS reagiert',
+  'notificationFilters.checkInEmergency': 'Notfall-Check-ins',
+  'notificationFilters.checkInEmergencySubtitle': 'Kontakte, die einen Notfall melden',
+  'notificationFilters.checkInUnsafe': 'Gefahren-Check-ins',
+  'notificationFilters.checkInUnsafeSubtitle': 'Kontakte, die sich nicht sicher fühlen',
+  'notificationFilters.missedCheckIn': 'Verpasste Check-ins',
+  'notificationFilters.missedCheckInSubtitle': 'Kontakte, die einen geplanten Check-in verpasst haben',
+  'notificationFilters.tripOverdue': 'Überfällige Fahrten',
+  'notificationFilters.tripOverdueSubtitle': 'Fahrten, die zu lange dauern oder keine Meldungen mehr senden',
+  'notificationFilters.incidentProximity': 'Vorfälle in der Nähe',
+  'notificationFilters.incidentProximitySubtitle': 'Vorfälle, die in deiner Nähe gemeldet wurden',
+  'notificationFilters.incident': 'Vorfallmeldungen',
+  'notificationFilters.incidentSubtitle': 'Neue Vorfälle im Sicherheitsfeed',
+  'notificationFilters.placeArrival': 'Ankunft an Orten',
+  'notificationFilters.placeArrivalSubtitle': 'Kontakte, die an deinen Orten ankommen',
+  'notificationFilters.placeDeparture': 'Verlassen von Orten',
+  'notificationFilters.placeDepartureSubtitle': 'Kontakte, die deine Orte verlassen',
+  'notificationFilters.checkIn': 'Check-ins',
+  'notificationFilters.checkInSubtitle': 'Regelmäßige Check-ins deiner Kontakte',
+  'notificationFilters.tripStarted': 'Fahrt gestartet',
+  'notificationFilters.tripStartedSubtitle': 'Kontakte, die eine Fahrt mit dir teilen',
+  'notificationFilters.tripArrived': 'Ankunft von Fahrten',
+  'notificationFilters.tripArrivedSubtitle': 'Kontakte, die an ihrem Ziel ankommen',
+  'notificationFilters.tripCancelled': 'Fahrt abgebrochen',
+  'notificationFilters.tripCancelledSubtitle': 'Kontakte, die eine geteilte Fahrt vorzeitig beenden',
+  'notificationFilters.travelAdvisory': 'Reisehinweise',
+  'notificationFilters.travelAdvisorySubtitle': 'Sicherheitshinweise für deine Fahrten',
+  'notificationFilters.routeRisk': 'Routenrisiko',
+  'notificationFilters.routeRiskSubtitle': 'Risikowarnungen für geplante Routen',
+  'notificationFilters.connectionAdded': 'Neue Kontakte',
+  'notificationFilters.connectionAddedSubtitle': 'Jemand hat dich als Kontakt hinzugefügt',
+  'notificationFilters.locationReminder': 'Standorterinnerungen',
+  'notificationFilters.locationReminderSubtitle': 'Erinnerungen, deinen Standort zu aktualisieren',
+  'notificationFilters.morningGreeting': 'Morgengruß',
+  'notificationFilters.morningGreetingSubtitle': 'Tägliche Guten-Morgen-Nachricht',
+  'notificationFilters.afternoonGreeting': 'Nachmittagsgruß',
+  'notificationFilters.afternoonGreetingSubtitle': 'Tägliche Guten-Tag-Nachricht',
+  'notificationFilters.appUpdate': 'App-Updates',
+  'notificationFilters.appUpdateSubtitle': 'Neue Versionen von FamGuard',
+  'notificationFilters.title': 'Benachrichtigungsfilter',
+  'notificationFilters.description': 'Wähle, welche Push-Benachrichtigungen du erhältst. SOS-Alarme und Notfall-Check-ins kommen immer durch, auch von stummgeschalteten Kontakten.',
+  'notificationFilters.safetyAlerts': 'Sicherheitsalarme',
+  'notificationFilters.alerts': 'Hinweise',
+  'notificationFilters.updatesGreetings': 'Neuigkeiten & Grüße',
+  'notificationFilters.connections': 'Kontakte',
+  'notificationFilters.noConnections': 'Du hast noch keine Kontakte.',
+  'notificationFilters.alwaysOn': 'Immer an',
+  'notificationFilters.connectionMuted': 'Stumm - nur Sicherheitsalarme',
+  'notificationFilters.connectionAll': 'Alle Benachrichtigungen',
+  'notificationFilters.saveFailed': 'Filter konnte nicht gespeichert werden. Bitte versuche es erneut.',
+
+  'findContacts.title': 'Kontakte finden',
+  'findContacts.introTitle': 'Finde Leute, die du kennst',
+  'findContacts.introDescription': 'Sieh nach, welche deiner Kontakte FamGuards schon nutzen, und verbinde dich mit einem Tippen oder lade die anderen ein. Nummern bleiben auf deinem Telefon - nur ein Einweg-Hash jeder Nummer wird geprüft.',
+  'findContacts.search': 'Kontakte durchsuchen',
+  'findContacts.regionHint': 'Nummern ohne Landesvorwahl werden als {region} gelesen.',
+  'findContacts.changeRegion': 'Region ändern',
+  'findContacts.noMatches': 'Keine Kontakte entsprechen deiner Suche.',
+  'findContacts.noValidNumbers': 'Es wurden keine Kontakte mit gültigen Telefonnummern gefunden.',
+  'findContacts.onFamGuards': 'Bei FamGuards',
+  'findContacts.inviteToFamGuards': 'Zu FamGuards einladen',
+  'findContacts.userOnFamGuards': '{name} bei FamGuards',
+  'findContacts.connected': 'Verbunden',
+  'findContacts.invited': 'Eingeladen',
+  'findContacts.connect': 'Verbinden',
+  'findContacts.invite': 'Einladen',
+  'findContacts.someNotChecked': 'Einige Kontakte nicht geprüft',
+  'findContacts.accessNeeded': 'Zugriff auf Kontakte erforderlich',
+  'findContacts.accessNeededMessage': 'Erlaube in den Einstellungen den Zugriff auf deine Kontakte, um Leute zu finden, die du kennst.',
+  'findContacts.inviteFailed': 'Einladung konnte nicht gesendet werden. Bitte versuche es erneut.',
+  'findContacts.inviteLinkFailed': 'Einladung konnte nicht erstellt werden. Bitte versuche es erneut.',
+  'findContacts.messagesUnavailable': 'Deine Nachrichten-App konnte nicht geöffnet werden.',
+
+  'sosEvent.status.active': 'Braucht Hilfe',
+  'sosEvent.status.responderEnRoute': 'Helfer unterwegs',
+  'sosEvent.status.resolved': 'Gelöst',
+  'sosEvent.status.falseAlarm': 'Fehlalarm',
+  'sosEvent.title': 'SOS',
+  'sosEvent.loading': 'SOS wird geladen...',
+  'sosEvent.unavailable': 'Dieser SOS ist nicht mehr verfügbar.',
+  'sosEvent.yourSos': 'Dein SOS',
+  'sosEvent.silentWarning': 'Stiller SOS - {name} steht möglicherweise unter Zwang. Nicht anrufen oder schreiben.',
+  'sosEvent.started': 'Gestartet',
+  'sosEvent.lastLocation': 'Letzter Standort',
+  'sosEvent.near': 'In der Nähe von',
+  'sosEvent.closed': 'Geschlossen',
+  'sosEvent.imResponding': 'Ich helfe',
+  'sosEvent.cantHelp': 'Kann nicht helfen',
+  'sosEvent.openLiveMap': 'Live-Karte öffnen',
+  'sosEvent.responders': 'Helfer ({count})',
+  'sosEvent.noResponders': 'Noch hat niemand reagiert.',
+  'sosEvent.responderResponding': '{name} - hilft',
+  'sosEvent.responderCantHelp': '{name} - kann nicht helfen',
+  'sosEvent.addNoteTitle': 'Notiz hinzufügen',
+  'sosEvent.notePlaceholder': 'z. B. Polizei wurde gerufen',
+  'sosEvent.addNote': 'Notiz hinzufügen',
+  'sosEvent.resolve': 'Lösen',
+  'sosEvent.falseAlarm': 'Fehlalarm',
+  'sosEvent.closeHint': 'Deine Notiz wird beim Schließen des SOS zur Zeitleiste hinzugefügt.',
+  'sosEvent.timeline': 'Zeitleiste',
+  'sosEvent.locationTrail': 'Standortverlauf ({count})',
+  'sosEvent.noLocations': 'Noch keine Standorte aufgezeichnet.',
+  'sosEvent.showLess': 'Weniger anzeigen',
+  'sosEvent.showAllLocations': 'Alle {count} Standorte anzeigen',
+  'sosEvent.resolveTitle': 'SOS lösen',
+  'sosEvent.resolveMessage': 'Löse den SOS erst, wenn du weißt, dass {name} sicher ist.',
+  'sosEvent.falseAlarmTitle': 'Als Fehlalarm markieren',
+  'sosEvent.falseAlarmMessage': 'Diesen SOS als Fehlalarm schließen? Die Kontakte von {name} sehen das in der Zeitleiste.',
+  'sosEvent.respondFailed': 'Antwort fehlgeschlagen. Bitte versuche es erneut.',
+  'sosEvent.noteFailed': 'Notiz konnte nicht hinzugefügt werden. Bitte versuche es erneut.',
+  'sosEvent.closeFailed': 'SOS konnte nicht geschlossen werden. Bitte versuche es erneut.',
+  'sosEvent.you': 'Du',
+  'sosEvent.someone': 'Jemand',
+  'sosEvent.them': 'die Person',
+  'sosEvent.update.opened': '{actor} hat einen SOS gesendet',
+  'sosEvent.update.acknowledged': '{actor} hilft',
+  'sosEvent.update.acknowledgedYou': 'Du hilfst',
+  'sosEvent.update.called': '{actor} hat {name} angerufen',
+  'sosEvent.update.cantHelp': '{actor} kann nicht helfen',
+  'sosEvent.update.statusChanged': '{actor} hat den Status auf {status} geändert',
+  'sosEvent.update.note': '{actor} hat eine Notiz hinzugefügt',
+  'sosEvent.statusUnknown': 'unbekannt',
+
+  'trip.title': 'Fahrt',
+  'trip.description': 'Teile eine Fahrt live mit ausgewählten Kontakten. Kommst du nicht rechtzeitig an oder sendet dein Telefon keine Meldungen mehr, werden sie über deine Check-in-Eskalation alarmiert.',
+  'trip.loading': 'Fahrten werden geladen...',
+  'trip.yourTrip': 'Deine Fahrt',
+  'trip.startATrip': 'Fahrt starten',
+  'trip.following': 'Fahrten, denen du folgst',
+  'trip.noneFollowing': 'Keine Kontakte teilen eine Fahrt mit dir.',
+  'trip.connection': 'Kontakt',
+  'trip.overdue': 'Überfällig',
+  'trip.expectedAt': 'Erwartet {time}',
+  'trip.distanceLeft': ' · noch {distance}',
+  'trip.overdueNoSignal': 'Dein Standort wird nicht mehr gemeldet. Deine Kontakte wurden alarmiert.',
+  'trip.overdueLate': 'Deine erwartete Ankunftszeit ist überschritten. Deine Kontakte wurden alarmiert.',
+  'trip.expectedArrival': 'Erwartete Ankunft',
+  'trip.distanceLeftLabel': 'Verbleibende Strecke',
+  'trip.lastUpdate': 'Letzte Aktualisierung',
+  'trip.sharedWith': 'Geteilt mit',
+  'trip.autoArrivalHint': 'Die Ankunft wird automatisch bestätigt, wenn du dein Ziel erreichst.',
+  'trip.imArrived': 'Ich bin angekommen',
+  'trip.cancelTrip': 'Fahrt abbrechen',
+  'trip.keepTrip': 'Fahrt behalten',
+  'trip.cancelMessage': 'Diese Fahrt nicht mehr mit deinen Kontakten teilen?',
+  'trip.destination': 'Ziel',
+  'trip.destinationPlaceholder': 'z. B. 12 Allen Avenue, Ikeja',
+  'trip.travelTime': 'Erwartete Fahrzeit',
+  'trip.minutesShort': '{count} Min.',
+  'trip.hoursShort': '{count} Std.',
+  'trip.whoCanFollow': 'Wer dieser Fahrt folgen kann',
+  'trip.addConnectionFirst': 'Füge zuerst einen Kontakt hinzu, um Fahrten zu teilen.',
+  'trip.startTrip': 'Fahrt starten',
+  'trip.enterDestination': 'Bitte gib ein Ziel ein.',
+  'trip.chooseWatcher': 'Bitte wähle mindestens einen Kontakt, der deiner Fahrt folgt.',
+  'trip.destinationNotFound': 'Ziel nicht gefunden',
+  'trip.destinationNotFoundMessage': 'Versuche eine genauere Adresse oder einen Ortsnamen.',
+  'trip.startFailedActive': 'Fahrt konnte nicht gestartet werden. Möglicherweise läuft bereits eine Fahrt.',
+  'trip.startFailed': 'Fahrt konnte nicht gestartet werden. Bitte versuche es erneut.',
+  'trip.confirmArrivalFailed': 'Ankunft konnte nicht bestätigt werden. Bitte versuche es erneut.',
+  'trip.arrived': 'Angekommen',
+  'trip.arrivedMessage': 'Deine Kontakte wurden informiert, dass du sicher angekommen bist.',
+  'trip.cancelFailed': 'Fahrt konnte nicht abgebrochen werden. Bitte versuche es erneut.',
+
+  'circles.title': 'Kreise & Rollen',
+  'circles.description': 'Ordne deine Kontakte in Kreise und wähle, was jeder Kreis erhält. Kontakte, die in keinem Kreis sind, erhalten alles. Solange du nach einem SOS gesperrt bist, sieht jeder Kontakt deinen Standort.',
+  'circles.loading': 'Kreise werden geladen...',
+  'circles.newCircle': 'Neuer Kreis',
+  'circles.namePlaceholder': 'Name des Kreises, z. B. Familie',
+  'circles.createCircle': 'Kreis erstellen',
+  'circles.yourCircles': 'Deine Kreise',
+  'circles.noCircles': 'Du hast noch keine Kreise. Jeder Kontakt erhält deinen Standort und alle Alarme.',
+  'circles.roles': 'Rollen',
+  'circles.members': 'Mitglieder',
+  'circles.memberCount': '1 Mitglied',
+  'circles.membersCount': '{count} Mitglieder',
+  'circles.noMembers': 'Noch niemand ist in diesem Kreis.',
+  'circles.allInCircle': 'Alle deine Kontakte sind in diesem Kreis.',
+  'circles.done': 'Fertig',
+  'circles.addConnections': 'Kontakte hinzufügen',
+  'circles.formerConnection': 'Ehemaliger Kontakt',
+  'circles.setting.shareLocation': 'Standort teilen',
+  'circles.setting.shareLocationSubtitle': 'Mitglieder sehen deinen Live-Standort',
+  'circles.setting.sosAlerts': 'SOS-Alarme',
+  'circles.setting.sosAlertsSubtitle': 'Mitglieder werden alarmiert, wenn du einen SOS sendest',
+  'circles.setting.checkInAlerts': 'Check-in-Alarme',
+  'circles.setting.checkInAlertsSubtitle': 'Mitglieder erhalten deine Check-ins und verpassten Check-ins',
+  'circles.setting.unlockApproval': 'Entsperrfreigabe',
+  'circles.setting.unlockApprovalSubtitle': 'Mitglieder können das Entsperren deines Kontos freigeben',
+  'circles.preset.family': 'Familie',
+  'circles.preset.work': 'Arbeit',
+  'circles.preset.neighbors': 'Nachbarn',
+  'circles.role.guardian': 'Beschützer',
+  'circles.role.guardianSubtitle': 'Erhält immer Alarme und deinen Standort und kann Entsperrungen freigeben',
+  'circles.role.member': 'Mitglied',
+  'circles.role.memberSubtitle': 'Folgt den Einstellungen des Kreises',
+  'circles.role.dependent': 'Schutzbefohlener',
+  'circles.role.dependentSubtitle': 'Folgt den Einstellungen des Kreises, kann aber nie Entsperrungen freigeben',
+  'circles.nameTitle': 'Name des Kreises',
+  'circles.nameRequired': 'Bitte gib einen Namen für den Kreis ein.',
+  'circles.nameTaken': 'Du hast bereits einen Kreis namens {name}.',
+  'circles.createFailed': 'Kreis konnte nicht erstellt werden. Bitte versuche es erneut.',
+  'circles.saveFailed': 'Einstellungen des Kreises konnten nicht gespeichert werden. Bitte versuche es erneut.',
+  'circles.deleteTitle': 'Kreis löschen',
+  'circles.deleteMessage': '{name} löschen? Kontakte, die in keinem anderen Kreis sind, erhalten wieder alle Alarme und deinen Standort.',
+  'circles.deleteFailed': 'Kreis konnte nicht gelöscht werden. Bitte versuche es erneut.',
+  'circles.addFailed': 'Kontakt konnte nicht hinzugefügt werden. Bitte versuche es erneut.',
+  'circles.roleFailed': 'Rolle konnte nicht geändert werden. Bitte versuche es erneut.',
+  'circles.removeFailed': 'Kontakt konnte nicht entfernt werden. Bitte versuche es erneut.',
+  'circles.roleIn': 'Rolle in {circle}',
+  'circles.makeRole': 'Zu {role} machen',
+  'circles.removeFrom': 'Aus {circle} entfernen',
+
+  'accountLock.event.locked': 'Konto gesperrt',
+  'accountLock.event.unlockApproved': 'Entsperrung freigegeben',
+  'accountLock.event.unlocked': 'Konto entsperrt',
+  'accountLock.event.pinFailed': 'Falsche PIN eingegeben',
+  'accountLock.event.pinSet': 'PIN festgelegt',
+  'accountLock.event.pinRemoved': 'PIN entfernt',
+  'accountLock.method.sos': 'nach SOS',
+  'accountLock.method.pin': 'mit PIN',
+  'accountLock.method.quorum': 'durch Kontakte',
+  'accountLock.method.admin': 'durch den Support',
+  'accountLock.byActor': 'durch {name}',
+  'accountLock.description': 'Nach einem SOS wird dein Konto gesperrt. Wähle, wie es wieder entsperrt werden kann.',
+  'accountLock.unlockPin': 'Entsperr-PIN',
+  'accountLock.pinSet': 'PIN ist festgelegt',
+  'accountLock.noPin': 'Keine PIN festgelegt',
+  'accountLock.pinDescription': 'Damit entsperrst du dein Konto selbst auf dem Sperrbildschirm. Halte sie geheim.',
+  'accountLock.newPinPlaceholder': 'Neue PIN (4-8 Ziffern)',
+  'accountLock.confirmPinPlaceholder': 'PIN bestätigen',
+  'accountLock.savePin': 'PIN speichern',
+  'accountLock.remove': 'Entfernen',
+  'accountLock.changePin': 'PIN ändern',
+  'accountLock.setPin': 'PIN festlegen',
+  'accountLock.silentSos': 'Stiller SOS',
+  'accountLock.duressPinSet': 'Notfall-PIN ist festgelegt',
+  'accountLock.noDuressPin': 'Keine Notfall-PIN festgelegt',
+  'accountLock.duressDescription': 'Die Eingabe deiner Notfall-PIN auf dem Sperrbildschirm entsperrt die App wie gewohnt, alarmiert aber still deine Kontakte und teilt weiter deinen genauen Standort.',
+  'accountLock.holdDescription': 'Du kannst auch die Notfallalarm-Taste auf dem Startbildschirm 3 Sekunden lang gedrückt halten. Auf dem Bildschirm ändert sich nichts. Nur ein Kontakt kann einen stillen SOS beenden.',
+  'accountLock.setPinFirst': 'Lege zuerst eine Entsperr-PIN fest, um eine Notfall-PIN hinzuzufügen.',
+  'accountLock.duressPinPlaceholder': 'Notfall-PIN (4-8 Ziffern)',
+  'accountLock.confirmDuressPinPlaceholder': 'Notfall-PIN bestätigen',
+  'accountLock.changeDuressPin': 'Notfall-PIN ändern',
+  'accountLock.setDuressPin': 'Notfall-PIN festlegen',
+  'accountLock.approvals': 'Freigaben durch Kontakte',
+  'accountLock.approvalsDescription': 'Wie viele Kontakte zustimmen müssen, bevor dein Konto entsperrt wird. Begrenzt auf die Zahl deiner Kontakte zu Beginn der Sperre.',
+  'accountLock.history': 'Sperrverlauf',
+  'accountLock.noHistory': 'Noch keine Sperraktivität.',
+  'accountLock.invalidPin': 'Ungültige PIN',
+  'accountLock.invalidPinMessage': 'Deine PIN muss 4 bis 8 Ziffern haben.',
+  'accountLock.invalidDuressPinMessage': 'Deine Notfall-PIN muss 4 bis 8 Ziffern haben.',
+  'accountLock.pinMismatch': 'PINs stimmen nicht überein',
+  'accountLock.pinMismatchMessage': 'Bitte gib zweimal dieselbe PIN ein.',
+  'accountLock.savePinFailed': 'PIN konnte nicht gespeichert werden. Bitte versuche es erneut.',
+  'accountLock.removePinTitle': 'PIN entfernen',
+  'accountLock.removePinMessage': 'Ohne PIN können nur deine Kontakte dein Konto nach einem SOS entsperren. Deine Notfall-PIN wird ebenfalls entfernt.',
+  'accountLock.removePinFailed': 'PIN konnte nicht entfernt werden. Bitte versuche es erneut.',
+  'accountLock.saveDuressPinFailed': 'Notfall-PIN konnte nicht gespeichert werden. Bitte versuche es erneut.',
+  'accountLock.removeDuressPinTitle': 'Notfall-PIN entfernen',
+  'accountLock.removeDuressPinMessage': 'Du kannst weiterhin einen stillen SOS senden, indem du die Notfallalarm-Taste gedrückt hältst.',
+  'accountLock.removeDuressPinFailed': 'Notfall-PIN konnte nicht entfernt werden. Bitte versuche es erneut.',
+  'accountLock.saveQuorumFailed': 'Entsperrfreigaben konnten nicht gespeichert werden. Bitte versuche es erneut.',
+
+  'notifications.title': 'Benachrichtigungen',
+  'notifications.markAllRead': 'Alle als gelesen markieren',
+  'notifications.emptyTitle': 'Keine Benachrichtigungen',
+  'notifications.emptyText': 'Du bist auf dem neuesten Stand!',
+  'notifications.alertLevel.danger': 'GEFAHR',
+  'notifications.alertLevel.warning': 'WARNUNG',
+  'notifications.alertLevel.alert': 'ALARM',
+  'notifications.markAllReadFailed': 'Benachrichtigungen konnten nicht als gelesen markiert werden.',
+  'notifications.locationPermissionTitle': 'Standortberechtigung erforderlich',
+  'notifications.locationPermissionMessage': 'Um deinen Standort zu aktualisieren, erteile bitte die Standortberechtigung in den Einstellungen.',
+  'notifications.permissionTitle': 'Berechtigung erforderlich',
+  'notifications.permissionMessage': 'Zum Aktualisieren deines Standorts ist die Standortberechtigung erforderlich.',
+  'notifications.locationUpdatedTitle': 'Standort aktualisiert',
+  'notifications.locationUpdatedMessage': 'Dein Standort wurde erfolgreich aktualisiert.',
+  'notifications.locationErrorTitle': 'Standortfehler',
+  'notifications.locationErrorMessage': 'Dein aktueller Standort konnte nicht ermittelt werden. Bitte prüfe deine Standorteinstellungen.',
+  'notifications.updateLocationFailed': 'Standort konnte nicht aktualisiert werden. Bitte versuche es erneut.',
+  'notifications.emergencyLocation': 'Notfallstandort',
+  'notifications.placeAlert': 'Ortsalarm',
+
+  'reportIncident.title': 'Vorfall melden',
+  'reportIncident.subtitle': 'Hilf mit, deine Umgebung sicher zu halten',
+  'reportIncident.type': 'Art des Vorfalls',
+  'reportIncident.titleLabel': 'Titel',
+  'reportIncident.titlePlaceholder': 'Kurzer Titel für den Vorfall',
+  'reportIncident.descriptionLabel': 'Beschreibung',
+  'reportIncident.descriptionPlaceholder': 'Beschreibe, was wann passiert ist, und alle wichtigen Details...',
+  'reportIncident.media': 'Fotos & Videos',
+  'reportIncident.camera': 'Kamera',
+  'reportIncident.library': 'Mediathek',
+  'reportIncident.mediaHint': 'Standortdaten werden vor dem Hochladen aus Fotos und Videos entfernt. Videos bis {seconds} Sekunden.',
+  'reportIncident.location': 'Ort',
+  'reportIncident.gettingLocation': 'Standort wird ermittelt...',
+  'reportIncident.retry': 'Erneut versuchen',
+  'reportIncident.noLocation': 'Kein Standort verfügbar',
+  'reportIncident.visibilityHint': 'Nur Nutzer in der Nähe (im Umkreis von {distance}) sehen diese Meldung',
+  'reportIncident.when': 'Wann ist das passiert?',
+  'reportIncident.happeningNow': 'Passiert gerade',
+  'reportIncident.happenedEarlier': 'Früher passiert',
+  'reportIncident.anonymous': 'Anonym melden',
+  'reportIncident.anonymousHint': 'Deinen Namen öffentlich ausblenden (wird zur Sicherheit intern gespeichert)',
+  'reportIncident.info': 'Deine Meldung hilft, die Gemeinschaft sicher zu halten. Falschmeldungen können zur Sperrung des Kontos führen.',
+  'reportIncident.uploading': 'Wird hochgeladen...',
+  'reportIncident.submitting': 'Wird gesendet...',
+  'reportIncident.submit': 'Meldung senden',
+  'reportIncident.mediaStatus.preparing': 'Wird vorbereitet...',
+  'reportIncident.mediaStatus.done': 'Hochgeladen',
+  'reportIncident.mediaStatus.queued': 'In Warteschlange',
+  'reportIncident.mediaStatus.failed': 'Fehlgeschlagen',
+  'reportIncident.mediaStatus.unsupportedFormat': 'Format nicht unterstützt',
+  'reportIncident.mediaStatus.tooLong': 'Zu lang',
+  'reportIncident.mediaStatus.limitReached': 'Limit erreicht',
+  'reportIncident.thisLocation': 'diesem Ort',
+  'reportIncident.autoTitle.robbery': 'Raub gemeldet',
+  'reportIncident.autoTitle.kidnapping': 'Verdächtige Aktivität gemeldet',
+  'reportIncident.autoTitle.accident': 'Verkehrsunfall gemeldet',
+  'reportIncident.autoTitle.fire': 'Brand gemeldet',
+  'reportIncident.autoTitle.protest': 'Protestversammlung gemeldet',
+  'reportIncident.autoTitle.assault': 'Körperverletzung gemeldet',
+  'reportIncident.autoTitle.theft': 'Diebstahl gemeldet',
+  'reportIncident.autoTitle.other': 'Vorfall gemeldet',
+  'reportIncident.autoDescription.robbery': 'Ein Raub wurde gemeldet.\n\nOrt: {address}\n\nBitte sei vorsichtig und meide die Gegend nach Möglichkeit. Die Behörden wurden informiert.',
+  'reportIncident.autoDescription.kidnapping': 'Verdächtige Aktivität im Zusammenhang mit einer Entführung wurde gemeldet.\n\nOrt: {address}\n\nBitte bleib wachsam und melde verdächtiges Verhalten sofort den Behörden.',
+  'reportIncident.autoDescription.accident': 'Ein Verkehrsunfall wurde gemeldet.\n\nOrt: {address}\n\nRettungskräfte sind im Einsatz. Rechne mit Verzögerungen und nutze nach Möglichkeit andere Strecken.',
+  'reportIncident.autoDescription.fire': 'Ein Brand wurde gemeldet.\n\nOrt: {address}\n\nDie Feuerwehr ist im Einsatz. Bitte meide die Gegend und folge den Anweisungen der Einsatzkräfte.',
+  'reportIncident.autoDescription.protest': 'Eine Protestversammlung wurde gemeldet.\n\nOrt: {address}\n\nRechne mit Verkehrsbehinderungen und sei vorsichtig, wenn du in der Gegend bist.',
+  'reportIncident.autoDescription.assault': 'Eine Körperverletzung wurde gemeldet.\n\nOrt: {address}\n\nBitte meide die Gegend und gib relevante Informationen an die Behörden weiter.',
+  'reportIncident.autoDescription.theft': 'Ein Diebstahl wurde gemeldet.\n\nOrt: {address}\n\nBitte sichere deine Sachen und melde verdächtige Aktivitäten.',
+  'reportIncident.autoDescription.other': 'Ein Vorfall wurde gemeldet.\n\nOrt: {address}\n\nBitte sei in der Gegend vorsichtig.',
+  'reportIncident.locationPermissionDenied': 'Standortberechtigung verweigert. Bitte aktiviere den Standortzugriff in den Einstellungen.',
+  'reportIncident.locationUnavailable': 'Standort konnte nicht ermittelt werden. Bitte versuche es erneut.',
+  'reportIncident.locationFailed': 'Standortabfrage fehlgeschlagen. Bitte versuche es erneut.',
+  'reportIncident.limitReached': 'Limit erreicht',
+  'reportIncident.limitReachedMessage': 'Du kannst bis zu {count} Fotos oder Videos anhängen.',
+  'reportIncident.permissionTitle': 'Berechtigung erforderlich',
+  'reportIncident.cameraPermission': 'Kamerazugriff ist nötig, um ein Foto oder Video des Vorfalls aufzunehmen.',
+  'reportIncident.libraryPermission': 'Zugriff auf die Mediathek ist nötig, um Fotos oder Videos anzuhängen.',
+  'reportIncident.videoTooLong': 'Video zu lang',
+  'reportIncident.videoTooLongMessage': 'Videos dürfen höchstens {seconds} Sekunden lang sein.',
+  'reportIncident.attachFailed': 'Medien konnten nicht angehängt werden. Bitte versuche es erneut.',
+  'reportIncident.requiredFields': 'Bitte fülle alle Pflichtfelder aus',
+  'reportIncident.locationRequired': 'Ein Standort ist erforderlich. Bitte warte, bis er geladen ist, oder aktualisiere.',
+  'reportIncident.invalidCoordinates': 'Ungültige Koordinaten. Bitte aktualisiere deinen Standort.',
+  'reportIncident.invalidLatitude': 'Ungültiger Breitengrad. Bitte aktualisiere deinen Standort.',
+  'reportIncident.invalidLongitude': 'Ungültiger Längengrad. Bitte aktualisiere deinen Standort.',
+  'reportIncident.submitted': 'Vorfall erfolgreich gemeldet.',
+  'reportIncident.mediaQueued': '{count} Foto(s)/Video(s) werden fertig hochgeladen, sobald deine Verbindung besser ist.',
+  'reportIncident.mediaFailed': '{count} Foto(s)/Video(s) konnten nicht angehängt werden.',
+  'reportIncident.submitFailed': 'Vorfall konnte nicht gemeldet werden. Bitte versuche es erneut.',
+
+  'home.visibleToConnections': 'Für Kontakte sichtbar',
+  'home.hiddenFromConnections': 'Für Kontakte verborgen',
+  'home.connectionCount': '1 Kontakt',
+  'home.connectionsCount': '{count} Kontakte',
+  'home.location': 'Standort',
+  'home.updating': 'Wird aktualisiert...',
+  'home.sharing': 'Wird geteilt',
+  'home.hidden': 'Verborgen',
+  'home.sharingOffTitle': 'Standortfreigabe ist aus',
+  'home.sharingOffMessage': 'Schalte die Standortfreigabe ein, damit deine Kontakte deinen Standort sehen und im Notfall reagieren können.',
+  'home.turnOn': 'Einschalten',
+  'home.emergency': 'Notfall',
+  'home.emergencyAlert': 'Notfallalarm',
+  'home.alertConnection': '1 Kontakt alarmieren',
+  'home.alertConnections': '{count} Kontakte alarmieren',
+  'home.quickActions': 'Schnellaktionen',
+  'home.reportIncidentSubtitle': 'Sicherheitsproblem melden',
+  'home.checkInSubtitle': 'Lass deine Kontakte wissen, dass es dir gut geht',
+  'home.emergencySent': 'Notfall gesendet',
+  'home.emergencyQueued': 'Notfall in Warteschlange',
+  'home.emergencySentMessage': 'Dein Notfallalarm wurde erfolgreich an deine Kontakte gesendet.',
+  'home.emergencyQueuedMessage': 'Einige Kontakte wurden noch nicht erreicht. FamGuard versucht es weiter, bis dein Alarm zugestellt ist.',
+  'home.continue': 'Weiter',
+  'home.recipient.notified': 'Benachrichtigt',
+  'home.recipient.appOff': 'App-Benachrichtigungen aus',
+  'home.recipient.retrying': 'Neuer Versuch...',
+  'home.recipient.smsReady': 'SMS bereit',
+  'home.recipient.smsUnavailable': 'SMS nicht verfügbar',
+  'home.permissionTitle': 'Berechtigung erforderlich',
+  'home.locationPermissionMessage': 'Zum Teilen deines Standorts mit Kontakten ist die Standortberechtigung erforderlich.',
+  'home.locationErrorTitle': 'Standortfehler',
+  'home.locationErrorMessage': 'Standort konnte nicht ermittelt werden. Bitte prüfe deine Standorteinstellungen.',
+  'home.toggleSharingFailed': 'Standortfreigabe konnte nicht geändert werden. Bitte versuche es erneut.',
+  'home.noConnections': 'Keine Kontakte',
+  'home.noConnectionsMessage': 'Du musst Kontakte hinzufügen, bevor du einen Notfallalarm senden kannst.',
+  'home.sendAlertTitle': 'Notfallalarm senden?',
+  'home.sendAlertMessageOne': 'Dadurch wird ein Notfallalarm an deinen 1 Kontakt gesendet.',
+  'home.sendAlertMessage': 'Dadurch wird ein Notfallalarm an alle {count} Kontakte gesendet.',
+  'home.sendAlert': 'Notfallalarm senden',
+  'home.alertWithoutLocation': 'Standort konnte nicht ermittelt werden. Der Notfallalarm wird ohne Standort gesendet.',
+  'home.sendAlertFailed': 'Notfallalarme konnten nicht gesendet werden. Bitte versuche es erneut.',
+
+  'map.title': 'Karte',
+  'map.timelineTitle': 'Standortverlauf',
+  'map.locationsCount': '{count} Standorte',
+  'map.location': 'Standort',
+  'map.tripDestination': 'Reiseziel',
+  'map.today': 'Heute',
+  'map.yesterday': 'Gestern',
+  'map.secondsShort': '{count} s',
+  'map.stoppedFor': '{duration} angehalten',
+  'map.trackingOffFor': 'Ortung aus {duration}',
+  'map.moving': 'Unterwegs · {speed}',
+  'map.playbackSummary': '{stops} Stopps · {distance} in {duration}',
+  'map.playbackGaps': '{count} Lücken',
+  'map.tapToSetCenter': 'Tippe auf die Karte, um die Mitte des Ortes festzulegen',
+  'map.tapToOutline': 'Tippe auf die Karte, um den Ort zu umranden ({count} Punkte)',
+  'map.undo': 'Rückgängig',
+  'map.done': 'Fertig',
+  'map.tripArrived': 'Sicher angekommen',
+  'map.tripCancelled': 'Reise abgebrochen',
+  'map.tripOverdueNoSignal': 'Überfällig – Standort wird nicht mehr gemeldet',
+  'map.tripOverdueLate': 'Überfällig – erwartete Ankunft überschritten',
+  'map.updatedAgo': 'Aktualisiert {time}',
+  'map.offline': 'Offline',
+  'map.failedToLoad': 'Karte konnte nicht geladen werden',
+  'map.checkPlayServices': 'Bitte prüfe die Google Play-Dienste und deine Internetverbindung',
+  'map.checkInternet': 'Bitte prüfe deine Internetverbindung',
+  'map.locationNotAvailable': 'Standort nicht verfügbar',
+  'map.locationNotAvailableMessage': 'Der Standort von {name} ist nicht verfügbar. Die Standortfreigabe ist möglicherweise aus.',
+  'map.user': 'Nutzer',
+  'map.loadingTimeline': 'Verlauf wird geladen...',
+  'map.noHistory': 'Kein Standortverlauf',
+  'map.noHistoryToday': 'Keine Standortdaten für heute',
+  'map.noHistoryYesterday': 'Keine Standortdaten für gestern',
+  'map.noHistoryOn': 'Keine Standortdaten für {date}',
+  'map.movement': 'Bewegung',
+  'map.unknownLocation': 'Unbekannter Ort',
+  'map.places': 'Orte',
+  'map.placesSubtitle': 'Werde benachrichtigt, wenn deine Kontakte an diesen Orten ankommen oder sie verlassen.',
+  'map.noPlaces': 'Noch keine Orte. Füge Zuhause, Schule oder Arbeit hinzu.',
+  'map.placeRadius': '{category} · Radius {radius}',
+  'map.placeArea': '{category} · Fläche mit {count} Punkten',
+  'map.addPlace': 'Ort hinzufügen',
+  'map.editPlace': 'Ort bearbeiten',
+  'map.newPlace': 'Neuer Ort',
+  'map.name': 'Name',
+  'map.namePlaceholder': 'z. B. Zuhause, Schule, Büro',
+  'map.type': 'Art',
+  'map.shape': 'Form',
+  'map.circle': 'Kreis',
+  'map.customArea': 'Eigene Fläche',
+  'map.radius': 'Radius',
+  'map.moveCenter': 'Mitte auf der Karte verschieben',
+  'map.setCenter': 'Mitte auf der Karte festlegen',
+  'map.redrawArea': 'Fläche neu zeichnen',
+  'map.drawArea': 'Fläche auf der Karte zeichnen',
+  'map.alertArrives': 'Benachrichtigen, wenn jemand ankommt',
+  'map.alertLeaves': 'Benachrichtigen, wenn jemand geht',
+  'map.savePlace': 'Ort speichern',
+  'map.placeCategory.home': 'Zuhause',
+  'map.placeCategory.school': 'Schule',
+  'map.placeCategory.work': 'Arbeit',
+  'map.placeCategory.other': 'Sonstiges',
+  'map.notEnoughPoints': 'Zu wenige Punkte',
+  'map.notEnoughPointsMessage': 'Tippe mindestens 3 Punkte auf der Karte an, um den Ort zu umranden.',
+  'map.nameRequired': 'Name erforderlich',
+  'map.nameRequiredMessage': 'Bitte gib einen Namen für diesen Ort ein.',
+  'map.locationRequired': 'Standort erforderlich',
+  'map.locationRequiredMessage': 'Bitte lege den Ort auf der Karte fest.',
+  'map.areaRequired': 'Fläche erforderlich',
+  'map.areaRequiredMessage': 'Bitte umrande den Ort mit mindestens 3 Punkten auf der Karte.',
+  'map.savePlaceFailed': 'Ort konnte nicht gespeichert werden. Bitte versuche es erneut.',
+  'map.deletePlace': 'Ort löschen',
+  'map.deletePlaceMessage': 'Keine Ankunfts-/Abfahrtsbenachrichtigungen mehr für {name} erhalten?',
+  'map.deletePlaceFailed': 'Ort konnte nicht gelöscht werden. Bitte versuche es erneut.',
+  'map.arrived': 'Angekommen',
+  'map.left': 'Losgefahren',
+
+  'connections.locationPermissionTitle': 'Standortberechtigung erforderlich',
+  'connections.locationPermissionMessage': 'Die Standortberechtigung ist erforderlich, um deinen Standort mit deinen Kontakten zu teilen.',
+  'connections.invalidInput': 'Ungültige Eingabe',
+  'connections.enterPhone': 'Bitte gib eine Telefonnummer ein.',
+  'connections.invalidPhone': 'Ungültige Telefonnummer',
+  'connections.phoneLength': 'Bitte gib eine 11-stellige Telefonnummer ein.',
+  'connections.cannotInviteSelf': 'Du kannst dich nicht selbst einladen.',
+  'connections.checkPhoneFailed': 'Die Telefonnummer konnte nicht geprüft werden. Bitte versuche es erneut.',
+  'connections.notOnAppTitle': 'Noch nicht bei FamGuards',
+  'connections.notOnAppMessage': 'Diese Telefonnummer ist nicht in der App registriert. Einladungslink senden? Er führt zur App und verbindet euch, sobald die Person sich registriert.',
+  'connections.sendInviteLink': 'Einladungslink senden',
+  'connections.createInviteFailed': 'Die Einladung konnte nicht erstellt werden. Bitte versuche es erneut.',
+  'connections.alreadyConnected': 'Bereits verbunden',
+  'connections.alreadyConnectedMessage': 'Du bist bereits mit dieser Person verbunden.',
+  'connections.alreadyConnectedTo': 'Du bist bereits mit {name} verbunden.',
+  'connections.invitationSent': 'Einladung gesendet',
+  'connections.invitationAlreadySent': 'Du hast bereits eine Einladung an diese Telefonnummer gesendet.',
+  'connections.invitationSentTo': 'Einladung an {phone} gesendet. Die Person erhält eine Benachrichtigung.',
+  'connections.sendInvitationFailed': 'Die Einladung konnte nicht gesendet werden. Bitte versuche es erneut.',
+  'connections.acceptFailed': 'Die Einladung konnte nicht angenommen werden. Bitte versuche es erneut.',
+  'connections.rejectFailed': 'Die Einladung konnte nicht abgelehnt werden. Bitte versuche es erneut.',
+  'connections.connected': 'Verbunden!',
+  'connections.nowConnected': 'Ihr seid jetzt verbunden.',
+  'connections.nowConnectedTo': 'Du bist jetzt mit {name} verbunden.',
+  'connections.cancelInviteFailed': 'Die Einladung konnte nicht zurückgezogen werden. Bitte versuche es erneut.',
+  'connections.inviteCancelled': 'Einladung zurückgezogen',
+  'connections.inviteCancelledMessage': 'Diese Einladung kann nicht mehr verwendet werden.',
+  'connections.loadInviteFailed': 'Die Einladung konnte nicht geladen werden. Bitte versuche es erneut.',
+  'connections.inviteTitle': 'Kontakteinladung',
+  'connections.invitePrompt': 'Mit {name} verbinden? Ihr könnt dann gegenseitig Standort und SOS-Alarme sehen.',
+  'connections.invitePromptUnknown': 'Mit dieser Person verbinden? Ihr könnt dann gegenseitig Standort und SOS-Alarme sehen.',
+  'connections.notNow': 'Nicht jetzt',
+  'connections.connect': 'Verbinden',
+  'connections.invalidInvite': 'Ungültige Einladung',
+  'connections.ownInvite': 'Du kannst deine eigene Einladung nicht verwenden.',
+  'connections.inviteExpired': 'Einladung abgelaufen',
+  'connections.inviteExpiredMessage': 'Diese Einladung ist abgelaufen oder wurde bereits verwendet. Bitte um eine neue.',
+  'connections.tooManyAttempts': 'Zu viele Versuche',
+  'connections.tryLater': 'Bitte versuche es später erneut.',
+  'connections.inviteNotValid': 'Diese Einladung ist ungültig.',
+  'connections.couldNotConnect': 'Verbindung fehlgeschlagen',
+  'connections.connectFailed': 'Verbindung fehlgeschlagen. Bitte versuche es erneut.',
+  'connections.pasteInviteMessage': 'Füge den Einladungslink ein, den du erhalten hast.',
+  'connections.approveUnlock': 'Entsperrung genehmigen',
+  'connections.approveUnlockMessage': 'Entsperrung des Kontos von {name} genehmigen? Tu das nur, wenn du weißt, dass die Person in Sicherheit ist. Das Konto braucht eventuell die Zustimmung mehrerer Kontakte.',
+  'connections.approve': 'Genehmigen',
+  'connections.approveUnlockFailed': 'Die Entsperrung konnte nicht genehmigt werden. Bitte versuche es erneut.',
+  'connections.unlocked': 'Entsperrt',
+  'connections.unlockedMessage': '{name} wurde entsperrt und kann die App wieder nutzen.',
+  'connections.approvalRecorded': 'Zustimmung gespeichert',
+  'connections.approvalRecordedMessage': '{approvals} von {required} Kontakten haben zugestimmt. {name} wird entsperrt, sobald genug Kontakte zustimmen.',
+  'connections.updateSharingFailed': 'Die Standortfreigabe konnte nicht aktualisiert werden. Bitte versuche es erneut.',
+  'connections.shareMyLocationTitle': 'Meinen Standort teilen',
+  'connections.shareDurationPrompt': 'Wie lange soll {name} deinen Standort sehen?',
+  'connections.shareAlways': 'Immer',
+  'connections.shareOneHour': 'Für 1 Stunde',
+  'connections.shareEightHours': 'Für 8 Stunden',
+  'connections.shareUntilArrive': 'Bis ich ankomme',
+  'connections.shareWeekdays': 'Werktags 7-9 Uhr',
+  'connections.markSafe': 'Als sicher markieren',
+  'connections.markSafeMessage': 'Stilles SOS von {name} beenden? Tu das nur, wenn du persönlich oder über einen vertrauenswürdigen Weg bestätigt hast, dass die Person in Sicherheit ist.',
+  'connections.endSilentSosFailed': 'Das stille SOS konnte nicht beendet werden. Bitte versuche es erneut.',
+  'connections.markedSafe': 'Als sicher markiert',
+  'connections.markedSafeMessage': 'Das stille SOS von {name} wurde beendet.',
+  'connections.online': 'Online',
+  'connections.offline': 'Offline',
+  'connections.sharingDisabledTitle': 'Standortfreigabe deaktiviert',
+  'connections.sharingDisabledMessage': '{name} kann deinen Live-Standort nicht mehr sehen.',
+  'connections.removeFailed': 'Der Kontakt konnte nicht entfernt werden. Bitte versuche es erneut.',
+  'connections.quickActions': 'Schnellaktionen',
+  'connections.inviteByPhone': 'Per Telefon einladen',
+  'connections.sendInvitationSubtitle': 'Einladung senden',
+  'connections.generating': 'Wird erstellt...',
+  'connections.inviteLink': 'Einladungslink',
+  'connections.qrOrLink': 'QR-Code oder Link',
+  'connections.openInvite': 'Einladung öffnen',
+  'connections.connectNow': 'Jetzt verbinden',
+  'connections.findContacts': 'Kontakte bei FamGuards finden',
+  'connections.pendingInvitations': 'Offene Einladungen',
+  'connections.wantsToConnect': 'Möchte sich mit dir verbinden',
+  'connections.accept': 'Annehmen',
+  'connections.reject': 'Ablehnen',
+  'connections.loading': 'Kontakte werden geladen...',
+  'connections.emptyTitle': 'Noch keine Kontakte',
+  'connections.emptyText': 'Lade zuerst jemanden über die Schnellaktionen oben ein',
+  'connections.yourConnections': 'Deine Kontakte',
+  'connections.unknownUser': 'Unbekannte Person',
+  'connections.accountLocked': 'Konto gesperrt - braucht Hilfe',
+  'connections.underDuress': 'Möglicherweise unter Zwang - nicht anrufen oder schreiben',
+  'connections.sharingDisabled': 'Standortfreigabe deaktiviert',
+  'connections.sharingWithYou': 'Teilt mit dir: {status}',
+  'connections.viewOnMap': 'Auf Karte anzeigen',
+  'connections.chooseAction': 'Aktion auswählen',
+  'connections.viewSos': 'SOS anzeigen',
+  'connections.markSafeEndSos': 'Als sicher markieren (stilles SOS beenden)',
+  'connections.removeConnection': 'Kontakt entfernen',
+  'connections.moreOptions': 'Weitere Optionen',
+  'connections.shareMyLocation': 'Meinen Standort teilen',
+  'connections.pausedNow': ' (gerade pausiert)',
+  'connections.change': 'Ändern',
+  'connections.phonePlaceholder': '11-stellige Telefonnummer eingeben',
+  'connections.sendInvitation': 'Einladung senden',
+  'connections.invitationExpires': 'Die Einladung läuft in 7 Tagen ab',
+  'connections.yourInvite': 'Deine Einladung',
+  'connections.inviteHint': 'Lass diesen Code scannen oder teile den Link. Er funktioniert einmal und läuft {time} ab. Falls die Person FamGuards noch nicht hat, führt der Link zur App und die Einladung wartet, bis sie sich registriert.',
+  'connections.shareMessage': 'Verbinde dich mit mir bei FamGuards, damit wir aufeinander aufpassen können: {link}',
+  'connections.shareLink': 'Link teilen',
+  'connections.copied': 'Kopiert!',
+  'connections.linkCopied': 'Einladungslink in die Zwischenablage kopiert.',
+  'connections.copyLink': 'Link kopieren',
+  'connections.cancelInvite': 'Einladung zurückziehen',
+  'connections.pasteInvitePlaceholder': 'Einladungslink einfügen',
+  'connections.openInviteHint': 'Füge den Einladungslink der anderen Person ein oder scanne ihren QR-Code mit der Kamera',
+
+  'locationSharing.always': 'Immer',
+  'locationSharing.off': 'Aus',
+  'locationSharing.timeLeft': 'Noch {time}',
+  'locationSharing.ending': 'Endet...',
+  'locationSharing.untilArrival': 'Bis zur Ankunft',
+  'locationSharing.everyDay': 'Jeden Tag',
+  'locationSharing.weekdays': 'Werktags',
+  'locationSharing.weekends': 'Am Wochenende',
+  'locationSharing.day1': 'Mo',
+  'locationSharing.day2': 'Di',
+  'locationSharing.day3': 'Mi',
+  'locationSharing.day4': 'Do',
+  'locationSharing.day5': 'Fr',
+  'locationSharing.day6': 'Sa',
+  'locationSharing.day7': 'So',
+
+  'batterySaving.description': 'Optimiere die App, um Akku zu sparen. Einige Funktionen sind dann eventuell eingeschränkt.',
+  'batterySaving.activeProfile': 'Aktives Profil: {profile}',
+  'batterySaving.batteryLevel': '{reason} · Akku {level} %',
+  'batterySaving.autoNote': 'Die Ortung wird automatisch eingeschränkt, wenn der Akku unter {threshold} % fällt und nicht lädt.',
+  'batterySaving.enable': 'Energiesparen aktivieren',
+  'batterySaving.enableSubtitle': 'Hintergrundaktivität reduzieren',
+  'batterySaving.reduceLocation': 'Standortaktualisierungen reduzieren',
+  'batterySaving.reduceLocationSubtitle': 'Standort seltener aktualisieren',
+  'batterySaving.reduceSync': 'Hintergrundsynchronisierung reduzieren',
+  'batterySaving.reduceSyncSubtitle': 'Daten seltener synchronisieren',
+  'batterySaving.saveFailed': 'Die Energiespareinstellungen konnten nicht gespeichert werden. Bitte versuche es erneut.',
+  'batterySaving.profile.normal': 'Volle Genauigkeit',
+  'batterySaving.profile.normalDescription': 'Genaues GPS, Standort wird im Hintergrund alle 30 Minuten geteilt.',
+  'batterySaving.profile.balanced': 'Ausgewogen',
+  'batterySaving.profile.balancedDescription': 'Etwas geringere GPS-Genauigkeit und weniger Prüfungen im Vordergrund.',
+  'batterySaving.profile.saver': 'Akku sparen',
+  'batterySaving.profile.saverDescription': 'Ungefährer Standort, etwa einmal pro Stunde aktualisiert.',
+  'batterySaving.profile.critical': 'Akku kritisch',
+  'batterySaving.profile.criticalDescription': 'Minimale Ortung, etwa alle 2 Stunden aktualisiert, damit dein Handy durchhält.',
+  'batterySaving.reason.default': 'Energiesparen ist aus',
+  'batterySaving.reason.settings': 'Basierend auf deinen Energiespareinstellungen',
+  'batterySaving.reason.lowBattery': 'Akku unter {threshold} %',
+  'batterySaving.reason.lowPowerMode': 'Der Stromsparmodus des Geräts ist an',
+
+  'locationAccuracy.description': 'Wähle, wie genau dein Standort mit deinen Kontakten geteilt wird.',
+  'locationAccuracy.exact': 'Genauer GPS-Standort',
+  'locationAccuracy.exactSubtitle': 'Teile deinen genauen Standort mit exakten Koordinaten',
+  'locationAccuracy.approximate': 'Ungefährer Standort',
+  'locationAccuracy.approximateSubtitle': 'Teile zum Schutz deiner Privatsphäre nur eine ungefähre Gegend (etwa 2 km) und deine Stadt',
+  'locationAccuracy.emergencyInfo': 'Bei einem SOS oder Notfall wird dein genauer Standort immer geteilt, damit deine Kontakte dich finden können.',
+  'locationAccuracy.emergencyActive': 'Die Notfallortung ist aktiv. Dein genauer Standort wird geteilt, bis sie endet.',
+  'locationAccuracy.saveFailed': 'Die Standortgenauigkeit konnte nicht gespeichert werden. Bitte versuche es erneut.',
+
+  'updateFrequency.option15': '15 Minuten',
+  'updateFrequency.option15Description': 'Standort alle 15 Minuten aktualisieren',
+  'updateFrequency.option30': '30 Minuten',
+  'updateFrequency.option30Description': 'Standort alle 30 Minuten aktualisieren',
+  'updateFrequency.option60': '1 Stunde',
+  'updateFrequency.option60Description': 'Standort jede Stunde aktualisieren (empfohlen)',
+  'updateFrequency.option120': '2 Stunden',
+  'updateFrequency.option120Description': 'Standort alle 2 Stunden aktualisieren',
+  'updateFrequency.option180': '3 Stunden',
+  'updateFrequency.option180Description': 'Standort alle 3 Stunden aktualisieren',
+  'updateFrequency.description': 'Wähle, wie oft dein Standort aktualisiert und mit deinen Kontakten geteilt wird. Häufigere Aktualisierungen sind genauer, verbrauchen aber mehr Akku.',
+  'updateFrequency.current': 'Aktuell',
+  'updateFrequency.info': 'Dein Standort wird im gewählten Abstand automatisch aktualisiert, wenn die Standortfreigabe aktiviert ist. Du kannst diese Einstellung jederzeit ändern.',
+  'updateFrequency.loadFailed': 'Die Einstellungen konnten nicht geladen werden. Es werden die Standardwerte verwendet.',
+  'updateFrequency.saveFailed': 'Die Aktualisierungshäufigkeit konnte nicht gespeichert werden. Bitte versuche es erneut.',
+
+  'sleepMode.description': 'Der Schlafmodus reduziert Benachrichtigungen und Standortaktualisierungen während deiner Schlafenszeit, damit du nicht gestört wirst. SOS-Alarme und Check-in-Notfälle kommen immer durch.',
+  'sleepMode.enable': 'Schlafmodus aktivieren',
+  'sleepMode.enableSubtitle': 'Weniger Benachrichtigungen während der Schlafenszeit',
+  'sleepMode.hours': 'Schlafenszeit',
+  'sleepMode.startTime': 'Beginn',
+  'sleepMode.endTime': 'Ende',
+  'sleepMode.timePickerNote': 'Hier kann eine Zeitauswahl ergänzt werden',
+  'sleepMode.saveFailed': 'Der Schlafmodus konnte nicht gespeichert werden. Bitte versuche es erneut.',
+
+  'editProfile.name': 'Name',
+  'editProfile.namePlaceholder': 'Gib deinen Namen ein',
+  'editProfile.email': 'E-Mail',
+  'editProfile.emailPlaceholder': 'Gib deine E-Mail-Adresse ein',
+  'editProfile.phone': 'Telefon',
+  'editProfile.phonePlaceholder': 'Gib deine Telefonnummer ein',
+  'editProfile.save': 'Änderungen speichern',
+  'editProfile.nameRequired': 'Der Name ist erforderlich',
+  'editProfile.saved': 'Profil erfolgreich aktualisiert',
+  'editProfile.saveFailed': 'Das Profil konnte nicht aktualisiert werden. Bitte versuche es erneut.',
+
+  'emergencyNotes.description': 'Füge wichtige medizinische Informationen, Allergien, Medikamente oder Notfallkontakte hinzu, die deine Kontakte im Notfall sehen sollen.',
+  'emergencyNotes.placeholder': 'Notfallhinweise eingeben...',
+  'emergencyNotes.save': 'Hinweise speichern',
+  'emergencyNotes.saved': 'Notfallhinweise erfolgreich aktualisiert',
+  'emergencyNotes.saveFailed': 'Die Notfallhinweise konnten nicht aktualisiert werden. Bitte versuche es erneut.',
+
+  'locked.title': 'App gesperrt',
+  'locked.secured': 'GESICHERT',
+  'locked.restricted': 'Der Zugriff auf die App ist vorübergehend eingeschränkt.',
+  'locked.messageWithPin': 'Gib deine PIN ein oder bitte deine vertrauenswürdigen Kontakte, die Entsperrung deines Kontos zu genehmigen.',
+  'locked.messageNoPin': 'Bitte wende dich an deine vertrauenswürdigen Kontakte, damit sie die Entsperrung deines Kontos genehmigen.',
+  'locked.pinPlaceholder': 'PIN eingeben',
+  'locked.unlock': 'Entsperren',
+  'locked.pinCheckFailed': 'Deine PIN konnte nicht geprüft werden. Bitte versuche es erneut.',
+  'locked.incorrectPinOne': 'Falsche PIN. Noch 1 Versuch.',
+  'locked.incorrectPin': 'Falsche PIN. Noch {count} Versuche.',
+  'locked.tooManyAttempts': 'Zu viele falsche Versuche. Bitte deine Kontakte, die Entsperrung zu genehmigen.',
+  'locked.noApprovers': 'Keiner deiner Kontakte kann die Entsperrung genehmigen. Entsperre mit deiner PIN.',
+  'locked.approvalsOne': '{approved} von 1 Kontakt hat die Entsperrung genehmigt',
+  'locked.approvals': '{approved} von {required} Kontakten haben die Entsperrung genehmigt',
+  'locked.exactLocation': 'Dein genauer Standort wird mit deinen Kontakten geteilt, bis dein Konto entsperrt ist.',
+  'locked.checkingStatus': 'Sperrstatus wird geprüft...',
+
+  'update.title': 'Update erforderlich',
+  'update.subtitle': 'Eine neue Version von FamGuard ist verfügbar',
+  'update.message': 'Bitte aktualisiere auf die neueste Version, um die App weiter zu nutzen und neue Funktionen zu erhalten.',
+  'update.currentVersion': 'Aktuelle Version: {version}',
+  'update.updateNow': 'Jetzt aktualisieren',
+  'update.storeInfo': 'Die App öffnet automatisch den {store}',
+
+  'offlineMaps.totalStorage': 'Speicher gesamt: {size}',
+  'offlineMaps.emptyTitle': 'Keine Offline-Karten',
+  'offlineMaps.emptyText': 'Lade Karten für Gegenden mit schlechtem Empfang herunter, um sie offline zu nutzen.',
+  'offlineMaps.downloadFirst': 'Erste Karte herunterladen',
+  'offlineMaps.tiles': '{size} • {count} Kacheln',
+  'offlineMaps.downloadedOn': 'Heruntergeladen am {date}',
+  'offlineMaps.downloadTitle': 'Offline-Karte herunterladen',
+  'offlineMaps.mapName': 'Kartenname',
+  'offlineMaps.mapNamePlaceholder': 'z. B. Zuhause, Arbeitsweg',
+  'offlineMaps.selectRegion': 'Gebiet auswählen',
+  'offlineMaps.selectRegionHint': 'Verschiebe und zoome, um das Gebiet zum Herunterladen auszuwählen',
+  'offlineMaps.downloading': 'Wird heruntergeladen...',
+  'offlineMaps.tileProgress': '{done} / {total} Kacheln',
+  'offlineMaps.downloadMap': 'Karte herunterladen',
+  'offlineMaps.loadFailed': 'Offline-Karten konnten nicht geladen werden.',
+  'offlineMaps.nameRequired': 'Bitte gib einen Namen für die Karte ein.',
+  'offlineMaps.regionRequired': 'Bitte wähle ein Gebiet auf der Karte aus.',
+  'offlineMaps.downloaded': 'Karte „{name}“ erfolgreich heruntergeladen!',
+  'offlineMaps.downloadFailed': 'Die Karte konnte nicht heruntergeladen werden. Bitte versuche es erneut.',
+  'offlineMaps.deleteTitle': 'Karte löschen',
+  'offlineMaps.deleteMessage': 'Möchtest du „{name}“ wirklich löschen? Dadurch werden {size} Speicher frei.',
+  'offlineMaps.deleteFailed': 'Die Karte konnte nicht gelöscht werden.',
+  'offlineMaps.locationFailed': 'Der aktuelle Standort konnte nicht ermittelt werden.',
+
+  'incidentDetail.title': 'Vorfalldetails',
+  'incidentDetail.verified': 'Bestätigt',
+  'incidentDetail.status': 'Status',
+  'incidentDetail.status.ongoing': 'Laufend',
+  'incidentDetail.status.contained': 'Unter Kontrolle',
+  'incidentDetail.status.resolved': 'Erledigt',
+  'incidentDetail.reporterMarked': '{name} hat dies als {status} markiert',
+  'incidentDetail.communityMarked': 'Die Community hat dies als {status} markiert',
+  'incidentDetail.reporter': 'Meldende Person',
+  'incidentDetail.reply': 'Antworten',
+  'incidentDetail.statusVoteRecorded': 'Stimme gespeichert',
+  'incidentDetail.statusConsensus': 'Der Status ändert sich, sobald {count} Personen zustimmen.',
+  'incidentDetail.statusFailed': 'Der Status konnte nicht aktualisiert werden. Bitte versuche es erneut.',
+  'incidentDetail.locationUnavailable': 'Standort nicht verfügbar',
+  'incidentDetail.locationUnavailableMessage': 'Dein Update wird ohne Standort veröffentlicht.',
+  'incidentDetail.postFailed': 'Dein Update konnte nicht veröffentlicht werden. Bitte versuche es erneut.',
+  'incidentDetail.reporterHint': 'Du hast diesen Vorfall gemeldet. Halte seinen Status aktuell.',
+  'incidentDetail.statusHint': 'Passiert das noch? Der Status ändert sich, sobald {count} Personen zustimmen.',
+  'incidentDetail.description': 'Beschreibung',
+  'incidentDetail.reportedBy': 'Gemeldet von {name}',
+  'incidentDetail.anonymous': 'Anonym',
+  'incidentDetail.you': 'Du',
+  'incidentDetail.directions': 'Route anzeigen',
+  'incidentDetail.updates': 'Updates',
+  'incidentDetail.noUpdates': 'Noch keine Updates. Etwas Neues gesehen? Sag es den anderen.',
+  'incidentDetail.replyingTo': 'Antwort an {name}',
+  'incidentDetail.replyPlaceholder': 'Antwort schreiben',
+  'incidentDetail.updatePlaceholder': 'z. B. Die Polizei ist eingetroffen',
+  'incidentDetail.includeLocation': 'Meinen Standort anhängen',
+  'incidentDetail.post': 'Posten',
+
+  'incidentDetail.voteFailed': 'Deine Stimme konnte nicht gespeichert werden. Bitte versuche es erneut.',
+  'incidentDetail.isAccurate': 'Stimmt das?',
+  'incidentDetail.confirmVote': 'Kann ich bestätigen ({count})',
+  'incidentDetail.falseVote': 'Das stimmt nicht ({count})',
+  'incidentDetail.voteHintReporter': 'Andere in der Nähe können deine Meldung bestätigen.',
+  'incidentDetail.voteHint': 'Stimmen von Personen in der Nähe des Vorfalls zählen am meisten.',
+
+  'incidents.filterMinutes': '{count} Min.',
+  'incidents.filterHours': '{count} Std.',
+  'incidents.loading': 'Vorfälle werden geladen...',
+  'incidents.noReports': 'Keine aktuellen Meldungen',
+  'incidents.noReportsMessage': 'In deiner Gegend wurden keine aktuellen Vorfälle gemeldet. Pass auf dich auf!',
+
+  'travelAdvisory.title': 'Reisewarnungen',
+  'travelAdvisory.subtitle': 'Bleib über Reiserisiken informiert',
+  'travelAdvisory.calculateRouteRisk': 'Routenrisiko berechnen',
+  'travelAdvisory.originState': 'Startbundesstaat *',
+  'travelAdvisory.originCity': 'Startstadt (optional)',
+  'travelAdvisory.destinationState': 'Zielbundesstaat *',
+  'travelAdvisory.destinationCity': 'Zielstadt (optional)',
+  'travelAdvisory.originStatePlaceholder': 'z. B. Lagos',
+  'travelAdvisory.originCityPlaceholder': 'z. B. Ikeja',
+  'travelAdvisory.destinationStatePlaceholder': 'z. B. Abuja',
+  'travelAdvisory.destinationCityPlaceholder': 'z. B. Garki',
+  'travelAdvisory.calculateRisk': 'Risiko berechnen',
+  'travelAdvisory.statesRequired': 'Bitte gib den Start- und den Zielbundesstaat ein.',
+  'travelAdvisory.routeRiskFailed': 'Das Routenrisiko konnte nicht berechnet werden. Bitte versuche es erneut.',
+  'travelAdvisory.routeRiskTitle': 'Risikobewertung der Route',
+  'travelAdvisory.riskScore': 'Risikowert',
+  'travelAdvisory.last24h': 'Letzte 24 Std.',
+  'travelAdvisory.last7Days': 'Letzte 7 Tage',
+  'travelAdvisory.last30Days': 'Letzte 30 Tage',
+  'travelAdvisory.incidentsNearRoute': 'Vorfälle im Umkreis von {distance} um die Route',
+  'travelAdvisory.incidentsInAreas': 'Vorfälle in den Start- und Zielgebieten',
+  'travelAdvisory.forYourLocation': 'Warnungen für deinen Standort',
+  'travelAdvisory.noAdvisories': 'Keine aktiven Warnungen',
+  'travelAdvisory.locationSafe': 'Dein aktueller Standort scheint sicher zu sein',
+  'travelAdvisory.affectedAreas': 'Betroffene Gebiete:',
+  'travelAdvisory.source': 'Quelle: {source}',
+  'travelAdvisory.risk.low': 'Geringes Risiko',
+  'travelAdvisory.risk.moderate': 'Mittleres Risiko',
+  'travelAdvisory.risk.high': 'Hohes Risiko',
+  'travelAdvisory.risk.critical': 'Kritisches Risiko',
+  'travelAdvisory.type.security': 'SICHERHEIT',
+  'travelAdvisory.type.weather': 'WETTER',
+  'travelAdvisory.type.combined': 'KOMBINIERT',
+
+  'checkInSettings.saved': 'Einstellungen gespeichert.',
+  'checkInSettings.saveFailed': 'Einstellungen konnten nicht gespeichert werden. Bitte versuche es erneut.',
+  'checkInSettings.enable': 'Check-ins aktivieren',
+  'checkInSettings.enableDescription': 'Regelmäßige Sicherheits-Check-ins erlauben',
+  'checkInSettings.interval': 'Check-in-Intervall',
+  'checkInSettings.intervalLabel': 'Intervall (Minuten)',
+  'checkInSettings.intervalHint': 'Wie oft du einchecken möchtest (Standard: {minutes} Minuten)',
+  'checkInSettings.automatic': 'Automatische Check-ins',
+  'checkInSettings.automaticDescription': 'Automatisch in festgelegten Abständen einchecken',
+  'checkInSettings.duringTravel': 'Automatischer Check-in auf Reisen',
+  'checkInSettings.duringTravelDescription': 'Automatisch einchecken, wenn du unterwegs bist',
+  'checkInSettings.travelDetection': 'Reiseerkennung',
+  'checkInSettings.speedThreshold': 'Geschwindigkeitsschwelle ({unit})',
+  'checkInSettings.speedThresholdHint': 'Gilt als unterwegs, wenn die Geschwindigkeit diese Schwelle überschreitet (Standard: {speed})',
+  'checkInSettings.missedAlerts': 'Warnungen bei verpasstem Check-in',
+  'checkInSettings.alertAfter': 'Warnen nach (Minuten)',
+  'checkInSettings.alertAfterHint': 'Notfallkontakte warnen, wenn ein Check-in so lange überfällig ist (Standard: {minutes} Minuten)',
+  'checkInSettings.aboutTitle': 'Über Check-ins',
+  'checkInSettings.aboutText': 'Check-ins zeigen deinen Notfallkontakten, dass du in Sicherheit bist. Du kannst jederzeit manuell einchecken oder automatische Check-ins einrichten.',
+  'checkInSettings.aboutMissed': 'Wenn du einen geplanten Check-in verpasst, werden deine Notfallkontakte benachrichtigt.',
+  'checkInSettings.save': 'Einstellungen speichern',
+
+  'profile.loading': 'Profil wird geladen...',
+  'profile.circlesSubtext': 'Wer deinen Standort und Warnungen erhält',
+  'profile.shareLocationSubtext': 'Für Verbindungen sichtbar',
+  'profile.communityReportsSubtext': 'Vorfälle in der Nähe anzeigen',
+  'profile.accountLockSubtext': 'Entsperr-PIN und Verbindungsfreigaben',
+  'profile.locationAccuracySubtext': 'Genaues GPS oder ungefähr',
+  'profile.locationUpdateFrequencySubtext': 'Wie oft der Standort aktualisiert wird',
+  'profile.pushNotificationsSubtext': 'Sicherheitswarnungen erhalten',
+  'profile.testPushNotificationSubtext': 'Eine Testbenachrichtigung an dieses Gerät senden',
+  'profile.warning': 'Warnung',
+  'profile.unknownError': 'Unbekannter Fehler',
+  'profile.continue': 'Weiter',
+  'profile.physicalDeviceTitle': 'Physisches Gerät erforderlich',
+  'profile.physicalDeviceMessage': 'Push-Benachrichtigungen funktionieren nur auf physischen Geräten, nicht in Simulatoren oder Emulatoren. Bitte auf einem echten Gerät testen.',
+  'profile.permissionRequired': 'Berechtigung erforderlich',
+  'profile.permissionDeniedSettings': 'Push-Benachrichtigungen benötigen die Benachrichtigungsberechtigung. Offenbar hast du sie zuvor abgelehnt.\n\nBitte aktiviere sie manuell:\n1. Öffne die Einstellungen\n2. Tippe auf Apps > FamGuard\n3. Tippe auf Benachrichtigungen\n4. Aktiviere „Benachrichtigungen anzeigen“',
+  'profile.permissionPrompt': 'Push-Benachrichtigungen benötigen die Benachrichtigungsberechtigung, um dich bei Notfällen zu warnen.\n\nBitte erteile die Berechtigung, wenn du gefragt wirst, um wichtige Sicherheitswarnungen zu erhalten.',
+  'profile.pushTokenFailed': 'Berechtigung erteilt, aber das Push-Token konnte nicht registriert werden. Benachrichtigungen funktionieren möglicherweise nicht. Bitte versuche es später erneut.',
+  'profile.permissionNotGranted': 'Berechtigung nicht erteilt',
+  'profile.permissionNotGrantedMessage': 'Für Push-Benachrichtigungen ist die Benachrichtigungsberechtigung erforderlich. Bitte erteile sie, um Benachrichtigungen zu aktivieren.',
+  'profile.notificationsSaveFailed': 'Benachrichtigungseinstellungen konnten nicht gespeichert werden. Bitte versuche es erneut.',
+  'profile.notificationsSaveFailedDetail': 'Benachrichtigungseinstellungen konnten nicht gespeichert werden: {error}\n\nBitte versuche es erneut.',
+  'profile.notificationsEnabled': 'Push-Benachrichtigungen aktiviert! Du erhältst Notfallwarnungen und Sicherheitsbenachrichtigungen.',
+  'profile.notificationsSavedNoPermission': 'Einstellung gespeichert, aber die Berechtigung ist nicht erteilt. Bitte aktiviere Benachrichtigungen in den Geräteeinstellungen.',
+  'profile.communityReportsSaveFailed': 'Einstellungen für Community-Meldungen konnten nicht gespeichert werden. Bitte versuche es erneut.',
+  'profile.locationSharingSaveFailed': 'Einstellungen zur Standortfreigabe konnten nicht gespeichert werden. Bitte versuche es erneut.',
+  'profile.userNotFound': 'Benutzer nicht gefunden. Bitte melde dich an und versuche es erneut.',
+  'profile.testPermissionMessage': 'Push-Benachrichtigungen benötigen die Benachrichtigungsberechtigung. Aktiviere sie unter Einstellungen > Apps > FamGuard > Benachrichtigungen oder schalte Push-Benachrichtigungen im Profil ein.',
+  'profile.tokenNotFound': 'Token nicht gefunden',
+  'profile.tokenNotFoundMessage': 'Das Push-Token ist nicht registriert. Schalte Push-Benachrichtigungen im Profil ein, um es zu registrieren.',
+  'profile.testPushConfirm': 'Dadurch wird eine Testbenachrichtigung an dein Gerät gesendet. Fortfahren?',
+  'profile.sendTest': 'Test senden',
+  'profile.testPushSendFailed': 'Testbenachrichtigung konnte nicht gesendet werden: {error}\n\nDetails findest du in den Edge-Function-Logs.',
+  'profile.testPushSuccessTitle': '✅ Erfolg!',
+  'profile.testPushSuccess': 'Testbenachrichtigung erfolgreich gesendet!\n\nPrüfe die Benachrichtigungen deines Geräts. Sie sollte in Kürze ankommen.\n\nGesendet: {sent}\nFehlgeschlagen: {failed}',
+  'profile.testPushNoneSentTitle': '⚠️ Keine Benachrichtigung gesendet',
+  'profile.testPushNoneSent': '{message}\n\nDas bedeutet meist:\n• Token nicht in der Datenbank gefunden\n• Token abgelaufen oder ungültig\n• Schalte Push-Benachrichtigungen aus und wieder ein',
+  'profile.testPushUnknownTitle': '⚠️ Unbekanntes Ergebnis',
+  'profile.testPushUnknown': 'Die Anfrage wurde abgeschlossen, aber ohne Bestätigung. Prüfe die Benachrichtigungen deines Geräts.',
+  'profile.testPushFailed': 'Benachrichtigung konnte nicht getestet werden: {error}\n\nBitte versuche es erneut.',
+  'profile.signOutConfirm': 'Möchtest du dich wirklich abmelden?',
+  'profile.signOutFailed': 'Abmelden fehlgeschlagen. Bitte versuche es erneut.',
+  'profile.deleteAccountConfirm': 'Möchtest du dein Konto wirklich löschen? Dies kann nicht rückgängig gemacht werden. Alle deine Daten, Verbindungen und Einstellungen werden dauerhaft gelöscht.',
+  'profile.finalConfirmation': 'Letzte Bestätigung',
+  'profile.finalConfirmationMessage': 'Dadurch werden dein Konto und alle zugehörigen Daten dauerhaft gelöscht. Bist du dir absolut sicher?',
+  'profile.confirmDeleteAccount': 'Ja, mein Konto löschen',
+  'profile.deleteAccountFailed': 'Konto konnte nicht gelöscht werden. Bitte versuche es erneut.',
+  'profile.deleteUrlMissing': 'Die URL zum Löschen des Kontos ist nicht konfiguriert. Bitte wende dich an den Support.',
+  'profile.deleteViaWebsiteMessage': 'Du wirst zu unserer Website weitergeleitet, um das Löschen des Kontos abzuschließen.',
+  'profile.openWebsiteFailed': 'Die Website konnte nicht geöffnet werden. Bitte versuche es später erneut.',
+};
+
+export default de;
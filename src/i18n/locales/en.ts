@@ -0,0 +1,1032 @@
+// English - source catalog. Every other catalog is checked against these keys.
+const en = {
+  // Common
+  'common.error': 'Error',
+  'common.success': 'Success',
+  'common.ok': 'OK',
+  'common.cancel': 'Cancel',
+  'common.save': 'Save',
+  'common.delete': 'Delete',
+  'common.loadingSettings': 'Loading settings...',
+  'common.tryAgain': 'Something went wrong. Please try again.',
+  'common.openSettings': 'Open Settings',
+
+  // Tabs
+  'tabs.home': 'Home',
+  'tabs.incidents': 'Incidents',
+  'tabs.connections': 'Connections',
+  'tabs.profile': 'Profile',
+
+  // Profile
+  'profile.personalInformation': 'Personal Information',
+  'profile.editProfile': 'Edit Profile',
+  'profile.connections': 'Connections',
+  'profile.circles': 'Circles & Roles',
+  'profile.emergencyNotes': 'Emergency Notes',
+  'profile.safetyPrivacy': 'Safety & Privacy',
+  'profile.shareLocation': 'Share Location',
+  'profile.communityReports': 'Community Reports',
+  'profile.locationAccuracy': 'Location Accuracy',
+  'profile.locationUpdateFrequency': 'Location Update Frequency',
+  'profile.notifications': 'Notifications',
+  'profile.pushNotifications': 'Push Notifications',
+  'profile.testPushNotification': 'Test Push Notification',
+  'profile.sleepMode': 'Sleep Mode',
+  'profile.notificationFilters': 'Notification Filters',
+  'profile.accountLock': 'SOS Lock & Unlock',
+  'profile.appSettings': 'App Settings',
+  'profile.languageRegion': 'Language & Region',
+  'profile.units': 'Units (km / miles)',
+  'profile.batterySaving': 'Battery Saving Mode',
+  'profile.offlineMaps': 'Offline Maps',
+  'profile.usersManual': 'Users Manual',
+  'profile.helpSupport': 'Help & Support',
+  'profile.privacyPolicy': 'Privacy Policy',
+  'profile.termsOfService': 'Terms of Service',
+  'profile.accountManagement': 'Account Management',
+  'profile.deleteAccount': 'Delete Account',
+  'profile.deleteAccountWebsite': 'Delete Account via Website',
+  'profile.signOut': 'Sign Out',
+
+  // Language & Region
+  'languageRegion.title': 'Language & Region',
+  'languageRegion.language': 'Language',
+  'languageRegion.region': 'Region',
+  'languageRegion.saveLanguageFailed': 'Failed to save language setting. Please try again.',
+  'languageRegion.saveRegionFailed': 'Failed to save region setting. Please try again.',
+
+  // Units
+  'units.title': 'Units',
+  'units.description': 'Choose your preferred unit system for distances, speeds and alerts.',
+  'units.metric': 'Metric (km, m)',
+  'units.metricSubtitle': 'Kilometers and meters',
+  'units.imperial': 'Imperial (miles, feet)',
+  'units.imperialSubtitle': 'Miles and feet',
+  'units.saveFailed': 'Failed to save unit system setting. Please try again.',
+
+  // Incidents
+  'incidents.safetyFeed': 'Safety Feed',
+  'incidents.distanceAway': '{distance} away',
+  'incidents.category.robbery': 'Robbery',
+  'incidents.category.kidnapping': 'Kidnapping',
+  'incidents.category.accident': 'Accident',
+  'incidents.category.fire': 'Fire',
+  'incidents.category.protest': 'Protest',
+  'incidents.category.assault': 'Assault',
+  'incidents.category.theft': 'Theft',
+  'incidents.category.other': 'Other',
+
+  // Relative time
+  'time.justNow': 'Just now',
+  'time.minuteAgo': '1 minute ago',
+  'time.minutesAgo': '{count} minutes ago',
+  'time.hourAgo': '1 hour ago',
+  'time.hoursAgo': '{count} hours ago',
+  'time.dayAgo': '1 day ago',
+  'time.daysAgo': '{count} days ago',
+  'time.weekAgo': '1 week ago',
+  'time.weeksAgo': '{count} weeks ago',
+  'time.monthAgo': '1 month ago',
+  'time.monthsAgo': '{count} months ago',
+  'time.yearAgo': '1 year ago',
+  'time.yearsAgo': '{count} years ago',
+  'time.todayAt': 'Today at {time}',
+  'time.yesterdayAt': 'Yesterday at {time}',
+  'time.dateAt': '{date} at {time}',
+
+  // Last seen
+  'lastSeen.onlineNow': 'Online now',
+  'lastSeen.active': 'Active {time}',
+  'lastSeen.lastSeen': 'Last seen {time}',
+
+  // Check-in
+  'checkIn.title': 'Safety Check-in',
+  'checkIn.subtitle': "Let your contacts know you're safe",
+  'checkIn.quickCheckIn': 'Quick Check-in',
+  'checkIn.imSafe': "I'm Safe",
+  'checkIn.delayed': 'Delayed',
+  'checkIn.checkingIn': 'Checking in...',
+  'checkIn.lastCheckIn': 'Last Check-in',
+  'checkIn.recentCheckIns': 'Recent Check-ins',
+  'checkIn.status.safe': 'SAFE',
+  'checkIn.status.unsafe': 'UNSAFE',
+  'checkIn.status.delayed': 'DELAYED',
+  'checkIn.status.missed': 'MISSED',
+  'checkIn.successTitle': '✅ Check-in Successful',
+  'checkIn.successMessage': 'Your safety status has been updated.',
+  'checkIn.failed': 'Failed to check in. Please try again.',
+  'checkIn.settingsTitle': 'Check-in Settings',
+  'checkIn.autoCheckInsEnabled': 'Automatic check-ins: Enabled',
+  'checkIn.autoCheckInsDisabled': 'Automatic check-ins: Disabled',
+  'checkIn.interval': 'Interval: Every {minutes} minutes',
+  'checkIn.emergencyContacts': 'Emergency contacts: {count}',
+
+  // Notification filters
+  'notificationFilters.sosAlert': 'SOS Alerts',
+  'notificationFilters.sosAlertSubtitle': 'Emergency alerts from your connections',
+  'notificationFilters.sosResponse': 'SOS Responses',
+  'notificationFilters.sosResponseSubtitle': 'Who is responding to an SOS',
+  'notificationFilters.checkInEmergency': 'Emergency Check-ins',
+  'notificationFilters.checkInEmergencySubtitle': 'Connections reporting an emergency',
+  'notificationFilters.checkInUnsafe': 'Unsafe Check-ins',
+  'notificationFilters.checkInUnsafeSubtitle': 'Connections reporting they feel unsafe',
+  'notificationFilters.missedCheckIn': 'Missed Check-ins',
+  'notificationFilters.missedCheckInSubtitle': 'Connections who missed a scheduled check-in',
+  'notificationFilters.tripOverdue': 'Overdue Trips',
+  'notificationFilters.tripOverdueSubtitle': 'Trips that overran or stopped reporting',
+  'notificationFilters.incidentProximity': 'Nearby Incidents',
+  'notificationFilters.incidentProximitySubtitle': 'Incidents reported close to you',
+  'notificationFilters.incident': 'Incident Reports',
+  'notificationFilters.incidentSubtitle': 'New incidents in the safety feed',
+  'notificationFilters.placeArrival': 'Place Arrivals',
+  'notificationFilters.placeArrivalSubtitle': 'Connections arriving at your places',
+  'notificationFilters.placeDeparture': 'Place Departures',
+  'notificationFilters.placeDepartureSubtitle': 'Connections leaving your places',
+  'notificationFilters.checkIn': 'Check-ins',
+  'notificationFilters.checkInSubtitle': 'Routine check-ins from connections',
+  'notificationFilters.tripStarted': 'Trip Started',
+  'notificationFilters.tripStartedSubtitle': 'Connections sharing a trip with you',
+  'notificationFilters.tripArrived': 'Trip Arrivals',
+  'notificationFilters.tripArrivedSubtitle': 'Connections arriving at their trip destination',
+  'notificationFilters.tripCancelled': 'Trip Cancelled',
+  'notificationFilters.tripCancelledSubtitle': 'Connections ending a shared trip early',
+  'notificationFilters.travelAdvisory': 'Travel Advisories',
+  'notificationFilters.travelAdvisorySubtitle': 'Safety advisories for your trips',
+  'notificationFilters.routeRisk': 'Route Risk',
+  'notificationFilters.routeRiskSubtitle': 'Risk warnings for planned routes',
+  'notificationFilters.connectionAdded': 'New Connections',
+  'notificationFilters.connectionAddedSubtitle': 'Someone added you as a connection',
+  'notificationFilters.locationReminder': 'Location Reminders',
+  'notificationFilters.locationReminderSubtitle': 'Reminders to update your location',
+  'notificationFilters.morningGreeting': 'Morning Greeting',
+  'notificationFilters.morningGreetingSubtitle': 'Daily good morning message',
+  'notificationFilters.afternoonGreeting': 'Afternoon Greeting',
+  'notificationFilters.afternoonGreetingSubtitle': 'Daily good afternoon message',
+  'notificationFilters.appUpdate': 'App Updates',
+  'notificationFilters.appUpdateSubtitle': 'New versions of FamGuard',
+  'notificationFilters.title': 'Notification Filters',
+  'notificationFilters.description': 'Choose which push notifications you receive. SOS alerts and emergency check-ins always come through, even from muted connections.',
+  'notificationFilters.safetyAlerts': 'Safety Alerts',
+  'notificationFilters.alerts': 'Alerts',
+  'notificationFilters.updatesGreetings': 'Updates & Greetings',
+  'notificationFilters.connections': 'Connections',
+  'notificationFilters.noConnections': 'You have no connections yet.',
+  'notificationFilters.alwaysOn': 'Always on',
+  'notificationFilters.connectionMuted': 'Muted - only safety alerts',
+  'notificationFilters.connectionAll': 'All notifications',
+  'notificationFilters.saveFailed': 'Failed to save notification filter. Please try again.',
+
+  // Find contacts
+  'findContacts.title': 'Find Contacts',
+  'findContacts.introTitle': 'Find people you know',
+  'findContacts.introDescription': 'See which of your contacts already use FamGuards and connect in one tap, or invite the rest. Phone numbers stay on your phone - only a one-way hash of each number is checked.',
+  'findContacts.search': 'Search contacts',
+  'findContacts.regionHint': 'Numbers without a country code are read as {region}.',
+  'findContacts.changeRegion': 'Change region',
+  'findContacts.noMatches': 'No contacts match your search.',
+  'findContacts.noValidNumbers': 'No contacts with valid phone numbers were found.',
+  'findContacts.onFamGuards': 'On FamGuards',
+  'findContacts.inviteToFamGuards': 'Invite to FamGuards',
+  'findContacts.userOnFamGuards': '{name} on FamGuards',
+  'findContacts.connected': 'Connected',
+  'findContacts.invited': 'Invited',
+  'findContacts.connect': 'Connect',
+  'findContacts.invite': 'Invite',
+  'findContacts.someNotChecked': 'Some Contacts Not Checked',
+  'findContacts.accessNeeded': 'Contacts Access Needed',
+  'findContacts.accessNeededMessage': 'Allow access to your contacts in Settings to find people you know.',
+  'findContacts.inviteFailed': 'Failed to send invitation. Please try again.',
+  'findContacts.inviteLinkFailed': 'Failed to create invite. Please try again.',
+  'findContacts.messagesUnavailable': 'Could not open your messages app.',
+
+  // SOS event
+  'sosEvent.status.active': 'Needs help',
+  'sosEvent.status.responderEnRoute': 'Responder en route',
+  'sosEvent.status.resolved': 'Resolved',
+  'sosEvent.status.falseAlarm': 'False alarm',
+  'sosEvent.title': 'SOS',
+  'sosEvent.loading': 'Loading SOS...',
+  'sosEvent.unavailable': 'This SOS is no longer available.',
+  'sosEvent.yourSos': 'Your SOS',
+  'sosEvent.silentWarning': 'Silent SOS - {name} may be under duress. Do not call or text them.',
+  'sosEvent.started': 'Started',
+  'sosEvent.lastLocation': 'Last location',
+  'sosEvent.near': 'Near',
+  'sosEvent.closed': 'Closed',
+  'sosEvent.imResponding': "I'm Responding",
+  'sosEvent.cantHelp': "Can't Help",
+  'sosEvent.openLiveMap': 'Open Live Map',
+  'sosEvent.responders': 'Responders ({count})',
+  'sosEvent.noResponders': 'No one has responded yet.',
+  'sosEvent.responderResponding': '{name} - responding',
+  'sosEvent.responderCantHelp': "{name} - can't help",
+  'sosEvent.addNoteTitle': 'Add a Note',
+  'sosEvent.notePlaceholder': 'e.g., Police have been called',
+  'sosEvent.addNote': 'Add Note',
+  'sosEvent.resolve': 'Resolve',
+  'sosEvent.falseAlarm': 'False Alarm',
+  'sosEvent.closeHint': 'Your note is added to the timeline when you close the SOS.',
+  'sosEvent.timeline': 'Timeline',
+  'sosEvent.locationTrail': 'Location Trail ({count})',
+  'sosEvent.noLocations': 'No locations recorded yet.',
+  'sosEvent.showLess': 'Show less',
+  'sosEvent.showAllLocations': 'Show all {count} locations',
+  'sosEvent.resolveTitle': 'Resolve SOS',
+  'sosEvent.resolveMessage': 'Only resolve once you know {name} is safe.',
+  'sosEvent.falseAlarmTitle': 'Mark as False Alarm',
+  'sosEvent.falseAlarmMessage': "Close this SOS as a false alarm? {name}'s connections will see it in the timeline.",
+  'sosEvent.respondFailed': 'Failed to respond. Please try again.',
+  'sosEvent.noteFailed': 'Failed to add your note. Please try again.',
+  'sosEvent.closeFailed': 'Failed to close the SOS. Please try again.',
+  'sosEvent.you': 'You',
+  'sosEvent.someone': 'Someone',
+  'sosEvent.them': 'them',
+  'sosEvent.update.opened': '{actor} sent an SOS',
+  'sosEvent.update.acknowledged': '{actor} is responding',
+  'sosEvent.update.acknowledgedYou': 'You are responding',
+  'sosEvent.update.called': '{actor} called {name}',
+  'sosEvent.update.cantHelp': "{actor} can't help",
+  'sosEvent.update.statusChanged': '{actor} changed the status to {status}',
+  'sosEvent.update.note': '{actor} added a note',
+  'sosEvent.statusUnknown': 'unknown',
+
+  // Trip
+  'trip.title': 'Trip',
+  'trip.description': "Share a live journey with chosen connections. If you don't arrive on time or your phone stops reporting, they are alerted through your check-in escalation.",
+  'trip.loading': 'Loading trips...',
+  'trip.yourTrip': 'Your Trip',
+  'trip.startATrip': 'Start a Trip',
+  'trip.following': "Trips You're Following",
+  'trip.noneFollowing': 'No connections are sharing a trip with you.',
+  'trip.connection': 'Connection',
+  'trip.overdue': 'Overdue',
+  'trip.expectedAt': 'Expected {time}',
+  'trip.distanceLeft': ' · {distance} left',
+  'trip.overdueNoSignal': 'Your location stopped reporting. Your connections have been alerted.',
+  'trip.overdueLate': 'You are past your expected arrival. Your connections have been alerted.',
+  'trip.expectedArrival': 'Expected arrival',
+  'trip.distanceLeftLabel': 'Distance left',
+  'trip.lastUpdate': 'Last update',
+  'trip.sharedWith': 'Shared with',
+  'trip.autoArrivalHint': 'Arrival is confirmed automatically when you reach your destination.',
+  'trip.imArrived': "I've Arrived",
+  'trip.cancelTrip': 'Cancel Trip',
+  'trip.keepTrip': 'Keep Trip',
+  'trip.cancelMessage': 'Stop sharing this trip with your connections?',
+  'trip.destination': 'Destination',
+  'trip.destinationPlaceholder': 'e.g., 12 Allen Avenue, Ikeja',
+  'trip.travelTime': 'Expected travel time',
+  'trip.minutesShort': '{count} min',
+  'trip.hoursShort': '{count} h',
+  'trip.whoCanFollow': 'Who can follow this trip',
+  'trip.addConnectionFirst': 'Add a connection first to share trips.',
+  'trip.startTrip': 'Start Trip',
+  'trip.enterDestination': 'Please enter a destination.',
+  'trip.chooseWatcher': 'Please choose at least one connection to follow your trip.',
+  'trip.destinationNotFound': 'Destination not found',
+  'trip.destinationNotFoundMessage': 'Try a more specific address or place name.',
+  'trip.startFailedActive': 'Failed to start trip. You may already have a trip in progress.',
+  'trip.startFailed': 'Failed to start trip. Please try again.',
+  'trip.confirmArrivalFailed': 'Failed to confirm arrival. Please try again.',
+  'trip.arrived': 'Arrived',
+  'trip.arrivedMessage': 'Your connections have been told you arrived safely.',
+  'trip.cancelFailed': 'Failed to cancel trip. Please try again.',
+
+  // Circles
+  'circles.title': 'Circles & Roles',
+  'circles.description': 'Group your connections into circles and choose what each circle gets. Connections that are not in any circle get everything. While you are locked after an SOS, every connection can see your location.',
+  'circles.loading': 'Loading circles...',
+  'circles.newCircle': 'New Circle',
+  'circles.namePlaceholder': 'Circle name, e.g. Family',
+  'circles.createCircle': 'Create Circle',
+  'circles.yourCircles': 'Your Circles',
+  'circles.noCircles': 'You have no circles yet. Every connection gets your location and all alerts.',
+  'circles.roles': 'Roles',
+  'circles.members': 'Members',
+  'circles.memberCount': '1 member',
+  'circles.membersCount': '{count} members',
+  'circles.noMembers': 'No one is in this circle yet.',
+  'circles.allInCircle': 'All your connections are in this circle.',
+  'circles.done': 'Done',
+  'circles.addConnections': 'Add Connections',
+  'circles.formerConnection': 'Former connection',
+  'circles.setting.shareLocation': 'Share Location',
+  'circles.setting.shareLocationSubtitle': 'Members see your live location',
+  'circles.setting.sosAlerts': 'SOS Alerts',
+  'circles.setting.sosAlertsSubtitle': 'Members are alerted when you send an SOS',
+  'circles.setting.checkInAlerts': 'Check-in Alerts',
+  'circles.setting.checkInAlertsSubtitle': 'Members get your check-ins and missed check-ins',
+  'circles.setting.unlockApproval': 'Unlock Approval',
+  'circles.setting.unlockApprovalSubtitle': 'Members can approve unlocking your account',
+  'circles.preset.family': 'Family',
+  'circles.preset.work': 'Work',
+  'circles.preset.neighbors': 'Neighbors',
+  'circles.role.guardian': 'Guardian',
+  'circles.role.guardianSubtitle': 'Always gets alerts and your location, and can approve unlocks',
+  'circles.role.member': 'Member',
+  'circles.role.memberSubtitle': 'Follows the circle settings',
+  'circles.role.dependent': 'Dependent',
+  'circles.role.dependentSubtitle': 'Follows the circle settings, but can never approve unlocks',
+  'circles.nameTitle': 'Circle Name',
+  'circles.nameRequired': 'Please enter a name for the circle.',
+  'circles.nameTaken': 'You already have a circle called {name}.',
+  'circles.createFailed': 'Failed to create the circle. Please try again.',
+  'circles.saveFailed': 'Failed to save the circle settings. Please try again.',
+  'circles.deleteTitle': 'Delete Circle',
+  'circles.deleteMessage': 'Delete {name}? Connections that are in no other circle get all alerts and your location again.',
+  'circles.deleteFailed': 'Failed to delete the circle. Please try again.',
+  'circles.addFailed': 'Failed to add the connection. Please try again.',
+  'circles.roleFailed': 'Failed to change the role. Please try again.',
+  'circles.removeFailed': 'Failed to remove the connection. Please try again.',
+  'circles.roleIn': 'Role in {circle}',
+  'circles.makeRole': 'Make {role}',
+  'circles.removeFrom': 'Remove from {circle}',
+
+  // Account lock
+  'accountLock.event.locked': 'Account locked',
+  'accountLock.event.unlockApproved': 'Unlock approved',
+  'accountLock.event.unlocked': 'Account unlocked',
+  'accountLock.event.pinFailed': 'Incorrect PIN entered',
+  'accountLock.event.pinSet': 'PIN set',
+  'accountLock.event.pinRemoved': 'PIN removed',
+  'accountLock.method.sos': 'after SOS',
+  'accountLock.method.pin': 'with PIN',
+  'accountLock.method.quorum': 'by connections',
+  'accountLock.method.admin': 'by support',
+  'accountLock.byActor': 'by {name}',
+  'accountLock.description': 'After an SOS your account is locked. Choose how it can be unlocked again.',
+  'accountLock.unlockPin': 'Unlock PIN',
+  'accountLock.pinSet': 'PIN is set',
+  'accountLock.noPin': 'No PIN set',
+  'accountLock.pinDescription': 'Lets you unlock your own account from the lock screen. Keep it secret.',
+  'accountLock.newPinPlaceholder': 'New PIN (4-8 digits)',
+  'accountLock.confirmPinPlaceholder': 'Confirm PIN',
+  'accountLock.savePin': 'Save PIN',
+  'accountLock.remove': 'Remove',
+  'accountLock.changePin': 'Change PIN',
+  'accountLock.setPin': 'Set PIN',
+  'accountLock.silentSos': 'Silent SOS',
+  'accountLock.duressPinSet': 'Duress PIN is set',
+  'accountLock.noDuressPin': 'No duress PIN set',
+  'accountLock.duressDescription': 'Entering your duress PIN on the lock screen unlocks the app as normal, but silently alerts your connections and keeps sharing your exact location.',
+  'accountLock.holdDescription': 'You can also hold the Emergency Alert button on the home screen for 3 seconds. Nothing on screen changes. Only a connection can end a silent SOS.',
+  'accountLock.setPinFirst': 'Set an unlock PIN first to add a duress PIN.',
+  'accountLock.duressPinPlaceholder': 'Duress PIN (4-8 digits)',
+  'accountLock.confirmDuressPinPlaceholder': 'Confirm duress PIN',
+  'accountLock.changeDuressPin': 'Change Duress PIN',
+  'accountLock.setDuressPin': 'Set Duress PIN',
+  'accountLock.approvals': 'Connection Approvals',
+  'accountLock.approvalsDescription': 'How many connections must approve before your account is unlocked. Capped at the number of connections you have when the lock starts.',
+  'accountLock.history': 'Lock History',
+  'accountLock.noHistory': 'No lock activity yet.',
+  'accountLock.invalidPin': 'Invalid PIN',
+  'accountLock.invalidPinMessage': 'Your PIN must be 4 to 8 digits.',
+  'accountLock.invalidDuressPinMessage': 'Your duress PIN must be 4 to 8 digits.',
+  'accountLock.pinMismatch': 'PINs do not match',
+  'accountLock.pinMismatchMessage': 'Please enter the same PIN twice.',
+  'accountLock.savePinFailed': 'Failed to save your PIN. Please try again.',
+  'accountLock.removePinTitle': 'Remove PIN',
+  'accountLock.removePinMessage': 'Without a PIN, only your connections can unlock your account after an SOS. Your duress PIN is removed too.',
+  'accountLock.removePinFailed': 'Failed to remove your PIN. Please try again.',
+  'accountLock.saveDuressPinFailed': 'Failed to save your duress PIN. Please try again.',
+  'accountLock.removeDuressPinTitle': 'Remove Duress PIN',
+  'accountLock.removeDuressPinMessage': 'You can still send a silent SOS by holding the Emergency Alert button.',
+  'accountLock.removeDuressPinFailed': 'Failed to remove your duress PIN. Please try again.',
+  'accountLock.saveQuorumFailed': 'Failed to save unlock approvals. Please try again.',
+
+  // Notifications
+  'notifications.title': 'Notifications',
+  'notifications.markAllRead': 'Mark all read',
+  'notifications.emptyTitle': 'No Notifications',
+  'notifications.emptyText': "You're all caught up!",
+  'notifications.alertLevel.danger': 'DANGER',
+  'notifications.alertLevel.warning': 'WARNING',
+  'notifications.alertLevel.alert': 'ALERT',
+  'notifications.markAllReadFailed': 'Failed to mark all notifications as read.',
+  'notifications.locationPermissionTitle': 'Location Permission Required',
+  'notifications.locationPermissionMessage': 'To update your location, please grant location permission in Settings.',
+  'notifications.permissionTitle': 'Permission Required',
+  'notifications.permissionMessage': 'Location permission is required to update your location.',
+  'notifications.locationUpdatedTitle': 'Location Updated',
+  'notifications.locationUpdatedMessage': 'Your location has been updated successfully.',
+  'notifications.locationErrorTitle': 'Location Error',
+  'notifications.locationErrorMessage': 'Unable to get your current location. Please check your location settings.',
+  'notifications.updateLocationFailed': 'Failed to update location. Please try again.',
+  'notifications.emergencyLocation': 'Emergency Location',
+  'notifications.placeAlert': 'Place Alert',
+
+  // Report incident
+  'reportIncident.title': 'Report Incident',
+  'reportIncident.subtitle': 'Help keep your community safe',
+  'reportIncident.type': 'Type of Incident',
+  'reportIncident.titleLabel': 'Title',
+  'reportIncident.titlePlaceholder': 'Brief title for the incident',
+  'reportIncident.descriptionLabel': 'Description',
+  'reportIncident.descriptionPlaceholder': 'Describe what happened, when it occurred, and any relevant details...',
+  'reportIncident.media': 'Photos & Videos',
+  'reportIncident.camera': 'Camera',
+  'reportIncident.library': 'Library',
+  'reportIncident.mediaHint': 'Location data is removed from photos and videos before upload. Videos up to {seconds} seconds.',
+  'reportIncident.location': 'Location',
+  'reportIncident.gettingLocation': 'Getting your location...',
+  'reportIncident.retry': 'Retry',
+  'reportIncident.noLocation': 'No location available',
+  'reportIncident.visibilityHint': 'Only users nearby (within {distance}) will see this report',
+  'reportIncident.when': 'When did this happen?',
+  'reportIncident.happeningNow': 'Happening Now',
+  'reportIncident.happenedEarlier': 'Happened Earlier',
+  'reportIncident.anonymous': 'Anonymous Reporting',
+  'reportIncident.anonymousHint': 'Hide your name from public view (still stored internally for safety)',
+  'reportIncident.info': 'Your report helps keep the community safe. False reports may result in account suspension.',
+  'reportIncident.uploading': 'Uploading...',
+  'reportIncident.submitting': 'Submitting...',
+  'reportIncident.submit': 'Submit Report',
+  'reportIncident.mediaStatus.preparing': 'Preparing...',
+  'reportIncident.mediaStatus.done': 'Uploaded',
+  'reportIncident.mediaStatus.queued': 'Queued',
+  'reportIncident.mediaStatus.failed': 'Failed',
+  'reportIncident.mediaStatus.unsupportedFormat': 'Unsupported format',
+  'reportIncident.mediaStatus.tooLong': 'Too long',
+  'reportIncident.mediaStatus.limitReached': 'Limit reached',
+  'reportIncident.thisLocation': 'this location',
+  'reportIncident.autoTitle.robbery': 'Robbery Reported',
+  'reportIncident.autoTitle.kidnapping': 'Suspicious Activity Reported',
+  'reportIncident.autoTitle.accident': 'Traffic Accident Reported',
+  'reportIncident.autoTitle.fire': 'Fire Reported',
+  'reportIncident.autoTitle.protest': 'Protest Gathering Reported',
+  'reportIncident.autoTitle.assault': 'Assault Incident Reported',
+  'reportIncident.autoTitle.theft': 'Theft Reported',
+  'reportIncident.autoTitle.other': 'Incident Reported',
+  'reportIncident.autoDescription.robbery': 'A robbery incident has been reported.\n\nLocation: {address}\n\nPlease exercise caution and avoid the area if possible. Authorities have been notified.',
+  'reportIncident.autoDescription.kidnapping': 'Suspicious activity related to kidnapping has been reported.\n\nLocation: {address}\n\nPlease remain vigilant and report any suspicious behavior to authorities immediately.',
+  'reportIncident.autoDescription.accident': 'A traffic accident has been reported.\n\nLocation: {address}\n\nEmergency services are responding. Please expect delays and use alternate routes if possible.',
+  'reportIncident.autoDescription.fire': 'A fire has been reported.\n\nLocation: {address}\n\nFire department is responding. Please avoid the area and follow instructions from emergency personnel.',
+  'reportIncident.autoDescription.protest': 'A protest gathering has been reported.\n\nLocation: {address}\n\nPlease expect traffic delays and exercise caution if in the area.',
+  'reportIncident.autoDescription.assault': 'An assault incident has been reported.\n\nLocation: {address}\n\nPlease avoid the area and report any relevant information to authorities.',
+  'reportIncident.autoDescription.theft': 'A theft has been reported.\n\nLocation: {address}\n\nPlease secure your belongings and report any suspicious activity.',
+  'reportIncident.autoDescription.other': 'An incident has been reported.\n\nLocation: {address}\n\nPlease exercise caution in the area.',
+  'reportIncident.locationPermissionDenied': 'Location permission denied. Please enable location access in settings.',
+  'reportIncident.locationUnavailable': 'Unable to get your location. Please try again.',
+  'reportIncident.locationFailed': 'Failed to get location. Please try again.',
+  'reportIncident.limitReached': 'Limit Reached',
+  'reportIncident.limitReachedMessage': 'You can attach up to {count} photos or videos.',
+  'reportIncident.permissionTitle': 'Permission Required',
+  'reportIncident.cameraPermission': 'Camera access is needed to take a photo or video of the incident.',
+  'reportIncident.libraryPermission': 'Photo library access is needed to attach photos or videos.',
+  'reportIncident.videoTooLong': 'Video Too Long',
+  'reportIncident.videoTooLongMessage': 'Videos can be at most {seconds} seconds long.',
+  'reportIncident.attachFailed': 'Failed to attach media. Please try again.',
+  'reportIncident.requiredFields': 'Please fill in all required fields',
+  'reportIncident.locationRequired': 'Location is required. Please wait for location to load or try refreshing.',
+  'reportIncident.invalidCoordinates': 'Invalid location coordinates. Please refresh your location.',
+  'reportIncident.invalidLatitude': 'Invalid latitude. Please refresh your location.',
+  'reportIncident.invalidLongitude': 'Invalid longitude. Please refresh your location.',
+  'reportIncident.submitted': 'Incident reported successfully.',
+  'reportIncident.mediaQueued': '{count} photo(s)/video(s) will finish uploading when your connection improves.',
+  'reportIncident.mediaFailed': "{count} photo(s)/video(s) couldn't be attached.",
+  'reportIncident.submitFailed': 'Failed to report incident. Please try again.',
+
+  // Home
+  'home.visibleToConnections': 'Visible to connections',
+  'home.hiddenFromConnections': 'Hidden from connections',
+  'home.connectionCount': '1 connection',
+  'home.connectionsCount': '{count} connections',
+  'home.location': 'Location',
+  'home.updating': 'Updating...',
+  'home.sharing': 'Sharing',
+  'home.hidden': 'Hidden',
+  'home.sharingOffTitle': 'Location Sharing is Off',
+  'home.sharingOffMessage': 'Turn on location sharing so your connections can see your location and respond to emergencies.',
+  'home.turnOn': 'Turn On',
+  'home.emergency': 'Emergency',
+  'home.emergencyAlert': 'Emergency Alert',
+  'home.alertConnection': 'Alert 1 connection',
+  'home.alertConnections': 'Alert {count} connections',
+  'home.quickActions': 'Quick Actions',
+  'home.reportIncidentSubtitle': 'Report safety concern',
+  'home.checkInSubtitle': "Let contacts know you're safe",
+  'home.emergencySent': 'Emergency Sent',
+  'home.emergencyQueued': 'Emergency Queued',
+  'home.emergencySentMessage': 'Your emergency alert has been sent successfully to your connections.',
+  'home.emergencyQueuedMessage': "Some connections haven't been reached yet. FamGuard keeps retrying until your alert is delivered.",
+  'home.continue': 'Continue',
+  'home.recipient.notified': 'Notified',
+  'home.recipient.appOff': 'App notifications off',
+  'home.recipient.retrying': 'Retrying...',
+  'home.recipient.smsReady': 'SMS ready',
+  'home.recipient.smsUnavailable': 'SMS unavailable',
+  'home.permissionTitle': 'Permission Required',
+  'home.locationPermissionMessage': 'Location permission is required to share your location with connections.',
+  'home.locationErrorTitle': 'Location Error',
+  'home.locationErrorMessage': 'Unable to get your location. Please check your location settings.',
+  'home.toggleSharingFailed': 'Failed to update location sharing. Please try again.',
+  'home.noConnections': 'No Connections',
+  'home.noConnectionsMessage': 'You need to add connections before sending an emergency alert.',
+  'home.sendAlertTitle': 'Send Emergency Alert?',
+  'home.sendAlertMessageOne': 'This will send an emergency alert to your 1 connection.',
+  'home.sendAlertMessage': 'This will send an emergency alert to all {count} connections.',
+  'home.sendAlert': 'Send Emergency Alert',
+  'home.alertWithoutLocation': 'Unable to get your location. Emergency alert will be sent without location data.',
+  'home.sendAlertFailed': 'Failed to send emergency alerts. Please try again.',
+
+  // Map
+  'map.title': 'Map View',
+  'map.timelineTitle': 'Location Timeline',
+  'map.locationsCount': '{count} locations',
+  'map.location': 'Location',
+  'map.tripDestination': 'Trip destination',
+  'map.today': 'Today',
+  'map.yesterday': 'Yesterday',
+  'map.secondsShort': '{count}s',
+  'map.stoppedFor': 'Stopped {duration}',
+  'map.trackingOffFor': 'Tracking off {duration}',
+  'map.moving': 'Moving · {speed}',
+  'map.playbackSummary': '{stops} stops · {distance} in {duration}',
+  'map.playbackGaps': '{count} gaps',
+  'map.tapToSetCenter': 'Tap the map to set the center of the place',
+  'map.tapToOutline': 'Tap the map to outline the place ({count} points)',
+  'map.undo': 'Undo',
+  'map.done': 'Done',
+  'map.tripArrived': 'Arrived safely',
+  'map.tripCancelled': 'Trip cancelled',
+  'map.tripOverdueNoSignal': 'Overdue - location stopped reporting',
+  'map.tripOverdueLate': 'Overdue - past expected arrival',
+  'map.updatedAgo': 'Updated {time}',
+  'map.offline': 'Offline',
+  'map.failedToLoad': 'Map failed to load',
+  'map.checkPlayServices': 'Please check Google Play Services and internet connection',
+  'map.checkInternet': 'Please check your internet connection',
+  'map.locationNotAvailable': 'Location Not Available',
+  'map.locationNotAvailableMessage': "{name}'s location is not available. Location sharing might be turned off.",
+  'map.user': 'User',
+  'map.loadingTimeline': 'Loading timeline...',
+  'map.noHistory': 'No Location History',
+  'map.noHistoryToday': 'No location data for today',
+  'map.noHistoryYesterday': 'No location data for yesterday',
+  'map.noHistoryOn': 'No location data for {date}',
+  'map.movement': 'Movement',
+  'map.unknownLocation': 'Unknown Location',
+  'map.places': 'Places',
+  'map.placesSubtitle': 'Get notified when your connections arrive at or leave these places.',
+  'map.noPlaces': 'No places yet. Add home, school or work.',
+  'map.placeRadius': '{category} · {radius} radius',
+  'map.placeArea': '{category} · {count}-point area',
+  'map.addPlace': 'Add Place',
+  'map.editPlace': 'Edit Place',
+  'map.newPlace': 'New Place',
+  'map.name': 'Name',
+  'map.namePlaceholder': 'e.g. Home, School, Office',
+  'map.type': 'Type',
+  'map.shape': 'Shape',
+  'map.circle': 'Circle',
+  'map.customArea': 'Custom Area',
+  'map.radius': 'Radius',
+  'map.moveCenter': 'Move Center on Map',
+  'map.setCenter': 'Set Center on Map',
+  'map.redrawArea': 'Redraw Area on Map',
+  'map.drawArea': 'Draw Area on Map',
+  'map.alertArrives': 'Alert when someone arrives',
+  'map.alertLeaves': 'Alert when someone leaves',
+  'map.savePlace': 'Save Place',
+  'map.placeCategory.home': 'Home',
+  'map.placeCategory.school': 'School',
+  'map.placeCategory.work': 'Work',
+  'map.placeCategory.other': 'Other',
+  'map.notEnoughPoints': 'Not Enough Points',
+  'map.notEnoughPointsMessage': 'Tap at least 3 points on the map to outline the place.',
+  'map.nameRequired': 'Name Required',
+  'map.nameRequiredMessage': 'Please enter a name for this place.',
+  'map.locationRequired': 'Location Required',
+  'map.locationRequiredMessage': 'Please set the place on the map.',
+  'map.areaRequired': 'Area Required',
+  'map.areaRequiredMessage': 'Please outline the place with at least 3 points on the map.',
+  'map.savePlaceFailed': 'Failed to save place. Please try again.',
+  'map.deletePlace': 'Delete Place',
+  'map.deletePlaceMessage': 'Stop getting arrive/leave alerts for {name}?',
+  'map.deletePlaceFailed': 'Failed to delete place. Please try again.',
+  'map.arrived': 'Arrived',
+  'map.left': 'Left',
+
+  // Connections
+  'connections.locationPermissionTitle': 'Location Permission Required',
+  'connections.locationPermissionMessage': 'Location permission is required to share your location with connections.',
+  'connections.invalidInput': 'Invalid Input',
+  'connections.enterPhone': 'Please enter a phone number.',
+  'connections.invalidPhone': 'Invalid Phone',
+  'connections.phoneLength': 'Please enter an 11-digit phone number.',
+  'connections.cannotInviteSelf': 'You cannot invite yourself.',
+  'connections.checkPhoneFailed': 'Failed to check phone number. Please try again.',
+  'connections.notOnAppTitle': 'Not on FamGuards Yet',
+  'connections.notOnAppMessage': 'This phone number is not registered on the app. Send them an invite link? It takes them to the app and connects you once they sign up.',
+  'connections.sendInviteLink': 'Send Invite Link',
+  'connections.createInviteFailed': 'Failed to create invite. Please try again.',
+  'connections.alreadyConnected': 'Already Connected',
+  'connections.alreadyConnectedMessage': 'You are already connected to this user.',
+  'connections.alreadyConnectedTo': 'You are already connected to {name}.',
+  'connections.invitationSent': 'Invitation Sent',
+  'connections.invitationAlreadySent': 'You have already sent an invitation to this phone number.',
+  'connections.invitationSentTo': 'Invitation sent to {phone}. They will receive a notification.',
+  'connections.sendInvitationFailed': 'Failed to send invitation. Please try again.',
+  'connections.acceptFailed': 'Failed to accept invitation. Please try again.',
+  'connections.rejectFailed': 'Failed to reject invitation. Please try again.',
+  'connections.connected': 'Connected!',
+  'connections.nowConnected': 'You are now connected.',
+  'connections.nowConnectedTo': 'You are now connected to {name}.',
+  'connections.cancelInviteFailed': 'Failed to cancel invite. Please try again.',
+  'connections.inviteCancelled': 'Invite Cancelled',
+  'connections.inviteCancelledMessage': 'This invite can no longer be used.',
+  'connections.loadInviteFailed': 'Failed to load invite. Please try again.',
+  'connections.inviteTitle': 'Connection Invite',
+  'connections.invitePrompt': "Connect with {name}? You will be able to see each other's location and SOS alerts.",
+  'connections.invitePromptUnknown': "Connect with this person? You will be able to see each other's location and SOS alerts.",
+  'connections.notNow': 'Not Now',
+  'connections.connect': 'Connect',
+  'connections.invalidInvite': 'Invalid Invite',
+  'connections.ownInvite': 'You cannot use your own invite.',
+  'connections.inviteExpired': 'Invite Expired',
+  'connections.inviteExpiredMessage': 'This invite has expired or was already used. Ask for a new one.',
+  'connections.tooManyAttempts': 'Too Many Attempts',
+  'connections.tryLater': 'Please try again later.',
+  'connections.inviteNotValid': 'This invite is not valid.',
+  'connections.couldNotConnect': 'Could Not Connect',
+  'connections.connectFailed': 'Failed to connect. Please try again.',
+  'connections.pasteInviteMessage': 'Paste the invite link you received.',
+  'connections.approveUnlock': 'Approve Unlock',
+  'connections.approveUnlockMessage': "Approve unlocking {name}'s account? Only do this once you know they are safe. Their account may need approval from more than one connection.",
+  'connections.approve': 'Approve',
+  'connections.approveUnlockFailed': 'Failed to approve unlock. Please try again.',
+  'connections.unlocked': 'Unlocked',
+  'connections.unlockedMessage': '{name} has been unlocked and can now access the app.',
+  'connections.approvalRecorded': 'Approval Recorded',
+  'connections.approvalRecordedMessage': '{approvals} of {required} connections have approved. {name} will be unlocked once enough connections approve.',
+  'connections.updateSharingFailed': 'Failed to update location sharing. Please try again.',
+  'connections.shareMyLocationTitle': 'Share My Location',
+  'connections.shareDurationPrompt': 'How long should {name} see your location?',
+  'connections.shareAlways': 'Always',
+  'connections.shareOneHour': 'For 1 hour',
+  'connections.shareEightHours': 'For 8 hours',
+  'connections.shareUntilArrive': 'Until I arrive',
+  'connections.shareWeekdays': 'Weekdays 7-9am',
+  'connections.markSafe': 'Mark Safe',
+  'connections.markSafeMessage': "End {name}'s silent SOS? Only do this once you have confirmed in person or through a trusted channel that they are safe.",
+  'connections.endSilentSosFailed': 'Failed to end the silent SOS. Please try again.',
+  'connections.markedSafe': 'Marked Safe',
+  'connections.markedSafeMessage': "{name}'s silent SOS has ended.",
+  'connections.online': 'Online',
+  'connections.offline': 'Offline',
+  'connections.sharingDisabledTitle': 'Location Sharing Disabled',
+  'connections.sharingDisabledMessage': "{name} won't be able to see your live location.",
+  'connections.removeFailed': 'Failed to remove connection. Please try again.',
+  'connections.quickActions': 'Quick Actions',
+  'connections.inviteByPhone': 'Invite by Phone',
+  'connections.sendInvitationSubtitle': 'Send invitation',
+  'connections.generating': 'Generating...',
+  'connections.inviteLink': 'Invite Link',
+  'connections.qrOrLink': 'QR code or link',
+  'connections.openInvite': 'Open Invite',
+  'connections.connectNow': 'Connect now',
+  'connections.findContacts': 'Find contacts on FamGuards',
+  'connections.pendingInvitations': 'Pending Invitations',
+  'connections.wantsToConnect': 'Wants to connect with you',
+  'connections.accept': 'Accept',
+  'connections.reject': 'Reject',
+  'connections.loading': 'Loading connections...',
+  'connections.emptyTitle': 'No connections yet',
+  'connections.emptyText': 'Start by inviting someone using the quick actions above',
+  'connections.yourConnections': 'Your Connections',
+  'connections.unknownUser': 'Unknown User',
+  'connections.accountLocked': 'Account locked - needs assistance',
+  'connections.underDuress': "May be under duress - don't call or text",
+  'connections.sharingDisabled': 'Location sharing disabled',
+  'connections.sharingWithYou': 'Sharing with you: {status}',
+  'connections.viewOnMap': 'View on Map',
+  'connections.chooseAction': 'Choose an action',
+  'connections.viewSos': 'View SOS',
+  'connections.markSafeEndSos': 'Mark Safe (End Silent SOS)',
+  'connections.removeConnection': 'Remove Connection',
+  'connections.moreOptions': 'More Options',
+  'connections.shareMyLocation': 'Share my location',
+  'connections.pausedNow': ' (paused now)',
+  'connections.change': 'Change',
+  'connections.phonePlaceholder': 'Enter 11-digit phone number',
+  'connections.sendInvitation': 'Send Invitation',
+  'connections.invitationExpires': 'Invitation expires in 7 days',
+  'connections.yourInvite': 'Your Invite',
+  'connections.inviteHint': "Let them scan this code, or share the link. It works once and expires {time}. If they don't have FamGuards yet, the link takes them to the app and the invite waits until they sign up.",
+  'connections.shareMessage': 'Connect with me on FamGuards so we can look out for each other: {link}',
+  'connections.shareLink': 'Share Link',
+  'connections.copied': 'Copied!',
+  'connections.linkCopied': 'Invite link copied to clipboard.',
+  'connections.copyLink': 'Copy Link',
+  'connections.cancelInvite': 'Cancel Invite',
+  'connections.pasteInvitePlaceholder': 'Paste invite link',
+  'connections.openInviteHint': 'Paste the invite link shared by the other person, or scan their QR code with your camera',
+
+  // Location sharing
+  'locationSharing.always': 'Always',
+  'locationSharing.off': 'Off',
+  'locationSharing.timeLeft': '{time} left',
+  'locationSharing.ending': 'Ending...',
+  'locationSharing.untilArrival': 'Until arrival',
+  'locationSharing.everyDay': 'Every day',
+  'locationSharing.weekdays': 'Weekdays',
+  'locationSharing.weekends': 'Weekends',
+  'locationSharing.day1': 'Mon',
+  'locationSharing.day2': 'Tue',
+  'locationSharing.day3': 'Wed',
+  'locationSharing.day4': 'Thu',
+  'locationSharing.day5': 'Fri',
+  'locationSharing.day6': 'Sat',
+  'locationSharing.day7': 'Sun',
+
+  // Battery saving
+  'batterySaving.description': 'Optimize app performance to conserve battery life. Some features may be limited.',
+  'batterySaving.activeProfile': 'Active profile: {profile}',
+  'batterySaving.batteryLevel': '{reason} · Battery {level}%',
+  'batterySaving.autoNote': 'Tracking tightens automatically when your battery drops below {threshold}% and is not charging.',
+  'batterySaving.enable': 'Enable Battery Saving',
+  'batterySaving.enableSubtitle': 'Reduce background activity',
+  'batterySaving.reduceLocation': 'Reduce Location Updates',
+  'batterySaving.reduceLocationSubtitle': 'Update location less frequently',
+  'batterySaving.reduceSync': 'Reduce Background Sync',
+  'batterySaving.reduceSyncSubtitle': 'Sync data less frequently',
+  'batterySaving.saveFailed': 'Failed to save battery saving settings. Please try again.',
+  'batterySaving.profile.normal': 'Full Accuracy',
+  'batterySaving.profile.normalDescription': 'Precise GPS, location shared every 30 minutes in the background.',
+  'batterySaving.profile.balanced': 'Balanced',
+  'batterySaving.profile.balancedDescription': 'Slightly lower GPS accuracy and fewer foreground checks.',
+  'batterySaving.profile.saver': 'Battery Saver',
+  'batterySaving.profile.saverDescription': 'Approximate location, updated about once an hour.',
+  'batterySaving.profile.critical': 'Critical Battery',
+  'batterySaving.profile.criticalDescription': 'Minimal tracking, updated about every 2 hours to keep your phone alive.',
+  'batterySaving.reason.default': 'Battery saving is off',
+  'batterySaving.reason.settings': 'Based on your battery saving settings',
+  'batterySaving.reason.lowBattery': 'Battery below {threshold}%',
+  'batterySaving.reason.lowPowerMode': 'Device low power mode is on',
+
+  // Location accuracy
+  'locationAccuracy.description': 'Choose how precise your location is shared with your connections.',
+  'locationAccuracy.exact': 'Exact GPS Location',
+  'locationAccuracy.exactSubtitle': 'Share your precise location with exact coordinates',
+  'locationAccuracy.approximate': 'Approximate Location',
+  'locationAccuracy.approximateSubtitle': 'Share a general area (about 2 km) and only your city for privacy',
+  'locationAccuracy.emergencyInfo': 'During an SOS or emergency, your exact location is always shared so your connections can find you.',
+  'locationAccuracy.emergencyActive': 'Emergency tracking is active. Your exact location is being shared until it ends.',
+  'locationAccuracy.saveFailed': 'Failed to save location accuracy setting. Please try again.',
+
+  // Location update frequency
+  'updateFrequency.option15': '15 minutes',
+  'updateFrequency.option15Description': 'Update location every 15 minutes',
+  'updateFrequency.option30': '30 minutes',
+  'updateFrequency.option30Description': 'Update location every 30 minutes',
+  'updateFrequency.option60': '1 hour',
+  'updateFrequency.option60Description': 'Update location every hour (recommended)',
+  'updateFrequency.option120': '2 hours',
+  'updateFrequency.option120Description': 'Update location every 2 hours',
+  'updateFrequency.option180': '3 hours',
+  'updateFrequency.option180Description': 'Update location every 3 hours',
+  'updateFrequency.description': 'Choose how often your location is updated and shared with your connections. More frequent updates provide better accuracy but use more battery.',
+  'updateFrequency.current': 'Current',
+  'updateFrequency.info': 'Your location will be updated automatically at the selected interval when location sharing is enabled. You can change this setting at any time.',
+  'updateFrequency.loadFailed': 'Failed to load settings. Using default values.',
+  'updateFrequency.saveFailed': 'Failed to save location update frequency. Please try again.',
+
+  // Sleep mode
+  'sleepMode.description': 'Sleep mode reduces notifications and location updates during your sleep hours to avoid disturbing you. SOS alerts and check-in emergencies always come through.',
+  'sleepMode.enable': 'Enable Sleep Mode',
+  'sleepMode.enableSubtitle': 'Reduce notifications during sleep hours',
+  'sleepMode.hours': 'Sleep Hours',
+  'sleepMode.startTime': 'Start Time',
+  'sleepMode.endTime': 'End Time',
+  'sleepMode.timePickerNote': 'Time picker functionality can be added here',
+  'sleepMode.saveFailed': 'Failed to save sleep mode setting. Please try again.',
+
+  // Edit profile
+  'editProfile.name': 'Name',
+  'editProfile.namePlaceholder': 'Enter your name',
+  'editProfile.email': 'Email',
+  'editProfile.emailPlaceholder': 'Enter your email',
+  'editProfile.phone': 'Phone',
+  'editProfile.phonePlaceholder': 'Enter your phone number',
+  'editProfile.save': 'Save Changes',
+  'editProfile.nameRequired': 'Name is required',
+  'editProfile.saved': 'Profile updated successfully',
+  'editProfile.saveFailed': 'Failed to update profile. Please try again.',
+
+  // Emergency notes
+  'emergencyNotes.description': 'Add important medical information, allergies, medications, or emergency contacts that should be visible to your connections in case of an emergency.',
+  'emergencyNotes.placeholder': 'Enter emergency notes...',
+  'emergencyNotes.save': 'Save Notes',
+  'emergencyNotes.saved': 'Emergency notes updated successfully',
+  'emergencyNotes.saveFailed': 'Failed to update emergency notes. Please try again.',
+
+  // Locked
+  'locked.title': 'App Locked',
+  'locked.secured': 'SECURED',
+  'locked.restricted': 'Access to the app is temporarily restricted.',
+  'locked.messageWithPin': 'Enter your PIN, or ask your trusted connections to approve unlocking your account.',
+  'locked.messageNoPin': 'Please contact your trusted connections to approve unlocking your account.',
+  'locked.pinPlaceholder': 'Enter your PIN',
+  'locked.unlock': 'Unlock',
+  'locked.pinCheckFailed': 'Could not check your PIN. Please try again.',
+  'locked.incorrectPinOne': 'Incorrect PIN. 1 attempt remaining.',
+  'locked.incorrectPin': 'Incorrect PIN. {count} attempts remaining.',
+  'locked.tooManyAttempts': 'Too many incorrect attempts. Ask your connections to approve the unlock.',
+  'locked.noApprovers': 'None of your connections can approve unlocking. Use your PIN to unlock.',
+  'locked.approvalsOne': '{approved} of 1 connection approved unlocking',
+  'locked.approvals': '{approved} of {required} connections approved unlocking',
+  'locked.exactLocation': 'Your exact location is being shared with your connections until your account is unlocked.',
+  'locked.checkingStatus': 'Checking lock status...',
+
+  // Update
+  'update.title': 'Update Required',
+  'update.subtitle': 'A new version of FamGuard is available',
+  'update.message': 'Please update to the latest version to continue using the app and access new features.',
+  'update.currentVersion': 'Current Version: {version}',
+  'update.updateNow': 'Update Now',
+  'update.storeInfo': 'The app will automatically open the {store} for you',
+
+  // Offline maps
+  'offlineMaps.totalStorage': 'Total Storage: {size}',
+  'offlineMaps.emptyTitle': 'No Offline Maps',
+  'offlineMaps.emptyText': 'Download maps for areas with poor connectivity to use them offline.',
+  'offlineMaps.downloadFirst': 'Download Your First Map',
+  'offlineMaps.tiles': '{size} • {count} tiles',
+  'offlineMaps.downloadedOn': 'Downloaded {date}',
+  'offlineMaps.downloadTitle': 'Download Offline Map',
+  'offlineMaps.mapName': 'Map Name',
+  'offlineMaps.mapNamePlaceholder': 'e.g., Home Area, Work Route',
+  'offlineMaps.selectRegion': 'Select Region',
+  'offlineMaps.selectRegionHint': 'Pan and zoom to select the area you want to download',
+  'offlineMaps.downloading': 'Downloading...',
+  'offlineMaps.tileProgress': '{done} / {total} tiles',
+  'offlineMaps.downloadMap': 'Download Map',
+  'offlineMaps.loadFailed': 'Failed to load offline maps.',
+  'offlineMaps.nameRequired': 'Please enter a name for the map.',
+  'offlineMaps.regionRequired': 'Please select a region on the map.',
+  'offlineMaps.downloaded': 'Map "{name}" downloaded successfully!',
+  'offlineMaps.downloadFailed': 'Failed to download map. Please try again.',
+  'offlineMaps.deleteTitle': 'Delete Map',
+  'offlineMaps.deleteMessage': 'Are you sure you want to delete "{name}"? This will free up {size} of storage.',
+  'offlineMaps.deleteFailed': 'Failed to delete map.',
+  'offlineMaps.locationFailed': 'Failed to get current location.',
+
+  // Incident detail
+  'incidentDetail.title': 'Incident Details',
+  'incidentDetail.verified': 'Verified',
+  'incidentDetail.status': 'Status',
+  'incidentDetail.status.ongoing': 'Ongoing',
+  'incidentDetail.status.contained': 'Contained',
+  'incidentDetail.status.resolved': 'Resolved',
+  'incidentDetail.reporterMarked': '{name} marked this {status}',
+  'incidentDetail.communityMarked': 'Community marked this {status}',
+  'incidentDetail.reporter': 'Reporter',
+  'incidentDetail.reply': 'Reply',
+  'incidentDetail.statusVoteRecorded': 'Vote Recorded',
+  'incidentDetail.statusConsensus': 'The status changes once {count} people agree.',
+  'incidentDetail.statusFailed': 'Failed to update the status. Please try again.',
+  'incidentDetail.locationUnavailable': 'Location Unavailable',
+  'incidentDetail.locationUnavailableMessage': 'Your update will be posted without a location.',
+  'incidentDetail.postFailed': 'Failed to post your update. Please try again.',
+  'incidentDetail.reporterHint': 'You reported this incident. Keep its status up to date.',
+  'incidentDetail.statusHint': 'Is this still happening? The status changes once {count} people agree.',
+  'incidentDetail.description': 'Description',
+  'incidentDetail.reportedBy': 'Reported by {name}',
+  'incidentDetail.anonymous': 'Anonymous',
+  'incidentDetail.you': 'You',
+  'incidentDetail.directions': 'Get Directions',
+  'incidentDetail.updates': 'Updates',
+  'incidentDetail.noUpdates': 'No updates yet. Seen something new? Let others know.',
+  'incidentDetail.replyingTo': 'Replying to {name}',
+  'incidentDetail.replyPlaceholder': 'Write a reply',
+  'incidentDetail.updatePlaceholder': 'e.g., Police have arrived',
+  'incidentDetail.includeLocation': 'Include my location',
+  'incidentDetail.post': 'Post',
+
+  // Incident votes
+  'incidentDetail.voteFailed': 'Failed to record your vote. Please try again.',
+  'incidentDetail.isAccurate': 'Is this accurate?',
+  'incidentDetail.confirmVote': 'I can confirm ({count})',
+  'incidentDetail.falseVote': 'This is false ({count})',
+  'incidentDetail.voteHintReporter': 'Others nearby can confirm your report.',
+  'incidentDetail.voteHint': 'Votes from people near the incident count the most.',
+
+  // Incident feed
+  'incidents.filterMinutes': '{count} min',
+  'incidents.filterHours': '{count} hr',
+  'incidents.loading': 'Loading incidents...',
+  'incidents.noReports': 'No Recent Reports',
+  'incidents.noReportsMessage': 'There are no recent incidents reported in your area. Stay safe!',
+
+  // Travel advisories
+  'travelAdvisory.title': 'Travel Advisories',
+  'travelAdvisory.subtitle': 'Stay informed about travel risks',
+  'travelAdvisory.calculateRouteRisk': 'Calculate Route Risk',
+  'travelAdvisory.originState': 'Origin State *',
+  'travelAdvisory.originCity': 'Origin City (Optional)',
+  'travelAdvisory.destinationState': 'Destination State *',
+  'travelAdvisory.destinationCity': 'Destination City (Optional)',
+  'travelAdvisory.originStatePlaceholder': 'e.g., Lagos',
+  'travelAdvisory.originCityPlaceholder': 'e.g., Ikeja',
+  'travelAdvisory.destinationStatePlaceholder': 'e.g., Abuja',
+  'travelAdvisory.destinationCityPlaceholder': 'e.g., Garki',
+  'travelAdvisory.calculateRisk': 'Calculate Risk',
+  'travelAdvisory.statesRequired': 'Please enter both origin and destination states.',
+  'travelAdvisory.routeRiskFailed': 'Failed to calculate route risk. Please try again.',
+  'travelAdvisory.routeRiskTitle': 'Route Risk Assessment',
+  'travelAdvisory.riskScore': 'Risk Score',
+  'travelAdvisory.last24h': 'Last 24h',
+  'travelAdvisory.last7Days': 'Last 7 days',
+  'travelAdvisory.last30Days': 'Last 30 days',
+  'travelAdvisory.incidentsNearRoute': 'Incidents within {distance} of the route',
+  'travelAdvisory.incidentsInAreas': 'Incidents in the origin and destination areas',
+  'travelAdvisory.forYourLocation': 'Advisories for Your Location',
+  'travelAdvisory.noAdvisories': 'No active advisories',
+  'travelAdvisory.locationSafe': 'Your current location appears safe',
+  'travelAdvisory.affectedAreas': 'Affected Areas:',
+  'travelAdvisory.source': 'Source: {source}',
+  'travelAdvisory.risk.low': 'Low Risk',
+  'travelAdvisory.risk.moderate': 'Moderate Risk',
+  'travelAdvisory.risk.high': 'High Risk',
+  'travelAdvisory.risk.critical': 'Critical Risk',
+  'travelAdvisory.type.security': 'SECURITY',
+  'travelAdvisory.type.weather': 'WEATHER',
+  'travelAdvisory.type.combined': 'COMBINED',
+
+  // Check-in settings
+  'checkInSettings.saved': 'Settings saved successfully.',
+  'checkInSettings.saveFailed': 'Failed to save settings. Please try again.',
+  'checkInSettings.enable': 'Enable Check-ins',
+  'checkInSettings.enableDescription': 'Allow periodic safety check-ins',
+  'checkInSettings.interval': 'Check-in Interval',
+  'checkInSettings.intervalLabel': 'Interval (minutes)',
+  'checkInSettings.intervalHint': 'How often you want to check in (default: {minutes} minutes)',
+  'checkInSettings.automatic': 'Automatic Check-ins',
+  'checkInSettings.automaticDescription': 'Automatically check in at scheduled intervals',
+  'checkInSettings.duringTravel': 'Auto Check-in During Travel',
+  'checkInSettings.duringTravelDescription': 'Automatically check in when traveling',
+  'checkInSettings.travelDetection': 'Travel Detection',
+  'checkInSettings.speedThreshold': 'Speed Threshold ({unit})',
+  'checkInSettings.speedThresholdHint': 'Consider traveling if speed exceeds this threshold (default: {speed})',
+  'checkInSettings.missedAlerts': 'Missed Check-in Alerts',
+  'checkInSettings.alertAfter': 'Alert After (minutes)',
+  'checkInSettings.alertAfterHint': 'Alert emergency contacts if check-in is missed by this duration (default: {minutes} minutes)',
+  'checkInSettings.aboutTitle': 'About Check-ins',
+  'checkInSettings.aboutText': "Check-ins help your emergency contacts know you're safe. You can manually check in anytime or set up automatic check-ins.",
+  'checkInSettings.aboutMissed': 'If you miss a scheduled check-in, your emergency contacts will be notified.',
+  'checkInSettings.save': 'Save Settings',
+
+  // Profile
+  'profile.loading': 'Loading profile...',
+  'profile.circlesSubtext': 'Who gets your location and alerts',
+  'profile.shareLocationSubtext': 'Visible to connections',
+  'profile.communityReportsSubtext': 'Show nearby incidents',
+  'profile.accountLockSubtext': 'Unlock PIN and connection approvals',
+  'profile.locationAccuracySubtext': 'Exact GPS or approximate',
+  'profile.locationUpdateFrequencySubtext': 'How often location updates',
+  'profile.pushNotificationsSubtext': 'Receive safety alerts',
+  'profile.testPushNotificationSubtext': 'Send a test notification to this device',
+  'profile.warning': 'Warning',
+  'profile.unknownError': 'Unknown error',
+  'profile.continue': 'Continue',
+  'profile.physicalDeviceTitle': 'Physical Device Required',
+  'profile.physicalDeviceMessage': 'Push notifications only work on physical devices, not simulators or emulators. Please test on a real device.',
+  'profile.permissionRequired': 'Permission Required',
+  'profile.permissionDeniedSettings': 'Push notifications require notification permission. It appears you previously denied this permission.\n\nPlease enable it manually:\n1. Go to Settings\n2. Tap Apps > FamGuard\n3. Tap Notifications\n4. Enable "Show notifications"',
+  'profile.permissionPrompt': 'Push notifications require notification permission to alert you about emergencies.\n\nPlease grant permission when prompted to receive important safety alerts.',
+  'profile.pushTokenFailed': 'Permission granted but failed to register push token. Notifications may not work. Please try again later.',
+  'profile.permissionNotGranted': 'Permission Not Granted',
+  'profile.permissionNotGrantedMessage': 'Notification permission is required for push notifications. Please grant permission to enable notifications.',
+  'profile.notificationsSaveFailed': 'Failed to save notification settings. Please try again.',
+  'profile.notificationsSaveFailedDetail': 'Failed to save notification settings: {error}\n\nPlease try again.',
+  'profile.notificationsEnabled': 'Push notifications enabled! You will receive emergency alerts and safety notifications.',
+  'profile.notificationsSavedNoPermission': 'Notifications setting saved, but permission is not granted. Please enable notifications in device settings.',
+  'profile.communityReportsSaveFailed': 'Failed to save community reports settings. Please try again.',
+  'profile.locationSharingSaveFailed': 'Failed to save location sharing settings. Please try again.',
+  'profile.userNotFound': 'User not found. Please log in and try again.',
+  'profile.testPermissionMessage': 'Push notifications require notification permission. Please enable it in Settings > Apps > FamGuard > Notifications, or toggle Push Notifications ON in Profile.',
+  'profile.tokenNotFound': 'Token Not Found',
+  'profile.tokenNotFoundMessage': 'Push notification token not registered. Please toggle Push Notifications ON in Profile to register your token.',
+  'profile.testPushConfirm': 'This will send a test notification to your device. Continue?',
+  'profile.sendTest': 'Send Test',
+  'profile.testPushSendFailed': 'Failed to send test notification: {error}\n\nCheck Edge Function logs for details.',
+  'profile.testPushSuccessTitle': '✅ Success!',
+  'profile.testPushSuccess': 'Test notification sent successfully!\n\nCheck your device notifications. You should receive a test notification shortly.\n\nSent: {sent}\nFailed: {failed}',
+  'profile.testPushNoneSentTitle': '⚠️ No Notification Sent',
+  'profile.testPushNoneSent': '{message}\n\nThis usually means:\n• Token not found in database\n• Token expired or invalid\n• Try toggling Push Notifications OFF and ON again',
+  'profile.testPushUnknownTitle': '⚠️ Unknown Result',
+  'profile.testPushUnknown': 'Notification request completed but no confirmation. Check your device notifications.',
+  'profile.testPushFailed': 'Failed to test notification: {error}\n\nPlease try again.',
+  'profile.signOutConfirm': 'Are you sure you want to sign out?',
+  'profile.signOutFailed': 'Failed to sign out. Please try again.',
+  'profile.deleteAccountConfirm': 'Are you sure you want to delete your account? This action cannot be undone. All your data, connections, and settings will be permanently deleted.',
+  'profile.finalConfirmation': 'Final Confirmation',
+  'profile.finalConfirmationMessage': 'This will permanently delete your account and all associated data. Are you absolutely sure?',
+  'profile.confirmDeleteAccount': 'Yes, Delete My Account',
+  'profile.deleteAccountFailed': 'Failed to delete account. Please try again.',
+  'profile.deleteUrlMissing': 'Account deletion URL is not configured. Please contact support.',
+  'profile.deleteViaWebsiteMessage': 'You will be redirected to our website to complete the account deletion process.',
+  'profile.openWebsiteFailed': 'Could not open the website. Please try again later.',
+};
+
+export default en;
@@ -0,0 +1,998 @@
+import type { TranslationCatalog } from '../index';
+
+// Spanish
+const es: TranslationCatalog = {
+  'common.error': 'Error',
+  'common.success': 'Listo',
+  'common.ok': 'Aceptar',
+  'common.cancel': 'Cancelar',
+  'common.save': 'Guardar',
+  'common.delete': 'Eliminar',
+  'common.loadingSettings': 'Cargando configuración...',
+  'common.tryAgain': 'Algo salió mal. Inténtalo de nuevo.',
+  'common.openSettings': 'Abrir Ajustes',
+
+  'tabs.home': 'Inicio',
+  'tabs.incidents': 'Incidentes',
+  'tabs.connections': 'Conexiones',
+  'tabs.profile': 'Perfil',
+
+  'profile.personalInformation': 'Información personal',
+  'profile.editProfile': 'Editar perfil',
+  'profile.connections': 'Conexiones',
+  'profile.circles': 'Círculos y roles',
+  'profile.emergencyNotes': 'Notas de emergencia',
+  'profile.safetyPrivacy': 'Seguridad y privacidad',
+  'profile.shareLocation': 'Compartir ubicación',
+  'profile.communityReports': 'Reportes de la comunidad',
+  'profile.locationAccuracy': 'Precisión de ubicación',
+  'profile.locationUpdateFrequency': 'Frecuencia de actualización',
+  'profile.notifications': 'Notificaciones',
+  'profile.pushNotifications': 'Notificaciones push',
+  'profile.testPushNotification': 'Probar notificación push',
+  'profile.sleepMode': 'Modo descanso',
+  'profile.notificationFilters': 'Filtros de notificaciones',
+  'profile.accountLock': 'Bloqueo y desbloqueo SOS',
+  'profile.appSettings': 'Ajustes de la app',
+  'profile.languageRegion': 'Idioma y región',
+  'profile.units': 'Unidades (km / millas)',
+  'profile.batterySaving': 'Ahorro de batería',
+  'profile.offlineMaps': 'Mapas sin conexión',
+  'profile.usersManual': 'Manual de usuario',
+  'profile.helpSupport': 'Ayuda y soporte',
+  'profile.privacyPolicy': 'Política de privacidad',
+  'profile.termsOfService': 'Términos del servicio',
+  'profile.accountManagement': 'Gestión de la cuenta',
+  'profile.deleteAccount': 'Eliminar cuenta',
+  'profile.deleteAccountWebsite': 'Eliminar cuenta en el sitio web',
+  'profile.signOut': 'Cerrar sesión',
+
+  'languageRegion.title': 'Idioma y región',
+  'languageRegion.language': 'Idioma',
+  'languageRegion.region': 'Región',
+  'languageRegion.saveLanguageFailed': 'No se pudo guardar el idioma. Inténtalo de nuevo.',
+  'languageRegion.saveRegionFailed': 'No se pudo guardar la región. Inténtalo de nuevo.',
+
+  'units.title': 'Unidades',
+  'units.description': 'Elige tu sistema de unidades para distancias, velocidades y alertas.',
+  'units.metric': 'Métrico (km, m)',
+  'units.metricSubtitle': 'Kilómetros y metros',
+  'units.imperial': 'Imperial (millas, pies)',
+  'units.imperialSubtitle': 'Millas y pies',
+  'units.saveFailed': 'No se pudo guardar el sistema de unidades. Inténtalo de nuevo.',
+
+  'incidents.safetyFeed': 'Seguridad',
+  'incidents.distanceAway': 'a {distance}',
+  'incidents.category.robbery': 'Robo',
+  'incidents.category.kidnapping': 'Secuestro',
+  'incidents.category.accident': 'Accidente',
+  'incidents.category.fire': 'Incendio',
+  'incidents.category.protest': 'Protesta',
+  'incidents.category.assault': 'Agresión',
+  'incidents.category.theft': 'Hurto',
+  'incidents.category.other': 'Otro',
+
+  'time.justNow': 'Justo ahora',
+  'time.minuteAgo': 'hace 1 minuto',
+  'time.minutesAgo': 'hace {count} minutos',
+  'time.hourAgo': 'hace 1 hora',
+  'time.hoursAgo': 'hace {count} horas',
+  'time.dayAgo': 'hace 1 día',
+  'time.daysAgo': 'hace {count} días',
+  'time.weekAgo': 'hace 1 semana',
+  'time.weeksAgo': 'hace {count} semanas',
+  'time.monthAgo': 'hace 1 mes',
+  'time.monthsAgo': 'hace {count} meses',
+  'time.yearAgo': 'hace 1 año',
+  'time.yearsAgo': 'hace {count} años',
+  'time.todayAt': 'Hoy a las {time}',
+  'time.yesterdayAt': 'Ayer a las {time}',
+  'time.dateAt': '{date} a las {time}',
+
+  'lastSeen.onlineNow': 'En línea',
+  'lastSeen.active': 'Activo {time}',
+  'lastSeen.lastSeen': 'Visto por última vez {time}',
+
+  'checkIn.title': 'Registro de seguridad',
+  'checkIn.subtitle': 'Avisa a tus contactos de que estás a salvo',
+  'checkIn.quickCheckIn': 'Registro rápido',
+  'checkIn.imSafe': 'Estoy a salvo',
+  'checkIn.delayed': 'Con retraso',
+  'checkIn.checkingIn': 'Registrando...',
+  'checkIn.lastCheckIn': 'Último registro',
+  'checkIn.recentCheckIns': 'Registros recientes',
+  'checkIn.status.safe': 'A SALVO',
+  'checkIn.status.unsafe': 'EN PELIGRO',
+  'checkIn.status.delayed': 'CON RETRASO',
+  'checkIn.status.missed': 'OMITIDO',
+  'checkIn.successTitle': '✅ Registro completado',
+  'checkIn.successMessage': 'Tu estado de seguridad se ha actualizado.',
+  'checkIn.failed': 'No se pudo registrar. Inténtalo de nuevo.',
+  'checkIn.settingsTitle': 'Ajustes de registro',
+  'checkIn.autoCheckInsEnabled': 'Registros automáticos: activados',
+  'checkIn.autoCheckInsDisabled': 'Registros automáticos: desactivados',
+  'checkIn.interval': 'Intervalo: cada {minutes} minutos',
+  'checkIn.emergencyContacts': 'Contactos de emergencia: {count}',
+
+  'notificationFilters.sosAlert': 'Alertas SOS',
+  'notificationFilters.sosAlertSubtitle': 'Alertas de emergencia de tus contactos',
+  'notificationFilters.sosResponse': 'Respuestas SOS',
+  'notificationFilters.sosResponseSubtitle': 'Quién responde a un SOS',
+  'notificationFilters.checkInEmergency': 'Registros de emergencia',
+  'notificationFilters.checkInEmergencySubtitle': 'Contactos que informan de una emergencia',
+  'notificationFilters.checkInUnsafe': 'Registros de peligro',
+  'notificationFilters.checkInUnsafeSubtitle': 'Contactos que informan de que no se sienten seguros',
+  'notificationFilters.missedCheckIn': 'Registros omitidos',
+  'notificationFilters.missedCheckInSubtitle': 'Contactos que no hicieron un registro programado',
+  'notificationFilters.tripOverdue': 'Viajes con retraso',
+  'notificationFilters.tripOverdueSubtitle': 'Viajes que se alargaron o dejaron de informar',
+  'notificationFilters.incidentProximity': 'Incidentes cercanos',
+  'notificationFilters.incidentProximitySubtitle': 'Incidentes informados cerca de ti',
+  'notificationFilters.incident': 'Informes de incidentes',
+  'notificationFilters.incidentSubtitle': 'Nuevos incidentes en el feed de seguridad',
+  'notificationFilters.placeArrival': 'Llegadas a lugares',
+  'notificationFilters.placeArrivalSubtitle': 'Contactos que llegan a tus lugares',
+  'notificationFilters.placeDeparture': 'Salidas de lugares',
+  'notificationFilters.placeDepartureSubtitle': 'Contactos que salen de tus lugares',
+  'notificationFilters.checkIn': 'Registros',
+  'notificationFilters.checkInSubtitle': 'Registros habituales de tus contactos',
+  'notificationFilters.tripStarted': 'Viaje iniciado',
+  'notificationFilters.tripStartedSubtitle': 'Contactos que comparten un viaje contigo',
+  'notificationFilters.tripArrived': 'Llegadas de viajes',
+  'notificationFilters.tripArrivedSubtitle': 'Contactos que llegan a su destino',
+  'notificationFilters.tripCancelled': 'Viaje cancelado',
+  'notificationFilters.tripCancelledSubtitle': 'Contactos que terminan antes un viaje compartido',
+  'notificationFilters.travelAdvisory': 'Avisos de viaje',
+  'notificationFilters.travelAdvisorySubtitle': 'Avisos de seguridad para tus viajes',
+  'notificationFilters.routeRisk': 'Riesgo de ruta',
+  'notificationFilters.routeRiskSubtitle': 'Advertencias de riesgo para rutas planificadas',
+  'notificationFilters.connectionAdded': 'Nuevos contactos',
+  'notificationFilters.connectionAddedSubtitle': 'Alguien te añadió como contacto',
+  'notificationFilters.locationReminder': 'Recordatorios de ubicación',
+  'notificationFilters.locationReminderSubtitle': 'Recordatorios para actualizar tu ubicación',
+  'notificationFilters.morningGreeting': 'Saludo de la mañana',
+  'notificationFilters.morningGreetingSubtitle': 'Mensaje diario de buenos días',
+  'notificationFilters.afternoonGreeting': 'Saludo de la tarde',
+  'notificationFilters.afternoonGreetingSubtitle': 'Mensaje diario de buenas tardes',
+  'notificationFilters.appUpdate': 'Actualizaciones',
+  'notificationFilters.appUpdateSubtitle': 'Nuevas versiones de FamGuard',
+  'notificationFilters.title': 'Filtros de notificaciones',
+  'notificationFilters.description': 'Elige qué notificaciones push recibes. Las alertas SOS y los registros de emergencia siempre llegan, incluso de contactos silenciados.',
+  'notificationFilters.safetyAlerts': 'Alertas de seguridad',
+  'notificationFilters.alerts': 'Alertas',
+  'notificationFilters.updatesGreetings': 'Novedades y saludos',
+  'notificationFilters.connections': 'Contactos',
+  'notificationFilters.noConnections': 'Aún no tienes contactos.',
+  'notificationFilters.alwaysOn': 'Siempre activo',
+  'notificationFilters.connectionMuted': 'Silenciado: solo alertas de seguridad',
+  'notificationFilters.connectionAll': 'Todas las notificaciones',
+  'notificationFilters.saveFailed': 'No se pudo guardar el filtro. Inténtalo de nuevo.',
+
+  'findContacts.title': 'Buscar contactos',
+  'findContacts.introTitle': 'Encuentra a gente que conoces',
+  'findContacts.introDescription': 'Mira cuáles de tus contactos ya usan FamGuards y conéctate con un toque, o invita al resto. Los números se quedan en tu teléfono: solo se comprueba un hash unidireccional de cada número.',
+  'findContacts.search': 'Buscar contactos',
+  'findContacts.regionHint': 'Los números sin prefijo de país se leen como {region}.',
+  'findContacts.changeRegion': 'Cambiar región',
+  'findContacts.noMatches': 'Ningún contacto coincide con tu búsqueda.',
+  'findContacts.noValidNumbers': 'No se encontraron contactos con números válidos.',
+  'findContacts.onFamGuards': 'En FamGuards',
+  'findContacts.inviteToFamGuards': 'Invitar a FamGuards',
+  'findContacts.userOnFamGuards': '{name} en FamGuards',
+  'findContacts.connected': 'Conectado',
+  'findContacts.invited': 'Invitado',
+  'findContacts.connect': 'Conectar',
+  'findContacts.invite': 'Invitar',
+  'findContacts.someNotChecked': 'Algunos contactos no se comprobaron',
+  'findContacts.accessNeeded': 'Se necesita acceso a los contactos',
+  'findContacts.accessNeededMessage': 'Permite el acceso a tus contactos en Ajustes para encontrar a gente que conoces.',
+  'findContacts.inviteFailed': 'No se pudo enviar la invitación. Inténtalo de nuevo.',
+  'findContacts.inviteLinkFailed': 'No se pudo crear la invitación. Inténtalo de nuevo.',
+  'findContacts.messagesUnavailable': 'No se pudo abrir la app de mensajes.',
+
+  'sosEvent.status.active': 'Necesita ayuda',
+  'sosEvent.status.responderEnRoute': 'Ayuda en camino',
+  'sosEvent.status.resolved': 'Resuelto',
+  'sosEvent.status.falseAlarm': 'Falsa alarma',
+  'sosEvent.title': 'SOS',
+  'sosEvent.loading': 'Cargando SOS...',
+  'sosEvent.unavailable': 'Este SOS ya no está disponible.',
+  'sosEvent.yourSos': 'Tu SOS',
+  'sosEvent.silentWarning': 'SOS silencioso: {name} podría estar bajo coacción. No le llames ni le escribas.',
+  'sosEvent.started': 'Inicio',
+  'sosEvent.lastLocation': 'Última ubicación',
+  'sosEvent.near': 'Cerca de',
+  'sosEvent.closed': 'Cerrado',
+  'sosEvent.imResponding': 'Voy a ayudar',
+  'sosEvent.cantHelp': 'No puedo ayudar',
+  'sosEvent.openLiveMap': 'Abrir mapa en directo',
+  'sosEvent.responders': 'Personas que ayudan ({count})',
+  'sosEvent.noResponders': 'Nadie ha respondido todavía.',
+  'sosEvent.responderResponding': '{name}: va a ayudar',
+  'sosEvent.responderCantHelp': '{name}: no puede ayudar',
+  'sosEvent.addNoteTitle': 'Añadir una nota',
+  'sosEvent.notePlaceholder': 'p. ej., se ha llamado a la policía',
+  'sosEvent.addNote': 'Añadir nota',
+  'sosEvent.resolve': 'Resolver',
+  'sosEvent.falseAlarm': 'Falsa alarma',
+  'sosEvent.closeHint': 'Tu nota se añade a la cronología cuando cierres el SOS.',
+  'sosEvent.timeline': 'Cronología',
+  'sosEvent.locationTrail': 'Recorrido ({count})',
+  'sosEvent.noLocations': 'Aún no hay ubicaciones registradas.',
+  'sosEvent.showLess': 'Mostrar menos',
+  'sosEvent.showAllLocations': 'Mostrar las {count} ubicaciones',
+  'sosEvent.resolveTitle': 'Resolver SOS',
+  'sosEvent.resolveMessage': 'Resuelve solo cuando sepas que {name} está a salvo.',
+  'sosEvent.falseAlarmTitle': 'Marcar como falsa alarma',
+  'sosEvent.falseAlarmMessage': '¿Cerrar este SOS como falsa alarma? Los contactos de {name} lo verán en la cronología.',
+  'sosEvent.respondFailed': 'No se pudo responder. Inténtalo de nuevo.',
+  'sosEvent.noteFailed': 'No se pudo añadir tu nota. Inténtalo de nuevo.',
+  'sosEvent.closeFailed': 'No se pudo cerrar el SOS. Inténtalo de nuevo.',
+  'sosEvent.you': 'Tú',
+  'sosEvent.someone': 'Alguien',
+  'sosEvent.them': 'esa persona',
+  'sosEvent.update.opened': '{actor} envió un SOS',
+  'sosEvent.update.acknowledged': '{actor} va a ayudar',
+  'sosEvent.update.acknowledgedYou': 'Vas a ayudar',
+  'sosEvent.update.called': '{actor} llamó a {name}',
+  'sosEvent.update.cantHelp': '{actor} no puede ayudar',
+  'sosEvent.update.statusChanged': '{actor} cambió el estado a {status}',
+  'sosEvent.update.note': '{actor} añadió una nota',
+  'sosEvent.statusUnknown': 'desconocido',
+
+  'trip.title': 'Viaje',
+  'trip.description': 'Comparte un trayecto en directo con los contactos que elijas. Si no llegas a tiempo o tu teléfono deja de informar, se les avisa mediante la escalada de registros.',
+  'trip.loading': 'Cargando viajes...',
+  'trip.yourTrip': 'Tu viaje',
+  'trip.startATrip': 'Iniciar un viaje',
+  'trip.following': 'Viajes que sigues',
+  'trip.noneFollowing': 'Ningún contacto comparte un viaje contigo.',
+  'trip.connection': 'Contacto',
+  'trip.overdue': 'Con retraso',
+  'trip.expectedAt': 'Llegada prevista {time}',
+  'trip.distanceLeft': ' · quedan {distance}',
+  'trip.overdueNoSignal': 'Tu ubicación dejó de informar. Se ha avisado a tus contactos.',
+  'trip.overdueLate': 'Has superado tu hora de llegada prevista. Se ha avisado a tus contactos.',
+  'trip.expectedArrival': 'Llegada prevista',
+  'trip.distanceLeftLabel': 'Distancia restante',
+  'trip.lastUpdate': 'Última actualización',
+  'trip.sharedWith': 'Compartido con',
+  'trip.autoArrivalHint': 'La llegada se confirma automáticamente cuando alcanzas tu destino.',
+  'trip.imArrived': 'He llegado',
+  'trip.cancelTrip': 'Cancelar viaje',
+  'trip.keepTrip': 'Mantener viaje',
+  'trip.cancelMessage': '¿Dejar de compartir este viaje con tus contactos?',
+  'trip.destination': 'Destino',
+  'trip.destinationPlaceholder': 'p. ej., 12 Allen Avenue, Ikeja',
+  'trip.travelTime': 'Tiempo de viaje previsto',
+  'trip.minutesShort': '{count} min',
+  'trip.hoursShort': '{count} h',
+  'trip.whoCanFollow': 'Quién puede seguir este viaje',
+  'trip.addConnectionFirst': 'Añade primero un contacto para compartir viajes.',
+  'trip.startTrip': 'Iniciar viaje',
+  'trip.enterDestination': 'Introduce un destino.',
+  'trip.chooseWatcher': 'Elige al menos un contacto para que siga tu viaje.',
+  'trip.destinationNotFound': 'Destino no encontrado',
+  'trip.destinationNotFoundMessage': 'Prueba con una dirección o un lugar más concreto.',
+  'trip.startFailedActive': 'No se pudo iniciar el viaje. Puede que ya tengas un viaje en curso.',
+  'trip.startFailed': 'No se pudo iniciar el viaje. Inténtalo de nuevo.',
+  'trip.confirmArrivalFailed': 'No se pudo confirmar la llegada. Inténtalo de nuevo.',
+  'trip.arrived': 'Has llegado',
+  'trip.arrivedMessage': 'Se ha avisado a tus contactos de que llegaste bien.',
+  'trip.cancelFailed': 'No se pudo cancelar el viaje. Inténtalo de nuevo.',
+
+  'circles.title': 'Círculos y roles',
+  'circles.description': 'Agrupa tus contactos en círculos y elige qué recibe cada uno. Los contactos que no están en ningún círculo lo reciben todo. Mientras tu cuenta esté bloqueada tras un SOS, todos tus contactos pueden ver tu ubicación.',
+  'circles.loading': 'Cargando círculos...',
+  'circles.newCircle': 'Nuevo círculo',
+  'circles.namePlaceholder': 'Nombre del círculo, p. ej. Familia',
+  'circles.createCircle': 'Crear círculo',
+  'circles.yourCircles': 'Tus círculos',
+  'circles.noCircles': 'Aún no tienes círculos. Todos tus contactos reciben tu ubicación y todas las alertas.',
+  'circles.roles': 'Roles',
+  'circles.members': 'Miembros',
+  'circles.memberCount': '1 miembro',
+  'circles.membersCount': '{count} miembros',
+  'circles.noMembers': 'Todavía no hay nadie en este círculo.',
+  'circles.allInCircle': 'Todos tus contactos están en este círculo.',
+  'circles.done': 'Listo',
+  'circles.addConnections': 'Añadir contactos',
+  'circles.formerConnection': 'Antiguo contacto',
+  'circles.setting.shareLocation': 'Compartir ubicación',
+  'circles.setting.shareLocationSubtitle': 'Los miembros ven tu ubicación en directo',
+  'circles.setting.sosAlerts': 'Alertas SOS',
+  'circles.setting.sosAlertsSubtitle': 'Se avisa a los miembros cuando envías un SOS',
+  'circles.setting.checkInAlerts': 'Alertas de registro',
+  'circles.setting.checkInAlertsSubtitle': 'Los miembros reciben tus registros y los registros omitidos',
+  'circles.setting.unlockApproval': 'Aprobar desbloqueo',
+  'circles.setting.unlockApprovalSubtitle': 'Los miembros pueden aprobar el desbloqueo de tu cuenta',
+  'circles.preset.family': 'Familia',
+  'circles.preset.work': 'Trabajo',
+  'circles.preset.neighbors': 'Vecinos',
+  'circles.role.guardian': 'Tutor',
+  'circles.role.guardianSubtitle': 'Recibe siempre las alertas y tu ubicación, y puede aprobar desbloqueos',
+  'circles.role.member': 'Miembro',
+  'circles.role.memberSubtitle': 'Sigue los ajustes del círculo',
+  'circles.role.dependent': 'Dependiente',
+  'circles.role.dependentSubtitle': 'Sigue los ajustes del círculo, pero nunca puede aprobar desbloqueos',
+  'circles.nameTitle': 'Nombre del círculo',
+  'circles.nameRequired': 'Introduce un nombre para el círculo.',
+  'circles.nameTaken': 'Ya tienes un círculo llamado {name}.',
+  'circles.createFailed': 'No se pudo crear el círculo. Inténtalo de nuevo.',
+  'circles.saveFailed': 'No se pudieron guardar los ajustes del círculo. Inténtalo de nuevo.',
+  'circles.deleteTitle': 'Eliminar círculo',
+  'circles.deleteMessage': '¿Eliminar {name}? Los contactos que no estén en otro círculo volverán a recibir todas las alertas y tu ubicación.',
+  'circles.deleteFailed': 'No se pudo eliminar el círculo. Inténtalo de nuevo.',
+  'circles.addFailed': 'No se pudo añadir el contacto. Inténtalo de nuevo.',
+  'circles.roleFailed': 'No se pudo cambiar el rol. Inténtalo de nuevo.',
+  'circles.removeFailed': 'No se pudo quitar el contacto. Inténtalo de nuevo.',
+  'circles.roleIn': 'Rol en {circle}',
+  'circles.makeRole': 'Hacer {role}',
+  'circles.removeFrom': 'Quitar de {circle}',
+
+  'accountLock.event.locked': 'Cuenta bloqueada',
+  'accountLock.event.unlockApproved': 'Desbloqueo aprobado',
+  'accountLock.event.unlocked': 'Cuenta desbloqueada',
+  'accountLock.event.pinFailed': 'PIN incorrecto',
+  'accountLock.event.pinSet': 'PIN configurado',
+  'accountLock.event.pinRemoved': 'PIN eliminado',
+  'accountLock.method.sos': 'tras un SOS',
+  'accountLock.method.pin': 'con PIN',
+  'accountLock.method.quorum': 'por tus contactos',
+  'accountLock.method.admin': 'por soporte',
+  'accountLock.byActor': 'por {name}',
+  'accountLock.description': 'Tras un SOS tu cuenta se bloquea. Elige cómo se puede desbloquear.',
+  'accountLock.unlockPin': 'PIN de desbloqueo',
+  'accountLock.pinSet': 'PIN configurado',
+  'accountLock.noPin': 'Sin PIN',
+  'accountLock.pinDescription': 'Te permite desbloquear tu cuenta desde la pantalla de bloqueo. Mantenlo en secreto.',
+  'accountLock.newPinPlaceholder': 'Nuevo PIN (4-8 dígitos)',
+  'accountLock.confirmPinPlaceholder': 'Confirmar PIN',
+  'accountLock.savePin': 'Guardar PIN',
+  'accountLock.remove': 'Quitar',
+  'accountLock.changePin': 'Cambiar PIN',
+  'accountLock.setPin': 'Configurar PIN',
+  'accountLock.silentSos': 'SOS silencioso',
+  'accountLock.duressPinSet': 'PIN de coacción configurado',
+  'accountLock.noDuressPin': 'Sin PIN de coacción',
+  'accountLock.duressDescription': 'Introducir tu PIN de coacción en la pantalla de bloqueo desbloquea la app con normalidad, pero avisa en silencio a tus contactos y sigue compartiendo tu ubicación exacta.',
+  'accountLock.holdDescription': 'También puedes mantener pulsado el botón de alerta de emergencia de la pantalla de inicio durante 3 segundos. No cambia nada en pantalla. Solo un contacto puede terminar un SOS silencioso.',
+  'accountLock.setPinFirst': 'Configura primero un PIN de desbloqueo para añadir un PIN de coacción.',
+  'accountLock.duressPinPlaceholder': 'PIN de coacción (4-8 dígitos)',
+  'accountLock.confirmDuressPinPlaceholder': 'Confirmar PIN de coacción',
+  'accountLock.changeDuressPin': 'Cambiar PIN de coacción',
+  'accountLock.setDuressPin': 'Configurar PIN de coacción',
+  'accountLock.approvals': 'Aprobaciones de contactos',
+  'accountLock.approvalsDescription': 'Cuántos contactos deben aprobar antes de desbloquear tu cuenta. Limitado al número de contactos que tengas cuando empiece el bloqueo.',
+  'accountLock.history': 'Historial de bloqueos',
+  'accountLock.noHistory': 'Aún no hay actividad de bloqueo.',
+  'accountLock.invalidPin': 'PIN no válido',
+  'accountLock.invalidPinMessage': 'Tu PIN debe tener entre 4 y 8 dígitos.',
+  'accountLock.invalidDuressPinMessage': 'Tu PIN de coacción debe tener entre 4 y 8 dígitos.',
+  'accountLock.pinMismatch': 'Los PIN no coinciden',
+  'accountLock.pinMismatchMessage': 'Introduce el mismo PIN dos veces.',
+  'accountLock.savePinFailed': 'No se pudo guardar tu PIN. Inténtalo de nuevo.',
+  'accountLock.removePinTitle': 'Quitar PIN',
+  'accountLock.removePinMessage': 'Sin PIN, solo tus contactos pueden desbloquear tu cuenta tras un SOS. También se quitará tu PIN de coacción.',
+  'accountLock.removePinFailed': 'No se pudo quitar tu PIN. Inténtalo de nuevo.',
+  'accountLock.saveDuressPinFailed': 'No se pudo guardar tu PIN de coacción. Inténtalo de nuevo.',
+  'accountLock.removeDuressPinTitle': 'Quitar PIN de coacción',
+  'accountLock.removeDuressPinMessage': 'Aún puedes enviar un SOS silencioso manteniendo pulsado el botón de alerta de emergencia.',
+  'accountLock.removeDuressPinFailed': 'No se pudo quitar tu PIN de coacción. Inténtalo de nuevo.',
+  'accountLock.saveQuorumFailed': 'No se pudieron guardar las aprobaciones de desbloqueo. Inténtalo de nuevo.',
+
+  'notifications.title': 'Notificaciones',
+  'notifications.markAllRead': 'Marcar todo como leído',
+  'notifications.emptyTitle': 'Sin notificaciones',
+  'notifications.emptyText': '¡Estás al día!',
+  'notifications.alertLevel.danger': 'PELIGRO',
+  'notifications.alertLevel.warning': 'AVISO',
+  'notifications.alertLevel.alert': 'ALERTA',
+  'notifications.markAllReadFailed': 'No se pudieron marcar todas las notificaciones como leídas.',
+  'notifications.locationPermissionTitle': 'Se necesita permiso de ubicación',
+  'notifications.locationPermissionMessage': 'Para actualizar tu ubicación, concede el permiso de ubicación en Ajustes.',
+  'notifications.permissionTitle': 'Permiso necesario',
+  'notifications.permissionMessage': 'Se necesita permiso de ubicación para actualizar tu ubicación.',
+  'notifications.locationUpdatedTitle': 'Ubicación actualizada',
+  'notifications.locationUpdatedMessage': 'Tu ubicación se ha actualizado correctamente.',
+  'notifications.locationErrorTitle': 'Error de ubicación',
+  'notifications.locationErrorMessage': 'No se pudo obtener tu ubicación actual. Revisa los ajustes de ubicación.',
+  'notifications.updateLocationFailed': 'No se pudo actualizar la ubicación. Inténtalo de nuevo.',
+  'notifications.emergencyLocation': 'Ubicación de emergencia',
+  'notifications.placeAlert': 'Alerta de lugar',
+
+  'reportIncident.title': 'Reportar incidente',
+  'reportIncident.subtitle': 'Ayuda a mantener segura tu comunidad',
+  'reportIncident.type': 'Tipo de incidente',
+  'reportIncident.titleLabel': 'Título',
+  'reportIncident.titlePlaceholder': 'Título breve del incidente',
+  'reportIncident.descriptionLabel': 'Descripción',
+  'reportIncident.descriptionPlaceholder': 'Describe qué pasó, cuándo ocurrió y cualquier detalle relevante...',
+  'reportIncident.media': 'Fotos y vídeos',
+  'reportIncident.camera': 'Cámara',
+  'reportIncident.library': 'Galería',
+  'reportIncident.mediaHint': 'Los datos de ubicación se eliminan de fotos y vídeos antes de subirlos. Vídeos de hasta {seconds} segundos.',
+  'reportIncident.location': 'Ubicación',
+  'reportIncident.gettingLocation': 'Obteniendo tu ubicación...',
+  'reportIncident.retry': 'Reintentar',
+  'reportIncident.noLocation': 'Ubicación no disponible',
+  'reportIncident.visibilityHint': 'Solo los usuarios cercanos (a menos de {distance}) verán este reporte',
+  'reportIncident.when': '¿Cuándo ocurrió?',
+  'reportIncident.happeningNow': 'Está ocurriendo',
+  'reportIncident.happenedEarlier': 'Ocurrió antes',
+  'reportIncident.anonymous': 'Reporte anónimo',
+  'reportIncident.anonymousHint': 'Oculta tu nombre al público (se guarda internamente por seguridad)',
+  'reportIncident.info': 'Tu reporte ayuda a mantener segura la comunidad. Los reportes falsos pueden suponer la suspensión de la cuenta.',
+  'reportIncident.uploading': 'Subiendo...',
+  'reportIncident.submitting': 'Enviando...',
+  'reportIncident.submit': 'Enviar reporte',
+  'reportIncident.mediaStatus.preparing': 'Preparando...',
+  'reportIncident.mediaStatus.done': 'Subido',
+  'reportIncident.mediaStatus.queued': 'En cola',
+  'reportIncident.mediaStatus.failed': 'Error',
+  'reportIncident.mediaStatus.unsupportedFormat': 'Formato no compatible',
+  'reportIncident.mediaStatus.tooLong': 'Demasiado largo',
+  'reportIncident.mediaStatus.limitReached': 'Límite alcanzado',
+  'reportIncident.thisLocation': 'esta ubicación',
+  'reportIncident.autoTitle.robbery': 'Robo reportado',
+  'reportIncident.autoTitle.kidnapping': 'Actividad sospechosa reportada',
+  'reportIncident.autoTitle.accident': 'Accidente de tráfico reportado',
+  'reportIncident.autoTitle.fire': 'Incendio reportado',
+  'reportIncident.autoTitle.protest': 'Protesta reportada',
+  'reportIncident.autoTitle.assault': 'Agresión reportada',
+  'reportIncident.autoTitle.theft': 'Hurto reportado',
+  'reportIncident.autoTitle.other': 'Incidente reportado',
+  'reportIncident.autoDescription.robbery': 'Se ha reportado un robo.\n\nUbicación: {address}\n\nTen precaución y evita la zona si es posible. Se ha avisado a las autoridades.',
+  'reportIncident.autoDescription.kidnapping': 'Se ha reportado actividad sospechosa relacionada con un secuestro.\n\nUbicación: {address}\n\nMantente alerta y avisa de inmediato a las autoridades de cualquier comportamiento sospechoso.',
+  'reportIncident.autoDescription.accident': 'Se ha reportado un accidente de tráfico.\n\nUbicación: {address}\n\nLos servicios de emergencia están en camino. Espera retrasos y usa rutas alternativas si es posible.',
+  'reportIncident.autoDescription.fire': 'Se ha reportado un incendio.\n\nUbicación: {address}\n\nLos bomberos están en camino. Evita la zona y sigue las instrucciones del personal de emergencia.',
+  'reportIncident.autoDescription.protest': 'Se ha reportado una protesta.\n\nUbicación: {address}\n\nEspera retrasos en el tráfico y ten precaución si estás en la zona.',
+  'reportIncident.autoDescription.assault': 'Se ha reportado una agresión.\n\nUbicación: {address}\n\nEvita la zona y comunica a las autoridades cualquier información relevante.',
+  'reportIncident.autoDescription.theft': 'Se ha reportado un hurto.\n\nUbicación: {address}\n\nProtege tus pertenencias y avisa de cualquier actividad sospechosa.',
+  'reportIncident.autoDescription.other': 'Se ha reportado un incidente.\n\nUbicación: {address}\n\nTen precaución en la zona.',
+  'reportIncident.locationPermissionDenied': 'Permiso de ubicación denegado. Activa el acceso a la ubicación en Ajustes.',
+  'reportIncident.locationUnavailable': 'No se pudo obtener tu ubicación. Inténtalo de nuevo.',
+  'reportIncident.locationFailed': 'Error al obtener la ubicación. Inténtalo de nuevo.',
+  'reportIncident.limitReached': 'Límite alcanzado',
+  'reportIncident.limitReachedMessage': 'Puedes adjuntar hasta {count} fotos o vídeos.',
+  'reportIncident.permissionTitle': 'Permiso necesario',
+  'reportIncident.cameraPermission': 'Se necesita acceso a la cámara para hacer una foto o un vídeo del incidente.',
+  'reportIncident.libraryPermission': 'Se necesita acceso a la galería para adjuntar fotos o vídeos.',
+  'reportIncident.videoTooLong': 'Vídeo demasiado largo',
+  'reportIncident.videoTooLongMessage': 'Los vídeos pueden durar como máximo {seconds} segundos.',
+  'reportIncident.attachFailed': 'No se pudo adjuntar el archivo. Inténtalo de nuevo.',
+  'reportIncident.requiredFields': 'Rellena todos los campos obligatorios',
+  'reportIncident.locationRequired': 'La ubicación es obligatoria. Espera a que se cargue o actualízala.',
+  'reportIncident.invalidCoordinates': 'Coordenadas no válidas. Actualiza tu ubicación.',
+  'reportIncident.invalidLatitude': 'Latitud no válida. Actualiza tu ubicación.',
+  'reportIncident.invalidLongitude': 'Longitud no válida. Actualiza tu ubicación.',
+  'reportIncident.submitted': 'Incidente reportado correctamente.',
+  'reportIncident.mediaQueued': '{count} foto(s)/vídeo(s) terminarán de subirse cuando mejore tu conexión.',
+  'reportIncident.mediaFailed': '{count} foto(s)/vídeo(s) no se pudieron adjuntar.',
+  'reportIncident.submitFailed': 'No se pudo reportar el incidente. Inténtalo de nuevo.',
+
+  'home.visibleToConnections': 'Visible para tus contactos',
+  'home.hiddenFromConnections': 'Oculto para tus contactos',
+  'home.connectionCount': '1 contacto',
+  'home.connectionsCount': '{count} contactos',
+  'home.location': 'Ubicación',
+  'home.updating': 'Actualizando...',
+  'home.sharing': 'Compartiendo',
+  'home.hidden': 'Oculta',
+  'home.sharingOffTitle': 'La ubicación compartida está desactivada',
+  'home.sharingOffMessage': 'Activa la ubicación compartida para que tus contactos puedan ver dónde estás y responder ante emergencias.',
+  'home.turnOn': 'Activar',
+  'home.emergency': 'Emergencia',
+  'home.emergencyAlert': 'Alerta de emergencia',
+  'home.alertConnection': 'Avisar a 1 contacto',
+  'home.alertConnections': 'Avisar a {count} contactos',
+  'home.quickActions': 'Acciones rápidas',
+  'home.reportIncidentSubtitle': 'Reporta un problema de seguridad',
+  'home.checkInSubtitle': 'Avisa a tus contactos de que estás bien',
+  'home.emergencySent': 'Emergencia enviada',
+  'home.emergencyQueued': 'Emergencia en cola',
+  'home.emergencySentMessage': 'Tu alerta de emergencia se ha enviado correctamente a tus contactos.',
+  'home.emergencyQueuedMessage': 'Aún no se ha llegado a algunos contactos. FamGuard seguirá intentándolo hasta entregar tu alerta.',
+  'home.continue': 'Continuar',
+  'home.recipient.notified': 'Avisado',
+  'home.recipient.appOff': 'Notificaciones desactivadas',
+  'home.recipient.retrying': 'Reintentando...',
+  'home.recipient.smsReady': 'SMS listo',
+  'home.recipient.smsUnavailable': 'SMS no disponible',
+  'home.permissionTitle': 'Permiso necesario',
+  'home.locationPermissionMessage': 'Se necesita permiso de ubicación para compartir tu ubicación con tus contactos.',
+  'home.locationErrorTitle': 'Error de ubicación',
+  'home.locationErrorMessage': 'No se pudo obtener tu ubicación. Revisa los ajustes de ubicación.',
+  'home.toggleSharingFailed': 'No se pudo actualizar la ubicación compartida. Inténtalo de nuevo.',
+  'home.noConnections': 'Sin contactos',
+  'home.noConnectionsMessage': 'Debes añadir contactos antes de enviar una alerta de emergencia.',
+  'home.sendAlertTitle': '¿Enviar alerta de emergencia?',
+  'home.sendAlertMessageOne': 'Se enviará una alerta de emergencia a tu único contacto.',
+  'home.sendAlertMessage': 'Se enviará una alerta de emergencia a tus {count} contactos.',
+  'home.sendAlert': 'Enviar alerta de emergencia',
+  'home.alertWithoutLocation': 'No se pudo obtener tu ubicación. La alerta de emergencia se enviará sin ubicación.',
+  'home.sendAlertFailed': 'No se pudieron enviar las alertas de emergencia. Inténtalo de nuevo.',
+
+  'map.title': 'Mapa',
+  'map.timelineTitle': 'Historial de ubicaciones',
+  'map.locationsCount': '{count} ubicaciones',
+  'map.location': 'Ubicación',
+  'map.tripDestination': 'Destino del trayecto',
+  'map.today': 'Hoy',
+  'map.yesterday': 'Ayer',
+  'map.secondsShort': '{count} s',
+  'map.stoppedFor': 'Parado {duration}',
+  'map.trackingOffFor': 'Sin seguimiento {duration}',
+  'map.moving': 'En movimiento · {speed}',
+  'map.playbackSummary': '{stops} paradas · {distance} en {duration}',
+  'map.playbackGaps': '{count} vacíos',
+  'map.tapToSetCenter': 'Toca el mapa para fijar el centro del lugar',
+  'map.tapToOutline': 'Toca el mapa para delimitar el lugar ({count} puntos)',
+  'map.undo': 'Deshacer',
+  'map.done': 'Listo',
+  'map.tripArrived': 'Llegó sin problemas',
+  'map.tripCancelled': 'Trayecto cancelado',
+  'map.tripOverdueNoSignal': 'Con retraso: la ubicación dejó de actualizarse',
+  'map.tripOverdueLate': 'Con retraso: pasó la hora prevista',
+  'map.updatedAgo': 'Actualizado {time}',
+  'map.offline': 'Sin conexión',
+  'map.failedToLoad': 'No se pudo cargar el mapa',
+  'map.checkPlayServices': 'Revisa Google Play Services y tu conexión a internet',
+  'map.checkInternet': 'Revisa tu conexión a internet',
+  'map.locationNotAvailable': 'Ubicación no disponible',
+  'map.locationNotAvailableMessage': 'La ubicación de {name} no está disponible. Puede que tenga la ubicación compartida desactivada.',
+  'map.user': 'Usuario',
+  'map.loadingTimeline': 'Cargando historial...',
+  'map.noHistory': 'Sin historial de ubicaciones',
+  'map.noHistoryToday': 'No hay datos de ubicación de hoy',
+  'map.noHistoryYesterday': 'No hay datos de ubicación de ayer',
+  'map.noHistoryOn': 'No hay datos de ubicación del {date}',
+  'map.movement': 'Movimiento',
+  'map.unknownLocation': 'Ubicación desconocida',
+  'map.places': 'Lugares',
+  'map.placesSubtitle': 'Recibe un aviso cuando tus contactos lleguen a estos lugares o salgan de ellos.',
+  'map.noPlaces': 'Aún no hay lugares. Añade casa, escuela o trabajo.',
+  'map.placeRadius': '{category} · radio de {radius}',
+  'map.placeArea': '{category} · área de {count} puntos',
+  'map.addPlace': 'Añadir lugar',
+  'map.editPlace': 'Editar lugar',
+  'map.newPlace': 'Nuevo lugar',
+  'map.name': 'Nombre',
+  'map.namePlaceholder': 'p. ej., Casa, Escuela, Oficina',
+  'map.type': 'Tipo',
+  'map.shape': 'Forma',
+  'map.circle': 'Círculo',
+  'map.customArea': 'Área personalizada',
+  'map.radius': 'Radio',
+  'map.moveCenter': 'Mover el centro en el mapa',
+  'map.setCenter': 'Fijar el centro en el mapa',
+  'map.redrawArea': 'Volver a dibujar el área',
+  'map.drawArea': 'Dibujar el área en el mapa',
+  'map.alertArrives': 'Avisar cuando alguien llegue',
+  'map.alertLeaves': 'Avisar cuando alguien se vaya',
+  'map.savePlace': 'Guardar lugar',
+  'map.placeCategory.home': 'Casa',
+  'map.placeCategory.school': 'Escuela',
+  'map.placeCategory.work': 'Trabajo',
+  'map.placeCategory.other': 'Otro',
+  'map.notEnoughPoints': 'Faltan puntos',
+  'map.notEnoughPointsMessage': 'Toca al menos 3 puntos en el mapa para delimitar el lugar.',
+  'map.nameRequired': 'Nombre obligatorio',
+  'map.nameRequiredMessage': 'Introduce un nombre para este lugar.',
+  'map.locationRequired': 'Ubicación obligatoria',
+  'map.locationRequiredMessage': 'Marca el lugar en el mapa.',
+  'map.areaRequired': 'Área obligatoria',
+  'map.areaRequiredMessage': 'Delimita el lugar con al menos 3 puntos en el mapa.',
+  'map.savePlaceFailed': 'No se pudo guardar el lugar. Inténtalo de nuevo.',
+  'map.deletePlace': 'Eliminar lugar',
+  'map.deletePlaceMessage': '¿Dejar de recibir avisos de llegada y salida de {name}?',
+  'map.deletePlaceFailed': 'No se pudo eliminar el lugar. Inténtalo de nuevo.',
+  'map.arrived': 'Llegó',
+  'map.left': 'Salió',
+
+  'connections.locationPermissionTitle': 'Permiso de ubicación necesario',
+  'connections.locationPermissionMessage': 'Se necesita permiso de ubicación para compartir tu ubicación con tus contactos.',
+  'connections.invalidInput': 'Dato no válido',
+  'connections.enterPhone': 'Introduce un número de teléfono.',
+  'connections.invalidPhone': 'Teléfono no válido',
+  'connections.phoneLength': 'Introduce un número de teléfono de 11 dígitos.',
+  'connections.cannotInviteSelf': 'No puedes invitarte a ti mismo.',
+  'connections.checkPhoneFailed': 'No se pudo comprobar el número de teléfono. Inténtalo de nuevo.',
+  'connections.notOnAppTitle': 'Aún no está en FamGuards',
+  'connections.notOnAppMessage': 'Este número no está registrado en la app. ¿Enviarle un enlace de invitación? Le llevará a la app y os conectará cuando se registre.',
+  'connections.sendInviteLink': 'Enviar enlace de invitación',
+  'connections.createInviteFailed': 'No se pudo crear la invitación. Inténtalo de nuevo.',
+  'connections.alreadyConnected': 'Ya estáis conectados',
+  'connections.alreadyConnectedMessage': 'Ya estás conectado con este usuario.',
+  'connections.alreadyConnectedTo': 'Ya estás conectado con {name}.',
+  'connections.invitationSent': 'Invitación enviada',
+  'connections.invitationAlreadySent': 'Ya has enviado una invitación a este número.',
+  'connections.invitationSentTo': 'Invitación enviada a {phone}. Recibirá una notificación.',
+  'connections.sendInvitationFailed': 'No se pudo enviar la invitación. Inténtalo de nuevo.',
+  'connections.acceptFailed': 'No se pudo aceptar la invitación. Inténtalo de nuevo.',
+  'connections.rejectFailed': 'No se pudo rechazar la invitación. Inténtalo de nuevo.',
+  'connections.connected': '¡Conectados!',
+  'connections.nowConnected': 'Ahora estáis conectados.',
+  'connections.nowConnectedTo': 'Ahora estás conectado con {name}.',
+  'connections.cancelInviteFailed': 'No se pudo cancelar la invitación. Inténtalo de nuevo.',
+  'connections.inviteCancelled': 'Invitación cancelada',
+  'connections.inviteCancelledMessage': 'Esta invitación ya no se puede usar.',
+  'connections.loadInviteFailed': 'No se pudo cargar la invitación. Inténtalo de nuevo.',
+  'connections.inviteTitle': 'Invitación de conexión',
+  'connections.invitePrompt': '¿Conectar con {name}? Podréis ver la ubicación y las alertas SOS del otro.',
+  'connections.invitePromptUnknown': '¿Conectar con esta persona? Podréis ver la ubicación y las alertas SOS del otro.',
+  'connections.notNow': 'Ahora no',
+  'connections.connect': 'Conectar',
+  'connections.invalidInvite': 'Invitación no válida',
+  'connections.ownInvite': 'No puedes usar tu propia invitación.',
+  'connections.inviteExpired': 'Invitación caducada',
+  'connections.inviteExpiredMessage': 'Esta invitación ha caducado o ya se ha usado. Pide una nueva.',
+  'connections.tooManyAttempts': 'Demasiados intentos',
+  'connections.tryLater': 'Inténtalo de nuevo más tarde.',
+  'connections.inviteNotValid': 'Esta invitación no es válida.',
+  'connections.couldNotConnect': 'No se pudo conectar',
+  'connections.connectFailed': 'No se pudo conectar. Inténtalo de nuevo.',
+  'connections.pasteInviteMessage': 'Pega el enlace de invitación que recibiste.',
+  'connections.approveUnlock': 'Aprobar desbloqueo',
+  'connections.approveUnlockMessage': '¿Aprobar el desbloqueo de la cuenta de {name}? Hazlo solo cuando sepas que está a salvo. Su cuenta puede necesitar la aprobación de más de un contacto.',
+  'connections.approve': 'Aprobar',
+  'connections.approveUnlockFailed': 'No se pudo aprobar el desbloqueo. Inténtalo de nuevo.',
+  'connections.unlocked': 'Desbloqueado',
+  'connections.unlockedMessage': '{name} se ha desbloqueado y ya puede acceder a la app.',
+  'connections.approvalRecorded': 'Aprobación registrada',
+  'connections.approvalRecordedMessage': '{approvals} de {required} contactos han aprobado. {name} se desbloqueará cuando aprueben suficientes contactos.',
+  'connections.updateSharingFailed': 'No se pudo actualizar el uso compartido de la ubicación. Inténtalo de nuevo.',
+  'connections.shareMyLocationTitle': 'Compartir mi ubicación',
+  'connections.shareDurationPrompt': '¿Durante cuánto tiempo puede {name} ver tu ubicación?',
+  'connections.shareAlways': 'Siempre',
+  'connections.shareOneHour': 'Durante 1 hora',
+  'connections.shareEightHours': 'Durante 8 horas',
+  'connections.shareUntilArrive': 'Hasta que llegue',
+  'connections.shareWeekdays': 'Entre semana 7-9 h',
+  'connections.markSafe': 'Marcar a salvo',
+  'connections.markSafeMessage': '¿Finalizar el SOS silencioso de {name}? Hazlo solo cuando hayas confirmado en persona o por un canal de confianza que está a salvo.',
+  'connections.endSilentSosFailed': 'No se pudo finalizar el SOS silencioso. Inténtalo de nuevo.',
+  'connections.markedSafe': 'Marcado a salvo',
+  'connections.markedSafeMessage': 'El SOS silencioso de {name} ha finalizado.',
+  'connections.online': 'En línea',
+  'connections.offline': 'Desconectado',
+  'connections.sharingDisabledTitle': 'Ubicación compartida desactivada',
+  'connections.sharingDisabledMessage': '{name} no podrá ver tu ubicación en tiempo real.',
+  'connections.removeFailed': 'No se pudo eliminar el contacto. Inténtalo de nuevo.',
+  'connections.quickActions': 'Acciones rápidas',
+  'connections.inviteByPhone': 'Invitar por teléfono',
+  'connections.sendInvitationSubtitle': 'Enviar invitación',
+  'connections.generating': 'Generando...',
+  'connections.inviteLink': 'Enlace de invitación',
+  'connections.qrOrLink': 'Código QR o enlace',
+  'connections.openInvite': 'Abrir invitación',
+  'connections.connectNow': 'Conectar ahora',
+  'connections.findContacts': 'Buscar contactos en FamGuards',
+  'connections.pendingInvitations': 'Invitaciones pendientes',
+  'connections.wantsToConnect': 'Quiere conectar contigo',
+  'connections.accept': 'Aceptar',
+  'connections.reject': 'Rechazar',
+  'connections.loading': 'Cargando contactos...',
+  'connections.emptyTitle': 'Aún no tienes contactos',
+  'connections.emptyText': 'Empieza invitando a alguien con las acciones rápidas de arriba',
+  'connections.yourConnections': 'Tus contactos',
+  'connections.unknownUser': 'Usuario desconocido',
+  'connections.accountLocked': 'Cuenta bloqueada - necesita ayuda',
+  'connections.underDuress': 'Puede estar bajo coacción - no llames ni escribas',
+  'connections.sharingDisabled': 'Ubicación compartida desactivada',
+  'connections.sharingWithYou': 'Comparte contigo: {status}',
+  'connections.viewOnMap': 'Ver en el mapa',
+  'connections.chooseAction': 'Elige una acción',
+  'connections.viewSos': 'Ver SOS',
+  'connections.markSafeEndSos': 'Marcar a salvo (finalizar SOS silencioso)',
+  'connections.removeConnection': 'Eliminar contacto',
+  'connections.moreOptions': 'Más opciones',
+  'connections.shareMyLocation': 'Compartir mi ubicación',
+  'connections.pausedNow': ' (en pausa ahora)',
+  'connections.change': 'Cambiar',
+  'connections.phonePlaceholder': 'Número de teléfono de 11 dígitos',
+  'connections.sendInvitation': 'Enviar invitación',
+  'connections.invitationExpires': 'La invitación caduca en 7 días',
+  'connections.yourInvite': 'Tu invitación',
+  'connections.inviteHint': 'Deja que escanee este código o comparte el enlace. Solo funciona una vez y caduca el {time}. Si aún no tiene FamGuards, el enlace le lleva a la app y la invitación espera hasta que se registre.',
+  'connections.shareMessage': 'Conecta conmigo en FamGuards para que podamos cuidarnos mutuamente: {link}',
+  'connections.shareLink': 'Compartir enlace',
+  'connections.copied': '¡Copiado!',
+  'connections.linkCopied': 'Enlace de invitación copiado al portapapeles.',
+  'connections.copyLink': 'Copiar enlace',
+  'connections.cancelInvite': 'Cancelar invitación',
+  'connections.pasteInvitePlaceholder': 'Pega el enlace de invitación',
+  'connections.openInviteHint': 'Pega el enlace de invitación que te compartió la otra persona o escanea su código QR con la cámara',
+
+  'locationSharing.always': 'Siempre',
+  'locationSharing.off': 'Desactivado',
+  'locationSharing.timeLeft': 'Quedan {time}',
+  'locationSharing.ending': 'Finalizando...',
+  'locationSharing.untilArrival': 'Hasta la llegada',
+  'locationSharing.everyDay': 'Todos los días',
+  'locationSharing.weekdays': 'Entre semana',
+  'locationSharing.weekends': 'Fines de semana',
+  'locationSharing.day1': 'lun',
+  'locationSharing.day2': 'mar',
+  'locationSharing.day3': 'mié',
+  'locationSharing.day4': 'jue',
+  'locationSharing.day5': 'vie',
+  'locationSharing.day6': 'sáb',
+  'locationSharing.day7': 'dom',
+
+  'batterySaving.description': 'Optimiza el rendimiento de la app para ahorrar batería. Algunas funciones pueden estar limitadas.',
+  'batterySaving.activeProfile': 'Perfil activo: {profile}',
+  'batterySaving.batteryLevel': '{reason} · Batería {level}%',
+  'batterySaving.autoNote': 'El seguimiento se reduce automáticamente cuando la batería baja del {threshold}% y no se está cargando.',
+  'batterySaving.enable': 'Activar ahorro de batería',
+  'batterySaving.enableSubtitle': 'Reduce la actividad en segundo plano',
+  'batterySaving.reduceLocation': 'Reducir actualizaciones de ubicación',
+  'batterySaving.reduceLocationSubtitle': 'Actualiza la ubicación con menos frecuencia',
+  'batterySaving.reduceSync': 'Reducir sincronización en segundo plano',
+  'batterySaving.reduceSyncSubtitle': 'Sincroniza los datos con menos frecuencia',
+  'batterySaving.saveFailed': 'No se pudieron guardar los ajustes de ahorro de batería. Inténtalo de nuevo.',
+  'batterySaving.profile.normal': 'Máxima precisión',
+  'batterySaving.profile.normalDescription': 'GPS preciso, ubicación compartida cada 30 minutos en segundo plano.',
+  'batterySaving.profile.balanced': 'Equilibrado',
+  'batterySaving.profile.balancedDescription': 'Precisión de GPS algo menor y menos comprobaciones en primer plano.',
+  'batterySaving.profile.saver': 'Ahorro de batería',
+  'batterySaving.profile.saverDescription': 'Ubicación aproximada, actualizada aproximadamente una vez por hora.',
+  'batterySaving.profile.critical': 'Batería crítica',
+  'batterySaving.profile.criticalDescription': 'Seguimiento mínimo, actualizado cada 2 horas aproximadamente para mantener el teléfono encendido.',
+  'batterySaving.reason.default': 'El ahorro de batería está desactivado',
+  'batterySaving.reason.settings': 'Según tus ajustes de ahorro de batería',
+  'batterySaving.reason.lowBattery': 'Batería por debajo del {threshold}%',
+  'batterySaving.reason.lowPowerMode': 'El modo de bajo consumo del dispositivo está activado',
+
+  'locationAccuracy.description': 'Elige con qué precisión compartes tu ubicación con tus contactos.',
+  'locationAccuracy.exact': 'Ubicación GPS exacta',
+  'locationAccuracy.exactSubtitle': 'Comparte tu ubicación precisa con coordenadas exactas',
+  'locationAccuracy.approximate': 'Ubicación aproximada',
+  'locationAccuracy.approximateSubtitle': 'Comparte una zona general (unos 2 km) y solo tu ciudad para más privacidad',
+  'locationAccuracy.emergencyInfo': 'Durante un SOS o una emergencia, tu ubicación exacta se comparte siempre para que tus contactos puedan encontrarte.',
+  'locationAccuracy.emergencyActive': 'El seguimiento de emergencia está activo. Tu ubicación exacta se comparte hasta que termine.',
+  'locationAccuracy.saveFailed': 'No se pudo guardar la precisión de ubicación. Inténtalo de nuevo.',
+
+  'updateFrequency.option15': '15 minutos',
+  'updateFrequency.option15Description': 'Actualizar la ubicación cada 15 minutos',
+  'updateFrequency.option30': '30 minutos',
+  'updateFrequency.option30Description': 'Actualizar la ubicación cada 30 minutos',
+  'updateFrequency.option60': '1 hora',
+  'updateFrequency.option60Description': 'Actualizar la ubicación cada hora (recomendado)',
+  'updateFrequency.option120': '2 horas',
+  'updateFrequency.option120Description': 'Actualizar la ubicación cada 2 horas',
+  'updateFrequency.option180': '3 horas',
+  'updateFrequency.option180Description': 'Actualizar la ubicación cada 3 horas',
+  'updateFrequency.description': 'Elige con qué frecuencia se actualiza tu ubicación y se comparte con tus contactos. Las actualizaciones más frecuentes son más precisas pero gastan más batería.',
+  'updateFrequency.current': 'Actual',
+  'updateFrequency.info': 'Tu ubicación se actualizará automáticamente con el intervalo elegido cuando el uso compartido de la ubicación esté activado. Puedes cambiar este ajuste cuando quieras.',
+  'updateFrequency.loadFailed': 'No se pudieron cargar los ajustes. Se usan los valores predeterminados.',
+  'updateFrequency.saveFailed': 'No se pudo guardar la frecuencia de actualización. Inténtalo de nuevo.',
+
+  'sleepMode.description': 'El modo descanso reduce las notificaciones y las actualizaciones de ubicación durante tus horas de sueño para no molestarte. Las alertas SOS y las emergencias de check-in siempre llegan.',
+  'sleepMode.enable': 'Activar modo descanso',
+  'sleepMode.enableSubtitle': 'Reduce las notificaciones durante las horas de sueño',
+  'sleepMode.hours': 'Horas de sueño',
+  'sleepMode.startTime': 'Hora de inicio',
+  'sleepMode.endTime': 'Hora de fin',
+  'sleepMode.timePickerNote': 'Aquí se puede añadir un selector de hora',
+  'sleepMode.saveFailed': 'No se pudo guardar el modo descanso. Inténtalo de nuevo.',
+
+  'editProfile.name': 'Nombre',
+  'editProfile.namePlaceholder': 'Introduce tu nombre',
+  'editProfile.email': 'Correo electrónico',
+  'editProfile.emailPlaceholder': 'Introduce tu correo electrónico',
+  'editProfile.phone': 'Teléfono',
+  'editProfile.phonePlaceholder': 'Introduce tu número de teléfono',
+  'editProfile.save': 'Guardar cambios',
+  'editProfile.nameRequired': 'El nombre es obligatorio',
+  'editProfile.saved': 'Perfil actualizado correctamente',
+  'editProfile.saveFailed': 'No se pudo actualizar el perfil. Inténtalo de nuevo.',
+
+  'emergencyNotes.description': 'Añade información médica importante, alergias, medicamentos o contactos de emergencia que tus contactos deban ver en caso de emergencia.',
+  'emergencyNotes.placeholder': 'Escribe tus notas de emergencia...',
+  'emergencyNotes.save': 'Guardar notas',
+  'emergencyNotes.saved': 'Notas de emergencia actualizadas correctamente',
+  'emergencyNotes.saveFailed': 'No se pudieron actualizar las notas de emergencia. Inténtalo de nuevo.',
+
+  'locked.title': 'App bloqueada',
+  'locked.secured': 'PROTEGIDA',
+  'locked.restricted': 'El acceso a la app está restringido temporalmente.',
+  'locked.messageWithPin': 'Introduce tu PIN o pide a tus contactos de confianza que aprueben el desbloqueo de tu cuenta.',
+  'locked.messageNoPin': 'Ponte en contacto con tus contactos de confianza para que aprueben el desbloqueo de tu cuenta.',
+  'locked.pinPlaceholder': 'Introduce tu PIN',
+  'locked.unlock': 'Desbloquear',
+  'locked.pinCheckFailed': 'No se pudo comprobar tu PIN. Inténtalo de nuevo.',
+  'locked.incorrectPinOne': 'PIN incorrecto. Queda 1 intento.',
+  'locked.incorrectPin': 'PIN incorrecto. Quedan {count} intentos.',
+  'locked.tooManyAttempts': 'Demasiados intentos incorrectos. Pide a tus contactos que aprueben el desbloqueo.',
+  'locked.noApprovers': 'Ninguno de tus contactos puede aprobar el desbloqueo. Usa tu PIN para desbloquear.',
+  'locked.approvalsOne': '{approved} de 1 contacto ha aprobado el desbloqueo',
+  'locked.approvals': '{approved} de {required} contactos han aprobado el desbloqueo',
+  'locked.exactLocation': 'Tu ubicación exacta se comparte con tus contactos hasta que se desbloquee tu cuenta.',
+  'locked.checkingStatus': 'Comprobando el estado del bloqueo...',
+
+  'update.title': 'Actualización necesaria',
+  'update.subtitle': 'Hay una nueva versión de FamGuard disponible',
+  'update.message': 'Actualiza a la última versión para seguir usando la app y acceder a las nuevas funciones.',
+  'update.currentVersion': 'Versión actual: {version}',
+  'update.updateNow': 'Actualizar ahora',
+  'update.storeInfo': 'La app abrirá automáticamente {store}',
+
+  'offlineMaps.totalStorage': 'Almacenamiento total: {size}',
+  'offlineMaps.emptyTitle': 'No hay mapas sin conexión',
+  'offlineMaps.emptyText': 'Descarga mapas de zonas con mala cobertura para usarlos sin conexión.',
+  'offlineMaps.downloadFirst': 'Descarga tu primer mapa',
+  'offlineMaps.tiles': '{size} • {count} teselas',
+  'offlineMaps.downloadedOn': 'Descargado el {date}',
+  'offlineMaps.downloadTitle': 'Descargar mapa sin conexión',
+  'offlineMaps.mapName': 'Nombre del mapa',
+  'offlineMaps.mapNamePlaceholder': 'p. ej., Barrio, Ruta al trabajo',
+  'offlineMaps.selectRegion': 'Selecciona la zona',
+  'offlineMaps.selectRegionHint': 'Desplaza y haz zoom para elegir la zona que quieres descargar',
+  'offlineMaps.downloading': 'Descargando...',
+  'offlineMaps.tileProgress': '{done} / {total} teselas',
+  'offlineMaps.downloadMap': 'Descargar mapa',
+  'offlineMaps.loadFailed': 'No se pudieron cargar los mapas sin conexión.',
+  'offlineMaps.nameRequired': 'Introduce un nombre para el mapa.',
+  'offlineMaps.regionRequired': 'Selecciona una zona en el mapa.',
+  'offlineMaps.downloaded': 'Mapa "{name}" descargado correctamente.',
+  'offlineMaps.downloadFailed': 'No se pudo descargar el mapa. Inténtalo de nuevo.',
+  'offlineMaps.deleteTitle': 'Eliminar mapa',
+  'offlineMaps.deleteMessage': '¿Seguro que quieres eliminar "{name}"? Se liberarán {size} de almacenamiento.',
+  'offlineMaps.deleteFailed': 'No se pudo eliminar el mapa.',
+  'offlineMaps.locationFailed': 'No se pudo obtener la ubicación actual.',
+
+  'incidentDetail.title': 'Detalles del incidente',
+  'incidentDetail.verified': 'Verificado',
+  'incidentDetail.status': 'Estado',
+  'incidentDetail.status.ongoing': 'En curso',
+  'incidentDetail.status.contained': 'Controlado',
+  'incidentDetail.status.resolved': 'Resuelto',
+  'incidentDetail.reporterMarked': '{name} lo marcó como {status}',
+  'incidentDetail.communityMarked': 'La comunidad lo marcó como {status}',
+  'incidentDetail.reporter': 'Autor del reporte',
+  'incidentDetail.reply': 'Responder',
+  'incidentDetail.statusVoteRecorded': 'Voto registrado',
+  'incidentDetail.statusConsensus': 'El estado cambia cuando {count} personas estén de acuerdo.',
+  'incidentDetail.statusFailed': 'No se pudo actualizar el estado. Inténtalo de nuevo.',
+  'incidentDetail.locationUnavailable': 'Ubicación no disponible',
+  'incidentDetail.locationUnavailableMessage': 'Tu actualización se publicará sin ubicación.',
+  'incidentDetail.postFailed': 'No se pudo publicar tu actualización. Inténtalo de nuevo.',
+  'incidentDetail.reporterHint': 'Tú reportaste este incidente. Mantén su estado actualizado.',
+  'incidentDetail.statusHint': '¿Sigue ocurriendo? El estado cambia cuando {count} personas estén de acuerdo.',
+  'incidentDetail.description': 'Descripción',
+  'incidentDetail.reportedBy': 'Reportado por {name}',
+  'incidentDetail.anonymous': 'Anónimo',
+  'incidentDetail.you': 'Tú',
+  'incidentDetail.directions': 'Cómo llegar',
+  'incidentDetail.updates': 'Actualizaciones',
+  'incidentDetail.noUpdates': 'Aún no hay actualizaciones. ¿Viste algo nuevo? Avisa a los demás.',
+  'incidentDetail.replyingTo': 'Respondiendo a {name}',
+  'incidentDetail.replyPlaceholder': 'Escribe una respuesta',
+  'incidentDetail.updatePlaceholder': 'p. ej., Llegó la policía',
+  'incidentDetail.includeLocation': 'Incluir mi ubicación',
+  'incidentDetail.post': 'Publicar',
+
+  'incidentDetail.voteFailed': 'No se pudo registrar tu voto. Inténtalo de nuevo.',
+  'incidentDetail.isAccurate': '¿Es correcto?',
+  'incidentDetail.confirmVote': 'Puedo confirmarlo ({count})',
+  'incidentDetail.falseVote': 'Esto es falso ({count})',
+  'incidentDetail.voteHintReporter': 'Otras personas cercanas pueden confirmar tu reporte.',
+  'incidentDetail.voteHint': 'Los votos de quienes están cerca del incidente cuentan más.',
+
+  'incidents.filterMinutes': '{count} min',
+  'incidents.filterHours': '{count} h',
+  'incidents.loading': 'Cargando incidentes...',
+  'incidents.noReports': 'No hay reportes recientes',
+  'incidents.noReportsMessage': 'No hay incidentes recientes reportados en tu zona. ¡Cuídate!',
+
+  'travelAdvisory.title': 'Alertas de viaje',
+  'travelAdvisory.subtitle': 'Mantente al tanto de los riesgos de viaje',
+  'travelAdvisory.calculateRouteRisk': 'Calcular riesgo de la ruta',
+  'travelAdvisory.originState': 'Estado de origen *',
+  'travelAdvisory.originCity': 'Ciudad de origen (opcional)',
+  'travelAdvisory.destinationState': 'Estado de destino *',
+  'travelAdvisory.destinationCity': 'Ciudad de destino (opcional)',
+  'travelAdvisory.originStatePlaceholder': 'p. ej., Lagos',
+  'travelAdvisory.originCityPlaceholder': 'p. ej., Ikeja',
+  'travelAdvisory.destinationStatePlaceholder': 'p. ej., Abuja',
+  'travelAdvisory.destinationCityPlaceholder': 'p. ej., Garki',
+  'travelAdvisory.calculateRisk': 'Calcular riesgo',
+  'travelAdvisory.statesRequired': 'Introduce el estado de origen y el de destino.',
+  'travelAdvisory.routeRiskFailed': 'No se pudo calcular el riesgo de la ruta. Inténtalo de nuevo.',
+  'travelAdvisory.routeRiskTitle': 'Evaluación del riesgo de la ruta',
+  'travelAdvisory.riskScore': 'Puntuación de riesgo',
+  'travelAdvisory.last24h': 'Últimas 24 h',
+  'travelAdvisory.last7Days': 'Últimos 7 días',
+  'travelAdvisory.last30Days': 'Últimos 30 días',
+  'travelAdvisory.incidentsNearRoute': 'Incidentes a menos de {distance} de la ruta',
+  'travelAdvisory.incidentsInAreas': 'Incidentes en las zonas de origen y destino',
+  'travelAdvisory.forYourLocation': 'Alertas para tu ubicación',
+  'travelAdvisory.noAdvisories': 'No hay alertas activas',
+  'travelAdvisory.locationSafe': 'Tu ubicación actual parece segura',
+  'travelAdvisory.affectedAreas': 'Zonas afectadas:',
+  'travelAdvisory.source': 'Fuente: {source}',
+  'travelAdvisory.risk.low': 'Riesgo bajo',
+  'travelAdvisory.risk.moderate': 'Riesgo moderado',
+  'travelAdvisory.risk.high': 'Riesgo alto',
+  'travelAdvisory.risk.critical': 'Riesgo crítico',
+  'travelAdvisory.type.security': 'SEGURIDAD',
+  'travelAdvisory.type.weather': 'CLIMA',
+  'travelAdvisory.type.combined': 'COMBINADA',
+
+  'checkInSettings.saved': 'La configuración se guardó correctamente.',
+  'checkInSettings.saveFailed': 'No se pudo guardar la configuración. Inténtalo de nuevo.',
+  'checkInSettings.enable': 'Activar check-ins',
+  'checkInSettings.enableDescription': 'Permite check-ins de seguridad periódicos',
+  'checkInSettings.interval': 'Intervalo de check-in',
+  'checkInSettings.intervalLabel': 'Intervalo (minutos)',
+  'checkInSettings.intervalHint': 'Cada cuánto quieres hacer check-in (predeterminado: {minutes} minutos)',
+  'checkInSettings.automatic': 'Check-ins automáticos',
+  'checkInSettings.automaticDescription': 'Hace check-in automáticamente en los intervalos programados',
+  'checkInSettings.duringTravel': 'Check-in automático durante viajes',
+  'checkInSettings.duringTravelDescription': 'Hace check-in automáticamente cuando viajas',
+  'checkInSettings.travelDetection': 'Detección de viajes',
+  'checkInSettings.speedThreshold': 'Umbral de velocidad ({unit})',
+  'checkInSettings.speedThresholdHint': 'Se considera que viajas si la velocidad supera este umbral (predeterminado: {speed})',
+  'checkInSettings.missedAlerts': 'Alertas de check-in perdido',
+  'checkInSettings.alertAfter': 'Alertar después de (minutos)',
+  'checkInSettings.alertAfterHint': 'Avisa a tus contactos de emergencia si el check-in se retrasa este tiempo (predeterminado: {minutes} minutos)',
+  'checkInSettings.aboutTitle': 'Acerca de los check-ins',
+  'checkInSettings.aboutText': 'Los check-ins ayudan a tus contactos de emergencia a saber que estás bien. Puedes hacer check-in manualmente cuando quieras o configurar check-ins automáticos.',
+  'checkInSettings.aboutMissed': 'Si no haces un check-in programado, se avisará a tus contactos de emergencia.',
+  'checkInSettings.save': 'Guardar configuración',
+
+  'profile.loading': 'Cargando perfil...',
+  'profile.circlesSubtext': 'Quién recibe tu ubicación y alertas',
+  'profile.shareLocationSubtext': 'Visible para tus conexiones',
+  'profile.communityReportsSubtext': 'Mostrar incidentes cercanos',
+  'profile.accountLockSubtext': 'PIN de desbloqueo y aprobación de conexiones',
+  'profile.locationAccuracySubtext': 'GPS exacto o aproximado',
+  'profile.locationUpdateFrequencySubtext': 'Con qué frecuencia se actualiza la ubicación',
+  'profile.pushNotificationsSubtext': 'Recibir alertas de seguridad',
+  'profile.testPushNotificationSubtext': 'Enviar una notificación de prueba a este dispositivo',
+  'profile.warning': 'Advertencia',
+  'profile.unknownError': 'Error desconocido',
+  'profile.continue': 'Continuar',
+  'profile.physicalDeviceTitle': 'Se requiere un dispositivo físico',
+  'profile.physicalDeviceMessage': 'Las notificaciones push solo funcionan en dispositivos físicos, no en simuladores ni emuladores. Prueba en un dispositivo real.',
+  'profile.permissionRequired': 'Se requiere permiso',
+  'profile.permissionDeniedSettings': 'Las notificaciones push requieren permiso de notificaciones. Parece que lo denegaste anteriormente.\n\nActívalo manualmente:\n1. Ve a Ajustes\n2. Toca Aplicaciones > FamGuard\n3. Toca Notificaciones\n4. Activa "Mostrar notificaciones"',
+  'profile.permissionPrompt': 'Las notificaciones push requieren permiso de notificaciones para avisarte de emergencias.\n\nConcede el permiso cuando se te solicite para recibir alertas de seguridad importantes.',
+  'profile.pushTokenFailed': 'Permiso concedido, pero no se pudo registrar el token push. Es posible que las notificaciones no funcionen. Inténtalo más tarde.',
+  'profile.permissionNotGranted': 'Permiso no concedido',
+  'profile.permissionNotGrantedMessage': 'Se requiere permiso de notificaciones para las notificaciones push. Concede el permiso para activarlas.',
+  'profile.notificationsSaveFailed': 'No se pudo guardar la configuración de notificaciones. Inténtalo de nuevo.',
+  'profile.notificationsSaveFailedDetail': 'No se pudo guardar la configuración de notificaciones: {error}\n\nInténtalo de nuevo.',
+  'profile.notificationsEnabled': '¡Notificaciones push activadas! Recibirás alertas de emergencia y avisos de seguridad.',
+  'profile.notificationsSavedNoPermission': 'Configuración guardada, pero el permiso no está concedido. Activa las notificaciones en los ajustes del dispositivo.',
+  'profile.communityReportsSaveFailed': 'No se pudo guardar la configuración de reportes comunitarios. Inténtalo de nuevo.',
+  'profile.locationSharingSaveFailed': 'No se pudo guardar la configuración para compartir ubicación. Inténtalo de nuevo.',
+  'profile.userNotFound': 'Usuario no encontrado. Inicia sesión e inténtalo de nuevo.',
+  'profile.testPermissionMessage': 'Las notificaciones push requieren permiso de notificaciones. Actívalo en Ajustes > Aplicaciones > FamGuard > Notificaciones, o activa Notificaciones push en Perfil.',
+  'profile.tokenNotFound': 'Token no encontrado',
+  'profile.tokenNotFoundMessage': 'El token de notificaciones push no está registrado. Activa Notificaciones push en Perfil para registrarlo.',
+  'profile.testPushConfirm': 'Se enviará una notificación de prueba a tu dispositivo. ¿Continuar?',
+  'profile.sendTest': 'Enviar prueba',
+  'profile.testPushSendFailed': 'No se pudo enviar la notificación de prueba: {error}\n\nRevisa los registros de la Edge Function para más detalles.',
+  'profile.testPushSuccessTitle': '✅ ¡Listo!',
+  'profile.testPushSuccess': '¡Notificación de prueba enviada!\n\nRevisa las notificaciones de tu dispositivo. Deberías recibirla en breve.\n\nEnviadas: {sent}\nFallidas: {failed}',
+  'profile.testPushNoneSentTitle': '⚠️ No se envió ninguna notificación',
+  'profile.testPushNoneSent': '{message}\n\nNormalmente significa:\n• El token no está en la base de datos\n• El token caducó o no es válido\n• Prueba a desactivar y volver a activar las notificaciones push',
+  'profile.testPushUnknownTitle': '⚠️ Resultado desconocido',
+  'profile.testPushUnknown': 'La solicitud se completó pero sin confirmación. Revisa las notificaciones de tu dispositivo.',
+  'profile.testPushFailed': 'No se pudo probar la notificación: {error}\n\nInténtalo de nuevo.',
+  'profile.signOutConfirm': '¿Seguro que quieres cerrar sesión?',
+  'profile.signOutFailed': 'No se pudo cerrar sesión. Inténtalo de nuevo.',
+  'profile.deleteAccountConfirm': '¿Seguro que quieres eliminar tu cuenta? Esta acción no se puede deshacer. Todos tus datos, conexiones y ajustes se eliminarán de forma permanente.',
+  'profile.finalConfirmation': 'Confirmación final',
+  'profile.finalConfirmationMessage': 'Se eliminarán de forma permanente tu cuenta y todos los datos asociados. ¿Estás completamente seguro?',
+  'profile.confirmDeleteAccount': 'Sí, eliminar mi cuenta',
+  'profile.deleteAccountFailed': 'No se pudo eliminar la cuenta. Inténtalo de nuevo.',
+  'profile.deleteUrlMissing': 'La URL para eliminar la cuenta no está configurada. Contacta con soporte.',
+  'profile.deleteViaWebsiteMessage': 'Se te redirigirá a nuestro sitio web para completar la eliminación de la cuenta.',
+  'profile.openWebsiteFailed': 'No se pudo abrir el sitio web. Inténtalo más tarde.',
+};
+
+export default es;
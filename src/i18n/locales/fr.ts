@@ -0,0 +1,998 @@
+import type { TranslationCatalog } from '../index';
+
+// French
+const fr: TranslationCatalog = {
+  'common.error': 'Erreur',
+  'common.success': 'Succès',
+  'common.ok': 'OK',
+  'common.cancel': 'Annuler',
+  'common.save': 'Enregistrer',
+  'common.delete': 'Supprimer',
+  'common.loadingSettings': 'Chargement des paramètres...',
+  'common.tryAgain': 'Une erreur est survenue. Veuillez réessayer.',
+  'common.openSettings': 'Ouvrir les Réglages',
+
+  'tabs.home': 'Accueil',
+  'tabs.incidents': 'Incidents',
+  'tabs.connections': 'Proches',
+  'tabs.profile': 'Profil',
+
+  'profile.personalInformation': 'Informations personnelles',
+  'profile.editProfile': 'Modifier le profil',
+  'profile.connections': 'Proches',
+  'profile.circles': 'Cercles et rôles',
+  'profile.emergencyNotes': "Notes d'urgence",
+  'profile.safetyPrivacy': 'Sécurité et confidentialité',
+  'profile.shareLocation': 'Partager ma position',
+  'profile.communityReports': 'Signalements de la communauté',
+  'profile.locationAccuracy': 'Précision de la position',
+  'profile.locationUpdateFrequency': 'Fréquence de mise à jour',
+  'profile.notifications': 'Notifications',
+  'profile.pushNotifications': 'Notifications push',
+  'profile.testPushNotification': 'Tester une notification push',
+  'profile.sleepMode': 'Mode sommeil',
+  'profile.notificationFilters': 'Filtres de notifications',
+  'profile.accountLock': 'Verrouillage SOS',
+  'profile.appSettings': "Paramètres de l'app",
+  'profile.languageRegion': 'Langue et région',
+  'profile.units': 'Unités (km / miles)',
+  'profile.batterySaving': "Économie d'énergie",
+  'profile.offlineMaps': 'Cartes hors ligne',
+  'profile.usersManual': "Manuel d'utilisation",
+  'profile.helpSupport': 'Aide et assistance',
+  'profile.privacyPolicy': 'Politique de confidentialité',
+  'profile.termsOfService': "Conditions d'utilisation",
+  'profile.accountManagement': 'Gestion du compte',
+  'profile.deleteAccount': 'Supprimer le compte',
+  'profile.deleteAccountWebsite': 'Supprimer le compte sur le site web',
+  'profile.signOut': 'Se déconnecter',
+
+  'languageRegion.title': 'Langue et région',
+  'languageRegion.language': 'Langue',
+  'languageRegion.region': 'Région',
+  'languageRegion.saveLanguageFailed': "Impossible d'enregistrer la langue. Veuillez réessayer.",
+  'languageRegion.saveRegionFailed': "Impossible d'enregistrer la région. Veuillez réessayer.",
+
+  'units.title': 'Unités',
+  'units.description': "Choisissez votre système d'unités pour les distances, les vitesses et les alertes.",
+  'units.metric': 'Métrique (km, m)',
+  'units.metricSubtitle': 'Kilomètres et mètres',
+  'units.imperial': 'Impérial (miles, pieds)',
+  'units.imperialSubtitle': 'Miles et pieds',
+  'units.saveFailed': "Impossible d'enregistrer le système d'unités. Veuillez réessayer.",
+
+  'incidents.safetyFeed': 'Fil de sécurité',
+  'incidents.distanceAway': 'à {distance}',
+  'incidents.category.robbery': 'Vol à main armée',
+  'incidents.category.kidnapping': 'Enlèvement',
+  'incidents.category.accident': 'Accident',
+  'incidents.category.fire': 'Incendie',
+  'incidents.category.protest': 'Manifestation',
+  'incidents.category.assault': 'Agression',
+  'incidents.category.theft': 'Vol',
+  'incidents.category.other': 'Autre',
+
+  'time.justNow': "À l'instant",
+  'time.minuteAgo': 'il y a 1 minute',
+  'time.minutesAgo': 'il y a {count} minutes',
+  'time.hourAgo': 'il y a 1 heure',
+  'time.hoursAgo': 'il y a {count} heures',
+  'time.dayAgo': 'il y a 1 jour',
+  'time.daysAgo': 'il y a {count} jours',
+  'time.weekAgo': 'il y a 1 semaine',
+  'time.weeksAgo': 'il y a {count} semaines',
+  'time.monthAgo': 'il y a 1 mois',
+  'time.monthsAgo': 'il y a {count} mois',
+  'time.yearAgo': 'il y a 1 an',
+  'time.yearsAgo': 'il y a {count} ans',
+  'time.todayAt': "Aujourd'hui à {time}",
+  'time.yesterdayAt': 'Hier à {time}',
+  'time.dateAt': '{date} à {time}',
+
+  'lastSeen.onlineNow': 'En ligne',
+  'lastSeen.active': 'Actif {time}',
+  'lastSeen.lastSeen': 'Vu {time}',
+
+  'checkIn.title': 'Signalement de sécurité',
+  'checkIn.subtitle': 'Prévenez vos proches que vous êtes en sécurité',
+  'checkIn.quickCheckIn': 'Signalement rapide',
+  'checkIn.imSafe': 'Je suis en sécurité',
+  'checkIn.delayed': 'En retard',
+  'checkIn.checkingIn': 'Signalement en cours...',
+  'checkIn.lastCheckIn': 'Dernier signalement',
+  'checkIn.recentCheckIns': 'Signalements récents',
+  'checkIn.status.safe': 'EN SÉCURITÉ',
+  'checkIn.status.unsafe': 'EN DANGER',
+  'checkIn.status.delayed': 'EN RETARD',
+  'checkIn.status.missed': 'MANQUÉ',
+  'checkIn.successTitle': '✅ Signalement envoyé',
+  'checkIn.successMessage': 'Votre statut de sécurité a été mis à jour.',
+  'checkIn.failed': 'Le signalement a échoué. Veuillez réessayer.',
+  'checkIn.settingsTitle': 'Paramètres de signalement',
+  'checkIn.autoCheckInsEnabled': 'Signalements automatiques : activés',
+  'checkIn.autoCheckInsDisabled': 'Signalements automatiques : désactivés',
+  'checkIn.interval': 'Intervalle : toutes les {minutes} minutes',
+  'checkIn.emergencyContacts': "Contacts d'urgence : {count}",
+
+  'notificationFilters.sosAlert': 'Alertes SOS',
+  'notificationFilters.sosAlertSubtitle': "Alertes d'urgence de vos proches",
+  'notificationFilters.sosResponse': 'Réponses SOS',
+  'notificationFilters.sosResponseSubtitle': 'Qui répond à un SOS',
+  'notificationFilters.checkInEmergency': "Signalements d'urgence",
+  'notificationFilters.checkInEmergencySubtitle': 'Proches signalant une urgence',
+  'notificationFilters.checkInUnsafe': 'Signalements de danger',
+  'notificationFilters.checkInUnsafeSubtitle': 'Proches qui ne se sentent pas en sécurité',
+  'notificationFilters.missedCheckIn': 'Signalements manqués',
+  'notificationFilters.missedCheckInSubtitle': 'Proches qui ont manqué un signalement prévu',
+  'notificationFilters.tripOverdue': 'Trajets en retard',
+  'notificationFilters.tripOverdueSubtitle': 'Trajets qui ont dépassé leur durée ou ne donnent plus de nouvelles',
+  'notificationFilters.incidentProximity': 'Incidents à proximité',
+  'notificationFilters.incidentProximitySubtitle': 'Incidents signalés près de vous',
+  'notificationFilters.incident': "Signalements d'incidents",
+  'notificationFilters.incidentSubtitle': 'Nouveaux incidents dans le fil de sécurité',
+  'notificationFilters.placeArrival': 'Arrivées aux lieux',
+  'notificationFilters.placeArrivalSubtitle': 'Proches arrivant à vos lieux',
+  'notificationFilters.placeDeparture': 'Départs des lieux',
+  'notificationFilters.placeDepartureSubtitle': 'Proches quittant vos lieux',
+  'notificationFilters.checkIn': 'Signalements',
+  'notificationFilters.checkInSubtitle': 'Signalements habituels de vos proches',
+  'notificationFilters.tripStarted': 'Trajet commencé',
+  'notificationFilters.tripStartedSubtitle': 'Proches qui partagent un trajet avec vous',
+  'notificationFilters.tripArrived': 'Arrivées de trajets',
+  'notificationFilters.tripArrivedSubtitle': 'Proches arrivés à destination',
+  'notificationFilters.tripCancelled': 'Trajet annulé',
+  'notificationFilters.tripCancelledSubtitle': 'Proches qui terminent un trajet partagé plus tôt',
+  'notificationFilters.travelAdvisory': 'Conseils aux voyageurs',
+  'notificationFilters.travelAdvisorySubtitle': 'Conseils de sécurité pour vos trajets',
+  'notificationFilters.routeRisk': "Risque d'itinéraire",
+  'notificationFilters.routeRiskSubtitle': 'Avertissements de risque pour les itinéraires prévus',
+  'notificationFilters.connectionAdded': 'Nouveaux proches',
+  'notificationFilters.connectionAddedSubtitle': "Quelqu'un vous a ajouté à ses proches",
+  'notificationFilters.locationReminder': 'Rappels de position',
+  'notificationFilters.locationReminderSubtitle': 'Rappels pour mettre à jour votre position',
+  'notificationFilters.morningGreeting': 'Salut du matin',
+  'notificationFilters.morningGreetingSubtitle': 'Message quotidien de bonjour',
+  'notificationFilters.afternoonGreeting': "Salut de l'après-midi",
+  'notificationFilters.afternoonGreetingSubtitle': 'Message quotidien de bon après-midi',
+  'notificationFilters.appUpdate': 'Mises à jour',
+  'notificationFilters.appUpdateSubtitle': 'Nouvelles versions de FamGuard',
+  'notificationFilters.title': 'Filtres de notifications',
+  'notificationFilters.description': "Choisissez les notifications push que vous recevez. Les alertes SOS et les signalements d'urgence passent toujours, même depuis les proches mis en sourdine.",
+  'notificationFilters.safetyAlerts': 'Alertes de sécurité',
+  'notificationFilters.alerts': 'Alertes',
+  'notificationFilters.updatesGreetings': 'Nouveautés et salutations',
+  'notificationFilters.connections': 'Proches',
+  'notificationFilters.noConnections': "Vous n'avez encore aucun proche.",
+  'notificationFilters.alwaysOn': 'Toujours actif',
+  'notificationFilters.connectionMuted': 'En sourdine - alertes de sécurité uniquement',
+  'notificationFilters.connectionAll': 'Toutes les notifications',
+  'notificationFilters.saveFailed': "Impossible d'enregistrer le filtre. Veuillez réessayer.",
+
+  'findContacts.title': 'Trouver des contacts',
+  'findContacts.introTitle': 'Trouvez des personnes que vous connaissez',
+  'findContacts.introDescription': 'Voyez lesquels de vos contacts utilisent déjà FamGuards et connectez-vous en un geste, ou invitez les autres. Les numéros restent sur votre téléphone : seule une empreinte à sens unique de chaque numéro est vérifiée.',
+  'findContacts.search': 'Rechercher des contacts',
+  'findContacts.regionHint': 'Les numéros sans indicatif pays sont lus comme {region}.',
+  'findContacts.changeRegion': 'Changer de région',
+  'findContacts.noMatches': 'Aucun contact ne correspond à votre recherche.',
+  'findContacts.noValidNumbers': "Aucun contact avec un numéro valide n'a été trouvé.",
+  'findContacts.onFamGuards': 'Sur FamGuards',
+  'findContacts.inviteToFamGuards': 'Inviter sur FamGuards',
+  'findContacts.userOnFamGuards': '{name} sur FamGuards',
+  'findContacts.connected': 'Connecté',
+  'findContacts.invited': 'Invité',
+  'findContacts.connect': 'Se connecter',
+  'findContacts.invite': 'Inviter',
+  'findContacts.someNotChecked': 'Certains contacts non vérifiés',
+  'findContacts.accessNeeded': 'Accès aux contacts requis',
+  'findContacts.accessNeededMessage': "Autorisez l'accès à vos contacts dans les Réglages pour trouver des personnes que vous connaissez.",
+  'findContacts.inviteFailed': "Impossible d'envoyer l'invitation. Veuillez réessayer.",
+  'findContacts.inviteLinkFailed': "Impossible de créer l'invitation. Veuillez réessayer.",
+  'findContacts.messagesUnavailable': "Impossible d'ouvrir votre application de messages.",
+
+  'sosEvent.status.active': "A besoin d'aide",
+  'sosEvent.status.responderEnRoute': 'Secours en route',
+  'sosEvent.status.resolved': 'Résolu',
+  'sosEvent.status.falseAlarm': 'Fausse alerte',
+  'sosEvent.title': 'SOS',
+  'sosEvent.loading': 'Chargement du SOS...',
+  'sosEvent.unavailable': "Ce SOS n'est plus disponible.",
+  'sosEvent.yourSos': 'Votre SOS',
+  'sosEvent.silentWarning': "SOS silencieux - {name} est peut-être sous la contrainte. Ne l'appelez pas et ne lui écrivez pas.",
+  'sosEvent.started': 'Début',
+  'sosEvent.lastLocation': 'Dernière position',
+  'sosEvent.near': 'Près de',
+  'sosEvent.closed': 'Fermé',
+  'sosEvent.imResponding': "J'interviens",
+  'sosEvent.cantHelp': 'Je ne peux pas aider',
+  'sosEvent.openLiveMap': 'Ouvrir la carte en direct',
+  'sosEvent.responders': 'Intervenants ({count})',
+  'sosEvent.noResponders': "Personne n'a encore répondu.",
+  'sosEvent.responderResponding': '{name} - intervient',
+  'sosEvent.responderCantHelp': '{name} - ne peut pas aider',
+  'sosEvent.addNoteTitle': 'Ajouter une note',
+  'sosEvent.notePlaceholder': 'ex. : la police a été appelée',
+  'sosEvent.addNote': 'Ajouter',
+  'sosEvent.resolve': 'Résoudre',
+  'sosEvent.falseAlarm': 'Fausse alerte',
+  'sosEvent.closeHint': 'Votre note est ajoutée à la chronologie quand vous fermez le SOS.',
+  'sosEvent.timeline': 'Chronologie',
+  'sosEvent.locationTrail': 'Trajet ({count})',
+  'sosEvent.noLocations': "Aucune position enregistrée pour l'instant.",
+  'sosEvent.showLess': 'Afficher moins',
+  'sosEvent.showAllLocations': 'Afficher les {count} positions',
+  'sosEvent.resolveTitle': 'Résoudre le SOS',
+  'sosEvent.resolveMessage': 'Ne résolvez que lorsque vous savez que {name} est en sécurité.',
+  'sosEvent.falseAlarmTitle': 'Marquer comme fausse alerte',
+  'sosEvent.falseAlarmMessage': 'Fermer ce SOS comme fausse alerte ? Les proches de {name} le verront dans la chronologie.',
+  'sosEvent.respondFailed': 'Impossible de répondre. Veuillez réessayer.',
+  'sosEvent.noteFailed': "Impossible d'ajouter votre note. Veuillez réessayer.",
+  'sosEvent.closeFailed': 'Impossible de fermer le SOS. Veuillez réessayer.',
+  'sosEvent.you': 'Vous',
+  'sosEvent.someone': "Quelqu'un",
+  'sosEvent.them': 'cette personne',
+  'sosEvent.update.opened': '{actor} a envoyé un SOS',
+  'sosEvent.update.acknowledged': '{actor} intervient',
+  'sosEvent.update.acknowledgedYou': 'Vous intervenez',
+  'sosEvent.update.called': '{actor} a appelé {name}',
+  'sosEvent.update.cantHelp': '{actor} ne peut pas aider',
+  'sosEvent.update.statusChanged': '{actor} a changé le statut en {status}',
+  'sosEvent.update.note': '{actor} a ajouté une note',
+  'sosEvent.statusUnknown': 'inconnu',
+
+  'trip.title': 'Trajet',
+  'trip.description': "Partagez un trajet en direct avec les proches de votre choix. Si vous n'arrivez pas à l'heure ou si votre téléphone ne donne plus de nouvelles, ils sont alertés via l'escalade de signalement.",
+  'trip.loading': 'Chargement des trajets...',
+  'trip.yourTrip': 'Votre trajet',
+  'trip.startATrip': 'Commencer un trajet',
+  'trip.following': 'Trajets que vous suivez',
+  'trip.noneFollowing': 'Aucun proche ne partage de trajet avec vous.',
+  'trip.connection': 'Proche',
+  'trip.overdue': 'En retard',
+  'trip.expectedAt': 'Arrivée prévue {time}',
+  'trip.distanceLeft': ' · encore {distance}',
+  'trip.overdueNoSignal': 'Votre position ne remonte plus. Vos proches ont été alertés.',
+  'trip.overdueLate': "Vous avez dépassé votre heure d'arrivée prévue. Vos proches ont été alertés.",
+  'trip.expectedArrival': 'Arrivée prévue',
+  'trip.distanceLeftLabel': 'Distance restante',
+  'trip.lastUpdate': 'Dernière mise à jour',
+  'trip.sharedWith': 'Partagé avec',
+  'trip.autoArrivalHint': "L'arrivée est confirmée automatiquement lorsque vous atteignez votre destination.",
+  'trip.imArrived': 'Je suis arrivé',
+  'trip.cancelTrip': 'Annuler le trajet',
+  'trip.keepTrip': 'Garder le trajet',
+  'trip.cancelMessage': 'Arrêter de partager ce trajet avec vos proches ?',
+  'trip.destination': 'Destination',
+  'trip.destinationPlaceholder': 'ex. : 12 Allen Avenue, Ikeja',
+  'trip.travelTime': 'Durée prévue du trajet',
+  'trip.minutesShort': '{count} min',
+  'trip.hoursShort': '{count} h',
+  'trip.whoCanFollow': 'Qui peut suivre ce trajet',
+  'trip.addConnectionFirst': "Ajoutez d'abord un proche pour partager des trajets.",
+  'trip.startTrip': 'Commencer le trajet',
+  'trip.enterDestination': 'Veuillez saisir une destination.',
+  'trip.chooseWatcher': 'Veuillez choisir au moins un proche pour suivre votre trajet.',
+  'trip.destinationNotFound': 'Destination introuvable',
+  'trip.destinationNotFoundMessage': 'Essayez une adresse ou un nom de lieu plus précis.',
+  'trip.startFailedActive': 'Impossible de commencer le trajet. Vous avez peut-être déjà un trajet en cours.',
+  'trip.startFailed': 'Impossible de commencer le trajet. Veuillez réessayer.',
+  'trip.confirmArrivalFailed': "Impossible de confirmer l'arrivée. Veuillez réessayer.",
+  'trip.arrived': 'Arrivé',
+  'trip.arrivedMessage': 'Vos proches ont été prévenus que vous êtes bien arrivé.',
+  'trip.cancelFailed': "Impossible d'annuler le trajet. Veuillez réessayer.",
+
+  'circles.title': 'Cercles et rôles',
+  'circles.description': 'Regroupez vos proches en cercles et choisissez ce que reçoit chaque cercle. Les proches qui ne sont dans aucun cercle reçoivent tout. Tant que vous êtes verrouillé après un SOS, tous vos proches voient votre position.',
+  'circles.loading': 'Chargement des cercles...',
+  'circles.newCircle': 'Nouveau cercle',
+  'circles.namePlaceholder': 'Nom du cercle, ex. Famille',
+  'circles.createCircle': 'Créer le cercle',
+  'circles.yourCircles': 'Vos cercles',
+  'circles.noCircles': "Vous n'avez encore aucun cercle. Tous vos proches reçoivent votre position et toutes les alertes.",
+  'circles.roles': 'Rôles',
+  'circles.members': 'Membres',
+  'circles.memberCount': '1 membre',
+  'circles.membersCount': '{count} membres',
+  'circles.noMembers': "Personne n'est encore dans ce cercle.",
+  'circles.allInCircle': 'Tous vos proches sont dans ce cercle.',
+  'circles.done': 'Terminé',
+  'circles.addConnections': 'Ajouter des proches',
+  'circles.formerConnection': 'Ancien proche',
+  'circles.setting.shareLocation': 'Partager la position',
+  'circles.setting.shareLocationSubtitle': 'Les membres voient votre position en direct',
+  'circles.setting.sosAlerts': 'Alertes SOS',
+  'circles.setting.sosAlertsSubtitle': 'Les membres sont alertés quand vous envoyez un SOS',
+  'circles.setting.checkInAlerts': 'Alertes de signalement',
+  'circles.setting.checkInAlertsSubtitle': 'Les membres reçoivent vos signalements et ceux que vous manquez',
+  'circles.setting.unlockApproval': 'Approbation du déverrouillage',
+  'circles.setting.unlockApprovalSubtitle': 'Les membres peuvent approuver le déverrouillage de votre compte',
+  'circles.preset.family': 'Famille',
+  'circles.preset.work': 'Travail',
+  'circles.preset.neighbors': 'Voisins',
+  'circles.role.guardian': 'Tuteur',
+  'circles.role.guardianSubtitle': 'Reçoit toujours les alertes et votre position, et peut approuver les déverrouillages',
+  'circles.role.member': 'Membre',
+  'circles.role.memberSubtitle': 'Suit les paramètres du cercle',
+  'circles.role.dependent': 'Personne à charge',
+  'circles.role.dependentSubtitle': 'Suit les paramètres du cercle, mais ne peut jamais approuver un déverrouillage',
+  'circles.nameTitle': 'Nom du cercle',
+  'circles.nameRequired': 'Veuillez saisir un nom pour le cercle.',
+  'circles.nameTaken': 'Vous avez déjà un cercle nommé {name}.',
+  'circles.createFailed': 'Impossible de créer le cercle. Veuillez réessayer.',
+  'circles.saveFailed': "Impossible d'enregistrer les paramètres du cercle. Veuillez réessayer.",
+  'circles.deleteTitle': 'Supprimer le cercle',
+  'circles.deleteMessage': 'Supprimer {name} ? Les proches qui ne sont dans aucun autre cercle recevront à nouveau toutes les alertes et votre position.',
+  'circles.deleteFailed': 'Impossible de supprimer le cercle. Veuillez réessayer.',
+  'circles.addFailed': "Impossible d'ajouter le proche. Veuillez réessayer.",
+  'circles.roleFailed': 'Impossible de changer le rôle. Veuillez réessayer.',
+  'circles.removeFailed': 'Impossible de retirer le proche. Veuillez réessayer.',
+  'circles.roleIn': 'Rôle dans {circle}',
+  'circles.makeRole': 'Nommer {role}',
+  'circles.removeFrom': 'Retirer de {circle}',
+
+  'accountLock.event.locked': 'Compte verrouillé',
+  'accountLock.event.unlockApproved': 'Déverrouillage approuvé',
+  'accountLock.event.unlocked': 'Compte déverrouillé',
+  'accountLock.event.pinFailed': 'PIN incorrect saisi',
+  'accountLock.event.pinSet': 'PIN défini',
+  'accountLock.event.pinRemoved': 'PIN supprimé',
+  'accountLock.method.sos': 'après un SOS',
+  'accountLock.method.pin': 'avec le PIN',
+  'accountLock.method.quorum': 'par vos proches',
+  'accountLock.method.admin': 'par le support',
+  'accountLock.byActor': 'par {name}',
+  'accountLock.description': 'Après un SOS, votre compte est verrouillé. Choisissez comment il peut être déverrouillé.',
+  'accountLock.unlockPin': 'PIN de déverrouillage',
+  'accountLock.pinSet': 'PIN défini',
+  'accountLock.noPin': 'Aucun PIN défini',
+  'accountLock.pinDescription': "Vous permet de déverrouiller votre compte depuis l'écran de verrouillage. Gardez-le secret.",
+  'accountLock.newPinPlaceholder': 'Nouveau PIN (4 à 8 chiffres)',
+  'accountLock.confirmPinPlaceholder': 'Confirmer le PIN',
+  'accountLock.savePin': 'Enregistrer le PIN',
+  'accountLock.remove': 'Supprimer',
+  'accountLock.changePin': 'Changer le PIN',
+  'accountLock.setPin': 'Définir un PIN',
+  'accountLock.silentSos': 'SOS silencieux',
+  'accountLock.duressPinSet': 'PIN de contrainte défini',
+  'accountLock.noDuressPin': 'Aucun PIN de contrainte défini',
+  'accountLock.duressDescription': "Saisir votre PIN de contrainte sur l'écran de verrouillage déverrouille l'application normalement, mais alerte discrètement vos proches et continue de partager votre position exacte.",
+  'accountLock.holdDescription': "Vous pouvez aussi maintenir le bouton d'alerte d'urgence de l'écran d'accueil pendant 3 secondes. Rien ne change à l'écran. Seul un proche peut mettre fin à un SOS silencieux.",
+  'accountLock.setPinFirst': "Définissez d'abord un PIN de déverrouillage pour ajouter un PIN de contrainte.",
+  'accountLock.duressPinPlaceholder': 'PIN de contrainte (4 à 8 chiffres)',
+  'accountLock.confirmDuressPinPlaceholder': 'Confirmer le PIN de contrainte',
+  'accountLock.changeDuressPin': 'Changer le PIN de contrainte',
+  'accountLock.setDuressPin': 'Définir un PIN de contrainte',
+  'accountLock.approvals': 'Approbations des proches',
+  'accountLock.approvalsDescription': 'Nombre de proches qui doivent approuver avant que votre compte soit déverrouillé. Limité au nombre de proches que vous avez au début du verrouillage.',
+  'accountLock.history': 'Historique de verrouillage',
+  'accountLock.noHistory': 'Aucune activité de verrouillage pour le moment.',
+  'accountLock.invalidPin': 'PIN invalide',
+  'accountLock.invalidPinMessage': 'Votre PIN doit comporter 4 à 8 chiffres.',
+  'accountLock.invalidDuressPinMessage': 'Votre PIN de contrainte doit comporter 4 à 8 chiffres.',
+  'accountLock.pinMismatch': 'Les PIN ne correspondent pas',
+  'accountLock.pinMismatchMessage': 'Veuillez saisir deux fois le même PIN.',
+  'accountLock.savePinFailed': "Impossible d'enregistrer votre PIN. Veuillez réessayer.",
+  'accountLock.removePinTitle': 'Supprimer le PIN',
+  'accountLock.removePinMessage': 'Sans PIN, seuls vos proches peuvent déverrouiller votre compte après un SOS. Votre PIN de contrainte sera aussi supprimé.',
+  'accountLock.removePinFailed': 'Impossible de supprimer votre PIN. Veuillez réessayer.',
+  'accountLock.saveDuressPinFailed': "Impossible d'enregistrer votre PIN de contrainte. Veuillez réessayer.",
+  'accountLock.removeDuressPinTitle': 'Supprimer le PIN de contrainte',
+  'accountLock.removeDuressPinMessage': "Vous pouvez toujours envoyer un SOS silencieux en maintenant le bouton d'alerte d'urgence.",
+  'accountLock.removeDuressPinFailed': 'Impossible de supprimer votre PIN de contrainte. Veuillez réessayer.',
+  'accountLock.saveQuorumFailed': "Impossible d'enregistrer les approbations de déverrouillage. Veuillez réessayer.",
+
+  'notifications.title': 'Notifications',
+  'notifications.markAllRead': 'Tout marquer comme lu',
+  'notifications.emptyTitle': 'Aucune notification',
+  'notifications.emptyText': 'Vous êtes à jour !',
+  'notifications.alertLevel.danger': 'DANGER',
+  'notifications.alertLevel.warning': 'AVERTISSEMENT',
+  'notifications.alertLevel.alert': 'ALERTE',
+  'notifications.markAllReadFailed': 'Impossible de marquer toutes les notifications comme lues.',
+  'notifications.locationPermissionTitle': 'Autorisation de localisation requise',
+  'notifications.locationPermissionMessage': 'Pour mettre à jour votre position, autorisez la localisation dans les Réglages.',
+  'notifications.permissionTitle': 'Autorisation requise',
+  'notifications.permissionMessage': 'La localisation doit être autorisée pour mettre à jour votre position.',
+  'notifications.locationUpdatedTitle': 'Position mise à jour',
+  'notifications.locationUpdatedMessage': 'Votre position a bien été mise à jour.',
+  'notifications.locationErrorTitle': 'Erreur de localisation',
+  'notifications.locationErrorMessage': "Impossible d'obtenir votre position actuelle. Vérifiez vos réglages de localisation.",
+  'notifications.updateLocationFailed': 'Impossible de mettre à jour la position. Veuillez réessayer.',
+  'notifications.emergencyLocation': "Position d'urgence",
+  'notifications.placeAlert': 'Alerte de lieu',
+
+  'reportIncident.title': 'Signaler un incident',
+  'reportIncident.subtitle': 'Aidez à protéger votre quartier',
+  'reportIncident.type': "Type d'incident",
+  'reportIncident.titleLabel': 'Titre',
+  'reportIncident.titlePlaceholder': "Titre court de l'incident",
+  'reportIncident.descriptionLabel': 'Description',
+  'reportIncident.descriptionPlaceholder': "Décrivez ce qui s'est passé, quand, et tout détail utile...",
+  'reportIncident.media': 'Photos et vidéos',
+  'reportIncident.camera': 'Appareil photo',
+  'reportIncident.library': 'Galerie',
+  'reportIncident.mediaHint': "Les données de localisation sont retirées des photos et vidéos avant l'envoi. Vidéos de {seconds} secondes maximum.",
+  'reportIncident.location': 'Lieu',
+  'reportIncident.gettingLocation': 'Localisation en cours...',
+  'reportIncident.retry': 'Réessayer',
+  'reportIncident.noLocation': 'Aucune position disponible',
+  'reportIncident.visibilityHint': 'Seuls les utilisateurs à proximité (dans un rayon de {distance}) verront ce signalement',
+  'reportIncident.when': 'Quand est-ce arrivé ?',
+  'reportIncident.happeningNow': 'En cours',
+  'reportIncident.happenedEarlier': 'Plus tôt',
+  'reportIncident.anonymous': 'Signalement anonyme',
+  'reportIncident.anonymousHint': 'Masquez votre nom au public (conservé en interne pour la sécurité)',
+  'reportIncident.info': 'Votre signalement aide à protéger la communauté. Les faux signalements peuvent entraîner la suspension du compte.',
+  'reportIncident.uploading': 'Envoi...',
+  'reportIncident.submitting': 'Envoi en cours...',
+  'reportIncident.submit': 'Envoyer le signalement',
+  'reportIncident.mediaStatus.preparing': 'Préparation...',
+  'reportIncident.mediaStatus.done': 'Envoyé',
+  'reportIncident.mediaStatus.queued': 'En attente',
+  'reportIncident.mediaStatus.failed': 'Échec',
+  'reportIncident.mediaStatus.unsupportedFormat': 'Format non pris en charge',
+  'reportIncident.mediaStatus.tooLong': 'Trop long',
+  'reportIncident.mediaStatus.limitReached': 'Limite atteinte',
+  'reportIncident.thisLocation': 'ce lieu',
+  'reportIncident.autoTitle.robbery': 'Vol à main armée signalé',
+  'reportIncident.autoTitle.kidnapping': 'Activité suspecte signalée',
+  'reportIncident.autoTitle.accident': 'Accident de la route signalé',
+  'reportIncident.autoTitle.fire': 'Incendie signalé',
+  'reportIncident.autoTitle.protest': 'Rassemblement de protestation signalé',
+  'reportIncident.autoTitle.assault': 'Agression signalée',
+  'reportIncident.autoTitle.theft': 'Vol signalé',
+  'reportIncident.autoTitle.other': 'Incident signalé',
+  'reportIncident.autoDescription.robbery': 'Un vol à main armée a été signalé.\n\nLieu: {address}\n\nSoyez prudent et évitez le secteur si possible. Les autorités ont été prévenues.',
+  'reportIncident.autoDescription.kidnapping': 'Une activité suspecte liée à un enlèvement a été signalée.\n\nLieu: {address}\n\nRestez vigilant et signalez immédiatement tout comportement suspect aux autorités.',
+  'reportIncident.autoDescription.accident': 'Un accident de la route a été signalé.\n\nLieu: {address}\n\nLes secours interviennent. Attendez-vous à des retards et empruntez un autre itinéraire si possible.',
+  'reportIncident.autoDescription.fire': 'Un incendie a été signalé.\n\nLieu: {address}\n\nLes pompiers interviennent. Évitez le secteur et suivez les consignes des secours.',
+  'reportIncident.autoDescription.protest': 'Un rassemblement de protestation a été signalé.\n\nLieu: {address}\n\nAttendez-vous à des ralentissements et soyez prudent si vous êtes dans le secteur.',
+  'reportIncident.autoDescription.assault': 'Une agression a été signalée.\n\nLieu: {address}\n\nÉvitez le secteur et transmettez toute information utile aux autorités.',
+  'reportIncident.autoDescription.theft': 'Un vol a été signalé.\n\nLieu: {address}\n\nSurveillez vos affaires et signalez toute activité suspecte.',
+  'reportIncident.autoDescription.other': 'Un incident a été signalé.\n\nLieu: {address}\n\nSoyez prudent dans le secteur.',
+  'reportIncident.locationPermissionDenied': "Autorisation de localisation refusée. Activez l'accès à la localisation dans les Réglages.",
+  'reportIncident.locationUnavailable': "Impossible d'obtenir votre position. Veuillez réessayer.",
+  'reportIncident.locationFailed': 'Échec de la localisation. Veuillez réessayer.',
+  'reportIncident.limitReached': 'Limite atteinte',
+  'reportIncident.limitReachedMessage': "Vous pouvez joindre jusqu'à {count} photos ou vidéos.",
+  'reportIncident.permissionTitle': 'Autorisation requise',
+  'reportIncident.cameraPermission': "L'accès à l'appareil photo est nécessaire pour photographier ou filmer l'incident.",
+  'reportIncident.libraryPermission': "L'accès à la galerie est nécessaire pour joindre des photos ou vidéos.",
+  'reportIncident.videoTooLong': 'Vidéo trop longue',
+  'reportIncident.videoTooLongMessage': 'Les vidéos peuvent durer au maximum {seconds} secondes.',
+  'reportIncident.attachFailed': 'Impossible de joindre le média. Veuillez réessayer.',
+  'reportIncident.requiredFields': 'Veuillez remplir tous les champs obligatoires',
+  'reportIncident.locationRequired': 'La position est obligatoire. Attendez son chargement ou actualisez.',
+  'reportIncident.invalidCoordinates': 'Coordonnées invalides. Veuillez actualiser votre position.',
+  'reportIncident.invalidLatitude': 'Latitude invalide. Veuillez actualiser votre position.',
+  'reportIncident.invalidLongitude': 'Longitude invalide. Veuillez actualiser votre position.',
+  'reportIncident.submitted': 'Incident signalé avec succès.',
+  'reportIncident.mediaQueued': "{count} photo(s)/vidéo(s) finiront d'être envoyées quand votre connexion s'améliorera.",
+  'reportIncident.mediaFailed': "{count} photo(s)/vidéo(s) n'ont pas pu être jointes.",
+  'reportIncident.submitFailed': "Impossible de signaler l'incident. Veuillez réessayer.",
+
+  'home.visibleToConnections': 'Visible par vos proches',
+  'home.hiddenFromConnections': 'Masqué pour vos proches',
+  'home.connectionCount': '1 proche',
+  'home.connectionsCount': '{count} proches',
+  'home.location': 'Position',
+  'home.updating': 'Mise à jour...',
+  'home.sharing': 'Partagée',
+  'home.hidden': 'Masquée',
+  'home.sharingOffTitle': 'Le partage de position est désactivé',
+  'home.sharingOffMessage': "Activez le partage de position pour que vos proches voient où vous êtes et puissent réagir en cas d'urgence.",
+  'home.turnOn': 'Activer',
+  'home.emergency': 'Urgence',
+  'home.emergencyAlert': "Alerte d'urgence",
+  'home.alertConnection': 'Alerter 1 proche',
+  'home.alertConnections': 'Alerter {count} proches',
+  'home.quickActions': 'Actions rapides',
+  'home.reportIncidentSubtitle': 'Signaler un problème de sécurité',
+  'home.checkInSubtitle': 'Prévenez vos proches que vous allez bien',
+  'home.emergencySent': 'Urgence envoyée',
+  'home.emergencyQueued': 'Urgence en attente',
+  'home.emergencySentMessage': "Votre alerte d'urgence a bien été envoyée à vos proches.",
+  'home.emergencyQueuedMessage': "Certains proches n'ont pas encore été joints. FamGuard réessaie jusqu'à ce que votre alerte soit remise.",
+  'home.continue': 'Continuer',
+  'home.recipient.notified': 'Prévenu',
+  'home.recipient.appOff': 'Notifications désactivées',
+  'home.recipient.retrying': 'Nouvel essai...',
+  'home.recipient.smsReady': 'SMS prêt',
+  'home.recipient.smsUnavailable': 'SMS indisponible',
+  'home.permissionTitle': 'Autorisation requise',
+  'home.locationPermissionMessage': 'La localisation doit être autorisée pour partager votre position avec vos proches.',
+  'home.locationErrorTitle': 'Erreur de localisation',
+  'home.locationErrorMessage': "Impossible d'obtenir votre position. Vérifiez vos réglages de localisation.",
+  'home.toggleSharingFailed': 'Impossible de modifier le partage de position. Veuillez réessayer.',
+  'home.noConnections': 'Aucun proche',
+  'home.noConnectionsMessage': "Vous devez ajouter des proches avant d'envoyer une alerte d'urgence.",
+  'home.sendAlertTitle': "Envoyer une alerte d'urgence ?",
+  'home.sendAlertMessageOne': "Une alerte d'urgence sera envoyée à votre proche.",
+  'home.sendAlertMessage': "Une alerte d'urgence sera envoyée à vos {count} proches.",
+  'home.sendAlert': "Envoyer l'alerte d'urgence",
+  'home.alertWithoutLocation': "Impossible d'obtenir votre position. L'alerte d'urgence sera envoyée sans position.",
+  'home.sendAlertFailed': "Impossible d'envoyer les alertes d'urgence. Veuillez réessayer.",
+
+  'map.title': 'Carte',
+  'map.timelineTitle': 'Historique des positions',
+  'map.locationsCount': '{count} positions',
+  'map.location': 'Position',
+  'map.tripDestination': 'Destination du trajet',
+  'map.today': "Aujourd'hui",
+  'map.yesterday': 'Hier',
+  'map.secondsShort': '{count} s',
+  'map.stoppedFor': 'Arrêt de {duration}',
+  'map.trackingOffFor': 'Suivi coupé {duration}',
+  'map.moving': 'En mouvement · {speed}',
+  'map.playbackSummary': '{stops} arrêts · {distance} en {duration}',
+  'map.playbackGaps': '{count} interruptions',
+  'map.tapToSetCenter': 'Touchez la carte pour placer le centre du lieu',
+  'map.tapToOutline': 'Touchez la carte pour délimiter le lieu ({count} points)',
+  'map.undo': 'Annuler',
+  'map.done': 'Terminé',
+  'map.tripArrived': 'Arrivé en sécurité',
+  'map.tripCancelled': 'Trajet annulé',
+  'map.tripOverdueNoSignal': 'En retard : la position ne remonte plus',
+  'map.tripOverdueLate': "En retard : heure d'arrivée dépassée",
+  'map.updatedAgo': 'Mis à jour {time}',
+  'map.offline': 'Hors ligne',
+  'map.failedToLoad': 'Impossible de charger la carte',
+  'map.checkPlayServices': 'Vérifiez les services Google Play et votre connexion internet',
+  'map.checkInternet': 'Vérifiez votre connexion internet',
+  'map.locationNotAvailable': 'Position indisponible',
+  'map.locationNotAvailableMessage': "La position de {name} n'est pas disponible. Le partage de position est peut-être désactivé.",
+  'map.user': 'Utilisateur',
+  'map.loadingTimeline': "Chargement de l'historique...",
+  'map.noHistory': 'Aucun historique de position',
+  'map.noHistoryToday': "Aucune donnée de position aujourd'hui",
+  'map.noHistoryYesterday': 'Aucune donnée de position hier',
+  'map.noHistoryOn': 'Aucune donnée de position le {date}',
+  'map.movement': 'Déplacement',
+  'map.unknownLocation': 'Lieu inconnu',
+  'map.places': 'Lieux',
+  'map.placesSubtitle': 'Soyez prévenu quand vos proches arrivent à ces lieux ou les quittent.',
+  'map.noPlaces': 'Aucun lieu pour le moment. Ajoutez domicile, école ou travail.',
+  'map.placeRadius': '{category} · rayon de {radius}',
+  'map.placeArea': '{category} · zone à {count} points',
+  'map.addPlace': 'Ajouter un lieu',
+  'map.editPlace': 'Modifier le lieu',
+  'map.newPlace': 'Nouveau lieu',
+  'map.name': 'Nom',
+  'map.namePlaceholder': 'ex. Maison, École, Bureau',
+  'map.type': 'Type',
+  'map.shape': 'Forme',
+  'map.circle': 'Cercle',
+  'map.customArea': 'Zone personnalisée',
+  'map.radius': 'Rayon',
+  'map.moveCenter': 'Déplacer le centre sur la carte',
+  'map.setCenter': 'Placer le centre sur la carte',
+  'map.redrawArea': 'Redessiner la zone sur la carte',
+  'map.drawArea': 'Dessiner la zone sur la carte',
+  'map.alertArrives': "Alerter quand quelqu'un arrive",
+  'map.alertLeaves': "Alerter quand quelqu'un part",
+  'map.savePlace': 'Enregistrer le lieu',
+  'map.placeCategory.home': 'Maison',
+  'map.placeCategory.school': 'École',
+  'map.placeCategory.work': 'Travail',
+  'map.placeCategory.other': 'Autre',
+  'map.notEnoughPoints': 'Pas assez de points',
+  'map.notEnoughPointsMessage': 'Touchez au moins 3 points sur la carte pour délimiter le lieu.',
+  'map.nameRequired': 'Nom requis',
+  'map.nameRequiredMessage': 'Veuillez saisir un nom pour ce lieu.',
+  'map.locationRequired': 'Position requise',
+  'map.locationRequiredMessage': 'Veuillez placer le lieu sur la carte.',
+  'map.areaRequired': 'Zone requise',
+  'map.areaRequiredMessage': 'Veuillez délimiter le lieu avec au moins 3 points sur la carte.',
+  'map.savePlaceFailed': "Impossible d'enregistrer le lieu. Veuillez réessayer.",
+  'map.deletePlace': 'Supprimer le lieu',
+  'map.deletePlaceMessage': "Ne plus recevoir d'alertes d'arrivée et de départ pour {name} ?",
+  'map.deletePlaceFailed': 'Impossible de supprimer le lieu. Veuillez réessayer.',
+  'map.arrived': 'Arrivé',
+  'map.left': 'Parti',
+
+  'connections.locationPermissionTitle': 'Autorisation de localisation requise',
+  'connections.locationPermissionMessage': "L'autorisation de localisation est nécessaire pour partager votre position avec vos proches.",
+  'connections.invalidInput': 'Saisie invalide',
+  'connections.enterPhone': 'Veuillez saisir un numéro de téléphone.',
+  'connections.invalidPhone': 'Numéro invalide',
+  'connections.phoneLength': 'Veuillez saisir un numéro de téléphone à 11 chiffres.',
+  'connections.cannotInviteSelf': 'Vous ne pouvez pas vous inviter vous-même.',
+  'connections.checkPhoneFailed': 'Impossible de vérifier le numéro de téléphone. Veuillez réessayer.',
+  'connections.notOnAppTitle': 'Pas encore sur FamGuards',
+  'connections.notOnAppMessage': "Ce numéro n'est pas inscrit sur l'application. Lui envoyer un lien d'invitation ? Il l'amène vers l'application et vous relie dès son inscription.",
+  'connections.sendInviteLink': "Envoyer le lien d'invitation",
+  'connections.createInviteFailed': "Impossible de créer l'invitation. Veuillez réessayer.",
+  'connections.alreadyConnected': 'Déjà reliés',
+  'connections.alreadyConnectedMessage': 'Vous êtes déjà relié à cet utilisateur.',
+  'connections.alreadyConnectedTo': 'Vous êtes déjà relié à {name}.',
+  'connections.invitationSent': 'Invitation envoyée',
+  'connections.invitationAlreadySent': 'Vous avez déjà envoyé une invitation à ce numéro.',
+  'connections.invitationSentTo': 'Invitation envoyée au {phone}. La personne recevra une notification.',
+  'connections.sendInvitationFailed': "Impossible d'envoyer l'invitation. Veuillez réessayer.",
+  'connections.acceptFailed': "Impossible d'accepter l'invitation. Veuillez réessayer.",
+  'connections.rejectFailed': "Impossible de refuser l'invitation. Veuillez réessayer.",
+  'connections.connected': 'Reliés !',
+  'connections.nowConnected': 'Vous êtes maintenant reliés.',
+  'connections.nowConnectedTo': 'Vous êtes maintenant relié à {name}.',
+  'connections.cancelInviteFailed': "Impossible d'annuler l'invitation. Veuillez réessayer.",
+  'connections.inviteCancelled': 'Invitation annulée',
+  'connections.inviteCancelledMessage': 'Cette invitation ne peut plus être utilisée.',
+  'connections.loadInviteFailed': "Impossible de charger l'invitation. Veuillez réessayer.",
+  'connections.inviteTitle': 'Invitation à se relier',
+  'connections.invitePrompt': 'Se relier à {name} ? Vous pourrez voir la position et les alertes SOS de chacun.',
+  'connections.invitePromptUnknown': 'Se relier à cette personne ? Vous pourrez voir la position et les alertes SOS de chacun.',
+  'connections.notNow': 'Plus tard',
+  'connections.connect': 'Se relier',
+  'connections.invalidInvite': 'Invitation invalide',
+  'connections.ownInvite': 'Vous ne pouvez pas utiliser votre propre invitation.',
+  'connections.inviteExpired': 'Invitation expirée',
+  'connections.inviteExpiredMessage': 'Cette invitation a expiré ou a déjà été utilisée. Demandez-en une nouvelle.',
+  'connections.tooManyAttempts': 'Trop de tentatives',
+  'connections.tryLater': 'Veuillez réessayer plus tard.',
+  'connections.inviteNotValid': "Cette invitation n'est pas valide.",
+  'connections.couldNotConnect': 'Connexion impossible',
+  'connections.connectFailed': 'Impossible de se relier. Veuillez réessayer.',
+  'connections.pasteInviteMessage': "Collez le lien d'invitation que vous avez reçu.",
+  'connections.approveUnlock': 'Approuver le déverrouillage',
+  'connections.approveUnlockMessage': "Approuver le déverrouillage du compte de {name} ? Ne le faites que si vous savez que la personne est en sécurité. Son compte peut nécessiter l'accord de plusieurs proches.",
+  'connections.approve': 'Approuver',
+  'connections.approveUnlockFailed': "Impossible d'approuver le déverrouillage. Veuillez réessayer.",
+  'connections.unlocked': 'Déverrouillé',
+  'connections.unlockedMessage': "{name} a été déverrouillé et peut de nouveau accéder à l'application.",
+  'connections.approvalRecorded': 'Accord enregistré',
+  'connections.approvalRecordedMessage': '{approvals} proches sur {required} ont donné leur accord. {name} sera déverrouillé quand assez de proches auront approuvé.',
+  'connections.updateSharingFailed': 'Impossible de mettre à jour le partage de position. Veuillez réessayer.',
+  'connections.shareMyLocationTitle': 'Partager ma position',
+  'connections.shareDurationPrompt': 'Pendant combien de temps {name} peut-il voir votre position ?',
+  'connections.shareAlways': 'Toujours',
+  'connections.shareOneHour': 'Pendant 1 heure',
+  'connections.shareEightHours': 'Pendant 8 heures',
+  'connections.shareUntilArrive': "Jusqu'à mon arrivée",
+  'connections.shareWeekdays': 'En semaine 7 h-9 h',
+  'connections.markSafe': 'Marquer en sécurité',
+  'connections.markSafeMessage': 'Mettre fin au SOS silencieux de {name} ? Ne le faites que si vous avez confirmé en personne ou par un moyen de confiance que la personne est en sécurité.',
+  'connections.endSilentSosFailed': 'Impossible de mettre fin au SOS silencieux. Veuillez réessayer.',
+  'connections.markedSafe': 'Marqué en sécurité',
+  'connections.markedSafeMessage': 'Le SOS silencieux de {name} est terminé.',
+  'connections.online': 'En ligne',
+  'connections.offline': 'Hors ligne',
+  'connections.sharingDisabledTitle': 'Partage de position désactivé',
+  'connections.sharingDisabledMessage': '{name} ne pourra plus voir votre position en direct.',
+  'connections.removeFailed': 'Impossible de retirer ce proche. Veuillez réessayer.',
+  'connections.quickActions': 'Actions rapides',
+  'connections.inviteByPhone': 'Inviter par téléphone',
+  'connections.sendInvitationSubtitle': 'Envoyer une invitation',
+  'connections.generating': 'Génération...',
+  'connections.inviteLink': "Lien d'invitation",
+  'connections.qrOrLink': 'QR code ou lien',
+  'connections.openInvite': 'Ouvrir une invitation',
+  'connections.connectNow': 'Se relier maintenant',
+  'connections.findContacts': 'Trouver des contacts sur FamGuards',
+  'connections.pendingInvitations': 'Invitations en attente',
+  'connections.wantsToConnect': 'Souhaite se relier à vous',
+  'connections.accept': 'Accepter',
+  'connections.reject': 'Refuser',
+  'connections.loading': 'Chargement des proches...',
+  'connections.emptyTitle': 'Pas encore de proches',
+  'connections.emptyText': "Commencez par inviter quelqu'un avec les actions rapides ci-dessus",
+  'connections.yourConnections': 'Vos proches',
+  'connections.unknownUser': 'Utilisateur inconnu',
+  'connections.accountLocked': "Compte verrouillé - besoin d'aide",
+  'connections.underDuress': "Peut-être sous la contrainte - n'appelez pas, n'écrivez pas",
+  'connections.sharingDisabled': 'Partage de position désactivé',
+  'connections.sharingWithYou': 'Partage avec vous : {status}',
+  'connections.viewOnMap': 'Voir sur la carte',
+  'connections.chooseAction': 'Choisissez une action',
+  'connections.viewSos': 'Voir le SOS',
+  'connections.markSafeEndSos': 'Marquer en sécurité (fin du SOS silencieux)',
+  'connections.removeConnection': 'Retirer ce proche',
+  'connections.moreOptions': "Plus d'options",
+  'connections.shareMyLocation': 'Partager ma position',
+  'connections.pausedNow': ' (en pause)',
+  'connections.change': 'Modifier',
+  'connections.phonePlaceholder': 'Numéro de téléphone à 11 chiffres',
+  'connections.sendInvitation': "Envoyer l'invitation",
+  'connections.invitationExpires': "L'invitation expire dans 7 jours",
+  'connections.yourInvite': 'Votre invitation',
+  'connections.inviteHint': "Faites scanner ce code ou partagez le lien. Il ne fonctionne qu'une fois et expire {time}. Si la personne n'a pas encore FamGuards, le lien l'amène vers l'application et l'invitation attend son inscription.",
+  'connections.shareMessage': "Relie-toi à moi sur FamGuards pour qu'on puisse veiller l'un sur l'autre : {link}",
+  'connections.shareLink': 'Partager le lien',
+  'connections.copied': 'Copié !',
+  'connections.linkCopied': "Lien d'invitation copié dans le presse-papiers.",
+  'connections.copyLink': 'Copier le lien',
+  'connections.cancelInvite': "Annuler l'invitation",
+  'connections.pasteInvitePlaceholder': "Collez le lien d'invitation",
+  'connections.openInviteHint': "Collez le lien d'invitation partagé par l'autre personne, ou scannez son QR code avec votre appareil photo",
+
+  'locationSharing.always': 'Toujours',
+  'locationSharing.off': 'Désactivé',
+  'locationSharing.timeLeft': '{time} restantes',
+  'locationSharing.ending': 'Fin imminente...',
+  'locationSharing.untilArrival': "Jusqu'à l'arrivée",
+  'locationSharing.everyDay': 'Tous les jours',
+  'locationSharing.weekdays': 'En semaine',
+  'locationSharing.weekends': 'Le week-end',
+  'locationSharing.day1': 'lun',
+  'locationSharing.day2': 'mar',
+  'locationSharing.day3': 'mer',
+  'locationSharing.day4': 'jeu',
+  'locationSharing.day5': 'ven',
+  'locationSharing.day6': 'sam',
+  'locationSharing.day7': 'dim',
+
+  'batterySaving.description': "Optimisez l'application pour économiser la batterie. Certaines fonctions peuvent être limitées.",
+  'batterySaving.activeProfile': 'Profil actif : {profile}',
+  'batterySaving.batteryLevel': '{reason} · Batterie {level} %',
+  'batterySaving.autoNote': "Le suivi se resserre automatiquement quand la batterie passe sous {threshold} % et n'est pas en charge.",
+  'batterySaving.enable': "Activer l'économie d'énergie",
+  'batterySaving.enableSubtitle': "Réduire l'activité en arrière-plan",
+  'batterySaving.reduceLocation': 'Réduire les mises à jour de position',
+  'batterySaving.reduceLocationSubtitle': 'Mettre à jour la position moins souvent',
+  'batterySaving.reduceSync': 'Réduire la synchro en arrière-plan',
+  'batterySaving.reduceSyncSubtitle': 'Synchroniser les données moins souvent',
+  'batterySaving.saveFailed': "Impossible d'enregistrer les réglages d'économie d'énergie. Veuillez réessayer.",
+  'batterySaving.profile.normal': 'Précision maximale',
+  'batterySaving.profile.normalDescription': 'GPS précis, position partagée toutes les 30 minutes en arrière-plan.',
+  'batterySaving.profile.balanced': 'Équilibré',
+  'batterySaving.profile.balancedDescription': 'Précision GPS légèrement réduite et moins de vérifications au premier plan.',
+  'batterySaving.profile.saver': 'Économie de batterie',
+  'batterySaving.profile.saverDescription': 'Position approximative, mise à jour environ une fois par heure.',
+  'batterySaving.profile.critical': 'Batterie critique',
+  'batterySaving.profile.criticalDescription': 'Suivi minimal, mis à jour environ toutes les 2 heures pour préserver votre téléphone.',
+  'batterySaving.reason.default': "L'économie d'énergie est désactivée",
+  'batterySaving.reason.settings': "D'après vos réglages d'économie d'énergie",
+  'batterySaving.reason.lowBattery': 'Batterie sous {threshold} %',
+  'batterySaving.reason.lowPowerMode': "Le mode économie d'énergie de l'appareil est activé",
+
+  'locationAccuracy.description': 'Choisissez la précision de la position partagée avec vos proches.',
+  'locationAccuracy.exact': 'Position GPS exacte',
+  'locationAccuracy.exactSubtitle': 'Partager votre position précise avec les coordonnées exactes',
+  'locationAccuracy.approximate': 'Position approximative',
+  'locationAccuracy.approximateSubtitle': 'Partager une zone générale (environ 2 km) et seulement votre ville, pour votre vie privée',
+  'locationAccuracy.emergencyInfo': 'Pendant un SOS ou une urgence, votre position exacte est toujours partagée pour que vos proches puissent vous trouver.',
+  'locationAccuracy.emergencyActive': "Le suivi d'urgence est actif. Votre position exacte est partagée jusqu'à sa fin.",
+  'locationAccuracy.saveFailed': "Impossible d'enregistrer la précision de position. Veuillez réessayer.",
+
+  'updateFrequency.option15': '15 minutes',
+  'updateFrequency.option15Description': 'Mettre à jour la position toutes les 15 minutes',
+  'updateFrequency.option30': '30 minutes',
+  'updateFrequency.option30Description': 'Mettre à jour la position toutes les 30 minutes',
+  'updateFrequency.option60': '1 heure',
+  'updateFrequency.option60Description': 'Mettre à jour la position toutes les heures (recommandé)',
+  'updateFrequency.option120': '2 heures',
+  'updateFrequency.option120Description': 'Mettre à jour la position toutes les 2 heures',
+  'updateFrequency.option180': '3 heures',
+  'updateFrequency.option180Description': 'Mettre à jour la position toutes les 3 heures',
+  'updateFrequency.description': 'Choisissez la fréquence de mise à jour et de partage de votre position avec vos proches. Des mises à jour plus fréquentes sont plus précises mais consomment plus de batterie.',
+  'updateFrequency.current': 'Actuel',
+  'updateFrequency.info': 'Votre position sera mise à jour automatiquement à la fréquence choisie lorsque le partage de position est activé. Vous pouvez modifier ce réglage à tout moment.',
+  'updateFrequency.loadFailed': 'Impossible de charger les réglages. Les valeurs par défaut sont utilisées.',
+  'updateFrequency.saveFailed': "Impossible d'enregistrer la fréquence de mise à jour. Veuillez réessayer.",
+
+  'sleepMode.description': 'Le mode sommeil réduit les notifications et les mises à jour de position pendant vos heures de sommeil pour ne pas vous déranger. Les alertes SOS et les urgences de check-in passent toujours.',
+  'sleepMode.enable': 'Activer le mode sommeil',
+  'sleepMode.enableSubtitle': 'Réduire les notifications pendant les heures de sommeil',
+  'sleepMode.hours': 'Heures de sommeil',
+  'sleepMode.startTime': 'Heure de début',
+  'sleepMode.endTime': 'Heure de fin',
+  'sleepMode.timePickerNote': "Un sélecteur d'heure pourra être ajouté ici",
+  'sleepMode.saveFailed': "Impossible d'enregistrer le mode sommeil. Veuillez réessayer.",
+
+  'editProfile.name': 'Nom',
+  'editProfile.namePlaceholder': 'Saisissez votre nom',
+  'editProfile.email': 'E-mail',
+  'editProfile.emailPlaceholder': 'Saisissez votre e-mail',
+  'editProfile.phone': 'Téléphone',
+  'editProfile.phonePlaceholder': 'Saisissez votre numéro de téléphone',
+  'editProfile.save': 'Enregistrer',
+  'editProfile.nameRequired': 'Le nom est obligatoire',
+  'editProfile.saved': 'Profil mis à jour',
+  'editProfile.saveFailed': 'Impossible de mettre à jour le profil. Veuillez réessayer.',
+
+  'emergencyNotes.description': "Ajoutez des informations médicales importantes, allergies, médicaments ou contacts d'urgence que vos proches doivent voir en cas d'urgence.",
+  'emergencyNotes.placeholder': "Saisissez vos notes d'urgence...",
+  'emergencyNotes.save': 'Enregistrer les notes',
+  'emergencyNotes.saved': "Notes d'urgence mises à jour",
+  'emergencyNotes.saveFailed': "Impossible de mettre à jour les notes d'urgence. Veuillez réessayer.",
+
+  'locked.title': 'Application verrouillée',
+  'locked.secured': 'SÉCURISÉE',
+  'locked.restricted': "L'accès à l'application est temporairement restreint.",
+  'locked.messageWithPin': "Saisissez votre code PIN, ou demandez à vos proches de confiance d'approuver le déverrouillage de votre compte.",
+  'locked.messageNoPin': "Contactez vos proches de confiance pour qu'ils approuvent le déverrouillage de votre compte.",
+  'locked.pinPlaceholder': 'Saisissez votre code PIN',
+  'locked.unlock': 'Déverrouiller',
+  'locked.pinCheckFailed': 'Impossible de vérifier votre code PIN. Veuillez réessayer.',
+  'locked.incorrectPinOne': 'Code PIN incorrect. Il reste 1 tentative.',
+  'locked.incorrectPin': 'Code PIN incorrect. Il reste {count} tentatives.',
+  'locked.tooManyAttempts': "Trop de tentatives incorrectes. Demandez à vos proches d'approuver le déverrouillage.",
+  'locked.noApprovers': 'Aucun de vos proches ne peut approuver le déverrouillage. Utilisez votre code PIN.',
+  'locked.approvalsOne': '{approved} proche sur 1 a approuvé le déverrouillage',
+  'locked.approvals': '{approved} proches sur {required} ont approuvé le déverrouillage',
+  'locked.exactLocation': "Votre position exacte est partagée avec vos proches jusqu'au déverrouillage de votre compte.",
+  'locked.checkingStatus': 'Vérification du verrouillage...',
+
+  'update.title': 'Mise à jour requise',
+  'update.subtitle': 'Une nouvelle version de FamGuard est disponible',
+  'update.message': "Veuillez installer la dernière version pour continuer à utiliser l'application et profiter des nouveautés.",
+  'update.currentVersion': 'Version actuelle : {version}',
+  'update.updateNow': 'Mettre à jour',
+  'update.storeInfo': "L'application ouvrira automatiquement {store}",
+
+  'offlineMaps.totalStorage': 'Stockage total : {size}',
+  'offlineMaps.emptyTitle': 'Aucune carte hors ligne',
+  'offlineMaps.emptyText': 'Téléchargez les cartes des zones mal couvertes pour les utiliser hors ligne.',
+  'offlineMaps.downloadFirst': 'Télécharger votre première carte',
+  'offlineMaps.tiles': '{size} • {count} tuiles',
+  'offlineMaps.downloadedOn': 'Téléchargée le {date}',
+  'offlineMaps.downloadTitle': 'Télécharger une carte hors ligne',
+  'offlineMaps.mapName': 'Nom de la carte',
+  'offlineMaps.mapNamePlaceholder': 'ex. : Quartier, Trajet du travail',
+  'offlineMaps.selectRegion': 'Choisir la zone',
+  'offlineMaps.selectRegionHint': 'Déplacez et zoomez pour choisir la zone à télécharger',
+  'offlineMaps.downloading': 'Téléchargement...',
+  'offlineMaps.tileProgress': '{done} / {total} tuiles',
+  'offlineMaps.downloadMap': 'Télécharger la carte',
+  'offlineMaps.loadFailed': 'Impossible de charger les cartes hors ligne.',
+  'offlineMaps.nameRequired': 'Veuillez saisir un nom pour la carte.',
+  'offlineMaps.regionRequired': 'Veuillez choisir une zone sur la carte.',
+  'offlineMaps.downloaded': 'Carte « {name} » téléchargée !',
+  'offlineMaps.downloadFailed': 'Impossible de télécharger la carte. Veuillez réessayer.',
+  'offlineMaps.deleteTitle': 'Supprimer la carte',
+  'offlineMaps.deleteMessage': 'Voulez-vous vraiment supprimer « {name} » ? Cela libérera {size} de stockage.',
+  'offlineMaps.deleteFailed': 'Impossible de supprimer la carte.',
+  'offlineMaps.locationFailed': "Impossible d'obtenir la position actuelle.",
+
+  'incidentDetail.title': "Détails de l'incident",
+  'incidentDetail.verified': 'Vérifié',
+  'incidentDetail.status': 'Statut',
+  'incidentDetail.status.ongoing': 'En cours',
+  'incidentDetail.status.contained': 'Maîtrisé',
+  'incidentDetail.status.resolved': 'Résolu',
+  'incidentDetail.reporterMarked': "{name} l'a marqué comme {status}",
+  'incidentDetail.communityMarked': "La communauté l'a marqué comme {status}",
+  'incidentDetail.reporter': 'Auteur du signalement',
+  'incidentDetail.reply': 'Répondre',
+  'incidentDetail.statusVoteRecorded': 'Vote enregistré',
+  'incidentDetail.statusConsensus': "Le statut change dès que {count} personnes sont d'accord.",
+  'incidentDetail.statusFailed': 'Impossible de mettre à jour le statut. Veuillez réessayer.',
+  'incidentDetail.locationUnavailable': 'Position indisponible',
+  'incidentDetail.locationUnavailableMessage': 'Votre mise à jour sera publiée sans position.',
+  'incidentDetail.postFailed': 'Impossible de publier votre mise à jour. Veuillez réessayer.',
+  'incidentDetail.reporterHint': 'Vous avez signalé cet incident. Tenez son statut à jour.',
+  'incidentDetail.statusHint': "Est-ce toujours en cours ? Le statut change dès que {count} personnes sont d'accord.",
+  'incidentDetail.description': 'Description',
+  'incidentDetail.reportedBy': 'Signalé par {name}',
+  'incidentDetail.anonymous': 'Anonyme',
+  'incidentDetail.you': 'Vous',
+  'incidentDetail.directions': 'Itinéraire',
+  'incidentDetail.updates': 'Mises à jour',
+  'incidentDetail.noUpdates': 'Aucune mise à jour pour le moment. Vous avez vu du nouveau ? Prévenez les autres.',
+  'incidentDetail.replyingTo': 'Réponse à {name}',
+  'incidentDetail.replyPlaceholder': 'Écrire une réponse',
+  'incidentDetail.updatePlaceholder': 'ex. : La police est arrivée',
+  'incidentDetail.includeLocation': 'Inclure ma position',
+  'incidentDetail.post': 'Publier',
+
+  'incidentDetail.voteFailed': "Impossible d'enregistrer votre vote. Veuillez réessayer.",
+  'incidentDetail.isAccurate': 'Est-ce exact ?',
+  'incidentDetail.confirmVote': 'Je confirme ({count})',
+  'incidentDetail.falseVote': "C'est faux ({count})",
+  'incidentDetail.voteHintReporter': 'Les personnes à proximité peuvent confirmer votre signalement.',
+  'incidentDetail.voteHint': "Les votes des personnes proches de l'incident comptent le plus.",
+
+  'incidents.filterMinutes': '{count} min',
+  'incidents.filterHours': '{count} h',
+  'incidents.loading': 'Chargement des incidents...',
+  'incidents.noReports': 'Aucun signalement récent',
+  'incidents.noReportsMessage': "Aucun incident récent n'a été signalé dans votre zone. Restez prudent !",
+
+  'travelAdvisory.title': 'Alertes voyage',
+  'travelAdvisory.subtitle': 'Restez informé des risques liés aux déplacements',
+  'travelAdvisory.calculateRouteRisk': "Évaluer le risque de l'itinéraire",
+  'travelAdvisory.originState': 'État de départ *',
+  'travelAdvisory.originCity': 'Ville de départ (facultatif)',
+  'travelAdvisory.destinationState': "État d'arrivée *",
+  'travelAdvisory.destinationCity': "Ville d'arrivée (facultatif)",
+  'travelAdvisory.originStatePlaceholder': 'ex. : Lagos',
+  'travelAdvisory.originCityPlaceholder': 'ex. : Ikeja',
+  'travelAdvisory.destinationStatePlaceholder': 'ex. : Abuja',
+  'travelAdvisory.destinationCityPlaceholder': 'ex. : Garki',
+  'travelAdvisory.calculateRisk': 'Évaluer le risque',
+  'travelAdvisory.statesRequired': "Veuillez saisir l'état de départ et l'état d'arrivée.",
+  'travelAdvisory.routeRiskFailed': "Impossible d'évaluer le risque de l'itinéraire. Veuillez réessayer.",
+  'travelAdvisory.routeRiskTitle': "Évaluation du risque de l'itinéraire",
+  'travelAdvisory.riskScore': 'Score de risque',
+  'travelAdvisory.last24h': 'Dernières 24 h',
+  'travelAdvisory.last7Days': '7 derniers jours',
+  'travelAdvisory.last30Days': '30 derniers jours',
+  'travelAdvisory.incidentsNearRoute': "Incidents à moins de {distance} de l'itinéraire",
+  'travelAdvisory.incidentsInAreas': "Incidents dans les zones de départ et d'arrivée",
+  'travelAdvisory.forYourLocation': 'Alertes pour votre position',
+  'travelAdvisory.noAdvisories': 'Aucune alerte active',
+  'travelAdvisory.locationSafe': 'Votre position actuelle semble sûre',
+  'travelAdvisory.affectedAreas': 'Zones concernées :',
+  'travelAdvisory.source': 'Source : {source}',
+  'travelAdvisory.risk.low': 'Risque faible',
+  'travelAdvisory.risk.moderate': 'Risque modéré',
+  'travelAdvisory.risk.high': 'Risque élevé',
+  'travelAdvisory.risk.critical': 'Risque critique',
+  'travelAdvisory.type.security': 'SÉCURITÉ',
+  'travelAdvisory.type.weather': 'MÉTÉO',
+  'travelAdvisory.type.combined': 'COMBINÉE',
+
+  'checkInSettings.saved': 'Paramètres enregistrés.',
+  'checkInSettings.saveFailed': "Impossible d'enregistrer les paramètres. Veuillez réessayer.",
+  'checkInSettings.enable': 'Activer les check-ins',
+  'checkInSettings.enableDescription': 'Autoriser des check-ins de sécurité réguliers',
+  'checkInSettings.interval': 'Intervalle de check-in',
+  'checkInSettings.intervalLabel': 'Intervalle (minutes)',
+  'checkInSettings.intervalHint': 'Fréquence de vos check-ins (par défaut : {minutes} minutes)',
+  'checkInSettings.automatic': 'Check-ins automatiques',
+  'checkInSettings.automaticDescription': 'Effectuer automatiquement un check-in aux intervalles prévus',
+  'checkInSettings.duringTravel': 'Check-in automatique en déplacement',
+  'checkInSettings.duringTravelDescription': 'Effectuer automatiquement un check-in pendant vos déplacements',
+  'checkInSettings.travelDetection': 'Détection des déplacements',
+  'checkInSettings.speedThreshold': 'Seuil de vitesse ({unit})',
+  'checkInSettings.speedThresholdHint': 'Considéré en déplacement au-delà de ce seuil (par défaut : {speed})',
+  'checkInSettings.missedAlerts': 'Alertes de check-in manqué',
+  'checkInSettings.alertAfter': 'Alerter après (minutes)',
+  'checkInSettings.alertAfterHint': "Prévenir vos contacts d'urgence si le check-in est manqué depuis cette durée (par défaut : {minutes} minutes)",
+  'checkInSettings.aboutTitle': 'À propos des check-ins',
+  'checkInSettings.aboutText': "Les check-ins permettent à vos contacts d'urgence de savoir que vous allez bien. Vous pouvez faire un check-in manuel à tout moment ou configurer des check-ins automatiques.",
+  'checkInSettings.aboutMissed': "Si vous manquez un check-in prévu, vos contacts d'urgence seront prévenus.",
+  'checkInSettings.save': 'Enregistrer les paramètres',
+
+  'profile.loading': 'Chargement du profil...',
+  'profile.circlesSubtext': 'Qui reçoit votre position et vos alertes',
+  'profile.shareLocationSubtext': 'Visible par vos contacts',
+  'profile.communityReportsSubtext': 'Afficher les incidents à proximité',
+  'profile.accountLockSubtext': 'Code PIN de déverrouillage et validation des contacts',
+  'profile.locationAccuracySubtext': 'GPS précis ou approximatif',
+  'profile.locationUpdateFrequencySubtext': 'Fréquence de mise à jour de la position',
+  'profile.pushNotificationsSubtext': 'Recevoir les alertes de sécurité',
+  'profile.testPushNotificationSubtext': 'Envoyer une notification de test à cet appareil',
+  'profile.warning': 'Avertissement',
+  'profile.unknownError': 'Erreur inconnue',
+  'profile.continue': 'Continuer',
+  'profile.physicalDeviceTitle': 'Appareil physique requis',
+  'profile.physicalDeviceMessage': 'Les notifications push ne fonctionnent que sur des appareils physiques, pas sur des simulateurs ou émulateurs. Veuillez tester sur un vrai appareil.',
+  'profile.permissionRequired': 'Autorisation requise',
+  'profile.permissionDeniedSettings': "Les notifications push nécessitent l'autorisation des notifications. Il semble que vous l'ayez refusée auparavant.\n\nActivez-la manuellement :\n1. Ouvrez les Paramètres\n2. Touchez Applications > FamGuard\n3. Touchez Notifications\n4. Activez « Afficher les notifications »",
+  'profile.permissionPrompt': "Les notifications push nécessitent l'autorisation des notifications pour vous alerter en cas d'urgence.\n\nAccordez l'autorisation lorsqu'elle vous est demandée pour recevoir les alertes de sécurité importantes.",
+  'profile.pushTokenFailed': "Autorisation accordée, mais l'enregistrement du jeton push a échoué. Les notifications risquent de ne pas fonctionner. Veuillez réessayer plus tard.",
+  'profile.permissionNotGranted': 'Autorisation non accordée',
+  'profile.permissionNotGrantedMessage': "L'autorisation des notifications est requise pour les notifications push. Veuillez l'accorder pour activer les notifications.",
+  'profile.notificationsSaveFailed': "Impossible d'enregistrer les paramètres de notification. Veuillez réessayer.",
+  'profile.notificationsSaveFailedDetail': "Impossible d'enregistrer les paramètres de notification : {error}\n\nVeuillez réessayer.",
+  'profile.notificationsEnabled': "Notifications push activées ! Vous recevrez les alertes d'urgence et les notifications de sécurité.",
+  'profile.notificationsSavedNoPermission': "Paramètre enregistré, mais l'autorisation n'est pas accordée. Veuillez activer les notifications dans les paramètres de l'appareil.",
+  'profile.communityReportsSaveFailed': "Impossible d'enregistrer les paramètres des signalements communautaires. Veuillez réessayer.",
+  'profile.locationSharingSaveFailed': "Impossible d'enregistrer les paramètres de partage de position. Veuillez réessayer.",
+  'profile.userNotFound': 'Utilisateur introuvable. Veuillez vous connecter et réessayer.',
+  'profile.testPermissionMessage': "Les notifications push nécessitent l'autorisation des notifications. Activez-la dans Paramètres > Applications > FamGuard > Notifications, ou activez Notifications push dans Profil.",
+  'profile.tokenNotFound': 'Jeton introuvable',
+  'profile.tokenNotFoundMessage': "Le jeton de notification push n'est pas enregistré. Activez Notifications push dans Profil pour l'enregistrer.",
+  'profile.testPushConfirm': 'Une notification de test va être envoyée à votre appareil. Continuer ?',
+  'profile.sendTest': 'Envoyer un test',
+  'profile.testPushSendFailed': "Impossible d'envoyer la notification de test : {error}\n\nConsultez les journaux de l'Edge Function pour plus de détails.",
+  'profile.testPushSuccessTitle': '✅ Réussi !',
+  'profile.testPushSuccess': 'Notification de test envoyée !\n\nVérifiez les notifications de votre appareil. Vous devriez la recevoir sous peu.\n\nEnvoyées : {sent}\nÉchecs : {failed}',
+  'profile.testPushNoneSentTitle': '⚠️ Aucune notification envoyée',
+  'profile.testPushNoneSent': '{message}\n\nCela signifie généralement :\n• Jeton introuvable dans la base de données\n• Jeton expiré ou invalide\n• Essayez de désactiver puis réactiver les notifications push',
+  'profile.testPushUnknownTitle': '⚠️ Résultat inconnu',
+  'profile.testPushUnknown': 'La demande a abouti mais sans confirmation. Vérifiez les notifications de votre appareil.',
+  'profile.testPushFailed': 'Impossible de tester la notification : {error}\n\nVeuillez réessayer.',
+  'profile.signOutConfirm': 'Voulez-vous vraiment vous déconnecter ?',
+  'profile.signOutFailed': 'Impossible de se déconnecter. Veuillez réessayer.',
+  'profile.deleteAccountConfirm': 'Voulez-vous vraiment supprimer votre compte ? Cette action est irréversible. Toutes vos données, contacts et paramètres seront définitivement supprimés.',
+  'profile.finalConfirmation': 'Confirmation finale',
+  'profile.finalConfirmationMessage': 'Votre compte et toutes les données associées seront définitivement supprimés. En êtes-vous absolument sûr ?',
+  'profile.confirmDeleteAccount': 'Oui, supprimer mon compte',
+  'profile.deleteAccountFailed': 'Impossible de supprimer le compte. Veuillez réessayer.',
+  'profile.deleteUrlMissing': "L'URL de suppression du compte n'est pas configurée. Veuillez contacter l'assistance.",
+  'profile.deleteViaWebsiteMessage': 'Vous allez être redirigé vers notre site web pour finaliser la suppression du compte.',
+  'profile.openWebsiteFailed': "Impossible d'ouvrir le site web. Veuillez réessayer plus tard.",
+};
+
+export default fr;
@@ -0,0 +1,998 @@
+import type { TranslationCatalog } from '../index';
+
+// Hausa
+const ha: TranslationCatalog = {
+  'common.error': 'Kuskure',
+  'common.success': 'An yi nasara',
+  'common.ok': 'To',
+  'common.cancel': 'Soke',
+  'common.save': 'Ajiye',
+  'common.delete': 'Goge',
+  'common.loadingSettings': 'Ana loda saituna...',
+  'common.tryAgain': 'Wani abu ya faru. Da fatan a sake gwadawa.',
+  'common.openSettings': 'Buɗe Saituna',
+
+  'tabs.home': 'Gida',
+  'tabs.incidents': 'Abubuwan da suka faru',
+  'tabs.connections': 'Mutanena',
+  'tabs.profile': 'Bayanina',
+
+  'profile.personalInformation': 'Bayanan kai',
+  'profile.editProfile': 'Gyara bayanai',
+  'profile.connections': 'Mutanena',
+  'profile.circles': "Da'irori da matsayi",
+  'profile.emergencyNotes': 'Bayanan gaggawa',
+  'profile.safetyPrivacy': 'Tsaro da sirri',
+  'profile.shareLocation': 'Raba wurina',
+  'profile.communityReports': 'Rahotannin al\'umma',
+  'profile.locationAccuracy': 'Daidaiton wuri',
+  'profile.locationUpdateFrequency': 'Yawan sabunta wuri',
+  'profile.notifications': 'Sanarwa',
+  'profile.pushNotifications': 'Sanarwar waya',
+  'profile.testPushNotification': 'Gwada sanarwa',
+  'profile.sleepMode': 'Yanayin barci',
+  'profile.notificationFilters': 'Matatar sanarwa',
+  'profile.accountLock': 'Kulle da buɗe SOS',
+  'profile.appSettings': 'Saitunan manhaja',
+  'profile.languageRegion': 'Harshe da yanki',
+  'profile.units': 'Ma\'auni (km / mil)',
+  'profile.batterySaving': 'Tanadin batir',
+  'profile.offlineMaps': 'Taswirori ba tare da intanet ba',
+  'profile.usersManual': 'Littafin jagora',
+  'profile.helpSupport': 'Taimako',
+  'profile.privacyPolicy': 'Manufar sirri',
+  'profile.termsOfService': 'Sharuɗɗan amfani',
+  'profile.accountManagement': 'Sarrafa asusu',
+  'profile.deleteAccount': 'Goge asusu',
+  'profile.deleteAccountWebsite': 'Goge asusu ta shafin yanar gizo',
+  'profile.signOut': 'Fita',
+
+  'languageRegion.title': 'Harshe da yanki',
+  'languageRegion.language': 'Harshe',
+  'languageRegion.region': 'Yanki',
+  'languageRegion.saveLanguageFailed': 'Ba a iya ajiye harshe ba. Da fatan a sake gwadawa.',
+  'languageRegion.saveRegionFailed': 'Ba a iya ajiye yanki ba. Da fatan a sake gwadawa.',
+
+  'units.title': 'Ma\'auni',
+  'units.description': 'Zaɓi tsarin ma\'auni don nisa, gudu da faɗakarwa.',
+  'units.metric': 'Mitiriki (km, m)',
+  'units.metricSubtitle': 'Kilomita da mita',
+  'units.imperial': 'Imperial (mil, ƙafa)',
+  'units.imperialSubtitle': 'Mil da ƙafa',
+  'units.saveFailed': 'Ba a iya ajiye tsarin ma\'auni ba. Da fatan a sake gwadawa.',
+
+  'incidents.safetyFeed': 'Labaran tsaro',
+  'incidents.distanceAway': 'nisan {distance}',
+  'incidents.category.robbery': 'Fashi',
+  'incidents.category.kidnapping': 'Garkuwa da mutane',
+  'incidents.category.accident': 'Hatsari',
+  'incidents.category.fire': 'Gobara',
+  'incidents.category.protest': 'Zanga-zanga',
+  'incidents.category.assault': 'Hari',
+  'incidents.category.theft': 'Sata',
+  'incidents.category.other': 'Wani',
+
+  'time.justNow': 'Yanzu nan',
+  'time.minuteAgo': 'minti 1 da ya wuce',
+  'time.minutesAgo': 'mintuna {count} da suka wuce',
+  'time.hourAgo': 'awa 1 da ya wuce',
+  'time.hoursAgo': 'awanni {count} da suka wuce',
+  'time.dayAgo': 'kwana 1 da ya wuce',
+  'time.daysAgo': 'kwanaki {count} da suka wuce',
+  'time.weekAgo': 'mako 1 da ya wuce',
+  'time.weeksAgo': 'makonni {count} da suka wuce',
+  'time.monthAgo': 'wata 1 da ya wuce',
+  'time.monthsAgo': 'watanni {count} da suka wuce',
+  'time.yearAgo': 'shekara 1 da ta wuce',
+  'time.yearsAgo': 'shekaru {count} da suka wuce',
+  'time.todayAt': 'Yau da {time}',
+  'time.yesterdayAt': 'Jiya da {time}',
+  'time.dateAt': '{date} da {time}',
+
+  'lastSeen.onlineNow': 'Yana kan layi',
+  'lastSeen.active': 'Ya yi aiki {time}',
+  'lastSeen.lastSeen': 'An gani na ƙarshe {time}',
+
+  'checkIn.title': 'Tabbatar da tsaro',
+  'checkIn.subtitle': 'Sanar da abokan hulɗarka cewa kana lafiya',
+  'checkIn.quickCheckIn': 'Tabbatarwa cikin sauri',
+  'checkIn.imSafe': 'Ina lafiya',
+  'checkIn.delayed': 'An jinkirta',
+  'checkIn.checkingIn': 'Ana tabbatarwa...',
+  'checkIn.lastCheckIn': 'Tabbatarwa ta ƙarshe',
+  'checkIn.recentCheckIns': 'Tabbatarwa na baya-bayan nan',
+  'checkIn.status.safe': 'LAFIYA',
+  'checkIn.status.unsafe': 'BABU LAFIYA',
+  'checkIn.status.delayed': 'AN JINKIRTA',
+  'checkIn.status.missed': 'AN RASA',
+  'checkIn.successTitle': '✅ An tabbatar',
+  'checkIn.successMessage': 'An sabunta matsayin tsaronka.',
+  'checkIn.failed': 'Tabbatarwa ta kasa. Da fatan a sake gwadawa.',
+  'checkIn.settingsTitle': 'Saitunan tabbatarwa',
+  'checkIn.autoCheckInsEnabled': 'Tabbatarwa ta atomatik: A kunne',
+  'checkIn.autoCheckInsDisabled': 'Tabbatarwa ta atomatik: A kashe',
+  'checkIn.interval': 'Tazara: Kowane minti {minutes}',
+  'checkIn.emergencyContacts': 'Abokan hulɗa na gaggawa: {count}',
+
+  'notificationFilters.sosAlert': 'Faɗakarwar SOS',
+  'notificationFilters.sosAlertSubtitle': 'Faɗakarwar gaggawa daga abokan hulɗarka',
+  'notificationFilters.sosResponse': 'Amsoshin SOS',
+  'notificationFilters.sosResponseSubtitle': 'Wanda ke amsa SOS',
+  'notificationFilters.checkInEmergency': 'Tabbatarwar gaggawa',
+  'notificationFilters.checkInEmergencySubtitle': 'Abokan hulɗa da ke ba da rahoton gaggawa',
+  'notificationFilters.checkInUnsafe': 'Tabbatarwar rashin tsaro',
+  'notificationFilters.checkInUnsafeSubtitle': 'Abokan hulɗa da ke jin ba su da lafiya',
+  'notificationFilters.missedCheckIn': 'Tabbatarwar da aka rasa',
+  'notificationFilters.missedCheckInSubtitle': 'Abokan hulɗa da suka rasa tabbatarwar da aka tsara',
+  'notificationFilters.tripOverdue': 'Tafiye-tafiyen da suka wuce lokaci',
+  'notificationFilters.tripOverdueSubtitle': 'Tafiye-tafiyen da suka wuce lokaci ko suka daina rahoto',
+  'notificationFilters.incidentProximity': 'Abubuwan da suka faru kusa',
+  'notificationFilters.incidentProximitySubtitle': 'Abubuwan da aka ba da rahoto kusa da kai',
+  'notificationFilters.incident': 'Rahotannin abubuwan da suka faru',
+  'notificationFilters.incidentSubtitle': 'Sababbin abubuwa a cikin labaran tsaro',
+  'notificationFilters.placeArrival': 'Isowa wurare',
+  'notificationFilters.placeArrivalSubtitle': 'Abokan hulɗa da suka iso wuraren ka',
+  'notificationFilters.placeDeparture': 'Barin wurare',
+  'notificationFilters.placeDepartureSubtitle': 'Abokan hulɗa da suka bar wuraren ka',
+  'notificationFilters.checkIn': 'Tabbatarwa',
+  'notificationFilters.checkInSubtitle': 'Tabbatarwa ta yau da kullum daga abokan hulɗa',
+  'notificationFilters.tripStarted': 'An fara tafiya',
+  'notificationFilters.tripStartedSubtitle': 'Abokan hulɗa da ke raba tafiya da kai',
+  'notificationFilters.tripArrived': 'Isowar tafiya',
+  'notificationFilters.tripArrivedSubtitle': 'Abokan hulɗa da suka iso inda za su',
+  'notificationFilters.tripCancelled': 'An soke tafiya',
+  'notificationFilters.tripCancelledSubtitle': 'Abokan hulɗa da suka ƙare tafiyar da aka raba da wuri',
+  'notificationFilters.travelAdvisory': 'Shawarwarin tafiya',
+  'notificationFilters.travelAdvisorySubtitle': 'Shawarwarin tsaro don tafiye-tafiyenka',
+  'notificationFilters.routeRisk': 'Haɗarin hanya',
+  'notificationFilters.routeRiskSubtitle': 'Gargaɗin haɗari don hanyoyin da aka tsara',
+  'notificationFilters.connectionAdded': 'Sababbin abokan hulɗa',
+  'notificationFilters.connectionAddedSubtitle': 'Wani ya ƙara ka a matsayin abokin hulɗa',
+  'notificationFilters.locationReminder': 'Tunatarwar wuri',
+  'notificationFilters.locationReminderSubtitle': 'Tunatarwa don sabunta wurinka',
+  'notificationFilters.morningGreeting': 'Gaisuwar safiya',
+  'notificationFilters.morningGreetingSubtitle': 'Saƙon barka da safiya na kullum',
+  'notificationFilters.afternoonGreeting': 'Gaisuwar rana',
+  'notificationFilters.afternoonGreetingSubtitle': 'Saƙon barka da rana na kullum',
+  'notificationFilters.appUpdate': 'Sabunta manhaja',
+  'notificationFilters.appUpdateSubtitle': 'Sababbin sigogin FamGuard',
+  'notificationFilters.title': 'Tacewar sanarwa',
+  'notificationFilters.description': 'Zaɓi sanarwar da kake son karɓa. Faɗakarwar SOS da tabbatarwar gaggawa koyaushe suna zuwa, har daga abokan hulɗa da aka yi shiru.',
+  'notificationFilters.safetyAlerts': 'Faɗakarwar tsaro',
+  'notificationFilters.alerts': 'Faɗakarwa',
+  'notificationFilters.updatesGreetings': 'Sabuntawa da gaisuwa',
+  'notificationFilters.connections': 'Abokan hulɗa',
+  'notificationFilters.noConnections': 'Ba ka da abokan hulɗa tukuna.',
+  'notificationFilters.alwaysOn': 'Koyaushe a kunne',
+  'notificationFilters.connectionMuted': 'An yi shiru - faɗakarwar tsaro kawai',
+  'notificationFilters.connectionAll': 'Duk sanarwa',
+  'notificationFilters.saveFailed': 'An kasa adana tacewar sanarwa. Da fatan a sake gwadawa.',
+
+  'findContacts.title': 'Nemo lambobin sadarwa',
+  'findContacts.introTitle': 'Nemo mutanen da ka sani',
+  'findContacts.introDescription': 'Duba waɗanda ke cikin lambobinka suke amfani da FamGuards kuma ka haɗu da taɓawa ɗaya, ko ka gayyaci sauran. Lambobin waya suna nan a wayarka - hash na hanya ɗaya na kowace lamba kawai ake dubawa.',
+  'findContacts.search': 'Bincika lambobin sadarwa',
+  'findContacts.regionHint': 'Ana karanta lambobin da ba su da lambar ƙasa a matsayin {region}.',
+  'findContacts.changeRegion': 'Canja yanki',
+  'findContacts.noMatches': 'Babu lambar da ta dace da bincikenka.',
+  'findContacts.noValidNumbers': 'Ba a sami lambobin sadarwa masu ingantattun lambobin waya ba.',
+  'findContacts.onFamGuards': 'A kan FamGuards',
+  'findContacts.inviteToFamGuards': 'Gayyata zuwa FamGuards',
+  'findContacts.userOnFamGuards': '{name} a kan FamGuards',
+  'findContacts.connected': 'An haɗa',
+  'findContacts.invited': 'An gayyata',
+  'findContacts.connect': 'Haɗa',
+  'findContacts.invite': 'Gayyata',
+  'findContacts.someNotChecked': 'Ba a duba wasu lambobi ba',
+  'findContacts.accessNeeded': 'Ana buƙatar samun damar lambobin sadarwa',
+  'findContacts.accessNeededMessage': 'Ba da damar shiga lambobin sadarwarka a Saituna don nemo mutanen da ka sani.',
+  'findContacts.inviteFailed': 'An kasa aika gayyata. Da fatan a sake gwadawa.',
+  'findContacts.inviteLinkFailed': 'An kasa ƙirƙirar gayyata. Da fatan a sake gwadawa.',
+  'findContacts.messagesUnavailable': 'An kasa buɗe manhajar saƙonninka.',
+
+  'sosEvent.status.active': 'Yana buƙatar taimako',
+  'sosEvent.status.responderEnRoute': 'Mai taimako yana kan hanya',
+  'sosEvent.status.resolved': 'An warware',
+  'sosEvent.status.falseAlarm': 'Ƙararrawar ƙarya',
+  'sosEvent.title': 'SOS',
+  'sosEvent.loading': 'Ana loda SOS...',
+  'sosEvent.unavailable': 'Wannan SOS baya samuwa yanzu.',
+  'sosEvent.yourSos': 'SOS ɗinka',
+  'sosEvent.silentWarning': 'SOS na shiru - ana iya tilasta wa {name}. Kada ka kira ko ka aika masa saƙo.',
+  'sosEvent.started': 'An fara',
+  'sosEvent.lastLocation': 'Wuri na ƙarshe',
+  'sosEvent.near': 'Kusa da',
+  'sosEvent.closed': 'An rufe',
+  'sosEvent.imResponding': 'Ina zuwa taimako',
+  'sosEvent.cantHelp': 'Ba zan iya taimakawa ba',
+  'sosEvent.openLiveMap': 'Buɗe taswirar kai tsaye',
+  'sosEvent.responders': 'Masu taimako ({count})',
+  'sosEvent.noResponders': 'Babu wanda ya amsa tukuna.',
+  'sosEvent.responderResponding': '{name} - yana zuwa',
+  'sosEvent.responderCantHelp': '{name} - ba zai iya taimakawa ba',
+  'sosEvent.addNoteTitle': 'Ƙara bayani',
+  'sosEvent.notePlaceholder': 'misali: An kira ƴan sanda',
+  'sosEvent.addNote': 'Ƙara',
+  'sosEvent.resolve': 'Warware',
+  'sosEvent.falseAlarm': 'Ƙararrawar ƙarya',
+  'sosEvent.closeHint': 'Za a ƙara bayaninka a jerin lokaci idan ka rufe SOS.',
+  'sosEvent.timeline': 'Jerin lokaci',
+  'sosEvent.locationTrail': 'Hanyar wuri ({count})',
+  'sosEvent.noLocations': 'Ba a yi rikodin wuri ba tukuna.',
+  'sosEvent.showLess': 'Nuna ƙasa',
+  'sosEvent.showAllLocations': 'Nuna duk wurare {count}',
+  'sosEvent.resolveTitle': 'Warware SOS',
+  'sosEvent.resolveMessage': 'Ka warware kawai idan ka san {name} yana lafiya.',
+  'sosEvent.falseAlarmTitle': 'Yi alama a matsayin ƙararrawar ƙarya',
+  'sosEvent.falseAlarmMessage': 'Rufe wannan SOS a matsayin ƙararrawar ƙarya? Abokan hulɗar {name} za su gani a jerin lokaci.',
+  'sosEvent.respondFailed': 'An kasa amsawa. Da fatan a sake gwadawa.',
+  'sosEvent.noteFailed': 'An kasa ƙara bayaninka. Da fatan a sake gwadawa.',
+  'sosEvent.closeFailed': 'An kasa rufe SOS. Da fatan a sake gwadawa.',
+  'sosEvent.you': 'Kai',
+  'sosEvent.someone': 'Wani',
+  'sosEvent.them': 'shi',
+  'sosEvent.update.opened': '{actor} ya aika SOS',
+  'sosEvent.update.acknowledged': '{actor} yana zuwa taimako',
+  'sosEvent.update.acknowledgedYou': 'Kana zuwa taimako',
+  'sosEvent.update.called': '{actor} ya kira {name}',
+  'sosEvent.update.cantHelp': '{actor} ba zai iya taimakawa ba',
+  'sosEvent.update.statusChanged': '{actor} ya canja matsayi zuwa {status}',
+  'sosEvent.update.note': '{actor} ya ƙara bayani',
+  'sosEvent.statusUnknown': 'ba a sani ba',
+
+  'trip.title': 'Tafiya',
+  'trip.description': 'Raba tafiya kai tsaye da abokan hulɗar da ka zaɓa. Idan ba ka iso a kan lokaci ba ko wayarka ta daina rahoto, za a faɗakar da su ta hanyar ƙarin matakan tabbatarwarka.',
+  'trip.loading': 'Ana loda tafiye-tafiye...',
+  'trip.yourTrip': 'Tafiyarka',
+  'trip.startATrip': 'Fara tafiya',
+  'trip.following': 'Tafiye-tafiyen da kake bi',
+  'trip.noneFollowing': 'Babu abokin hulɗa da ke raba tafiya da kai.',
+  'trip.connection': 'Abokin hulɗa',
+  'trip.overdue': 'Ya wuce lokaci',
+  'trip.expectedAt': 'Ana sa ran {time}',
+  'trip.distanceLeft': ' · saura {distance}',
+  'trip.overdueNoSignal': 'Wurinka ya daina rahoto. An faɗakar da abokan hulɗarka.',
+  'trip.overdueLate': 'Lokacin isowarka da ake tsammani ya wuce. An faɗakar da abokan hulɗarka.',
+  'trip.expectedArrival': 'Lokacin isowa',
+  'trip.distanceLeftLabel': 'Nisan da ya rage',
+  'trip.lastUpdate': 'Sabuntawa ta ƙarshe',
+  'trip.sharedWith': 'An raba da',
+  'trip.autoArrivalHint': 'Ana tabbatar da isowa kai tsaye idan ka kai inda za ka.',
+  'trip.imArrived': 'Na iso',
+  'trip.cancelTrip': 'Soke tafiya',
+  'trip.keepTrip': 'Ci gaba da tafiya',
+  'trip.cancelMessage': 'Daina raba wannan tafiya da abokan hulɗarka?',
+  'trip.destination': 'Inda za a je',
+  'trip.destinationPlaceholder': 'misali: 12 Allen Avenue, Ikeja',
+  'trip.travelTime': 'Lokacin tafiya da ake tsammani',
+  'trip.minutesShort': 'minti {count}',
+  'trip.hoursShort': 'awa {count}',
+  'trip.whoCanFollow': 'Wanda zai iya bin wannan tafiya',
+  'trip.addConnectionFirst': 'Da farko ƙara abokin hulɗa don raba tafiye-tafiye.',
+  'trip.startTrip': 'Fara tafiya',
+  'trip.enterDestination': 'Da fatan shigar da inda za ka.',
+  'trip.chooseWatcher': 'Da fatan zaɓi aƙalla abokin hulɗa ɗaya da zai bi tafiyarka.',
+  'trip.destinationNotFound': 'Ba a sami inda za a je ba',
+  'trip.destinationNotFoundMessage': 'Gwada adireshi ko sunan wuri da ya fi bayyana.',
+  'trip.startFailedActive': 'An kasa fara tafiya. Wataƙila kana da tafiya da ke gudana.',
+  'trip.startFailed': 'An kasa fara tafiya. Da fatan a sake gwadawa.',
+  'trip.confirmArrivalFailed': 'An kasa tabbatar da isowa. Da fatan a sake gwadawa.',
+  'trip.arrived': 'An iso',
+  'trip.arrivedMessage': 'An sanar da abokan hulɗarka cewa ka iso lafiya.',
+  'trip.cancelFailed': 'An kasa soke tafiya. Da fatan a sake gwadawa.',
+
+  'circles.title': "Da'irori da matsayi",
+  'circles.description': "Haɗa abokan hulɗarka cikin da'irori kuma zaɓi abin da kowace da'ira za ta samu. Abokan hulɗa da ba sa cikin kowace da'ira suna samun komai. Yayin da aka kulle ka bayan SOS, kowane abokin hulɗa zai iya ganin wurinka.",
+  'circles.loading': "Ana loda da'irori...",
+  'circles.newCircle': "Sabuwar da'ira",
+  'circles.namePlaceholder': "Sunan da'ira, misali Iyali",
+  'circles.createCircle': "Ƙirƙiri da'ira",
+  'circles.yourCircles': "Da'irorinka",
+  'circles.noCircles': "Ba ka da da'irori tukuna. Kowane abokin hulɗa yana samun wurinka da duk faɗakarwa.",
+  'circles.roles': 'Matsayi',
+  'circles.members': 'Membobi',
+  'circles.memberCount': 'Memba 1',
+  'circles.membersCount': 'Membobi {count}',
+  'circles.noMembers': "Babu kowa a wannan da'ira tukuna.",
+  'circles.allInCircle': "Duk abokan hulɗarka suna cikin wannan da'ira.",
+  'circles.done': 'An gama',
+  'circles.addConnections': 'Ƙara abokan hulɗa',
+  'circles.formerConnection': 'Tsohon abokin hulɗa',
+  'circles.setting.shareLocation': 'Raba wuri',
+  'circles.setting.shareLocationSubtitle': 'Membobi suna ganin wurinka kai tsaye',
+  'circles.setting.sosAlerts': 'Faɗakarwar SOS',
+  'circles.setting.sosAlertsSubtitle': 'Ana faɗakar da membobi idan ka aika SOS',
+  'circles.setting.checkInAlerts': 'Faɗakarwar tabbatarwa',
+  'circles.setting.checkInAlertsSubtitle': 'Membobi suna samun tabbatarwarka da waɗanda ka rasa',
+  'circles.setting.unlockApproval': 'Amincewar buɗewa',
+  'circles.setting.unlockApprovalSubtitle': 'Membobi za su iya amincewa da buɗe asusunka',
+  'circles.preset.family': 'Iyali',
+  'circles.preset.work': 'Aiki',
+  'circles.preset.neighbors': 'Maƙwabta',
+  'circles.role.guardian': 'Mai kulawa',
+  'circles.role.guardianSubtitle': 'Koyaushe yana samun faɗakarwa da wurinka, kuma zai iya amincewa da buɗewa',
+  'circles.role.member': 'Memba',
+  'circles.role.memberSubtitle': "Yana bin saitunan da'ira",
+  'circles.role.dependent': 'Mai dogaro',
+  'circles.role.dependentSubtitle': "Yana bin saitunan da'ira, amma ba zai taɓa amincewa da buɗewa ba",
+  'circles.nameTitle': "Sunan da'ira",
+  'circles.nameRequired': "Da fatan shigar da suna ga da'irar.",
+  'circles.nameTaken': "Kana da da'ira mai suna {name} tuni.",
+  'circles.createFailed': "An kasa ƙirƙirar da'ira. Da fatan a sake gwadawa.",
+  'circles.saveFailed': "An kasa adana saitunan da'ira. Da fatan a sake gwadawa.",
+  'circles.deleteTitle': "Share da'ira",
+  'circles.deleteMessage': "Share {name}? Abokan hulɗa da ba sa cikin wata da'ira za su sake samun duk faɗakarwa da wurinka.",
+  'circles.deleteFailed': "An kasa share da'ira. Da fatan a sake gwadawa.",
+  'circles.addFailed': 'An kasa ƙara abokin hulɗa. Da fatan a sake gwadawa.',
+  'circles.roleFailed': 'An kasa canja matsayi. Da fatan a sake gwadawa.',
+  'circles.removeFailed': 'An kasa cire abokin hulɗa. Da fatan a sake gwadawa.',
+  'circles.roleIn': 'Matsayi a {circle}',
+  'circles.makeRole': 'Mayar da {role}',
+  'circles.removeFrom': 'Cire daga {circle}',
+
+  'accountLock.event.locked': 'An kulle asusu',
+  'accountLock.event.unlockApproved': 'An amince da buɗewa',
+  'accountLock.event.unlocked': 'An buɗe asusu',
+  'accountLock.event.pinFailed': 'An shigar da PIN mara daidai',
+  'accountLock.event.pinSet': 'An saita PIN',
+  'accountLock.event.pinRemoved': 'An cire PIN',
+  'accountLock.method.sos': 'bayan SOS',
+  'accountLock.method.pin': 'da PIN',
+  'accountLock.method.quorum': 'ta abokan hulɗa',
+  'accountLock.method.admin': 'ta tallafi',
+  'accountLock.byActor': 'ta {name}',
+  'accountLock.description': 'Bayan SOS ana kulle asusunka. Zaɓi yadda za a sake buɗe shi.',
+  'accountLock.unlockPin': 'PIN na buɗewa',
+  'accountLock.pinSet': 'An saita PIN',
+  'accountLock.noPin': 'Ba a saita PIN ba',
+  'accountLock.pinDescription': 'Yana ba ka damar buɗe asusunka daga allon kullewa. Ka ɓoye shi.',
+  'accountLock.newPinPlaceholder': 'Sabon PIN (lambobi 4-8)',
+  'accountLock.confirmPinPlaceholder': 'Tabbatar da PIN',
+  'accountLock.savePin': 'Adana PIN',
+  'accountLock.remove': 'Cire',
+  'accountLock.changePin': 'Canja PIN',
+  'accountLock.setPin': 'Saita PIN',
+  'accountLock.silentSos': 'SOS na shiru',
+  'accountLock.duressPinSet': 'An saita PIN na tilastawa',
+  'accountLock.noDuressPin': 'Ba a saita PIN na tilastawa ba',
+  'accountLock.duressDescription': 'Shigar da PIN na tilastawa a allon kullewa yana buɗe manhajar kamar yadda aka saba, amma yana faɗakar da abokan hulɗarka a ɓoye kuma yana ci gaba da raba ainihin wurinka.',
+  'accountLock.holdDescription': 'Haka kuma za ka iya riƙe maɓallin Faɗakarwar Gaggawa a allon gida na daƙiƙa 3. Babu abin da zai canza a allo. Abokin hulɗa ne kawai zai iya ƙare SOS na shiru.',
+  'accountLock.setPinFirst': 'Da farko saita PIN na buɗewa don ƙara PIN na tilastawa.',
+  'accountLock.duressPinPlaceholder': 'PIN na tilastawa (lambobi 4-8)',
+  'accountLock.confirmDuressPinPlaceholder': 'Tabbatar da PIN na tilastawa',
+  'accountLock.changeDuressPin': 'Canja PIN na tilastawa',
+  'accountLock.setDuressPin': 'Saita PIN na tilastawa',
+  'accountLock.approvals': 'Amincewar abokan hulɗa',
+  'accountLock.approvalsDescription': 'Adadin abokan hulɗa da dole su amince kafin a buɗe asusunka. Iyakarsa adadin abokan hulɗar da kake da su lokacin da kullewa ta fara.',
+  'accountLock.history': 'Tarihin kullewa',
+  'accountLock.noHistory': 'Babu aikin kullewa tukuna.',
+  'accountLock.invalidPin': 'PIN mara inganci',
+  'accountLock.invalidPinMessage': 'Dole PIN ɗinka ya kasance lambobi 4 zuwa 8.',
+  'accountLock.invalidDuressPinMessage': 'Dole PIN na tilastawa ya kasance lambobi 4 zuwa 8.',
+  'accountLock.pinMismatch': 'PIN ba su dace ba',
+  'accountLock.pinMismatchMessage': 'Da fatan shigar da PIN ɗaya sau biyu.',
+  'accountLock.savePinFailed': 'An kasa adana PIN ɗinka. Da fatan a sake gwadawa.',
+  'accountLock.removePinTitle': 'Cire PIN',
+  'accountLock.removePinMessage': 'Ba tare da PIN ba, abokan hulɗarka ne kawai za su iya buɗe asusunka bayan SOS. Za a cire PIN na tilastawa ma.',
+  'accountLock.removePinFailed': 'An kasa cire PIN ɗinka. Da fatan a sake gwadawa.',
+  'accountLock.saveDuressPinFailed': 'An kasa adana PIN na tilastawa. Da fatan a sake gwadawa.',
+  'accountLock.removeDuressPinTitle': 'Cire PIN na tilastawa',
+  'accountLock.removeDuressPinMessage': 'Har yanzu za ka iya aika SOS na shiru ta hanyar riƙe maɓallin Faɗakarwar Gaggawa.',
+  'accountLock.removeDuressPinFailed': 'An kasa cire PIN na tilastawa. Da fatan a sake gwadawa.',
+  'accountLock.saveQuorumFailed': 'An kasa adana amincewar buɗewa. Da fatan a sake gwadawa.',
+
+  'notifications.title': 'Sanarwa',
+  'notifications.markAllRead': 'Yi alama duka an karanta',
+  'notifications.emptyTitle': 'Babu sanarwa',
+  'notifications.emptyText': 'Ka gama duba komai!',
+  'notifications.alertLevel.danger': 'HAƊARI',
+  'notifications.alertLevel.warning': 'GARGAƊI',
+  'notifications.alertLevel.alert': 'FAƊAKARWA',
+  'notifications.markAllReadFailed': 'An kasa yi wa duk sanarwa alamar an karanta.',
+  'notifications.locationPermissionTitle': 'Ana buƙatar izinin wuri',
+  'notifications.locationPermissionMessage': 'Don sabunta wurinka, da fatan ka ba da izinin wuri a Saituna.',
+  'notifications.permissionTitle': 'Ana buƙatar izini',
+  'notifications.permissionMessage': 'Ana buƙatar izinin wuri don sabunta wurinka.',
+  'notifications.locationUpdatedTitle': 'An sabunta wuri',
+  'notifications.locationUpdatedMessage': 'An sabunta wurinka cikin nasara.',
+  'notifications.locationErrorTitle': 'Kuskuren wuri',
+  'notifications.locationErrorMessage': 'An kasa samun wurinka na yanzu. Da fatan ka duba saitunan wuri.',
+  'notifications.updateLocationFailed': 'An kasa sabunta wuri. Da fatan a sake gwadawa.',
+  'notifications.emergencyLocation': 'Wurin gaggawa',
+  'notifications.placeAlert': 'Faɗakarwar wuri',
+
+  'reportIncident.title': 'Ba da rahoton lamari',
+  'reportIncident.subtitle': "Taimaka wajen kiyaye al'ummarka",
+  'reportIncident.type': "Nau'in lamari",
+  'reportIncident.titleLabel': 'Take',
+  'reportIncident.titlePlaceholder': 'Gajeren take na lamarin',
+  'reportIncident.descriptionLabel': 'Bayani',
+  'reportIncident.descriptionPlaceholder': 'Bayyana abin da ya faru, lokacin da ya faru, da duk wani bayani mai muhimmanci...',
+  'reportIncident.media': 'Hotuna da bidiyo',
+  'reportIncident.camera': 'Kyamara',
+  'reportIncident.library': 'Ɗakin hotuna',
+  'reportIncident.mediaHint': 'Ana cire bayanan wuri daga hotuna da bidiyo kafin lodawa. Bidiyo har zuwa daƙiƙa {seconds}.',
+  'reportIncident.location': 'Wuri',
+  'reportIncident.gettingLocation': 'Ana samun wurinka...',
+  'reportIncident.retry': 'Sake gwadawa',
+  'reportIncident.noLocation': 'Babu wuri',
+  'reportIncident.visibilityHint': 'Masu amfani da ke kusa kawai (cikin {distance}) ne za su ga wannan rahoto',
+  'reportIncident.when': 'Yaushe wannan ya faru?',
+  'reportIncident.happeningNow': 'Yana faruwa yanzu',
+  'reportIncident.happenedEarlier': 'Ya faru a baya',
+  'reportIncident.anonymous': 'Rahoto ba tare da suna ba',
+  'reportIncident.anonymousHint': "Ɓoye sunanka daga jama'a (ana ajiye shi a ciki don tsaro)",
+  'reportIncident.info': "Rahotonka yana taimakawa wajen kiyaye al'umma. Rahotannin ƙarya na iya sa a dakatar da asusu.",
+  'reportIncident.uploading': 'Ana lodawa...',
+  'reportIncident.submitting': 'Ana aikawa...',
+  'reportIncident.submit': 'Aika rahoto',
+  'reportIncident.mediaStatus.preparing': 'Ana shiryawa...',
+  'reportIncident.mediaStatus.done': 'An loda',
+  'reportIncident.mediaStatus.queued': 'Yana jira',
+  'reportIncident.mediaStatus.failed': 'Ya kasa',
+  'reportIncident.mediaStatus.unsupportedFormat': 'Tsarin da ba a tallafa ba',
+  'reportIncident.mediaStatus.tooLong': 'Ya yi tsawo',
+  'reportIncident.mediaStatus.limitReached': 'An kai iyaka',
+  'reportIncident.thisLocation': 'wannan wuri',
+  'reportIncident.autoTitle.robbery': 'An ba da rahoton fashi',
+  'reportIncident.autoTitle.kidnapping': 'An ba da rahoton wani abu mai shakku',
+  'reportIncident.autoTitle.accident': 'An ba da rahoton hatsarin mota',
+  'reportIncident.autoTitle.fire': 'An ba da rahoton gobara',
+  'reportIncident.autoTitle.protest': 'An ba da rahoton taron zanga-zanga',
+  'reportIncident.autoTitle.assault': 'An ba da rahoton hari',
+  'reportIncident.autoTitle.theft': 'An ba da rahoton sata',
+  'reportIncident.autoTitle.other': 'An ba da rahoton lamari',
+  'reportIncident.autoDescription.robbery': 'An ba da rahoton fashi.\n\nWuri: {address}\n\nDa fatan a yi taka-tsantsan kuma a guji wurin idan zai yiwu. An sanar da hukumomi.',
+  'reportIncident.autoDescription.kidnapping': 'An ba da rahoton wani abu mai shakku da ya shafi garkuwa da mutane.\n\nWuri: {address}\n\nDa fatan a kasance a faɗake kuma a sanar da hukumomi duk wani hali mai shakku nan take.',
+  'reportIncident.autoDescription.accident': "An ba da rahoton hatsarin mota.\n\nWuri: {address}\n\nJami'an agajin gaggawa suna zuwa. Ka yi tsammanin jinkiri kuma ka bi wata hanya idan zai yiwu.",
+  'reportIncident.autoDescription.fire': "An ba da rahoton gobara.\n\nWuri: {address}\n\nMasu kashe gobara suna zuwa. Da fatan a guji wurin kuma a bi umarnin jami'an agaji.",
+  'reportIncident.autoDescription.protest': 'An ba da rahoton taron zanga-zanga.\n\nWuri: {address}\n\nKa yi tsammanin cunkoson ababen hawa kuma ka yi taka-tsantsan idan kana wurin.',
+  'reportIncident.autoDescription.assault': 'An ba da rahoton hari.\n\nWuri: {address}\n\nDa fatan a guji wurin kuma a sanar da hukumomi duk wani bayani mai amfani.',
+  'reportIncident.autoDescription.theft': 'An ba da rahoton sata.\n\nWuri: {address}\n\nDa fatan ka kiyaye kayanka kuma ka ba da rahoton duk wani abu mai shakku.',
+  'reportIncident.autoDescription.other': 'An ba da rahoton lamari.\n\nWuri: {address}\n\nDa fatan a yi taka-tsantsan a wurin.',
+  'reportIncident.locationPermissionDenied': 'An ƙi izinin wuri. Da fatan ka kunna damar wuri a Saituna.',
+  'reportIncident.locationUnavailable': 'An kasa samun wurinka. Da fatan a sake gwadawa.',
+  'reportIncident.locationFailed': 'Samun wuri ya kasa. Da fatan a sake gwadawa.',
+  'reportIncident.limitReached': 'An kai iyaka',
+  'reportIncident.limitReachedMessage': 'Za ka iya haɗa hotuna ko bidiyo har {count}.',
+  'reportIncident.permissionTitle': 'Ana buƙatar izini',
+  'reportIncident.cameraPermission': 'Ana buƙatar damar kyamara don ɗaukar hoto ko bidiyon lamarin.',
+  'reportIncident.libraryPermission': 'Ana buƙatar damar ɗakin hotuna don haɗa hotuna ko bidiyo.',
+  'reportIncident.videoTooLong': 'Bidiyo ya yi tsawo',
+  'reportIncident.videoTooLongMessage': 'Bidiyo ba zai wuce daƙiƙa {seconds} ba.',
+  'reportIncident.attachFailed': 'An kasa haɗa fayil. Da fatan a sake gwadawa.',
+  'reportIncident.requiredFields': 'Da fatan cike duk filayen da ake buƙata',
+  'reportIncident.locationRequired': 'Ana buƙatar wuri. Da fatan jira wuri ya loda ko ka sake sabuntawa.',
+  'reportIncident.invalidCoordinates': 'Haɗin wuri ba daidai ba ne. Da fatan sabunta wurinka.',
+  'reportIncident.invalidLatitude': 'Latitude ba daidai ba ne. Da fatan sabunta wurinka.',
+  'reportIncident.invalidLongitude': 'Longitude ba daidai ba ne. Da fatan sabunta wurinka.',
+  'reportIncident.submitted': 'An ba da rahoton lamarin cikin nasara.',
+  'reportIncident.mediaQueued': 'Hotuna/bidiyo {count} za su gama lodawa idan haɗinka ya inganta.',
+  'reportIncident.mediaFailed': 'An kasa haɗa hotuna/bidiyo {count}.',
+  'reportIncident.submitFailed': 'An kasa ba da rahoton lamarin. Da fatan a sake gwadawa.',
+
+  'home.visibleToConnections': 'Abokan hulɗa suna ganinka',
+  'home.hiddenFromConnections': 'A ɓoye daga abokan hulɗa',
+  'home.connectionCount': 'Abokin hulɗa 1',
+  'home.connectionsCount': 'Abokan hulɗa {count}',
+  'home.location': 'Wuri',
+  'home.updating': 'Ana sabuntawa...',
+  'home.sharing': 'Ana rabawa',
+  'home.hidden': 'A ɓoye',
+  'home.sharingOffTitle': 'An kashe raba wuri',
+  'home.sharingOffMessage': 'Kunna raba wuri don abokan hulɗarka su ga wurinka kuma su amsa a lokacin gaggawa.',
+  'home.turnOn': 'Kunna',
+  'home.emergency': 'Gaggawa',
+  'home.emergencyAlert': 'Faɗakarwar Gaggawa',
+  'home.alertConnection': 'Faɗakar da abokin hulɗa 1',
+  'home.alertConnections': 'Faɗakar da abokan hulɗa {count}',
+  'home.quickActions': 'Ayyuka masu sauri',
+  'home.reportIncidentSubtitle': 'Ba da rahoton matsalar tsaro',
+  'home.checkInSubtitle': 'Sanar da abokan hulɗa cewa kana lafiya',
+  'home.emergencySent': 'An aika gaggawa',
+  'home.emergencyQueued': 'Gaggawa tana jira',
+  'home.emergencySentMessage': 'An aika faɗakarwar gaggawarka ga abokan hulɗarka cikin nasara.',
+  'home.emergencyQueuedMessage': 'Ba a kai ga wasu abokan hulɗa ba tukuna. FamGuard za ta ci gaba da ƙoƙari har sai faɗakarwarka ta isa.',
+  'home.continue': 'Ci gaba',
+  'home.recipient.notified': 'An sanar',
+  'home.recipient.appOff': 'An kashe sanarwar manhaja',
+  'home.recipient.retrying': 'Ana sake gwadawa...',
+  'home.recipient.smsReady': 'SMS a shirye',
+  'home.recipient.smsUnavailable': 'SMS ba ya samuwa',
+  'home.permissionTitle': 'Ana buƙatar izini',
+  'home.locationPermissionMessage': 'Ana buƙatar izinin wuri don raba wurinka da abokan hulɗa.',
+  'home.locationErrorTitle': 'Kuskuren wuri',
+  'home.locationErrorMessage': 'An kasa samun wurinka. Da fatan ka duba saitunan wuri.',
+  'home.toggleSharingFailed': 'An kasa sabunta raba wuri. Da fatan a sake gwadawa.',
+  'home.noConnections': 'Babu abokan hulɗa',
+  'home.noConnectionsMessage': 'Dole ka ƙara abokan hulɗa kafin ka aika faɗakarwar gaggawa.',
+  'home.sendAlertTitle': 'Aika faɗakarwar gaggawa?',
+  'home.sendAlertMessageOne': 'Wannan zai aika faɗakarwar gaggawa ga abokin hulɗarka 1.',
+  'home.sendAlertMessage': 'Wannan zai aika faɗakarwar gaggawa ga duk abokan hulɗarka {count}.',
+  'home.sendAlert': 'Aika faɗakarwar gaggawa',
+  'home.alertWithoutLocation': 'An kasa samun wurinka. Za a aika faɗakarwar gaggawa ba tare da wuri ba.',
+  'home.sendAlertFailed': 'An kasa aika faɗakarwar gaggawa. Da fatan a sake gwadawa.',
+
+  'map.title': 'Taswira',
+  'map.timelineTitle': 'Tarihin wuri',
+  'map.locationsCount': 'Wurare {count}',
+  'map.location': 'Wuri',
+  'map.tripDestination': 'Inda tafiya za ta kai',
+  'map.today': 'Yau',
+  'map.yesterday': 'Jiya',
+  'map.secondsShort': '{count}s',
+  'map.stoppedFor': 'Ya tsaya {duration}',
+  'map.trackingOffFor': 'An kashe bin sawu {duration}',
+  'map.moving': 'Yana tafiya · {speed}',
+  'map.playbackSummary': 'Tsayawa {stops} · {distance} cikin {duration}',
+  'map.playbackGaps': 'Giɓi {count}',
+  'map.tapToSetCenter': 'Taɓa taswira don saita tsakiyar wurin',
+  'map.tapToOutline': 'Taɓa taswira don zana iyakar wurin (maki {count})',
+  'map.undo': 'Soke',
+  'map.done': 'An gama',
+  'map.tripArrived': 'Ya iso lafiya',
+  'map.tripCancelled': 'An soke tafiya',
+  'map.tripOverdueNoSignal': 'Ya makara - wuri ya daina aikawa',
+  'map.tripOverdueLate': 'Ya makara - ya wuce lokacin isowa',
+  'map.updatedAgo': 'An sabunta {time}',
+  'map.offline': 'Ba tare da intanet ba',
+  'map.failedToLoad': 'Taswira ta kasa lodawa',
+  'map.checkPlayServices': 'Da fatan ka duba Google Play Services da haɗin intanet',
+  'map.checkInternet': 'Da fatan ka duba haɗin intanet ɗinka',
+  'map.locationNotAvailable': 'Babu wuri',
+  'map.locationNotAvailableMessage': 'Babu wurin {name}. Wataƙila an kashe raba wuri.',
+  'map.user': 'Mai amfani',
+  'map.loadingTimeline': 'Ana loda tarihi...',
+  'map.noHistory': 'Babu tarihin wuri',
+  'map.noHistoryToday': 'Babu bayanan wuri na yau',
+  'map.noHistoryYesterday': 'Babu bayanan wuri na jiya',
+  'map.noHistoryOn': 'Babu bayanan wuri na {date}',
+  'map.movement': 'Motsi',
+  'map.unknownLocation': 'Wurin da ba a sani ba',
+  'map.places': 'Wurare',
+  'map.placesSubtitle': 'Samu sanarwa idan abokan hulɗarka sun isa ko sun bar waɗannan wurare.',
+  'map.noPlaces': 'Babu wurare tukuna. Ƙara gida, makaranta ko wurin aiki.',
+  'map.placeRadius': '{category} · radius {radius}',
+  'map.placeArea': '{category} · yanki mai maki {count}',
+  'map.addPlace': 'Ƙara wuri',
+  'map.editPlace': 'Gyara wuri',
+  'map.newPlace': 'Sabon wuri',
+  'map.name': 'Suna',
+  'map.namePlaceholder': 'misali Gida, Makaranta, Ofis',
+  'map.type': "Nau'i",
+  'map.shape': 'Siffa',
+  'map.circle': "Da'ira",
+  'map.customArea': 'Yanki na musamman',
+  'map.radius': 'Radius',
+  'map.moveCenter': 'Matsar da tsakiya a taswira',
+  'map.setCenter': 'Saita tsakiya a taswira',
+  'map.redrawArea': 'Sake zana yanki a taswira',
+  'map.drawArea': 'Zana yanki a taswira',
+  'map.alertArrives': 'Faɗakar idan wani ya iso',
+  'map.alertLeaves': 'Faɗakar idan wani ya tafi',
+  'map.savePlace': 'Adana wuri',
+  'map.placeCategory.home': 'Gida',
+  'map.placeCategory.school': 'Makaranta',
+  'map.placeCategory.work': 'Wurin aiki',
+  'map.placeCategory.other': 'Wani',
+  'map.notEnoughPoints': 'Maki ba su isa ba',
+  'map.notEnoughPointsMessage': 'Taɓa aƙalla maki 3 a taswira don zana iyakar wurin.',
+  'map.nameRequired': 'Ana buƙatar suna',
+  'map.nameRequiredMessage': 'Da fatan shigar da suna don wannan wuri.',
+  'map.locationRequired': 'Ana buƙatar wuri',
+  'map.locationRequiredMessage': 'Da fatan saita wurin a taswira.',
+  'map.areaRequired': 'Ana buƙatar yanki',
+  'map.areaRequiredMessage': 'Da fatan zana iyakar wurin da aƙalla maki 3 a taswira.',
+  'map.savePlaceFailed': 'An kasa adana wurin. Da fatan a sake gwadawa.',
+  'map.deletePlace': 'Share wuri',
+  'map.deletePlaceMessage': 'Daina karɓar faɗakarwar isowa/tafiya na {name}?',
+  'map.deletePlaceFailed': 'An kasa share wurin. Da fatan a sake gwadawa.',
+  'map.arrived': 'Ya iso',
+  'map.left': 'Ya tafi',
+
+  'connections.locationPermissionTitle': 'Ana buƙatar izinin wuri',
+  'connections.locationPermissionMessage': 'Ana buƙatar izinin wuri don raba wurinka da abokan hulɗarka.',
+  'connections.invalidInput': 'Shigarwa mara inganci',
+  'connections.enterPhone': 'Da fatan ka shigar da lambar waya.',
+  'connections.invalidPhone': 'Lambar waya mara inganci',
+  'connections.phoneLength': 'Da fatan ka shigar da lambar waya mai lambobi 11.',
+  'connections.cannotInviteSelf': 'Ba za ka iya gayyatar kanka ba.',
+  'connections.checkPhoneFailed': 'An kasa duba lambar waya. Da fatan a sake gwadawa.',
+  'connections.notOnAppTitle': 'Ba ya kan FamGuards tukuna',
+  'connections.notOnAppMessage': 'Ba a yi rajistar wannan lambar waya a manhajar ba. A aika masa hanyar gayyata? Za ta kai shi manhajar kuma ta haɗa ku da zarar ya yi rajista.',
+  'connections.sendInviteLink': 'Aika hanyar gayyata',
+  'connections.createInviteFailed': 'An kasa ƙirƙirar gayyata. Da fatan a sake gwadawa.',
+  'connections.alreadyConnected': 'An riga an haɗa',
+  'connections.alreadyConnectedMessage': 'Ka riga ka haɗu da wannan mai amfani.',
+  'connections.alreadyConnectedTo': 'Ka riga ka haɗu da {name}.',
+  'connections.invitationSent': 'An aika gayyata',
+  'connections.invitationAlreadySent': 'Ka riga ka aika gayyata zuwa wannan lambar waya.',
+  'connections.invitationSentTo': 'An aika gayyata zuwa {phone}. Za su sami sanarwa.',
+  'connections.sendInvitationFailed': 'An kasa aika gayyata. Da fatan a sake gwadawa.',
+  'connections.acceptFailed': 'An kasa karɓar gayyata. Da fatan a sake gwadawa.',
+  'connections.rejectFailed': 'An kasa ƙin gayyata. Da fatan a sake gwadawa.',
+  'connections.connected': 'An haɗa!',
+  'connections.nowConnected': 'Yanzu kun haɗu.',
+  'connections.nowConnectedTo': 'Yanzu ka haɗu da {name}.',
+  'connections.cancelInviteFailed': 'An kasa soke gayyata. Da fatan a sake gwadawa.',
+  'connections.inviteCancelled': 'An soke gayyata',
+  'connections.inviteCancelledMessage': 'Ba za a iya amfani da wannan gayyatar ba kuma.',
+  'connections.loadInviteFailed': 'An kasa loda gayyata. Da fatan a sake gwadawa.',
+  'connections.inviteTitle': 'Gayyatar haɗi',
+  'connections.invitePrompt': 'Haɗu da {name}? Za ku iya ganin wurin juna da faɗakarwar SOS.',
+  'connections.invitePromptUnknown': 'Haɗu da wannan mutumin? Za ku iya ganin wurin juna da faɗakarwar SOS.',
+  'connections.notNow': 'Ba yanzu ba',
+  'connections.connect': 'Haɗa',
+  'connections.invalidInvite': 'Gayyata mara inganci',
+  'connections.ownInvite': 'Ba za ka iya amfani da gayyatarka ba.',
+  'connections.inviteExpired': 'Gayyata ta ƙare',
+  'connections.inviteExpiredMessage': 'Wannan gayyatar ta ƙare ko an riga an yi amfani da ita. Nemi sabuwa.',
+  'connections.tooManyAttempts': 'Ƙoƙari ya yi yawa',
+  'connections.tryLater': 'Da fatan a sake gwadawa daga baya.',
+  'connections.inviteNotValid': 'Wannan gayyatar ba ta da inganci.',
+  'connections.couldNotConnect': 'An kasa haɗawa',
+  'connections.connectFailed': 'An kasa haɗawa. Da fatan a sake gwadawa.',
+  'connections.pasteInviteMessage': 'Liƙa hanyar gayyatar da ka karɓa.',
+  'connections.approveUnlock': 'Amince da buɗewa',
+  'connections.approveUnlockMessage': 'Amince da buɗe asusun {name}? Ka yi haka ne kawai idan ka san yana cikin aminci. Asusunsa na iya buƙatar amincewar abokan hulɗa fiye da ɗaya.',
+  'connections.approve': 'Amince',
+  'connections.approveUnlockFailed': 'An kasa amince da buɗewa. Da fatan a sake gwadawa.',
+  'connections.unlocked': 'An buɗe',
+  'connections.unlockedMessage': 'An buɗe {name} kuma yanzu zai iya shiga manhajar.',
+  'connections.approvalRecorded': 'An rubuta amincewa',
+  'connections.approvalRecordedMessage': 'Abokan hulɗa {approvals} cikin {required} sun amince. Za a buɗe {name} da zarar isassun abokan hulɗa sun amince.',
+  'connections.updateSharingFailed': 'An kasa sabunta raba wuri. Da fatan a sake gwadawa.',
+  'connections.shareMyLocationTitle': 'Raba wurina',
+  'connections.shareDurationPrompt': 'Har yaushe {name} zai ga wurinka?',
+  'connections.shareAlways': 'Koyaushe',
+  'connections.shareOneHour': 'Na awa 1',
+  'connections.shareEightHours': 'Na awa 8',
+  'connections.shareUntilArrive': 'Har in isa',
+  'connections.shareWeekdays': 'Ranakun aiki 7-9 na safe',
+  'connections.markSafe': 'Yi alamar aminci',
+  'connections.markSafeMessage': 'Kawo ƙarshen SOS na shiru na {name}? Ka yi haka ne kawai bayan ka tabbatar da kanka ko ta hanyar amintacciya cewa yana cikin aminci.',
+  'connections.endSilentSosFailed': 'An kasa kawo ƙarshen SOS na shiru. Da fatan a sake gwadawa.',
+  'connections.markedSafe': 'An yi alamar aminci',
+  'connections.markedSafeMessage': 'SOS na shiru na {name} ya ƙare.',
+  'connections.online': 'A kan layi',
+  'connections.offline': 'Ba a kan layi',
+  'connections.sharingDisabledTitle': 'An kashe raba wuri',
+  'connections.sharingDisabledMessage': '{name} ba zai iya ganin wurinka kai tsaye ba.',
+  'connections.removeFailed': 'An kasa cire abokin hulɗa. Da fatan a sake gwadawa.',
+  'connections.quickActions': 'Ayyuka masu sauri',
+  'connections.inviteByPhone': 'Gayyata ta waya',
+  'connections.sendInvitationSubtitle': 'Aika gayyata',
+  'connections.generating': 'Ana ƙirƙira...',
+  'connections.inviteLink': 'Hanyar gayyata',
+  'connections.qrOrLink': 'Lambar QR ko hanya',
+  'connections.openInvite': 'Buɗe gayyata',
+  'connections.connectNow': 'Haɗa yanzu',
+  'connections.findContacts': 'Nemo lambobin sadarwa a FamGuards',
+  'connections.pendingInvitations': 'Gayyatun da ke jira',
+  'connections.wantsToConnect': 'Yana so ya haɗu da kai',
+  'connections.accept': 'Karɓa',
+  'connections.reject': 'Ƙi',
+  'connections.loading': 'Ana loda abokan hulɗa...',
+  'connections.emptyTitle': 'Babu abokan hulɗa tukuna',
+  'connections.emptyText': 'Fara da gayyatar wani ta amfani da ayyuka masu sauri a sama',
+  'connections.yourConnections': 'Abokan hulɗarka',
+  'connections.unknownUser': 'Mai amfani da ba a sani ba',
+  'connections.accountLocked': 'An kulle asusu - yana buƙatar taimako',
+  'connections.underDuress': 'Yana iya kasancewa cikin tilas - kada ka kira ko aika saƙo',
+  'connections.sharingDisabled': 'An kashe raba wuri',
+  'connections.sharingWithYou': 'Yana raba maka: {status}',
+  'connections.viewOnMap': 'Duba a taswira',
+  'connections.chooseAction': 'Zaɓi aiki',
+  'connections.viewSos': 'Duba SOS',
+  'connections.markSafeEndSos': 'Yi alamar aminci (kawo ƙarshen SOS na shiru)',
+  'connections.removeConnection': 'Cire abokin hulɗa',
+  'connections.moreOptions': 'Ƙarin zaɓuɓɓuka',
+  'connections.shareMyLocation': 'Raba wurina',
+  'connections.pausedNow': ' (an dakata yanzu)',
+  'connections.change': 'Canza',
+  'connections.phonePlaceholder': 'Shigar da lambar waya mai lambobi 11',
+  'connections.sendInvitation': 'Aika gayyata',
+  'connections.invitationExpires': 'Gayyatar za ta ƙare cikin kwana 7',
+  'connections.yourInvite': 'Gayyatarka',
+  'connections.inviteHint': 'Bari su duba wannan lambar, ko ka raba hanyar. Tana aiki sau ɗaya kuma za ta ƙare {time}. Idan ba su da FamGuards tukuna, hanyar za ta kai su manhajar kuma gayyatar za ta jira har sai sun yi rajista.',
+  'connections.shareMessage': 'Haɗu da ni a FamGuards don mu riƙa kula da juna: {link}',
+  'connections.shareLink': 'Raba hanya',
+  'connections.copied': 'An kwafa!',
+  'connections.linkCopied': 'An kwafa hanyar gayyata zuwa allo.',
+  'connections.copyLink': 'Kwafa hanya',
+  'connections.cancelInvite': 'Soke gayyata',
+  'connections.pasteInvitePlaceholder': 'Liƙa hanyar gayyata',
+  'connections.openInviteHint': 'Liƙa hanyar gayyatar da ɗayan mutumin ya raba, ko ka duba lambar QR ɗinsa da kyamararka',
+
+  'locationSharing.always': 'Koyaushe',
+  'locationSharing.off': 'A kashe',
+  'locationSharing.timeLeft': 'Saura {time}',
+  'locationSharing.ending': 'Yana ƙarewa...',
+  'locationSharing.untilArrival': 'Har zuwa isowa',
+  'locationSharing.everyDay': 'Kowace rana',
+  'locationSharing.weekdays': 'Ranakun aiki',
+  'locationSharing.weekends': 'Ƙarshen mako',
+  'locationSharing.day1': 'Lit',
+  'locationSharing.day2': 'Tal',
+  'locationSharing.day3': 'Lar',
+  'locationSharing.day4': 'Alh',
+  'locationSharing.day5': 'Jum',
+  'locationSharing.day6': 'Asa',
+  'locationSharing.day7': 'Lah',
+
+  'batterySaving.description': 'Inganta aikin manhaja don adana baturi. Wasu fasaloli na iya zama masu iyaka.',
+  'batterySaving.activeProfile': 'Bayanin da ke aiki: {profile}',
+  'batterySaving.batteryLevel': '{reason} · Baturi {level}%',
+  'batterySaving.autoNote': 'Bibiya na raguwa kai tsaye idan baturinka ya faɗi ƙasa da {threshold}% kuma ba a caji.',
+  'batterySaving.enable': 'Kunna adana baturi',
+  'batterySaving.enableSubtitle': 'Rage ayyukan bango',
+  'batterySaving.reduceLocation': 'Rage sabunta wuri',
+  'batterySaving.reduceLocationSubtitle': 'Sabunta wuri ba akai-akai ba',
+  'batterySaving.reduceSync': 'Rage daidaitawar bango',
+  'batterySaving.reduceSyncSubtitle': 'Daidaita bayanai ba akai-akai ba',
+  'batterySaving.saveFailed': 'An kasa adana saitunan adana baturi. Da fatan a sake gwadawa.',
+  'batterySaving.profile.normal': 'Cikakken daidaito',
+  'batterySaving.profile.normalDescription': 'GPS daidai, ana raba wuri kowane minti 30 a bango.',
+  'batterySaving.profile.balanced': 'Daidaitacce',
+  'batterySaving.profile.balancedDescription': 'Ɗan rage daidaiton GPS da ƙarancin duba a gaba.',
+  'batterySaving.profile.saver': 'Mai adana baturi',
+  'batterySaving.profile.saverDescription': 'Wuri na kusan, ana sabuntawa kusan sau ɗaya a awa.',
+  'batterySaving.profile.critical': 'Baturi ya yi ƙasa sosai',
+  'batterySaving.profile.criticalDescription': 'Ƙaramin bibiya, ana sabuntawa kusan kowane awa 2 don wayarka ta ci gaba da aiki.',
+  'batterySaving.reason.default': 'An kashe adana baturi',
+  'batterySaving.reason.settings': 'Bisa saitunan adana baturinka',
+  'batterySaving.reason.lowBattery': 'Baturi ƙasa da {threshold}%',
+  'batterySaving.reason.lowPowerMode': "Yanayin ƙarancin wuta na na'ura yana kunne",
+
+  'locationAccuracy.description': 'Zaɓi yadda wurin da kake raba wa abokan hulɗarka zai kasance daidai.',
+  'locationAccuracy.exact': 'Ainihin wurin GPS',
+  'locationAccuracy.exactSubtitle': 'Raba ainihin wurinka da madaidaitan daidaitawa',
+  'locationAccuracy.approximate': 'Wuri na kusan',
+  'locationAccuracy.approximateSubtitle': 'Raba yanki gaba ɗaya (kusan kilomita 2) da garinka kawai don sirri',
+  'locationAccuracy.emergencyInfo': 'A lokacin SOS ko gaggawa, ana raba ainihin wurinka koyaushe don abokan hulɗarka su same ka.',
+  'locationAccuracy.emergencyActive': 'Bibiyar gaggawa tana aiki. Ana raba ainihin wurinka har sai ta ƙare.',
+  'locationAccuracy.saveFailed': 'An kasa adana saitin daidaiton wuri. Da fatan a sake gwadawa.',
+
+  'updateFrequency.option15': 'Minti 15',
+  'updateFrequency.option15Description': 'Sabunta wuri kowane minti 15',
+  'updateFrequency.option30': 'Minti 30',
+  'updateFrequency.option30Description': 'Sabunta wuri kowane minti 30',
+  'updateFrequency.option60': 'Awa 1',
+  'updateFrequency.option60Description': 'Sabunta wuri kowace awa (an ba da shawara)',
+  'updateFrequency.option120': 'Awa 2',
+  'updateFrequency.option120Description': 'Sabunta wuri kowane awa 2',
+  'updateFrequency.option180': 'Awa 3',
+  'updateFrequency.option180Description': 'Sabunta wuri kowane awa 3',
+  'updateFrequency.description': 'Zaɓi yawan sabunta wurinka da raba shi da abokan hulɗarka. Sabuntawa akai-akai ya fi daidai amma yana cin baturi sosai.',
+  'updateFrequency.current': 'Na yanzu',
+  'updateFrequency.info': 'Za a riƙa sabunta wurinka kai tsaye a tazarar da ka zaɓa idan raba wuri yana kunne. Kana iya canza wannan saitin a kowane lokaci.',
+  'updateFrequency.loadFailed': 'An kasa loda saituna. Ana amfani da ƙimomin tsoho.',
+  'updateFrequency.saveFailed': 'An kasa adana yawan sabunta wuri. Da fatan a sake gwadawa.',
+
+  'sleepMode.description': 'Yanayin barci yana rage sanarwa da sabunta wuri a lokacin barcinka don kada a dame ka. Faɗakarwar SOS da gaggawar rajista koyaushe suna zuwa.',
+  'sleepMode.enable': 'Kunna yanayin barci',
+  'sleepMode.enableSubtitle': 'Rage sanarwa a lokacin barci',
+  'sleepMode.hours': 'Lokacin barci',
+  'sleepMode.startTime': 'Lokacin farawa',
+  'sleepMode.endTime': 'Lokacin ƙarewa',
+  'sleepMode.timePickerNote': 'Ana iya ƙara mai zaɓin lokaci a nan',
+  'sleepMode.saveFailed': 'An kasa adana saitin yanayin barci. Da fatan a sake gwadawa.',
+
+  'editProfile.name': 'Suna',
+  'editProfile.namePlaceholder': 'Shigar da sunanka',
+  'editProfile.email': 'Imel',
+  'editProfile.emailPlaceholder': 'Shigar da imel ɗinka',
+  'editProfile.phone': 'Waya',
+  'editProfile.phonePlaceholder': 'Shigar da lambar wayarka',
+  'editProfile.save': 'Adana canje-canje',
+  'editProfile.nameRequired': 'Ana buƙatar suna',
+  'editProfile.saved': 'An sabunta bayanan martaba',
+  'editProfile.saveFailed': 'An kasa sabunta bayanan martaba. Da fatan a sake gwadawa.',
+
+  'emergencyNotes.description': 'Ƙara muhimman bayanan lafiya, rashin lafiyar jiki, magunguna, ko lambobin gaggawa da ya kamata abokan hulɗarka su gani idan gaggawa ta faru.',
+  'emergencyNotes.placeholder': 'Shigar da bayanan gaggawa...',
+  'emergencyNotes.save': 'Adana bayanai',
+  'emergencyNotes.saved': 'An sabunta bayanan gaggawa',
+  'emergencyNotes.saveFailed': 'An kasa sabunta bayanan gaggawa. Da fatan a sake gwadawa.',
+
+  'locked.title': 'An kulle manhaja',
+  'locked.secured': 'AN KARE',
+  'locked.restricted': 'An taƙaita shiga manhajar na ɗan lokaci.',
+  'locked.messageWithPin': 'Shigar da PIN ɗinka, ko ka roƙi amintattun abokan hulɗarka su amince da buɗe asusunka.',
+  'locked.messageNoPin': 'Da fatan ka tuntuɓi amintattun abokan hulɗarka don su amince da buɗe asusunka.',
+  'locked.pinPlaceholder': 'Shigar da PIN ɗinka',
+  'locked.unlock': 'Buɗe',
+  'locked.pinCheckFailed': 'An kasa duba PIN ɗinka. Da fatan a sake gwadawa.',
+  'locked.incorrectPinOne': 'PIN ba daidai ba. Saura ƙoƙari 1.',
+  'locked.incorrectPin': 'PIN ba daidai ba. Saura ƙoƙari {count}.',
+  'locked.tooManyAttempts': 'Kuskuren ƙoƙari sun yi yawa. Roƙi abokan hulɗarka su amince da buɗewa.',
+  'locked.noApprovers': 'Babu ɗaya daga cikin abokan hulɗarka da zai iya amince da buɗewa. Yi amfani da PIN ɗinka.',
+  'locked.approvalsOne': '{approved} cikin abokin hulɗa 1 ya amince da buɗewa',
+  'locked.approvals': '{approved} cikin abokan hulɗa {required} sun amince da buɗewa',
+  'locked.exactLocation': 'Ana raba ainihin wurinka da abokan hulɗarka har sai an buɗe asusunka.',
+  'locked.checkingStatus': 'Ana duba yanayin kulle...',
+
+  'update.title': 'Ana buƙatar sabuntawa',
+  'update.subtitle': 'Akwai sabon sigar FamGuard',
+  'update.message': 'Da fatan ka sabunta zuwa sabon sigar don ci gaba da amfani da manhajar da samun sabbin fasaloli.',
+  'update.currentVersion': 'Sigar yanzu: {version}',
+  'update.updateNow': 'Sabunta yanzu',
+  'update.storeInfo': 'Manhajar za ta buɗe maka {store} kai tsaye',
+
+  'offlineMaps.totalStorage': "Jimillar ma'aji: {size}",
+  'offlineMaps.emptyTitle': 'Babu taswirori na waje da layi',
+  'offlineMaps.emptyText': 'Zazzage taswirorin wuraren da ba su da kyakkyawar hanyar sadarwa don amfani da su ba tare da layi ba.',
+  'offlineMaps.downloadFirst': 'Zazzage taswirarka ta farko',
+  'offlineMaps.tiles': '{size} • tayal {count}',
+  'offlineMaps.downloadedOn': 'An zazzage {date}',
+  'offlineMaps.downloadTitle': 'Zazzage taswira ta waje da layi',
+  'offlineMaps.mapName': 'Sunan taswira',
+  'offlineMaps.mapNamePlaceholder': 'misali: Unguwar gida, Hanyar aiki',
+  'offlineMaps.selectRegion': 'Zaɓi yanki',
+  'offlineMaps.selectRegionHint': 'Ja ka zuƙo don zaɓar yankin da kake so ka zazzage',
+  'offlineMaps.downloading': 'Ana zazzagewa...',
+  'offlineMaps.tileProgress': 'Tayal {done} / {total}',
+  'offlineMaps.downloadMap': 'Zazzage taswira',
+  'offlineMaps.loadFailed': 'An kasa loda taswirori na waje da layi.',
+  'offlineMaps.nameRequired': 'Da fatan ka shigar da sunan taswirar.',
+  'offlineMaps.regionRequired': 'Da fatan ka zaɓi yanki a kan taswira.',
+  'offlineMaps.downloaded': 'An zazzage taswirar "{name}"!',
+  'offlineMaps.downloadFailed': 'An kasa zazzage taswira. Da fatan a sake gwadawa.',
+  'offlineMaps.deleteTitle': 'Share taswira',
+  'offlineMaps.deleteMessage': 'Ka tabbata kana so ka share "{name}"? Wannan zai ba da {size} na ma\'aji.',
+  'offlineMaps.deleteFailed': 'An kasa share taswira.',
+  'offlineMaps.locationFailed': 'An kasa samun wurin yanzu.',
+
+  'incidentDetail.title': 'Bayanan abin da ya faru',
+  'incidentDetail.verified': 'An tabbatar',
+  'incidentDetail.status': 'Matsayi',
+  'incidentDetail.status.ongoing': 'Yana ci gaba',
+  'incidentDetail.status.contained': 'An shawo kai',
+  'incidentDetail.status.resolved': 'An warware',
+  'incidentDetail.reporterMarked': '{name} ya sanya wannan a matsayin {status}',
+  'incidentDetail.communityMarked': "Al'umma ta sanya wannan a matsayin {status}",
+  'incidentDetail.reporter': 'Mai rahoto',
+  'incidentDetail.reply': 'Amsa',
+  'incidentDetail.statusVoteRecorded': "An rubuta ƙuri'arka",
+  'incidentDetail.statusConsensus': 'Matsayin zai canza da zarar mutane {count} sun amince.',
+  'incidentDetail.statusFailed': 'An kasa sabunta matsayin. Da fatan a sake gwadawa.',
+  'incidentDetail.locationUnavailable': 'Babu wurin da kake',
+  'incidentDetail.locationUnavailableMessage': 'Za a wallafa sabuntawarka ba tare da wuri ba.',
+  'incidentDetail.postFailed': 'An kasa wallafa sabuntawarka. Da fatan a sake gwadawa.',
+  'incidentDetail.reporterHint': 'Kai ne ka kawo rahoton wannan abin. Ka riƙa sabunta matsayinsa.',
+  'incidentDetail.statusHint': 'Har yanzu yana faruwa? Matsayin zai canza da zarar mutane {count} sun amince.',
+  'incidentDetail.description': 'Bayani',
+  'incidentDetail.reportedBy': '{name} ne ya kawo rahoto',
+  'incidentDetail.anonymous': 'Ba a san sunansa ba',
+  'incidentDetail.you': 'Kai',
+  'incidentDetail.directions': 'Samun hanya',
+  'incidentDetail.updates': 'Sabuntawa',
+  'incidentDetail.noUpdates': 'Babu sabuntawa tukuna. Ka ga wani sabon abu? Ka sanar da wasu.',
+  'incidentDetail.replyingTo': 'Ana amsa wa {name}',
+  'incidentDetail.replyPlaceholder': 'Rubuta amsa',
+  'incidentDetail.updatePlaceholder': "misali: 'Yan sanda sun iso",
+  'incidentDetail.includeLocation': 'Haɗa da wurin da nake',
+  'incidentDetail.post': 'Wallafa',
+
+  'incidentDetail.voteFailed': "An kasa rubuta ƙuri'arka. Da fatan a sake gwadawa.",
+  'incidentDetail.isAccurate': 'Wannan daidai ne?',
+  'incidentDetail.confirmVote': 'Zan iya tabbatarwa ({count})',
+  'incidentDetail.falseVote': 'Wannan ƙarya ne ({count})',
+  'incidentDetail.voteHintReporter': 'Wasu da ke kusa za su iya tabbatar da rahotonka.',
+  'incidentDetail.voteHint': "Ƙuri'un mutanen da ke kusa da abin da ya faru sun fi muhimmanci.",
+
+  'incidents.filterMinutes': 'minti {count}',
+  'incidents.filterHours': 'awa {count}',
+  'incidents.loading': 'Ana loda abubuwan da suka faru...',
+  'incidents.noReports': 'Babu rahotanni na kwanan nan',
+  'incidents.noReportsMessage': 'Babu wani abin da aka ruwaito kwanan nan a yankinka. Ka kasance lafiya!',
+
+  'travelAdvisory.title': 'Shawarwarin tafiya',
+  'travelAdvisory.subtitle': 'Ka kasance da masaniya kan haɗarin tafiya',
+  'travelAdvisory.calculateRouteRisk': 'Lissafa haɗarin hanya',
+  'travelAdvisory.originState': 'Jihar tashi *',
+  'travelAdvisory.originCity': 'Garin tashi (na zaɓi)',
+  'travelAdvisory.destinationState': 'Jihar da za a je *',
+  'travelAdvisory.destinationCity': 'Garin da za a je (na zaɓi)',
+  'travelAdvisory.originStatePlaceholder': 'misali: Legas',
+  'travelAdvisory.originCityPlaceholder': 'misali: Ikeja',
+  'travelAdvisory.destinationStatePlaceholder': 'misali: Abuja',
+  'travelAdvisory.destinationCityPlaceholder': 'misali: Garki',
+  'travelAdvisory.calculateRisk': 'Lissafa haɗari',
+  'travelAdvisory.statesRequired': 'Da fatan ka shigar da jihar tashi da jihar da za a je.',
+  'travelAdvisory.routeRiskFailed': 'An kasa lissafa haɗarin hanyar. Da fatan a sake gwadawa.',
+  'travelAdvisory.routeRiskTitle': 'Kimanta haɗarin hanya',
+  'travelAdvisory.riskScore': 'Makin haɗari',
+  'travelAdvisory.last24h': 'Awa 24 da suka wuce',
+  'travelAdvisory.last7Days': 'Kwanaki 7 da suka wuce',
+  'travelAdvisory.last30Days': 'Kwanaki 30 da suka wuce',
+  'travelAdvisory.incidentsNearRoute': 'Abubuwan da suka faru cikin {distance} daga hanyar',
+  'travelAdvisory.incidentsInAreas': 'Abubuwan da suka faru a yankunan tashi da isowa',
+  'travelAdvisory.forYourLocation': 'Shawarwari don wurin da kake',
+  'travelAdvisory.noAdvisories': 'Babu shawarwari masu aiki',
+  'travelAdvisory.locationSafe': 'Wurin da kake yanzu yana da alama lafiya',
+  'travelAdvisory.affectedAreas': 'Yankunan da abin ya shafa:',
+  'travelAdvisory.source': 'Tushe: {source}',
+  'travelAdvisory.risk.low': 'Ƙaramin haɗari',
+  'travelAdvisory.risk.moderate': 'Matsakaicin haɗari',
+  'travelAdvisory.risk.high': 'Babban haɗari',
+  'travelAdvisory.risk.critical': 'Haɗari mai tsanani',
+  'travelAdvisory.type.security': 'TSARO',
+  'travelAdvisory.type.weather': 'YANAYI',
+  'travelAdvisory.type.combined': 'HAƊAƊƊE',
+
+  'checkInSettings.saved': 'An adana saituna.',
+  'checkInSettings.saveFailed': 'An kasa adana saituna. Da fatan a sake gwadawa.',
+  'checkInSettings.enable': 'Kunna tabbatar da lafiya',
+  'checkInSettings.enableDescription': 'Ba da damar tabbatar da lafiya lokaci-lokaci',
+  'checkInSettings.interval': 'Tazarar tabbatarwa',
+  'checkInSettings.intervalLabel': 'Tazara (mintuna)',
+  'checkInSettings.intervalHint': 'Sau nawa kake son tabbatarwa (na asali: mintuna {minutes})',
+  'checkInSettings.automatic': 'Tabbatarwa ta atomatik',
+  'checkInSettings.automaticDescription': 'Tabbatarwa kai tsaye a tazarar da aka tsara',
+  'checkInSettings.duringTravel': 'Tabbatarwa ta atomatik yayin tafiya',
+  'checkInSettings.duringTravelDescription': 'Tabbatarwa kai tsaye lokacin da kake tafiya',
+  'checkInSettings.travelDetection': 'Gano tafiya',
+  'checkInSettings.speedThreshold': 'Iyakar gudu ({unit})',
+  'checkInSettings.speedThresholdHint': 'Ana ɗaukar tafiya idan gudu ya wuce wannan iyaka (na asali: {speed})',
+  'checkInSettings.missedAlerts': 'Faɗakarwar tabbatarwar da aka rasa',
+  'checkInSettings.alertAfter': 'Faɗakar bayan (mintuna)',
+  'checkInSettings.alertAfterHint': 'Faɗakar da abokan hulɗar gaggawa idan an rasa tabbatarwa da wannan tsawon lokaci (na asali: mintuna {minutes})',
+  'checkInSettings.aboutTitle': 'Game da tabbatar da lafiya',
+  'checkInSettings.aboutText': 'Tabbatar da lafiya na taimaka wa abokan hulɗarka na gaggawa su san kana lafiya. Za ka iya tabbatarwa da kanka a kowane lokaci ko ka saita tabbatarwa ta atomatik.',
+  'checkInSettings.aboutMissed': 'Idan ka rasa tabbatarwar da aka tsara, za a sanar da abokan hulɗarka na gaggawa.',
+  'checkInSettings.save': 'Adana saituna',
+
+  'profile.loading': 'Ana loda bayanan martaba...',
+  'profile.circlesSubtext': 'Wanda ke samun wurinka da faɗakarwarka',
+  'profile.shareLocationSubtext': 'Abokan haɗinka za su iya gani',
+  'profile.communityReportsSubtext': 'Nuna abubuwan da suka faru a kusa',
+  'profile.accountLockSubtext': 'PIN na buɗewa da amincewar haɗi',
+  'profile.locationAccuracySubtext': 'GPS daidai ko kusan',
+  'profile.locationUpdateFrequencySubtext': 'Sau nawa ake sabunta wuri',
+  'profile.pushNotificationsSubtext': 'Karɓi faɗakarwar tsaro',
+  'profile.testPushNotificationSubtext': "Aika sanarwar gwaji zuwa wannan na'ura",
+  'profile.warning': 'Gargaɗi',
+  'profile.unknownError': 'Kuskure da ba a sani ba',
+  'profile.continue': 'Ci gaba',
+  'profile.physicalDeviceTitle': "Ana buƙatar na'ura ta gaske",
+  'profile.physicalDeviceMessage': "Sanarwar push suna aiki ne kawai a kan na'urori na gaske, ba a kan simulator ko emulator ba. Da fatan za a gwada a kan na'ura ta gaske.",
+  'profile.permissionRequired': 'Ana buƙatar izini',
+  'profile.permissionDeniedSettings': 'Sanarwar push na buƙatar izinin sanarwa. Da alama ka ƙi wannan izini a baya.\n\nDa fatan ka kunna shi da kanka:\n1. Je zuwa Settings\n2. Taɓa Apps > FamGuard\n3. Taɓa Notifications\n4. Kunna "Show notifications"',
+  'profile.permissionPrompt': 'Sanarwar push na buƙatar izinin sanarwa don faɗakar da kai game da gaggawa.\n\nDa fatan ka ba da izini idan an tambaye ka don karɓar muhimman faɗakarwar tsaro.',
+  'profile.pushTokenFailed': 'An ba da izini amma an kasa yin rajistar token na push. Sanarwa ba za su yi aiki ba. Da fatan za a sake gwadawa daga baya.',
+  'profile.permissionNotGranted': 'Ba a ba da izini ba',
+  'profile.permissionNotGrantedMessage': 'Ana buƙatar izinin sanarwa don sanarwar push. Da fatan ka ba da izini don kunna sanarwa.',
+  'profile.notificationsSaveFailed': 'An kasa adana saitunan sanarwa. Da fatan za a sake gwadawa.',
+  'profile.notificationsSaveFailedDetail': 'An kasa adana saitunan sanarwa: {error}\n\nDa fatan za a sake gwadawa.',
+  'profile.notificationsEnabled': 'An kunna sanarwar push! Za ka karɓi faɗakarwar gaggawa da sanarwar tsaro.',
+  'profile.notificationsSavedNoPermission': "An adana saitin sanarwa, amma ba a ba da izini ba. Da fatan ka kunna sanarwa a saitunan na'ura.",
+  'profile.communityReportsSaveFailed': "An kasa adana saitunan rahoton al'umma. Da fatan za a sake gwadawa.",
+  'profile.locationSharingSaveFailed': 'An kasa adana saitunan raba wuri. Da fatan za a sake gwadawa.',
+  'profile.userNotFound': 'Ba a sami mai amfani ba. Da fatan ka shiga ka sake gwadawa.',
+  'profile.testPermissionMessage': 'Sanarwar push na buƙatar izinin sanarwa. Da fatan ka kunna shi a Settings > Apps > FamGuard > Notifications, ko ka kunna Sanarwar Push a Bayanan martaba.',
+  'profile.tokenNotFound': 'Ba a sami token ba',
+  'profile.tokenNotFoundMessage': 'Ba a yi rajistar token na sanarwar push ba. Da fatan ka kunna Sanarwar Push a Bayanan martaba don yin rajistar token ɗinka.',
+  'profile.testPushConfirm': "Wannan zai aika sanarwar gwaji zuwa na'urarka. Ci gaba?",
+  'profile.sendTest': 'Aika gwaji',
+  'profile.testPushSendFailed': 'An kasa aika sanarwar gwaji: {error}\n\nDuba bayanan Edge Function don cikakken bayani.',
+  'profile.testPushSuccessTitle': '✅ An yi nasara!',
+  'profile.testPushSuccess': "An aika sanarwar gwaji!\n\nDuba sanarwar na'urarka. Ya kamata ka karɓe ta nan ba da jimawa ba.\n\nAn aika: {sent}\nAn kasa: {failed}",
+  'profile.testPushNoneSentTitle': '⚠️ Ba a aika sanarwa ba',
+  'profile.testPushNoneSent': '{message}\n\nWannan yawanci yana nufin:\n• Ba a sami token a rumbun bayanai ba\n• Token ya ƙare ko ba shi da inganci\n• Gwada kashe Sanarwar Push ka sake kunna ta',
+  'profile.testPushUnknownTitle': '⚠️ Sakamako da ba a sani ba',
+  'profile.testPushUnknown': "Buƙatar sanarwa ta kammala amma babu tabbaci. Duba sanarwar na'urarka.",
+  'profile.testPushFailed': 'An kasa gwada sanarwa: {error}\n\nDa fatan za a sake gwadawa.',
+  'profile.signOutConfirm': 'Ka tabbata kana son fita?',
+  'profile.signOutFailed': 'An kasa fita. Da fatan za a sake gwadawa.',
+  'profile.deleteAccountConfirm': 'Ka tabbata kana son share asusunka? Ba za a iya soke wannan ba. Za a share duk bayananka, haɗinka da saitunanka har abada.',
+  'profile.finalConfirmation': 'Tabbaci na ƙarshe',
+  'profile.finalConfirmationMessage': 'Wannan zai share asusunka da duk bayanan da ke da alaƙa har abada. Ka tabbata sosai?',
+  'profile.confirmDeleteAccount': 'Ee, share asusuna',
+  'profile.deleteAccountFailed': 'An kasa share asusu. Da fatan za a sake gwadawa.',
+  'profile.deleteUrlMissing': 'Ba a saita URL na share asusu ba. Da fatan ka tuntuɓi tallafi.',
+  'profile.deleteViaWebsiteMessage': 'Za a tura ka zuwa shafin yanar gizonmu don kammala share asusu.',
+  'profile.openWebsiteFailed': 'An kasa buɗe shafin yanar gizo. Da fatan za a sake gwadawa daga baya.',
+};
+
+export default ha;
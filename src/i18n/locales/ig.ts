@@ -0,0 +1,998 @@
+import type { TranslationCatalog } from '../index';
+
+// Igbo
+const ig: TranslationCatalog = {
+  'common.error': 'Njehie',
+  'common.success': 'O mechara',
+  'common.ok': 'Ọ dị mma',
+  'common.cancel': 'Kagbuo',
+  'common.save': 'Chekwaa',
+  'common.delete': 'Hichapụ',
+  'common.loadingSettings': 'Na-ebugo ntọala...',
+  'common.tryAgain': 'Ihe adịghị mma mere. Biko nwaa ọzọ.',
+  'common.openSettings': 'Meghee Ntọala',
+
+  'tabs.home': 'Ụlọ',
+  'tabs.incidents': 'Ihe mere',
+  'tabs.connections': 'Ndị m',
+  'tabs.profile': 'Profaịlụ',
+
+  'profile.personalInformation': 'Ozi onwe',
+  'profile.editProfile': 'Dezie profaịlụ',
+  'profile.connections': 'Ndị m',
+  'profile.circles': 'Okirikiri na ọrụ',
+  'profile.emergencyNotes': 'Ndetu mberede',
+  'profile.safetyPrivacy': 'Nchekwa na nzuzo',
+  'profile.shareLocation': 'Kesaa ebe m nọ',
+  'profile.communityReports': 'Akụkọ obodo',
+  'profile.locationAccuracy': 'Izi ezi nke ebe',
+  'profile.locationUpdateFrequency': 'Ugboro mmelite ebe',
+  'profile.notifications': 'Ọkwa',
+  'profile.pushNotifications': 'Ọkwa ekwentị',
+  'profile.testPushNotification': 'Nwalee ọkwa',
+  'profile.sleepMode': 'Ọnọdụ ụra',
+  'profile.notificationFilters': 'Nzacha ọkwa',
+  'profile.accountLock': 'Mkpọchi na mmeghe SOS',
+  'profile.appSettings': 'Ntọala ngwa',
+  'profile.languageRegion': 'Asụsụ na mpaghara',
+  'profile.units': 'Nha (km / maịlụ)',
+  'profile.batterySaving': 'Nchekwa batrị',
+  'profile.offlineMaps': 'Maapụ na-enweghị ịntanetị',
+  'profile.usersManual': 'Akwụkwọ ntuziaka',
+  'profile.helpSupport': 'Enyemaka',
+  'profile.privacyPolicy': 'Iwu nzuzo',
+  'profile.termsOfService': 'Usoro ojiji',
+  'profile.accountManagement': 'Njikwa akaụntụ',
+  'profile.deleteAccount': 'Hichapụ akaụntụ',
+  'profile.deleteAccountWebsite': 'Hichapụ akaụntụ na weebụsaịtị',
+  'profile.signOut': 'Pụọ',
+
+  'languageRegion.title': 'Asụsụ na mpaghara',
+  'languageRegion.language': 'Asụsụ',
+  'languageRegion.region': 'Mpaghara',
+  'languageRegion.saveLanguageFailed': 'Enweghị ike ịchekwa asụsụ. Biko nwaa ọzọ.',
+  'languageRegion.saveRegionFailed': 'Enweghị ike ịchekwa mpaghara. Biko nwaa ọzọ.',
+
+  'units.title': 'Nha',
+  'units.description': 'Họrọ usoro nha maka anya, ọsọ na ọkwa.',
+  'units.metric': 'Metriki (km, m)',
+  'units.metricSubtitle': 'Kilomita na mita',
+  'units.imperial': 'Imperial (maịlụ, ụkwụ)',
+  'units.imperialSubtitle': 'Maịlụ na ụkwụ',
+  'units.saveFailed': 'Enweghị ike ịchekwa usoro nha. Biko nwaa ọzọ.',
+
+  'incidents.safetyFeed': 'Akụkọ nchekwa',
+  'incidents.distanceAway': '{distance} site ebe a',
+  'incidents.category.robbery': 'Ohi',
+  'incidents.category.kidnapping': 'Ntọrị mmadụ',
+  'incidents.category.accident': 'Ihe mberede',
+  'incidents.category.fire': 'Ọkụ',
+  'incidents.category.protest': 'Ngagharị iwe',
+  'incidents.category.assault': 'Mwakpo',
+  'incidents.category.theft': 'Izu ohi',
+  'incidents.category.other': 'Ọzọ',
+
+  'time.justNow': 'Ugbu a',
+  'time.minuteAgo': 'nkeji 1 gara aga',
+  'time.minutesAgo': 'nkeji {count} gara aga',
+  'time.hourAgo': 'awa 1 gara aga',
+  'time.hoursAgo': 'awa {count} gara aga',
+  'time.dayAgo': 'ụbọchị 1 gara aga',
+  'time.daysAgo': 'ụbọchị {count} gara aga',
+  'time.weekAgo': 'izu 1 gara aga',
+  'time.weeksAgo': 'izu {count} gara aga',
+  'time.monthAgo': 'ọnwa 1 gara aga',
+  'time.monthsAgo': 'ọnwa {count} gara aga',
+  'time.yearAgo': 'afọ 1 gara aga',
+  'time.yearsAgo': 'afọ {count} gara aga',
+  'time.todayAt': 'Taa n\'elekere {time}',
+  'time.yesterdayAt': 'Ụnyahụ n\'elekere {time}',
+  'time.dateAt': '{date} n\'elekere {time}',
+
+  'lastSeen.onlineNow': 'Nọ n\'ịntanetị ugbu a',
+  'lastSeen.active': 'Rụrụ ọrụ {time}',
+  'lastSeen.lastSeen': 'Ahụrụ ikpeazụ {time}',
+
+  'checkIn.title': 'Ndebanye nchekwa',
+  'checkIn.subtitle': 'Mee ka ndị kọntaktị gị mara na ị nọ na nchekwa',
+  'checkIn.quickCheckIn': 'Ndebanye ngwa ngwa',
+  'checkIn.imSafe': 'Anọ m na nchekwa',
+  'checkIn.delayed': 'Egbu oge',
+  'checkIn.checkingIn': 'Na-edebanye...',
+  'checkIn.lastCheckIn': 'Ndebanye ikpeazụ',
+  'checkIn.recentCheckIns': 'Ndebanye ndị na-adịbeghị anya',
+  'checkIn.status.safe': 'NCHEKWA',
+  'checkIn.status.unsafe': "NỌ N'IHE IZE NDỤ",
+  'checkIn.status.delayed': 'EGBU OGE',
+  'checkIn.status.missed': 'AGAFEGO',
+  'checkIn.successTitle': '✅ Ndebanye gara nke ọma',
+  'checkIn.successMessage': 'Emelitela ọnọdụ nchekwa gị.',
+  'checkIn.failed': 'Ndebanye adaghị. Biko nwaa ọzọ.',
+  'checkIn.settingsTitle': 'Ntọala ndebanye',
+  'checkIn.autoCheckInsEnabled': 'Ndebanye akpaaka: Agbanyere',
+  'checkIn.autoCheckInsDisabled': 'Ndebanye akpaaka: Agbanyụrụ',
+  'checkIn.interval': 'Oge: Nkeji {minutes} ọ bụla',
+  'checkIn.emergencyContacts': 'Kọntaktị mberede: {count}',
+
+  'notificationFilters.sosAlert': 'Ọkwa SOS',
+  'notificationFilters.sosAlertSubtitle': "Ọkwa mberede sitere n'aka ndị gị",
+  'notificationFilters.sosResponse': 'Nzaghachi SOS',
+  'notificationFilters.sosResponseSubtitle': 'Onye na-azaghachi SOS',
+  'notificationFilters.checkInEmergency': 'Ndebanye mberede',
+  'notificationFilters.checkInEmergencySubtitle': 'Ndị gị na-akọ mberede',
+  'notificationFilters.checkInUnsafe': 'Ndebanye enweghị nchekwa',
+  'notificationFilters.checkInUnsafeSubtitle': 'Ndị gị na-akọ na ha anọghị na nchekwa',
+  'notificationFilters.missedCheckIn': 'Ndebanye agafere',
+  'notificationFilters.missedCheckInSubtitle': 'Ndị gị agafeghị ndebanye ahaziri ahazi',
+  'notificationFilters.tripOverdue': 'Njem gafere oge',
+  'notificationFilters.tripOverdueSubtitle': 'Njem gafere oge ma ọ bụ kwụsịrị ịkọ',
+  'notificationFilters.incidentProximity': 'Ihe mere nso',
+  'notificationFilters.incidentProximitySubtitle': 'Ihe e kọrọ na nso gị',
+  'notificationFilters.incident': 'Akụkọ ihe mere',
+  'notificationFilters.incidentSubtitle': 'Ihe ọhụrụ mere na akụkọ nchekwa',
+  'notificationFilters.placeArrival': "Mbata n'ebe",
+  'notificationFilters.placeArrivalSubtitle': 'Ndị gị rutere ebe gị',
+  'notificationFilters.placeDeparture': "Mpụ n'ebe",
+  'notificationFilters.placeDepartureSubtitle': 'Ndị gị hapụrụ ebe gị',
+  'notificationFilters.checkIn': 'Ndebanye',
+  'notificationFilters.checkInSubtitle': "Ndebanye oge niile sitere n'aka ndị gị",
+  'notificationFilters.tripStarted': 'Njem malitere',
+  'notificationFilters.tripStartedSubtitle': 'Ndị gị na-ekerịta njem gị na ha',
+  'notificationFilters.tripArrived': 'Mbata njem',
+  'notificationFilters.tripArrivedSubtitle': 'Ndị gị rutere ebe ha na-aga',
+  'notificationFilters.tripCancelled': 'Akagbuola njem',
+  'notificationFilters.tripCancelledSubtitle': "Ndị gị kwụsịrị njem ha kerịtara n'oge",
+  'notificationFilters.travelAdvisory': 'Ndụmọdụ njem',
+  'notificationFilters.travelAdvisorySubtitle': 'Ndụmọdụ nchekwa maka njem gị',
+  'notificationFilters.routeRisk': 'Ihe ize ndụ ụzọ',
+  'notificationFilters.routeRiskSubtitle': 'Ịdọ aka ná ntị maka ụzọ a haziri',
+  'notificationFilters.connectionAdded': 'Ndị ọhụrụ',
+  'notificationFilters.connectionAddedSubtitle': 'Mmadụ tinyere gị dịka onye ya',
+  'notificationFilters.locationReminder': 'Ncheta ọnọdụ',
+  'notificationFilters.locationReminderSubtitle': 'Ncheta ka imelite ebe ị nọ',
+  'notificationFilters.morningGreeting': 'Ekele ụtụtụ',
+  'notificationFilters.morningGreetingSubtitle': 'Ozi ụtụtụ ọma kwa ụbọchị',
+  'notificationFilters.afternoonGreeting': 'Ekele ehihie',
+  'notificationFilters.afternoonGreetingSubtitle': 'Ozi ehihie ọma kwa ụbọchị',
+  'notificationFilters.appUpdate': 'Mmelite ngwa',
+  'notificationFilters.appUpdateSubtitle': 'Ụdị ọhụrụ nke FamGuard',
+  'notificationFilters.title': 'Nzacha ọkwa',
+  'notificationFilters.description': "Họrọ ọkwa ị ga-anata. Ọkwa SOS na ndebanye mberede na-abịa mgbe niile, ọbụna site n'aka ndị i mere ka ha gbachi nkịtị.",
+  'notificationFilters.safetyAlerts': 'Ọkwa nchekwa',
+  'notificationFilters.alerts': 'Ọkwa',
+  'notificationFilters.updatesGreetings': 'Mmelite na ekele',
+  'notificationFilters.connections': 'Ndị gị',
+  'notificationFilters.noConnections': 'Ị nweghị onye ọ bụla ugbu a.',
+  'notificationFilters.alwaysOn': 'Na-arụ mgbe niile',
+  'notificationFilters.connectionMuted': 'Agbachiri nkịtị - ọkwa nchekwa naanị',
+  'notificationFilters.connectionAll': 'Ọkwa niile',
+  'notificationFilters.saveFailed': 'Enweghị ike ịchekwa nzacha ọkwa. Biko nwaa ọzọ.',
+
+  'findContacts.title': 'Chọta kọntaktị',
+  'findContacts.introTitle': 'Chọta ndị ị ma',
+  'findContacts.introDescription': "Hụ ndị n'ime kọntaktị gị na-eji FamGuards ma jikọọ site n'otu mpịakọta, ma ọ bụ kpọọ ndị ọzọ. Nọmba ekwentị na-anọ na ekwentị gị - naanị hash otu ụzọ nke nọmba ọ bụla ka a na-enyocha.",
+  'findContacts.search': 'Chọọ kọntaktị',
+  'findContacts.regionHint': 'A na-agụ nọmba na-enweghị koodu mba dịka {region}.',
+  'findContacts.changeRegion': 'Gbanwee mpaghara',
+  'findContacts.noMatches': 'Enweghị kọntaktị dabara na ọchụchọ gị.',
+  'findContacts.noValidNumbers': 'Achọtaghị kọntaktị nwere nọmba ekwentị ziri ezi.',
+  'findContacts.onFamGuards': 'Na FamGuards',
+  'findContacts.inviteToFamGuards': 'Kpọọ na FamGuards',
+  'findContacts.userOnFamGuards': '{name} na FamGuards',
+  'findContacts.connected': 'Ejikọọla',
+  'findContacts.invited': 'Akpọọla',
+  'findContacts.connect': 'Jikọọ',
+  'findContacts.invite': 'Kpọọ',
+  'findContacts.someNotChecked': 'Enyochaghị ụfọdụ kọntaktị',
+  'findContacts.accessNeeded': 'Achọrọ ohere kọntaktị',
+  'findContacts.accessNeededMessage': 'Nye ohere kọntaktị gị na Ntọala ka ịchọta ndị ị ma.',
+  'findContacts.inviteFailed': 'Enweghị ike izipu òkù. Biko nwaa ọzọ.',
+  'findContacts.inviteLinkFailed': 'Enweghị ike ịmepụta òkù. Biko nwaa ọzọ.',
+  'findContacts.messagesUnavailable': 'Enweghị ike imeghe ngwa ozi gị.',
+
+  'sosEvent.status.active': 'Chọrọ enyemaka',
+  'sosEvent.status.responderEnRoute': "Onye enyemaka nọ n'ụzọ",
+  'sosEvent.status.resolved': 'Edozila',
+  'sosEvent.status.falseAlarm': 'Ọkwa ụgha',
+  'sosEvent.title': 'SOS',
+  'sosEvent.loading': 'Na-ebugo SOS...',
+  'sosEvent.unavailable': 'SOS a adịghịzi.',
+  'sosEvent.yourSos': 'SOS gị',
+  'sosEvent.silentWarning': 'SOS nkịtị - a nwere ike ịna-amanye {name}. Akpọla ma ọ bụ zitere ya ozi.',
+  'sosEvent.started': 'Malitere',
+  'sosEvent.lastLocation': 'Ọnọdụ ikpeazụ',
+  'sosEvent.near': 'Nso',
+  'sosEvent.closed': 'Emechiela',
+  'sosEvent.imResponding': 'Ana m abịa inyere aka',
+  'sosEvent.cantHelp': 'Enweghị m ike inye aka',
+  'sosEvent.openLiveMap': 'Meghee maapụ dị ndụ',
+  'sosEvent.responders': 'Ndị na-enye aka ({count})',
+  'sosEvent.noResponders': 'Ọ dịbeghị onye zaghachiri.',
+  'sosEvent.responderResponding': '{name} - na-abịa',
+  'sosEvent.responderCantHelp': '{name} - enweghị ike inye aka',
+  'sosEvent.addNoteTitle': 'Tinye ndetu',
+  'sosEvent.notePlaceholder': 'dịka: A kpọọla ndị uwe ojii',
+  'sosEvent.addNote': 'Tinye',
+  'sosEvent.resolve': 'Dozie',
+  'sosEvent.falseAlarm': 'Ọkwa ụgha',
+  'sosEvent.closeHint': "A ga-etinye ndetu gị n'usoro oge mgbe i mechiri SOS.",
+  'sosEvent.timeline': 'Usoro oge',
+  'sosEvent.locationTrail': 'Ụzọ ọnọdụ ({count})',
+  'sosEvent.noLocations': 'Edebebeghị ọnọdụ ọ bụla.',
+  'sosEvent.showLess': 'Gosi obere',
+  'sosEvent.showAllLocations': 'Gosi ọnọdụ {count} niile',
+  'sosEvent.resolveTitle': 'Dozie SOS',
+  'sosEvent.resolveMessage': 'Dozie naanị mgbe ị matara na {name} nọ na nchekwa.',
+  'sosEvent.falseAlarmTitle': 'Kaa akara dịka ọkwa ụgha',
+  'sosEvent.falseAlarmMessage': "Mechie SOS a dịka ọkwa ụgha? Ndị {name} ga-ahụ ya n'usoro oge.",
+  'sosEvent.respondFailed': 'Enweghị ike ịzaghachi. Biko nwaa ọzọ.',
+  'sosEvent.noteFailed': 'Enweghị ike itinye ndetu gị. Biko nwaa ọzọ.',
+  'sosEvent.closeFailed': 'Enweghị ike imechi SOS. Biko nwaa ọzọ.',
+  'sosEvent.you': 'Gị',
+  'sosEvent.someone': 'Mmadụ',
+  'sosEvent.them': 'ya',
+  'sosEvent.update.opened': '{actor} zitere SOS',
+  'sosEvent.update.acknowledged': '{actor} na-abịa inye aka',
+  'sosEvent.update.acknowledgedYou': 'Ị na-abịa inye aka',
+  'sosEvent.update.called': '{actor} kpọrọ {name}',
+  'sosEvent.update.cantHelp': '{actor} enweghị ike inye aka',
+  'sosEvent.update.statusChanged': '{actor} gbanwere ọnọdụ ka ọ bụrụ {status}',
+  'sosEvent.update.note': '{actor} tinyere ndetu',
+  'sosEvent.statusUnknown': 'amaghị',
+
+  'trip.title': 'Njem',
+  'trip.description': "Kerịta njem dị ndụ na ndị ị họọrọ. Ọ bụrụ na ị rutughị n'oge ma ọ bụ ekwentị gị kwụsịrị ịkọ, a ga-adọ ha aka ná ntị site n'usoro ndebanye gị.",
+  'trip.loading': 'Na-ebugo njem...',
+  'trip.yourTrip': 'Njem gị',
+  'trip.startATrip': 'Malite njem',
+  'trip.following': 'Njem ị na-eso',
+  'trip.noneFollowing': 'Ọ dịghị onye na-ekerịta njem gị na ya.',
+  'trip.connection': 'Onye gị',
+  'trip.overdue': 'Gafere oge',
+  'trip.expectedAt': 'A na-atụ anya {time}',
+  'trip.distanceLeft': ' · {distance} fọdụrụ',
+  'trip.overdueNoSignal': 'Ọnọdụ gị kwụsịrị ịkọ. A dọọla ndị gị aka ná ntị.',
+  'trip.overdueLate': 'Oge a tụrụ anya ị ga-eru agafeela. A dọọla ndị gị aka ná ntị.',
+  'trip.expectedArrival': 'Oge iru',
+  'trip.distanceLeftLabel': 'Anya fọdụrụ',
+  'trip.lastUpdate': 'Mmelite ikpeazụ',
+  'trip.sharedWith': 'Kerịtara na',
+  'trip.autoArrivalHint': 'A na-akwado iru gị na-akpaghị aka mgbe i ruru ebe ị na-aga.',
+  'trip.imArrived': 'Erutela m',
+  'trip.cancelTrip': 'Kagbuo njem',
+  'trip.keepTrip': 'Debe njem',
+  'trip.cancelMessage': 'Kwụsị ikerịta njem a na ndị gị?',
+  'trip.destination': 'Ebe ị na-aga',
+  'trip.destinationPlaceholder': 'dịka: 12 Allen Avenue, Ikeja',
+  'trip.travelTime': 'Oge njem a tụrụ anya',
+  'trip.minutesShort': 'nkeji {count}',
+  'trip.hoursShort': 'awa {count}',
+  'trip.whoCanFollow': 'Ndị nwere ike iso njem a',
+  'trip.addConnectionFirst': 'Buru ụzọ tinye onye ka ị kerịta njem.',
+  'trip.startTrip': 'Malite njem',
+  'trip.enterDestination': 'Biko tinye ebe ị na-aga.',
+  'trip.chooseWatcher': 'Biko họrọ opekata mpe otu onye ga-eso njem gị.',
+  'trip.destinationNotFound': 'Achọtaghị ebe ị na-aga',
+  'trip.destinationNotFoundMessage': 'Nwaa adreesị ma ọ bụ aha ebe doro anya karị.',
+  'trip.startFailedActive': "Enweghị ike ịmalite njem. Ikekwe ị nwere njem na-aga n'ihu.",
+  'trip.startFailed': 'Enweghị ike ịmalite njem. Biko nwaa ọzọ.',
+  'trip.confirmArrivalFailed': 'Enweghị ike ịkwado iru. Biko nwaa ọzọ.',
+  'trip.arrived': 'Erutela',
+  'trip.arrivedMessage': 'A gwala ndị gị na i rutere nke ọma.',
+  'trip.cancelFailed': 'Enweghị ike ịkagbu njem. Biko nwaa ọzọ.',
+
+  'circles.title': 'Okirikiri na ọrụ',
+  'circles.description': "Kewaa ndị gị n'okirikiri ma họrọ ihe okirikiri ọ bụla ga-enweta. Ndị na-anọghị n'okirikiri ọ bụla na-enweta ihe niile. Mgbe a kpọchiri gị mgbe SOS gasịrị, onye ọ bụla gị nwere ike ịhụ ebe ị nọ.",
+  'circles.loading': 'Na-ebugo okirikiri...',
+  'circles.newCircle': 'Okirikiri ọhụrụ',
+  'circles.namePlaceholder': 'Aha okirikiri, dịka Ezinụlọ',
+  'circles.createCircle': 'Mepụta okirikiri',
+  'circles.yourCircles': 'Okirikiri gị',
+  'circles.noCircles': 'Ị nweghị okirikiri ọ bụla. Onye ọ bụla gị na-enweta ebe ị nọ na ọkwa niile.',
+  'circles.roles': 'Ọrụ',
+  'circles.members': 'Ndị otu',
+  'circles.memberCount': 'Onye otu 1',
+  'circles.membersCount': 'Ndị otu {count}',
+  'circles.noMembers': "Ọ dịbeghị onye nọ n'okirikiri a.",
+  'circles.allInCircle': "Ndị gị niile nọ n'okirikiri a.",
+  'circles.done': 'Emechaala',
+  'circles.addConnections': 'Tinye ndị',
+  'circles.formerConnection': 'Onye gị mbụ',
+  'circles.setting.shareLocation': 'Kerịta ọnọdụ',
+  'circles.setting.shareLocationSubtitle': 'Ndị otu na-ahụ ebe ị nọ ugbu a',
+  'circles.setting.sosAlerts': 'Ọkwa SOS',
+  'circles.setting.sosAlertsSubtitle': 'A na-adọ ndị otu aka ná ntị mgbe i zitere SOS',
+  'circles.setting.checkInAlerts': 'Ọkwa ndebanye',
+  'circles.setting.checkInAlertsSubtitle': 'Ndị otu na-enweta ndebanye gị na nke ị gafere',
+  'circles.setting.unlockApproval': 'Nkwado mmeghe',
+  'circles.setting.unlockApprovalSubtitle': 'Ndị otu nwere ike ịkwado imeghe akaụntụ gị',
+  'circles.preset.family': 'Ezinụlọ',
+  'circles.preset.work': 'Ọrụ',
+  'circles.preset.neighbors': 'Ndị agbata obi',
+  'circles.role.guardian': 'Onye nche',
+  'circles.role.guardianSubtitle': 'Na-enweta ọkwa na ebe ị nọ mgbe niile, ma nwee ike ịkwado mmeghe',
+  'circles.role.member': 'Onye otu',
+  'circles.role.memberSubtitle': 'Na-eso ntọala okirikiri',
+  'circles.role.dependent': 'Onye a na-elekọta',
+  'circles.role.dependentSubtitle': 'Na-eso ntọala okirikiri, mana ọ gaghị akwado mmeghe',
+  'circles.nameTitle': 'Aha okirikiri',
+  'circles.nameRequired': 'Biko tinye aha maka okirikiri ahụ.',
+  'circles.nameTaken': 'Ị nwerelarị okirikiri aha ya bụ {name}.',
+  'circles.createFailed': 'Enweghị ike ịmepụta okirikiri. Biko nwaa ọzọ.',
+  'circles.saveFailed': 'Enweghị ike ịchekwa ntọala okirikiri. Biko nwaa ọzọ.',
+  'circles.deleteTitle': 'Hichapụ okirikiri',
+  'circles.deleteMessage': "Hichapụ {name}? Ndị na-anọghị n'okirikiri ọzọ ga-enwetakwa ọkwa niile na ebe ị nọ.",
+  'circles.deleteFailed': 'Enweghị ike ihichapụ okirikiri. Biko nwaa ọzọ.',
+  'circles.addFailed': 'Enweghị ike itinye onye ahụ. Biko nwaa ọzọ.',
+  'circles.roleFailed': 'Enweghị ike ịgbanwe ọrụ. Biko nwaa ọzọ.',
+  'circles.removeFailed': 'Enweghị ike iwepụ onye ahụ. Biko nwaa ọzọ.',
+  'circles.roleIn': 'Ọrụ na {circle}',
+  'circles.makeRole': 'Mee ka ọ bụrụ {role}',
+  'circles.removeFrom': 'Wepụ na {circle}',
+
+  'accountLock.event.locked': 'Akpọchiri akaụntụ',
+  'accountLock.event.unlockApproved': 'Akwadoro mmeghe',
+  'accountLock.event.unlocked': 'Emeghere akaụntụ',
+  'accountLock.event.pinFailed': 'Etinyere PIN ezighi ezi',
+  'accountLock.event.pinSet': 'Edobere PIN',
+  'accountLock.event.pinRemoved': 'Ewepụrụ PIN',
+  'accountLock.method.sos': 'mgbe SOS gasịrị',
+  'accountLock.method.pin': 'site na PIN',
+  'accountLock.method.quorum': "site n'aka ndị gị",
+  'accountLock.method.admin': "site n'aka ndị nkwado",
+  'accountLock.byActor': "site n'aka {name}",
+  'accountLock.description': 'Mgbe SOS gasịrị, a na-akpọchi akaụntụ gị. Họrọ otu a ga-esi meghee ya ọzọ.',
+  'accountLock.unlockPin': 'PIN mmeghe',
+  'accountLock.pinSet': 'Edobere PIN',
+  'accountLock.noPin': 'Enweghị PIN',
+  'accountLock.pinDescription': 'Ọ na-enye gị ohere imeghe akaụntụ gị site na ihuenyo mkpọchi. Debe ya na nzuzo.',
+  'accountLock.newPinPlaceholder': 'PIN ọhụrụ (ọnụọgụ 4-8)',
+  'accountLock.confirmPinPlaceholder': 'Kwado PIN',
+  'accountLock.savePin': 'Chekwaa PIN',
+  'accountLock.remove': 'Wepụ',
+  'accountLock.changePin': 'Gbanwee PIN',
+  'accountLock.setPin': 'Dobe PIN',
+  'accountLock.silentSos': 'SOS nkịtị',
+  'accountLock.duressPinSet': 'Edobere PIN mmanye',
+  'accountLock.noDuressPin': 'Enweghị PIN mmanye',
+  'accountLock.duressDescription': "Itinye PIN mmanye gị na ihuenyo mkpọchi na-emeghe ngwa ahụ dịka ọ na-adị, mana ọ na-adọ ndị gị aka ná ntị na nzuzo ma na-aga n'ihu ikerịta ebe ị nọ kpọmkwem.",
+  'accountLock.holdDescription': 'Ị nwekwara ike ijide bọtịnụ Ọkwa Mberede na ihuenyo ụlọ ruo sekọnd 3. Ọ dịghị ihe ga-agbanwe na ihuenyo. Naanị onye gị nwere ike ịkwụsị SOS nkịtị.',
+  'accountLock.setPinFirst': 'Buru ụzọ dobe PIN mmeghe ka ịtinye PIN mmanye.',
+  'accountLock.duressPinPlaceholder': 'PIN mmanye (ọnụọgụ 4-8)',
+  'accountLock.confirmDuressPinPlaceholder': 'Kwado PIN mmanye',
+  'accountLock.changeDuressPin': 'Gbanwee PIN mmanye',
+  'accountLock.setDuressPin': 'Dobe PIN mmanye',
+  'accountLock.approvals': 'Nkwado ndị gị',
+  'accountLock.approvalsDescription': 'Ọnụọgụ ndị gị ga-akwado tupu e meghee akaụntụ gị. Ọ gaghị agafe ọnụọgụ ndị ị nwere mgbe mkpọchi malitere.',
+  'accountLock.history': 'Akụkọ mkpọchi',
+  'accountLock.noHistory': 'Enwebeghị ihe mkpọchi ọ bụla.',
+  'accountLock.invalidPin': 'PIN ezighi ezi',
+  'accountLock.invalidPinMessage': 'PIN gị ga-abụrịrị ọnụọgụ 4 ruo 8.',
+  'accountLock.invalidDuressPinMessage': 'PIN mmanye gị ga-abụrịrị ọnụọgụ 4 ruo 8.',
+  'accountLock.pinMismatch': 'PIN adabaghị',
+  'accountLock.pinMismatchMessage': 'Biko tinye otu PIN ugboro abụọ.',
+  'accountLock.savePinFailed': 'Enweghị ike ịchekwa PIN gị. Biko nwaa ọzọ.',
+  'accountLock.removePinTitle': 'Wepụ PIN',
+  'accountLock.removePinMessage': 'Na-enweghị PIN, naanị ndị gị nwere ike imeghe akaụntụ gị mgbe SOS gasịrị. A ga-ewepụkwa PIN mmanye gị.',
+  'accountLock.removePinFailed': 'Enweghị ike iwepụ PIN gị. Biko nwaa ọzọ.',
+  'accountLock.saveDuressPinFailed': 'Enweghị ike ịchekwa PIN mmanye gị. Biko nwaa ọzọ.',
+  'accountLock.removeDuressPinTitle': 'Wepụ PIN mmanye',
+  'accountLock.removeDuressPinMessage': "Ị ka nwere ike izipu SOS nkịtị site n'ijide bọtịnụ Ọkwa Mberede.",
+  'accountLock.removeDuressPinFailed': 'Enweghị ike iwepụ PIN mmanye gị. Biko nwaa ọzọ.',
+  'accountLock.saveQuorumFailed': 'Enweghị ike ịchekwa nkwado mmeghe. Biko nwaa ọzọ.',
+
+  'notifications.title': 'Ọkwa',
+  'notifications.markAllRead': 'Kaa ha niile dị ka agụrụ',
+  'notifications.emptyTitle': 'Enweghị ọkwa',
+  'notifications.emptyText': 'Ị hụla ha niile!',
+  'notifications.alertLevel.danger': 'IHE EGWU',
+  'notifications.alertLevel.warning': 'ỊDỌ AKA NÁ NTỊ',
+  'notifications.alertLevel.alert': 'ỌKWA',
+  'notifications.markAllReadFailed': 'Enweghị ike ịkaa ọkwa niile dị ka agụrụ.',
+  'notifications.locationPermissionTitle': 'Achọrọ ikike ọnọdụ',
+  'notifications.locationPermissionMessage': 'Iji melite ọnọdụ gị, biko nye ikike ọnọdụ na Ntọala.',
+  'notifications.permissionTitle': 'Achọrọ ikike',
+  'notifications.permissionMessage': 'Achọrọ ikike ọnọdụ iji melite ọnọdụ gị.',
+  'notifications.locationUpdatedTitle': 'Emelitere ọnọdụ',
+  'notifications.locationUpdatedMessage': 'Emelitela ọnọdụ gị nke ọma.',
+  'notifications.locationErrorTitle': 'Njehie ọnọdụ',
+  'notifications.locationErrorMessage': 'Enweghị ike ịchọta ọnọdụ gị ugbu a. Biko lelee ntọala ọnọdụ gị.',
+  'notifications.updateLocationFailed': 'Enweghị ike imelite ọnọdụ. Biko nwaa ọzọ.',
+  'notifications.emergencyLocation': 'Ọnọdụ mberede',
+  'notifications.placeAlert': 'Ọkwa ebe',
+
+  'reportIncident.title': 'Kọọ ihe mere',
+  'reportIncident.subtitle': 'Nyere aka mee ka obodo gị dị nchebe',
+  'reportIncident.type': 'Ụdị ihe mere',
+  'reportIncident.titleLabel': 'Isiokwu',
+  'reportIncident.titlePlaceholder': 'Isiokwu dị mkpụmkpụ maka ihe mere',
+  'reportIncident.descriptionLabel': 'Nkọwa',
+  'reportIncident.descriptionPlaceholder': 'Kọwaa ihe mere, mgbe o mere, na nkọwa ọ bụla dị mkpa...',
+  'reportIncident.media': 'Foto na vidiyo',
+  'reportIncident.camera': 'Igwefoto',
+  'reportIncident.library': 'Ọba foto',
+  'reportIncident.mediaHint': 'A na-ewepụ data ọnọdụ na foto na vidiyo tupu ebugote ha. Vidiyo ruo sekọnd {seconds}.',
+  'reportIncident.location': 'Ebe',
+  'reportIncident.gettingLocation': 'A na-achọta ebe ị nọ...',
+  'reportIncident.retry': 'Nwaa ọzọ',
+  'reportIncident.noLocation': 'Enweghị ọnọdụ',
+  'reportIncident.visibilityHint': "Naanị ndị nọ nso (n'ime {distance}) ga-ahụ akụkọ a",
+  'reportIncident.when': 'Olee mgbe nke a mere?',
+  'reportIncident.happeningNow': 'Na-eme ugbu a',
+  'reportIncident.happenedEarlier': 'Mere na mbụ',
+  'reportIncident.anonymous': 'Akụkọ na-enweghị aha',
+  'reportIncident.anonymousHint': "Zoo aha gị n'ihu ọha (a ka na-echekwa ya n'ime maka nchekwa)",
+  'reportIncident.info': 'Akụkọ gị na-enyere obodo aka ịdị nchebe. Akụkọ ụgha nwere ike ime ka a kwụsịtụ akaụntụ.',
+  'reportIncident.uploading': 'A na-ebugo...',
+  'reportIncident.submitting': 'A na-eziga...',
+  'reportIncident.submit': 'Ziga akụkọ',
+  'reportIncident.mediaStatus.preparing': 'A na-akwado...',
+  'reportIncident.mediaStatus.done': 'Ebugoro',
+  'reportIncident.mediaStatus.queued': 'Na-eche',
+  'reportIncident.mediaStatus.failed': 'Ọ dagharịrị',
+  'reportIncident.mediaStatus.unsupportedFormat': 'Ụdị faịlụ anaghị akwado',
+  'reportIncident.mediaStatus.tooLong': 'Ọ dị ogologo karịa',
+  'reportIncident.mediaStatus.limitReached': 'Eruola oke',
+  'reportIncident.thisLocation': 'ebe a',
+  'reportIncident.autoTitle.robbery': 'Akọọla ohi',
+  'reportIncident.autoTitle.kidnapping': 'Akọọla omume na-enyo enyo',
+  'reportIncident.autoTitle.accident': 'Akọọla ihe mberede okporo ụzọ',
+  'reportIncident.autoTitle.fire': 'Akọọla ọkụ',
+  'reportIncident.autoTitle.protest': 'Akọọla nzukọ ngagharị iwe',
+  'reportIncident.autoTitle.assault': 'Akọọla mwakpo',
+  'reportIncident.autoTitle.theft': 'Akọọla izu ohi',
+  'reportIncident.autoTitle.other': 'Akọọla ihe mere',
+  'reportIncident.autoDescription.robbery': 'Akọọla ihe ohi mere.\n\nEbe: {address}\n\nBiko kpachara anya ma zere ebe ahụ ma ọ bụrụ na ọ ga-ekwe omume. Agwala ndị ọchịchị.',
+  'reportIncident.autoDescription.kidnapping': 'Akọọla omume na-enyo enyo metụtara ntọrị mmadụ.\n\nEbe: {address}\n\nBiko nọrọ na nche ma kọọrọ ndị ọchịchị omume ọ bụla na-enyo enyo ozugbo.',
+  'reportIncident.autoDescription.accident': 'Akọọla ihe mberede okporo ụzọ.\n\nEbe: {address}\n\nNdị ọrụ mberede na-abịa. Tụọ anya igbu oge ma jiri ụzọ ọzọ ma ọ bụrụ na ọ ga-ekwe omume.',
+  'reportIncident.autoDescription.fire': 'Akọọla ọkụ.\n\nEbe: {address}\n\nNdị ọrụ mgbanyụ ọkụ na-abịa. Biko zere ebe ahụ ma soro ntụziaka ndị ọrụ mberede.',
+  'reportIncident.autoDescription.protest': "Akọọla nzukọ ngagharị iwe.\n\nEbe: {address}\n\nTụọ anya igbu oge n'okporo ụzọ ma kpachara anya ma ọ bụrụ na ị nọ n'ebe ahụ.",
+  'reportIncident.autoDescription.assault': 'Akọọla mwakpo.\n\nEbe: {address}\n\nBiko zere ebe ahụ ma kọọrọ ndị ọchịchị ozi ọ bụla dị mkpa.',
+  'reportIncident.autoDescription.theft': 'Akọọla izu ohi.\n\nEbe: {address}\n\nBiko chekwaa ihe onwunwe gị ma kọọ omume ọ bụla na-enyo enyo.',
+  'reportIncident.autoDescription.other': "Akọọla ihe mere.\n\nEbe: {address}\n\nBiko kpachara anya n'ebe ahụ.",
+  'reportIncident.locationPermissionDenied': 'A jụrụ ikike ọnọdụ. Biko gbanye ohere ọnọdụ na Ntọala.',
+  'reportIncident.locationUnavailable': 'Enweghị ike ịchọta ebe ị nọ. Biko nwaa ọzọ.',
+  'reportIncident.locationFailed': 'Ịchọta ọnọdụ adaghị. Biko nwaa ọzọ.',
+  'reportIncident.limitReached': 'Eruola oke',
+  'reportIncident.limitReachedMessage': 'Ị nwere ike itinye foto ma ọ bụ vidiyo ruo {count}.',
+  'reportIncident.permissionTitle': 'Achọrọ ikike',
+  'reportIncident.cameraPermission': 'Achọrọ ohere igwefoto iji see foto ma ọ bụ vidiyo nke ihe mere.',
+  'reportIncident.libraryPermission': 'Achọrọ ohere ọba foto iji tinye foto ma ọ bụ vidiyo.',
+  'reportIncident.videoTooLong': 'Vidiyo ogologo karịa',
+  'reportIncident.videoTooLongMessage': 'Vidiyo agaghị agafe sekọnd {seconds}.',
+  'reportIncident.attachFailed': 'Enweghị ike itinye faịlụ. Biko nwaa ọzọ.',
+  'reportIncident.requiredFields': 'Biko dejupụta oghere niile achọrọ',
+  'reportIncident.locationRequired': 'Achọrọ ọnọdụ. Biko chere ka ọnọdụ bata ma ọ bụ nwaa imelite.',
+  'reportIncident.invalidCoordinates': 'Nhazi ọnọdụ ezighi ezi. Biko melite ọnọdụ gị.',
+  'reportIncident.invalidLatitude': 'Latitude ezighi ezi. Biko melite ọnọdụ gị.',
+  'reportIncident.invalidLongitude': 'Longitude ezighi ezi. Biko melite ọnọdụ gị.',
+  'reportIncident.submitted': 'Akọọla ihe mere nke ọma.',
+  'reportIncident.mediaQueued': 'Foto/vidiyo {count} ga-emecha ibugo mgbe njikọ gị ka mma.',
+  'reportIncident.mediaFailed': 'Enweghị ike itinye foto/vidiyo {count}.',
+  'reportIncident.submitFailed': 'Enweghị ike ịkọ ihe mere. Biko nwaa ọzọ.',
+
+  'home.visibleToConnections': 'Ndị gị na-ahụ gị',
+  'home.hiddenFromConnections': "Ezoro ya n'anya ndị gị",
+  'home.connectionCount': 'Onye 1',
+  'home.connectionsCount': 'Ndị {count}',
+  'home.location': 'Ọnọdụ',
+  'home.updating': 'A na-emelite...',
+  'home.sharing': 'A na-ekerịta',
+  'home.hidden': 'Ezoro ezo',
+  'home.sharingOffTitle': 'Ekerịta ọnọdụ agbanyụọla',
+  'home.sharingOffMessage': 'Gbanye ekerịta ọnọdụ ka ndị gị hụ ebe ị nọ ma zaghachi na mberede.',
+  'home.turnOn': 'Gbanye',
+  'home.emergency': 'Mberede',
+  'home.emergencyAlert': 'Ọkwa Mberede',
+  'home.alertConnection': 'Dọọ onye 1 aka ná ntị',
+  'home.alertConnections': 'Dọọ ndị {count} aka ná ntị',
+  'home.quickActions': 'Omume ngwa ngwa',
+  'home.reportIncidentSubtitle': 'Kọọ nsogbu nchekwa',
+  'home.checkInSubtitle': 'Mee ka ndị gị mara na ị dị mma',
+  'home.emergencySent': 'Ezigala mberede',
+  'home.emergencyQueued': 'Mberede na-eche',
+  'home.emergencySentMessage': 'Ezigala ọkwa mberede gị nye ndị gị nke ọma.',
+  'home.emergencyQueuedMessage': 'Erubeghị ụfọdụ ndị gị. FamGuard ga-anọgide na-anwa ruo mgbe ọkwa gị ruru.',
+  'home.continue': "Gaa n'ihu",
+  'home.recipient.notified': 'Agwala ya',
+  'home.recipient.appOff': 'Ọkwa ngwa agbanyụọla',
+  'home.recipient.retrying': 'A na-anwa ọzọ...',
+  'home.recipient.smsReady': 'SMS adịla njikere',
+  'home.recipient.smsUnavailable': 'SMS adịghị',
+  'home.permissionTitle': 'Achọrọ ikike',
+  'home.locationPermissionMessage': 'Achọrọ ikike ọnọdụ iji kerịta ọnọdụ gị na ndị gị.',
+  'home.locationErrorTitle': 'Njehie ọnọdụ',
+  'home.locationErrorMessage': 'Enweghị ike ịchọta ọnọdụ gị. Biko lelee ntọala ọnọdụ gị.',
+  'home.toggleSharingFailed': 'Enweghị ike imelite ekerịta ọnọdụ. Biko nwaa ọzọ.',
+  'home.noConnections': 'Enweghị onye ọ bụla',
+  'home.noConnectionsMessage': 'Ị ga-atinyerịrị ndị gị tupu iziga ọkwa mberede.',
+  'home.sendAlertTitle': 'Ziga ọkwa mberede?',
+  'home.sendAlertMessageOne': 'Nke a ga-eziga ọkwa mberede nye onye gị 1.',
+  'home.sendAlertMessage': 'Nke a ga-eziga ọkwa mberede nye ndị gị niile {count}.',
+  'home.sendAlert': 'Ziga ọkwa mberede',
+  'home.alertWithoutLocation': 'Enweghị ike ịchọta ọnọdụ gị. A ga-eziga ọkwa mberede na-enweghị ọnọdụ.',
+  'home.sendAlertFailed': 'Enweghị ike iziga ọkwa mberede. Biko nwaa ọzọ.',
+
+  'map.title': 'Maapụ',
+  'map.timelineTitle': 'Akụkọ ọnọdụ',
+  'map.locationsCount': 'Ọnọdụ {count}',
+  'map.location': 'Ọnọdụ',
+  'map.tripDestination': 'Ebe njem',
+  'map.today': 'Taa',
+  'map.yesterday': 'Ụnyaahụ',
+  'map.secondsShort': '{count}s',
+  'map.stoppedFor': 'Kwụsịrị {duration}',
+  'map.trackingOffFor': 'Nsochi gbanyụrụ {duration}',
+  'map.moving': 'Na-aga · {speed}',
+  'map.playbackSummary': "Nkwụsị {stops} · {distance} n'ime {duration}",
+  'map.playbackGaps': 'Oghere {count}',
+  'map.tapToSetCenter': 'Pịa maapụ ka ịtọọ etiti ebe ahụ',
+  'map.tapToOutline': 'Pịa maapụ ka ịse oke ebe ahụ (ntụpọ {count})',
+  'map.undo': 'Megharịa',
+  'map.done': 'Emechara',
+  'map.tripArrived': "Eruru n'udo",
+  'map.tripCancelled': 'Akagburu njem',
+  'map.tripOverdueNoSignal': 'Ọ gafere oge - ọnọdụ akwụsịla izite',
+  'map.tripOverdueLate': 'Ọ gafere oge - ọ gafeela oge iru',
+  'map.updatedAgo': 'Emelitere {time}',
+  'map.offline': "Na-anọghị n'ịntanetị",
+  'map.failedToLoad': 'Maapụ ebubataghị',
+  'map.checkPlayServices': 'Biko lelee Google Play Services na njikọ ịntanetị',
+  'map.checkInternet': 'Biko lelee njikọ ịntanetị gị',
+  'map.locationNotAvailable': 'Ọnọdụ adịghị',
+  'map.locationNotAvailableMessage': 'Ọnọdụ {name} adịghị. Ọ nwere ike ịbụ na agbanyụrụ ekerịta ọnọdụ.',
+  'map.user': 'Onye ọrụ',
+  'map.loadingTimeline': 'A na-ebubata akụkọ...',
+  'map.noHistory': 'Enweghị akụkọ ọnọdụ',
+  'map.noHistoryToday': 'Enweghị data ọnọdụ maka taa',
+  'map.noHistoryYesterday': 'Enweghị data ọnọdụ maka ụnyaahụ',
+  'map.noHistoryOn': 'Enweghị data ọnọdụ maka {date}',
+  'map.movement': 'Mmegharị',
+  'map.unknownLocation': 'Ebe amaghị',
+  'map.places': 'Ebe',
+  'map.placesSubtitle': 'Nata ọkwa mgbe ndị gị rutere ma ọ bụ hapụ ebe ndị a.',
+  'map.noPlaces': 'Enwebeghị ebe ọ bụla. Tinye ụlọ, ụlọ akwụkwọ ma ọ bụ ebe ọrụ.',
+  'map.placeRadius': '{category} · okirikiri {radius}',
+  'map.placeArea': '{category} · mpaghara ntụpọ {count}',
+  'map.addPlace': 'Tinye ebe',
+  'map.editPlace': 'Dezie ebe',
+  'map.newPlace': 'Ebe ọhụrụ',
+  'map.name': 'Aha',
+  'map.namePlaceholder': 'dịka Ụlọ, Ụlọ akwụkwọ, Ọfịs',
+  'map.type': 'Ụdị',
+  'map.shape': 'Ọdịdị',
+  'map.circle': 'Okirikiri',
+  'map.customArea': 'Mpaghara ahaziri',
+  'map.radius': 'Okirikiri',
+  'map.moveCenter': 'Bughari etiti na maapụ',
+  'map.setCenter': 'Tọọ etiti na maapụ',
+  'map.redrawArea': 'Sekwa mpaghara ọzọ na maapụ',
+  'map.drawArea': 'See mpaghara na maapụ',
+  'map.alertArrives': 'Dọọ aka ná ntị mgbe mmadụ rutere',
+  'map.alertLeaves': 'Dọọ aka ná ntị mgbe mmadụ pụrụ',
+  'map.savePlace': 'Chekwaa ebe',
+  'map.placeCategory.home': 'Ụlọ',
+  'map.placeCategory.school': 'Ụlọ akwụkwọ',
+  'map.placeCategory.work': 'Ebe ọrụ',
+  'map.placeCategory.other': 'Ọzọ',
+  'map.notEnoughPoints': 'Ntụpọ ezughị',
+  'map.notEnoughPointsMessage': 'Pịa opekata mpe ntụpọ 3 na maapụ ka ịse oke ebe ahụ.',
+  'map.nameRequired': 'Achọrọ aha',
+  'map.nameRequiredMessage': 'Biko tinye aha maka ebe a.',
+  'map.locationRequired': 'Achọrọ ọnọdụ',
+  'map.locationRequiredMessage': 'Biko tọọ ebe ahụ na maapụ.',
+  'map.areaRequired': 'Achọrọ mpaghara',
+  'map.areaRequiredMessage': 'Biko see oke ebe ahụ ji opekata mpe ntụpọ 3 na maapụ.',
+  'map.savePlaceFailed': 'Enweghị ike ịchekwa ebe ahụ. Biko nwaa ọzọ.',
+  'map.deletePlace': 'Hichapụ ebe',
+  'map.deletePlaceMessage': 'Kwụsị ịnata ọkwa ịbịa/ịpụ maka {name}?',
+  'map.deletePlaceFailed': 'Enweghị ike ihichapụ ebe ahụ. Biko nwaa ọzọ.',
+  'map.arrived': 'Rutere',
+  'map.left': 'Pụrụ',
+
+  'connections.locationPermissionTitle': 'Achọrọ ikike ọnọdụ',
+  'connections.locationPermissionMessage': 'Achọrọ ikike ọnọdụ iji kesaa ọnọdụ gị na ndị gị.',
+  'connections.invalidInput': 'Ntinye ezighi ezi',
+  'connections.enterPhone': 'Biko tinye nọmba ekwentị.',
+  'connections.invalidPhone': 'Nọmba ekwentị ezighi ezi',
+  'connections.phoneLength': 'Biko tinye nọmba ekwentị nwere ọnụọgụ 11.',
+  'connections.cannotInviteSelf': 'Ị gaghị akpọ onwe gị.',
+  'connections.checkPhoneFailed': 'Enweghị ike ịlele nọmba ekwentị. Biko nwaa ọzọ.',
+  'connections.notOnAppTitle': 'Ọ nọbeghị na FamGuards',
+  'connections.notOnAppMessage': 'Edebanyeghị nọmba ekwentị a na ngwa a. Ziga ha njikọ oku? Ọ ga-eduga ha na ngwa a ma jikọọ unu ozugbo ha debanyere aha.',
+  'connections.sendInviteLink': 'Ziga njikọ oku',
+  'connections.createInviteFailed': 'Enweghị ike ịmepụta oku. Biko nwaa ọzọ.',
+  'connections.alreadyConnected': 'Unu ejikọọla',
+  'connections.alreadyConnectedMessage': 'Ị jikọọla onye ọrụ a.',
+  'connections.alreadyConnectedTo': 'Ị jikọọla {name}.',
+  'connections.invitationSent': 'Eziteela oku',
+  'connections.invitationAlreadySent': 'Izigaralarị nọmba ekwentị a oku.',
+  'connections.invitationSentTo': 'Eziteela {phone} oku. Ha ga-anata ọkwa.',
+  'connections.sendInvitationFailed': 'Enweghị ike iziga oku. Biko nwaa ọzọ.',
+  'connections.acceptFailed': 'Enweghị ike ịnabata oku. Biko nwaa ọzọ.',
+  'connections.rejectFailed': 'Enweghị ike ịjụ oku. Biko nwaa ọzọ.',
+  'connections.connected': 'Ejikọọla!',
+  'connections.nowConnected': 'Unu ejikọọla ugbu a.',
+  'connections.nowConnectedTo': 'Ị jikọọla {name} ugbu a.',
+  'connections.cancelInviteFailed': 'Enweghị ike ịkagbu oku. Biko nwaa ọzọ.',
+  'connections.inviteCancelled': 'Akagbuola oku',
+  'connections.inviteCancelledMessage': 'Enweghị ike iji oku a ọzọ.',
+  'connections.loadInviteFailed': 'Enweghị ike ibudata oku. Biko nwaa ọzọ.',
+  'connections.inviteTitle': 'Oku njikọ',
+  'connections.invitePrompt': 'Jikọọ na {name}? Unu ga-ahụ ọnọdụ na mkpu SOS ibe unu.',
+  'connections.invitePromptUnknown': 'Jikọọ na onye a? Unu ga-ahụ ọnọdụ na mkpu SOS ibe unu.',
+  'connections.notNow': 'Ọ bụghị ugbu a',
+  'connections.connect': 'Jikọọ',
+  'connections.invalidInvite': 'Oku ezighi ezi',
+  'connections.ownInvite': 'Ị gaghị eji oku nke gị.',
+  'connections.inviteExpired': 'Oku agwụla',
+  'connections.inviteExpiredMessage': 'Oku a agwụla ma ọ bụ ejirila ya mee ihe. Rịọ maka nke ọhụrụ.',
+  'connections.tooManyAttempts': 'Mgbalị ebuola ibu',
+  'connections.tryLater': 'Biko nwaa ọzọ ma emechaa.',
+  'connections.inviteNotValid': 'Oku a ezighi ezi.',
+  'connections.couldNotConnect': 'Enweghị ike ijikọ',
+  'connections.connectFailed': 'Enweghị ike ijikọ. Biko nwaa ọzọ.',
+  'connections.pasteInviteMessage': 'Mado njikọ oku ị natara.',
+  'connections.approveUnlock': 'Kwado mmeghe',
+  'connections.approveUnlockMessage': "Kwado imeghe akaụntụ {name}? Mee nke a naanị mgbe ị maara na ọ nọ n'udo. Akaụntụ ya nwere ike ịchọ nkwado karịa otu onye.",
+  'connections.approve': 'Kwado',
+  'connections.approveUnlockFailed': 'Enweghị ike ịkwado mmeghe. Biko nwaa ọzọ.',
+  'connections.unlocked': 'Emepela',
+  'connections.unlockedMessage': 'Emepela {name} ma ọ nwere ike iji ngwa a ugbu a.',
+  'connections.approvalRecorded': 'Edekọọla nkwado',
+  'connections.approvalRecordedMessage': "Ndị {approvals} n'ime {required} akwadola. A ga-emepe {name} ozugbo ndị zuru ezu kwadoro.",
+  'connections.updateSharingFailed': 'Enweghị ike imelite nkesa ọnọdụ. Biko nwaa ọzọ.',
+  'connections.shareMyLocationTitle': 'Kesaa ọnọdụ m',
+  'connections.shareDurationPrompt': 'Ogologo oge ole ka {name} ga-ahụ ọnọdụ gị?',
+  'connections.shareAlways': 'Mgbe niile',
+  'connections.shareOneHour': 'Maka otu awa',
+  'connections.shareEightHours': 'Maka awa 8',
+  'connections.shareUntilArrive': 'Ruo mgbe m rutere',
+  'connections.shareWeekdays': 'Ụbọchị ọrụ 7-9 ụtụtụ',
+  'connections.markSafe': "Kaa dị ka nọ n'udo",
+  'connections.markSafeMessage': "Kwụsị SOS nzuzo {name}? Mee nke a naanị mgbe i kwadoro n'onwe gị ma ọ bụ site n'ụzọ a tụkwasịrị obi na ọ nọ n'udo.",
+  'connections.endSilentSosFailed': 'Enweghị ike ịkwụsị SOS nzuzo. Biko nwaa ọzọ.',
+  'connections.markedSafe': "Akaala dị ka nọ n'udo",
+  'connections.markedSafeMessage': 'SOS nzuzo {name} akwụsịla.',
+  'connections.online': "Nọ n'ịntanetị",
+  'connections.offline': "Anọghị n'ịntanetị",
+  'connections.sharingDisabledTitle': 'Agbanyụọla nkesa ọnọdụ',
+  'connections.sharingDisabledMessage': '{name} agaghị ahụ ọnọdụ gị ugbu a.',
+  'connections.removeFailed': 'Enweghị ike iwepụ onye ahụ. Biko nwaa ọzọ.',
+  'connections.quickActions': 'Omume ngwa ngwa',
+  'connections.inviteByPhone': 'Kpọọ site na ekwentị',
+  'connections.sendInvitationSubtitle': 'Ziga oku',
+  'connections.generating': 'Na-emepụta...',
+  'connections.inviteLink': 'Njikọ oku',
+  'connections.qrOrLink': 'Koodu QR ma ọ bụ njikọ',
+  'connections.openInvite': 'Mepee oku',
+  'connections.connectNow': 'Jikọọ ugbu a',
+  'connections.findContacts': 'Chọta ndị kọntaktị na FamGuards',
+  'connections.pendingInvitations': 'Oku na-echere',
+  'connections.wantsToConnect': 'Chọrọ ijikọ gị',
+  'connections.accept': 'Nabata',
+  'connections.reject': 'Jụ',
+  'connections.loading': 'Na-ebudata ndị gị...',
+  'connections.emptyTitle': 'Enweghị onye ọ bụla ka',
+  'connections.emptyText': "Bido site n'ịkpọ onye site n'omume ngwa ngwa dị n'elu",
+  'connections.yourConnections': 'Ndị gị',
+  'connections.unknownUser': 'Onye ọrụ amaghị ama',
+  'connections.accountLocked': 'Akpọchiri akaụntụ - chọrọ enyemaka',
+  'connections.underDuress': "Ọ nwere ike ịnọ n'ike - akpọla ma ọ bụ ziga ozi",
+  'connections.sharingDisabled': 'Agbanyụọla nkesa ọnọdụ',
+  'connections.sharingWithYou': 'Na-ekesa gị: {status}',
+  'connections.viewOnMap': 'Lee na maapụ',
+  'connections.chooseAction': 'Họrọ omume',
+  'connections.viewSos': 'Lee SOS',
+  'connections.markSafeEndSos': "Kaa dị ka nọ n'udo (kwụsị SOS nzuzo)",
+  'connections.removeConnection': 'Wepụ onye a',
+  'connections.moreOptions': 'Nhọrọ ndị ọzọ',
+  'connections.shareMyLocation': 'Kesaa ọnọdụ m',
+  'connections.pausedNow': ' (kwụsịtụrụ ugbu a)',
+  'connections.change': 'Gbanwee',
+  'connections.phonePlaceholder': 'Tinye nọmba ekwentị nwere ọnụọgụ 11',
+  'connections.sendInvitation': 'Ziga oku',
+  'connections.invitationExpires': "Oku ga-agwụ n'ime ụbọchị 7",
+  'connections.yourInvite': 'Oku gị',
+  'connections.inviteHint': 'Ka ha nyochaa koodu a, ma ọ bụ kesaa njikọ ahụ. Ọ na-arụ ọrụ otu ugboro ma ga-agwụ {time}. Ọ bụrụ na ha enwebeghị FamGuards, njikọ ahụ ga-eduga ha na ngwa a, oku ahụ ga-echere ruo mgbe ha debanyere aha.',
+  'connections.shareMessage': 'Jikọọ m na FamGuards ka anyị na-elebara ibe anyị anya: {link}',
+  'connections.shareLink': 'Kesaa njikọ',
+  'connections.copied': 'Edegharịrị!',
+  'connections.linkCopied': 'Edegharịrị njikọ oku na klipbọọdụ.',
+  'connections.copyLink': 'Detuo njikọ',
+  'connections.cancelInvite': 'Kagbuo oku',
+  'connections.pasteInvitePlaceholder': 'Mado njikọ oku',
+  'connections.openInviteHint': 'Mado njikọ oku onye nke ọzọ kesara, ma ọ bụ jiri kamera gị nyochaa koodu QR ha',
+
+  'locationSharing.always': 'Mgbe niile',
+  'locationSharing.off': 'Agbanyụọla',
+  'locationSharing.timeLeft': '{time} fọdụrụ',
+  'locationSharing.ending': 'Na-agwụ...',
+  'locationSharing.untilArrival': 'Ruo mgbe ọ rutere',
+  'locationSharing.everyDay': 'Kwa ụbọchị',
+  'locationSharing.weekdays': 'Ụbọchị ọrụ',
+  'locationSharing.weekends': 'Ngwụcha izu',
+  'locationSharing.day1': 'Mọn',
+  'locationSharing.day2': 'Tiu',
+  'locationSharing.day3': 'Wen',
+  'locationSharing.day4': 'Tọs',
+  'locationSharing.day5': 'Fraị',
+  'locationSharing.day6': 'Sat',
+  'locationSharing.day7': 'Sọn',
+
+  'batterySaving.description': 'Kwalite ọrụ ngwa iji chekwaa batrị. Ụfọdụ atụmatụ nwere ike ịdị oke.',
+  'batterySaving.activeProfile': 'Profaịlụ na-arụ ọrụ: {profile}',
+  'batterySaving.batteryLevel': '{reason} · Batrị {level}%',
+  'batterySaving.autoNote': "Nsochi na-ebelata n'onwe ya mgbe batrị gị dara n'okpuru {threshold}% ma anaghị chajị ya.",
+  'batterySaving.enable': 'Gbanye nchekwa batrị',
+  'batterySaving.enableSubtitle': "Belata ọrụ n'azụ",
+  'batterySaving.reduceLocation': 'Belata mmelite ọnọdụ',
+  'batterySaving.reduceLocationSubtitle': 'Melite ọnọdụ ugboro ole na ole',
+  'batterySaving.reduceSync': "Belata mmekọrịta n'azụ",
+  'batterySaving.reduceSyncSubtitle': 'Mekọrịta data ugboro ole na ole',
+  'batterySaving.saveFailed': 'Enweghị ike ichekwa ntọala nchekwa batrị. Biko nwaa ọzọ.',
+  'batterySaving.profile.normal': 'Izi ezi zuru oke',
+  'batterySaving.profile.normalDescription': "GPS ziri ezi, a na-ekesa ọnọdụ kwa nkeji 30 n'azụ.",
+  'batterySaving.profile.balanced': 'Nhazi nha nha',
+  'batterySaving.profile.balancedDescription': 'Izi ezi GPS dị ntakịrị ala na nlele ihu dị ole na ole.',
+  'batterySaving.profile.saver': 'Nchekwa batrị',
+  'batterySaving.profile.saverDescription': 'Ọnọdụ dịka, a na-emelite ya ihe dị ka otu ugboro kwa awa.',
+  'batterySaving.profile.critical': 'Batrị dị oke ala',
+  'batterySaving.profile.criticalDescription': 'Nsochi pere mpe, a na-emelite ya ihe dị ka kwa awa 2 ka ekwentị gị ghara ịnwụ.',
+  'batterySaving.reason.default': 'Agbanyụrụ nchekwa batrị',
+  'batterySaving.reason.settings': 'Dabere na ntọala nchekwa batrị gị',
+  'batterySaving.reason.lowBattery': "Batrị n'okpuru {threshold}%",
+  'batterySaving.reason.lowPowerMode': 'Ọnọdụ obere ike ngwaọrụ gbanyere',
+
+  'locationAccuracy.description': 'Họrọ otú ọnọdụ ị na-ekesara ndị gị si dị ziri ezi.',
+  'locationAccuracy.exact': 'Ọnọdụ GPS kpọmkwem',
+  'locationAccuracy.exactSubtitle': 'Kesaa ọnọdụ gị kpọmkwem na nhazi ziri ezi',
+  'locationAccuracy.approximate': 'Ọnọdụ dịka',
+  'locationAccuracy.approximateSubtitle': "Kesaa mpaghara n'ozuzu (ihe dị ka 2 km) na naanị obodo gị maka nzuzo",
+  'locationAccuracy.emergencyInfo': "N'oge SOS ma ọ bụ ihe mberede, a na-ekesa ọnọdụ gị kpọmkwem mgbe niile ka ndị gị nwee ike ịchọta gị.",
+  'locationAccuracy.emergencyActive': 'Nsochi ihe mberede na-arụ ọrụ. A na-ekesa ọnọdụ gị kpọmkwem ruo mgbe ọ kwụsịrị.',
+  'locationAccuracy.saveFailed': 'Enweghị ike ichekwa ntọala izi ezi ọnọdụ. Biko nwaa ọzọ.',
+
+  'updateFrequency.option15': 'Nkeji 15',
+  'updateFrequency.option15Description': 'Melite ọnọdụ kwa nkeji 15',
+  'updateFrequency.option30': 'Nkeji 30',
+  'updateFrequency.option30Description': 'Melite ọnọdụ kwa nkeji 30',
+  'updateFrequency.option60': 'Otu awa',
+  'updateFrequency.option60Description': 'Melite ọnọdụ kwa awa (a tụrụ aro ya)',
+  'updateFrequency.option120': 'Awa 2',
+  'updateFrequency.option120Description': 'Melite ọnọdụ kwa awa 2',
+  'updateFrequency.option180': 'Awa 3',
+  'updateFrequency.option180Description': 'Melite ọnọdụ kwa awa 3',
+  'updateFrequency.description': 'Họrọ ugboro ole a na-emelite ọnọdụ gị ma kesaa ya ndị gị. Mmelite ugboro ugboro na-adị ziri ezi karịa mana ọ na-eri batrị karịa.',
+  'updateFrequency.current': 'Nke ugbu a',
+  'updateFrequency.info': "A ga-emelite ọnọdụ gị n'onwe ya n'oge ị họrọ mgbe nkesa ọnọdụ gbanyere. Ị nwere ike ịgbanwe ntọala a oge ọ bụla.",
+  'updateFrequency.loadFailed': 'Enweghị ike ibudata ntọala. A na-eji ụkpụrụ ndabara.',
+  'updateFrequency.saveFailed': 'Enweghị ike ichekwa ugboro mmelite ọnọdụ. Biko nwaa ọzọ.',
+
+  'sleepMode.description': "Ọnọdụ ụra na-ebelata ọkwa na mmelite ọnọdụ n'oge ụra gị ka ọ ghara inye gị nsogbu. Mkpu SOS na ihe mberede nlebanya na-abịa mgbe niile.",
+  'sleepMode.enable': 'Gbanye ọnọdụ ụra',
+  'sleepMode.enableSubtitle': "Belata ọkwa n'oge ụra",
+  'sleepMode.hours': 'Oge ụra',
+  'sleepMode.startTime': 'Oge mmalite',
+  'sleepMode.endTime': 'Oge njedebe',
+  'sleepMode.timePickerNote': 'Enwere ike itinye ihe nhọrọ oge ebe a',
+  'sleepMode.saveFailed': 'Enweghị ike ichekwa ntọala ọnọdụ ụra. Biko nwaa ọzọ.',
+
+  'editProfile.name': 'Aha',
+  'editProfile.namePlaceholder': 'Tinye aha gị',
+  'editProfile.email': 'Email',
+  'editProfile.emailPlaceholder': 'Tinye email gị',
+  'editProfile.phone': 'Ekwentị',
+  'editProfile.phonePlaceholder': 'Tinye nọmba ekwentị gị',
+  'editProfile.save': 'Chekwaa mgbanwe',
+  'editProfile.nameRequired': 'Achọrọ aha',
+  'editProfile.saved': 'Emelitela profaịlụ',
+  'editProfile.saveFailed': 'Enweghị ike imelite profaịlụ. Biko nwaa ọzọ.',
+
+  'emergencyNotes.description': 'Tinye ozi ahụike dị mkpa, ihe ahụ gị anaghị anabata, ọgwụ, ma ọ bụ ndị kọntaktị mberede ndị gị kwesịrị ịhụ ma ọ bụrụ na ihe mberede mee.',
+  'emergencyNotes.placeholder': 'Dee ndetu mberede...',
+  'emergencyNotes.save': 'Chekwaa ndetu',
+  'emergencyNotes.saved': 'Emelitela ndetu mberede',
+  'emergencyNotes.saveFailed': 'Enweghị ike imelite ndetu mberede. Biko nwaa ọzọ.',
+
+  'locked.title': 'Akpọchiri ngwa',
+  'locked.secured': 'ECHEKWARA',
+  'locked.restricted': 'Egbochiri ịbanye na ngwa a nwa oge.',
+  'locked.messageWithPin': 'Tinye PIN gị, ma ọ bụ rịọ ndị gị ị tụkwasịrị obi ka ha kwado imeghe akaụntụ gị.',
+  'locked.messageNoPin': 'Biko kpọtụrụ ndị gị ị tụkwasịrị obi ka ha kwado imeghe akaụntụ gị.',
+  'locked.pinPlaceholder': 'Tinye PIN gị',
+  'locked.unlock': 'Meghee',
+  'locked.pinCheckFailed': 'Enweghị ike ịlele PIN gị. Biko nwaa ọzọ.',
+  'locked.incorrectPinOne': 'PIN ezighi ezi. Otu mgbalị fọdụrụ.',
+  'locked.incorrectPin': 'PIN ezighi ezi. Mgbalị {count} fọdụrụ.',
+  'locked.tooManyAttempts': 'Mgbalị ezighi ezi ebuola ibu. Rịọ ndị gị ka ha kwado mmeghe ahụ.',
+  'locked.noApprovers': "Ọ dịghị onye n'ime ndị gị nwere ike ịkwado mmeghe. Jiri PIN gị meghee.",
+  'locked.approvalsOne': "{approved} n'ime otu onye akwadola mmeghe",
+  'locked.approvals': "{approved} n'ime ndị {required} akwadola mmeghe",
+  'locked.exactLocation': 'A na-ekesa ọnọdụ gị kpọmkwem na ndị gị ruo mgbe emepere akaụntụ gị.',
+  'locked.checkingStatus': 'Na-elele ọnọdụ mkpọchi...',
+
+  'update.title': 'Achọrọ mmelite',
+  'update.subtitle': 'Ụdị ọhụrụ nke FamGuard dị',
+  'update.message': "Biko melite gaa na ụdị kachasị ọhụrụ iji gaa n'ihu na-eji ngwa a ma nweta atụmatụ ọhụrụ.",
+  'update.currentVersion': 'Ụdị ugbu a: {version}',
+  'update.updateNow': 'Melite ugbu a',
+  'update.storeInfo': "Ngwa a ga-emeghere gị {store} n'onwe ya",
+
+  'offlineMaps.totalStorage': 'Ngụkọta nchekwa: {size}',
+  'offlineMaps.emptyTitle': "Enweghị maapụ anọghị n'ịntanetị",
+  'offlineMaps.emptyText': 'Budata maapụ nke ebe netwọk na-adịghị mma iji ha mee ihe na-enweghị ịntanetị.',
+  'offlineMaps.downloadFirst': 'Budata maapụ mbụ gị',
+  'offlineMaps.tiles': '{size} • taịlụ {count}',
+  'offlineMaps.downloadedOn': 'Ebudatara na {date}',
+  'offlineMaps.downloadTitle': "Budata maapụ anọghị n'ịntanetị",
+  'offlineMaps.mapName': 'Aha maapụ',
+  'offlineMaps.mapNamePlaceholder': 'dịka: Gburugburu ụlọ, Ụzọ ọrụ',
+  'offlineMaps.selectRegion': 'Họrọ mpaghara',
+  'offlineMaps.selectRegionHint': 'Kpagharịa ma bugharịa iji họrọ mpaghara ịchọrọ ibudata',
+  'offlineMaps.downloading': 'Na-ebudata...',
+  'offlineMaps.tileProgress': 'Taịlụ {done} / {total}',
+  'offlineMaps.downloadMap': 'Budata maapụ',
+  'offlineMaps.loadFailed': "Enweghị ike ibudata maapụ anọghị n'ịntanetị.",
+  'offlineMaps.nameRequired': 'Biko tinye aha maapụ ahụ.',
+  'offlineMaps.regionRequired': 'Biko họrọ mpaghara na maapụ.',
+  'offlineMaps.downloaded': 'Ebudatala maapụ "{name}"!',
+  'offlineMaps.downloadFailed': 'Enweghị ike ibudata maapụ. Biko nwaa ọzọ.',
+  'offlineMaps.deleteTitle': 'Hichapụ maapụ',
+  'offlineMaps.deleteMessage': 'Ị ji n\'aka na ịchọrọ ihichapụ "{name}"? Nke a ga-ewepụta {size} nchekwa.',
+  'offlineMaps.deleteFailed': 'Enweghị ike ihichapụ maapụ.',
+  'offlineMaps.locationFailed': 'Enweghị ike inweta ọnọdụ ugbu a.',
+
+  'incidentDetail.title': 'Nkọwa ihe merenụ',
+  'incidentDetail.verified': 'Akwadoro',
+  'incidentDetail.status': 'Ọnọdụ',
+  'incidentDetail.status.ongoing': "Na-aga n'ihu",
+  'incidentDetail.status.contained': 'Ejidere ya',
+  'incidentDetail.status.resolved': 'Edozila',
+  'incidentDetail.reporterMarked': '{name} kara nke a dị ka {status}',
+  'incidentDetail.communityMarked': 'Obodo kara nke a dị ka {status}',
+  'incidentDetail.reporter': 'Onye kọrọ',
+  'incidentDetail.reply': 'Zaghachi',
+  'incidentDetail.statusVoteRecorded': 'Edebere votu gị',
+  'incidentDetail.statusConsensus': 'Ọnọdụ ahụ ga-agbanwe ozugbo mmadụ {count} kwenyere.',
+  'incidentDetail.statusFailed': 'Enweghị ike imelite ọnọdụ ahụ. Biko nwaa ọzọ.',
+  'incidentDetail.locationUnavailable': 'Ọnọdụ ebe ịnọ adịghị',
+  'incidentDetail.locationUnavailableMessage': 'A ga-ebipụta mmelite gị na-enweghị ebe ịnọ.',
+  'incidentDetail.postFailed': 'Enweghị ike ibipụta mmelite gị. Biko nwaa ọzọ.',
+  'incidentDetail.reporterHint': 'Ị kọrọ banyere ihe a merenụ. Na-emelite ọnọdụ ya.',
+  'incidentDetail.statusHint': 'Ọ ka na-eme? Ọnọdụ ahụ ga-agbanwe ozugbo mmadụ {count} kwenyere.',
+  'incidentDetail.description': 'Nkọwa',
+  'incidentDetail.reportedBy': '{name} kọrọ ya',
+  'incidentDetail.anonymous': 'Onye amaghị aha',
+  'incidentDetail.you': 'Gị',
+  'incidentDetail.directions': 'Nweta ụzọ',
+  'incidentDetail.updates': 'Mmelite',
+  'incidentDetail.noUpdates': 'Enweghị mmelite ugbu a. Ị hụrụ ihe ọhụrụ? Mee ka ndị ọzọ mara.',
+  'incidentDetail.replyingTo': 'Na-azaghachi {name}',
+  'incidentDetail.replyPlaceholder': 'Dee nzaghachi',
+  'incidentDetail.updatePlaceholder': 'dịka: Ndị uwe ojii abịala',
+  'incidentDetail.includeLocation': 'Tinye ebe m nọ',
+  'incidentDetail.post': 'Bipụta',
+
+  'incidentDetail.voteFailed': 'Enweghị ike idebe votu gị. Biko nwaa ọzọ.',
+  'incidentDetail.isAccurate': 'Nke a ọ bụ eziokwu?',
+  'incidentDetail.confirmVote': 'Enwere m ike ikwado ya ({count})',
+  'incidentDetail.falseVote': 'Nke a bụ ụgha ({count})',
+  'incidentDetail.voteHintReporter': 'Ndị ọzọ nọ nso nwere ike ikwado akụkọ gị.',
+  'incidentDetail.voteHint': 'Votu ndị nọ nso ebe ihe ahụ mere kacha baa uru.',
+
+  'incidents.filterMinutes': 'nkeji {count}',
+  'incidents.filterHours': 'awa {count}',
+  'incidents.loading': 'Na-ebudata ihe ndị merenụ...',
+  'incidents.noReports': 'Enweghị akụkọ ọhụrụ',
+  'incidents.noReportsMessage': "Enweghị ihe ọ bụla a kọrọ n'oge na-adịbeghị anya na mpaghara gị. Nọrọ na nchekwa!",
+
+  'travelAdvisory.title': 'Ndụmọdụ njem',
+  'travelAdvisory.subtitle': 'Mara maka ihe egwu njem',
+  'travelAdvisory.calculateRouteRisk': 'Gbakọọ ihe egwu ụzọ',
+  'travelAdvisory.originState': 'Steeti mmalite *',
+  'travelAdvisory.originCity': 'Obodo mmalite (nhọrọ)',
+  'travelAdvisory.destinationState': 'Steeti ebe a na-aga *',
+  'travelAdvisory.destinationCity': 'Obodo ebe a na-aga (nhọrọ)',
+  'travelAdvisory.originStatePlaceholder': 'dịka: Lagos',
+  'travelAdvisory.originCityPlaceholder': 'dịka: Ikeja',
+  'travelAdvisory.destinationStatePlaceholder': 'dịka: Abuja',
+  'travelAdvisory.destinationCityPlaceholder': 'dịka: Garki',
+  'travelAdvisory.calculateRisk': 'Gbakọọ ihe egwu',
+  'travelAdvisory.statesRequired': 'Biko tinye steeti mmalite na steeti ebe a na-aga.',
+  'travelAdvisory.routeRiskFailed': 'Enweghị ike ịgbakọ ihe egwu ụzọ ahụ. Biko nwaa ọzọ.',
+  'travelAdvisory.routeRiskTitle': 'Nyocha ihe egwu ụzọ',
+  'travelAdvisory.riskScore': 'Akara ihe egwu',
+  'travelAdvisory.last24h': 'Awa 24 gara aga',
+  'travelAdvisory.last7Days': 'Ụbọchị 7 gara aga',
+  'travelAdvisory.last30Days': 'Ụbọchị 30 gara aga',
+  'travelAdvisory.incidentsNearRoute': "Ihe ndị merenụ n'ime {distance} site n'ụzọ ahụ",
+  'travelAdvisory.incidentsInAreas': 'Ihe ndị merenụ na mpaghara mmalite na ebe a na-aga',
+  'travelAdvisory.forYourLocation': 'Ndụmọdụ maka ebe ị nọ',
+  'travelAdvisory.noAdvisories': 'Enweghị ndụmọdụ dị ugbu a',
+  'travelAdvisory.locationSafe': 'Ebe ị nọ ugbu a dị ka ọ dị mma',
+  'travelAdvisory.affectedAreas': 'Mpaghara metụtara:',
+  'travelAdvisory.source': 'Isi mmalite: {source}',
+  'travelAdvisory.risk.low': 'Obere ihe egwu',
+  'travelAdvisory.risk.moderate': 'Ihe egwu nkịtị',
+  'travelAdvisory.risk.high': 'Nnukwu ihe egwu',
+  'travelAdvisory.risk.critical': 'Ihe egwu dị oke njọ',
+  'travelAdvisory.type.security': 'NCHEKWA',
+  'travelAdvisory.type.weather': 'IHU ỊGWE',
+  'travelAdvisory.type.combined': 'NJIKỌTA',
+
+  'checkInSettings.saved': 'Echekwala ntọala.',
+  'checkInSettings.saveFailed': 'Enweghị ike ichekwa ntọala. Biko nwaa ọzọ.',
+  'checkInSettings.enable': 'Gbanye nkwenye nchekwa',
+  'checkInSettings.enableDescription': 'Kwe ka nkwenye nchekwa na-eme oge ụfọdụ',
+  'checkInSettings.interval': "Oge n'etiti nkwenye",
+  'checkInSettings.intervalLabel': "Oge n'etiti (nkeji)",
+  'checkInSettings.intervalHint': 'Ugboro ole ị chọrọ ịkwenye (ndabara: nkeji {minutes})',
+  'checkInSettings.automatic': 'Nkwenye akpaaka',
+  'checkInSettings.automaticDescription': "Kwenye n'onwe ya n'oge a haziri",
+  'checkInSettings.duringTravel': "Nkwenye akpaaka n'oge njem",
+  'checkInSettings.duringTravelDescription': "Kwenye n'onwe ya mgbe ị na-eme njem",
+  'checkInSettings.travelDetection': 'Nchọpụta njem',
+  'checkInSettings.speedThreshold': 'Oke ọsọ ({unit})',
+  'checkInSettings.speedThresholdHint': 'A na-ewere ya dị ka njem ma ọsọ karịrị oke a (ndabara: {speed})',
+  'checkInSettings.missedAlerts': 'Ọkwa nkwenye a tụfuru',
+  'checkInSettings.alertAfter': 'Nye ọkwa mgbe (nkeji)',
+  'checkInSettings.alertAfterHint': 'Mee ka ndị enyemaka mberede mara ma nkwenye agafee oge a (ndabara: nkeji {minutes})',
+  'checkInSettings.aboutTitle': 'Maka nkwenye nchekwa',
+  'checkInSettings.aboutText': "Nkwenye nchekwa na-enyere ndị enyemaka mberede gị aka ịma na ị nọ na nchekwa. Ị nwere ike ịkwenye n'onwe gị mgbe ọ bụla ma ọ bụ hazie nkwenye akpaaka.",
+  'checkInSettings.aboutMissed': 'Ọ bụrụ na ịtụfuo nkwenye a haziri, a ga-agwa ndị enyemaka mberede gị.',
+  'checkInSettings.save': 'Chekwaa ntọala',
+
+  'profile.loading': 'Na-ebugo profaịlụ...',
+  'profile.circlesSubtext': 'Ndị na-enweta ebe ị nọ na ọkwa gị',
+  'profile.shareLocationSubtext': 'Ndị njikọ gị ga-ahụ ya',
+  'profile.communityReportsSubtext': 'Gosi ihe mere nso',
+  'profile.accountLockSubtext': 'PIN mmeghe na nnabata njikọ',
+  'profile.locationAccuracySubtext': 'GPS kpọmkwem ma ọ bụ nso nso',
+  'profile.locationUpdateFrequencySubtext': 'Ugboro ole ka ebe ị nọ na-emelite',
+  'profile.pushNotificationsSubtext': 'Nata ọkwa nchekwa',
+  'profile.testPushNotificationSubtext': 'Ziga ọkwa nnwale na ngwaọrụ a',
+  'profile.warning': 'Ịdọ aka na ntị',
+  'profile.unknownError': 'Njehie amaghị',
+  'profile.continue': "Gaa n'ihu",
+  'profile.physicalDeviceTitle': 'Achọrọ ezigbo ngwaọrụ',
+  'profile.physicalDeviceMessage': 'Ọkwa push na-arụ ọrụ naanị na ezigbo ngwaọrụ, ọ bụghị na simulator ma ọ bụ emulator. Biko nwalee ya na ezigbo ngwaọrụ.',
+  'profile.permissionRequired': 'Achọrọ ikike',
+  'profile.permissionDeniedSettings': 'Ọkwa push chọrọ ikike ọkwa. O yiri ka ị jụrụ ikike a na mbụ.\n\nBiko gbanye ya n\'onwe gị:\n1. Gaa na Settings\n2. Pịa Apps > FamGuard\n3. Pịa Notifications\n4. Gbanye "Show notifications"',
+  'profile.permissionPrompt': 'Ọkwa push chọrọ ikike ọkwa iji mee ka ị mara maka ihe mberede.\n\nBiko nye ikike mgbe a jụrụ gị iji nata ọkwa nchekwa dị mkpa.',
+  'profile.pushTokenFailed': 'E nyere ikike mana edebanyeghị token push. Ọkwa nwere ike ghara ịrụ ọrụ. Biko nwaa ọzọ ma emechaa.',
+  'profile.permissionNotGranted': 'Enyeghị ikike',
+  'profile.permissionNotGrantedMessage': 'Achọrọ ikike ọkwa maka ọkwa push. Biko nye ikike iji gbanye ọkwa.',
+  'profile.notificationsSaveFailed': 'Enweghị ike ịchekwa ntọala ọkwa. Biko nwaa ọzọ.',
+  'profile.notificationsSaveFailedDetail': 'Enweghị ike ịchekwa ntọala ọkwa: {error}\n\nBiko nwaa ọzọ.',
+  'profile.notificationsEnabled': 'Agbanyela ọkwa push! Ị ga-anata ọkwa mberede na ọkwa nchekwa.',
+  'profile.notificationsSavedNoPermission': 'Echekwala ntọala ọkwa, mana enyeghị ikike. Biko gbanye ọkwa na ntọala ngwaọrụ.',
+  'profile.communityReportsSaveFailed': 'Enweghị ike ịchekwa ntọala akụkọ obodo. Biko nwaa ọzọ.',
+  'profile.locationSharingSaveFailed': 'Enweghị ike ịchekwa ntọala ịkekọrịta ebe ị nọ. Biko nwaa ọzọ.',
+  'profile.userNotFound': 'Achọtaghị onye ọrụ. Biko banye ma nwaa ọzọ.',
+  'profile.testPermissionMessage': 'Ọkwa push chọrọ ikike ọkwa. Biko gbanye ya na Settings > Apps > FamGuard > Notifications, ma ọ bụ gbanye Ọkwa Push na Profaịlụ.',
+  'profile.tokenNotFound': 'Achọtaghị token',
+  'profile.tokenNotFoundMessage': 'Edebanyeghị token ọkwa push. Biko gbanye Ọkwa Push na Profaịlụ iji debanye token gị.',
+  'profile.testPushConfirm': "Nke a ga-ezigara ngwaọrụ gị ọkwa nnwale. Gaa n'ihu?",
+  'profile.sendTest': 'Ziga nnwale',
+  'profile.testPushSendFailed': 'Enweghị ike iziga ọkwa nnwale: {error}\n\nLelee ndekọ Edge Function maka nkọwa.',
+  'profile.testPushSuccessTitle': '✅ Ọ gara nke ọma!',
+  'profile.testPushSuccess': "E zigara ọkwa nnwale!\n\nLelee ọkwa ngwaọrụ gị. Ị ga-anata ya n'oge na-adịghị anya.\n\nEzigara: {sent}\nDara ada: {failed}",
+  'profile.testPushNoneSentTitle': '⚠️ Ezighị ọkwa ọ bụla',
+  'profile.testPushNoneSent': '{message}\n\nNke a na-apụtakarị:\n• Achọtaghị token na nchekwa data\n• Token agwụla ma ọ bụ adịghị mma\n• Nwaa ịgbanyụ Ọkwa Push ma gbanyeghachi ya',
+  'profile.testPushUnknownTitle': '⚠️ Nsonaazụ amaghị',
+  'profile.testPushUnknown': 'Arịrịọ ọkwa agwụla mana enweghị nkwenye. Lelee ọkwa ngwaọrụ gị.',
+  'profile.testPushFailed': 'Enweghị ike ịnwale ọkwa: {error}\n\nBiko nwaa ọzọ.',
+  'profile.signOutConfirm': "Ì ji n'aka na ịchọrọ ịpụ?",
+  'profile.signOutFailed': 'Enweghị ike ịpụ. Biko nwaa ọzọ.',
+  'profile.deleteAccountConfirm': "Ì ji n'aka na ịchọrọ ihichapụ akaụntụ gị? Enweghị ike ịtụgharị nke a. A ga-ehichapụ data gị niile, njikọ na ntọala gị ruo mgbe ebighị ebi.",
+  'profile.finalConfirmation': 'Nkwenye ikpeazụ',
+  'profile.finalConfirmationMessage': "Nke a ga-ehichapụ akaụntụ gị na data niile metụtara ya ruo mgbe ebighị ebi. Ì ji n'aka kpamkpam?",
+  'profile.confirmDeleteAccount': 'Ee, hichapụ akaụntụ m',
+  'profile.deleteAccountFailed': 'Enweghị ike ihichapụ akaụntụ. Biko nwaa ọzọ.',
+  'profile.deleteUrlMissing': 'Ahazibeghị URL ihichapụ akaụntụ. Biko kpọtụrụ ndị nkwado.',
+  'profile.deleteViaWebsiteMessage': 'A ga-eduga gị na weebụsaịtị anyị iji mezue ihichapụ akaụntụ.',
+  'profile.openWebsiteFailed': 'Enweghị ike imeghe weebụsaịtị. Biko nwaa ọzọ ma emechaa.',
+};
+
+export default ig;
@@ -0,0 +1,998 @@
+import type { TranslationCatalog } from '../index';
+
+// Yoruba
+const yo: TranslationCatalog = {
+  'common.error': 'Àṣìṣe',
+  'common.success': 'Ó ti ṣe',
+  'common.ok': 'Ó dáa',
+  'common.cancel': 'Fagilé',
+  'common.save': 'Fipamọ́',
+  'common.delete': 'Paarẹ́',
+  'common.loadingSettings': 'Ó ń gbé àwọn ètò wọlé...',
+  'common.tryAgain': 'Nǹkan kan ṣàṣìṣe. Ẹ jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'common.openSettings': 'Ṣí Ètò',
+
+  'tabs.home': 'Ilé',
+  'tabs.incidents': 'Ìṣẹ̀lẹ̀',
+  'tabs.connections': 'Àwọn èèyàn mi',
+  'tabs.profile': 'Profáìlì',
+
+  'profile.personalInformation': 'Àlàyé ara ẹni',
+  'profile.editProfile': 'Ṣàtúnṣe profáìlì',
+  'profile.connections': 'Àwọn èèyàn mi',
+  'profile.circles': 'Àwọn àgbájọ àti ipa',
+  'profile.emergencyNotes': 'Àkọsílẹ̀ pàjáwìrì',
+  'profile.safetyPrivacy': 'Ààbò àti àṣírí',
+  'profile.shareLocation': 'Pín ibi tí mo wà',
+  'profile.communityReports': 'Ìròyìn àdúgbò',
+  'profile.locationAccuracy': 'Ìpéye ibi tí mo wà',
+  'profile.locationUpdateFrequency': 'Ìgbà ìmúdójúìwọ̀n ibi tí mo wà',
+  'profile.notifications': 'Ìfitónilétí',
+  'profile.pushNotifications': 'Ìfitónilétí lórí fóònù',
+  'profile.testPushNotification': 'Dán ìfitónilétí wò',
+  'profile.sleepMode': 'Ipò oorun',
+  'profile.notificationFilters': 'Àlẹ̀mọ́ ìfitónilétí',
+  'profile.accountLock': 'Títì àti ṣíṣí SOS',
+  'profile.appSettings': 'Ètò ápù',
+  'profile.languageRegion': 'Èdè àti agbègbè',
+  'profile.units': 'Ìwọ̀n (km / máìlì)',
+  'profile.batterySaving': 'Ìpamọ́ bátìrì',
+  'profile.offlineMaps': 'Máàpù láìsí ìntánẹ́ẹ̀tì',
+  'profile.usersManual': 'Ìwé ìtọ́sọ́nà',
+  'profile.helpSupport': 'Ìrànlọ́wọ́',
+  'profile.privacyPolicy': 'Ìlànà àṣírí',
+  'profile.termsOfService': 'Òfin ìlò',
+  'profile.accountManagement': 'Ìṣàkóso àkáǹtì',
+  'profile.deleteAccount': 'Paarẹ́ àkáǹtì',
+  'profile.deleteAccountWebsite': 'Paarẹ́ àkáǹtì lórí wẹ́ẹ̀bù',
+  'profile.signOut': 'Jáde',
+
+  'languageRegion.title': 'Èdè àti agbègbè',
+  'languageRegion.language': 'Èdè',
+  'languageRegion.region': 'Agbègbè',
+  'languageRegion.saveLanguageFailed': 'A kò lè fi èdè pamọ́. Ẹ jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'languageRegion.saveRegionFailed': 'A kò lè fi agbègbè pamọ́. Ẹ jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+
+  'units.title': 'Ìwọ̀n',
+  'units.description': 'Yan ètò ìwọ̀n fún ijìnnà, iyára àti ìkìlọ̀.',
+  'units.metric': 'Métíríkì (km, m)',
+  'units.metricSubtitle': 'Kìlómítà àti mítà',
+  'units.imperial': 'Ímpíríà (máìlì, ẹsẹ̀)',
+  'units.imperialSubtitle': 'Máìlì àti ẹsẹ̀',
+  'units.saveFailed': 'A kò lè fi ètò ìwọ̀n pamọ́. Ẹ jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+
+  'incidents.safetyFeed': 'Ìròyìn ààbò',
+  'incidents.distanceAway': '{distance} sí ibí',
+  'incidents.category.robbery': 'Olè jíjà',
+  'incidents.category.kidnapping': 'Ìjínigbé',
+  'incidents.category.accident': 'Ìjàǹbá',
+  'incidents.category.fire': 'Iná',
+  'incidents.category.protest': 'Ìfẹ̀hónúhàn',
+  'incidents.category.assault': 'Ìkọlù',
+  'incidents.category.theft': 'Olè',
+  'incidents.category.other': 'Òmíràn',
+
+  'time.justNow': 'Ní báyìí',
+  'time.minuteAgo': 'ìṣẹ́jú 1 sẹ́yìn',
+  'time.minutesAgo': 'ìṣẹ́jú {count} sẹ́yìn',
+  'time.hourAgo': 'wákàtí 1 sẹ́yìn',
+  'time.hoursAgo': 'wákàtí {count} sẹ́yìn',
+  'time.dayAgo': 'ọjọ́ 1 sẹ́yìn',
+  'time.daysAgo': 'ọjọ́ {count} sẹ́yìn',
+  'time.weekAgo': 'ọ̀sẹ̀ 1 sẹ́yìn',
+  'time.weeksAgo': 'ọ̀sẹ̀ {count} sẹ́yìn',
+  'time.monthAgo': 'oṣù 1 sẹ́yìn',
+  'time.monthsAgo': 'oṣù {count} sẹ́yìn',
+  'time.yearAgo': 'ọdún 1 sẹ́yìn',
+  'time.yearsAgo': 'ọdún {count} sẹ́yìn',
+  'time.todayAt': 'Lónìí ní {time}',
+  'time.yesterdayAt': 'Lánàá ní {time}',
+  'time.dateAt': '{date} ní {time}',
+
+  'lastSeen.onlineNow': 'Wà lórí ayélujára',
+  'lastSeen.active': 'Ṣiṣẹ́ {time}',
+  'lastSeen.lastSeen': 'Rí kẹ́yìn {time}',
+
+  'checkIn.title': 'Ìfọwọ́sí ààbò',
+  'checkIn.subtitle': 'Jẹ́ kí àwọn olùbásọ̀rọ̀ rẹ mọ̀ pé o wà láìléwu',
+  'checkIn.quickCheckIn': 'Ìfọwọ́sí kíákíá',
+  'checkIn.imSafe': 'Mo wà láìléwu',
+  'checkIn.delayed': 'Mo pẹ́',
+  'checkIn.checkingIn': 'Ń fọwọ́sí...',
+  'checkIn.lastCheckIn': 'Ìfọwọ́sí tó kẹ́yìn',
+  'checkIn.recentCheckIns': 'Àwọn ìfọwọ́sí àìpẹ́',
+  'checkIn.status.safe': 'LÁÌLÉWU',
+  'checkIn.status.unsafe': 'NÍ EWU',
+  'checkIn.status.delayed': 'Ó PẸ́',
+  'checkIn.status.missed': 'Ó FO',
+  'checkIn.successTitle': '✅ Ìfọwọ́sí ṣàṣeyọrí',
+  'checkIn.successMessage': 'A ti ṣe àtúnṣe ipò ààbò rẹ.',
+  'checkIn.failed': 'Ìfọwọ́sí kò ṣeé ṣe. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'checkIn.settingsTitle': 'Ètò ìfọwọ́sí',
+  'checkIn.autoCheckInsEnabled': 'Ìfọwọ́sí aládàáṣe: Ó ń ṣiṣẹ́',
+  'checkIn.autoCheckInsDisabled': 'Ìfọwọ́sí aládàáṣe: Kò ṣiṣẹ́',
+  'checkIn.interval': 'Àárín: Ní gbogbo ìṣẹ́jú {minutes}',
+  'checkIn.emergencyContacts': 'Àwọn olùbásọ̀rọ̀ pàjáwìrì: {count}',
+
+  'notificationFilters.sosAlert': 'Ìkìlọ̀ SOS',
+  'notificationFilters.sosAlertSubtitle': 'Ìkìlọ̀ pàjáwìrì láti ọ̀dọ̀ àwọn ènìyàn rẹ',
+  'notificationFilters.sosResponse': 'Ìdáhùn SOS',
+  'notificationFilters.sosResponseSubtitle': 'Ẹni tó ń dáhùn sí SOS',
+  'notificationFilters.checkInEmergency': 'Ìfọwọ́sí pàjáwìrì',
+  'notificationFilters.checkInEmergencySubtitle': 'Àwọn ènìyàn rẹ tó ń ròyìn pàjáwìrì',
+  'notificationFilters.checkInUnsafe': 'Ìfọwọ́sí àìléwu',
+  'notificationFilters.checkInUnsafeSubtitle': 'Àwọn ènìyàn rẹ tó ń ròyìn pé ara wọn kò balẹ̀',
+  'notificationFilters.missedCheckIn': 'Ìfọwọ́sí tó fo',
+  'notificationFilters.missedCheckInSubtitle': 'Àwọn ènìyàn rẹ tí kò fọwọ́sí ní àkókò',
+  'notificationFilters.tripOverdue': 'Ìrìn-àjò tó pẹ́ jù',
+  'notificationFilters.tripOverdueSubtitle': 'Ìrìn-àjò tó kọjá àkókò tàbí tí kò ròyìn mọ́',
+  'notificationFilters.incidentProximity': 'Ìṣẹ̀lẹ̀ nítòsí',
+  'notificationFilters.incidentProximitySubtitle': 'Ìṣẹ̀lẹ̀ tí a ròyìn nítòsí rẹ',
+  'notificationFilters.incident': 'Ìròyìn ìṣẹ̀lẹ̀',
+  'notificationFilters.incidentSubtitle': 'Ìṣẹ̀lẹ̀ tuntun nínú ìròyìn ààbò',
+  'notificationFilters.placeArrival': 'Dídé sí ibi',
+  'notificationFilters.placeArrivalSubtitle': 'Àwọn ènìyàn rẹ tó dé àwọn ibi rẹ',
+  'notificationFilters.placeDeparture': 'Kíkúrò ní ibi',
+  'notificationFilters.placeDepartureSubtitle': 'Àwọn ènìyàn rẹ tó kúrò ní àwọn ibi rẹ',
+  'notificationFilters.checkIn': 'Ìfọwọ́sí',
+  'notificationFilters.checkInSubtitle': 'Ìfọwọ́sí déédéé láti ọ̀dọ̀ àwọn ènìyàn rẹ',
+  'notificationFilters.tripStarted': 'Ìrìn-àjò bẹ̀rẹ̀',
+  'notificationFilters.tripStartedSubtitle': 'Àwọn ènìyàn rẹ tó ń pín ìrìn-àjò pẹ̀lú rẹ',
+  'notificationFilters.tripArrived': 'Dídé ìrìn-àjò',
+  'notificationFilters.tripArrivedSubtitle': 'Àwọn ènìyàn rẹ tó dé ibi tí wọ́n ń lọ',
+  'notificationFilters.tripCancelled': 'Ìrìn-àjò fagilé',
+  'notificationFilters.tripCancelledSubtitle': 'Àwọn ènìyàn rẹ tó parí ìrìn-àjò tí wọ́n pín ní kùtùkùtù',
+  'notificationFilters.travelAdvisory': 'Ìmọ̀ràn ìrìn-àjò',
+  'notificationFilters.travelAdvisorySubtitle': 'Ìmọ̀ràn ààbò fún ìrìn-àjò rẹ',
+  'notificationFilters.routeRisk': 'Ewu ọ̀nà',
+  'notificationFilters.routeRiskSubtitle': 'Ìkìlọ̀ ewu fún àwọn ọ̀nà tí a gbèrò',
+  'notificationFilters.connectionAdded': 'Àwọn ènìyàn tuntun',
+  'notificationFilters.connectionAddedSubtitle': 'Ẹnìkan fi ọ́ kún àwọn ènìyàn rẹ̀',
+  'notificationFilters.locationReminder': 'Ìrántí ibùdó',
+  'notificationFilters.locationReminderSubtitle': 'Ìrántí láti ṣe àtúnṣe ibi tí o wà',
+  'notificationFilters.morningGreeting': 'Ìkíni òwúrọ̀',
+  'notificationFilters.morningGreetingSubtitle': 'Ìkíni ẹ káàárọ̀ ojoojúmọ́',
+  'notificationFilters.afternoonGreeting': 'Ìkíni ọ̀sán',
+  'notificationFilters.afternoonGreetingSubtitle': 'Ìkíni ẹ káàsán ojoojúmọ́',
+  'notificationFilters.appUpdate': 'Àtúnṣe ohun èlò',
+  'notificationFilters.appUpdateSubtitle': 'Ẹ̀yà tuntun FamGuard',
+  'notificationFilters.title': 'Àlẹ̀mọ́ ìfitónilétí',
+  'notificationFilters.description': 'Yan àwọn ìfitónilétí tí o fẹ́ gbà. Ìkìlọ̀ SOS àti ìfọwọ́sí pàjáwìrì máa ń dé nígbà gbogbo, kódà láti ọ̀dọ̀ àwọn tí o pa ohùn wọn.',
+  'notificationFilters.safetyAlerts': 'Ìkìlọ̀ ààbò',
+  'notificationFilters.alerts': 'Ìkìlọ̀',
+  'notificationFilters.updatesGreetings': 'Àtúnṣe àti ìkíni',
+  'notificationFilters.connections': 'Àwọn ènìyàn rẹ',
+  'notificationFilters.noConnections': 'O kò tíì ní ẹnìkankan.',
+  'notificationFilters.alwaysOn': 'Máa ń ṣiṣẹ́ nígbà gbogbo',
+  'notificationFilters.connectionMuted': 'Ohùn ti pa - ìkìlọ̀ ààbò nìkan',
+  'notificationFilters.connectionAll': 'Gbogbo ìfitónilétí',
+  'notificationFilters.saveFailed': 'A kò lè fi àlẹ̀mọ́ pamọ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+
+  'findContacts.title': 'Wá àwọn olùbásọ̀rọ̀',
+  'findContacts.introTitle': 'Wá àwọn ènìyàn tí o mọ̀',
+  'findContacts.introDescription': 'Wo àwọn olùbásọ̀rọ̀ rẹ tí ń lo FamGuards tẹ́lẹ̀, kí o sì so pọ̀ pẹ̀lú ìfọwọ́kan kan, tàbí pe àwọn yòókù. Nọ́mbà fóònù wà lórí fóònù rẹ - àmì ọ̀nà kan ti nọ́mbà kọ̀ọ̀kan nìkan ni a ṣàyẹ̀wò.',
+  'findContacts.search': 'Ṣàwárí àwọn olùbásọ̀rọ̀',
+  'findContacts.regionHint': 'Nọ́mbà tí kò ní kóòdù orílẹ̀-èdè ni a kà sí ti {region}.',
+  'findContacts.changeRegion': 'Yí agbègbè padà',
+  'findContacts.noMatches': 'Kò sí olùbásọ̀rọ̀ tó bá ìwádìí rẹ mu.',
+  'findContacts.noValidNumbers': 'A kò rí olùbásọ̀rọ̀ kankan tó ní nọ́mbà fóònù tó péye.',
+  'findContacts.onFamGuards': 'Lórí FamGuards',
+  'findContacts.inviteToFamGuards': 'Pè wá sí FamGuards',
+  'findContacts.userOnFamGuards': '{name} lórí FamGuards',
+  'findContacts.connected': 'Ti so pọ̀',
+  'findContacts.invited': 'Ti pè',
+  'findContacts.connect': 'So pọ̀',
+  'findContacts.invite': 'Pè',
+  'findContacts.someNotChecked': 'A kò ṣàyẹ̀wò àwọn olùbásọ̀rọ̀ kan',
+  'findContacts.accessNeeded': 'A nílò àyè sí àwọn olùbásọ̀rọ̀',
+  'findContacts.accessNeededMessage': 'Fún wa ní àyè sí àwọn olùbásọ̀rọ̀ rẹ nínú Ètò láti wá àwọn ènìyàn tí o mọ̀.',
+  'findContacts.inviteFailed': 'A kò lè fi ìpè ránṣẹ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'findContacts.inviteLinkFailed': 'A kò lè ṣẹ̀dá ìpè. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'findContacts.messagesUnavailable': 'A kò lè ṣí ohun èlò ìfiránṣẹ́ rẹ.',
+
+  'sosEvent.status.active': 'Nílò ìrànlọ́wọ́',
+  'sosEvent.status.responderEnRoute': 'Olùrànlọ́wọ́ ń bọ̀',
+  'sosEvent.status.resolved': 'Ti yanjú',
+  'sosEvent.status.falseAlarm': 'Ìkìlọ̀ èké',
+  'sosEvent.title': 'SOS',
+  'sosEvent.loading': 'Ń gbé SOS wọlé...',
+  'sosEvent.unavailable': 'SOS yìí kò sí mọ́.',
+  'sosEvent.yourSos': 'SOS rẹ',
+  'sosEvent.silentWarning': 'SOS ìdákẹ́jẹ́ - wọ́n lè máa fipá mú {name}. Má ṣe pè é tàbí fi ọ̀rọ̀ ránṣẹ́ sí i.',
+  'sosEvent.started': 'Bẹ̀rẹ̀',
+  'sosEvent.lastLocation': 'Ibi tó kẹ́yìn',
+  'sosEvent.near': 'Nítòsí',
+  'sosEvent.closed': 'Ti pa',
+  'sosEvent.imResponding': 'Mo ń bọ̀ wá ràn ọ́ lọ́wọ́',
+  'sosEvent.cantHelp': 'Mi ò lè ràn lọ́wọ́',
+  'sosEvent.openLiveMap': 'Ṣí màápù ìgbà gidi',
+  'sosEvent.responders': 'Àwọn olùrànlọ́wọ́ ({count})',
+  'sosEvent.noResponders': 'Kò tíì sí ẹni tó dáhùn.',
+  'sosEvent.responderResponding': '{name} - ń bọ̀',
+  'sosEvent.responderCantHelp': '{name} - kò lè ràn lọ́wọ́',
+  'sosEvent.addNoteTitle': 'Fi àkọsílẹ̀ kún un',
+  'sosEvent.notePlaceholder': 'àpẹẹrẹ: A ti pe ọlọ́pàá',
+  'sosEvent.addNote': 'Fi kún un',
+  'sosEvent.resolve': 'Yanjú',
+  'sosEvent.falseAlarm': 'Ìkìlọ̀ èké',
+  'sosEvent.closeHint': 'A máa fi àkọsílẹ̀ rẹ kún ìtàn nígbà tí o bá pa SOS.',
+  'sosEvent.timeline': 'Ìtàn ìṣẹ̀lẹ̀',
+  'sosEvent.locationTrail': 'Ipa ọ̀nà ({count})',
+  'sosEvent.noLocations': 'A kò tíì gba ibi kankan sílẹ̀.',
+  'sosEvent.showLess': 'Fi díẹ̀ hàn',
+  'sosEvent.showAllLocations': 'Fi gbogbo ibi {count} hàn',
+  'sosEvent.resolveTitle': 'Yanjú SOS',
+  'sosEvent.resolveMessage': 'Yanjú rẹ̀ nígbà tí o bá mọ̀ pé {name} wà láìléwu nìkan.',
+  'sosEvent.falseAlarmTitle': 'Sàmì sí ìkìlọ̀ èké',
+  'sosEvent.falseAlarmMessage': 'Pa SOS yìí gẹ́gẹ́ bí ìkìlọ̀ èké? Àwọn ènìyàn {name} yóò rí i nínú ìtàn.',
+  'sosEvent.respondFailed': 'A kò lè dáhùn. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'sosEvent.noteFailed': 'A kò lè fi àkọsílẹ̀ rẹ kún un. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'sosEvent.closeFailed': 'A kò lè pa SOS. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'sosEvent.you': 'Ìwọ',
+  'sosEvent.someone': 'Ẹnìkan',
+  'sosEvent.them': 'wọn',
+  'sosEvent.update.opened': '{actor} fi SOS ránṣẹ́',
+  'sosEvent.update.acknowledged': '{actor} ń bọ̀ wá ràn lọ́wọ́',
+  'sosEvent.update.acknowledgedYou': 'Ìwọ ń bọ̀ wá ràn lọ́wọ́',
+  'sosEvent.update.called': '{actor} pe {name}',
+  'sosEvent.update.cantHelp': '{actor} kò lè ràn lọ́wọ́',
+  'sosEvent.update.statusChanged': '{actor} yí ipò padà sí {status}',
+  'sosEvent.update.note': '{actor} fi àkọsílẹ̀ kún un',
+  'sosEvent.statusUnknown': 'àìmọ̀',
+
+  'trip.title': 'Ìrìn-àjò',
+  'trip.description': 'Pín ìrìn-àjò ìgbà gidi pẹ̀lú àwọn ènìyàn tí o yàn. Bí o kò bá dé lásìkò tàbí fóònù rẹ dákẹ́, a ó kìlọ̀ fún wọn nípasẹ̀ ìgbésẹ̀ ìfọwọ́sí rẹ.',
+  'trip.loading': 'Ń gbé ìrìn-àjò wọlé...',
+  'trip.yourTrip': 'Ìrìn-àjò rẹ',
+  'trip.startATrip': 'Bẹ̀rẹ̀ ìrìn-àjò',
+  'trip.following': 'Ìrìn-àjò tí ò ń tẹ̀lé',
+  'trip.noneFollowing': 'Kò sí ẹni tó ń pín ìrìn-àjò pẹ̀lú rẹ.',
+  'trip.connection': 'Ẹni rẹ',
+  'trip.overdue': 'Ó ti pẹ́ jù',
+  'trip.expectedAt': 'A retí {time}',
+  'trip.distanceLeft': ' · {distance} ló kù',
+  'trip.overdueNoSignal': 'Ibi tí o wà kò ròyìn mọ́. A ti kìlọ̀ fún àwọn ènìyàn rẹ.',
+  'trip.overdueLate': 'Àkókò tí a retí pé kí o dé ti kọjá. A ti kìlọ̀ fún àwọn ènìyàn rẹ.',
+  'trip.expectedArrival': 'Àkókò dídé',
+  'trip.distanceLeftLabel': 'Ọ̀nà tó kù',
+  'trip.lastUpdate': 'Àtúnṣe tó kẹ́yìn',
+  'trip.sharedWith': 'Pín pẹ̀lú',
+  'trip.autoArrivalHint': 'A máa fọwọ́sí dídé rẹ fúnra rẹ̀ nígbà tí o bá dé ibi tí ò ń lọ.',
+  'trip.imArrived': 'Mo ti dé',
+  'trip.cancelTrip': 'Fagilé ìrìn-àjò',
+  'trip.keepTrip': 'Máa bá ìrìn-àjò lọ',
+  'trip.cancelMessage': 'Dá pínpín ìrìn-àjò yìí pẹ̀lú àwọn ènìyàn rẹ dúró?',
+  'trip.destination': 'Ibi tí ò ń lọ',
+  'trip.destinationPlaceholder': 'àpẹẹrẹ: 12 Allen Avenue, Ikeja',
+  'trip.travelTime': 'Àkókò ìrìn-àjò tí a retí',
+  'trip.minutesShort': 'ìṣẹ́jú {count}',
+  'trip.hoursShort': 'wákàtí {count}',
+  'trip.whoCanFollow': 'Àwọn tó lè tẹ̀lé ìrìn-àjò yìí',
+  'trip.addConnectionFirst': 'Kọ́kọ́ fi ẹnìkan kún un kí o tó lè pín ìrìn-àjò.',
+  'trip.startTrip': 'Bẹ̀rẹ̀ ìrìn-àjò',
+  'trip.enterDestination': 'Jọ̀wọ́ tẹ ibi tí ò ń lọ.',
+  'trip.chooseWatcher': 'Jọ̀wọ́ yan ẹnìkan ó kéré tán láti tẹ̀lé ìrìn-àjò rẹ.',
+  'trip.destinationNotFound': 'A kò rí ibi tí ò ń lọ',
+  'trip.destinationNotFoundMessage': 'Gbìyànjú àdírẹ́sì tàbí orúkọ ibi tó ṣe kedere jù.',
+  'trip.startFailedActive': 'A kò lè bẹ̀rẹ̀ ìrìn-àjò. Ó lè jẹ́ pé o ti ní ìrìn-àjò kan lọ́wọ́.',
+  'trip.startFailed': 'A kò lè bẹ̀rẹ̀ ìrìn-àjò. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'trip.confirmArrivalFailed': 'A kò lè fọwọ́sí dídé. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'trip.arrived': 'O ti dé',
+  'trip.arrivedMessage': 'A ti sọ fún àwọn ènìyàn rẹ pé o dé láìléwu.',
+  'trip.cancelFailed': 'A kò lè fagilé ìrìn-àjò. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+
+  'circles.title': 'Àwọn àgbájọ àti ipa',
+  'circles.description': 'Pín àwọn ènìyàn rẹ sí àgbájọ, kí o sì yan ohun tí àgbájọ kọ̀ọ̀kan yóò gbà. Àwọn tí kò sí nínú àgbájọ kankan máa ń gba gbogbo rẹ̀. Nígbà tí àkọọ́lẹ̀ rẹ bá wà ní títì lẹ́yìn SOS, gbogbo ènìyàn rẹ lè rí ibi tí o wà.',
+  'circles.loading': 'Ń gbé àwọn àgbájọ wọlé...',
+  'circles.newCircle': 'Àgbájọ tuntun',
+  'circles.namePlaceholder': 'Orúkọ àgbájọ, àpẹẹrẹ Ẹbí',
+  'circles.createCircle': 'Ṣẹ̀dá àgbájọ',
+  'circles.yourCircles': 'Àwọn àgbájọ rẹ',
+  'circles.noCircles': 'O kò tíì ní àgbájọ kankan. Gbogbo ènìyàn rẹ ń gba ibi tí o wà àti gbogbo ìkìlọ̀.',
+  'circles.roles': 'Àwọn ipa',
+  'circles.members': 'Àwọn ọmọ ẹgbẹ́',
+  'circles.memberCount': 'Ọmọ ẹgbẹ́ 1',
+  'circles.membersCount': 'Ọmọ ẹgbẹ́ {count}',
+  'circles.noMembers': 'Kò tíì sí ẹnìkan nínú àgbájọ yìí.',
+  'circles.allInCircle': 'Gbogbo ènìyàn rẹ ló wà nínú àgbájọ yìí.',
+  'circles.done': 'Ó ti parí',
+  'circles.addConnections': 'Fi àwọn ènìyàn kún un',
+  'circles.formerConnection': 'Ẹni rẹ tẹ́lẹ̀',
+  'circles.setting.shareLocation': 'Pín ibi tí o wà',
+  'circles.setting.shareLocationSubtitle': 'Àwọn ọmọ ẹgbẹ́ ń rí ibi tí o wà ní ìgbà gidi',
+  'circles.setting.sosAlerts': 'Ìkìlọ̀ SOS',
+  'circles.setting.sosAlertsSubtitle': 'A máa kìlọ̀ fún àwọn ọmọ ẹgbẹ́ nígbà tí o bá fi SOS ránṣẹ́',
+  'circles.setting.checkInAlerts': 'Ìkìlọ̀ ìfọwọ́sí',
+  'circles.setting.checkInAlertsSubtitle': 'Àwọn ọmọ ẹgbẹ́ ń gba ìfọwọ́sí rẹ àti èyí tó fo',
+  'circles.setting.unlockApproval': 'Ìfọwọ́sí ìṣílẹ̀kùn',
+  'circles.setting.unlockApprovalSubtitle': 'Àwọn ọmọ ẹgbẹ́ lè fọwọ́sí ṣíṣí àkọọ́lẹ̀ rẹ',
+  'circles.preset.family': 'Ẹbí',
+  'circles.preset.work': 'Iṣẹ́',
+  'circles.preset.neighbors': 'Àwọn aládùúgbò',
+  'circles.role.guardian': 'Alábòójútó',
+  'circles.role.guardianSubtitle': 'Máa ń gba ìkìlọ̀ àti ibi tí o wà nígbà gbogbo, ó sì lè fọwọ́sí ìṣílẹ̀kùn',
+  'circles.role.member': 'Ọmọ ẹgbẹ́',
+  'circles.role.memberSubtitle': 'Ń tẹ̀lé ètò àgbájọ',
+  'circles.role.dependent': 'Ẹni tí a ń tọ́jú',
+  'circles.role.dependentSubtitle': 'Ń tẹ̀lé ètò àgbájọ, ṣùgbọ́n kò lè fọwọ́sí ìṣílẹ̀kùn láé',
+  'circles.nameTitle': 'Orúkọ àgbájọ',
+  'circles.nameRequired': 'Jọ̀wọ́ tẹ orúkọ fún àgbájọ náà.',
+  'circles.nameTaken': 'O ti ní àgbájọ kan tí a ń pè ní {name}.',
+  'circles.createFailed': 'A kò lè ṣẹ̀dá àgbájọ. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'circles.saveFailed': 'A kò lè fi ètò àgbájọ pamọ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'circles.deleteTitle': 'Pa àgbájọ rẹ́',
+  'circles.deleteMessage': 'Pa {name} rẹ́? Àwọn tí kò sí nínú àgbájọ mìíràn yóò tún máa gba gbogbo ìkìlọ̀ àti ibi tí o wà.',
+  'circles.deleteFailed': 'A kò lè pa àgbájọ rẹ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'circles.addFailed': 'A kò lè fi ẹni náà kún un. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'circles.roleFailed': 'A kò lè yí ipa padà. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'circles.removeFailed': 'A kò lè yọ ẹni náà kúrò. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'circles.roleIn': 'Ipa nínú {circle}',
+  'circles.makeRole': 'Sọ di {role}',
+  'circles.removeFrom': 'Yọ kúrò nínú {circle}',
+
+  'accountLock.event.locked': 'A ti ti àkọọ́lẹ̀',
+  'accountLock.event.unlockApproved': 'A ti fọwọ́sí ìṣílẹ̀kùn',
+  'accountLock.event.unlocked': 'A ti ṣí àkọọ́lẹ̀',
+  'accountLock.event.pinFailed': 'A tẹ PIN tí kò tọ́',
+  'accountLock.event.pinSet': 'A ti ṣètò PIN',
+  'accountLock.event.pinRemoved': 'A ti yọ PIN kúrò',
+  'accountLock.method.sos': 'lẹ́yìn SOS',
+  'accountLock.method.pin': 'pẹ̀lú PIN',
+  'accountLock.method.quorum': 'láti ọwọ́ àwọn ènìyàn rẹ',
+  'accountLock.method.admin': 'láti ọwọ́ ìrànlọ́wọ́',
+  'accountLock.byActor': 'láti ọwọ́ {name}',
+  'accountLock.description': 'Lẹ́yìn SOS, a máa ti àkọọ́lẹ̀ rẹ. Yan bí a ṣe lè ṣí i padà.',
+  'accountLock.unlockPin': 'PIN ìṣílẹ̀kùn',
+  'accountLock.pinSet': 'A ti ṣètò PIN',
+  'accountLock.noPin': 'Kò sí PIN',
+  'accountLock.pinDescription': 'Ó jẹ́ kí o ṣí àkọọ́lẹ̀ rẹ láti ojú ìtì. Pa á mọ́ ní àṣírí.',
+  'accountLock.newPinPlaceholder': 'PIN tuntun (nọ́mbà 4-8)',
+  'accountLock.confirmPinPlaceholder': 'Fìdí PIN múlẹ̀',
+  'accountLock.savePin': 'Fi PIN pamọ́',
+  'accountLock.remove': 'Yọ kúrò',
+  'accountLock.changePin': 'Yí PIN padà',
+  'accountLock.setPin': 'Ṣètò PIN',
+  'accountLock.silentSos': 'SOS ìdákẹ́jẹ́',
+  'accountLock.duressPinSet': 'A ti ṣètò PIN ìfipámú',
+  'accountLock.noDuressPin': 'Kò sí PIN ìfipámú',
+  'accountLock.duressDescription': 'Títẹ PIN ìfipámú rẹ lójú ìtì máa ṣí ohun èlò náà bí ó ti máa ń ṣe, ṣùgbọ́n ó máa kìlọ̀ fún àwọn ènìyàn rẹ ní ìdákẹ́jẹ́, ó sì máa pín ibi tí o wà gan-an.',
+  'accountLock.holdDescription': 'O tún lè di bọ́tìnnì Ìkìlọ̀ Pàjáwìrì mú lójú ilé fún ìṣẹ́jú-àáyá 3. Kò sí ohun tó máa yí padà lójú fóònù. Ẹni rẹ nìkan ló lè parí SOS ìdákẹ́jẹ́.',
+  'accountLock.setPinFirst': 'Kọ́kọ́ ṣètò PIN ìṣílẹ̀kùn kí o tó fi PIN ìfipámú kún un.',
+  'accountLock.duressPinPlaceholder': 'PIN ìfipámú (nọ́mbà 4-8)',
+  'accountLock.confirmDuressPinPlaceholder': 'Fìdí PIN ìfipámú múlẹ̀',
+  'accountLock.changeDuressPin': 'Yí PIN ìfipámú padà',
+  'accountLock.setDuressPin': 'Ṣètò PIN ìfipámú',
+  'accountLock.approvals': 'Ìfọwọ́sí àwọn ènìyàn rẹ',
+  'accountLock.approvalsDescription': 'Iye ènìyàn rẹ tó gbọ́dọ̀ fọwọ́sí kí a tó ṣí àkọọ́lẹ̀ rẹ. Kò lè ju iye ènìyàn tí o ní nígbà tí ìtì bẹ̀rẹ̀.',
+  'accountLock.history': 'Ìtàn ìtì',
+  'accountLock.noHistory': 'Kò tíì sí ìṣẹ̀lẹ̀ ìtì kankan.',
+  'accountLock.invalidPin': 'PIN kò tọ́',
+  'accountLock.invalidPinMessage': 'PIN rẹ gbọ́dọ̀ jẹ́ nọ́mbà 4 sí 8.',
+  'accountLock.invalidDuressPinMessage': 'PIN ìfipámú rẹ gbọ́dọ̀ jẹ́ nọ́mbà 4 sí 8.',
+  'accountLock.pinMismatch': 'PIN kò bára mu',
+  'accountLock.pinMismatchMessage': 'Jọ̀wọ́ tẹ PIN kan náà lẹ́ẹ̀mejì.',
+  'accountLock.savePinFailed': 'A kò lè fi PIN rẹ pamọ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'accountLock.removePinTitle': 'Yọ PIN kúrò',
+  'accountLock.removePinMessage': 'Láìsí PIN, àwọn ènìyàn rẹ nìkan ló lè ṣí àkọọ́lẹ̀ rẹ lẹ́yìn SOS. A ó yọ PIN ìfipámú rẹ kúrò pẹ̀lú.',
+  'accountLock.removePinFailed': 'A kò lè yọ PIN rẹ kúrò. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'accountLock.saveDuressPinFailed': 'A kò lè fi PIN ìfipámú rẹ pamọ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'accountLock.removeDuressPinTitle': 'Yọ PIN ìfipámú kúrò',
+  'accountLock.removeDuressPinMessage': 'O ṣì lè fi SOS ìdákẹ́jẹ́ ránṣẹ́ nípa dídi bọ́tìnnì Ìkìlọ̀ Pàjáwìrì mú.',
+  'accountLock.removeDuressPinFailed': 'A kò lè yọ PIN ìfipámú rẹ kúrò. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'accountLock.saveQuorumFailed': 'A kò lè fi ìfọwọ́sí ìṣílẹ̀kùn pamọ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+
+  'notifications.title': 'Ìfitónilétí',
+  'notifications.markAllRead': 'Sàmì gbogbo rẹ̀ pé a ti kà á',
+  'notifications.emptyTitle': 'Kò sí ìfitónilétí',
+  'notifications.emptyText': 'O ti rí gbogbo rẹ̀!',
+  'notifications.alertLevel.danger': 'EWU',
+  'notifications.alertLevel.warning': 'ÌKÌLỌ̀',
+  'notifications.alertLevel.alert': 'ÌTANIJÍ',
+  'notifications.markAllReadFailed': 'A kò lè sàmì gbogbo ìfitónilétí pé a ti kà wọ́n.',
+  'notifications.locationPermissionTitle': 'A nílò ìyọ̀ǹda ibùdó',
+  'notifications.locationPermissionMessage': 'Láti ṣe àtúnṣe ibi tí o wà, jọ̀wọ́ fún wa ní ìyọ̀ǹda ibùdó nínú Ètò.',
+  'notifications.permissionTitle': 'A nílò ìyọ̀ǹda',
+  'notifications.permissionMessage': 'A nílò ìyọ̀ǹda ibùdó láti ṣe àtúnṣe ibi tí o wà.',
+  'notifications.locationUpdatedTitle': 'A ti ṣe àtúnṣe ibi tí o wà',
+  'notifications.locationUpdatedMessage': 'A ti ṣe àtúnṣe ibi tí o wà ní àṣeyọrí.',
+  'notifications.locationErrorTitle': 'Àṣìṣe ibùdó',
+  'notifications.locationErrorMessage': 'A kò lè rí ibi tí o wà báyìí. Jọ̀wọ́ ṣàyẹ̀wò ètò ibùdó rẹ.',
+  'notifications.updateLocationFailed': 'A kò lè ṣe àtúnṣe ibùdó. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'notifications.emergencyLocation': 'Ibùdó pàjáwìrì',
+  'notifications.placeAlert': 'Ìtanijí ibi',
+
+  'reportIncident.title': 'Jábọ̀ ìṣẹ̀lẹ̀',
+  'reportIncident.subtitle': 'Ràn àdúgbò rẹ lọ́wọ́ láti wà láìléwu',
+  'reportIncident.type': 'Irú ìṣẹ̀lẹ̀',
+  'reportIncident.titleLabel': 'Àkọlé',
+  'reportIncident.titlePlaceholder': 'Àkọlé kúkúrú fún ìṣẹ̀lẹ̀ náà',
+  'reportIncident.descriptionLabel': 'Àpèjúwe',
+  'reportIncident.descriptionPlaceholder': 'Ṣàpèjúwe ohun tó ṣẹlẹ̀, ìgbà tó ṣẹlẹ̀, àti àwọn àlàyé tó wúlò...',
+  'reportIncident.media': 'Àwòrán àti fídíò',
+  'reportIncident.camera': 'Kámẹ́rà',
+  'reportIncident.library': 'Àkójọ àwòrán',
+  'reportIncident.mediaHint': 'A máa yọ dátà ibùdó kúrò nínú àwòrán àti fídíò kí a tó gbé wọn sókè. Fídíò tó tó ìṣẹ́jú-àáyá {seconds}.',
+  'reportIncident.location': 'Ibùdó',
+  'reportIncident.gettingLocation': 'À ń wá ibi tí o wà...',
+  'reportIncident.retry': 'Gbìyànjú lẹ́ẹ̀kan sí i',
+  'reportIncident.noLocation': 'Kò sí ibùdó',
+  'reportIncident.visibilityHint': 'Àwọn tó wà nítòsí nìkan (láàárín {distance}) ló máa rí ìjábọ̀ yìí',
+  'reportIncident.when': 'Ìgbà wo ni èyí ṣẹlẹ̀?',
+  'reportIncident.happeningNow': 'Ó ń ṣẹlẹ̀ báyìí',
+  'reportIncident.happenedEarlier': 'Ó ṣẹlẹ̀ ṣáájú',
+  'reportIncident.anonymous': 'Ìjábọ̀ láìdárúkọ',
+  'reportIncident.anonymousHint': 'Fi orúkọ rẹ pamọ́ fún gbogbo ènìyàn (a ṣì máa tọ́jú rẹ̀ nínú fún ààbò)',
+  'reportIncident.info': 'Ìjábọ̀ rẹ ń ràn àdúgbò lọ́wọ́ láti wà láìléwu. Ìjábọ̀ èké lè mú kí a dá àkọọ́lẹ̀ dúró.',
+  'reportIncident.uploading': 'À ń gbé e sókè...',
+  'reportIncident.submitting': 'À ń fi ránṣẹ́...',
+  'reportIncident.submit': 'Fi ìjábọ̀ ránṣẹ́',
+  'reportIncident.mediaStatus.preparing': 'À ń múra...',
+  'reportIncident.mediaStatus.done': 'A ti gbé e sókè',
+  'reportIncident.mediaStatus.queued': 'Ó wà nínú ìlà',
+  'reportIncident.mediaStatus.failed': 'Kò ṣeé ṣe',
+  'reportIncident.mediaStatus.unsupportedFormat': 'Ọ̀nà fáìlì tí a kò gbà',
+  'reportIncident.mediaStatus.tooLong': 'Ó gùn jù',
+  'reportIncident.mediaStatus.limitReached': 'Ó ti kọjá òdiwọ̀n',
+  'reportIncident.thisLocation': 'ibí yìí',
+  'reportIncident.autoTitle.robbery': 'A ti jábọ̀ olè jíjà',
+  'reportIncident.autoTitle.kidnapping': 'A ti jábọ̀ ìṣe àìfọkànbalẹ̀',
+  'reportIncident.autoTitle.accident': 'A ti jábọ̀ ìjàǹbá ọkọ̀',
+  'reportIncident.autoTitle.fire': 'A ti jábọ̀ iná',
+  'reportIncident.autoTitle.protest': 'A ti jábọ̀ ìkórajọ ìfẹ̀hónúhàn',
+  'reportIncident.autoTitle.assault': 'A ti jábọ̀ ìkọlù',
+  'reportIncident.autoTitle.theft': 'A ti jábọ̀ olè',
+  'reportIncident.autoTitle.other': 'A ti jábọ̀ ìṣẹ̀lẹ̀',
+  'reportIncident.autoDescription.robbery': 'A ti jábọ̀ ìṣẹ̀lẹ̀ olè jíjà kan.\n\nIbùdó: {address}\n\nJọ̀wọ́ ṣọ́ra, kí o sì yẹra fún agbègbè náà tí ó bá ṣeé ṣe. A ti fi tó àwọn aláṣẹ létí.',
+  'reportIncident.autoDescription.kidnapping': 'A ti jábọ̀ ìṣe àìfọkànbalẹ̀ tó jẹ mọ́ ìjínigbé.\n\nIbùdó: {address}\n\nJọ̀wọ́ ṣọ́ra, kí o sì sọ fún àwọn aláṣẹ nípa ìwà àìfọkànbalẹ̀ kíákíá.',
+  'reportIncident.autoDescription.accident': 'A ti jábọ̀ ìjàǹbá ọkọ̀ kan.\n\nIbùdó: {address}\n\nÀwọn òṣìṣẹ́ pàjáwìrì ń bọ̀. Retí ìdádúró, kí o sì lo ọ̀nà mìíràn tí ó bá ṣeé ṣe.',
+  'reportIncident.autoDescription.fire': 'A ti jábọ̀ iná kan.\n\nIbùdó: {address}\n\nÀwọn panápaná ń bọ̀. Jọ̀wọ́ yẹra fún agbègbè náà, kí o sì tẹ̀lé ìtọ́ni àwọn òṣìṣẹ́ pàjáwìrì.',
+  'reportIncident.autoDescription.protest': 'A ti jábọ̀ ìkórajọ ìfẹ̀hónúhàn kan.\n\nIbùdó: {address}\n\nRetí ìdádúró ọkọ̀, kí o sì ṣọ́ra tí o bá wà ní agbègbè náà.',
+  'reportIncident.autoDescription.assault': 'A ti jábọ̀ ìṣẹ̀lẹ̀ ìkọlù kan.\n\nIbùdó: {address}\n\nJọ̀wọ́ yẹra fún agbègbè náà, kí o sì sọ ohunkóhun tó wúlò fún àwọn aláṣẹ.',
+  'reportIncident.autoDescription.theft': 'A ti jábọ̀ olè kan.\n\nIbùdó: {address}\n\nJọ̀wọ́ tọ́jú àwọn ẹrù rẹ, kí o sì jábọ̀ ìṣe àìfọkànbalẹ̀ èyíkéyìí.',
+  'reportIncident.autoDescription.other': 'A ti jábọ̀ ìṣẹ̀lẹ̀ kan.\n\nIbùdó: {address}\n\nJọ̀wọ́ ṣọ́ra ní agbègbè náà.',
+  'reportIncident.locationPermissionDenied': 'A kọ ìyọ̀ǹda ibùdó. Jọ̀wọ́ ṣí àyè ibùdó nínú Ètò.',
+  'reportIncident.locationUnavailable': 'A kò lè rí ibi tí o wà. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'reportIncident.locationFailed': 'Wíwá ibùdó kò ṣeé ṣe. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'reportIncident.limitReached': 'O ti dé òpin',
+  'reportIncident.limitReachedMessage': 'O lè so àwòrán tàbí fídíò tó tó {count} mọ́ ọn.',
+  'reportIncident.permissionTitle': 'A nílò ìyọ̀ǹda',
+  'reportIncident.cameraPermission': 'A nílò àyè kámẹ́rà láti ya àwòrán tàbí fídíò ìṣẹ̀lẹ̀ náà.',
+  'reportIncident.libraryPermission': 'A nílò àyè àkójọ àwòrán láti so àwòrán tàbí fídíò mọ́ ọn.',
+  'reportIncident.videoTooLong': 'Fídíò ti gùn jù',
+  'reportIncident.videoTooLongMessage': 'Fídíò kò gbọ́dọ̀ ju ìṣẹ́jú-àáyá {seconds} lọ.',
+  'reportIncident.attachFailed': 'A kò lè so fáìlì náà mọ́ ọn. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'reportIncident.requiredFields': 'Jọ̀wọ́ kún gbogbo àyè tó pọn dandan',
+  'reportIncident.locationRequired': 'A nílò ibùdó. Jọ̀wọ́ dúró kí ibùdó dé tàbí gbìyànjú láti sọ ọ́ di tuntun.',
+  'reportIncident.invalidCoordinates': 'Kóòdù ibùdó kò tọ́. Jọ̀wọ́ sọ ibùdó rẹ di tuntun.',
+  'reportIncident.invalidLatitude': 'Latitude kò tọ́. Jọ̀wọ́ sọ ibùdó rẹ di tuntun.',
+  'reportIncident.invalidLongitude': 'Longitude kò tọ́. Jọ̀wọ́ sọ ibùdó rẹ di tuntun.',
+  'reportIncident.submitted': 'A ti jábọ̀ ìṣẹ̀lẹ̀ náà ní àṣeyọrí.',
+  'reportIncident.mediaQueued': 'Àwòrán/fídíò {count} máa parí gbígbé sókè nígbà tí ìsopọ̀ rẹ bá dára sí i.',
+  'reportIncident.mediaFailed': 'A kò lè so àwòrán/fídíò {count} mọ́ ọn.',
+  'reportIncident.submitFailed': 'A kò lè jábọ̀ ìṣẹ̀lẹ̀ náà. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+
+  'home.visibleToConnections': 'Àwọn ènìyàn rẹ lè rí ọ',
+  'home.hiddenFromConnections': 'Ó pamọ́ fún àwọn ènìyàn rẹ',
+  'home.connectionCount': 'Ènìyàn 1',
+  'home.connectionsCount': 'Ènìyàn {count}',
+  'home.location': 'Ibùdó',
+  'home.updating': 'À ń ṣe àtúnṣe...',
+  'home.sharing': 'À ń pín in',
+  'home.hidden': 'Ó pamọ́',
+  'home.sharingOffTitle': 'Pípín ibùdó ti wà ní pípa',
+  'home.sharingOffMessage': 'Tan pípín ibùdó kí àwọn ènìyàn rẹ lè rí ibi tí o wà, kí wọ́n sì dáhùn nígbà pàjáwìrì.',
+  'home.turnOn': 'Tàn án',
+  'home.emergency': 'Pàjáwìrì',
+  'home.emergencyAlert': 'Ìkìlọ̀ Pàjáwìrì',
+  'home.alertConnection': 'Kìlọ̀ fún ènìyàn 1',
+  'home.alertConnections': 'Kìlọ̀ fún ènìyàn {count}',
+  'home.quickActions': 'Ìgbésẹ̀ kíákíá',
+  'home.reportIncidentSubtitle': 'Jábọ̀ ìṣòro ààbò',
+  'home.checkInSubtitle': 'Jẹ́ kí àwọn ènìyàn rẹ mọ̀ pé o wà láìléwu',
+  'home.emergencySent': 'A ti fi pàjáwìrì ránṣẹ́',
+  'home.emergencyQueued': 'Pàjáwìrì wà nínú ìlà',
+  'home.emergencySentMessage': 'A ti fi ìkìlọ̀ pàjáwìrì rẹ ránṣẹ́ sí àwọn ènìyàn rẹ ní àṣeyọrí.',
+  'home.emergencyQueuedMessage': 'A kò tíì dé ọ̀dọ̀ àwọn ènìyàn kan. FamGuard á máa gbìyànjú títí ìkìlọ̀ rẹ yóò fi dé.',
+  'home.continue': 'Tẹ̀síwájú',
+  'home.recipient.notified': 'A ti sọ fún un',
+  'home.recipient.appOff': 'Ìfitónilétí ohun èlò ti wà ní pípa',
+  'home.recipient.retrying': 'À ń gbìyànjú lẹ́ẹ̀kan sí i...',
+  'home.recipient.smsReady': 'SMS ti ṣetán',
+  'home.recipient.smsUnavailable': 'SMS kò sí',
+  'home.permissionTitle': 'A nílò ìyọ̀ǹda',
+  'home.locationPermissionMessage': 'A nílò ìyọ̀ǹda ibùdó láti pín ibi tí o wà pẹ̀lú àwọn ènìyàn rẹ.',
+  'home.locationErrorTitle': 'Àṣìṣe ibùdó',
+  'home.locationErrorMessage': 'A kò lè rí ibi tí o wà. Jọ̀wọ́ ṣàyẹ̀wò ètò ibùdó rẹ.',
+  'home.toggleSharingFailed': 'A kò lè ṣe àtúnṣe pípín ibùdó. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'home.noConnections': 'Kò sí ènìyàn kankan',
+  'home.noConnectionsMessage': 'O ní láti fi àwọn ènìyàn kún un kí o tó fi ìkìlọ̀ pàjáwìrì ránṣẹ́.',
+  'home.sendAlertTitle': 'Ṣé kí a fi ìkìlọ̀ pàjáwìrì ránṣẹ́?',
+  'home.sendAlertMessageOne': 'Èyí máa fi ìkìlọ̀ pàjáwìrì ránṣẹ́ sí ènìyàn rẹ 1.',
+  'home.sendAlertMessage': 'Èyí máa fi ìkìlọ̀ pàjáwìrì ránṣẹ́ sí gbogbo ènìyàn rẹ {count}.',
+  'home.sendAlert': 'Fi ìkìlọ̀ pàjáwìrì ránṣẹ́',
+  'home.alertWithoutLocation': 'A kò lè rí ibi tí o wà. A máa fi ìkìlọ̀ pàjáwìrì ránṣẹ́ láìsí ibùdó.',
+  'home.sendAlertFailed': 'A kò lè fi ìkìlọ̀ pàjáwìrì ránṣẹ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+
+  'map.title': 'Máàpù',
+  'map.timelineTitle': 'Ìtàn ibùdó',
+  'map.locationsCount': 'Ibùdó {count}',
+  'map.location': 'Ibùdó',
+  'map.tripDestination': 'Ibi ìrìn àjò',
+  'map.today': 'Òní',
+  'map.yesterday': 'Àná',
+  'map.secondsShort': '{count}s',
+  'map.stoppedFor': 'Ó dúró fún {duration}',
+  'map.trackingOffFor': 'Ìtọpinpin wà ní pípa fún {duration}',
+  'map.moving': 'Ó ń rìn · {speed}',
+  'map.playbackSummary': 'Ìdúró {stops} · {distance} ní {duration}',
+  'map.playbackGaps': 'Àlàfo {count}',
+  'map.tapToSetCenter': 'Tẹ máàpù láti ṣètò àárín ibi náà',
+  'map.tapToOutline': 'Tẹ máàpù láti fa ààlà ibi náà (ojú àmì {count})',
+  'map.undo': 'Yí i padà',
+  'map.done': 'Ó ti parí',
+  'map.tripArrived': 'Ó dé láìléwu',
+  'map.tripCancelled': 'A ti fagilé ìrìn àjò',
+  'map.tripOverdueNoSignal': 'Ó ti pẹ́ - ibùdó kò ránṣẹ́ mọ́',
+  'map.tripOverdueLate': 'Ó ti pẹ́ - ó ti kọjá àkókò ìdé',
+  'map.updatedAgo': 'A ṣe àtúnṣe {time}',
+  'map.offline': 'Láìsí íntánẹ́ẹ̀tì',
+  'map.failedToLoad': 'Máàpù kò lè ṣí',
+  'map.checkPlayServices': 'Jọ̀wọ́ ṣàyẹ̀wò Google Play Services àti ìsopọ̀ íntánẹ́ẹ̀tì',
+  'map.checkInternet': 'Jọ̀wọ́ ṣàyẹ̀wò ìsopọ̀ íntánẹ́ẹ̀tì rẹ',
+  'map.locationNotAvailable': 'Ibùdó kò sí',
+  'map.locationNotAvailableMessage': 'Ibùdó {name} kò sí. Ó lè jẹ́ pé wọ́n ti pa pípín ibùdó.',
+  'map.user': 'Olùmúlò',
+  'map.loadingTimeline': 'À ń gbé ìtàn wọlé...',
+  'map.noHistory': 'Kò sí ìtàn ibùdó',
+  'map.noHistoryToday': 'Kò sí dátà ibùdó fún òní',
+  'map.noHistoryYesterday': 'Kò sí dátà ibùdó fún àná',
+  'map.noHistoryOn': 'Kò sí dátà ibùdó fún {date}',
+  'map.movement': 'Ìrìn',
+  'map.unknownLocation': 'Ibùdó àìmọ̀',
+  'map.places': 'Àwọn ibi',
+  'map.placesSubtitle': 'Gba ìfitónilétí nígbà tí àwọn ènìyàn rẹ bá dé tàbí kúrò ní àwọn ibi wọ̀nyí.',
+  'map.noPlaces': 'Kò tíì sí ibi kankan. Fi ilé, ilé ìwé tàbí ibi iṣẹ́ kún un.',
+  'map.placeRadius': '{category} · ààlà {radius}',
+  'map.placeArea': '{category} · agbègbè ojú àmì {count}',
+  'map.addPlace': 'Fi ibi kún un',
+  'map.editPlace': 'Ṣàtúnṣe ibi',
+  'map.newPlace': 'Ibi tuntun',
+  'map.name': 'Orúkọ',
+  'map.namePlaceholder': 'àpẹẹrẹ Ilé, Ilé ìwé, Ọ́fíìsì',
+  'map.type': 'Irú',
+  'map.shape': 'Ìrísí',
+  'map.circle': 'Òbìrìkìtì',
+  'map.customArea': 'Agbègbè àdáni',
+  'map.radius': 'Ààlà',
+  'map.moveCenter': 'Gbé àárín kúrò lórí máàpù',
+  'map.setCenter': 'Ṣètò àárín lórí máàpù',
+  'map.redrawArea': 'Tún agbègbè yà lórí máàpù',
+  'map.drawArea': 'Ya agbègbè lórí máàpù',
+  'map.alertArrives': 'Kìlọ̀ nígbà tí ẹnìkan bá dé',
+  'map.alertLeaves': 'Kìlọ̀ nígbà tí ẹnìkan bá kúrò',
+  'map.savePlace': 'Fi ibi pamọ́',
+  'map.placeCategory.home': 'Ilé',
+  'map.placeCategory.school': 'Ilé ìwé',
+  'map.placeCategory.work': 'Ibi iṣẹ́',
+  'map.placeCategory.other': 'Òmíràn',
+  'map.notEnoughPoints': 'Ojú àmì kò tó',
+  'map.notEnoughPointsMessage': 'Tẹ ó kéré tán ojú àmì 3 lórí máàpù láti fa ààlà ibi náà.',
+  'map.nameRequired': 'A nílò orúkọ',
+  'map.nameRequiredMessage': 'Jọ̀wọ́ tẹ orúkọ fún ibi yìí.',
+  'map.locationRequired': 'A nílò ibùdó',
+  'map.locationRequiredMessage': 'Jọ̀wọ́ ṣètò ibi náà lórí máàpù.',
+  'map.areaRequired': 'A nílò agbègbè',
+  'map.areaRequiredMessage': 'Jọ̀wọ́ fa ààlà ibi náà pẹ̀lú ó kéré tán ojú àmì 3 lórí máàpù.',
+  'map.savePlaceFailed': 'A kò lè fi ibi náà pamọ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'map.deletePlace': 'Pa ibi rẹ́',
+  'map.deletePlaceMessage': 'Ṣé kí o dẹ́kun gbígba ìkìlọ̀ dídé/kíkúrò fún {name}?',
+  'map.deletePlaceFailed': 'A kò lè pa ibi náà rẹ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'map.arrived': 'Ó dé',
+  'map.left': 'Ó kúrò',
+
+  'connections.locationPermissionTitle': 'A nílò àṣẹ ipò',
+  'connections.locationPermissionMessage': 'A nílò àṣẹ ipò kí o tó lè pín ipò rẹ pẹ̀lú àwọn èèyàn rẹ.',
+  'connections.invalidInput': 'Ohun tí o tẹ̀ kò tọ́',
+  'connections.enterPhone': 'Jọ̀wọ́ tẹ nọ́mbà fóònù kan.',
+  'connections.invalidPhone': 'Nọ́mbà fóònù kò tọ́',
+  'connections.phoneLength': 'Jọ̀wọ́ tẹ nọ́mbà fóònù oní-nọ́mbà 11.',
+  'connections.cannotInviteSelf': 'O kò lè pe ara rẹ.',
+  'connections.checkPhoneFailed': 'A kò lè ṣàyẹ̀wò nọ́mbà fóònù náà. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'connections.notOnAppTitle': 'Kò tíì sí lórí FamGuards',
+  'connections.notOnAppMessage': 'Nọ́mbà fóònù yìí kò tíì forúkọ sílẹ̀ lórí ohun èlò náà. Ṣé kí o fi ìjápọ̀ ìpè ránṣẹ́ sí i? Yóò mú un lọ sí ohun èlò náà, yóò sì so yín pọ̀ nígbà tí ó bá forúkọ sílẹ̀.',
+  'connections.sendInviteLink': 'Fi ìjápọ̀ ìpè ránṣẹ́',
+  'connections.createInviteFailed': 'A kò lè ṣẹ̀dá ìpè náà. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'connections.alreadyConnected': 'Ẹ ti so pọ̀ tẹ́lẹ̀',
+  'connections.alreadyConnectedMessage': 'O ti so pọ̀ mọ́ olùlò yìí tẹ́lẹ̀.',
+  'connections.alreadyConnectedTo': 'O ti so pọ̀ mọ́ {name} tẹ́lẹ̀.',
+  'connections.invitationSent': 'A ti fi ìpè ránṣẹ́',
+  'connections.invitationAlreadySent': 'O ti fi ìpè ránṣẹ́ sí nọ́mbà fóònù yìí tẹ́lẹ̀.',
+  'connections.invitationSentTo': 'A ti fi ìpè ránṣẹ́ sí {phone}. Wọn yóò gba ìfitónilétí.',
+  'connections.sendInvitationFailed': 'A kò lè fi ìpè ránṣẹ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'connections.acceptFailed': 'A kò lè gba ìpè náà. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'connections.rejectFailed': 'A kò lè kọ ìpè náà. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'connections.connected': 'Ẹ ti so pọ̀!',
+  'connections.nowConnected': 'Ẹ ti so pọ̀ báyìí.',
+  'connections.nowConnectedTo': 'O ti so pọ̀ mọ́ {name} báyìí.',
+  'connections.cancelInviteFailed': 'A kò lè fagilé ìpè náà. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'connections.inviteCancelled': 'A ti fagilé ìpè',
+  'connections.inviteCancelledMessage': 'A kò lè lo ìpè yìí mọ́.',
+  'connections.loadInviteFailed': 'A kò lè ṣí ìpè náà. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'connections.inviteTitle': 'Ìpè láti so pọ̀',
+  'connections.invitePrompt': 'So pọ̀ mọ́ {name}? Ẹ ó lè rí ipò àti ìkìlọ̀ SOS ara yín.',
+  'connections.invitePromptUnknown': 'So pọ̀ mọ́ ẹni yìí? Ẹ ó lè rí ipò àti ìkìlọ̀ SOS ara yín.',
+  'connections.notNow': 'Kì í ṣe báyìí',
+  'connections.connect': 'So pọ̀',
+  'connections.invalidInvite': 'Ìpè kò tọ́',
+  'connections.ownInvite': 'O kò lè lo ìpè tìrẹ.',
+  'connections.inviteExpired': 'Ìpè ti parí',
+  'connections.inviteExpiredMessage': 'Ìpè yìí ti parí tàbí a ti lò ó tẹ́lẹ̀. Béèrè fún òmíràn.',
+  'connections.tooManyAttempts': 'Ìgbìyànjú ti pọ̀ jù',
+  'connections.tryLater': 'Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i lẹ́yìn náà.',
+  'connections.inviteNotValid': 'Ìpè yìí kò tọ́.',
+  'connections.couldNotConnect': 'A kò lè so pọ̀',
+  'connections.connectFailed': 'A kò lè so pọ̀. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'connections.pasteInviteMessage': 'Lẹ ìjápọ̀ ìpè tí o gbà.',
+  'connections.approveUnlock': 'Fọwọ́ sí ṣíṣí',
+  'connections.approveUnlockMessage': 'Fọwọ́ sí ṣíṣí àkọọ́lẹ̀ {name}? Ṣe èyí nígbà tí o bá mọ̀ pé ó wà láìléwu nìkan. Àkọọ́lẹ̀ rẹ̀ lè nílò ìfọwọ́sí ju ẹnì kan lọ.',
+  'connections.approve': 'Fọwọ́ sí',
+  'connections.approveUnlockFailed': 'A kò lè fọwọ́ sí ṣíṣí. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'connections.unlocked': 'A ti ṣí i',
+  'connections.unlockedMessage': 'A ti ṣí {name}, ó sì lè lo ohun èlò náà báyìí.',
+  'connections.approvalRecorded': 'A ti ṣàkọsílẹ̀ ìfọwọ́sí',
+  'connections.approvalRecordedMessage': 'Ènìyàn {approvals} nínú {required} ti fọwọ́ sí i. A ó ṣí {name} nígbà tí àwọn èèyàn tó pọ̀ tó bá fọwọ́ sí i.',
+  'connections.updateSharingFailed': 'A kò lè ṣe àtúnṣe pípín ipò. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'connections.shareMyLocationTitle': 'Pín ipò mi',
+  'connections.shareDurationPrompt': 'Báwo ni {name} ṣe máa rí ipò rẹ pẹ́ tó?',
+  'connections.shareAlways': 'Nígbà gbogbo',
+  'connections.shareOneHour': 'Fún wákàtí 1',
+  'connections.shareEightHours': 'Fún wákàtí 8',
+  'connections.shareUntilArrive': 'Títí mo fi dé',
+  'connections.shareWeekdays': 'Ọjọ́ iṣẹ́ 7-9 àárọ̀',
+  'connections.markSafe': 'Sàmì sí pé ó wà láìléwu',
+  'connections.markSafeMessage': 'Parí SOS ìdákẹ́jẹ́ẹ́ {name}? Ṣe èyí nígbà tí o bá ti fìdí rẹ̀ múlẹ̀ lójúkojú tàbí láti ọ̀nà tí o gbẹ́kẹ̀lé pé ó wà láìléwu nìkan.',
+  'connections.endSilentSosFailed': 'A kò lè parí SOS ìdákẹ́jẹ́ẹ́ náà. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'connections.markedSafe': 'A ti sàmì sí pé ó wà láìléwu',
+  'connections.markedSafeMessage': 'SOS ìdákẹ́jẹ́ẹ́ {name} ti parí.',
+  'connections.online': 'Wà lórí ayélujára',
+  'connections.offline': 'Kò sí lórí ayélujára',
+  'connections.sharingDisabledTitle': 'A ti pa pípín ipò',
+  'connections.sharingDisabledMessage': '{name} kò ní lè rí ipò rẹ lọ́wọ́lọ́wọ́.',
+  'connections.removeFailed': 'A kò lè yọ ẹni náà kúrò. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'connections.quickActions': 'Àwọn ìgbésẹ̀ kíákíá',
+  'connections.inviteByPhone': 'Pè nípasẹ̀ fóònù',
+  'connections.sendInvitationSubtitle': 'Fi ìpè ránṣẹ́',
+  'connections.generating': 'Ó ń ṣẹ̀dá...',
+  'connections.inviteLink': 'Ìjápọ̀ ìpè',
+  'connections.qrOrLink': 'Kóòdù QR tàbí ìjápọ̀',
+  'connections.openInvite': 'Ṣí ìpè',
+  'connections.connectNow': 'So pọ̀ báyìí',
+  'connections.findContacts': 'Wá àwọn olùbásọ̀rọ̀ lórí FamGuards',
+  'connections.pendingInvitations': 'Àwọn ìpè tó ń dúró',
+  'connections.wantsToConnect': 'Fẹ́ so pọ̀ mọ́ ọ',
+  'connections.accept': 'Gbà',
+  'connections.reject': 'Kọ̀',
+  'connections.loading': 'Ó ń ṣí àwọn èèyàn rẹ...',
+  'connections.emptyTitle': 'Kò tíì sí ẹnikẹ́ni',
+  'connections.emptyText': 'Bẹ̀rẹ̀ nípa pípe ẹnì kan pẹ̀lú àwọn ìgbésẹ̀ kíákíá lókè',
+  'connections.yourConnections': 'Àwọn èèyàn rẹ',
+  'connections.unknownUser': 'Olùlò àìmọ̀',
+  'connections.accountLocked': 'A ti tì àkọọ́lẹ̀ - ó nílò ìrànlọ́wọ́',
+  'connections.underDuress': 'Ó lè wà lábẹ́ ìfipá mú - má ṣe pè é tàbí kọ ọ̀rọ̀ sí i',
+  'connections.sharingDisabled': 'A ti pa pípín ipò',
+  'connections.sharingWithYou': 'Ń pín pẹ̀lú rẹ: {status}',
+  'connections.viewOnMap': 'Wò ó lórí máàpù',
+  'connections.chooseAction': 'Yan ìgbésẹ̀ kan',
+  'connections.viewSos': 'Wo SOS',
+  'connections.markSafeEndSos': 'Sàmì sí pé ó wà láìléwu (parí SOS ìdákẹ́jẹ́ẹ́)',
+  'connections.removeConnection': 'Yọ ẹni náà kúrò',
+  'connections.moreOptions': 'Àwọn àṣàyàn míì',
+  'connections.shareMyLocation': 'Pín ipò mi',
+  'connections.pausedNow': ' (ó dúró báyìí)',
+  'connections.change': 'Yípadà',
+  'connections.phonePlaceholder': 'Tẹ nọ́mbà fóònù oní-nọ́mbà 11',
+  'connections.sendInvitation': 'Fi ìpè ránṣẹ́',
+  'connections.invitationExpires': 'Ìpè yóò parí ní ọjọ́ 7',
+  'connections.yourInvite': 'Ìpè rẹ',
+  'connections.inviteHint': 'Jẹ́ kí wọ́n ṣàyẹ̀wò kóòdù yìí, tàbí pín ìjápọ̀ náà. Ó ṣiṣẹ́ lẹ́ẹ̀kan ṣoṣo, yóò sì parí {time}. Bí wọn kò bá tíì ní FamGuards, ìjápọ̀ náà yóò mú wọn lọ sí ohun èlò náà, ìpè náà yóò sì dúró títí wọn yóò fi forúkọ sílẹ̀.',
+  'connections.shareMessage': 'So pọ̀ mọ́ mi lórí FamGuards kí a lè máa ṣọ́ ara wa: {link}',
+  'connections.shareLink': 'Pín ìjápọ̀',
+  'connections.copied': 'A ti dà á kọ!',
+  'connections.linkCopied': 'A ti da ìjápọ̀ ìpè kọ sí pátákó ìdàkọ.',
+  'connections.copyLink': 'Da ìjápọ̀ kọ',
+  'connections.cancelInvite': 'Fagilé ìpè',
+  'connections.pasteInvitePlaceholder': 'Lẹ ìjápọ̀ ìpè',
+  'connections.openInviteHint': 'Lẹ ìjápọ̀ ìpè tí ẹnì kejì pín, tàbí fi kámẹ́rà rẹ ṣàyẹ̀wò kóòdù QR wọn',
+
+  'locationSharing.always': 'Nígbà gbogbo',
+  'locationSharing.off': 'Ó ti pa',
+  'locationSharing.timeLeft': '{time} ló kù',
+  'locationSharing.ending': 'Ó ń parí...',
+  'locationSharing.untilArrival': 'Títí dé',
+  'locationSharing.everyDay': 'Ojoojúmọ́',
+  'locationSharing.weekdays': 'Ọjọ́ iṣẹ́',
+  'locationSharing.weekends': 'Òpin ọ̀sẹ̀',
+  'locationSharing.day1': 'Ajé',
+  'locationSharing.day2': 'Ìsẹ́gun',
+  'locationSharing.day3': 'Ọjọ́rú',
+  'locationSharing.day4': 'Ọjọ́bọ',
+  'locationSharing.day5': 'Ẹtì',
+  'locationSharing.day6': 'Àbámẹ́ta',
+  'locationSharing.day7': 'Àìkú',
+
+  'batterySaving.description': 'Mú ohun èlò náà ṣiṣẹ́ dáadáa láti fi bátìrì pamọ́. Àwọn ẹ̀yà kan lè ní ìdíwọ̀n.',
+  'batterySaving.activeProfile': 'Ìpìlẹ̀ tó ń ṣiṣẹ́: {profile}',
+  'batterySaving.batteryLevel': '{reason} · Bátìrì {level}%',
+  'batterySaving.autoNote': 'Ìtọpinpin yóò dínkù fúnra rẹ̀ nígbà tí bátìrì rẹ bá lọ sílẹ̀ ju {threshold}% lọ tí kò sì ń gba agbára.',
+  'batterySaving.enable': 'Tan ìfipamọ́ bátìrì',
+  'batterySaving.enableSubtitle': 'Dín iṣẹ́ abẹ́lẹ̀ kù',
+  'batterySaving.reduceLocation': 'Dín ìmúdójúìwọ̀n ipò kù',
+  'batterySaving.reduceLocationSubtitle': 'Máa ṣe ìmúdójúìwọ̀n ipò díẹ̀díẹ̀',
+  'batterySaving.reduceSync': 'Dín ìmúṣọ̀kan abẹ́lẹ̀ kù',
+  'batterySaving.reduceSyncSubtitle': 'Máa mú dátà ṣọ̀kan díẹ̀díẹ̀',
+  'batterySaving.saveFailed': 'A kò lè fi ètò ìfipamọ́ bátìrì pamọ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'batterySaving.profile.normal': 'Ìpéye kíkún',
+  'batterySaving.profile.normalDescription': 'GPS tó péye, a ń pín ipò ní ìṣẹ́jú 30-30 lábẹ́lẹ̀.',
+  'batterySaving.profile.balanced': 'Ìwọ̀ntúnwọ̀nsì',
+  'batterySaving.profile.balancedDescription': 'Ìpéye GPS tó dínkù díẹ̀ àti àyẹ̀wò iwájú tó dínkù.',
+  'batterySaving.profile.saver': 'Ìfipamọ́ bátìrì',
+  'batterySaving.profile.saverDescription': 'Ipò ìsúnmọ́, a ń ṣe ìmúdójúìwọ̀n rẹ̀ ní nǹkan bí ẹ̀ẹ̀kan ní wákàtí.',
+  'batterySaving.profile.critical': 'Bátìrì tó kù díẹ̀ jù',
+  'batterySaving.profile.criticalDescription': 'Ìtọpinpin díẹ̀, a ń ṣe ìmúdójúìwọ̀n ní nǹkan bí wákàtí 2-2 kí fóònù rẹ má bàa kú.',
+  'batterySaving.reason.default': 'Ìfipamọ́ bátìrì ti pa',
+  'batterySaving.reason.settings': 'Gẹ́gẹ́ bí ètò ìfipamọ́ bátìrì rẹ',
+  'batterySaving.reason.lowBattery': 'Bátìrì kò tó {threshold}%',
+  'batterySaving.reason.lowPowerMode': 'Ipò agbára kékeré ẹ̀rọ ti tàn',
+
+  'locationAccuracy.description': 'Yan bí ipò tí o ń pín pẹ̀lú àwọn èèyàn rẹ ṣe péye tó.',
+  'locationAccuracy.exact': 'Ipò GPS gangan',
+  'locationAccuracy.exactSubtitle': 'Pín ipò rẹ gangan pẹ̀lú àwọn kóòdìnéètì pàtó',
+  'locationAccuracy.approximate': 'Ipò ìsúnmọ́',
+  'locationAccuracy.approximateSubtitle': 'Pín agbègbè gbogbogbò (nǹkan bí 2 km) àti ìlú rẹ nìkan fún àṣírí',
+  'locationAccuracy.emergencyInfo': 'Nígbà SOS tàbí pàjáwìrì, a máa ń pín ipò rẹ gangan nígbà gbogbo kí àwọn èèyàn rẹ lè rí ọ.',
+  'locationAccuracy.emergencyActive': 'Ìtọpinpin pàjáwìrì ń ṣiṣẹ́. A ń pín ipò rẹ gangan títí yóò fi parí.',
+  'locationAccuracy.saveFailed': 'A kò lè fi ètò ìpéye ipò pamọ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+
+  'updateFrequency.option15': 'Ìṣẹ́jú 15',
+  'updateFrequency.option15Description': 'Ṣe ìmúdójúìwọ̀n ipò ní ìṣẹ́jú 15-15',
+  'updateFrequency.option30': 'Ìṣẹ́jú 30',
+  'updateFrequency.option30Description': 'Ṣe ìmúdójúìwọ̀n ipò ní ìṣẹ́jú 30-30',
+  'updateFrequency.option60': 'Wákàtí 1',
+  'updateFrequency.option60Description': 'Ṣe ìmúdójúìwọ̀n ipò ní wákàtí-wákàtí (a dámọ̀ràn rẹ̀)',
+  'updateFrequency.option120': 'Wákàtí 2',
+  'updateFrequency.option120Description': 'Ṣe ìmúdójúìwọ̀n ipò ní wákàtí 2-2',
+  'updateFrequency.option180': 'Wákàtí 3',
+  'updateFrequency.option180Description': 'Ṣe ìmúdójúìwọ̀n ipò ní wákàtí 3-3',
+  'updateFrequency.description': 'Yan bí a ṣe máa ń ṣe ìmúdójúìwọ̀n ipò rẹ àti pín in pẹ̀lú àwọn èèyàn rẹ lemọ́lemọ́ tó. Ìmúdójúìwọ̀n lemọ́lemọ́ péye jù, ṣùgbọ́n ó ń lo bátìrì púpọ̀.',
+  'updateFrequency.current': 'Lọ́wọ́lọ́wọ́',
+  'updateFrequency.info': 'A ó máa ṣe ìmúdójúìwọ̀n ipò rẹ fúnra rẹ̀ ní àkókò tí o yàn nígbà tí pípín ipò bá ń ṣiṣẹ́. O lè yí ètò yìí padà nígbàkigbà.',
+  'updateFrequency.loadFailed': 'A kò lè ṣí ètò. À ń lo àwọn ìyí àtìgbàdégbà.',
+  'updateFrequency.saveFailed': 'A kò lè fi ìgbà ìmúdójúìwọ̀n ipò pamọ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+
+  'sleepMode.description': 'Ipò oorun ń dín ìfitónilétí àti ìmúdójúìwọ̀n ipò kù nígbà oorun rẹ kí wọ́n má bàa dà ọ́ láàmú. Ìkìlọ̀ SOS àti pàjáwìrì ìforúkọsílẹ̀ máa ń dé nígbà gbogbo.',
+  'sleepMode.enable': 'Tan ipò oorun',
+  'sleepMode.enableSubtitle': 'Dín ìfitónilétí kù nígbà oorun',
+  'sleepMode.hours': 'Àkókò oorun',
+  'sleepMode.startTime': 'Àkókò ìbẹ̀rẹ̀',
+  'sleepMode.endTime': 'Àkókò ìparí',
+  'sleepMode.timePickerNote': 'A lè fi ohun ìyàn àkókò kún un níbí',
+  'sleepMode.saveFailed': 'A kò lè fi ètò ipò oorun pamọ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+
+  'editProfile.name': 'Orúkọ',
+  'editProfile.namePlaceholder': 'Tẹ orúkọ rẹ',
+  'editProfile.email': 'Ímeèlì',
+  'editProfile.emailPlaceholder': 'Tẹ ímeèlì rẹ',
+  'editProfile.phone': 'Fóònù',
+  'editProfile.phonePlaceholder': 'Tẹ nọ́mbà fóònù rẹ',
+  'editProfile.save': 'Fi àyípadà pamọ́',
+  'editProfile.nameRequired': 'A nílò orúkọ',
+  'editProfile.saved': 'A ti ṣe àtúnṣe ìwé àkọsílẹ̀ rẹ',
+  'editProfile.saveFailed': 'A kò lè ṣe àtúnṣe ìwé àkọsílẹ̀ rẹ. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+
+  'emergencyNotes.description': 'Fi àlàyé ìlera pàtàkì, àwọn ohun tí ara rẹ kò gbà, oògùn, tàbí àwọn olùbásọ̀rọ̀ pàjáwìrì tí àwọn èèyàn rẹ yẹ kí wọ́n rí nígbà pàjáwìrì kún un.',
+  'emergencyNotes.placeholder': 'Kọ àkọsílẹ̀ pàjáwìrì...',
+  'emergencyNotes.save': 'Fi àkọsílẹ̀ pamọ́',
+  'emergencyNotes.saved': 'A ti ṣe àtúnṣe àkọsílẹ̀ pàjáwìrì',
+  'emergencyNotes.saveFailed': 'A kò lè ṣe àtúnṣe àkọsílẹ̀ pàjáwìrì. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+
+  'locked.title': 'A ti tì ohun èlò náà',
+  'locked.secured': 'Ó WÀ NÍ ÀÀBÒ',
+  'locked.restricted': 'A ti dí ìráyèsí sí ohun èlò náà fún ìgbà díẹ̀.',
+  'locked.messageWithPin': 'Tẹ PIN rẹ, tàbí ní kí àwọn èèyàn rẹ tí o gbẹ́kẹ̀lé fọwọ́ sí ṣíṣí àkọọ́lẹ̀ rẹ.',
+  'locked.messageNoPin': 'Jọ̀wọ́ kàn sí àwọn èèyàn rẹ tí o gbẹ́kẹ̀lé kí wọ́n fọwọ́ sí ṣíṣí àkọọ́lẹ̀ rẹ.',
+  'locked.pinPlaceholder': 'Tẹ PIN rẹ',
+  'locked.unlock': 'Ṣí i',
+  'locked.pinCheckFailed': 'A kò lè ṣàyẹ̀wò PIN rẹ. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'locked.incorrectPinOne': 'PIN kò tọ́. Ìgbìyànjú 1 ló kù.',
+  'locked.incorrectPin': 'PIN kò tọ́. Ìgbìyànjú {count} ló kù.',
+  'locked.tooManyAttempts': 'Ìgbìyànjú tí kò tọ́ ti pọ̀ jù. Ní kí àwọn èèyàn rẹ fọwọ́ sí ṣíṣí náà.',
+  'locked.noApprovers': 'Kò sí ẹnikẹ́ni nínú àwọn èèyàn rẹ tó lè fọwọ́ sí ṣíṣí. Lo PIN rẹ láti ṣí i.',
+  'locked.approvalsOne': '{approved} nínú ènìyàn 1 ti fọwọ́ sí ṣíṣí',
+  'locked.approvals': '{approved} nínú ènìyàn {required} ti fọwọ́ sí ṣíṣí',
+  'locked.exactLocation': 'A ń pín ipò rẹ gangan pẹ̀lú àwọn èèyàn rẹ títí a ó fi ṣí àkọọ́lẹ̀ rẹ.',
+  'locked.checkingStatus': 'Ó ń ṣàyẹ̀wò ipò títì...',
+
+  'update.title': 'A nílò ìmúdójúìwọ̀n',
+  'update.subtitle': 'Ẹ̀dà tuntun FamGuard ti wà',
+  'update.message': 'Jọ̀wọ́ ṣe ìmúdójúìwọ̀n sí ẹ̀dà tuntun láti máa lo ohun èlò náà lọ àti láti rí àwọn ẹ̀yà tuntun.',
+  'update.currentVersion': 'Ẹ̀dà lọ́wọ́lọ́wọ́: {version}',
+  'update.updateNow': 'Ṣe ìmúdójúìwọ̀n báyìí',
+  'update.storeInfo': 'Ohun èlò náà yóò ṣí {store} fún ọ fúnra rẹ̀',
+
+  'offlineMaps.totalStorage': 'Àpapọ̀ ibi ìpamọ́: {size}',
+  'offlineMaps.emptyTitle': 'Kò sí máàpù àìsí-lórí-ayélujára',
+  'offlineMaps.emptyText': 'Ṣe ìgbàsílẹ̀ máàpù àwọn agbègbè tí nẹ́tíwọ́ọ̀kì kò ti dára láti lò wọ́n láìsí ayélujára.',
+  'offlineMaps.downloadFirst': 'Ṣe ìgbàsílẹ̀ máàpù àkọ́kọ́ rẹ',
+  'offlineMaps.tiles': '{size} • àwọn àwo {count}',
+  'offlineMaps.downloadedOn': 'A ṣe ìgbàsílẹ̀ ní {date}',
+  'offlineMaps.downloadTitle': 'Ṣe ìgbàsílẹ̀ máàpù àìsí-lórí-ayélujára',
+  'offlineMaps.mapName': 'Orúkọ máàpù',
+  'offlineMaps.mapNamePlaceholder': 'àpẹẹrẹ: Àdúgbò ilé, Ọ̀nà iṣẹ́',
+  'offlineMaps.selectRegion': 'Yan agbègbè',
+  'offlineMaps.selectRegionHint': 'Gbé e kiri kí o sì sún mọ́ láti yan agbègbè tí o fẹ́ ṣe ìgbàsílẹ̀',
+  'offlineMaps.downloading': 'Ó ń ṣe ìgbàsílẹ̀...',
+  'offlineMaps.tileProgress': 'Àwo {done} / {total}',
+  'offlineMaps.downloadMap': 'Ṣe ìgbàsílẹ̀ máàpù',
+  'offlineMaps.loadFailed': 'A kò lè ṣí àwọn máàpù àìsí-lórí-ayélujára.',
+  'offlineMaps.nameRequired': 'Jọ̀wọ́ tẹ orúkọ fún máàpù náà.',
+  'offlineMaps.regionRequired': 'Jọ̀wọ́ yan agbègbè kan lórí máàpù.',
+  'offlineMaps.downloaded': 'A ti ṣe ìgbàsílẹ̀ máàpù "{name}"!',
+  'offlineMaps.downloadFailed': 'A kò lè ṣe ìgbàsílẹ̀ máàpù náà. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'offlineMaps.deleteTitle': 'Pa máàpù rẹ́',
+  'offlineMaps.deleteMessage': 'Ṣé o dájú pé o fẹ́ pa "{name}" rẹ́? Èyí yóò ṣí {size} ibi ìpamọ́ sílẹ̀.',
+  'offlineMaps.deleteFailed': 'A kò lè pa máàpù náà rẹ́.',
+  'offlineMaps.locationFailed': 'A kò lè rí ipò rẹ lọ́wọ́lọ́wọ́.',
+
+  'incidentDetail.title': 'Àlàyé ìṣẹ̀lẹ̀',
+  'incidentDetail.verified': 'Ti jẹ́rìí sí',
+  'incidentDetail.status': 'Ipò',
+  'incidentDetail.status.ongoing': 'Ń lọ lọ́wọ́',
+  'incidentDetail.status.contained': 'Ti ká lọ́wọ́ kò',
+  'incidentDetail.status.resolved': 'Ti yanjú',
+  'incidentDetail.reporterMarked': '{name} sàmì sí i pé ó {status}',
+  'incidentDetail.communityMarked': 'Àwùjọ sàmì sí i pé ó {status}',
+  'incidentDetail.reporter': 'Olùfisùn',
+  'incidentDetail.reply': 'Fèsì',
+  'incidentDetail.statusVoteRecorded': 'A ti gba ìbò rẹ',
+  'incidentDetail.statusConsensus': 'Ipò náà yóò yípadà nígbà tí ènìyàn {count} bá fohùn ṣọ̀kan.',
+  'incidentDetail.statusFailed': 'Kò ṣeé ṣe láti ṣe ìmúdójúìwọ̀n ipò náà. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'incidentDetail.locationUnavailable': 'Ibi tí o wà kò sí',
+  'incidentDetail.locationUnavailableMessage': 'A ó fi ìròyìn rẹ síta láìsí ibi tí o wà.',
+  'incidentDetail.postFailed': 'Kò ṣeé ṣe láti fi ìròyìn rẹ síta. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'incidentDetail.reporterHint': 'Ìwọ ló fi ìṣẹ̀lẹ̀ yìí tó wa létí. Máa ṣe ìmúdójúìwọ̀n ipò rẹ̀.',
+  'incidentDetail.statusHint': 'Ṣé ó ṣì ń ṣẹlẹ̀? Ipò náà yóò yípadà nígbà tí ènìyàn {count} bá fohùn ṣọ̀kan.',
+  'incidentDetail.description': 'Àpèjúwe',
+  'incidentDetail.reportedBy': '{name} ló fi tó wa létí',
+  'incidentDetail.anonymous': 'Aláìlórúkọ',
+  'incidentDetail.you': 'Ìwọ',
+  'incidentDetail.directions': 'Wo ọ̀nà',
+  'incidentDetail.updates': 'Àwọn ìròyìn tuntun',
+  'incidentDetail.noUpdates': 'Kò sí ìròyìn tuntun síbẹ̀. Ṣé o rí nǹkan tuntun? Jẹ́ kí àwọn míì mọ̀.',
+  'incidentDetail.replyingTo': 'Ò ń fèsì sí {name}',
+  'incidentDetail.replyPlaceholder': 'Kọ ìfèsì',
+  'incidentDetail.updatePlaceholder': 'àpẹẹrẹ: Ọlọ́pàá ti dé',
+  'incidentDetail.includeLocation': 'Fi ibi tí mo wà kún un',
+  'incidentDetail.post': 'Fi síta',
+
+  'incidentDetail.voteFailed': 'Kò ṣeé ṣe láti gba ìbò rẹ. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'incidentDetail.isAccurate': 'Ṣé èyí péye?',
+  'incidentDetail.confirmVote': 'Mo lè jẹ́rìí sí i ({count})',
+  'incidentDetail.falseVote': 'Irọ́ ni èyí ({count})',
+  'incidentDetail.voteHintReporter': 'Àwọn míì tó wà nítòsí lè jẹ́rìí sí ìròyìn rẹ.',
+  'incidentDetail.voteHint': 'Ìbò àwọn tó wà nítòsí ìṣẹ̀lẹ̀ náà ló ṣe pàtàkì jù.',
+
+  'incidents.filterMinutes': 'ìṣẹ́jú {count}',
+  'incidents.filterHours': 'wákàtí {count}',
+  'incidents.loading': 'À ń gbé àwọn ìṣẹ̀lẹ̀ wá...',
+  'incidents.noReports': 'Kò sí ìròyìn àìpẹ́ yìí',
+  'incidents.noReportsMessage': 'Kò sí ìṣẹ̀lẹ̀ kankan tí a fi tó wa létí ní agbègbè rẹ láìpẹ́ yìí. Máa ṣọ́ra!',
+
+  'travelAdvisory.title': 'Ìkìlọ̀ ìrìn-àjò',
+  'travelAdvisory.subtitle': 'Máa mọ̀ nípa ewu ìrìn-àjò',
+  'travelAdvisory.calculateRouteRisk': 'Ṣírò ewu ọ̀nà',
+  'travelAdvisory.originState': 'Ìpínlẹ̀ ìbẹ̀rẹ̀ *',
+  'travelAdvisory.originCity': 'Ìlú ìbẹ̀rẹ̀ (kò pọndandan)',
+  'travelAdvisory.destinationState': 'Ìpínlẹ̀ ibi tí ò ń lọ *',
+  'travelAdvisory.destinationCity': 'Ìlú ibi tí ò ń lọ (kò pọndandan)',
+  'travelAdvisory.originStatePlaceholder': 'àpẹẹrẹ: Èkó',
+  'travelAdvisory.originCityPlaceholder': 'àpẹẹrẹ: Ikẹja',
+  'travelAdvisory.destinationStatePlaceholder': 'àpẹẹrẹ: Àbújá',
+  'travelAdvisory.destinationCityPlaceholder': 'àpẹẹrẹ: Garki',
+  'travelAdvisory.calculateRisk': 'Ṣírò ewu',
+  'travelAdvisory.statesRequired': 'Jọ̀wọ́ tẹ ìpínlẹ̀ ìbẹ̀rẹ̀ àti ti ibi tí ò ń lọ.',
+  'travelAdvisory.routeRiskFailed': 'Kò ṣeé ṣe láti ṣírò ewu ọ̀nà náà. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'travelAdvisory.routeRiskTitle': 'Àyẹ̀wò ewu ọ̀nà',
+  'travelAdvisory.riskScore': 'Òṣùwọ̀n ewu',
+  'travelAdvisory.last24h': 'Wákàtí 24 sẹ́yìn',
+  'travelAdvisory.last7Days': 'Ọjọ́ 7 sẹ́yìn',
+  'travelAdvisory.last30Days': 'Ọjọ́ 30 sẹ́yìn',
+  'travelAdvisory.incidentsNearRoute': 'Àwọn ìṣẹ̀lẹ̀ láàárín {distance} sí ọ̀nà náà',
+  'travelAdvisory.incidentsInAreas': 'Àwọn ìṣẹ̀lẹ̀ ní agbègbè ìbẹ̀rẹ̀ àti ibi tí ò ń lọ',
+  'travelAdvisory.forYourLocation': 'Ìkìlọ̀ fún ibi tí o wà',
+  'travelAdvisory.noAdvisories': 'Kò sí ìkìlọ̀ kankan báyìí',
+  'travelAdvisory.locationSafe': 'Ibi tí o wà báyìí dà bí ẹni pé ó dáàbò bò',
+  'travelAdvisory.affectedAreas': 'Àwọn agbègbè tí ó kàn:',
+  'travelAdvisory.source': 'Orísun: {source}',
+  'travelAdvisory.risk.low': 'Ewu kékeré',
+  'travelAdvisory.risk.moderate': 'Ewu àárín',
+  'travelAdvisory.risk.high': 'Ewu gíga',
+  'travelAdvisory.risk.critical': 'Ewu tó le jù',
+  'travelAdvisory.type.security': 'ÀÀBÒ',
+  'travelAdvisory.type.weather': 'OJÚ-ỌJỌ́',
+  'travelAdvisory.type.combined': 'ÀPAPỌ̀',
+
+  'checkInSettings.saved': 'A ti fi ètò pamọ́.',
+  'checkInSettings.saveFailed': 'Kò ṣeé ṣe láti fi ètò pamọ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'checkInSettings.enable': 'Mú ìforúkọsílẹ̀ ààbò ṣiṣẹ́',
+  'checkInSettings.enableDescription': 'Gba ìforúkọsílẹ̀ ààbò lóòrèkóòrè láàyè',
+  'checkInSettings.interval': 'Àlàfo ìforúkọsílẹ̀',
+  'checkInSettings.intervalLabel': 'Àlàfo (ìṣẹ́jú)',
+  'checkInSettings.intervalHint': 'Bí o ṣe fẹ́ máa forúkọ sílẹ̀ lóòrèkóòrè (àtilẹ̀wá: ìṣẹ́jú {minutes})',
+  'checkInSettings.automatic': 'Ìforúkọsílẹ̀ aládàáṣe',
+  'checkInSettings.automaticDescription': 'Forúkọ sílẹ̀ fúnra rẹ̀ ní àlàfo tí a ṣètò',
+  'checkInSettings.duringTravel': 'Ìforúkọsílẹ̀ aládàáṣe nígbà ìrìn-àjò',
+  'checkInSettings.duringTravelDescription': 'Forúkọ sílẹ̀ fúnra rẹ̀ nígbà tí o bá ń rìnrìn-àjò',
+  'checkInSettings.travelDetection': 'Ìdámọ̀ ìrìn-àjò',
+  'checkInSettings.speedThreshold': 'Òdiwọ̀n ìyára ({unit})',
+  'checkInSettings.speedThresholdHint': 'A ó kà á sí ìrìn-àjò tí ìyára bá kọjá òdiwọ̀n yìí (àtilẹ̀wá: {speed})',
+  'checkInSettings.missedAlerts': 'Ìkìlọ̀ ìforúkọsílẹ̀ tí a pàdánù',
+  'checkInSettings.alertAfter': 'Kìlọ̀ lẹ́yìn (ìṣẹ́jú)',
+  'checkInSettings.alertAfterHint': 'Kìlọ̀ fún àwọn olùbáṣepọ̀ pàjáwìrì tí ìforúkọsílẹ̀ bá pẹ́ tó àkókò yìí (àtilẹ̀wá: ìṣẹ́jú {minutes})',
+  'checkInSettings.aboutTitle': 'Nípa ìforúkọsílẹ̀ ààbò',
+  'checkInSettings.aboutText': 'Ìforúkọsílẹ̀ ààbò ń jẹ́ kí àwọn olùbáṣepọ̀ pàjáwìrì rẹ mọ̀ pé o wà láìléwu. O lè forúkọ sílẹ̀ fúnra rẹ nígbàkúgbà tàbí ṣètò ìforúkọsílẹ̀ aládàáṣe.',
+  'checkInSettings.aboutMissed': 'Tí o bá pàdánù ìforúkọsílẹ̀ tí a ṣètò, a ó sọ fún àwọn olùbáṣepọ̀ pàjáwìrì rẹ.',
+  'checkInSettings.save': 'Fi ètò pamọ́',
+
+  'profile.loading': 'Ń ṣàgbékalẹ̀ profaili...',
+  'profile.circlesSubtext': 'Àwọn tí ó ń gba ibi tí o wà àti ìkìlọ̀ rẹ',
+  'profile.shareLocationSubtext': 'Àwọn ìsopọ̀ rẹ lè rí i',
+  'profile.communityReportsSubtext': 'Fi àwọn ìṣẹ̀lẹ̀ tó wà nítòsí hàn',
+  'profile.accountLockSubtext': 'PIN ìṣí àti ìfọwọ́sí ìsopọ̀',
+  'profile.locationAccuracySubtext': 'GPS gangan tàbí ìṣirò',
+  'profile.locationUpdateFrequencySubtext': 'Ìgbà mélòó ni ibi tí o wà ń ṣe àtúnṣe',
+  'profile.pushNotificationsSubtext': 'Gba ìkìlọ̀ ààbò',
+  'profile.testPushNotificationSubtext': 'Fi ìfitónilétí ìdánwò ránṣẹ́ sí ẹ̀rọ yìí',
+  'profile.warning': 'Ìkìlọ̀',
+  'profile.unknownError': 'Àṣìṣe tí a kò mọ̀',
+  'profile.continue': 'Tẹ̀síwájú',
+  'profile.physicalDeviceTitle': 'A nílò ẹ̀rọ gidi',
+  'profile.physicalDeviceMessage': 'Ìfitónilétí push máa ń ṣiṣẹ́ lórí ẹ̀rọ gidi nìkan, kì í ṣe lórí simulator tàbí emulator. Jọ̀wọ́ dán an wò lórí ẹ̀rọ gidi.',
+  'profile.permissionRequired': 'A nílò àṣẹ',
+  'profile.permissionDeniedSettings': 'Ìfitónilétí push nílò àṣẹ ìfitónilétí. Ó dàbí pé o kọ àṣẹ yìí tẹ́lẹ̀.\n\nJọ̀wọ́ tàn án fúnra rẹ:\n1. Lọ sí Settings\n2. Tẹ Apps > FamGuard\n3. Tẹ Notifications\n4. Tàn "Show notifications"',
+  'profile.permissionPrompt': 'Ìfitónilétí push nílò àṣẹ ìfitónilétí láti kìlọ̀ fún ọ nípa pàjáwìrì.\n\nJọ̀wọ́ fún un láṣẹ nígbà tí a bá béèrè láti gba àwọn ìkìlọ̀ ààbò pàtàkì.',
+  'profile.pushTokenFailed': 'A fún un láṣẹ ṣùgbọ́n kò ṣeé ṣe láti forúkọ token push sílẹ̀. Ìfitónilétí lè má ṣiṣẹ́. Jọ̀wọ́ gbìyànjú lẹ́yìn náà.',
+  'profile.permissionNotGranted': 'A kò fún un láṣẹ',
+  'profile.permissionNotGrantedMessage': 'A nílò àṣẹ ìfitónilétí fún ìfitónilétí push. Jọ̀wọ́ fún un láṣẹ láti tàn ìfitónilétí.',
+  'profile.notificationsSaveFailed': 'Kò ṣeé ṣe láti fi ètò ìfitónilétí pamọ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'profile.notificationsSaveFailedDetail': 'Kò ṣeé ṣe láti fi ètò ìfitónilétí pamọ́: {error}\n\nJọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'profile.notificationsEnabled': 'A ti tàn ìfitónilétí push! Ìwọ yóò máa gba ìkìlọ̀ pàjáwìrì àti ìfitónilétí ààbò.',
+  'profile.notificationsSavedNoPermission': 'A ti fi ètò ìfitónilétí pamọ́, ṣùgbọ́n a kò fún un láṣẹ. Jọ̀wọ́ tàn ìfitónilétí nínú ètò ẹ̀rọ rẹ.',
+  'profile.communityReportsSaveFailed': 'Kò ṣeé ṣe láti fi ètò ìròyìn àwùjọ pamọ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'profile.locationSharingSaveFailed': 'Kò ṣeé ṣe láti fi ètò pínpín ibi tí o wà pamọ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'profile.userNotFound': 'A kò rí oníṣe náà. Jọ̀wọ́ wọlé kí o sì gbìyànjú lẹ́ẹ̀kan sí i.',
+  'profile.testPermissionMessage': 'Ìfitónilétí push nílò àṣẹ ìfitónilétí. Jọ̀wọ́ tàn án ní Settings > Apps > FamGuard > Notifications, tàbí tàn Ìfitónilétí Push nínú Profaili.',
+  'profile.tokenNotFound': 'A kò rí token',
+  'profile.tokenNotFoundMessage': 'A kò tíì forúkọ token ìfitónilétí push sílẹ̀. Jọ̀wọ́ tàn Ìfitónilétí Push nínú Profaili láti forúkọ token rẹ sílẹ̀.',
+  'profile.testPushConfirm': 'Èyí yóò fi ìfitónilétí ìdánwò ránṣẹ́ sí ẹ̀rọ rẹ. Ṣé kí a tẹ̀síwájú?',
+  'profile.sendTest': 'Fi ìdánwò ránṣẹ́',
+  'profile.testPushSendFailed': 'Kò ṣeé ṣe láti fi ìfitónilétí ìdánwò ránṣẹ́: {error}\n\nWo àkọsílẹ̀ Edge Function fún àlàyé.',
+  'profile.testPushSuccessTitle': '✅ Ó ṣàṣeyọrí!',
+  'profile.testPushSuccess': 'A ti fi ìfitónilétí ìdánwò ránṣẹ́!\n\nṢàyẹ̀wò ìfitónilétí ẹ̀rọ rẹ. Ó yẹ kí o gbà á láìpẹ́.\n\nTí a fi ránṣẹ́: {sent}\nTí ó kùnà: {failed}',
+  'profile.testPushNoneSentTitle': '⚠️ A kò fi ìfitónilétí kankan ránṣẹ́',
+  'profile.testPushNoneSent': '{message}\n\nÈyí sábà máa ń túmọ̀ sí:\n• A kò rí token nínú ibi ìpamọ́ dátà\n• Token ti parí tàbí kò wúlò\n• Gbìyànjú láti pa Ìfitónilétí Push kí o sì tún tàn án',
+  'profile.testPushUnknownTitle': '⚠️ Àbájáde tí a kò mọ̀',
+  'profile.testPushUnknown': 'Ìbéèrè ìfitónilétí ti parí ṣùgbọ́n kò sí ìfìdímúlẹ̀. Ṣàyẹ̀wò ìfitónilétí ẹ̀rọ rẹ.',
+  'profile.testPushFailed': 'Kò ṣeé ṣe láti dán ìfitónilétí wò: {error}\n\nJọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'profile.signOutConfirm': 'Ṣé o dá ọ lójú pé o fẹ́ jáde?',
+  'profile.signOutFailed': 'Kò ṣeé ṣe láti jáde. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'profile.deleteAccountConfirm': 'Ṣé o dá ọ lójú pé o fẹ́ pa àkáǹtì rẹ rẹ́? A kò lè yí èyí padà. Gbogbo dátà, ìsopọ̀ àti ètò rẹ ni a ó pa rẹ́ títí láé.',
+  'profile.finalConfirmation': 'Ìfìdímúlẹ̀ ìkẹyìn',
+  'profile.finalConfirmationMessage': 'Èyí yóò pa àkáǹtì rẹ àti gbogbo dátà tó jẹ mọ́ ọn rẹ́ títí láé. Ṣé ó dá ọ lójú pátápátá?',
+  'profile.confirmDeleteAccount': 'Bẹ́ẹ̀ni, pa àkáǹtì mi rẹ́',
+  'profile.deleteAccountFailed': 'Kò ṣeé ṣe láti pa àkáǹtì rẹ́. Jọ̀wọ́ gbìyànjú lẹ́ẹ̀kan sí i.',
+  'profile.deleteUrlMissing': 'A kò ṣètò URL ìparẹ́ àkáǹtì. Jọ̀wọ́ kàn sí ẹgbẹ́ ìrànlọ́wọ́.',
+  'profile.deleteViaWebsiteMessage': 'A ó darí rẹ sí ojú òpó wẹ́ẹ̀bù wa láti parí ìparẹ́ àkáǹtì.',
+  'profile.openWebsiteFailed': 'Kò ṣeé ṣe láti ṣí ojú òpó wẹ́ẹ̀bù. Jọ̀wọ́ gbìyànjú lẹ́yìn náà.',
+};
+
+export default yo;
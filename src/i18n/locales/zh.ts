@@ -0,0 +1,998 @@
+import type { TranslationCatalog } from '../index';
+
+// Chinese (Simplified)
+const zh: TranslationCatalog = {
+  'common.error': '错误',
+  'common.success': '成功',
+  'common.ok': '确定',
+  'common.cancel': '取消',
+  'common.save': '保存',
+  'common.delete': '删除',
+  'common.loadingSettings': '正在加载设置...',
+  'common.tryAgain': '出了点问题，请重试。',
+  'common.openSettings': '打开设置',
+
+  'tabs.home': '首页',
+  'tabs.incidents': '事件',
+  'tabs.connections': '联系人',
+  'tabs.profile': '我的',
+
+  'profile.personalInformation': '个人信息',
+  'profile.editProfile': '编辑资料',
+  'profile.connections': '联系人',
+  'profile.circles': '圈子与角色',
+  'profile.emergencyNotes': '紧急备注',
+  'profile.safetyPrivacy': '安全与隐私',
+  'profile.shareLocation': '共享位置',
+  'profile.communityReports': '社区报告',
+  'profile.locationAccuracy': '定位精度',
+  'profile.locationUpdateFrequency': '位置更新频率',
+  'profile.notifications': '通知',
+  'profile.pushNotifications': '推送通知',
+  'profile.testPushNotification': '测试推送通知',
+  'profile.sleepMode': '睡眠模式',
+  'profile.notificationFilters': '通知筛选',
+  'profile.accountLock': 'SOS 锁定与解锁',
+  'profile.appSettings': '应用设置',
+  'profile.languageRegion': '语言与地区',
+  'profile.units': '单位（公里 / 英里）',
+  'profile.batterySaving': '省电模式',
+  'profile.offlineMaps': '离线地图',
+  'profile.usersManual': '用户手册',
+  'profile.helpSupport': '帮助与支持',
+  'profile.privacyPolicy': '隐私政策',
+  'profile.termsOfService': '服务条款',
+  'profile.accountManagement': '账户管理',
+  'profile.deleteAccount': '删除账户',
+  'profile.deleteAccountWebsite': '通过网站删除账户',
+  'profile.signOut': '退出登录',
+
+  'languageRegion.title': '语言与地区',
+  'languageRegion.language': '语言',
+  'languageRegion.region': '地区',
+  'languageRegion.saveLanguageFailed': '保存语言设置失败，请重试。',
+  'languageRegion.saveRegionFailed': '保存地区设置失败，请重试。',
+
+  'units.title': '单位',
+  'units.description': '选择距离、速度和提醒使用的单位制。',
+  'units.metric': '公制（公里、米）',
+  'units.metricSubtitle': '公里和米',
+  'units.imperial': '英制（英里、英尺）',
+  'units.imperialSubtitle': '英里和英尺',
+  'units.saveFailed': '保存单位设置失败，请重试。',
+
+  'incidents.safetyFeed': '安全动态',
+  'incidents.distanceAway': '距离 {distance}',
+  'incidents.category.robbery': '抢劫',
+  'incidents.category.kidnapping': '绑架',
+  'incidents.category.accident': '事故',
+  'incidents.category.fire': '火灾',
+  'incidents.category.protest': '抗议',
+  'incidents.category.assault': '袭击',
+  'incidents.category.theft': '盗窃',
+  'incidents.category.other': '其他',
+
+  'time.justNow': '刚刚',
+  'time.minuteAgo': '1 分钟前',
+  'time.minutesAgo': '{count} 分钟前',
+  'time.hourAgo': '1 小时前',
+  'time.hoursAgo': '{count} 小时前',
+  'time.dayAgo': '1 天前',
+  'time.daysAgo': '{count} 天前',
+  'time.weekAgo': '1 周前',
+  'time.weeksAgo': '{count} 周前',
+  'time.monthAgo': '1 个月前',
+  'time.monthsAgo': '{count} 个月前',
+  'time.yearAgo': '1 年前',
+  'time.yearsAgo': '{count} 年前',
+  'time.todayAt': '今天 {time}',
+  'time.yesterdayAt': '昨天 {time}',
+  'time.dateAt': '{date} {time}',
+
+  'lastSeen.onlineNow': '在线',
+  'lastSeen.active': '{time}活跃',
+  'lastSeen.lastSeen': '最后在线：{time}',
+
+  'checkIn.title': '安全签到',
+  'checkIn.subtitle': '让联系人知道你很安全',
+  'checkIn.quickCheckIn': '快速签到',
+  'checkIn.imSafe': '我很安全',
+  'checkIn.delayed': '延迟',
+  'checkIn.checkingIn': '正在签到...',
+  'checkIn.lastCheckIn': '最近一次签到',
+  'checkIn.recentCheckIns': '最近签到',
+  'checkIn.status.safe': '安全',
+  'checkIn.status.unsafe': '不安全',
+  'checkIn.status.delayed': '延迟',
+  'checkIn.status.missed': '未签到',
+  'checkIn.successTitle': '✅ 签到成功',
+  'checkIn.successMessage': '你的安全状态已更新。',
+  'checkIn.failed': '签到失败，请重试。',
+  'checkIn.settingsTitle': '签到设置',
+  'checkIn.autoCheckInsEnabled': '自动签到：已开启',
+  'checkIn.autoCheckInsDisabled': '自动签到：已关闭',
+  'checkIn.interval': '间隔：每 {minutes} 分钟',
+  'checkIn.emergencyContacts': '紧急联系人：{count}',
+
+  'notificationFilters.sosAlert': 'SOS 警报',
+  'notificationFilters.sosAlertSubtitle': '来自联系人的紧急警报',
+  'notificationFilters.sosResponse': 'SOS 响应',
+  'notificationFilters.sosResponseSubtitle': '谁在响应 SOS',
+  'notificationFilters.checkInEmergency': '紧急签到',
+  'notificationFilters.checkInEmergencySubtitle': '报告紧急情况的联系人',
+  'notificationFilters.checkInUnsafe': '不安全签到',
+  'notificationFilters.checkInUnsafeSubtitle': '报告感到不安全的联系人',
+  'notificationFilters.missedCheckIn': '错过的签到',
+  'notificationFilters.missedCheckInSubtitle': '错过预定签到的联系人',
+  'notificationFilters.tripOverdue': '逾期行程',
+  'notificationFilters.tripOverdueSubtitle': '超时或停止报告的行程',
+  'notificationFilters.incidentProximity': '附近事件',
+  'notificationFilters.incidentProximitySubtitle': '你附近报告的事件',
+  'notificationFilters.incident': '事件报告',
+  'notificationFilters.incidentSubtitle': '安全动态中的新事件',
+  'notificationFilters.placeArrival': '到达地点',
+  'notificationFilters.placeArrivalSubtitle': '联系人到达你的地点',
+  'notificationFilters.placeDeparture': '离开地点',
+  'notificationFilters.placeDepartureSubtitle': '联系人离开你的地点',
+  'notificationFilters.checkIn': '签到',
+  'notificationFilters.checkInSubtitle': '联系人的日常签到',
+  'notificationFilters.tripStarted': '行程开始',
+  'notificationFilters.tripStartedSubtitle': '与你分享行程的联系人',
+  'notificationFilters.tripArrived': '行程到达',
+  'notificationFilters.tripArrivedSubtitle': '到达行程目的地的联系人',
+  'notificationFilters.tripCancelled': '行程取消',
+  'notificationFilters.tripCancelledSubtitle': '提前结束共享行程的联系人',
+  'notificationFilters.travelAdvisory': '出行提示',
+  'notificationFilters.travelAdvisorySubtitle': '你的行程安全提示',
+  'notificationFilters.routeRisk': '路线风险',
+  'notificationFilters.routeRiskSubtitle': '计划路线的风险警告',
+  'notificationFilters.connectionAdded': '新联系人',
+  'notificationFilters.connectionAddedSubtitle': '有人将你添加为联系人',
+  'notificationFilters.locationReminder': '位置提醒',
+  'notificationFilters.locationReminderSubtitle': '提醒你更新位置',
+  'notificationFilters.morningGreeting': '早安问候',
+  'notificationFilters.morningGreetingSubtitle': '每日早安消息',
+  'notificationFilters.afternoonGreeting': '午安问候',
+  'notificationFilters.afternoonGreetingSubtitle': '每日午安消息',
+  'notificationFilters.appUpdate': '应用更新',
+  'notificationFilters.appUpdateSubtitle': 'FamGuard 新版本',
+  'notificationFilters.title': '通知过滤',
+  'notificationFilters.description': '选择你要接收的推送通知。SOS 警报和紧急签到始终会送达，即使来自已静音的联系人。',
+  'notificationFilters.safetyAlerts': '安全警报',
+  'notificationFilters.alerts': '提醒',
+  'notificationFilters.updatesGreetings': '更新与问候',
+  'notificationFilters.connections': '联系人',
+  'notificationFilters.noConnections': '你还没有联系人。',
+  'notificationFilters.alwaysOn': '始终开启',
+  'notificationFilters.connectionMuted': '已静音 - 仅安全警报',
+  'notificationFilters.connectionAll': '所有通知',
+  'notificationFilters.saveFailed': '无法保存通知过滤，请重试。',
+
+  'findContacts.title': '查找联系人',
+  'findContacts.introTitle': '找到你认识的人',
+  'findContacts.introDescription': '查看哪些联系人已在使用 FamGuards，一键连接或邀请其他人。电话号码保留在你的手机上，只会核对每个号码的单向哈希。',
+  'findContacts.search': '搜索联系人',
+  'findContacts.regionHint': '没有国家代码的号码按 {region} 处理。',
+  'findContacts.changeRegion': '更改地区',
+  'findContacts.noMatches': '没有符合搜索条件的联系人。',
+  'findContacts.noValidNumbers': '未找到带有效电话号码的联系人。',
+  'findContacts.onFamGuards': '已在 FamGuards',
+  'findContacts.inviteToFamGuards': '邀请加入 FamGuards',
+  'findContacts.userOnFamGuards': 'FamGuards 上的 {name}',
+  'findContacts.connected': '已连接',
+  'findContacts.invited': '已邀请',
+  'findContacts.connect': '连接',
+  'findContacts.invite': '邀请',
+  'findContacts.someNotChecked': '部分联系人未核对',
+  'findContacts.accessNeeded': '需要访问通讯录',
+  'findContacts.accessNeededMessage': '请在设置中允许访问通讯录，以找到你认识的人。',
+  'findContacts.inviteFailed': '邀请发送失败，请重试。',
+  'findContacts.inviteLinkFailed': '无法创建邀请，请重试。',
+  'findContacts.messagesUnavailable': '无法打开短信应用。',
+
+  'sosEvent.status.active': '需要帮助',
+  'sosEvent.status.responderEnRoute': '救援者在路上',
+  'sosEvent.status.resolved': '已解决',
+  'sosEvent.status.falseAlarm': '误报',
+  'sosEvent.title': 'SOS',
+  'sosEvent.loading': '正在加载 SOS...',
+  'sosEvent.unavailable': '此 SOS 已不可用。',
+  'sosEvent.yourSos': '你的 SOS',
+  'sosEvent.silentWarning': '静默 SOS - {name} 可能正受到胁迫。请勿给其打电话或发短信。',
+  'sosEvent.started': '开始于',
+  'sosEvent.lastLocation': '最后位置',
+  'sosEvent.near': '附近',
+  'sosEvent.closed': '已关闭',
+  'sosEvent.imResponding': '我来响应',
+  'sosEvent.cantHelp': '无法帮忙',
+  'sosEvent.openLiveMap': '打开实时地图',
+  'sosEvent.responders': '响应者（{count}）',
+  'sosEvent.noResponders': '还没有人响应。',
+  'sosEvent.responderResponding': '{name} - 正在响应',
+  'sosEvent.responderCantHelp': '{name} - 无法帮忙',
+  'sosEvent.addNoteTitle': '添加备注',
+  'sosEvent.notePlaceholder': '例如：已报警',
+  'sosEvent.addNote': '添加备注',
+  'sosEvent.resolve': '解决',
+  'sosEvent.falseAlarm': '误报',
+  'sosEvent.closeHint': '关闭 SOS 时，你的备注会添加到时间线。',
+  'sosEvent.timeline': '时间线',
+  'sosEvent.locationTrail': '位置轨迹（{count}）',
+  'sosEvent.noLocations': '尚未记录位置。',
+  'sosEvent.showLess': '收起',
+  'sosEvent.showAllLocations': '显示全部 {count} 个位置',
+  'sosEvent.resolveTitle': '解决 SOS',
+  'sosEvent.resolveMessage': '请在确认 {name} 安全后再解决。',
+  'sosEvent.falseAlarmTitle': '标记为误报',
+  'sosEvent.falseAlarmMessage': '将此 SOS 作为误报关闭？{name} 的联系人会在时间线中看到。',
+  'sosEvent.respondFailed': '响应失败，请重试。',
+  'sosEvent.noteFailed': '无法添加备注，请重试。',
+  'sosEvent.closeFailed': '无法关闭 SOS，请重试。',
+  'sosEvent.you': '你',
+  'sosEvent.someone': '有人',
+  'sosEvent.them': '对方',
+  'sosEvent.update.opened': '{actor} 发送了 SOS',
+  'sosEvent.update.acknowledged': '{actor} 正在响应',
+  'sosEvent.update.acknowledgedYou': '你正在响应',
+  'sosEvent.update.called': '{actor} 给 {name} 打了电话',
+  'sosEvent.update.cantHelp': '{actor} 无法帮忙',
+  'sosEvent.update.statusChanged': '{actor} 将状态改为 {status}',
+  'sosEvent.update.note': '{actor} 添加了备注',
+  'sosEvent.statusUnknown': '未知',
+
+  'trip.title': '行程',
+  'trip.description': '与选定的联系人实时分享行程。如果你未按时到达或手机停止报告，他们会通过签到升级收到警报。',
+  'trip.loading': '正在加载行程...',
+  'trip.yourTrip': '你的行程',
+  'trip.startATrip': '开始行程',
+  'trip.following': '你关注的行程',
+  'trip.noneFollowing': '没有联系人与你分享行程。',
+  'trip.connection': '联系人',
+  'trip.overdue': '已逾期',
+  'trip.expectedAt': '预计 {time}',
+  'trip.distanceLeft': ' · 剩余 {distance}',
+  'trip.overdueNoSignal': '你的位置已停止报告。已通知你的联系人。',
+  'trip.overdueLate': '你已超过预计到达时间。已通知你的联系人。',
+  'trip.expectedArrival': '预计到达',
+  'trip.distanceLeftLabel': '剩余距离',
+  'trip.lastUpdate': '最后更新',
+  'trip.sharedWith': '共享给',
+  'trip.autoArrivalHint': '到达目的地时会自动确认到达。',
+  'trip.imArrived': '我已到达',
+  'trip.cancelTrip': '取消行程',
+  'trip.keepTrip': '保留行程',
+  'trip.cancelMessage': '停止与联系人分享此行程？',
+  'trip.destination': '目的地',
+  'trip.destinationPlaceholder': '例如：12 Allen Avenue, Ikeja',
+  'trip.travelTime': '预计行程时间',
+  'trip.minutesShort': '{count} 分钟',
+  'trip.hoursShort': '{count} 小时',
+  'trip.whoCanFollow': '谁可以关注此行程',
+  'trip.addConnectionFirst': '请先添加联系人再分享行程。',
+  'trip.startTrip': '开始行程',
+  'trip.enterDestination': '请输入目的地。',
+  'trip.chooseWatcher': '请至少选择一位联系人关注你的行程。',
+  'trip.destinationNotFound': '未找到目的地',
+  'trip.destinationNotFoundMessage': '请尝试更具体的地址或地名。',
+  'trip.startFailedActive': '无法开始行程。你可能已有进行中的行程。',
+  'trip.startFailed': '无法开始行程，请重试。',
+  'trip.confirmArrivalFailed': '无法确认到达，请重试。',
+  'trip.arrived': '已到达',
+  'trip.arrivedMessage': '已告知你的联系人你已安全到达。',
+  'trip.cancelFailed': '无法取消行程，请重试。',
+
+  'circles.title': '圈子与角色',
+  'circles.description': '将联系人分组到圈子，并选择每个圈子能收到什么。不在任何圈子中的联系人会收到全部内容。SOS 后账户锁定期间，所有联系人都能看到你的位置。',
+  'circles.loading': '正在加载圈子...',
+  'circles.newCircle': '新圈子',
+  'circles.namePlaceholder': '圈子名称，例如：家人',
+  'circles.createCircle': '创建圈子',
+  'circles.yourCircles': '你的圈子',
+  'circles.noCircles': '你还没有圈子。所有联系人都会收到你的位置和所有警报。',
+  'circles.roles': '角色',
+  'circles.members': '成员',
+  'circles.memberCount': '1 位成员',
+  'circles.membersCount': '{count} 位成员',
+  'circles.noMembers': '此圈子还没有成员。',
+  'circles.allInCircle': '你的所有联系人都在此圈子中。',
+  'circles.done': '完成',
+  'circles.addConnections': '添加联系人',
+  'circles.formerConnection': '前联系人',
+  'circles.setting.shareLocation': '共享位置',
+  'circles.setting.shareLocationSubtitle': '成员可查看你的实时位置',
+  'circles.setting.sosAlerts': 'SOS 警报',
+  'circles.setting.sosAlertsSubtitle': '你发送 SOS 时会通知成员',
+  'circles.setting.checkInAlerts': '签到提醒',
+  'circles.setting.checkInAlertsSubtitle': '成员会收到你的签到和错过的签到',
+  'circles.setting.unlockApproval': '解锁批准',
+  'circles.setting.unlockApprovalSubtitle': '成员可以批准解锁你的账户',
+  'circles.preset.family': '家人',
+  'circles.preset.work': '工作',
+  'circles.preset.neighbors': '邻居',
+  'circles.role.guardian': '监护人',
+  'circles.role.guardianSubtitle': '始终接收警报和你的位置，并可批准解锁',
+  'circles.role.member': '成员',
+  'circles.role.memberSubtitle': '遵循圈子设置',
+  'circles.role.dependent': '被监护人',
+  'circles.role.dependentSubtitle': '遵循圈子设置，但永远不能批准解锁',
+  'circles.nameTitle': '圈子名称',
+  'circles.nameRequired': '请输入圈子名称。',
+  'circles.nameTaken': '你已有名为 {name} 的圈子。',
+  'circles.createFailed': '无法创建圈子，请重试。',
+  'circles.saveFailed': '无法保存圈子设置，请重试。',
+  'circles.deleteTitle': '删除圈子',
+  'circles.deleteMessage': '删除 {name}？不在其他圈子中的联系人将重新收到所有警报和你的位置。',
+  'circles.deleteFailed': '无法删除圈子，请重试。',
+  'circles.addFailed': '无法添加联系人，请重试。',
+  'circles.roleFailed': '无法更改角色，请重试。',
+  'circles.removeFailed': '无法移除联系人，请重试。',
+  'circles.roleIn': '在 {circle} 中的角色',
+  'circles.makeRole': '设为{role}',
+  'circles.removeFrom': '从 {circle} 移除',
+
+  'accountLock.event.locked': '账户已锁定',
+  'accountLock.event.unlockApproved': '已批准解锁',
+  'accountLock.event.unlocked': '账户已解锁',
+  'accountLock.event.pinFailed': '输入的 PIN 不正确',
+  'accountLock.event.pinSet': '已设置 PIN',
+  'accountLock.event.pinRemoved': '已移除 PIN',
+  'accountLock.method.sos': 'SOS 后',
+  'accountLock.method.pin': '使用 PIN',
+  'accountLock.method.quorum': '由联系人',
+  'accountLock.method.admin': '由客服',
+  'accountLock.byActor': '由 {name}',
+  'accountLock.description': 'SOS 后你的账户会被锁定。选择解锁方式。',
+  'accountLock.unlockPin': '解锁 PIN',
+  'accountLock.pinSet': '已设置 PIN',
+  'accountLock.noPin': '未设置 PIN',
+  'accountLock.pinDescription': '可在锁定界面自行解锁账户。请保密。',
+  'accountLock.newPinPlaceholder': '新 PIN（4-8 位数字）',
+  'accountLock.confirmPinPlaceholder': '确认 PIN',
+  'accountLock.savePin': '保存 PIN',
+  'accountLock.remove': '移除',
+  'accountLock.changePin': '更改 PIN',
+  'accountLock.setPin': '设置 PIN',
+  'accountLock.silentSos': '静默 SOS',
+  'accountLock.duressPinSet': '已设置胁迫 PIN',
+  'accountLock.noDuressPin': '未设置胁迫 PIN',
+  'accountLock.duressDescription': '在锁定界面输入胁迫 PIN 会像平常一样解锁应用，但会静默通知你的联系人并持续分享你的精确位置。',
+  'accountLock.holdDescription': '你也可以在主屏幕上长按紧急警报按钮 3 秒。屏幕上不会有任何变化。只有联系人可以结束静默 SOS。',
+  'accountLock.setPinFirst': '请先设置解锁 PIN，再添加胁迫 PIN。',
+  'accountLock.duressPinPlaceholder': '胁迫 PIN（4-8 位数字）',
+  'accountLock.confirmDuressPinPlaceholder': '确认胁迫 PIN',
+  'accountLock.changeDuressPin': '更改胁迫 PIN',
+  'accountLock.setDuressPin': '设置胁迫 PIN',
+  'accountLock.approvals': '联系人批准',
+  'accountLock.approvalsDescription': '解锁账户前需要多少位联系人批准。上限为锁定开始时你拥有的联系人数量。',
+  'accountLock.history': '锁定记录',
+  'accountLock.noHistory': '暂无锁定记录。',
+  'accountLock.invalidPin': 'PIN 无效',
+  'accountLock.invalidPinMessage': 'PIN 必须为 4 到 8 位数字。',
+  'accountLock.invalidDuressPinMessage': '胁迫 PIN 必须为 4 到 8 位数字。',
+  'accountLock.pinMismatch': 'PIN 不一致',
+  'accountLock.pinMismatchMessage': '请两次输入相同的 PIN。',
+  'accountLock.savePinFailed': '无法保存 PIN，请重试。',
+  'accountLock.removePinTitle': '移除 PIN',
+  'accountLock.removePinMessage': '没有 PIN 时，SOS 后只有联系人可以解锁你的账户。胁迫 PIN 也会被移除。',
+  'accountLock.removePinFailed': '无法移除 PIN，请重试。',
+  'accountLock.saveDuressPinFailed': '无法保存胁迫 PIN，请重试。',
+  'accountLock.removeDuressPinTitle': '移除胁迫 PIN',
+  'accountLock.removeDuressPinMessage': '你仍可通过长按紧急警报按钮发送静默 SOS。',
+  'accountLock.removeDuressPinFailed': '无法移除胁迫 PIN，请重试。',
+  'accountLock.saveQuorumFailed': '无法保存解锁批准设置，请重试。',
+
+  'notifications.title': '通知',
+  'notifications.markAllRead': '全部标为已读',
+  'notifications.emptyTitle': '暂无通知',
+  'notifications.emptyText': '你已查看全部通知！',
+  'notifications.alertLevel.danger': '危险',
+  'notifications.alertLevel.warning': '警告',
+  'notifications.alertLevel.alert': '提醒',
+  'notifications.markAllReadFailed': '无法将所有通知标为已读。',
+  'notifications.locationPermissionTitle': '需要位置权限',
+  'notifications.locationPermissionMessage': '要更新你的位置，请在设置中授予位置权限。',
+  'notifications.permissionTitle': '需要权限',
+  'notifications.permissionMessage': '需要位置权限才能更新你的位置。',
+  'notifications.locationUpdatedTitle': '位置已更新',
+  'notifications.locationUpdatedMessage': '你的位置已成功更新。',
+  'notifications.locationErrorTitle': '位置错误',
+  'notifications.locationErrorMessage': '无法获取你的当前位置。请检查位置设置。',
+  'notifications.updateLocationFailed': '无法更新位置，请重试。',
+  'notifications.emergencyLocation': '紧急位置',
+  'notifications.placeAlert': '地点提醒',
+
+  'reportIncident.title': '报告事件',
+  'reportIncident.subtitle': '帮助守护社区安全',
+  'reportIncident.type': '事件类型',
+  'reportIncident.titleLabel': '标题',
+  'reportIncident.titlePlaceholder': '事件的简短标题',
+  'reportIncident.descriptionLabel': '描述',
+  'reportIncident.descriptionPlaceholder': '描述发生了什么、何时发生以及其他相关细节...',
+  'reportIncident.media': '照片和视频',
+  'reportIncident.camera': '相机',
+  'reportIncident.library': '相册',
+  'reportIncident.mediaHint': '上传前会移除照片和视频中的位置信息。视频最长 {seconds} 秒。',
+  'reportIncident.location': '位置',
+  'reportIncident.gettingLocation': '正在获取你的位置...',
+  'reportIncident.retry': '重试',
+  'reportIncident.noLocation': '无可用位置',
+  'reportIncident.visibilityHint': '只有附近（{distance} 以内）的用户会看到此报告',
+  'reportIncident.when': '何时发生？',
+  'reportIncident.happeningNow': '正在发生',
+  'reportIncident.happenedEarlier': '之前发生',
+  'reportIncident.anonymous': '匿名报告',
+  'reportIncident.anonymousHint': '对公众隐藏你的姓名（出于安全仍在内部保存）',
+  'reportIncident.info': '你的报告有助于守护社区安全。虚假报告可能导致账户被暂停。',
+  'reportIncident.uploading': '正在上传...',
+  'reportIncident.submitting': '正在提交...',
+  'reportIncident.submit': '提交报告',
+  'reportIncident.mediaStatus.preparing': '正在准备...',
+  'reportIncident.mediaStatus.done': '已上传',
+  'reportIncident.mediaStatus.queued': '排队中',
+  'reportIncident.mediaStatus.failed': '失败',
+  'reportIncident.mediaStatus.unsupportedFormat': '格式不受支持',
+  'reportIncident.mediaStatus.tooLong': '时长过长',
+  'reportIncident.mediaStatus.limitReached': '已达上限',
+  'reportIncident.thisLocation': '此位置',
+  'reportIncident.autoTitle.robbery': '已报告抢劫',
+  'reportIncident.autoTitle.kidnapping': '已报告可疑活动',
+  'reportIncident.autoTitle.accident': '已报告交通事故',
+  'reportIncident.autoTitle.fire': '已报告火灾',
+  'reportIncident.autoTitle.protest': '已报告抗议集会',
+  'reportIncident.autoTitle.assault': '已报告袭击事件',
+  'reportIncident.autoTitle.theft': '已报告盗窃',
+  'reportIncident.autoTitle.other': '已报告事件',
+  'reportIncident.autoDescription.robbery': '有人报告了一起抢劫事件。\n\n位置: {address}\n\n请注意安全，尽量避开该区域。已通知有关部门。',
+  'reportIncident.autoDescription.kidnapping': '有人报告了与绑架有关的可疑活动。\n\n位置: {address}\n\n请保持警惕，发现任何可疑行为请立即报告有关部门。',
+  'reportIncident.autoDescription.accident': '有人报告了一起交通事故。\n\n位置: {address}\n\n急救人员正在赶往现场。请预计会有延误，尽量绕行。',
+  'reportIncident.autoDescription.fire': '有人报告了一起火灾。\n\n位置: {address}\n\n消防部门正在赶往现场。请避开该区域并听从救援人员的指示。',
+  'reportIncident.autoDescription.protest': '有人报告了一起抗议集会。\n\n位置: {address}\n\n请预计交通会有延误，如在该区域请注意安全。',
+  'reportIncident.autoDescription.assault': '有人报告了一起袭击事件。\n\n位置: {address}\n\n请避开该区域，并向有关部门提供任何相关信息。',
+  'reportIncident.autoDescription.theft': '有人报告了一起盗窃事件。\n\n位置: {address}\n\n请保管好个人财物，并报告任何可疑活动。',
+  'reportIncident.autoDescription.other': '有人报告了一起事件。\n\n位置: {address}\n\n在该区域请注意安全。',
+  'reportIncident.locationPermissionDenied': '位置权限被拒绝。请在设置中开启位置访问。',
+  'reportIncident.locationUnavailable': '无法获取你的位置，请重试。',
+  'reportIncident.locationFailed': '获取位置失败，请重试。',
+  'reportIncident.limitReached': '已达上限',
+  'reportIncident.limitReachedMessage': '最多可附加 {count} 张照片或视频。',
+  'reportIncident.permissionTitle': '需要权限',
+  'reportIncident.cameraPermission': '需要相机权限才能拍摄事件的照片或视频。',
+  'reportIncident.libraryPermission': '需要相册权限才能附加照片或视频。',
+  'reportIncident.videoTooLong': '视频过长',
+  'reportIncident.videoTooLongMessage': '视频最长 {seconds} 秒。',
+  'reportIncident.attachFailed': '无法附加媒体，请重试。',
+  'reportIncident.requiredFields': '请填写所有必填项',
+  'reportIncident.locationRequired': '需要位置信息。请等待位置加载或尝试刷新。',
+  'reportIncident.invalidCoordinates': '位置坐标无效。请刷新你的位置。',
+  'reportIncident.invalidLatitude': '纬度无效。请刷新你的位置。',
+  'reportIncident.invalidLongitude': '经度无效。请刷新你的位置。',
+  'reportIncident.submitted': '事件报告成功。',
+  'reportIncident.mediaQueued': '{count} 个照片/视频将在网络改善后完成上传。',
+  'reportIncident.mediaFailed': '{count} 个照片/视频无法附加。',
+  'reportIncident.submitFailed': '无法报告事件，请重试。',
+
+  'home.visibleToConnections': '联系人可见',
+  'home.hiddenFromConnections': '对联系人隐藏',
+  'home.connectionCount': '1 位联系人',
+  'home.connectionsCount': '{count} 位联系人',
+  'home.location': '位置',
+  'home.updating': '正在更新...',
+  'home.sharing': '共享中',
+  'home.hidden': '已隐藏',
+  'home.sharingOffTitle': '位置共享已关闭',
+  'home.sharingOffMessage': '开启位置共享，让联系人能看到你的位置并在紧急情况下响应。',
+  'home.turnOn': '开启',
+  'home.emergency': '紧急',
+  'home.emergencyAlert': '紧急警报',
+  'home.alertConnection': '通知 1 位联系人',
+  'home.alertConnections': '通知 {count} 位联系人',
+  'home.quickActions': '快捷操作',
+  'home.reportIncidentSubtitle': '报告安全隐患',
+  'home.checkInSubtitle': '让联系人知道你平安',
+  'home.emergencySent': '紧急警报已发送',
+  'home.emergencyQueued': '紧急警报排队中',
+  'home.emergencySentMessage': '你的紧急警报已成功发送给联系人。',
+  'home.emergencyQueuedMessage': '部分联系人尚未收到。FamGuard 会持续重试，直到警报送达。',
+  'home.continue': '继续',
+  'home.recipient.notified': '已通知',
+  'home.recipient.appOff': '应用通知已关闭',
+  'home.recipient.retrying': '正在重试...',
+  'home.recipient.smsReady': '短信已就绪',
+  'home.recipient.smsUnavailable': '短信不可用',
+  'home.permissionTitle': '需要权限',
+  'home.locationPermissionMessage': '需要位置权限才能与联系人共享你的位置。',
+  'home.locationErrorTitle': '位置错误',
+  'home.locationErrorMessage': '无法获取你的位置。请检查位置设置。',
+  'home.toggleSharingFailed': '无法更新位置共享，请重试。',
+  'home.noConnections': '暂无联系人',
+  'home.noConnectionsMessage': '发送紧急警报前需要先添加联系人。',
+  'home.sendAlertTitle': '发送紧急警报？',
+  'home.sendAlertMessageOne': '这将向你的 1 位联系人发送紧急警报。',
+  'home.sendAlertMessage': '这将向全部 {count} 位联系人发送紧急警报。',
+  'home.sendAlert': '发送紧急警报',
+  'home.alertWithoutLocation': '无法获取你的位置。紧急警报将在不含位置信息的情况下发送。',
+  'home.sendAlertFailed': '无法发送紧急警报，请重试。',
+
+  'map.title': '地图',
+  'map.timelineTitle': '位置时间线',
+  'map.locationsCount': '{count} 个位置',
+  'map.location': '位置',
+  'map.tripDestination': '行程目的地',
+  'map.today': '今天',
+  'map.yesterday': '昨天',
+  'map.secondsShort': '{count} 秒',
+  'map.stoppedFor': '停留 {duration}',
+  'map.trackingOffFor': '追踪关闭 {duration}',
+  'map.moving': '移动中 · {speed}',
+  'map.playbackSummary': '{stops} 次停留 · {duration} 内 {distance}',
+  'map.playbackGaps': '{count} 处中断',
+  'map.tapToSetCenter': '点按地图设置地点中心',
+  'map.tapToOutline': '点按地图勾勒地点轮廓（{count} 个点）',
+  'map.undo': '撤销',
+  'map.done': '完成',
+  'map.tripArrived': '已安全到达',
+  'map.tripCancelled': '行程已取消',
+  'map.tripOverdueNoSignal': '已逾期 - 位置停止上报',
+  'map.tripOverdueLate': '已逾期 - 超过预计到达时间',
+  'map.updatedAgo': '更新于 {time}',
+  'map.offline': '离线',
+  'map.failedToLoad': '地图加载失败',
+  'map.checkPlayServices': '请检查 Google Play 服务和网络连接',
+  'map.checkInternet': '请检查网络连接',
+  'map.locationNotAvailable': '位置不可用',
+  'map.locationNotAvailableMessage': '{name} 的位置不可用。可能已关闭位置共享。',
+  'map.user': '用户',
+  'map.loadingTimeline': '正在加载时间线...',
+  'map.noHistory': '无位置记录',
+  'map.noHistoryToday': '今天没有位置数据',
+  'map.noHistoryYesterday': '昨天没有位置数据',
+  'map.noHistoryOn': '{date} 没有位置数据',
+  'map.movement': '移动',
+  'map.unknownLocation': '未知位置',
+  'map.places': '地点',
+  'map.placesSubtitle': '当联系人到达或离开这些地点时收到通知。',
+  'map.noPlaces': '暂无地点。添加家、学校或公司。',
+  'map.placeRadius': '{category} · 半径 {radius}',
+  'map.placeArea': '{category} · {count} 点区域',
+  'map.addPlace': '添加地点',
+  'map.editPlace': '编辑地点',
+  'map.newPlace': '新地点',
+  'map.name': '名称',
+  'map.namePlaceholder': '例如：家、学校、办公室',
+  'map.type': '类型',
+  'map.shape': '形状',
+  'map.circle': '圆形',
+  'map.customArea': '自定义区域',
+  'map.radius': '半径',
+  'map.moveCenter': '在地图上移动中心',
+  'map.setCenter': '在地图上设置中心',
+  'map.redrawArea': '在地图上重新绘制区域',
+  'map.drawArea': '在地图上绘制区域',
+  'map.alertArrives': '有人到达时提醒',
+  'map.alertLeaves': '有人离开时提醒',
+  'map.savePlace': '保存地点',
+  'map.placeCategory.home': '家',
+  'map.placeCategory.school': '学校',
+  'map.placeCategory.work': '公司',
+  'map.placeCategory.other': '其他',
+  'map.notEnoughPoints': '点数不足',
+  'map.notEnoughPointsMessage': '请在地图上点按至少 3 个点来勾勒地点。',
+  'map.nameRequired': '需要名称',
+  'map.nameRequiredMessage': '请为此地点输入名称。',
+  'map.locationRequired': '需要位置',
+  'map.locationRequiredMessage': '请在地图上设置地点。',
+  'map.areaRequired': '需要区域',
+  'map.areaRequiredMessage': '请在地图上用至少 3 个点勾勒地点。',
+  'map.savePlaceFailed': '无法保存地点，请重试。',
+  'map.deletePlace': '删除地点',
+  'map.deletePlaceMessage': '不再接收 {name} 的到达/离开提醒？',
+  'map.deletePlaceFailed': '无法删除地点，请重试。',
+  'map.arrived': '到达',
+  'map.left': '离开',
+
+  'connections.locationPermissionTitle': '需要位置权限',
+  'connections.locationPermissionMessage': '需要位置权限才能与联系人共享你的位置。',
+  'connections.invalidInput': '输入无效',
+  'connections.enterPhone': '请输入电话号码。',
+  'connections.invalidPhone': '电话号码无效',
+  'connections.phoneLength': '请输入 11 位电话号码。',
+  'connections.cannotInviteSelf': '你不能邀请自己。',
+  'connections.checkPhoneFailed': '无法检查电话号码，请重试。',
+  'connections.notOnAppTitle': '尚未使用 FamGuards',
+  'connections.notOnAppMessage': '此电话号码尚未在应用中注册。要发送邀请链接吗？对方注册后即可与你建立联系。',
+  'connections.sendInviteLink': '发送邀请链接',
+  'connections.createInviteFailed': '无法创建邀请，请重试。',
+  'connections.alreadyConnected': '已建立联系',
+  'connections.alreadyConnectedMessage': '你已与该用户建立联系。',
+  'connections.alreadyConnectedTo': '你已与 {name} 建立联系。',
+  'connections.invitationSent': '邀请已发送',
+  'connections.invitationAlreadySent': '你已向此电话号码发送过邀请。',
+  'connections.invitationSentTo': '已向 {phone} 发送邀请，对方将收到通知。',
+  'connections.sendInvitationFailed': '无法发送邀请，请重试。',
+  'connections.acceptFailed': '无法接受邀请，请重试。',
+  'connections.rejectFailed': '无法拒绝邀请，请重试。',
+  'connections.connected': '已建立联系！',
+  'connections.nowConnected': '你们已建立联系。',
+  'connections.nowConnectedTo': '你已与 {name} 建立联系。',
+  'connections.cancelInviteFailed': '无法取消邀请，请重试。',
+  'connections.inviteCancelled': '邀请已取消',
+  'connections.inviteCancelledMessage': '此邀请已无法使用。',
+  'connections.loadInviteFailed': '无法加载邀请，请重试。',
+  'connections.inviteTitle': '联系人邀请',
+  'connections.invitePrompt': '与 {name} 建立联系？你们将能看到彼此的位置和 SOS 警报。',
+  'connections.invitePromptUnknown': '与此人建立联系？你们将能看到彼此的位置和 SOS 警报。',
+  'connections.notNow': '以后再说',
+  'connections.connect': '建立联系',
+  'connections.invalidInvite': '邀请无效',
+  'connections.ownInvite': '你不能使用自己的邀请。',
+  'connections.inviteExpired': '邀请已过期',
+  'connections.inviteExpiredMessage': '此邀请已过期或已被使用，请索取新的邀请。',
+  'connections.tooManyAttempts': '尝试次数过多',
+  'connections.tryLater': '请稍后重试。',
+  'connections.inviteNotValid': '此邀请无效。',
+  'connections.couldNotConnect': '无法建立联系',
+  'connections.connectFailed': '无法建立联系，请重试。',
+  'connections.pasteInviteMessage': '请粘贴你收到的邀请链接。',
+  'connections.approveUnlock': '批准解锁',
+  'connections.approveUnlockMessage': '批准解锁 {name} 的账户？请仅在确认对方安全后操作。其账户可能需要多位联系人批准。',
+  'connections.approve': '批准',
+  'connections.approveUnlockFailed': '无法批准解锁，请重试。',
+  'connections.unlocked': '已解锁',
+  'connections.unlockedMessage': '{name} 已解锁，现在可以使用应用。',
+  'connections.approvalRecorded': '已记录批准',
+  'connections.approvalRecordedMessage': '已有 {approvals}/{required} 位联系人批准。足够多的联系人批准后，{name} 将被解锁。',
+  'connections.updateSharingFailed': '无法更新位置共享，请重试。',
+  'connections.shareMyLocationTitle': '共享我的位置',
+  'connections.shareDurationPrompt': '{name} 可以查看你的位置多长时间？',
+  'connections.shareAlways': '始终',
+  'connections.shareOneHour': '1 小时',
+  'connections.shareEightHours': '8 小时',
+  'connections.shareUntilArrive': '直到我到达',
+  'connections.shareWeekdays': '工作日 7-9 点',
+  'connections.markSafe': '标记为安全',
+  'connections.markSafeMessage': '结束 {name} 的静默 SOS？请仅在当面或通过可信渠道确认对方安全后操作。',
+  'connections.endSilentSosFailed': '无法结束静默 SOS，请重试。',
+  'connections.markedSafe': '已标记为安全',
+  'connections.markedSafeMessage': '{name} 的静默 SOS 已结束。',
+  'connections.online': '在线',
+  'connections.offline': '离线',
+  'connections.sharingDisabledTitle': '位置共享已关闭',
+  'connections.sharingDisabledMessage': '{name} 将无法看到你的实时位置。',
+  'connections.removeFailed': '无法移除联系人，请重试。',
+  'connections.quickActions': '快捷操作',
+  'connections.inviteByPhone': '通过电话邀请',
+  'connections.sendInvitationSubtitle': '发送邀请',
+  'connections.generating': '正在生成...',
+  'connections.inviteLink': '邀请链接',
+  'connections.qrOrLink': '二维码或链接',
+  'connections.openInvite': '打开邀请',
+  'connections.connectNow': '立即建立联系',
+  'connections.findContacts': '在 FamGuards 上查找联系人',
+  'connections.pendingInvitations': '待处理的邀请',
+  'connections.wantsToConnect': '想与你建立联系',
+  'connections.accept': '接受',
+  'connections.reject': '拒绝',
+  'connections.loading': '正在加载联系人...',
+  'connections.emptyTitle': '还没有联系人',
+  'connections.emptyText': '先使用上方的快捷操作邀请他人',
+  'connections.yourConnections': '你的联系人',
+  'connections.unknownUser': '未知用户',
+  'connections.accountLocked': '账户已锁定 - 需要帮助',
+  'connections.underDuress': '可能受到胁迫 - 请勿致电或发短信',
+  'connections.sharingDisabled': '位置共享已关闭',
+  'connections.sharingWithYou': '与你共享：{status}',
+  'connections.viewOnMap': '在地图上查看',
+  'connections.chooseAction': '选择操作',
+  'connections.viewSos': '查看 SOS',
+  'connections.markSafeEndSos': '标记为安全（结束静默 SOS）',
+  'connections.removeConnection': '移除联系人',
+  'connections.moreOptions': '更多选项',
+  'connections.shareMyLocation': '共享我的位置',
+  'connections.pausedNow': '（当前已暂停）',
+  'connections.change': '更改',
+  'connections.phonePlaceholder': '输入 11 位电话号码',
+  'connections.sendInvitation': '发送邀请',
+  'connections.invitationExpires': '邀请将在 7 天后过期',
+  'connections.yourInvite': '你的邀请',
+  'connections.inviteHint': '让对方扫描此二维码，或分享链接。链接仅可使用一次，将于 {time} 过期。如果对方还没有 FamGuards，链接会将其带到应用，邀请会保留到对方注册。',
+  'connections.shareMessage': '在 FamGuards 上和我建立联系，我们可以互相照应：{link}',
+  'connections.shareLink': '分享链接',
+  'connections.copied': '已复制！',
+  'connections.linkCopied': '邀请链接已复制到剪贴板。',
+  'connections.copyLink': '复制链接',
+  'connections.cancelInvite': '取消邀请',
+  'connections.pasteInvitePlaceholder': '粘贴邀请链接',
+  'connections.openInviteHint': '粘贴对方分享的邀请链接，或用相机扫描其二维码',
+
+  'locationSharing.always': '始终',
+  'locationSharing.off': '关闭',
+  'locationSharing.timeLeft': '剩余 {time}',
+  'locationSharing.ending': '即将结束...',
+  'locationSharing.untilArrival': '直到到达',
+  'locationSharing.everyDay': '每天',
+  'locationSharing.weekdays': '工作日',
+  'locationSharing.weekends': '周末',
+  'locationSharing.day1': '周一',
+  'locationSharing.day2': '周二',
+  'locationSharing.day3': '周三',
+  'locationSharing.day4': '周四',
+  'locationSharing.day5': '周五',
+  'locationSharing.day6': '周六',
+  'locationSharing.day7': '周日',
+
+  'batterySaving.description': '优化应用性能以节省电量。部分功能可能受限。',
+  'batterySaving.activeProfile': '当前配置：{profile}',
+  'batterySaving.batteryLevel': '{reason} · 电量 {level}%',
+  'batterySaving.autoNote': '当电量低于 {threshold}% 且未充电时，定位会自动收紧。',
+  'batterySaving.enable': '开启省电',
+  'batterySaving.enableSubtitle': '减少后台活动',
+  'batterySaving.reduceLocation': '减少位置更新',
+  'batterySaving.reduceLocationSubtitle': '降低位置更新频率',
+  'batterySaving.reduceSync': '减少后台同步',
+  'batterySaving.reduceSyncSubtitle': '降低数据同步频率',
+  'batterySaving.saveFailed': '无法保存省电设置，请重试。',
+  'batterySaving.profile.normal': '完全精度',
+  'batterySaving.profile.normalDescription': '精确 GPS，后台每 30 分钟共享一次位置。',
+  'batterySaving.profile.balanced': '平衡',
+  'batterySaving.profile.balancedDescription': 'GPS 精度略低，前台检查更少。',
+  'batterySaving.profile.saver': '省电',
+  'batterySaving.profile.saverDescription': '大致位置，约每小时更新一次。',
+  'batterySaving.profile.critical': '电量严重不足',
+  'batterySaving.profile.criticalDescription': '最低限度定位，约每 2 小时更新一次，以保持手机电量。',
+  'batterySaving.reason.default': '省电已关闭',
+  'batterySaving.reason.settings': '根据你的省电设置',
+  'batterySaving.reason.lowBattery': '电量低于 {threshold}%',
+  'batterySaving.reason.lowPowerMode': '设备低电量模式已开启',
+
+  'locationAccuracy.description': '选择与联系人共享位置的精确程度。',
+  'locationAccuracy.exact': '精确 GPS 位置',
+  'locationAccuracy.exactSubtitle': '以精确坐标共享你的准确位置',
+  'locationAccuracy.approximate': '大致位置',
+  'locationAccuracy.approximateSubtitle': '为保护隐私，仅共享大致区域（约 2 公里）和所在城市',
+  'locationAccuracy.emergencyInfo': '在 SOS 或紧急情况下，始终共享你的精确位置，以便联系人找到你。',
+  'locationAccuracy.emergencyActive': '紧急定位已启用。在结束前将共享你的精确位置。',
+  'locationAccuracy.saveFailed': '无法保存位置精度设置，请重试。',
+
+  'updateFrequency.option15': '15 分钟',
+  'updateFrequency.option15Description': '每 15 分钟更新一次位置',
+  'updateFrequency.option30': '30 分钟',
+  'updateFrequency.option30Description': '每 30 分钟更新一次位置',
+  'updateFrequency.option60': '1 小时',
+  'updateFrequency.option60Description': '每小时更新一次位置（推荐）',
+  'updateFrequency.option120': '2 小时',
+  'updateFrequency.option120Description': '每 2 小时更新一次位置',
+  'updateFrequency.option180': '3 小时',
+  'updateFrequency.option180Description': '每 3 小时更新一次位置',
+  'updateFrequency.description': '选择位置更新并与联系人共享的频率。更新越频繁越精确，但也更耗电。',
+  'updateFrequency.current': '当前',
+  'updateFrequency.info': '开启位置共享后，你的位置将按所选间隔自动更新。你可以随时更改此设置。',
+  'updateFrequency.loadFailed': '无法加载设置，将使用默认值。',
+  'updateFrequency.saveFailed': '无法保存位置更新频率，请重试。',
+
+  'sleepMode.description': '睡眠模式会在你的睡眠时段减少通知和位置更新，避免打扰你。SOS 警报和签到紧急情况始终会送达。',
+  'sleepMode.enable': '开启睡眠模式',
+  'sleepMode.enableSubtitle': '在睡眠时段减少通知',
+  'sleepMode.hours': '睡眠时段',
+  'sleepMode.startTime': '开始时间',
+  'sleepMode.endTime': '结束时间',
+  'sleepMode.timePickerNote': '此处可添加时间选择器',
+  'sleepMode.saveFailed': '无法保存睡眠模式设置，请重试。',
+
+  'editProfile.name': '姓名',
+  'editProfile.namePlaceholder': '输入你的姓名',
+  'editProfile.email': '电子邮箱',
+  'editProfile.emailPlaceholder': '输入你的电子邮箱',
+  'editProfile.phone': '电话',
+  'editProfile.phonePlaceholder': '输入你的电话号码',
+  'editProfile.save': '保存更改',
+  'editProfile.nameRequired': '姓名为必填项',
+  'editProfile.saved': '个人资料已更新',
+  'editProfile.saveFailed': '无法更新个人资料，请重试。',
+
+  'emergencyNotes.description': '添加重要的医疗信息、过敏、用药或紧急联系人，以便在紧急情况下你的联系人可以看到。',
+  'emergencyNotes.placeholder': '输入紧急备注...',
+  'emergencyNotes.save': '保存备注',
+  'emergencyNotes.saved': '紧急备注已更新',
+  'emergencyNotes.saveFailed': '无法更新紧急备注，请重试。',
+
+  'locked.title': '应用已锁定',
+  'locked.secured': '已保护',
+  'locked.restricted': '应用访问已被暂时限制。',
+  'locked.messageWithPin': '输入你的 PIN，或请你信任的联系人批准解锁你的账户。',
+  'locked.messageNoPin': '请联系你信任的联系人批准解锁你的账户。',
+  'locked.pinPlaceholder': '输入你的 PIN',
+  'locked.unlock': '解锁',
+  'locked.pinCheckFailed': '无法验证你的 PIN，请重试。',
+  'locked.incorrectPinOne': 'PIN 错误。还剩 1 次尝试机会。',
+  'locked.incorrectPin': 'PIN 错误。还剩 {count} 次尝试机会。',
+  'locked.tooManyAttempts': '错误尝试次数过多。请让你的联系人批准解锁。',
+  'locked.noApprovers': '你的联系人都无法批准解锁。请使用 PIN 解锁。',
+  'locked.approvalsOne': '{approved}/1 位联系人已批准解锁',
+  'locked.approvals': '{approved}/{required} 位联系人已批准解锁',
+  'locked.exactLocation': '在账户解锁前，你的精确位置将与联系人共享。',
+  'locked.checkingStatus': '正在检查锁定状态...',
+
+  'update.title': '需要更新',
+  'update.subtitle': 'FamGuard 有新版本可用',
+  'update.message': '请更新到最新版本，以继续使用应用并体验新功能。',
+  'update.currentVersion': '当前版本：{version}',
+  'update.updateNow': '立即更新',
+  'update.storeInfo': '应用将自动为你打开 {store}',
+
+  'offlineMaps.totalStorage': '总存储：{size}',
+  'offlineMaps.emptyTitle': '没有离线地图',
+  'offlineMaps.emptyText': '下载网络信号差地区的地图，以便离线使用。',
+  'offlineMaps.downloadFirst': '下载你的第一张地图',
+  'offlineMaps.tiles': '{size} • {count} 个图块',
+  'offlineMaps.downloadedOn': '下载于 {date}',
+  'offlineMaps.downloadTitle': '下载离线地图',
+  'offlineMaps.mapName': '地图名称',
+  'offlineMaps.mapNamePlaceholder': '例如：住家附近、上班路线',
+  'offlineMaps.selectRegion': '选择区域',
+  'offlineMaps.selectRegionHint': '拖动和缩放以选择要下载的区域',
+  'offlineMaps.downloading': '正在下载...',
+  'offlineMaps.tileProgress': '{done} / {total} 个图块',
+  'offlineMaps.downloadMap': '下载地图',
+  'offlineMaps.loadFailed': '无法加载离线地图。',
+  'offlineMaps.nameRequired': '请输入地图名称。',
+  'offlineMaps.regionRequired': '请在地图上选择一个区域。',
+  'offlineMaps.downloaded': '地图“{name}”下载成功！',
+  'offlineMaps.downloadFailed': '无法下载地图，请重试。',
+  'offlineMaps.deleteTitle': '删除地图',
+  'offlineMaps.deleteMessage': '确定要删除“{name}”吗？这将释放 {size} 存储空间。',
+  'offlineMaps.deleteFailed': '无法删除地图。',
+  'offlineMaps.locationFailed': '无法获取当前位置。',
+
+  'incidentDetail.title': '事件详情',
+  'incidentDetail.verified': '已核实',
+  'incidentDetail.status': '状态',
+  'incidentDetail.status.ongoing': '进行中',
+  'incidentDetail.status.contained': '已控制',
+  'incidentDetail.status.resolved': '已解决',
+  'incidentDetail.reporterMarked': '{name} 将其标记为{status}',
+  'incidentDetail.communityMarked': '社区将其标记为{status}',
+  'incidentDetail.reporter': '报告者',
+  'incidentDetail.reply': '回复',
+  'incidentDetail.statusVoteRecorded': '投票已记录',
+  'incidentDetail.statusConsensus': '{count} 人同意后状态将会更改。',
+  'incidentDetail.statusFailed': '无法更新状态，请重试。',
+  'incidentDetail.locationUnavailable': '无法获取位置',
+  'incidentDetail.locationUnavailableMessage': '你的更新将在不附带位置的情况下发布。',
+  'incidentDetail.postFailed': '无法发布你的更新，请重试。',
+  'incidentDetail.reporterHint': '此事件由你报告，请及时更新其状态。',
+  'incidentDetail.statusHint': '这件事仍在发生吗？{count} 人同意后状态将会更改。',
+  'incidentDetail.description': '描述',
+  'incidentDetail.reportedBy': '报告人：{name}',
+  'incidentDetail.anonymous': '匿名',
+  'incidentDetail.you': '你',
+  'incidentDetail.directions': '获取路线',
+  'incidentDetail.updates': '动态',
+  'incidentDetail.noUpdates': '暂无动态。看到新情况了吗？告诉其他人吧。',
+  'incidentDetail.replyingTo': '回复 {name}',
+  'incidentDetail.replyPlaceholder': '写回复',
+  'incidentDetail.updatePlaceholder': '例如：警察已到场',
+  'incidentDetail.includeLocation': '附上我的位置',
+  'incidentDetail.post': '发布',
+
+  'incidentDetail.voteFailed': '无法记录你的投票，请重试。',
+  'incidentDetail.isAccurate': '这条信息准确吗？',
+  'incidentDetail.confirmVote': '我可以证实（{count}）',
+  'incidentDetail.falseVote': '这是假的（{count}）',
+  'incidentDetail.voteHintReporter': '附近的其他人可以证实你的报告。',
+  'incidentDetail.voteHint': '事发地点附近的人的投票权重最高。',
+
+  'incidents.filterMinutes': '{count} 分钟',
+  'incidents.filterHours': '{count} 小时',
+  'incidents.loading': '正在加载事件...',
+  'incidents.noReports': '暂无最新报告',
+  'incidents.noReportsMessage': '你所在的区域最近没有报告事件。注意安全！',
+
+  'travelAdvisory.title': '出行提醒',
+  'travelAdvisory.subtitle': '随时了解出行风险',
+  'travelAdvisory.calculateRouteRisk': '计算路线风险',
+  'travelAdvisory.originState': '出发州 *',
+  'travelAdvisory.originCity': '出发城市（可选）',
+  'travelAdvisory.destinationState': '目的地州 *',
+  'travelAdvisory.destinationCity': '目的地城市（可选）',
+  'travelAdvisory.originStatePlaceholder': '例如：拉各斯',
+  'travelAdvisory.originCityPlaceholder': '例如：伊凯贾',
+  'travelAdvisory.destinationStatePlaceholder': '例如：阿布贾',
+  'travelAdvisory.destinationCityPlaceholder': '例如：加尔基',
+  'travelAdvisory.calculateRisk': '计算风险',
+  'travelAdvisory.statesRequired': '请输入出发州和目的地州。',
+  'travelAdvisory.routeRiskFailed': '无法计算路线风险，请重试。',
+  'travelAdvisory.routeRiskTitle': '路线风险评估',
+  'travelAdvisory.riskScore': '风险评分',
+  'travelAdvisory.last24h': '过去 24 小时',
+  'travelAdvisory.last7Days': '过去 7 天',
+  'travelAdvisory.last30Days': '过去 30 天',
+  'travelAdvisory.incidentsNearRoute': '路线 {distance} 范围内的事件',
+  'travelAdvisory.incidentsInAreas': '出发地和目的地区域内的事件',
+  'travelAdvisory.forYourLocation': '你所在位置的提醒',
+  'travelAdvisory.noAdvisories': '没有生效的提醒',
+  'travelAdvisory.locationSafe': '你当前的位置看起来是安全的',
+  'travelAdvisory.affectedAreas': '受影响区域：',
+  'travelAdvisory.source': '来源：{source}',
+  'travelAdvisory.risk.low': '低风险',
+  'travelAdvisory.risk.moderate': '中等风险',
+  'travelAdvisory.risk.high': '高风险',
+  'travelAdvisory.risk.critical': '极高风险',
+  'travelAdvisory.type.security': '安全',
+  'travelAdvisory.type.weather': '天气',
+  'travelAdvisory.type.combined': '综合',
+
+  'checkInSettings.saved': '设置已保存。',
+  'checkInSettings.saveFailed': '无法保存设置，请重试。',
+  'checkInSettings.enable': '启用签到',
+  'checkInSettings.enableDescription': '允许定期安全签到',
+  'checkInSettings.interval': '签到间隔',
+  'checkInSettings.intervalLabel': '间隔（分钟）',
+  'checkInSettings.intervalHint': '你希望多久签到一次（默认：{minutes} 分钟）',
+  'checkInSettings.automatic': '自动签到',
+  'checkInSettings.automaticDescription': '按设定的间隔自动签到',
+  'checkInSettings.duringTravel': '出行时自动签到',
+  'checkInSettings.duringTravelDescription': '出行时自动签到',
+  'checkInSettings.travelDetection': '出行检测',
+  'checkInSettings.speedThreshold': '速度阈值（{unit}）',
+  'checkInSettings.speedThresholdHint': '速度超过此阈值时视为出行（默认：{speed}）',
+  'checkInSettings.missedAlerts': '错过签到提醒',
+  'checkInSettings.alertAfter': '多久后提醒（分钟）',
+  'checkInSettings.alertAfterHint': '签到超过此时长未完成时提醒紧急联系人（默认：{minutes} 分钟）',
+  'checkInSettings.aboutTitle': '关于签到',
+  'checkInSettings.aboutText': '签到可以让你的紧急联系人知道你是安全的。你可以随时手动签到，也可以设置自动签到。',
+  'checkInSettings.aboutMissed': '如果你错过了计划的签到，你的紧急联系人会收到通知。',
+  'checkInSettings.save': '保存设置',
+
+  'profile.loading': '正在加载个人资料...',
+  'profile.circlesSubtext': '谁会收到你的位置和警报',
+  'profile.shareLocationSubtext': '对联系人可见',
+  'profile.communityReportsSubtext': '显示附近的事件',
+  'profile.accountLockSubtext': '解锁 PIN 和联系人审批',
+  'profile.locationAccuracySubtext': '精确 GPS 或大致位置',
+  'profile.locationUpdateFrequencySubtext': '位置更新的频率',
+  'profile.pushNotificationsSubtext': '接收安全警报',
+  'profile.testPushNotificationSubtext': '向此设备发送测试通知',
+  'profile.warning': '警告',
+  'profile.unknownError': '未知错误',
+  'profile.continue': '继续',
+  'profile.physicalDeviceTitle': '需要实体设备',
+  'profile.physicalDeviceMessage': '推送通知仅适用于实体设备，不适用于模拟器。请在真实设备上测试。',
+  'profile.permissionRequired': '需要权限',
+  'profile.permissionDeniedSettings': '推送通知需要通知权限。你之前似乎拒绝了此权限。\n\n请手动开启：\n1. 打开设置\n2. 点按应用 > FamGuard\n3. 点按通知\n4. 开启“显示通知”',
+  'profile.permissionPrompt': '推送通知需要通知权限才能在紧急情况下提醒你。\n\n请在系统提示时授予权限，以接收重要的安全警报。',
+  'profile.pushTokenFailed': '已授予权限，但推送令牌注册失败。通知可能无法使用。请稍后再试。',
+  'profile.permissionNotGranted': '未授予权限',
+  'profile.permissionNotGrantedMessage': '推送通知需要通知权限。请授予权限以开启通知。',
+  'profile.notificationsSaveFailed': '无法保存通知设置。请重试。',
+  'profile.notificationsSaveFailedDetail': '无法保存通知设置：{error}\n\n请重试。',
+  'profile.notificationsEnabled': '推送通知已开启！你将收到紧急警报和安全通知。',
+  'profile.notificationsSavedNoPermission': '通知设置已保存，但未授予权限。请在设备设置中开启通知。',
+  'profile.communityReportsSaveFailed': '无法保存社区报告设置。请重试。',
+  'profile.locationSharingSaveFailed': '无法保存位置共享设置。请重试。',
+  'profile.userNotFound': '未找到用户。请登录后重试。',
+  'profile.testPermissionMessage': '推送通知需要通知权限。请在设置 > 应用 > FamGuard > 通知中开启，或在个人资料中打开推送通知。',
+  'profile.tokenNotFound': '未找到令牌',
+  'profile.tokenNotFoundMessage': '推送通知令牌未注册。请在个人资料中打开推送通知以注册令牌。',
+  'profile.testPushConfirm': '这将向你的设备发送一条测试通知。继续吗？',
+  'profile.sendTest': '发送测试',
+  'profile.testPushSendFailed': '无法发送测试通知：{error}\n\n请查看 Edge Function 日志了解详情。',
+  'profile.testPushSuccessTitle': '✅ 成功！',
+  'profile.testPushSuccess': '测试通知已发送！\n\n请查看设备通知，你应该很快会收到。\n\n已发送：{sent}\n失败：{failed}',
+  'profile.testPushNoneSentTitle': '⚠️ 未发送通知',
+  'profile.testPushNoneSent': '{message}\n\n这通常表示：\n• 数据库中没有找到令牌\n• 令牌已过期或无效\n• 请尝试关闭后重新打开推送通知',
+  'profile.testPushUnknownTitle': '⚠️ 结果未知',
+  'profile.testPushUnknown': '通知请求已完成但未收到确认。请查看设备通知。',
+  'profile.testPushFailed': '无法测试通知：{error}\n\n请重试。',
+  'profile.signOutConfirm': '确定要退出登录吗？',
+  'profile.signOutFailed': '退出登录失败。请重试。',
+  'profile.deleteAccountConfirm': '确定要删除你的账户吗？此操作无法撤销。你的所有数据、联系人和设置都将被永久删除。',
+  'profile.finalConfirmation': '最终确认',
+  'profile.finalConfirmationMessage': '这将永久删除你的账户及所有相关数据。你确定吗？',
+  'profile.confirmDeleteAccount': '是的，删除我的账户',
+  'profile.deleteAccountFailed': '无法删除账户。请重试。',
+  'profile.deleteUrlMissing': '未配置账户删除网址。请联系支持团队。',
+  'profile.deleteViaWebsiteMessage': '你将被转到我们的网站以完成账户删除流程。',
+  'profile.openWebsiteFailed': '无法打开网站。请稍后再试。',
+};
+
+export default zh;
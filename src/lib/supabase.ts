@@ -81,6 +81,9 @@ if (!hasValidUrl || !hasValidKey) {
 const finalUrl = hasValidUrl ? supabaseUrl : 'https://placeholder.supabase.co';
 const finalKey = hasValidKey ? supabaseAnonKey : 'placeholder-key';
 
+// Project URL for endpoints the client doesn't wrap (e.g. resumable Storage uploads)
+export const supabaseProjectUrl = finalUrl;
+
 export const supabase = createClient(finalUrl, finalKey, {
   auth: {
     persistSession: hasValidUrl && hasValidKey,
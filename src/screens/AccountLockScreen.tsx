@@ -0,0 +1,623 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  ActivityIndicator,
+  Alert,
+  TextInput,
+  Keyboard,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import type { AccountLockAction, AccountLockEvent, RootStackParamList } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useUserSettings } from '../context/UserSettingsContext';
+import { accountLockService } from '../services/accountLockService';
+import type { TranslationKey } from '../i18n';
+
+type AccountLockScreenNavigationProp = StackNavigationProp<RootStackParamList, 'AccountLock'>;
+
+interface AccountLockScreenProps {
+  navigation: AccountLockScreenNavigationProp;
+}
+
+const QUORUM_OPTIONS = [1, 2, 3, 4, 5];
+
+const EVENT_LABEL_KEYS: Record<AccountLockAction, TranslationKey> = {
+  locked: 'accountLock.event.locked',
+  unlock_approved: 'accountLock.event.unlockApproved',
+  unlocked: 'accountLock.event.unlocked',
+  pin_failed: 'accountLock.event.pinFailed',
+  pin_set: 'accountLock.event.pinSet',
+  pin_removed: 'accountLock.event.pinRemoved',
+};
+
+const EVENT_ICONS: Record<AccountLockAction, keyof typeof Ionicons.glyphMap> = {
+  locked: 'lock-closed',
+  unlock_approved: 'checkmark-circle-outline',
+  unlocked: 'lock-open',
+  pin_failed: 'close-circle-outline',
+  pin_set: 'keypad-outline',
+  pin_removed: 'trash-outline',
+};
+
+const METHOD_LABEL_KEYS: Record<string, TranslationKey> = {
+  sos: 'accountLock.method.sos',
+  pin: 'accountLock.method.pin',
+  quorum: 'accountLock.method.quorum',
+  admin: 'accountLock.method.admin',
+};
+
+export default function AccountLockScreen({ navigation }: AccountLockScreenProps) {
+  const { user } = useAuth();
+  const { formatTimeAgo, t } = useUserSettings();
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [hasPin, setHasPin] = useState<boolean>(false);
+  const [quorum, setQuorum] = useState<number>(1);
+  const [pin, setPin] = useState<string>('');
+  const [confirmPin, setConfirmPin] = useState<string>('');
+  const [showPinForm, setShowPinForm] = useState<boolean>(false);
+  const [hasDuressPin, setHasDuressPin] = useState<boolean>(false);
+  const [duressPin, setDuressPin] = useState<string>('');
+  const [confirmDuressPin, setConfirmDuressPin] = useState<string>('');
+  const [showDuressPinForm, setShowDuressPinForm] = useState<boolean>(false);
+  const [events, setEvents] = useState<AccountLockEvent[]>([]);
+
+  const loadSettings = useCallback(async (): Promise<void> => {
+    if (!user?.id) return;
+
+    try {
+      setLoading(true);
+      const [status, savedQuorum, lockEvents, duressPinSet] = await Promise.all([
+        accountLockService.getLockStatus(user.id),
+        accountLockService.getUnlockQuorum(user.id),
+        accountLockService.getLockEvents(user.id),
+        accountLockService.hasDuressPin(),
+      ]);
+
+      setHasPin(!!status?.hasPin);
+      setHasDuressPin(duressPinSet);
+      setQuorum(savedQuorum);
+      setEvents(lockEvents);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const handleSavePin = async (): Promise<void> => {
+    if (saving) return;
+
+    if (!/^[0-9]{4,8}$/.test(pin)) {
+      Alert.alert(t('accountLock.invalidPin'), t('accountLock.invalidPinMessage'));
+      return;
+    }
+    if (pin !== confirmPin) {
+      Alert.alert(t('accountLock.pinMismatch'), t('accountLock.pinMismatchMessage'));
+      return;
+    }
+
+    Keyboard.dismiss();
+    setSaving(true);
+    const result = await accountLockService.setPin(pin);
+    setSaving(false);
+
+    if (!result.success) {
+      Alert.alert(t('common.error'), result.message || t('accountLock.savePinFailed'));
+      return;
+    }
+
+    setPin('');
+    setConfirmPin('');
+    setShowPinForm(false);
+    await loadSettings();
+  };
+
+  const handleRemovePin = (): void => {
+    Alert.alert(
+      t('accountLock.removePinTitle'),
+      t('accountLock.removePinMessage'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('accountLock.remove'),
+          style: 'destructive',
+          onPress: async () => {
+            setSaving(true);
+            const success = await accountLockService.removePin();
+            setSaving(false);
+
+            if (!success) {
+              Alert.alert(t('common.error'), t('accountLock.removePinFailed'));
+              return;
+            }
+            await loadSettings();
+          },
+        },
+      ]
+    );
+  };
+
+  const handleSaveDuressPin = async (): Promise<void> => {
+    if (saving) return;
+
+    if (!/^[0-9]{4,8}$/.test(duressPin)) {
+      Alert.alert(t('accountLock.invalidPin'), t('accountLock.invalidDuressPinMessage'));
+      return;
+    }
+    if (duressPin !== confirmDuressPin) {
+      Alert.alert(t('accountLock.pinMismatch'), t('accountLock.pinMismatchMessage'));
+      return;
+    }
+
+    Keyboard.dismiss();
+    setSaving(true);
+    const result = await accountLockService.setDuressPin(duressPin);
+    setSaving(false);
+
+    if (!result.success) {
+      Alert.alert(t('common.error'), result.message || t('accountLock.saveDuressPinFailed'));
+      return;
+    }
+
+    setDuressPin('');
+    setConfirmDuressPin('');
+    setShowDuressPinForm(false);
+    await loadSettings();
+  };
+
+  const handleRemoveDuressPin = (): void => {
+    Alert.alert(t('accountLock.removeDuressPinTitle'), t('accountLock.removeDuressPinMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('accountLock.remove'),
+        style: 'destructive',
+        onPress: async () => {
+          setSaving(true);
+          const success = await accountLockService.removeDuressPin();
+          setSaving(false);
+
+          if (!success) {
+            Alert.alert(t('common.error'), t('accountLock.removeDuressPinFailed'));
+            return;
+          }
+          await loadSettings();
+        },
+      },
+    ]);
+  };
+
+  const handleSelectQuorum = async (value: number): Promise<void> => {
+    if (!user?.id || saving || value === quorum) return;
+
+    const previous = quorum;
+    setQuorum(value);
+    setSaving(true);
+    const success = await accountLockService.setUnlockQuorum(user.id, value);
+    setSaving(false);
+
+    if (!success) {
+      setQuorum(previous);
+      Alert.alert(t('common.error'), t('accountLock.saveQuorumFailed'));
+    }
+  };
+
+  const getEventDescription = (event: AccountLockEvent): string => {
+    const parts: string[] = [];
+    if (event.method && METHOD_LABEL_KEYS[event.method] && event.action !== 'pin_failed') {
+      parts.push(t(METHOD_LABEL_KEYS[event.method]));
+    }
+    if (event.actorName && event.actorId !== user?.id) {
+      parts.push(t('accountLock.byActor', { name: event.actorName }));
+    }
+    return parts.join(' · ');
+  };
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#000000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('profile.accountLock')}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.description}>
+          {t('accountLock.description')}
+        </Text>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#007AFF" />
+            <Text style={styles.loadingText}>{t('common.loadingSettings')}</Text>
+          </View>
+        ) : (
+          <>
+            <Text style={styles.sectionTitle}>{t('accountLock.unlockPin')}</Text>
+            <View style={styles.card}>
+              <View style={styles.row}>
+                <Ionicons name="keypad-outline" size={22} color="#007AFF" />
+                <View style={styles.rowText}>
+                  <Text style={styles.rowTitle}>{hasPin ? t('accountLock.pinSet') : t('accountLock.noPin')}</Text>
+                  <Text style={styles.rowSubtitle}>
+                    {t('accountLock.pinDescription')}
+                  </Text>
+                </View>
+              </View>
+
+              {showPinForm ? (
+                <View style={styles.pinForm}>
+                  <TextInput
+                    style={styles.pinInput}
+                    value={pin}
+                    onChangeText={(text) => setPin(text.replace(/[^0-9]/g, ''))}
+                    placeholder={t('accountLock.newPinPlaceholder')}
+                    placeholderTextColor="#8E8E93"
+                    keyboardType="number-pad"
+                    secureTextEntry
+                    maxLength={8}
+                  />
+                  <TextInput
+                    style={styles.pinInput}
+                    value={confirmPin}
+                    onChangeText={(text) => setConfirmPin(text.replace(/[^0-9]/g, ''))}
+                    placeholder={t('accountLock.confirmPinPlaceholder')}
+                    placeholderTextColor="#8E8E93"
+                    keyboardType="number-pad"
+                    secureTextEntry
+                    maxLength={8}
+                  />
+                  <View style={styles.buttonRow}>
+                    <TouchableOpacity
+                      style={styles.secondaryButton}
+                      onPress={() => {
+                        setShowPinForm(false);
+                        setPin('');
+                        setConfirmPin('');
+                      }}
+                      disabled={saving}
+                    >
+                      <Text style={styles.secondaryButtonText}>{t('common.cancel')}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.primaryButton} onPress={handleSavePin} disabled={saving}>
+                      {saving ? (
+                        <ActivityIndicator size="small" color="#FFFFFF" />
+                      ) : (
+                        <Text style={styles.primaryButtonText}>{t('accountLock.savePin')}</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ) : (
+                <View style={styles.buttonRow}>
+                  {hasPin && (
+                    <TouchableOpacity style={styles.secondaryButton} onPress={handleRemovePin} disabled={saving}>
+                      <Text style={[styles.secondaryButtonText, styles.destructiveText]}>{t('accountLock.remove')}</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity style={styles.primaryButton} onPress={() => setShowPinForm(true)} disabled={saving}>
+                    <Text style={styles.primaryButtonText}>{hasPin ? t('accountLock.changePin') : t('accountLock.setPin')}</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+
+            <Text style={styles.sectionTitle}>{t('accountLock.silentSos')}</Text>
+            <View style={styles.card}>
+              <View style={styles.row}>
+                <Ionicons name="eye-off-outline" size={22} color="#007AFF" />
+                <View style={styles.rowText}>
+                  <Text style={styles.rowTitle}>{hasDuressPin ? t('accountLock.duressPinSet') : t('accountLock.noDuressPin')}</Text>
+                  <Text style={styles.rowSubtitle}>
+                    {t('accountLock.duressDescription')}
+                  </Text>
+                </View>
+              </View>
+              <View style={styles.row}>
+                <Ionicons name="hand-left-outline" size={22} color="#007AFF" />
+                <View style={styles.rowText}>
+                  <Text style={styles.rowSubtitle}>
+                    {t('accountLock.holdDescription')}
+                  </Text>
+                </View>
+              </View>
+
+              {!hasPin ? (
+                <Text style={styles.rowSubtitle}>{t('accountLock.setPinFirst')}</Text>
+              ) : showDuressPinForm ? (
+                <View style={styles.pinForm}>
+                  <TextInput
+                    style={styles.pinInput}
+                    value={duressPin}
+                    onChangeText={(text) => setDuressPin(text.replace(/[^0-9]/g, ''))}
+                    placeholder={t('accountLock.duressPinPlaceholder')}
+                    placeholderTextColor="#8E8E93"
+                    keyboardType="number-pad"
+                    secureTextEntry
+                    maxLength={8}
+                  />
+                  <TextInput
+                    style={styles.pinInput}
+                    value={confirmDuressPin}
+                    onChangeText={(text) => setConfirmDuressPin(text.replace(/[^0-9]/g, ''))}
+                    placeholder={t('accountLock.confirmDuressPinPlaceholder')}
+                    placeholderTextColor="#8E8E93"
+                    keyboardType="number-pad"
+                    secureTextEntry
+                    maxLength={8}
+                  />
+                  <View style={styles.buttonRow}>
+                    <TouchableOpacity
+                      style={styles.secondaryButton}
+                      onPress={() => {
+                        setShowDuressPinForm(false);
+                        setDuressPin('');
+                        setConfirmDuressPin('');
+                      }}
+                      disabled={saving}
+                    >
+                      <Text style={styles.secondaryButtonText}>{t('common.cancel')}</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={styles.primaryButton} onPress={handleSaveDuressPin} disabled={saving}>
+                      {saving ? (
+                        <ActivityIndicator size="small" color="#FFFFFF" />
+                      ) : (
+                        <Text style={styles.primaryButtonText}>{t('accountLock.savePin')}</Text>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ) : (
+                <View style={styles.buttonRow}>
+                  {hasDuressPin && (
+                    <TouchableOpacity style={styles.secondaryButton} onPress={handleRemoveDuressPin} disabled={saving}>
+                      <Text style={[styles.secondaryButtonText, styles.destructiveText]}>{t('accountLock.remove')}</Text>
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    style={styles.primaryButton}
+                    onPress={() => setShowDuressPinForm(true)}
+                    disabled={saving}
+                  >
+                    <Text style={styles.primaryButtonText}>{hasDuressPin ? t('accountLock.changeDuressPin') : t('accountLock.setDuressPin')}</Text>
+                  </TouchableOpacity>
+                </View>
+              )}
+            </View>
+
+            <Text style={styles.sectionTitle}>{t('accountLock.approvals')}</Text>
+            <View style={styles.card}>
+              <Text style={styles.rowSubtitle}>
+                {t('accountLock.approvalsDescription')}
+              </Text>
+              <View style={styles.quorumRow}>
+                {QUORUM_OPTIONS.map((value) => (
+                  <TouchableOpacity
+                    key={value}
+                    style={[styles.quorumChip, quorum === value && styles.quorumChipSelected]}
+                    onPress={() => handleSelectQuorum(value)}
+                    disabled={saving}
+                  >
+                    <Text style={[styles.quorumChipText, quorum === value && styles.quorumChipTextSelected]}>
+                      {value}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+            </View>
+
+            <Text style={styles.sectionTitle}>{t('accountLock.history')}</Text>
+            <View style={styles.card}>
+              {events.length === 0 ? (
+                <Text style={styles.rowSubtitle}>{t('accountLock.noHistory')}</Text>
+              ) : (
+                events.map((event) => {
+                  const description = getEventDescription(event);
+                  return (
+                    <View key={event.id} style={styles.eventRow}>
+                      <Ionicons name={EVENT_ICONS[event.action] || 'ellipse-outline'} size={18} color="#8E8E93" />
+                      <View style={styles.rowText}>
+                        <Text style={styles.eventTitle}>{EVENT_LABEL_KEYS[event.action] ? t(EVENT_LABEL_KEYS[event.action]) : event.action}</Text>
+                        {description ? <Text style={styles.eventSubtitle}>{description}</Text> : null}
+                      </View>
+                      <Text style={styles.eventTime}>{formatTimeAgo(event.createdAt)}</Text>
+                    </View>
+                  );
+                })
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  placeholder: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  description: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 24,
+    lineHeight: 20,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  card: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    backgroundColor: '#F9F9F9',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  rowText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 4,
+  },
+  rowSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    lineHeight: 20,
+  },
+  pinForm: {
+    marginTop: 16,
+    gap: 10,
+  },
+  pinInput: {
+    height: 44,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    fontSize: 16,
+    backgroundColor: '#FFFFFF',
+    color: '#000000',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 10,
+    marginTop: 16,
+  },
+  primaryButton: {
+    minWidth: 110,
+    height: 40,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  secondaryButton: {
+    height: 40,
+    paddingHorizontal: 16,
+    borderRadius: 10,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    backgroundColor: '#FFFFFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  secondaryButtonText: {
+    color: '#000000',
+    fontSize: 15,
+    fontWeight: '500',
+  },
+  destructiveText: {
+    color: '#FF3B30',
+  },
+  quorumRow: {
+    flexDirection: 'row',
+    gap: 10,
+    marginTop: 12,
+  },
+  quorumChip: {
+    width: 44,
+    height: 44,
+    borderRadius: 22,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    backgroundColor: '#FFFFFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  quorumChipSelected: {
+    borderColor: '#007AFF',
+    backgroundColor: '#007AFF',
+  },
+  quorumChipText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  quorumChipTextSelected: {
+    color: '#FFFFFF',
+  },
+  eventRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  eventTitle: {
+    fontSize: 15,
+    color: '#000000',
+  },
+  eventSubtitle: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  eventTime: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginLeft: 8,
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 16,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+});
@@ -14,7 +14,23 @@ import { Ionicons } from '@expo/vector-icons';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import type { RootStackParamList } from '../types';
 import { useAuth } from '../context/AuthContext';
+import { useUserSettings } from '../context/UserSettingsContext';
 import { supabase } from '../lib/supabase';
+import { locationService } from '../services/locationService';
+import {
+  BATTERY_PROFILE_DETAILS,
+  BATTERY_POLICY_REASON_KEYS,
+  LOW_BATTERY_THRESHOLD,
+  CRITICAL_BATTERY_THRESHOLD,
+} from '../utils/batteryPolicy';
+import type { TrackingPolicy, BatteryProfile } from '../utils/batteryPolicy';
+
+const PROFILE_COLORS: Record<BatteryProfile, string> = {
+  normal: '#34C759',
+  balanced: '#007AFF',
+  saver: '#FF9500',
+  critical: '#FF3B30',
+};
 
 type BatterySavingScreenNavigationProp = StackNavigationProp<RootStackParamList, 'BatterySaving'>;
 
@@ -24,11 +40,13 @@ interface BatterySavingScreenProps {
 
 export default function BatterySavingScreen({ navigation }: BatterySavingScreenProps) {
   const { user } = useAuth();
+  const { t } = useUserSettings();
   const [enabled, setEnabled] = useState(false);
   const [reduceLocationUpdates, setReduceLocationUpdates] = useState(false);
   const [reduceBackgroundSync, setReduceBackgroundSync] = useState(false);
   const [loading, setLoading] = useState<boolean>(true);
   const [saving, setSaving] = useState<boolean>(false);
+  const [trackingPolicy, setTrackingPolicy] = useState<TrackingPolicy>(locationService.getTrackingPolicy());
   const realtimeChannelRef = useRef<any>(null);
 
   useEffect(() => {
@@ -74,6 +92,7 @@ export default function BatterySavingScreen({ navigation }: BatterySavingScreenP
             if (newData.battery_saving_mode !== undefined) setEnabled(newData.battery_saving_mode);
             if (newData.battery_saving_reduce_location_updates !== undefined) setReduceLocationUpdates(newData.battery_saving_reduce_location_updates);
             if (newData.battery_saving_reduce_background_sync !== undefined) setReduceBackgroundSync(newData.battery_saving_reduce_background_sync);
+            refreshTrackingPolicy();
           }
         }
       )
@@ -82,6 +101,12 @@ export default function BatterySavingScreen({ navigation }: BatterySavingScreenP
     realtimeChannelRef.current = channel;
   };
 
+  const refreshTrackingPolicy = async (): Promise<void> => {
+    if (!user?.id) return;
+    const policy = await locationService.refreshBatterySavingSettings(user.id);
+    setTrackingPolicy(policy);
+  };
+
   const loadBatterySavingSettings = async () => {
     if (!user?.id) return;
 
@@ -105,6 +130,7 @@ export default function BatterySavingScreen({ navigation }: BatterySavingScreenP
         setReduceLocationUpdates(data.battery_saving_reduce_location_updates ?? false);
         setReduceBackgroundSync(data.battery_saving_reduce_background_sync ?? false);
       }
+      await refreshTrackingPolicy();
     } catch (error) {
       console.error('Error loading battery saving settings:', error);
     } finally {
@@ -155,12 +181,15 @@ export default function BatterySavingScreen({ navigation }: BatterySavingScreenP
 
       if (error) {
         console.error('Error saving battery saving settings:', error);
-        Alert.alert('Error', 'Failed to save battery saving settings. Please try again.');
+        Alert.alert(t('common.error'), t('batterySaving.saveFailed'));
         await loadBatterySavingSettings();
+      } else {
+        // Apply the new tracking profile immediately
+        await refreshTrackingPolicy();
       }
     } catch (error) {
       console.error('Error saving battery saving settings:', error);
-      Alert.alert('Error', 'Failed to save battery saving settings. Please try again.');
+      Alert.alert(t('common.error'), t('batterySaving.saveFailed'));
       await loadBatterySavingSettings();
     } finally {
       setSaving(false);
@@ -173,27 +202,52 @@ export default function BatterySavingScreen({ navigation }: BatterySavingScreenP
         <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
           <Ionicons name="arrow-back" size={24} color="#000000" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Battery Saving Mode</Text>
+        <Text style={styles.headerTitle}>{t('profile.batterySaving')}</Text>
         <View style={styles.placeholder} />
       </View>
 
       <ScrollView style={styles.content}>
         <Text style={styles.description}>
-          Optimize app performance to conserve battery life. Some features may be limited.
+          {t('batterySaving.description')}
         </Text>
 
         {loading ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color="#007AFF" />
-            <Text style={styles.loadingText}>Loading settings...</Text>
+            <Text style={styles.loadingText}>{t('common.loadingSettings')}</Text>
           </View>
         ) : (
           <>
+            <View style={[styles.profileCard, { borderColor: PROFILE_COLORS[trackingPolicy.profile] }]}>
+              <View style={styles.profileHeader}>
+                <Ionicons
+                  name={trackingPolicy.profile === 'critical' ? 'battery-dead' : trackingPolicy.profile === 'normal' ? 'battery-full' : 'battery-half'}
+                  size={22}
+                  color={PROFILE_COLORS[trackingPolicy.profile]}
+                />
+                <Text style={styles.profileLabel}>
+                  {t('batterySaving.activeProfile', { profile: t(BATTERY_PROFILE_DETAILS[trackingPolicy.profile].labelKey) })}
+                </Text>
+              </View>
+              <Text style={styles.profileDescription}>{t(BATTERY_PROFILE_DETAILS[trackingPolicy.profile].descriptionKey)}</Text>
+              <Text style={styles.profileReason}>
+                {t('batterySaving.batteryLevel', {
+                  reason: t(BATTERY_POLICY_REASON_KEYS[trackingPolicy.reason], {
+                    threshold: trackingPolicy.reason === 'critical_battery' ? CRITICAL_BATTERY_THRESHOLD : LOW_BATTERY_THRESHOLD,
+                  }),
+                  level: trackingPolicy.batteryLevel,
+                })}
+              </Text>
+              <Text style={styles.profileNote}>
+                {t('batterySaving.autoNote', { threshold: LOW_BATTERY_THRESHOLD })}
+              </Text>
+            </View>
+
             <View style={styles.section}>
               <View style={styles.settingRow}>
                 <View style={styles.settingContent}>
-                  <Text style={styles.settingTitle}>Enable Battery Saving</Text>
-                  <Text style={styles.settingSubtitle}>Reduce background activity</Text>
+                  <Text style={styles.settingTitle}>{t('batterySaving.enable')}</Text>
+                  <Text style={styles.settingSubtitle}>{t('batterySaving.enableSubtitle')}</Text>
                 </View>
                 {saving ? (
                   <ActivityIndicator size="small" color="#007AFF" />
@@ -214,8 +268,8 @@ export default function BatterySavingScreen({ navigation }: BatterySavingScreenP
                 <View style={styles.section}>
                   <View style={styles.settingRow}>
                     <View style={styles.settingContent}>
-                      <Text style={styles.settingTitle}>Reduce Location Updates</Text>
-                      <Text style={styles.settingSubtitle}>Update location less frequently</Text>
+                      <Text style={styles.settingTitle}>{t('batterySaving.reduceLocation')}</Text>
+                      <Text style={styles.settingSubtitle}>{t('batterySaving.reduceLocationSubtitle')}</Text>
                     </View>
                     {saving ? (
                       <ActivityIndicator size="small" color="#007AFF" />
@@ -234,8 +288,8 @@ export default function BatterySavingScreen({ navigation }: BatterySavingScreenP
                 <View style={styles.section}>
                   <View style={styles.settingRow}>
                     <View style={styles.settingContent}>
-                      <Text style={styles.settingTitle}>Reduce Background Sync</Text>
-                      <Text style={styles.settingSubtitle}>Sync data less frequently</Text>
+                      <Text style={styles.settingTitle}>{t('batterySaving.reduceSync')}</Text>
+                      <Text style={styles.settingSubtitle}>{t('batterySaving.reduceSyncSubtitle')}</Text>
                     </View>
                     {saving ? (
                       <ActivityIndicator size="small" color="#007AFF" />
@@ -327,4 +381,38 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#8E8E93',
   },
+  profileCard: {
+    borderWidth: 1,
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 24,
+    backgroundColor: '#F9F9F9',
+  },
+  profileHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  profileLabel: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  profileDescription: {
+    fontSize: 14,
+    color: '#3C3C43',
+    lineHeight: 20,
+    marginBottom: 8,
+  },
+  profileReason: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginBottom: 4,
+  },
+  profileNote: {
+    fontSize: 12,
+    color: '#8E8E93',
+    fontStyle: 'italic',
+  },
 });
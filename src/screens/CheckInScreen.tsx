@@ -14,16 +14,26 @@ import { Ionicons } from '@expo/vector-icons';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import { useCheckIn } from '../context/CheckInContext';
 import { useAuth } from '../context/AuthContext';
+import { useUserSettings } from '../context/UserSettingsContext';
+import type { TranslationKey } from '../i18n';
 import type { RootStackParamList, UserCheckIn } from '../types';
 
 type CheckInScreenNavigationProp = StackNavigationProp<RootStackParamList, 'CheckIn'>;
 
+const STATUS_LABEL_KEYS: Record<UserCheckIn['status'], TranslationKey> = {
+  safe: 'checkIn.status.safe',
+  unsafe: 'checkIn.status.unsafe',
+  delayed: 'checkIn.status.delayed',
+  missed: 'checkIn.status.missed',
+};
+
 interface CheckInScreenProps {
   navigation: CheckInScreenNavigationProp;
 }
 
 export default function CheckInScreen({ navigation }: CheckInScreenProps) {
   const { settings, lastCheckIn, recentCheckIns, loading, checkIn, refreshCheckIns } = useCheckIn();
+  const { formatTimeAgo, t } = useUserSettings();
   const { user } = useAuth();
   const [checkingIn, setCheckingIn] = useState<boolean>(false);
 
@@ -42,14 +52,14 @@ export default function CheckInScreen({ navigation }: CheckInScreenProps) {
         });
         
         // Show success immediately without waiting for refresh
-        Alert.alert('✅ Check-in Successful', 'Your safety status has been updated.', [
-          { text: 'OK' },
+        Alert.alert(t('checkIn.successTitle'), t('checkIn.successMessage'), [
+          { text: t('common.ok') },
         ]);
       } else {
-        Alert.alert('Error', 'Failed to check in. Please try again.');
+        Alert.alert(t('common.error'), t('checkIn.failed'));
       }
     } catch (error) {
-      Alert.alert('Error', 'An error occurred. Please try again.');
+      Alert.alert(t('common.error'), t('common.tryAgain'));
     } finally {
       setCheckingIn(false);
     }
@@ -76,19 +86,6 @@ export default function CheckInScreen({ navigation }: CheckInScreenProps) {
     return icons[status] || 'help-circle';
   };
 
-  const formatTimeAgo = (timestamp: string): string => {
-    const now = new Date();
-    const time = new Date(timestamp);
-    const diff = Math.floor((now.getTime() - time.getTime()) / 1000 / 60);
-    
-    if (diff < 1) return 'Just now';
-    if (diff < 60) return `${diff} min ago`;
-    const hours = Math.floor(diff / 60);
-    if (hours < 24) return `${hours} hr ago`;
-    const days = Math.floor(hours / 24);
-    return `${days} day${days > 1 ? 's' : ''} ago`;
-  };
-
 
   return (
     <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
@@ -102,8 +99,8 @@ export default function CheckInScreen({ navigation }: CheckInScreenProps) {
           <Ionicons name="arrow-back" size={24} color="#111827" />
         </TouchableOpacity>
         <View style={styles.headerContent}>
-          <Text style={styles.headerTitle}>Safety Check-in</Text>
-          <Text style={styles.headerSubtitle}>Let your contacts know you're safe</Text>
+          <Text style={styles.headerTitle}>{t('checkIn.title')}</Text>
+          <Text style={styles.headerSubtitle}>{t('checkIn.subtitle')}</Text>
         </View>
         <TouchableOpacity
           onPress={() => navigation.navigate('CheckInSettings')}
@@ -117,7 +114,7 @@ export default function CheckInScreen({ navigation }: CheckInScreenProps) {
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
         {/* Quick Check-in Buttons */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Quick Check-in</Text>
+          <Text style={styles.sectionTitle}>{t('checkIn.quickCheckIn')}</Text>
           <View style={styles.quickActions}>
             <TouchableOpacity
               style={[styles.quickButton, styles.safeButton]}
@@ -127,7 +124,7 @@ export default function CheckInScreen({ navigation }: CheckInScreenProps) {
             >
               <View style={styles.quickButtonContent}>
                 <Ionicons name="checkmark-circle" size={32} color="#FFFFFF" />
-                <Text style={styles.quickButtonText}>I'm Safe</Text>
+                <Text style={styles.quickButtonText}>{t('checkIn.imSafe')}</Text>
               </View>
             </TouchableOpacity>
 
@@ -139,7 +136,7 @@ export default function CheckInScreen({ navigation }: CheckInScreenProps) {
             >
               <View style={styles.quickButtonContent}>
                 <Ionicons name="time" size={32} color="#FFFFFF" />
-                <Text style={styles.quickButtonText}>Delayed</Text>
+                <Text style={styles.quickButtonText}>{t('checkIn.delayed')}</Text>
               </View>
             </TouchableOpacity>
           </View>
@@ -148,21 +145,21 @@ export default function CheckInScreen({ navigation }: CheckInScreenProps) {
         {checkingIn && (
           <View style={styles.loadingOverlay}>
             <ActivityIndicator size="large" color="#007AFF" />
-            <Text style={styles.loadingText}>Checking in...</Text>
+            <Text style={styles.loadingText}>{t('checkIn.checkingIn')}</Text>
           </View>
         )}
 
         {/* Last Check-in Status */}
         {lastCheckIn && (
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Last Check-in</Text>
+            <Text style={styles.sectionTitle}>{t('checkIn.lastCheckIn')}</Text>
             <View style={styles.statusCard}>
               <View style={styles.statusHeader}>
                 <View style={[styles.statusIndicator, { backgroundColor: getStatusColor(lastCheckIn.status) }]}>
                   <Ionicons name={getStatusIcon(lastCheckIn.status)} size={20} color="#FFFFFF" />
                 </View>
                 <View style={styles.statusInfo}>
-                  <Text style={styles.statusText}>{lastCheckIn.status.toUpperCase()}</Text>
+                  <Text style={styles.statusText}>{t(STATUS_LABEL_KEYS[lastCheckIn.status])}</Text>
                   <Text style={styles.statusTime}>{formatTimeAgo(lastCheckIn.createdAt)}</Text>
                 </View>
               </View>
@@ -184,13 +181,13 @@ export default function CheckInScreen({ navigation }: CheckInScreenProps) {
         {/* Recent Check-ins */}
         {recentCheckIns.length > 0 && (
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Recent Check-ins</Text>
+            <Text style={styles.sectionTitle}>{t('checkIn.recentCheckIns')}</Text>
             {recentCheckIns.map((checkIn) => (
               <View key={checkIn.id} style={styles.recentCheckInCard}>
                 <View style={styles.recentCheckInHeader}>
                   <View style={[styles.recentStatusDot, { backgroundColor: getStatusColor(checkIn.status) }]} />
                   <View style={styles.recentCheckInInfo}>
-                    <Text style={styles.recentStatusText}>{checkIn.status.toUpperCase()}</Text>
+                    <Text style={styles.recentStatusText}>{t(STATUS_LABEL_KEYS[checkIn.status])}</Text>
                     <Text style={styles.recentTimeText}>{formatTimeAgo(checkIn.createdAt)}</Text>
                   </View>
                   {checkIn.isEmergency && (
@@ -213,16 +210,16 @@ export default function CheckInScreen({ navigation }: CheckInScreenProps) {
             <View style={styles.infoCard}>
               <Ionicons name="information-circle" size={20} color="#007AFF" />
               <View style={styles.infoContent}>
-                <Text style={styles.infoTitle}>Check-in Settings</Text>
+                <Text style={styles.infoTitle}>{t('checkIn.settingsTitle')}</Text>
                 <Text style={styles.infoText}>
-                  Automatic check-ins: {settings.autoCheckInEnabled ? 'Enabled' : 'Disabled'}
+                  {t(settings.autoCheckInEnabled ? 'checkIn.autoCheckInsEnabled' : 'checkIn.autoCheckInsDisabled')}
                 </Text>
                 <Text style={styles.infoText}>
-                  Interval: Every {settings.checkInIntervalMinutes} minutes
+                  {t('checkIn.interval', { minutes: settings.checkInIntervalMinutes })}
                 </Text>
                 {settings.emergencyContacts.length > 0 && (
                   <Text style={styles.infoText}>
-                    Emergency contacts: {settings.emergencyContacts.length}
+                    {t('checkIn.emergencyContacts', { count: settings.emergencyContacts.length })}
                   </Text>
                 )}
               </View>
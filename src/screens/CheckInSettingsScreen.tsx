@@ -15,6 +15,8 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import { useCheckIn } from '../context/CheckInContext';
+import { useUserSettings } from '../context/UserSettingsContext';
+import { kmhToDisplaySpeed, displaySpeedToKmh } from '../utils/units';
 import type { RootStackParamList, CheckInSettings } from '../types';
 
 type CheckInSettingsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'CheckInSettings'>;
@@ -27,6 +29,18 @@ export default function CheckInSettingsScreen({ navigation }: CheckInSettingsScr
   const { settings, loading, updateSettings, loadSettings } = useCheckIn();
   const [localSettings, setLocalSettings] = useState<Partial<CheckInSettings>>({});
   const [saving, setSaving] = useState<boolean>(false);
+  // Raw speed text while typing, so partial decimals like "12." aren't reformatted
+  const [speedThresholdText, setSpeedThresholdText] = useState<string>('');
+  const { unitSystem, speedUnit, formatSpeed, t } = useUserSettings();
+
+  const formatSpeedInput = (kmh: number): string =>
+    (Math.round(kmhToDisplaySpeed(kmh, unitSystem) * 10) / 10).toString();
+
+  // Speed threshold in km/h (always stored in km/h), or null if the text isn't a valid speed
+  const parseSpeedInput = (text: string): number | null => {
+    const value = parseFloat(text);
+    return !isNaN(value) && value >= 0 ? displaySpeedToKmh(value, unitSystem) : null;
+  };
 
   useEffect(() => {
     if (settings) {
@@ -38,21 +52,37 @@ export default function CheckInSettingsScreen({ navigation }: CheckInSettingsScr
         travelSpeedThresholdKmh: settings.travelSpeedThresholdKmh,
         missedCheckInAlertMinutes: settings.missedCheckInAlertMinutes,
       });
+      setSpeedThresholdText(formatSpeedInput(settings.travelSpeedThresholdKmh ?? 20));
     }
   }, [settings]);
 
+  const handleSpeedThresholdBlur = (): void => {
+    const kmh = parseSpeedInput(speedThresholdText);
+    if (kmh === null) {
+      setSpeedThresholdText(formatSpeedInput(localSettings.travelSpeedThresholdKmh ?? 20));
+      return;
+    }
+    setLocalSettings({ ...localSettings, travelSpeedThresholdKmh: kmh });
+    setSpeedThresholdText(formatSpeedInput(kmh));
+  };
+
   const handleSave = async (): Promise<void> => {
     try {
       setSaving(true);
-      const success = await updateSettings(localSettings);
+      const speedThresholdKmh = parseSpeedInput(speedThresholdText);
+      const success = await updateSettings(
+        speedThresholdKmh === null
+          ? localSettings
+          : { ...localSettings, travelSpeedThresholdKmh: speedThresholdKmh }
+      );
       if (success) {
-        Alert.alert('Success', 'Settings saved successfully.');
+        Alert.alert(t('common.success'), t('checkInSettings.saved'));
         navigation.goBack();
       } else {
-        Alert.alert('Error', 'Failed to save settings. Please try again.');
+        Alert.alert(t('common.error'), t('checkInSettings.saveFailed'));
       }
     } catch (error) {
-      Alert.alert('Error', 'An error occurred. Please try again.');
+      Alert.alert(t('common.error'), t('common.tryAgain'));
     } finally {
       setSaving(false);
     }
@@ -79,7 +109,7 @@ export default function CheckInSettingsScreen({ navigation }: CheckInSettingsScr
         >
           <Ionicons name="arrow-back" size={24} color="#111827" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Check-in Settings</Text>
+        <Text style={styles.headerTitle}>{t('checkIn.settingsTitle')}</Text>
         <View style={styles.placeholder} />
       </View>
 
@@ -88,9 +118,9 @@ export default function CheckInSettingsScreen({ navigation }: CheckInSettingsScr
         <View style={styles.section}>
           <View style={styles.settingRow}>
             <View style={styles.settingInfo}>
-              <Text style={styles.settingTitle}>Enable Check-ins</Text>
+              <Text style={styles.settingTitle}>{t('checkInSettings.enable')}</Text>
               <Text style={styles.settingDescription}>
-                Allow periodic safety check-ins
+                {t('checkInSettings.enableDescription')}
               </Text>
             </View>
             <Switch
@@ -104,9 +134,9 @@ export default function CheckInSettingsScreen({ navigation }: CheckInSettingsScr
 
         {/* Check-in Interval */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Check-in Interval</Text>
+          <Text style={styles.sectionTitle}>{t('checkInSettings.interval')}</Text>
           <View style={styles.inputGroup}>
-            <Text style={styles.inputLabel}>Interval (minutes)</Text>
+            <Text style={styles.inputLabel}>{t('checkInSettings.intervalLabel')}</Text>
             <TextInput
               style={styles.input}
               value={localSettings.checkInIntervalMinutes?.toString() || '60'}
@@ -120,7 +150,7 @@ export default function CheckInSettingsScreen({ navigation }: CheckInSettingsScr
               placeholderTextColor="#9CA3AF"
             />
             <Text style={styles.inputHint}>
-              How often you want to check in (default: 60 minutes)
+              {t('checkInSettings.intervalHint', { minutes: 60 })}
             </Text>
           </View>
         </View>
@@ -129,9 +159,9 @@ export default function CheckInSettingsScreen({ navigation }: CheckInSettingsScr
         <View style={styles.section}>
           <View style={styles.settingRow}>
             <View style={styles.settingInfo}>
-              <Text style={styles.settingTitle}>Automatic Check-ins</Text>
+              <Text style={styles.settingTitle}>{t('checkInSettings.automatic')}</Text>
               <Text style={styles.settingDescription}>
-                Automatically check in at scheduled intervals
+                {t('checkInSettings.automaticDescription')}
               </Text>
             </View>
             <Switch
@@ -149,9 +179,9 @@ export default function CheckInSettingsScreen({ navigation }: CheckInSettingsScr
         <View style={styles.section}>
           <View style={styles.settingRow}>
             <View style={styles.settingInfo}>
-              <Text style={styles.settingTitle}>Auto Check-in During Travel</Text>
+              <Text style={styles.settingTitle}>{t('checkInSettings.duringTravel')}</Text>
               <Text style={styles.settingDescription}>
-                Automatically check in when traveling
+                {t('checkInSettings.duringTravelDescription')}
               </Text>
             </View>
             <Switch
@@ -168,23 +198,19 @@ export default function CheckInSettingsScreen({ navigation }: CheckInSettingsScr
         {/* Travel Speed Threshold */}
         {localSettings.autoCheckInDuringTravel && (
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Travel Detection</Text>
+            <Text style={styles.sectionTitle}>{t('checkInSettings.travelDetection')}</Text>
             <View style={styles.inputGroup}>
-              <Text style={styles.inputLabel}>Speed Threshold (km/h)</Text>
+              <Text style={styles.inputLabel}>{t('checkInSettings.speedThreshold', { unit: speedUnit })}</Text>
               <TextInput
                 style={styles.input}
-                value={localSettings.travelSpeedThresholdKmh?.toString() || '20'}
-                onChangeText={(text) => {
-                  const value = parseFloat(text);
-                  if (!isNaN(value) && value >= 0) {
-                    setLocalSettings({ ...localSettings, travelSpeedThresholdKmh: value });
-                  }
-                }}
+                value={speedThresholdText}
+                onChangeText={setSpeedThresholdText}
+                onBlur={handleSpeedThresholdBlur}
                 keyboardType="decimal-pad"
                 placeholderTextColor="#9CA3AF"
               />
               <Text style={styles.inputHint}>
-                Consider traveling if speed exceeds this threshold (default: 20 km/h)
+                {t('checkInSettings.speedThresholdHint', { speed: formatSpeed(20) })}
               </Text>
             </View>
           </View>
@@ -192,9 +218,9 @@ export default function CheckInSettingsScreen({ navigation }: CheckInSettingsScr
 
         {/* Missed Check-in Alert */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Missed Check-in Alerts</Text>
+          <Text style={styles.sectionTitle}>{t('checkInSettings.missedAlerts')}</Text>
           <View style={styles.inputGroup}>
-            <Text style={styles.inputLabel}>Alert After (minutes)</Text>
+            <Text style={styles.inputLabel}>{t('checkInSettings.alertAfter')}</Text>
             <TextInput
               style={styles.input}
               value={localSettings.missedCheckInAlertMinutes?.toString() || '30'}
@@ -208,7 +234,7 @@ export default function CheckInSettingsScreen({ navigation }: CheckInSettingsScr
               placeholderTextColor="#9CA3AF"
             />
             <Text style={styles.inputHint}>
-              Alert emergency contacts if check-in is missed by this duration (default: 30 minutes)
+              {t('checkInSettings.alertAfterHint', { minutes: 30 })}
             </Text>
           </View>
         </View>
@@ -218,14 +244,9 @@ export default function CheckInSettingsScreen({ navigation }: CheckInSettingsScr
           <View style={styles.infoCard}>
             <Ionicons name="information-circle" size={20} color="#007AFF" />
             <View style={styles.infoContent}>
-              <Text style={styles.infoTitle}>About Check-ins</Text>
-              <Text style={styles.infoText}>
-                Check-ins help your emergency contacts know you're safe. You can manually check in
-                anytime or set up automatic check-ins.
-              </Text>
-              <Text style={styles.infoText}>
-                If you miss a scheduled check-in, your emergency contacts will be notified.
-              </Text>
+              <Text style={styles.infoTitle}>{t('checkInSettings.aboutTitle')}</Text>
+              <Text style={styles.infoText}>{t('checkInSettings.aboutText')}</Text>
+              <Text style={styles.infoText}>{t('checkInSettings.aboutMissed')}</Text>
             </View>
           </View>
         </View>
@@ -244,7 +265,7 @@ export default function CheckInSettingsScreen({ navigation }: CheckInSettingsScr
           ) : (
             <>
               <Ionicons name="checkmark" size={20} color="#FFFFFF" />
-              <Text style={styles.saveButtonText}>Save Settings</Text>
+              <Text style={styles.saveButtonText}>{t('checkInSettings.save')}</Text>
             </>
           )}
         </TouchableOpacity>
@@ -0,0 +1,606 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  Switch,
+  ActivityIndicator,
+  Alert,
+  Keyboard,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import type { Circle, CircleMember, CircleRole, RootStackParamList } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useConnection } from '../context/ConnectionContext';
+import { useUserSettings } from '../context/UserSettingsContext';
+import { circleService } from '../services/circleService';
+import type { CircleInput } from '../services/circleService';
+import type { TranslationKey } from '../i18n';
+
+type CirclesScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Circles'>;
+
+interface CirclesScreenProps {
+  navigation: CirclesScreenNavigationProp;
+}
+
+type CircleSetting = Exclude<keyof CircleInput, 'name'>;
+
+const CIRCLE_SETTINGS: { key: CircleSetting; titleKey: TranslationKey; subtitleKey: TranslationKey }[] = [
+  { key: 'shareLocation', titleKey: 'circles.setting.shareLocation', subtitleKey: 'circles.setting.shareLocationSubtitle' },
+  { key: 'sosAlerts', titleKey: 'circles.setting.sosAlerts', subtitleKey: 'circles.setting.sosAlertsSubtitle' },
+  { key: 'checkInAlerts', titleKey: 'circles.setting.checkInAlerts', subtitleKey: 'circles.setting.checkInAlertsSubtitle' },
+  { key: 'unlockApproval', titleKey: 'circles.setting.unlockApproval', subtitleKey: 'circles.setting.unlockApprovalSubtitle' },
+];
+
+// Suggested circles, shown until the user has created one (named in the user's language)
+const CIRCLE_PRESETS: (Omit<CircleInput, 'name'> & { nameKey: TranslationKey })[] = [
+  { nameKey: 'circles.preset.family', shareLocation: true, sosAlerts: true, checkInAlerts: true, unlockApproval: true },
+  { nameKey: 'circles.preset.work', shareLocation: false, sosAlerts: true, checkInAlerts: false, unlockApproval: false },
+  { nameKey: 'circles.preset.neighbors', shareLocation: false, sosAlerts: true, checkInAlerts: false, unlockApproval: false },
+];
+
+const ROLE_OPTIONS: { role: CircleRole; titleKey: TranslationKey; subtitleKey: TranslationKey }[] = [
+  { role: 'guardian', titleKey: 'circles.role.guardian', subtitleKey: 'circles.role.guardianSubtitle' },
+  { role: 'member', titleKey: 'circles.role.member', subtitleKey: 'circles.role.memberSubtitle' },
+  { role: 'dependent', titleKey: 'circles.role.dependent', subtitleKey: 'circles.role.dependentSubtitle' },
+];
+
+const ROLE_COLORS: Record<CircleRole, string> = {
+  guardian: '#007AFF',
+  member: '#8E8E93',
+  dependent: '#FF9500',
+};
+
+export default function CirclesScreen({ navigation }: CirclesScreenProps) {
+  const { user } = useAuth();
+  const { connections } = useConnection();
+  const { t } = useUserSettings();
+  const [circles, setCircles] = useState<Circle[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [newCircleName, setNewCircleName] = useState<string>('');
+  const [addingToCircleId, setAddingToCircleId] = useState<string | null>(null);
+
+  const connectedMembers = connections.filter((member) => !!member.userId);
+  const presets: CircleInput[] = CIRCLE_PRESETS.map(({ nameKey, ...preset }) => ({ ...preset, name: t(nameKey) }));
+
+  const loadCircles = useCallback(async (): Promise<void> => {
+    if (!user?.id) return;
+
+    try {
+      setLoading(true);
+      setCircles(await circleService.getCircles(user.id));
+    } catch (error) {
+      console.error('Error loading circles:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadCircles();
+  }, [loadCircles]);
+
+  const getMemberName = (memberId: string): string => {
+    return connections.find((member) => member.userId === memberId)?.name || t('circles.formerConnection');
+  };
+
+  const updateCircleState = (circleId: string, update: (circle: Circle) => Circle): void => {
+    setCircles((prev) => prev.map((circle) => (circle.id === circleId ? update(circle) : circle)));
+  };
+
+  const handleCreateCircle = async (input: CircleInput): Promise<void> => {
+    if (!user?.id || saving) return;
+
+    const name = input.name.trim();
+    if (!name) {
+      Alert.alert(t('circles.nameTitle'), t('circles.nameRequired'));
+      return;
+    }
+    if (circles.some((circle) => circle.name.toLowerCase() === name.toLowerCase())) {
+      Alert.alert(t('circles.nameTitle'), t('circles.nameTaken', { name }));
+      return;
+    }
+
+    Keyboard.dismiss();
+    setSaving(true);
+    const circle = await circleService.createCircle(user.id, { ...input, name });
+    setSaving(false);
+
+    if (!circle) {
+      Alert.alert(t('common.error'), t('circles.createFailed'));
+      return;
+    }
+    setCircles((prev) => [...prev, circle]);
+    setNewCircleName('');
+    setAddingToCircleId(circle.id);
+  };
+
+  const handleSettingToggle = async (circle: Circle, key: CircleSetting, value: boolean): Promise<void> => {
+    if (saving) return;
+
+    setSaving(true);
+    updateCircleState(circle.id, (current) => ({ ...current, [key]: value }));
+
+    const saved = await circleService.updateCircle(circle.id, { [key]: value });
+    if (!saved) {
+      updateCircleState(circle.id, (current) => ({ ...current, [key]: !value }));
+      Alert.alert(t('common.error'), t('circles.saveFailed'));
+    }
+    setSaving(false);
+  };
+
+  const handleDeleteCircle = (circle: Circle): void => {
+    Alert.alert(
+      t('circles.deleteTitle'),
+      t('circles.deleteMessage', { name: circle.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            setSaving(true);
+            const deleted = await circleService.deleteCircle(circle.id);
+            setSaving(false);
+
+            if (!deleted) {
+              Alert.alert(t('common.error'), t('circles.deleteFailed'));
+              return;
+            }
+            setCircles((prev) => prev.filter((existing) => existing.id !== circle.id));
+          },
+        },
+      ]
+    );
+  };
+
+  const handleAddMember = async (circle: Circle, memberId: string): Promise<void> => {
+    if (saving) return;
+
+    setSaving(true);
+    const member = await circleService.addMember(circle.id, memberId);
+    setSaving(false);
+
+    if (!member) {
+      Alert.alert(t('common.error'), t('circles.addFailed'));
+      return;
+    }
+    updateCircleState(circle.id, (current) => ({ ...current, members: [...current.members, member] }));
+  };
+
+  const handleMemberPress = (circle: Circle, member: CircleMember): void => {
+    const setRole = async (role: CircleRole): Promise<void> => {
+      setSaving(true);
+      const saved = await circleService.setMemberRole(member.id, role);
+      setSaving(false);
+
+      if (!saved) {
+        Alert.alert(t('common.error'), t('circles.roleFailed'));
+        return;
+      }
+      updateCircleState(circle.id, (current) => ({
+        ...current,
+        members: current.members.map((existing) => (existing.id === member.id ? { ...existing, role } : existing)),
+      }));
+    };
+
+    const removeMember = async (): Promise<void> => {
+      setSaving(true);
+      const removed = await circleService.removeMember(member.id);
+      setSaving(false);
+
+      if (!removed) {
+        Alert.alert(t('common.error'), t('circles.removeFailed'));
+        return;
+      }
+      updateCircleState(circle.id, (current) => ({
+        ...current,
+        members: current.members.filter((existing) => existing.id !== member.id),
+      }));
+    };
+
+    Alert.alert(getMemberName(member.memberId), t('circles.roleIn', { circle: circle.name }), [
+      ...ROLE_OPTIONS.filter((option) => option.role !== member.role).map((option) => ({
+        text: t('circles.makeRole', { role: t(option.titleKey) }),
+        onPress: () => setRole(option.role),
+      })),
+      { text: t('circles.removeFrom', { circle: circle.name }), style: 'destructive' as const, onPress: removeMember },
+      { text: t('common.cancel'), style: 'cancel' as const },
+    ]);
+  };
+
+  const renderCircle = (circle: Circle) => {
+    const memberIds = new Set(circle.members.map((member) => member.memberId));
+    const availableMembers = connectedMembers.filter((member) => !memberIds.has(member.userId as string));
+    const isAdding = addingToCircleId === circle.id;
+
+    return (
+      <View key={circle.id} style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Ionicons name="people-circle-outline" size={24} color="#007AFF" />
+          <View style={styles.cardHeaderContent}>
+            <Text style={styles.cardTitle}>{circle.name}</Text>
+            <Text style={styles.hintText}>
+              {circle.members.length === 1 ? t('circles.memberCount') : t('circles.membersCount', { count: circle.members.length })}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={() => handleDeleteCircle(circle)} disabled={saving} style={styles.iconButton}>
+            <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+          </TouchableOpacity>
+        </View>
+
+        {CIRCLE_SETTINGS.map((setting) => (
+          <View key={setting.key} style={styles.settingRow}>
+            <View style={styles.settingContent}>
+              <Text style={styles.settingTitle}>{t(setting.titleKey)}</Text>
+              <Text style={styles.settingSubtitle}>{t(setting.subtitleKey)}</Text>
+            </View>
+            <Switch
+              value={circle[setting.key]}
+              onValueChange={(value) => handleSettingToggle(circle, setting.key, value)}
+              trackColor={{ false: '#E5E5EA', true: '#34C759' }}
+              thumbColor="#FFFFFF"
+              disabled={saving}
+            />
+          </View>
+        ))}
+
+        <Text style={styles.inputLabel}>{t('circles.members')}</Text>
+        {circle.members.length === 0 ? (
+          <Text style={styles.emptyText}>{t('circles.noMembers')}</Text>
+        ) : (
+          circle.members.map((member) => (
+            <TouchableOpacity
+              key={member.id}
+              style={styles.memberRow}
+              onPress={() => handleMemberPress(circle, member)}
+              disabled={saving}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.memberName}>{getMemberName(member.memberId)}</Text>
+              <View style={[styles.roleBadge, { backgroundColor: ROLE_COLORS[member.role] }]}>
+                <Text style={styles.roleBadgeText}>
+                  {t(ROLE_OPTIONS.find((option) => option.role === member.role)?.titleKey || 'circles.role.member')}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color="#C7C7CC" />
+            </TouchableOpacity>
+          ))
+        )}
+
+        {isAdding && (
+          availableMembers.length === 0 ? (
+            <Text style={styles.emptyText}>{t('circles.allInCircle')}</Text>
+          ) : (
+            availableMembers.map((member) => (
+              <TouchableOpacity
+                key={member.userId}
+                style={styles.memberRow}
+                onPress={() => handleAddMember(circle, member.userId as string)}
+                disabled={saving}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.memberName}>{member.name}</Text>
+                <Ionicons name="add-circle" size={22} color="#34C759" />
+              </TouchableOpacity>
+            ))
+          )
+        )}
+
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={() => setAddingToCircleId(isAdding ? null : circle.id)}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.secondaryButtonText}>{isAdding ? t('circles.done') : t('circles.addConnections')}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const availablePresets = presets.filter(
+    (preset) => !circles.some((circle) => circle.name.toLowerCase() === preset.name.toLowerCase())
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#000000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('circles.title')}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        <Text style={styles.description}>
+          {t('circles.description')}
+        </Text>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#007AFF" />
+            <Text style={styles.loadingText}>{t('circles.loading')}</Text>
+          </View>
+        ) : (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('circles.newCircle')}</Text>
+              <View style={styles.card}>
+                <TextInput
+                  style={styles.input}
+                  value={newCircleName}
+                  onChangeText={setNewCircleName}
+                  placeholder={t('circles.namePlaceholder')}
+                  placeholderTextColor="#C7C7CC"
+                  maxLength={40}
+                  returnKeyType="done"
+                  onSubmitEditing={() => handleCreateCircle({ ...presets[0], name: newCircleName })}
+                />
+                {availablePresets.length > 0 && (
+                  <View style={styles.chipRow}>
+                    {availablePresets.map((preset) => (
+                      <TouchableOpacity
+                        key={preset.name}
+                        style={styles.chip}
+                        onPress={() => handleCreateCircle(preset)}
+                        disabled={saving}
+                      >
+                        <Text style={styles.chipText}>+ {preset.name}</Text>
+                      </TouchableOpacity>
+                    ))}
+                  </View>
+                )}
+                <TouchableOpacity
+                  style={[styles.primaryButton, (saving || !newCircleName.trim()) && styles.buttonDisabled]}
+                  onPress={() => handleCreateCircle({ ...presets[0], name: newCircleName })}
+                  disabled={saving || !newCircleName.trim()}
+                  activeOpacity={0.7}
+                >
+                  <Ionicons name="add" size={20} color="#FFFFFF" />
+                  <Text style={styles.primaryButtonText}>{t('circles.createCircle')}</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('circles.yourCircles')}</Text>
+              {circles.length === 0 ? (
+                <Text style={styles.emptyText}>
+                  {t('circles.noCircles')}
+                </Text>
+              ) : (
+                <View style={styles.cardList}>{circles.map(renderCircle)}</View>
+              )}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('circles.roles')}</Text>
+              {ROLE_OPTIONS.map((option) => (
+                <View key={option.role} style={styles.settingRow}>
+                  <View style={[styles.roleBadge, { backgroundColor: ROLE_COLORS[option.role] }]}>
+                    <Text style={styles.roleBadgeText}>{t(option.titleKey)}</Text>
+                  </View>
+                  <Text style={[styles.settingSubtitle, styles.roleDescription]}>{t(option.subtitleKey)}</Text>
+                </View>
+              ))}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  placeholder: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  description: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 24,
+    lineHeight: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 12,
+  },
+  cardList: {
+    gap: 16,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    gap: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.05,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cardHeaderContent: {
+    flex: 1,
+  },
+  cardTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  iconButton: {
+    padding: 4,
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  settingContent: {
+    flex: 1,
+    marginRight: 16,
+  },
+  settingTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 4,
+  },
+  settingSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  input: {
+    borderWidth: 1.5,
+    borderColor: '#E5E5EA',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#000000',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#000000',
+    fontWeight: '500',
+  },
+  memberRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  memberName: {
+    flex: 1,
+    fontSize: 16,
+    color: '#000000',
+  },
+  roleBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+  },
+  roleBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  roleDescription: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    padding: 16,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    padding: 8,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 16,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+});
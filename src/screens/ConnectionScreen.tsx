@@ -17,6 +17,7 @@ import {
   RefreshControl,
   Linking,
   Switch,
+  Share,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
@@ -27,9 +28,15 @@ import type { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import { useAuth } from '../context/AuthContext';
 import { useConnection } from '../context/ConnectionContext';
+import { useUserSettings } from '../context/UserSettingsContext';
 import { supabase } from '../lib/supabase';
 import { locationService } from '../services/locationService';
-import type { MainTabParamList, RootStackParamList, Connection, ConnectionInvitation } from '../types';
+import { accountLockService } from '../services/accountLockService';
+import { locationSharingService } from '../services/locationSharingService';
+import { inviteService } from '../services/inviteService';
+import { QRCode } from '../components/QRCode';
+import { describeLocationSharing, isLocationSharingActive, mapDbRowToLocationSharingWindow } from '../utils/locationSharing';
+import type { MainTabParamList, RootStackParamList, Connection, ConnectionInvitation, ConnectionInvite } from '../types';
 
 type ConnectionScreenNavigationProp = CompositeNavigationProp<
   BottomTabNavigationProp<MainTabParamList, 'Connections'>,
@@ -43,6 +50,7 @@ interface ConnectionScreenProps {
 export default function ConnectionScreen({ navigation }: ConnectionScreenProps) {
   const { user } = useAuth();
   const { locationSharingEnabled } = useConnection();
+  const { t, locale, language } = useUserSettings();
   const [connections, setConnections] = useState<Connection[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [showInviteByPhoneModal, setShowInviteByPhoneModal] = useState<boolean>(false);
@@ -53,7 +61,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
   const [refreshing, setRefreshing] = useState<boolean>(false);
   const [showGenerateCodeModal, setShowGenerateCodeModal] = useState<boolean>(false);
   const [showEnterCodeModal, setShowEnterCodeModal] = useState<boolean>(false);
-  const [connectionCode, setConnectionCode] = useState<string>('');
+  const [connectionInvite, setConnectionInvite] = useState<ConnectionInvite | null>(null);
   const [codeInput, setCodeInput] = useState<string>('');
   const [generatingCode, setGeneratingCode] = useState<boolean>(false);
   const [connectingByCode, setConnectingByCode] = useState<boolean>(false);
@@ -65,6 +73,13 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
   const appStateRef = useRef<AppStateStatus>(AppState.currentState);
   const updateLocationIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const blankScreenReloadAttemptedRef = useRef<boolean>(false);
+  // Drives the sharing countdowns
+  const [now, setNow] = useState<number>(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
 
   // Create a refresh handler that reloads everything
   // Note: This is defined early but will call functions defined later
@@ -151,6 +166,22 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
     }, [user?.id, handleRefresh])
   );
 
+  // Invite opened from a link (possibly before sign-up) - ask to accept it
+  useFocusEffect(
+    useCallback(() => {
+      if (!user?.id) return;
+
+      const openPendingInvite = async () => {
+        const token = await inviteService.getPendingInvite();
+        if (!token) return;
+
+        await inviteService.clearPendingInvite();
+        confirmInvite(token);
+      };
+      openPendingInvite();
+    }, [user?.id])
+  );
+
   useEffect(() => {
     if (!user?.id) {
       setLoading(false);
@@ -237,12 +268,12 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
           // On Android, show alert if permission is permanently denied
           if (Platform.OS === 'android' && permissionResult.message && !permissionResult.canAskAgain) {
             Alert.alert(
-              'Location Permission Required',
-              permissionResult.message || 'Location permission is required to share your location with connections.',
+              t('connections.locationPermissionTitle'),
+              permissionResult.message || t('connections.locationPermissionMessage'),
               [
-                { text: 'Cancel', style: 'cancel' },
+                { text: t('common.cancel'), style: 'cancel' },
                 { 
-                  text: 'Open Settings', 
+                  text: t('common.openSettings'),
                   onPress: () => {
                     Linking.openSettings().catch((error) => {
                       console.error('Error opening settings:', error);
@@ -274,12 +305,13 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
             const address = geocodedAddress || fastLocation.address || null;
             
             const batteryLevel = await locationService.getBatteryLevel();
+            const sharedLocation = locationService.getShareableLocation({ ...fastLocation, address: address || undefined });
             const { error } = await supabase
               .from('connections')
               .update({
-                location_latitude: fastLocation.latitude,
-                location_longitude: fastLocation.longitude,
-                location_address: address,
+                location_latitude: sharedLocation.latitude,
+                location_longitude: sharedLocation.longitude,
+                location_address: sharedLocation.address || null,
                 location_updated_at: new Date().toISOString(),
                 battery_level: batteryLevel,
               })
@@ -326,12 +358,13 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
       // (i.e., update the location that others see)
       // Only update connections where location_sharing_enabled is true
       const locationUpdatedAt = new Date().toISOString();
+      const sharedLocation = locationService.getShareableLocation(currentLocation);
       const { data, error } = await supabase
         .from('connections')
         .update({
-          location_latitude: currentLocation.latitude,
-          location_longitude: currentLocation.longitude,
-          location_address: currentLocation.address || null,
+          location_latitude: sharedLocation.latitude,
+          location_longitude: sharedLocation.longitude,
+          location_address: sharedLocation.address || null,
           location_updated_at: locationUpdatedAt,
           battery_level: batteryLevel,
         })
@@ -380,9 +413,9 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
             const { error: reverseError } = await supabase
               .from('connections')
               .update({
-                location_latitude: currentLocation.latitude,
-                location_longitude: currentLocation.longitude,
-                location_address: currentLocation.address || null,
+                location_latitude: sharedLocation.latitude,
+                location_longitude: sharedLocation.longitude,
+                location_address: sharedLocation.address || null,
                 location_updated_at: locationUpdatedAt,
                 battery_level: batteryLevel,
               })
@@ -482,6 +515,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                         locationSharingEnabled: payload.new.location_sharing_enabled !== undefined 
                           ? payload.new.location_sharing_enabled 
                           : conn.locationSharingEnabled ?? true,
+                        sharingWithMe: mapDbRowToLocationSharingWindow(payload.new),
                       }
                     : conn
                 )
@@ -502,6 +536,14 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
           console.log('Location update detected from connected user via real-time:', payload.new?.id);
           // Update state directly with new location data and location sharing settings
           if (payload.new) {
+            // This row is how I share my location with them (time limit / schedule)
+            setConnections((prev) =>
+              prev.map((conn) =>
+                conn.connectedUserId === payload.new.user_id
+                  ? { ...conn, mySharing: mapDbRowToLocationSharingWindow(payload.new) }
+                  : conn
+              )
+            );
             setConnections((prev) =>
               prev.map((conn) =>
                 conn.connectedUserId === payload.new.connected_user_id
@@ -582,7 +624,11 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
             setConnections((prev) =>
               prev.map((conn) =>
                 conn.connectedUserId === payload.new.id
-                  ? { ...conn, isLocked: payload.new.is_locked || false }
+                  ? {
+                      ...conn,
+                      isLocked: payload.new.is_locked || false,
+                      isUnderDuress: !!payload.new.duress_active_at,
+                    }
                   : conn
               )
             );
@@ -831,7 +877,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
 
   const sendInvitationByPhone = async (): Promise<void> => {
     if (!user?.id || !phoneInput.trim()) {
-      Alert.alert('Invalid Input', 'Please enter a phone number.');
+      Alert.alert(t('connections.invalidInput'), t('connections.enterPhone'));
       return;
     }
 
@@ -839,13 +885,13 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
     const normalizedPhone = phoneInput.replace(/\D/g, '');
 
     if (normalizedPhone.length !== 11) {
-      Alert.alert('Invalid Phone', 'Please enter an 11-digit phone number.');
+      Alert.alert(t('connections.invalidPhone'), t('connections.phoneLength'));
       return;
     }
 
     // Check if trying to invite self
     if (user.phone && normalizedPhone === user.phone.replace(/[\s\-\(\)]/g, '')) {
-      Alert.alert('Invalid Phone', 'You cannot invite yourself.');
+      Alert.alert(t('connections.invalidPhone'), t('connections.cannotInviteSelf'));
       setPhoneInput('');
       return;
     }
@@ -894,18 +940,31 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
 
       if (userError) {
         console.error('Error checking user:', userError);
-        Alert.alert('Error', 'Failed to check phone number. Please try again.');
+        Alert.alert(t('common.error'), t('connections.checkPhoneFailed'));
         return;
       }
 
       if (!existingUser) {
-        // Phone number doesn't exist - show error message
+        // Not on the app yet - offer a signed invite link by SMS; it waits until they sign up
         Alert.alert(
-          'User Not Found',
-          'This phone number is not registered on the app. Please ask them to download the app first to accept your invitation.',
-          [{ text: 'OK' }]
+          t('connections.notOnAppTitle'),
+          t('connections.notOnAppMessage'),
+          [
+            { text: t('common.cancel'), style: 'cancel' },
+            {
+              text: t('connections.sendInviteLink'),
+              onPress: async () => {
+                const { sent, message } = await inviteService.sendInviteBySms(normalizedPhone);
+                if (!sent) {
+                  Alert.alert(t('common.error'), message || t('connections.createInviteFailed'));
+                  return;
+                }
+                setPhoneInput('');
+                setShowInviteByPhoneModal(false);
+              },
+            },
+          ]
         );
-        setPhoneInput('');
         return;
       }
 
@@ -918,7 +977,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
         .single();
 
       if (existingConnection) {
-        Alert.alert('Already Connected', 'You are already connected to this user.');
+        Alert.alert(t('connections.alreadyConnected'), t('connections.alreadyConnectedMessage'));
         setPhoneInput('');
         setShowInviteByPhoneModal(false);
         return;
@@ -935,7 +994,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
         .single();
 
       if (existingInvitation) {
-        Alert.alert('Invitation Sent', 'You have already sent an invitation to this phone number.');
+        Alert.alert(t('connections.invitationSent'), t('connections.invitationAlreadySent'));
         setPhoneInput('');
         setShowInviteByPhoneModal(false);
         return;
@@ -960,7 +1019,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
 
       if (inviteError) {
         console.error('Error sending invitation:', inviteError);
-        Alert.alert('Error', 'Failed to send invitation. Please try again.');
+        Alert.alert(t('common.error'), t('connections.sendInvitationFailed'));
         return;
       }
 
@@ -1036,14 +1095,14 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
         }
       }
 
-      Alert.alert('Invitation Sent', `Invitation sent to ${normalizedPhone}. They will receive a notification.`);
+      Alert.alert(t('connections.invitationSent'), t('connections.invitationSentTo', { phone: normalizedPhone }));
       setPhoneInput('');
       setShowInviteByPhoneModal(false);
       // Real-time subscription will automatically update invitations for the recipient
       // No need to manually reload
     } catch (error) {
       console.error('Error in sendInvitationByPhone:', error);
-      Alert.alert('Error', 'Failed to send invitation. Please try again.');
+      Alert.alert(t('common.error'), t('connections.sendInvitationFailed'));
     } finally {
       setSendingInvitation(false);
     }
@@ -1063,7 +1122,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
 
       if (error) {
         console.error('Error accepting invitation:', error);
-        Alert.alert('Error', 'Failed to accept invitation. Please try again.');
+        Alert.alert(t('common.error'), t('connections.acceptFailed'));
         return;
       }
 
@@ -1106,7 +1165,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
             console.error('Exception sending connection accepted push notification:', notifError);
           }
 
-          Alert.alert('Connected!', 'You are now connected.');
+          Alert.alert(t('connections.connected'), t('connections.nowConnected'));
           // Automatically update location when connection is accepted
           // This ensures the connection shows as online with location immediately
           if (locationSharingEnabled) {
@@ -1118,12 +1177,12 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
           // Real-time subscriptions will automatically update connections and invitations
           // No need to manually reload - real-time will handle it
         } else {
-          Alert.alert('Error', result.message || 'Failed to accept invitation.');
+          Alert.alert(t('common.error'), result.message || t('connections.acceptFailed'));
         }
       }
     } catch (error) {
       console.error('Error in acceptInvitation:', error);
-      Alert.alert('Error', 'Failed to accept invitation. Please try again.');
+      Alert.alert(t('common.error'), t('connections.acceptFailed'));
     }
   };
 
@@ -1138,7 +1197,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
 
       if (error) {
         console.error('Error rejecting invitation:', error);
-        Alert.alert('Error', 'Failed to reject invitation. Please try again.');
+        Alert.alert(t('common.error'), t('connections.rejectFailed'));
         return;
       }
 
@@ -1146,161 +1205,132 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
       // No need to manually reload
     } catch (error) {
       console.error('Error in rejectInvitation:', error);
-      Alert.alert('Error', 'Failed to reject invitation. Please try again.');
+      Alert.alert(t('common.error'), t('connections.rejectFailed'));
     }
   };
 
-  const generateConnectionCode = async (): Promise<void> => {
+  const generateConnectionInvite = async (): Promise<void> => {
     if (!user?.id) return;
 
     try {
       setGeneratingCode(true);
 
-      // Generate a 6-digit code
-      const code = Math.floor(100000 + Math.random() * 900000).toString();
-
-      // Set expiration to 24 hours from now
-      const expiresAt = new Date();
-      expiresAt.setHours(expiresAt.getHours() + 24);
-
-      // Invalidate any existing active codes for this user
-      await supabase
-        .from('connection_codes')
-        .update({ is_used: true })
-        .eq('user_id', user.id)
-        .eq('is_used', false)
-        .gt('expires_at', new Date().toISOString());
-
-      // Create new code
-      const { data, error } = await supabase
-        .from('connection_codes')
-        .insert({
-          user_id: user.id,
-          code: code,
-          expires_at: expiresAt.toISOString(),
-          is_used: false,
-        })
-        .select()
-        .single();
+      // Signed, single-use invite that expires in 24 hours (checked server-side)
+      const { invite, message } = await inviteService.createInvite();
 
-      if (error) {
-        console.error('Error generating connection code:', error);
-        Alert.alert('Error', 'Failed to generate connection code. Please try again.');
+      if (!invite) {
+        Alert.alert(t('common.error'), message || t('connections.createInviteFailed'));
         return;
       }
 
-      setConnectionCode(code);
+      setConnectionInvite(invite);
       setShowGenerateCodeModal(true);
     } catch (error) {
-      console.error('Error in generateConnectionCode:', error);
-      Alert.alert('Error', 'Failed to generate connection code. Please try again.');
+      console.error('Error in generateConnectionInvite:', error);
+      Alert.alert(t('common.error'), t('connections.createInviteFailed'));
     } finally {
       setGeneratingCode(false);
     }
   };
 
-  const connectByCode = async (): Promise<void> => {
-    if (!user?.id || !codeInput.trim()) {
-      Alert.alert('Invalid Input', 'Please enter a connection code.');
-      return;
-    }
+  const closeInviteModal = (): void => {
+    setShowGenerateCodeModal(false);
+    setConnectionInvite(null);
+  };
 
-    const normalizedCode = codeInput.trim().replace(/\s/g, '');
+  const revokeConnectionInvite = async (): Promise<void> => {
+    if (!connectionInvite) return;
 
-    if (normalizedCode.length !== 6) {
-      Alert.alert('Invalid Code', 'Please enter a 6-digit connection code.');
+    const revoked = await inviteService.revokeInvite(connectionInvite.id);
+    if (!revoked) {
+      Alert.alert(t('common.error'), t('connections.cancelInviteFailed'));
       return;
     }
 
-    try {
-      setConnectingByCode(true);
+    closeInviteModal();
+    Alert.alert(t('connections.inviteCancelled'), t('connections.inviteCancelledMessage'));
+  };
 
-      // Find the code
-      const { data: codeData, error: codeError } = await supabase
-        .from('connection_codes')
-        .select('user_id')
-        .eq('code', normalizedCode)
-        .eq('is_used', false)
-        .gt('expires_at', new Date().toISOString())
-        .single();
+  // Ask before connecting - the invite may have been opened from a link
+  const confirmInvite = async (token: string): Promise<void> => {
+    const preview = await inviteService.previewInvite(token);
 
-      if (codeError || !codeData) {
-        Alert.alert('Invalid Code', 'This connection code is invalid or has expired.');
-        setCodeInput('');
-        return;
-      }
-
-      // Get the code owner's details
-      const { data: codeOwner, error: ownerError } = await supabase
-        .from('users')
-        .select('id, name, email, phone, photo')
-        .eq('id', codeData.user_id)
-        .single();
+    if (!preview) {
+      Alert.alert(t('common.error'), t('connections.loadInviteFailed'));
+      return;
+    }
 
-      if (ownerError || !codeOwner) {
-        Alert.alert('Error', 'Code owner not found.');
+    switch (preview.status) {
+      case 'valid':
+        Alert.alert(
+          t('connections.inviteTitle'),
+          preview.inviterName
+            ? t('connections.invitePrompt', { name: preview.inviterName })
+            : t('connections.invitePromptUnknown'),
+          [
+            { text: t('connections.notNow'), style: 'cancel' },
+            { text: t('connections.connect'), onPress: () => acceptInvite(token) },
+          ]
+        );
         return;
-      }
-
-      // Check if trying to connect to self
-      if (codeOwner.id === user.id) {
-        Alert.alert('Invalid Code', 'You cannot use your own connection code.');
-        setCodeInput('');
+      case 'already_connected':
+        Alert.alert(
+          t('connections.alreadyConnected'),
+          preview.inviterName
+            ? t('connections.alreadyConnectedTo', { name: preview.inviterName })
+            : t('connections.alreadyConnectedMessage')
+        );
         return;
-      }
+      case 'own_invite':
+        Alert.alert(t('connections.invalidInvite'), t('connections.ownInvite'));
+        return;
+      case 'expired':
+        Alert.alert(t('connections.inviteExpired'), t('connections.inviteExpiredMessage'));
+        return;
+      case 'rate_limited':
+        Alert.alert(t('connections.tooManyAttempts'), t('connections.tryLater'));
+        return;
+      default:
+        Alert.alert(t('connections.invalidInvite'), t('connections.inviteNotValid'));
+    }
+  };
 
-      // Check if already connected
-      const { data: existingConnection } = await supabase
-        .from('connections')
-        .select('id')
-        .eq('user_id', user.id)
-        .eq('connected_user_id', codeOwner.id)
-        .single();
+  const acceptInvite = async (token: string): Promise<void> => {
+    if (!user?.id) return;
 
-      if (existingConnection) {
-        Alert.alert('Already Connected', 'You are already connected to this user.');
-        setCodeInput('');
-        setShowEnterCodeModal(false);
+    try {
+      setConnectingByCode(true);
+
+      // Validated, rate-limited and connected server-side (inviter gets an in-app notification)
+      const result = await inviteService.redeemInvite(token);
+
+      if (!result.success) {
+        Alert.alert(t('connections.couldNotConnect'), result.message || t('connections.connectFailed'));
         return;
       }
 
-      // Mark code as used
-      await supabase
-        .from('connection_codes')
-        .update({
-          is_used: true,
-          used_by_user_id: user.id,
-        })
-        .eq('id', (codeData as any).id);
-
-      // Create connection (bidirectional connection will be created automatically by trigger)
-      const { error: connectionError } = await supabase
-        .from('connections')
-        .insert({
-          user_id: user.id,
-          connected_user_id: codeOwner.id,
-          connected_user_name: codeOwner.name,
-          connected_user_email: codeOwner.email,
-          connected_user_phone: codeOwner.phone,
-          connected_user_photo: codeOwner.photo,
-          status: 'connected',
-        });
+      setCodeInput('');
+      setShowEnterCodeModal(false);
 
-      if (connectionError) {
-        console.error('Error creating connection:', connectionError);
-        Alert.alert('Error', 'Failed to create connection. Please try again.');
+      if (result.message === 'Already connected') {
+        Alert.alert(
+          t('connections.alreadyConnected'),
+          result.inviterName
+            ? t('connections.alreadyConnectedTo', { name: result.inviterName })
+            : t('connections.alreadyConnectedMessage')
+        );
         return;
       }
 
-      // Send push notification to the code owner that someone used their code
+      // Send push notification to the inviter
       try {
-        const { data: pushResult, error: pushError } = await supabase.functions.invoke(
+        const { error: pushError } = await supabase.functions.invoke(
           'send-push-notification',
           {
             body: {
-              user_ids: [codeOwner.id],
+              user_ids: [result.inviterId],
               title: 'New Connection',
-              body: `${user?.name || 'Someone'} connected with you using your connection code`,
+              body: `${user?.name || 'Someone'} connected with you using your invite`,
               data: {
                 type: 'connection_added',
                 userId: user.id,
@@ -1313,54 +1343,49 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
 
         if (pushError) {
           console.error('Error sending connection push notification:', pushError);
-        } else if (pushResult?.sent > 0) {
-          console.log('✅ Connection push notification sent to code owner');
         }
       } catch (notifError) {
         console.error('Exception sending connection push notification:', notifError);
       }
 
-      // Also create in-app notification for code owner
-      try {
-        await supabase.from('notifications').insert({
-          user_id: codeOwner.id,
-          title: 'New Connection',
-          body: `${user?.name || 'Someone'} connected with you using your connection code`,
-          type: 'connection_added',
-          data: {
-            userId: user.id,
-            userName: user?.name,
-          },
-        });
-      } catch (notifError) {
-        console.error('Error creating in-app notification:', notifError);
-      }
-
-      Alert.alert('Connected!', `You are now connected to ${codeOwner.name}.`);
-      setCodeInput('');
-      setShowEnterCodeModal(false);
+      Alert.alert(
+        t('connections.connected'),
+        result.inviterName
+          ? t('connections.nowConnectedTo', { name: result.inviterName })
+          : t('connections.nowConnected')
+      );
 
-      // Automatically update location when connection is created via code
+      // Automatically update location when connection is created via invite
       // This ensures the connection shows as online with location immediately
       if (locationSharingEnabled) {
-        // Small delay to ensure connection is fully created in database
         setTimeout(() => {
           updateConnectionsLocation();
         }, 500);
       }
 
-      // Refresh connections
       setTimeout(() => {
         loadConnections();
       }, 500);
     } catch (error) {
-      console.error('Error in connectByCode:', error);
-      Alert.alert('Error', 'Failed to connect. Please try again.');
+      console.error('Error in acceptInvite:', error);
+      Alert.alert(t('common.error'), t('connections.connectFailed'));
     } finally {
       setConnectingByCode(false);
     }
   };
 
+  const connectByInviteLink = async (): Promise<void> => {
+    const token = inviteService.parseInviteToken(codeInput);
+
+    if (!token) {
+      Alert.alert(t('connections.invalidInvite'), t('connections.pasteInviteMessage'));
+      return;
+    }
+
+    setShowEnterCodeModal(false);
+    await confirmInvite(token);
+  };
+
   const loadConnections = async (): Promise<void> => {
     if (!user?.id) {
       setLoading(false);
@@ -1386,15 +1411,18 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
         // Fetch locked status for each connected user
         const connectedUserIds = data.map(conn => conn.connected_user_id);
         const lockedStatusMap = new Map<string, boolean>();
+        const duressStatusMap = new Map<string, boolean>();
+        const mySharingMap = await locationSharingService.getMySharing(user.id, connectedUserIds);
         
         if (connectedUserIds.length > 0) {
           const { data: usersData } = await supabase
             .from('users')
-            .select('id, is_locked')
+            .select('id, is_locked, duress_active_at')
             .in('id', connectedUserIds);
 
           (usersData || []).forEach(u => {
             lockedStatusMap.set(u.id, u.is_locked || false);
+            duressStatusMap.set(u.id, !!u.duress_active_at);
           });
         }
 
@@ -1403,7 +1431,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
             id: conn.id,
             userId: conn.user_id,
             connectedUserId: conn.connected_user_id,
-            connectedUserName: conn.connected_user_name || 'Unknown User',
+            connectedUserName: conn.connected_user_name || t('connections.unknownUser'),
             connectedUserEmail: conn.connected_user_email,
             connectedUserPhone: conn.connected_user_phone,
             connectedUserPhoto: conn.connected_user_photo,
@@ -1417,7 +1445,10 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
             createdAt: conn.created_at,
             updatedAt: conn.updated_at,
             isLocked: lockedStatusMap.get(conn.connected_user_id) || false,
+            isUnderDuress: duressStatusMap.get(conn.connected_user_id) || false,
             locationSharingEnabled: conn.location_sharing_enabled !== undefined ? conn.location_sharing_enabled : true, // Default to true if not set
+            sharingWithMe: mapDbRowToLocationSharingWindow(conn),
+            mySharing: mySharingMap.get(conn.connected_user_id),
           }))
           .filter((conn) => {
             // Filter out connections with missing critical data
@@ -1444,16 +1475,23 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
 
   const unlockUser = async (connectedUserId: string, connectedUserName: string): Promise<void> => {
     Alert.alert(
-      'Unlock User',
-      `Are you sure you want to unlock ${connectedUserName}? This will restore their access to the app.`,
+      t('connections.approveUnlock'),
+      t('connections.approveUnlockMessage', { name: connectedUserName }),
       [
-        { text: 'Cancel', style: 'cancel' },
+        { text: t('common.cancel'), style: 'cancel' },
         {
-          text: 'Unlock',
+          text: t('connections.approve'),
           style: 'default',
           onPress: async () => {
-            try {
-              // Optimistically update the UI immediately
+            // Unlocking is enforced server-side - this only records our approval
+            const result = await accountLockService.approveUnlock(connectedUserId);
+
+            if (result.message) {
+              Alert.alert(t('common.error'), result.message || t('connections.approveUnlockFailed'));
+              return;
+            }
+
+            if (result.unlocked) {
               setConnections((prev) =>
                 prev.map((conn) =>
                   conn.connectedUserId === connectedUserId
@@ -1462,44 +1500,89 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                 )
               );
 
-              const { error } = await supabase
-                .from('users')
-                .update({ is_locked: false })
-                .eq('id', connectedUserId);
-
-              if (error) {
-                console.error('Error unlocking user:', error);
-                // Revert optimistic update on error
-                setConnections((prev) =>
-                  prev.map((conn) =>
-                    conn.connectedUserId === connectedUserId
-                      ? { ...conn, isLocked: true }
-                      : conn
-                  )
-                );
-                Alert.alert('Error', 'Failed to unlock user. Please try again.');
-                return;
-              }
-
               // Reload connections to ensure all data is fresh and properly formatted
               setTimeout(() => {
                 console.log('🔄 Reloading connections after unlock...');
                 loadConnections();
               }, 500);
 
-              Alert.alert('Success', `${connectedUserName} has been unlocked and can now access the app.`);
-            } catch (error) {
-              console.error('Error in unlockUser:', error);
-              // Revert optimistic update on error
-              setConnections((prev) =>
-                prev.map((conn) =>
-                  conn.connectedUserId === connectedUserId
-                    ? { ...conn, isLocked: true }
-                    : conn
-                )
-              );
-              Alert.alert('Error', 'Failed to unlock user. Please try again.');
+              Alert.alert(t('connections.unlocked'), t('connections.unlockedMessage', { name: connectedUserName }));
+              return;
+            }
+
+            Alert.alert(
+              t('connections.approvalRecorded'),
+              t('connections.approvalRecordedMessage', {
+                approvals: result.approvals,
+                required: result.requiredApprovals,
+                name: connectedUserName,
+              })
+            );
+          },
+        },
+      ]
+    );
+  };
+
+  const changeLocationSharing = (connection: Connection): void => {
+    const applyMode = async (
+      mode: Parameters<typeof locationSharingService.setSharingMode>[1],
+      options?: Parameters<typeof locationSharingService.setSharingMode>[2]
+    ): Promise<void> => {
+      const result = await locationSharingService.setSharingMode(connection.connectedUserId, mode, options);
+      if (!result.success) {
+        Alert.alert(t('common.error'), result.message || t('connections.updateSharingFailed'));
+        return;
+      }
+      await loadConnections();
+      if (locationSharingEnabled) {
+        updateConnectionsLocation();
+      }
+    };
+    const inHours = (hours: number): string => new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+
+    Alert.alert(
+      t('connections.shareMyLocationTitle'),
+      t('connections.shareDurationPrompt', { name: connection.connectedUserName }),
+      [
+        { text: t('connections.shareAlways'), onPress: () => applyMode('always') },
+        { text: t('connections.shareOneHour'), onPress: () => applyMode('until', { until: inHours(1) }) },
+        { text: t('connections.shareEightHours'), onPress: () => applyMode('until', { until: inHours(8) }) },
+        { text: t('connections.shareUntilArrive'), onPress: () => applyMode('until_arrival') },
+        {
+          text: t('connections.shareWeekdays'),
+          onPress: () => applyMode('schedule', { days: [1, 2, 3, 4, 5], startTime: '07:00', endTime: '09:00' }),
+        },
+        { text: t('common.cancel'), style: 'cancel' },
+      ]
+    );
+  };
+
+  const endSilentSOS = async (connectedUserId: string, connectedUserName: string): Promise<void> => {
+    Alert.alert(
+      t('connections.markSafe'),
+      t('connections.markSafeMessage', { name: connectedUserName }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('connections.markSafe'),
+          style: 'default',
+          onPress: async () => {
+            const result = await accountLockService.endSilentSOS(connectedUserId);
+
+            if (!result.success) {
+              Alert.alert(t('common.error'), result.message || t('connections.endSilentSosFailed'));
+              return;
             }
+
+            setConnections((prev) =>
+              prev.map((conn) =>
+                conn.connectedUserId === connectedUserId
+                  ? { ...conn, isUnderDuress: false }
+                  : conn
+              )
+            );
+            Alert.alert(t('connections.markedSafe'), t('connections.markedSafeMessage', { name: connectedUserName }));
           },
         },
       ]
@@ -1508,7 +1591,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
 
   const getConnectionStatus = (connection: Connection): { isOnline: boolean; statusText: string } => {
     if (!connection.locationUpdatedAt) {
-      return { isOnline: false, statusText: 'Offline' };
+      return { isOnline: false, statusText: t('connections.offline') };
     }
 
     const locationUpdatedAt = new Date(connection.locationUpdatedAt).getTime();
@@ -1519,7 +1602,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
     const isOnline = locationUpdatedAt > fiveMinutesAgo;
     return { 
       isOnline, 
-      statusText: isOnline ? 'Online' : 'Offline' 
+      statusText: isOnline ? t('connections.online') : t('connections.offline')
     };
   };
 
@@ -1532,10 +1615,17 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
       const newValue = !currentValue;
       
       // Optimistically update the UI
+      // Turning sharing on or off also ends any time limit or schedule (server-side)
       setConnections((prev) =>
         prev.map((conn) =>
           conn.id === connectionId
-            ? { ...conn, locationSharingEnabled: newValue }
+            ? {
+                ...conn,
+                locationSharingEnabled: newValue,
+                mySharing: conn.mySharing
+                  ? { enabled: newValue, mode: 'always', until: null, tripId: null, days: [], startTime: null, endTime: null }
+                  : undefined,
+              }
             : conn
         )
       );
@@ -1556,7 +1646,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
               : conn
           )
         );
-        Alert.alert('Error', 'Failed to update location sharing setting. Please try again.');
+        Alert.alert(t('common.error'), t('connections.updateSharingFailed'));
         return;
       }
 
@@ -1576,9 +1666,9 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
       // Show alert when location sharing is turned off
       if (!newValue) {
         Alert.alert(
-          'Location Sharing Disabled',
-          `${connectedUserName} won't be able to see your live location.`,
-          [{ text: 'OK' }]
+          t('connections.sharingDisabledTitle'),
+          t('connections.sharingDisabledMessage', { name: connectedUserName }),
+          [{ text: t('common.ok') }]
         );
       }
 
@@ -1600,7 +1690,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
             : conn
         )
       );
-      Alert.alert('Error', 'Failed to update location sharing setting. Please try again.');
+      Alert.alert(t('common.error'), t('connections.updateSharingFailed'));
     }
   };
 
@@ -1640,7 +1730,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
         
         // Revert optimistic update on error
         loadConnections();
-        Alert.alert('Error', 'Failed to remove connection. Please try again.');
+        Alert.alert(t('common.error'), t('connections.removeFailed'));
         return;
       }
 
@@ -1663,7 +1753,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
               console.error('Error in removeConnection:', error);
       // Revert optimistic update on error
       loadConnections();
-              Alert.alert('Error', 'Failed to remove connection. Please try again.');
+              Alert.alert(t('common.error'), t('connections.removeFailed'));
             }
   };
 
@@ -1683,10 +1773,12 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
             <View style={styles.backButton} />
           )}
           <View style={styles.headerTitleContainer}>
-              <Text style={styles.headerTitle}>Connections</Text>
+              <Text style={styles.headerTitle}>{t('tabs.connections')}</Text>
             {connections.length > 0 && (
               <Text style={styles.headerSubtitle}>
-                {connections.length} {connections.length === 1 ? 'connection' : 'connections'}
+                {connections.length === 1
+                  ? t('home.connectionCount')
+                  : t('home.connectionsCount', { count: connections.length })}
               </Text>
             )}
           </View>
@@ -1709,7 +1801,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
         >
         {/* Quick Actions Section */}
         <View style={styles.quickActionsSection}>
-          <Text style={styles.sectionTitle}>Quick Actions</Text>
+          <Text style={styles.sectionTitle}>{t('connections.quickActions')}</Text>
           <View style={styles.quickActionsGrid}>
             <TouchableOpacity
               style={styles.quickActionCard}
@@ -1719,13 +1811,13 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
               <View style={[styles.quickActionIconContainer, styles.quickActionIconPrimary]}>
                 <Ionicons name="call" size={24} color="#007AFF" />
               </View>
-              <Text style={styles.quickActionTitle}>Invite by Phone</Text>
-              <Text style={styles.quickActionSubtitle}>Send invitation</Text>
+              <Text style={styles.quickActionTitle}>{t('connections.inviteByPhone')}</Text>
+              <Text style={styles.quickActionSubtitle}>{t('connections.sendInvitationSubtitle')}</Text>
             </TouchableOpacity>
 
             <TouchableOpacity
               style={styles.quickActionCard}
-              onPress={generateConnectionCode}
+              onPress={generateConnectionInvite}
               disabled={generatingCode}
               activeOpacity={0.7}
             >
@@ -1737,9 +1829,9 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                 )}
               </View>
               <Text style={styles.quickActionTitle}>
-                {generatingCode ? 'Generating...' : 'Generate Code'}
+                {generatingCode ? t('connections.generating') : t('connections.inviteLink')}
               </Text>
-              <Text style={styles.quickActionSubtitle}>Create code</Text>
+              <Text style={styles.quickActionSubtitle}>{t('connections.qrOrLink')}</Text>
             </TouchableOpacity>
 
             <TouchableOpacity
@@ -1748,18 +1840,28 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
               activeOpacity={0.7}
             >
               <View style={[styles.quickActionIconContainer, styles.quickActionIconTertiary]}>
-                <Ionicons name="keypad" size={24} color="#8B5CF6" />
+                <Ionicons name="link" size={24} color="#8B5CF6" />
               </View>
-              <Text style={styles.quickActionTitle}>Enter Code</Text>
-              <Text style={styles.quickActionSubtitle}>Connect now</Text>
+              <Text style={styles.quickActionTitle}>{t('connections.openInvite')}</Text>
+              <Text style={styles.quickActionSubtitle}>{t('connections.connectNow')}</Text>
             </TouchableOpacity>
           </View>
+
+          <TouchableOpacity
+            style={styles.findContactsButton}
+            onPress={() => navigation.navigate('FindContacts')}
+            activeOpacity={0.7}
+          >
+            <Ionicons name="people" size={20} color="#007AFF" />
+            <Text style={styles.findContactsButtonText}>{t('connections.findContacts')}</Text>
+            <Ionicons name="chevron-forward" size={18} color="#8E8E93" />
+          </TouchableOpacity>
               </View>
         {/* Pending Invitations Section */}
         {pendingInvitations.length > 0 && (
           <View style={styles.invitationsSection}>
             <View style={styles.sectionHeader}>
-              <Text style={styles.sectionTitle}>Pending Invitations</Text>
+              <Text style={styles.sectionTitle}>{t('connections.pendingInvitations')}</Text>
               <View style={styles.badge}>
                 <Text style={styles.badgeText}>{pendingInvitations.length}</Text>
               </View>
@@ -1776,7 +1878,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                     <View style={styles.invitationDetails}>
                       <Text style={styles.invitationName}>{invitation.inviterName}</Text>
                       <Text style={styles.invitationText}>
-                        Wants to connect with you
+                        {t('connections.wantsToConnect')}
                       </Text>
                     </View>
                   </View>
@@ -1787,7 +1889,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                       activeOpacity={0.8}
                     >
                       <Ionicons name="checkmark-circle" size={18} color="#FFFFFF" />
-                      <Text style={styles.acceptButtonText}>Accept</Text>
+                      <Text style={styles.acceptButtonText}>{t('connections.accept')}</Text>
                     </TouchableOpacity>
                     <TouchableOpacity
                       style={styles.rejectButton}
@@ -1795,7 +1897,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                       activeOpacity={0.8}
                     >
                       <Ionicons name="close-circle" size={18} color="#EF4444" />
-                      <Text style={styles.rejectButtonText}>Reject</Text>
+                      <Text style={styles.rejectButtonText}>{t('connections.reject')}</Text>
                     </TouchableOpacity>
                   </View>
                 </View>
@@ -1808,22 +1910,22 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
           {loading ? (
             <View style={styles.loadingContainer}>
               <ActivityIndicator size="large" color="#6366F1" />
-              <Text style={styles.loadingText}>Loading connections...</Text>
+              <Text style={styles.loadingText}>{t('connections.loading')}</Text>
             </View>
           ) : connections.length === 0 ? (
             <View style={styles.emptyState}>
               <View style={styles.emptyStateIcon}>
                 <Ionicons name="people-outline" size={80} color="#CBD5E1" />
               </View>
-              <Text style={styles.emptyStateTitle}>No connections yet</Text>
+              <Text style={styles.emptyStateTitle}>{t('connections.emptyTitle')}</Text>
               <Text style={styles.emptyStateSubtext}>
-                Start by inviting someone using the quick actions above
+                {t('connections.emptyText')}
               </Text>
             </View>
           ) : (
             <View style={styles.connectionsSection}>
               <View style={styles.sectionHeader}>
-                <Text style={styles.sectionTitle}>Your Connections</Text>
+                <Text style={styles.sectionTitle}>{t('connections.yourConnections')}</Text>
                 <View style={styles.badge}>
                   <Text style={styles.badgeText}>{connections.length}</Text>
                 </View>
@@ -1836,21 +1938,25 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                   return null;
                 }
                 
-                const displayName = connection.connectedUserName || 'Unknown User';
+                const displayName = connection.connectedUserName || t('connections.unknownUser');
+                const isInEmergency = connection.isLocked || connection.isUnderDuress;
+                const mySharingEnabled = connection.mySharing?.enabled ?? connection.locationSharingEnabled ?? true;
                 
                 return (
                   <View
                     key={connection.id} 
                     style={[
                       styles.connectionCard,
-                      connection.isLocked && styles.connectionCardEmergency
+                      isInEmergency && styles.connectionCardEmergency
                     ]}
                   >
                     {/* Emergency Banner */}
-                    {connection.isLocked && (
+                    {isInEmergency && (
                       <View style={styles.emergencyBanner}>
                         <Ionicons name="warning" size={16} color="#FFFFFF" />
-                        <Text style={styles.emergencyBannerText}>EMERGENCY</Text>
+                        <Text style={styles.emergencyBannerText}>
+                          {connection.isUnderDuress ? 'SILENT SOS' : 'EMERGENCY'}
+                        </Text>
                       </View>
                     )}
 
@@ -1860,7 +1966,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                       <View style={styles.avatarSection}>
                         <View style={[
                           styles.connectionAvatar,
-                          connection.isLocked && styles.connectionAvatarEmergency
+                          isInEmergency && styles.connectionAvatarEmergency
                         ]}>
                           <Text style={styles.connectionAvatarText}>
                             {displayName.charAt(0).toUpperCase()}
@@ -1878,7 +1984,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                         {/* Full Name - Prominent */}
                         <Text style={[
                           styles.connectionName,
-                          connection.isLocked && styles.connectionNameEmergency
+                          isInEmergency && styles.connectionNameEmergency
                         ]} numberOfLines={2}>
                           {displayName}
                         </Text>
@@ -1888,7 +1994,15 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                           <View style={styles.alertMessage}>
                             <Ionicons name="alert-circle" size={14} color="#DC2626" />
                             <Text style={styles.alertMessageText}>
-                              Account locked - needs assistance
+                              {t('connections.accountLocked')}
+                            </Text>
+                          </View>
+                        )}
+                        {connection.isUnderDuress && (
+                          <View style={styles.alertMessage}>
+                            <Ionicons name="eye-off" size={14} color="#DC2626" />
+                            <Text style={styles.alertMessageText}>
+                              {t('connections.underDuress')}
                             </Text>
                           </View>
                         )}
@@ -1896,7 +2010,15 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                           <View style={styles.infoMessage}>
                             <Ionicons name="location-outline" size={12} color="#64748B" />
                             <Text style={styles.infoMessageText}>
-                              Location sharing disabled
+                              {t('connections.sharingDisabled')}
+                            </Text>
+                          </View>
+                        )}
+                        {connection.locationSharingEnabled && connection.sharingWithMe && connection.sharingWithMe.mode !== 'always' && (
+                          <View style={styles.infoMessage}>
+                            <Ionicons name="time-outline" size={12} color="#64748B" />
+                            <Text style={styles.infoMessageText}>
+                              {t('connections.sharingWithYou', { status: describeLocationSharing(connection.sharingWithMe, now, language) })}
                             </Text>
                           </View>
                         )}
@@ -1948,7 +2070,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                           activeOpacity={0.7}
                         >
                           <Ionicons name="map" size={18} color="#FFFFFF" />
-                          <Text style={styles.mapButtonFullWidthText}>View on Map</Text>
+                          <Text style={styles.mapButtonFullWidthText}>{t('connections.viewOnMap')}</Text>
                         </TouchableOpacity>
                       )}
                       
@@ -1958,55 +2080,87 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                         onPress={() => {
                           Alert.alert(
                             connection.connectedUserName,
-                            'Choose an action',
+                            t('connections.chooseAction'),
                             [
+                              ...(isInEmergency
+                                ? [{
+                                    text: t('connections.viewSos'),
+                                    onPress: () => navigation.navigate('SOSEvent', { userId: connection.connectedUserId }),
+                                    style: 'default' as const,
+                                  }]
+                                : []),
+                              // Accounts can only be locked by their owner (SOS)
+                              ...(connection.isLocked
+                                ? [{
+                                    text: t('connections.approveUnlock'),
+                                    onPress: () => unlockUser(connection.connectedUserId, connection.connectedUserName),
+                                    style: 'default' as const,
+                                  }]
+                                : []),
+                              ...(connection.isUnderDuress
+                                ? [{
+                                    text: t('connections.markSafeEndSos'),
+                                    onPress: () => endSilentSOS(connection.connectedUserId, connection.connectedUserName),
+                                    style: 'default' as const,
+                                  }]
+                                : []),
                               {
-                                text: connection.isLocked ? 'Unlock Account' : 'Lock Account',
-                                onPress: () => {
-                                  if (connection.isLocked) {
-                                    unlockUser(connection.connectedUserId, connection.connectedUserName);
-                                  }
-                                },
-                                style: connection.isLocked ? 'default' : 'cancel',
-                              },
-                              {
-                                text: 'Remove Connection',
+                                text: t('connections.removeConnection'),
                                 onPress: () => removeConnection(connection.id, connection.connectedUserName),
                                 style: 'destructive',
                               },
-                              { text: 'Cancel', style: 'cancel' },
+                              { text: t('common.cancel'), style: 'cancel' },
                             ]
                           );
                         }}
                         activeOpacity={0.7}
                       >
                         <Ionicons name="ellipsis-horizontal" size={18} color="#64748B" />
-                        <Text style={styles.menuButtonFullWidthText}>More Options</Text>
+                        <Text style={styles.menuButtonFullWidthText}>{t('connections.moreOptions')}</Text>
                       </TouchableOpacity>
                     </View>
 
                     {/* Location Sharing Toggle */}
+                    {/* A time-limited share that ended switches off on their row only */}
                     <View style={styles.toggleSection}>
                       <View style={styles.toggleContent}>
                         <Ionicons 
-                          name={connection.locationSharingEnabled ? "location" : "location-outline"} 
+                          name={mySharingEnabled ? "location" : "location-outline"} 
                           size={18} 
-                          color={connection.locationSharingEnabled ? "#10B981" : "#94A3B8"} 
+                          color={mySharingEnabled ? "#10B981" : "#94A3B8"} 
                         />
-                        <Text style={[
-                          styles.toggleLabel,
-                          !connection.locationSharingEnabled && styles.toggleLabelDisabled
-                        ]}>
-                          Share my location
-                        </Text>
+                        <View style={styles.toggleTextContainer}>
+                          <Text style={[
+                            styles.toggleLabel,
+                            !mySharingEnabled && styles.toggleLabelDisabled
+                          ]}>
+                            {t('connections.shareMyLocation')}
+                          </Text>
+                          {mySharingEnabled && (
+                            <Text style={styles.toggleSubLabel}>
+                              {describeLocationSharing(connection.mySharing, now, language)}
+                              {connection.mySharing?.mode === 'schedule' && !isLocationSharingActive(connection.mySharing, new Date(now))
+                                ? t('connections.pausedNow')
+                                : ''}
+                            </Text>
+                          )}
+                        </View>
+                        {mySharingEnabled && (
+                          <TouchableOpacity
+                            onPress={() => changeLocationSharing(connection)}
+                            activeOpacity={0.7}
+                          >
+                            <Text style={styles.toggleChangeText}>{t('connections.change')}</Text>
+                          </TouchableOpacity>
+                        )}
                       </View>
                       <Switch
-                        value={connection.locationSharingEnabled ?? true}
+                        value={mySharingEnabled}
                         onValueChange={() => toggleLocationSharing(
                           connection.id,
                           connection.connectedUserId,
                           connection.connectedUserName,
-                          connection.locationSharingEnabled ?? true
+                          mySharingEnabled
                         )}
                         trackColor={{ false: '#E2E8F0', true: '#10B981' }}
                         thumbColor="#FFFFFF"
@@ -2047,7 +2201,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
               onPress={(e) => e.stopPropagation()}
             >
               <View style={styles.invitePhoneModalHeader}>
-                <Text style={styles.invitePhoneModalTitle}>Invite by Phone</Text>
+                <Text style={styles.invitePhoneModalTitle}>{t('connections.inviteByPhone')}</Text>
                 <TouchableOpacity
                   onPress={() => {
                     setShowInviteByPhoneModal(false);
@@ -2065,7 +2219,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                     <TextInput
                       ref={phoneInputRef}
                       style={styles.phoneInput}
-                    placeholder="Enter 11-digit phone number"
+                    placeholder={t('connections.phonePlaceholder')}
                       placeholderTextColor="#8E8E93"
                       value={phoneInput}
                       onChangeText={(text) => {
@@ -2091,7 +2245,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                     ) : (
                       <>
                       <Ionicons name="send" size={18} color="#FFFFFF" />
-                      <Text style={styles.invitePhoneModalButtonText}>Send Invitation</Text>
+                      <Text style={styles.invitePhoneModalButtonText}>{t('connections.sendInvitation')}</Text>
                       </>
                     )}
                   </TouchableOpacity>
@@ -2099,7 +2253,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                 <View style={styles.invitePhoneModalInfo}>
                   <Ionicons name="information-circle-outline" size={14} color="#8E8E93" />
                   <Text style={styles.invitePhoneModalInfoText}>
-                    Invitation expires in 7 days
+                    {t('connections.invitationExpires')}
                     </Text>
                   </View>
                 </View>
@@ -2108,66 +2262,88 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
         </Pressable>
       </Modal>
 
-      {/* Generate Connection Code Modal */}
+      {/* Connection Invite Modal */}
       <Modal
         visible={showGenerateCodeModal}
         animationType="fade"
         transparent={true}
-        onRequestClose={() => {
-          setShowGenerateCodeModal(false);
-          setConnectionCode('');
-        }}
+        onRequestClose={closeInviteModal}
       >
         <Pressable
           style={styles.modalOverlay}
-          onPress={() => {
-            setShowGenerateCodeModal(false);
-            setConnectionCode('');
-          }}
+          onPress={closeInviteModal}
         >
           <Pressable
             style={styles.invitePhoneModalContent}
             onPress={(e) => e.stopPropagation()}
           >
             <View style={styles.invitePhoneModalHeader}>
-              <Text style={styles.invitePhoneModalTitle}>Your Connection Code</Text>
+              <Text style={styles.invitePhoneModalTitle}>{t('connections.yourInvite')}</Text>
+              <TouchableOpacity
+                onPress={closeInviteModal}
+                style={styles.invitePhoneModalCloseButton}
+              >
+                <Ionicons name="close" size={24} color="#000000" />
+              </TouchableOpacity>
+            </View>
+
+            {connectionInvite && (
+              <View style={styles.invitePhoneModalBody}>
+                <View style={styles.inviteQrContainer}>
+                  <QRCode value={connectionInvite.link} size={220} />
+                </View>
+
+                <Text style={styles.codeDisplayHint}>
+                  {t('connections.inviteHint', {
+                    time: new Date(connectionInvite.expiresAt).toLocaleString(locale, {
+                      weekday: 'short',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                    }),
+                  })}
+                </Text>
+
                 <TouchableOpacity
-                  onPress={() => {
-                  setShowGenerateCodeModal(false);
-                  setConnectionCode('');
+                  style={styles.invitePhoneModalButton}
+                  onPress={async () => {
+                    try {
+                      await Share.share({
+                        message: t('connections.shareMessage', { link: connectionInvite.link }),
+                      });
+                    } catch (error) {
+                      console.error('Error sharing invite:', error);
+                    }
                   }}
-                style={styles.invitePhoneModalCloseButton}
                 >
-                  <Ionicons name="close" size={24} color="#000000" />
+                  <Ionicons name="share-outline" size={18} color="#FFFFFF" />
+                  <Text style={styles.invitePhoneModalButtonText}>{t('connections.shareLink')}</Text>
                 </TouchableOpacity>
-              </View>
-              
-            <View style={styles.invitePhoneModalBody}>
-              <View style={styles.codeDisplayContainer}>
-                <Text style={styles.codeDisplayText}>{connectionCode}</Text>
-                  </View>
 
-              <Text style={styles.codeDisplayHint}>
-                Share this code with others to connect. The code expires in 24 hours.
-                        </Text>
+                <TouchableOpacity
+                  style={styles.inviteSecondaryButton}
+                  onPress={async () => {
+                    await Clipboard.setStringAsync(connectionInvite.link);
+                    Alert.alert(t('connections.copied'), t('connections.linkCopied'));
+                  }}
+                >
+                  <Ionicons name="copy-outline" size={18} color="#007AFF" />
+                  <Text style={styles.inviteSecondaryButtonText}>{t('connections.copyLink')}</Text>
+                </TouchableOpacity>
 
-              <TouchableOpacity
-                style={styles.invitePhoneModalButton}
-                onPress={async () => {
-                  // Copy to clipboard
-                  await Clipboard.setStringAsync(connectionCode);
-                  Alert.alert('Copied!', 'Connection code copied to clipboard.');
-                }}
-              >
-                <Ionicons name="copy-outline" size={18} color="#FFFFFF" />
-                <Text style={styles.invitePhoneModalButtonText}>Copy Code</Text>
-              </TouchableOpacity>
-                      </View>
+                <TouchableOpacity
+                  style={styles.inviteSecondaryButton}
+                  onPress={revokeConnectionInvite}
+                >
+                  <Ionicons name="close-circle-outline" size={18} color="#DC2626" />
+                  <Text style={[styles.inviteSecondaryButtonText, styles.inviteRevokeButtonText]}>{t('connections.cancelInvite')}</Text>
+                </TouchableOpacity>
+              </View>
+            )}
           </Pressable>
         </Pressable>
       </Modal>
 
-      {/* Enter Connection Code Modal */}
+      {/* Open Invite Link Modal */}
       <Modal
         visible={showEnterCodeModal}
         animationType="fade"
@@ -2193,7 +2369,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
               onPress={(e) => e.stopPropagation()}
             >
               <View style={styles.invitePhoneModalHeader}>
-                <Text style={styles.invitePhoneModalTitle}>Enter Connection Code</Text>
+                <Text style={styles.invitePhoneModalTitle}>{t('connections.openInvite')}</Text>
                 <TouchableOpacity
                   onPress={() => {
                     setShowEnterCodeModal(false);
@@ -2207,37 +2383,34 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
 
               <View style={styles.invitePhoneModalBody}>
                   <View style={styles.phoneInputContainer}>
-                  <Ionicons name="keypad-outline" size={20} color="#007AFF" style={styles.phoneInputIcon} />
+                  <Ionicons name="link-outline" size={20} color="#007AFF" style={styles.phoneInputIcon} />
                     <TextInput
                     ref={codeInputRef}
                       style={styles.phoneInput}
-                    placeholder="Enter 6-digit code"
+                    placeholder={t('connections.pasteInvitePlaceholder')}
                       placeholderTextColor="#8E8E93"
                     value={codeInput}
-                      onChangeText={(text) => {
-                      const digitsOnly = text.replace(/\D/g, '').slice(0, 6);
-                      setCodeInput(digitsOnly);
-                      }}
-                    keyboardType="number-pad"
+                    onChangeText={setCodeInput}
+                    autoCapitalize="none"
+                    autoCorrect={false}
                     autoFocus={true}
-                    maxLength={6}
                     />
                   </View>
 
                   <TouchableOpacity
                     style={[
                     styles.invitePhoneModalButton,
-                    (!codeInput.trim() || connectingByCode || codeInput.length !== 6) && styles.invitePhoneModalButtonDisabled,
+                    (!codeInput.trim() || connectingByCode) && styles.invitePhoneModalButtonDisabled,
                     ]}
-                  onPress={connectByCode}
-                  disabled={!codeInput.trim() || connectingByCode || codeInput.length !== 6}
+                  onPress={connectByInviteLink}
+                  disabled={!codeInput.trim() || connectingByCode}
                   >
                   {connectingByCode ? (
                       <ActivityIndicator size="small" color="#FFFFFF" />
                     ) : (
                       <>
                       <Ionicons name="checkmark-circle" size={18} color="#FFFFFF" />
-                      <Text style={styles.invitePhoneModalButtonText}>Connect</Text>
+                      <Text style={styles.invitePhoneModalButtonText}>{t('connections.connect')}</Text>
                       </>
                     )}
                   </TouchableOpacity>
@@ -2245,7 +2418,7 @@ export default function ConnectionScreen({ navigation }: ConnectionScreenProps)
                 <View style={styles.invitePhoneModalInfo}>
                   <Ionicons name="information-circle-outline" size={14} color="#8E8E93" />
                   <Text style={styles.invitePhoneModalInfoText}>
-                    Enter the 6-digit code shared by the other person
+                    {t('connections.openInviteHint')}
                     </Text>
                   </View>
                 </View>
@@ -2396,6 +2569,23 @@ const styles = StyleSheet.create({
     color: '#6B7280',
     textAlign: 'center',
   },
+  findContactsButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 16,
+    marginTop: 12,
+    borderWidth: 1,
+    borderColor: '#F1F5F9',
+  },
+  findContactsButtonText: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
   quickActionButtonsContainer: {
     flexDirection: 'row',
     gap: 12,
@@ -3067,6 +3257,21 @@ const styles = StyleSheet.create({
   toggleLabelDisabled: {
     color: '#94A3B8',
   },
+  toggleTextContainer: {
+    flex: 1,
+  },
+  toggleSubLabel: {
+    fontSize: 12,
+    color: '#64748B',
+    fontWeight: '500',
+    marginTop: 2,
+  },
+  toggleChangeText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+    marginRight: 12,
+  },
   emergencyBanner: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -3545,21 +3750,14 @@ const styles = StyleSheet.create({
   connectButtonTextSecondary: {
     color: '#007AFF',
   },
-  codeDisplayContainer: {
-    backgroundColor: '#F0F7FF',
+  inviteQrContainer: {
+    alignSelf: 'center',
+    padding: 12,
+    backgroundColor: '#FFFFFF',
     borderRadius: 16,
-    padding: 24,
-    alignItems: 'center',
+    borderWidth: 1,
+    borderColor: '#E2E8F0',
     marginBottom: 16,
-    borderWidth: 2,
-    borderColor: '#007AFF',
-  },
-  codeDisplayText: {
-    fontSize: 36,
-    fontWeight: 'bold',
-    color: '#007AFF',
-    letterSpacing: 8,
-    fontFamily: Platform.OS === 'ios' ? 'Menlo' : 'monospace',
   },
   codeDisplayHint: {
     fontSize: 13,
@@ -3568,4 +3766,19 @@ const styles = StyleSheet.create({
     marginBottom: 16,
     lineHeight: 18,
   },
+  inviteSecondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 12,
+    gap: 8,
+  },
+  inviteSecondaryButtonText: {
+    color: '#007AFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  inviteRevokeButtonText: {
+    color: '#DC2626',
+  },
 });
@@ -12,6 +12,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import { useAuth } from '../context/AuthContext';
+import { useUserSettings } from '../context/UserSettingsContext';
 import type { RootStackParamList } from '../types';
 
 type EditProfileScreenNavigationProp = StackNavigationProp<RootStackParamList, 'EditProfile'>;
@@ -22,6 +23,7 @@ interface EditProfileScreenProps {
 
 export default function EditProfileScreen({ navigation }: EditProfileScreenProps) {
   const { user, updateUser } = useAuth();
+  const { t } = useUserSettings();
   const [name, setName] = useState(user?.name || '');
   const [email, setEmail] = useState(user?.email || '');
   const [phone, setPhone] = useState(user?.phone || '');
@@ -29,7 +31,7 @@ export default function EditProfileScreen({ navigation }: EditProfileScreenProps
 
   const handleSave = async () => {
     if (!name.trim()) {
-      Alert.alert('Error', 'Name is required');
+      Alert.alert(t('common.error'), t('editProfile.nameRequired'));
       return;
     }
 
@@ -39,12 +41,12 @@ export default function EditProfileScreen({ navigation }: EditProfileScreenProps
         name: name.trim(),
         // Email and phone are readonly, so we don't update them
       });
-      Alert.alert('Success', 'Profile updated successfully', [
-        { text: 'OK', onPress: () => navigation.goBack() },
+      Alert.alert(t('common.success'), t('editProfile.saved'), [
+        { text: t('common.ok'), onPress: () => navigation.goBack() },
       ]);
     } catch (error) {
       console.error('Error updating profile:', error);
-      Alert.alert('Error', 'Failed to update profile. Please try again.');
+      Alert.alert(t('common.error'), t('editProfile.saveFailed'));
     } finally {
       setLoading(false);
     }
@@ -56,30 +58,30 @@ export default function EditProfileScreen({ navigation }: EditProfileScreenProps
         <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
           <Ionicons name="arrow-back" size={24} color="#000000" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Edit Profile</Text>
+        <Text style={styles.headerTitle}>{t('profile.editProfile')}</Text>
         <View style={styles.placeholder} />
       </View>
 
       <View style={styles.content}>
         <View style={styles.section}>
-          <Text style={styles.label}>Name</Text>
+          <Text style={styles.label}>{t('editProfile.name')}</Text>
           <TextInput
             style={styles.input}
             value={name}
             onChangeText={setName}
-            placeholder="Enter your name"
+            placeholder={t('editProfile.namePlaceholder')}
             placeholderTextColor="#8E8E93"
             autoCapitalize="words"
           />
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.label}>Email</Text>
+          <Text style={styles.label}>{t('editProfile.email')}</Text>
           <TextInput
             style={[styles.input, styles.readonlyInput]}
             value={email}
             editable={false}
-            placeholder="Enter your email"
+            placeholder={t('editProfile.emailPlaceholder')}
             placeholderTextColor="#8E8E93"
             keyboardType="email-address"
             autoCapitalize="none"
@@ -88,12 +90,12 @@ export default function EditProfileScreen({ navigation }: EditProfileScreenProps
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.label}>Phone</Text>
+          <Text style={styles.label}>{t('editProfile.phone')}</Text>
           <TextInput
             style={[styles.input, styles.readonlyInput]}
             value={phone}
             editable={false}
-            placeholder="Enter your phone number"
+            placeholder={t('editProfile.phonePlaceholder')}
             placeholderTextColor="#8E8E93"
             keyboardType="phone-pad"
           />
@@ -107,7 +109,7 @@ export default function EditProfileScreen({ navigation }: EditProfileScreenProps
           {loading ? (
             <ActivityIndicator color="#FFFFFF" />
           ) : (
-            <Text style={styles.saveButtonText}>Save Changes</Text>
+            <Text style={styles.saveButtonText}>{t('editProfile.save')}</Text>
           )}
         </TouchableOpacity>
       </View>
@@ -12,6 +12,7 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import { useAuth } from '../context/AuthContext';
+import { useUserSettings } from '../context/UserSettingsContext';
 import type { RootStackParamList } from '../types';
 
 type EmergencyNotesScreenNavigationProp = StackNavigationProp<RootStackParamList, 'EmergencyNotes'>;
@@ -22,6 +23,7 @@ interface EmergencyNotesScreenProps {
 
 export default function EmergencyNotesScreen({ navigation }: EmergencyNotesScreenProps) {
   const { user, updateUser } = useAuth();
+  const { t } = useUserSettings();
   const [notes, setNotes] = useState(user?.emergencyNotes || '');
   const [loading, setLoading] = useState(false);
 
@@ -31,12 +33,12 @@ export default function EmergencyNotesScreen({ navigation }: EmergencyNotesScree
       await updateUser({
         emergencyNotes: notes.trim() || null,
       });
-      Alert.alert('Success', 'Emergency notes updated successfully', [
-        { text: 'OK', onPress: () => navigation.goBack() },
+      Alert.alert(t('common.success'), t('emergencyNotes.saved'), [
+        { text: t('common.ok'), onPress: () => navigation.goBack() },
       ]);
     } catch (error) {
       console.error('Error updating emergency notes:', error);
-      Alert.alert('Error', 'Failed to update emergency notes. Please try again.');
+      Alert.alert(t('common.error'), t('emergencyNotes.saveFailed'));
     } finally {
       setLoading(false);
     }
@@ -48,14 +50,13 @@ export default function EmergencyNotesScreen({ navigation }: EmergencyNotesScree
         <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
           <Ionicons name="arrow-back" size={24} color="#000000" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Emergency Notes</Text>
+        <Text style={styles.headerTitle}>{t('profile.emergencyNotes')}</Text>
         <View style={styles.placeholder} />
       </View>
 
       <View style={styles.content}>
         <Text style={styles.description}>
-          Add important medical information, allergies, medications, or emergency contacts that
-          should be visible to your connections in case of an emergency.
+          {t('emergencyNotes.description')}
         </Text>
 
         <View style={styles.section}>
@@ -63,7 +64,7 @@ export default function EmergencyNotesScreen({ navigation }: EmergencyNotesScree
             style={styles.textArea}
             value={notes}
             onChangeText={setNotes}
-            placeholder="Enter emergency notes..."
+            placeholder={t('emergencyNotes.placeholder')}
             placeholderTextColor="#8E8E93"
             multiline
             numberOfLines={10}
@@ -79,7 +80,7 @@ export default function EmergencyNotesScreen({ navigation }: EmergencyNotesScree
           {loading ? (
             <ActivityIndicator color="#FFFFFF" />
           ) : (
-            <Text style={styles.saveButtonText}>Save Notes</Text>
+            <Text style={styles.saveButtonText}>{t('emergencyNotes.save')}</Text>
           )}
         </TouchableOpacity>
       </View>
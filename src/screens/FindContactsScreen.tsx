@@ -0,0 +1,418 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  SectionList,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  Linking,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import type { ContactMatch, RootStackParamList } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useUserSettings } from '../context/UserSettingsContext';
+import { supabase } from '../lib/supabase';
+import { contactsService } from '../services/contactsService';
+import { inviteService } from '../services/inviteService';
+import { SUPPORTED_REGIONS } from '../i18n';
+
+type FindContactsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'FindContacts'>;
+
+interface FindContactsScreenProps {
+  navigation: FindContactsScreenNavigationProp;
+}
+
+export default function FindContactsScreen({ navigation }: FindContactsScreenProps) {
+  const { user } = useAuth();
+  const { region, t } = useUserSettings();
+  const [contacts, setContacts] = useState<ContactMatch[]>([]);
+  const [searched, setSearched] = useState<boolean>(false);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [busyContactId, setBusyContactId] = useState<string | null>(null);
+  const [query, setQuery] = useState<string>('');
+
+  const regionName = SUPPORTED_REGIONS.find((r) => r.code === region)?.name || region;
+
+  const findContacts = useCallback(async (): Promise<void> => {
+    setLoading(true);
+    try {
+      const { contacts: found, message } = await contactsService.findContacts(region);
+      setContacts(found);
+      setSearched(true);
+      if (message) {
+        Alert.alert(t('findContacts.someNotChecked'), message);
+      }
+    } finally {
+      setLoading(false);
+    }
+  }, [region, t]);
+
+  useEffect(() => {
+    // Access was granted before - search again without asking
+    const searchIfAllowed = async () => {
+      if (await contactsService.hasPermission()) {
+        findContacts();
+      }
+    };
+    searchIfAllowed();
+  }, [findContacts]);
+
+  const handleFindContacts = async (): Promise<void> => {
+    const granted = await contactsService.requestPermission();
+    if (!granted) {
+      Alert.alert(
+        t('findContacts.accessNeeded'),
+        t('findContacts.accessNeededMessage'),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          { text: t('common.openSettings'), onPress: () => Linking.openSettings() },
+        ]
+      );
+      return;
+    }
+
+    await findContacts();
+  };
+
+  const handleConnect = async (contact: ContactMatch): Promise<void> => {
+    if (!contact.userId || !user) return;
+
+    setBusyContactId(contact.contactId);
+    try {
+      const result = await contactsService.inviteUser(contact.userId);
+      if (!result.success) {
+        Alert.alert(t('common.error'), result.message || t('findContacts.inviteFailed'));
+        return;
+      }
+
+      setContacts((prev) =>
+        prev.map((c) => (c.contactId === contact.contactId ? { ...c, invitationPending: true } : c))
+      );
+
+      if (result.message === 'Invitation already sent') return;
+
+      // Send push notification to the invitee (the in-app notification is created server-side)
+      try {
+        const { error: pushError } = await supabase.functions.invoke('send-push-notification', {
+          body: {
+            user_ids: [contact.userId],
+            title: 'Connection Invitation',
+            body: `${user.name} wants to connect with you`,
+            data: {
+              type: 'connection_invitation',
+              inviterUserId: user.id,
+              inviterName: user.name,
+              timestamp: new Date().toISOString(),
+            },
+          },
+        });
+
+        if (pushError) {
+          console.error('Error sending connection request push notification:', pushError);
+        }
+      } catch (pushError: any) {
+        console.error('Exception sending connection request push notification:', pushError);
+      }
+    } finally {
+      setBusyContactId(null);
+    }
+  };
+
+  const handleInvite = async (contact: ContactMatch): Promise<void> => {
+    setBusyContactId(contact.contactId);
+    try {
+      const { sent, message } = await inviteService.sendInviteBySms(contact.phoneNumber);
+      if (!sent) {
+        Alert.alert(t('common.error'), message || t('findContacts.inviteLinkFailed'));
+      }
+    } catch (error) {
+      console.error('Error opening SMS invite:', error);
+      Alert.alert(t('common.error'), t('findContacts.messagesUnavailable'));
+    } finally {
+      setBusyContactId(null);
+    }
+  };
+
+  const sections = useMemo(() => {
+    const search = query.trim().toLowerCase();
+    const searchDigits = search.replace(/\D/g, '');
+    const filtered = search
+      ? contacts.filter(
+          (c) =>
+            c.contactName.toLowerCase().includes(search) ||
+            (c.userName || '').toLowerCase().includes(search) ||
+            (!!searchDigits && c.phoneNumber.includes(searchDigits))
+        )
+      : contacts;
+
+    return [
+      { title: t('findContacts.onFamGuards'), data: filtered.filter((c) => c.userId) },
+      { title: t('findContacts.inviteToFamGuards'), data: filtered.filter((c) => !c.userId) },
+    ].filter((section) => section.data.length > 0);
+  }, [contacts, query, t]);
+
+  const renderAction = (contact: ContactMatch) => {
+    if (busyContactId === contact.contactId) {
+      return <ActivityIndicator size="small" color="#007AFF" />;
+    }
+
+    if (contact.userId) {
+      if (contact.isConnected) {
+        return <Text style={styles.statusText}>{t('findContacts.connected')}</Text>;
+      }
+      if (contact.invitationPending) {
+        return <Text style={styles.statusText}>{t('findContacts.invited')}</Text>;
+      }
+      return (
+        <TouchableOpacity
+          style={styles.actionButton}
+          onPress={() => handleConnect(contact)}
+          disabled={!!busyContactId}
+        >
+          <Text style={styles.actionButtonText}>{t('findContacts.connect')}</Text>
+        </TouchableOpacity>
+      );
+    }
+
+    return (
+      <TouchableOpacity
+        style={[styles.actionButton, styles.actionButtonSecondary]}
+        onPress={() => handleInvite(contact)}
+        disabled={!!busyContactId}
+      >
+        <Text style={[styles.actionButtonText, styles.actionButtonTextSecondary]}>{t('findContacts.invite')}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderIntro = () => (
+    <View style={styles.introContainer}>
+      <Ionicons name="people-outline" size={56} color="#007AFF" />
+      <Text style={styles.introTitle}>{t('findContacts.introTitle')}</Text>
+      <Text style={styles.description}>
+        {t('findContacts.introDescription')}
+      </Text>
+      <TouchableOpacity
+        style={[styles.primaryButton, loading && styles.buttonDisabled]}
+        onPress={handleFindContacts}
+        disabled={loading}
+      >
+        {loading ? (
+          <ActivityIndicator size="small" color="#FFFFFF" />
+        ) : (
+          <>
+            <Ionicons name="search" size={18} color="#FFFFFF" />
+            <Text style={styles.primaryButtonText}>{t('findContacts.title')}</Text>
+          </>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#000000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('findContacts.title')}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      {!searched ? (
+        renderIntro()
+      ) : (
+        <SectionList
+          style={styles.content}
+          sections={sections}
+          keyExtractor={(item) => item.contactId}
+          keyboardShouldPersistTaps="handled"
+          stickySectionHeadersEnabled={false}
+          refreshing={loading}
+          onRefresh={findContacts}
+          ListHeaderComponent={
+            <View>
+              <TouchableOpacity onPress={() => navigation.navigate('LanguageRegion')}>
+                <Text style={styles.hintText}>
+                  {t('findContacts.regionHint', { region: regionName })}{' '}
+                  <Text style={styles.linkText}>{t('findContacts.changeRegion')}</Text>
+                </Text>
+              </TouchableOpacity>
+              <TextInput
+                style={styles.input}
+                value={query}
+                onChangeText={setQuery}
+                placeholder={t('findContacts.search')}
+                placeholderTextColor="#C7C7CC"
+                autoCorrect={false}
+              />
+            </View>
+          }
+          ListEmptyComponent={
+            <Text style={styles.emptyText}>
+              {query ? t('findContacts.noMatches') : t('findContacts.noValidNumbers')}
+            </Text>
+          }
+          renderSectionHeader={({ section }) => (
+            <Text style={styles.sectionTitle}>{section.title}</Text>
+          )}
+          renderItem={({ item }) => (
+            <View style={styles.contactRow}>
+              <View style={styles.contactContent}>
+                <Text style={styles.contactName} numberOfLines={1}>{item.contactName}</Text>
+                <Text style={styles.contactDetail} numberOfLines={1}>
+                  {item.userName && item.userName !== item.contactName
+                    ? t('findContacts.userOnFamGuards', { name: item.userName })
+                    : item.phoneNumber}
+                </Text>
+              </View>
+              {renderAction(item)}
+            </View>
+          )}
+        />
+      )}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  placeholder: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+    paddingHorizontal: 16,
+  },
+  introContainer: {
+    alignItems: 'center',
+    padding: 32,
+    gap: 16,
+  },
+  introTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  description: {
+    fontSize: 14,
+    color: '#8E8E93',
+    lineHeight: 20,
+    textAlign: 'center',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 16,
+    marginBottom: 12,
+  },
+  linkText: {
+    color: '#007AFF',
+    fontWeight: '600',
+  },
+  input: {
+    borderWidth: 1.5,
+    borderColor: '#E5E5EA',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#000000',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  contactRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  contactContent: {
+    flex: 1,
+  },
+  contactName: {
+    fontSize: 16,
+    color: '#000000',
+  },
+  contactDetail: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  statusText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    fontWeight: '500',
+  },
+  actionButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+  },
+  actionButtonSecondary: {
+    backgroundColor: '#F2F2F7',
+  },
+  actionButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  actionButtonTextSecondary: {
+    color: '#007AFF',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    padding: 16,
+    alignSelf: 'stretch',
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 16,
+  },
+});
@@ -15,18 +15,17 @@ import {
 import * as ExpoLocation from 'expo-location';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
-import Constants from 'expo-constants';
 import type { CompositeNavigationProp } from '@react-navigation/native';
 import type { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import { useConnection } from '../context/ConnectionContext';
 import { useAuth } from '../context/AuthContext';
 import { useAppSetting } from '../context/AppSettingContext';
+import { useUserSettings } from '../context/UserSettingsContext';
 import { locationService } from '../services/locationService';
-import { incidentProximityService } from '../services/incidentProximityService';
+import { sosService } from '../services/sosService';
 import { supabase } from '../lib/supabase';
-import type { MainTabParamList, RootStackParamList, Location } from '../types';
-import type { FamilyMember } from '../types';
+import type { MainTabParamList, RootStackParamList, Location, SOSOutboxEntry, SOSRecipient } from '../types';
 
 type HomeScreenNavigationProp = CompositeNavigationProp<
   BottomTabNavigationProp<MainTabParamList, 'Home'>,
@@ -41,6 +40,7 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
   const { connections, locationSharingEnabled, setLocationSharingEnabled, refreshConnections } = useConnection();
   const { user } = useAuth();
   const { hideReportIncident, sosLock } = useAppSetting();
+  const { t } = useUserSettings();
   const [togglingLocation, setTogglingLocation] = useState<boolean>(false);
   const [userLocation, setUserLocation] = useState<Location>({
     latitude: 37.78825,
@@ -52,6 +52,7 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
   const locationWatchSubscriptionRef = useRef<ExpoLocation.LocationSubscription | null>(null);
   const locationHistoryChannelRef = useRef<any>(null);
   const [showEmergencySentAlert, setShowEmergencySentAlert] = useState<boolean>(false);
+  const [sosEntry, setSosEntry] = useState<SOSOutboxEntry | null>(null);
   const alertScale = useRef(new Animated.Value(0)).current;
   const alertOpacity = useRef(new Animated.Value(0)).current;
   const emergencyNavigationTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -184,11 +185,6 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
 
           updateUserLocationDebounced(initialLocation);
           
-          // Trigger incident proximity check after initial location is saved
-          incidentProximityService.triggerCheck().catch((error) => {
-            console.error('Error triggering incident proximity check:', error);
-          });
-          
           if (__DEV__) {
             console.log('Initial location saved to history with accuracy:', initialAccuracy);
           }
@@ -225,11 +221,6 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
               await locationService.saveLocationToHistory(user.id, currentLocation, false, locationAccuracy);
               updateUserLocationDebounced(currentLocation);
               
-              // Trigger incident proximity check after location update
-              incidentProximityService.triggerCheck().catch((error) => {
-                console.error('Error triggering incident proximity check:', error);
-              });
-              
               if (__DEV__) {
                 console.log('Location history updated (hourly update) with accuracy:', locationAccuracy);
               }
@@ -392,9 +383,6 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     }
     
     setupLocationHistorySubscription();
-    
-    // Start periodic incident proximity checking
-    incidentProximityService.startPeriodicChecking();
 
     return () => {
       isMounted = false;
@@ -405,8 +393,6 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
         initDelayTimeout = null;
       }
       
-      // Stop periodic incident proximity checking
-      incidentProximityService.stopPeriodicChecking();
       if (locationWatchSubscriptionRef.current) {
         locationWatchSubscriptionRef.current.remove();
         locationWatchSubscriptionRef.current = null;
@@ -422,6 +408,13 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     };
   }, [user?.id, locationSharingEnabled, updateUserLocationDebounced]);
 
+  // Keep the SOS delivery status live while the outbox retries
+  useEffect(() => {
+    return sosService.subscribe((entries) => {
+      setSosEntry((prev) => (prev ? entries.find((entry) => entry.id === prev.id) || prev : prev));
+    });
+  }, []);
+
   // Load unread notification count
   useEffect(() => {
     if (!user?.id) return;
@@ -498,12 +491,12 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
           const permissionResult = await locationService.requestPermissions();
           if (!permissionResult.granted) {
             Alert.alert(
-              'Permission Required',
-              permissionResult.message || 'Location permission is required to share your location with connections.',
+              t('home.permissionTitle'),
+              permissionResult.message || t('home.locationPermissionMessage'),
               [
-                { text: 'Cancel', style: 'cancel' },
+                { text: t('common.cancel'), style: 'cancel' },
                 { 
-                  text: 'Open Settings', 
+                  text: t('common.openSettings'), 
                   onPress: () => Linking.openSettings() 
                 },
               ]
@@ -518,9 +511,9 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
         const initialLocation = await locationService.getHighAccuracyLocation(true); // Request permission if needed
         if (!initialLocation) {
           Alert.alert(
-            'Location Error',
-            'Unable to get your location. Please check your location settings.',
-            [{ text: 'OK' }]
+            t('home.locationErrorTitle'),
+            t('home.locationErrorMessage'),
+            [{ text: t('common.ok') }]
           );
           setTogglingLocation(false);
           setLocationLoading(false);
@@ -578,9 +571,9 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     } catch (error) {
       console.error('Error toggling location sharing:', error);
       Alert.alert(
-        'Error',
-        'Failed to update location sharing. Please try again.',
-        [{ text: 'OK' }]
+        t('common.error'),
+        t('home.toggleSharingFailed'),
+        [{ text: t('common.ok') }]
       );
     } finally {
       setTogglingLocation(false);
@@ -589,190 +582,36 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
   };
 
 
-  const handleOfflineEmergency = async (): Promise<void> => {
-    try {
-      // Check if there are any connections
-      if (connections.length === 0) {
-        Alert.alert(
-          'No Connections',
-          'You need to add connections before sending an offline emergency message.',
-          [{ text: 'OK' }]
-        );
-        return;
-      }
-
-      // Filter connections that have phone numbers
-      const connectionsWithPhone = connections.filter(conn => conn.phone && conn.phone.trim() !== '');
-      
-      if (connectionsWithPhone.length === 0) {
-        Alert.alert(
-          'No Phone Numbers',
-          'None of your connections have phone numbers saved. Please update your connections with phone numbers.',
-          [{ text: 'OK' }]
-        );
-        return;
-      }
-
-      // Get the last known location as fallback
-      let locationToUse = lastLocationRef.current || userLocation;
-      
-      // For emergency SMS, use HIGH-ACCURACY GPS to ensure precise location
-      // Request permission if needed - this is an emergency situation
-      try {
-        // Use high-accuracy GPS for emergency SMS - most precise location possible
-        const currentLocation = await locationService.getHighAccuracyLocation(true);
-        if (currentLocation) {
-          locationToUse = currentLocation;
-          console.log('Emergency SMS: High-accuracy location retrieved');
-        } else {
-          console.log('Emergency SMS: Using last known location (high-accuracy unavailable)');
-        }
-      } catch (error) {
-        console.log('Emergency SMS: Using last known location (error getting high-accuracy GPS):', error);
-      }
-
-      // Format location message
-      const userName = user?.name || 'Someone';
-      const timestamp = new Date().toLocaleString();
-      let message = `🚨 EMERGENCY ALERT - ${userName} needs help!\n\n`;
-      
-      if (locationToUse && locationToUse.latitude && locationToUse.longitude) {
-        message += `📍 Location:\n`;
-        if (locationToUse.address) {
-          message += `${locationToUse.address}\n`;
-        }
-        message += `Coordinates: ${locationToUse.latitude.toFixed(6)}, ${locationToUse.longitude.toFixed(6)}\n`;
-        message += `Google Maps: https://maps.google.com/?q=${locationToUse.latitude},${locationToUse.longitude}\n`;
-      } else {
-        message += `⚠️ Location unavailable\n`;
-      }
-      
-      message += `\n🕐 Time: ${timestamp}\n`;
-      message += `\nPlease send help immediately!`;
-
-      // If only one connection with phone, send directly
-      if (connectionsWithPhone.length === 1) {
-        await sendSMSToConnection(connectionsWithPhone[0], message);
-        return;
-      }
-
-      // Show selection dialog for multiple connections
-      const connectionOptions = connectionsWithPhone.map(conn => ({
-        text: conn.name,
-        onPress: () => sendSMSToConnection(conn, message),
-      }));
-
-      Alert.alert(
-        'Select Connection',
-        'Choose which connection to send the emergency message to:',
-        [
-          { text: 'Cancel', style: 'cancel' },
-          ...connectionOptions,
-        ]
-      );
-    } catch (error) {
-      console.error('Error in offline emergency:', error);
-      Alert.alert(
-        'Error',
-        'An error occurred while preparing the emergency message. Please try again.',
-        [{ text: 'OK' }]
-      );
+  const dismissEmergencySentAlert = (): void => {
+    if (emergencyNavigationTimeoutRef.current) {
+      clearTimeout(emergencyNavigationTimeoutRef.current);
+      emergencyNavigationTimeoutRef.current = null;
     }
-  };
-
-  const sendSMSToConnection = async (connection: FamilyMember, message: string): Promise<void> => {
-    try {
-      if (!connection.phone || connection.phone.trim() === '') {
-        Alert.alert(
-          'No Phone Number',
-          `${connection.name} does not have a phone number saved.`,
-          [{ text: 'OK' }]
-        );
-        return;
-      }
-
-      // Clean phone number (remove spaces, dashes, etc.)
-      const cleanPhone = connection.phone.replace(/[\s\-\(\)]/g, '');
-      
-      // Encode message for URL
-      const encodedMessage = encodeURIComponent(message);
-      
-      // Create SMS URL with phone number and message
-      // Format: sms:PHONE_NUMBER?body=MESSAGE (Android) or sms:PHONE_NUMBER&body=MESSAGE (iOS)
-      const smsUrl = Platform.OS === 'ios' 
-        ? `sms:${cleanPhone}&body=${encodedMessage}`
-        : `sms:${cleanPhone}?body=${encodedMessage}`;
-      
-      const canOpen = await Linking.canOpenURL(smsUrl);
-      let smsOpened = false;
-      
-      if (canOpen) {
-        await Linking.openURL(smsUrl);
-        smsOpened = true;
-        Alert.alert(
-          'Message Ready',
-          `Emergency message is ready to send to ${connection.name}. Please review and send.`,
-          [{ text: 'OK' }]
-        );
-      } else {
-        // Fallback: try with just phone number
-        const fallbackUrl = `sms:${cleanPhone}`;
-        const canOpenFallback = await Linking.canOpenURL(fallbackUrl);
-        if (canOpenFallback) {
-          await Linking.openURL(fallbackUrl);
-          smsOpened = true;
-          Alert.alert(
-            'SMS Opened',
-            `SMS opened for ${connection.name}. Please copy and paste the following location information:\n\n${message}`,
-            [{ text: 'OK' }]
-          );
-        } else {
-          Alert.alert(
-            'Error',
-            `Unable to open SMS app for ${connection.name}. Please manually send your location.`,
-            [{ text: 'OK' }]
-          );
-          return;
-        }
-      }
 
-      // If SMS was successfully opened, lock the user and navigate to locked screen
-      if (smsOpened && user?.id) {
-        try {
-          // Lock the user after offline emergency
-          const { error: lockError } = await supabase
-            .from('users')
-            .update({ is_locked: true })
-            .eq('id', user.id);
-
-          if (lockError) {
-            console.error('Error locking user:', lockError);
-          } else {
-            console.log('User locked after offline emergency');
-          }
+    // Prevent duplicate navigation
+    if (hasNavigatedToLockedRef.current) {
+      return;
+    }
 
-          // Reset navigation flag
-          hasNavigatedToLockedRef.current = false;
-          
-          // Navigate to locked screen after a short delay
-          setTimeout(() => {
-            if (!hasNavigatedToLockedRef.current) {
-              hasNavigatedToLockedRef.current = true;
-              navigation.navigate('Locked');
-            }
-          }, 2000);
-        } catch (error) {
-          console.error('Error locking user after offline emergency:', error);
-        }
+    Animated.parallel([
+      Animated.timing(alertScale, {
+        toValue: 0,
+        duration: 200,
+        useNativeDriver: true,
+      }),
+      Animated.timing(alertOpacity, {
+        toValue: 0,
+        duration: 200,
+        useNativeDriver: true,
+      }),
+    ]).start(() => {
+      setShowEmergencySentAlert(false);
+      // Navigate to locked screen only if not already navigated
+      if (!hasNavigatedToLockedRef.current) {
+        hasNavigatedToLockedRef.current = true;
+        navigation.navigate('Locked');
       }
-    } catch (error) {
-      console.error('Error sending SMS to connection:', error);
-      Alert.alert(
-        'Error',
-        `Failed to open SMS for ${connection.name}. Please try again or send manually.`,
-        [{ text: 'OK' }]
-      );
-    }
+    });
   };
 
   const handleSOS = async (): Promise<void> => {
@@ -786,352 +625,130 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
 
       if (connections.length === 0) {
         Alert.alert(
-          'No Connections',
-          'You need to add connections before sending an emergency alert.',
-          [{ text: 'OK' }]
+          t('home.noConnections'),
+          t('home.noConnectionsMessage'),
+          [{ text: t('common.ok') }]
         );
         return;
       }
 
       Alert.alert(
-        'Send Emergency Alert?',
-        `This will send an emergency alert to all ${connections.length} connection${connections.length > 1 ? 's' : ''}.`,
+        t('home.sendAlertTitle'),
+        connections.length === 1
+          ? t('home.sendAlertMessageOne')
+          : t('home.sendAlertMessage', { count: connections.length }),
         [
-          { text: 'Cancel', style: 'cancel' },
+          { text: t('common.cancel'), style: 'cancel' },
           {
-            text: 'Send Emergency Alert',
+            text: t('home.sendAlert'),
             style: 'destructive',
             onPress: async () => {
+              if (!user?.id) return;
+
               try {
                 // Request permission for emergency - use HIGH-ACCURACY GPS for emergency situations
                 // This ensures the most precise location is sent during emergencies
-                const currentLocation = await locationService.getHighAccuracyLocation(true);
-                if (!currentLocation) {
-                  Alert.alert(
-                    'Location Error',
-                    'Unable to get your location. Emergency alert will be sent without location data.',
-                    [{ text: 'OK' }]
-                  );
+                let currentLocation: Location | null = null;
+                try {
+                  currentLocation = await locationService.getHighAccuracyLocation(true);
+                } catch (error) {
+                  console.log('Emergency alert: Using last known location (error getting high-accuracy GPS):', error);
                 }
 
-                const userName = user?.name || 'Someone';
-                const timestamp = new Date();
-                const locationData = currentLocation
-                  ? {
-                      latitude: currentLocation.latitude,
-                      longitude: currentLocation.longitude,
-                      address: currentLocation.address || undefined,
-                    }
-                  : null;
-
-                let locationInfo = '';
-                if (locationData) {
-                  if (locationData.address) {
-                    locationInfo = `\n📍 ${locationData.address}`;
-                  }
-                  locationInfo += `\n🌐 ${locationData.latitude.toFixed(6)}, ${locationData.longitude.toFixed(6)}`;
-                  locationInfo += `\n🕐 ${timestamp.toLocaleTimeString()}`;
+                const locationToUse = currentLocation || lastLocationRef.current;
+                if (!locationToUse) {
+                  Alert.alert(
+                    t('home.locationErrorTitle'),
+                    t('home.alertWithoutLocation'),
+                    [{ text: t('common.ok') }]
+                  );
                 }
 
-                // Get all connected user IDs for push notifications
-                const getConnectedUserIds = async (): Promise<string[]> => {
-                  if (!user?.id) return [];
-                  
-                  try {
-                    // Get connections where this user is the main user
-                    const { data: connections1, error: error1 } = await supabase
-                      .from('connections')
-                      .select('connected_user_id')
-                      .eq('user_id', user.id)
-                      .eq('status', 'connected');
-
-                    // Get connections where this user is the connected user
-                    const { data: connections2, error: error2 } = await supabase
-                      .from('connections')
-                      .select('user_id')
-                      .eq('connected_user_id', user.id)
-                      .eq('status', 'connected');
-
-                    if (error1 || error2) {
-                      console.error('Error fetching connected users:', error1 || error2);
-                      return [];
-                    }
-
-                    const userIds = new Set<string>();
-                    (connections1 || []).forEach((conn) => {
-                      if (conn.connected_user_id) userIds.add(conn.connected_user_id);
-                    });
-                    (connections2 || []).forEach((conn) => {
-                      if (conn.user_id) userIds.add(conn.user_id);
-                    });
-
-                    return Array.from(userIds);
-                  } catch (error) {
-                    console.error('Error in getConnectedUserIds:', error);
-                    return [];
-                  }
-                };
-
-                // Send push notifications to all connected users
-                const connectedUserIds = await getConnectedUserIds();
-                
-                console.log('📱 Sending push notifications to connected users:', {
-                  count: connectedUserIds.length,
-                  userIds: connectedUserIds,
-                });
-                
-                if (connectedUserIds.length === 0) {
-                  console.warn('⚠️ No connected users found - push notifications will not be sent');
-                }
-                
-                // Create notifications for all connected users
-                if (connectedUserIds.length > 0) {
-                  try {
-                    const notificationEntries = connectedUserIds.map((connectedUserId) => ({
-                      user_id: connectedUserId,
-                      title: '🚨 Emergency Alert',
-                      body: `${userName} needs help!${locationInfo}`,
-                      type: 'sos_alert',
-                      data: {
-                        type: 'sos_alert',
-                        userId: user?.id,
-                        userName: userName,
-                        location: locationData,
-                        timestamp: timestamp.toISOString(),
-                      },
-                      read: false,
-                    }));
-
-                    const { error: notificationError } = await supabase
-                      .from('notifications')
-                      .insert(notificationEntries);
-
-                    if (notificationError) {
-                      console.error('Error creating notifications:', notificationError);
-                    } else {
-                      console.log(`Created ${notificationEntries.length} notifications for emergency alert`);
-                    }
-                  } catch (error) {
-                    console.error('Error creating notifications:', error);
-                    // Don't fail the emergency alert if notification creation fails
-                  }
-                }
-                
-                if (connectedUserIds.length > 0) {
-                  try {
-                    // Get Supabase URL and anon key for direct function call
-                    const getEnvVar = (key: string): string | undefined => {
-                      if (process.env[key]) {
-                        const value = process.env[key];
-                        if (typeof value === 'string' && value.includes('${')) {
-                          return undefined;
-                        }
-                        if (value && value.trim() !== '') {
-                          return value;
-                        }
+                // Queued in the SOS outbox first; falls back to SMS when Supabase is unreachable
+                const entry = await sosService.sendSOS({
+                  userId: user.id,
+                  userName: user.name || 'Someone',
+                  location: locationToUse
+                    ? {
+                        latitude: locationToUse.latitude,
+                        longitude: locationToUse.longitude,
+                        address: locationToUse.address || undefined,
                       }
-                      if (Constants.expoConfig?.extra?.[key]) {
-                        const value = Constants.expoConfig.extra[key];
-                        if (typeof value === 'string' && value.includes('${')) {
-                          return undefined;
-                        }
-                        return value;
-                      }
-                      return undefined;
-                    };
-
-                    // Call Edge Function to send push notifications
-                    // Function is deployed with --no-verify-jwt so it doesn't require authentication
-                    try {
-                      const pushNotificationBody = {
-                        user_ids: connectedUserIds,
-                        title: '🚨 Emergency Alert',
-                        body: `${userName} needs help!${locationInfo}`,
-                        data: {
-                          type: 'sos_alert',
-                          userId: user?.id,
-                          userName: userName,
-                          location: locationData,
-                          timestamp: timestamp.toISOString(),
-                        },
-                      };
-
-                      // Use supabase.functions.invoke() - handles authentication automatically
-                      const { data: pushResult, error: functionError } = await supabase.functions.invoke(
-                        'send-push-notification',
-                        {
-                          body: pushNotificationBody,
-                        }
-                      );
-
-                      if (functionError) {
-                        console.error('❌ Error calling push notification function:', {
-                          error: functionError,
-                          message: functionError.message,
-                          details: functionError.details,
-                          status: functionError.status,
-                        });
-                        Alert.alert(
-                          'Push Notification Error',
-                          `Failed to send push notifications: ${functionError.message || 'Unknown error'}\n\nCheck Edge Function logs for details.`
-                        );
-                      } else if (pushResult) {
-                        const sentCount = pushResult.sent || 0;
-                        const failedCount = pushResult.failed || 0;
-                        const total = pushResult.total || connectedUserIds.length;
-                        const message = pushResult.message || '';
-                        
-                        console.log('📊 Push notification result:', {
-                          sent: sentCount,
-                          failed: failedCount,
-                          total: total,
-                          message: message,
-                          requested_users: connectedUserIds.length,
-                        });
-                        
-                        if (sentCount > 0) {
-                          console.log(`✅ Push notifications sent: ${sentCount} successful, ${failedCount} failed`);
-                        } else if (message) {
-                          console.warn(`⚠️ Push notifications: ${message}`);
-                          // Show alert if no tokens found
-                          if (message.includes('No push tokens found')) {
-                            Alert.alert(
-                              'No Push Tokens',
-                              `None of the ${total} connected users have push tokens registered.\n\nThey need to log in and grant notification permission.`
-                            );
-                          }
-                        } else {
-                          console.log('✅ Push notification request completed');
-                        }
-                      }
-                    } catch (invokeError: any) {
-                      console.error('Exception calling push notification function:', {
-                        error: invokeError,
-                        message: invokeError?.message,
-                        stack: invokeError?.stack,
-                      });
-                    }
-                  } catch (error: any) {
-                    console.error('Error sending push notifications:', {
-                      message: error?.message,
-                      error: error,
-                    });
-                    // Don't fail the emergency alert if push notifications fail
-                  }
+                    : null,
+                  connections,
+                });
+                setSosEntry(entry);
+
+                // Start emergency high-accuracy GPS tracking (every 15 minutes, stops when unlocked)
+                try {
+                  await locationService.startEmergencyHighAccuracyTracking(user.id);
+                  console.log('Emergency high-accuracy GPS tracking started (every 15 minutes)');
+                } catch (error) {
+                  console.error('Error starting emergency high-accuracy GPS tracking:', error);
+                  // Don't fail the alert if tracking fails to start
                 }
 
-                // Emergency alerts sent
-                const successful = connections.length;
-                const failed = 0;
-
-                if (successful > 0) {
-                  // Start emergency high-accuracy GPS tracking (every 15 minutes, stops when unlocked)
-                  if (user?.id) {
-                    try {
-                      await locationService.startEmergencyHighAccuracyTracking(user.id);
-                      console.log('Emergency high-accuracy GPS tracking started (every 15 minutes)');
-                    } catch (error) {
-                      console.error('Error starting emergency high-accuracy GPS tracking:', error);
-                      // Don't fail the alert if tracking fails to start
-                    }
-                  }
-
-                  // Start SOS location tracking (every 3 seconds, circular buffer of 5 rows)
-                  if (user?.id) {
-                    try {
-                      await locationService.startSOSLocationTracking(user.id);
-                      console.log('SOS location tracking started');
-                    } catch (error) {
-                      console.error('Error starting SOS location tracking:', error);
-                      // Don't fail the alert if tracking fails to start
-                    }
-                  }
+                // Start SOS location tracking (every 3 seconds, circular buffer of 5 rows)
+                try {
+                  await locationService.startSOSLocationTracking(user.id);
+                  console.log('SOS location tracking started');
+                } catch (error) {
+                  console.error('Error starting SOS location tracking:', error);
+                  // Don't fail the alert if tracking fails to start
+                }
 
-                  // Start emergency location tracking (every 1 hour)
-                  if (user?.id) {
-                    try {
-                      await locationService.startEmergencyLocationTracking(user.id);
-                      console.log('Emergency location tracking started');
-                    } catch (error) {
-                      console.error('Error starting emergency location tracking:', error);
-                      // Don't fail the alert if tracking fails to start
-                    }
-                  }
+                // Start emergency location tracking (every 1 hour)
+                try {
+                  await locationService.startEmergencyLocationTracking(user.id);
+                  console.log('Emergency location tracking started');
+                } catch (error) {
+                  console.error('Error starting emergency location tracking:', error);
+                  // Don't fail the alert if tracking fails to start
+                }
 
-                  // Lock the user after emergency alert
-                  if (user?.id) {
-                    try {
-                      const { error: lockError } = await supabase
-                        .from('users')
-                        .update({ is_locked: true })
-                        .eq('id', user.id);
-
-                      if (lockError) {
-                        console.error('Error locking user:', lockError);
-                      } else {
-                        console.log('User locked after emergency alert');
-                      }
-                    } catch (error) {
-                      console.error('Error locking user:', error);
-                    }
+                // Lock the user after emergency alert
+                try {
+                  const { error: lockError } = await supabase
+                    .from('users')
+                    .update({ is_locked: true })
+                    .eq('id', user.id);
+
+                  if (lockError) {
+                    console.error('Error locking user:', lockError);
+                  } else {
+                    console.log('User locked after emergency alert');
                   }
+                } catch (error) {
+                  console.error('Error locking user:', error);
+                }
 
-                  // Show modern confirmation alert
-                  setShowEmergencySentAlert(true);
-                  Animated.parallel([
-                    Animated.spring(alertScale, {
-                      toValue: 1,
-                      useNativeDriver: true,
-                      tension: 50,
-                      friction: 7,
-                    }),
-                    Animated.timing(alertOpacity, {
-                      toValue: 1,
-                      duration: 300,
-                      useNativeDriver: true,
-                    }),
-                  ]).start();
-
-                  // Auto-dismiss and navigate after 4 seconds
-                  emergencyNavigationTimeoutRef.current = setTimeout(() => {
-                    // Prevent duplicate navigation
-                    if (hasNavigatedToLockedRef.current) {
-                      return;
-                    }
-
-                    Animated.parallel([
-                      Animated.timing(alertScale, {
-                        toValue: 0,
-                        duration: 200,
-                        useNativeDriver: true,
-                      }),
-                      Animated.timing(alertOpacity, {
-                        toValue: 0,
-                        duration: 200,
-                        useNativeDriver: true,
-                      }),
-                    ]).start(() => {
-                      setShowEmergencySentAlert(false);
-                      // Navigate to locked screen only if not already navigated
-                      if (!hasNavigatedToLockedRef.current) {
-                        hasNavigatedToLockedRef.current = true;
-                        navigation.navigate('Locked');
-                      }
-                    });
-                  }, 4000);
-                } else {
-                  Alert.alert(
-                    'Emergency Alert Failed',
-                    'Unable to send emergency alerts. Please check your connection and try again.',
-                    [{ text: 'OK' }]
-                  );
+                // Show the per-recipient delivery status
+                setShowEmergencySentAlert(true);
+                Animated.parallel([
+                  Animated.spring(alertScale, {
+                    toValue: 1,
+                    useNativeDriver: true,
+                    tension: 50,
+                    friction: 7,
+                  }),
+                  Animated.timing(alertOpacity, {
+                    toValue: 1,
+                    duration: 300,
+                    useNativeDriver: true,
+                  }),
+                ]).start();
+
+                // Auto-dismiss after 4 seconds only if everyone was reached -
+                // otherwise the user reviews who still needs to be reached
+                if (entry.status === 'delivered') {
+                  emergencyNavigationTimeoutRef.current = setTimeout(dismissEmergencySentAlert, 4000);
                 }
               } catch (error) {
                 console.error('Error sending SOS alerts:', error);
                 Alert.alert(
-                  'Error',
-                  'Failed to send emergency alerts. Please try again.',
-                  [{ text: 'OK' }]
+                  t('common.error'),
+                  t('home.sendAlertFailed'),
+                  [{ text: t('common.ok') }]
                 );
               }
             },
@@ -1141,13 +758,63 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
     } catch (error) {
       console.error('Error in handleSOS:', error);
       Alert.alert(
-        'Error',
-        'An error occurred. Please try again.',
-        [{ text: 'OK' }]
+        t('common.error'),
+        t('common.tryAgain'),
+        [{ text: t('common.ok') }]
       );
     }
   };
 
+  // Hidden gesture: holding the Emergency Alert button starts a silent SOS.
+  // Nothing on screen changes - no confirmation, lock, or delivery status.
+  const handleSilentSOS = async (): Promise<void> => {
+    if (!user?.id) return;
+
+    try {
+      const locationToUse = locationService.getLastKnownLocation() || lastLocationRef.current;
+
+      await sosService.sendSilentSOS({
+        userId: user.id,
+        userName: user.name || 'Someone',
+        location: locationToUse
+          ? {
+              latitude: locationToUse.latitude,
+              longitude: locationToUse.longitude,
+              address: locationToUse.address || undefined,
+            }
+          : null,
+        connections,
+      });
+    } catch (error) {
+      console.error('Error sending silent SOS:', error);
+    }
+
+    // Exact tracking until a connection ends the silent SOS
+    try {
+      await locationService.startEmergencyHighAccuracyTracking(user.id);
+      await locationService.startSOSLocationTracking(user.id);
+    } catch (error) {
+      console.error('Error starting silent SOS tracking:', error);
+    }
+  };
+
+  const getRecipientStatus = (recipient: SOSRecipient): { label: string; icon: keyof typeof Ionicons.glyphMap; color: string } => {
+    const smsSuffix = recipient.sms === 'opened'
+      ? ` · ${t('home.recipient.smsReady')}`
+      : recipient.sms === 'unavailable'
+        ? ` · ${t('home.recipient.smsUnavailable')}`
+        : '';
+
+    switch (recipient.push) {
+      case 'delivered':
+        return { label: `${t('home.recipient.notified')}${smsSuffix}`, icon: 'checkmark-circle', color: '#10B981' };
+      case 'no_device':
+        return { label: `${t('home.recipient.appOff')}${smsSuffix}`, icon: 'remove-circle', color: '#9CA3AF' };
+      default:
+        return { label: `${t('home.recipient.retrying')}${smsSuffix}`, icon: 'time', color: '#F59E0B' };
+    }
+  };
+
 
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
@@ -1173,13 +840,15 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
                     styles.headerSubtitle,
                     locationSharingEnabled && styles.headerSubtitleActive
                   ]}>
-                    {locationSharingEnabled ? 'Visible to connections' : 'Hidden from connections'}
+                    {locationSharingEnabled ? t('home.visibleToConnections') : t('home.hiddenFromConnections')}
                   </Text>
                 </View>
                 <View style={styles.connectionsRow}>
                 <Ionicons name="people" size={12} color="#6366F1" />
                   <Text style={styles.connectionsText}>
-                    {connections.length} connection{connections.length !== 1 ? 's' : ''}
+                    {connections.length === 1
+                      ? t('home.connectionCount')
+                      : t('home.connectionsCount', { count: connections.length })}
                   </Text>
                 </View>
               </View>
@@ -1243,13 +912,13 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
                 )}
               </TouchableOpacity>
             </View>
-            <Text style={styles.statusCardTitle}>Location</Text>
+            <Text style={styles.statusCardTitle}>{t('home.location')}</Text>
             <Text style={[styles.statusCardValue, locationSharingEnabled && styles.statusCardValueActive]}>
               {togglingLocation 
-                ? 'Updating...' 
+                ? t('home.updating') 
                 : locationSharingEnabled 
-                  ? 'Sharing' 
-                  : 'Hidden'}
+                  ? t('home.sharing') 
+                  : t('home.hidden')}
             </Text>
           </View>
 
@@ -1264,7 +933,7 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
                 <Ionicons name="people-outline" size={20} color="#6366F1" />
               </View>
             </View>
-            <Text style={styles.statusCardTitle}>Connections</Text>
+            <Text style={styles.statusCardTitle}>{t('tabs.connections')}</Text>
             <Text style={styles.statusCardValue}>
               {connections.length}
             </Text>
@@ -1280,10 +949,10 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
               </View>
               <View style={styles.locationSharingBannerText}>
                 <Text style={styles.locationSharingBannerTitle}>
-                  Location Sharing is Off
+                  {t('home.sharingOffTitle')}
                 </Text>
                 <Text style={styles.locationSharingBannerMessage}>
-                  Turn on location sharing so your connections can see your location and respond to emergencies.
+                  {t('home.sharingOffMessage')}
                 </Text>
               </View>
             </View>
@@ -1297,7 +966,7 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
                 <ActivityIndicator size="small" color="#FFFFFF" />
               ) : (
                 <Text style={styles.locationSharingBannerButtonText}>
-                  Turn On
+                  {t('home.turnOn')}
                 </Text>
               )}
             </TouchableOpacity>
@@ -1306,12 +975,14 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
 
         {/* Emergency Actions Section */}
         <View style={styles.emergencySection}>
-          <Text style={styles.sectionTitle}>Emergency</Text>
+          <Text style={styles.sectionTitle}>{t('home.emergency')}</Text>
           
           <View style={styles.emergencyGrid}>
           <TouchableOpacity
             style={styles.emergencyButton}
             onPress={handleSOS}
+            onLongPress={handleSilentSOS}
+            delayLongPress={3000}
               activeOpacity={0.85}
           >
             <View style={styles.emergencyButtonContent}>
@@ -1319,38 +990,23 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
                   <Ionicons name="warning" size={24} color="#FFFFFF" />
               </View>
               <View style={styles.emergencyTextContainer}>
-                  <Text style={styles.emergencyButtonTitle}>Emergency Alert</Text>
+                  <Text style={styles.emergencyButtonTitle}>{t('home.emergencyAlert')}</Text>
                 <Text style={styles.emergencyButtonSubtitle}>
-                    Alert {connections.length} connection{connections.length !== 1 ? 's' : ''}
-                </Text>
-              </View>
-            </View>
-          </TouchableOpacity>
-          
-          <TouchableOpacity
-            style={styles.offlineEmergencyButton}
-            onPress={handleOfflineEmergency}
-              activeOpacity={0.85}
-          >
-            <View style={styles.offlineEmergencyButtonContent}>
-              <View style={styles.offlineEmergencyIconContainer}>
-                  <Ionicons name="phone-portrait-outline" size={24} color="#FFFFFF" />
-              </View>
-              <View style={styles.offlineEmergencyTextContainer}>
-                  <Text style={styles.offlineEmergencyButtonTitle}>SMS Emergency</Text>
-                <Text style={styles.offlineEmergencyButtonSubtitle}>
-                    Send via text message
+                    {connections.length === 1
+                      ? t('home.alertConnection')
+                      : t('home.alertConnections', { count: connections.length })}
                 </Text>
               </View>
             </View>
           </TouchableOpacity>
+
           </View>
         </View>
 
         {/* Quick Actions Grid */}
         {!hideReportIncident && (
           <View style={styles.quickActionsSection}>
-            <Text style={styles.sectionTitle}>Quick Actions</Text>
+            <Text style={styles.sectionTitle}>{t('home.quickActions')}</Text>
             
             <View style={styles.actionsGrid}>
               <TouchableOpacity
@@ -1361,8 +1017,8 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
                 <View style={styles.actionCardIcon}>
                   <Ionicons name="alert-circle" size={24} color="#EF4444" />
                 </View>
-                <Text style={styles.actionCardTitle}>Report Incident</Text>
-                <Text style={styles.actionCardSubtitle}>Report safety concern</Text>
+                <Text style={styles.actionCardTitle}>{t('reportIncident.title')}</Text>
+                <Text style={styles.actionCardSubtitle}>{t('home.reportIncidentSubtitle')}</Text>
               </TouchableOpacity>
 
               <TouchableOpacity
@@ -1373,8 +1029,8 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
                 <View style={styles.actionCardIcon}>
                   <Ionicons name="checkmark-circle" size={24} color="#10B981" />
                 </View>
-                <Text style={styles.actionCardTitle}>Safety Check-in</Text>
-                <Text style={styles.actionCardSubtitle}>Let contacts know you're safe</Text>
+                <Text style={styles.actionCardTitle}>{t('checkIn.title')}</Text>
+                <Text style={styles.actionCardSubtitle}>{t('home.checkInSubtitle')}</Text>
               </TouchableOpacity>
             </View>
           </View>
@@ -1402,14 +1058,41 @@ export default function HomeScreen({ navigation }: HomeScreenProps) {
             ]}
           >
             <View style={styles.alertIconContainer}>
-              <View style={styles.alertIconBackground}>
-                <Ionicons name="checkmark-circle" size={64} color="#10B981" />
+              <View style={[styles.alertIconBackground, sosEntry?.status !== 'delivered' && styles.alertIconBackgroundPending]}>
+                <Ionicons
+                  name={sosEntry?.status === 'delivered' ? 'checkmark-circle' : 'time'}
+                  size={64}
+                  color={sosEntry?.status === 'delivered' ? '#10B981' : '#F59E0B'}
+                />
               </View>
             </View>
-            <Text style={styles.alertTitle}>Emergency Sent</Text>
+            <Text style={styles.alertTitle}>
+              {sosEntry?.status === 'delivered' ? t('home.emergencySent') : t('home.emergencyQueued')}
+            </Text>
             <Text style={styles.alertMessage}>
-              Your emergency alert has been sent successfully to your connections.
+              {sosEntry?.status === 'delivered'
+                ? t('home.emergencySentMessage')
+                : t('home.emergencyQueuedMessage')}
             </Text>
+            {sosEntry && sosEntry.recipients.length > 0 && (
+              <ScrollView style={styles.recipientList}>
+                {sosEntry.recipients.map((recipient, index) => {
+                  const status = getRecipientStatus(recipient);
+                  return (
+                    <View key={recipient.userId || `${recipient.name}-${index}`} style={styles.recipientRow}>
+                      <Ionicons name={status.icon} size={18} color={status.color} />
+                      <Text style={styles.recipientName} numberOfLines={1}>{recipient.name}</Text>
+                      <Text style={[styles.recipientStatus, { color: status.color }]}>{status.label}</Text>
+                    </View>
+                  );
+                })}
+              </ScrollView>
+            )}
+            {sosEntry?.status !== 'delivered' && (
+              <TouchableOpacity style={styles.alertButton} onPress={dismissEmergencySentAlert} activeOpacity={0.8}>
+                <Text style={styles.alertButtonText}>{t('home.continue')}</Text>
+              </TouchableOpacity>
+            )}
           </Animated.View>
         </View>
       </Modal>
@@ -1648,42 +1331,6 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 14,
   },
-  offlineEmergencyButton: {
-    flex: 1,
-    backgroundColor: '#F59E0B',
-    borderRadius: 20,
-    overflow: 'hidden',
-  },
-  offlineEmergencyButtonContent: {
-    padding: 16,
-    alignItems: 'center',
-  },
-  offlineEmergencyIconContainer: {
-    width: 48,
-    height: 48,
-    borderRadius: 24,
-    backgroundColor: 'rgba(255, 255, 255, 0.25)',
-    justifyContent: 'center',
-    alignItems: 'center',
-    marginBottom: 12,
-  },
-  offlineEmergencyTextContainer: {
-    alignItems: 'center',
-  },
-  offlineEmergencyButtonTitle: {
-    fontSize: 15,
-    fontWeight: '700',
-    color: '#FFFFFF',
-    marginBottom: 4,
-    textAlign: 'center',
-  },
-  offlineEmergencyButtonSubtitle: {
-    fontSize: 11,
-    color: 'rgba(255, 255, 255, 0.85)',
-    fontWeight: '500',
-    textAlign: 'center',
-    lineHeight: 14,
-  },
   quickActionsSection: {
     paddingHorizontal: 20,
     paddingTop: 28,
@@ -1772,6 +1419,9 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  alertIconBackgroundPending: {
+    backgroundColor: '#FEF3C7',
+  },
   alertTitle: {
     fontSize: 24,
     fontWeight: '700',
@@ -1785,6 +1435,42 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     lineHeight: 24,
   },
+  recipientList: {
+    alignSelf: 'stretch',
+    maxHeight: 200,
+    marginTop: 20,
+  },
+  recipientRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F3F4F6',
+  },
+  recipientName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#111827',
+  },
+  recipientStatus: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  alertButton: {
+    alignSelf: 'stretch',
+    backgroundColor: '#DC2626',
+    borderRadius: 14,
+    paddingVertical: 14,
+    marginTop: 20,
+    alignItems: 'center',
+  },
+  alertButtonText: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: '#FFFFFF',
+  },
   locationSharingBanner: {
     backgroundColor: '#FEF3C7',
     borderRadius: 16,
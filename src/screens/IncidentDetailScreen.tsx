@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import {
   View,
   Text,
@@ -6,6 +6,11 @@ import {
   TouchableOpacity,
   ScrollView,
   Alert,
+  TextInput,
+  Keyboard,
+  KeyboardAvoidingView,
+  Platform,
+  ActivityIndicator,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import MapView, { Marker, PROVIDER_GOOGLE } from 'react-native-maps';
@@ -13,7 +18,15 @@ import { Ionicons } from '@expo/vector-icons';
 import type { RouteProp } from '@react-navigation/native';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import { useIncidents } from '../context/IncidentContext';
-import type { RootStackParamList } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useUserSettings } from '../context/UserSettingsContext';
+import { IncidentMediaGallery } from '../components/IncidentMediaGallery';
+import { incidentUpdatesService, INCIDENT_STATUS_CONSENSUS_VOTES } from '../services/incidentUpdatesService';
+import { incidentVoteService } from '../services/incidentVoteService';
+import { locationService } from '../services/locationService';
+import { INCIDENT_CATEGORY_LABEL_KEYS } from '../utils/incidentCategories';
+import type { RootStackParamList, IncidentStatus, IncidentStatusVotes, IncidentUpdate, IncidentVote } from '../types';
+import type { TranslationKey } from '../i18n';
 
 type IncidentDetailScreenRouteProp = RouteProp<RootStackParamList, 'IncidentDetail'>;
 type IncidentDetailScreenNavigationProp = StackNavigationProp<RootStackParamList, 'IncidentDetail'>;
@@ -23,9 +36,186 @@ interface IncidentDetailScreenProps {
   navigation: IncidentDetailScreenNavigationProp;
 }
 
+const STATUS_OPTIONS: { value: IncidentStatus; labelKey: TranslationKey; icon: keyof typeof Ionicons.glyphMap; color: string }[] = [
+  { value: 'ongoing', labelKey: 'incidentDetail.status.ongoing', icon: 'alert-circle', color: '#FF3B30' },
+  { value: 'contained', labelKey: 'incidentDetail.status.contained', icon: 'shield-half', color: '#FF9500' },
+  { value: 'resolved', labelKey: 'incidentDetail.status.resolved', icon: 'checkmark-circle', color: '#34C759' },
+];
+
 export default function IncidentDetailScreen({ route, navigation }: IncidentDetailScreenProps) {
   const { incident } = route.params;
-  const { upvoteIncident, userLocation, calculateDistance } = useIncidents();
+  const { incidents, voteOnIncident, setIncidentStatus, userLocation, calculateDistance } = useIncidents();
+  const { user } = useAuth();
+  const { formatDistance, formatTimeAgo, t, locale } = useUserSettings();
+  const [updates, setUpdates] = useState<IncidentUpdate[]>([]);
+  const [statusVotes, setStatusVotes] = useState<IncidentStatusVotes | null>(null);
+  const [loadingUpdates, setLoadingUpdates] = useState<boolean>(true);
+  const [updateText, setUpdateText] = useState<string>('');
+  const [replyTo, setReplyTo] = useState<IncidentUpdate | null>(null);
+  const [shareLocation, setShareLocation] = useState<boolean>(false);
+  const [posting, setPosting] = useState<boolean>(false);
+  const [changingStatus, setChangingStatus] = useState<boolean>(false);
+  const [myVote, setMyVote] = useState<IncidentVote | null>(null);
+  const [voting, setVoting] = useState<boolean>(false);
+
+  const liveIncident = incidents.find((i) => i.id === incident.id) || incident;
+  // Evidence may finish uploading after this screen was opened
+  const media = liveIncident.media || [];
+  const isReporter = !!user?.id && liveIncident.userId === user.id;
+
+  // The thread is live, so the latest status change there is the freshest status
+  const latestStatusChange = [...updates].reverse().find((update) => update.kind === 'status_changed');
+  const status: IncidentStatus = latestStatusChange?.status || liveIncident.status || 'ongoing';
+  const statusOption = STATUS_OPTIONS.find((option) => option.value === status) || STATUS_OPTIONS[0];
+
+  const loadThread = useCallback(async (): Promise<void> => {
+    try {
+      const [loadedUpdates, loadedVotes] = await Promise.all([
+        incidentUpdatesService.getUpdates(incident.id),
+        incidentUpdatesService.getStatusVotes(incident.id),
+      ]);
+      setUpdates(loadedUpdates);
+      setStatusVotes(loadedVotes);
+    } catch (error) {
+      console.error('Error loading incident updates:', error);
+    } finally {
+      setLoadingUpdates(false);
+    }
+  }, [incident.id]);
+
+  useEffect(() => {
+    loadThread();
+  }, [loadThread]);
+
+  // Follow the thread and status live
+  useEffect(() => {
+    return incidentUpdatesService.subscribeToIncident(incident.id, loadThread);
+  }, [incident.id, loadThread]);
+
+  useEffect(() => {
+    if (!user?.id) return;
+    incidentVoteService.getMyVote(incident.id, user.id).then(setMyVote);
+  }, [incident.id, user?.id]);
+
+  // Tapping the current vote again withdraws it
+  const handleVote = async (vote: IncidentVote): Promise<void> => {
+    if (voting) return;
+
+    setVoting(true);
+    try {
+      setMyVote(await voteOnIncident(incident.id, myVote === vote ? null : vote));
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error.message || t('incidentDetail.voteFailed'));
+    } finally {
+      setVoting(false);
+    }
+  };
+
+  const handleStatusChange = async (newStatus: IncidentStatus): Promise<void> => {
+    if (changingStatus || (isReporter && newStatus === status)) return;
+
+    setChangingStatus(true);
+    try {
+      const result = await setIncidentStatus(incident.id, newStatus);
+      if (!isReporter && !result.changed && newStatus !== status) {
+        Alert.alert(
+          t('incidentDetail.statusVoteRecorded'),
+          t('incidentDetail.statusConsensus', { count: INCIDENT_STATUS_CONSENSUS_VOTES })
+        );
+      }
+      await loadThread();
+    } catch (error: any) {
+      Alert.alert(t('common.error'), error.message || t('incidentDetail.statusFailed'));
+    } finally {
+      setChangingStatus(false);
+    }
+  };
+
+  const handlePostUpdate = async (): Promise<void> => {
+    if (posting || !updateText.trim()) return;
+
+    Keyboard.dismiss();
+    setPosting(true);
+    try {
+      const location = shareLocation ? await locationService.getCurrentLocationFast(true) : null;
+      if (shareLocation && !location) {
+        Alert.alert(t('incidentDetail.locationUnavailable'), t('incidentDetail.locationUnavailableMessage'));
+      }
+
+      const result = await incidentUpdatesService.postUpdate(incident.id, updateText, {
+        parentId: replyTo?.id,
+        location,
+      });
+
+      if (!result.update) {
+        Alert.alert(t('common.error'), result.message || t('incidentDetail.postFailed'));
+        return;
+      }
+
+      setUpdateText('');
+      setReplyTo(null);
+      await loadThread();
+    } finally {
+      setPosting(false);
+    }
+  };
+
+  const renderUpdate = (update: IncidentUpdate, isReply: boolean = false) => {
+    if (update.kind === 'status_changed') {
+      const option = STATUS_OPTIONS.find((o) => o.value === update.status) || STATUS_OPTIONS[0];
+      return (
+        <View key={update.id} style={styles.statusChangeRow}>
+          <Ionicons name={option.icon} size={16} color={option.color} />
+          <Text style={styles.statusChangeText}>
+            {update.isReporter
+              ? t('incidentDetail.reporterMarked', { name: update.authorName, status: t(option.labelKey).toLocaleLowerCase(locale) })
+              : t('incidentDetail.communityMarked', { status: t(option.labelKey).toLocaleLowerCase(locale) })}
+          </Text>
+          <Text style={styles.updateTime}>{formatTimeAgo(update.createdAt)}</Text>
+        </View>
+      );
+    }
+
+    const updateDistance = update.location
+      ? calculateDistance(
+          update.location.latitude,
+          update.location.longitude,
+          liveIncident.location.latitude,
+          liveIncident.location.longitude
+        )
+      : null;
+
+    return (
+      <View key={update.id} style={[styles.updateRow, isReply && styles.updateReply]}>
+        <View style={styles.updateHeader}>
+          <Text style={styles.updateAuthor}>{update.authorName}</Text>
+          {update.isReporter && (
+            <View style={styles.reporterBadge}>
+              <Text style={styles.reporterBadgeText}>{t('incidentDetail.reporter')}</Text>
+            </View>
+          )}
+          <Text style={styles.updateTime}>{formatTimeAgo(update.createdAt)}</Text>
+        </View>
+        <Text style={styles.updateBody}>{update.body}</Text>
+        <View style={styles.updateFooter}>
+          {updateDistance !== null && (
+            <View style={styles.updateLocation}>
+              <Ionicons name="location-outline" size={12} color="#8E8E93" />
+              <Text style={styles.updateLocationText}>
+                {t('incidents.distanceAway', { distance: formatDistance(updateDistance) })}
+              </Text>
+            </View>
+          )}
+          {!isReply && (
+            <TouchableOpacity onPress={() => setReplyTo(update)} activeOpacity={0.7}>
+              <Text style={styles.replyText}>{t('incidentDetail.reply')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {update.replies.map((reply) => renderUpdate(reply, true))}
+      </View>
+    );
+  };
 
   const distance = calculateDistance(
     userLocation.latitude,
@@ -34,17 +224,6 @@ export default function IncidentDetailScreen({ route, navigation }: IncidentDeta
     incident.location.longitude
   );
 
-  const getTimeAgo = (timestamp: string): string => {
-    const now = new Date();
-    const time = new Date(timestamp);
-    const diff = Math.floor((now.getTime() - time.getTime()) / 1000 / 60);
-    if (diff < 1) return 'Just now';
-    if (diff < 60) return `${diff} minutes ago`;
-    const hours = Math.floor(diff / 60);
-    if (hours < 24) return `${hours} hours ago`;
-    return `${Math.floor(hours / 24)} days ago`;
-  };
-
   const getCategoryIcon = (category: string): keyof typeof Ionicons.glyphMap => {
     const icons: Record<string, keyof typeof Ionicons.glyphMap> = {
       Robbery: 'shield-outline',
@@ -90,107 +269,252 @@ export default function IncidentDetailScreen({ route, navigation }: IncidentDeta
         >
           <Ionicons name="arrow-back" size={24} color="#000000" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Incident Details</Text>
+        <Text style={styles.headerTitle}>{t('incidentDetail.title')}</Text>
         <View style={styles.placeholder} />
       </View>
 
-      <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
-        <View style={styles.incidentHeader}>
-          <View style={[styles.categoryIcon, { backgroundColor: getCategoryColor(incident.category) + '20' }]}>
-            <Ionicons
-              name={getCategoryIcon(incident.category)}
-              size={32}
-              color={getCategoryColor(incident.category)}
-            />
+      <KeyboardAvoidingView
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+        style={styles.content}
+      >
+        <ScrollView style={styles.content} showsVerticalScrollIndicator={false} keyboardShouldPersistTaps="handled">
+          <View style={styles.incidentHeader}>
+            <View style={[styles.categoryIcon, { backgroundColor: getCategoryColor(incident.category) + '20' }]}>
+              <Ionicons
+                name={getCategoryIcon(incident.category)}
+                size={32}
+                color={getCategoryColor(incident.category)}
+              />
+            </View>
+            <View style={styles.headerInfo}>
+              <Text style={styles.title}>{incident.title}</Text>
+              <View style={styles.metaRow}>
+                <Text style={styles.category}>
+                  {INCIDENT_CATEGORY_LABEL_KEYS[incident.category] ? t(INCIDENT_CATEGORY_LABEL_KEYS[incident.category]) : incident.category}
+                </Text>
+                {liveIncident.confirmed && (
+                  <View style={styles.verifiedBadge}>
+                    <Ionicons name="checkmark-circle" size={16} color="#34C759" />
+                    <Text style={styles.verifiedText}>{t('incidentDetail.verified')}</Text>
+                  </View>
+                )}
+              </View>
+            </View>
           </View>
-          <View style={styles.headerInfo}>
-            <Text style={styles.title}>{incident.title}</Text>
-            <View style={styles.metaRow}>
-              <Text style={styles.category}>{incident.category}</Text>
-              {incident.confirmed && (
-                <View style={styles.verifiedBadge}>
-                  <Ionicons name="checkmark-circle" size={16} color="#34C759" />
-                  <Text style={styles.verifiedText}>Verified</Text>
-                </View>
-              )}
+
+          <View style={styles.section}>
+            <View style={styles.statusHeader}>
+              <Text style={styles.sectionTitle}>{t('incidentDetail.status')}</Text>
+              <View style={[styles.statusPill, { backgroundColor: statusOption.color + '20' }]}>
+                <Ionicons name={statusOption.icon} size={14} color={statusOption.color} />
+                <Text style={[styles.statusPillText, { color: statusOption.color }]}>{t(statusOption.labelKey)}</Text>
+              </View>
+            </View>
+            <Text style={styles.statusHint}>
+              {isReporter
+                ? t('incidentDetail.reporterHint')
+                : t('incidentDetail.statusHint', { count: INCIDENT_STATUS_CONSENSUS_VOTES })}
+            </Text>
+            <View style={styles.statusOptions}>
+              {STATUS_OPTIONS.map((option) => {
+                const isSelected = isReporter ? option.value === status : statusVotes?.myVote === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.statusOption,
+                      isSelected && { borderColor: option.color, backgroundColor: option.color + '15' },
+                      changingStatus && styles.buttonDisabled,
+                    ]}
+                    onPress={() => handleStatusChange(option.value)}
+                    disabled={changingStatus}
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons name={option.icon} size={18} color={option.color} />
+                    <Text style={styles.statusOptionText}>{t(option.labelKey)}</Text>
+                    {!isReporter && (
+                      <Text style={styles.statusVoteCount}>{statusVotes?.counts[option.value] || 0}</Text>
+                    )}
+                  </TouchableOpacity>
+                );
+              })}
             </View>
           </View>
-        </View>
 
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Description</Text>
-          <Text style={styles.description}>{incident.description}</Text>
-        </View>
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('incidentDetail.description')}</Text>
+            <Text style={styles.description}>{incident.description}</Text>
+          </View>
 
-        <View style={styles.section}>
-          <View style={styles.infoRow}>
-            <Ionicons name="time-outline" size={20} color="#8E8E93" />
-            <Text style={styles.infoText}>{getTimeAgo(incident.createdAt)}</Text>
+          {media.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('reportIncident.media')}</Text>
+              <IncidentMediaGallery media={media} thumbnailSize={96} />
+            </View>
+          )}
+
+          <View style={styles.section}>
+            <View style={styles.infoRow}>
+              <Ionicons name="time-outline" size={20} color="#8E8E93" />
+              <Text style={styles.infoText}>{formatTimeAgo(incident.createdAt)}</Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Ionicons name="location-outline" size={20} color="#8E8E93" />
+              <Text style={styles.infoText}>{t('incidents.distanceAway', { distance: formatDistance(distance) })}</Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Ionicons name="person-outline" size={20} color="#8E8E93" />
+              <Text style={styles.infoText}>
+                {t('incidentDetail.reportedBy', {
+                  name: incident.reporter.isAnonymous ? t('incidentDetail.anonymous') : incident.reporter.name,
+                })}
+              </Text>
+            </View>
           </View>
-          <View style={styles.infoRow}>
-            <Ionicons name="location-outline" size={20} color="#8E8E93" />
-            <Text style={styles.infoText}>{distance.toFixed(1)} km away</Text>
+
+          <View style={styles.mapContainer}>
+            <MapView
+              provider={PROVIDER_GOOGLE}
+              style={styles.map}
+              initialRegion={{
+                latitude: incident.location.latitude,
+                longitude: incident.location.longitude,
+                latitudeDelta: 0.01,
+                longitudeDelta: 0.01,
+              }}
+            >
+              <Marker
+                coordinate={incident.location}
+                title={incident.title}
+              >
+                <View style={[styles.incidentMarker, { backgroundColor: getCategoryColor(incident.category) }]}>
+                  <Ionicons
+                    name={getCategoryIcon(incident.category)}
+                    size={20}
+                    color="#FFFFFF"
+                  />
+                </View>
+              </Marker>
+              <Marker
+                coordinate={userLocation}
+                title={t('incidentDetail.you')}
+              >
+                <View style={styles.userMarker}>
+                  <Ionicons name="person" size={16} color="#FFFFFF" />
+                </View>
+              </Marker>
+            </MapView>
           </View>
-          <View style={styles.infoRow}>
-            <Ionicons name="person-outline" size={20} color="#8E8E93" />
-            <Text style={styles.infoText}>
-              Reported by {incident.reporter.isAnonymous ? 'Anonymous' : incident.reporter.name}
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('incidentDetail.isAccurate')}</Text>
+            <View style={styles.voteRow}>
+              <TouchableOpacity
+                style={[styles.voteButton, myVote === 'confirm' && styles.voteButtonConfirmSelected]}
+                onPress={() => handleVote('confirm')}
+                disabled={isReporter || voting}
+                activeOpacity={0.7}
+              >
+                <Ionicons
+                  name={myVote === 'confirm' ? 'checkmark-circle' : 'checkmark-circle-outline'}
+                  size={20}
+                  color={myVote === 'confirm' ? '#FFFFFF' : '#34C759'}
+                />
+                <Text style={[styles.voteText, { color: myVote === 'confirm' ? '#FFFFFF' : '#34C759' }]}>
+                  {t('incidentDetail.confirmVote', { count: liveIncident.upvotes })}
+                </Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.voteButton, myVote === 'false' && styles.voteButtonFalseSelected]}
+                onPress={() => handleVote('false')}
+                disabled={isReporter || voting}
+                activeOpacity={0.7}
+              >
+                <Ionicons
+                  name={myVote === 'false' ? 'close-circle' : 'close-circle-outline'}
+                  size={20}
+                  color={myVote === 'false' ? '#FFFFFF' : '#FF3B30'}
+                />
+                <Text style={[styles.voteText, { color: myVote === 'false' ? '#FFFFFF' : '#FF3B30' }]}>
+                  {t('incidentDetail.falseVote', { count: liveIncident.falseVotes || 0 })}
+                </Text>
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.voteHint}>
+              {isReporter
+                ? t('incidentDetail.voteHintReporter')
+                : t('incidentDetail.voteHint')}
             </Text>
           </View>
-        </View>
 
-        <View style={styles.mapContainer}>
-          <MapView
-            provider={PROVIDER_GOOGLE}
-            style={styles.map}
-            initialRegion={{
-              latitude: incident.location.latitude,
-              longitude: incident.location.longitude,
-              latitudeDelta: 0.01,
-              longitudeDelta: 0.01,
-            }}
-          >
-            <Marker
-              coordinate={incident.location}
-              title={incident.title}
+          <View style={styles.actions}>
+            <TouchableOpacity
+              style={styles.directionsButton}
+              onPress={handleDirections}
             >
-              <View style={[styles.incidentMarker, { backgroundColor: getCategoryColor(incident.category) }]}>
+              <Ionicons name="navigate" size={20} color="#FFFFFF" />
+              <Text style={styles.directionsButtonText}>{t('incidentDetail.directions')}</Text>
+            </TouchableOpacity>
+          </View>
+
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>{t('incidentDetail.updates')}</Text>
+            {loadingUpdates ? (
+              <ActivityIndicator size="small" color="#007AFF" />
+            ) : updates.length === 0 ? (
+              <Text style={styles.emptyText}>{t('incidentDetail.noUpdates')}</Text>
+            ) : (
+              updates.map((update) => renderUpdate(update))
+            )}
+
+            {replyTo && (
+              <View style={styles.replyingBanner}>
+                <Text style={styles.replyingText} numberOfLines={1}>
+                  {t('incidentDetail.replyingTo', { name: replyTo.authorName })}
+                </Text>
+                <TouchableOpacity onPress={() => setReplyTo(null)} activeOpacity={0.7}>
+                  <Ionicons name="close-circle" size={18} color="#8E8E93" />
+                </TouchableOpacity>
+              </View>
+            )}
+            <TextInput
+              style={styles.updateInput}
+              placeholder={replyTo ? t('incidentDetail.replyPlaceholder') : t('incidentDetail.updatePlaceholder')}
+              placeholderTextColor="#9CA3AF"
+              value={updateText}
+              onChangeText={setUpdateText}
+              multiline
+              maxLength={1000}
+            />
+            <View style={styles.composerRow}>
+              <TouchableOpacity
+                style={styles.shareLocationToggle}
+                onPress={() => setShareLocation(!shareLocation)}
+                activeOpacity={0.7}
+              >
                 <Ionicons
-                  name={getCategoryIcon(incident.category)}
+                  name={shareLocation ? 'checkbox' : 'square-outline'}
                   size={20}
-                  color="#FFFFFF"
+                  color={shareLocation ? '#007AFF' : '#8E8E93'}
                 />
-              </View>
-            </Marker>
-            <Marker
-              coordinate={userLocation}
-              title="You"
-            >
-              <View style={styles.userMarker}>
-                <Ionicons name="person" size={16} color="#FFFFFF" />
-              </View>
-            </Marker>
-          </MapView>
-        </View>
-
-        <View style={styles.actions}>
-          <TouchableOpacity
-            style={styles.upvoteButton}
-            onPress={() => upvoteIncident(incident.id)}
-          >
-            <Ionicons name="arrow-up" size={20} color="#007AFF" />
-            <Text style={styles.upvoteText}>{incident.upvotes} upvotes</Text>
-          </TouchableOpacity>
-
-          <TouchableOpacity
-            style={styles.directionsButton}
-            onPress={handleDirections}
-          >
-            <Ionicons name="navigate" size={20} color="#FFFFFF" />
-            <Text style={styles.directionsButtonText}>Get Directions</Text>
-          </TouchableOpacity>
-        </View>
-      </ScrollView>
+                <Text style={styles.shareLocationText}>{t('incidentDetail.includeLocation')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.postButton, (!updateText.trim() || posting) && styles.buttonDisabled]}
+                onPress={handlePostUpdate}
+                disabled={!updateText.trim() || posting}
+                activeOpacity={0.7}
+              >
+                {posting ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.postButtonText}>{t('incidentDetail.post')}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          </View>
+        </ScrollView>
+      </KeyboardAvoidingView>
     </SafeAreaView>
   );
 }
@@ -324,21 +648,35 @@ const styles = StyleSheet.create({
     padding: 16,
     gap: 12,
   },
-  upvoteButton: {
+  voteRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  voteButton: {
     flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
     backgroundColor: '#F5F5F5',
     borderRadius: 12,
-    padding: 16,
-    gap: 8,
+    padding: 14,
+    gap: 6,
   },
-  upvoteText: {
-    fontSize: 16,
-    color: '#007AFF',
+  voteButtonConfirmSelected: {
+    backgroundColor: '#34C759',
+  },
+  voteButtonFalseSelected: {
+    backgroundColor: '#FF3B30',
+  },
+  voteText: {
+    fontSize: 15,
     fontWeight: '500',
   },
+  voteHint: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 8,
+  },
   directionsButton: {
     flex: 1,
     flexDirection: 'row',
@@ -354,5 +692,188 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: '600',
   },
+  statusHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+  },
+  statusPill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+  },
+  statusPillText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  statusHint: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+  statusOptions: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  statusOption: {
+    flex: 1,
+    alignItems: 'center',
+    gap: 4,
+    paddingVertical: 10,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+  },
+  statusOptionText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#000000',
+  },
+  statusVoteCount: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+  statusChangeRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 8,
+  },
+  statusChangeText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  updateRow: {
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  updateReply: {
+    marginTop: 8,
+    marginLeft: 16,
+    paddingLeft: 12,
+    paddingVertical: 4,
+    borderBottomWidth: 0,
+    borderLeftWidth: 2,
+    borderLeftColor: '#E5E5EA',
+  },
+  updateHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: 4,
+  },
+  updateAuthor: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  reporterBadge: {
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    borderRadius: 6,
+    backgroundColor: '#007AFF20',
+  },
+  reporterBadgeText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  updateTime: {
+    marginLeft: 'auto',
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  updateBody: {
+    fontSize: 15,
+    color: '#000000',
+    lineHeight: 21,
+  },
+  updateFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginTop: 6,
+  },
+  updateLocation: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+  },
+  updateLocationText: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  replyText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  replyingBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#F5F5F5',
+  },
+  replyingText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  updateInput: {
+    marginTop: 12,
+    minHeight: 64,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 12,
+    padding: 12,
+    fontSize: 15,
+    color: '#000000',
+    textAlignVertical: 'top',
+  },
+  composerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 12,
+  },
+  shareLocationToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  shareLocationText: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  postButton: {
+    minWidth: 80,
+    alignItems: 'center',
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  postButtonText: {
+    fontSize: 15,
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  buttonDisabled: {
+    opacity: 0.5,
+  },
 });
 
@@ -16,10 +16,12 @@ import type { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import { useIncidents } from '../context/IncidentContext';
 import { useAppSetting } from '../context/AppSettingContext';
+import { useUserSettings } from '../context/UserSettingsContext';
 import { locationService } from '../services/locationService';
-import { incidentProximityService } from '../services/incidentProximityService';
 import { supabase } from '../lib/supabase';
-import type { MainTabParamList, RootStackParamList, Incident, TimeFilter, DistanceFilter } from '../types';
+import { IncidentMediaGallery } from '../components/IncidentMediaGallery';
+import type { MainTabParamList, RootStackParamList, Incident, IncidentStatus } from '../types';
+import type { TranslationKey } from '../i18n';
 
 type IncidentFeedScreenNavigationProp = CompositeNavigationProp<
   BottomTabNavigationProp<MainTabParamList, 'Incidents'>,
@@ -33,26 +35,21 @@ interface IncidentFeedScreenProps {
 type ViewMode = 'list' | 'map';
 
 // Define time filters locally
-const timeFilters: TimeFilter[] = [
-  { label: '5 min', value: '5min' },
-  { label: '30 min', value: '30min' },
-  { label: '1 hr', value: '1hr' },
-  { label: '24 hr', value: '24hr' },
-];
-
-// Define distance filters locally
-const distanceFilters: DistanceFilter[] = [
-  { label: '1 km', value: 1 },
-  { label: '5 km', value: 5 },
-  { label: '10 km', value: 10 },
-  { label: 'City', value: 50 },
+const timeFilters: { labelKey: TranslationKey; count: number; value: string }[] = [
+  { labelKey: 'incidents.filterMinutes', count: 5, value: '5min' },
+  { labelKey: 'incidents.filterMinutes', count: 30, value: '30min' },
+  { labelKey: 'incidents.filterHours', count: 1, value: '1hr' },
+  { labelKey: 'incidents.filterHours', count: 24, value: '24hr' },
 ];
 
 export default function IncidentFeedScreen({ navigation }: IncidentFeedScreenProps) {
   const { incidents, fetchNearbyIncidents, userLocation, setUserLocation, calculateDistance, loading } = useIncidents();
   const { hideReportIncident } = useAppSetting();
+  const { distanceFilters, formatDistance, formatTimeAgo, t } = useUserSettings();
   const [timeFilter, setTimeFilter] = useState<string>('1hr');
-  const [distanceFilter, setDistanceFilter] = useState<number>(5);
+  // Selected by position so the choice carries over when the unit system changes
+  const [distanceFilterIndex, setDistanceFilterIndex] = useState<number>(1);
+  const distanceFilter = distanceFilters[distanceFilterIndex]?.value ?? distanceFilters[0].value;
   const [viewMode, setViewMode] = useState<ViewMode>('list');
   const [locationFetched, setLocationFetched] = useState<boolean>(false);
 
@@ -98,17 +95,6 @@ export default function IncidentFeedScreen({ navigation }: IncidentFeedScreenPro
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [timeFilter, distanceFilter, userLocation.latitude, userLocation.longitude, locationFetched]);
 
-  // Start incident proximity checking service
-  useEffect(() => {
-    // Start periodic checking for incident proximity (checks every 15 minutes)
-    incidentProximityService.startPeriodicChecking();
-
-    return () => {
-      // Stop periodic checking when component unmounts
-      incidentProximityService.stopPeriodicChecking();
-    };
-  }, []);
-
   // Set up real-time subscription for incidents
   useEffect(() => {
     if (!locationFetched) return; // Wait for location to be fetched first
@@ -137,15 +123,19 @@ export default function IncidentFeedScreen({ navigation }: IncidentFeedScreenPro
             console.log('Refreshing incidents due to real-time update');
             fetchNearbyIncidents(timeFilter, distanceFilter);
           }
-
-          // Trigger proximity check when a new incident is created
-          // This ensures users get notified immediately if they're near the new incident
-          if (eventType === 'INSERT' && payload.new) {
-            console.log('New incident created, triggering proximity check...');
-            // Trigger proximity check to notify nearby users
-            incidentProximityService.triggerCheck().catch((error) => {
-              console.error('Error triggering incident proximity check:', error);
-            });
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'incident_media',
+        },
+        () => {
+          // Photos/videos finish uploading after the incident itself was inserted
+          if (locationFetched && userLocation.latitude && userLocation.longitude) {
+            fetchNearbyIncidents(timeFilter, distanceFilter);
           }
         }
       )
@@ -171,17 +161,6 @@ export default function IncidentFeedScreen({ navigation }: IncidentFeedScreenPro
   // Use incidents directly from context (already filtered by proximity and time)
   const nearbyIncidents = incidents;
 
-  const getTimeAgo = (timestamp: string): string => {
-    const now = new Date();
-    const time = new Date(timestamp);
-    const diff = Math.floor((now.getTime() - time.getTime()) / 1000 / 60);
-    if (diff < 1) return 'Just now';
-    if (diff < 60) return `${diff} min ago`;
-    const hours = Math.floor(diff / 60);
-    if (hours < 24) return `${hours} hr ago`;
-    return `${Math.floor(hours / 24)} days ago`;
-  };
-
   const getCategoryIcon = (category: string): keyof typeof Ionicons.glyphMap => {
     const icons: Record<string, keyof typeof Ionicons.glyphMap> = {
       Robbery: 'shield-outline',
@@ -210,6 +189,15 @@ export default function IncidentFeedScreen({ navigation }: IncidentFeedScreenPro
     return colors[category] || '#8E8E93';
   };
 
+  const getStatusBadge = (status: IncidentStatus): { labelKey: TranslationKey; color: string } => {
+    const badges: Record<IncidentStatus, { labelKey: TranslationKey; color: string }> = {
+      ongoing: { labelKey: 'incidentDetail.status.ongoing', color: '#FF3B30' },
+      contained: { labelKey: 'incidentDetail.status.contained', color: '#FF9500' },
+      resolved: { labelKey: 'incidentDetail.status.resolved', color: '#34C759' },
+    };
+    return badges[status] || badges.ongoing;
+  };
+
   const renderIncidentCard = ({ item }: { item: Incident }) => {
     const distance = calculateDistance(
       userLocation.latitude,
@@ -234,8 +222,8 @@ export default function IncidentFeedScreen({ navigation }: IncidentFeedScreenPro
           <View style={styles.cardHeaderInfo}>
             <Text style={styles.cardTitle}>{item.title}</Text>
             <View style={styles.cardMeta}>
-              <Text style={styles.cardTime}>{getTimeAgo(item.createdAt)}</Text>
-              <Text style={styles.cardDistance}>• {distance.toFixed(1)} km away</Text>
+              <Text style={styles.cardTime}>{formatTimeAgo(item.createdAt)}</Text>
+              <Text style={styles.cardDistance}>• {t('incidents.distanceAway', { distance: formatDistance(distance) })}</Text>
             </View>
           </View>
           {item.confirmed && (
@@ -247,6 +235,12 @@ export default function IncidentFeedScreen({ navigation }: IncidentFeedScreenPro
         <Text style={styles.cardDescription} numberOfLines={2}>
           {item.description}
         </Text>
+
+        {item.media && item.media.length > 0 && (
+          <View style={styles.cardMedia}>
+            <IncidentMediaGallery media={item.media} thumbnailSize={64} />
+          </View>
+        )}
         
         {/* Location Information */}
         {item.location.address || (item.location.latitude && item.location.longitude) ? (
@@ -266,12 +260,25 @@ export default function IncidentFeedScreen({ navigation }: IncidentFeedScreenPro
         ) : null}
         
         <View style={styles.cardFooter}>
-          <View style={styles.upvoteButton}>
-            <Ionicons name="arrow-up" size={16} color="#8E8E93" />
-            <Text style={styles.upvoteCount}>{item.upvotes}</Text>
+          <View style={styles.cardFooterStats}>
+            <View style={styles.upvoteButton}>
+              <Ionicons name="arrow-up" size={16} color="#8E8E93" />
+              <Text style={styles.upvoteCount}>{item.upvotes}</Text>
+            </View>
+            {item.updateCount > 0 && (
+              <View style={styles.upvoteButton}>
+                <Ionicons name="chatbubble-outline" size={14} color="#8E8E93" />
+                <Text style={styles.upvoteCount}>{item.updateCount}</Text>
+              </View>
+            )}
+            <View style={[styles.statusBadge, { backgroundColor: getStatusBadge(item.status).color + '20' }]}>
+              <Text style={[styles.statusBadgeText, { color: getStatusBadge(item.status).color }]}>
+                {t(getStatusBadge(item.status).labelKey)}
+              </Text>
+            </View>
           </View>
           <Text style={styles.reporterText}>
-            {item.reporter.isAnonymous ? 'Anonymous' : item.reporter.name}
+            {item.reporter.isAnonymous ? t('incidentDetail.anonymous') : item.reporter.name}
           </Text>
         </View>
       </TouchableOpacity>
@@ -281,7 +288,7 @@ export default function IncidentFeedScreen({ navigation }: IncidentFeedScreenPro
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>Safety Feed</Text>
+        <Text style={styles.headerTitle}>{t('incidents.safetyFeed')}</Text>
         {!hideReportIncident && (
           <TouchableOpacity
             onPress={() => navigation.navigate('ReportIncident')}
@@ -308,6 +315,28 @@ export default function IncidentFeedScreen({ navigation }: IncidentFeedScreenPro
                   styles.filterChipText,
                   timeFilter === filter.value && styles.filterChipTextActive,
                 ]}
+              >
+                {t(filter.labelKey, { count: filter.count })}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.timeFilters}>
+          {distanceFilters.map((filter, index) => (
+            <TouchableOpacity
+              key={filter.label}
+              style={[
+                styles.filterChip,
+                distanceFilterIndex === index && styles.filterChipActive,
+              ]}
+              onPress={() => setDistanceFilterIndex(index)}
+            >
+              <Text
+                style={[
+                  styles.filterChipText,
+                  distanceFilterIndex === index && styles.filterChipTextActive,
+                ]}
               >
                 {filter.label}
               </Text>
@@ -352,7 +381,7 @@ export default function IncidentFeedScreen({ navigation }: IncidentFeedScreenPro
         >
           <Marker
             coordinate={userLocation}
-            title="You"
+            title={t('incidentDetail.you')}
           >
             <View style={styles.userMarker}>
               <Ionicons name="person" size={16} color="#FFFFFF" />
@@ -384,14 +413,14 @@ export default function IncidentFeedScreen({ navigation }: IncidentFeedScreenPro
         <View style={styles.content}>
           {loading ? (
             <View style={styles.emptyState}>
-              <Text style={styles.emptyStateTitle}>Loading incidents...</Text>
+              <Text style={styles.emptyStateTitle}>{t('incidents.loading')}</Text>
             </View>
           ) : nearbyIncidents.length === 0 ? (
             <View style={styles.emptyState}>
               <Ionicons name="checkmark-circle-outline" size={64} color="#34C759" />
-              <Text style={styles.emptyStateTitle}>No Recent Reports</Text>
+              <Text style={styles.emptyStateTitle}>{t('incidents.noReports')}</Text>
               <Text style={styles.emptyStateText}>
-                There are no recent incidents reported in your area. Stay safe!
+                {t('incidents.noReportsMessage')}
               </Text>
             </View>
           ) : (
@@ -558,6 +587,9 @@ const styles = StyleSheet.create({
     lineHeight: 20,
     marginBottom: 12,
   },
+  cardMedia: {
+    marginBottom: 12,
+  },
   locationInfo: {
     flexDirection: 'row',
     alignItems: 'flex-start',
@@ -586,11 +618,25 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     alignItems: 'center',
   },
+  cardFooterStats: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
   upvoteButton: {
     flexDirection: 'row',
     alignItems: 'center',
     gap: 4,
   },
+  statusBadge: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    borderRadius: 8,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
   upvoteCount: {
     fontSize: 14,
     color: '#8E8E93',
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -12,8 +12,9 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import type { RootStackParamList } from '../types';
-import { useAuth } from '../context/AuthContext';
-import { supabase } from '../lib/supabase';
+import { useUserSettings } from '../context/UserSettingsContext';
+import { SUPPORTED_LANGUAGES, SUPPORTED_REGIONS } from '../i18n';
+import type { SupportedLanguage } from '../i18n';
 
 type LanguageRegionScreenNavigationProp = StackNavigationProp<RootStackParamList, 'LanguageRegion'>;
 
@@ -21,186 +22,34 @@ interface LanguageRegionScreenProps {
   navigation: LanguageRegionScreenNavigationProp;
 }
 
-const languages = [
-  { code: 'en', name: 'English' },
-  { code: 'es', name: 'Spanish' },
-  { code: 'fr', name: 'French' },
-  { code: 'de', name: 'German' },
-  { code: 'zh', name: 'Chinese' },
-];
-
-const regions = [
-  { code: 'US', name: 'United States' },
-  { code: 'GB', name: 'United Kingdom' },
-  { code: 'CA', name: 'Canada' },
-  { code: 'AU', name: 'Australia' },
-  { code: 'IN', name: 'India' },
-];
-
 export default function LanguageRegionScreen({ navigation }: LanguageRegionScreenProps) {
-  const { user } = useAuth();
-  const [selectedLanguage, setSelectedLanguage] = useState('en');
-  const [selectedRegion, setSelectedRegion] = useState('US');
-  const [loading, setLoading] = useState<boolean>(true);
+  const { language: selectedLanguage, region: selectedRegion, loading, setLanguage, setRegion, t } =
+    useUserSettings();
   const [saving, setSaving] = useState<boolean>(false);
-  const realtimeChannelRef = useRef<any>(null);
-
-  useEffect(() => {
-    if (user?.id) {
-      loadSettings();
-      setupRealtimeSubscription();
-    }
-
-    return () => {
-      if (realtimeChannelRef.current) {
-        try {
-          supabase.removeChannel(realtimeChannelRef.current);
-        } catch (error) {
-          console.warn('Error removing channel during cleanup:', error);
-        }
-        realtimeChannelRef.current = null;
-      }
-    };
-  }, [user?.id]);
-
-  const setupRealtimeSubscription = (): void => {
-    if (!user?.id) return;
-
-    if (realtimeChannelRef.current) {
-      supabase.removeChannel(realtimeChannelRef.current);
-      realtimeChannelRef.current = null;
-    }
-
-    const channelName = `language_region:${user.id}`;
-    const channel = supabase
-      .channel(channelName)
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'user_settings',
-          filter: `user_id=eq.${user.id}`,
-        },
-        (payload) => {
-          const newData = payload.new as any;
-          if (newData) {
-            if (newData.language) setSelectedLanguage(newData.language);
-            if (newData.region) setSelectedRegion(newData.region);
-          }
-        }
-      )
-      .subscribe();
-
-    realtimeChannelRef.current = channel;
-  };
-
-  const loadSettings = async () => {
-    if (!user?.id) return;
-
-    try {
-      setLoading(true);
-
-      const { data, error } = await supabase
-        .from('user_settings')
-        .select('language, region')
-        .eq('user_id', user.id)
-        .single();
 
-      if (error) {
-        if (error.code === 'PGRST116') {
-          await createDefaultSettings();
-        } else {
-          console.error('Error loading language/region settings:', error);
-        }
-      } else if (data) {
-        if (data.language) setSelectedLanguage(data.language);
-        if (data.region) setSelectedRegion(data.region);
-      }
-    } catch (error) {
-      console.error('Error loading language/region settings:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const createDefaultSettings = async (): Promise<void> => {
-    if (!user?.id) return;
-
-    try {
-      await supabase
-        .from('user_settings')
-        .insert({
-          user_id: user.id,
-          language: 'en',
-          region: 'US',
-        });
-    } catch (error) {
-      console.error('Error creating default settings:', error);
-    }
-  };
-
-  const handleSelectLanguage = async (code: string) => {
-    if (!user?.id || saving) return;
+  const handleSelectLanguage = async (code: SupportedLanguage) => {
+    if (saving || code === selectedLanguage) return;
 
     try {
       setSaving(true);
-      setSelectedLanguage(code);
-
-      const { error } = await supabase
-        .from('user_settings')
-        .upsert(
-          {
-            user_id: user.id,
-            language: code,
-          },
-          {
-            onConflict: 'user_id',
-          }
-        );
-
-      if (error) {
-        console.error('Error saving language:', error);
-        Alert.alert('Error', 'Failed to save language setting. Please try again.');
-        await loadSettings();
+      const saved = await setLanguage(code);
+      if (!saved) {
+        Alert.alert(t('common.error'), t('languageRegion.saveLanguageFailed'));
       }
-    } catch (error) {
-      console.error('Error saving language:', error);
-      Alert.alert('Error', 'Failed to save language setting. Please try again.');
-      await loadSettings();
     } finally {
       setSaving(false);
     }
   };
 
   const handleSelectRegion = async (code: string) => {
-    if (!user?.id || saving) return;
+    if (saving || code === selectedRegion) return;
 
     try {
       setSaving(true);
-      setSelectedRegion(code);
-
-      const { error } = await supabase
-        .from('user_settings')
-        .upsert(
-          {
-            user_id: user.id,
-            region: code,
-          },
-          {
-            onConflict: 'user_id',
-          }
-        );
-
-      if (error) {
-        console.error('Error saving region:', error);
-        Alert.alert('Error', 'Failed to save region setting. Please try again.');
-        await loadSettings();
+      const saved = await setRegion(code);
+      if (!saved) {
+        Alert.alert(t('common.error'), t('languageRegion.saveRegionFailed'));
       }
-    } catch (error) {
-      console.error('Error saving region:', error);
-      Alert.alert('Error', 'Failed to save region setting. Please try again.');
-      await loadSettings();
     } finally {
       setSaving(false);
     }
@@ -212,7 +61,7 @@ export default function LanguageRegionScreen({ navigation }: LanguageRegionScree
         <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
           <Ionicons name="arrow-back" size={24} color="#000000" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Language & Region</Text>
+        <Text style={styles.headerTitle}>{t('languageRegion.title')}</Text>
         <View style={styles.placeholder} />
       </View>
 
@@ -220,20 +69,25 @@ export default function LanguageRegionScreen({ navigation }: LanguageRegionScree
         {loading ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color="#007AFF" />
-            <Text style={styles.loadingText}>Loading settings...</Text>
+            <Text style={styles.loadingText}>{t('common.loadingSettings')}</Text>
           </View>
         ) : (
           <>
             <View style={styles.section}>
-              <Text style={styles.sectionTitle}>Language</Text>
-              {languages.map((lang) => (
+              <Text style={styles.sectionTitle}>{t('languageRegion.language')}</Text>
+              {SUPPORTED_LANGUAGES.map((lang) => (
                 <TouchableOpacity
                   key={lang.code}
                   style={[styles.option, selectedLanguage === lang.code && styles.optionSelected]}
                   onPress={() => handleSelectLanguage(lang.code)}
                   disabled={saving}
                 >
-              <Text style={styles.optionText}>{lang.name}</Text>
+              <View>
+                <Text style={styles.optionText}>{lang.nativeName}</Text>
+                {lang.nativeName !== lang.name && (
+                  <Text style={styles.optionSubtext}>{lang.name}</Text>
+                )}
+              </View>
               {selectedLanguage === lang.code && (
                 <Ionicons name="checkmark" size={20} color="#007AFF" />
               )}
@@ -242,12 +96,13 @@ export default function LanguageRegionScreen({ navigation }: LanguageRegionScree
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Region</Text>
-          {regions.map((region) => (
+          <Text style={styles.sectionTitle}>{t('languageRegion.region')}</Text>
+          {SUPPORTED_REGIONS.map((region) => (
             <TouchableOpacity
               key={region.code}
               style={[styles.option, selectedRegion === region.code && styles.optionSelected]}
               onPress={() => handleSelectRegion(region.code)}
+              disabled={saving}
             >
               <Text style={styles.optionText}>{region.name}</Text>
               {selectedRegion === region.code && (
@@ -319,6 +174,11 @@ const styles = StyleSheet.create({
     fontSize: 16,
     color: '#000000',
   },
+  optionSubtext: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -13,7 +13,9 @@ import { Ionicons } from '@expo/vector-icons';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import type { RootStackParamList } from '../types';
 import { useAuth } from '../context/AuthContext';
+import { useUserSettings } from '../context/UserSettingsContext';
 import { supabase } from '../lib/supabase';
+import { locationService } from '../services/locationService';
 
 type LocationAccuracyScreenNavigationProp = StackNavigationProp<RootStackParamList, 'LocationAccuracy'>;
 
@@ -25,9 +27,13 @@ type AccuracyMode = 'exact' | 'approximate';
 
 export default function LocationAccuracyScreen({ navigation }: LocationAccuracyScreenProps) {
   const { user } = useAuth();
+  const { t } = useUserSettings();
   const [accuracyMode, setAccuracyMode] = useState<AccuracyMode>('exact');
   const [loading, setLoading] = useState<boolean>(true);
   const [saving, setSaving] = useState<boolean>(false);
+  const [emergencyOverride, setEmergencyOverride] = useState<boolean>(
+    locationService.getLocationPrivacyState().emergencyOverride
+  );
   const realtimeChannelRef = useRef<any>(null);
 
   useEffect(() => {
@@ -172,12 +178,16 @@ export default function LocationAccuracyScreen({ navigation }: LocationAccuracyS
 
       if (error) {
         console.error('Error saving accuracy mode:', error);
-        Alert.alert('Error', 'Failed to save location accuracy setting. Please try again.');
+        Alert.alert(t('common.error'), t('locationAccuracy.saveFailed'));
         await loadAccuracyMode();
+      } else {
+        // Apply the new mode to location updates right away (foreground and background)
+        await locationService.refreshLocationAccuracySetting();
+        setEmergencyOverride(locationService.getLocationPrivacyState().emergencyOverride);
       }
     } catch (error) {
       console.error('Error saving accuracy mode:', error);
-      Alert.alert('Error', 'Failed to save location accuracy setting. Please try again.');
+      Alert.alert(t('common.error'), t('locationAccuracy.saveFailed'));
       await loadAccuracyMode();
     } finally {
       setSaving(false);
@@ -190,19 +200,19 @@ export default function LocationAccuracyScreen({ navigation }: LocationAccuracyS
         <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
           <Ionicons name="arrow-back" size={24} color="#000000" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Location Accuracy</Text>
+        <Text style={styles.headerTitle}>{t('profile.locationAccuracy')}</Text>
         <View style={styles.placeholder} />
       </View>
 
       <ScrollView style={styles.content}>
         <Text style={styles.description}>
-          Choose how precise your location is shared with your connections.
+          {t('locationAccuracy.description')}
         </Text>
 
         {loading ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color="#007AFF" />
-            <Text style={styles.loadingText}>Loading settings...</Text>
+            <Text style={styles.loadingText}>{t('common.loadingSettings')}</Text>
           </View>
         ) : (
           <>
@@ -218,9 +228,9 @@ export default function LocationAccuracyScreen({ navigation }: LocationAccuracyS
               color={accuracyMode === 'exact' ? '#007AFF' : '#8E8E93'}
             />
             <View style={styles.optionText}>
-              <Text style={styles.optionTitle}>Exact GPS Location</Text>
+              <Text style={styles.optionTitle}>{t('locationAccuracy.exact')}</Text>
               <Text style={styles.optionSubtitle}>
-                Share your precise location with exact coordinates
+                {t('locationAccuracy.exactSubtitle')}
               </Text>
             </View>
           </View>
@@ -237,13 +247,29 @@ export default function LocationAccuracyScreen({ navigation }: LocationAccuracyS
               color={accuracyMode === 'approximate' ? '#007AFF' : '#8E8E93'}
             />
             <View style={styles.optionText}>
-              <Text style={styles.optionTitle}>Approximate Location</Text>
+              <Text style={styles.optionTitle}>{t('locationAccuracy.approximate')}</Text>
               <Text style={styles.optionSubtitle}>
-                Share a general area (within ~100 meters) for privacy
+                {t('locationAccuracy.approximateSubtitle')}
               </Text>
             </View>
           </View>
         </TouchableOpacity>
+
+            <View style={styles.infoBox}>
+              <Ionicons name="information-circle-outline" size={20} color="#8E8E93" />
+              <Text style={styles.infoText}>
+                {t('locationAccuracy.emergencyInfo')}
+              </Text>
+            </View>
+
+            {accuracyMode === 'approximate' && emergencyOverride && (
+              <View style={styles.emergencyBanner}>
+                <Ionicons name="warning" size={20} color="#B45309" />
+                <Text style={styles.emergencyBannerText}>
+                  {t('locationAccuracy.emergencyActive')}
+                </Text>
+              </View>
+            )}
           </>
         )}
       </ScrollView>
@@ -316,6 +342,36 @@ const styles = StyleSheet.create({
     color: '#8E8E93',
     lineHeight: 20,
   },
+  infoBox: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 8,
+    marginTop: 12,
+  },
+  infoText: {
+    flex: 1,
+    fontSize: 13,
+    color: '#8E8E93',
+    lineHeight: 18,
+  },
+  emergencyBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 16,
+    padding: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FDE68A',
+    backgroundColor: '#FFFBEB',
+  },
+  emergencyBannerText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#B45309',
+    fontWeight: '600',
+    lineHeight: 20,
+  },
   loadingContainer: {
     flex: 1,
     justifyContent: 'center',
@@ -12,7 +12,9 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import type { RootStackParamList } from '../types';
+import type { TranslationKey } from '../i18n';
 import { useAuth } from '../context/AuthContext';
+import { useUserSettings } from '../context/UserSettingsContext';
 import { supabase } from '../lib/supabase';
 
 type LocationUpdateFrequencyScreenNavigationProp = StackNavigationProp<RootStackParamList, 'LocationUpdateFrequency'>;
@@ -22,21 +24,22 @@ interface LocationUpdateFrequencyScreenProps {
 }
 
 interface FrequencyOption {
-  label: string;
+  labelKey: TranslationKey;
   minutes: number;
-  description: string;
+  descriptionKey: TranslationKey;
 }
 
 const FREQUENCY_OPTIONS: FrequencyOption[] = [
-  { label: '15 minutes', minutes: 15, description: 'Update location every 15 minutes' },
-  { label: '30 minutes', minutes: 30, description: 'Update location every 30 minutes' },
-  { label: '1 hour', minutes: 60, description: 'Update location every hour (recommended)' },
-  { label: '2 hours', minutes: 120, description: 'Update location every 2 hours' },
-  { label: '3 hours', minutes: 180, description: 'Update location every 3 hours' },
+  { labelKey: 'updateFrequency.option15', minutes: 15, descriptionKey: 'updateFrequency.option15Description' },
+  { labelKey: 'updateFrequency.option30', minutes: 30, descriptionKey: 'updateFrequency.option30Description' },
+  { labelKey: 'updateFrequency.option60', minutes: 60, descriptionKey: 'updateFrequency.option60Description' },
+  { labelKey: 'updateFrequency.option120', minutes: 120, descriptionKey: 'updateFrequency.option120Description' },
+  { labelKey: 'updateFrequency.option180', minutes: 180, descriptionKey: 'updateFrequency.option180Description' },
 ];
 
 export default function LocationUpdateFrequencyScreen({ navigation }: LocationUpdateFrequencyScreenProps) {
   const { user } = useAuth();
+  const { t } = useUserSettings();
   const [selectedMinutes, setSelectedMinutes] = useState<number>(60); // Default 1 hour
   const [loading, setLoading] = useState<boolean>(true);
   const [saving, setSaving] = useState<boolean>(false);
@@ -122,7 +125,7 @@ export default function LocationUpdateFrequencyScreen({ navigation }: LocationUp
           setSelectedMinutes(60); // Default 1 hour
         } else {
           console.error('Error loading settings:', error);
-          Alert.alert('Error', 'Failed to load settings. Using default values.');
+          Alert.alert(t('common.error'), t('updateFrequency.loadFailed'));
           setSelectedMinutes(60);
         }
       } else if (data) {
@@ -182,7 +185,7 @@ export default function LocationUpdateFrequencyScreen({ navigation }: LocationUp
 
       if (error) {
         console.error('Error saving location update frequency:', error);
-        Alert.alert('Error', 'Failed to save location update frequency. Please try again.');
+        Alert.alert(t('common.error'), t('updateFrequency.saveFailed'));
         // Revert on error
         await loadSettings();
       } else {
@@ -190,7 +193,7 @@ export default function LocationUpdateFrequencyScreen({ navigation }: LocationUp
       }
     } catch (error) {
       console.error('Error saving location update frequency:', error);
-      Alert.alert('Error', 'Failed to save location update frequency. Please try again.');
+      Alert.alert(t('common.error'), t('updateFrequency.saveFailed'));
       // Revert on error
       await loadSettings();
     } finally {
@@ -216,12 +219,12 @@ export default function LocationUpdateFrequencyScreen({ navigation }: LocationUp
           <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
             <Ionicons name="arrow-back" size={24} color="#000000" />
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>Location Update Frequency</Text>
+          <Text style={styles.headerTitle}>{t('profile.locationUpdateFrequency')}</Text>
           <View style={styles.placeholder} />
         </View>
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#007AFF" />
-          <Text style={styles.loadingText}>Loading settings...</Text>
+          <Text style={styles.loadingText}>{t('common.loadingSettings')}</Text>
         </View>
       </SafeAreaView>
     );
@@ -233,14 +236,13 @@ export default function LocationUpdateFrequencyScreen({ navigation }: LocationUp
         <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
           <Ionicons name="arrow-back" size={24} color="#000000" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Location Update Frequency</Text>
+        <Text style={styles.headerTitle}>{t('profile.locationUpdateFrequency')}</Text>
         <View style={styles.placeholder} />
       </View>
 
       <ScrollView style={styles.content}>
         <Text style={styles.description}>
-          Choose how often your location is updated and shared with your connections.
-          More frequent updates provide better accuracy but use more battery.
+          {t('updateFrequency.description')}
         </Text>
 
         {FREQUENCY_OPTIONS.map((option) => {
@@ -267,14 +269,14 @@ export default function LocationUpdateFrequencyScreen({ navigation }: LocationUp
                 )}
                 <View style={styles.optionText}>
                   <View style={styles.optionHeader}>
-                    <Text style={styles.optionTitle}>{option.label}</Text>
+                    <Text style={styles.optionTitle}>{t(option.labelKey)}</Text>
                     {isSelected && (
                       <View style={styles.selectedBadge}>
-                        <Text style={styles.selectedBadgeText}>Current</Text>
+                        <Text style={styles.selectedBadgeText}>{t('updateFrequency.current')}</Text>
                       </View>
                     )}
                   </View>
-                  <Text style={styles.optionSubtitle}>{option.description}</Text>
+                  <Text style={styles.optionSubtitle}>{t(option.descriptionKey)}</Text>
                 </View>
               </View>
             </TouchableOpacity>
@@ -284,8 +286,7 @@ export default function LocationUpdateFrequencyScreen({ navigation }: LocationUp
         <View style={styles.infoBox}>
           <Ionicons name="information-circle-outline" size={20} color="#007AFF" />
           <Text style={styles.infoText}>
-            Your location will be updated automatically at the selected interval when location sharing is enabled.
-            You can change this setting at any time.
+            {t('updateFrequency.info')}
           </Text>
         </View>
       </ScrollView>
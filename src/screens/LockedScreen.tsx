@@ -5,13 +5,20 @@ import {
   StyleSheet,
   ActivityIndicator,
   Platform,
+  TextInput,
+  TouchableOpacity,
+  Keyboard,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import { useAuth } from '../context/AuthContext';
+import { useUserSettings } from '../context/UserSettingsContext';
 import { supabase } from '../lib/supabase';
+import { locationService } from '../services/locationService';
+import { accountLockService } from '../services/accountLockService';
+import { sosService } from '../services/sosService';
 import { Ionicons } from '@expo/vector-icons';
-import type { RootStackParamList } from '../types';
+import type { AccountLockStatus, Location, RootStackParamList } from '../types';
 
 type LockedScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Locked'>;
 
@@ -21,7 +28,16 @@ interface LockedScreenProps {
 
 export default function LockedScreen({ navigation }: LockedScreenProps) {
   const { user } = useAuth();
+  const { t } = useUserSettings();
   const [checkingStatus, setCheckingStatus] = useState(true);
+  const [lockStatus, setLockStatus] = useState<AccountLockStatus | null>(null);
+  const [pin, setPin] = useState('');
+  const [pinError, setPinError] = useState<string | null>(null);
+  const [unlocking, setUnlocking] = useState(false);
+  // Approximate location is suspended while locked after an SOS (exact location is shared)
+  const [exactLocationOverride, setExactLocationOverride] = useState(
+    locationService.getLocationPrivacyState().mode === 'approximate'
+  );
 
   useEffect(() => {
     // Check lock status periodically
@@ -41,10 +57,18 @@ export default function LockedScreen({ navigation }: LockedScreenProps) {
             index: 0,
             routes: [{ name: 'MainTabs' }],
           });
+          return;
+        }
+
+        // PIN availability and connection approvals
+        const status = await accountLockService.getLockStatus(user.id);
+        if (status) {
+          setLockStatus(status);
         }
       } catch (error) {
         console.error('Error checking lock status:', error);
       } finally {
+        setExactLocationOverride(locationService.getLocationPrivacyState().mode === 'approximate');
         setCheckingStatus(false);
       }
     };
@@ -58,6 +82,87 @@ export default function LockedScreen({ navigation }: LockedScreenProps) {
     return () => clearInterval(interval);
   }, [user?.id, navigation]);
 
+  const handleUnlockWithPin = async (): Promise<void> => {
+    if (!pin || unlocking) return;
+
+    Keyboard.dismiss();
+    setUnlocking(true);
+    setPinError(null);
+
+    const lastLocation = locationService.getLastKnownLocation();
+    const result = await accountLockService.unlockWithPin(
+      pin,
+      lastLocation
+        ? {
+            latitude: lastLocation.latitude,
+            longitude: lastLocation.longitude,
+            address: lastLocation.address || undefined,
+          }
+        : null
+    );
+    setPin('');
+    setUnlocking(false);
+
+    if (result.duress && user?.id) {
+      // Duress PIN: looks like a normal unlock, but connections were silently
+      // alerted server-side. Keep exact tracking running and send the pushes.
+      startSilentSOS(user.id, user.name || 'Someone', lastLocation);
+    }
+
+    if (result.unlocked) {
+      navigation.reset({
+        index: 0,
+        routes: [{ name: 'MainTabs' }],
+      });
+      return;
+    }
+
+    if (result.message) {
+      setPinError(t('locked.pinCheckFailed'));
+      return;
+    }
+
+    const attemptsRemaining = result.attemptsRemaining ?? 0;
+    setLockStatus((prev) => (prev ? { ...prev, pinAttemptsRemaining: attemptsRemaining } : prev));
+    setPinError(
+      attemptsRemaining === 1
+        ? t('locked.incorrectPinOne')
+        : attemptsRemaining > 0
+          ? t('locked.incorrectPin', { count: attemptsRemaining })
+          : t('locked.tooManyAttempts')
+    );
+  };
+
+  const startSilentSOS = async (userId: string, userName: string, location: Location | null): Promise<void> => {
+    try {
+      await sosService.sendSilentSOS(
+        {
+          userId,
+          userName,
+          location: location
+            ? { latitude: location.latitude, longitude: location.longitude, address: location.address || undefined }
+            : null,
+          connections: [],
+        },
+        true
+      );
+    } catch (error) {
+      console.error('Error sending silent SOS:', error);
+    }
+
+    try {
+      await locationService.startEmergencyHighAccuracyTracking(userId);
+      await locationService.startSOSLocationTracking(userId);
+    } catch (error) {
+      console.error('Error starting silent SOS tracking:', error);
+    }
+  };
+
+  // The duress PIN keeps working after too many incorrect attempts, so the
+  // PIN field stays visible whenever a PIN is set
+  const hasUnlockPin = !!lockStatus?.hasPin;
+  const canUseUnlockPin = hasUnlockPin && (lockStatus?.pinAttemptsRemaining ?? 0) > 0;
+
   return (
     <SafeAreaView style={styles.container} edges={['top', 'bottom']}>
       <View style={styles.content}>
@@ -73,11 +178,11 @@ export default function LockedScreen({ navigation }: LockedScreenProps) {
 
           {/* Title Section */}
           <View style={styles.titleSection}>
-            <Text style={styles.title}>App Locked</Text>
+            <Text style={styles.title}>{t('locked.title')}</Text>
             <View style={styles.badgeContainer}>
               <View style={styles.lockBadge}>
                 <Ionicons name="lock-closed" size={16} color="#FFFFFF" />
-                <Text style={styles.badgeText}>SECURED</Text>
+                <Text style={styles.badgeText}>{t('locked.secured')}</Text>
               </View>
             </View>
           </View>
@@ -85,18 +190,76 @@ export default function LockedScreen({ navigation }: LockedScreenProps) {
           {/* Simple Message */}
           <View style={styles.messageContainer}>
             <Text style={styles.messageText}>
-              Access to the app is temporarily restricted.
+              {t('locked.restricted')}
             </Text>
             <Text style={styles.messageText}>
-              Please contact one of your trusted connections to unlock your account.
+              {canUseUnlockPin
+                ? t('locked.messageWithPin')
+                : t('locked.messageNoPin')}
             </Text>
           </View>
 
+          {/* Unlock with PIN */}
+          {hasUnlockPin && (
+            <View style={styles.pinContainer}>
+              <TextInput
+                style={styles.pinInput}
+                value={pin}
+                onChangeText={(text) => setPin(text.replace(/[^0-9]/g, ''))}
+                placeholder={t('locked.pinPlaceholder')}
+                placeholderTextColor="#9CA3AF"
+                keyboardType="number-pad"
+                secureTextEntry
+                maxLength={8}
+                editable={!unlocking}
+              />
+              <TouchableOpacity
+                style={[styles.pinButton, (pin.length < 4 || unlocking) && styles.pinButtonDisabled]}
+                onPress={handleUnlockWithPin}
+                disabled={pin.length < 4 || unlocking}
+              >
+                {unlocking ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.pinButtonText}>{t('locked.unlock')}</Text>
+                )}
+              </TouchableOpacity>
+            </View>
+          )}
+          {pinError && <Text style={styles.pinErrorText}>{pinError}</Text>}
+
+          {/* Connection Approvals */}
+          {lockStatus?.isLocked && (
+            <View style={styles.approvalsContainer}>
+              <Ionicons name="people" size={18} color="#6B7280" />
+              <Text style={styles.approvalsText}>
+                {lockStatus.requiredApprovals === 0
+                  ? t('locked.noApprovers')
+                  : lockStatus.requiredApprovals === 1
+                    ? t('locked.approvalsOne', { approved: lockStatus.approverIds.length })
+                    : t('locked.approvals', {
+                        approved: lockStatus.approverIds.length,
+                        required: lockStatus.requiredApprovals,
+                      })}
+              </Text>
+            </View>
+          )}
+
+          {/* Exact Location Indicator */}
+          {exactLocationOverride && (
+            <View style={styles.exactLocationBanner}>
+              <Ionicons name="locate" size={18} color="#B45309" />
+              <Text style={styles.exactLocationText}>
+                {t('locked.exactLocation')}
+              </Text>
+            </View>
+          )}
+
           {/* Status Indicator */}
           {checkingStatus && (
             <View style={styles.statusContainer}>
               <ActivityIndicator size="small" color="#DC2626" />
-              <Text style={styles.statusText}>Checking lock status...</Text>
+              <Text style={styles.statusText}>{t('locked.checkingStatus')}</Text>
             </View>
           )}
       </View>
@@ -203,6 +366,78 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     marginBottom: 12,
   },
+  pinContainer: {
+    flexDirection: 'row',
+    width: '100%',
+    gap: 10,
+    marginBottom: 8,
+  },
+  pinInput: {
+    flex: 1,
+    height: 48,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 16,
+    fontSize: 18,
+    letterSpacing: 4,
+    color: '#111827',
+  },
+  pinButton: {
+    height: 48,
+    paddingHorizontal: 20,
+    borderRadius: 12,
+    backgroundColor: '#DC2626',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  pinButtonDisabled: {
+    opacity: 0.5,
+  },
+  pinButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '700',
+  },
+  pinErrorText: {
+    width: '100%',
+    fontSize: 14,
+    color: '#DC2626',
+    marginBottom: 8,
+  },
+  approvalsContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+    marginBottom: 24,
+  },
+  approvalsText: {
+    fontSize: 14,
+    color: '#6B7280',
+    fontWeight: '500',
+  },
+  exactLocationBanner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: '100%',
+    marginBottom: 24,
+    gap: 10,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: '#FFFBEB',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FDE68A',
+  },
+  exactLocationText: {
+    flex: 1,
+    fontSize: 14,
+    color: '#B45309',
+    fontWeight: '600',
+    lineHeight: 20,
+  },
   statusContainer: {
     flexDirection: 'row',
     alignItems: 'center',
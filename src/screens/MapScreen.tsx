@@ -10,9 +10,15 @@ import {
   Platform,
   AppState,
   AppStateStatus,
+  Modal,
+  Pressable,
+  TextInput,
+  Switch,
+  Alert,
+  KeyboardAvoidingView,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import MapView, { Marker, PROVIDER_GOOGLE, Region } from 'react-native-maps';
+import MapView, { Marker, Circle, Polygon, Polyline, PROVIDER_GOOGLE, Region } from 'react-native-maps';
 import { Ionicons } from '@expo/vector-icons';
 import type { RouteProp } from '@react-navigation/native';
 import type { StackNavigationProp } from '@react-navigation/stack';
@@ -20,10 +26,21 @@ import { useFocusEffect } from '@react-navigation/native';
 import * as ExpoLocation from 'expo-location';
 import { useIncidents } from '../context/IncidentContext';
 import { useAuth } from '../context/AuthContext';
+import { useUserSettings } from '../context/UserSettingsContext';
 import { locationService } from '../services/locationService';
 import { offlineMapsService } from '../services/offlineMapsService';
+import { placesService } from '../services/placesService';
+import { tripService } from '../services/tripService';
 import { supabase } from '../lib/supabase';
-import type { RootStackParamList, Location } from '../types';
+import {
+  buildPlaybackTimeline,
+  getPlaybackPosition,
+  getPlaybackPath,
+  advancePlaybackTime,
+  summarizePlaybackTimeline,
+} from '../utils/locationPlayback';
+import type { RootStackParamList, Location, Place, PlaceCategory, PlaceShape, Trip } from '../types';
+import type { TranslationKey } from '../i18n';
 
 type MapScreenRouteProp = RouteProp<RootStackParamList, 'MapView'>;
 type MapScreenNavigationProp = StackNavigationProp<RootStackParamList, 'MapView'>;
@@ -35,10 +52,58 @@ interface MapScreenProps {
 
 const { height: SCREEN_HEIGHT } = Dimensions.get('window');
 
+const PLACE_CATEGORIES: Array<{ value: PlaceCategory; labelKey: TranslationKey; icon: keyof typeof Ionicons.glyphMap }> = [
+  { value: 'home', labelKey: 'map.placeCategory.home', icon: 'home' },
+  { value: 'school', labelKey: 'map.placeCategory.school', icon: 'school' },
+  { value: 'work', labelKey: 'map.placeCategory.work', icon: 'briefcase' },
+  { value: 'other', labelKey: 'map.placeCategory.other', icon: 'location' },
+];
+
+const PLACE_RADIUS_OPTIONS = [100, 200, 500, 1000]; // meters
+
+// History playback: minutes of the day played per second at each speed
+const PLAYBACK_SPEEDS = [
+  { label: '1x', minutesPerSecond: 10 },
+  { label: '2x', minutesPerSecond: 20 },
+  { label: '4x', minutesPerSecond: 40 },
+  { label: '8x', minutesPerSecond: 80 },
+];
+const PLAYBACK_TICK_MS = 100;
+
+const PLAYBACK_SEGMENT_COLORS = {
+  stop: '#FF9500',
+  move: '#007AFF',
+  gap: '#C7C7CC',
+};
+
+interface PlaceDraft {
+  id?: string;
+  name: string;
+  category: PlaceCategory;
+  shape: PlaceShape;
+  center: Location | null;
+  radiusMeters: number;
+  polygon: Location[];
+  notifyOnArrival: boolean;
+  notifyOnDeparture: boolean;
+}
+
+const createEmptyPlaceDraft = (): PlaceDraft => ({
+  name: '',
+  category: 'home',
+  shape: 'circle',
+  center: null,
+  radiusMeters: 200,
+  polygon: [],
+  notifyOnArrival: true,
+  notifyOnDeparture: true,
+});
+
 export default function MapScreen({ route, navigation }: MapScreenProps) {
-  const { location, title, showUserLocation = true, userId } = route.params;
+  const { location, title, showUserLocation = true, userId, tripId } = route.params;
   const { userLocation: incidentUserLocation } = useIncidents();
   const { user } = useAuth();
+  const { formatDistanceMeters, formatRadius, formatSpeed, formatTimeAgo, locale, t } = useUserSettings();
   const mapRef = useRef<MapView>(null);
   
   // targetUserId is the user whose location we're viewing
@@ -83,6 +148,23 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
   const hasInitializedLocationRef = useRef<boolean>(false);
   const hasInitializedSubscriptionsRef = useRef<boolean>(false);
   const isFetchingLocationRef = useRef<boolean>(false);
+
+  // Geofenced places (owned by the current user)
+  const [places, setPlaces] = useState<Place[]>([]);
+  const [showPlacesModal, setShowPlacesModal] = useState<boolean>(false);
+  const [showPlaceEditor, setShowPlaceEditor] = useState<boolean>(false);
+  const [placeDraft, setPlaceDraft] = useState<PlaceDraft>(createEmptyPlaceDraft);
+  const [isPickingPlaceArea, setIsPickingPlaceArea] = useState<boolean>(false);
+  const [isSavingPlace, setIsSavingPlace] = useState<boolean>(false);
+
+  // Trip being followed (when opened from a trip)
+  const [trip, setTrip] = useState<Trip | null>(null);
+
+  // History playback (null time = whole day shown, not started)
+  const [playbackTime, setPlaybackTime] = useState<number | null>(null);
+  const [isPlaying, setIsPlaying] = useState<boolean>(false);
+  const [playbackSpeedIndex, setPlaybackSpeedIndex] = useState<number>(0);
+  const [scrubberWidth, setScrubberWidth] = useState<number>(0);
   
   const [mapRegion, setMapRegion] = useState<Region>(() => {
     // Initialize map region to destination location (connected user's location)
@@ -1184,17 +1266,11 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
   const formatTime = (timestamp: string) => {
     const date = new Date(timestamp);
     const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMs / 3600000);
-    const diffDays = Math.floor(diffMs / 86400000);
-
-    if (diffMins < 1) return 'Just now';
-    if (diffMins < 60) return `${diffMins}m ago`;
-    if (diffHours < 24) return `${diffHours}h ago`;
-    if (diffDays < 7) return `${diffDays}d ago`;
+    const diffDays = Math.floor((now.getTime() - date.getTime()) / 86400000);
+
+    if (diffDays < 7) return formatTimeAgo(date);
     
-    return date.toLocaleDateString([], { 
+    return date.toLocaleDateString(locale, { 
       month: 'short', 
       day: 'numeric', 
       year: date.getFullYear() !== now.getFullYear() ? 'numeric' : undefined 
@@ -1214,11 +1290,11 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
     yesterday.setDate(yesterday.getDate() - 1);
     
     if (date.toDateString() === today.toDateString()) {
-      return 'Today';
+      return t('map.today');
     } else if (date.toDateString() === yesterday.toDateString()) {
-      return 'Yesterday';
+      return t('map.yesterday');
     } else {
-      return date.toLocaleDateString([], {
+      return date.toLocaleDateString(locale, {
         weekday: 'long',
         month: 'long',
         day: 'numeric',
@@ -1226,6 +1302,15 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
     }
   };
 
+  const getNoHistoryText = (date: Date): string => {
+    const yesterday = new Date();
+    yesterday.setDate(yesterday.getDate() - 1);
+
+    if (date.toDateString() === new Date().toDateString()) return t('map.noHistoryToday');
+    if (date.toDateString() === yesterday.toDateString()) return t('map.noHistoryYesterday');
+    return t('map.noHistoryOn', { date: formatDateDisplay(date) });
+  };
+
   const navigateDate = (direction: 'prev' | 'next') => {
     const newDate = new Date(selectedDate);
     newDate.setDate(newDate.getDate() + (direction === 'next' ? 1 : -1));
@@ -1236,19 +1321,18 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
     const start = new Date(startTime);
     const end = new Date(endTime);
     const formatTime = (date: Date) => {
-      return date.toLocaleTimeString([], {
+      return date.toLocaleTimeString(locale, {
         hour: 'numeric',
         minute: '2-digit',
-        hour12: true,
       }).toLowerCase();
     };
     return `${formatTime(start)} – ${formatTime(end)}`;
   };
 
   const formatDuration = (seconds: number): string => {
-    if (seconds < 60) return `${Math.round(seconds)}s`;
-    if (seconds < 3600) return `${Math.round(seconds / 60)} min`;
-    return `${(seconds / 3600).toFixed(1)}h`;
+    if (seconds < 60) return t('map.secondsShort', { count: Math.round(seconds) });
+    if (seconds < 3600) return t('trip.minutesShort', { count: Math.round(seconds / 60) });
+    return t('trip.hoursShort', { count: (seconds / 3600).toFixed(1) });
   };
 
   const focusOnLocation = React.useCallback((lat: number, lng: number) => {
@@ -1263,6 +1347,336 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
     setMapRegion(newRegion);
   }, []);
 
+  const formatClockTime = (time: number): string => {
+    return new Date(time).toLocaleTimeString(locale, { hour: 'numeric', minute: '2-digit' });
+  };
+
+  // Day's path split into stops, movement and tracking gaps for playback
+  const playbackTimeline = useMemo(() => buildPlaybackTimeline(locationHistory), [locationHistory]);
+  const playbackSummary = useMemo(
+    () => (playbackTimeline ? summarizePlaybackTimeline(playbackTimeline) : null),
+    [playbackTimeline]
+  );
+
+  // Start over when another day or user is shown
+  useEffect(() => {
+    setIsPlaying(false);
+    setPlaybackTime(null);
+  }, [selectedDate, targetUserId]);
+
+  useEffect(() => {
+    if (!isPlaying || !playbackTimeline) return;
+
+    const stepMs = PLAYBACK_SPEEDS[playbackSpeedIndex].minutesPerSecond * 60 * PLAYBACK_TICK_MS;
+    const interval = setInterval(() => {
+      setPlaybackTime((prev) => {
+        const next = advancePlaybackTime(playbackTimeline, prev ?? playbackTimeline.startTime, stepMs);
+        if (next >= playbackTimeline.endTime) setIsPlaying(false);
+        return next;
+      });
+    }, PLAYBACK_TICK_MS);
+
+    return () => clearInterval(interval);
+  }, [isPlaying, playbackSpeedIndex, playbackTimeline]);
+
+  const playbackPosition = useMemo(() => {
+    if (!playbackTimeline || playbackTime === null) return null;
+    const time = Math.min(Math.max(playbackTime, playbackTimeline.startTime), playbackTimeline.endTime);
+    return { time, ...getPlaybackPosition(playbackTimeline, time) };
+  }, [playbackTimeline, playbackTime]);
+
+  const playbackOverlays = useMemo(() => {
+    if (!playbackTimeline) return null;
+    const untilTime = playbackPosition ? playbackPosition.time : Infinity;
+
+    return playbackTimeline.segments.map((segment, index) => {
+      if (segment.type === 'stop') {
+        const reached = untilTime >= segment.startTime;
+        return (
+          <Marker
+            key={`playback-stop-${index}-${segment.startTime}`}
+            coordinate={segment.center}
+            title={t('map.stoppedFor', { duration: formatDuration(segment.durationSeconds) })}
+            description={`${formatClockTime(segment.startTime)} – ${formatClockTime(segment.endTime)}${
+              segment.center.address ? ` · ${segment.center.address}` : ''
+            }`}
+            anchor={{ x: 0.5, y: 0.5 }}
+            tracksViewChanges={false}
+            zIndex={60}
+          >
+            <View style={[styles.playbackStopMarker, !reached && styles.playbackStopMarkerPending]} pointerEvents="none">
+              <Ionicons name="pause" size={10} color="#FFFFFF" />
+            </View>
+          </Marker>
+        );
+      }
+
+      const fullPath = getPlaybackPath(playbackTimeline, segment);
+      const playedPath = untilTime === Infinity ? fullPath : getPlaybackPath(playbackTimeline, segment, untilTime);
+      const color = PLAYBACK_SEGMENT_COLORS[segment.type];
+      const dash = segment.type === 'gap' ? [8, 8] : undefined;
+
+      return (
+        <React.Fragment key={`playback-${segment.type}-${index}-${segment.startTime}`}>
+          {playedPath.length < fullPath.length && (
+            <Polyline coordinates={fullPath} strokeColor={`${color}55`} strokeWidth={3} lineDashPattern={dash} />
+          )}
+          {playedPath.length > 1 && (
+            <Polyline coordinates={playedPath} strokeColor={color} strokeWidth={4} lineDashPattern={dash} />
+          )}
+        </React.Fragment>
+      );
+    });
+  }, [playbackTimeline, playbackPosition]);
+
+  const togglePlayback = () => {
+    if (!playbackTimeline) return;
+    if (isPlaying) {
+      setIsPlaying(false);
+      return;
+    }
+
+    if (playbackTime === null || playbackTime >= playbackTimeline.endTime) {
+      setPlaybackTime(playbackTimeline.startTime);
+      mapRef.current?.fitToCoordinates(
+        playbackTimeline.points.map((p) => ({ latitude: p.latitude, longitude: p.longitude })),
+        { edgePadding: { top: 60, right: 60, bottom: 60, left: 60 }, animated: true }
+      );
+    }
+    setIsPlaying(true);
+  };
+
+  const cyclePlaybackSpeed = () => {
+    setPlaybackSpeedIndex((prev) => (prev + 1) % PLAYBACK_SPEEDS.length);
+  };
+
+  const seekPlayback = (locationX: number) => {
+    if (!playbackTimeline || scrubberWidth <= 0) return;
+    const fraction = Math.min(1, Math.max(0, locationX / scrubberWidth));
+    setPlaybackTime(playbackTimeline.startTime + fraction * (playbackTimeline.endTime - playbackTimeline.startTime));
+  };
+
+  // Load places owned by the current user
+  const loadPlaces = React.useCallback(async () => {
+    if (!user?.id) return;
+    const userPlaces = await placesService.getPlaces(user.id);
+    setPlaces(userPlaces);
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadPlaces();
+  }, [loadPlaces]);
+
+  // Follow a trip: trip rows are updated on every tracked fix, which is more
+  // often than location_history, so the traveller's marker follows the trip
+  useEffect(() => {
+    if (!tripId) return;
+
+    const applyTrip = (nextTrip: Trip) => {
+      setTrip(nextTrip);
+      if (nextTrip.lastLocation) {
+        setDestinationLocation((prev) => ({ ...nextTrip.lastLocation!, address: prev?.address }));
+      }
+    };
+
+    tripService.getTrip(tripId).then((loadedTrip) => {
+      if (loadedTrip) applyTrip(loadedTrip);
+    });
+
+    return tripService.subscribeToTrip(tripId, applyTrip);
+  }, [tripId]);
+
+  const openPlaceEditor = (place?: Place) => {
+    if (place) {
+      setPlaceDraft({
+        id: place.id,
+        name: place.name,
+        category: place.category,
+        shape: place.shape,
+        center: place.center,
+        radiusMeters: place.radiusMeters || 200,
+        polygon: place.polygon || [],
+        notifyOnArrival: place.notifyOnArrival,
+        notifyOnDeparture: place.notifyOnDeparture,
+      });
+    } else {
+      // Default new places to the center of the visible map
+      setPlaceDraft({
+        ...createEmptyPlaceDraft(),
+        center: { latitude: mapRegion.latitude, longitude: mapRegion.longitude },
+      });
+    }
+    setShowPlacesModal(false);
+    setShowPlaceEditor(true);
+  };
+
+  const closePlaceEditor = () => {
+    setShowPlaceEditor(false);
+    setIsPickingPlaceArea(false);
+    setPlaceDraft(createEmptyPlaceDraft());
+  };
+
+  const startPickingPlaceArea = () => {
+    // Hide the form so the map can be tapped
+    setShowPlaceEditor(false);
+    setIsPickingPlaceArea(true);
+    if (placeDraft.shape === 'polygon') {
+      setPlaceDraft((prev) => ({ ...prev, polygon: [] }));
+    }
+    const target = placeDraft.center;
+    if (target) {
+      mapRef.current?.animateToRegion({
+        latitude: target.latitude,
+        longitude: target.longitude,
+        latitudeDelta: 0.01,
+        longitudeDelta: 0.01,
+      }, 500);
+    }
+  };
+
+  const finishPickingPlaceArea = () => {
+    if (placeDraft.shape === 'polygon' && placeDraft.polygon.length < 3) {
+      Alert.alert(t('map.notEnoughPoints'), t('map.notEnoughPointsMessage'));
+      return;
+    }
+    setIsPickingPlaceArea(false);
+    setShowPlaceEditor(true);
+  };
+
+  const handleMapPress = (coordinate: { latitude: number; longitude: number }) => {
+    if (!isPickingPlaceArea) return;
+
+    if (placeDraft.shape === 'circle') {
+      setPlaceDraft((prev) => ({ ...prev, center: coordinate }));
+    } else {
+      setPlaceDraft((prev) => {
+        const polygon = [...prev.polygon, coordinate];
+        return {
+          ...prev,
+          polygon,
+          center: placesService.getPolygonCenter(polygon),
+        };
+      });
+    }
+  };
+
+  const handleSavePlace = async () => {
+    if (!user?.id) return;
+
+    const name = placeDraft.name.trim();
+    if (!name) {
+      Alert.alert(t('map.nameRequired'), t('map.nameRequiredMessage'));
+      return;
+    }
+    if (!placeDraft.center) {
+      Alert.alert(t('map.locationRequired'), t('map.locationRequiredMessage'));
+      return;
+    }
+    if (placeDraft.shape === 'polygon' && placeDraft.polygon.length < 3) {
+      Alert.alert(t('map.areaRequired'), t('map.areaRequiredMessage'));
+      return;
+    }
+
+    setIsSavingPlace(true);
+    try {
+      const input = {
+        name,
+        category: placeDraft.category,
+        shape: placeDraft.shape,
+        center: placeDraft.center,
+        radiusMeters: placeDraft.shape === 'circle' ? placeDraft.radiusMeters : undefined,
+        polygon: placeDraft.shape === 'polygon' ? placeDraft.polygon : undefined,
+        notifyOnArrival: placeDraft.notifyOnArrival,
+        notifyOnDeparture: placeDraft.notifyOnDeparture,
+      };
+      const saved = placeDraft.id
+        ? await placesService.updatePlace(placeDraft.id, input)
+        : await placesService.createPlace(user.id, input);
+
+      if (!saved) {
+        Alert.alert(t('common.error'), t('map.savePlaceFailed'));
+        return;
+      }
+
+      await loadPlaces();
+      closePlaceEditor();
+    } finally {
+      setIsSavingPlace(false);
+    }
+  };
+
+  const handleDeletePlace = (place: Place) => {
+    Alert.alert(
+      t('map.deletePlace'),
+      t('map.deletePlaceMessage', { name: place.name }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('common.delete'),
+          style: 'destructive',
+          onPress: async () => {
+            const deleted = await placesService.deletePlace(place.id);
+            if (deleted) {
+              setPlaces((prev) => prev.filter((p) => p.id !== place.id));
+            } else {
+              Alert.alert(t('common.error'), t('map.deletePlaceFailed'));
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const renderPlaceOverlay = (
+    key: string,
+    shape: PlaceShape,
+    center: Location | null,
+    radiusMeters: number | undefined,
+    polygon: Location[] | undefined,
+    isDraft: boolean
+  ) => {
+    const strokeColor = isDraft ? '#FF9500' : '#007AFF';
+    const fillColor = isDraft ? 'rgba(255, 149, 0, 0.15)' : 'rgba(0, 122, 255, 0.12)';
+
+    if (shape === 'polygon') {
+      if (!polygon || polygon.length === 0) return null;
+      if (polygon.length < 3) {
+        // Show the tapped vertices until the outline can be closed
+        return polygon.map((point, index) => (
+          <Marker
+            key={`${key}-vertex-${index}`}
+            coordinate={point}
+            anchor={{ x: 0.5, y: 0.5 }}
+            tracksViewChanges={false}
+          >
+            <View style={styles.placeVertex} pointerEvents="none" />
+          </Marker>
+        ));
+      }
+      return (
+        <Polygon
+          key={key}
+          coordinates={polygon}
+          strokeColor={strokeColor}
+          fillColor={fillColor}
+          strokeWidth={2}
+        />
+      );
+    }
+
+    if (!center || !radiusMeters) return null;
+    return (
+      <Circle
+        key={key}
+        center={center}
+        radius={radiusMeters}
+        strokeColor={strokeColor}
+        fillColor={fillColor}
+        strokeWidth={2}
+      />
+    );
+  };
+
   const handleRefreshLocation = async (): Promise<void> => {
     try {
       setLoading(true);
@@ -1344,7 +1758,7 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
           >
             <Ionicons name="arrow-back" size={22} color="#000" />
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>{title || 'Map View'}</Text>
+          <Text style={styles.headerTitle}>{title || t('map.title')}</Text>
           <View style={styles.headerButton} />
         </View>
         <View style={styles.loadingContainer}>
@@ -1368,9 +1782,9 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
           </View>
         </TouchableOpacity>
         <View style={styles.headerTitleContainer}>
-          <Text style={styles.headerTitle}>{title || 'Location Timeline'}</Text>
+          <Text style={styles.headerTitle}>{title || t('map.timelineTitle')}</Text>
           {targetUserId && locationHistory.length > 0 && (
-            <Text style={styles.headerSubtitle}>{locationHistory.length} locations</Text>
+            <Text style={styles.headerSubtitle}>{t('map.locationsCount', { count: locationHistory.length })}</Text>
           )}
         </View>
         <View style={styles.headerRightButtons}>
@@ -1379,6 +1793,18 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
               <Text style={styles.pendingBadgeText}>{pendingUpdatesCount}</Text>
             </View>
           )}
+          {user?.id && (
+            <TouchableOpacity
+              style={styles.headerButton}
+              onPress={() => setShowPlacesModal(true)}
+              disabled={isPickingPlaceArea}
+              activeOpacity={0.7}
+            >
+              <View style={styles.iconButton}>
+                <Ionicons name="home-outline" size={20} color="#007AFF" />
+              </View>
+            </TouchableOpacity>
+          )}
           <TouchableOpacity
             style={styles.headerButton}
             onPress={handleManualRefresh}
@@ -1431,7 +1857,7 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
           }}
           onError={(error) => {
             console.error('❌ Map error:', error);
-            const errorMessage = error?.nativeEvent?.message || 'Map failed to load';
+            const errorMessage = error?.nativeEvent?.message || t('map.failedToLoad');
             setMapError(errorMessage);
             // On Android, common issues:
             // - Missing Google Play Services
@@ -1448,13 +1874,69 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
           onRegionChangeComplete={(region) => {
             if (region) setMapRegion(region);
           }}
+          onPress={(event) => handleMapPress(event.nativeEvent.coordinate)}
         >
+          {/* Saved places (geofences) */}
+          {places
+            .filter((place) => place.id !== placeDraft.id || (!showPlaceEditor && !isPickingPlaceArea))
+            .map((place) =>
+              renderPlaceOverlay(`place-${place.id}`, place.shape, place.center, place.radiusMeters, place.polygon, false)
+            )}
+
+          {/* Place being created/edited */}
+          {(showPlaceEditor || isPickingPlaceArea) &&
+            renderPlaceOverlay(
+              'place-draft',
+              placeDraft.shape,
+              placeDraft.center,
+              placeDraft.radiusMeters,
+              placeDraft.polygon,
+              true
+            )}
+
+          {/* Trip destination and arrival area */}
+          {trip && (
+            <Circle
+              key={`trip-area-${trip.id}`}
+              center={trip.destination}
+              radius={trip.arrivalRadiusMeters}
+              strokeColor="#34C759"
+              fillColor="rgba(52, 199, 89, 0.15)"
+              strokeWidth={2}
+            />
+          )}
+          {trip && (
+            <Marker
+              key={`trip-destination-${trip.id}`}
+              coordinate={trip.destination}
+              title={trip.destinationLabel}
+              description={t('map.tripDestination')}
+              pinColor="#34C759"
+            />
+          )}
+
+          {/* History playback: day's path, stops and current position */}
+          {hasLocationHistory && playbackOverlays}
+          {hasLocationHistory && playbackPosition && (
+            <Marker
+              key="playback-position"
+              coordinate={playbackPosition.location}
+              anchor={{ x: 0.5, y: 0.5 }}
+              tracksViewChanges={false}
+              zIndex={200}
+            >
+              <View style={styles.playbackPositionMarker} pointerEvents="none">
+                <View style={styles.playbackPositionDot} />
+              </View>
+            </Marker>
+          )}
+
           {/* Only show destination marker if location_history exists and location is valid */}
           {hasLocationHistory && destinationLocation && destinationLocation.latitude !== 0 && destinationLocation.longitude !== 0 && (
             <Marker
               key={`destination-${destinationLocation.latitude}-${destinationLocation.longitude}`}
               coordinate={destinationLocation}
-              title={title || 'Location'}
+              title={title || t('map.location')}
               description={destinationLocation.address || `${destinationLocation.latitude.toFixed(6)}, ${destinationLocation.longitude.toFixed(6)}`}
               anchor={{ x: 0.5, y: 0.5 }}
               tracksViewChanges={tracksViewChanges}
@@ -1488,21 +1970,88 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
           </View>
         </TouchableOpacity>
 
+        {isPickingPlaceArea && (
+          <View style={styles.placePickBanner}>
+            <Text style={styles.placePickBannerText}>
+              {placeDraft.shape === 'circle'
+                ? t('map.tapToSetCenter')
+                : t('map.tapToOutline', { count: placeDraft.polygon.length })}
+            </Text>
+            <View style={styles.placePickBannerActions}>
+              {placeDraft.shape === 'polygon' && placeDraft.polygon.length > 0 && (
+                <TouchableOpacity
+                  style={styles.placePickBannerButton}
+                  onPress={() =>
+                    setPlaceDraft((prev) => {
+                      const polygon = prev.polygon.slice(0, -1);
+                      return { ...prev, polygon, center: placesService.getPolygonCenter(polygon) ?? prev.center };
+                    })
+                  }
+                >
+                  <Text style={styles.placePickBannerButtonText}>{t('map.undo')}</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity
+                style={[styles.placePickBannerButton, styles.placePickBannerButtonPrimary]}
+                onPress={finishPickingPlaceArea}
+              >
+                <Text style={[styles.placePickBannerButtonText, styles.placePickBannerButtonTextPrimary]}>{t('map.done')}</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {trip && !isPickingPlaceArea && (
+          <View style={styles.tripBanner}>
+            <View style={styles.tripBannerHeader}>
+              <Ionicons
+                name={trip.status === 'overdue' ? 'warning' : trip.status === 'arrived' ? 'checkmark-circle' : 'navigate'}
+                size={18}
+                color={trip.status === 'overdue' ? '#FF3B30' : trip.status === 'arrived' ? '#34C759' : '#007AFF'}
+              />
+              <Text style={styles.tripBannerTitle} numberOfLines={1}>
+                {trip.destinationLabel}
+              </Text>
+            </View>
+            <Text style={[styles.tripBannerText, trip.status === 'overdue' && styles.tripBannerTextOverdue]}>
+              {trip.status === 'arrived'
+                ? t('map.tripArrived')
+                : trip.status === 'cancelled'
+                ? t('map.tripCancelled')
+                : trip.status === 'overdue'
+                ? trip.escalationReason === 'no_signal'
+                  ? t('map.tripOverdueNoSignal')
+                  : t('map.tripOverdueLate')
+                : t('trip.expectedAt', {
+                    time: new Date(trip.expectedArrivalAt).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' }),
+                  })}
+              {(trip.status === 'active' || trip.status === 'overdue') && trip.lastLocation
+                ? t('trip.distanceLeft', {
+                    distance: formatDistanceMeters(tripService.calculateDistance(trip.lastLocation, trip.destination), 1),
+                  })
+                : ''}
+            </Text>
+            {trip.lastReportedAt && (trip.status === 'active' || trip.status === 'overdue') && (
+              <Text style={styles.tripBannerSubtext}>{t('map.updatedAgo', { time: formatTimeAgo(trip.lastReportedAt) })}</Text>
+            )}
+          </View>
+        )}
+
         {hasOfflineMap && (
           <View style={styles.offlineBadge}>
             <Ionicons name="download" size={14} color="#10B981" />
-            <Text style={styles.offlineBadgeText}>Offline</Text>
+            <Text style={styles.offlineBadgeText}>{t('map.offline')}</Text>
           </View>
         )}
         
         {mapError && (
           <View style={styles.mapErrorContainer}>
             <Ionicons name="alert-circle" size={24} color="#FF3B30" />
-            <Text style={styles.mapErrorText}>Map failed to load</Text>
+            <Text style={styles.mapErrorText}>{t('map.failedToLoad')}</Text>
             <Text style={styles.mapErrorSubtext}>
               {Platform.OS === 'android' 
-                ? 'Please check Google Play Services and internet connection'
-                : 'Please check your internet connection'}
+                ? t('map.checkPlayServices')
+                : t('map.checkInternet')}
             </Text>
           </View>
         )}
@@ -1511,9 +2060,9 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
         {userId && userId !== user?.id && !hasLocationHistory && !historyLoading && (
           <View style={styles.mapErrorContainer}>
             <Ionicons name="location-off" size={32} color="#FF3B30" />
-            <Text style={styles.mapErrorText}>Location Not Available</Text>
+            <Text style={styles.mapErrorText}>{t('map.locationNotAvailable')}</Text>
             <Text style={styles.mapErrorSubtext}>
-              {title || 'User'}'s location is not available. Location sharing might be turned off.
+              {t('map.locationNotAvailableMessage', { name: title || t('map.user') })}
             </Text>
           </View>
         )}
@@ -1532,7 +2081,7 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
           <View style={styles.dateDisplay}>
             <Text style={styles.dateText}>{formatDateDisplay(selectedDate)}</Text>
             <Text style={styles.dateSubtext}>
-              {selectedDate.toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' })}
+              {selectedDate.toLocaleDateString(locale, { month: 'short', day: 'numeric', year: 'numeric' })}
             </Text>
           </View>
           <TouchableOpacity
@@ -1550,6 +2099,80 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
         </View>
       )}
 
+      {/* History playback scrubber - needs at least two fixes for the day */}
+      {targetUserId && hasLocationHistory && !historyLoading && playbackTimeline && (
+        <View style={styles.playbackCard}>
+          <View style={styles.playbackControls}>
+            <TouchableOpacity style={styles.playbackPlayButton} onPress={togglePlayback} activeOpacity={0.7}>
+              <Ionicons name={isPlaying ? 'pause' : 'play'} size={18} color="#FFFFFF" />
+            </TouchableOpacity>
+            <View style={styles.playbackInfo}>
+              <Text style={styles.playbackTime}>
+                {formatClockTime(playbackPosition ? playbackPosition.time : playbackTimeline.startTime)}
+              </Text>
+              <Text style={styles.playbackStatus} numberOfLines={1}>
+                {!playbackPosition
+                  ? `${t('map.playbackSummary', {
+                      stops: playbackSummary.stops,
+                      distance: formatDistanceMeters(playbackSummary.distanceMeters, 1),
+                      duration: formatDuration(playbackSummary.movingSeconds),
+                    })}${playbackSummary.gaps > 0 ? ` · ${t('map.playbackGaps', { count: playbackSummary.gaps })}` : ''}`
+                  : playbackPosition.segment?.type === 'stop'
+                  ? t('map.stoppedFor', { duration: formatDuration(playbackPosition.segment.durationSeconds) })
+                  : playbackPosition.segment?.type === 'gap'
+                  ? t('map.trackingOffFor', { duration: formatDuration(playbackPosition.segment.durationSeconds) })
+                  : t('map.moving', { speed: formatSpeed(playbackPosition.speedKmh) })}
+              </Text>
+            </View>
+            <TouchableOpacity style={styles.playbackSpeedButton} onPress={cyclePlaybackSpeed} activeOpacity={0.7}>
+              <Text style={styles.playbackSpeedText}>{PLAYBACK_SPEEDS[playbackSpeedIndex].label}</Text>
+            </TouchableOpacity>
+          </View>
+          <View
+            style={styles.playbackScrubber}
+            onLayout={(event) => setScrubberWidth(event.nativeEvent.layout.width)}
+            onStartShouldSetResponder={() => true}
+            onMoveShouldSetResponder={() => true}
+            onResponderGrant={(event) => {
+              setIsPlaying(false);
+              seekPlayback(event.nativeEvent.locationX);
+            }}
+            onResponderMove={(event) => seekPlayback(event.nativeEvent.locationX)}
+          >
+            <View style={styles.playbackTrack} pointerEvents="none">
+              {playbackTimeline.segments.map((segment, index) => (
+                <View
+                  key={`scrubber-${index}-${segment.startTime}`}
+                  style={{
+                    flex: Math.max(segment.endTime - segment.startTime, 1),
+                    backgroundColor: PLAYBACK_SEGMENT_COLORS[segment.type],
+                  }}
+                />
+              ))}
+            </View>
+            {playbackPosition && (
+              <View
+                pointerEvents="none"
+                style={[
+                  styles.playbackThumb,
+                  {
+                    left:
+                      ((playbackPosition.time - playbackTimeline.startTime) /
+                        Math.max(playbackTimeline.endTime - playbackTimeline.startTime, 1)) *
+                        scrubberWidth -
+                      7,
+                  },
+                ]}
+              />
+            )}
+          </View>
+          <View style={styles.playbackRange}>
+            <Text style={styles.playbackRangeText}>{formatClockTime(playbackTimeline.startTime)}</Text>
+            <Text style={styles.playbackRangeText}>{formatClockTime(playbackTimeline.endTime)}</Text>
+          </View>
+        </View>
+      )}
+
       {/* Timeline List - Only show if location_history exists */}
       {targetUserId && hasLocationHistory && (
         <ScrollView 
@@ -1560,16 +2183,16 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
           {historyLoading ? (
             <View style={styles.timelineLoading}>
               <ActivityIndicator size="large" color="#007AFF" />
-              <Text style={styles.timelineLoadingText}>Loading timeline...</Text>
+              <Text style={styles.timelineLoadingText}>{t('map.loadingTimeline')}</Text>
             </View>
           ) : locationHistory.length === 0 ? (
             <View style={styles.timelineEmpty}>
               <View style={styles.emptyIconContainer}>
                 <Ionicons name="location-outline" size={48} color="#C7C7CC" />
               </View>
-              <Text style={styles.timelineEmptyTitle}>No Location History</Text>
+              <Text style={styles.timelineEmptyTitle}>{t('map.noHistory')}</Text>
               <Text style={styles.timelineEmptyText}>
-                No location data for {formatDateDisplay(selectedDate).toLowerCase()}
+                {getNoHistoryText(selectedDate)}
               </Text>
             </View>
           ) : (
@@ -1630,7 +2253,7 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
                             <View style={styles.timelineHeader}>
                               <View style={styles.activityBadge}>
                                 <Ionicons name="walk" size={14} color="#34C759" />
-                                <Text style={styles.activityBadgeText}>Movement</Text>
+                                <Text style={styles.activityBadgeText}>{t('map.movement')}</Text>
                               </View>
                               <Text style={styles.timelineTime}>
                                 {formatTimeRange(prevItem.timestamp, item.timestamp)}
@@ -1640,11 +2263,7 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
                               <View style={styles.statItem}>
                                 <Ionicons name="resize" size={14} color="#8E8E93" />
                                 <Text style={styles.statText}>
-                                  {distance < 1 
-                                    ? '< 1 m' 
-                                    : distance < 1000 
-                                      ? `${distance.toFixed(0)} m`
-                                      : `${(distance / 1000).toFixed(2)} km`}
+                                  {formatDistanceMeters(distance)}
                                 </Text>
                               </View>
                               <View style={styles.statItem}>
@@ -1660,13 +2279,12 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
                           <>
                             <View style={styles.timelineHeader}>
                               <Text style={styles.timelineTitle}>
-                                {item.address ? item.address.split(',')[0] : 'Unknown Location'}
+                                {item.address ? item.address.split(',')[0] : t('map.unknownLocation')}
                               </Text>
                               <Text style={styles.timelineTime}>
-                                {new Date(item.timestamp).toLocaleTimeString([], {
+                                {new Date(item.timestamp).toLocaleTimeString(locale, {
                                   hour: 'numeric',
                                   minute: '2-digit',
-                                  hour12: true,
                                 }).toLowerCase()}
                               </Text>
                             </View>
@@ -1680,7 +2298,7 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
                             </Text>
                             <View style={styles.timelineFooter}>
                               <Text style={styles.timelineStatus}>
-                                {isFirst ? '📍 Arrived' : '🚶 Left'}
+                                {isFirst ? `📍 ${t('map.arrived')}` : `🚶 ${t('map.left')}`}
                               </Text>
                               <Text style={styles.timelineDate}>
                                 {formatTime(item.timestamp)}
@@ -1697,6 +2315,213 @@ export default function MapScreen({ route, navigation }: MapScreenProps) {
           )}
         </ScrollView>
       )}
+
+      {/* Places List Modal */}
+      <Modal
+        visible={showPlacesModal}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={() => setShowPlacesModal(false)}
+      >
+        <Pressable style={styles.modalOverlay} onPress={() => setShowPlacesModal(false)}>
+          <Pressable style={styles.placeModalContent} onPress={(e) => e.stopPropagation()}>
+            <View style={styles.placeModalHeader}>
+              <Text style={styles.placeModalTitle}>{t('map.places')}</Text>
+              <TouchableOpacity onPress={() => setShowPlacesModal(false)} style={styles.placeModalCloseButton}>
+                <Ionicons name="close" size={24} color="#000000" />
+              </TouchableOpacity>
+            </View>
+            <Text style={styles.placeModalSubtitle}>
+              {t('map.placesSubtitle')}
+            </Text>
+            <ScrollView style={styles.placeList}>
+              {places.length === 0 ? (
+                <Text style={styles.placeListEmpty}>{t('map.noPlaces')}</Text>
+              ) : (
+                places.map((place) => {
+                  const category = PLACE_CATEGORIES.find((c) => c.value === place.category) || PLACE_CATEGORIES[3];
+                  return (
+                    <View key={place.id} style={styles.placeListItem}>
+                      <TouchableOpacity
+                        style={styles.placeListItemMain}
+                        onPress={() => {
+                          setShowPlacesModal(false);
+                          mapRef.current?.animateToRegion({
+                            latitude: place.center.latitude,
+                            longitude: place.center.longitude,
+                            latitudeDelta: 0.01,
+                            longitudeDelta: 0.01,
+                          }, 500);
+                        }}
+                        activeOpacity={0.7}
+                      >
+                        <View style={styles.placeListIcon}>
+                          <Ionicons name={category.icon} size={18} color="#007AFF" />
+                        </View>
+                        <View style={styles.placeListText}>
+                          <Text style={styles.placeListName}>{place.name}</Text>
+                          <Text style={styles.placeListMeta}>
+                            {place.shape === 'circle'
+                              ? t('map.placeRadius', { category: t(category.labelKey), radius: formatRadius(place.radiusMeters ?? 0) })
+                              : t('map.placeArea', { category: t(category.labelKey), count: place.polygon?.length || 0 })}
+                          </Text>
+                        </View>
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.placeListAction} onPress={() => openPlaceEditor(place)}>
+                        <Ionicons name="create-outline" size={20} color="#007AFF" />
+                      </TouchableOpacity>
+                      <TouchableOpacity style={styles.placeListAction} onPress={() => handleDeletePlace(place)}>
+                        <Ionicons name="trash-outline" size={20} color="#FF3B30" />
+                      </TouchableOpacity>
+                    </View>
+                  );
+                })
+              )}
+            </ScrollView>
+            <TouchableOpacity style={styles.placePrimaryButton} onPress={() => openPlaceEditor()} activeOpacity={0.8}>
+              <Ionicons name="add" size={20} color="#FFFFFF" />
+              <Text style={styles.placePrimaryButtonText}>{t('map.addPlace')}</Text>
+            </TouchableOpacity>
+          </Pressable>
+        </Pressable>
+      </Modal>
+
+      {/* Place Editor Modal */}
+      <Modal
+        visible={showPlaceEditor}
+        animationType="fade"
+        transparent={true}
+        onRequestClose={closePlaceEditor}
+      >
+        <Pressable style={styles.modalOverlay} onPress={closePlaceEditor}>
+          <KeyboardAvoidingView
+            behavior={Platform.OS === 'ios' ? 'padding' : 'height'}
+            style={styles.modalKeyboardView}
+          >
+            <Pressable style={styles.placeModalContent} onPress={(e) => e.stopPropagation()}>
+              <View style={styles.placeModalHeader}>
+                <Text style={styles.placeModalTitle}>{placeDraft.id ? t('map.editPlace') : t('map.newPlace')}</Text>
+                <TouchableOpacity onPress={closePlaceEditor} style={styles.placeModalCloseButton}>
+                  <Ionicons name="close" size={24} color="#000000" />
+                </TouchableOpacity>
+              </View>
+
+              <ScrollView style={styles.placeEditorBody} keyboardShouldPersistTaps="handled">
+                <Text style={styles.placeFieldLabel}>{t('map.name')}</Text>
+                <TextInput
+                  style={styles.placeTextInput}
+                  value={placeDraft.name}
+                  onChangeText={(name) => setPlaceDraft((prev) => ({ ...prev, name }))}
+                  placeholder={t('map.namePlaceholder')}
+                  placeholderTextColor="#8E8E93"
+                  maxLength={60}
+                />
+
+                <Text style={styles.placeFieldLabel}>{t('map.type')}</Text>
+                <View style={styles.placeChipRow}>
+                  {PLACE_CATEGORIES.map((category) => {
+                    const selected = placeDraft.category === category.value;
+                    return (
+                      <TouchableOpacity
+                        key={category.value}
+                        style={[styles.placeChip, selected && styles.placeChipSelected]}
+                        onPress={() => setPlaceDraft((prev) => ({ ...prev, category: category.value }))}
+                      >
+                        <Ionicons name={category.icon} size={14} color={selected ? '#FFFFFF' : '#007AFF'} />
+                        <Text style={[styles.placeChipText, selected && styles.placeChipTextSelected]}>
+                          {t(category.labelKey)}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                <Text style={styles.placeFieldLabel}>{t('map.shape')}</Text>
+                <View style={styles.placeChipRow}>
+                  {(['circle', 'polygon'] as PlaceShape[]).map((shape) => {
+                    const selected = placeDraft.shape === shape;
+                    return (
+                      <TouchableOpacity
+                        key={shape}
+                        style={[styles.placeChip, selected && styles.placeChipSelected]}
+                        onPress={() => setPlaceDraft((prev) => ({ ...prev, shape }))}
+                      >
+                        <Ionicons
+                          name={shape === 'circle' ? 'ellipse-outline' : 'shapes-outline'}
+                          size={14}
+                          color={selected ? '#FFFFFF' : '#007AFF'}
+                        />
+                        <Text style={[styles.placeChipText, selected && styles.placeChipTextSelected]}>
+                          {shape === 'circle' ? t('map.circle') : t('map.customArea')}
+                        </Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                </View>
+
+                {placeDraft.shape === 'circle' && (
+                  <>
+                    <Text style={styles.placeFieldLabel}>{t('map.radius')}</Text>
+                    <View style={styles.placeChipRow}>
+                      {PLACE_RADIUS_OPTIONS.map((radius) => {
+                        const selected = placeDraft.radiusMeters === radius;
+                        return (
+                          <TouchableOpacity
+                            key={radius}
+                            style={[styles.placeChip, selected && styles.placeChipSelected]}
+                            onPress={() => setPlaceDraft((prev) => ({ ...prev, radiusMeters: radius }))}
+                          >
+                            <Text style={[styles.placeChipText, selected && styles.placeChipTextSelected]}>
+                              {formatRadius(radius)}
+                            </Text>
+                          </TouchableOpacity>
+                        );
+                      })}
+                    </View>
+                  </>
+                )}
+
+                <TouchableOpacity style={styles.placeSecondaryButton} onPress={startPickingPlaceArea} activeOpacity={0.7}>
+                  <Ionicons name="map-outline" size={18} color="#007AFF" />
+                  <Text style={styles.placeSecondaryButtonText}>
+                    {placeDraft.shape === 'circle'
+                      ? placeDraft.center ? t('map.moveCenter') : t('map.setCenter')
+                      : placeDraft.polygon.length >= 3 ? t('map.redrawArea') : t('map.drawArea')}
+                  </Text>
+                </TouchableOpacity>
+
+                <View style={styles.placeSwitchRow}>
+                  <Text style={styles.placeSwitchLabel}>{t('map.alertArrives')}</Text>
+                  <Switch
+                    value={placeDraft.notifyOnArrival}
+                    onValueChange={(value) => setPlaceDraft((prev) => ({ ...prev, notifyOnArrival: value }))}
+                  />
+                </View>
+                <View style={styles.placeSwitchRow}>
+                  <Text style={styles.placeSwitchLabel}>{t('map.alertLeaves')}</Text>
+                  <Switch
+                    value={placeDraft.notifyOnDeparture}
+                    onValueChange={(value) => setPlaceDraft((prev) => ({ ...prev, notifyOnDeparture: value }))}
+                  />
+                </View>
+              </ScrollView>
+
+              <TouchableOpacity
+                style={[styles.placePrimaryButton, isSavingPlace && styles.placePrimaryButtonDisabled]}
+                onPress={handleSavePlace}
+                disabled={isSavingPlace}
+                activeOpacity={0.8}
+              >
+                {isSavingPlace ? (
+                  <ActivityIndicator size="small" color="#FFFFFF" />
+                ) : (
+                  <Text style={styles.placePrimaryButtonText}>{t('map.savePlace')}</Text>
+                )}
+              </TouchableOpacity>
+            </Pressable>
+          </KeyboardAvoidingView>
+        </Pressable>
+      </Modal>
     </SafeAreaView>
   );
 }
@@ -2008,6 +2833,120 @@ const styles = StyleSheet.create({
     color: '#8E8E93',
     marginTop: 2,
   },
+  playbackCard: {
+    marginHorizontal: 16,
+    marginBottom: 8,
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.08,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 3,
+      },
+    }),
+  },
+  playbackControls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  playbackPlayButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#007AFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  playbackInfo: {
+    flex: 1,
+    marginHorizontal: 12,
+  },
+  playbackTime: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000',
+  },
+  playbackStatus: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  playbackSpeedButton: {
+    paddingVertical: 6,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: '#F2F2F7',
+  },
+  playbackSpeedText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  playbackScrubber: {
+    height: 24,
+    marginTop: 12,
+    justifyContent: 'center',
+  },
+  playbackTrack: {
+    flexDirection: 'row',
+    height: 6,
+    borderRadius: 3,
+    overflow: 'hidden',
+  },
+  playbackThumb: {
+    position: 'absolute',
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 2,
+    borderColor: '#007AFF',
+  },
+  playbackRange: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 4,
+  },
+  playbackRangeText: {
+    fontSize: 11,
+    color: '#8E8E93',
+  },
+  playbackStopMarker: {
+    width: 20,
+    height: 20,
+    borderRadius: 10,
+    backgroundColor: '#FF9500',
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  playbackStopMarkerPending: {
+    opacity: 0.5,
+  },
+  playbackPositionMarker: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    backgroundColor: 'rgba(0, 122, 255, 0.25)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  playbackPositionDot: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: '#007AFF',
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
   timelineContainer: {
     flex: 1,
     backgroundColor: '#F5F5F7',
@@ -2213,4 +3152,276 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  placeVertex: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    backgroundColor: '#FF9500',
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
+  tripBanner: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    right: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    gap: 4,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.15,
+        shadowRadius: 6,
+      },
+      android: {
+        elevation: 6,
+      },
+    }),
+  },
+  tripBannerHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  tripBannerTitle: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  tripBannerText: {
+    fontSize: 14,
+    color: '#000000',
+  },
+  tripBannerTextOverdue: {
+    color: '#FF3B30',
+    fontWeight: '600',
+  },
+  tripBannerSubtext: {
+    fontSize: 12,
+    color: '#8E8E93',
+  },
+  placePickBanner: {
+    position: 'absolute',
+    top: 12,
+    left: 12,
+    right: 12,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.15,
+        shadowRadius: 6,
+      },
+      android: {
+        elevation: 6,
+      },
+    }),
+  },
+  placePickBannerText: {
+    fontSize: 14,
+    color: '#000000',
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  placePickBannerActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+  },
+  placePickBannerButton: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#F5F5F7',
+  },
+  placePickBannerButtonPrimary: {
+    backgroundColor: '#007AFF',
+  },
+  placePickBannerButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  placePickBannerButtonTextPrimary: {
+    color: '#FFFFFF',
+  },
+  modalOverlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 20,
+  },
+  modalKeyboardView: {
+    width: '100%',
+    alignItems: 'center',
+  },
+  placeModalContent: {
+    width: '100%',
+    maxHeight: SCREEN_HEIGHT * 0.8,
+    backgroundColor: '#FFFFFF',
+    borderRadius: 16,
+    padding: 20,
+  },
+  placeModalHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  placeModalTitle: {
+    fontSize: 20,
+    fontWeight: '700',
+    color: '#000000',
+  },
+  placeModalCloseButton: {
+    padding: 4,
+  },
+  placeModalSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+  placeList: {
+    maxHeight: SCREEN_HEIGHT * 0.4,
+  },
+  placeListEmpty: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+    paddingVertical: 24,
+  },
+  placeListItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+    borderBottomColor: '#E5E5EA',
+  },
+  placeListItemMain: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  placeListIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    backgroundColor: '#EFF6FF',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 12,
+  },
+  placeListText: {
+    flex: 1,
+  },
+  placeListName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  placeListMeta: {
+    fontSize: 13,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  placeListAction: {
+    padding: 8,
+  },
+  placeEditorBody: {
+    maxHeight: SCREEN_HEIGHT * 0.55,
+  },
+  placeFieldLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#8E8E93',
+    textTransform: 'uppercase',
+    marginTop: 12,
+    marginBottom: 8,
+  },
+  placeTextInput: {
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    borderRadius: 10,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#000000',
+  },
+  placeChipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  placeChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 16,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  placeChipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  placeChipText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  placeChipTextSelected: {
+    color: '#FFFFFF',
+  },
+  placeSecondaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 16,
+    paddingVertical: 12,
+    borderRadius: 10,
+    backgroundColor: '#EFF6FF',
+  },
+  placeSecondaryButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  placeSwitchRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingVertical: 10,
+  },
+  placeSwitchLabel: {
+    fontSize: 15,
+    color: '#000000',
+  },
+  placePrimaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    marginTop: 16,
+    paddingVertical: 14,
+    borderRadius: 12,
+    backgroundColor: '#007AFF',
+  },
+  placePrimaryButtonDisabled: {
+    opacity: 0.6,
+  },
+  placePrimaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
 });
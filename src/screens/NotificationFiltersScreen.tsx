@@ -0,0 +1,339 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  Switch,
+  ActivityIndicator,
+  Alert,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import type { TranslationKey } from '../i18n';
+import type { RootStackParamList } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useConnection } from '../context/ConnectionContext';
+import { useUserSettings } from '../context/UserSettingsContext';
+import { notificationPreferencesService } from '../services/notificationPreferencesService';
+
+type NotificationFiltersScreenNavigationProp = StackNavigationProp<RootStackParamList, 'NotificationFilters'>;
+
+interface NotificationFiltersScreenProps {
+  navigation: NotificationFiltersScreenNavigationProp;
+}
+
+interface NotificationTypeOption {
+  type: string; // push data.type
+  titleKey: TranslationKey;
+  subtitleKey: TranslationKey;
+}
+
+const SAFETY_TYPES: NotificationTypeOption[] = [
+  { type: 'sos_alert', titleKey: 'notificationFilters.sosAlert', subtitleKey: 'notificationFilters.sosAlertSubtitle' },
+  { type: 'sos_response', titleKey: 'notificationFilters.sosResponse', subtitleKey: 'notificationFilters.sosResponseSubtitle' },
+  { type: 'check_in_emergency', titleKey: 'notificationFilters.checkInEmergency', subtitleKey: 'notificationFilters.checkInEmergencySubtitle' },
+  { type: 'check_in_unsafe', titleKey: 'notificationFilters.checkInUnsafe', subtitleKey: 'notificationFilters.checkInUnsafeSubtitle' },
+  { type: 'missed_check_in', titleKey: 'notificationFilters.missedCheckIn', subtitleKey: 'notificationFilters.missedCheckInSubtitle' },
+  { type: 'trip_overdue', titleKey: 'notificationFilters.tripOverdue', subtitleKey: 'notificationFilters.tripOverdueSubtitle' },
+];
+
+const ALERT_TYPES: NotificationTypeOption[] = [
+  { type: 'incident_proximity', titleKey: 'notificationFilters.incidentProximity', subtitleKey: 'notificationFilters.incidentProximitySubtitle' },
+  { type: 'incident', titleKey: 'notificationFilters.incident', subtitleKey: 'notificationFilters.incidentSubtitle' },
+  { type: 'place_arrival', titleKey: 'notificationFilters.placeArrival', subtitleKey: 'notificationFilters.placeArrivalSubtitle' },
+  { type: 'place_departure', titleKey: 'notificationFilters.placeDeparture', subtitleKey: 'notificationFilters.placeDepartureSubtitle' },
+  { type: 'check_in', titleKey: 'notificationFilters.checkIn', subtitleKey: 'notificationFilters.checkInSubtitle' },
+  { type: 'trip_started', titleKey: 'notificationFilters.tripStarted', subtitleKey: 'notificationFilters.tripStartedSubtitle' },
+  { type: 'trip_arrived', titleKey: 'notificationFilters.tripArrived', subtitleKey: 'notificationFilters.tripArrivedSubtitle' },
+  { type: 'trip_cancelled', titleKey: 'notificationFilters.tripCancelled', subtitleKey: 'notificationFilters.tripCancelledSubtitle' },
+  { type: 'travel_advisory', titleKey: 'notificationFilters.travelAdvisory', subtitleKey: 'notificationFilters.travelAdvisorySubtitle' },
+  { type: 'route_risk', titleKey: 'notificationFilters.routeRisk', subtitleKey: 'notificationFilters.routeRiskSubtitle' },
+];
+
+const UPDATE_TYPES: NotificationTypeOption[] = [
+  { type: 'connection_added', titleKey: 'notificationFilters.connectionAdded', subtitleKey: 'notificationFilters.connectionAddedSubtitle' },
+  { type: 'location_reminder', titleKey: 'notificationFilters.locationReminder', subtitleKey: 'notificationFilters.locationReminderSubtitle' },
+  { type: 'morning_greeting', titleKey: 'notificationFilters.morningGreeting', subtitleKey: 'notificationFilters.morningGreetingSubtitle' },
+  { type: 'afternoon_greeting', titleKey: 'notificationFilters.afternoonGreeting', subtitleKey: 'notificationFilters.afternoonGreetingSubtitle' },
+  { type: 'app_update', titleKey: 'notificationFilters.appUpdate', subtitleKey: 'notificationFilters.appUpdateSubtitle' },
+];
+
+export default function NotificationFiltersScreen({ navigation }: NotificationFiltersScreenProps) {
+  const { user } = useAuth();
+  const { connections } = useConnection();
+  const { t } = useUserSettings();
+  // Only muted targets are tracked - everything else is enabled
+  const [mutedTypes, setMutedTypes] = useState<Set<string>>(new Set());
+  const [mutedConnections, setMutedConnections] = useState<Set<string>>(new Set());
+  const [loading, setLoading] = useState<boolean>(true);
+  const [savingKey, setSavingKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user?.id) {
+      loadPreferences();
+    }
+  }, [user?.id]);
+
+  const loadPreferences = async (): Promise<void> => {
+    if (!user?.id) return;
+
+    try {
+      setLoading(true);
+      const preferences = await notificationPreferencesService.getPreferences(user.id);
+      const disabled = preferences.filter((preference) => !preference.enabled);
+
+      setMutedTypes(new Set(disabled.filter((p) => p.scope === 'type').map((p) => p.target)));
+      setMutedConnections(new Set(disabled.filter((p) => p.scope === 'connection').map((p) => p.target)));
+    } catch (error) {
+      console.error('Error loading notification preferences:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateSet = (set: Set<string>, key: string, muted: boolean): Set<string> => {
+    const next = new Set(set);
+    if (muted) {
+      next.add(key);
+    } else {
+      next.delete(key);
+    }
+    return next;
+  };
+
+  const handleTypeToggle = async (type: string, enabled: boolean): Promise<void> => {
+    if (!user?.id || savingKey) return;
+
+    setSavingKey(`type:${type}`);
+    setMutedTypes((prev) => updateSet(prev, type, !enabled));
+
+    const saved = await notificationPreferencesService.setTypePreference(user.id, type, enabled);
+    if (!saved) {
+      setMutedTypes((prev) => updateSet(prev, type, enabled));
+      Alert.alert(t('common.error'), t('notificationFilters.saveFailed'));
+    }
+    setSavingKey(null);
+  };
+
+  const handleConnectionToggle = async (connectedUserId: string, enabled: boolean): Promise<void> => {
+    if (!user?.id || savingKey) return;
+
+    setSavingKey(`connection:${connectedUserId}`);
+    setMutedConnections((prev) => updateSet(prev, connectedUserId, !enabled));
+
+    const saved = await notificationPreferencesService.setConnectionPreference(user.id, connectedUserId, enabled);
+    if (!saved) {
+      setMutedConnections((prev) => updateSet(prev, connectedUserId, enabled));
+      Alert.alert(t('common.error'), t('notificationFilters.saveFailed'));
+    }
+    setSavingKey(null);
+  };
+
+  const renderTypeRow = (option: NotificationTypeOption, locked: boolean) => {
+    const key = `type:${option.type}`;
+
+    return (
+      <View key={key} style={styles.settingRow}>
+        <View style={styles.settingContent}>
+          <Text style={styles.settingTitle}>{t(option.titleKey)}</Text>
+          <Text style={styles.settingSubtitle}>{t(option.subtitleKey)}</Text>
+        </View>
+        {locked ? (
+          <View style={styles.lockedBadge}>
+            <Ionicons name="lock-closed" size={12} color="#8E8E93" />
+            <Text style={styles.lockedText}>{t('notificationFilters.alwaysOn')}</Text>
+          </View>
+        ) : savingKey === key ? (
+          <ActivityIndicator size="small" color="#007AFF" />
+        ) : (
+          <Switch
+            value={!mutedTypes.has(option.type)}
+            onValueChange={(value) => handleTypeToggle(option.type, value)}
+            trackColor={{ false: '#E5E5EA', true: '#34C759' }}
+            thumbColor="#FFFFFF"
+            disabled={!!savingKey}
+          />
+        )}
+      </View>
+    );
+  };
+
+  const connectedMembers = connections.filter((member) => !!member.userId);
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#000000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('notificationFilters.title')}</Text>
+        <View style={styles.placeholder} />
+      </View>
+
+      <ScrollView style={styles.content}>
+        <Text style={styles.description}>
+          {t('notificationFilters.description')}
+        </Text>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#007AFF" />
+            <Text style={styles.loadingText}>{t('common.loadingSettings')}</Text>
+          </View>
+        ) : (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('notificationFilters.safetyAlerts')}</Text>
+              {SAFETY_TYPES.map((option) => renderTypeRow(option, true))}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('notificationFilters.alerts')}</Text>
+              {ALERT_TYPES.map((option) => renderTypeRow(option, false))}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('notificationFilters.updatesGreetings')}</Text>
+              {UPDATE_TYPES.map((option) => renderTypeRow(option, false))}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('notificationFilters.connections')}</Text>
+              {connectedMembers.length === 0 ? (
+                <Text style={styles.emptyText}>{t('notificationFilters.noConnections')}</Text>
+              ) : (
+                connectedMembers.map((member) => {
+                  const connectedUserId = member.userId as string;
+                  const key = `connection:${connectedUserId}`;
+
+                  return (
+                    <View key={key} style={styles.settingRow}>
+                      <View style={styles.settingContent}>
+                        <Text style={styles.settingTitle}>{member.name}</Text>
+                        <Text style={styles.settingSubtitle}>
+                          {mutedConnections.has(connectedUserId)
+                            ? t('notificationFilters.connectionMuted')
+                            : t('notificationFilters.connectionAll')}
+                        </Text>
+                      </View>
+                      {savingKey === key ? (
+                        <ActivityIndicator size="small" color="#007AFF" />
+                      ) : (
+                        <Switch
+                          value={!mutedConnections.has(connectedUserId)}
+                          onValueChange={(value) => handleConnectionToggle(connectedUserId, value)}
+                          trackColor={{ false: '#E5E5EA', true: '#34C759' }}
+                          thumbColor="#FFFFFF"
+                          disabled={!!savingKey}
+                        />
+                      )}
+                    </View>
+                  );
+                })
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  placeholder: {
+    width: 32,
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  description: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 24,
+    lineHeight: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 12,
+  },
+  settingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  settingContent: {
+    flex: 1,
+    marginRight: 16,
+  },
+  settingTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 4,
+  },
+  settingSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  lockedBadge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 8,
+    backgroundColor: '#F2F2F7',
+  },
+  lockedText: {
+    fontSize: 12,
+    color: '#8E8E93',
+    fontWeight: '600',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 16,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+});
@@ -14,8 +14,11 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import { useAuth } from '../context/AuthContext';
+import { useUserSettings } from '../context/UserSettingsContext';
 import { supabase } from '../lib/supabase';
+import { tripService } from '../services/tripService';
 import type { RootStackParamList, Location } from '../types';
+import type { TranslationKey } from '../i18n';
 
 type NotificationsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Notifications'>;
 
@@ -39,6 +42,8 @@ const getNotificationIcon = (type: string): keyof typeof Ionicons.glyphMap => {
   switch (type) {
     case 'sos_alert':
       return 'warning';
+    case 'sos_response':
+      return 'walk';
     case 'connection_added':
       return 'person-add';
     case 'location_updated':
@@ -60,11 +65,29 @@ const getNotificationIcon = (type: string): keyof typeof Ionicons.glyphMap => {
       return 'airplane';
     case 'route_risk':
       return 'map';
+    case 'place_arrival':
+      return 'home';
+    case 'place_departure':
+      return 'exit-outline';
+    case 'trip_started':
+      return 'navigate';
+    case 'trip_arrived':
+      return 'flag';
+    case 'trip_cancelled':
+      return 'close-circle-outline';
+    case 'trip_overdue':
+      return 'warning';
     default:
       return 'notifications';
   }
 };
 
+const ALERT_LEVEL_KEYS: Record<string, TranslationKey> = {
+  danger: 'notifications.alertLevel.danger',
+  warning: 'notifications.alertLevel.warning',
+  alert: 'notifications.alertLevel.alert',
+};
+
 const getNotificationColor = (type: string, data?: any): string => {
   // Check for incident_proximity with alert level
   if (type === 'incident_proximity' && data?.alertLevel) {
@@ -86,11 +109,18 @@ const getNotificationColor = (type: string, data?: any): string => {
       return '#DC2626';
     case 'check_in_unsafe':
     case 'missed_check_in':
+    case 'trip_overdue':
+    case 'sos_response':
       return '#F59E0B';
     case 'connection_added':
       return '#10B981';
     case 'location_reminder':
       return '#3B82F6';
+    case 'place_arrival':
+    case 'trip_arrived':
+      return '#10B981';
+    case 'place_departure':
+      return '#8B5CF6';
     case 'incident':
     case 'incident_proximity':
       return '#EF4444';
@@ -101,6 +131,7 @@ const getNotificationColor = (type: string, data?: any): string => {
 
 export default function NotificationsScreen({ navigation }: NotificationsScreenProps) {
   const { user } = useAuth();
+  const { t, formatTimeAgo, locale } = useUserSettings();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
@@ -197,14 +228,15 @@ export default function NotificationsScreen({ navigation }: NotificationsScreenP
         const shareLocation = userSettings?.location_sharing_enabled ?? false;
         
         if (shareLocation) {
+          const sharedLocation = locationService.getShareableLocation(currentLocation);
           // Update location in connections table for real-time updates
           // This will trigger real-time subscriptions for connected users
           await supabase
             .from('connections')
             .update({
-              location_latitude: currentLocation.latitude,
-              location_longitude: currentLocation.longitude,
-              location_address: currentLocation.address || null,
+              location_latitude: sharedLocation.latitude,
+              location_longitude: sharedLocation.longitude,
+              location_address: sharedLocation.address || null,
               location_updated_at: new Date().toISOString(),
             })
             .eq('connected_user_id', user.id)
@@ -343,9 +375,9 @@ export default function NotificationsScreen({ navigation }: NotificationsScreenP
             if (!permissionResult.granted) {
               console.warn('Location permission denied when updating from quick message notification');
               Alert.alert(
-                'Location Permission Required',
-                'To update your location, please grant location permission in Settings.',
-                [{ text: 'OK' }]
+                t('notifications.locationPermissionTitle'),
+                t('notifications.locationPermissionMessage'),
+                [{ text: t('common.ok') }]
               );
               return;
             }
@@ -366,13 +398,14 @@ export default function NotificationsScreen({ navigation }: NotificationsScreenP
                 .single();
 
               if (userSettings?.location_sharing_enabled) {
+                const sharedLocation = locationService.getShareableLocation(currentLocation);
                 // Update location in connections table
                 await supabase
                   .from('connections')
                   .update({
-                    location_latitude: currentLocation.latitude,
-                    location_longitude: currentLocation.longitude,
-                    location_address: currentLocation.address || null,
+                    location_latitude: sharedLocation.latitude,
+                    location_longitude: sharedLocation.longitude,
+                    location_address: sharedLocation.address || null,
                     location_updated_at: new Date().toISOString(),
                   })
                   .eq('connected_user_id', user.id)
@@ -404,7 +437,7 @@ export default function NotificationsScreen({ navigation }: NotificationsScreenP
 
       if (error) {
         console.error('Error marking all as read:', error);
-        Alert.alert('Error', 'Failed to mark all notifications as read.');
+        Alert.alert(t('common.error'), t('notifications.markAllReadFailed'));
         return;
       }
 
@@ -413,7 +446,7 @@ export default function NotificationsScreen({ navigation }: NotificationsScreenP
       setUnreadCount(0);
     } catch (error) {
       console.error('Error marking all as read:', error);
-      Alert.alert('Error', 'Failed to mark all notifications as read.');
+      Alert.alert(t('common.error'), t('notifications.markAllReadFailed'));
     }
   };
 
@@ -448,16 +481,10 @@ export default function NotificationsScreen({ navigation }: NotificationsScreenP
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString);
     const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMs / 3600000);
-    const diffDays = Math.floor(diffMs / 86400000);
-
-    if (diffMins < 1) return 'Just now';
-    if (diffMins < 60) return `${diffMins}m ago`;
-    if (diffHours < 24) return `${diffHours}h ago`;
-    if (diffDays < 7) return `${diffDays}d ago`;
-    return date.toLocaleDateString();
+    const diffDays = Math.floor((now.getTime() - date.getTime()) / 86400000);
+
+    if (diffDays < 7) return formatTimeAgo(date);
+    return date.toLocaleDateString(locale);
   };
 
   const renderNotification = ({ item }: { item: Notification }) => {
@@ -472,6 +499,9 @@ export default function NotificationsScreen({ navigation }: NotificationsScreenP
     const isConnectionRequest = item.type === 'connection_added';
     const isIncidentProximity = item.type === 'incident_proximity';
     const isLocationReminder = item.type === 'location_reminder';
+    const isPlaceAlert = item.type === 'place_arrival' || item.type === 'place_departure';
+    const isCheckInReminder = item.type === 'missed_check_in' && item.data?.escalationStep === 'reminder';
+    const isTripAlert = item.type.startsWith('trip_') && !!item.data?.tripId;
     
     // Check if this is a greeting notification (morning or afternoon)
     const isGreeting = item.data?.type === 'morning_greeting' || item.data?.type === 'afternoon_greeting' || 
@@ -500,9 +530,9 @@ export default function NotificationsScreen({ navigation }: NotificationsScreenP
             const permissionResult = await locationService.requestPermissions();
             if (!permissionResult.granted) {
               Alert.alert(
-                'Permission Required',
-                'Location permission is required to update your location.',
-                [{ text: 'OK' }]
+                t('notifications.permissionTitle'),
+                t('notifications.permissionMessage'),
+                [{ text: t('common.ok') }]
               );
               return;
             }
@@ -533,13 +563,14 @@ export default function NotificationsScreen({ navigation }: NotificationsScreenP
                 .maybeSingle();
 
               if (familyMember?.family_group_id) {
+                const sharedLocation = locationService.getShareableLocation(currentLocation);
                 // Update location in family_members table
                 await supabase
                   .from('family_members')
                   .update({
-                    location_latitude: currentLocation.latitude,
-                    location_longitude: currentLocation.longitude,
-                    location_address: currentLocation.address || null,
+                    location_latitude: sharedLocation.latitude,
+                    location_longitude: sharedLocation.longitude,
+                    location_address: sharedLocation.address || null,
                     last_seen: new Date().toISOString(),
                   })
                   .eq('user_id', user.id)
@@ -548,33 +579,48 @@ export default function NotificationsScreen({ navigation }: NotificationsScreenP
             }
 
             Alert.alert(
-              'Location Updated',
-              'Your location has been updated successfully.',
-              [{ text: 'OK' }]
+              t('notifications.locationUpdatedTitle'),
+              t('notifications.locationUpdatedMessage'),
+              [{ text: t('common.ok') }]
             );
           } else {
             Alert.alert(
-              'Location Error',
-              'Unable to get your current location. Please check your location settings.',
-              [{ text: 'OK' }]
+              t('notifications.locationErrorTitle'),
+              t('notifications.locationErrorMessage'),
+              [{ text: t('common.ok') }]
             );
           }
         } catch (error) {
           console.error('Error updating location from notification:', error);
           Alert.alert(
-            'Error',
-            'Failed to update location. Please try again.',
-            [{ text: 'OK' }]
+            t('common.error'),
+            t('notifications.updateLocationFailed'),
+            [{ text: t('common.ok') }]
           );
         }
         return;
       }
 
+      // Overdue check-in reminder - take the user straight to check in
+      if (isCheckInReminder) {
+        navigation.navigate('CheckIn');
+        return;
+      }
+
+      // SOS alerts and responses open the responder view (trail, responders and timeline)
+      if ((item.type === 'sos_alert' || item.type === 'sos_response') && item.data?.userId) {
+        navigation.navigate('SOSEvent', {
+          userId: item.data.userId,
+          eventId: item.data.sosEventId,
+        });
+        return;
+      }
+
       // Navigate to MapScreen for emergency alerts with location data
       if (isEmergencyAlert && item.data?.location) {
         const location = item.data.location;
         const userId = item.data.userId;
-        const userName = item.data.userName || item.title.replace('🚨 Emergency Alert', '').trim() || 'Emergency Location';
+        const userName = item.data.userName || item.title.replace('🚨 Emergency Alert', '').trim() || t('notifications.emergencyLocation');
         
         // Ensure location has required fields
         if (location.latitude && location.longitude) {
@@ -591,6 +637,35 @@ export default function NotificationsScreen({ navigation }: NotificationsScreenP
         }
       }
 
+      // Navigate to MapScreen for place arrive/leave alerts
+      if (isPlaceAlert && item.data?.location?.latitude && item.data?.location?.longitude) {
+        navigation.navigate('MapView', {
+          location: {
+            latitude: item.data.location.latitude,
+            longitude: item.data.location.longitude,
+            address: item.data.location.address,
+          },
+          title: item.data.userName || item.data.placeName || t('notifications.placeAlert'),
+          showUserLocation: true,
+          userId: item.data.userId,
+        });
+      }
+
+      // Follow the trip on the map (the notification itself has no live position)
+      if (isTripAlert) {
+        const trip = await tripService.getTrip(item.data.tripId);
+        if (trip) {
+          navigation.navigate('MapView', {
+            location: trip.lastLocation || trip.destination,
+            title: item.data.userName || trip.destinationLabel,
+            showUserLocation: true,
+            userId: trip.userId,
+            tripId: trip.id,
+          });
+        }
+        return;
+      }
+
       // Navigate to ConnectionScreen for connection requests
       if (isConnectionRequest) {
         navigation.navigate('Connections');
@@ -635,7 +710,7 @@ export default function NotificationsScreen({ navigation }: NotificationsScreenP
                   alertLevel === 'alert' && styles.alertBadgeAlert,
                 ]}>
                   <Text style={styles.alertBadgeText}>
-                    {alertLevel.toUpperCase()}
+                    {ALERT_LEVEL_KEYS[alertLevel] ? t(ALERT_LEVEL_KEYS[alertLevel]) : alertLevel.toUpperCase()}
                   </Text>
                 </View>
               )}
@@ -695,7 +770,7 @@ export default function NotificationsScreen({ navigation }: NotificationsScreenP
           >
             <Ionicons name="arrow-back" size={24} color="#0F172A" />
           </TouchableOpacity>
-          <Text style={styles.headerTitle}>Notifications</Text>
+          <Text style={styles.headerTitle}>{t('notifications.title')}</Text>
           <View style={styles.headerRight} />
         </View>
         <View style={styles.loadingContainer}>
@@ -715,14 +790,14 @@ export default function NotificationsScreen({ navigation }: NotificationsScreenP
         >
           <Ionicons name="arrow-back" size={24} color="#0F172A" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Notifications</Text>
+        <Text style={styles.headerTitle}>{t('notifications.title')}</Text>
         {unreadCount > 0 && (
           <TouchableOpacity
             style={styles.markAllButton}
             onPress={markAllAsRead}
             hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
           >
-            <Text style={styles.markAllText}>Mark all read</Text>
+            <Text style={styles.markAllText}>{t('notifications.markAllRead')}</Text>
           </TouchableOpacity>
         )}
         {unreadCount === 0 && <View style={styles.headerRight} />}
@@ -731,8 +806,8 @@ export default function NotificationsScreen({ navigation }: NotificationsScreenP
       {notifications.length === 0 ? (
         <View style={styles.emptyContainer}>
           <Ionicons name="notifications-off-outline" size={64} color="#CBD5E1" />
-          <Text style={styles.emptyTitle}>No Notifications</Text>
-          <Text style={styles.emptyText}>You're all caught up!</Text>
+          <Text style={styles.emptyTitle}>{t('notifications.emptyTitle')}</Text>
+          <Text style={styles.emptyText}>{t('notifications.emptyText')}</Text>
         </View>
       ) : (
         <FlatList
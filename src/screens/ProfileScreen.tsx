@@ -20,6 +20,7 @@ import type { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import { useAuth } from '../context/AuthContext';
 import { useConnection } from '../context/ConnectionContext';
+import { useUserSettings } from '../context/UserSettingsContext';
 import { supabase } from '../lib/supabase';
 import { pushNotificationService } from '../services/pushNotificationService';
 import * as Notifications from 'expo-notifications';
@@ -87,6 +88,7 @@ const faqData: FAQItem[] = [
 
 export default function ProfileScreen({ navigation }: ProfileScreenProps) {
   const { user, logout, deleteAccount, updateUser } = useAuth();
+  const { t } = useUserSettings();
   const { locationSharingEnabled, setLocationSharingEnabled } = useConnection();
   const [notificationsEnabled, setNotificationsEnabled] = useState<boolean>(true);
   const [communityReportsEnabled, setCommunityReportsEnabled] = useState<boolean>(true);
@@ -271,9 +273,9 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
         // CRITICAL: Check if running on physical device
         if (!Device.isDevice) {
           Alert.alert(
-            'Physical Device Required',
-            'Push notifications only work on physical devices, not simulators or emulators. Please test on a real device.',
-            [{ text: 'OK' }]
+            t('profile.physicalDeviceTitle'),
+            t('profile.physicalDeviceMessage'),
+            [{ text: t('common.ok') }]
           );
           setSaving(false);
           return;
@@ -306,12 +308,12 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             if (!canAskAgain && Platform.OS === 'android') {
               // Permanently denied on Android - guide user to settings
               Alert.alert(
-                'Permission Required',
-                'Push notifications require notification permission. It appears you previously denied this permission.\n\nPlease enable it manually:\n1. Go to Settings\n2. Tap Apps > FamGuard\n3. Tap Notifications\n4. Enable "Show notifications"',
+                t('profile.permissionRequired'),
+                t('profile.permissionDeniedSettings'),
                 [
-                  { text: 'Cancel', style: 'cancel' },
+                  { text: t('common.cancel'), style: 'cancel' },
                   {
-                    text: 'Open Settings',
+                    text: t('common.openSettings'),
                     onPress: () => {
                       Linking.openSettings().catch((err) => {
                         console.error('Error opening settings:', err);
@@ -323,9 +325,9 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             } else {
               // Can ask again or iOS
               Alert.alert(
-                'Permission Required',
-                'Push notifications require notification permission to alert you about emergencies.\n\nPlease grant permission when prompted to receive important safety alerts.',
-                [{ text: 'OK' }]
+                t('profile.permissionRequired'),
+                t('profile.permissionPrompt'),
+                [{ text: t('common.ok') }]
               );
             }
             // Don't enable toggle if permission not granted
@@ -341,9 +343,9 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
           } catch (tokenError: any) {
             console.error('❌ Error registering push token:', tokenError);
             Alert.alert(
-              'Warning',
-              'Permission granted but failed to register push token. Notifications may not work. Please try again later.',
-              [{ text: 'OK' }]
+              t('profile.warning'),
+              t('profile.pushTokenFailed'),
+              [{ text: t('common.ok') }]
             );
             // Continue anyway - user can still receive notifications if token was already registered
           }
@@ -364,9 +366,9 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
         if (finalStatus !== 'granted') {
           console.error('❌ Permission was revoked or not granted');
           Alert.alert(
-            'Permission Not Granted',
-            'Notification permission is required for push notifications. Please grant permission to enable notifications.',
-            [{ text: 'OK' }]
+            t('profile.permissionNotGranted'),
+            t('profile.permissionNotGrantedMessage'),
+            [{ text: t('common.ok') }]
           );
           setSaving(false);
           return;
@@ -391,7 +393,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
 
       if (error) {
         console.error('Error saving notifications setting:', error);
-        Alert.alert('Error', 'Failed to save notification settings. Please try again.');
+        Alert.alert(t('common.error'), t('profile.notificationsSaveFailed'));
         // Revert on error
         setNotificationsEnabled(!value);
       } else {
@@ -401,15 +403,15 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
           const { status: verifyStatus } = await Notifications.getPermissionsAsync();
           if (verifyStatus === 'granted') {
             Alert.alert(
-              'Success',
-              'Push notifications enabled! You will receive emergency alerts and safety notifications.',
-              [{ text: 'OK' }]
+              t('common.success'),
+              t('profile.notificationsEnabled'),
+              [{ text: t('common.ok') }]
             );
           } else {
             Alert.alert(
-              'Warning',
-              'Notifications setting saved, but permission is not granted. Please enable notifications in device settings.',
-              [{ text: 'OK' }]
+              t('profile.warning'),
+              t('profile.notificationsSavedNoPermission'),
+              [{ text: t('common.ok') }]
             );
           }
         }
@@ -417,9 +419,9 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
     } catch (error: any) {
       console.error('❌ Error saving notifications setting:', error);
       Alert.alert(
-        'Error',
-        `Failed to save notification settings: ${error?.message || 'Unknown error'}\n\nPlease try again.`,
-        [{ text: 'OK' }]
+        t('common.error'),
+        t('profile.notificationsSaveFailedDetail', { error: error?.message || t('profile.unknownError') }),
+        [{ text: t('common.ok') }]
       );
       // Revert on error
       setNotificationsEnabled(!value);
@@ -453,7 +455,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
 
       if (error) {
         console.error('Error saving community reports setting:', error);
-        Alert.alert('Error', 'Failed to save community reports settings. Please try again.');
+        Alert.alert(t('common.error'), t('profile.communityReportsSaveFailed'));
         // Revert on error
         setCommunityReportsEnabled(!value);
       } else {
@@ -461,7 +463,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
       }
     } catch (error) {
       console.error('Error saving community reports setting:', error);
-      Alert.alert('Error', 'Failed to save community reports settings. Please try again.');
+      Alert.alert(t('common.error'), t('profile.communityReportsSaveFailed'));
       // Revert on error
       setCommunityReportsEnabled(!value);
     } finally {
@@ -478,7 +480,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
       await setLocationSharingEnabled(value);
     } catch (error) {
       console.error('Error saving location sharing setting:', error);
-      Alert.alert('Error', 'Failed to save location sharing settings. Please try again.');
+      Alert.alert(t('common.error'), t('profile.locationSharingSaveFailed'));
     } finally {
       if (isMountedRef.current) {
         setSaving(false);
@@ -495,10 +497,18 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
     navigation.navigate('Connections');
   };
 
+  const handleCircles = (): void => {
+    navigation.navigate('Circles');
+  };
+
   const handleEmergencyNotes = (): void => {
     navigation.navigate('EmergencyNotes');
   };
 
+  const handleAccountLock = (): void => {
+    navigation.navigate('AccountLock');
+  };
+
   const handleLocationAccuracy = (): void => {
     navigation.navigate('LocationAccuracy');
   };
@@ -511,10 +521,14 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
     navigation.navigate('SleepMode');
   };
 
+  const handleNotificationFilters = (): void => {
+    navigation.navigate('NotificationFilters');
+  };
+
   // Test push notification
   const handleTestPushNotification = async (): Promise<void> => {
     if (!user?.id) {
-      Alert.alert('Error', 'User not found. Please log in and try again.');
+      Alert.alert(t('common.error'), t('profile.userNotFound'));
       return;
     }
 
@@ -523,9 +537,9 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
       const { status } = await Notifications.getPermissionsAsync();
       if (status !== 'granted') {
         Alert.alert(
-          'Permission Required',
-          'Push notifications require notification permission. Please enable it in Settings > Apps > FamGuard > Notifications, or toggle Push Notifications ON in Profile.',
-          [{ text: 'OK' }]
+          t('profile.permissionRequired'),
+          t('profile.testPermissionMessage'),
+          [{ text: t('common.ok') }]
         );
         return;
       }
@@ -539,21 +553,21 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
 
       if (tokenError || !tokenData) {
         Alert.alert(
-          'Token Not Found',
-          'Push notification token not registered. Please toggle Push Notifications ON in Profile to register your token.',
-          [{ text: 'OK' }]
+          t('profile.tokenNotFound'),
+          t('profile.tokenNotFoundMessage'),
+          [{ text: t('common.ok') }]
         );
         return;
       }
 
       // Show confirmation dialog
       Alert.alert(
-        'Test Push Notification',
-        'This will send a test notification to your device. Continue?',
+        t('profile.testPushNotification'),
+        t('profile.testPushConfirm'),
         [
-          { text: 'Cancel', style: 'cancel' },
+          { text: t('common.cancel'), style: 'cancel' },
           {
-            text: 'Send Test',
+            text: t('profile.sendTest'),
             onPress: async () => {
               try {
                 // Send test notification via Edge Function
@@ -575,9 +589,9 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
                 if (error) {
                   console.error('Error sending test notification:', error);
                   Alert.alert(
-                    'Error',
-                    `Failed to send test notification: ${error.message || 'Unknown error'}\n\nCheck Edge Function logs for details.`,
-                    [{ text: 'OK' }]
+                    t('common.error'),
+                    t('profile.testPushSendFailed', { error: error.message || t('profile.unknownError') }),
+                    [{ text: t('common.ok') }]
                   );
                   return;
                 }
@@ -589,30 +603,30 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
 
                   if (sentCount > 0) {
                     Alert.alert(
-                      '✅ Success!',
-                      `Test notification sent successfully!\n\nCheck your device notifications. You should receive a test notification shortly.\n\nSent: ${sentCount}\nFailed: ${failedCount}`,
-                      [{ text: 'OK' }]
+                      t('profile.testPushSuccessTitle'),
+                      t('profile.testPushSuccess', { sent: sentCount, failed: failedCount }),
+                      [{ text: t('common.ok') }]
                     );
                   } else if (message) {
                     Alert.alert(
-                      '⚠️ No Notification Sent',
-                      `${message}\n\nThis usually means:\n• Token not found in database\n• Token expired or invalid\n• Try toggling Push Notifications OFF and ON again`,
-                      [{ text: 'OK' }]
+                      t('profile.testPushNoneSentTitle'),
+                      t('profile.testPushNoneSent', { message }),
+                      [{ text: t('common.ok') }]
                     );
                   } else {
                     Alert.alert(
-                      '⚠️ Unknown Result',
-                      'Notification request completed but no confirmation. Check your device notifications.',
-                      [{ text: 'OK' }]
+                      t('profile.testPushUnknownTitle'),
+                      t('profile.testPushUnknown'),
+                      [{ text: t('common.ok') }]
                     );
                   }
                 }
               } catch (error: any) {
                 console.error('Error testing push notification:', error);
                 Alert.alert(
-                  'Error',
-                  `Failed to test notification: ${error?.message || 'Unknown error'}\n\nPlease try again.`,
-                  [{ text: 'OK' }]
+                  t('common.error'),
+                  t('profile.testPushFailed', { error: error?.message || t('profile.unknownError') }),
+                  [{ text: t('common.ok') }]
                 );
               }
             },
@@ -622,9 +636,9 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
     } catch (error: any) {
       console.error('Error in handleTestPushNotification:', error);
       Alert.alert(
-        'Error',
-        `Failed to test notification: ${error?.message || 'Unknown error'}\n\nPlease try again.`,
-        [{ text: 'OK' }]
+        t('common.error'),
+        t('profile.testPushFailed', { error: error?.message || t('profile.unknownError') }),
+        [{ text: t('common.ok') }]
       );
     }
   };
@@ -667,15 +681,15 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
 
   const handleLogout = async (): Promise<void> => {
     Alert.alert(
-      'Sign Out',
-      'Are you sure you want to sign out?',
+      t('profile.signOut'),
+      t('profile.signOutConfirm'),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Sign Out',
+          text: t('profile.signOut'),
           style: 'destructive',
           onPress: async () => {
             try {
@@ -699,9 +713,9 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             } catch (error) {
               console.error('Error during logout:', error);
               Alert.alert(
-                'Error',
-                'Failed to sign out. Please try again.',
-                [{ text: 'OK' }]
+                t('common.error'),
+                t('profile.signOutFailed'),
+                [{ text: t('common.ok') }]
               );
             } finally {
               if (isMountedRef.current) {
@@ -716,28 +730,28 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
 
   const handleDeleteAccount = async (): Promise<void> => {
     Alert.alert(
-      'Delete Account',
-      'Are you sure you want to delete your account? This action cannot be undone. All your data, connections, and settings will be permanently deleted.',
+      t('profile.deleteAccount'),
+      t('profile.deleteAccountConfirm'),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Delete',
+          text: t('common.delete'),
           style: 'destructive',
           onPress: async () => {
             // Second confirmation
             Alert.alert(
-              'Final Confirmation',
-              'This will permanently delete your account and all associated data. Are you absolutely sure?',
+              t('profile.finalConfirmation'),
+              t('profile.finalConfirmationMessage'),
               [
                 {
-                  text: 'Cancel',
+                  text: t('common.cancel'),
                   style: 'cancel',
                 },
                 {
-                  text: 'Yes, Delete My Account',
+                  text: t('profile.confirmDeleteAccount'),
                   style: 'destructive',
                   onPress: async () => {
                     try {
@@ -761,9 +775,9 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
                     } catch (error: any) {
                       console.error('Error during account deletion:', error);
                       Alert.alert(
-                        'Error',
-                        error.message || 'Failed to delete account. Please try again.',
-                        [{ text: 'OK' }]
+                        t('common.error'),
+                        error.message || t('profile.deleteAccountFailed'),
+                        [{ text: t('common.ok') }]
                       );
                     } finally {
                       if (isMountedRef.current) {
@@ -795,30 +809,30 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
     
     if (!deleteAccountUrl) {
       Alert.alert(
-        'Error',
-        'Account deletion URL is not configured. Please contact support.',
-        [{ text: 'OK' }]
+        t('common.error'),
+        t('profile.deleteUrlMissing'),
+        [{ text: t('common.ok') }]
       );
       return;
     }
     
     Alert.alert(
-      'Delete Account via Website',
-      'You will be redirected to our website to complete the account deletion process.',
+      t('profile.deleteAccountWebsite'),
+      t('profile.deleteViaWebsiteMessage'),
       [
         {
-          text: 'Cancel',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Continue',
+          text: t('profile.continue'),
           onPress: () => {
             Linking.openURL(deleteAccountUrl).catch((error) => {
               console.error('Error opening URL:', error);
               Alert.alert(
-                'Error',
-                'Could not open the website. Please try again later.',
-                [{ text: 'OK' }]
+                t('common.error'),
+                t('profile.openWebsiteFailed'),
+                [{ text: t('common.ok') }]
               );
             });
           },
@@ -832,7 +846,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
       <SafeAreaView style={styles.container} edges={['top']}>
         <View style={styles.loadingContainer}>
           <ActivityIndicator size="large" color="#007AFF" />
-          <Text style={styles.loadingText}>Loading profile...</Text>
+          <Text style={styles.loadingText}>{t('profile.loading')}</Text>
         </View>
       </SafeAreaView>
     );
@@ -841,19 +855,19 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       <View style={styles.header}>
-        <Text style={styles.headerTitle}>Profile</Text>
+        <Text style={styles.headerTitle}>{t('tabs.profile')}</Text>
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Personal Information</Text>
+          <Text style={styles.sectionTitle}>{t('profile.personalInformation')}</Text>
           <TouchableOpacity 
             style={styles.menuItem}
             onPress={handleEditProfile}
             disabled={saving}
           >
             <Ionicons name="person-outline" size={20} color="#000000" />
-            <Text style={styles.menuItemText}>Edit Profile</Text>
+            <Text style={styles.menuItemText}>{t('profile.editProfile')}</Text>
             <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
           </TouchableOpacity>
           <TouchableOpacity 
@@ -862,7 +876,19 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             disabled={saving}
           >
             <Ionicons name="people-outline" size={20} color="#000000" />
-            <Text style={styles.menuItemText}>Connections</Text>
+            <Text style={styles.menuItemText}>{t('profile.connections')}</Text>
+            <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.menuItem}
+            onPress={handleCircles}
+            disabled={saving}
+          >
+            <Ionicons name="people-circle-outline" size={20} color="#000000" />
+            <View style={styles.menuItemContent}>
+              <Text style={styles.menuItemText}>{t('profile.circles')}</Text>
+              <Text style={styles.menuItemSubtext}>{t('profile.circlesSubtext')}</Text>
+            </View>
             <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
           </TouchableOpacity>
           <TouchableOpacity 
@@ -871,18 +897,18 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             disabled={saving}
           >
             <Ionicons name="document-text-outline" size={20} color="#000000" />
-            <Text style={styles.menuItemText}>Emergency Notes</Text>
+            <Text style={styles.menuItemText}>{t('profile.emergencyNotes')}</Text>
             <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
           </TouchableOpacity>
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Safety & Privacy</Text>
+          <Text style={styles.sectionTitle}>{t('profile.safetyPrivacy')}</Text>
           <View style={styles.menuItem}>
             <Ionicons name="location-outline" size={20} color="#000000" />
             <View style={styles.menuItemContent}>
-              <Text style={styles.menuItemText}>Share Location</Text>
-              <Text style={styles.menuItemSubtext}>Visible to connections</Text>
+              <Text style={styles.menuItemText}>{t('profile.shareLocation')}</Text>
+              <Text style={styles.menuItemSubtext}>{t('profile.shareLocationSubtext')}</Text>
             </View>
             {saving ? (
               <ActivityIndicator size="small" color="#007AFF" />
@@ -899,8 +925,8 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
           <View style={styles.menuItem}>
             <Ionicons name="alert-circle-outline" size={20} color="#000000" />
             <View style={styles.menuItemContent}>
-              <Text style={styles.menuItemText}>Community Reports</Text>
-              <Text style={styles.menuItemSubtext}>Show nearby incidents</Text>
+              <Text style={styles.menuItemText}>{t('profile.communityReports')}</Text>
+              <Text style={styles.menuItemSubtext}>{t('profile.communityReportsSubtext')}</Text>
             </View>
             {saving ? (
               <ActivityIndicator size="small" color="#007AFF" />
@@ -914,6 +940,18 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
               />
             )}
           </View>
+          <TouchableOpacity 
+            style={styles.menuItem}
+            onPress={handleAccountLock}
+            disabled={saving}
+          >
+            <Ionicons name="lock-closed-outline" size={20} color="#000000" />
+            <View style={styles.menuItemContent}>
+              <Text style={styles.menuItemText}>{t('profile.accountLock')}</Text>
+              <Text style={styles.menuItemSubtext}>{t('profile.accountLockSubtext')}</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
+          </TouchableOpacity>
           <TouchableOpacity 
             style={styles.menuItem}
             onPress={handleLocationAccuracy}
@@ -921,8 +959,8 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
           >
             <Ionicons name="eye-outline" size={20} color="#000000" />
             <View style={styles.menuItemContent}>
-              <Text style={styles.menuItemText}>Location Accuracy</Text>
-              <Text style={styles.menuItemSubtext}>Exact GPS or approximate</Text>
+              <Text style={styles.menuItemText}>{t('profile.locationAccuracy')}</Text>
+              <Text style={styles.menuItemSubtext}>{t('profile.locationAccuracySubtext')}</Text>
             </View>
             <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
           </TouchableOpacity>
@@ -933,20 +971,20 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
           >
             <Ionicons name="time-outline" size={20} color="#000000" />
             <View style={styles.menuItemContent}>
-              <Text style={styles.menuItemText}>Location Update Frequency</Text>
-              <Text style={styles.menuItemSubtext}>How often location updates</Text>
+              <Text style={styles.menuItemText}>{t('profile.locationUpdateFrequency')}</Text>
+              <Text style={styles.menuItemSubtext}>{t('profile.locationUpdateFrequencySubtext')}</Text>
             </View>
             <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
           </TouchableOpacity>
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Notifications</Text>
+          <Text style={styles.sectionTitle}>{t('profile.notifications')}</Text>
           <View style={styles.menuItem}>
             <Ionicons name="notifications-outline" size={20} color="#000000" />
             <View style={styles.menuItemContent}>
-              <Text style={styles.menuItemText}>Push Notifications</Text>
-              <Text style={styles.menuItemSubtext}>Receive safety alerts</Text>
+              <Text style={styles.menuItemText}>{t('profile.pushNotifications')}</Text>
+              <Text style={styles.menuItemSubtext}>{t('profile.pushNotificationsSubtext')}</Text>
             </View>
             {saving ? (
               <ActivityIndicator size="small" color="#007AFF" />
@@ -967,8 +1005,8 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
           >
             <Ionicons name="send-outline" size={20} color="#007AFF" />
             <View style={styles.menuItemContent}>
-              <Text style={[styles.menuItemText, { color: '#007AFF' }]}>Test Push Notification</Text>
-              <Text style={styles.menuItemSubtext}>Send a test notification to this device</Text>
+              <Text style={[styles.menuItemText, { color: '#007AFF' }]}>{t('profile.testPushNotification')}</Text>
+              <Text style={styles.menuItemSubtext}>{t('profile.testPushNotificationSubtext')}</Text>
             </View>
             <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
           </TouchableOpacity>
@@ -978,20 +1016,29 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             disabled={saving}
           >
             <Ionicons name="time-outline" size={20} color="#000000" />
-            <Text style={styles.menuItemText}>Sleep Mode</Text>
+            <Text style={styles.menuItemText}>{t('profile.sleepMode')}</Text>
+            <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
+          </TouchableOpacity>
+          <TouchableOpacity 
+            style={styles.menuItem}
+            onPress={handleNotificationFilters}
+            disabled={saving}
+          >
+            <Ionicons name="filter-outline" size={20} color="#000000" />
+            <Text style={styles.menuItemText}>{t('profile.notificationFilters')}</Text>
             <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
           </TouchableOpacity>
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>App Settings</Text>
+          <Text style={styles.sectionTitle}>{t('profile.appSettings')}</Text>
           <TouchableOpacity 
             style={styles.menuItem}
             onPress={handleLanguageRegion}
             disabled={saving}
           >
             <Ionicons name="language-outline" size={20} color="#000000" />
-            <Text style={styles.menuItemText}>Language & Region</Text>
+            <Text style={styles.menuItemText}>{t('profile.languageRegion')}</Text>
             <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
           </TouchableOpacity>
           <TouchableOpacity 
@@ -1000,7 +1047,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             disabled={saving}
           >
             <Ionicons name="speedometer-outline" size={20} color="#000000" />
-            <Text style={styles.menuItemText}>Units (km / miles)</Text>
+            <Text style={styles.menuItemText}>{t('profile.units')}</Text>
             <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
           </TouchableOpacity>
           <TouchableOpacity 
@@ -1009,7 +1056,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             disabled={saving}
           >
             <Ionicons name="battery-charging-outline" size={20} color="#000000" />
-            <Text style={styles.menuItemText}>Battery Saving Mode</Text>
+            <Text style={styles.menuItemText}>{t('profile.batterySaving')}</Text>
             <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
           </TouchableOpacity>
           <TouchableOpacity 
@@ -1018,7 +1065,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             disabled={saving}
           >
             <Ionicons name="map-outline" size={20} color="#000000" />
-            <Text style={styles.menuItemText}>Offline Maps</Text>
+            <Text style={styles.menuItemText}>{t('profile.offlineMaps')}</Text>
             <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
           </TouchableOpacity>
         </View>
@@ -1030,7 +1077,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             disabled={saving}
           >
             <Ionicons name="book-outline" size={20} color="#000000" />
-            <Text style={styles.menuItemText}>Users Manual</Text>
+            <Text style={styles.menuItemText}>{t('profile.usersManual')}</Text>
             <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
           </TouchableOpacity>
           <TouchableOpacity 
@@ -1039,7 +1086,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             disabled={saving}
           >
             <Ionicons name="help-circle-outline" size={20} color="#000000" />
-            <Text style={styles.menuItemText}>Help & Support</Text>
+            <Text style={styles.menuItemText}>{t('profile.helpSupport')}</Text>
             <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
           </TouchableOpacity>
           <TouchableOpacity 
@@ -1048,7 +1095,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             disabled={saving}
           >
             <Ionicons name="shield-checkmark-outline" size={20} color="#000000" />
-            <Text style={styles.menuItemText}>Privacy Policy</Text>
+            <Text style={styles.menuItemText}>{t('profile.privacyPolicy')}</Text>
             <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
           </TouchableOpacity>
           <TouchableOpacity 
@@ -1057,13 +1104,13 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             disabled={saving}
           >
             <Ionicons name="document-text-outline" size={20} color="#000000" />
-            <Text style={styles.menuItemText}>Terms of Service</Text>
+            <Text style={styles.menuItemText}>{t('profile.termsOfService')}</Text>
             <Ionicons name="chevron-forward" size={20} color="#8E8E93" />
           </TouchableOpacity>
         </View>
 
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Account Management</Text>
+          <Text style={styles.sectionTitle}>{t('profile.accountManagement')}</Text>
           <TouchableOpacity 
             style={[styles.deleteAccountButton, (saving || deletingAccount) && styles.deleteAccountButtonDisabled]} 
             onPress={handleDeleteAccount}
@@ -1074,7 +1121,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             ) : (
               <>
                 <Ionicons name="trash-outline" size={20} color="#FFFFFF" />
-                <Text style={styles.deleteAccountButtonText}>Delete Account</Text>
+                <Text style={styles.deleteAccountButtonText}>{t('profile.deleteAccount')}</Text>
               </>
             )}
           </TouchableOpacity>
@@ -1084,7 +1131,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             disabled={saving || deletingAccount}
           >
             <Ionicons name="globe-outline" size={20} color="#FF3B30" />
-            <Text style={styles.deleteAccountExternalButtonText}>Delete Account via Website</Text>
+            <Text style={styles.deleteAccountExternalButtonText}>{t('profile.deleteAccountWebsite')}</Text>
             <Ionicons name="open-outline" size={16} color="#FF3B30" />
           </TouchableOpacity>
         </View>
@@ -1097,7 +1144,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
           {(saving || loggingOut) ? (
             <ActivityIndicator size="small" color="#FFFFFF" />
           ) : (
-            <Text style={styles.logoutButtonText}>Sign Out</Text>
+            <Text style={styles.logoutButtonText}>{t('profile.signOut')}</Text>
           )}
         </TouchableOpacity>
       </ScrollView>
@@ -1123,7 +1170,7 @@ export default function ProfileScreen({ navigation }: ProfileScreenProps) {
             >
               <Ionicons name="arrow-back" size={24} color="#000000" />
             </TouchableOpacity>
-            <Text style={styles.modalTitle}>Users Manual</Text>
+            <Text style={styles.modalTitle}>{t('profile.usersManual')}</Text>
             <View style={styles.placeholder} />
           </View>
 
@@ -10,15 +10,20 @@ import {
   Platform,
   Alert,
   ActivityIndicator,
+  Image,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
+import * as ImagePicker from 'expo-image-picker';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import { useIncidents } from '../context/IncidentContext';
 import { useAuth } from '../context/AuthContext';
+import { useUserSettings } from '../context/UserSettingsContext';
 import { locationService } from '../services/locationService';
+import { INCIDENT_MEDIA_MAX_ITEMS, INCIDENT_MEDIA_MAX_VIDEO_SECONDS } from '../services/incidentMediaService';
 import { incidentCategories } from '../data/mockData';
-import type { RootStackParamList, Location } from '../types';
+import type { RootStackParamList, Location, IncidentMediaDraft, IncidentMediaUploadProgress } from '../types';
+import type { TranslationKey } from '../i18n';
 
 type ReportIncidentScreenNavigationProp = StackNavigationProp<RootStackParamList, 'ReportIncident'>;
 
@@ -26,9 +31,54 @@ interface ReportIncidentScreenProps {
   navigation: ReportIncidentScreenNavigationProp;
 }
 
+// Label and auto-filled title/description for each incident category
+const CATEGORY_KEYS: Record<string, { label: TranslationKey; autoTitle: TranslationKey; autoDescription: TranslationKey }> = {
+  Robbery: {
+    label: 'incidents.category.robbery',
+    autoTitle: 'reportIncident.autoTitle.robbery',
+    autoDescription: 'reportIncident.autoDescription.robbery',
+  },
+  Kidnapping: {
+    label: 'incidents.category.kidnapping',
+    autoTitle: 'reportIncident.autoTitle.kidnapping',
+    autoDescription: 'reportIncident.autoDescription.kidnapping',
+  },
+  Accident: {
+    label: 'incidents.category.accident',
+    autoTitle: 'reportIncident.autoTitle.accident',
+    autoDescription: 'reportIncident.autoDescription.accident',
+  },
+  Fire: {
+    label: 'incidents.category.fire',
+    autoTitle: 'reportIncident.autoTitle.fire',
+    autoDescription: 'reportIncident.autoDescription.fire',
+  },
+  Protest: {
+    label: 'incidents.category.protest',
+    autoTitle: 'reportIncident.autoTitle.protest',
+    autoDescription: 'reportIncident.autoDescription.protest',
+  },
+  Assault: {
+    label: 'incidents.category.assault',
+    autoTitle: 'reportIncident.autoTitle.assault',
+    autoDescription: 'reportIncident.autoDescription.assault',
+  },
+  Theft: {
+    label: 'incidents.category.theft',
+    autoTitle: 'reportIncident.autoTitle.theft',
+    autoDescription: 'reportIncident.autoDescription.theft',
+  },
+  Other: {
+    label: 'incidents.category.other',
+    autoTitle: 'reportIncident.autoTitle.other',
+    autoDescription: 'reportIncident.autoDescription.other',
+  },
+};
+
 export default function ReportIncidentScreen({ navigation }: ReportIncidentScreenProps) {
   const { addIncident } = useIncidents();
   const { user } = useAuth();
+  const { formatDistance, t } = useUserSettings();
   const [type, setType] = useState<string>('Robbery');
   const [title, setTitle] = useState<string>('');
   const [description, setDescription] = useState<string>('');
@@ -40,8 +90,14 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
   const [locationError, setLocationError] = useState<string | null>(null);
   const [lastAutoFilledType, setLastAutoFilledType] = useState<string>('');
   const [lastAutoFilledTitle, setLastAutoFilledTitle] = useState<string>('');
+  const [media, setMedia] = useState<IncidentMediaDraft[]>([]);
+  const [mediaProgress, setMediaProgress] = useState<Record<number, IncidentMediaUploadProgress>>({});
+  const [submitting, setSubmitting] = useState<boolean>(false);
   const [lastAutoFilledDescription, setLastAutoFilledDescription] = useState<string>('');
 
+  const getCategoryLabel = (category: string): string =>
+    CATEGORY_KEYS[category] ? t(CATEGORY_KEYS[category].label) : category;
+
   // Get current location when screen loads
   useEffect(() => {
     loadCurrentLocation();
@@ -59,34 +115,12 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
   const autoFillIncidentDetails = (): void => {
     if (!type || !currentLocation) return;
 
-    const fullAddress = currentLocation.address || 'this location';
-
-    // Generate title based on incident type (NO address in title)
-    const titles: Record<string, string> = {
-      'Robbery': `${type} Reported`,
-      'Kidnapping': 'Suspicious Activity Reported',
-      'Accident': 'Traffic Accident Reported',
-      'Fire': `${type} Reported`,
-      'Protest': 'Protest Gathering Reported',
-      'Assault': `${type} Incident Reported`,
-      'Theft': `${type} Reported`,
-      'Other': 'Incident Reported',
-    };
-
-    // Generate description based on incident type (WITH full address)
-    const descriptions: Record<string, string> = {
-      'Robbery': `A ${type.toLowerCase()} incident has been reported.\n\nLocation: ${fullAddress}\n\nPlease exercise caution and avoid the area if possible. Authorities have been notified.`,
-      'Kidnapping': `Suspicious activity related to ${type.toLowerCase()} has been reported.\n\nLocation: ${fullAddress}\n\nPlease remain vigilant and report any suspicious behavior to authorities immediately.`,
-      'Accident': `A traffic accident has been reported.\n\nLocation: ${fullAddress}\n\nEmergency services are responding. Please expect delays and use alternate routes if possible.`,
-      'Fire': `A ${type.toLowerCase()} has been reported.\n\nLocation: ${fullAddress}\n\nFire department is responding. Please avoid the area and follow instructions from emergency personnel.`,
-      'Protest': `A protest gathering has been reported.\n\nLocation: ${fullAddress}\n\nPlease expect traffic delays and exercise caution if in the area.`,
-      'Assault': `An ${type.toLowerCase()} incident has been reported.\n\nLocation: ${fullAddress}\n\nPlease avoid the area and report any relevant information to authorities.`,
-      'Theft': `A ${type.toLowerCase()} has been reported.\n\nLocation: ${fullAddress}\n\nPlease secure your belongings and report any suspicious activity.`,
-      'Other': `An incident has been reported.\n\nLocation: ${fullAddress}\n\nPlease exercise caution in the area.`,
-    };
-
-    const newTitle = titles[type] || 'Incident Reported';
-    const newDescription = descriptions[type] || `An incident has been reported.\n\nLocation: ${fullAddress}\n\nPlease exercise caution in the area.`;
+    const fullAddress = currentLocation.address || t('reportIncident.thisLocation');
+    const keys = CATEGORY_KEYS[type] || CATEGORY_KEYS.Other;
+
+    // Title has no address; the description includes the full address
+    const newTitle = t(keys.autoTitle);
+    const newDescription = t(keys.autoDescription, { address: fullAddress });
 
     // Check if type has changed
     const typeChanged = lastAutoFilledType !== type && lastAutoFilledType !== '';
@@ -130,7 +164,7 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
       if (!hasPermission) {
         const permissionResult = await locationService.requestPermissions();
         if (!permissionResult.granted) {
-          setLocationError(permissionResult.message || 'Location permission denied. Please enable location access in settings.');
+          setLocationError(permissionResult.message || t('reportIncident.locationPermissionDenied'));
           setLocationLoading(false);
           return;
         }
@@ -144,45 +178,121 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
         // Update IncidentContext with the new location
         // This ensures the location is available for other parts of the app
       } else {
-        setLocationError('Unable to get your location. Please try again.');
+        setLocationError(t('reportIncident.locationUnavailable'));
       }
     } catch (error: any) {
       console.error('Error loading location:', error);
-      setLocationError(error.message || 'Failed to get location. Please try again.');
+      setLocationError(error.message || t('reportIncident.locationFailed'));
     } finally {
       setLocationLoading(false);
     }
   };
 
+  const pickMedia = async (source: 'camera' | 'library'): Promise<void> => {
+    const remaining = INCIDENT_MEDIA_MAX_ITEMS - media.length;
+    if (remaining <= 0) {
+      Alert.alert(t('reportIncident.limitReached'), t('reportIncident.limitReachedMessage', { count: INCIDENT_MEDIA_MAX_ITEMS }));
+      return;
+    }
+
+    try {
+      const permission = source === 'camera'
+        ? await ImagePicker.requestCameraPermissionsAsync()
+        : await ImagePicker.requestMediaLibraryPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert(
+          t('reportIncident.permissionTitle'),
+          source === 'camera'
+            ? t('reportIncident.cameraPermission')
+            : t('reportIncident.libraryPermission')
+        );
+        return;
+      }
+
+      const options: ImagePicker.ImagePickerOptions = {
+        mediaTypes: ['images', 'videos'],
+        videoMaxDuration: INCIDENT_MEDIA_MAX_VIDEO_SECONDS,
+        quality: 1,
+        exif: false,
+      };
+      const result = source === 'camera'
+        ? await ImagePicker.launchCameraAsync(options)
+        : await ImagePicker.launchImageLibraryAsync({
+            ...options,
+            allowsMultipleSelection: true,
+            selectionLimit: remaining,
+          });
+
+      if (result.canceled || !result.assets) {
+        return;
+      }
+
+      const picked: IncidentMediaDraft[] = [];
+      let tooLong = 0;
+      for (const asset of result.assets) {
+        const isVideo = asset.type === 'video';
+        // Picker durations are in milliseconds
+        const durationSeconds = isVideo && asset.duration ? asset.duration / 1000 : null;
+        if (isVideo && durationSeconds !== null && durationSeconds > INCIDENT_MEDIA_MAX_VIDEO_SECONDS + 1) {
+          tooLong++;
+          continue;
+        }
+        picked.push({
+          uri: asset.uri,
+          type: isVideo ? 'video' : 'photo',
+          width: asset.width,
+          height: asset.height,
+          durationSeconds,
+        });
+      }
+
+      if (tooLong > 0) {
+        Alert.alert(t('reportIncident.videoTooLong'), t('reportIncident.videoTooLongMessage', { seconds: INCIDENT_MEDIA_MAX_VIDEO_SECONDS }));
+      }
+      setMedia((current) => [...current, ...picked].slice(0, INCIDENT_MEDIA_MAX_ITEMS));
+    } catch (error: any) {
+      console.error('Error picking incident media:', error);
+      Alert.alert(t('common.error'), error.message || t('reportIncident.attachFailed'));
+    }
+  };
+
+  const removeMedia = (index: number): void => {
+    setMedia((current) => current.filter((_, i) => i !== index));
+  };
+
   const handleSubmit = async (): Promise<void> => {
+    if (submitting) return;
+
     if (!title.trim() || !description.trim()) {
-      Alert.alert('Error', 'Please fill in all required fields');
+      Alert.alert(t('common.error'), t('reportIncident.requiredFields'));
       return;
     }
 
     if (!currentLocation) {
-      Alert.alert('Error', 'Location is required. Please wait for location to load or try refreshing.');
+      Alert.alert(t('common.error'), t('reportIncident.locationRequired'));
       return;
     }
 
     // Validate location coordinates
     if (typeof currentLocation.latitude !== 'number' || typeof currentLocation.longitude !== 'number') {
-      Alert.alert('Error', 'Invalid location coordinates. Please refresh your location.');
+      Alert.alert(t('common.error'), t('reportIncident.invalidCoordinates'));
       return;
     }
 
     // Validate latitude range (-90 to 90)
     if (currentLocation.latitude < -90 || currentLocation.latitude > 90) {
-      Alert.alert('Error', 'Invalid latitude. Please refresh your location.');
+      Alert.alert(t('common.error'), t('reportIncident.invalidLatitude'));
       return;
     }
 
     // Validate longitude range (-180 to 180)
     if (currentLocation.longitude < -180 || currentLocation.longitude > 180) {
-      Alert.alert('Error', 'Invalid longitude. Please refresh your location.');
+      Alert.alert(t('common.error'), t('reportIncident.invalidLongitude'));
       return;
     }
 
+    setSubmitting(true);
+    setMediaProgress({});
     try {
       const incident = {
         type,
@@ -207,13 +317,51 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
         address: incident.location.address,
       });
 
-      await addIncident(incident);
-      Alert.alert('Success', 'Incident reported successfully', [
-        { text: 'OK', onPress: () => navigation.goBack() },
+      const { mediaQueued, mediaFailed } = await addIncident(incident, media, (progress) =>
+        setMediaProgress((current) => ({ ...current, [progress.index]: progress }))
+      );
+
+      let message = t('reportIncident.submitted');
+      if (mediaQueued > 0) {
+        message += ` ${t('reportIncident.mediaQueued', { count: mediaQueued })}`;
+      }
+      if (mediaFailed > 0) {
+        message += ` ${t('reportIncident.mediaFailed', { count: mediaFailed })}`;
+      }
+      Alert.alert(t('common.success'), message, [
+        { text: t('common.ok'), onPress: () => navigation.goBack() },
       ]);
     } catch (error: any) {
       console.error('Error submitting incident:', error);
-      Alert.alert('Error', error.message || 'Failed to report incident. Please try again.');
+      Alert.alert(t('common.error'), error.message || t('reportIncident.submitFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const getMediaStatusText = (index: number): string | null => {
+    const progress = mediaProgress[index];
+    if (!progress) return null;
+    switch (progress.status) {
+      case 'preparing':
+        return t('reportIncident.mediaStatus.preparing');
+      case 'uploading':
+        return progress.bytesTotal > 0 ? `${Math.round((progress.bytesSent / progress.bytesTotal) * 100)}%` : '0%';
+      case 'done':
+        return t('reportIncident.mediaStatus.done');
+      case 'queued':
+        return t('reportIncident.mediaStatus.queued');
+      case 'failed':
+        switch (progress.failureReason) {
+          case 'unsupported_format':
+            return t('reportIncident.mediaStatus.unsupportedFormat');
+          case 'too_long':
+            return t('reportIncident.mediaStatus.tooLong');
+          case 'limit_reached':
+            return t('reportIncident.mediaStatus.limitReached');
+          default:
+            return t('reportIncident.mediaStatus.failed');
+        }
     }
   };
 
@@ -235,8 +383,8 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
             </View>
           </TouchableOpacity>
           <View style={styles.headerTitleContainer}>
-            <Text style={styles.headerTitle}>Report Incident</Text>
-            <Text style={styles.headerSubtitle}>Help keep your community safe</Text>
+            <Text style={styles.headerTitle}>{t('reportIncident.title')}</Text>
+            <Text style={styles.headerSubtitle}>{t('reportIncident.subtitle')}</Text>
           </View>
           <View style={styles.placeholder} />
         </View>
@@ -251,7 +399,7 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
           <View style={styles.card}>
             <View style={styles.cardHeader}>
               <Ionicons name="alert-circle" size={20} color="#007AFF" />
-              <Text style={styles.cardTitle}>Type of Incident</Text>
+              <Text style={styles.cardTitle}>{t('reportIncident.type')}</Text>
               <Text style={styles.required}>*</Text>
             </View>
             <TouchableOpacity
@@ -260,7 +408,7 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
               activeOpacity={0.7}
             >
               <View style={styles.pickerContent}>
-                <Text style={styles.pickerText}>{type}</Text>
+                <Text style={styles.pickerText}>{getCategoryLabel(type)}</Text>
                 <Ionicons 
                   name={showTypePicker ? "chevron-up" : "chevron-down"} 
                   size={20} 
@@ -291,7 +439,7 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
                         type === category && styles.pickerOptionTextActive,
                       ]}
                     >
-                      {category}
+                      {getCategoryLabel(category)}
                     </Text>
                     {type === category && (
                       <Ionicons name="checkmark-circle" size={22} color="#007AFF" />
@@ -306,12 +454,12 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
           <View style={styles.card}>
             <View style={styles.cardHeader}>
               <Ionicons name="text" size={20} color="#007AFF" />
-              <Text style={styles.cardTitle}>Title</Text>
+              <Text style={styles.cardTitle}>{t('reportIncident.titleLabel')}</Text>
               <Text style={styles.required}>*</Text>
             </View>
             <TextInput
               style={styles.input}
-              placeholder="Brief title for the incident"
+              placeholder={t('reportIncident.titlePlaceholder')}
               placeholderTextColor="#9CA3AF"
               value={title}
               onChangeText={setTitle}
@@ -324,12 +472,12 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
           <View style={styles.card}>
             <View style={styles.cardHeader}>
               <Ionicons name="document-text" size={20} color="#007AFF" />
-              <Text style={styles.cardTitle}>Description</Text>
+              <Text style={styles.cardTitle}>{t('reportIncident.descriptionLabel')}</Text>
               <Text style={styles.required}>*</Text>
             </View>
             <TextInput
               style={[styles.input, styles.textArea]}
-              placeholder="Describe what happened, when it occurred, and any relevant details..."
+              placeholder={t('reportIncident.descriptionPlaceholder')}
               placeholderTextColor="#9CA3AF"
               value={description}
               onChangeText={setDescription}
@@ -339,12 +487,84 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
             />
           </View>
 
+          {/* Photos & Videos Card */}
+          <View style={styles.card}>
+            <View style={styles.cardHeader}>
+              <Ionicons name="camera" size={20} color="#007AFF" />
+              <Text style={styles.cardTitle}>{t('reportIncident.media')}</Text>
+              <Text style={styles.mediaCount}>{media.length}/{INCIDENT_MEDIA_MAX_ITEMS}</Text>
+            </View>
+            {media.length > 0 && (
+              <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.mediaPreviews}>
+                {media.map((item, index) => {
+                  const statusText = getMediaStatusText(index);
+                  return (
+                    <View key={`${item.uri}-${index}`} style={styles.mediaPreview}>
+                      {item.type === 'photo' ? (
+                        <Image source={{ uri: item.uri }} style={styles.mediaPreviewImage} />
+                      ) : (
+                        // Video files can't be drawn by Image; the thumbnail is made during upload
+                        <View style={styles.mediaVideoPreview}>
+                          <Ionicons name="videocam" size={24} color="#FFFFFF" />
+                          {item.durationSeconds !== null && (
+                            <Text style={styles.mediaVideoDuration}>{Math.round(item.durationSeconds)}s</Text>
+                          )}
+                        </View>
+                      )}
+                      {statusText ? (
+                        <View style={styles.mediaStatus}>
+                          <Text style={styles.mediaStatusText}>{statusText}</Text>
+                        </View>
+                      ) : (
+                        !submitting && (
+                          <TouchableOpacity
+                            style={styles.mediaRemoveButton}
+                            onPress={() => removeMedia(index)}
+                            activeOpacity={0.7}
+                          >
+                            <Ionicons name="close" size={14} color="#FFFFFF" />
+                          </TouchableOpacity>
+                        )
+                      )}
+                    </View>
+                  );
+                })}
+              </ScrollView>
+            )}
+            <View style={styles.mediaActions}>
+              <TouchableOpacity
+                style={styles.mediaActionButton}
+                onPress={() => pickMedia('camera')}
+                disabled={submitting || media.length >= INCIDENT_MEDIA_MAX_ITEMS}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="camera-outline" size={18} color="#007AFF" />
+                <Text style={styles.mediaActionText}>{t('reportIncident.camera')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={styles.mediaActionButton}
+                onPress={() => pickMedia('library')}
+                disabled={submitting || media.length >= INCIDENT_MEDIA_MAX_ITEMS}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="images-outline" size={18} color="#007AFF" />
+                <Text style={styles.mediaActionText}>{t('reportIncident.library')}</Text>
+              </TouchableOpacity>
+            </View>
+            <View style={styles.locationHint}>
+              <Ionicons name="shield-checkmark" size={14} color="#6B7280" />
+              <Text style={styles.locationHintText}>
+                {t('reportIncident.mediaHint', { seconds: INCIDENT_MEDIA_MAX_VIDEO_SECONDS })}
+              </Text>
+            </View>
+          </View>
+
           {/* Location Card */}
           <View style={styles.card}>
             <View style={styles.locationHeader}>
               <View style={styles.cardHeader}>
                 <Ionicons name="location" size={20} color="#007AFF" />
-                <Text style={styles.cardTitle}>Location</Text>
+                <Text style={styles.cardTitle}>{t('reportIncident.location')}</Text>
                 <Text style={styles.required}>*</Text>
               </View>
               <TouchableOpacity
@@ -366,7 +586,7 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
             {locationLoading ? (
               <View style={styles.locationContainer}>
                 <ActivityIndicator size="small" color="#007AFF" />
-                <Text style={styles.locationText}>Getting your location...</Text>
+                <Text style={styles.locationText}>{t('reportIncident.gettingLocation')}</Text>
               </View>
             ) : locationError ? (
               <View style={[styles.locationContainer, styles.locationError]}>
@@ -380,7 +600,7 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
                     style={styles.retryButton}
                     activeOpacity={0.7}
                   >
-                    <Text style={styles.retryButtonText}>Retry</Text>
+                    <Text style={styles.retryButtonText}>{t('reportIncident.retry')}</Text>
                   </TouchableOpacity>
                 </View>
               </View>
@@ -407,14 +627,14 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
             ) : (
               <View style={styles.locationContainer}>
                 <Ionicons name="location-outline" size={20} color="#9CA3AF" />
-                <Text style={styles.locationText}>No location available</Text>
+                <Text style={styles.locationText}>{t('reportIncident.noLocation')}</Text>
               </View>
             )}
             
             <View style={styles.locationHint}>
               <Ionicons name="information-circle" size={14} color="#6B7280" />
               <Text style={styles.locationHintText}>
-                Only users nearby (within 5 km) will see this report
+                {t('reportIncident.visibilityHint', { distance: formatDistance(5, 0) })}
               </Text>
             </View>
           </View>
@@ -423,7 +643,7 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
           <View style={styles.card}>
             <View style={styles.cardHeader}>
               <Ionicons name="time" size={20} color="#007AFF" />
-              <Text style={styles.cardTitle}>When did this happen?</Text>
+              <Text style={styles.cardTitle}>{t('reportIncident.when')}</Text>
             </View>
             <View style={styles.timeOptions}>
               <TouchableOpacity
@@ -450,7 +670,7 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
                     isHappeningNow && styles.timeOptionTextActive,
                   ]}
                 >
-                  Happening Now
+                  {t('reportIncident.happeningNow')}
                 </Text>
               </TouchableOpacity>
               <TouchableOpacity
@@ -477,7 +697,7 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
                     !isHappeningNow && styles.timeOptionTextActive,
                   ]}
                 >
-                  Happened Earlier
+                  {t('reportIncident.happenedEarlier')}
                 </Text>
               </TouchableOpacity>
             </View>
@@ -489,10 +709,10 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
               <View style={styles.toggleInfo}>
                 <View style={styles.toggleHeader}>
                   <Ionicons name="eye-off" size={18} color="#007AFF" />
-                  <Text style={styles.toggleLabel}>Anonymous Reporting</Text>
+                  <Text style={styles.toggleLabel}>{t('reportIncident.anonymous')}</Text>
                 </View>
                 <Text style={styles.toggleSubtext}>
-                  Hide your name from public view (still stored internally for safety)
+                  {t('reportIncident.anonymousHint')}
                 </Text>
               </View>
               <TouchableOpacity
@@ -511,7 +731,7 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
               <Ionicons name="information-circle" size={22} color="#007AFF" />
             </View>
             <Text style={styles.infoText}>
-              Your report helps keep the community safe. False reports may result in account suspension.
+              {t('reportIncident.info')}
             </Text>
           </View>
         </ScrollView>
@@ -519,12 +739,21 @@ export default function ReportIncidentScreen({ navigation }: ReportIncidentScree
         {/* Footer with Submit Button */}
         <View style={styles.footer}>
           <TouchableOpacity 
-            style={styles.submitButton} 
+            style={[styles.submitButton, submitting && styles.submitButtonDisabled]} 
             onPress={handleSubmit}
+            disabled={submitting}
             activeOpacity={0.8}
           >
-            <Ionicons name="send" size={20} color="#FFFFFF" style={styles.submitIcon} />
-            <Text style={styles.submitButtonText}>Submit Report</Text>
+            {submitting ? (
+              <ActivityIndicator size="small" color="#FFFFFF" />
+            ) : (
+              <Ionicons name="send" size={20} color="#FFFFFF" style={styles.submitIcon} />
+            )}
+            <Text style={styles.submitButtonText}>
+              {submitting
+                ? t(media.length > 0 ? 'reportIncident.uploading' : 'reportIncident.submitting')
+                : t('reportIncident.submit')}
+            </Text>
           </TouchableOpacity>
         </View>
       </KeyboardAvoidingView>
@@ -710,6 +939,84 @@ const styles = StyleSheet.create({
     marginTop: 8,
     textAlign: 'right',
   },
+  mediaCount: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#6B7280',
+  },
+  mediaPreviews: {
+    gap: 10,
+    paddingBottom: 12,
+  },
+  mediaPreview: {
+    width: 84,
+    height: 84,
+    borderRadius: 12,
+    overflow: 'hidden',
+    backgroundColor: '#E5E7EB',
+  },
+  mediaPreviewImage: {
+    width: '100%',
+    height: '100%',
+  },
+  mediaVideoPreview: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 2,
+    backgroundColor: '#374151',
+  },
+  mediaVideoDuration: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  mediaRemoveButton: {
+    position: 'absolute',
+    top: 6,
+    right: 6,
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  mediaStatus: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    paddingVertical: 3,
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+  },
+  mediaStatusText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  mediaActions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  mediaActionButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 6,
+    paddingVertical: 12,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#BFDBFE',
+    backgroundColor: '#EFF6FF',
+  },
+  mediaActionText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
   locationHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -973,6 +1280,9 @@ const styles = StyleSheet.create({
   submitIcon: {
     marginRight: -4,
   },
+  submitButtonDisabled: {
+    opacity: 0.7,
+  },
   submitButtonText: {
     color: '#FFFFFF',
     fontSize: 17,
@@ -0,0 +1,713 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  Keyboard,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import MapView, { Marker, Polyline, PROVIDER_GOOGLE } from 'react-native-maps';
+import { Ionicons } from '@expo/vector-icons';
+import type { RouteProp } from '@react-navigation/native';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import type {
+  RootStackParamList,
+  SOSEvent,
+  SOSEventAcknowledgement,
+  SOSEventLocation,
+  SOSEventStatus,
+  SOSEventUpdate,
+} from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useUserSettings } from '../context/UserSettingsContext';
+import { sosEventService } from '../services/sosEventService';
+import type { TranslationKey } from '../i18n';
+
+type SOSEventScreenRouteProp = RouteProp<RootStackParamList, 'SOSEvent'>;
+type SOSEventScreenNavigationProp = StackNavigationProp<RootStackParamList, 'SOSEvent'>;
+
+interface SOSEventScreenProps {
+  route: SOSEventScreenRouteProp;
+  navigation: SOSEventScreenNavigationProp;
+}
+
+const STATUS_LABEL_KEYS: Record<SOSEventStatus, TranslationKey> = {
+  active: 'sosEvent.status.active',
+  responder_en_route: 'sosEvent.status.responderEnRoute',
+  resolved: 'sosEvent.status.resolved',
+  false_alarm: 'sosEvent.status.falseAlarm',
+};
+
+const STATUS_COLORS: Record<SOSEventStatus, string> = {
+  active: '#FF3B30',
+  responder_en_route: '#FF9500',
+  resolved: '#34C759',
+  false_alarm: '#8E8E93',
+};
+
+const TRAIL_PREVIEW_COUNT = 10;
+
+export default function SOSEventScreen({ route, navigation }: SOSEventScreenProps) {
+  const { userId, eventId } = route.params;
+  const { user } = useAuth();
+  const { formatTimeAgo, t } = useUserSettings();
+  const [event, setEvent] = useState<SOSEvent | null>(null);
+  const [trail, setTrail] = useState<SOSEventLocation[]>([]);
+  const [acknowledgements, setAcknowledgements] = useState<SOSEventAcknowledgement[]>([]);
+  const [updates, setUpdates] = useState<SOSEventUpdate[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [note, setNote] = useState<string>('');
+  const [showFullTrail, setShowFullTrail] = useState<boolean>(false);
+
+  const loadEvent = useCallback(async (): Promise<void> => {
+    try {
+      // Notifications without an event id (e.g. silent SOS) open the latest event
+      const loaded = eventId
+        ? await sosEventService.getEvent(eventId)
+        : await sosEventService.getLatestEvent(userId);
+      setEvent(loaded);
+
+      if (loaded) {
+        const [loadedTrail, loadedAcknowledgements, loadedUpdates] = await Promise.all([
+          sosEventService.getTrail(loaded.id),
+          sosEventService.getAcknowledgements(loaded.id),
+          sosEventService.getUpdates(loaded.id),
+        ]);
+        setTrail(loadedTrail);
+        setAcknowledgements(loadedAcknowledgements);
+        setUpdates(loadedUpdates);
+      }
+    } catch (error) {
+      console.error('Error loading SOS event:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [userId, eventId]);
+
+  useEffect(() => {
+    loadEvent();
+  }, [loadEvent]);
+
+  // Follow the event live
+  useEffect(() => {
+    if (!event?.id) return;
+    return sosEventService.subscribeToEvent(event.id, loadEvent);
+  }, [event?.id, loadEvent]);
+
+  const isOpen = !!event && (event.status === 'active' || event.status === 'responder_en_route');
+  const isOwnEvent = !!event && event.userId === user?.id;
+  const myResponse = acknowledgements.find((acknowledgement) => acknowledgement.responderId === user?.id)?.response;
+  const respondingCount = acknowledgements.filter((acknowledgement) => acknowledgement.response === 'responding').length;
+  // A silent SOS can only be closed by a connection (the phone may be watched)
+  const canClose = isOpen && !(isOwnEvent && event?.silent);
+
+  const handleRespond = async (response: 'responding' | 'cant_help'): Promise<void> => {
+    if (!event || submitting) return;
+
+    setSubmitting(true);
+    const result = await sosEventService.respond(event.userId, response, event.id);
+    setSubmitting(false);
+
+    if (!result.success) {
+      Alert.alert(t('common.error'), result.message || t('sosEvent.respondFailed'));
+      return;
+    }
+    await loadEvent();
+  };
+
+  const handleAddNote = async (): Promise<void> => {
+    if (!event || submitting || !note.trim()) return;
+
+    Keyboard.dismiss();
+    setSubmitting(true);
+    const result = await sosEventService.addNote(event.id, note);
+    setSubmitting(false);
+
+    if (!result.success) {
+      Alert.alert(t('common.error'), result.message || t('sosEvent.noteFailed'));
+      return;
+    }
+    setNote('');
+    await loadEvent();
+  };
+
+  const handleClose = (status: 'resolved' | 'false_alarm'): void => {
+    if (!event) return;
+
+    Alert.alert(
+      status === 'resolved' ? t('sosEvent.resolveTitle') : t('sosEvent.falseAlarmTitle'),
+      status === 'resolved'
+        ? t('sosEvent.resolveMessage', { name: event.userName })
+        : t('sosEvent.falseAlarmMessage', { name: event.userName }),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: status === 'resolved' ? t('sosEvent.resolve') : t('sosEvent.falseAlarm'),
+          style: 'destructive',
+          onPress: async () => {
+            setSubmitting(true);
+            const result = await sosEventService.setStatus(event.id, status, note);
+            setSubmitting(false);
+
+            if (!result.success) {
+              Alert.alert(t('common.error'), result.message || t('sosEvent.closeFailed'));
+              return;
+            }
+            setNote('');
+            await loadEvent();
+          },
+        },
+      ]
+    );
+  };
+
+  const getUpdateText = (update: SOSEventUpdate): string => {
+    const isMe = update.actorId === user?.id;
+    const actor = isMe ? t('sosEvent.you') : update.actorName || t('sosEvent.someone');
+
+    switch (update.kind) {
+      case 'opened':
+        return t('sosEvent.update.opened', { actor });
+      case 'acknowledged':
+        return isMe ? t('sosEvent.update.acknowledgedYou') : t('sosEvent.update.acknowledged', { actor });
+      case 'called':
+        return t('sosEvent.update.called', { actor, name: event?.userName || t('sosEvent.them') });
+      case 'cant_help':
+        return t('sosEvent.update.cantHelp', { actor });
+      case 'status_changed':
+        return t('sosEvent.update.statusChanged', {
+          actor,
+          status: update.status ? t(STATUS_LABEL_KEYS[update.status]).toLowerCase() : t('sosEvent.statusUnknown'),
+        });
+      case 'note':
+      default:
+        return t('sosEvent.update.note', { actor });
+    }
+  };
+
+  const getUpdateIcon = (update: SOSEventUpdate): keyof typeof Ionicons.glyphMap => {
+    switch (update.kind) {
+      case 'opened':
+        return 'warning';
+      case 'acknowledged':
+        return 'walk';
+      case 'called':
+        return 'call-outline';
+      case 'cant_help':
+        return 'close-circle-outline';
+      case 'status_changed':
+        return update.status === 'resolved' ? 'checkmark-circle' : 'swap-horizontal';
+      case 'note':
+      default:
+        return 'chatbubble-ellipses-outline';
+    }
+  };
+
+  const mapLocation = event?.lastLocation || event?.location;
+  const trailCoordinates = trail.map((point) => ({
+    latitude: point.location.latitude,
+    longitude: point.location.longitude,
+  }));
+  const visibleTrail = showFullTrail ? [...trail].reverse() : [...trail].reverse().slice(0, TRAIL_PREVIEW_COUNT);
+
+  const renderEvent = (current: SOSEvent) => (
+    <>
+      <View style={[styles.card, isOpen && styles.cardActive]}>
+        <View style={styles.cardHeader}>
+          <Ionicons name={current.silent ? 'eye-off' : 'warning'} size={22} color={STATUS_COLORS[current.status]} />
+          <Text style={styles.cardTitle} numberOfLines={1}>
+            {isOwnEvent ? t('sosEvent.yourSos') : current.userName}
+          </Text>
+          <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[current.status] }]}>
+            <Text style={styles.statusBadgeText}>{t(STATUS_LABEL_KEYS[current.status])}</Text>
+          </View>
+        </View>
+        {current.silent && isOpen && !isOwnEvent && (
+          <Text style={styles.warningText}>
+            {t('sosEvent.silentWarning', { name: current.userName })}
+          </Text>
+        )}
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>{t('sosEvent.started')}</Text>
+          <Text style={styles.infoValue}>{formatTimeAgo(current.createdAt)}</Text>
+        </View>
+        {current.lastReportedAt && (
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>{t('sosEvent.lastLocation')}</Text>
+            <Text style={styles.infoValue}>{formatTimeAgo(current.lastReportedAt)}</Text>
+          </View>
+        )}
+        {mapLocation?.address && (
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>{t('sosEvent.near')}</Text>
+            <Text style={styles.infoValue} numberOfLines={2}>
+              {mapLocation.address}
+            </Text>
+          </View>
+        )}
+        {current.closedAt && (
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>{t('sosEvent.closed')}</Text>
+            <Text style={styles.infoValue}>{formatTimeAgo(current.closedAt)}</Text>
+          </View>
+        )}
+      </View>
+
+      {mapLocation && (
+        <View style={styles.mapContainer}>
+          <MapView
+            provider={PROVIDER_GOOGLE}
+            style={styles.map}
+            region={{
+              latitude: mapLocation.latitude,
+              longitude: mapLocation.longitude,
+              latitudeDelta: 0.01,
+              longitudeDelta: 0.01,
+            }}
+          >
+            {trailCoordinates.length > 1 && (
+              <Polyline coordinates={trailCoordinates} strokeColor="#FF3B30" strokeWidth={4} />
+            )}
+            <Marker coordinate={mapLocation} title={current.userName}>
+              <View style={styles.personMarker}>
+                <Ionicons name="person" size={16} color="#FFFFFF" />
+              </View>
+            </Marker>
+          </MapView>
+        </View>
+      )}
+
+      {isOpen && (
+        <View style={styles.section}>
+          {!isOwnEvent && myResponse !== 'responding' && (
+            <TouchableOpacity
+              style={[styles.primaryButton, submitting && styles.buttonDisabled]}
+              onPress={() => handleRespond('responding')}
+              disabled={submitting}
+              activeOpacity={0.7}
+            >
+              <Ionicons name="walk" size={20} color="#FFFFFF" />
+              <Text style={styles.primaryButtonText}>{t('sosEvent.imResponding')}</Text>
+            </TouchableOpacity>
+          )}
+          {!isOwnEvent && !myResponse && (
+            <TouchableOpacity
+              style={[styles.falseAlarmButton, submitting && styles.buttonDisabled]}
+              onPress={() => handleRespond('cant_help')}
+              disabled={submitting}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.falseAlarmButtonText}>{t('sosEvent.cantHelp')}</Text>
+            </TouchableOpacity>
+          )}
+          {mapLocation && (
+            <TouchableOpacity
+              style={styles.outlineButton}
+              onPress={() =>
+                navigation.navigate('MapView', {
+                  location: mapLocation,
+                  title: current.userName,
+                  showUserLocation: true,
+                  userId: current.userId,
+                })
+              }
+              activeOpacity={0.7}
+            >
+              <Ionicons name="map" size={18} color="#007AFF" />
+              <Text style={styles.outlineButtonText}>{t('sosEvent.openLiveMap')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('sosEvent.responders', { count: respondingCount })}</Text>
+        {acknowledgements.length === 0 ? (
+          <Text style={styles.emptyText}>{t('sosEvent.noResponders')}</Text>
+        ) : (
+          acknowledgements.map((acknowledgement) => (
+            <View key={acknowledgement.id} style={styles.listRow}>
+              <Ionicons
+                name={acknowledgement.response === 'responding' ? 'walk' : 'close-circle-outline'}
+                size={18}
+                color={acknowledgement.response === 'responding' ? '#FF9500' : '#8E8E93'}
+              />
+              <Text style={styles.listText}>
+                {t(acknowledgement.response === 'responding' ? 'sosEvent.responderResponding' : 'sosEvent.responderCantHelp', {
+                  name: acknowledgement.responderId === user?.id ? t('sosEvent.you') : acknowledgement.responderName,
+                })}
+              </Text>
+              <Text style={styles.listTime}>{formatTimeAgo(acknowledgement.updatedAt)}</Text>
+            </View>
+          ))
+        )}
+      </View>
+
+      {isOpen && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>{t('sosEvent.addNoteTitle')}</Text>
+          <TextInput
+            style={styles.input}
+            placeholder={t('sosEvent.notePlaceholder')}
+            value={note}
+            onChangeText={setNote}
+            placeholderTextColor="#9CA3AF"
+            multiline
+            maxLength={1000}
+          />
+          <TouchableOpacity
+            style={[styles.outlineButton, (!note.trim() || submitting) && styles.buttonDisabled]}
+            onPress={handleAddNote}
+            disabled={!note.trim() || submitting}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.outlineButtonText}>{t('sosEvent.addNote')}</Text>
+          </TouchableOpacity>
+          {canClose && (
+            <View style={styles.buttonRow}>
+              <TouchableOpacity
+                style={[styles.resolveButton, submitting && styles.buttonDisabled]}
+                onPress={() => handleClose('resolved')}
+                disabled={submitting}
+                activeOpacity={0.7}
+              >
+                <Ionicons name="checkmark-circle" size={18} color="#FFFFFF" />
+                <Text style={styles.primaryButtonText}>{t('sosEvent.resolve')}</Text>
+              </TouchableOpacity>
+              <TouchableOpacity
+                style={[styles.falseAlarmButton, submitting && styles.buttonDisabled]}
+                onPress={() => handleClose('false_alarm')}
+                disabled={submitting}
+                activeOpacity={0.7}
+              >
+                <Text style={styles.falseAlarmButtonText}>{t('sosEvent.falseAlarm')}</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+          {canClose && <Text style={styles.hintText}>{t('sosEvent.closeHint')}</Text>}
+        </View>
+      )}
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('sosEvent.timeline')}</Text>
+        {updates.map((update) => (
+          <View key={update.id} style={styles.timelineRow}>
+            <Ionicons name={getUpdateIcon(update)} size={18} color="#8E8E93" />
+            <View style={styles.timelineContent}>
+              <Text style={styles.listText}>{getUpdateText(update)}</Text>
+              {update.note && <Text style={styles.noteText}>{update.note}</Text>}
+            </View>
+            <Text style={styles.listTime}>{formatTimeAgo(update.createdAt)}</Text>
+          </View>
+        ))}
+      </View>
+
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{t('sosEvent.locationTrail', { count: trail.length })}</Text>
+        {trail.length === 0 ? (
+          <Text style={styles.emptyText}>{t('sosEvent.noLocations')}</Text>
+        ) : (
+          <>
+            {visibleTrail.map((point) => (
+              <View key={point.id} style={styles.listRow}>
+                <Ionicons name="location-outline" size={18} color="#8E8E93" />
+                <Text style={styles.listText} numberOfLines={1}>
+                  {point.location.address ||
+                    `${point.location.latitude.toFixed(5)}, ${point.location.longitude.toFixed(5)}`}
+                </Text>
+                <Text style={styles.listTime}>{formatTimeAgo(point.recordedAt)}</Text>
+              </View>
+            ))}
+            {trail.length > TRAIL_PREVIEW_COUNT && (
+              <TouchableOpacity onPress={() => setShowFullTrail((prev) => !prev)} activeOpacity={0.7}>
+                <Text style={styles.linkText}>{showFullTrail ? t('sosEvent.showLess') : t('sosEvent.showAllLocations', { count: trail.length })}</Text>
+              </TouchableOpacity>
+            )}
+          </>
+        )}
+      </View>
+    </>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#000000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('sosEvent.title')}</Text>
+        <TouchableOpacity onPress={loadEvent} style={styles.backButton}>
+          <Ionicons name="refresh" size={22} color="#000000" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content} keyboardShouldPersistTaps="handled">
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#007AFF" />
+            <Text style={styles.loadingText}>{t('sosEvent.loading')}</Text>
+          </View>
+        ) : event ? (
+          renderEvent(event)
+        ) : (
+          <Text style={styles.emptyText}>{t('sosEvent.unavailable')}</Text>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  section: {
+    marginBottom: 24,
+    gap: 12,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    gap: 12,
+    marginBottom: 16,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 1 },
+        shadowOpacity: 0.05,
+        shadowRadius: 3,
+      },
+      android: {
+        elevation: 1,
+      },
+    }),
+  },
+  cardActive: {
+    borderColor: '#FF3B30',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  statusBadge: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 10,
+  },
+  statusBadgeText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  warningText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    lineHeight: 20,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  infoLabel: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  infoValue: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+    textAlign: 'right',
+  },
+  mapContainer: {
+    height: 260,
+    marginBottom: 16,
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  map: {
+    flex: 1,
+  },
+  personMarker: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: '#FF3B30',
+    justifyContent: 'center',
+    alignItems: 'center',
+    borderWidth: 2,
+    borderColor: '#FFFFFF',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#FF3B30',
+    borderRadius: 12,
+    padding: 16,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  outlineButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    borderWidth: 1.5,
+    borderColor: '#007AFF',
+    borderRadius: 12,
+    padding: 12,
+  },
+  outlineButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  resolveButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#34C759',
+    borderRadius: 12,
+    padding: 14,
+  },
+  falseAlarmButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    padding: 14,
+  },
+  falseAlarmButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  input: {
+    borderWidth: 1.5,
+    borderColor: '#E5E5EA',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#000000',
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  listRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 10,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  listText: {
+    flex: 1,
+    fontSize: 15,
+    color: '#000000',
+  },
+  listTime: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: 10,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  timelineContent: {
+    flex: 1,
+    gap: 4,
+  },
+  noteText: {
+    fontSize: 14,
+    color: '#3C3C43',
+    lineHeight: 20,
+  },
+  linkText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#007AFF',
+    paddingVertical: 8,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 16,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+});
@@ -14,7 +14,10 @@ import { Ionicons } from '@expo/vector-icons';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import type { RootStackParamList } from '../types';
 import { useAuth } from '../context/AuthContext';
+import { useUserSettings } from '../context/UserSettingsContext';
 import { supabase } from '../lib/supabase';
+import { locationService } from '../services/locationService';
+import { getDeviceTimeZone } from '../utils/sleepMode';
 
 type SleepModeScreenNavigationProp = StackNavigationProp<RootStackParamList, 'SleepMode'>;
 
@@ -22,8 +25,15 @@ interface SleepModeScreenProps {
   navigation: SleepModeScreenNavigationProp;
 }
 
+interface SleepModeChanges {
+  sleep_mode_enabled?: boolean;
+  sleep_mode_start_time?: string;
+  sleep_mode_end_time?: string;
+}
+
 export default function SleepModeScreen({ navigation }: SleepModeScreenProps) {
   const { user } = useAuth();
+  const { t } = useUserSettings();
   const [enabled, setEnabled] = useState(false);
   const [startTime, setStartTime] = useState('22:00');
   const [endTime, setEndTime] = useState('07:00');
@@ -90,7 +100,7 @@ export default function SleepModeScreen({ navigation }: SleepModeScreenProps) {
 
       const { data, error } = await supabase
         .from('user_settings')
-        .select('sleep_mode_enabled, sleep_mode_start_time, sleep_mode_end_time')
+        .select('sleep_mode_enabled, sleep_mode_start_time, sleep_mode_end_time, timezone')
         .eq('user_id', user.id)
         .single();
 
@@ -104,6 +114,11 @@ export default function SleepModeScreen({ navigation }: SleepModeScreenProps) {
         setEnabled(data.sleep_mode_enabled ?? false);
         if (data.sleep_mode_start_time) setStartTime(data.sleep_mode_start_time);
         if (data.sleep_mode_end_time) setEndTime(data.sleep_mode_end_time);
+
+        // The user may have travelled since the hours were last saved
+        if (data.timezone !== getDeviceTimeZone()) {
+          await saveSleepModeSettings({});
+        }
       }
     } catch (error) {
       console.error('Error loading sleep mode settings:', error);
@@ -112,18 +127,37 @@ export default function SleepModeScreen({ navigation }: SleepModeScreenProps) {
     }
   };
 
+  /**
+   * Save sleep mode columns. Sleep hours are local times, so every save also
+   * stores the device time zone for the server-side check.
+   */
+  const saveSleepModeSettings = async (changes: SleepModeChanges) => {
+    return supabase
+      .from('user_settings')
+      .upsert(
+        {
+          user_id: user?.id,
+          ...changes,
+          timezone: getDeviceTimeZone(),
+        },
+        {
+          onConflict: 'user_id',
+        }
+      );
+  };
+
   const createDefaultSettings = async (): Promise<void> => {
     if (!user?.id) return;
 
     try {
-      await supabase
-        .from('user_settings')
-        .insert({
-          user_id: user.id,
-          sleep_mode_enabled: false,
-          sleep_mode_start_time: '22:00',
-          sleep_mode_end_time: '07:00',
-        });
+      const { error } = await saveSleepModeSettings({
+        sleep_mode_enabled: false,
+        sleep_mode_start_time: '22:00',
+        sleep_mode_end_time: '07:00',
+      });
+      if (error) {
+        console.error('Error creating default settings:', error);
+      }
     } catch (error) {
       console.error('Error creating default settings:', error);
     }
@@ -136,26 +170,19 @@ export default function SleepModeScreen({ navigation }: SleepModeScreenProps) {
       setSaving(true);
       setEnabled(value);
 
-      const { error } = await supabase
-        .from('user_settings')
-        .upsert(
-          {
-            user_id: user.id,
-            sleep_mode_enabled: value,
-          },
-          {
-            onConflict: 'user_id',
-          }
-        );
+      const { error } = await saveSleepModeSettings({ sleep_mode_enabled: value });
 
       if (error) {
         console.error('Error saving sleep mode:', error);
-        Alert.alert('Error', 'Failed to save sleep mode setting. Please try again.');
+        Alert.alert(t('common.error'), t('sleepMode.saveFailed'));
         await loadSleepModeSettings();
+      } else {
+        // Apply reduced tracking immediately
+        await locationService.refreshSleepModeSettings();
       }
     } catch (error) {
       console.error('Error saving sleep mode:', error);
-      Alert.alert('Error', 'Failed to save sleep mode setting. Please try again.');
+      Alert.alert(t('common.error'), t('sleepMode.saveFailed'));
       await loadSleepModeSettings();
     } finally {
       setSaving(false);
@@ -168,27 +195,27 @@ export default function SleepModeScreen({ navigation }: SleepModeScreenProps) {
         <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
           <Ionicons name="arrow-back" size={24} color="#000000" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Sleep Mode</Text>
+        <Text style={styles.headerTitle}>{t('profile.sleepMode')}</Text>
         <View style={styles.placeholder} />
       </View>
 
       <ScrollView style={styles.content}>
         <Text style={styles.description}>
-          Sleep mode reduces notifications during your sleep hours to avoid disturbing you.
+          {t('sleepMode.description')}
         </Text>
 
         {loading ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color="#007AFF" />
-            <Text style={styles.loadingText}>Loading settings...</Text>
+            <Text style={styles.loadingText}>{t('common.loadingSettings')}</Text>
           </View>
         ) : (
           <>
             <View style={styles.section}>
               <View style={styles.settingRow}>
                 <View style={styles.settingContent}>
-                  <Text style={styles.settingTitle}>Enable Sleep Mode</Text>
-                  <Text style={styles.settingSubtitle}>Reduce notifications during sleep hours</Text>
+                  <Text style={styles.settingTitle}>{t('sleepMode.enable')}</Text>
+                  <Text style={styles.settingSubtitle}>{t('sleepMode.enableSubtitle')}</Text>
                 </View>
                 {saving ? (
                   <ActivityIndicator size="small" color="#007AFF" />
@@ -206,19 +233,19 @@ export default function SleepModeScreen({ navigation }: SleepModeScreenProps) {
 
         {enabled && (
           <View style={styles.section}>
-            <Text style={styles.sectionTitle}>Sleep Hours</Text>
+            <Text style={styles.sectionTitle}>{t('sleepMode.hours')}</Text>
             <View style={styles.timeRow}>
               <View style={styles.timeOption}>
-                <Text style={styles.timeLabel}>Start Time</Text>
+                <Text style={styles.timeLabel}>{t('sleepMode.startTime')}</Text>
                 <Text style={styles.timeValue}>{startTime}</Text>
               </View>
               <View style={styles.timeOption}>
-                <Text style={styles.timeLabel}>End Time</Text>
+                <Text style={styles.timeLabel}>{t('sleepMode.endTime')}</Text>
                 <Text style={styles.timeValue}>{endTime}</Text>
               </View>
             </View>
             <Text style={styles.note}>
-              Time picker functionality can be added here
+              {t('sleepMode.timePickerNote')}
             </Text>
           </View>
         )}
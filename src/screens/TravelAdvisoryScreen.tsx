@@ -14,8 +14,12 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import { useTravelAdvisory } from '../context/TravelAdvisoryContext';
+import { useUserSettings } from '../context/UserSettingsContext';
 import { travelAdvisoryService } from '../services/travelAdvisoryService';
+import { INCIDENT_CATEGORY_LABEL_KEYS } from '../utils/incidentCategories';
+import { formatLocaleDate } from '../i18n';
 import type { RootStackParamList, TravelAdvisory, RouteRiskData } from '../types';
+import type { TranslationKey } from '../i18n';
 
 type TravelAdvisoryScreenNavigationProp = StackNavigationProp<RootStackParamList, 'TravelAdvisory'>;
 
@@ -23,6 +27,19 @@ interface TravelAdvisoryScreenProps {
   navigation: TravelAdvisoryScreenNavigationProp;
 }
 
+const RISK_LEVEL_LABEL_KEYS: Record<TravelAdvisory['riskLevel'], TranslationKey> = {
+  low: 'travelAdvisory.risk.low',
+  moderate: 'travelAdvisory.risk.moderate',
+  high: 'travelAdvisory.risk.high',
+  critical: 'travelAdvisory.risk.critical',
+};
+
+const ADVISORY_TYPE_LABEL_KEYS: Record<TravelAdvisory['advisoryType'], TranslationKey> = {
+  security: 'travelAdvisory.type.security',
+  weather: 'travelAdvisory.type.weather',
+  combined: 'travelAdvisory.type.combined',
+};
+
 export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScreenProps) {
   const {
     currentLocationAdvisories,
@@ -32,12 +49,16 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
     getRouteRisk,
     clearRouteRisk,
   } = useTravelAdvisory();
+  const { formatDistance, t, locale } = useUserSettings();
   const [originState, setOriginState] = useState<string>('');
   const [destinationState, setDestinationState] = useState<string>('');
   const [originCity, setOriginCity] = useState<string>('');
   const [destinationCity, setDestinationCity] = useState<string>('');
   const [showRouteForm, setShowRouteForm] = useState<boolean>(false);
   const [calculatingRoute, setCalculatingRoute] = useState<boolean>(false);
+  const routeDistanceKm = routeRiskData
+    ? travelAdvisoryService.getRouteDistanceKm(routeRiskData.routeCoordinates)
+    : null;
 
   useEffect(() => {
     refreshAdvisories();
@@ -45,7 +66,7 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
 
   const handleCalculateRoute = async (): Promise<void> => {
     if (!originState || !destinationState) {
-      Alert.alert('Error', 'Please enter both origin and destination states.');
+      Alert.alert(t('common.error'), t('travelAdvisory.statesRequired'));
       return;
     }
 
@@ -53,7 +74,7 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
       setCalculatingRoute(true);
       await getRouteRisk(originState, destinationState, originCity || undefined, destinationCity || undefined);
     } catch (error) {
-      Alert.alert('Error', 'Failed to calculate route risk. Please try again.');
+      Alert.alert(t('common.error'), t('travelAdvisory.routeRiskFailed'));
     } finally {
       setCalculatingRoute(false);
     }
@@ -64,7 +85,9 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
   };
 
   const getRiskLevelLabel = (riskLevel: TravelAdvisory['riskLevel']): string => {
-    return travelAdvisoryService.getRiskLevelLabel(riskLevel);
+    return RISK_LEVEL_LABEL_KEYS[riskLevel]
+      ? t(RISK_LEVEL_LABEL_KEYS[riskLevel])
+      : travelAdvisoryService.getRiskLevelLabel(riskLevel);
   };
 
   const getAdvisoryIcon = (advisoryType: TravelAdvisory['advisoryType']): keyof typeof Ionicons.glyphMap => {
@@ -78,7 +101,7 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
 
   const formatDate = (dateString: string): string => {
     const date = new Date(dateString);
-    return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
+    return formatLocaleDate(date, locale, { month: 'short', day: 'numeric', year: 'numeric' });
   };
 
   return (
@@ -93,8 +116,8 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
           <Ionicons name="arrow-back" size={24} color="#111827" />
         </TouchableOpacity>
         <View style={styles.headerContent}>
-          <Text style={styles.headerTitle}>Travel Advisories</Text>
-          <Text style={styles.headerSubtitle}>Stay informed about travel risks</Text>
+          <Text style={styles.headerTitle}>{t('travelAdvisory.title')}</Text>
+          <Text style={styles.headerSubtitle}>{t('travelAdvisory.subtitle')}</Text>
         </View>
         <TouchableOpacity
           onPress={refreshAdvisories}
@@ -106,6 +129,21 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
       </View>
 
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {/* Trip Mode */}
+        <View style={[styles.section, styles.tripSection]}>
+          <TouchableOpacity
+            style={styles.routeToggle}
+            onPress={() => navigation.navigate('Trip')}
+            activeOpacity={0.7}
+          >
+            <View style={styles.routeToggleContent}>
+              <Ionicons name="navigate" size={20} color="#007AFF" />
+              <Text style={styles.routeToggleText}>{t('trip.startATrip')}</Text>
+            </View>
+            <Ionicons name="chevron-forward" size={20} color="#6B7280" />
+          </TouchableOpacity>
+        </View>
+
         {/* Route Risk Calculator */}
         <View style={styles.section}>
           <TouchableOpacity
@@ -115,7 +153,7 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
           >
             <View style={styles.routeToggleContent}>
               <Ionicons name="map" size={20} color="#007AFF" />
-              <Text style={styles.routeToggleText}>Calculate Route Risk</Text>
+              <Text style={styles.routeToggleText}>{t('travelAdvisory.calculateRouteRisk')}</Text>
             </View>
             <Ionicons
               name={showRouteForm ? 'chevron-up' : 'chevron-down'}
@@ -127,40 +165,40 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
           {showRouteForm && (
             <View style={styles.routeForm}>
               <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Origin State *</Text>
+                <Text style={styles.inputLabel}>{t('travelAdvisory.originState')}</Text>
                 <TextInput
                   style={styles.input}
-                  placeholder="e.g., Lagos"
+                  placeholder={t('travelAdvisory.originStatePlaceholder')}
                   value={originState}
                   onChangeText={setOriginState}
                   placeholderTextColor="#9CA3AF"
                 />
               </View>
               <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Origin City (Optional)</Text>
+                <Text style={styles.inputLabel}>{t('travelAdvisory.originCity')}</Text>
                 <TextInput
                   style={styles.input}
-                  placeholder="e.g., Ikeja"
+                  placeholder={t('travelAdvisory.originCityPlaceholder')}
                   value={originCity}
                   onChangeText={setOriginCity}
                   placeholderTextColor="#9CA3AF"
                 />
               </View>
               <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Destination State *</Text>
+                <Text style={styles.inputLabel}>{t('travelAdvisory.destinationState')}</Text>
                 <TextInput
                   style={styles.input}
-                  placeholder="e.g., Abuja"
+                  placeholder={t('travelAdvisory.destinationStatePlaceholder')}
                   value={destinationState}
                   onChangeText={setDestinationState}
                   placeholderTextColor="#9CA3AF"
                 />
               </View>
               <View style={styles.inputGroup}>
-                <Text style={styles.inputLabel}>Destination City (Optional)</Text>
+                <Text style={styles.inputLabel}>{t('travelAdvisory.destinationCity')}</Text>
                 <TextInput
                   style={styles.input}
-                  placeholder="e.g., Garki"
+                  placeholder={t('travelAdvisory.destinationCityPlaceholder')}
                   value={destinationCity}
                   onChangeText={setDestinationCity}
                   placeholderTextColor="#9CA3AF"
@@ -177,7 +215,7 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
                 ) : (
                   <>
                     <Ionicons name="analytics" size={20} color="#FFFFFF" />
-                    <Text style={styles.calculateButtonText}>Calculate Risk</Text>
+                    <Text style={styles.calculateButtonText}>{t('travelAdvisory.calculateRisk')}</Text>
                   </>
                 )}
               </TouchableOpacity>
@@ -189,14 +227,14 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
             <View style={styles.routeRiskCard}>
               <View style={styles.routeRiskHeader}>
                 <Ionicons name="analytics" size={24} color="#007AFF" />
-                <Text style={styles.routeRiskTitle}>Route Risk Assessment</Text>
+                <Text style={styles.routeRiskTitle}>{t('travelAdvisory.routeRiskTitle')}</Text>
                 <TouchableOpacity onPress={clearRouteRisk} style={styles.closeButton}>
                   <Ionicons name="close" size={20} color="#6B7280" />
                 </TouchableOpacity>
               </View>
               <View style={styles.routeRiskContent}>
                 <View style={styles.riskScoreContainer}>
-                  <Text style={styles.riskScoreLabel}>Risk Score</Text>
+                  <Text style={styles.riskScoreLabel}>{t('travelAdvisory.riskScore')}</Text>
                   <View
                     style={[
                       styles.riskScoreCircle,
@@ -216,15 +254,15 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
                 <View style={styles.incidentStats}>
                   <View style={styles.statItem}>
                     <Text style={styles.statValue}>{routeRiskData.incidentCount24h}</Text>
-                    <Text style={styles.statLabel}>Last 24h</Text>
+                    <Text style={styles.statLabel}>{t('travelAdvisory.last24h')}</Text>
                   </View>
                   <View style={styles.statItem}>
                     <Text style={styles.statValue}>{routeRiskData.incidentCount7d}</Text>
-                    <Text style={styles.statLabel}>Last 7 days</Text>
+                    <Text style={styles.statLabel}>{t('travelAdvisory.last7Days')}</Text>
                   </View>
                   <View style={styles.statItem}>
                     <Text style={styles.statValue}>{routeRiskData.incidentCount30d}</Text>
-                    <Text style={styles.statLabel}>Last 30 days</Text>
+                    <Text style={styles.statLabel}>{t('travelAdvisory.last30Days')}</Text>
                   </View>
                 </View>
                 <View style={styles.routeInfo}>
@@ -238,6 +276,36 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
                     {routeRiskData.destinationCity ? `, ${routeRiskData.destinationCity}` : ''}
                   </Text>
                 </View>
+                {(routeDistanceKm !== null || !!routeRiskData.averageTravelTimeMinutes) && (
+                  <Text style={styles.routeMetaText}>
+                    {[
+                      routeDistanceKm !== null ? formatDistance(routeDistanceKm) : null,
+                      routeRiskData.averageTravelTimeMinutes
+                        ? `~${t('trip.minutesShort', { count: Math.round(routeRiskData.averageTravelTimeMinutes) })}`
+                        : null,
+                    ]
+                      .filter(Boolean)
+                      .join(' · ')}
+                  </Text>
+                )}
+                <Text style={styles.routeMetaText}>
+                  {routeRiskData.bufferKm
+                    ? t('travelAdvisory.incidentsNearRoute', { distance: formatDistance(routeRiskData.bufferKm) })
+                    : t('travelAdvisory.incidentsInAreas')}
+                </Text>
+                {Object.keys(routeRiskData.categoryBreakdown).length > 0 && (
+                  <View style={styles.categoryBreakdown}>
+                    {Object.entries(routeRiskData.categoryBreakdown)
+                      .sort(([, a], [, b]) => b - a)
+                      .map(([category, count]) => (
+                        <View key={category} style={styles.categoryChip}>
+                          <Text style={styles.categoryChipText}>
+                            {INCIDENT_CATEGORY_LABEL_KEYS[category] ? t(INCIDENT_CATEGORY_LABEL_KEYS[category]) : category} · {count}
+                          </Text>
+                        </View>
+                      ))}
+                  </View>
+                )}
               </View>
             </View>
           )}
@@ -245,7 +313,7 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
 
         {/* Current Location Advisories */}
         <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Advisories for Your Location</Text>
+          <Text style={styles.sectionTitle}>{t('travelAdvisory.forYourLocation')}</Text>
           {loading ? (
             <View style={styles.loadingContainer}>
               <ActivityIndicator size="large" color="#007AFF" />
@@ -253,8 +321,8 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
           ) : currentLocationAdvisories.length === 0 ? (
             <View style={styles.emptyState}>
               <Ionicons name="checkmark-circle" size={48} color="#10B981" />
-              <Text style={styles.emptyStateText}>No active advisories</Text>
-              <Text style={styles.emptyStateSubtext}>Your current location appears safe</Text>
+              <Text style={styles.emptyStateText}>{t('travelAdvisory.noAdvisories')}</Text>
+              <Text style={styles.emptyStateSubtext}>{t('travelAdvisory.locationSafe')}</Text>
             </View>
           ) : (
             currentLocationAdvisories.map((advisory) => (
@@ -275,13 +343,17 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
                       {getRiskLevelLabel(advisory.riskLevel)}
                     </Text>
                   </View>
-                  <Text style={styles.advisoryType}>{advisory.advisoryType.toUpperCase()}</Text>
+                  <Text style={styles.advisoryType}>
+                    {ADVISORY_TYPE_LABEL_KEYS[advisory.advisoryType]
+                      ? t(ADVISORY_TYPE_LABEL_KEYS[advisory.advisoryType])
+                      : advisory.advisoryType.toUpperCase()}
+                  </Text>
                 </View>
                 <Text style={styles.advisoryTitle}>{advisory.title}</Text>
                 <Text style={styles.advisoryDescription}>{advisory.description}</Text>
                 {advisory.affectedAreas && advisory.affectedAreas.length > 0 && (
                   <View style={styles.affectedAreas}>
-                    <Text style={styles.affectedAreasLabel}>Affected Areas:</Text>
+                    <Text style={styles.affectedAreasLabel}>{t('travelAdvisory.affectedAreas')}</Text>
                     <Text style={styles.affectedAreasText}>
                       {advisory.affectedAreas.join(', ')}
                     </Text>
@@ -304,7 +376,7 @@ export default function TravelAdvisoryScreen({ navigation }: TravelAdvisoryScree
                   </View>
                 </View>
                 {advisory.source && (
-                  <Text style={styles.advisorySource}>Source: {advisory.source}</Text>
+                  <Text style={styles.advisorySource}>{t('travelAdvisory.source', { source: advisory.source })}</Text>
                 )}
               </View>
             ))
@@ -362,6 +434,9 @@ const styles = StyleSheet.create({
   section: {
     padding: 20,
   },
+  tripSection: {
+    paddingBottom: 0,
+  },
   routeToggle: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -545,6 +620,30 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#111827',
   },
+  routeMetaText: {
+    fontSize: 13,
+    color: '#6B7280',
+    textAlign: 'center',
+    marginTop: 8,
+  },
+  categoryBreakdown: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 12,
+  },
+  categoryChip: {
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#F3F4F6',
+  },
+  categoryChipText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#374151',
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '600',
@@ -0,0 +1,608 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ScrollView,
+  TextInput,
+  ActivityIndicator,
+  Alert,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import * as ExpoLocation from 'expo-location';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import type { RootStackParamList, Trip } from '../types';
+import { useAuth } from '../context/AuthContext';
+import { useConnection } from '../context/ConnectionContext';
+import { useUserSettings } from '../context/UserSettingsContext';
+import { locationService } from '../services/locationService';
+import { tripService } from '../services/tripService';
+
+type TripScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Trip'>;
+
+interface TripScreenProps {
+  navigation: TripScreenNavigationProp;
+}
+
+const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120]; // minutes
+
+export default function TripScreen({ navigation }: TripScreenProps) {
+  const { user } = useAuth();
+  const { connections } = useConnection();
+  const { formatDistanceMeters, formatTimeAgo, locale, t } = useUserSettings();
+  const [activeTrip, setActiveTrip] = useState<Trip | null>(null);
+  const [watchedTrips, setWatchedTrips] = useState<Trip[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [submitting, setSubmitting] = useState<boolean>(false);
+  const [destination, setDestination] = useState<string>('');
+  const [durationMinutes, setDurationMinutes] = useState<number>(30);
+  const [selectedWatchers, setSelectedWatchers] = useState<Set<string>>(new Set());
+
+  const connectedMembers = connections.filter((member) => !!member.userId);
+
+  const loadTrips = useCallback(async (): Promise<void> => {
+    if (!user?.id) return;
+
+    try {
+      setLoading(true);
+      const [trip, watched] = await Promise.all([
+        tripService.getActiveTrip(user.id),
+        tripService.getWatchedTrips(user.id),
+      ]);
+      setActiveTrip(trip);
+      setWatchedTrips(watched);
+    } catch (error) {
+      console.error('Error loading trips:', error);
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id]);
+
+  useEffect(() => {
+    loadTrips();
+  }, [loadTrips]);
+
+  // Keep the active trip card live (position, automatic arrival, escalation)
+  useEffect(() => {
+    if (!activeTrip?.id) return;
+
+    return tripService.subscribeToTrip(activeTrip.id, (trip) => {
+      setActiveTrip(trip.status === 'active' || trip.status === 'overdue' ? trip : null);
+    });
+  }, [activeTrip?.id]);
+
+  const toggleWatcher = (userId: string): void => {
+    setSelectedWatchers((prev) => {
+      const next = new Set(prev);
+      if (next.has(userId)) {
+        next.delete(userId);
+      } else {
+        next.add(userId);
+      }
+      return next;
+    });
+  };
+
+  const handleStartTrip = async (): Promise<void> => {
+    if (!user?.id) return;
+
+    if (!destination.trim()) {
+      Alert.alert(t('common.error'), t('trip.enterDestination'));
+      return;
+    }
+
+    if (selectedWatchers.size === 0) {
+      Alert.alert(t('common.error'), t('trip.chooseWatcher'));
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+
+      const results = await ExpoLocation.geocodeAsync(destination.trim());
+      if (results.length === 0) {
+        Alert.alert(t('trip.destinationNotFound'), t('trip.destinationNotFoundMessage'));
+        return;
+      }
+
+      const origin = await locationService.getHighAccuracyLocation(true);
+      const trip = await tripService.startTrip(user.id, user.name || 'Someone', {
+        origin: origin || undefined,
+        originLabel: origin?.address,
+        destination: { latitude: results[0].latitude, longitude: results[0].longitude },
+        destinationLabel: destination.trim(),
+        expectedArrivalAt: new Date(Date.now() + durationMinutes * 60000),
+        watcherIds: Array.from(selectedWatchers),
+      });
+
+      if (!trip) {
+        Alert.alert(t('common.error'), t('trip.startFailedActive'));
+        return;
+      }
+
+      setActiveTrip(trip);
+      setDestination('');
+      setSelectedWatchers(new Set());
+    } catch (error) {
+      console.error('Error starting trip:', error);
+      Alert.alert(t('common.error'), t('trip.startFailed'));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const handleConfirmArrival = async (): Promise<void> => {
+    if (!activeTrip) return;
+
+    setSubmitting(true);
+    const confirmed = await tripService.confirmArrival(activeTrip);
+    setSubmitting(false);
+
+    if (!confirmed) {
+      Alert.alert(t('common.error'), t('trip.confirmArrivalFailed'));
+      return;
+    }
+
+    setActiveTrip(null);
+    Alert.alert(t('trip.arrived'), t('trip.arrivedMessage'));
+  };
+
+  const handleCancelTrip = (): void => {
+    if (!activeTrip) return;
+
+    Alert.alert(t('trip.cancelTrip'), t('trip.cancelMessage'), [
+      { text: t('trip.keepTrip'), style: 'cancel' },
+      {
+        text: t('trip.cancelTrip'),
+        style: 'destructive',
+        onPress: async () => {
+          setSubmitting(true);
+          const cancelled = await tripService.cancelTrip(activeTrip);
+          setSubmitting(false);
+
+          if (!cancelled) {
+            Alert.alert(t('common.error'), t('trip.cancelFailed'));
+            return;
+          }
+          setActiveTrip(null);
+        },
+      },
+    ]);
+  };
+
+  const formatArrivalTime = (timestamp: string): string =>
+    new Date(timestamp).toLocaleTimeString(locale, { hour: '2-digit', minute: '2-digit' });
+
+  const getRemainingDistance = (trip: Trip): string | null => {
+    if (!trip.lastLocation) return null;
+    return formatDistanceMeters(tripService.calculateDistance(trip.lastLocation, trip.destination), 1);
+  };
+
+  const getWatcherName = (userId: string): string =>
+    connections.find((member) => member.userId === userId)?.name || t('trip.connection');
+
+  const renderActiveTrip = (trip: Trip) => {
+    const remaining = getRemainingDistance(trip);
+    const isOverdue = trip.status === 'overdue';
+
+    return (
+      <View style={[styles.card, isOverdue && styles.cardOverdue]}>
+        <View style={styles.cardHeader}>
+          <Ionicons name={isOverdue ? 'warning' : 'navigate'} size={22} color={isOverdue ? '#FF3B30' : '#007AFF'} />
+          <Text style={styles.cardTitle} numberOfLines={1}>
+            {trip.destinationLabel}
+          </Text>
+        </View>
+        {isOverdue && (
+          <Text style={styles.overdueText}>
+            {trip.escalationReason === 'no_signal'
+              ? t('trip.overdueNoSignal')
+              : t('trip.overdueLate')}
+          </Text>
+        )}
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>{t('trip.expectedArrival')}</Text>
+          <Text style={styles.infoValue}>{formatArrivalTime(trip.expectedArrivalAt)}</Text>
+        </View>
+        {remaining && (
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>{t('trip.distanceLeftLabel')}</Text>
+            <Text style={styles.infoValue}>{remaining}</Text>
+          </View>
+        )}
+        {trip.lastReportedAt && (
+          <View style={styles.infoRow}>
+            <Text style={styles.infoLabel}>{t('trip.lastUpdate')}</Text>
+            <Text style={styles.infoValue}>{formatTimeAgo(trip.lastReportedAt)}</Text>
+          </View>
+        )}
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>{t('trip.sharedWith')}</Text>
+          <Text style={styles.infoValue} numberOfLines={1}>
+            {trip.watcherIds.map(getWatcherName).join(', ')}
+          </Text>
+        </View>
+        <Text style={styles.hintText}>
+          {t('trip.autoArrivalHint')}
+        </Text>
+        <TouchableOpacity
+          style={[styles.primaryButton, submitting && styles.buttonDisabled]}
+          onPress={handleConfirmArrival}
+          disabled={submitting}
+          activeOpacity={0.7}
+        >
+          <Ionicons name="checkmark-circle" size={20} color="#FFFFFF" />
+          <Text style={styles.primaryButtonText}>{t('trip.imArrived')}</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.secondaryButton}
+          onPress={handleCancelTrip}
+          disabled={submitting}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.secondaryButtonText}>{t('trip.cancelTrip')}</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderStartForm = () => (
+    <View style={styles.card}>
+      <Text style={styles.inputLabel}>{t('trip.destination')}</Text>
+      <TextInput
+        style={styles.input}
+        placeholder={t('trip.destinationPlaceholder')}
+        value={destination}
+        onChangeText={setDestination}
+        placeholderTextColor="#9CA3AF"
+      />
+
+      <Text style={styles.inputLabel}>{t('trip.travelTime')}</Text>
+      <View style={styles.chipRow}>
+        {DURATION_OPTIONS.map((minutes) => (
+          <TouchableOpacity
+            key={minutes}
+            style={[styles.chip, durationMinutes === minutes && styles.chipSelected]}
+            onPress={() => setDurationMinutes(minutes)}
+            activeOpacity={0.7}
+          >
+            <Text style={[styles.chipText, durationMinutes === minutes && styles.chipTextSelected]}>
+              {minutes < 60 ? t('trip.minutesShort', { count: minutes }) : t('trip.hoursShort', { count: minutes / 60 })}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      <Text style={styles.inputLabel}>{t('trip.whoCanFollow')}</Text>
+      {connectedMembers.length === 0 ? (
+        <Text style={styles.emptyText}>{t('trip.addConnectionFirst')}</Text>
+      ) : (
+        connectedMembers.map((member) => {
+          const memberUserId = member.userId as string;
+          const selected = selectedWatchers.has(memberUserId);
+
+          return (
+            <TouchableOpacity
+              key={memberUserId}
+              style={styles.watcherRow}
+              onPress={() => toggleWatcher(memberUserId)}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.watcherName}>{member.name}</Text>
+              <Ionicons
+                name={selected ? 'checkbox' : 'square-outline'}
+                size={22}
+                color={selected ? '#007AFF' : '#9CA3AF'}
+              />
+            </TouchableOpacity>
+          );
+        })
+      )}
+
+      <TouchableOpacity
+        style={[styles.primaryButton, submitting && styles.buttonDisabled]}
+        onPress={handleStartTrip}
+        disabled={submitting}
+        activeOpacity={0.7}
+      >
+        {submitting ? (
+          <ActivityIndicator size="small" color="#FFFFFF" />
+        ) : (
+          <>
+            <Ionicons name="navigate" size={20} color="#FFFFFF" />
+            <Text style={styles.primaryButtonText}>{t('trip.startTrip')}</Text>
+          </>
+        )}
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Ionicons name="arrow-back" size={24} color="#000000" />
+        </TouchableOpacity>
+        <Text style={styles.headerTitle}>{t('trip.title')}</Text>
+        <TouchableOpacity onPress={loadTrips} style={styles.backButton}>
+          <Ionicons name="refresh" size={22} color="#000000" />
+        </TouchableOpacity>
+      </View>
+
+      <ScrollView style={styles.content}>
+        <Text style={styles.description}>
+          {t('trip.description')}
+        </Text>
+
+        {loading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size="large" color="#007AFF" />
+            <Text style={styles.loadingText}>{t('trip.loading')}</Text>
+          </View>
+        ) : (
+          <>
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{activeTrip ? t('trip.yourTrip') : t('trip.startATrip')}</Text>
+              {activeTrip ? renderActiveTrip(activeTrip) : renderStartForm()}
+            </View>
+
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>{t('trip.following')}</Text>
+              {watchedTrips.length === 0 ? (
+                <Text style={styles.emptyText}>{t('trip.noneFollowing')}</Text>
+              ) : (
+                watchedTrips.map((trip) => (
+                  <TouchableOpacity
+                    key={trip.id}
+                    style={styles.watchedRow}
+                    onPress={() =>
+                      navigation.navigate('MapView', {
+                        location: trip.lastLocation || trip.destination,
+                        title: trip.destinationLabel,
+                        userId: trip.userId,
+                        tripId: trip.id,
+                      })
+                    }
+                    activeOpacity={0.7}
+                  >
+                    <Ionicons
+                      name={trip.status === 'overdue' ? 'warning' : 'navigate-circle'}
+                      size={24}
+                      color={trip.status === 'overdue' ? '#FF3B30' : '#007AFF'}
+                    />
+                    <View style={styles.watchedContent}>
+                      <Text style={styles.watchedTitle}>
+                        {connections.find((member) => member.userId === trip.userId)?.name || t('trip.connection')} → {trip.destinationLabel}
+                      </Text>
+                      <Text style={[styles.watchedSubtitle, trip.status === 'overdue' && styles.overdueSubtitle]}>
+                        {trip.status === 'overdue'
+                          ? t('trip.overdue')
+                          : t('trip.expectedAt', { time: formatArrivalTime(trip.expectedArrivalAt) })}
+                        {getRemainingDistance(trip) ? t('trip.distanceLeft', { distance: getRemainingDistance(trip) }) : ''}
+                      </Text>
+                    </View>
+                    <Ionicons name="chevron-forward" size={20} color="#C7C7CC" />
+                  </TouchableOpacity>
+                ))
+              )}
+            </View>
+          </>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#FFFFFF',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  backButton: {
+    padding: 4,
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  content: {
+    flex: 1,
+    padding: 16,
+  },
+  description: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 24,
+    lineHeight: 20,
+  },
+  section: {
+    marginBottom: 24,
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 12,
+  },
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    borderWidth: 1,
+    borderColor: '#E5E5EA',
+    gap: 12,
+    ...Platform.select({
+      ios: {
+        shadowColor: '#000',
+        shadowOffset: { width: 0, height: 2 },
+        shadowOpacity: 0.05,
+        shadowRadius: 8,
+      },
+      android: {
+        elevation: 2,
+      },
+    }),
+  },
+  cardOverdue: {
+    borderColor: '#FF3B30',
+  },
+  cardHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  cardTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  overdueText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    lineHeight: 20,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    gap: 12,
+  },
+  infoLabel: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  infoValue: {
+    flexShrink: 1,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  hintText: {
+    fontSize: 13,
+    color: '#8E8E93',
+  },
+  inputLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#000000',
+  },
+  input: {
+    borderWidth: 1.5,
+    borderColor: '#E5E5EA',
+    borderRadius: 12,
+    padding: 14,
+    fontSize: 16,
+    color: '#000000',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: '#F2F2F7',
+  },
+  chipSelected: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#000000',
+    fontWeight: '500',
+  },
+  chipTextSelected: {
+    color: '#FFFFFF',
+  },
+  watcherRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  watcherName: {
+    fontSize: 16,
+    color: '#000000',
+  },
+  primaryButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    padding: 16,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  secondaryButton: {
+    alignItems: 'center',
+    padding: 12,
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  watchedRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  watchedContent: {
+    flex: 1,
+  },
+  watchedTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#000000',
+    marginBottom: 4,
+  },
+  watchedSubtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  overdueSubtitle: {
+    color: '#FF3B30',
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: 32,
+    gap: 16,
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+});
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -12,8 +12,8 @@ import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import type { StackNavigationProp } from '@react-navigation/stack';
 import type { RootStackParamList } from '../types';
-import { useAuth } from '../context/AuthContext';
-import { supabase } from '../lib/supabase';
+import { useUserSettings } from '../context/UserSettingsContext';
+import type { UnitSystem } from '../utils/units';
 
 type UnitsScreenNavigationProp = StackNavigationProp<RootStackParamList, 'Units'>;
 
@@ -21,138 +21,20 @@ interface UnitsScreenProps {
   navigation: UnitsScreenNavigationProp;
 }
 
-type UnitSystem = 'metric' | 'imperial';
-
 export default function UnitsScreen({ navigation }: UnitsScreenProps) {
-  const { user } = useAuth();
-  const [unitSystem, setUnitSystem] = useState<UnitSystem>('metric');
-  const [loading, setLoading] = useState<boolean>(true);
+  const { unitSystem, loading, setUnitSystem, t } = useUserSettings();
   const [saving, setSaving] = useState<boolean>(false);
-  const realtimeChannelRef = useRef<any>(null);
-
-  useEffect(() => {
-    if (user?.id) {
-      loadUnitSystem();
-      setupRealtimeSubscription();
-    }
-
-    return () => {
-      if (realtimeChannelRef.current) {
-        try {
-          supabase.removeChannel(realtimeChannelRef.current);
-        } catch (error) {
-          console.warn('Error removing channel during cleanup:', error);
-        }
-        realtimeChannelRef.current = null;
-      }
-    };
-  }, [user?.id]);
-
-  const setupRealtimeSubscription = (): void => {
-    if (!user?.id) return;
-
-    if (realtimeChannelRef.current) {
-      supabase.removeChannel(realtimeChannelRef.current);
-      realtimeChannelRef.current = null;
-    }
-
-    const channelName = `units:${user.id}`;
-    const channel = supabase
-      .channel(channelName)
-      .on(
-        'postgres_changes',
-        {
-          event: 'UPDATE',
-          schema: 'public',
-          table: 'user_settings',
-          filter: `user_id=eq.${user.id}`,
-        },
-        (payload) => {
-          const newData = payload.new as any;
-          if (newData?.units) {
-            setUnitSystem(newData.units as UnitSystem);
-          }
-        }
-      )
-      .subscribe();
-
-    realtimeChannelRef.current = channel;
-  };
-
-  const loadUnitSystem = async () => {
-    if (!user?.id) return;
-
-    try {
-      setLoading(true);
-
-      const { data, error } = await supabase
-        .from('user_settings')
-        .select('units')
-        .eq('user_id', user.id)
-        .single();
-
-      if (error) {
-        if (error.code === 'PGRST116') {
-          await createDefaultSettings();
-          setUnitSystem('metric');
-        } else {
-          console.error('Error loading unit system:', error);
-          setUnitSystem('metric');
-        }
-      } else if (data) {
-        setUnitSystem((data.units as UnitSystem) || 'metric');
-      }
-    } catch (error) {
-      console.error('Error loading unit system:', error);
-      setUnitSystem('metric');
-    } finally {
-      setLoading(false);
-    }
-  };
-
-  const createDefaultSettings = async (): Promise<void> => {
-    if (!user?.id) return;
-
-    try {
-      await supabase
-        .from('user_settings')
-        .insert({
-          user_id: user.id,
-          units: 'metric',
-        });
-    } catch (error) {
-      console.error('Error creating default settings:', error);
-    }
-  };
 
   const handleSelectUnit = async (system: UnitSystem) => {
-    if (!user?.id || saving) return;
+    if (saving || system === unitSystem) return;
 
     try {
       setSaving(true);
-      setUnitSystem(system);
-
-      const { error } = await supabase
-        .from('user_settings')
-        .upsert(
-          {
-            user_id: user.id,
-            units: system,
-          },
-          {
-            onConflict: 'user_id',
-          }
-        );
+      const saved = await setUnitSystem(system);
 
-      if (error) {
-        console.error('Error saving unit system:', error);
-        Alert.alert('Error', 'Failed to save unit system setting. Please try again.');
-        await loadUnitSystem();
+      if (!saved) {
+        Alert.alert(t('common.error'), t('units.saveFailed'));
       }
-    } catch (error) {
-      console.error('Error saving unit system:', error);
-      Alert.alert('Error', 'Failed to save unit system setting. Please try again.');
-      await loadUnitSystem();
     } finally {
       setSaving(false);
     }
@@ -164,19 +46,19 @@ export default function UnitsScreen({ navigation }: UnitsScreenProps) {
         <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
           <Ionicons name="arrow-back" size={24} color="#000000" />
         </TouchableOpacity>
-        <Text style={styles.headerTitle}>Units</Text>
+        <Text style={styles.headerTitle}>{t('units.title')}</Text>
         <View style={styles.placeholder} />
       </View>
 
       <ScrollView style={styles.content}>
         <Text style={styles.description}>
-          Choose your preferred unit system for distances and measurements.
+          {t('units.description')}
         </Text>
 
         {loading ? (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size="large" color="#007AFF" />
-            <Text style={styles.loadingText}>Loading settings...</Text>
+            <Text style={styles.loadingText}>{t('common.loadingSettings')}</Text>
           </View>
         ) : (
           <>
@@ -197,8 +79,8 @@ export default function UnitsScreen({ navigation }: UnitsScreenProps) {
                   />
                 )}
                 <View style={styles.optionText}>
-                  <Text style={styles.optionTitle}>Metric (km, m)</Text>
-                  <Text style={styles.optionSubtitle}>Kilometers and meters</Text>
+                  <Text style={styles.optionTitle}>{t('units.metric')}</Text>
+                  <Text style={styles.optionSubtitle}>{t('units.metricSubtitle')}</Text>
                 </View>
               </View>
             </TouchableOpacity>
@@ -220,8 +102,8 @@ export default function UnitsScreen({ navigation }: UnitsScreenProps) {
                   />
                 )}
                 <View style={styles.optionText}>
-                  <Text style={styles.optionTitle}>Imperial (miles, feet)</Text>
-                  <Text style={styles.optionSubtitle}>Miles and feet</Text>
+                  <Text style={styles.optionTitle}>{t('units.imperial')}</Text>
+                  <Text style={styles.optionSubtitle}>{t('units.imperialSubtitle')}</Text>
                 </View>
               </View>
             </TouchableOpacity>
@@ -0,0 +1,321 @@
+import { supabase } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import type { AccountLockEvent, AccountLockStatus, Location } from '../types';
+
+export interface PinUnlockResult {
+  unlocked: boolean;
+  attemptsRemaining: number | null;
+  duress: boolean; // Duress PIN - unlocked, but a silent SOS was started
+  message?: string;
+}
+
+export interface UnlockApprovalResult {
+  unlocked: boolean;
+  approvals: number;
+  requiredApprovals: number;
+  message?: string;
+}
+
+/**
+ * SOS account lock lifecycle
+ * Unlocking is enforced server-side (secure_account_unlock migration): the
+ * locked user enters their own PIN, or enough connections approve.
+ */
+class AccountLockService {
+  /**
+   * Get the lock status of a user (for the locked user and their connections)
+   */
+  async getLockStatus(userId: string): Promise<AccountLockStatus | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_account_lock_status', {
+        p_user_id: userId,
+      });
+
+      if (error) {
+        logger.error('Error loading account lock status:', error?.message || error?.code || String(error));
+        return null;
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return row ? this.mapDbRowToLockStatus(row) : null;
+    } catch (error: any) {
+      logger.error('Error in getLockStatus:', error?.message || String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Unlock the current user's account with their PIN
+   * The duress PIN also unlocks, and starts a silent SOS server-side
+   */
+  async unlockWithPin(pin: string, location: Location | null = null): Promise<PinUnlockResult> {
+    try {
+      const { data, error } = await supabase.rpc('unlock_account_with_pin', {
+        p_pin: pin,
+        p_location: location,
+      });
+
+      if (error) {
+        logger.error('Error unlocking with PIN:', error?.message || error?.code || String(error));
+        return { unlocked: false, attemptsRemaining: null, duress: false, message: error.message };
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return {
+        unlocked: !!row?.unlocked,
+        attemptsRemaining: row?.attempts_remaining ?? null,
+        duress: !!row?.duress,
+      };
+    } catch (error: any) {
+      logger.error('Error in unlockWithPin:', error?.message || String(error));
+      return { unlocked: false, attemptsRemaining: null, duress: false, message: error?.message };
+    }
+  }
+
+  /**
+   * Approve unlocking a connection's account
+   * The account is unlocked once the required number of connections approve
+   */
+  async approveUnlock(userId: string): Promise<UnlockApprovalResult> {
+    try {
+      const { data, error } = await supabase.rpc('approve_account_unlock', {
+        p_user_id: userId,
+      });
+
+      if (error) {
+        logger.error('Error approving unlock:', error?.message || error?.code || String(error));
+        return { unlocked: false, approvals: 0, requiredApprovals: 0, message: error.message };
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return {
+        unlocked: !!row?.unlocked,
+        approvals: row?.approvals ?? 0,
+        requiredApprovals: row?.required_approvals ?? 0,
+      };
+    } catch (error: any) {
+      logger.error('Error in approveUnlock:', error?.message || String(error));
+      return { unlocked: false, approvals: 0, requiredApprovals: 0, message: error?.message };
+    }
+  }
+
+  /**
+   * Set or change the current user's unlock PIN (4-8 digits)
+   * Not allowed while the account is locked
+   */
+  async setPin(pin: string): Promise<{ success: boolean; message?: string }> {
+    try {
+      const { error } = await supabase.rpc('set_unlock_pin', { p_pin: pin });
+
+      if (error) {
+        logger.error('Error setting unlock PIN:', error?.message || error?.code || String(error));
+        return { success: false, message: error.message };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      logger.error('Error in setPin:', error?.message || String(error));
+      return { success: false, message: error?.message };
+    }
+  }
+
+  /**
+   * Remove the current user's unlock PIN
+   */
+  async removePin(): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('remove_unlock_pin');
+
+      if (error) {
+        logger.error('Error removing unlock PIN:', error?.message || error?.code || String(error));
+        return false;
+      }
+
+      return true;
+    } catch (error: any) {
+      logger.error('Error in removePin:', error?.message || String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Check if the current user has a duress PIN
+   */
+  async hasDuressPin(): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('has_duress_pin');
+
+      if (error) {
+        logger.error('Error checking duress PIN:', error?.message || error?.code || String(error));
+        return false;
+      }
+
+      return !!data;
+    } catch (error: any) {
+      logger.error('Error in hasDuressPin:', error?.message || String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Set or change the current user's duress PIN
+   * Requires an unlock PIN, and must differ from it
+   */
+  async setDuressPin(pin: string): Promise<{ success: boolean; message?: string }> {
+    try {
+      const { error } = await supabase.rpc('set_duress_pin', { p_pin: pin });
+
+      if (error) {
+        logger.error('Error setting duress PIN:', error?.message || error?.code || String(error));
+        return { success: false, message: error.message };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      logger.error('Error in setDuressPin:', error?.message || String(error));
+      return { success: false, message: error?.message };
+    }
+  }
+
+  /**
+   * Remove the current user's duress PIN
+   */
+  async removeDuressPin(): Promise<boolean> {
+    try {
+      const { error } = await supabase.rpc('remove_duress_pin');
+
+      if (error) {
+        logger.error('Error removing duress PIN:', error?.message || error?.code || String(error));
+        return false;
+      }
+
+      return true;
+    } catch (error: any) {
+      logger.error('Error in removeDuressPin:', error?.message || String(error));
+      return false;
+    }
+  }
+
+  /**
+   * End a connection's silent SOS once they are known to be safe
+   */
+  async endSilentSOS(userId: string): Promise<{ success: boolean; message?: string }> {
+    try {
+      const { error } = await supabase.rpc('end_silent_sos', { p_user_id: userId });
+
+      if (error) {
+        logger.error('Error ending silent SOS:', error?.message || error?.code || String(error));
+        return { success: false, message: error.message };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      logger.error('Error in endSilentSOS:', error?.message || String(error));
+      return { success: false, message: error?.message };
+    }
+  }
+
+  /**
+   * Get how many connections must approve an unlock
+   */
+  async getUnlockQuorum(userId: string): Promise<number> {
+    try {
+      const { data, error } = await supabase
+        .from('user_settings')
+        .select('unlock_quorum')
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        logger.error('Error loading unlock quorum:', error?.message || error?.code || String(error));
+        return 1;
+      }
+
+      return data?.unlock_quorum || 1;
+    } catch (error: any) {
+      logger.error('Error in getUnlockQuorum:', error?.message || String(error));
+      return 1;
+    }
+  }
+
+  /**
+   * Set how many connections must approve an unlock (1-5)
+   * Applies to the next lock; capped at the number of connections when locking
+   */
+  async setUnlockQuorum(userId: string, quorum: number): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('user_settings')
+        .upsert(
+          {
+            user_id: userId,
+            unlock_quorum: Math.min(5, Math.max(1, Math.round(quorum))),
+          },
+          {
+            onConflict: 'user_id',
+          }
+        );
+
+      if (error) {
+        logger.error('Error saving unlock quorum:', error?.message || error?.code || String(error));
+        return false;
+      }
+
+      return true;
+    } catch (error: any) {
+      logger.error('Error in setUnlockQuorum:', error?.message || String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Get the lock audit log for a user (most recent first)
+   */
+  async getLockEvents(userId: string, limit: number = 50): Promise<AccountLockEvent[]> {
+    try {
+      const { data, error } = await supabase
+        .from('account_lock_events')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(limit);
+
+      if (error) {
+        logger.error('Error loading account lock events:', error?.message || error?.code || String(error));
+        return [];
+      }
+
+      return (data || []).map((row: any) => this.mapDbRowToLockEvent(row));
+    } catch (error: any) {
+      logger.error('Error in getLockEvents:', error?.message || String(error));
+      return [];
+    }
+  }
+
+  private mapDbRowToLockStatus(row: any): AccountLockStatus {
+    return {
+      lockId: row.lock_id || null,
+      isLocked: !!row.is_locked,
+      lockedAt: row.locked_at || null,
+      requiredApprovals: row.required_approvals ?? 1,
+      approverIds: Array.isArray(row.approver_ids) ? row.approver_ids : [],
+      hasPin: !!row.has_pin,
+      pinAttemptsRemaining: row.pin_attempts_remaining ?? null,
+    };
+  }
+
+  private mapDbRowToLockEvent(row: any): AccountLockEvent {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      lockId: row.lock_id || null,
+      actorId: row.actor_id || null,
+      actorName: row.actor_name || null,
+      action: row.action,
+      method: row.method || null,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+export const accountLockService = new AccountLockService();
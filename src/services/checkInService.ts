@@ -1,10 +1,10 @@
 import { supabase } from '../lib/supabase';
 import { locationService } from './locationService';
+import { circleService } from './circleService';
 import type { UserCheckIn, CheckInSettings, Location } from '../types';
 
 class CheckInService {
   private checkInInterval: NodeJS.Timeout | null = null;
-  private missedCheckInCheckInterval: NodeJS.Timeout | null = null;
   private userId: string | null = null;
   private settings: CheckInSettings | null = null;
 
@@ -16,7 +16,6 @@ class CheckInService {
     await this.loadSettings();
     if (this.settings?.enabled) {
       this.startPeriodicCheckIn();
-      this.startMissedCheckInMonitoring();
     }
   }
 
@@ -28,10 +27,6 @@ class CheckInService {
       clearInterval(this.checkInInterval);
       this.checkInInterval = null;
     }
-    if (this.missedCheckInCheckInterval) {
-      clearInterval(this.missedCheckInCheckInterval);
-      this.missedCheckInCheckInterval = null;
-    }
     this.userId = null;
     this.settings = null;
   }
@@ -188,7 +183,6 @@ class CheckInService {
       this.stop();
       if (this.settings?.enabled) {
         this.startPeriodicCheckIn();
-        this.startMissedCheckInMonitoring();
       }
 
       return true;
@@ -199,40 +193,14 @@ class CheckInService {
   }
 
   /**
-   * Get all connected user IDs
+   * Get the connected user IDs whose circles get check-in alerts
    */
   private async getConnectedUserIds(): Promise<string[]> {
     if (!this.userId) return [];
 
     try {
-      // Get connections where this user is the main user
-      const { data: connections1, error: error1 } = await supabase
-        .from('connections')
-        .select('connected_user_id')
-        .eq('user_id', this.userId)
-        .eq('status', 'connected');
-
-      // Get connections where this user is the connected user
-      const { data: connections2, error: error2 } = await supabase
-        .from('connections')
-        .select('user_id')
-        .eq('connected_user_id', this.userId)
-        .eq('status', 'connected');
-
-      if (error1 || error2) {
-        console.error('Error fetching connected users:', error1 || error2);
-        return [];
-      }
-
-      const userIds = new Set<string>();
-      (connections1 || []).forEach((conn) => {
-        if (conn.connected_user_id) userIds.add(conn.connected_user_id);
-      });
-      (connections2 || []).forEach((conn) => {
-        if (conn.user_id) userIds.add(conn.user_id);
-      });
-
-      return Array.from(userIds);
+      const recipientIds = await circleService.getRecipientIds(this.userId, 'check_in');
+      return recipientIds || [];
     } catch (error) {
       console.error('Error in getConnectedUserIds:', error);
       return [];
@@ -269,6 +237,8 @@ class CheckInService {
       
       const location = await Promise.race([locationPromise, locationTimeout]);
       
+      // Missed check-ins are escalated server-side (process-missed-check-ins) once this
+      // time passes without a newer check-in
       const nextCheckInDue = this.settings
         ? new Date(Date.now() + this.settings.checkInIntervalMinutes * 60 * 1000).toISOString()
         : undefined;
@@ -522,61 +492,6 @@ class CheckInService {
     }, intervalMs);
   }
 
-  /**
-   * Start monitoring for missed check-ins
-   * DISABLED: No longer monitoring for missed check-ins to prevent resending notifications
-   */
-  private startMissedCheckInMonitoring(): void {
-    // Disabled - notifications should only be sent once
-    return;
-  }
-
-  /**
-   * Handle missed check-in
-   */
-  private async handleMissedCheckIn(lastCheckIn: UserCheckIn): Promise<void> {
-    if (!this.userId) return;
-
-    try {
-      // Check if notification was already sent for this check-in
-      // If status is already 'missed', skip sending notifications
-      // This ensures notifications are only sent once
-      if (lastCheckIn.status === 'missed') {
-        return; // Notification already sent, don't send again
-      }
-
-      // Update last check-in status to missed
-      await supabase
-        .from('user_check_ins')
-        .update({ status: 'missed' })
-        .eq('id', lastCheckIn.id);
-
-      // Get user name for notification
-      const { data: userData } = await supabase
-        .from('users')
-        .select('name')
-        .eq('id', this.userId)
-        .single();
-
-      const userName = userData?.name || 'User';
-
-      // Notify all connected users and emergency contacts
-      const connectedUserIds = await this.getConnectedUserIds();
-      const allRecipients = new Set<string>(connectedUserIds);
-      
-      if (this.settings?.emergencyContacts) {
-        this.settings.emergencyContacts.forEach((id) => allRecipients.add(id));
-      }
-
-      // Notifications removed - missed check-in data is still tracked
-
-      // Notifications removed
-    } catch (error) {
-      console.error('Error handling missed check-in:', error);
-    }
-  }
-
-
   /**
    * Format time ago
    */
@@ -0,0 +1,270 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import type { Circle, CircleMember, CirclePermission, CircleRole } from '../types';
+
+const CIRCLE_RECIPIENTS_STORAGE_KEY = 'circle_recipients';
+
+export type CircleInput = Pick<Circle, 'name' | 'shareLocation' | 'sosAlerts' | 'checkInAlerts' | 'unlockApproval'>;
+
+/**
+ * Connection circles (Family, Work, Neighbors, ...) and member roles
+ * What each circle gets (location, SOS, check-in alerts, unlock approval) is
+ * enforced server-side (connection_circles migration); connections that are
+ * not in any circle get everything.
+ */
+class CircleService {
+  /**
+   * Get the user's circles with their members
+   */
+  async getCircles(ownerId: string): Promise<Circle[]> {
+    try {
+      const { data, error } = await supabase
+        .from('circles')
+        .select('*, circle_members(*)')
+        .eq('owner_id', ownerId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        logger.error('Error loading circles:', error?.message || error?.code || String(error));
+        return [];
+      }
+
+      return (data || []).map((row: any) => this.mapDbRowToCircle(row));
+    } catch (error: any) {
+      logger.error('Error in getCircles:', error?.message || String(error));
+      return [];
+    }
+  }
+
+  /**
+   * Create a circle
+   */
+  async createCircle(ownerId: string, circle: CircleInput): Promise<Circle | null> {
+    try {
+      const { data, error } = await supabase
+        .from('circles')
+        .insert({
+          owner_id: ownerId,
+          ...this.mapCircleToDbRow(circle),
+        })
+        .select('*, circle_members(*)')
+        .single();
+
+      if (error) {
+        logger.error('Error creating circle:', error?.message || error?.code || String(error));
+        return null;
+      }
+
+      return this.mapDbRowToCircle(data);
+    } catch (error: any) {
+      logger.error('Error in createCircle:', error?.message || String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Rename a circle or change what its members get
+   */
+  async updateCircle(circleId: string, updates: Partial<CircleInput>): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('circles')
+        .update(this.mapCircleToDbRow(updates))
+        .eq('id', circleId);
+
+      if (error) {
+        logger.error('Error updating circle:', error?.message || error?.code || String(error));
+        return false;
+      }
+
+      return true;
+    } catch (error: any) {
+      logger.error('Error in updateCircle:', error?.message || String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Delete a circle (members are removed by cascade)
+   */
+  async deleteCircle(circleId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('circles')
+        .delete()
+        .eq('id', circleId);
+
+      if (error) {
+        logger.error('Error deleting circle:', error?.message || error?.code || String(error));
+        return false;
+      }
+
+      return true;
+    } catch (error: any) {
+      logger.error('Error in deleteCircle:', error?.message || String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Add a connection to a circle
+   */
+  async addMember(circleId: string, memberId: string, role: CircleRole = 'member'): Promise<CircleMember | null> {
+    try {
+      const { data, error } = await supabase
+        .from('circle_members')
+        .insert({
+          circle_id: circleId,
+          member_id: memberId,
+          role,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error('Error adding circle member:', error?.message || error?.code || String(error));
+        return null;
+      }
+
+      return this.mapDbRowToMember(data);
+    } catch (error: any) {
+      logger.error('Error in addMember:', error?.message || String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Change a member's role in a circle
+   */
+  async setMemberRole(memberRowId: string, role: CircleRole): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('circle_members')
+        .update({ role })
+        .eq('id', memberRowId);
+
+      if (error) {
+        logger.error('Error updating circle member role:', error?.message || error?.code || String(error));
+        return false;
+      }
+
+      return true;
+    } catch (error: any) {
+      logger.error('Error in setMemberRole:', error?.message || String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Remove a connection from a circle
+   */
+  async removeMember(memberRowId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('circle_members')
+        .delete()
+        .eq('id', memberRowId);
+
+      if (error) {
+        logger.error('Error removing circle member:', error?.message || error?.code || String(error));
+        return false;
+      }
+
+      return true;
+    } catch (error: any) {
+      logger.error('Error in removeMember:', error?.message || String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Get the connections that get a permission from the user's circles
+   * The result is cached, so the last known recipients are used offline.
+   * Returns null if they could not be loaded and nothing is cached.
+   */
+  async getRecipientIds(userId: string, permission: CirclePermission): Promise<string[] | null> {
+    try {
+      const { data, error } = await supabase.rpc('get_circle_recipients', {
+        p_user_id: userId,
+        p_permission: permission,
+      });
+
+      if (error) {
+        logger.error('Error loading circle recipients:', error?.message || error?.code || String(error));
+        return this.getCachedRecipientIds(userId, permission);
+      }
+
+      const recipientIds = (data || [])
+        .map((row: any) => row.recipient_id)
+        .filter((id: unknown): id is string => typeof id === 'string');
+      await this.cacheRecipientIds(userId, permission, recipientIds);
+      return recipientIds;
+    } catch (error: any) {
+      logger.error('Error in getRecipientIds:', error?.message || String(error));
+      return this.getCachedRecipientIds(userId, permission);
+    }
+  }
+
+  /**
+   * Get the last loaded recipients for a permission (null if never loaded)
+   */
+  async getCachedRecipientIds(userId: string, permission: CirclePermission): Promise<string[] | null> {
+    try {
+      const stored = await AsyncStorage.getItem(CIRCLE_RECIPIENTS_STORAGE_KEY);
+      const cache: Record<string, string[]> = stored ? JSON.parse(stored) : {};
+      return cache[`${userId}:${permission}`] || null;
+    } catch (error: any) {
+      logger.error('Error reading circle recipients cache:', error?.message || String(error));
+      return null;
+    }
+  }
+
+  private async cacheRecipientIds(userId: string, permission: CirclePermission, recipientIds: string[]): Promise<void> {
+    try {
+      const stored = await AsyncStorage.getItem(CIRCLE_RECIPIENTS_STORAGE_KEY);
+      const cache: Record<string, string[]> = stored ? JSON.parse(stored) : {};
+      cache[`${userId}:${permission}`] = recipientIds;
+      await AsyncStorage.setItem(CIRCLE_RECIPIENTS_STORAGE_KEY, JSON.stringify(cache));
+    } catch (error: any) {
+      logger.error('Error caching circle recipients:', error?.message || String(error));
+    }
+  }
+
+  private mapCircleToDbRow(circle: Partial<CircleInput>): Record<string, any> {
+    const row: Record<string, any> = {};
+    if (circle.name !== undefined) row.name = circle.name.trim();
+    if (circle.shareLocation !== undefined) row.share_location = circle.shareLocation;
+    if (circle.sosAlerts !== undefined) row.sos_alerts = circle.sosAlerts;
+    if (circle.checkInAlerts !== undefined) row.check_in_alerts = circle.checkInAlerts;
+    if (circle.unlockApproval !== undefined) row.unlock_approval = circle.unlockApproval;
+    return row;
+  }
+
+  private mapDbRowToCircle(row: any): Circle {
+    return {
+      id: row.id,
+      ownerId: row.owner_id,
+      name: row.name,
+      shareLocation: row.share_location ?? true,
+      sosAlerts: row.sos_alerts ?? true,
+      checkInAlerts: row.check_in_alerts ?? true,
+      unlockApproval: row.unlock_approval ?? true,
+      members: (row.circle_members || []).map((member: any) => this.mapDbRowToMember(member)),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapDbRowToMember(row: any): CircleMember {
+    return {
+      id: row.id,
+      circleId: row.circle_id,
+      memberId: row.member_id,
+      role: row.role || 'member',
+      createdAt: row.created_at,
+    };
+  }
+}
+
+export const circleService = new CircleService();
@@ -0,0 +1,169 @@
+import * as Contacts from 'expo-contacts';
+import * as Crypto from 'expo-crypto';
+import { supabase } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import { normalizePhoneNumber } from '../utils/phoneNumber';
+import type { ContactMatch } from '../types';
+
+// Server limit per call (match_contact_hashes)
+const MATCH_BATCH_SIZE = 1000;
+const CONTACTS_PAGE_SIZE = 500;
+
+/**
+ * Opt-in contacts import: find which contacts already use the app
+ * Numbers are normalized to E.164 and hashed on the device; only the hashes
+ * are sent (contact_discovery migration).
+ */
+class ContactsService {
+  /**
+   * Check whether contacts access was granted
+   */
+  async hasPermission(): Promise<boolean> {
+    try {
+      const { status } = await Contacts.getPermissionsAsync();
+      return status === 'granted';
+    } catch (error: any) {
+      logger.error('Error checking contacts permission:', error?.message || String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Ask for contacts access
+   */
+  async requestPermission(): Promise<boolean> {
+    try {
+      const { status } = await Contacts.requestPermissionsAsync();
+      return status === 'granted';
+    } catch (error: any) {
+      logger.error('Error requesting contacts permission:', error?.message || String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Hash an E.164 number the same way as users.phone_hash
+   */
+  async hashPhoneNumber(e164: string): Promise<string> {
+    return Crypto.digestStringAsync(Crypto.CryptoDigestAlgorithm.SHA256, `famguard-contacts:${e164}`);
+  }
+
+  /**
+   * Read the address book and match it against registered users
+   * region: used for numbers saved without a country code.
+   * Contacts already on the app come first; message is set if matching stopped early.
+   */
+  async findContacts(region: string): Promise<{ contacts: ContactMatch[]; message?: string }> {
+    try {
+      // One entry per contact, one contact per number
+      const contactsByNumber = new Map<string, ContactMatch>();
+      let pageOffset = 0;
+      let hasNextPage = true;
+
+      while (hasNextPage) {
+        const { data, hasNextPage: more } = await Contacts.getContactsAsync({
+          fields: [Contacts.Fields.Name, Contacts.Fields.PhoneNumbers],
+          pageSize: CONTACTS_PAGE_SIZE,
+          pageOffset,
+          sort: Contacts.SortTypes.FirstName,
+        });
+
+        data.forEach((contact) => {
+          (contact.phoneNumbers || []).forEach((phone) => {
+            const e164 = normalizePhoneNumber(phone.number, region);
+            if (!e164 || contactsByNumber.has(e164)) return;
+
+            contactsByNumber.set(e164, {
+              contactId: contact.id || e164,
+              contactName: contact.name || phone.number || e164,
+              phoneNumber: e164,
+              userId: null,
+              userName: null,
+              userPhoto: null,
+              isConnected: false,
+              invitationPending: false,
+            });
+          });
+        });
+
+        hasNextPage = more;
+        pageOffset += CONTACTS_PAGE_SIZE;
+      }
+
+      const numbersByHash = new Map<string, string>();
+      for (const e164 of contactsByNumber.keys()) {
+        numbersByHash.set(await this.hashPhoneNumber(e164), e164);
+      }
+
+      const hashes = Array.from(numbersByHash.keys());
+      let message: string | undefined;
+
+      for (let i = 0; i < hashes.length; i += MATCH_BATCH_SIZE) {
+        const { data, error } = await supabase.rpc('match_contact_hashes', {
+          p_hashes: hashes.slice(i, i + MATCH_BATCH_SIZE),
+        });
+
+        if (error) {
+          logger.error('Error matching contacts:', error?.message || error?.code || String(error));
+          message = error.message;
+          break;
+        }
+
+        (data || []).forEach((row: any) => {
+          const e164 = numbersByHash.get(row.phone_hash);
+          const contact = e164 ? contactsByNumber.get(e164) : undefined;
+          if (!contact) return;
+
+          contact.userId = row.user_id;
+          contact.userName = row.name || null;
+          contact.userPhoto = row.photo || null;
+          contact.isConnected = !!row.is_connected;
+          contact.invitationPending = !!row.invitation_pending;
+        });
+      }
+
+      // A contact with several numbers is listed once, preferring a number on the app
+      const contactsById = new Map<string, ContactMatch>();
+      contactsByNumber.forEach((contact) => {
+        const existing = contactsById.get(contact.contactId);
+        if (!existing || (!existing.userId && contact.userId)) {
+          contactsById.set(contact.contactId, contact);
+        }
+      });
+
+      const contacts = Array.from(contactsById.values()).sort((a, b) => {
+        if (!!a.userId !== !!b.userId) return a.userId ? -1 : 1;
+        return a.contactName.localeCompare(b.contactName);
+      });
+
+      return { contacts, message };
+    } catch (error: any) {
+      logger.error('Error in findContacts:', error?.message || String(error));
+      return { contacts: [], message: error?.message };
+    }
+  }
+
+  /**
+   * Send a connection invitation to a contact who already uses the app
+   */
+  async inviteUser(userId: string): Promise<{ success: boolean; message?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('send_contact_invitation', {
+        p_invitee_id: userId,
+      });
+
+      if (error) {
+        logger.error('Error sending contact invitation:', error?.message || error?.code || String(error));
+        return { success: false, message: error.message };
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return { success: !!row?.success, message: row?.message || undefined };
+    } catch (error: any) {
+      logger.error('Error in inviteUser:', error?.message || String(error));
+      return { success: false, message: error?.message };
+    }
+  }
+}
+
+export const contactsService = new ContactsService();
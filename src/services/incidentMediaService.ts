@@ -0,0 +1,461 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Crypto from 'expo-crypto';
+import { Directory, File, Paths } from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import * as VideoThumbnails from 'expo-video-thumbnails';
+import * as tus from 'tus-js-client';
+import { supabase, supabaseProjectUrl } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import { readVideoDurationSeconds, scrubVideoLocation } from '../utils/mediaMetadata';
+import type { IncidentMedia, IncidentMediaDraft, IncidentMediaFailureReason, IncidentMediaUploadProgress } from '../types';
+
+// Keep in sync with enforce_incident_media_limit (incident_media migration)
+export const INCIDENT_MEDIA_MAX_ITEMS = 5;
+export const INCIDENT_MEDIA_MAX_VIDEO_SECONDS = 30;
+
+const BUCKET = 'incident-media';
+const PHOTO_MAX_DIMENSION = 1920;
+const THUMBNAIL_MAX_DIMENSION = 320;
+// Supabase's resumable endpoint only accepts 6 MB chunks
+const UPLOAD_CHUNK_SIZE = 6 * 1024 * 1024;
+const UPLOAD_RETRY_DELAYS = [0, 3000, 5000, 10000, 20000];
+
+const UPLOAD_QUEUE_STORAGE_KEY = 'incident_media_upload_queue';
+const TUS_UPLOAD_STORAGE_PREFIX = 'incident_media_tus:';
+const LOCAL_MEDIA_DIRECTORY = 'incident-media';
+
+// A prepared (metadata-stripped) file waiting to be uploaded
+interface QueuedMediaUpload {
+  id: string;
+  incidentId: string;
+  userId: string;
+  type: IncidentMedia['type'];
+  position: number;
+  fileUri: string;
+  thumbnailUri: string;
+  contentType: string;
+  storagePath: string;
+  thumbnailPath: string;
+  width: number | null;
+  height: number | null;
+  durationSeconds: number | null;
+  sizeBytes: number;
+}
+
+// tus-js-client's types only cover browser and Node inputs; on React Native it
+// reads a { uri } object by fetching the uri as a Blob
+type TusUploadInput = ConstructorParameters<typeof tus.Upload>[0];
+const toTusUploadInput = (uri: string): TusUploadInput => ({ uri }) as unknown as TusUploadInput;
+
+// The message is for logs; the screen shows a translated text for the reason
+const mediaFailure = (reason: IncidentMediaFailureReason, message: string): Error & { reason: IncidentMediaFailureReason } =>
+  Object.assign(new Error(message), { reason });
+
+// Upload URLs by fingerprint, so an interrupted upload resumes where it stopped
+const tusUrlStorage: tus.UrlStorage = {
+  async findAllUploads() {
+    const keys = (await AsyncStorage.getAllKeys()).filter((key) => key.startsWith(TUS_UPLOAD_STORAGE_PREFIX));
+    const entries = await AsyncStorage.multiGet(keys);
+    return entries.filter(([, value]) => !!value).map(([, value]) => JSON.parse(value as string));
+  },
+  async findUploadsByFingerprint(fingerprint: string) {
+    const value = await AsyncStorage.getItem(TUS_UPLOAD_STORAGE_PREFIX + fingerprint);
+    return value ? [JSON.parse(value)] : [];
+  },
+  async removeUpload(urlStorageKey: string) {
+    await AsyncStorage.removeItem(urlStorageKey);
+  },
+  async addUpload(fingerprint: string, upload: tus.PreviousUpload) {
+    const key = TUS_UPLOAD_STORAGE_PREFIX + fingerprint;
+    await AsyncStorage.setItem(key, JSON.stringify({ ...upload, urlStorageKey: key }));
+    return key;
+  },
+};
+
+const getLocalMediaDirectory = (): Directory => {
+  const directory = new Directory(Paths.document, LOCAL_MEDIA_DIRECTORY);
+  if (!directory.exists) {
+    directory.create({ intermediates: true, idempotent: true });
+  }
+  return directory;
+};
+
+const deleteLocalFile = (uri: string): void => {
+  try {
+    const file = new File(uri);
+    if (file.exists) file.delete();
+  } catch (error: any) {
+    logger.warn('Could not delete local incident media file:', error?.message || String(error));
+  }
+};
+
+/**
+ * Photo/video evidence on incidents
+ * Files are stripped of location metadata on the device (photos are
+ * re-encoded, clips have their location atoms blanked), then uploaded through
+ * Storage's resumable (TUS) endpoint. Prepared files are queued in
+ * AsyncStorage until their incident_media row exists, so uploads cut off by a
+ * bad connection or an app restart are picked up by resumePendingUploads().
+ */
+class IncidentMediaService {
+  private isResuming = false;
+
+  /**
+   * Map an incident_media row to the app type
+   */
+  mapMediaRow(row: any): IncidentMedia {
+    return {
+      id: row.id,
+      incidentId: row.incident_id,
+      type: row.media_type,
+      url: supabase.storage.from(BUCKET).getPublicUrl(row.storage_path).data.publicUrl,
+      thumbnailUrl: supabase.storage.from(BUCKET).getPublicUrl(row.thumbnail_path).data.publicUrl,
+      width: row.width ?? null,
+      height: row.height ?? null,
+      durationSeconds: row.duration_seconds ?? null,
+      createdAt: row.created_at,
+    };
+  }
+
+  /**
+   * Map and order the incident_media rows embedded in an incidents query
+   */
+  mapMediaRows(rows: any[] | null | undefined): IncidentMedia[] {
+    return (rows || [])
+      .slice()
+      .sort((a, b) => (a.position ?? 0) - (b.position ?? 0))
+      .map((row) => this.mapMediaRow(row));
+  }
+
+  /**
+   * Upload evidence for a newly reported incident
+   * Items that fail are left queued and retried by resumePendingUploads().
+   */
+  async uploadIncidentMedia(
+    incidentId: string,
+    userId: string,
+    drafts: IncidentMediaDraft[],
+    onProgress?: (progress: IncidentMediaUploadProgress) => void
+  ): Promise<{ uploaded: IncidentMedia[]; queued: number; failed: number }> {
+    const uploaded: IncidentMedia[] = [];
+    let queued = 0;
+    let failed = 0;
+
+    for (const [index, draft] of drafts.slice(0, INCIDENT_MEDIA_MAX_ITEMS).entries()) {
+      onProgress?.({ index, bytesSent: 0, bytesTotal: 0, status: 'preparing' });
+
+      let item: QueuedMediaUpload;
+      try {
+        item = await this.prepareMedia(draft, incidentId, userId, index);
+        await this.enqueue(item);
+      } catch (error: any) {
+        logger.error('Error preparing incident media:', error?.message || String(error));
+        onProgress?.({ index, bytesSent: 0, bytesTotal: 0, status: 'failed', failureReason: error?.reason });
+        failed++;
+        continue;
+      }
+
+      try {
+        const media = await this.processUpload(item, (bytesSent, bytesTotal) =>
+          onProgress?.({ index, bytesSent, bytesTotal, status: 'uploading' })
+        );
+        uploaded.push(media);
+        onProgress?.({ index, bytesSent: item.sizeBytes, bytesTotal: item.sizeBytes, status: 'done' });
+      } catch (error: any) {
+        if (this.isPermanentFailure(error)) {
+          logger.warn('Incident media can not be uploaded:', error?.message || String(error));
+          await this.discard(item);
+          onProgress?.({
+            index,
+            bytesSent: 0,
+            bytesTotal: item.sizeBytes,
+            status: 'failed',
+            failureReason: this.isLimitFailure(error) ? 'limit_reached' : undefined,
+          });
+          failed++;
+          continue;
+        }
+
+        logger.warn('Incident media upload interrupted, queued for retry:', error?.message || String(error));
+        onProgress?.({ index, bytesSent: 0, bytesTotal: item.sizeBytes, status: 'queued' });
+        queued++;
+      }
+    }
+
+    return { uploaded, queued, failed };
+  }
+
+  /**
+   * Retry queued uploads for a user (app start, reconnect)
+   * Returns the media that finished uploading.
+   */
+  async resumePendingUploads(userId: string): Promise<IncidentMedia[]> {
+    if (this.isResuming) return [];
+    this.isResuming = true;
+
+    const uploaded: IncidentMedia[] = [];
+    try {
+      const pending = (await this.loadQueue()).filter((item) => item.userId === userId);
+      for (const item of pending) {
+        if (!new File(item.fileUri).exists) {
+          // Local copy is gone (app data cleared) - nothing left to upload
+          await this.dequeue(item.id);
+          continue;
+        }
+
+        try {
+          uploaded.push(await this.processUpload(item));
+        } catch (error: any) {
+          if (this.isPermanentFailure(error)) {
+            logger.warn('Dropping incident media that can no longer be uploaded:', error?.message || String(error));
+            await this.discard(item);
+          } else {
+            logger.warn('Incident media upload still pending:', error?.message || String(error));
+          }
+        }
+      }
+    } catch (error: any) {
+      logger.error('Error resuming incident media uploads:', error?.message || String(error));
+    } finally {
+      this.isResuming = false;
+    }
+
+    return uploaded;
+  }
+
+  /**
+   * Strip location metadata and write a thumbnail, both into app storage
+   */
+  private async prepareMedia(
+    draft: IncidentMediaDraft,
+    incidentId: string,
+    userId: string,
+    position: number
+  ): Promise<QueuedMediaUpload> {
+    const id = Crypto.randomUUID();
+    const directory = getLocalMediaDirectory();
+
+    let file: File;
+    let width: number | null = draft.width || null;
+    let height: number | null = draft.height || null;
+    let durationSeconds: number | null = null;
+    let contentType: string;
+    let extension: string;
+    let thumbnailSourceUri: string;
+
+    if (draft.type === 'photo') {
+      // Re-encoding drops EXIF (GPS included)
+      const context = ImageManipulator.manipulate(draft.uri);
+      if (Math.max(draft.width, draft.height) > PHOTO_MAX_DIMENSION) {
+        context.resize(draft.width >= draft.height ? { width: PHOTO_MAX_DIMENSION } : { height: PHOTO_MAX_DIMENSION });
+      }
+      const image = await context.renderAsync();
+      const result = await image.saveAsync({ compress: 0.8, format: SaveFormat.JPEG });
+
+      file = new File(directory, `${id}.jpg`);
+      new File(result.uri).move(file);
+      width = result.width;
+      height = result.height;
+      contentType = 'image/jpeg';
+      extension = 'jpg';
+      thumbnailSourceUri = file.uri;
+    } else {
+      const isQuickTime = /\.mov$/i.test(draft.uri);
+      extension = isQuickTime ? 'mov' : 'mp4';
+      contentType = isQuickTime ? 'video/quicktime' : 'video/mp4';
+
+      file = new File(directory, `${id}.${extension}`);
+      new File(draft.uri).copy(file);
+
+      const bytes = await file.bytes();
+      if (scrubVideoLocation(bytes) < 0) {
+        file.delete();
+        throw mediaFailure('unsupported_format', 'Unsupported video format');
+      }
+
+      // The server rejects longer clips too (incident_media duration check)
+      durationSeconds = readVideoDurationSeconds(bytes) ?? draft.durationSeconds ?? null;
+      if (durationSeconds === null || durationSeconds > INCIDENT_MEDIA_MAX_VIDEO_SECONDS + 1) {
+        file.delete();
+        throw mediaFailure('too_long', `Videos can be at most ${INCIDENT_MEDIA_MAX_VIDEO_SECONDS} seconds long`);
+      }
+      file.write(bytes);
+
+      const frame = await VideoThumbnails.getThumbnailAsync(file.uri, { time: 0, quality: 0.8 });
+      thumbnailSourceUri = frame.uri;
+    }
+
+    // Thumbnails are re-encoded too, so they carry no metadata either
+    const thumbnailContext = ImageManipulator.manipulate(thumbnailSourceUri);
+    thumbnailContext.resize({ width: THUMBNAIL_MAX_DIMENSION });
+    const thumbnailImage = await thumbnailContext.renderAsync();
+    const thumbnailResult = await thumbnailImage.saveAsync({ compress: 0.7, format: SaveFormat.JPEG });
+    const thumbnail = new File(directory, `${id}_thumb.jpg`);
+    new File(thumbnailResult.uri).move(thumbnail);
+    if (thumbnailSourceUri !== file.uri) deleteLocalFile(thumbnailSourceUri);
+
+    return {
+      id,
+      incidentId,
+      userId,
+      type: draft.type,
+      position,
+      fileUri: file.uri,
+      thumbnailUri: thumbnail.uri,
+      contentType,
+      storagePath: `${incidentId}/${id}.${extension}`,
+      thumbnailPath: `${incidentId}/${id}_thumb.jpg`,
+      width,
+      height,
+      durationSeconds,
+      sizeBytes: file.size,
+    };
+  }
+
+  /**
+   * Upload a prepared item and record it; the queue entry is removed once the row exists
+   */
+  private async processUpload(
+    item: QueuedMediaUpload,
+    onProgress?: (bytesSent: number, bytesTotal: number) => void
+  ): Promise<IncidentMedia> {
+    await this.uploadFile(item.thumbnailUri, item.thumbnailPath, 'image/jpeg');
+    await this.uploadFile(item.fileUri, item.storagePath, item.contentType, onProgress);
+
+    // The id comes from the queue entry, so a retry after a lost response is a duplicate, not a second row
+    const { data, error } = await supabase
+      .from('incident_media')
+      .insert({
+        id: item.id,
+        incident_id: item.incidentId,
+        user_id: item.userId,
+        media_type: item.type,
+        storage_path: item.storagePath,
+        thumbnail_path: item.thumbnailPath,
+        width: item.width,
+        height: item.height,
+        duration_seconds: item.durationSeconds,
+        size_bytes: item.sizeBytes,
+        position: item.position,
+      })
+      .select()
+      .single();
+
+    let row = data;
+    if (error) {
+      if (error.code !== '23505') throw error;
+      const { data: existing, error: fetchError } = await supabase
+        .from('incident_media')
+        .select('*')
+        .eq('id', item.id)
+        .single();
+      if (fetchError) throw fetchError;
+      row = existing;
+    }
+
+    await this.discard(item);
+    return this.mapMediaRow(row);
+  }
+
+  /**
+   * Resumable upload of one local file to the incident-media bucket
+   */
+  private uploadFile(
+    uri: string,
+    objectName: string,
+    contentType: string,
+    onProgress?: (bytesSent: number, bytesTotal: number) => void
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const upload = new tus.Upload(toTusUploadInput(uri), {
+        endpoint: `${supabaseProjectUrl}/storage/v1/upload/resumable`,
+        chunkSize: UPLOAD_CHUNK_SIZE,
+        retryDelays: UPLOAD_RETRY_DELAYS,
+        uploadDataDuringCreation: true,
+        removeFingerprintOnSuccess: true,
+        headers: {
+          // A resumed upload may find the object already created by an earlier attempt
+          'x-upsert': 'true',
+        },
+        metadata: {
+          bucketName: BUCKET,
+          objectName,
+          contentType,
+          cacheControl: '3600',
+        },
+        urlStorage: tusUrlStorage,
+        fingerprint: async () => `${BUCKET}/${objectName}`,
+        // Sessions can refresh during a long upload - always send the current token
+        onBeforeRequest: async (req) => {
+          const { data: { session } } = await supabase.auth.getSession();
+          if (session?.access_token) {
+            req.setHeader('Authorization', `Bearer ${session.access_token}`);
+          }
+        },
+        onProgress: onProgress || null,
+        onError: reject,
+        onSuccess: () => resolve(),
+      });
+
+      upload
+        .findPreviousUploads()
+        .then((previousUploads) => {
+          if (previousUploads.length > 0) {
+            upload.resumeFromPreviousUpload(previousUploads[0]);
+          }
+          upload.start();
+        })
+        .catch(reject);
+    });
+  }
+
+  /**
+   * Errors retrying won't fix: the incident expired, or the media limit was reached
+   */
+  private isPermanentFailure(error: any): boolean {
+    const status = error?.originalResponse?.getStatus?.();
+    return (
+      status === 403 ||
+      error?.code === '23503' || // incident_id no longer exists
+      this.isLimitFailure(error)
+    );
+  }
+
+  /**
+   * The incident already has the maximum number of items (enforce_incident_media_limit)
+   */
+  private isLimitFailure(error: any): boolean {
+    return /at most \d+ photos or videos/.test(error?.message || '');
+  }
+
+  private async loadQueue(): Promise<QueuedMediaUpload[]> {
+    try {
+      const stored = await AsyncStorage.getItem(UPLOAD_QUEUE_STORAGE_KEY);
+      return stored ? JSON.parse(stored) : [];
+    } catch (error: any) {
+      logger.error('Error reading incident media upload queue:', error?.message || String(error));
+      return [];
+    }
+  }
+
+  private async enqueue(item: QueuedMediaUpload): Promise<void> {
+    const queue = await this.loadQueue();
+    await AsyncStorage.setItem(UPLOAD_QUEUE_STORAGE_KEY, JSON.stringify([...queue, item]));
+  }
+
+  private async dequeue(id: string): Promise<void> {
+    const queue = await this.loadQueue();
+    await AsyncStorage.setItem(UPLOAD_QUEUE_STORAGE_KEY, JSON.stringify(queue.filter((item) => item.id !== id)));
+  }
+
+  /**
+   * Remove an item from the queue and delete its local files
+   */
+  private async discard(item: QueuedMediaUpload): Promise<void> {
+    await this.dequeue(item.id);
+    deleteLocalFile(item.fileUri);
+    deleteLocalFile(item.thumbnailUri);
+  }
+}
+
+export const incidentMediaService = new IncidentMediaService();
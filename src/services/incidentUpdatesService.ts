@@ -0,0 +1,194 @@
+import { supabase } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import type { IncidentStatus, IncidentStatusVotes, IncidentUpdate, Location } from '../types';
+
+// Keep in sync with set_incident_status (incident_updates_and_status migration)
+export const INCIDENT_STATUS_CONSENSUS_VOTES = 3;
+
+/**
+ * Incident update threads and lifecycle status (incident_updates_and_status migration)
+ * Anyone can post updates and replies; the reporter changes the status
+ * directly and everyone else votes for one. All writes go through server
+ * functions.
+ */
+class IncidentUpdatesService {
+  /**
+   * Get the thread of an incident (oldest first, replies nested under their update)
+   */
+  async getUpdates(incidentId: string): Promise<IncidentUpdate[]> {
+    try {
+      const { data, error } = await supabase
+        .from('incident_updates')
+        .select('*')
+        .eq('incident_id', incidentId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        logger.error('Error fetching incident updates:', error?.message || error?.code || String(error));
+        return [];
+      }
+
+      return this.buildThread((data || []).map((row: any) => this.mapDbRowToUpdate(row)));
+    } catch (error: any) {
+      logger.error('Error in getUpdates:', error?.message || String(error));
+      return [];
+    }
+  }
+
+  /**
+   * Post an update, or a reply when parentId is given
+   * location: where the update is posted from, if the user chose to share it
+   */
+  async postUpdate(
+    incidentId: string,
+    body: string,
+    options: { parentId?: string | null; location?: Location | null; anonymous?: boolean } = {}
+  ): Promise<{ update: IncidentUpdate | null; message?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('post_incident_update', {
+        p_incident_id: incidentId,
+        p_body: body.trim(),
+        p_parent_id: options.parentId || null,
+        p_location: options.location
+          ? {
+              latitude: options.location.latitude,
+              longitude: options.location.longitude,
+              address: options.location.address || null,
+            }
+          : null,
+        p_anonymous: !!options.anonymous,
+      });
+
+      if (error) {
+        logger.error('Error posting incident update:', error?.message || error?.code || String(error));
+        return { update: null, message: error.message };
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return { update: row ? this.mapDbRowToUpdate(row) : null };
+    } catch (error: any) {
+      logger.error('Error in postUpdate:', error?.message || String(error));
+      return { update: null, message: error?.message };
+    }
+  }
+
+  /**
+   * Change the status (reporter) or vote for it (everyone else)
+   * Returns the incident's status afterwards and whether it changed.
+   */
+  async setStatus(
+    incidentId: string,
+    status: IncidentStatus
+  ): Promise<{ success: boolean; status?: IncidentStatus; changed?: boolean; message?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('set_incident_status', {
+        p_incident_id: incidentId,
+        p_status: status,
+      });
+
+      if (error) {
+        logger.error('Error updating incident status:', error?.message || error?.code || String(error));
+        return { success: false, message: error.message };
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return { success: true, status: row?.status || status, changed: !!row?.changed };
+    } catch (error: any) {
+      logger.error('Error in setStatus:', error?.message || String(error));
+      return { success: false, message: error?.message };
+    }
+  }
+
+  /**
+   * Status vote counts for an incident, and the current user's vote
+   */
+  async getStatusVotes(incidentId: string): Promise<IncidentStatusVotes> {
+    const votes: IncidentStatusVotes = {
+      counts: { ongoing: 0, contained: 0, resolved: 0 },
+      myVote: null,
+    };
+
+    try {
+      const { data, error } = await supabase.rpc('get_incident_status_votes', {
+        p_incident_id: incidentId,
+      });
+
+      if (error) {
+        logger.error('Error fetching incident status votes:', error?.message || error?.code || String(error));
+        return votes;
+      }
+
+      for (const row of data || []) {
+        if (!(row.status in votes.counts)) continue;
+        votes.counts[row.status as IncidentStatus] = row.vote_count || 0;
+        if (row.voted) votes.myVote = row.status;
+      }
+    } catch (error: any) {
+      logger.error('Error in getStatusVotes:', error?.message || String(error));
+    }
+
+    return votes;
+  }
+
+  /**
+   * Subscribe to new updates and status changes of an incident
+   * Returns an unsubscribe function.
+   */
+  subscribeToIncident(incidentId: string, onChange: () => void): () => void {
+    const channel = supabase
+      .channel(`incident-updates-${incidentId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'incident_updates', filter: `incident_id=eq.${incidentId}` },
+        () => onChange()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'incidents', filter: `id=eq.${incidentId}` },
+        () => onChange()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  private buildThread(updates: IncidentUpdate[]): IncidentUpdate[] {
+    const byId = new Map(updates.map((update) => [update.id, update]));
+    const thread: IncidentUpdate[] = [];
+
+    for (const update of updates) {
+      const parent = update.parentId ? byId.get(update.parentId) : undefined;
+      if (parent) {
+        parent.replies.push(update);
+      } else {
+        thread.push(update);
+      }
+    }
+
+    return thread;
+  }
+
+  private mapDbRowToUpdate(row: any): IncidentUpdate {
+    return {
+      id: row.id,
+      incidentId: row.incident_id,
+      parentId: row.parent_id || null,
+      userId: row.user_id || null,
+      authorName: row.author_name || 'Someone',
+      isReporter: !!row.is_reporter,
+      kind: row.kind,
+      status: row.status || null,
+      body: row.body || null,
+      location:
+        row.latitude !== null && row.latitude !== undefined
+          ? { latitude: row.latitude, longitude: row.longitude, address: row.address || undefined }
+          : undefined,
+      createdAt: row.created_at,
+      replies: [],
+    };
+  }
+}
+
+export const incidentUpdatesService = new IncidentUpdatesService();
@@ -0,0 +1,77 @@
+import { supabase } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import type { IncidentVote } from '../types';
+
+/**
+ * Community votes on incidents (incident_votes migration)
+ * One vote per user: "I can confirm" or "This is false". Votes are cast
+ * through a server function that keeps the incident's totals and its
+ * confirmed flag (weighted by how close voters were) up to date.
+ */
+class IncidentVoteService {
+  /**
+   * Cast or change the current user's vote; null withdraws it
+   * Returns the incident's totals after the vote.
+   */
+  async castVote(
+    incidentId: string,
+    vote: IncidentVote | null
+  ): Promise<{
+    success: boolean;
+    upvotes?: number;
+    falseVotes?: number;
+    confirmed?: boolean;
+    myVote?: IncidentVote | null;
+    message?: string;
+  }> {
+    try {
+      const { data, error } = await supabase.rpc('cast_incident_vote', {
+        p_incident_id: incidentId,
+        p_vote: vote,
+      });
+
+      if (error) {
+        logger.error('Error voting on incident:', error?.message || error?.code || String(error));
+        return { success: false, message: error.message };
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return {
+        success: true,
+        upvotes: row?.upvotes || 0,
+        falseVotes: row?.false_votes || 0,
+        confirmed: !!row?.confirmed,
+        myVote: row?.my_vote || null,
+      };
+    } catch (error: any) {
+      logger.error('Error in castVote:', error?.message || String(error));
+      return { success: false, message: error?.message };
+    }
+  }
+
+  /**
+   * The current user's vote on an incident, if any
+   */
+  async getMyVote(incidentId: string, userId: string): Promise<IncidentVote | null> {
+    try {
+      const { data, error } = await supabase
+        .from('incident_votes')
+        .select('vote')
+        .eq('incident_id', incidentId)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (error) {
+        logger.error('Error fetching incident vote:', error?.message || error?.code || String(error));
+        return null;
+      }
+
+      return (data?.vote as IncidentVote) || null;
+    } catch (error: any) {
+      logger.error('Error in getMyVote:', error?.message || String(error));
+      return null;
+    }
+  }
+}
+
+export const incidentVoteService = new IncidentVoteService();
@@ -0,0 +1,267 @@
+import { Linking, Platform, Share } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Clipboard from 'expo-clipboard';
+import Constants from 'expo-constants';
+import { supabase } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import type { ConnectionInvite, ConnectionInvitePreview } from '../types';
+
+const PENDING_INVITE_STORAGE_KEY = 'pending_connection_invite';
+const CLIPBOARD_CHECKED_STORAGE_KEY = 'invite_clipboard_checked';
+
+// Invite links sent by SMS stay valid for a week
+const SMS_INVITE_TTL_MINUTES = 7 * 24 * 60;
+
+// <invite id>.<expiry>.<signature> - see the signed_connection_invites migration
+const TOKEN_PATTERN = /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\.[0-9]{1,12}\.[0-9a-f]{32}/i;
+
+const getInviteBaseUrl = (): string => {
+  const configured = Constants.expoConfig?.extra?.EXPO_PUBLIC_INVITE_URL || process.env.EXPO_PUBLIC_INVITE_URL;
+  if (configured && !configured.includes('${')) {
+    return configured;
+  }
+
+  const supabaseUrl = Constants.expoConfig?.extra?.EXPO_PUBLIC_SUPABASE_URL || process.env.EXPO_PUBLIC_SUPABASE_URL || '';
+  return `${supabaseUrl.replace(/\/$/, '')}/functions/v1/invite`;
+};
+
+/**
+ * Signed, expiring connection invites (QR codes and links)
+ * Tokens are created, checked and redeemed server-side (signed_connection_invites
+ * migration). Invites opened before sign-up (deep link or, after installing,
+ * the clipboard) are kept as a pending invite until the user is signed in.
+ */
+class InviteService {
+  /**
+   * Create an invite for the current user
+   * ttlMinutes: 5 minutes - 7 days; maxUses: 1 - 20
+   */
+  async createInvite(
+    ttlMinutes: number = 24 * 60,
+    maxUses: number = 1
+  ): Promise<{ invite: ConnectionInvite | null; message?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('create_connection_invite', {
+        p_ttl_minutes: ttlMinutes,
+        p_max_uses: maxUses,
+      });
+
+      if (error) {
+        logger.error('Error creating invite:', error?.message || error?.code || String(error));
+        return { invite: null, message: error.message };
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      if (!row?.token) {
+        return { invite: null };
+      }
+
+      return {
+        invite: {
+          id: row.invite_id,
+          token: row.token,
+          link: this.getInviteLink(row.token),
+          expiresAt: row.expires_at,
+        },
+      };
+    } catch (error: any) {
+      logger.error('Error in createInvite:', error?.message || String(error));
+      return { invite: null, message: error?.message };
+    }
+  }
+
+  /**
+   * Invite someone who isn't on the app yet: creates an invite and opens the
+   * messages app addressed to them, or the share sheet if SMS isn't available
+   */
+  async sendInviteBySms(phoneNumber: string): Promise<{ sent: boolean; message?: string }> {
+    const { invite, message } = await this.createInvite(SMS_INVITE_TTL_MINUTES);
+    if (!invite) {
+      return { sent: false, message };
+    }
+
+    const text = `Join me on FamGuards so we can look out for each other: ${invite.link}`;
+    // iOS expects '&body=', Android '?body='
+    const separator = Platform.OS === 'ios' ? '&' : '?';
+    const smsUrl = `sms:${phoneNumber}${separator}body=${encodeURIComponent(text)}`;
+
+    try {
+      if (await Linking.canOpenURL(smsUrl)) {
+        await Linking.openURL(smsUrl);
+      } else {
+        await Share.share({ message: text });
+      }
+      return { sent: true };
+    } catch (error: any) {
+      logger.error('Error in sendInviteBySms:', error?.message || String(error));
+      return { sent: false, message: error?.message };
+    }
+  }
+
+  /**
+   * Revoke an invite so it can no longer be used
+   */
+  async revokeInvite(inviteId: string): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('revoke_connection_invite', {
+        p_invite_id: inviteId,
+      });
+
+      if (error) {
+        logger.error('Error revoking invite:', error?.message || error?.code || String(error));
+        return false;
+      }
+
+      return !!data;
+    } catch (error: any) {
+      logger.error('Error in revokeInvite:', error?.message || String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Look up who sent an invite before accepting it
+   */
+  async previewInvite(token: string): Promise<ConnectionInvitePreview | null> {
+    try {
+      const { data, error } = await supabase.rpc('preview_connection_invite', {
+        p_token: token,
+      });
+
+      if (error) {
+        logger.error('Error loading invite:', error?.message || error?.code || String(error));
+        return null;
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      if (!row) {
+        return { status: 'invalid', inviterId: null, inviterName: null, inviterPhoto: null };
+      }
+
+      return {
+        status: row.status,
+        inviterId: row.inviter_id || null,
+        inviterName: row.inviter_name || null,
+        inviterPhoto: row.inviter_photo || null,
+      };
+    } catch (error: any) {
+      logger.error('Error in previewInvite:', error?.message || String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Accept an invite and connect with the inviter
+   */
+  async redeemInvite(token: string): Promise<{
+    success: boolean;
+    message?: string;
+    inviterId?: string;
+    inviterName?: string;
+  }> {
+    try {
+      const { data, error } = await supabase.rpc('redeem_connection_invite', {
+        p_token: token,
+      });
+
+      if (error) {
+        logger.error('Error redeeming invite:', error?.message || error?.code || String(error));
+        return { success: false, message: error.message };
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      return {
+        success: !!row?.success,
+        message: row?.message || undefined,
+        inviterId: row?.inviter_id || undefined,
+        inviterName: row?.inviter_name || undefined,
+      };
+    } catch (error: any) {
+      logger.error('Error in redeemInvite:', error?.message || String(error));
+      return { success: false, message: error?.message };
+    }
+  }
+
+  /**
+   * Get the shareable link for a token (opens the app, or the store if not installed)
+   */
+  getInviteLink(token: string): string {
+    return `${getInviteBaseUrl()}?t=${token}`;
+  }
+
+  /**
+   * Extract an invite token from a link, deep link or pasted text
+   */
+  parseInviteToken(input: string | null | undefined): string | null {
+    const match = TOKEN_PATTERN.exec(input || '');
+    return match ? match[0].toLowerCase() : null;
+  }
+
+  /**
+   * Keep the invite from an opened link until the user is signed in
+   * Returns the token if the URL was an invite link.
+   */
+  async handleUrl(url: string | null): Promise<string | null> {
+    if (!url || !/invite/i.test(url)) return null;
+
+    const token = this.parseInviteToken(url);
+    if (token) {
+      await this.savePendingInvite(token);
+    }
+    return token;
+  }
+
+  /**
+   * Pick up an invite link copied by the invite page before installing
+   * Only checked once per install, and only invite links are kept.
+   */
+  async checkClipboardForInvite(): Promise<string | null> {
+    try {
+      if (await AsyncStorage.getItem(CLIPBOARD_CHECKED_STORAGE_KEY)) {
+        return null;
+      }
+      await AsyncStorage.setItem(CLIPBOARD_CHECKED_STORAGE_KEY, new Date().toISOString());
+
+      if (!(await Clipboard.hasStringAsync())) {
+        return null;
+      }
+
+      const text = await Clipboard.getStringAsync();
+      if (!text.startsWith('famguard://invite')) {
+        return null;
+      }
+
+      return this.handleUrl(text);
+    } catch (error: any) {
+      logger.error('Error checking clipboard for invite:', error?.message || String(error));
+      return null;
+    }
+  }
+
+  async savePendingInvite(token: string): Promise<void> {
+    try {
+      await AsyncStorage.setItem(PENDING_INVITE_STORAGE_KEY, token);
+    } catch (error: any) {
+      logger.error('Error saving pending invite:', error?.message || String(error));
+    }
+  }
+
+  async getPendingInvite(): Promise<string | null> {
+    try {
+      return await AsyncStorage.getItem(PENDING_INVITE_STORAGE_KEY);
+    } catch (error: any) {
+      logger.error('Error reading pending invite:', error?.message || String(error));
+      return null;
+    }
+  }
+
+  async clearPendingInvite(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(PENDING_INVITE_STORAGE_KEY);
+    } catch (error: any) {
+      logger.error('Error clearing pending invite:', error?.message || String(error));
+    }
+  }
+}
+
+export const inviteService = new InviteService();
@@ -5,9 +5,32 @@ import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { supabase } from '../lib/supabase';
 import { LOCATION_TASK_NAME } from '../tasks/locationBackgroundTask';
+import { placesService } from './placesService';
+import { tripService } from './tripService';
+import { sosEventService } from './sosEventService';
+import {
+  SLEEP_MODE_STORAGE_KEY,
+  getDeviceTimeZone,
+  isWithinSleepWindow,
+  mapDbRowToSleepModeSettings,
+} from '../utils/sleepMode';
 import type { Location as LocationType } from '../types';
-
-interface LocationServiceConfig {
+import type { SleepModeSettings } from '../utils/sleepMode';
+import {
+  BATTERY_POLICY_STORAGE_KEY,
+  mapDbRowToBatterySavingSettings,
+  resolveTrackingPolicy,
+} from '../utils/batteryPolicy';
+import type { BatterySavingSettings, TrackingPolicy } from '../utils/batteryPolicy';
+import {
+  LOCATION_PRIVACY_STORAGE_KEY,
+  applyAccuracyPrivacy,
+  applyLocationPrivacy,
+  parseLocationAccuracyMode,
+} from '../utils/locationPrivacy';
+import type { LocationAccuracyMode, LocationPrivacyState } from '../utils/locationPrivacy';
+
+export interface LocationServiceConfig {
   accuracy: Location.Accuracy;
   updateInterval: number; // in milliseconds
   distanceThreshold: number; // in meters
@@ -19,6 +42,8 @@ class LocationService {
   private lastLocation: LocationType | null = null;
   private lastDatabaseUpdate: { location: LocationType; timestamp: number } | null = null;
   private isTracking: boolean = false;
+  // Set while startLocationSharing starts the watch, interval and platform updates
+  private isStartingTracking: boolean = false;
   private userId: string | null = null;
   private familyGroupId: string | null = null;
   // Emergency location tracking
@@ -57,6 +82,17 @@ class LocationService {
   // Location history frequency tracking
   private locationUpdateFrequencyMinutes: number = 60; // Default 60 minutes
   private lastLocationHistoryInsert: number = 0; // Timestamp of last location history insert
+  // Sleep mode (quiet hours) - reduced tracking inside the window
+  private sleepModeSettings: SleepModeSettings | null = null;
+  private readonly SLEEP_MODE_UPDATE_INTERVAL = 3600000; // 1 hour between connection updates while asleep
+  private readonly SLEEP_MODE_HISTORY_INTERVAL_MINUTES = 120; // 2 hours between history inserts while asleep
+  // Battery saving - tracking policy picked from settings and live battery level
+  private batterySavingSettings: BatterySavingSettings | null = null;
+  // Location accuracy - 'approximate' snaps shared locations (exact again during emergencies)
+  private locationAccuracyMode: LocationAccuracyMode = 'exact';
+  private trackingPolicy: TrackingPolicy = resolveTrackingPolicy(null, { level: 100, isCharging: false, lowPowerMode: false });
+  private batterySubscriptions: Array<{ remove: () => void }> = [];
+  private shareLocation: boolean = true;
   
   // iOS concurrency guard: Prevent multiple simultaneous location requests
   // On iOS, concurrent location requests can crash the app
@@ -833,6 +869,7 @@ class LocationService {
     if (this.isTracking) {
       console.log('Location tracking already started, updating sharing status only');
       // Update sharing status in AsyncStorage
+      this.shareLocation = shareLocation;
       await AsyncStorage.setItem('location_tracking_shareLocation', shareLocation.toString());
       // Update database if needed
       if (this.userId && this.familyGroupId) {
@@ -879,10 +916,33 @@ class LocationService {
 
     this.userId = userId;
     this.familyGroupId = familyGroupId;
+    this.shareLocation = shareLocation;
     this.isTracking = true;
+    // Policy changes until the end of startup are picked up by the first start below
+    this.isStartingTracking = true;
+
+    try {
+      await this.startTrackingWithPolicy(userId, familyGroupId, shareLocation);
+    } finally {
+      this.isStartingTracking = false;
+    }
+  }
 
+  /**
+   * Resolve the tracking policy, save the initial location and start the watch,
+   * periodic updates and platform updates (once, with the policy in effect)
+   */
+  private async startTrackingWithPolicy(
+    userId: string,
+    familyGroupId: string,
+    shareLocation: boolean
+  ): Promise<void> {
     // Load user settings for location update frequency
     await this.loadLocationUpdateFrequency();
+
+    // Pick tracking profile from battery saving settings and battery level
+    await this.applyBatteryPolicy();
+    this.startBatteryMonitoring();
     
     // Load last insert time from AsyncStorage (for consistency with background task)
     try {
@@ -899,20 +959,31 @@ class LocationService {
     await AsyncStorage.setItem('location_tracking_familyGroupId', familyGroupId);
     await AsyncStorage.setItem('location_tracking_shareLocation', shareLocation.toString());
 
-    // Get initial location with highest accuracy (permission already requested above)
-    const initialLocation = await this.getHighAccuracyLocation(true);
-    if (initialLocation) {
-      // Get accuracy from the location object if available
-      // 0 is a valid accuracy value, only use null if undefined
-      const initialLocationWithAccuracy = await Location.getCurrentPositionAsync({
-        accuracy: Platform.OS === 'ios' ? Location.Accuracy.BestForNavigation : Location.Accuracy.Highest,
+    // Get initial location at the accuracy of the tracking policy (permission already requested above)
+    let initialFix: Location.LocationObject | null = null;
+    try {
+      initialFix = await Location.getCurrentPositionAsync({
+        accuracy: this.getTrackingAccuracy(),
         maximumAge: 0,
         timeout: 20000,
       });
-      const initialAccuracy = initialLocationWithAccuracy?.coords?.accuracy !== undefined && initialLocationWithAccuracy?.coords?.accuracy !== null
-        ? initialLocationWithAccuracy.coords.accuracy
+    } catch (error) {
+      console.warn('Error getting initial location:', error);
+    }
+
+    if (initialFix && this.isValidCoordinate(initialFix.coords.latitude, initialFix.coords.longitude)) {
+      const initialLocation: LocationType = {
+        latitude: initialFix.coords.latitude,
+        longitude: initialFix.coords.longitude,
+      };
+      initialLocation.address =
+        (await this.reverseGeocode(initialLocation.latitude, initialLocation.longitude, true)) || undefined;
+      this.lastLocation = initialLocation;
+      // 0 is a valid accuracy value, only use null if undefined
+      const initialAccuracy = initialFix.coords.accuracy !== undefined && initialFix.coords.accuracy !== null
+        ? initialFix.coords.accuracy
         : null;
-      
+
       await this.updateLocationInDatabase(initialLocation, shareLocation);
       // Track the initial database update
       this.lastDatabaseUpdate = {
@@ -925,28 +996,30 @@ class LocationService {
       await this.saveLocationHistory(initialLocation, initialAccuracy);
     }
 
-    // Start watching location changes with highest accuracy
-    // Use shorter timeInterval for foreground updates (30 seconds) to ensure responsive updates
+    await this.startForegroundWatch(shareLocation);
+    this.startPeriodicUpdates(shareLocation);
+    await this.startPlatformLocationUpdates();
+  }
+
+  /**
+   * Start the foreground location watch using the active tracking policy
+   */
+  private async startForegroundWatch(shareLocation: boolean): Promise<void> {
+    // Start watching location changes with the accuracy of the active tracking policy
+    // Use shorter timeInterval for foreground updates (30 seconds at full accuracy) to ensure responsive updates
     // The distanceInterval and database update logic will still control when we actually save to DB
-    const FOREGROUND_UPDATE_INTERVAL = 30000; // 30 seconds for foreground updates
-    const watchOptions = Platform.OS === 'ios'
-      ? {
-          accuracy: Location.Accuracy.BestForNavigation, // Best accuracy for iOS
-          timeInterval: FOREGROUND_UPDATE_INTERVAL, // 30 seconds for responsive foreground updates
-          distanceInterval: this.config.distanceThreshold,
-        }
-      : {
-          accuracy: Location.Accuracy.Highest,
-          timeInterval: FOREGROUND_UPDATE_INTERVAL, // 30 seconds for responsive foreground updates
-          distanceInterval: this.config.distanceThreshold,
-        };
+    const FOREGROUND_UPDATE_INTERVAL = this.trackingPolicy.foregroundWatchIntervalMs;
+    const watchOptions = {
+      accuracy: this.getTrackingAccuracy(),
+      timeInterval: FOREGROUND_UPDATE_INTERVAL,
+      distanceInterval: this.config.distanceThreshold,
+    };
 
     console.log('Starting foreground location watch with interval:', FOREGROUND_UPDATE_INTERVAL, 'ms');
     try {
-      // On iOS, ensure we don't have a duplicate subscription
-      // This is critical to prevent crashes when app reopens
-      if (Platform.OS === 'ios' && this.watchSubscription) {
-        console.warn('iOS: Removing existing watch subscription before starting new one');
+      // Never keep a duplicate subscription (on iOS this also prevents crashes when the app reopens)
+      if (this.watchSubscription) {
+        console.warn('Removing existing watch subscription before starting new one');
         try {
           this.watchSubscription.remove();
         } catch (error) {
@@ -1044,12 +1117,21 @@ class LocationService {
       this.watchSubscription = null;
     }
 
+  }
+
+  /**
+   * Start periodic high accuracy updates using the active tracking policy
+   */
+  private startPeriodicUpdates(shareLocation: boolean): void {
     // Set up periodic updates every 30 minutes with high accuracy (works in foreground and background)
     // This ensures location is saved even if watchPositionAsync doesn't trigger
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+    }
     this.updateInterval = setInterval(async () => {
       // Get location with accuracy
       const locationWithAccuracy = await Location.getCurrentPositionAsync({
-        accuracy: Platform.OS === 'ios' ? Location.Accuracy.BestForNavigation : Location.Accuracy.Highest,
+        accuracy: this.getTrackingAccuracy(),
         maximumAge: 0,
         timeout: 20000,
       });
@@ -1099,21 +1181,27 @@ class LocationService {
       }
     }, this.config.updateInterval);
 
+  }
+
+  /**
+   * Start platform location updates (Android background task) using the active tracking policy
+   */
+  private async startPlatformLocationUpdates(): Promise<void> {
     // Start location updates (Android uses startLocationUpdatesAsync for both foreground and background)
     // iOS uses watchPositionAsync which works in both foreground and background
     if (Platform.OS === 'android') {
       try {
         // On Android, startLocationUpdatesAsync with foregroundService works in both foreground and background
-        // timeInterval controls how often location is checked, but background task handles 30-minute saves
-        // Use 30 seconds for location checks, but background task will save every 30 minutes
-        const BACKGROUND_LOCATION_CHECK_INTERVAL = 30000; // 30 seconds - how often to check location
+        // timeInterval controls how often location is checked, but background task handles the history saves
+        // (every 30 minutes at full accuracy, less often under battery saving profiles)
+        const BACKGROUND_LOCATION_CHECK_INTERVAL = this.trackingPolicy.foregroundWatchIntervalMs;
         const hasStarted = await Location.startLocationUpdatesAsync(LOCATION_TASK_NAME, {
-          accuracy: Location.Accuracy.Highest,
-          timeInterval: BACKGROUND_LOCATION_CHECK_INTERVAL, // Check location every 30 seconds
+          accuracy: this.getTrackingAccuracy(),
+          timeInterval: BACKGROUND_LOCATION_CHECK_INTERVAL,
           distanceInterval: this.config.distanceThreshold,
           foregroundService: {
             notificationTitle: 'Location Tracking',
-            notificationBody: 'FamGuard is tracking your location every 30 minutes to share with family members.',
+            notificationBody: `FamGuard is tracking your location every ${this.trackingPolicy.backgroundIntervalMinutes} minutes to share with family members.`,
             notificationColor: '#DC2626',
           },
           pausesUpdatesAutomatically: false,
@@ -1133,6 +1221,137 @@ class LocationService {
     }
   }
 
+  /**
+   * Get GPS accuracy for the active tracking policy
+   * Full accuracy uses the best accuracy each platform offers
+   */
+  private getTrackingAccuracy(): Location.Accuracy {
+    if (this.trackingPolicy.profile === 'normal') {
+      return Platform.OS === 'ios' ? Location.Accuracy.BestForNavigation : Location.Accuracy.Highest;
+    }
+    return this.config.accuracy;
+  }
+
+  /**
+   * Re-evaluate the tracking policy from battery saving settings and battery status
+   * Restarts tracking with the new config when the profile changes
+   */
+  async applyBatteryPolicy(): Promise<TrackingPolicy> {
+    let isCharging = false;
+    let lowPowerMode = false;
+    try {
+      const batteryState = await Battery.getBatteryStateAsync();
+      isCharging = batteryState === Battery.BatteryState.CHARGING || batteryState === Battery.BatteryState.FULL;
+      lowPowerMode = await Battery.isLowPowerModeEnabledAsync();
+    } catch (error) {
+      // Battery state not available (e.g. simulator) - treat as not charging
+    }
+    const level = await this.getBatteryLevel();
+
+    const previousProfile = this.trackingPolicy.profile;
+    this.trackingPolicy = resolveTrackingPolicy(this.batterySavingSettings, { level, isCharging, lowPowerMode });
+    this.updateConfig(this.trackingPolicy.config);
+
+    try {
+      await AsyncStorage.setItem(BATTERY_POLICY_STORAGE_KEY, JSON.stringify(this.trackingPolicy));
+    } catch (storageError) {
+      // Silently fail - background task falls back to its default interval
+    }
+
+    if (this.trackingPolicy.profile !== previousProfile) {
+      console.log(`Tracking profile changed: ${previousProfile} -> ${this.trackingPolicy.profile} (${this.trackingPolicy.reason}, battery ${level}%)`);
+      // During startup the watch isn't running yet and starts with the new policy
+      if (this.isTracking && !this.isStartingTracking) {
+        await this.restartTracking();
+      }
+    }
+
+    return this.trackingPolicy;
+  }
+
+  /**
+   * Get the tracking policy currently in effect
+   */
+  getTrackingPolicy(): TrackingPolicy {
+    return this.trackingPolicy;
+  }
+
+  /**
+   * Reload battery saving settings for a user and re-apply the tracking policy
+   * Call this when user changes their battery saving settings
+   */
+  async refreshBatterySavingSettings(userId: string): Promise<TrackingPolicy> {
+    try {
+      const { data, error } = await supabase
+        .from('user_settings')
+        .select('battery_saving_mode, battery_saving_reduce_location_updates, battery_saving_reduce_background_sync')
+        .eq('user_id', userId)
+        .single();
+
+      if (error && error.code !== 'PGRST116') {
+        console.error('Error loading battery saving settings:', error);
+      } else {
+        this.batterySavingSettings = mapDbRowToBatterySavingSettings(data);
+      }
+    } catch (error) {
+      console.error('Error loading battery saving settings:', error);
+    }
+
+    return this.applyBatteryPolicy();
+  }
+
+  /**
+   * Listen for battery level, charging and low power mode changes
+   */
+  private startBatteryMonitoring(): void {
+    this.stopBatteryMonitoring();
+    try {
+      const onBatteryChange = () => {
+        this.applyBatteryPolicy().catch((error) => {
+          console.warn('Error applying battery policy:', error);
+        });
+      };
+      this.batterySubscriptions = [
+        Battery.addBatteryLevelListener(onBatteryChange),
+        Battery.addBatteryStateListener(onBatteryChange),
+        Battery.addLowPowerModeListener(onBatteryChange),
+      ];
+    } catch (error) {
+      console.warn('Battery monitoring not available:', error);
+    }
+  }
+
+  /**
+   * Stop listening for battery changes
+   */
+  private stopBatteryMonitoring(): void {
+    this.batterySubscriptions.forEach((subscription) => subscription.remove());
+    this.batterySubscriptions = [];
+  }
+
+  /**
+   * Restart the foreground watch, periodic updates and platform updates
+   * so a new tracking policy takes effect
+   */
+  private async restartTracking(): Promise<void> {
+    if (this.watchSubscription) {
+      try {
+        this.watchSubscription.remove();
+      } catch (error) {
+        console.warn('Error removing watch subscription:', error);
+      }
+      this.watchSubscription = null;
+    }
+    if (this.updateInterval) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = null;
+    }
+
+    await this.startForegroundWatch(this.shareLocation);
+    this.startPeriodicUpdates(this.shareLocation);
+    await this.startPlatformLocationUpdates();
+  }
+
   /**
    * Stop tracking location and set user as offline
    */
@@ -1160,6 +1379,8 @@ class LocationService {
       this.updateInterval = null;
     }
 
+    this.stopBatteryMonitoring();
+
     // Clear stored tracking data
     await AsyncStorage.multiRemove([
       'location_tracking_userId',
@@ -1238,6 +1459,9 @@ class LocationService {
       return; // Don't update with invalid coordinates
     }
 
+    // Approximate mode: connections only see the snapped location
+    const sharedLocation = this.getShareableLocation(location);
+
     try {
       // Find the family member record for this user
       // Use select() instead of single() to handle potential duplicates
@@ -1289,9 +1513,9 @@ class LocationService {
             relationship: 'Me',
             phone: userData.phone,
             photo: userData.photo,
-            location_latitude: location.latitude,
-            location_longitude: location.longitude,
-            location_address: location.address,
+            location_latitude: sharedLocation.latitude,
+            location_longitude: sharedLocation.longitude,
+            location_address: sharedLocation.address,
             last_seen: new Date().toISOString(),
             is_online: shareLocation, // Online only if sharing location
             share_location: shareLocation,
@@ -1329,9 +1553,9 @@ class LocationService {
                   name: userData.name,
                   phone: userData.phone,
                   photo: userData.photo,
-                  location_latitude: location.latitude,
-                  location_longitude: location.longitude,
-                  location_address: location.address,
+                  location_latitude: sharedLocation.latitude,
+                  location_longitude: sharedLocation.longitude,
+                  location_address: sharedLocation.address,
                   last_seen: new Date().toISOString(),
                   is_online: shareLocation,
                   share_location: shareLocation,
@@ -1362,14 +1586,14 @@ class LocationService {
       // Get battery level if available
       const batteryLevel = await this.getBatteryLevel();
 
-      // Update location in database with exact coordinates
+      // Update location in database (exact coordinates unless approximate mode is on)
       // User is online only when location sharing is enabled
       const { error } = await supabase
         .from('family_members')
         .update({
-          location_latitude: location.latitude,
-          location_longitude: location.longitude,
-          location_address: location.address,
+          location_latitude: sharedLocation.latitude,
+          location_longitude: sharedLocation.longitude,
+          location_address: sharedLocation.address,
           last_seen: new Date().toISOString(),
           is_online: shareLocation, // Online only when sharing location
           share_location: shareLocation,
@@ -1400,7 +1624,7 @@ class LocationService {
     try {
       const { data, error } = await supabase
         .from('user_settings')
-        .select('location_update_frequency_minutes')
+        .select('location_update_frequency_minutes, sleep_mode_enabled, sleep_mode_start_time, sleep_mode_end_time, timezone, battery_saving_mode, battery_saving_reduce_location_updates, battery_saving_reduce_background_sync, location_accuracy')
         .eq('user_id', this.userId)
         .single();
 
@@ -1426,6 +1650,11 @@ class LocationService {
         } else {
           this.locationUpdateFrequencyMinutes = newFrequency;
         }
+
+        await this.applySleepModeSettings(data);
+        this.batterySavingSettings = mapDbRowToBatterySavingSettings(data);
+        this.locationAccuracyMode = parseLocationAccuracyMode(data.location_accuracy);
+        await this.persistLocationPrivacyState();
       }
     } catch (error) {
       console.error('Error loading location update frequency:', error);
@@ -1442,6 +1671,101 @@ class LocationService {
     await this.loadLocationUpdateFrequency();
   }
 
+  /**
+   * Refresh sleep mode settings from user settings
+   * Call this when user changes their sleep mode setting
+   */
+  async refreshSleepModeSettings(): Promise<void> {
+    await this.loadLocationUpdateFrequency();
+  }
+
+  /**
+   * Store sleep mode settings in memory and AsyncStorage (for background task)
+   * Also keeps user_settings.timezone in sync with the device so the
+   * server-side quiet-hours check uses the right local time
+   */
+  private async applySleepModeSettings(row: any): Promise<void> {
+    const deviceTimeZone = getDeviceTimeZone();
+    this.sleepModeSettings = {
+      ...mapDbRowToSleepModeSettings(row),
+      timeZone: deviceTimeZone,
+    };
+
+    try {
+      await AsyncStorage.setItem(SLEEP_MODE_STORAGE_KEY, JSON.stringify(this.sleepModeSettings));
+    } catch (storageError) {
+      // Silently fail - memory settings are sufficient in foreground
+    }
+
+    if (this.userId && row?.timezone !== deviceTimeZone) {
+      const { error } = await supabase
+        .from('user_settings')
+        .update({ timezone: deviceTimeZone })
+        .eq('user_id', this.userId);
+      if (error && __DEV__) {
+        console.warn('Error syncing time zone to user settings:', error);
+      }
+    }
+  }
+
+  /**
+   * Refresh location accuracy (exact/approximate) from user settings
+   * Call this when user changes their location accuracy setting
+   */
+  async refreshLocationAccuracySetting(): Promise<void> {
+    await this.loadLocationUpdateFrequency();
+  }
+
+  /**
+   * Get the current location privacy state
+   * Emergency/SOS tracking overrides approximate mode so responders get the exact location
+   */
+  getLocationPrivacyState(): LocationPrivacyState {
+    return {
+      mode: this.locationAccuracyMode,
+      emergencyOverride: this.isEmergencyTracking || this.isSosLocationTracking || this.isEmergencyHighAccuracyTracking,
+    };
+  }
+
+  /**
+   * Check if the exact location is temporarily shared because of an emergency
+   * (approximate mode is on, but emergency/SOS tracking is running)
+   */
+  isExactLocationOverrideActive(): boolean {
+    const state = this.getLocationPrivacyState();
+    return state.mode === 'approximate' && state.emergencyOverride;
+  }
+
+  /**
+   * Get the location as connections should see it
+   * Snapped to a coarse grid with a city-level address in approximate mode
+   */
+  getShareableLocation(location: LocationType): LocationType {
+    return applyLocationPrivacy(location, this.getLocationPrivacyState());
+  }
+
+  /**
+   * Store the location privacy state in AsyncStorage (for background task)
+   */
+  private async persistLocationPrivacyState(): Promise<void> {
+    try {
+      await AsyncStorage.setItem(LOCATION_PRIVACY_STORAGE_KEY, JSON.stringify(this.getLocationPrivacyState()));
+    } catch (storageError) {
+      // Silently fail - memory state is sufficient in foreground
+    }
+  }
+
+  /**
+   * Check if tracking should be reduced for sleep mode
+   * Never reduced while any emergency/SOS tracking is running
+   */
+  private isSleepModeActive(): boolean {
+    if (this.isEmergencyTracking || this.isSosLocationTracking || this.isEmergencyHighAccuracyTracking) {
+      return false;
+    }
+    return isWithinSleepWindow(this.sleepModeSettings);
+  }
+
   /**
    * Save location to history
    * Inserts a new row into location_history table based on user's frequency setting
@@ -1468,16 +1792,30 @@ class LocationService {
       return; // Don't save invalid coordinates
     }
 
+    // Check place arrive/leave transitions on every update (throttled in placesService)
+    // Runs before the history insert so the push notification is sent from the app
+    await placesService.checkPlaceTransitions(this.userId, location, accuracy);
+    // Same for the ongoing trip, if any (progress and automatic arrival)
+    await tripService.reportPosition(this.userId, location, accuracy);
+    // Breadcrumb for the open SOS event while emergency tracking runs
+    if (this.getLocationPrivacyState().emergencyOverride) {
+      await sosEventService.recordLocation(this.userId, location, accuracy);
+    }
+
     // Check if enough time has passed since last insert based on frequency setting
+    // (stretched to at least 2 hours during sleep mode)
     const now = Date.now();
-    const frequencyMs = this.locationUpdateFrequencyMinutes * 60 * 1000; // Convert minutes to milliseconds
+    const effectiveFrequencyMinutes = this.isSleepModeActive()
+      ? Math.max(this.locationUpdateFrequencyMinutes, this.SLEEP_MODE_HISTORY_INTERVAL_MINUTES)
+      : this.locationUpdateFrequencyMinutes;
+    const frequencyMs = effectiveFrequencyMinutes * 60 * 1000; // Convert minutes to milliseconds
     const timeSinceLastInsert = now - this.lastLocationHistoryInsert;
 
     if (this.lastLocationHistoryInsert > 0 && timeSinceLastInsert < frequencyMs) {
       // Not enough time has passed, skip insert
       if (__DEV__) {
         const minutesRemaining = Math.ceil((frequencyMs - timeSinceLastInsert) / (60 * 1000));
-        console.log(`Skipping location history insert - ${minutesRemaining} minutes remaining until next insert (frequency: ${this.locationUpdateFrequencyMinutes} minutes)`);
+        console.log(`Skipping location history insert - ${minutesRemaining} minutes remaining until next insert (frequency: ${effectiveFrequencyMinutes} minutes)`);
       }
       return;
     }
@@ -1514,14 +1852,21 @@ class LocationService {
       // Properly handle accuracy - 0 is a valid value, only use null if undefined
       const accuracyValue = accuracy !== undefined && accuracy !== null ? accuracy : null;
       
+      // Approximate mode: snap coordinates and reduce the address before sharing
+      const privacyState = this.getLocationPrivacyState();
+      const sharedLocation = applyLocationPrivacy(
+        { ...location, address: addressToSave || undefined },
+        privacyState
+      );
+
       const { error } = await supabase
         .from('location_history')
         .insert({
           user_id: this.userId,
-          latitude: location.latitude,
-          longitude: location.longitude,
-          address: addressToSave || null, // Keep null if no address (don't update to empty)
-          accuracy: accuracyValue, // Include accuracy (0 is valid, only null if undefined)
+          latitude: sharedLocation.latitude,
+          longitude: sharedLocation.longitude,
+          address: sharedLocation.address || null, // Keep null if no address (don't update to empty)
+          accuracy: applyAccuracyPrivacy(accuracyValue, privacyState), // Include accuracy (0 is valid, only null if undefined)
         });
 
       if (error) {
@@ -1742,6 +2087,14 @@ class LocationService {
       return true;
     }
 
+    // Sleep mode: at most one update per hour inside the window
+    if (this.isSleepModeActive() && now - this.lastDatabaseUpdate.timestamp < this.SLEEP_MODE_UPDATE_INTERVAL) {
+      if (__DEV__) {
+        console.log('Skipping location update - sleep mode active');
+      }
+      return false;
+    }
+
     // Check distance from last database update
     const distance = this.calculateDistance(
       this.lastDatabaseUpdate.location.latitude,
@@ -2151,6 +2504,7 @@ class LocationService {
 
     this.userId = userId;
     this.isEmergencyTracking = true;
+    this.persistLocationPrivacyState(); // Exact location while any emergency tracking runs
 
     // Get initial location with address and save it to history (permission already requested)
     const initialLocationWithAccuracy = await Location.getCurrentPositionAsync({
@@ -2272,6 +2626,7 @@ class LocationService {
       this.emergencyTrackingInterval = null;
     }
     this.isEmergencyTracking = false;
+    this.persistLocationPrivacyState();
     this.stationaryLocation = null; // Reset stationary location tracking
     this.stationaryBlockLocation = null; // Reset stationary block tracking
     console.log('Emergency location tracking stopped');
@@ -2316,17 +2671,27 @@ class LocationService {
     // Properly handle accuracy - 0 is a valid value, only use null if undefined
     const accuracyValue = locationAccuracy !== undefined && locationAccuracy !== null ? locationAccuracy : null;
 
+    // Check place transitions and trip arrival before the insert so their pushes are sent
+    await placesService.checkPlaceTransitions(userId, location, accuracyValue, true);
+    await tripService.reportPosition(userId, location, accuracyValue, true);
+    if (this.getLocationPrivacyState().emergencyOverride) {
+      await sosEventService.recordLocation(userId, location, accuracyValue);
+    }
+
     try {
       // ALWAYS insert new row - never update existing rows
       // This creates a complete history of location updates
+      // (snapped in approximate mode, exact while emergency tracking runs)
+      const privacyState = this.getLocationPrivacyState();
+      const sharedLocation = applyLocationPrivacy(location, privacyState);
       const { error: insertError } = await supabase
         .from('location_history')
         .insert({
           user_id: userId,
-          latitude: location.latitude,
-          longitude: location.longitude,
-          address: location.address || null,
-          accuracy: accuracyValue, // Include accuracy in insert
+          latitude: sharedLocation.latitude,
+          longitude: sharedLocation.longitude,
+          address: sharedLocation.address || null,
+          accuracy: applyAccuracyPrivacy(accuracyValue, privacyState), // Include accuracy in insert
         });
 
       if (insertError) {
@@ -2361,6 +2726,7 @@ class LocationService {
     }
 
     this.isSosLocationTracking = true;
+    this.persistLocationPrivacyState(); // Exact location while any emergency tracking runs
     this.sosLocationInsertCount = 0;
     this.sosLocationUpdateIndex = 0;
     this.sosLocationRowIds = [];
@@ -2475,6 +2841,9 @@ class LocationService {
    * Then updates those 5 rows in rotation
    */
   private async insertOrUpdateSOSLocation(userId: string, location: LocationType): Promise<void> {
+    // The rows below are overwritten; the full trail is kept on the SOS event
+    await sosEventService.recordLocation(userId, location);
+
     // Check if we still need to insert rows (count < 5)
     if (this.sosLocationInsertCount < 5) {
       // Insert one new row
@@ -2594,6 +2963,7 @@ class LocationService {
       this.sosLocationTrackingInterval = null;
     }
     this.isSosLocationTracking = false;
+    this.persistLocationPrivacyState();
     this.sosLocationRowIds = [];
     this.sosLocationInsertCount = 0;
     this.sosLocationUpdateIndex = 0;
@@ -2609,7 +2979,8 @@ class LocationService {
 
   /**
    * Start emergency high-accuracy GPS tracking - inserts location every 15 minutes
-   * Continues until user account is unlocked (is_locked becomes false)
+   * Continues until user account is unlocked (is_locked becomes false) and
+   * any silent SOS has been ended by a connection (duress_active_at cleared)
    * Uses highest accuracy GPS for precise location tracking
    */
   async startEmergencyHighAccuracyTracking(userId: string): Promise<void> {
@@ -2625,6 +2996,7 @@ class LocationService {
 
     this.userId = userId;
     this.isEmergencyHighAccuracyTracking = true;
+    this.persistLocationPrivacyState(); // Exact location while any emergency tracking runs
 
     // Get initial location with high-accuracy GPS and save it immediately
     const initialLocation = await this.getHighAccuracyLocation(true);
@@ -2653,17 +3025,17 @@ class LocationService {
     // Start tracking every 15 minutes (900000 ms)
     this.emergencyHighAccuracyTrackingInterval = setInterval(async () => {
       try {
-        // Check if user is still locked - stop tracking if unlocked
+        // Check if user is still locked or under duress - stop tracking once neither
         const { data: userData, error: userError } = await supabase
           .from('users')
-          .select('is_locked')
+          .select('is_locked, duress_active_at')
           .eq('id', userId)
           .single();
 
         if (userError) {
           console.error('Error checking user lock status:', userError);
           // Continue tracking if we can't check status
-        } else if (userData && !userData.is_locked) {
+        } else if (userData && !userData.is_locked && !userData.duress_active_at) {
           // User is unlocked - stop tracking
           console.log('User unlocked - stopping emergency high-accuracy tracking');
           this.stopEmergencyHighAccuracyTracking();
@@ -2743,6 +3115,7 @@ class LocationService {
       this.emergencyHighAccuracyTrackingInterval = null;
     }
     this.isEmergencyHighAccuracyTracking = false;
+    this.persistLocationPrivacyState();
     console.log('Emergency high-accuracy GPS tracking stopped');
   }
 
@@ -0,0 +1,81 @@
+import { supabase } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import { mapDbRowToLocationSharingWindow } from '../utils/locationSharing';
+import type { LocationSharingMode, LocationSharingWindow } from '../types';
+
+export interface LocationSharingOptions {
+  until?: string; // ISO timestamp, mode 'until'
+  days?: number[]; // ISO weekdays, mode 'schedule'
+  startTime?: string; // 'HH:MM', mode 'schedule'
+  endTime?: string;
+}
+
+/**
+ * How the user shares their location with each connection
+ * (always, for a while, until they arrive, or on a schedule).
+ * Expiry is enforced server-side (location_sharing_windows migration).
+ */
+class LocationSharingService {
+  /**
+   * Get how the user shares their location with the given connections
+   * Keyed by connected user id; reads the rows the connections see.
+   */
+  async getMySharing(userId: string, connectedUserIds: string[]): Promise<Map<string, LocationSharingWindow>> {
+    const sharing = new Map<string, LocationSharingWindow>();
+    if (connectedUserIds.length === 0) return sharing;
+
+    try {
+      const { data, error } = await supabase
+        .from('connections')
+        .select('user_id, location_sharing_enabled, location_sharing_mode, location_sharing_until, location_sharing_trip_id, location_sharing_days, location_sharing_start_time, location_sharing_end_time')
+        .eq('connected_user_id', userId)
+        .in('user_id', connectedUserIds);
+
+      if (error) {
+        logger.error('Error loading location sharing:', error?.message || error?.code || String(error));
+        return sharing;
+      }
+
+      (data || []).forEach((row: any) => {
+        sharing.set(row.user_id, mapDbRowToLocationSharingWindow(row));
+      });
+      return sharing;
+    } catch (error: any) {
+      logger.error('Error in getMySharing:', error?.message || String(error));
+      return sharing;
+    }
+  }
+
+  /**
+   * Set how the current user shares their location with a connection
+   * 'until_arrival' needs an ongoing trip.
+   */
+  async setSharingMode(
+    connectedUserId: string,
+    mode: LocationSharingMode,
+    options: LocationSharingOptions = {}
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const { error } = await supabase.rpc('set_location_sharing_mode', {
+        p_connected_user_id: connectedUserId,
+        p_mode: mode,
+        p_until: mode === 'until' ? options.until ?? null : null,
+        p_days: mode === 'schedule' ? options.days ?? null : null,
+        p_start_time: mode === 'schedule' ? options.startTime ?? null : null,
+        p_end_time: mode === 'schedule' ? options.endTime ?? null : null,
+      });
+
+      if (error) {
+        logger.error('Error setting location sharing mode:', error?.message || error?.code || String(error));
+        return { success: false, message: error.message };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      logger.error('Error in setSharingMode:', error?.message || String(error));
+      return { success: false, message: error?.message };
+    }
+  }
+}
+
+export const locationSharingService = new LocationSharingService();
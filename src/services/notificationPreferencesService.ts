@@ -0,0 +1,114 @@
+import { supabase, hasValidSupabaseConfig } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import type { NotificationPreference, NotificationPreferenceScope } from '../types';
+
+// Safety alerts that can never be muted (kept in sync with
+// filter_push_recipients() and send-push-notification)
+export const CRITICAL_NOTIFICATION_TYPES = [
+  'sos_alert',
+  'check_in_emergency',
+  'check_in_unsafe',
+  'missed_check_in',
+  'trip_overdue',
+];
+
+class NotificationPreferencesService {
+  /**
+   * Get all saved notification preferences for a user
+   * Types and connections without a row are enabled.
+   */
+  async getPreferences(userId: string): Promise<NotificationPreference[]> {
+    try {
+      if (!hasValidSupabaseConfig) {
+        return [];
+      }
+
+      const { data, error } = await supabase
+        .from('notification_preferences')
+        .select('*')
+        .eq('user_id', userId);
+
+      if (error) {
+        logger.error('Error fetching notification preferences:', error?.message || error?.code || String(error));
+        return [];
+      }
+
+      return (data || []).map((row) => this.mapDbRowToPreference(row));
+    } catch (error: any) {
+      logger.error('Error in getPreferences:', error?.message || String(error));
+      return [];
+    }
+  }
+
+  /**
+   * Enable or disable pushes of one notification type
+   */
+  async setTypePreference(userId: string, notificationType: string, enabled: boolean): Promise<boolean> {
+    if (this.isCriticalType(notificationType) && !enabled) {
+      logger.warn(`Refusing to mute critical notification type: ${notificationType}`);
+      return false;
+    }
+
+    return this.savePreference(userId, 'type', notificationType, enabled);
+  }
+
+  /**
+   * Enable or disable pushes sent by one connection
+   * Critical alerts from the connection (SOS, unsafe check-ins) still come through.
+   */
+  async setConnectionPreference(userId: string, connectedUserId: string, enabled: boolean): Promise<boolean> {
+    return this.savePreference(userId, 'connection', connectedUserId, enabled);
+  }
+
+  /**
+   * Whether a notification type ignores user preferences
+   */
+  isCriticalType(notificationType: string): boolean {
+    return CRITICAL_NOTIFICATION_TYPES.includes(notificationType);
+  }
+
+  private async savePreference(
+    userId: string,
+    scope: NotificationPreferenceScope,
+    target: string,
+    enabled: boolean
+  ): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('notification_preferences')
+        .upsert(
+          {
+            user_id: userId,
+            scope,
+            target,
+            enabled,
+          },
+          { onConflict: 'user_id,scope,target' }
+        );
+
+      if (error) {
+        logger.error('Error saving notification preference:', error?.message || error?.code || String(error));
+        return false;
+      }
+
+      return true;
+    } catch (error: any) {
+      logger.error('Error in savePreference:', error?.message || String(error));
+      return false;
+    }
+  }
+
+  private mapDbRowToPreference(row: any): NotificationPreference {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      scope: row.scope,
+      target: row.target,
+      enabled: row.enabled !== false,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const notificationPreferencesService = new NotificationPreferencesService();
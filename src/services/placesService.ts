@@ -0,0 +1,304 @@
+import { supabase, hasValidSupabaseConfig } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import type { Location, Place, PlaceTransition } from '../types';
+
+export type PlaceInput = Omit<Place, 'id' | 'ownerId' | 'createdAt' | 'updatedAt'>;
+
+class PlacesService {
+  private lastTransitionCheck: { userId: string; location: Location; timestamp: number } | null = null;
+  private readonly TRANSITION_CHECK_MIN_INTERVAL = 60000; // 1 minute between checks
+  private readonly TRANSITION_CHECK_MAX_INTERVAL = 300000; // 5 minutes - check even if not moving
+  private readonly TRANSITION_CHECK_DISTANCE = 25; // 25 meters - re-check sooner if moved this far
+
+  /**
+   * Get all places created by a user
+   */
+  async getPlaces(ownerId: string): Promise<Place[]> {
+    try {
+      if (!hasValidSupabaseConfig) {
+        return [];
+      }
+
+      const { data, error } = await supabase
+        .from('places')
+        .select('*')
+        .eq('owner_id', ownerId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        logger.error('Error fetching places:', error?.message || error?.code || String(error));
+        return [];
+      }
+
+      return (data || []).map((row) => this.mapDbRowToPlace(row));
+    } catch (error: any) {
+      logger.error('Error in getPlaces:', error?.message || String(error));
+      return [];
+    }
+  }
+
+  /**
+   * Create a new place
+   */
+  async createPlace(ownerId: string, place: PlaceInput): Promise<Place | null> {
+    try {
+      const { data, error } = await supabase
+        .from('places')
+        .insert({
+          owner_id: ownerId,
+          ...this.mapPlaceToDbRow(place),
+        })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error('Error creating place:', error?.message || error?.code || String(error));
+        return null;
+      }
+
+      return this.mapDbRowToPlace(data);
+    } catch (error: any) {
+      logger.error('Error in createPlace:', error?.message || String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Update an existing place
+   */
+  async updatePlace(placeId: string, place: PlaceInput): Promise<Place | null> {
+    try {
+      const { data, error } = await supabase
+        .from('places')
+        .update(this.mapPlaceToDbRow(place))
+        .eq('id', placeId)
+        .select()
+        .single();
+
+      if (error) {
+        logger.error('Error updating place:', error?.message || error?.code || String(error));
+        return null;
+      }
+
+      return this.mapDbRowToPlace(data);
+    } catch (error: any) {
+      logger.error('Error in updatePlace:', error?.message || String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Delete a place (presence rows are removed by cascade)
+   */
+  async deletePlace(placeId: string): Promise<boolean> {
+    try {
+      const { error } = await supabase
+        .from('places')
+        .delete()
+        .eq('id', placeId);
+
+      if (error) {
+        logger.error('Error deleting place:', error?.message || error?.code || String(error));
+        return false;
+      }
+
+      return true;
+    } catch (error: any) {
+      logger.error('Error in deletePlace:', error?.message || String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Check whether a user's position crosses any place boundary of the people
+   * they share their location with.
+   * Transition detection and the in-app notification happen server-side in
+   * process_place_transitions (the same detection the location_history trigger
+   * uses), so calling this and inserting history never double-notifies.
+   * userId must be the signed-in user; the server rejects any other id.
+   * Call this BEFORE inserting into location_history so the push is sent from here.
+   */
+  async checkPlaceTransitions(
+    userId: string,
+    location: Location,
+    accuracy?: number | null,
+    force: boolean = false
+  ): Promise<PlaceTransition[]> {
+    try {
+      if (!hasValidSupabaseConfig) {
+        return [];
+      }
+
+      if (!force && !this.shouldCheckTransitions(userId, location)) {
+        return [];
+      }
+      this.lastTransitionCheck = { userId, location, timestamp: Date.now() };
+
+      const { data, error } = await supabase.rpc('process_place_transitions', {
+        p_user_id: userId,
+        p_latitude: location.latitude,
+        p_longitude: location.longitude,
+        p_accuracy: accuracy !== undefined && accuracy !== null ? accuracy : null,
+      });
+
+      if (error) {
+        logger.warn('Error checking place transitions:', error?.message || error?.code || String(error));
+        return [];
+      }
+
+      const transitions: PlaceTransition[] = (data || []).map((row: any) => ({
+        placeId: row.place_id,
+        placeName: row.place_name,
+        ownerId: row.owner_id,
+        transition: row.transition,
+        title: row.title,
+        body: row.body,
+      }));
+
+      if (transitions.length > 0) {
+        await this.sendTransitionPushNotifications(userId, location, transitions);
+      }
+
+      return transitions;
+    } catch (error: any) {
+      logger.warn('Error in checkPlaceTransitions:', error?.message || String(error));
+      return [];
+    }
+  }
+
+  /**
+   * Get the center of a polygon (vertex average - good enough for small places)
+   */
+  getPolygonCenter(points: Location[]): Location | null {
+    if (points.length === 0) return null;
+
+    const sum = points.reduce(
+      (acc, point) => ({
+        latitude: acc.latitude + point.latitude,
+        longitude: acc.longitude + point.longitude,
+      }),
+      { latitude: 0, longitude: 0 }
+    );
+
+    return {
+      latitude: sum.latitude / points.length,
+      longitude: sum.longitude / points.length,
+    };
+  }
+
+  /**
+   * Throttle transition checks: at most once a minute, and only when the user
+   * moved or the last check is getting old
+   */
+  private shouldCheckTransitions(userId: string, location: Location): boolean {
+    const last = this.lastTransitionCheck;
+    if (!last || last.userId !== userId) return true;
+
+    const elapsed = Date.now() - last.timestamp;
+    if (elapsed < this.TRANSITION_CHECK_MIN_INTERVAL) return false;
+    if (elapsed >= this.TRANSITION_CHECK_MAX_INTERVAL) return true;
+
+    return this.calculateDistance(last.location, location) >= this.TRANSITION_CHECK_DISTANCE;
+  }
+
+  /**
+   * Send push notifications for detected transitions (one request per transition)
+   */
+  private async sendTransitionPushNotifications(
+    userId: string,
+    location: Location,
+    transitions: PlaceTransition[]
+  ): Promise<void> {
+    for (const transition of transitions) {
+      try {
+        const { error } = await supabase.functions.invoke('send-push-notification', {
+          body: {
+            user_ids: [transition.ownerId],
+            title: transition.title,
+            body: transition.body,
+            data: {
+              type: transition.transition,
+              placeId: transition.placeId,
+              placeName: transition.placeName,
+              userId,
+              location: {
+                latitude: location.latitude,
+                longitude: location.longitude,
+                address: location.address,
+              },
+              timestamp: new Date().toISOString(),
+            },
+          },
+        });
+
+        if (error) {
+          logger.warn('Error sending place transition push notification:', error?.message || String(error));
+        }
+      } catch (error: any) {
+        // Don't throw - the in-app notification was already created server-side
+        logger.warn('Exception sending place transition push notification:', error?.message || String(error));
+      }
+    }
+  }
+
+  /**
+   * Calculate distance between two points in meters (Haversine formula)
+   */
+  private calculateDistance(from: Location, to: Location): number {
+    const R = 6371000;
+    const dLat = ((to.latitude - from.latitude) * Math.PI) / 180;
+    const dLon = ((to.longitude - from.longitude) * Math.PI) / 180;
+    const a =
+      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos((from.latitude * Math.PI) / 180) *
+        Math.cos((to.latitude * Math.PI) / 180) *
+        Math.sin(dLon / 2) *
+        Math.sin(dLon / 2);
+    return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+
+  /**
+   * Map PlaceInput to database columns
+   */
+  private mapPlaceToDbRow(place: PlaceInput): Record<string, any> {
+    return {
+      name: place.name.trim(),
+      category: place.category,
+      shape: place.shape,
+      center_latitude: place.center.latitude,
+      center_longitude: place.center.longitude,
+      radius_meters: place.shape === 'circle' ? place.radiusMeters ?? null : null,
+      polygon:
+        place.shape === 'polygon' && place.polygon
+          ? place.polygon.map((point) => ({ latitude: point.latitude, longitude: point.longitude }))
+          : null,
+      notify_on_arrival: place.notifyOnArrival,
+      notify_on_departure: place.notifyOnDeparture,
+    };
+  }
+
+  /**
+   * Map database row to Place
+   */
+  private mapDbRowToPlace(row: any): Place {
+    return {
+      id: row.id,
+      ownerId: row.owner_id,
+      name: row.name,
+      category: row.category || 'other',
+      shape: row.shape || 'circle',
+      center: {
+        latitude: row.center_latitude,
+        longitude: row.center_longitude,
+      },
+      radiusMeters: row.radius_meters ?? undefined,
+      polygon: Array.isArray(row.polygon) ? row.polygon : undefined,
+      notifyOnArrival: row.notify_on_arrival ?? true,
+      notifyOnDeparture: row.notify_on_departure ?? true,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const placesService = new PlacesService();
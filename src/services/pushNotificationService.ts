@@ -4,13 +4,29 @@ import Constants from 'expo-constants';
 import { Platform, Alert, Linking } from 'react-native';
 import { supabase } from '../lib/supabase';
 
+// Notification categories (action buttons). The send-push-notification Edge
+// Function sets categoryId on sos_alert pushes; a silent SOS has no "Call".
+export const SOS_ALERT_CATEGORY = 'sos_alert';
+export const SOS_ALERT_SILENT_CATEGORY = 'sos_alert_silent';
+
+export const SOS_ALERT_ACTIONS = {
+  respond: 'sos_respond',
+  call: 'sos_call',
+  navigate: 'sos_navigate',
+  cantHelp: 'sos_cant_help',
+} as const;
+
 // Configure notification behavior
 Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowAlert: true,
-    shouldPlaySound: true,
-    shouldSetBadge: true,
-  }),
+  handleNotification: async (notification) => {
+    // Pushes sent during the user's sleep window are marked quietHours by the server
+    const isQuiet = notification.request.content.data?.quietHours === true;
+    return {
+      shouldShowAlert: true,
+      shouldPlaySound: !isQuiet,
+      shouldSetBadge: true,
+    };
+  },
 });
 
 class PushNotificationService {
@@ -25,6 +41,9 @@ class PushNotificationService {
     console.log('🔔 Initializing push notifications for user:', userId);
     this.userId = userId;
 
+    // Action buttons work even if token registration below fails
+    await this.registerNotificationCategories();
+
     try {
       // Register for push notifications
       const token = await this.registerForPushNotifications();
@@ -69,6 +88,48 @@ class PushNotificationService {
     }
   }
 
+  /**
+   * Register the action buttons shown on sos_alert notifications
+   */
+  private async registerNotificationCategories(): Promise<void> {
+    const respondAction: Notifications.NotificationAction = {
+      identifier: SOS_ALERT_ACTIONS.respond,
+      buttonTitle: "I'm responding",
+      options: { opensAppToForeground: true },
+    };
+    const callAction: Notifications.NotificationAction = {
+      identifier: SOS_ALERT_ACTIONS.call,
+      buttonTitle: 'Call',
+      options: { opensAppToForeground: true },
+    };
+    const navigateAction: Notifications.NotificationAction = {
+      identifier: SOS_ALERT_ACTIONS.navigate,
+      buttonTitle: 'Navigate',
+      options: { opensAppToForeground: true },
+    };
+    const cantHelpAction: Notifications.NotificationAction = {
+      identifier: SOS_ALERT_ACTIONS.cantHelp,
+      buttonTitle: "Can't help",
+      options: { opensAppToForeground: false, isDestructive: true },
+    };
+
+    try {
+      await Notifications.setNotificationCategoryAsync(SOS_ALERT_CATEGORY, [
+        respondAction,
+        callAction,
+        navigateAction,
+        cantHelpAction,
+      ]);
+      await Notifications.setNotificationCategoryAsync(SOS_ALERT_SILENT_CATEGORY, [
+        respondAction,
+        navigateAction,
+        cantHelpAction,
+      ]);
+    } catch (error: any) {
+      console.warn('Error registering notification categories:', error?.message || String(error));
+    }
+  }
+
   /**
    * Register for push notifications and get the token
    */
@@ -175,6 +236,14 @@ class PushNotificationService {
           importance: Notifications.AndroidImportance.DEFAULT,
           sound: 'default',
         });
+
+        // Used for non-critical pushes during sleep mode
+        await Notifications.setNotificationChannelAsync('quiet-hours', {
+          name: 'Quiet Hours',
+          importance: Notifications.AndroidImportance.LOW,
+          sound: null,
+          enableVibrate: false,
+        });
         console.log('✅ Android notification channels configured');
       }
 
@@ -0,0 +1,578 @@
+import { Linking, Platform } from 'react-native';
+import { supabase, hasValidSupabaseConfig } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import { SOS_ALERT_ACTIONS } from './pushNotificationService';
+import type {
+  Location,
+  SOSAlertResponse,
+  SOSEvent,
+  SOSEventAcknowledgement,
+  SOSEventLocation,
+  SOSEventStatus,
+  SOSEventUpdate,
+} from '../types';
+
+/**
+ * SOS event timeline (sos_events migration)
+ * Every SOS opens an event that keeps the full breadcrumb trail, how each
+ * connection responded, and status changes/notes. All writes go
+ * through server functions that check the caller is the user or a connection.
+ */
+class SOSEventService {
+  private openEventCache: { userId: string; eventId: string | null; checkedAt: number } | null = null;
+  private lastBreadcrumb: { eventId: string; location: Location; timestamp: number } | null = null;
+  private readonly OPEN_EVENT_CACHE_TTL = 60000; // 1 minute before looking up the open event again
+  private readonly BREADCRUMB_MIN_INTERVAL = 10000; // 10 seconds between breadcrumbs
+  private readonly BREADCRUMB_MAX_INTERVAL = 60000; // 1 minute - record even if not moving
+  private readonly BREADCRUMB_DISTANCE = 10; // 10 meters - record sooner if moved this far
+
+  /**
+   * Open an SOS event for the current user (or join the already open one)
+   */
+  async openEvent(userId: string, location: Location | null, silent: boolean = false): Promise<SOSEvent | null> {
+    try {
+      const { data, error } = await supabase.rpc('open_sos_event', {
+        p_location: location,
+        p_silent: silent,
+      });
+
+      if (error) {
+        logger.error('Error opening SOS event:', error?.message || error?.code || String(error));
+        return null;
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      if (!row) return null;
+
+      const event = this.mapDbRowToEvent(row);
+      this.openEventCache = { userId, eventId: event.id, checkedAt: Date.now() };
+      if (location) {
+        this.lastBreadcrumb = { eventId: event.id, location, timestamp: Date.now() };
+      }
+      return event;
+    } catch (error: any) {
+      logger.error('Error in openEvent:', error?.message || String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Get the user's open SOS event, if any
+   */
+  async getOpenEvent(userId: string): Promise<SOSEvent | null> {
+    try {
+      if (!hasValidSupabaseConfig) {
+        return null;
+      }
+
+      const { data, error } = await supabase
+        .from('sos_events')
+        .select('*')
+        .eq('user_id', userId)
+        .in('status', ['active', 'responder_en_route'])
+        .maybeSingle();
+
+      if (error) {
+        logger.error('Error fetching open SOS event:', error?.message || error?.code || String(error));
+        return null;
+      }
+
+      return data ? this.mapDbRowToEvent(data) : null;
+    } catch (error: any) {
+      logger.error('Error in getOpenEvent:', error?.message || String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Get the user's most recent SOS event (open or closed)
+   */
+  async getLatestEvent(userId: string): Promise<SOSEvent | null> {
+    try {
+      const { data, error } = await supabase
+        .from('sos_events')
+        .select('*')
+        .eq('user_id', userId)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+      if (error) {
+        logger.error('Error fetching latest SOS event:', error?.message || error?.code || String(error));
+        return null;
+      }
+
+      return data ? this.mapDbRowToEvent(data) : null;
+    } catch (error: any) {
+      logger.error('Error in getLatestEvent:', error?.message || String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Get an SOS event by id
+   */
+  async getEvent(eventId: string): Promise<SOSEvent | null> {
+    try {
+      const { data, error } = await supabase
+        .from('sos_events')
+        .select('*')
+        .eq('id', eventId)
+        .maybeSingle();
+
+      if (error) {
+        logger.error('Error fetching SOS event:', error?.message || error?.code || String(error));
+        return null;
+      }
+
+      return data ? this.mapDbRowToEvent(data) : null;
+    } catch (error: any) {
+      logger.error('Error in getEvent:', error?.message || String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Get the breadcrumb trail of an event (oldest first)
+   */
+  async getTrail(eventId: string): Promise<SOSEventLocation[]> {
+    try {
+      const { data, error } = await supabase
+        .from('sos_event_locations')
+        .select('*')
+        .eq('event_id', eventId)
+        .order('recorded_at', { ascending: true });
+
+      if (error) {
+        logger.error('Error fetching SOS event trail:', error?.message || error?.code || String(error));
+        return [];
+      }
+
+      return (data || []).map((row: any) => this.mapDbRowToEventLocation(row));
+    } catch (error: any) {
+      logger.error('Error in getTrail:', error?.message || String(error));
+      return [];
+    }
+  }
+
+  /**
+   * Get the connections who acknowledged an event (oldest first)
+   */
+  async getAcknowledgements(eventId: string): Promise<SOSEventAcknowledgement[]> {
+    try {
+      const { data, error } = await supabase
+        .from('sos_event_acknowledgements')
+        .select('*')
+        .eq('event_id', eventId)
+        .order('created_at', { ascending: true });
+
+      if (error) {
+        logger.error('Error fetching SOS event acknowledgements:', error?.message || error?.code || String(error));
+        return [];
+      }
+
+      return (data || []).map((row: any) => this.mapDbRowToAcknowledgement(row));
+    } catch (error: any) {
+      logger.error('Error in getAcknowledgements:', error?.message || String(error));
+      return [];
+    }
+  }
+
+  /**
+   * Get the timeline of an event (newest first)
+   */
+  async getUpdates(eventId: string): Promise<SOSEventUpdate[]> {
+    try {
+      const { data, error } = await supabase
+        .from('sos_event_updates')
+        .select('*')
+        .eq('event_id', eventId)
+        .order('created_at', { ascending: false });
+
+      if (error) {
+        logger.error('Error fetching SOS event updates:', error?.message || error?.code || String(error));
+        return [];
+      }
+
+      return (data || []).map((row: any) => this.mapDbRowToUpdate(row));
+    } catch (error: any) {
+      logger.error('Error in getUpdates:', error?.message || String(error));
+      return [];
+    }
+  }
+
+  /**
+   * Respond to a connection's SOS ("I'm responding", "Call", "Navigate", "Can't help")
+   * The response is written to the event and pushed to the sender (unless it
+   * is a silent SOS) and the other connections. Without an event id the
+   * user's open event is used.
+   */
+  async respond(
+    userId: string,
+    response: SOSAlertResponse,
+    eventId?: string | null
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const { data, error } = await supabase.rpc('respond_to_sos_event', {
+        p_user_id: userId,
+        p_response: response,
+        p_event_id: eventId || null,
+      });
+
+      if (error) {
+        logger.error('Error responding to SOS:', error?.message || error?.code || String(error));
+        return { success: false, message: error.message };
+      }
+
+      const row = Array.isArray(data) ? data[0] : data;
+      if (row) {
+        await this.sendResponsePushNotification(userId, response, row);
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      logger.error('Error in respond:', error?.message || String(error));
+      return { success: false, message: error?.message };
+    }
+  }
+
+  /**
+   * Handle an action button tapped on an sos_alert push
+   * Returns false for anything that isn't an SOS action (e.g. a plain tap).
+   */
+  async handleAlertAction(actionIdentifier: string, data: Record<string, any> | undefined): Promise<boolean> {
+    const userId: string | undefined = data?.userId;
+    if (!userId) return false;
+
+    const eventId: string | null = data?.sosEventId || null;
+
+    switch (actionIdentifier) {
+      case SOS_ALERT_ACTIONS.respond:
+        await this.respond(userId, 'responding', eventId);
+        return true;
+      case SOS_ALERT_ACTIONS.cantHelp:
+        await this.respond(userId, 'cant_help', eventId);
+        return true;
+      case SOS_ALERT_ACTIONS.call:
+        await this.respond(userId, 'calling', eventId);
+        await this.callUser(userId);
+        return true;
+      case SOS_ALERT_ACTIONS.navigate: {
+        await this.respond(userId, 'navigating', eventId);
+        const event = eventId ? await this.getEvent(eventId) : await this.getOpenEvent(userId);
+        const destination = event?.lastLocation || event?.location || data?.location;
+        if (destination?.latitude && destination?.longitude) {
+          await this.openNavigation(destination);
+        }
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Change the status of an event, with an optional note
+   * 'resolved' and 'false_alarm' close the event
+   */
+  async setStatus(
+    eventId: string,
+    status: SOSEventStatus,
+    note?: string
+  ): Promise<{ success: boolean; message?: string }> {
+    try {
+      const { error } = await supabase.rpc('set_sos_event_status', {
+        p_event_id: eventId,
+        p_status: status,
+        p_note: note?.trim() || null,
+      });
+
+      if (error) {
+        logger.error('Error updating SOS event status:', error?.message || error?.code || String(error));
+        return { success: false, message: error.message };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      logger.error('Error in setStatus:', error?.message || String(error));
+      return { success: false, message: error?.message };
+    }
+  }
+
+  /**
+   * Add a note to the timeline of an event
+   */
+  async addNote(eventId: string, note: string): Promise<{ success: boolean; message?: string }> {
+    try {
+      const { error } = await supabase.rpc('add_sos_event_note', {
+        p_event_id: eventId,
+        p_note: note.trim(),
+      });
+
+      if (error) {
+        logger.error('Error adding SOS event note:', error?.message || error?.code || String(error));
+        return { success: false, message: error.message };
+      }
+
+      return { success: true };
+    } catch (error: any) {
+      logger.error('Error in addNote:', error?.message || String(error));
+      return { success: false, message: error?.message };
+    }
+  }
+
+  /**
+   * Subscribe to every change of an event (status, trail, acknowledgements, timeline)
+   * Returns an unsubscribe function.
+   */
+  subscribeToEvent(eventId: string, onChange: () => void): () => void {
+    const channel = supabase
+      .channel(`sos-event-${eventId}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'sos_events', filter: `id=eq.${eventId}` },
+        () => onChange()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'sos_event_locations', filter: `event_id=eq.${eventId}` },
+        () => onChange()
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'sos_event_acknowledgements', filter: `event_id=eq.${eventId}` },
+        () => onChange()
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'sos_event_updates', filter: `event_id=eq.${eventId}` },
+        () => onChange()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Append the user's position to their open SOS event, if any.
+   * Called from the emergency/SOS tracking paths; throttled to a breadcrumb
+   * every 10 seconds at most, and only when the user moved or the last one
+   * is getting old. Stops once the event is closed.
+   */
+  async recordLocation(userId: string, location: Location, accuracy?: number | null): Promise<void> {
+    try {
+      if (!hasValidSupabaseConfig) {
+        return;
+      }
+
+      const eventId = await this.resolveOpenEventId(userId);
+      if (!eventId || !this.shouldRecordBreadcrumb(eventId, location)) {
+        return;
+      }
+      this.lastBreadcrumb = { eventId, location, timestamp: Date.now() };
+
+      const { data, error } = await supabase.rpc('record_sos_event_location', {
+        p_event_id: eventId,
+        p_latitude: location.latitude,
+        p_longitude: location.longitude,
+        p_address: location.address || null,
+        p_accuracy: accuracy !== undefined && accuracy !== null ? accuracy : null,
+      });
+
+      if (error) {
+        logger.warn('Error recording SOS event location:', error?.message || error?.code || String(error));
+        return;
+      }
+
+      if (data === false) {
+        // Event was closed by a responder
+        this.openEventCache = { userId, eventId: null, checkedAt: Date.now() };
+        this.lastBreadcrumb = null;
+      }
+    } catch (error: any) {
+      logger.warn('Error in recordLocation:', error?.message || String(error));
+    }
+  }
+
+  /**
+   * Push a response to everyone it was announced to (the in-app
+   * notifications were already created server-side)
+   */
+  private async sendResponsePushNotification(userId: string, response: SOSAlertResponse, row: any): Promise<void> {
+    const recipientIds: string[] = Array.isArray(row.recipient_ids) ? row.recipient_ids : [];
+    if (recipientIds.length === 0) return;
+
+    try {
+      const { error } = await supabase.functions.invoke('send-push-notification', {
+        body: {
+          user_ids: recipientIds,
+          title: row.title,
+          body: row.body,
+          data: {
+            type: 'sos_response',
+            sosEventId: row.sos_event_id,
+            userId,
+            response,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      });
+
+      if (error) {
+        logger.warn('Error sending SOS response push notification:', error?.message || String(error));
+      }
+    } catch (error: any) {
+      logger.warn('Exception sending SOS response push notification:', error?.message || String(error));
+    }
+  }
+
+  /**
+   * Open the dialer for a connection (phone number from the connection row)
+   */
+  private async callUser(userId: string): Promise<void> {
+    try {
+      const { data, error } = await supabase
+        .from('connections')
+        .select('connected_user_phone')
+        .eq('connected_user_id', userId)
+        .eq('status', 'connected')
+        .not('connected_user_phone', 'is', null)
+        .limit(1)
+        .maybeSingle();
+
+      if (error || !data?.connected_user_phone) {
+        logger.warn('No phone number to call for SOS sender');
+        return;
+      }
+
+      await Linking.openURL(`tel:${data.connected_user_phone.replace(/[^0-9+]/g, '')}`);
+    } catch (error: any) {
+      logger.warn('Error opening dialer:', error?.message || String(error));
+    }
+  }
+
+  /**
+   * Open turn-by-turn directions to a location in the platform maps app
+   */
+  private async openNavigation(location: Location): Promise<void> {
+    const coordinates = `${location.latitude},${location.longitude}`;
+    const url = Platform.OS === 'ios' ? `maps://?daddr=${coordinates}` : `google.navigation:q=${coordinates}`;
+
+    try {
+      await Linking.openURL(url);
+    } catch (error) {
+      await Linking.openURL(`https://www.google.com/maps/dir/?api=1&destination=${coordinates}`).catch(
+        (fallbackError) => {
+          logger.warn('Error opening navigation:', fallbackError?.message || String(fallbackError));
+        }
+      );
+    }
+  }
+
+  /**
+   * Resolve the user's open event id, looking it up at most once a minute
+   */
+  private async resolveOpenEventId(userId: string): Promise<string | null> {
+    const cached = this.openEventCache;
+    if (cached && cached.userId === userId && Date.now() - cached.checkedAt < this.OPEN_EVENT_CACHE_TTL) {
+      return cached.eventId;
+    }
+
+    const event = await this.getOpenEvent(userId);
+    this.openEventCache = { userId, eventId: event?.id || null, checkedAt: Date.now() };
+    return event?.id || null;
+  }
+
+  private shouldRecordBreadcrumb(eventId: string, location: Location): boolean {
+    const last = this.lastBreadcrumb;
+    if (!last || last.eventId !== eventId) return true;
+
+    const elapsed = Date.now() - last.timestamp;
+    if (elapsed < this.BREADCRUMB_MIN_INTERVAL) return false;
+    if (elapsed >= this.BREADCRUMB_MAX_INTERVAL) return true;
+
+    return this.calculateDistance(last.location, location) >= this.BREADCRUMB_DISTANCE;
+  }
+
+  /**
+   * Calculate distance between two points in meters (Haversine formula)
+   */
+  private calculateDistance(from: Location, to: Location): number {
+    const R = 6371000;
+    const dLat = ((to.latitude - from.latitude) * Math.PI) / 180;
+    const dLon = ((to.longitude - from.longitude) * Math.PI) / 180;
+    const a =
+      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos((from.latitude * Math.PI) / 180) *
+        Math.cos((to.latitude * Math.PI) / 180) *
+        Math.sin(dLon / 2) *
+        Math.sin(dLon / 2);
+    return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+
+  private mapDbRowToEvent(row: any): SOSEvent {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      userName: row.user_name || 'Someone',
+      status: row.status || 'active',
+      silent: !!row.silent,
+      location:
+        row.latitude !== null && row.latitude !== undefined
+          ? { latitude: row.latitude, longitude: row.longitude, address: row.address || undefined }
+          : undefined,
+      lastLocation:
+        row.last_latitude !== null && row.last_latitude !== undefined
+          ? { latitude: row.last_latitude, longitude: row.last_longitude, address: row.last_address || undefined }
+          : undefined,
+      lastReportedAt: row.last_reported_at || undefined,
+      closedAt: row.closed_at || undefined,
+      closedBy: row.closed_by || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+
+  private mapDbRowToEventLocation(row: any): SOSEventLocation {
+    return {
+      id: row.id,
+      eventId: row.event_id,
+      location: {
+        latitude: row.latitude,
+        longitude: row.longitude,
+        address: row.address || undefined,
+      },
+      accuracy: row.accuracy ?? null,
+      recordedAt: row.recorded_at,
+    };
+  }
+
+  private mapDbRowToAcknowledgement(row: any): SOSEventAcknowledgement {
+    return {
+      id: row.id,
+      eventId: row.event_id,
+      responderId: row.responder_id,
+      responderName: row.responder_name || 'A connection',
+      response: row.response === 'cant_help' ? 'cant_help' : 'responding',
+      createdAt: row.created_at,
+      updatedAt: row.updated_at || row.created_at,
+    };
+  }
+
+  private mapDbRowToUpdate(row: any): SOSEventUpdate {
+    return {
+      id: row.id,
+      eventId: row.event_id,
+      actorId: row.actor_id || null,
+      actorName: row.actor_name || null,
+      kind: row.kind,
+      status: row.status || null,
+      note: row.note || null,
+      createdAt: row.created_at,
+    };
+  }
+}
+
+export const sosEventService = new SOSEventService();
@@ -0,0 +1,503 @@
+import { AppState, Linking, Platform } from 'react-native';
+import type { AppStateStatus, NativeEventSubscription } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { supabase, hasValidSupabaseConfig } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import { sosEventService } from './sosEventService';
+import { circleService } from './circleService';
+import type { FamilyMember, Location, SOSOutboxEntry, SOSRecipient } from '../types';
+
+const SOS_OUTBOX_STORAGE_KEY = 'sos_outbox';
+
+export interface SendSOSParams {
+  userId: string;
+  userName: string;
+  location: Location | null;
+  connections: FamilyMember[];
+}
+
+type OutboxListener = (entries: SOSOutboxEntry[]) => void;
+
+class SOSService {
+  private readonly RETRY_INTERVAL = 30000; // 30 seconds between outbox retries
+  private readonly REACHABILITY_TIMEOUT = 5000; // 5 seconds before the backend counts as unreachable
+  private readonly MAX_OUTBOX_AGE = 24 * 60 * 60 * 1000; // Stop retrying alerts older than a day
+  private retryTimer: ReturnType<typeof setInterval> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private inFlight: Set<string> = new Set();
+  private listeners: Set<OutboxListener> = new Set();
+  private outboxWrites: Promise<void> = Promise.resolve();
+
+  /**
+   * Send an SOS to every connection whose circle gets SOS alerts.
+   * The alert is persisted in the outbox first, so it is retried until
+   * delivered even if the app is closed. If Supabase is unreachable (or the
+   * first delivery attempt fails) the SMS composer is opened for every
+   * such connection with a phone number.
+   */
+  async sendSOS(params: SendSOSParams): Promise<SOSOutboxEntry> {
+    const entry = this.createEntry(await this.withCircleRecipients(params));
+    await this.saveEntry(entry);
+
+    const reachable = await this.isBackendReachable();
+    let delivered = false;
+
+    if (reachable) {
+      delivered = await this.attemptDelivery(entry);
+    } else {
+      entry.lastError = 'Supabase unreachable';
+      await this.saveEntry(entry);
+    }
+
+    if (!delivered && entry.status === 'pending') {
+      await this.composeSMS(entry);
+    }
+
+    this.startOutboxProcessing();
+    return entry;
+  }
+
+  /**
+   * Send a silent SOS (duress): no SMS composer or other visible feedback on
+   * this device. Connections get an sos_alert flagged silentDuress.
+   * Pass alreadyNotified when the server already created the notifications
+   * (duress PIN on the lock screen), so only the pushes are sent.
+   */
+  async sendSilentSOS(params: SendSOSParams, alreadyNotified: boolean = false): Promise<SOSOutboxEntry> {
+    const entry = this.createEntry(await this.withCircleRecipients(params));
+    entry.silentDuress = true;
+    entry.notificationsCreated = alreadyNotified;
+    entry.title = '🤫 Silent SOS';
+    entry.body = `${params.userName} triggered a silent SOS and may be under duress. Do not call or text them - their phone may be watched.`;
+    await this.saveEntry(entry);
+
+    if (await this.isBackendReachable()) {
+      await this.attemptDelivery(entry);
+    } else {
+      entry.lastError = 'Supabase unreachable';
+      await this.saveEntry(entry);
+    }
+
+    this.startOutboxProcessing();
+    return entry;
+  }
+
+  /**
+   * Retry every pending outbox entry (safe to call at any time)
+   */
+  async flushOutbox(): Promise<void> {
+    const entries = await this.getOutbox();
+    const now = Date.now();
+
+    for (const entry of entries) {
+      if (entry.status !== 'pending') continue;
+
+      if (now - new Date(entry.createdAt).getTime() > this.MAX_OUTBOX_AGE) {
+        entry.status = 'expired';
+        await this.saveEntry(entry);
+        continue;
+      }
+
+      await this.attemptDelivery(entry);
+    }
+
+    if (!(await this.hasPendingEntries())) {
+      this.stopRetryTimer();
+    }
+  }
+
+  /**
+   * Get the persisted outbox (newest first)
+   */
+  async getOutbox(): Promise<SOSOutboxEntry[]> {
+    try {
+      const stored = await AsyncStorage.getItem(SOS_OUTBOX_STORAGE_KEY);
+      const entries: SOSOutboxEntry[] = stored ? JSON.parse(stored) : [];
+      return entries.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime());
+    } catch (error: any) {
+      logger.error('Error reading SOS outbox:', error?.message || String(error));
+      return [];
+    }
+  }
+
+  /**
+   * Listen for outbox changes (delivery status updates)
+   * Returns an unsubscribe function.
+   */
+  subscribe(listener: OutboxListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Retry pending alerts now, whenever the app returns to the foreground,
+   * and every 30 seconds while anything is pending
+   */
+  startOutboxProcessing(): void {
+    if (!this.appStateSubscription) {
+      this.appStateSubscription = AppState.addEventListener('change', (state: AppStateStatus) => {
+        if (state === 'active') {
+          this.flushOutbox();
+        }
+      });
+    }
+
+    this.hasPendingEntries().then((pending) => {
+      if (!pending) return;
+
+      if (!this.retryTimer) {
+        this.retryTimer = setInterval(() => {
+          this.flushOutbox();
+        }, this.RETRY_INTERVAL);
+      }
+      this.flushOutbox();
+    });
+  }
+
+  /**
+   * Stop background retries (pending alerts stay in the outbox)
+   */
+  stopOutboxProcessing(): void {
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.stopRetryTimer();
+  }
+
+  /**
+   * Build the SMS text sent when the online alert can't go out
+   */
+  buildSmsMessage(userName: string, location: Location | null, timestamp: Date): string {
+    let message = `🚨 EMERGENCY ALERT - ${userName} needs help!\n\n`;
+
+    if (location && location.latitude && location.longitude) {
+      message += `📍 Location:\n`;
+      if (location.address) {
+        message += `${location.address}\n`;
+      }
+      message += `Coordinates: ${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)}\n`;
+      message += `Google Maps: https://maps.google.com/?q=${location.latitude},${location.longitude}\n`;
+    } else {
+      message += `⚠️ Location unavailable\n`;
+    }
+
+    message += `\n🕐 Time: ${timestamp.toLocaleString()}\n`;
+    message += `\nPlease send help immediately!`;
+    return message;
+  }
+
+  /**
+   * Drop connections whose circles don't get SOS alerts, using the last
+   * known recipients (the server applies the same rules when delivering)
+   */
+  private async withCircleRecipients(params: SendSOSParams): Promise<SendSOSParams> {
+    const recipientIds = await circleService.getCachedRecipientIds(params.userId, 'sos');
+    if (!recipientIds) return params;
+
+    return {
+      ...params,
+      connections: params.connections.filter(
+        (connection) => !connection.userId || recipientIds.includes(connection.userId)
+      ),
+    };
+  }
+
+  /**
+   * Create the outbox entry with one recipient per connection
+   */
+  private createEntry(params: SendSOSParams): SOSOutboxEntry {
+    const timestamp = new Date();
+    const { location } = params;
+
+    let locationInfo = '';
+    if (location) {
+      if (location.address) {
+        locationInfo = `\n📍 ${location.address}`;
+      }
+      locationInfo += `\n🌐 ${location.latitude.toFixed(6)}, ${location.longitude.toFixed(6)}`;
+      locationInfo += `\n🕐 ${timestamp.toLocaleTimeString()}`;
+    }
+
+    const recipients: SOSRecipient[] = params.connections.map((connection) => ({
+      userId: connection.userId || undefined,
+      name: connection.name,
+      phone: connection.phone && connection.phone.trim() !== '' ? connection.phone : undefined,
+      push: connection.userId ? 'pending' : 'no_device',
+    }));
+
+    return {
+      id: `sos-${timestamp.getTime()}-${Math.random().toString(36).slice(2, 8)}`,
+      userId: params.userId,
+      userName: params.userName,
+      title: '🚨 Emergency Alert',
+      body: `${params.userName} needs help!${locationInfo}`,
+      location,
+      recipients,
+      status: 'pending',
+      notificationsCreated: false,
+      attempts: 0,
+      createdAt: timestamp.toISOString(),
+    };
+  }
+
+  /**
+   * Try to deliver an entry once; returns true if it is fully delivered.
+   * Network errors leave the entry pending for the next retry.
+   */
+  private async attemptDelivery(entry: SOSOutboxEntry): Promise<boolean> {
+    if (this.inFlight.has(entry.id)) return false;
+    this.inFlight.add(entry.id);
+
+    // Work on the latest persisted copy so a stale copy never re-sends
+    const latest = (await this.getOutbox()).find((existing) => existing.id === entry.id);
+    if (latest) {
+      Object.assign(entry, latest);
+
+      if (latest.status !== 'pending') {
+        this.inFlight.delete(entry.id);
+        return latest.status === 'delivered';
+      }
+    }
+
+    try {
+      entry.attempts += 1;
+      entry.lastAttemptAt = new Date().toISOString();
+      await this.deliver(entry);
+      entry.lastError = undefined;
+    } catch (error: any) {
+      entry.lastError = error?.message || String(error);
+      logger.warn(`SOS delivery attempt ${entry.attempts} failed:`, entry.lastError);
+    } finally {
+      this.inFlight.delete(entry.id);
+    }
+
+    await this.saveEntry(entry);
+    return entry.status === 'delivered';
+  }
+
+  /**
+   * Open the SOS event (once), create the in-app notifications (once) and
+   * push to everyone not yet reached
+   */
+  private async deliver(entry: SOSOutboxEntry): Promise<void> {
+    // Responders follow the trail, acknowledgements and status on the event
+    if (!entry.sosEventId) {
+      const event = await sosEventService.openEvent(entry.userId, entry.location, !!entry.silentDuress);
+      if (event) {
+        entry.sosEventId = event.id;
+        await this.saveEntry(entry);
+      }
+    }
+
+    // Follow the user's circles: include connections that exist server-side but
+    // weren't in the local list, and drop those whose circles don't get SOS alerts
+    const connectedUserIds = await this.getConnectedUserIds(entry.userId);
+    entry.recipients = entry.recipients.filter(
+      (recipient) => !recipient.userId || connectedUserIds.includes(recipient.userId)
+    );
+    connectedUserIds.forEach((connectedUserId) => {
+      if (!entry.recipients.some((recipient) => recipient.userId === connectedUserId)) {
+        entry.recipients.push({ userId: connectedUserId, name: 'Connection', push: 'pending' });
+      }
+    });
+
+    const userIds = entry.recipients
+      .map((recipient) => recipient.userId)
+      .filter((id): id is string => !!id);
+    const data = {
+      type: 'sos_alert',
+      userId: entry.userId,
+      userName: entry.userName,
+      location: entry.location,
+      timestamp: entry.createdAt,
+      ...(entry.sosEventId && { sosEventId: entry.sosEventId }),
+      ...(entry.silentDuress && { silentDuress: true }),
+    };
+
+    if (!entry.notificationsCreated && entry.silentDuress) {
+      // Flags the duress server-side (keeps tracking exact) and notifies every connection
+      const { error } = await supabase.rpc('start_silent_sos', { p_location: entry.location });
+
+      if (error) {
+        throw new Error(error.message || 'Failed to start silent SOS');
+      }
+      entry.notificationsCreated = true;
+      await this.saveEntry(entry);
+    }
+
+    if (!entry.notificationsCreated && userIds.length > 0) {
+      const { error } = await supabase.from('notifications').insert(
+        userIds.map((recipientId) => ({
+          user_id: recipientId,
+          title: entry.title,
+          body: entry.body,
+          type: 'sos_alert',
+          data,
+          read: false,
+        }))
+      );
+
+      if (error) {
+        throw new Error(error.message || 'Failed to create notifications');
+      }
+      entry.notificationsCreated = true;
+      await this.saveEntry(entry);
+    }
+
+    const pendingRecipients = entry.recipients.filter(
+      (recipient) => recipient.userId && (recipient.push === 'pending' || recipient.push === 'failed')
+    );
+
+    if (pendingRecipients.length > 0) {
+      const { data: pushResult, error } = await supabase.functions.invoke('send-push-notification', {
+        body: {
+          user_ids: pendingRecipients.map((recipient) => recipient.userId),
+          title: entry.title,
+          body: entry.body,
+          data,
+        },
+      });
+
+      if (error) {
+        throw new Error(error.message || 'Failed to send push notifications');
+      }
+
+      const statuses: Record<string, string> | undefined = pushResult?.recipients;
+      pendingRecipients.forEach((recipient) => {
+        const status = statuses?.[recipient.userId as string];
+        if (status === 'sent' || status === 'muted') {
+          recipient.push = 'delivered';
+        } else if (status === 'no_token') {
+          recipient.push = 'no_device';
+        } else if (status === 'failed') {
+          recipient.push = 'failed';
+        } else {
+          // Older function versions only report totals
+          recipient.push = (pushResult?.sent || 0) > 0 ? 'delivered' : 'failed';
+        }
+      });
+    }
+
+    const undelivered = entry.recipients.some(
+      (recipient) => recipient.push === 'pending' || recipient.push === 'failed'
+    );
+    entry.status = undelivered ? 'pending' : 'delivered';
+  }
+
+  /**
+   * Get everyone connected to the user (in either direction) who gets SOS alerts
+   * Throws if they can't be loaded so the caller can retry.
+   */
+  private async getConnectedUserIds(userId: string): Promise<string[]> {
+    const recipientIds = await circleService.getRecipientIds(userId, 'sos');
+
+    if (!recipientIds) {
+      throw new Error('Failed to fetch connections');
+    }
+
+    return recipientIds.filter((recipientId) => recipientId !== userId);
+  }
+
+  /**
+   * Check whether Supabase answers within a few seconds
+   */
+  private async isBackendReachable(): Promise<boolean> {
+    if (!hasValidSupabaseConfig) return false;
+
+    try {
+      const probe = supabase
+        .from('app_setting')
+        .select('id', { head: true, count: 'exact' })
+        .limit(1)
+        .then(({ error }) => !error);
+      const timeout = new Promise<boolean>((resolve) => {
+        setTimeout(() => resolve(false), this.REACHABILITY_TIMEOUT);
+      });
+
+      return await Promise.race([probe, timeout]);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Open the SMS composer addressed to every connection with a phone number
+   */
+  private async composeSMS(entry: SOSOutboxEntry): Promise<void> {
+    const smsRecipients = entry.recipients.filter((recipient) => recipient.phone);
+    if (smsRecipients.length === 0) return;
+
+    const phones = smsRecipients.map((recipient) => (recipient.phone as string).replace(/[\s\-\(\)]/g, ''));
+    const message = encodeURIComponent(
+      this.buildSmsMessage(entry.userName, entry.location, new Date(entry.createdAt))
+    );
+    const smsUrl = Platform.OS === 'ios'
+      ? `sms:/open?addresses=${phones.join(',')}&body=${message}`
+      : `sms:${phones.join(';')}?body=${message}`;
+
+    let opened = false;
+    try {
+      if (await Linking.canOpenURL(smsUrl)) {
+        await Linking.openURL(smsUrl);
+        opened = true;
+      }
+    } catch (error: any) {
+      logger.error('Error opening SMS composer:', error?.message || String(error));
+    }
+
+    smsRecipients.forEach((recipient) => {
+      recipient.sms = opened ? 'opened' : 'unavailable';
+    });
+    await this.saveEntry(entry);
+  }
+
+  /**
+   * Insert or replace an entry, dropping finished entries older than a day.
+   * A finished entry is never replaced, so a stale pending copy can't bring a
+   * delivered or expired alert back.
+   */
+  private saveEntry(entry: SOSOutboxEntry): Promise<void> {
+    return this.updateOutbox(async () => {
+      const now = Date.now();
+      const stored = await this.getOutbox();
+      const existing = stored.find((candidate) => candidate.id === entry.id);
+      if (existing && existing.status !== 'pending') return;
+
+      const entries = stored.filter(
+        (candidate) =>
+          candidate.id !== entry.id &&
+          (candidate.status === 'pending' || now - new Date(candidate.createdAt).getTime() <= this.MAX_OUTBOX_AGE)
+      );
+      entries.unshift(entry);
+
+      await AsyncStorage.setItem(SOS_OUTBOX_STORAGE_KEY, JSON.stringify(entries));
+      this.listeners.forEach((listener) => listener(entries));
+    });
+  }
+
+  /**
+   * Run an outbox read-modify-write after the previous one finishes, so the
+   * retry timer, the foreground retry and a new SOS never overwrite each other
+   */
+  private updateOutbox(update: () => Promise<void>): Promise<void> {
+    const next = this.outboxWrites.then(update).catch((error: any) => {
+      logger.error('Error saving SOS outbox:', error?.message || String(error));
+    });
+    this.outboxWrites = next;
+    return next;
+  }
+
+  private async hasPendingEntries(): Promise<boolean> {
+    return (await this.getOutbox()).some((entry) => entry.status === 'pending');
+  }
+
+  private stopRetryTimer(): void {
+    if (this.retryTimer) {
+      clearInterval(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+}
+
+export const sosService = new SOSService();
@@ -1,9 +1,15 @@
+import * as ExpoLocation from 'expo-location';
 import { supabase, hasValidSupabaseConfig } from '../lib/supabase';
 import { locationService } from './locationService';
 import { logger } from '../utils/logger';
 import type { TravelAdvisory, RouteRiskData, Location } from '../types';
 
+type RouteCoordinates = NonNullable<RouteRiskData['routeCoordinates']>;
+
 class TravelAdvisoryService {
+  private readonly ROUTE_BUFFER_KM = 10; // Corridor half-width (calculate_route_risk_breakdown's default) - roads rarely follow a straight line
+  private readonly ROUTE_RISK_MAX_AGE_MS = 60 * 60 * 1000; // Recompute cached route risk after 1 hour
+
   /**
    * Get travel advisories for a specific location
    */
@@ -82,22 +88,21 @@ class TravelAdvisoryService {
     originState: string,
     destinationState: string,
     originCity?: string,
-    destinationCity?: string
+    destinationCity?: string,
+    routeCoordinates?: RouteCoordinates
   ): Promise<RouteRiskData | null> {
     try {
+      // A route without a city is cached separately from the same route with one
       let query = supabase
         .from('route_risk_data')
         .select('*')
         .eq('origin_state', originState)
         .eq('destination_state', destinationState);
 
-      if (originCity) {
-        query = query.eq('origin_city', originCity);
-      }
-
-      if (destinationCity) {
-        query = query.eq('destination_city', destinationCity);
-      }
+      query = originCity ? query.eq('origin_city', originCity) : query.is('origin_city', null);
+      query = destinationCity
+        ? query.eq('destination_city', destinationCity)
+        : query.is('destination_city', null);
 
       const { data, error } = await query.order('last_updated', { ascending: false }).limit(1);
 
@@ -106,16 +111,22 @@ class TravelAdvisoryService {
         return null;
       }
 
-      if (data && data.length > 0) {
-        return this.mapDbRowToRouteRisk(data[0]);
+      // Reuse a recent result unless the caller has a specific route to score
+      if (data && data.length > 0 && !routeCoordinates) {
+        const cached = this.mapDbRowToRouteRisk(data[0]);
+        const age = Date.now() - new Date(cached.lastUpdated).getTime();
+        if (age < this.ROUTE_RISK_MAX_AGE_MS) {
+          return cached;
+        }
       }
 
-      // If no existing data, calculate and create new route risk
+      // No fresh data - calculate and create new route risk
       return this.calculateAndSaveRouteRisk(
         originState,
         destinationState,
         originCity,
-        destinationCity
+        destinationCity,
+        routeCoordinates
       );
     } catch (error) {
       console.error('Error in getRouteRiskData:', error);
@@ -125,20 +136,30 @@ class TravelAdvisoryService {
 
   /**
    * Calculate and save route risk data
+   * Incidents are matched to a corridor around the route when it is known (or the
+   * endpoints can be geocoded), otherwise to the origin/destination states.
    */
   private async calculateAndSaveRouteRisk(
     originState: string,
     destinationState: string,
     originCity?: string,
-    destinationCity?: string
+    destinationCity?: string,
+    routeCoordinates?: RouteCoordinates
   ): Promise<RouteRiskData | null> {
     try {
-      // Call database function to calculate risk
-      const { data, error } = await supabase.rpc('calculate_route_risk', {
+      const coordinates =
+        routeCoordinates && routeCoordinates.length >= 2
+          ? routeCoordinates
+          : await this.geocodeRouteEndpoints(originState, destinationState, originCity, destinationCity);
+
+      // Call database function to calculate risk from the scoped incident counts
+      const { data, error } = await supabase.rpc('calculate_route_risk_breakdown', {
         p_origin_state: originState,
         p_destination_state: destinationState,
         p_origin_city: originCity || null,
         p_destination_city: destinationCity || null,
+        p_route_coordinates: coordinates || null,
+        p_buffer_km: this.ROUTE_BUFFER_KM,
       });
 
       if (error) {
@@ -146,38 +167,29 @@ class TravelAdvisoryService {
         return null;
       }
 
-      const riskScore = data || 0;
+      const risk = Array.isArray(data) ? data[0] : data;
 
-      // Get incident counts
-      const { count: count24h } = await supabase
-        .from('incidents')
-        .select('*', { count: 'exact', head: true })
-        .gte('created_at', new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
-
-      const { count: count7d } = await supabase
-        .from('incidents')
-        .select('*', { count: 'exact', head: true })
-        .gte('created_at', new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString());
-
-      const { count: count30d } = await supabase
-        .from('incidents')
-        .select('*', { count: 'exact', head: true })
-        .gte('created_at', new Date(Date.now() - 30 * 24 * 60 * 60 * 1000).toISOString());
-
-      // Save route risk data
+      // Save route risk data (one row per route, replaced on refresh)
       const { data: savedData, error: saveError } = await supabase
         .from('route_risk_data')
-        .insert({
-          origin_state: originState,
-          origin_city: originCity || null,
-          destination_state: destinationState,
-          destination_city: destinationCity || null,
-          risk_score: riskScore,
-          incident_count_24h: count24h || 0,
-          incident_count_7d: count7d || 0,
-          incident_count_30d: count30d || 0,
-          last_updated: new Date().toISOString(),
-        })
+        .upsert(
+          {
+            origin_state: originState,
+            origin_city: originCity || null,
+            destination_state: destinationState,
+            destination_city: destinationCity || null,
+            route_coordinates: coordinates || null,
+            buffer_km: coordinates ? this.ROUTE_BUFFER_KM : null,
+            risk_score: risk?.risk_score || 0,
+            incident_count_24h: risk?.incident_count_24h || 0,
+            incident_count_7d: risk?.incident_count_7d || 0,
+            incident_count_30d: risk?.incident_count_30d || 0,
+            last_incident_at: risk?.last_incident_at || null,
+            category_breakdown: risk?.category_breakdown || {},
+            last_updated: new Date().toISOString(),
+          },
+          { onConflict: 'origin_state,origin_city,destination_state,destination_city' }
+        )
         .select()
         .single();
 
@@ -193,6 +205,36 @@ class TravelAdvisoryService {
     }
   }
 
+  /**
+   * Geocode the origin and destination into a straight-line route
+   * Returns undefined if either end can't be found (risk then falls back to state matching).
+   */
+  private async geocodeRouteEndpoints(
+    originState: string,
+    destinationState: string,
+    originCity?: string,
+    destinationCity?: string
+  ): Promise<RouteCoordinates | undefined> {
+    try {
+      const [origin, destination] = await Promise.all([
+        ExpoLocation.geocodeAsync([originCity, originState].filter(Boolean).join(', ')),
+        ExpoLocation.geocodeAsync([destinationCity, destinationState].filter(Boolean).join(', ')),
+      ]);
+
+      if (origin.length === 0 || destination.length === 0) {
+        return undefined;
+      }
+
+      return [
+        { latitude: origin[0].latitude, longitude: origin[0].longitude },
+        { latitude: destination[0].latitude, longitude: destination[0].longitude },
+      ];
+    } catch (error: any) {
+      logger.warn('Could not geocode route endpoints, using state matching:', error?.message || String(error));
+      return undefined;
+    }
+  }
+
   /**
    * Get risk level color
    */
@@ -229,6 +271,30 @@ class TravelAdvisoryService {
     return '#10B981'; // Low
   }
 
+  /**
+   * Get the length of a route in km (sum of Haversine segment distances)
+   */
+  getRouteDistanceKm(coordinates: RouteRiskData['routeCoordinates']): number | null {
+    if (!coordinates || coordinates.length < 2) return null;
+
+    const R = 6371;
+    let total = 0;
+    for (let i = 1; i < coordinates.length; i++) {
+      const from = coordinates[i - 1];
+      const to = coordinates[i];
+      const dLat = ((to.latitude - from.latitude) * Math.PI) / 180;
+      const dLon = ((to.longitude - from.longitude) * Math.PI) / 180;
+      const a =
+        Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+        Math.cos((from.latitude * Math.PI) / 180) *
+          Math.cos((to.latitude * Math.PI) / 180) *
+          Math.sin(dLon / 2) *
+          Math.sin(dLon / 2);
+      total += R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+    }
+    return total;
+  }
+
   /**
    * Map database row to TravelAdvisory
    */
@@ -271,6 +337,8 @@ class TravelAdvisoryService {
       incidentCount30d: row.incident_count_30d || 0,
       lastIncidentAt: row.last_incident_at || undefined,
       averageTravelTimeMinutes: row.average_travel_time_minutes || undefined,
+      categoryBreakdown: row.category_breakdown || {},
+      bufferKm: row.buffer_km || undefined,
       lastUpdated: row.last_updated,
       createdAt: row.created_at,
     };
@@ -0,0 +1,426 @@
+import { supabase, hasValidSupabaseConfig } from '../lib/supabase';
+import { logger } from '../utils/logger';
+import type { Location, Trip, TripUpdate } from '../types';
+
+export interface TripInput {
+  origin?: Location;
+  originLabel?: string;
+  destination: Location;
+  destinationLabel: string;
+  expectedArrivalAt: Date;
+  watcherIds: string[];
+  arrivalRadiusMeters?: number;
+  graceMinutes?: number;
+}
+
+class TripService {
+  private lastPositionReport: { userId: string; location: Location; timestamp: number } | null = null;
+  private readonly REPORT_MIN_INTERVAL = 30000; // 30 seconds between reports
+  private readonly REPORT_MAX_INTERVAL = 120000; // 2 minutes - report even if not moving
+  private readonly REPORT_DISTANCE = 50; // 50 meters - report sooner if moved this far
+
+  /**
+   * Start a trip and let the chosen connections know
+   * Fails if the user already has an ongoing trip (one per user).
+   */
+  async startTrip(userId: string, userName: string, input: TripInput): Promise<Trip | null> {
+    try {
+      const { data, error } = await supabase
+        .from('trips')
+        .insert({
+          user_id: userId,
+          origin_label: input.originLabel?.trim() || null,
+          origin_latitude: input.origin?.latitude ?? null,
+          origin_longitude: input.origin?.longitude ?? null,
+          destination_label: input.destinationLabel.trim(),
+          destination_latitude: input.destination.latitude,
+          destination_longitude: input.destination.longitude,
+          expected_arrival_at: input.expectedArrivalAt.toISOString(),
+          watcher_ids: input.watcherIds,
+          ...(input.arrivalRadiusMeters !== undefined && { arrival_radius_meters: input.arrivalRadiusMeters }),
+          ...(input.graceMinutes !== undefined && { grace_minutes: input.graceMinutes }),
+          last_latitude: input.origin?.latitude ?? null,
+          last_longitude: input.origin?.longitude ?? null,
+          last_reported_at: input.origin ? new Date().toISOString() : null,
+        })
+        .select()
+        .single();
+
+      if (error) {
+        logger.error('Error starting trip:', error?.message || error?.code || String(error));
+        return null;
+      }
+
+      const trip = this.mapDbRowToTrip(data);
+      this.lastPositionReport = null;
+      await this.notifyTripStarted(trip, userName);
+      return trip;
+    } catch (error: any) {
+      logger.error('Error in startTrip:', error?.message || String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Confirm arrival manually (arrival is also confirmed automatically when the
+   * traveller reaches the destination)
+   */
+  async confirmArrival(trip: Trip): Promise<boolean> {
+    return this.completeTrip(trip, 'arrived');
+  }
+
+  /**
+   * Cancel an ongoing trip
+   */
+  async cancelTrip(trip: Trip): Promise<boolean> {
+    return this.completeTrip(trip, 'cancelled');
+  }
+
+  /**
+   * Get the user's ongoing trip, if any
+   */
+  async getActiveTrip(userId: string): Promise<Trip | null> {
+    try {
+      if (!hasValidSupabaseConfig) {
+        return null;
+      }
+
+      const { data, error } = await supabase
+        .from('trips')
+        .select('*')
+        .eq('user_id', userId)
+        .in('status', ['active', 'overdue'])
+        .maybeSingle();
+
+      if (error) {
+        logger.error('Error fetching active trip:', error?.message || error?.code || String(error));
+        return null;
+      }
+
+      return data ? this.mapDbRowToTrip(data) : null;
+    } catch (error: any) {
+      logger.error('Error in getActiveTrip:', error?.message || String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Get ongoing trips the user was chosen to follow
+   */
+  async getWatchedTrips(userId: string): Promise<Trip[]> {
+    try {
+      if (!hasValidSupabaseConfig) {
+        return [];
+      }
+
+      const { data, error } = await supabase
+        .from('trips')
+        .select('*')
+        .contains('watcher_ids', [userId])
+        .in('status', ['active', 'overdue'])
+        .order('expected_arrival_at', { ascending: true });
+
+      if (error) {
+        logger.error('Error fetching watched trips:', error?.message || error?.code || String(error));
+        return [];
+      }
+
+      return (data || []).map((row) => this.mapDbRowToTrip(row));
+    } catch (error: any) {
+      logger.error('Error in getWatchedTrips:', error?.message || String(error));
+      return [];
+    }
+  }
+
+  /**
+   * Get a trip by id
+   */
+  async getTrip(tripId: string): Promise<Trip | null> {
+    try {
+      const { data, error } = await supabase
+        .from('trips')
+        .select('*')
+        .eq('id', tripId)
+        .maybeSingle();
+
+      if (error) {
+        logger.error('Error fetching trip:', error?.message || error?.code || String(error));
+        return null;
+      }
+
+      return data ? this.mapDbRowToTrip(data) : null;
+    } catch (error: any) {
+      logger.error('Error in getTrip:', error?.message || String(error));
+      return null;
+    }
+  }
+
+  /**
+   * Subscribe to changes of a single trip (progress, arrival, escalation)
+   * Returns an unsubscribe function.
+   */
+  subscribeToTrip(tripId: string, onChange: (trip: Trip) => void): () => void {
+    const channel = supabase
+      .channel(`trip-${tripId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'trips',
+          filter: `id=eq.${tripId}`,
+        },
+        (payload) => {
+          if (payload.new) {
+            onChange(this.mapDbRowToTrip(payload.new));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }
+
+  /**
+   * Report the user's position on their ongoing trip.
+   * Progress and automatic arrival are handled server-side in
+   * report_trip_position (the same function the location_history trigger
+   * uses), so calling this and inserting history never double-notifies.
+   * Call this BEFORE inserting into location_history so the push is sent from here.
+   */
+  async reportPosition(
+    userId: string,
+    location: Location,
+    accuracy?: number | null,
+    force: boolean = false
+  ): Promise<TripUpdate[]> {
+    try {
+      if (!hasValidSupabaseConfig) {
+        return [];
+      }
+
+      if (!force && !this.shouldReportPosition(userId, location)) {
+        return [];
+      }
+      this.lastPositionReport = { userId, location, timestamp: Date.now() };
+
+      const { data, error } = await supabase.rpc('report_trip_position', {
+        p_user_id: userId,
+        p_latitude: location.latitude,
+        p_longitude: location.longitude,
+        p_accuracy: accuracy !== undefined && accuracy !== null ? accuracy : null,
+      });
+
+      if (error) {
+        logger.warn('Error reporting trip position:', error?.message || error?.code || String(error));
+        return [];
+      }
+
+      const updates = (data || []).map((row: any) => this.mapDbRowToTripUpdate(row));
+      for (const update of updates) {
+        await this.sendTripPushNotification(userId, update);
+      }
+
+      return updates;
+    } catch (error: any) {
+      logger.warn('Error in reportPosition:', error?.message || String(error));
+      return [];
+    }
+  }
+
+  /**
+   * Finish a trip server-side and push the result to the watchers
+   */
+  private async completeTrip(trip: Trip, status: 'arrived' | 'cancelled'): Promise<boolean> {
+    try {
+      const { data, error } = await supabase.rpc('complete_trip', {
+        p_trip_id: trip.id,
+        p_user_id: trip.userId,
+        p_status: status,
+      });
+
+      if (error) {
+        logger.error('Error completing trip:', error?.message || error?.code || String(error));
+        return false;
+      }
+
+      const updates = (data || []).map((row: any) => this.mapDbRowToTripUpdate(row));
+      for (const update of updates) {
+        await this.sendTripPushNotification(trip.userId, update);
+      }
+
+      return true;
+    } catch (error: any) {
+      logger.error('Error in completeTrip:', error?.message || String(error));
+      return false;
+    }
+  }
+
+  /**
+   * Throttle position reports: at most every 30 seconds, and only when the
+   * user moved or the last report is getting old
+   */
+  private shouldReportPosition(userId: string, location: Location): boolean {
+    const last = this.lastPositionReport;
+    if (!last || last.userId !== userId) return true;
+
+    const elapsed = Date.now() - last.timestamp;
+    if (elapsed < this.REPORT_MIN_INTERVAL) return false;
+    if (elapsed >= this.REPORT_MAX_INTERVAL) return true;
+
+    return this.calculateDistance(last.location, location) >= this.REPORT_DISTANCE;
+  }
+
+  /**
+   * Insert the in-app notification and push "trip started" to the watchers
+   */
+  private async notifyTripStarted(trip: Trip, userName: string): Promise<void> {
+    if (trip.watcherIds.length === 0) return;
+
+    const arrival = new Date(trip.expectedArrivalAt).toLocaleTimeString([], {
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    const title = `🧭 ${userName} started a trip`;
+    const body = `${userName} is heading to ${trip.destinationLabel}. Expected arrival ${arrival}.`;
+    const data = {
+      type: 'trip_started',
+      tripId: trip.id,
+      userId: trip.userId,
+      userName,
+      destination: trip.destinationLabel,
+      expectedArrivalAt: trip.expectedArrivalAt,
+      timestamp: new Date().toISOString(),
+    };
+
+    try {
+      const { error } = await supabase.from('notifications').insert(
+        trip.watcherIds.map((watcherId) => ({
+          user_id: watcherId,
+          title,
+          body,
+          type: 'trip_started',
+          data,
+          read: false,
+        }))
+      );
+
+      if (error) {
+        logger.warn('Error inserting trip started notifications:', error?.message || String(error));
+      }
+
+      const { error: pushError } = await supabase.functions.invoke('send-push-notification', {
+        body: { user_ids: trip.watcherIds, title, body, data },
+      });
+
+      if (pushError) {
+        logger.warn('Error sending trip started push notification:', pushError?.message || String(pushError));
+      }
+    } catch (error: any) {
+      // Don't throw - the trip itself was created
+      logger.warn('Exception notifying trip watchers:', error?.message || String(error));
+    }
+  }
+
+  /**
+   * Push an arrival/cancellation to the watchers (the in-app notification was
+   * already created server-side)
+   */
+  private async sendTripPushNotification(userId: string, update: TripUpdate): Promise<void> {
+    if (update.watcherIds.length === 0) return;
+
+    try {
+      const { error } = await supabase.functions.invoke('send-push-notification', {
+        body: {
+          user_ids: update.watcherIds,
+          title: update.title,
+          body: update.body,
+          data: {
+            type: update.notificationType,
+            tripId: update.tripId,
+            userId,
+            timestamp: new Date().toISOString(),
+          },
+        },
+      });
+
+      if (error) {
+        logger.warn('Error sending trip push notification:', error?.message || String(error));
+      }
+    } catch (error: any) {
+      logger.warn('Exception sending trip push notification:', error?.message || String(error));
+    }
+  }
+
+  /**
+   * Calculate distance between two points in meters (Haversine formula)
+   */
+  calculateDistance(from: Location, to: Location): number {
+    const R = 6371000;
+    const dLat = ((to.latitude - from.latitude) * Math.PI) / 180;
+    const dLon = ((to.longitude - from.longitude) * Math.PI) / 180;
+    const a =
+      Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+      Math.cos((from.latitude * Math.PI) / 180) *
+        Math.cos((to.latitude * Math.PI) / 180) *
+        Math.sin(dLon / 2) *
+        Math.sin(dLon / 2);
+    return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  }
+
+  /**
+   * Map report_trip_position / complete_trip row to TripUpdate
+   */
+  private mapDbRowToTripUpdate(row: any): TripUpdate {
+    return {
+      tripId: row.trip_id,
+      notificationType: row.notification_type,
+      watcherIds: Array.isArray(row.watcher_ids) ? row.watcher_ids : [],
+      title: row.title,
+      body: row.body,
+    };
+  }
+
+  /**
+   * Map database row to Trip
+   */
+  private mapDbRowToTrip(row: any): Trip {
+    return {
+      id: row.id,
+      userId: row.user_id,
+      originLabel: row.origin_label || undefined,
+      origin:
+        row.origin_latitude !== null && row.origin_latitude !== undefined
+          ? { latitude: row.origin_latitude, longitude: row.origin_longitude }
+          : undefined,
+      destinationLabel: row.destination_label,
+      destination: {
+        latitude: row.destination_latitude,
+        longitude: row.destination_longitude,
+        address: row.destination_label,
+      },
+      arrivalRadiusMeters: row.arrival_radius_meters ?? 300,
+      expectedArrivalAt: row.expected_arrival_at,
+      graceMinutes: row.grace_minutes ?? 15,
+      staleMinutes: row.stale_minutes ?? 30,
+      watcherIds: Array.isArray(row.watcher_ids) ? row.watcher_ids : [],
+      status: row.status || 'active',
+      lastLocation:
+        row.last_latitude !== null && row.last_latitude !== undefined
+          ? { latitude: row.last_latitude, longitude: row.last_longitude }
+          : undefined,
+      lastReportedAt: row.last_reported_at || undefined,
+      startedAt: row.started_at,
+      arrivedAt: row.arrived_at || undefined,
+      cancelledAt: row.cancelled_at || undefined,
+      escalatedAt: row.escalated_at || undefined,
+      escalationReason: row.escalation_reason || undefined,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at,
+    };
+  }
+}
+
+export const tripService = new TripService();
@@ -4,6 +4,13 @@ import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as Battery from 'expo-battery';
 import { supabase } from '../lib/supabase';
+import { placesService } from '../services/placesService';
+import { tripService } from '../services/tripService';
+import { sosEventService } from '../services/sosEventService';
+import { SLEEP_MODE_STORAGE_KEY, isWithinSleepWindow } from '../utils/sleepMode';
+import { BATTERY_POLICY_STORAGE_KEY } from '../utils/batteryPolicy';
+import { LOCATION_PRIVACY_STORAGE_KEY, applyAccuracyPrivacy, applyLocationPrivacy } from '../utils/locationPrivacy';
+import type { LocationPrivacyState } from '../utils/locationPrivacy';
 import type { Location as LocationType } from '../types';
 
 const LOCATION_TASK_NAME = 'background-location-task';
@@ -73,6 +80,13 @@ TaskManager.defineTask(LOCATION_TASK_NAME, async ({ data, error }) => {
         const shareLocationStr = await AsyncStorage.getItem('location_tracking_shareLocation');
         const shareLocation = shareLocationStr === 'true';
 
+        // Check place arrive/leave transitions and trip progress for every background fix
+        // (history is only inserted every 30 minutes, which is too coarse for geofences)
+        if (userId) {
+          await placesService.checkPlaceTransitions(userId, locationData, location.coords?.accuracy ?? null);
+          await tripService.reportPosition(userId, locationData, location.coords?.accuracy ?? null);
+        }
+
         if (!userId || !familyGroupId) {
           console.warn('Background location update: userId or familyGroupId not found in storage');
           return;
@@ -87,6 +101,43 @@ TaskManager.defineTask(LOCATION_TASK_NAME, async ({ data, error }) => {
           // Use default value if battery level cannot be retrieved
         }
 
+        // Sleep mode: reduce tracking inside the user's quiet hours
+        let isSleeping = false;
+        try {
+          const sleepModeStr = await AsyncStorage.getItem(SLEEP_MODE_STORAGE_KEY);
+          isSleeping = sleepModeStr ? isWithinSleepWindow(JSON.parse(sleepModeStr)) : false;
+        } catch (sleepError) {
+          // Ignore - track normally if settings can't be read
+        }
+        let historyInserted = false;
+
+        // Battery saving: interval from the tracking policy picked by locationService
+        let policyIntervalMinutes = 30;
+        try {
+          const policyStr = await AsyncStorage.getItem(BATTERY_POLICY_STORAGE_KEY);
+          const policy = policyStr ? JSON.parse(policyStr) : null;
+          if (policy?.backgroundIntervalMinutes > 0) {
+            policyIntervalMinutes = policy.backgroundIntervalMinutes;
+          }
+        } catch (policyError) {
+          // Ignore - use the default 30-minute interval
+        }
+
+        // Location accuracy: approximate mode snaps what connections see (exact during emergencies)
+        let privacyState: LocationPrivacyState | null = null;
+        try {
+          const privacyStr = await AsyncStorage.getItem(LOCATION_PRIVACY_STORAGE_KEY);
+          privacyState = privacyStr ? JSON.parse(privacyStr) : null;
+        } catch (privacyError) {
+          // Ignore - the server applies the same setting on write
+        }
+        const sharedLocation = applyLocationPrivacy(locationData, privacyState);
+
+        // Keep the SOS event trail going while emergency tracking runs
+        if (privacyState?.emergencyOverride) {
+          await sosEventService.recordLocation(userId, locationData, location.coords?.accuracy ?? null);
+        }
+
         // Find the family member record for this user
         const { data: members, error: memberError } = await supabase
           .from('family_members')
@@ -101,9 +152,10 @@ TaskManager.defineTask(LOCATION_TASK_NAME, async ({ data, error }) => {
         // Save to location_history every 30 minutes (fixed interval for background/closed app)
         // This ensures consistent location tracking when app is closed or in background
         try {
-          // Fixed 30-minute interval for background/closed app location tracking
-          const LOCATION_UPDATE_INTERVAL_MINUTES = 30;
-          const frequencyMs = LOCATION_UPDATE_INTERVAL_MINUTES * 60 * 1000; // 30 minutes in milliseconds
+          // 30-minute interval for background/closed app location tracking
+          // (longer under battery saving profiles, at least 2 hours while sleep mode is active)
+          const LOCATION_UPDATE_INTERVAL_MINUTES = isSleeping ? Math.max(120, policyIntervalMinutes) : policyIntervalMinutes;
+          const frequencyMs = LOCATION_UPDATE_INTERVAL_MINUTES * 60 * 1000;
 
           // Check if enough time has passed since last insert
           const lastInsertKey = `location_history_last_insert_${userId}`;
@@ -116,7 +168,7 @@ TaskManager.defineTask(LOCATION_TASK_NAME, async ({ data, error }) => {
             // Not enough time has passed, skip insert
             const minutesRemaining = Math.ceil((frequencyMs - timeSinceLastInsert) / (60 * 1000));
             if (__DEV__) {
-              console.log(`Skipping background location history insert - ${minutesRemaining} minutes remaining (30-minute interval)`);
+              console.log(`Skipping background location history insert - ${minutesRemaining} minutes remaining (${LOCATION_UPDATE_INTERVAL_MINUTES}-minute interval)`);
             }
           } else {
             // ALWAYS insert new row into location_history - NEVER update existing rows
@@ -132,10 +184,10 @@ TaskManager.defineTask(LOCATION_TASK_NAME, async ({ data, error }) => {
               .from('location_history')
               .insert({
                 user_id: userId,
-                latitude: locationData.latitude,
-                longitude: locationData.longitude,
-                address: locationData.address || null, // Keep null if no address (don't update to empty)
-                accuracy: locationAccuracy, // Include accuracy (0 is valid, only null if undefined)
+                latitude: sharedLocation.latitude,
+                longitude: sharedLocation.longitude,
+                address: sharedLocation.address || null, // Keep null if no address (don't update to empty)
+                accuracy: applyAccuracyPrivacy(locationAccuracy, privacyState), // Include accuracy (0 is valid, only null if undefined)
               });
 
             if (historyError) {
@@ -143,6 +195,7 @@ TaskManager.defineTask(LOCATION_TASK_NAME, async ({ data, error }) => {
             } else {
               // Update last insert timestamp in AsyncStorage (this is just for tracking, not database update)
               await AsyncStorage.setItem(lastInsertKey, now.toString());
+              historyInserted = true;
               if (__DEV__) {
                 console.log(`Background location inserted into history (new row created, 30-minute interval)`);
               }
@@ -153,14 +206,15 @@ TaskManager.defineTask(LOCATION_TASK_NAME, async ({ data, error }) => {
         }
 
         // Update connections table for real-time location sharing (if location sharing is enabled)
-        if (shareLocation) {
+        // During sleep mode only share alongside history inserts
+        if (shareLocation && (!isSleeping || historyInserted)) {
           try {
             const { error: connectionsError } = await supabase
               .from('connections')
               .update({
-                location_latitude: locationData.latitude,
-                location_longitude: locationData.longitude,
-                location_address: locationData.address || null,
+                location_latitude: sharedLocation.latitude,
+                location_longitude: sharedLocation.longitude,
+                location_address: sharedLocation.address || null,
                 location_updated_at: new Date().toISOString(),
               })
               .eq('connected_user_id', userId)
@@ -187,9 +241,9 @@ TaskManager.defineTask(LOCATION_TASK_NAME, async ({ data, error }) => {
           const { error: updateError } = await supabase
             .from('family_members')
             .update({
-              location_latitude: locationData.latitude,
-              location_longitude: locationData.longitude,
-              location_address: locationData.address || null,
+              location_latitude: sharedLocation.latitude,
+              location_longitude: sharedLocation.longitude,
+              location_address: sharedLocation.address || null,
               last_seen: new Date().toISOString(),
               is_online: shareLocation,
               share_location: shareLocation,
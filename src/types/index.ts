@@ -40,15 +40,82 @@ export interface IncidentReporter {
 
 export interface Incident {
   id: string;
+  userId?: string; // Reporter
   type: string;
   title: string;
   description: string;
   location: Location;
   createdAt: string;
   reporter: IncidentReporter;
-  upvotes: number;
-  confirmed: boolean;
+  upvotes: number; // "I can confirm" votes
+  falseVotes: number; // "This is false" votes
+  confirmed: boolean; // Set server-side from proximity-weighted votes
   category: string;
+  media?: IncidentMedia[]; // Photo/video evidence, in upload order
+  status: IncidentStatus;
+  statusChangedAt?: string;
+  updateCount: number; // Comments in the update thread
+  lastUpdateAt?: string;
+}
+
+export type IncidentStatus = 'ongoing' | 'contained' | 'resolved';
+
+// Entry in an incident's update thread (incident_updates)
+export interface IncidentUpdate {
+  id: string;
+  incidentId: string;
+  parentId: string | null; // Set on replies; threads are one level deep
+  userId: string | null; // null for community status changes and anonymous posts
+  authorName: string;
+  isReporter: boolean;
+  kind: 'comment' | 'status_changed';
+  status: IncidentStatus | null;
+  body: string | null;
+  location?: Location; // Where the update was posted from, if shared
+  createdAt: string;
+  replies: IncidentUpdate[];
+}
+
+export type IncidentVote = 'confirm' | 'false';
+
+export interface IncidentStatusVotes {
+  counts: Record<IncidentStatus, number>;
+  myVote: IncidentStatus | null;
+}
+
+export type IncidentMediaType = 'photo' | 'video';
+
+// Uploaded evidence (incident_media); URLs point at the public incident-media bucket
+export interface IncidentMedia {
+  id: string;
+  incidentId: string;
+  type: IncidentMediaType;
+  url: string;
+  thumbnailUrl: string;
+  width: number | null;
+  height: number | null;
+  durationSeconds: number | null;
+  createdAt: string;
+}
+
+// Photo or clip picked on the report screen, before upload
+export interface IncidentMediaDraft {
+  uri: string;
+  type: IncidentMediaType;
+  width: number;
+  height: number;
+  durationSeconds: number | null;
+}
+
+// Why an item could not be uploaded (shown on the report screen)
+export type IncidentMediaFailureReason = 'unsupported_format' | 'too_long' | 'limit_reached';
+
+export interface IncidentMediaUploadProgress {
+  index: number; // Into the drafts passed to addIncident
+  bytesSent: number;
+  bytesTotal: number;
+  status: 'preparing' | 'uploading' | 'done' | 'failed' | 'queued';
+  failureReason?: IncidentMediaFailureReason;
 }
 
 export interface TimeFilter {
@@ -75,7 +142,50 @@ export interface Connection {
   createdAt: string;
   updatedAt: string;
   isLocked?: boolean;
+  isUnderDuress?: boolean; // Silent SOS active
   locationSharingEnabled?: boolean;
+  sharingWithMe?: LocationSharingWindow; // How they share their location with me
+  mySharing?: LocationSharingWindow; // How I share my location with them
+}
+
+export type LocationSharingMode = 'always' | 'until' | 'until_arrival' | 'schedule';
+
+export interface LocationSharingWindow {
+  enabled: boolean;
+  mode: LocationSharingMode;
+  until: string | null; // mode 'until'
+  tripId: string | null; // mode 'until_arrival'
+  days: number[]; // mode 'schedule': ISO weekdays, 1 = Monday
+  startTime: string | null; // mode 'schedule': 'HH:MM:SS' in the sharer's time zone
+  endTime: string | null;
+}
+
+// Location history playback on the map (times are epoch ms)
+export interface PlaybackPoint extends Location {
+  time: number;
+}
+
+export type PlaybackSegmentType = 'stop' | 'move' | 'gap';
+
+export interface PlaybackSegment {
+  type: PlaybackSegmentType;
+  startIndex: number; // Into PlaybackTimeline.points
+  endIndex: number;
+  startTime: number;
+  endTime: number;
+  durationSeconds: number; // Dwell time for stops
+  distanceMeters: number; // 'move' only (0 otherwise)
+  averageSpeedKmh: number; // 'move' only
+  maxSpeedKmh: number; // 'move' only
+  center?: Location; // 'stop' only
+}
+
+export interface PlaybackTimeline {
+  points: PlaybackPoint[]; // Oldest first
+  segments: PlaybackSegment[];
+  startTime: number;
+  endTime: number;
+  gapThresholdSeconds: number;
 }
 
 export interface AppSetting {
@@ -98,13 +208,14 @@ export type RootStackParamList = {
   ReportIncident: undefined;
   IncidentDetail: { incident: Incident };
   Connections: undefined;
-  MapView: { location: Location; title?: string; showUserLocation?: boolean; userId?: string };
+  MapView: { location: Location; title?: string; showUserLocation?: boolean; userId?: string; tripId?: string };
   Notifications: undefined;
   EditProfile: undefined;
   EmergencyNotes: undefined;
   LocationAccuracy: undefined;
   SleepMode: undefined;
   NotificationFilters: undefined;
+  AccountLock: undefined;
   LanguageRegion: undefined;
   Units: undefined;
   BatterySaving: undefined;
@@ -116,6 +227,10 @@ export type RootStackParamList = {
   TravelAdvisory: undefined;
   CheckIn: undefined;
   CheckInSettings: undefined;
+  Trip: undefined;
+  SOSEvent: { userId: string; eventId?: string };
+  Circles: undefined;
+  FindContacts: undefined;
   OfflineMaps: undefined;
   Update: undefined;
 };
@@ -160,6 +275,8 @@ export interface RouteRiskData {
   incidentCount30d: number;
   lastIncidentAt?: string;
   averageTravelTimeMinutes?: number;
+  categoryBreakdown: Record<string, number>; // 30-day incident count per category
+  bufferKm?: number; // Corridor half-width; unset when matched by state
   lastUpdated: string;
   createdAt: string;
 }
@@ -228,3 +345,232 @@ export interface ConnectionInvitation {
   updatedAt: string;
 }
 
+// Signed QR / link invite (token is only known to the inviter)
+export interface ConnectionInvite {
+  id: string;
+  token: string;
+  link: string;
+  expiresAt: string;
+}
+
+export type ConnectionInviteStatus = 'valid' | 'already_connected' | 'own_invite' | 'expired' | 'invalid' | 'rate_limited';
+
+export interface ConnectionInvitePreview {
+  status: ConnectionInviteStatus;
+  inviterId: string | null;
+  inviterName: string | null;
+  inviterPhoto: string | null;
+}
+
+// Contact from the address book; the phone number never leaves the device
+export interface ContactMatch {
+  contactId: string;
+  contactName: string;
+  phoneNumber: string; // E.164
+  userId: string | null; // Registered user with this number
+  userName: string | null;
+  userPhoto: string | null;
+  isConnected: boolean;
+  invitationPending: boolean;
+}
+
+export type PlaceCategory = 'home' | 'school' | 'work' | 'other';
+
+export type PlaceShape = 'circle' | 'polygon';
+
+export interface Place {
+  id: string;
+  ownerId: string;
+  name: string;
+  category: PlaceCategory;
+  shape: PlaceShape;
+  center: Location;
+  radiusMeters?: number; // circle only
+  polygon?: Location[]; // polygon only
+  notifyOnArrival: boolean;
+  notifyOnDeparture: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PlaceTransition {
+  placeId: string;
+  placeName: string;
+  ownerId: string;
+  transition: 'place_arrival' | 'place_departure';
+  title: string;
+  body: string;
+}
+
+export type TripStatus = 'active' | 'overdue' | 'arrived' | 'cancelled';
+
+export interface Trip {
+  id: string;
+  userId: string;
+  originLabel?: string;
+  origin?: Location;
+  destinationLabel: string;
+  destination: Location;
+  arrivalRadiusMeters: number;
+  expectedArrivalAt: string;
+  graceMinutes: number;
+  staleMinutes: number;
+  watcherIds: string[];
+  status: TripStatus;
+  lastLocation?: Location;
+  lastReportedAt?: string;
+  startedAt: string;
+  arrivedAt?: string;
+  cancelledAt?: string;
+  escalatedAt?: string;
+  escalationReason?: 'overrun' | 'no_signal';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TripUpdate {
+  tripId: string;
+  notificationType: 'trip_arrived' | 'trip_cancelled';
+  watcherIds: string[];
+  title: string;
+  body: string;
+}
+
+export type SOSPushStatus = 'pending' | 'delivered' | 'no_device' | 'failed';
+
+export type SOSSmsStatus = 'opened' | 'unavailable';
+
+export interface SOSRecipient {
+  userId?: string; // undefined for phone-only contacts
+  name: string;
+  phone?: string;
+  push: SOSPushStatus;
+  sms?: SOSSmsStatus;
+}
+
+export interface SOSOutboxEntry {
+  id: string;
+  userId: string;
+  userName: string;
+  title: string;
+  body: string;
+  location: Location | null;
+  recipients: SOSRecipient[];
+  status: 'pending' | 'delivered' | 'expired';
+  silentDuress?: boolean; // Silent SOS - no SMS composer, receivers are told not to call
+  sosEventId?: string; // sos_events row opened for this alert
+  notificationsCreated: boolean;
+  attempts: number;
+  lastError?: string;
+  lastAttemptAt?: string;
+  createdAt: string;
+}
+
+export type SOSEventStatus = 'active' | 'responder_en_route' | 'resolved' | 'false_alarm';
+
+export interface SOSEvent {
+  id: string;
+  userId: string;
+  userName: string;
+  status: SOSEventStatus;
+  silent: boolean;
+  location?: Location;
+  lastLocation?: Location;
+  lastReportedAt?: string;
+  closedAt?: string;
+  closedBy?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SOSEventLocation {
+  id: string;
+  eventId: string;
+  location: Location;
+  accuracy: number | null;
+  recordedAt: string;
+}
+
+// Actions on an sos_alert push ('navigating' counts as responding)
+export type SOSAlertResponse = 'responding' | 'navigating' | 'calling' | 'cant_help';
+
+export interface SOSEventAcknowledgement {
+  id: string;
+  eventId: string;
+  responderId: string;
+  responderName: string;
+  response: 'responding' | 'cant_help';
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SOSEventUpdate {
+  id: string;
+  eventId: string;
+  actorId: string | null;
+  actorName: string | null;
+  kind: 'opened' | 'acknowledged' | 'called' | 'cant_help' | 'status_changed' | 'note';
+  status: SOSEventStatus | null;
+  note: string | null;
+  createdAt: string;
+}
+
+export type NotificationPreferenceScope = 'type' | 'connection';
+
+export interface NotificationPreference {
+  id: string;
+  userId: string;
+  scope: NotificationPreferenceScope;
+  target: string; // push data.type for 'type', sender user id for 'connection'
+  enabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface AccountLockStatus {
+  lockId: string | null;
+  isLocked: boolean;
+  lockedAt: string | null;
+  requiredApprovals: number;
+  approverIds: string[];
+  hasPin: boolean;
+  pinAttemptsRemaining: number | null; // null when there is no open lock
+}
+
+export type AccountLockAction = 'locked' | 'unlock_approved' | 'unlocked' | 'pin_failed' | 'pin_set' | 'pin_removed';
+
+export interface AccountLockEvent {
+  id: string;
+  userId: string;
+  lockId: string | null;
+  actorId: string | null;
+  actorName: string | null;
+  action: AccountLockAction;
+  method: string | null; // 'sos', 'pin', 'quorum' or 'admin'
+  createdAt: string;
+}
+
+export type CircleRole = 'guardian' | 'member' | 'dependent';
+
+export type CirclePermission = 'location' | 'sos' | 'check_in' | 'unlock';
+
+export interface CircleMember {
+  id: string;
+  circleId: string;
+  memberId: string; // Connected user id
+  role: CircleRole;
+  createdAt: string;
+}
+
+export interface Circle {
+  id: string;
+  ownerId: string;
+  name: string;
+  shareLocation: boolean;
+  sosAlerts: boolean;
+  checkInAlerts: boolean;
+  unlockApproval: boolean; // Guardians can always approve, dependents never
+  members: CircleMember[];
+  createdAt: string;
+  updatedAt: string;
+}
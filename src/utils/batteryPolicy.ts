@@ -0,0 +1,174 @@
+/**
+ * Battery-aware tracking policy
+ * Picks the location tracking profile from the user's battery saving settings
+ * and the live battery level. Low battery tightens the profile automatically,
+ * even when battery saving mode is off.
+ */
+
+import * as Location from 'expo-location';
+import type { LocationServiceConfig } from '../services/locationService';
+import type { TranslationKey } from '../i18n';
+
+export type BatteryProfile = 'normal' | 'balanced' | 'saver' | 'critical';
+
+export interface BatterySavingSettings {
+  enabled: boolean;
+  reduceLocationUpdates: boolean;
+  reduceBackgroundSync: boolean;
+}
+
+export interface BatteryStatus {
+  level: number; // 0-100
+  isCharging: boolean;
+  lowPowerMode: boolean;
+}
+
+export interface TrackingPolicy {
+  profile: BatteryProfile;
+  config: LocationServiceConfig;
+  foregroundWatchIntervalMs: number; // watchPositionAsync timeInterval
+  backgroundIntervalMinutes: number; // background task location_history interval
+  reason: 'default' | 'settings' | 'low_battery' | 'critical_battery' | 'low_power_mode';
+  batteryLevel: number;
+}
+
+// AsyncStorage key used to share the active policy with the background location task
+export const BATTERY_POLICY_STORAGE_KEY = 'location_tracking_batteryPolicy';
+
+export const LOW_BATTERY_THRESHOLD = 20; // percent - tighten to 'saver'
+export const CRITICAL_BATTERY_THRESHOLD = 10; // percent - tighten to 'critical'
+
+interface ProfileDefinition {
+  config: LocationServiceConfig;
+  foregroundWatchIntervalMs: number;
+  backgroundIntervalMinutes: number;
+}
+
+const PROFILES: Record<BatteryProfile, ProfileDefinition> = {
+  normal: {
+    config: {
+      accuracy: Location.Accuracy.Highest,
+      updateInterval: 1800000, // 30 minutes
+      distanceThreshold: 50,
+    },
+    foregroundWatchIntervalMs: 30000,
+    backgroundIntervalMinutes: 30,
+  },
+  balanced: {
+    config: {
+      accuracy: Location.Accuracy.High,
+      updateInterval: 1800000, // 30 minutes
+      distanceThreshold: 100,
+    },
+    foregroundWatchIntervalMs: 60000,
+    backgroundIntervalMinutes: 30,
+  },
+  saver: {
+    config: {
+      accuracy: Location.Accuracy.Balanced,
+      updateInterval: 3600000, // 1 hour
+      distanceThreshold: 200,
+    },
+    foregroundWatchIntervalMs: 120000,
+    backgroundIntervalMinutes: 60,
+  },
+  critical: {
+    config: {
+      accuracy: Location.Accuracy.Low,
+      updateInterval: 7200000, // 2 hours
+      distanceThreshold: 500,
+    },
+    foregroundWatchIntervalMs: 300000,
+    backgroundIntervalMinutes: 120,
+  },
+};
+
+const PROFILE_ORDER: BatteryProfile[] = ['normal', 'balanced', 'saver', 'critical'];
+
+export const BATTERY_PROFILE_DETAILS: Record<BatteryProfile, { labelKey: TranslationKey; descriptionKey: TranslationKey }> = {
+  normal: {
+    labelKey: 'batterySaving.profile.normal',
+    descriptionKey: 'batterySaving.profile.normalDescription',
+  },
+  balanced: {
+    labelKey: 'batterySaving.profile.balanced',
+    descriptionKey: 'batterySaving.profile.balancedDescription',
+  },
+  saver: {
+    labelKey: 'batterySaving.profile.saver',
+    descriptionKey: 'batterySaving.profile.saverDescription',
+  },
+  critical: {
+    labelKey: 'batterySaving.profile.critical',
+    descriptionKey: 'batterySaving.profile.criticalDescription',
+  },
+};
+
+// low_battery and critical_battery take the threshold as {threshold}
+export const BATTERY_POLICY_REASON_KEYS: Record<TrackingPolicy['reason'], TranslationKey> = {
+  default: 'batterySaving.reason.default',
+  settings: 'batterySaving.reason.settings',
+  low_battery: 'batterySaving.reason.lowBattery',
+  critical_battery: 'batterySaving.reason.lowBattery',
+  low_power_mode: 'batterySaving.reason.lowPowerMode',
+};
+
+/**
+ * Pick the stricter of two profiles
+ */
+const stricterProfile = (a: BatteryProfile, b: BatteryProfile): BatteryProfile =>
+  PROFILE_ORDER.indexOf(a) >= PROFILE_ORDER.indexOf(b) ? a : b;
+
+/**
+ * Resolve the tracking policy for the given settings and battery status
+ */
+export function resolveTrackingPolicy(
+  settings: BatterySavingSettings | null | undefined,
+  battery: BatteryStatus
+): TrackingPolicy {
+  let profile: BatteryProfile = 'normal';
+  let reason: TrackingPolicy['reason'] = 'default';
+
+  if (settings?.enabled) {
+    profile = settings.reduceLocationUpdates ? 'saver' : 'balanced';
+    reason = 'settings';
+  }
+
+  if (!battery.isCharging) {
+    if (battery.level <= CRITICAL_BATTERY_THRESHOLD) {
+      profile = 'critical';
+      reason = 'critical_battery';
+    } else if (battery.level <= LOW_BATTERY_THRESHOLD && stricterProfile(profile, 'saver') !== profile) {
+      profile = 'saver';
+      reason = 'low_battery';
+    } else if (battery.lowPowerMode && stricterProfile(profile, 'saver') !== profile) {
+      profile = 'saver';
+      reason = 'low_power_mode';
+    }
+  }
+
+  const definition = PROFILES[profile];
+  const backgroundIntervalMinutes = settings?.enabled && settings.reduceBackgroundSync
+    ? definition.backgroundIntervalMinutes * 2
+    : definition.backgroundIntervalMinutes;
+
+  return {
+    profile,
+    config: { ...definition.config },
+    foregroundWatchIntervalMs: definition.foregroundWatchIntervalMs,
+    backgroundIntervalMinutes,
+    reason,
+    batteryLevel: battery.level,
+  };
+}
+
+/**
+ * Map a user_settings row to BatterySavingSettings
+ */
+export function mapDbRowToBatterySavingSettings(row: any): BatterySavingSettings {
+  return {
+    enabled: row?.battery_saving_mode ?? false,
+    reduceLocationUpdates: row?.battery_saving_reduce_location_updates ?? false,
+    reduceBackgroundSync: row?.battery_saving_reduce_background_sync ?? false,
+  };
+}
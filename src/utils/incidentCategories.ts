@@ -0,0 +1,18 @@
+/**
+ * Incident category labels
+ * Categories are stored in English ('Robbery'); screens show the catalog label
+ * and fall back to the stored value for categories not listed here.
+ */
+
+import type { TranslationKey } from '../i18n';
+
+export const INCIDENT_CATEGORY_LABEL_KEYS: Record<string, TranslationKey> = {
+  Robbery: 'incidents.category.robbery',
+  Kidnapping: 'incidents.category.kidnapping',
+  Accident: 'incidents.category.accident',
+  Fire: 'incidents.category.fire',
+  Protest: 'incidents.category.protest',
+  Assault: 'incidents.category.assault',
+  Theft: 'incidents.category.theft',
+  Other: 'incidents.category.other',
+};
@@ -1,7 +1,10 @@
 /**
  * Utility functions for formatting and displaying detailed "last seen" information
+ * Text comes from the translation catalogs; dates use the user's locale.
  */
 
+import { translate, formatLocaleDate, getLocaleTag, DEFAULT_LANGUAGE } from '../i18n';
+
 export interface LastSeenInfo {
   timestamp: string;
   location?: {
@@ -32,10 +35,46 @@ export interface FormattedLastSeen {
   isUrgent: boolean;
 }
 
+export interface LastSeenLocaleOptions {
+  language?: string; // e.g. 'yo'
+  locale?: string; // BCP 47 tag for dates, e.g. 'yo-NG' (defaults to the language)
+}
+
+/**
+ * Format a relative time (e.g. "5 minutes ago") in the given language
+ */
+export function formatTimeAgo(timestamp: string | number | Date, language: string = DEFAULT_LANGUAGE): string {
+  const timeSinceMs = Date.now() - new Date(timestamp).getTime();
+  const seconds = Math.max(0, Math.floor(timeSinceMs / 1000));
+  const minutes = Math.floor(seconds / 60);
+  const hours = Math.floor(minutes / 60);
+  const days = Math.floor(hours / 24);
+  const weeks = Math.floor(days / 7);
+  const months = Math.floor(days / 30);
+  const years = Math.floor(days / 365);
+
+  if (seconds < 60) {
+    return translate(language, 'time.justNow');
+  } else if (minutes < 60) {
+    return minutes === 1 ? translate(language, 'time.minuteAgo') : translate(language, 'time.minutesAgo', { count: minutes });
+  } else if (hours < 24) {
+    return hours === 1 ? translate(language, 'time.hourAgo') : translate(language, 'time.hoursAgo', { count: hours });
+  } else if (days < 7) {
+    return days === 1 ? translate(language, 'time.dayAgo') : translate(language, 'time.daysAgo', { count: days });
+  } else if (weeks < 4) {
+    return weeks === 1 ? translate(language, 'time.weekAgo') : translate(language, 'time.weeksAgo', { count: weeks });
+  } else if (months < 12) {
+    return months === 1 ? translate(language, 'time.monthAgo') : translate(language, 'time.monthsAgo', { count: months });
+  }
+  return years === 1 ? translate(language, 'time.yearAgo') : translate(language, 'time.yearsAgo', { count: years });
+}
+
 /**
  * Format last seen information with detailed context
  */
-export function formatLastSeen(info: LastSeenInfo): FormattedLastSeen {
+export function formatLastSeen(info: LastSeenInfo, options: LastSeenLocaleOptions = {}): FormattedLastSeen {
+  const language = options.language || DEFAULT_LANGUAGE;
+  const locale = options.locale || getLocaleTag(language);
   const now = Date.now();
   const lastSeenTime = new Date(info.timestamp).getTime();
   const timeSinceMs = now - lastSeenTime;
@@ -45,9 +84,6 @@ export function formatLastSeen(info: LastSeenInfo): FormattedLastSeen {
   const minutes = Math.floor(seconds / 60);
   const hours = Math.floor(minutes / 60);
   const days = Math.floor(hours / 24);
-  const weeks = Math.floor(days / 7);
-  const months = Math.floor(days / 30);
-  const years = Math.floor(days / 365);
 
   // Determine status
   let status: 'online' | 'recently_active' | 'away' | 'offline';
@@ -62,22 +98,7 @@ export function formatLastSeen(info: LastSeenInfo): FormattedLastSeen {
   }
 
   // Format relative time
-  let relativeTime: string;
-  if (seconds < 60) {
-    relativeTime = 'just now';
-  } else if (minutes < 60) {
-    relativeTime = minutes === 1 ? '1 minute ago' : `${minutes} minutes ago`;
-  } else if (hours < 24) {
-    relativeTime = hours === 1 ? '1 hour ago' : `${hours} hours ago`;
-  } else if (days < 7) {
-    relativeTime = days === 1 ? '1 day ago' : `${days} days ago`;
-  } else if (weeks < 4) {
-    relativeTime = weeks === 1 ? '1 week ago' : `${weeks} weeks ago`;
-  } else if (months < 12) {
-    relativeTime = months === 1 ? '1 month ago' : `${months} months ago`;
-  } else {
-    relativeTime = years === 1 ? '1 year ago' : `${years} years ago`;
-  }
+  const relativeTime = formatTimeAgo(info.timestamp, language);
 
   // Format exact time
   const lastSeenDate = new Date(info.timestamp);
@@ -89,35 +110,41 @@ export function formatLastSeen(info: LastSeenInfo): FormattedLastSeen {
   const isToday = lastSeenDate.toDateString() === today.toDateString();
   const isYesterday = lastSeenDate.toDateString() === yesterday.toDateString();
 
+  const time = formatTime(lastSeenDate, locale);
   let exactTime: string;
   if (isToday) {
-    exactTime = `Today at ${formatTime(lastSeenDate)}`;
+    exactTime = translate(language, 'time.todayAt', { time });
   } else if (isYesterday) {
-    exactTime = `Yesterday at ${formatTime(lastSeenDate)}`;
+    exactTime = translate(language, 'time.yesterdayAt', { time });
   } else if (days < 7) {
-    exactTime = `${lastSeenDate.toLocaleDateString('en-US', { weekday: 'long' })} at ${formatTime(lastSeenDate)}`;
+    exactTime = translate(language, 'time.dateAt', {
+      date: formatLocaleDate(lastSeenDate, locale, { weekday: 'long' }),
+      time,
+    });
   } else {
-    exactTime = `${lastSeenDate.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })} at ${formatTime(lastSeenDate)}`;
+    exactTime = translate(language, 'time.dateAt', {
+      date: formatLocaleDate(lastSeenDate, locale, { month: 'short', day: 'numeric' }),
+      time,
+    });
   }
 
   // Format full date time
-  const fullDateTime = lastSeenDate.toLocaleDateString('en-US', {
+  const fullDateTime = formatLocaleDate(lastSeenDate, locale, {
     year: 'numeric',
     month: 'long',
     day: 'numeric',
     hour: 'numeric',
     minute: '2-digit',
-    hour12: true,
   });
 
   // Primary display text
   let primaryText: string;
   if (status === 'online') {
-    primaryText = 'Online now';
+    primaryText = translate(language, 'lastSeen.onlineNow');
   } else if (status === 'recently_active') {
-    primaryText = `Active ${relativeTime}`;
+    primaryText = translate(language, 'lastSeen.active', { time: relativeTime });
   } else {
-    primaryText = `Last seen ${relativeTime}`;
+    primaryText = translate(language, 'lastSeen.lastSeen', { time: relativeTime });
   }
 
   // Secondary text (location, battery, etc.)
@@ -153,13 +180,12 @@ export function formatLastSeen(info: LastSeenInfo): FormattedLastSeen {
 }
 
 /**
- * Format time in 12-hour format
+ * Format time of day using the locale's own 12/24-hour convention
  */
-function formatTime(date: Date): string {
-  return date.toLocaleTimeString('en-US', {
+function formatTime(date: Date, locale: string): string {
+  return formatLocaleDate(date, locale, {
     hour: 'numeric',
     minute: '2-digit',
-    hour12: true,
   });
 }
 
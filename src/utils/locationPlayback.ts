@@ -0,0 +1,279 @@
+/**
+ * Utility functions for location history playback (MapScreen scrubber)
+ * Splits a day of location_history into stops, movement and tracking gaps,
+ * and gives the position at any time of the day.
+ */
+
+import type { Location, PlaybackPoint, PlaybackSegment, PlaybackSegmentType, PlaybackTimeline } from '../types';
+
+const STOP_RADIUS_METERS = 150; // Fixes this close to a stop's center belong to it
+const STOP_MIN_DWELL_SECONDS = 5 * 60;
+// History is saved every location_update_frequency_minutes (longer in sleep
+// mode), so a gap is measured against the usual interval of the day
+const GAP_MIN_SECONDS = 30 * 60;
+const GAP_INTERVAL_FACTOR = 2.5;
+
+/**
+ * Distance between two coordinates in meters (Haversine formula)
+ */
+export function calculateDistanceMeters(from: Location, to: Location): number {
+  const R = 6371000;
+  const dLat = ((to.latitude - from.latitude) * Math.PI) / 180;
+  const dLon = ((to.longitude - from.longitude) * Math.PI) / 180;
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos((from.latitude * Math.PI) / 180) *
+      Math.cos((to.latitude * Math.PI) / 180) *
+      Math.sin(dLon / 2) *
+      Math.sin(dLon / 2);
+  return R * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+/**
+ * Longest interval between two fixes that still counts as continuous tracking
+ */
+function getGapThresholdSeconds(points: PlaybackPoint[]): number {
+  const intervals: number[] = [];
+  for (let i = 1; i < points.length; i++) {
+    intervals.push((points[i].time - points[i - 1].time) / 1000);
+  }
+  if (intervals.length === 0) return GAP_MIN_SECONDS;
+
+  intervals.sort((a, b) => a - b);
+  const median = intervals[Math.floor(intervals.length / 2)];
+  return Math.max(GAP_MIN_SECONDS, median * GAP_INTERVAL_FACTOR);
+}
+
+/**
+ * Find runs of fixes that stay within STOP_RADIUS_METERS for at least
+ * STOP_MIN_DWELL_SECONDS (a gap in tracking ends a stop)
+ */
+function findStops(points: PlaybackPoint[], gapThresholdMs: number): Array<[number, number]> {
+  const stops: Array<[number, number]> = [];
+  let i = 0;
+
+  while (i < points.length) {
+    let j = i;
+    let latitudeSum = points[i].latitude;
+    let longitudeSum = points[i].longitude;
+
+    while (j + 1 < points.length) {
+      const next = points[j + 1];
+      if (next.time - points[j].time > gapThresholdMs) break;
+
+      const count = j - i + 1;
+      const center = { latitude: latitudeSum / count, longitude: longitudeSum / count };
+      if (calculateDistanceMeters(center, next) > STOP_RADIUS_METERS) break;
+
+      j++;
+      latitudeSum += next.latitude;
+      longitudeSum += next.longitude;
+    }
+
+    if (j > i && (points[j].time - points[i].time) / 1000 >= STOP_MIN_DWELL_SECONDS) {
+      stops.push([i, j]);
+      i = j + 1;
+    } else {
+      i++;
+    }
+  }
+
+  return stops;
+}
+
+function createSegment(
+  type: PlaybackSegmentType,
+  points: PlaybackPoint[],
+  startIndex: number,
+  endIndex: number
+): PlaybackSegment {
+  const startTime = points[startIndex].time;
+  const endTime = points[endIndex].time;
+  const segment: PlaybackSegment = {
+    type,
+    startIndex,
+    endIndex,
+    startTime,
+    endTime,
+    durationSeconds: (endTime - startTime) / 1000,
+    distanceMeters: 0,
+    averageSpeedKmh: 0,
+    maxSpeedKmh: 0,
+  };
+
+  if (type === 'stop') {
+    const stopPoints = points.slice(startIndex, endIndex + 1);
+    segment.center = {
+      latitude: stopPoints.reduce((sum, p) => sum + p.latitude, 0) / stopPoints.length,
+      longitude: stopPoints.reduce((sum, p) => sum + p.longitude, 0) / stopPoints.length,
+      address: stopPoints.find((p) => p.address)?.address,
+    };
+  } else if (type === 'move') {
+    for (let k = startIndex; k < endIndex; k++) {
+      const legMeters = calculateDistanceMeters(points[k], points[k + 1]);
+      const legSeconds = (points[k + 1].time - points[k].time) / 1000;
+      segment.distanceMeters += legMeters;
+      if (legSeconds > 0) {
+        segment.maxSpeedKmh = Math.max(segment.maxSpeedKmh, (legMeters / legSeconds) * 3.6);
+      }
+    }
+    segment.averageSpeedKmh =
+      segment.durationSeconds > 0 ? (segment.distanceMeters / segment.durationSeconds) * 3.6 : 0;
+  }
+
+  return segment;
+}
+
+/**
+ * Build the playback timeline for a day of location history (any order)
+ * Returns null if there are fewer than two fixes.
+ */
+export function buildPlaybackTimeline(
+  history: Array<Location & { timestamp: string }>
+): PlaybackTimeline | null {
+  const points: PlaybackPoint[] = history
+    .map((item) => ({
+      latitude: item.latitude,
+      longitude: item.longitude,
+      address: item.address,
+      time: new Date(item.timestamp).getTime(),
+    }))
+    .filter((p) => isFinite(p.time) && isFinite(p.latitude) && isFinite(p.longitude))
+    .sort((a, b) => a.time - b.time);
+
+  if (points.length < 2) return null;
+
+  const gapThresholdSeconds = getGapThresholdSeconds(points);
+  const gapThresholdMs = gapThresholdSeconds * 1000;
+  const segments: PlaybackSegment[] = [];
+
+  // Legs between two stops are movement, except gaps in tracking
+  const addLegs = (from: number, to: number) => {
+    let moveStart = from;
+    for (let k = from; k < to; k++) {
+      if (points[k + 1].time - points[k].time > gapThresholdMs) {
+        if (k > moveStart) segments.push(createSegment('move', points, moveStart, k));
+        segments.push(createSegment('gap', points, k, k + 1));
+        moveStart = k + 1;
+      }
+    }
+    if (to > moveStart) segments.push(createSegment('move', points, moveStart, to));
+  };
+
+  let cursor = 0;
+  findStops(points, gapThresholdMs).forEach(([start, end]) => {
+    addLegs(cursor, start);
+    segments.push(createSegment('stop', points, start, end));
+    cursor = end;
+  });
+  addLegs(cursor, points.length - 1);
+
+  return {
+    points,
+    segments,
+    startTime: points[0].time,
+    endTime: points[points.length - 1].time,
+    gapThresholdSeconds,
+  };
+}
+
+/**
+ * Get the segment at a time (the later one on a boundary)
+ */
+export function getPlaybackSegment(timeline: PlaybackTimeline, time: number): PlaybackSegment | null {
+  for (let i = timeline.segments.length - 1; i >= 0; i--) {
+    if (timeline.segments[i].startTime <= time) return timeline.segments[i];
+  }
+  return timeline.segments[0] || null;
+}
+
+/**
+ * Get the position and current speed at a time
+ * Stays at the stop's center while stopped and at the last fix during a gap.
+ */
+export function getPlaybackPosition(
+  timeline: PlaybackTimeline,
+  time: number
+): { location: Location; segment: PlaybackSegment | null; speedKmh: number } {
+  const { points } = timeline;
+  const segment = getPlaybackSegment(timeline, time);
+
+  if (segment?.type === 'stop' && segment.center) {
+    return { location: segment.center, segment, speedKmh: 0 };
+  }
+
+  let k = 0;
+  while (k + 1 < points.length && points[k + 1].time <= time) k++;
+
+  if (segment?.type !== 'move' || k + 1 >= points.length || time <= points[k].time) {
+    return { location: points[k], segment, speedKmh: 0 };
+  }
+
+  const from = points[k];
+  const to = points[k + 1];
+  const legSeconds = (to.time - from.time) / 1000;
+  const fraction = legSeconds > 0 ? Math.min(1, (time - from.time) / 1000 / legSeconds) : 1;
+
+  return {
+    location: {
+      latitude: from.latitude + (to.latitude - from.latitude) * fraction,
+      longitude: from.longitude + (to.longitude - from.longitude) * fraction,
+    },
+    segment,
+    speedKmh: legSeconds > 0 ? (calculateDistanceMeters(from, to) / legSeconds) * 3.6 : 0,
+  };
+}
+
+/**
+ * Get the path of a segment up to a time (the whole segment by default)
+ */
+export function getPlaybackPath(
+  timeline: PlaybackTimeline,
+  segment: PlaybackSegment,
+  untilTime: number = Infinity
+): Location[] {
+  if (untilTime <= segment.startTime) return [];
+
+  const path: Location[] = [];
+  for (let k = segment.startIndex; k <= segment.endIndex; k++) {
+    const point = timeline.points[k];
+    if (point.time > untilTime) {
+      path.push(getPlaybackPosition(timeline, untilTime).location);
+      break;
+    }
+    path.push({ latitude: point.latitude, longitude: point.longitude });
+  }
+  return path;
+}
+
+/**
+ * Move the playback time forward, skipping over gaps in tracking
+ */
+export function advancePlaybackTime(timeline: PlaybackTimeline, time: number, stepMs: number): number {
+  const next = Math.min(timeline.endTime, time + stepMs);
+  const segment = getPlaybackSegment(timeline, next);
+  return segment?.type === 'gap' && next < segment.endTime ? segment.endTime : next;
+}
+
+/**
+ * Totals for the day: number of stops and gaps, distance and time moving
+ */
+export function summarizePlaybackTimeline(timeline: PlaybackTimeline): {
+  stops: number;
+  gaps: number;
+  distanceMeters: number;
+  movingSeconds: number;
+} {
+  return timeline.segments.reduce(
+    (summary, segment) => {
+      if (segment.type === 'stop') summary.stops++;
+      if (segment.type === 'gap') summary.gaps++;
+      if (segment.type === 'move') {
+        summary.distanceMeters += segment.distanceMeters;
+        summary.movingSeconds += segment.durationSeconds;
+      }
+      return summary;
+    },
+    { stops: 0, gaps: 0, distanceMeters: 0, movingSeconds: 0 }
+  );
+}
@@ -0,0 +1,100 @@
+/**
+ * Utility functions for approximate location sharing
+ * When user_settings.location_accuracy is 'approximate', shared coordinates are
+ * snapped to a coarse grid and addresses are reduced to city level.
+ * Emergency/SOS tracking always shares the exact location.
+ * Server-side equivalent: approximate_coordinate() / approximate_address() in the
+ * approximate_location_accuracy migration.
+ */
+
+import type { Location as LocationType } from '../types';
+
+export type LocationAccuracyMode = 'exact' | 'approximate';
+
+export interface LocationPrivacyState {
+  mode: LocationAccuracyMode;
+  emergencyOverride: boolean; // true while emergency/SOS tracking is running
+}
+
+// AsyncStorage key used to share the privacy state with the background location task
+export const LOCATION_PRIVACY_STORAGE_KEY = 'location_tracking_privacy';
+
+// Grid size in degrees (~2.2 km north-south). Must match approximate_coordinate()
+export const APPROXIMATE_GRID_DEGREES = 0.02;
+
+// Reported accuracy (meters) for snapped coordinates
+export const APPROXIMATE_ACCURACY_METERS = 1500;
+
+/**
+ * Map a user_settings.location_accuracy value to a mode, defaulting to 'exact'
+ */
+export function parseLocationAccuracyMode(value: unknown): LocationAccuracyMode {
+  return value === 'approximate' ? 'approximate' : 'exact';
+}
+
+/**
+ * Snap a coordinate to the center of its grid cell
+ * Snapping an already snapped value returns the same value
+ */
+export function snapCoordinate(value: number, gridDegrees: number = APPROXIMATE_GRID_DEGREES): number {
+  const snapped = Math.floor(value / gridDegrees) * gridDegrees + gridDegrees / 2;
+  return Math.round(snapped * 1e6) / 1e6;
+}
+
+/**
+ * Reduce a reverse-geocoded address to city level
+ * Addresses are built as "streetNumber, street, city, region, country", so only
+ * the last three parts are kept
+ */
+export function reduceAddressToCity(address: string | null | undefined): string | null {
+  if (!address) return null;
+
+  const parts = address
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+
+  if (parts.length === 0) return null;
+  return parts.slice(-3).join(', ');
+}
+
+/**
+ * Check if shared locations should be approximated
+ */
+export function shouldApproximateLocation(state: LocationPrivacyState | null | undefined): boolean {
+  return !!state && state.mode === 'approximate' && !state.emergencyOverride;
+}
+
+/**
+ * Apply the privacy state to a location before it is shared
+ * Returns the location unchanged in exact mode or during an emergency
+ */
+export function applyLocationPrivacy(
+  location: LocationType,
+  state: LocationPrivacyState | null | undefined
+): LocationType {
+  if (!shouldApproximateLocation(state)) {
+    return location;
+  }
+
+  return {
+    ...location,
+    latitude: snapCoordinate(location.latitude),
+    longitude: snapCoordinate(location.longitude),
+    address: reduceAddressToCity(location.address) || undefined,
+  };
+}
+
+/**
+ * Widen a GPS accuracy value to match approximated coordinates
+ */
+export function applyAccuracyPrivacy(
+  accuracy: number | null | undefined,
+  state: LocationPrivacyState | null | undefined
+): number | null {
+  const value = accuracy !== undefined && accuracy !== null ? accuracy : null;
+  if (!shouldApproximateLocation(state)) {
+    return value;
+  }
+  return Math.max(value ?? 0, APPROXIMATE_ACCURACY_METERS);
+}
@@ -0,0 +1,166 @@
+/**
+ * Utility functions for time-limited and scheduled location sharing
+ * Schedules are wall-clock times in the sharer's time zone.
+ * Server-side equivalent: is_connection_location_shared() in the
+ * location_sharing_windows migration (which also enforces expiry).
+ */
+
+import type { LocationSharingWindow } from '../types';
+import { translate, DEFAULT_LANGUAGE } from '../i18n';
+import type { TranslationKey } from '../i18n';
+import { parseTimeToMinutes } from './sleepMode';
+
+const WEEKDAY_LABEL_KEYS: TranslationKey[] = [
+  'locationSharing.day1',
+  'locationSharing.day2',
+  'locationSharing.day3',
+  'locationSharing.day4',
+  'locationSharing.day5',
+  'locationSharing.day6',
+  'locationSharing.day7',
+];
+const ISO_WEEKDAYS: Record<string, number> = { Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6, Sun: 7 };
+
+/**
+ * Map a connections row to its LocationSharingWindow
+ */
+export function mapDbRowToLocationSharingWindow(row: any): LocationSharingWindow {
+  return {
+    enabled: row?.location_sharing_enabled ?? true,
+    mode: row?.location_sharing_mode || 'always',
+    until: row?.location_sharing_until || null,
+    tripId: row?.location_sharing_trip_id || null,
+    days: Array.isArray(row?.location_sharing_days) ? row.location_sharing_days.map(Number) : [],
+    startTime: row?.location_sharing_start_time || null,
+    endTime: row?.location_sharing_end_time || null,
+  };
+}
+
+/**
+ * Get the time left on a time-limited share in ms (null if not time-limited)
+ */
+export function getSharingTimeLeftMs(
+  window: LocationSharingWindow | null | undefined,
+  now: number = Date.now()
+): number | null {
+  if (!window?.enabled || window.mode !== 'until' || !window.until) return null;
+  return Math.max(0, new Date(window.until).getTime() - now);
+}
+
+/**
+ * Format a countdown, e.g. '2 h 5 min', '42 min', '< 1 min'
+ */
+export function formatTimeLeft(ms: number): string {
+  const totalMinutes = Math.ceil(ms / 60000);
+  if (totalMinutes <= 1) return ms <= 0 ? '0 min' : '< 1 min';
+
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return hours > 0 ? `${days} d ${hours} h` : `${days} d`;
+  if (hours > 0) return minutes > 0 ? `${hours} h ${minutes} min` : `${hours} h`;
+  return `${minutes} min`;
+}
+
+/**
+ * Format schedule days in the given language, e.g. 'Weekdays', 'Weekends', 'Every day', 'Mon, Wed'
+ */
+export function formatSharingDays(days: number[], language: string = DEFAULT_LANGUAGE): string {
+  const sorted = Array.from(new Set(days)).filter((day) => day >= 1 && day <= 7).sort();
+  const key = sorted.join(',');
+
+  if (key === '1,2,3,4,5,6,7') return translate(language, 'locationSharing.everyDay');
+  if (key === '1,2,3,4,5') return translate(language, 'locationSharing.weekdays');
+  if (key === '6,7') return translate(language, 'locationSharing.weekends');
+  return sorted.map((day) => translate(language, WEEKDAY_LABEL_KEYS[day - 1])).join(', ');
+}
+
+/**
+ * Get the ISO weekday and minutes since midnight for a date in the given time zone
+ * Falls back to the device's local time if the time zone is not supported
+ */
+function getWeekdayAndMinutes(date: Date, timeZone?: string | null): { day: number; minutes: number } {
+  if (timeZone) {
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        weekday: 'short',
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).formatToParts(date);
+      const day = ISO_WEEKDAYS[parts.find((part) => part.type === 'weekday')?.value || ''];
+      const hour = parseInt(parts.find((part) => part.type === 'hour')?.value || '', 10);
+      const minute = parseInt(parts.find((part) => part.type === 'minute')?.value || '', 10);
+      if (day && !isNaN(hour) && !isNaN(minute)) {
+        return { day, minutes: (hour % 24) * 60 + minute };
+      }
+    } catch {
+      // Unsupported time zone - use device local time below
+    }
+  }
+
+  return { day: date.getDay() === 0 ? 7 : date.getDay(), minutes: date.getHours() * 60 + date.getMinutes() };
+}
+
+/**
+ * Check whether the location is shared right now
+ * 'until_arrival' can only be checked server-side (trip status), so it counts as shared while enabled.
+ */
+export function isLocationSharingActive(
+  window: LocationSharingWindow | null | undefined,
+  date: Date = new Date(),
+  timeZone?: string | null
+): boolean {
+  if (!window) return true;
+  if (!window.enabled) return false;
+
+  if (window.mode === 'until') {
+    return (getSharingTimeLeftMs(window, date.getTime()) ?? 0) > 0;
+  }
+
+  if (window.mode === 'schedule') {
+    const start = parseTimeToMinutes(window.startTime);
+    const end = parseTimeToMinutes(window.endTime);
+    if (start === null || end === null || start === end) return false;
+
+    const { day, minutes } = getWeekdayAndMinutes(date, timeZone);
+    const previousDay = day === 1 ? 7 : day - 1;
+
+    if (start < end) {
+      return window.days.includes(day) && minutes >= start && minutes < end;
+    }
+    return (window.days.includes(day) && minutes >= start) || (window.days.includes(previousDay) && minutes < end);
+  }
+
+  return true;
+}
+
+/**
+ * Describe how the location is shared in the given language, e.g. 'Always',
+ * '42 min left', 'Until arrival', 'Weekdays 07:00-09:00'
+ */
+export function describeLocationSharing(
+  window: LocationSharingWindow | null | undefined,
+  now: number = Date.now(),
+  language: string = DEFAULT_LANGUAGE
+): string {
+  if (!window) return translate(language, 'locationSharing.always');
+  if (!window.enabled) return translate(language, 'locationSharing.off');
+
+  switch (window.mode) {
+    case 'until': {
+      const timeLeft = getSharingTimeLeftMs(window, now) ?? 0;
+      return timeLeft > 0
+        ? translate(language, 'locationSharing.timeLeft', { time: formatTimeLeft(timeLeft) })
+        : translate(language, 'locationSharing.ending');
+    }
+    case 'until_arrival':
+      return translate(language, 'locationSharing.untilArrival');
+    case 'schedule':
+      return `${formatSharingDays(window.days, language)} ${(window.startTime || '').slice(0, 5)}-${(window.endTime || '').slice(0, 5)}`;
+    default:
+      return translate(language, 'locationSharing.always');
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Utility functions for stripping location metadata from video files
+ * Photos are re-encoded before upload, which drops EXIF; videos can't be
+ * re-encoded on the device, so the location fields in the MP4/QuickTime
+ * 'moov' box are blanked in place. Sizes never change, so offsets into the
+ * media data stay valid. The duration is read from the same box, so the
+ * length limit doesn't depend on what the picker reported.
+ */
+
+// Location atoms whose payload is blanked:
+//   '©xyz' - ISO 6709 string in udta (Android, older iOS)
+//   'loci' - 3GPP location box (name, longitude, latitude, altitude); all
+//            zeros is still a valid, empty box
+const LOCATION_ATOMS = [
+  [0xa9, 0x78, 0x79, 0x7a],
+  [0x6c, 0x6f, 0x63, 0x69],
+];
+// ISO 6709 string, e.g. '+37.7858-122.4064+012.000/' (QuickTime mdta location)
+const ISO6709_PATTERN = /[+-]\d{1,3}(?:\.\d+)?[+-]\d{1,3}(?:\.\d+)?(?:[+-]\d+(?:\.\d+)?)?(?:CRS[^/]*)?\//g;
+
+function readUint32(bytes: Uint8Array, offset: number): number {
+  return ((bytes[offset] << 24) | (bytes[offset + 1] << 16) | (bytes[offset + 2] << 8) | bytes[offset + 3]) >>> 0;
+}
+
+function readType(bytes: Uint8Array, offset: number): string {
+  return String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+}
+
+/**
+ * Find the top-level 'moov' box as [start, end) byte offsets
+ */
+function findMoovBox(bytes: Uint8Array): [number, number] | null {
+  let offset = 0;
+
+  while (offset + 8 <= bytes.length) {
+    let size = readUint32(bytes, offset);
+    const type = readType(bytes, offset + 4);
+
+    if (size === 1) {
+      // 64-bit size; clips are far below 4 GB, so the high word must be 0
+      if (offset + 16 > bytes.length || readUint32(bytes, offset + 8) !== 0) return null;
+      size = readUint32(bytes, offset + 12);
+    } else if (size === 0) {
+      size = bytes.length - offset;
+    }
+    if (size < 8) return null;
+
+    if (type === 'moov') return [offset, Math.min(offset + size, bytes.length)];
+    offset += size;
+  }
+
+  return null;
+}
+
+/**
+ * Blank every location field in a video's metadata (mutates bytes)
+ * Returns the number of fields blanked, or -1 if the file isn't MP4/QuickTime.
+ */
+export function scrubVideoLocation(bytes: Uint8Array): number {
+  const moov = findMoovBox(bytes);
+  if (!moov) return -1;
+
+  const [start, end] = moov;
+  let scrubbed = 0;
+
+  // Location atoms: zero the payload
+  for (let i = start + 4; i + 4 <= end; i++) {
+    const isLocationAtom = LOCATION_ATOMS.some(atom =>
+      bytes[i] === atom[0] &&
+      bytes[i + 1] === atom[1] &&
+      bytes[i + 2] === atom[2] &&
+      bytes[i + 3] === atom[3]
+    );
+    if (isLocationAtom) {
+      const size = readUint32(bytes, i - 4);
+      const atomEnd = Math.min(i - 4 + size, end);
+      if (size >= 8) {
+        bytes.fill(0, i + 4, atomEnd);
+        scrubbed++;
+        i = atomEnd - 1;
+      }
+    }
+  }
+
+  // ISO 6709 strings anywhere else in the metadata: digits become '0'
+  let text = '';
+  for (let i = start; i < end; i++) {
+    text += String.fromCharCode(bytes[i] < 0x80 ? bytes[i] : 0);
+  }
+  let match: RegExpExecArray | null;
+  while ((match = ISO6709_PATTERN.exec(text)) !== null) {
+    for (let k = 0; k < match[0].length; k++) {
+      const code = match[0].charCodeAt(k);
+      if (code >= 0x30 && code <= 0x39) bytes[start + match.index + k] = 0x30;
+    }
+    scrubbed++;
+  }
+  ISO6709_PATTERN.lastIndex = 0;
+
+  return scrubbed;
+}
+
+/**
+ * A video's duration in seconds, read from its 'mvhd' box
+ * Returns null if the file isn't MP4/QuickTime or has no movie header.
+ */
+export function readVideoDurationSeconds(bytes: Uint8Array): number | null {
+  const moov = findMoovBox(bytes);
+  if (!moov) return null;
+
+  const [start, end] = moov;
+  let offset = start + 8;
+
+  while (offset + 8 <= end) {
+    const size = readUint32(bytes, offset);
+    if (size < 8) return null;
+
+    if (readType(bytes, offset + 4) === 'mvhd') {
+      const version = bytes[offset + 8];
+      // v0: 32-bit creation/modification times and duration; v1: 64-bit
+      const timescaleOffset = offset + (version === 1 ? 28 : 20);
+      if (timescaleOffset + (version === 1 ? 12 : 8) > end) return null;
+
+      const timescale = readUint32(bytes, timescaleOffset);
+      const duration = version === 1
+        ? readUint32(bytes, timescaleOffset + 4) * 2 ** 32 + readUint32(bytes, timescaleOffset + 8)
+        : readUint32(bytes, timescaleOffset + 4);
+      return timescale > 0 ? duration / timescale : null;
+    }
+    offset += size;
+  }
+
+  return null;
+}
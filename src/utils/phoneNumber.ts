@@ -0,0 +1,76 @@
+/**
+ * Utility functions for phone numbers
+ * Server-side equivalent: normalize_phone_e164() in the contact_discovery
+ * migration - keep the two in sync, contact matching depends on it.
+ */
+
+interface RegionPhoneRule {
+  callingCode: string;
+  minLength: number; // National (significant) number length, without trunk prefix
+  maxLength: number;
+}
+
+// Regions from SUPPORTED_REGIONS (Language & Region screen)
+const REGION_PHONE_RULES: Record<string, RegionPhoneRule> = {
+  NG: { callingCode: '234', minLength: 8, maxLength: 10 },
+  GH: { callingCode: '233', minLength: 9, maxLength: 9 },
+  US: { callingCode: '1', minLength: 10, maxLength: 10 },
+  CA: { callingCode: '1', minLength: 10, maxLength: 10 },
+  GB: { callingCode: '44', minLength: 9, maxLength: 10 },
+  AU: { callingCode: '61', minLength: 9, maxLength: 9 },
+  IN: { callingCode: '91', minLength: 10, maxLength: 10 },
+};
+
+/**
+ * Normalize a phone number to E.164 (e.g. '0803 123 4567' in NG -> '+2348031234567')
+ * Numbers starting with '+' or '00' are taken as international; others are read
+ * in the given region. Returns null if the number isn't valid.
+ */
+export function normalizePhoneNumber(phone: string | null | undefined, region: string): string | null {
+  const digits = (phone || '').replace(/\D/g, '');
+  if (!digits) return null;
+
+  let international: string;
+
+  if (/^\s*\+/.test(phone || '')) {
+    international = digits;
+  } else if (digits.startsWith('00')) {
+    international = digits.slice(2);
+  } else {
+    const rule = REGION_PHONE_RULES[(region || '').toUpperCase()];
+    if (!rule) return null;
+
+    const { callingCode, minLength, maxLength } = rule;
+    let national: string;
+
+    if (callingCode === '1' && digits.length === 11 && digits.startsWith('1')) {
+      // NANP numbers written with the leading 1
+      national = digits.slice(1);
+    } else if (callingCode !== '1' && digits.startsWith('0')) {
+      // Trunk prefix (e.g. 0803... in Nigeria)
+      national = digits.slice(1);
+    } else if (
+      callingCode !== '1' &&
+      digits.startsWith(callingCode) &&
+      digits.length - callingCode.length >= minLength &&
+      digits.length - callingCode.length <= maxLength
+    ) {
+      // Already international, written without '+'
+      national = digits.slice(callingCode.length);
+    } else {
+      national = digits;
+    }
+
+    if (national.length < minLength || national.length > maxLength || national.startsWith('0')) {
+      return null;
+    }
+
+    international = callingCode + national;
+  }
+
+  if (international.length < 8 || international.length > 15 || international.startsWith('0')) {
+    return null;
+  }
+
+  return `+${international}`;
+}
@@ -0,0 +1,101 @@
+/**
+ * Utility functions for sleep mode (quiet hours)
+ * Start/end times are wall-clock times in the user's own time zone.
+ * Server-side equivalent: is_user_in_sleep_mode() in the enforce_sleep_mode migration.
+ */
+
+export interface SleepModeSettings {
+  enabled: boolean;
+  startTime: string; // 'HH:MM' or 'HH:MM:SS'
+  endTime: string; // 'HH:MM' or 'HH:MM:SS'
+  timeZone?: string | null; // IANA name, e.g. 'Africa/Lagos'
+}
+
+// AsyncStorage key used to share sleep mode settings with the background location task
+export const SLEEP_MODE_STORAGE_KEY = 'location_tracking_sleepMode';
+
+/**
+ * Get the device's IANA time zone, falling back to UTC
+ */
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Parse 'HH:MM' / 'HH:MM:SS' into minutes since midnight
+ */
+export function parseTimeToMinutes(time: string | null | undefined): number | null {
+  if (!time) return null;
+  const match = /^(\d{1,2}):(\d{2})/.exec(time.trim());
+  if (!match) return null;
+
+  const hours = parseInt(match[1], 10);
+  const minutes = parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) return null;
+
+  return hours * 60 + minutes;
+}
+
+/**
+ * Get minutes since midnight for a date in the given time zone
+ * Falls back to the device's local time if the time zone is not supported
+ */
+function getMinutesInTimeZone(date: Date, timeZone?: string | null): number {
+  if (timeZone) {
+    try {
+      const parts = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hour: '2-digit',
+        minute: '2-digit',
+        hourCycle: 'h23',
+      }).formatToParts(date);
+      const hour = parseInt(parts.find((part) => part.type === 'hour')?.value || '', 10);
+      const minute = parseInt(parts.find((part) => part.type === 'minute')?.value || '', 10);
+      if (!isNaN(hour) && !isNaN(minute)) {
+        return (hour % 24) * 60 + minute;
+      }
+    } catch {
+      // Unsupported time zone - use device local time below
+    }
+  }
+
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+/**
+ * Check whether a date falls inside the sleep window
+ * Handles windows that cross midnight (e.g. 22:00 - 07:00)
+ */
+export function isWithinSleepWindow(
+  settings: SleepModeSettings | null | undefined,
+  date: Date = new Date()
+): boolean {
+  if (!settings?.enabled) return false;
+
+  const start = parseTimeToMinutes(settings.startTime);
+  const end = parseTimeToMinutes(settings.endTime);
+  if (start === null || end === null || start === end) return false;
+
+  const now = getMinutesInTimeZone(date, settings.timeZone);
+
+  if (start < end) {
+    return now >= start && now < end;
+  }
+  return now >= start || now < end;
+}
+
+/**
+ * Map a user_settings row to SleepModeSettings
+ */
+export function mapDbRowToSleepModeSettings(row: any): SleepModeSettings {
+  return {
+    enabled: row?.sleep_mode_enabled ?? false,
+    startTime: row?.sleep_mode_start_time || '22:00',
+    endTime: row?.sleep_mode_end_time || '07:00',
+    timeZone: row?.timezone || null,
+  };
+}
@@ -0,0 +1,115 @@
+/**
+ * Unit formatting helpers
+ * Distances and speeds are stored and computed in metric (km, meters, km/h);
+ * these helpers only convert for display and input.
+ * Server-side equivalent: format_distance_for_user() in the user_unit_system migration.
+ */
+
+import { distanceFilters, imperialDistanceFilters } from '../data/mockData';
+import type { DistanceFilter } from '../types';
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export const DEFAULT_UNIT_SYSTEM: UnitSystem = 'metric';
+
+export const KM_PER_MILE = 1.609344;
+const FEET_PER_METER = 3.28084;
+const FEET_PER_MILE = 5280;
+
+/**
+ * Normalize a stored units value, falling back to metric
+ */
+export function normalizeUnitSystem(value: string | null | undefined): UnitSystem {
+  return value === 'imperial' ? 'imperial' : 'metric';
+}
+
+/**
+ * Format a distance given in kilometers, e.g. '2.4 km' / '1.5 mi'
+ * Short distances are shown in meters / feet.
+ */
+export function formatDistance(km: number, system: UnitSystem, decimals: number = 1): string {
+  if (!isFinite(km)) return '';
+
+  if (system === 'imperial') {
+    const miles = km / KM_PER_MILE;
+    if (miles < 0.1) {
+      return `${Math.round(miles * FEET_PER_MILE)} ft`;
+    }
+    return `${miles.toFixed(decimals)} mi`;
+  }
+
+  if (km < 0.1) {
+    return `${Math.round(km * 1000)} m`;
+  }
+  return `${km.toFixed(decimals)} km`;
+}
+
+/**
+ * Format a distance given in meters, e.g. '250 m' / '820 ft' / '1.20 mi'
+ */
+export function formatDistanceMeters(meters: number, system: UnitSystem, decimals: number = 2): string {
+  if (!isFinite(meters)) return '';
+
+  if (system === 'imperial') {
+    const feet = meters * FEET_PER_METER;
+    if (feet < 1000) {
+      return `${Math.round(feet)} ft`;
+    }
+    return `${(feet / FEET_PER_MILE).toFixed(decimals)} mi`;
+  }
+
+  if (meters < 1000) {
+    return `${Math.round(meters)} m`;
+  }
+  return `${(meters / 1000).toFixed(decimals)} km`;
+}
+
+/**
+ * Format a radius in meters without decimals that aren't needed (e.g. '500 m', '1 km', '0.5 mi')
+ */
+export function formatRadius(meters: number, system: UnitSystem): string {
+  if (system === 'imperial') {
+    const feet = meters * FEET_PER_METER;
+    if (feet < 1000) {
+      return `${Math.round(feet / 10) * 10} ft`;
+    }
+    return `${parseFloat((feet / FEET_PER_MILE).toFixed(1))} mi`;
+  }
+
+  return meters < 1000 ? `${meters} m` : `${parseFloat((meters / 1000).toFixed(1))} km`;
+}
+
+/**
+ * Get the speed unit label for a unit system
+ */
+export function getSpeedUnit(system: UnitSystem): string {
+  return system === 'imperial' ? 'mph' : 'km/h';
+}
+
+/**
+ * Convert a speed in km/h to the display unit
+ */
+export function kmhToDisplaySpeed(kmh: number, system: UnitSystem): number {
+  return system === 'imperial' ? kmh / KM_PER_MILE : kmh;
+}
+
+/**
+ * Convert a speed entered in the display unit back to km/h
+ */
+export function displaySpeedToKmh(value: number, system: UnitSystem): number {
+  return system === 'imperial' ? value * KM_PER_MILE : value;
+}
+
+/**
+ * Format a speed given in km/h, e.g. '20 km/h' / '12 mph'
+ */
+export function formatSpeed(kmh: number, system: UnitSystem): string {
+  return `${Math.round(kmhToDisplaySpeed(kmh, system))} ${getSpeedUnit(system)}`;
+}
+
+/**
+ * Get the incident distance filters for a unit system (values are always km)
+ */
+export function getDistanceFilters(system: UnitSystem): DistanceFilter[] {
+  return system === 'imperial' ? imperialDistanceFilters : distanceFilters;
+}
@@ -0,0 +1,547 @@
+// Shared push notification translations for Edge Functions
+// Keep language codes in sync with src/i18n/index.ts in the app.
+// Recipients' language comes from user_settings.language (defaults to English).
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+export type SupportedLanguage = 'en' | 'es' | 'fr' | 'de' | 'zh' | 'yo' | 'ha' | 'ig'
+
+export const DEFAULT_LANGUAGE: SupportedLanguage = 'en'
+
+const SUPPORTED_LANGUAGES: SupportedLanguage[] = ['en', 'es', 'fr', 'de', 'zh', 'yo', 'ha', 'ig']
+
+type PushMessageKey =
+  | 'morning_greeting'
+  | 'afternoon_greeting'
+  | 'app_update'
+  | 'missing_location'
+  | 'background_location_stopped'
+  | 'missed_check_in_reminder'
+  | 'missed_check_in_alert'
+  | 'trip_overdue'
+  | 'trip_no_signal'
+  | 'incident_proximity_danger'
+  | 'incident_proximity_warning'
+  | 'incident_proximity_alert'
+  | 'incident_digest'
+
+interface PushMessage {
+  title: string
+  body: string
+}
+
+const PUSH_MESSAGES: Record<SupportedLanguage, Record<PushMessageKey, PushMessage>> = {
+  en: {
+    morning_greeting: {
+      title: '🌅 Good Morning!',
+      body: 'FamGuard wishes you a safe and wonderful day ahead. Stay protected!',
+    },
+    afternoon_greeting: {
+      title: '☀️ Good Afternoon!',
+      body: 'FamGuard wishes you a wonderful afternoon. Please always stay safe with FamGuard!',
+    },
+    app_update: {
+      title: '📱 App Update Available',
+      body: 'A new version of FamGuard is available. Please update to the latest version for the best experience and security features.',
+    },
+    missing_location: {
+      title: 'We Miss You!',
+      body: "You haven't visited famGuard for a while. We miss you and want to make sure you're safe. Please stay active and keep your location updated so your loved ones can stay connected with you.",
+    },
+    background_location_stopped: {
+      title: 'Location Update Reminder',
+      body: "Your background location hasn't updated in the past 4 hours. Tap to update your location now.",
+    },
+    missed_check_in_reminder: {
+      title: '⏰ Check-in overdue',
+      body: "Your scheduled check-in is overdue. Tap to let your family know you're safe.",
+    },
+    missed_check_in_alert: {
+      title: '⚠️ {name} missed a check-in',
+      body: "{name} hasn't checked in since their check-in was due. Please try to reach them.",
+    },
+    trip_overdue: {
+      title: "⚠️ {name}'s trip needs attention",
+      body: '{name} has not arrived at {destination} and is past their expected arrival time.',
+    },
+    trip_no_signal: {
+      title: "⚠️ {name}'s trip needs attention",
+      body: "{name}'s phone stopped reporting during their trip to {destination}.",
+    },
+    incident_proximity_danger: {
+      title: '🚨 DANGER: Incident nearby',
+      body: '{category}: {title}\n📍 {distance} away',
+    },
+    incident_proximity_warning: {
+      title: '⚠️ WARNING: Incident nearby',
+      body: '{category}: {title}\n📍 {distance} away',
+    },
+    incident_proximity_alert: {
+      title: '⚠️ ALERT: Incident nearby',
+      body: '{category}: {title}\n📍 {distance} away',
+    },
+    incident_digest: {
+      title: '📋 {count} incidents near you',
+      body: '{count} incidents were reported near you recently. The closest was {distance} away. Tap to review them.',
+    },
+  },
+  es: {
+    morning_greeting: {
+      title: '🌅 ¡Buenos días!',
+      body: 'FamGuard te desea un día seguro y maravilloso. ¡Mantente protegido!',
+    },
+    afternoon_greeting: {
+      title: '☀️ ¡Buenas tardes!',
+      body: 'FamGuard te desea una tarde maravillosa. ¡Mantente siempre seguro con FamGuard!',
+    },
+    app_update: {
+      title: '📱 Actualización disponible',
+      body: 'Hay una nueva versión de FamGuard disponible. Actualiza a la última versión para disfrutar de la mejor experiencia y seguridad.',
+    },
+    missing_location: {
+      title: '¡Te extrañamos!',
+      body: 'Hace tiempo que no visitas famGuard. Queremos asegurarnos de que estás bien. Mantén tu ubicación actualizada para que tus seres queridos sigan conectados contigo.',
+    },
+    background_location_stopped: {
+      title: 'Recordatorio de ubicación',
+      body: 'Tu ubicación en segundo plano no se ha actualizado en las últimas 4 horas. Toca para actualizarla ahora.',
+    },
+    missed_check_in_reminder: {
+      title: '⏰ Check-in pendiente',
+      body: 'Tu check-in programado está atrasado. Toca para avisar a tu familia que estás bien.',
+    },
+    missed_check_in_alert: {
+      title: '⚠️ {name} no hizo su check-in',
+      body: '{name} no ha hecho check-in desde la hora prevista. Intenta comunicarte con esta persona.',
+    },
+    trip_overdue: {
+      title: '⚠️ El viaje de {name} requiere atención',
+      body: '{name} no ha llegado a {destination} y ya pasó su hora prevista de llegada.',
+    },
+    trip_no_signal: {
+      title: '⚠️ El viaje de {name} requiere atención',
+      body: 'El teléfono de {name} dejó de enviar su ubicación durante el viaje a {destination}.',
+    },
+    incident_proximity_danger: {
+      title: '🚨 PELIGRO: Incidente cerca',
+      body: '{category}: {title}\n📍 a {distance}',
+    },
+    incident_proximity_warning: {
+      title: '⚠️ ADVERTENCIA: Incidente cerca',
+      body: '{category}: {title}\n📍 a {distance}',
+    },
+    incident_proximity_alert: {
+      title: '⚠️ ALERTA: Incidente cerca',
+      body: '{category}: {title}\n📍 a {distance}',
+    },
+    incident_digest: {
+      title: '📋 {count} incidentes cerca de ti',
+      body: 'Se reportaron {count} incidentes cerca de ti recientemente. El más cercano estaba a {distance}. Toca para revisarlos.',
+    },
+  },
+  fr: {
+    morning_greeting: {
+      title: '🌅 Bonjour !',
+      body: 'FamGuard vous souhaite une journée sûre et agréable. Restez protégé !',
+    },
+    afternoon_greeting: {
+      title: '☀️ Bon après-midi !',
+      body: 'FamGuard vous souhaite un excellent après-midi. Restez toujours en sécurité avec FamGuard !',
+    },
+    app_update: {
+      title: '📱 Mise à jour disponible',
+      body: 'Une nouvelle version de FamGuard est disponible. Mettez à jour pour profiter de la meilleure expérience et des dernières protections.',
+    },
+    missing_location: {
+      title: 'Vous nous manquez !',
+      body: "Vous n'avez pas ouvert famGuard depuis un moment. Nous voulons nous assurer que vous allez bien. Gardez votre position à jour pour que vos proches restent connectés avec vous.",
+    },
+    background_location_stopped: {
+      title: 'Rappel de position',
+      body: "Votre position en arrière-plan n'a pas été mise à jour depuis 4 heures. Touchez pour la mettre à jour maintenant.",
+    },
+    missed_check_in_reminder: {
+      title: '⏰ Check-in en retard',
+      body: 'Votre check-in programmé est en retard. Touchez pour informer votre famille que vous allez bien.',
+    },
+    missed_check_in_alert: {
+      title: '⚠️ {name} a manqué un check-in',
+      body: "{name} n'a pas fait son check-in à l'heure prévue. Essayez de le ou la joindre.",
+    },
+    trip_overdue: {
+      title: '⚠️ Le trajet de {name} demande votre attention',
+      body: "{name} n'est pas arrivé(e) à {destination} et a dépassé l'heure d'arrivée prévue.",
+    },
+    trip_no_signal: {
+      title: '⚠️ Le trajet de {name} demande votre attention',
+      body: 'Le téléphone de {name} ne transmet plus sa position pendant le trajet vers {destination}.',
+    },
+    incident_proximity_danger: {
+      title: '🚨 DANGER : Incident à proximité',
+      body: '{category} : {title}\n📍 à {distance}',
+    },
+    incident_proximity_warning: {
+      title: '⚠️ ATTENTION : Incident à proximité',
+      body: '{category} : {title}\n📍 à {distance}',
+    },
+    incident_proximity_alert: {
+      title: '⚠️ ALERTE : Incident à proximité',
+      body: '{category} : {title}\n📍 à {distance}',
+    },
+    incident_digest: {
+      title: '📋 {count} incidents près de vous',
+      body: '{count} incidents ont été signalés près de vous récemment. Le plus proche était à {distance}. Touchez pour les consulter.',
+    },
+  },
+  de: {
+    morning_greeting: {
+      title: '🌅 Guten Morgen!',
+      body: 'FamGuard wünscht dir einen sicheren und schönen Tag. Bleib geschützt!',
+    },
+    afternoon_greeting: {
+      title: '☀️ Guten Tag!',
+      body: 'FamGuard wünscht dir einen schönen Nachmittag. Bleib immer sicher mit FamGuard!',
+    },
+    app_update: {
+      title: '📱 App-Update verfügbar',
+      body: 'Eine neue Version von FamGuard ist verfügbar. Bitte aktualisiere für die beste Erfahrung und die neuesten Sicherheitsfunktionen.',
+    },
+    missing_location: {
+      title: 'Wir vermissen dich!',
+      body: 'Du warst eine Weile nicht bei famGuard. Wir möchten sicherstellen, dass es dir gut geht. Halte deinen Standort aktuell, damit deine Liebsten mit dir verbunden bleiben.',
+    },
+    background_location_stopped: {
+      title: 'Standort-Erinnerung',
+      body: 'Dein Hintergrundstandort wurde seit 4 Stunden nicht aktualisiert. Tippe, um ihn jetzt zu aktualisieren.',
+    },
+    missed_check_in_reminder: {
+      title: '⏰ Check-in überfällig',
+      body: 'Dein geplanter Check-in ist überfällig. Tippe, um deiner Familie zu zeigen, dass du sicher bist.',
+    },
+    missed_check_in_alert: {
+      title: '⚠️ {name} hat einen Check-in verpasst',
+      body: '{name} hat sich seit dem fälligen Check-in nicht gemeldet. Bitte versuche, die Person zu erreichen.',
+    },
+    trip_overdue: {
+      title: '⚠️ Die Reise von {name} braucht Aufmerksamkeit',
+      body: '{name} ist nicht in {destination} angekommen und hat die erwartete Ankunftszeit überschritten.',
+    },
+    trip_no_signal: {
+      title: '⚠️ Die Reise von {name} braucht Aufmerksamkeit',
+      body: 'Das Telefon von {name} sendet während der Reise nach {destination} keinen Standort mehr.',
+    },
+    incident_proximity_danger: {
+      title: '🚨 GEFAHR: Vorfall in der Nähe',
+      body: '{category}: {title}\n📍 {distance} entfernt',
+    },
+    incident_proximity_warning: {
+      title: '⚠️ WARNUNG: Vorfall in der Nähe',
+      body: '{category}: {title}\n📍 {distance} entfernt',
+    },
+    incident_proximity_alert: {
+      title: '⚠️ HINWEIS: Vorfall in der Nähe',
+      body: '{category}: {title}\n📍 {distance} entfernt',
+    },
+    incident_digest: {
+      title: '📋 {count} Vorfälle in Ihrer Nähe',
+      body: 'In Ihrer Nähe wurden kürzlich {count} Vorfälle gemeldet. Der nächste war {distance} entfernt. Tippen Sie, um sie anzusehen.',
+    },
+  },
+  zh: {
+    morning_greeting: {
+      title: '🌅 早上好！',
+      body: 'FamGuard 祝您今天平安顺利。请注意安全！',
+    },
+    afternoon_greeting: {
+      title: '☀️ 下午好！',
+      body: 'FamGuard 祝您下午愉快。请时刻与 FamGuard 一起保持安全！',
+    },
+    app_update: {
+      title: '📱 有可用更新',
+      body: 'FamGuard 有新版本可用。请更新到最新版本以获得最佳体验和安全功能。',
+    },
+    missing_location: {
+      title: '我们想念您！',
+      body: '您已有一段时间没有打开 famGuard。我们想确认您一切安好。请保持位置更新，让您的家人与您保持联系。',
+    },
+    background_location_stopped: {
+      title: '位置更新提醒',
+      body: '您的后台位置在过去 4 小时内没有更新。点击立即更新位置。',
+    },
+    missed_check_in_reminder: {
+      title: '⏰ 签到已逾期',
+      body: '您的定时签到已逾期。点击告诉家人您平安。',
+    },
+    missed_check_in_alert: {
+      title: '⚠️ {name} 错过了签到',
+      body: '{name} 在签到时间后仍未签到。请尝试联系对方。',
+    },
+    trip_overdue: {
+      title: '⚠️ {name} 的行程需要关注',
+      body: '{name} 尚未到达 {destination}，已超过预计到达时间。',
+    },
+    trip_no_signal: {
+      title: '⚠️ {name} 的行程需要关注',
+      body: '{name} 前往 {destination} 途中，手机已停止上报位置。',
+    },
+    incident_proximity_danger: {
+      title: '🚨 危险：附近发生事件',
+      body: '{category}：{title}\n📍 距离 {distance}',
+    },
+    incident_proximity_warning: {
+      title: '⚠️ 警告：附近发生事件',
+      body: '{category}：{title}\n📍 距离 {distance}',
+    },
+    incident_proximity_alert: {
+      title: '⚠️ 提醒：附近发生事件',
+      body: '{category}：{title}\n📍 距离 {distance}',
+    },
+    incident_digest: {
+      title: '📋 您附近有 {count} 起事件',
+      body: '您附近最近报告了 {count} 起事件，最近的一起距离 {distance}。点击查看。',
+    },
+  },
+  yo: {
+    morning_greeting: {
+      title: '🌅 Ẹ káàárọ̀!',
+      body: 'FamGuard kí yín ní ọjọ́ àlàáfíà àti ayọ̀. Ẹ máa ṣọ́ra o!',
+    },
+    afternoon_greeting: {
+      title: '☀️ Ẹ káàsán!',
+      body: 'FamGuard kí yín ní ọ̀sán rere. Ẹ máa wà ní àìléwu pẹ̀lú FamGuard nígbà gbogbo!',
+    },
+    app_update: {
+      title: '📱 Ìmúdójúìwọ̀n wà',
+      body: 'Ẹ̀yà tuntun FamGuard ti wà. Ẹ jọ̀wọ́ ṣe ìmúdójúìwọ̀n fún ìrírí tó dára jùlọ àti ààbò tuntun.',
+    },
+    missing_location: {
+      title: 'Àárò yín ń sọ wá!',
+      body: 'Ẹ ò tíì ṣí famGuard fún ìgbà díẹ̀. A fẹ́ mọ̀ pé ẹ wà ní àlàáfíà. Ẹ jọ̀wọ́ máa ṣe ìmúdójúìwọ̀n ibi tí ẹ wà kí àwọn olólùfẹ́ yín lè máa bá yín sọ̀rọ̀.',
+    },
+    background_location_stopped: {
+      title: 'Ìránnilétí ibi tí ẹ wà',
+      body: 'Ibi tí ẹ wà kò tíì ṣe ìmúdójúìwọ̀n ní wákàtí mẹ́rin sẹ́yìn. Ẹ tẹ̀ ẹ́ láti ṣe ìmúdójúìwọ̀n báyìí.',
+    },
+    missed_check_in_reminder: {
+      title: '⏰ Àkókò ìforúkọsílẹ̀ ti kọjá',
+      body: 'Àkókò ìforúkọsílẹ̀ yín ti kọjá. Ẹ tẹ̀ ẹ́ láti jẹ́ kí ìdílé yín mọ̀ pé ẹ wà ní àlàáfíà.',
+    },
+    missed_check_in_alert: {
+      title: '⚠️ {name} kò forúkọsílẹ̀',
+      body: '{name} kò tíì forúkọsílẹ̀ láti ìgbà tí àkókò rẹ̀ ti tó. Ẹ jọ̀wọ́ gbìyànjú láti kàn sí i.',
+    },
+    trip_overdue: {
+      title: '⚠️ Ìrìnàjò {name} nílò àkíyèsí',
+      body: '{name} kò tíì dé {destination}, àkókò tí ó yẹ kí ó dé sì ti kọjá.',
+    },
+    trip_no_signal: {
+      title: '⚠️ Ìrìnàjò {name} nílò àkíyèsí',
+      body: 'Fóònù {name} ti dáwọ́ fífi ibi tí ó wà ránṣẹ́ dúró nígbà ìrìnàjò sí {destination}.',
+    },
+    incident_proximity_danger: {
+      title: '🚨 EWU: Ìṣẹ̀lẹ̀ kan wà nítòsí',
+      body: '{category}: {title}\n📍 {distance} sí ọ',
+    },
+    incident_proximity_warning: {
+      title: '⚠️ ÌKÌLỌ̀: Ìṣẹ̀lẹ̀ kan wà nítòsí',
+      body: '{category}: {title}\n📍 {distance} sí ọ',
+    },
+    incident_proximity_alert: {
+      title: '⚠️ ÌTANIJÍ: Ìṣẹ̀lẹ̀ kan wà nítòsí',
+      body: '{category}: {title}\n📍 {distance} sí ọ',
+    },
+    incident_digest: {
+      title: '📋 Ìṣẹ̀lẹ̀ {count} nítòsí rẹ',
+      body: 'Wọ́n ròyìn ìṣẹ̀lẹ̀ {count} nítòsí rẹ láìpẹ́. Èyí tó sún mọ́ jùlọ jìnnà tó {distance}. Tẹ̀ láti wò wọ́n.',
+    },
+  },
+  ha: {
+    morning_greeting: {
+      title: '🌅 Barka da safiya!',
+      body: 'FamGuard na yi maka fatan rana mai aminci da albarka. Ka kasance cikin kariya!',
+    },
+    afternoon_greeting: {
+      title: '☀️ Barka da rana!',
+      body: 'FamGuard na yi maka fatan yammaci mai kyau. Ka kasance lafiya tare da FamGuard koyaushe!',
+    },
+    app_update: {
+      title: '📱 Akwai sabuntawa',
+      body: 'Akwai sabon nau\'in FamGuard. Da fatan za a sabunta don samun mafi kyawun amfani da sabbin matakan tsaro.',
+    },
+    missing_location: {
+      title: 'Mun yi kewar ka!',
+      body: 'Ba ka buɗe famGuard ba na ɗan lokaci. Muna so mu tabbatar kana lafiya. Ka riƙa sabunta wurinka don masoyanka su ci gaba da kasancewa tare da kai.',
+    },
+    background_location_stopped: {
+      title: 'Tunatarwar wuri',
+      body: 'Ba a sabunta wurinka a bango ba cikin awanni 4 da suka wuce. Taɓa don sabunta wurinka yanzu.',
+    },
+    missed_check_in_reminder: {
+      title: '⏰ Lokacin rajista ya wuce',
+      body: 'Lokacin rajistar ka ya wuce. Taɓa don sanar da iyalinka cewa kana lafiya.',
+    },
+    missed_check_in_alert: {
+      title: '⚠️ {name} bai yi rajista ba',
+      body: '{name} bai yi rajista ba tun lokacin da ya kamata. Da fatan za a yi ƙoƙarin tuntuɓarsa.',
+    },
+    trip_overdue: {
+      title: '⚠️ Tafiyar {name} tana buƙatar kulawa',
+      body: '{name} bai isa {destination} ba kuma lokacin isowarsa da aka zata ya wuce.',
+    },
+    trip_no_signal: {
+      title: '⚠️ Tafiyar {name} tana buƙatar kulawa',
+      body: 'Wayar {name} ta daina aika wurin da yake yayin tafiya zuwa {destination}.',
+    },
+    incident_proximity_danger: {
+      title: '🚨 HAƊARI: Lamari a kusa',
+      body: '{category}: {title}\n📍 {distance} daga gare ka',
+    },
+    incident_proximity_warning: {
+      title: '⚠️ GARGAƊI: Lamari a kusa',
+      body: '{category}: {title}\n📍 {distance} daga gare ka',
+    },
+    incident_proximity_alert: {
+      title: '⚠️ FAƊAKARWA: Lamari a kusa',
+      body: '{category}: {title}\n📍 {distance} daga gare ka',
+    },
+    incident_digest: {
+      title: '📋 Lamura {count} a kusa da kai',
+      body: 'An ba da rahoton lamura {count} a kusa da kai kwanan nan. Mafi kusa yana da nisan {distance}. Danna don duba su.',
+    },
+  },
+  ig: {
+    morning_greeting: {
+      title: '🌅 Ụtụtụ ọma!',
+      body: 'FamGuard na-achọ ka ụbọchị gị dị mma ma nwee nchekwa. Nọrọ na nchekwa!',
+    },
+    afternoon_greeting: {
+      title: '☀️ Ehihie ọma!',
+      body: 'FamGuard na-achọ ka ehihie gị mara mma. Nọgide na nchekwa na FamGuard mgbe niile!',
+    },
+    app_update: {
+      title: '📱 Mmelite dị',
+      body: 'Ụdị ọhụrụ nke FamGuard dị. Biko melite ka ị nweta ahụmịhe kacha mma na njirimara nchekwa ọhụrụ.',
+    },
+    missing_location: {
+      title: 'Agụụ gị na-agụ anyị!',
+      body: 'Ị mepebeghị famGuard kemgbe oge ụfọdụ. Anyị chọrọ ịma na ị nọ n\'udo. Biko na-emelite ebe ị nọ ka ndị ị hụrụ n\'anya nwee ike ịnọgide na-ejikọ gị.',
+    },
+    background_location_stopped: {
+      title: 'Ncheta ebe ị nọ',
+      body: 'Emelitebeghị ebe ị nọ n\'azụ ruo awa anọ gara aga. Pịa ka imelite ebe ị nọ ugbu a.',
+    },
+    missed_check_in_reminder: {
+      title: '⏰ Oge ndenye agafeela',
+      body: "Oge ndenye gị agafeela. Pịa ka ezinụlọ gị mara na ị nọ n'udo.",
+    },
+    missed_check_in_alert: {
+      title: '⚠️ {name} agaghị ndenye',
+      body: '{name} edebanyeghị aha kemgbe oge ya ruru. Biko gbalịa ịkpọtụrụ ya.',
+    },
+    trip_overdue: {
+      title: '⚠️ Njem {name} chọrọ nlebara anya',
+      body: '{name} erubeghị {destination} ma oge a tụrụ anya na ọ ga-eru agafeela.',
+    },
+    trip_no_signal: {
+      title: '⚠️ Njem {name} chọrọ nlebara anya',
+      body: "Ekwentị {name} akwụsịla iziga ebe ọ nọ n'oge njem ya gaa {destination}.",
+    },
+    incident_proximity_danger: {
+      title: '🚨 IHE IZE NDỤ: Ihe mere nso',
+      body: "{category}: {title}\n📍 {distance} site n'ebe ị nọ",
+    },
+    incident_proximity_warning: {
+      title: '⚠️ ỊDỌ AKA NÁ NTỊ: Ihe mere nso',
+      body: "{category}: {title}\n📍 {distance} site n'ebe ị nọ",
+    },
+    incident_proximity_alert: {
+      title: '⚠️ MKPỌTỌ: Ihe mere nso',
+      body: "{category}: {title}\n📍 {distance} site n'ebe ị nọ",
+    },
+    incident_digest: {
+      title: '📋 Ihe {count} mere nso gị',
+      body: "A kọọrọ ihe {count} mere nso gị n'oge na-adịbeghị anya. Nke kacha nso dị {distance}. Pịa iji lee ha.",
+    },
+  },
+}
+
+/**
+ * Normalize a stored language code, falling back to English
+ */
+export function normalizeLanguage(code: string | null | undefined): SupportedLanguage {
+  const base = (code || '').toLowerCase().split(/[-_]/)[0]
+  return (SUPPORTED_LANGUAGES as string[]).includes(base) ? (base as SupportedLanguage) : DEFAULT_LANGUAGE
+}
+
+/**
+ * Get a push message (title + body) in the given language, replacing {placeholders} with params
+ */
+export function getPushMessage(
+  key: PushMessageKey,
+  language: string | null | undefined,
+  params?: Record<string, string | number>
+): PushMessage {
+  const lang = normalizeLanguage(language)
+  const message = PUSH_MESSAGES[lang][key] || PUSH_MESSAGES[DEFAULT_LANGUAGE][key]
+
+  if (!params) return message
+
+  const fill = (template: string) =>
+    template.replace(/\{(\w+)\}/g, (match, name: string) =>
+      params[name] !== undefined ? String(params[name]) : match
+    )
+  return { title: fill(message.title), body: fill(message.body) }
+}
+
+/**
+ * Look up each user's language from user_settings (missing users default to English)
+ */
+export async function getUserLanguages(
+  supabaseClient: SupabaseClient,
+  userIds: string[]
+): Promise<Map<string, SupportedLanguage>> {
+  const languages = new Map<string, SupportedLanguage>()
+  userIds.forEach((userId) => languages.set(userId, DEFAULT_LANGUAGE))
+
+  if (userIds.length === 0) {
+    return languages
+  }
+
+  // Query in chunks to keep the IN (...) list reasonable
+  const chunkSize = 500
+  for (let i = 0; i < userIds.length; i += chunkSize) {
+    const chunk = userIds.slice(i, i + chunkSize)
+    const { data, error } = await supabaseClient
+      .from('user_settings')
+      .select('user_id, language')
+      .in('user_id', chunk)
+
+    if (error) {
+      console.warn('⚠️ Could not load user languages, defaulting to English:', error.message)
+      continue
+    }
+
+    for (const row of data || []) {
+      languages.set(row.user_id, normalizeLanguage(row.language))
+    }
+  }
+
+  return languages
+}
+
+/**
+ * Group user ids by language (for functions that send one request per message text)
+ */
+export function groupUsersByLanguage(
+  userIds: string[],
+  languages: Map<string, SupportedLanguage>
+): Map<SupportedLanguage, string[]> {
+  const groups = new Map<SupportedLanguage, string[]>()
+  for (const userId of userIds) {
+    const lang = languages.get(userId) || DEFAULT_LANGUAGE
+    const group = groups.get(lang) || []
+    group.push(userId)
+    groups.set(lang, group)
+  }
+  return groups
+}
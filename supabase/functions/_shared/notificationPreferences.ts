@@ -0,0 +1,34 @@
+// Shared notification filter check for Edge Functions
+// Preferences are set on the app's Notification Filters screen and stored in
+// notification_preferences. filter_push_recipients() never filters critical types.
+
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+
+/**
+ * Return the subset of userIds that still want a push of this type (and from this sender)
+ * If the check fails, everyone is returned so delivery is never blocked by it.
+ */
+export async function filterPushRecipients(
+  supabaseClient: SupabaseClient,
+  userIds: string[],
+  notificationType: string | null,
+  senderId: string | null = null
+): Promise<Set<string>> {
+  if (userIds.length === 0) {
+    return new Set()
+  }
+
+  const { data, error } = await supabaseClient
+    .rpc('filter_push_recipients', {
+      p_user_ids: userIds,
+      p_notification_type: notificationType,
+      p_sender_id: senderId,
+    })
+
+  if (error) {
+    console.warn('⚠️ Could not check notification preferences, sending to all:', error.message)
+    return new Set(userIds)
+  }
+
+  return new Set((data || []).map((row: any) => row.user_id))
+}
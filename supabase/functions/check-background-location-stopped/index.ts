@@ -5,6 +5,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getPushMessage, getUserLanguages } from '../_shared/i18n.ts'
 
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
@@ -97,13 +98,12 @@ serve(async (req) => {
 
     // Insert notifications into the notifications table (NO push notification sent)
     // This ensures one-time notification (database function already checks for existing notifications)
-    const notificationTitle = "Location Update Reminder"
-    const notificationBody = "Your background location hasn't updated in the past 4 hours. Tap to update your location now."
+    // Reminder text is written in each user's language
+    const userLanguages = await getUserLanguages(supabaseClient, userIds)
     
     const notificationsToInsert = userIds.map(userId => ({
       user_id: userId,
-      title: notificationTitle,
-      body: notificationBody,
+      ...getPushMessage('background_location_stopped', userLanguages.get(userId)),
       type: 'location_reminder',
       data: {
         type: 'location_reminder',
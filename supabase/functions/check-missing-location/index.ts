@@ -9,6 +9,7 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getPushMessage, getUserLanguages, groupUsersByLanguage } from '../_shared/i18n.ts'
 
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
@@ -124,15 +125,14 @@ serve(async (req) => {
     // - Do NOT have location_history at all
     // - OR do NOT have location history inserted in the last 28 hours
     // The database function already ensures one-time (checks if notification sent in last 28 hours)
-    const notificationTitle = "We Miss You!"
-    const notificationBody = "You haven't visited famGuard for a while. We miss you and want to make sure you're safe. Please stay active and keep your location updated so your loved ones can stay connected with you."
+    // Reminder text is sent in each user's language
+    const userLanguages = await getUserLanguages(supabaseClient, userIds)
     
     // First, insert notifications into the notifications table
     // This ensures one-time notification (database function already checks for existing notifications)
     const notificationsToInsert = userIds.map(userId => ({
       user_id: userId,
-      title: notificationTitle,
-      body: notificationBody,
+      ...getPushMessage('missing_location', userLanguages.get(userId)),
       type: 'location_reminder',
       data: {
         type: 'location_reminder',
@@ -163,44 +163,51 @@ serve(async (req) => {
       }
     }
     
-    // Send ONE TIME push notification
+    // Send ONE TIME push notification (one request per language)
     const functionUrl = `${supabaseUrl}/functions/v1/send-push-notification`
+    const pushResult = { sent: 0, failed: 0 }
     
-    const pushResponse = await fetch(functionUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'Authorization': `Bearer ${supabaseServiceKey}`,
-      },
-      body: JSON.stringify({
-        user_ids: userIds,
-        title: notificationTitle,
-        body: notificationBody,
-        data: {
-          type: 'location_reminder',
-          action: 'update_location',
-          reminder_type: 'missing_location_28hrs',
+    for (const [language, languageUserIds] of groupUsersByLanguage(userIds, userLanguages)) {
+      const message = getPushMessage('missing_location', language)
+      const pushResponse = await fetch(functionUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${supabaseServiceKey}`,
         },
-      }),
-    })
-
-    if (!pushResponse.ok) {
-      const errorText = await pushResponse.text()
-      console.error('Error calling send-push-notification:', errorText)
-      return new Response(
-        JSON.stringify({ 
-          error: 'Unable to send reminder notifications at this time',
-          details: errorText 
+        body: JSON.stringify({
+          user_ids: languageUserIds,
+          title: message.title,
+          body: message.body,
+          data: {
+            type: 'location_reminder',
+            action: 'update_location',
+            reminder_type: 'missing_location_28hrs',
+          },
         }),
-        { 
-          status: 500, 
-          headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } 
-        }
-      )
+      })
+
+      if (!pushResponse.ok) {
+        const errorText = await pushResponse.text()
+        console.error(`Error calling send-push-notification (${language}):`, errorText)
+        return new Response(
+          JSON.stringify({ 
+            error: 'Unable to send reminder notifications at this time',
+            details: errorText 
+          }),
+          { 
+            status: 500, 
+            headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } 
+          }
+        )
+      }
+
+      const languageResult = await pushResponse.json()
+      console.log(`Push notification result (${language}):`, languageResult)
+      pushResult.sent += languageResult.sent || 0
+      pushResult.failed += languageResult.failed || 0
     }
 
-    const pushResult = await pushResponse.json()
-    console.log('Push notification result:', pushResult)
     console.log(`Sent ONE TIME push notification to ${pushResult.sent || 0} users`)
 
     const insertedCount = insertedNotifications?.length || 0
@@ -62,10 +62,33 @@ serve(async (req) => {
 
     console.log(`Successfully deleted ${deletedCount} expired incidents`)
 
+    // Remove photos and videos of incidents that no longer exist
+    // (also catches incidents removed by the cleanup_expired_incidents cron job)
+    let deletedMediaCount = 0
+    const { data: orphanedMedia, error: orphanedError } = await supabaseClient
+      .rpc('get_orphaned_incident_media_paths')
+
+    if (orphanedError) {
+      console.error('Error listing orphaned incident media:', orphanedError)
+    } else if (orphanedMedia && orphanedMedia.length > 0) {
+      const paths = orphanedMedia.map((row: { path: string }) => row.path)
+      const { error: removeError } = await supabaseClient.storage
+        .from('incident-media')
+        .remove(paths)
+
+      if (removeError) {
+        console.error('Error deleting orphaned incident media:', removeError)
+      } else {
+        deletedMediaCount = paths.length
+        console.log(`Deleted ${deletedMediaCount} orphaned incident media file(s)`)
+      }
+    }
+
     return new Response(
       JSON.stringify({ 
         success: true,
         deletedCount,
+        deletedMediaCount,
         timestamp: new Date().toISOString()
       }),
       { 
@@ -0,0 +1,80 @@
+// Supabase Edge Function: Connection invite landing page
+// Deploy with: supabase functions deploy invite --no-verify-jwt
+// Share links (EXPO_PUBLIC_INVITE_URL?t=<token>) open this page. It opens the
+// app at famguard://invite?t=<token> if installed; otherwise "Get the app"
+// copies the invite link first, so the app can pick it up after install
+// (deferred linking - see inviteService.checkClipboardForInvite).
+// The token is only validated when it is redeemed in the app.
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+
+const APP_STORE_URL = Deno.env.get('APP_STORE_URL') ?? 'https://apps.apple.com/gb/app/famsguard/id6757821633'
+const PLAY_STORE_URL = Deno.env.get('PLAY_STORE_URL') ?? 'https://play.google.com/store/apps/details?id=com.famguardacehubtech'
+
+// Same shape as the tokens signed in the signed_connection_invites migration
+const TOKEN_PATTERN = /^[0-9a-f-]{36}\.[0-9]{1,12}\.[0-9a-f]{32}$/
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function renderPage(token: string | null, userAgent: string): string {
+  const appLink = token ? `famguard://invite?t=${token}` : 'famguard://'
+  const storeUrl = /android/i.test(userAgent) ? PLAY_STORE_URL : APP_STORE_URL
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8" />
+  <meta name="viewport" content="width=device-width, initial-scale=1" />
+  <title>FamGuards invite</title>
+  <style>
+    body { font-family: -apple-system, Roboto, sans-serif; background: #F8FAFC; color: #1C1C1E; margin: 0; padding: 32px 20px; text-align: center; }
+    h1 { font-size: 22px; margin: 24px 0 8px; }
+    p { color: #64748B; font-size: 15px; line-height: 1.5; }
+    a.button { display: block; margin: 16px auto 0; max-width: 320px; padding: 14px; border-radius: 12px; font-weight: 600; text-decoration: none; }
+    .primary { background: #DC2626; color: #FFFFFF; }
+    .secondary { background: #FFFFFF; color: #1C1C1E; border: 1px solid #E2E8F0; }
+  </style>
+</head>
+<body>
+  <h1>${token ? 'You have been invited to FamGuards' : 'This invite link is not valid'}</h1>
+  <p>${token
+    ? 'Open the invite in the app to connect. New to FamGuards? Get the app - your invite will be waiting after you sign up.'
+    : 'Ask for a new invite link or QR code.'}</p>
+  ${token ? `<a class="button primary" href="${escapeHtml(appLink)}">Open in FamGuards</a>` : ''}
+  <a class="button secondary" id="get-app" href="${escapeHtml(storeUrl)}">Get the app</a>
+  <script>
+    var appLink = ${JSON.stringify(appLink)};
+    var hasToken = ${token ? 'true' : 'false'};
+    if (hasToken) {
+      window.location.href = appLink;
+    }
+    document.getElementById('get-app').addEventListener('click', function () {
+      if (hasToken && navigator.clipboard) {
+        navigator.clipboard.writeText(appLink).catch(function () {});
+      }
+    });
+  </script>
+</body>
+</html>`
+}
+
+serve((req) => {
+  const url = new URL(req.url)
+  const token = url.searchParams.get('t')?.trim() ?? ''
+  const validToken = TOKEN_PATTERN.test(token) ? token : null
+
+  return new Response(renderPage(validToken, req.headers.get('user-agent') ?? ''), {
+    status: validToken ? 200 : 400,
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      'Cache-Control': 'no-store',
+      'Referrer-Policy': 'no-referrer',
+    },
+  })
+})
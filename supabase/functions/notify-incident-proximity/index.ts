@@ -0,0 +1,228 @@
+// Supabase Edge Function: Notify Incident Proximity
+//
+// Called by the incidents_proximity_alerts trigger when an incident is
+// reported (see 20260206000000_incident_proximity_on_insert.sql) and alerts
+// users whose latest location is within 10 km:
+//   0-3 km  -> danger
+//   3-6 km  -> warning
+//   6-10 km -> alert
+//
+// Every recipient is claimed in incident_proximity_notifications under an
+// idempotency key before anything is sent, and push_sent is set once their
+// push goes out. A retry claims only new users for the in-app notification and
+// resends the pushes an earlier run claimed but never delivered.
+//
+// Whether a recipient gets a push now or waits for the digest depends on the
+// incident's severity, the distance band and their recent alerts (see
+// 20260207000000_incident_alert_budgets.sql). Critical incidents always push.
+// Everyone gets the in-app notification right away.
+//
+// Deploy with: supabase functions deploy notify-incident-proximity
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getPushMessage, getUserLanguages } from '../_shared/i18n.ts'
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+const MAX_DISTANCE_KM = 10
+
+type AlertLevel = 'danger' | 'warning' | 'alert'
+type AlertPriority = 'critical' | 'high' | 'normal' | 'minor'
+
+interface ClaimedRecipient {
+  user_id: string
+  distance_km: number
+  distance_text: string
+  idempotency_key: string
+  priority: AlertPriority
+  delivery: 'push' | 'digest'
+  already_claimed: boolean
+}
+
+const getAlertLevel = (distanceKm: number): AlertLevel => {
+  if (distanceKm <= 3) return 'danger'
+  if (distanceKm <= 6) return 'warning'
+  return 'alert'
+}
+
+const jsonResponse = (body: Record<string, unknown>, status: number = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+  })
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS })
+  }
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('❌ Missing Supabase configuration')
+      return jsonResponse({ error: 'Missing Supabase configuration' }, 500)
+    }
+
+    // Only the database trigger (service role) may fan out alerts
+    const authHeader = req.headers.get('authorization') || ''
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      return jsonResponse({ error: 'Unauthorized' }, 401)
+    }
+
+    const { incident_id: incidentId } = await req.json().catch(() => ({}))
+    if (!incidentId || typeof incidentId !== 'string') {
+      return jsonResponse({ error: 'incident_id is required' }, 400)
+    }
+
+    console.log('🚨 Incident proximity fan-out called for incident:', incidentId)
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+    const functionUrl = `${supabaseUrl}/functions/v1/send-push-notification`
+
+    const { data: incident, error: incidentError } = await supabaseClient
+      .from('incidents')
+      .select('id, title, category')
+      .eq('id', incidentId)
+      .maybeSingle()
+
+    if (incidentError || !incident) {
+      console.error('❌ Incident not found:', incidentError?.message || incidentId)
+      return jsonResponse({ error: 'Incident not found' }, 404)
+    }
+
+    // New users plus earlier claims whose push was not sent, so this is safe to retry
+    const { data: recipientRows, error: recipientsError } = await supabaseClient
+      .rpc('claim_incident_proximity_recipients', {
+        p_incident_id: incidentId,
+        p_max_distance_km: MAX_DISTANCE_KM,
+      })
+
+    if (recipientsError) {
+      console.error('❌ Error claiming nearby users:', recipientsError.message)
+      return jsonResponse({ error: 'Failed to claim nearby users', details: recipientsError.message }, 500)
+    }
+
+    const recipients = (recipientRows || []) as ClaimedRecipient[]
+    console.log(`📊 ${recipients.length} user(s) within ${MAX_DISTANCE_KM} km of incident ${incidentId}`)
+
+    const userLanguages = await getUserLanguages(supabaseClient, recipients.map((r) => r.user_id))
+    const dataFor = (recipient: ClaimedRecipient) => ({
+      type: 'incident_proximity',
+      incidentIds: [incidentId],
+      primaryIncidentId: incidentId,
+      distanceKm: recipient.distance_km,
+      alertLevel: getAlertLevel(recipient.distance_km),
+      category: incident.category,
+      priority: recipient.priority,
+      idempotencyKey: recipient.idempotency_key,
+    })
+    const messageFor = (recipient: ClaimedRecipient) =>
+      getPushMessage(`incident_proximity_${getAlertLevel(recipient.distance_km)}`, userLanguages.get(recipient.user_id), {
+        category: incident.category,
+        title: incident.title,
+        distance: recipient.distance_text,
+      })
+
+    // In-app notifications for everyone newly claimed (earlier claims already have one)
+    const newRecipients = recipients.filter((recipient) => !recipient.already_claimed)
+    if (newRecipients.length > 0) {
+      const { error: notificationError } = await supabaseClient
+        .from('notifications')
+        .insert(newRecipients.map((recipient) => ({
+          user_id: recipient.user_id,
+          ...messageFor(recipient),
+          type: 'incident_proximity',
+          data: dataFor(recipient),
+          read: false,
+        })))
+
+      if (notificationError) {
+        console.error('❌ Error inserting proximity notifications:', notificationError.message)
+      }
+    }
+
+    // Push notifications - the text differs per user (distance), so one
+    // request per recipient; over-budget recipients wait for the digest
+    const summary = { recipients: recipients.length, sent: 0, failed: 0, digested: 0 }
+    const pushed: string[] = []
+
+    for (const recipient of recipients) {
+      if (recipient.delivery === 'digest') {
+        summary.digested++
+        continue
+      }
+
+      const message = messageFor(recipient)
+      try {
+        const pushResponse = await fetch(functionUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${supabaseServiceKey}`,
+          },
+          body: JSON.stringify({
+            user_ids: [recipient.user_id],
+            title: message.title,
+            body: message.body,
+            data: { ...dataFor(recipient), timestamp: new Date().toISOString() },
+          }),
+        })
+
+        if (!pushResponse.ok) {
+          console.error(`❌ Error calling send-push-notification for ${recipient.user_id}:`, await pushResponse.text())
+          summary.failed++
+          continue
+        }
+
+        const pushResult = await pushResponse.json()
+        summary.sent += pushResult.sent || 0
+        summary.failed += pushResult.failed || 0
+        if ((pushResult.sent || 0) > 0) pushed.push(recipient.user_id)
+      } catch (pushError: any) {
+        console.error(`❌ Exception sending proximity push to ${recipient.user_id}:`, pushError.message || pushError)
+        summary.failed++
+      }
+    }
+
+    // Recipients left with push_sent = false are pushed again on the next run
+    if (pushed.length > 0) {
+      const { error: pushSentError } = await supabaseClient
+        .from('incident_proximity_notifications')
+        .update({ push_sent: true })
+        .eq('incident_id', incidentId)
+        .in('user_id', pushed)
+
+      if (pushSentError) {
+        console.error('❌ Error marking proximity pushes as sent:', pushSentError.message)
+      }
+    }
+
+    await supabaseClient
+      .from('incident_proximity_dispatches')
+      .upsert({
+        incident_id: incidentId,
+        recipient_count: recipients.length,
+        sent_count: summary.sent,
+        completed_at: new Date().toISOString(),
+      }, { onConflict: 'incident_id' })
+
+    console.log(`✅ Incident ${incidentId}: ${recipients.length} recipient(s), ${summary.sent} push(es) sent, ${summary.digested} added to digest`)
+
+    return jsonResponse({
+      success: true,
+      incidentId,
+      ...summary,
+      timestamp: new Date().toISOString(),
+    })
+  } catch (error: any) {
+    console.error('❌ Error in notify-incident-proximity:', error)
+    return jsonResponse({ error: error.message || 'Internal server error' }, 500)
+  }
+})
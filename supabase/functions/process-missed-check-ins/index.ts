@@ -0,0 +1,367 @@
+// Supabase Edge Function: Process Missed Check-ins
+//
+// Escalates overdue check-ins step by step (see 20260125000000_missed_check_in_escalation.sql):
+//   1. reminder           -> the user themselves
+//   2. emergency_contacts -> check_in_settings.emergency_contacts (after missed_check_in_alert_minutes)
+//   3. connections        -> every connection not already alerted whose circles get check-in alerts
+//                            (after 2x missed_check_in_alert_minutes)
+//
+// Every step is claimed in check_in_escalations before sending, so a step is
+// only ever sent once even if runs overlap.
+//
+// Trips that overran their ETA or stopped reporting are escalated first
+// (see 20260127000000_create_trips.sql): their watchers are alerted and a
+// check-in due now is created, so the ladder above picks them up in the same run.
+//
+// Deploy with: supabase functions deploy process-missed-check-ins
+// Scheduled every 5 minutes via pg_cron
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getPushMessage, getUserLanguages, groupUsersByLanguage } from '../_shared/i18n.ts'
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+type EscalationStep = 'reminder' | 'emergency_contacts' | 'connections'
+
+interface DueEscalation {
+  check_in_id: string
+  user_id: string
+  step: EscalationStep
+  due_at: string
+  emergency_contacts: string[] | null
+}
+
+interface OverdueTrip {
+  trip_id: string
+  user_id: string
+  reason: 'overrun' | 'no_signal'
+  watcher_ids: string[] | null
+}
+
+/**
+ * Escalate overdue trips and push the alert to their watchers
+ * (the in-app notifications are created by escalate_overdue_trips)
+ */
+async function escalateOverdueTrips(
+  supabaseClient: SupabaseClient,
+  functionUrl: string,
+  supabaseServiceKey: string
+): Promise<{ escalated: number; sent: number; failed: number }> {
+  const result = { escalated: 0, sent: 0, failed: 0 }
+
+  const { data, error } = await supabaseClient.rpc('escalate_overdue_trips')
+  if (error) {
+    console.error('❌ Error escalating overdue trips:', error.message)
+    return result
+  }
+
+  for (const trip of (data || []) as OverdueTrip[]) {
+    result.escalated++
+
+    const { data: tripData } = await supabaseClient
+      .from('trips')
+      .select('destination_label, last_latitude, last_longitude')
+      .eq('id', trip.trip_id)
+      .maybeSingle()
+    const { data: userData } = await supabaseClient
+      .from('users')
+      .select('name')
+      .eq('id', trip.user_id)
+      .maybeSingle()
+
+    const params = {
+      name: userData?.name || 'Someone',
+      destination: tripData?.destination_label || '',
+    }
+    const messageKey = trip.reason === 'overrun' ? 'trip_overdue' : 'trip_no_signal'
+    const watcherIds = (trip.watcher_ids || []).filter((id) => typeof id === 'string' && id !== trip.user_id)
+    const userLanguages = await getUserLanguages(supabaseClient, watcherIds)
+
+    for (const [language, languageUserIds] of groupUsersByLanguage(watcherIds, userLanguages)) {
+      const message = getPushMessage(messageKey, language, params)
+      try {
+        const pushResponse = await fetch(functionUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${supabaseServiceKey}`,
+          },
+          body: JSON.stringify({
+            user_ids: languageUserIds,
+            title: message.title,
+            body: message.body,
+            data: {
+              type: 'trip_overdue',
+              tripId: trip.trip_id,
+              reason: trip.reason,
+              userId: trip.user_id,
+              userName: params.name,
+              destination: params.destination,
+              location: tripData?.last_latitude != null
+                ? { latitude: tripData.last_latitude, longitude: tripData.last_longitude }
+                : null,
+              timestamp: new Date().toISOString(),
+            },
+          }),
+        })
+
+        if (!pushResponse.ok) {
+          console.error(`❌ Error calling send-push-notification for trip (${language}):`, await pushResponse.text())
+          result.failed += languageUserIds.length
+          continue
+        }
+
+        const pushResult = await pushResponse.json()
+        result.sent += pushResult.sent || 0
+        result.failed += pushResult.failed || 0
+      } catch (pushError: any) {
+        console.error(`❌ Exception sending trip overdue push (${language}):`, pushError.message || pushError)
+        result.failed += languageUserIds.length
+      }
+    }
+
+    console.log(`🧭 Trip ${trip.trip_id} escalated (${trip.reason}): ${watcherIds.length} watcher(s)`)
+  }
+
+  return result
+}
+
+/**
+ * Get the ids of everyone connected to a user (in either direction) whose
+ * circles get check-in alerts (see 20260202000000_connection_circles.sql)
+ */
+async function getConnectedUserIds(supabaseClient: SupabaseClient, userId: string): Promise<string[]> {
+  const { data, error } = await supabaseClient.rpc('get_circle_recipients', {
+    p_user_id: userId,
+    p_permission: 'check_in',
+  })
+
+  if (error) {
+    console.error('❌ Error fetching connections:', error.message)
+    return []
+  }
+
+  return (data || [])
+    .map((row: any) => row.recipient_id)
+    .filter((id: unknown): id is string => typeof id === 'string' && id !== userId)
+}
+
+/**
+ * Get the recipients for a step (emergency contacts are excluded from the
+ * connections step because they were alerted one step earlier)
+ */
+async function getStepRecipients(supabaseClient: SupabaseClient, escalation: DueEscalation): Promise<string[]> {
+  const emergencyContacts = (escalation.emergency_contacts || []).filter(
+    (id) => typeof id === 'string' && id !== escalation.user_id
+  )
+
+  if (escalation.step === 'reminder') {
+    return [escalation.user_id]
+  }
+
+  if (escalation.step === 'emergency_contacts') {
+    return Array.from(new Set(emergencyContacts))
+  }
+
+  const alreadyAlerted = new Set(emergencyContacts)
+  const connectedUserIds = await getConnectedUserIds(supabaseClient, escalation.user_id)
+  return connectedUserIds.filter((id) => !alreadyAlerted.has(id))
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS })
+  }
+
+  console.log('⏰ Missed check-in escalation called at:', new Date().toISOString())
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('❌ Missing Supabase configuration')
+      return new Response(
+        JSON.stringify({ error: 'Missing Supabase configuration' }),
+        {
+          status: 500,
+          headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+    const functionUrl = `${supabaseUrl}/functions/v1/send-push-notification`
+
+    const trips = await escalateOverdueTrips(supabaseClient, functionUrl, supabaseServiceKey)
+
+    const { data: dueEscalations, error: dueError } = await supabaseClient
+      .rpc('get_due_check_in_escalations')
+
+    if (dueError) {
+      console.error('❌ Error fetching due escalations:', dueError.message)
+      return new Response(
+        JSON.stringify({
+          error: 'Failed to fetch due escalations',
+          details: dueError.message
+        }),
+        {
+          status: 500,
+          headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const escalations = (dueEscalations || []) as DueEscalation[]
+    console.log(`📋 ${escalations.length} escalation step(s) due`)
+
+    const summary = { processed: 0, skipped: 0, sent: 0, failed: 0 }
+    const userNames = new Map<string, string>()
+
+    for (const escalation of escalations) {
+      // Record the step first - if another run already did, skip it
+      const { data: claimed, error: claimError } = await supabaseClient
+        .rpc('claim_check_in_escalation_step', {
+          p_check_in_id: escalation.check_in_id,
+          p_user_id: escalation.user_id,
+          p_step: escalation.step,
+        })
+
+      if (claimError || !claimed) {
+        if (claimError) {
+          console.error('❌ Error claiming escalation step:', claimError.message)
+        }
+        summary.skipped++
+        continue
+      }
+
+      // From the first alert onwards the check-in counts as missed
+      if (escalation.step === 'emergency_contacts') {
+        await supabaseClient
+          .from('user_check_ins')
+          .update({ status: 'missed' })
+          .eq('id', escalation.check_in_id)
+      }
+
+      if (!userNames.has(escalation.user_id)) {
+        const { data: userData } = await supabaseClient
+          .from('users')
+          .select('name')
+          .eq('id', escalation.user_id)
+          .maybeSingle()
+        userNames.set(escalation.user_id, userData?.name || 'Someone')
+      }
+      const userName = userNames.get(escalation.user_id) as string
+
+      const recipientIds = await getStepRecipients(supabaseClient, escalation)
+      const messageKey = escalation.step === 'reminder' ? 'missed_check_in_reminder' : 'missed_check_in_alert'
+      const userLanguages = await getUserLanguages(supabaseClient, recipientIds)
+      const data = {
+        type: 'missed_check_in',
+        escalationStep: escalation.step,
+        checkInId: escalation.check_in_id,
+        userId: escalation.user_id,
+        userName: userName,
+        dueAt: escalation.due_at,
+        timestamp: new Date().toISOString(),
+      }
+
+      // In-app notifications
+      if (recipientIds.length > 0) {
+        const { error: notificationError } = await supabaseClient
+          .from('notifications')
+          .insert(recipientIds.map((recipientId) => ({
+            user_id: recipientId,
+            ...getPushMessage(messageKey, userLanguages.get(recipientId), { name: userName }),
+            type: 'missed_check_in',
+            data: data,
+            read: false,
+          })))
+
+        if (notificationError) {
+          console.error('❌ Error inserting missed check-in notifications:', notificationError.message)
+        }
+      }
+
+      // Push notifications, one request per language
+      let stepSent = 0
+      for (const [language, languageUserIds] of groupUsersByLanguage(recipientIds, userLanguages)) {
+        const message = getPushMessage(messageKey, language, { name: userName })
+        try {
+          const pushResponse = await fetch(functionUrl, {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+              'Authorization': `Bearer ${supabaseServiceKey}`,
+            },
+            body: JSON.stringify({
+              user_ids: languageUserIds,
+              title: message.title,
+              body: message.body,
+              data: data,
+            }),
+          })
+
+          if (!pushResponse.ok) {
+            console.error(`❌ Error calling send-push-notification (${language}):`, await pushResponse.text())
+            summary.failed += languageUserIds.length
+            continue
+          }
+
+          const pushResult = await pushResponse.json()
+          stepSent += pushResult.sent || 0
+          summary.failed += pushResult.failed || 0
+        } catch (pushError: any) {
+          console.error(`❌ Exception sending missed check-in push (${language}):`, pushError.message || pushError)
+          summary.failed += languageUserIds.length
+        }
+      }
+
+      await supabaseClient
+        .from('check_in_escalations')
+        .update({
+          recipient_ids: recipientIds,
+          sent_count: stepSent,
+          completed_at: new Date().toISOString(),
+        })
+        .eq('check_in_id', escalation.check_in_id)
+        .eq('step', escalation.step)
+
+      console.log(`✅ ${escalation.step} for check-in ${escalation.check_in_id}: ${recipientIds.length} recipient(s), ${stepSent} push(es) sent`)
+      summary.processed++
+      summary.sent += stepSent
+    }
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        due: escalations.length,
+        ...summary,
+        trips,
+        timestamp: new Date().toISOString()
+      }),
+      {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+      }
+    )
+  } catch (error: any) {
+    console.error('❌ Error in process-missed-check-ins:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Internal server error',
+        stack: error.stack
+      }),
+      {
+        status: 500,
+        headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
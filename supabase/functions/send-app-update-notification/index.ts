@@ -6,6 +6,8 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getPushMessage, getUserLanguages } from '../_shared/i18n.ts'
+import { filterPushRecipients } from '../_shared/notificationPreferences.ts'
 
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
@@ -164,19 +166,50 @@ serve(async (req) => {
       }
     }
 
-    const uniqueTokens = Array.from(userTokenMap.values())
-    console.log(`✅ Found ${uniqueTokens.length} unique users (${pushTokens.length} total tokens, ${pushTokens.length - uniqueTokens.length} duplicates removed)`)
+    const dedupedTokens = Array.from(userTokenMap.values())
+    console.log(`✅ Found ${dedupedTokens.length} unique users (${pushTokens.length} total tokens, ${pushTokens.length - dedupedTokens.length} duplicates removed)`)
 
-    // Prepare app update notification message
-    const title = '📱 App Update Available'
-    const body = 'A new version of FamGuard is available. Please update to the latest version for the best experience and security features.'
+    // Skip users who muted app_update on the Notification Filters screen
+    const allowedUserIds = await filterPushRecipients(
+      supabaseClient,
+      dedupedTokens.map(token => token.user_id),
+      'app_update'
+    )
+    const uniqueTokens = dedupedTokens.filter(token => allowedUserIds.has(token.user_id))
+    const mutedCount = dedupedTokens.length - uniqueTokens.length
+    if (mutedCount > 0) {
+      console.log(`🔕 ${mutedCount} user(s) muted app_update`)
+    }
+
+    if (uniqueTokens.length === 0) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          sent: 0,
+          failed: 0,
+          muted: mutedCount,
+          total: 0,
+          message: 'All users have muted app_update'
+        }),
+        {
+          status: 200,
+          headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Prepare app update notification message in each user's language
+    const userLanguages = await getUserLanguages(
+      supabaseClient,
+      uniqueTokens.map(token => token.user_id)
+    )
+    const getMessageForUser = (userId: string) => getPushMessage('app_update', userLanguages.get(userId))
 
     // Prepare Expo push notification messages (one per user)
     const messages = uniqueTokens.map(token => ({
       to: token.push_token,
       sound: 'default',
-      title: title,
-      body: body,
+      ...getMessageForUser(token.user_id),
       data: {
         type: 'app_update',
         timestamp: new Date().toISOString(),
@@ -256,8 +289,7 @@ serve(async (req) => {
           const token = uniqueTokens[index]
           return {
             user_id: token.user_id,
-            title: title,
-            body: body,
+            ...getMessageForUser(token.user_id),
             type: 'app_update' as const,
             data: {
               type: 'app_update',
@@ -295,6 +327,7 @@ serve(async (req) => {
         success: true,
         sent: successfulSends,
         failed: failedSends,
+        muted: mutedCount,
         total: uniqueTokens.length,
         notifications_inserted: notificationsInserted,
         message: `App update notification sent to ${successfulSends} users, ${notificationsInserted} notifications inserted`,
@@ -5,6 +5,8 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getPushMessage, getUserLanguages } from '../_shared/i18n.ts'
+import { filterPushRecipients } from '../_shared/notificationPreferences.ts'
 
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
@@ -150,19 +152,50 @@ serve(async (req) => {
       }
     }
 
-    const uniqueTokens = Array.from(userTokenMap.values())
-    console.log(`✅ Found ${uniqueTokens.length} unique users (${pushTokens.length} total tokens, ${pushTokens.length - uniqueTokens.length} duplicates removed)`)
+    const dedupedTokens = Array.from(userTokenMap.values())
+    console.log(`✅ Found ${dedupedTokens.length} unique users (${pushTokens.length} total tokens, ${pushTokens.length - dedupedTokens.length} duplicates removed)`)
 
-    // Prepare afternoon greeting message
-    const title = '☀️ Good Afternoon!'
-    const body = 'FamGuard wishes you a wonderful afternoon. Please always stay safe with FamGuard!'
+    // Skip users who muted afternoon_greeting on the Notification Filters screen
+    const allowedUserIds = await filterPushRecipients(
+      supabaseClient,
+      dedupedTokens.map(token => token.user_id),
+      'afternoon_greeting'
+    )
+    const uniqueTokens = dedupedTokens.filter(token => allowedUserIds.has(token.user_id))
+    const mutedCount = dedupedTokens.length - uniqueTokens.length
+    if (mutedCount > 0) {
+      console.log(`🔕 ${mutedCount} user(s) muted afternoon_greeting`)
+    }
+
+    if (uniqueTokens.length === 0) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          sent: 0,
+          failed: 0,
+          muted: mutedCount,
+          total: 0,
+          message: 'All users have muted afternoon_greeting'
+        }),
+        {
+          status: 200,
+          headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Prepare afternoon greeting message in each user's language
+    const userLanguages = await getUserLanguages(
+      supabaseClient,
+      uniqueTokens.map(token => token.user_id)
+    )
+    const getMessageForUser = (userId: string) => getPushMessage('afternoon_greeting', userLanguages.get(userId))
 
     // Prepare Expo push notification messages (one per user)
     const messages = uniqueTokens.map(token => ({
       to: token.push_token,
       sound: 'default',
-      title: title,
-      body: body,
+      ...getMessageForUser(token.user_id),
       data: {
         type: 'afternoon_greeting',
         timestamp: new Date().toISOString(),
@@ -242,8 +275,7 @@ serve(async (req) => {
           const token = uniqueTokens[index]
           return {
             user_id: token.user_id,
-            title: title,
-            body: body,
+            ...getMessageForUser(token.user_id),
             type: 'general' as const,
             data: {
               type: 'afternoon_greeting',
@@ -310,6 +342,7 @@ serve(async (req) => {
         success: true,
         sent: successfulSends,
         failed: failedSends,
+        muted: mutedCount,
         total: uniqueTokens.length,
         notifications_inserted: notificationsInserted,
         message: `Afternoon greeting sent to ${successfulSends} users, ${notificationsInserted} notifications inserted`,
@@ -0,0 +1,161 @@
+// Supabase Edge Function: Send Incident Digest
+//
+// Batches nearby-incident alerts that were over the recipient's alert budget
+// or too minor for a push of their own (see 20260207000000_incident_alert_budgets.sql)
+// into one push per user. The in-app notifications were created when each
+// incident was reported; this only sends the summary push.
+//
+// claim_incident_digests() stamps the rows it returns, so overlapping runs
+// never send the same incident twice.
+//
+// Deploy with: supabase functions deploy send-incident-digest
+// Scheduled every 3 hours via pg_cron
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { getPushMessage, getUserLanguages } from '../_shared/i18n.ts'
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+}
+
+interface IncidentDigest {
+  user_id: string
+  incident_ids: string[]
+  incident_count: number
+  closest_incident_id: string
+  closest_distance_text: string
+}
+
+serve(async (req) => {
+  // Handle CORS preflight requests
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: CORS_HEADERS })
+  }
+
+  console.log('📋 Incident digest called at:', new Date().toISOString())
+
+  try {
+    const supabaseUrl = Deno.env.get('SUPABASE_URL') ?? ''
+    const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+
+    if (!supabaseUrl || !supabaseServiceKey) {
+      console.error('❌ Missing Supabase configuration')
+      return new Response(
+        JSON.stringify({ error: 'Missing Supabase configuration' }),
+        {
+          status: 500,
+          headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    // Only the pg_cron job (service role) may send digests
+    const authHeader = req.headers.get('authorization') || ''
+    if (authHeader !== `Bearer ${supabaseServiceKey}`) {
+      return new Response(
+        JSON.stringify({ error: 'Unauthorized' }),
+        {
+          status: 401,
+          headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const supabaseClient = createClient(supabaseUrl, supabaseServiceKey)
+    const functionUrl = `${supabaseUrl}/functions/v1/send-push-notification`
+
+    const { data: digestRows, error: digestError } = await supabaseClient
+      .rpc('claim_incident_digests')
+
+    if (digestError) {
+      console.error('❌ Error claiming incident digests:', digestError.message)
+      return new Response(
+        JSON.stringify({
+          error: 'Failed to claim incident digests',
+          details: digestError.message
+        }),
+        {
+          status: 500,
+          headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
+    const digests = (digestRows || []) as IncidentDigest[]
+    console.log(`📋 ${digests.length} user(s) with pending incident digests`)
+
+    const userLanguages = await getUserLanguages(supabaseClient, digests.map((d) => d.user_id))
+    const summary = { users: digests.length, sent: 0, failed: 0 }
+
+    // The count and distance differ per user, so one request per recipient
+    for (const digest of digests) {
+      const message = getPushMessage('incident_digest', userLanguages.get(digest.user_id), {
+        count: digest.incident_count,
+        distance: digest.closest_distance_text,
+      })
+
+      try {
+        const pushResponse = await fetch(functionUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${supabaseServiceKey}`,
+          },
+          body: JSON.stringify({
+            user_ids: [digest.user_id],
+            title: message.title,
+            body: message.body,
+            data: {
+              type: 'incident_proximity',
+              digest: true,
+              incidentIds: digest.incident_ids,
+              primaryIncidentId: digest.closest_incident_id,
+              timestamp: new Date().toISOString(),
+            },
+          }),
+        })
+
+        if (!pushResponse.ok) {
+          console.error(`❌ Error calling send-push-notification for ${digest.user_id}:`, await pushResponse.text())
+          summary.failed++
+          continue
+        }
+
+        const pushResult = await pushResponse.json()
+        summary.sent += pushResult.sent || 0
+        summary.failed += pushResult.failed || 0
+      } catch (pushError: any) {
+        console.error(`❌ Exception sending incident digest to ${digest.user_id}:`, pushError.message || pushError)
+        summary.failed++
+      }
+    }
+
+    console.log(`✅ Incident digests: ${summary.sent} push(es) sent, ${summary.failed} failed`)
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        ...summary,
+        timestamp: new Date().toISOString()
+      }),
+      {
+        status: 200,
+        headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+      }
+    )
+  } catch (error: any) {
+    console.error('❌ Error in send-incident-digest:', error)
+    return new Response(
+      JSON.stringify({
+        error: error.message || 'Internal server error',
+        stack: error.stack
+      }),
+      {
+        status: 500,
+        headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+      }
+    )
+  }
+})
@@ -4,12 +4,31 @@
 
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { filterPushRecipients } from '../_shared/notificationPreferences.ts'
 
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 }
 
+// Notification types that always alert, even during the recipient's sleep window
+// and regardless of their notification filters (so do backend pushes sent with
+// data.priority 'critical')
+const CRITICAL_NOTIFICATION_TYPES = [
+  'sos_alert',
+  'check_in_emergency',
+  'check_in_unsafe',
+  'missed_check_in',
+  'trip_overdue',
+]
+
+// Action buttons registered by the app (pushNotificationService). A silent SOS
+// has no "Call" - the sender's phone may be watched.
+const getCategoryId = (data?: Record<string, any>): string | undefined => {
+  if (data?.type !== 'sos_alert') return undefined
+  return data?.silentDuress ? 'sos_alert_silent' : 'sos_alert'
+}
+
 interface PushNotificationRequest {
   user_ids: string[]
   title: string
@@ -104,15 +123,62 @@ serve(async (req) => {
       )
     }
 
+    // Critical: a critical type, or an alert the backend marked critical
+    // (e.g. a severe incident close by). Clients can't mark their own pushes.
+    const isServiceRequest = req.headers.get('authorization') === `Bearer ${supabaseServiceKey}`
+    const isCritical = CRITICAL_NOTIFICATION_TYPES.includes(data?.type)
+      || (isServiceRequest && data?.priority === 'critical')
+
+    // Notification filters: drop recipients who muted this type or this sender
+    // (critical pushes are never filtered)
+    const allowedUserIds = isCritical
+      ? new Set(user_ids)
+      : await filterPushRecipients(
+        supabaseClient,
+        user_ids,
+        data?.type ?? null,
+        data?.userId ?? null
+      )
+    const recipientIds = user_ids.filter(id => allowedUserIds.has(id))
+    const mutedCount = user_ids.length - recipientIds.length
+
+    // Per-recipient outcome, so callers (e.g. the SOS outbox) can retry or report per person
+    const recipients: Record<string, 'sent' | 'failed' | 'no_token' | 'muted'> = {}
+    user_ids.forEach(id => {
+      recipients[id] = allowedUserIds.has(id) ? 'no_token' : 'muted'
+    })
+
+    if (mutedCount > 0) {
+      console.log(`🔕 ${mutedCount} recipient(s) muted ${data?.type || 'this notification'}`)
+    }
+
+    if (recipientIds.length === 0) {
+      return new Response(
+        JSON.stringify({
+          success: true,
+          sent: 0,
+          failed: 0,
+          muted: mutedCount,
+          total: user_ids.length,
+          recipients,
+          message: 'All recipients have muted this notification',
+        }),
+        {
+          status: 200,
+          headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' }
+        }
+      )
+    }
+
     // Log which users we're looking for
-    console.log('Looking for push tokens for users:', user_ids)
-    console.log('Total users requested:', user_ids.length)
+    console.log('Looking for push tokens for users:', recipientIds)
+    console.log('Total users requested:', recipientIds.length)
 
     // Fetch push tokens for all user IDs
     const { data: pushTokens, error: tokensError } = await supabaseClient
       .from('user_push_tokens')
       .select('push_token, platform, user_id')
-      .in('user_id', user_ids)
+      .in('user_id', recipientIds)
 
     if (tokensError) {
       console.error('Error fetching push tokens:', tokensError)
@@ -128,7 +194,7 @@ serve(async (req) => {
       )
     }
 
-    console.log('Found push tokens:', pushTokens?.length || 0, 'out of', user_ids.length, 'requested users')
+    console.log('Found push tokens:', pushTokens?.length || 0, 'out of', recipientIds.length, 'requested users')
     
     if (pushTokens && pushTokens.length > 0) {
       console.log('Token details:', pushTokens.map(t => ({
@@ -139,22 +205,23 @@ serve(async (req) => {
     }
 
     // Find which users don't have tokens
-    if (pushTokens && pushTokens.length < user_ids.length) {
+    if (pushTokens && pushTokens.length < recipientIds.length) {
       const foundUserIds = new Set(pushTokens.map(t => t.user_id))
-      const missingUserIds = user_ids.filter(id => !foundUserIds.has(id))
+      const missingUserIds = recipientIds.filter(id => !foundUserIds.has(id))
       console.warn('Users without push tokens:', missingUserIds)
     }
 
     if (!pushTokens || pushTokens.length === 0) {
-      console.log('No push tokens found for users:', user_ids)
+      console.log('No push tokens found for users:', recipientIds)
       return new Response(
         JSON.stringify({ 
           success: true,
           sent: 0,
           failed: 0,
-          total: user_ids.length,
-          message: `No push tokens found for the specified users (${user_ids.length} users requested)`,
-          requested_users: user_ids,
+          total: recipientIds.length,
+          recipients,
+          message: `No push tokens found for the specified users (${recipientIds.length} users requested)`,
+          requested_users: recipientIds,
           found_tokens: 0
         }),
         { 
@@ -164,16 +231,50 @@ serve(async (req) => {
       )
     }
 
+    // Sleep mode: non-critical pushes are delivered quietly to users in their sleep window
+    let sleepingUserIds = new Set<string>()
+    if (!isCritical) {
+      const { data: sleepingUsers, error: sleepError } = await supabaseClient
+        .rpc('get_users_in_sleep_mode', { p_user_ids: recipientIds })
+
+      if (sleepError) {
+        // Don't block delivery if the check fails - send normally
+        console.warn('Error checking sleep mode, sending normally:', sleepError.message)
+      } else {
+        sleepingUserIds = new Set((sleepingUsers || []).map((row: any) => row.user_id))
+        if (sleepingUserIds.size > 0) {
+          console.log(`😴 ${sleepingUserIds.size} recipient(s) in sleep mode - sending quietly`)
+        }
+      }
+    }
+
     // Prepare Expo push notification messages
-    const messages = pushTokens.map(token => ({
-      to: token.push_token,
-      sound: 'default',
-      title: title,
-      body: body,
-      data: data || {},
-      priority: 'high',
-      channelId: 'emergency-alerts', // Android channel
-    }))
+    const categoryId = getCategoryId(data)
+    const messages = pushTokens.map(token => {
+      if (sleepingUserIds.has(token.user_id)) {
+        return {
+          to: token.push_token,
+          title: title,
+          body: body,
+          data: { ...(data || {}), quietHours: true },
+          priority: 'normal',
+          channelId: 'quiet-hours', // Android channel without sound/vibration
+          interruptionLevel: 'passive', // iOS: don't light up the screen or play a sound
+        }
+      }
+
+      return {
+        to: token.push_token,
+        sound: 'default',
+        title: title,
+        body: body,
+        data: data || {},
+        priority: 'high',
+        channelId: 'emergency-alerts', // Android channel
+        ...(categoryId && { categoryId }),
+      }
+    })
+    const quietSends = pushTokens.filter(token => sleepingUserIds.has(token.user_id)).length
 
     // Send push notifications via Expo Push Notification API
     const expoPushUrl = 'https://exp.host/--/api/v2/push/send'
@@ -226,12 +327,25 @@ serve(async (req) => {
 
     console.log(`Successfully sent ${successfulSends} push notifications, ${failedSends} failed`)
 
+    // Expo returns one ticket per message, in order; a user counts as sent if any device got it
+    pushTokens.forEach((token, index) => {
+      const status = pushResult.data?.[index]?.status
+      if (status === 'ok') {
+        recipients[token.user_id] = 'sent'
+      } else if (recipients[token.user_id] !== 'sent') {
+        recipients[token.user_id] = 'failed'
+      }
+    })
+
     return new Response(
       JSON.stringify({ 
         success: true,
         sent: successfulSends,
         failed: failedSends,
+        quiet: quietSends,
+        muted: mutedCount,
         total: pushTokens.length,
+        recipients,
         results: pushResult.data
       }),
       { 
@@ -0,0 +1,448 @@
+-- ============================================
+-- Migration: Geofenced places with arrive/leave alerts
+-- ============================================
+-- Users define named places (home, school, work, ...) as a circle or polygon.
+-- Whenever a connection who shares their location with the place owner
+-- crosses the boundary, the owner gets a place_arrival / place_departure
+-- notification.
+--
+-- Transitions are detected in two ways:
+--   1. AFTER INSERT trigger on location_history (covers every history insert)
+--   2. process_place_transitions() RPC, called by the app (foreground and
+--      background task) for the signed-in user's positions that are not
+--      written to history
+-- Both paths go through process_place_transitions_for_user and the
+-- place_presence table, so a transition is only ever recorded (and notified)
+-- once.
+
+-- ============================================
+-- Places table
+-- ============================================
+CREATE TABLE IF NOT EXISTS places (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  owner_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  category TEXT NOT NULL DEFAULT 'other' CHECK (category IN ('home', 'school', 'work', 'other')),
+  shape TEXT NOT NULL DEFAULT 'circle' CHECK (shape IN ('circle', 'polygon')),
+  -- Center is required for both shapes (polygon centroid is used for map display)
+  center_latitude DOUBLE PRECISION NOT NULL,
+  center_longitude DOUBLE PRECISION NOT NULL,
+  radius_meters DOUBLE PRECISION,
+  -- Polygon vertices: [{"latitude": 0.0, "longitude": 0.0}, ...]
+  polygon JSONB,
+  notify_on_arrival BOOLEAN DEFAULT true,
+  notify_on_departure BOOLEAN DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  CONSTRAINT places_shape_check CHECK (
+    (shape = 'circle' AND radius_meters IS NOT NULL AND radius_meters > 0)
+    OR (shape = 'polygon' AND polygon IS NOT NULL AND jsonb_array_length(polygon) >= 3)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_places_owner_id ON places(owner_id);
+
+DROP TRIGGER IF EXISTS update_places_updated_at ON places;
+CREATE TRIGGER update_places_updated_at
+  BEFORE UPDATE ON places
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- Place presence (last known inside/outside state per place and user)
+-- ============================================
+CREATE TABLE IF NOT EXISTS place_presence (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  place_id UUID NOT NULL REFERENCES places(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  is_inside BOOLEAN NOT NULL,
+  entered_at TIMESTAMP WITH TIME ZONE,
+  exited_at TIMESTAMP WITH TIME ZONE,
+  last_checked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(place_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_place_presence_user_id ON place_presence(user_id);
+CREATE INDEX IF NOT EXISTS idx_place_presence_place_id ON place_presence(place_id);
+
+DROP TRIGGER IF EXISTS update_place_presence_updated_at ON place_presence;
+CREATE TRIGGER update_place_presence_updated_at
+  BEFORE UPDATE ON place_presence
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- RLS
+-- ============================================
+ALTER TABLE places ENABLE ROW LEVEL SECURITY;
+ALTER TABLE place_presence ENABLE ROW LEVEL SECURITY;
+
+-- Owners manage their own places
+DROP POLICY IF EXISTS "Allow all operations on places" ON places;
+DROP POLICY IF EXISTS "Users can manage their own places" ON places;
+CREATE POLICY "Users can manage their own places"
+  ON places FOR ALL
+  USING (owner_id = auth.uid()::TEXT)
+  WITH CHECK (owner_id = auth.uid()::TEXT);
+
+-- Connections of the owner can see the places (read only)
+DROP POLICY IF EXISTS "Connections can view places" ON places;
+CREATE POLICY "Connections can view places"
+  ON places FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM connections c
+    WHERE c.status = 'connected'
+      AND (
+        (c.user_id = places.owner_id AND c.connected_user_id = auth.uid()::TEXT)
+        OR (c.user_id = auth.uid()::TEXT AND c.connected_user_id = places.owner_id)
+      )
+  ));
+
+-- Presence is written only by process_place_transitions_for_user; the place
+-- owner and the tracked user can read it
+DROP POLICY IF EXISTS "Allow all operations on place_presence" ON place_presence;
+DROP POLICY IF EXISTS "Users can view presence at their places" ON place_presence;
+CREATE POLICY "Users can view presence at their places"
+  ON place_presence FOR SELECT
+  USING (
+    user_id = auth.uid()::TEXT
+    OR EXISTS (
+      SELECT 1 FROM places p
+      WHERE p.id = place_presence.place_id
+        AND p.owner_id = auth.uid()::TEXT
+    )
+  );
+
+GRANT ALL ON places TO authenticated;
+GRANT ALL ON places TO service_role;
+GRANT SELECT ON place_presence TO authenticated;
+REVOKE INSERT, UPDATE, DELETE ON place_presence FROM authenticated;
+GRANT ALL ON place_presence TO service_role;
+
+-- ============================================
+-- Geometry helpers
+-- ============================================
+
+-- Function: Ray-casting point-in-polygon test
+-- p_polygon is a JSONB array of {latitude, longitude} vertices
+CREATE OR REPLACE FUNCTION is_point_in_polygon(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_polygon JSONB
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  vertex_count INTEGER;
+  i INTEGER;
+  j INTEGER;
+  lat_i DOUBLE PRECISION;
+  lon_i DOUBLE PRECISION;
+  lat_j DOUBLE PRECISION;
+  lon_j DOUBLE PRECISION;
+  inside BOOLEAN := false;
+BEGIN
+  IF p_polygon IS NULL OR jsonb_typeof(p_polygon) <> 'array' THEN
+    RETURN false;
+  END IF;
+
+  vertex_count := jsonb_array_length(p_polygon);
+  IF vertex_count < 3 THEN
+    RETURN false;
+  END IF;
+
+  j := vertex_count - 1;
+  FOR i IN 0..vertex_count - 1 LOOP
+    lat_i := (p_polygon->i->>'latitude')::DOUBLE PRECISION;
+    lon_i := (p_polygon->i->>'longitude')::DOUBLE PRECISION;
+    lat_j := (p_polygon->j->>'latitude')::DOUBLE PRECISION;
+    lon_j := (p_polygon->j->>'longitude')::DOUBLE PRECISION;
+
+    IF ((lat_i > p_latitude) <> (lat_j > p_latitude))
+      AND (p_longitude < (lon_j - lon_i) * (p_latitude - lat_i) / (lat_j - lat_i) + lon_i) THEN
+      inside := NOT inside;
+    END IF;
+
+    j := i;
+  END LOOP;
+
+  RETURN inside;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function: Check whether a point is inside a place
+-- p_buffer_meters grows circles slightly so GPS jitter at the edge does not
+-- flap between arrival and departure (used when the user is currently inside)
+CREATE OR REPLACE FUNCTION is_point_in_place(
+  p_place places,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_buffer_meters DOUBLE PRECISION DEFAULT 0
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  IF p_place.shape = 'polygon' THEN
+    RETURN is_point_in_polygon(p_latitude, p_longitude, p_place.polygon);
+  END IF;
+
+  RETURN calculate_distance(
+    p_latitude,
+    p_longitude,
+    p_place.center_latitude,
+    p_place.center_longitude
+  ) * 1000 <= p_place.radius_meters + p_buffer_meters;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- ============================================
+-- Transition detection
+-- ============================================
+
+-- Function: Detect place transitions for a user at a position (internal)
+-- Used by the location_history trigger and by the backend (service role);
+-- clients go through process_place_transitions. Checks every place owned by someone the user shares their location with,
+-- updates place_presence and inserts a notification for the place owner on
+-- each arrival/departure. Returns the transitions so the caller can send
+-- push notifications.
+-- The first position seen for a place only records the initial state; no
+-- alert is sent for it.
+CREATE OR REPLACE FUNCTION process_place_transitions_for_user(
+  p_user_id TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  place_id UUID,
+  place_name TEXT,
+  owner_id TEXT,
+  transition TEXT,
+  title TEXT,
+  body TEXT
+) AS $$
+DECLARE
+  v_place places;
+  v_previous BOOLEAN;
+  v_inside BOOLEAN;
+  v_user_name TEXT;
+  v_transition TEXT;
+  v_title TEXT;
+  v_body TEXT;
+  -- Hysteresis for circular places, in meters
+  v_exit_buffer DOUBLE PRECISION := 30;
+BEGIN
+  IF p_user_id IS NULL OR p_latitude IS NULL OR p_longitude IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Ignore very inaccurate fixes, they cause false arrivals/departures
+  IF p_accuracy IS NOT NULL AND p_accuracy > 200 THEN
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(u.name, 'Someone') INTO v_user_name
+  FROM users u
+  WHERE u.id = p_user_id;
+  v_user_name := COALESCE(v_user_name, 'Someone');
+
+  FOR v_place IN
+    SELECT DISTINCT p.*
+    FROM places p
+    INNER JOIN connections c
+      ON c.user_id = p.owner_id
+      AND c.connected_user_id = p_user_id
+      AND c.status = 'connected'
+      AND COALESCE(c.location_sharing_enabled, true) = true
+  LOOP
+    SELECT pp.is_inside INTO v_previous
+    FROM place_presence pp
+    WHERE pp.place_id = v_place.id
+      AND pp.user_id = p_user_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      v_inside := is_point_in_place(v_place, p_latitude, p_longitude, 0);
+      INSERT INTO place_presence (place_id, user_id, is_inside, entered_at)
+      VALUES (v_place.id, p_user_id, v_inside, CASE WHEN v_inside THEN NOW() ELSE NULL END)
+      ON CONFLICT ON CONSTRAINT place_presence_place_id_user_id_key DO NOTHING;
+      CONTINUE;
+    END IF;
+
+    v_inside := is_point_in_place(
+      v_place,
+      p_latitude,
+      p_longitude,
+      CASE WHEN v_previous THEN v_exit_buffer ELSE 0 END
+    );
+
+    IF v_inside = v_previous THEN
+      UPDATE place_presence
+      SET last_checked_at = NOW()
+      WHERE place_presence.place_id = v_place.id
+        AND place_presence.user_id = p_user_id;
+      CONTINUE;
+    END IF;
+
+    UPDATE place_presence
+    SET is_inside = v_inside,
+        entered_at = CASE WHEN v_inside THEN NOW() ELSE place_presence.entered_at END,
+        exited_at = CASE WHEN v_inside THEN place_presence.exited_at ELSE NOW() END,
+        last_checked_at = NOW()
+    WHERE place_presence.place_id = v_place.id
+      AND place_presence.user_id = p_user_id;
+
+    IF v_inside THEN
+      IF NOT COALESCE(v_place.notify_on_arrival, true) THEN
+        CONTINUE;
+      END IF;
+      v_transition := 'place_arrival';
+      v_title := '📍 ' || v_user_name || ' arrived at ' || v_place.name;
+      v_body := v_user_name || ' has arrived at ' || v_place.name || '.';
+    ELSE
+      IF NOT COALESCE(v_place.notify_on_departure, true) THEN
+        CONTINUE;
+      END IF;
+      v_transition := 'place_departure';
+      v_title := '🚶 ' || v_user_name || ' left ' || v_place.name;
+      v_body := v_user_name || ' has left ' || v_place.name || '.';
+    END IF;
+
+    INSERT INTO notifications (user_id, title, body, type, data)
+    VALUES (
+      v_place.owner_id,
+      v_title,
+      v_body,
+      v_transition,
+      jsonb_build_object(
+        'type', v_transition,
+        'placeId', v_place.id,
+        'placeName', v_place.name,
+        'placeCategory', v_place.category,
+        'userId', p_user_id,
+        'userName', v_user_name,
+        'location', jsonb_build_object(
+          'latitude', p_latitude,
+          'longitude', p_longitude
+        ),
+        'timestamp', NOW()
+      )
+    );
+
+    place_id := v_place.id;
+    place_name := v_place.name;
+    owner_id := v_place.owner_id;
+    transition := v_transition;
+    title := v_title;
+    body := v_body;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal helper: not callable by clients (would let anyone report positions
+-- for another user)
+REVOKE ALL ON FUNCTION process_place_transitions_for_user(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION process_place_transitions_for_user(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO service_role;
+
+-- Function: Detect place transitions for the current user's position
+-- p_user_id must be the signed-in user (auth.uid()); it is kept so the app can
+-- pass its own id explicitly.
+CREATE OR REPLACE FUNCTION process_place_transitions(
+  p_user_id TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  place_id UUID,
+  place_name TEXT,
+  owner_id TEXT,
+  transition TEXT,
+  title TEXT,
+  body TEXT
+) AS $$
+DECLARE
+  v_user_id TEXT;
+BEGIN
+  v_user_id := auth.uid()::TEXT;
+
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_user_id IS NOT NULL AND p_user_id <> v_user_id THEN
+    RAISE EXCEPTION 'Cannot report place transitions for another user'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN QUERY
+  SELECT * FROM process_place_transitions_for_user(v_user_id, p_latitude, p_longitude, p_accuracy);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION process_place_transitions(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION process_place_transitions(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
+
+-- Trigger function: run transition detection for every location_history insert
+-- Errors are swallowed so a geofence problem can never block a location insert
+CREATE OR REPLACE FUNCTION handle_location_history_place_transitions()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM * FROM process_place_transitions_for_user(NEW.user_id, NEW.latitude, NEW.longitude, NEW.accuracy);
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Place transition check failed for user %: %', NEW.user_id, SQLERRM;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS location_history_place_transitions ON location_history;
+CREATE TRIGGER location_history_place_transitions
+  AFTER INSERT ON location_history
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_location_history_place_transitions();
+
+-- ============================================
+-- Notification types
+-- ============================================
+
+-- Drop ALL existing type constraints (they might have different names)
+DO $$
+DECLARE
+    r RECORD;
+BEGIN
+    FOR r IN (
+        SELECT constraint_name
+        FROM information_schema.table_constraints
+        WHERE table_name = 'notifications'
+        AND constraint_type = 'CHECK'
+        AND constraint_name LIKE '%type%'
+    ) LOOP
+        EXECUTE 'ALTER TABLE notifications DROP CONSTRAINT IF EXISTS ' || quote_ident(r.constraint_name);
+    END LOOP;
+END $$;
+
+-- Re-add the constraint with all notification types, including place alerts
+-- (incident_proximity and location_reminder are restored here as well)
+ALTER TABLE notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'sos_alert',
+    'connection_added',
+    'location_updated',
+    'incident',
+    'incident_proximity',
+    'location_reminder',
+    'check_in',
+    'check_in_emergency',
+    'check_in_unsafe',
+    'missed_check_in',
+    'travel_advisory',
+    'route_risk',
+    'general',
+    'app_update',
+    'place_arrival',
+    'place_departure'
+  ));
@@ -0,0 +1,76 @@
+-- ============================================
+-- Migration: Enforce sleep mode (quiet hours)
+-- ============================================
+-- sleep_mode_start_time / sleep_mode_end_time are wall-clock times in the
+-- user's own time zone, so the time zone is stored alongside them.
+-- send-push-notification uses get_users_in_sleep_mode() to deliver
+-- non-critical pushes quietly during the window.
+
+ALTER TABLE user_settings
+ADD COLUMN IF NOT EXISTS timezone TEXT DEFAULT 'UTC';
+
+-- Function: Check whether a user is currently inside their sleep window
+-- Handles windows that cross midnight (e.g. 22:00 - 07:00).
+-- Unknown/invalid time zones fall back to UTC.
+CREATE OR REPLACE FUNCTION is_user_in_sleep_mode(
+  p_user_id TEXT,
+  p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_settings RECORD;
+  v_local_time TIME;
+BEGIN
+  SELECT sleep_mode_enabled, sleep_mode_start_time, sleep_mode_end_time, timezone
+  INTO v_settings
+  FROM user_settings
+  WHERE user_id = p_user_id
+  LIMIT 1;
+
+  IF NOT FOUND
+    OR NOT COALESCE(v_settings.sleep_mode_enabled, false)
+    OR v_settings.sleep_mode_start_time IS NULL
+    OR v_settings.sleep_mode_end_time IS NULL
+    OR v_settings.sleep_mode_start_time = v_settings.sleep_mode_end_time THEN
+    RETURN false;
+  END IF;
+
+  BEGIN
+    v_local_time := (p_at AT TIME ZONE COALESCE(NULLIF(v_settings.timezone, ''), 'UTC'))::TIME;
+  EXCEPTION
+    WHEN OTHERS THEN
+      v_local_time := (p_at AT TIME ZONE 'UTC')::TIME;
+  END;
+
+  IF v_settings.sleep_mode_start_time < v_settings.sleep_mode_end_time THEN
+    -- Same-day window (e.g. 13:00 - 15:00)
+    RETURN v_local_time >= v_settings.sleep_mode_start_time
+      AND v_local_time < v_settings.sleep_mode_end_time;
+  END IF;
+
+  -- Overnight window (e.g. 22:00 - 07:00)
+  RETURN v_local_time >= v_settings.sleep_mode_start_time
+    OR v_local_time < v_settings.sleep_mode_end_time;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function: Return which of the given users are currently in their sleep window
+CREATE OR REPLACE FUNCTION get_users_in_sleep_mode(p_user_ids TEXT[])
+RETURNS TABLE(user_id TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT us.user_id
+  FROM user_settings us
+  WHERE us.user_id = ANY(p_user_ids)
+    AND us.sleep_mode_enabled = true
+    AND is_user_in_sleep_mode(us.user_id);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION is_user_in_sleep_mode(TEXT, TIMESTAMP WITH TIME ZONE) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_user_in_sleep_mode(TEXT, TIMESTAMP WITH TIME ZONE) TO service_role;
+GRANT EXECUTE ON FUNCTION get_users_in_sleep_mode(TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_users_in_sleep_mode(TEXT[]) TO service_role;
+
+-- Note: To check a user's current state, execute:
+-- SELECT is_user_in_sleep_mode('user-id-here');
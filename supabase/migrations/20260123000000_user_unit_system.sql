@@ -0,0 +1,63 @@
+-- ============================================
+-- Migration: Format distances in the user's unit system
+-- ============================================
+-- user_settings.units ('metric' | 'imperial') is chosen on the Units screen.
+-- Notification text generated in the database should use
+-- format_distance_for_user() instead of hard-coding km.
+-- Client-side equivalent: formatDistance() in src/utils/units.ts.
+
+-- Function: Get a user's unit system (defaults to metric)
+CREATE OR REPLACE FUNCTION get_user_unit_system(p_user_id TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_units TEXT;
+BEGIN
+  SELECT units INTO v_units
+  FROM user_settings
+  WHERE user_id = p_user_id
+  LIMIT 1;
+
+  IF v_units = 'imperial' THEN
+    RETURN 'imperial';
+  END IF;
+  RETURN 'metric';
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function: Format a distance given in km for a user, e.g. '2.4 km' / '1.5 mi'
+-- Short distances are shown in meters / feet.
+CREATE OR REPLACE FUNCTION format_distance_for_user(
+  p_user_id TEXT,
+  p_distance_km DOUBLE PRECISION,
+  p_decimals INTEGER DEFAULT 1
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_miles DOUBLE PRECISION;
+BEGIN
+  IF p_distance_km IS NULL THEN
+    RETURN '';
+  END IF;
+
+  IF get_user_unit_system(p_user_id) = 'imperial' THEN
+    v_miles := p_distance_km / 1.609344;
+    IF v_miles < 0.1 THEN
+      RETURN ROUND(v_miles * 5280)::TEXT || ' ft';
+    END IF;
+    RETURN ROUND(v_miles::NUMERIC, p_decimals)::TEXT || ' mi';
+  END IF;
+
+  IF p_distance_km < 0.1 THEN
+    RETURN ROUND(p_distance_km * 1000)::TEXT || ' m';
+  END IF;
+  RETURN ROUND(p_distance_km::NUMERIC, p_decimals)::TEXT || ' km';
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION get_user_unit_system(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_user_unit_system(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION format_distance_for_user(TEXT, DOUBLE PRECISION, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION format_distance_for_user(TEXT, DOUBLE PRECISION, INTEGER) TO service_role;
+
+-- Note: To preview a user's formatting, execute:
+-- SELECT format_distance_for_user('user-id-here', 3.2);
@@ -0,0 +1,95 @@
+-- ============================================
+-- Migration: Per-type and per-connection notification preferences
+-- ============================================
+-- Users can mute individual push types (e.g. morning_greeting) and individual
+-- connections from the Notification Filters screen. Only explicit choices are
+-- stored; a missing row means "enabled".
+--
+--   scope = 'type'       -> target is a push data.type ('morning_greeting', 'incident', ...)
+--   scope = 'connection' -> target is the sender's user id (data.userId)
+--
+-- Critical safety types can never be muted. The same list lives in
+-- send-push-notification (CRITICAL_NOTIFICATION_TYPES) and
+-- src/services/notificationPreferencesService.ts.
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  scope TEXT NOT NULL CHECK (scope IN ('type', 'connection')),
+  target TEXT NOT NULL,
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(user_id, scope, target)
+);
+
+CREATE INDEX IF NOT EXISTS idx_notification_preferences_user_id ON notification_preferences(user_id);
+
+DROP TRIGGER IF EXISTS update_notification_preferences_updated_at ON notification_preferences;
+CREATE TRIGGER update_notification_preferences_updated_at
+  BEFORE UPDATE ON notification_preferences
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on notification_preferences" ON notification_preferences;
+CREATE POLICY "Allow all operations on notification_preferences"
+  ON notification_preferences FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON notification_preferences TO authenticated;
+GRANT ALL ON notification_preferences TO service_role;
+
+-- Function: Whether a notification type bypasses user preferences
+CREATE OR REPLACE FUNCTION is_critical_notification_type(p_notification_type TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN p_notification_type IN (
+    'sos_alert',
+    'check_in_emergency',
+    'check_in_unsafe',
+    'missed_check_in'
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function: Return which of the given users still want this push
+-- Users who muted the type, or muted the sending connection, are left out.
+-- Critical types are returned for everyone.
+CREATE OR REPLACE FUNCTION filter_push_recipients(
+  p_user_ids TEXT[],
+  p_notification_type TEXT DEFAULT NULL,
+  p_sender_id TEXT DEFAULT NULL
+)
+RETURNS TABLE(user_id TEXT) AS $$
+BEGIN
+  IF is_critical_notification_type(p_notification_type) THEN
+    RETURN QUERY SELECT DISTINCT u FROM unnest(p_user_ids) AS u;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT DISTINCT u
+  FROM unnest(p_user_ids) AS u
+  WHERE NOT EXISTS (
+    SELECT 1
+    FROM notification_preferences np
+    WHERE np.user_id = u
+      AND np.enabled = false
+      AND (
+        (np.scope = 'type' AND np.target = p_notification_type)
+        OR (np.scope = 'connection' AND np.target = p_sender_id)
+      )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+GRANT EXECUTE ON FUNCTION is_critical_notification_type(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION is_critical_notification_type(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION filter_push_recipients(TEXT[], TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION filter_push_recipients(TEXT[], TEXT, TEXT) TO service_role;
+
+-- Note: To preview who would receive a greeting, execute:
+-- SELECT * FROM filter_push_recipients(ARRAY['user-a', 'user-b'], 'morning_greeting');
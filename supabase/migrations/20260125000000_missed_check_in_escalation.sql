@@ -0,0 +1,176 @@
+-- ============================================
+-- Migration: Missed check-in escalation ladder
+-- ============================================
+-- When a user's latest check-in passes next_check_in_due_at without a newer
+-- check-in, the process-missed-check-ins Edge Function escalates in steps:
+--
+--   1. reminder            at due time                       -> the user
+--   2. emergency_contacts  after missed_check_in_alert_minutes -> check_in_settings.emergency_contacts
+--   3. connections         after 2x missed_check_in_alert_minutes -> all connections
+--
+-- Each step is recorded in check_in_escalations before anything is sent
+-- (UNIQUE(check_in_id, step)), so overlapping runs never double-send.
+-- A new check-in ends the ladder because only the latest check-in is considered.
+
+-- ============================================
+-- Escalation steps table
+-- ============================================
+CREATE TABLE IF NOT EXISTS check_in_escalations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  check_in_id UUID NOT NULL REFERENCES user_check_ins(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  step TEXT NOT NULL CHECK (step IN ('reminder', 'emergency_contacts', 'connections')),
+  recipient_ids JSONB DEFAULT '[]'::jsonb,
+  sent_count INTEGER DEFAULT 0,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(check_in_id, step)
+);
+
+CREATE INDEX IF NOT EXISTS idx_check_in_escalations_user_id ON check_in_escalations(user_id);
+CREATE INDEX IF NOT EXISTS idx_check_in_escalations_check_in_id ON check_in_escalations(check_in_id);
+
+ALTER TABLE check_in_escalations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on check_in_escalations" ON check_in_escalations;
+CREATE POLICY "Allow all operations on check_in_escalations"
+  ON check_in_escalations FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON check_in_escalations TO authenticated;
+GRANT ALL ON check_in_escalations TO service_role;
+
+-- ============================================
+-- Functions
+-- ============================================
+
+-- Function: List escalation steps that are due and not yet recorded
+-- Check-ins overdue by more than a day are ignored so stale check-ins
+-- (e.g. from before this migration) don't suddenly alert everyone.
+CREATE OR REPLACE FUNCTION get_due_check_in_escalations(
+  p_now TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS TABLE(
+  check_in_id UUID,
+  user_id TEXT,
+  step TEXT,
+  due_at TIMESTAMP WITH TIME ZONE,
+  emergency_contacts JSONB
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH latest AS (
+    SELECT DISTINCT ON (c.user_id)
+      c.id,
+      c.user_id,
+      c.next_check_in_due_at
+    FROM user_check_ins c
+    ORDER BY c.user_id, c.created_at DESC
+  ),
+  overdue AS (
+    SELECT
+      l.id,
+      l.user_id,
+      l.next_check_in_due_at AS due_at,
+      GREATEST(COALESCE(s.missed_check_in_alert_minutes, 30), 1) AS alert_minutes,
+      COALESCE(s.emergency_contacts, '[]'::jsonb) AS emergency_contacts
+    FROM latest l
+    JOIN check_in_settings s ON s.user_id = l.user_id
+    WHERE COALESCE(s.enabled, false) = true
+      AND l.next_check_in_due_at IS NOT NULL
+      AND l.next_check_in_due_at <= p_now
+      AND l.next_check_in_due_at > p_now - INTERVAL '24 hours'
+  )
+  SELECT
+    o.id,
+    o.user_id,
+    ladder.step,
+    o.due_at + (o.alert_minutes * ladder.multiplier) * INTERVAL '1 minute',
+    o.emergency_contacts
+  FROM overdue o
+  CROSS JOIN (
+    VALUES ('reminder', 0), ('emergency_contacts', 1), ('connections', 2)
+  ) AS ladder(step, multiplier)
+  WHERE o.due_at + (o.alert_minutes * ladder.multiplier) * INTERVAL '1 minute' <= p_now
+    AND NOT EXISTS (
+      SELECT 1
+      FROM check_in_escalations e
+      WHERE e.check_in_id = o.id
+        AND e.step = ladder.step
+    )
+  ORDER BY o.due_at, ladder.multiplier;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function: Record an escalation step before sending it
+-- Returns true only for the caller that recorded it; everyone else must skip.
+CREATE OR REPLACE FUNCTION claim_check_in_escalation_step(
+  p_check_in_id UUID,
+  p_user_id TEXT,
+  p_step TEXT
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_id UUID;
+BEGIN
+  INSERT INTO check_in_escalations (check_in_id, user_id, step)
+  VALUES (p_check_in_id, p_user_id, p_step)
+  ON CONFLICT (check_in_id, step) DO NOTHING
+  RETURNING id INTO v_id;
+
+  RETURN v_id IS NOT NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION get_due_check_in_escalations(TIMESTAMP WITH TIME ZONE) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_check_in_escalation_step(UUID, TEXT, TEXT) TO service_role;
+
+-- ============================================
+-- Schedule (every 5 minutes)
+-- ============================================
+CREATE EXTENSION IF NOT EXISTS pg_net;
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Function to call the edge function via HTTP
+CREATE OR REPLACE FUNCTION call_process_missed_check_ins_edge_function()
+RETURNS void AS $$
+DECLARE
+  project_ref TEXT := 'bbydsaxduuwbnwqmiant'; -- Replace with your project reference
+  service_role_key TEXT := 'YOUR_SERVICE_ROLE_KEY'; -- Replace with your service_role key
+  function_url TEXT;
+BEGIN
+  function_url := 'https://' || project_ref || '.supabase.co/functions/v1/process-missed-check-ins';
+
+  PERFORM net.http_post(
+    url := function_url,
+    headers := jsonb_build_object(
+      'Authorization', 'Bearer ' || service_role_key,
+      'Content-Type', 'application/json'
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'process-missed-check-ins') THEN
+    PERFORM cron.unschedule('process-missed-check-ins');
+    RAISE NOTICE 'Unscheduled existing missed check-in job';
+  END IF;
+
+  PERFORM cron.schedule(
+    'process-missed-check-ins',                         -- Job name
+    '*/5 * * * *',                                      -- Cron schedule: every 5 minutes
+    'SELECT call_process_missed_check_ins_edge_function()' -- SQL to execute
+  );
+
+  RAISE NOTICE 'Missed check-in escalation cron job scheduled successfully (every 5 minutes)';
+END $$;
+
+-- Note: To preview what the next run would send, execute:
+-- SELECT * FROM get_due_check_in_escalations();
+
+-- Note: To check job execution history:
+-- SELECT * FROM cron.job_run_details WHERE jobid = (SELECT jobid FROM cron.job WHERE jobname = 'process-missed-check-ins') ORDER BY start_time DESC LIMIT 10;
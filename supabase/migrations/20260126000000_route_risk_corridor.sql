@@ -0,0 +1,222 @@
+-- ============================================
+-- Migration: Scope route risk to the route corridor
+-- ============================================
+-- Route risk used to count every incident in the table, so every route got
+-- the same counts. Incidents are now matched to:
+--   1. a buffer (default 10 km) around route_coordinates, when the route is known
+--   2. otherwise the origin/destination states and cities (location_address)
+-- The risk score is recomputed from the scoped counts, and the 30-day counts
+-- are broken down by incident category.
+
+ALTER TABLE route_risk_data
+ADD COLUMN IF NOT EXISTS category_breakdown JSONB DEFAULT '{}'::jsonb;
+
+ALTER TABLE route_risk_data
+ADD COLUMN IF NOT EXISTS buffer_km DOUBLE PRECISION;
+
+-- One cached row per route: keep the newest row of each route, then key the
+-- table on the route so refreshes upsert instead of adding rows. A missing
+-- city is part of the key (NULLS NOT DISTINCT), so state-only routes are
+-- cached separately from city routes.
+DELETE FROM route_risk_data r
+USING route_risk_data newer
+WHERE r.origin_state = newer.origin_state
+  AND r.origin_city IS NOT DISTINCT FROM newer.origin_city
+  AND r.destination_state = newer.destination_state
+  AND r.destination_city IS NOT DISTINCT FROM newer.destination_city
+  AND (COALESCE(r.last_updated, '-infinity'), r.id)
+    < (COALESCE(newer.last_updated, '-infinity'), newer.id);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_route_risk_route
+ON route_risk_data (origin_state, origin_city, destination_state, destination_city)
+NULLS NOT DISTINCT;
+
+-- Function: Shortest distance (km) from a point to a route polyline
+-- p_route is a JSONB array of {latitude, longitude} points. Segments are
+-- projected onto a local flat plane, which is accurate enough for corridor
+-- buffers of a few km.
+CREATE OR REPLACE FUNCTION distance_to_route_km(
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_route JSONB
+)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+  point_count INTEGER;
+  i INTEGER;
+  km_per_deg_lat CONSTANT DOUBLE PRECISION := 110.574;
+  km_per_deg_lon DOUBLE PRECISION;
+  x1 DOUBLE PRECISION;
+  y1 DOUBLE PRECISION;
+  x2 DOUBLE PRECISION;
+  y2 DOUBLE PRECISION;
+  dx DOUBLE PRECISION;
+  dy DOUBLE PRECISION;
+  t DOUBLE PRECISION;
+  d DOUBLE PRECISION;
+  best DOUBLE PRECISION := NULL;
+BEGIN
+  IF p_route IS NULL OR jsonb_typeof(p_route) <> 'array' THEN
+    RETURN NULL;
+  END IF;
+
+  point_count := jsonb_array_length(p_route);
+  IF point_count = 0 THEN
+    RETURN NULL;
+  END IF;
+
+  km_per_deg_lon := 111.320 * cos(radians(p_latitude));
+
+  -- Work in km relative to the point, so the point is the origin
+  x2 := ((p_route->0->>'longitude')::DOUBLE PRECISION - p_longitude) * km_per_deg_lon;
+  y2 := ((p_route->0->>'latitude')::DOUBLE PRECISION - p_latitude) * km_per_deg_lat;
+  best := sqrt(x2 * x2 + y2 * y2);
+
+  FOR i IN 1..point_count - 1 LOOP
+    x1 := x2;
+    y1 := y2;
+    x2 := ((p_route->i->>'longitude')::DOUBLE PRECISION - p_longitude) * km_per_deg_lon;
+    y2 := ((p_route->i->>'latitude')::DOUBLE PRECISION - p_latitude) * km_per_deg_lat;
+    dx := x2 - x1;
+    dy := y2 - y1;
+
+    IF dx = 0 AND dy = 0 THEN
+      t := 0;
+    ELSE
+      t := GREATEST(0, LEAST(1, -(x1 * dx + y1 * dy) / (dx * dx + dy * dy)));
+    END IF;
+
+    d := sqrt(power(x1 + t * dx, 2) + power(y1 + t * dy, 2));
+    IF d < best THEN
+      best := d;
+    END IF;
+  END LOOP;
+
+  RETURN best;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function: Route risk with scoped incident counts and a category breakdown
+CREATE OR REPLACE FUNCTION calculate_route_risk_breakdown(
+  p_origin_state TEXT,
+  p_destination_state TEXT,
+  p_origin_city TEXT DEFAULT NULL,
+  p_destination_city TEXT DEFAULT NULL,
+  p_route_coordinates JSONB DEFAULT NULL,
+  p_buffer_km DOUBLE PRECISION DEFAULT 10
+)
+RETURNS TABLE(
+  risk_score DOUBLE PRECISION,
+  incident_count_24h INTEGER,
+  incident_count_7d INTEGER,
+  incident_count_30d INTEGER,
+  last_incident_at TIMESTAMP WITH TIME ZONE,
+  category_breakdown JSONB,
+  matched_by TEXT
+) AS $$
+DECLARE
+  v_use_corridor BOOLEAN;
+  v_min_lat DOUBLE PRECISION;
+  v_max_lat DOUBLE PRECISION;
+  v_min_lon DOUBLE PRECISION;
+  v_max_lon DOUBLE PRECISION;
+  v_pad_lat DOUBLE PRECISION;
+  v_pad_lon DOUBLE PRECISION;
+  v_count_24h INTEGER := 0;
+  v_count_7d INTEGER := 0;
+  v_count_30d INTEGER := 0;
+  v_last_incident_at TIMESTAMP WITH TIME ZONE;
+  v_breakdown JSONB := '{}'::jsonb;
+BEGIN
+  v_use_corridor := p_route_coordinates IS NOT NULL
+    AND jsonb_typeof(p_route_coordinates) = 'array'
+    AND jsonb_array_length(p_route_coordinates) >= 2;
+
+  IF v_use_corridor THEN
+    -- Bounding box prefilter (buffer converted to degrees) before the exact check
+    SELECT
+      MIN((pt->>'latitude')::DOUBLE PRECISION),
+      MAX((pt->>'latitude')::DOUBLE PRECISION),
+      MIN((pt->>'longitude')::DOUBLE PRECISION),
+      MAX((pt->>'longitude')::DOUBLE PRECISION)
+    INTO v_min_lat, v_max_lat, v_min_lon, v_max_lon
+    FROM jsonb_array_elements(p_route_coordinates) AS pt;
+
+    v_pad_lat := p_buffer_km / 110.574;
+    v_pad_lon := p_buffer_km / (111.320 * GREATEST(cos(radians(GREATEST(ABS(v_min_lat), ABS(v_max_lat)))), 0.01));
+  END IF;
+
+  WITH matches AS (
+    SELECT i.category, i.created_at
+    FROM incidents i
+    WHERE i.created_at >= NOW() - INTERVAL '30 days'
+      AND (
+        (
+          v_use_corridor
+          AND i.location_latitude BETWEEN v_min_lat - v_pad_lat AND v_max_lat + v_pad_lat
+          AND i.location_longitude BETWEEN v_min_lon - v_pad_lon AND v_max_lon + v_pad_lon
+          AND distance_to_route_km(i.location_latitude, i.location_longitude, p_route_coordinates) <= p_buffer_km
+        )
+        OR (
+          NOT v_use_corridor
+          AND (
+            (i.location_address ILIKE '%' || p_origin_state || '%' OR i.location_address ILIKE '%' || p_destination_state || '%')
+            OR (p_origin_city IS NOT NULL AND i.location_address ILIKE '%' || p_origin_city || '%')
+            OR (p_destination_city IS NOT NULL AND i.location_address ILIKE '%' || p_destination_city || '%')
+          )
+        )
+      )
+  )
+  SELECT
+    COUNT(*) FILTER (WHERE m.created_at >= NOW() - INTERVAL '24 hours'),
+    COUNT(*) FILTER (WHERE m.created_at >= NOW() - INTERVAL '7 days'),
+    COUNT(*),
+    MAX(m.created_at),
+    COALESCE(
+      (
+        SELECT jsonb_object_agg(c.category, c.total)
+        FROM (SELECT mc.category, COUNT(*) AS total FROM matches mc GROUP BY mc.category) c
+      ),
+      '{}'::jsonb
+    )
+  INTO v_count_24h, v_count_7d, v_count_30d, v_last_incident_at, v_breakdown
+  FROM matches m;
+
+  RETURN QUERY SELECT
+    -- Same weighting as before: recent incidents count most
+    LEAST(100, (v_count_24h * 10) + (v_count_7d * 2) + (v_count_30d * 0.5))::DOUBLE PRECISION,
+    v_count_24h,
+    v_count_7d,
+    v_count_30d,
+    v_last_incident_at,
+    v_breakdown,
+    CASE WHEN v_use_corridor THEN 'corridor' ELSE 'states' END;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function: Calculate route risk score (kept for existing callers)
+CREATE OR REPLACE FUNCTION calculate_route_risk(
+  p_origin_state TEXT,
+  p_destination_state TEXT,
+  p_origin_city TEXT DEFAULT NULL,
+  p_destination_city TEXT DEFAULT NULL
+)
+RETURNS DOUBLE PRECISION AS $$
+DECLARE
+  v_risk_score DOUBLE PRECISION := 0;
+BEGIN
+  SELECT b.risk_score INTO v_risk_score
+  FROM calculate_route_risk_breakdown(p_origin_state, p_destination_state, p_origin_city, p_destination_city) b;
+
+  RETURN COALESCE(v_risk_score, 0);
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION distance_to_route_km(DOUBLE PRECISION, DOUBLE PRECISION, JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION distance_to_route_km(DOUBLE PRECISION, DOUBLE PRECISION, JSONB) TO service_role;
+GRANT EXECUTE ON FUNCTION calculate_route_risk_breakdown(TEXT, TEXT, TEXT, TEXT, JSONB, DOUBLE PRECISION) TO authenticated;
+GRANT EXECUTE ON FUNCTION calculate_route_risk_breakdown(TEXT, TEXT, TEXT, TEXT, JSONB, DOUBLE PRECISION) TO service_role;
+
+-- Note: To preview a corridor, execute:
+-- SELECT * FROM calculate_route_risk_breakdown('Lagos', 'Ogun', NULL, NULL,
+--   '[{"latitude": 6.5244, "longitude": 3.3792}, {"latitude": 7.1557, "longitude": 3.3451}]'::jsonb);
@@ -0,0 +1,497 @@
+-- ============================================
+-- Migration: Trip mode (live journey with ETA and arrival confirmation)
+-- ============================================
+-- A traveller starts a trip with a destination, an expected arrival time and
+-- the connections (watchers) who may follow it. While the trip is active:
+--   - report_trip_position() stores the latest position (called by the app on
+--     every tracked fix, and by the location_history trigger) and confirms
+--     arrival automatically once the traveller is inside the arrival radius
+--   - escalate_overdue_trips() (run by process-missed-check-ins every 5 minutes)
+--     flags trips that overran their ETA or stopped reporting, alerts the
+--     watchers and hands over to the missed check-in ladder by creating a
+--     check-in that is due immediately
+-- Arrival (or cancelling an escalated trip) records a safe check-in, which
+-- ends the ladder.
+
+-- ============================================
+-- Trips table
+-- ============================================
+CREATE TABLE IF NOT EXISTS trips (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  origin_label TEXT,
+  origin_latitude DOUBLE PRECISION,
+  origin_longitude DOUBLE PRECISION,
+  destination_label TEXT NOT NULL,
+  destination_latitude DOUBLE PRECISION NOT NULL,
+  destination_longitude DOUBLE PRECISION NOT NULL,
+  arrival_radius_meters DOUBLE PRECISION NOT NULL DEFAULT 300,
+  expected_arrival_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  grace_minutes INTEGER NOT NULL DEFAULT 15, -- Allowed overrun before escalating
+  stale_minutes INTEGER NOT NULL DEFAULT 30, -- Escalate if no position for this long
+  -- Array of user IDs allowed to follow the trip
+  watcher_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'overdue', 'arrived', 'cancelled')),
+  last_latitude DOUBLE PRECISION,
+  last_longitude DOUBLE PRECISION,
+  last_reported_at TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  arrived_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  escalated_at TIMESTAMP WITH TIME ZONE,
+  escalation_reason TEXT CHECK (escalation_reason IN ('overrun', 'no_signal')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_trips_user_id ON trips(user_id);
+CREATE INDEX IF NOT EXISTS idx_trips_status ON trips(status);
+CREATE INDEX IF NOT EXISTS idx_trips_watcher_ids ON trips USING GIN (watcher_ids);
+
+-- Only one ongoing trip per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_trips_one_ongoing_per_user
+  ON trips(user_id)
+  WHERE status IN ('active', 'overdue');
+
+DROP TRIGGER IF EXISTS update_trips_updated_at ON trips;
+CREATE TRIGGER update_trips_updated_at
+  BEFORE UPDATE ON trips
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE trips ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow all operations on trips" ON trips;
+CREATE POLICY "Allow all operations on trips"
+  ON trips FOR ALL
+  USING (true)
+  WITH CHECK (true);
+
+GRANT ALL ON trips TO authenticated;
+GRANT ALL ON trips TO service_role;
+
+-- Check-ins created for a trip (arrival confirmations and escalations)
+ALTER TABLE user_check_ins
+ADD COLUMN IF NOT EXISTS trip_id UUID REFERENCES trips(id) ON DELETE SET NULL;
+
+-- ============================================
+-- Trip completion
+-- ============================================
+
+-- Function: Finish an ongoing trip ('arrived' or 'cancelled')
+-- Notifies the watchers and returns the notification so the caller can push it.
+-- Arrival always records a safe check-in; a cancelled trip only does so if it
+-- was already escalated (to stop the missed check-in ladder).
+CREATE OR REPLACE FUNCTION complete_trip(
+  p_trip_id UUID,
+  p_user_id TEXT,
+  p_status TEXT
+)
+RETURNS TABLE (
+  trip_id UUID,
+  notification_type TEXT,
+  watcher_ids JSONB,
+  title TEXT,
+  body TEXT
+) AS $$
+DECLARE
+  v_trip trips;
+  v_user_name TEXT;
+  v_type TEXT;
+  v_title TEXT;
+  v_body TEXT;
+  v_watcher TEXT;
+BEGIN
+  IF p_status NOT IN ('arrived', 'cancelled') THEN
+    RAISE EXCEPTION 'Invalid trip status: %', p_status;
+  END IF;
+
+  SELECT * INTO v_trip
+  FROM trips t
+  WHERE t.id = p_trip_id
+    AND t.user_id = p_user_id
+    AND t.status IN ('active', 'overdue')
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE trips
+  SET status = p_status,
+      arrived_at = CASE WHEN p_status = 'arrived' THEN NOW() ELSE trips.arrived_at END,
+      cancelled_at = CASE WHEN p_status = 'cancelled' THEN NOW() ELSE trips.cancelled_at END
+  WHERE trips.id = v_trip.id;
+
+  SELECT COALESCE(u.name, 'Someone') INTO v_user_name
+  FROM users u
+  WHERE u.id = p_user_id;
+  v_user_name := COALESCE(v_user_name, 'Someone');
+
+  IF p_status = 'arrived' OR v_trip.escalated_at IS NOT NULL THEN
+    INSERT INTO user_check_ins (
+      user_id, check_in_type, location_latitude, location_longitude, status, message, is_emergency, trip_id
+    )
+    VALUES (
+      p_user_id,
+      CASE WHEN p_status = 'arrived' THEN 'automatic' ELSE 'manual' END,
+      v_trip.last_latitude,
+      v_trip.last_longitude,
+      'safe',
+      CASE WHEN p_status = 'arrived'
+        THEN 'Arrived at ' || v_trip.destination_label
+        ELSE 'Trip to ' || v_trip.destination_label || ' cancelled'
+      END,
+      false,
+      v_trip.id
+    );
+  END IF;
+
+  IF p_status = 'arrived' THEN
+    v_type := 'trip_arrived';
+    v_title := '✅ ' || v_user_name || ' arrived';
+    v_body := v_user_name || ' has arrived at ' || v_trip.destination_label || '.';
+  ELSE
+    v_type := 'trip_cancelled';
+    v_title := '🛑 ' || v_user_name || ' ended their trip';
+    v_body := v_user_name || ' cancelled their trip to ' || v_trip.destination_label || '.';
+  END IF;
+
+  FOR v_watcher IN SELECT jsonb_array_elements_text(v_trip.watcher_ids) LOOP
+    INSERT INTO notifications (user_id, title, body, type, data)
+    VALUES (
+      v_watcher,
+      v_title,
+      v_body,
+      v_type,
+      jsonb_build_object(
+        'type', v_type,
+        'tripId', v_trip.id,
+        'userId', p_user_id,
+        'userName', v_user_name,
+        'destination', v_trip.destination_label,
+        'timestamp', NOW()
+      )
+    );
+  END LOOP;
+
+  trip_id := v_trip.id;
+  notification_type := v_type;
+  watcher_ids := v_trip.watcher_ids;
+  title := v_title;
+  body := v_body;
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function: Record a traveller's position on their ongoing trip
+-- Confirms arrival automatically inside the arrival radius (inaccurate fixes
+-- update the position but never confirm arrival).
+CREATE OR REPLACE FUNCTION report_trip_position(
+  p_user_id TEXT,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS TABLE (
+  trip_id UUID,
+  notification_type TEXT,
+  watcher_ids JSONB,
+  title TEXT,
+  body TEXT
+) AS $$
+DECLARE
+  v_trip trips;
+BEGIN
+  IF p_user_id IS NULL OR p_latitude IS NULL OR p_longitude IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_trip
+  FROM trips t
+  WHERE t.user_id = p_user_id
+    AND t.status IN ('active', 'overdue')
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  UPDATE trips
+  SET last_latitude = p_latitude,
+      last_longitude = p_longitude,
+      last_reported_at = NOW()
+  WHERE trips.id = v_trip.id;
+
+  IF (p_accuracy IS NULL OR p_accuracy <= 200)
+    AND calculate_distance(
+      p_latitude,
+      p_longitude,
+      v_trip.destination_latitude,
+      v_trip.destination_longitude
+    ) * 1000 <= v_trip.arrival_radius_meters THEN
+    RETURN QUERY SELECT * FROM complete_trip(v_trip.id, p_user_id, 'arrived');
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION complete_trip(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION complete_trip(UUID, TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION report_trip_position(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO authenticated;
+GRANT EXECUTE ON FUNCTION report_trip_position(TEXT, DOUBLE PRECISION, DOUBLE PRECISION, DOUBLE PRECISION) TO service_role;
+
+-- Trigger function: keep trips up to date from every location_history insert
+-- Errors are swallowed so a trip problem can never block a location insert
+CREATE OR REPLACE FUNCTION handle_location_history_trip_position()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM * FROM report_trip_position(NEW.user_id, NEW.latitude, NEW.longitude, NEW.accuracy);
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    RAISE WARNING 'Trip position update failed for user %: %', NEW.user_id, SQLERRM;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS location_history_trip_position ON location_history;
+CREATE TRIGGER location_history_trip_position
+  AFTER INSERT ON location_history
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_location_history_trip_position();
+
+-- ============================================
+-- Escalation
+-- ============================================
+
+-- Function: Escalate trips that overran their ETA or stopped reporting
+-- Each trip escalates once (status moves to 'overdue'). Watchers get a
+-- trip_overdue notification, and a check-in due now starts the missed
+-- check-in ladder (reminder -> emergency contacts + watchers -> connections).
+CREATE OR REPLACE FUNCTION escalate_overdue_trips()
+RETURNS TABLE (
+  trip_id UUID,
+  user_id TEXT,
+  reason TEXT,
+  watcher_ids JSONB,
+  title TEXT,
+  body TEXT
+) AS $$
+DECLARE
+  v_trip trips;
+  v_reason TEXT;
+  v_user_name TEXT;
+  v_title TEXT;
+  v_body TEXT;
+  v_watcher TEXT;
+BEGIN
+  FOR v_trip IN
+    SELECT *
+    FROM trips t
+    WHERE t.status = 'active'
+      AND t.escalated_at IS NULL
+      AND (
+        NOW() > t.expected_arrival_at + (t.grace_minutes * INTERVAL '1 minute')
+        OR COALESCE(t.last_reported_at, t.started_at) < NOW() - (t.stale_minutes * INTERVAL '1 minute')
+      )
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    v_reason := CASE
+      WHEN NOW() > v_trip.expected_arrival_at + (v_trip.grace_minutes * INTERVAL '1 minute') THEN 'overrun'
+      ELSE 'no_signal'
+    END;
+
+    UPDATE trips
+    SET status = 'overdue',
+        escalated_at = NOW(),
+        escalation_reason = v_reason
+    WHERE trips.id = v_trip.id;
+
+    SELECT COALESCE(u.name, 'Someone') INTO v_user_name
+    FROM users u
+    WHERE u.id = v_trip.user_id;
+    v_user_name := COALESCE(v_user_name, 'Someone');
+
+    -- Hand over to the missed check-in ladder
+    INSERT INTO user_check_ins (
+      user_id, check_in_type, location_latitude, location_longitude, status, message,
+      next_check_in_due_at, is_emergency, trip_id
+    )
+    VALUES (
+      v_trip.user_id,
+      'scheduled',
+      v_trip.last_latitude,
+      v_trip.last_longitude,
+      'delayed',
+      CASE WHEN v_reason = 'overrun'
+        THEN 'Trip to ' || v_trip.destination_label || ' is overdue'
+        ELSE 'No location from trip to ' || v_trip.destination_label
+      END,
+      NOW(),
+      false,
+      v_trip.id
+    );
+
+    v_title := '⚠️ ' || v_user_name || '''s trip needs attention';
+    IF v_reason = 'overrun' THEN
+      v_body := v_user_name || ' has not arrived at ' || v_trip.destination_label || ' and is past their expected arrival time.';
+    ELSE
+      v_body := v_user_name || '''s phone stopped reporting during their trip to ' || v_trip.destination_label || '.';
+    END IF;
+
+    FOR v_watcher IN SELECT jsonb_array_elements_text(v_trip.watcher_ids) LOOP
+      INSERT INTO notifications (user_id, title, body, type, data)
+      VALUES (
+        v_watcher,
+        v_title,
+        v_body,
+        'trip_overdue',
+        jsonb_build_object(
+          'type', 'trip_overdue',
+          'tripId', v_trip.id,
+          'reason', v_reason,
+          'userId', v_trip.user_id,
+          'userName', v_user_name,
+          'destination', v_trip.destination_label,
+          'location', CASE WHEN v_trip.last_latitude IS NOT NULL THEN
+            jsonb_build_object('latitude', v_trip.last_latitude, 'longitude', v_trip.last_longitude)
+          END,
+          'timestamp', NOW()
+        )
+      );
+    END LOOP;
+
+    trip_id := v_trip.id;
+    user_id := v_trip.user_id;
+    reason := v_reason;
+    watcher_ids := v_trip.watcher_ids;
+    title := v_title;
+    body := v_body;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION escalate_overdue_trips() TO service_role;
+
+-- Trip check-ins escalate even when scheduled check-ins are turned off, and
+-- the trip's watchers are alerted together with the emergency contacts
+CREATE OR REPLACE FUNCTION get_due_check_in_escalations(
+  p_now TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS TABLE(
+  check_in_id UUID,
+  user_id TEXT,
+  step TEXT,
+  due_at TIMESTAMP WITH TIME ZONE,
+  emergency_contacts JSONB
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH latest AS (
+    SELECT DISTINCT ON (c.user_id)
+      c.id,
+      c.user_id,
+      c.next_check_in_due_at,
+      c.trip_id
+    FROM user_check_ins c
+    ORDER BY c.user_id, c.created_at DESC
+  ),
+  overdue AS (
+    SELECT
+      l.id,
+      l.user_id,
+      l.next_check_in_due_at AS due_at,
+      GREATEST(COALESCE(s.missed_check_in_alert_minutes, 30), 1) AS alert_minutes,
+      COALESCE(s.emergency_contacts, '[]'::jsonb) || COALESCE(t.watcher_ids, '[]'::jsonb) AS emergency_contacts
+    FROM latest l
+    LEFT JOIN check_in_settings s ON s.user_id = l.user_id
+    LEFT JOIN trips t ON t.id = l.trip_id
+    WHERE (COALESCE(s.enabled, false) = true OR l.trip_id IS NOT NULL)
+      AND l.next_check_in_due_at IS NOT NULL
+      AND l.next_check_in_due_at <= p_now
+      AND l.next_check_in_due_at > p_now - INTERVAL '24 hours'
+  )
+  SELECT
+    o.id,
+    o.user_id,
+    ladder.step,
+    o.due_at + (o.alert_minutes * ladder.multiplier) * INTERVAL '1 minute',
+    o.emergency_contacts
+  FROM overdue o
+  CROSS JOIN (
+    VALUES ('reminder', 0), ('emergency_contacts', 1), ('connections', 2)
+  ) AS ladder(step, multiplier)
+  WHERE o.due_at + (o.alert_minutes * ladder.multiplier) * INTERVAL '1 minute' <= p_now
+    AND NOT EXISTS (
+      SELECT 1
+      FROM check_in_escalations e
+      WHERE e.check_in_id = o.id
+        AND e.step = ladder.step
+    )
+  ORDER BY o.due_at, ladder.multiplier;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- An overdue trip is a safety alert: it bypasses notification filters
+CREATE OR REPLACE FUNCTION is_critical_notification_type(p_notification_type TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN p_notification_type IN (
+    'sos_alert',
+    'check_in_emergency',
+    'check_in_unsafe',
+    'missed_check_in',
+    'trip_overdue'
+  );
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- ============================================
+-- Notification types
+-- ============================================
+
+-- Drop ALL existing type constraints (they might have different names)
+DO $$
+DECLARE
+    r RECORD;
+BEGIN
+    FOR r IN (
+        SELECT constraint_name
+        FROM information_schema.table_constraints
+        WHERE table_name = 'notifications'
+        AND constraint_type = 'CHECK'
+        AND constraint_name LIKE '%type%'
+    ) LOOP
+        EXECUTE 'ALTER TABLE notifications DROP CONSTRAINT IF EXISTS ' || quote_ident(r.constraint_name);
+    END LOOP;
+END $$;
+
+-- Re-add the constraint with all notification types, including trip alerts
+ALTER TABLE notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'sos_alert',
+    'connection_added',
+    'location_updated',
+    'incident',
+    'incident_proximity',
+    'location_reminder',
+    'check_in',
+    'check_in_emergency',
+    'check_in_unsafe',
+    'missed_check_in',
+    'travel_advisory',
+    'route_risk',
+    'general',
+    'app_update',
+    'place_arrival',
+    'place_departure',
+    'trip_started',
+    'trip_arrived',
+    'trip_cancelled',
+    'trip_overdue'
+  ));
+
+-- Note: To preview which trips the next run would escalate, execute:
+-- SELECT * FROM trips WHERE status = 'active' AND (NOW() > expected_arrival_at + grace_minutes * INTERVAL '1 minute' OR COALESCE(last_reported_at, started_at) < NOW() - stale_minutes * INTERVAL '1 minute');
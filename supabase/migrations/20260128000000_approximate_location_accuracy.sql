@@ -0,0 +1,173 @@
+-- ============================================
+-- Migration: Honor approximate location accuracy
+-- ============================================
+-- user_settings.location_accuracy = 'approximate' used to be saved but never
+-- applied, so connections always saw exact coordinates and street addresses.
+-- Shared locations are now fuzzed on write for those users:
+--   1. coordinates are snapped to the center of a 0.02 degree grid cell (~2 km)
+--   2. addresses are reduced to city level (city, region, country)
+--   3. accuracy is widened to at least 1500 m, so place/trip checks that run
+--      from location_history triggers don't fire on snapped coordinates
+-- While the user is locked after an SOS, the exact location is kept.
+-- The app applies the same rules before writing (src/utils/locationPrivacy.ts);
+-- these triggers make sure every writer is covered.
+
+-- Function: Snap a coordinate to the center of its grid cell
+CREATE OR REPLACE FUNCTION approximate_coordinate(p_value DOUBLE PRECISION)
+RETURNS DOUBLE PRECISION AS $$
+BEGIN
+  IF p_value IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN round((floor(p_value / 0.02) * 0.02 + 0.01)::NUMERIC, 6)::DOUBLE PRECISION;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function: Reduce an address to city level
+-- Addresses are built by the app as "streetNumber, street, city, region, country",
+-- so only the last three parts are kept
+CREATE OR REPLACE FUNCTION approximate_address(p_address TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  parts TEXT[];
+  part_count INTEGER;
+BEGIN
+  IF p_address IS NULL OR btrim(p_address) = '' THEN
+    RETURN p_address;
+  END IF;
+
+  SELECT array_agg(btrim(part) ORDER BY ord)
+  INTO parts
+  FROM unnest(string_to_array(p_address, ',')) WITH ORDINALITY AS t(part, ord)
+  WHERE btrim(part) <> '';
+
+  part_count := COALESCE(array_length(parts, 1), 0);
+  IF part_count <= 3 THEN
+    RETURN array_to_string(parts, ', ');
+  END IF;
+
+  RETURN array_to_string(parts[part_count - 2:part_count], ', ');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function: Check if a user's shared location should be approximated
+-- Exact while locked after an SOS, so responders can find the user
+CREATE OR REPLACE FUNCTION should_approximate_location(p_user_id TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_mode TEXT;
+  v_is_locked BOOLEAN;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT location_accuracy INTO v_mode
+  FROM user_settings
+  WHERE user_id = p_user_id;
+
+  IF v_mode IS DISTINCT FROM 'approximate' THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT is_locked INTO v_is_locked
+  FROM users
+  WHERE id = p_user_id;
+
+  RETURN NOT COALESCE(v_is_locked, FALSE);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Trigger function: location_history rows
+CREATE OR REPLACE FUNCTION apply_location_history_privacy()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF should_approximate_location(NEW.user_id) THEN
+    NEW.latitude := approximate_coordinate(NEW.latitude);
+    NEW.longitude := approximate_coordinate(NEW.longitude);
+    NEW.address := approximate_address(NEW.address);
+    NEW.accuracy := GREATEST(COALESCE(NEW.accuracy, 0), 1500);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger function: family_members rows (location of user_id)
+CREATE OR REPLACE FUNCTION apply_family_member_location_privacy()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.location_latitude IS NOT NULL AND should_approximate_location(NEW.user_id) THEN
+    NEW.location_latitude := approximate_coordinate(NEW.location_latitude);
+    NEW.location_longitude := approximate_coordinate(NEW.location_longitude);
+    NEW.location_address := approximate_address(NEW.location_address);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger function: connections rows (location of connected_user_id)
+CREATE OR REPLACE FUNCTION apply_connection_location_privacy()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.location_latitude IS NOT NULL AND should_approximate_location(NEW.connected_user_id) THEN
+    NEW.location_latitude := approximate_coordinate(NEW.location_latitude);
+    NEW.location_longitude := approximate_coordinate(NEW.location_longitude);
+    NEW.location_address := approximate_address(NEW.location_address);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger function: last known position of an ongoing trip
+-- Arrival is checked in report_trip_position() before the row is written,
+-- so only what watchers see is snapped
+CREATE OR REPLACE FUNCTION apply_trip_location_privacy()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.last_latitude IS NOT NULL AND should_approximate_location(NEW.user_id) THEN
+    NEW.last_latitude := approximate_coordinate(NEW.last_latitude);
+    NEW.last_longitude := approximate_coordinate(NEW.last_longitude);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS apply_location_history_privacy_trigger ON location_history;
+CREATE TRIGGER apply_location_history_privacy_trigger
+  BEFORE INSERT OR UPDATE OF latitude, longitude, address ON location_history
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_location_history_privacy();
+
+DROP TRIGGER IF EXISTS apply_family_member_location_privacy_trigger ON family_members;
+CREATE TRIGGER apply_family_member_location_privacy_trigger
+  BEFORE INSERT OR UPDATE OF location_latitude, location_longitude, location_address ON family_members
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_family_member_location_privacy();
+
+DROP TRIGGER IF EXISTS apply_connection_location_privacy_trigger ON connections;
+CREATE TRIGGER apply_connection_location_privacy_trigger
+  BEFORE INSERT OR UPDATE OF location_latitude, location_longitude, location_address ON connections
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_connection_location_privacy();
+
+DROP TRIGGER IF EXISTS apply_trip_location_privacy_trigger ON trips;
+CREATE TRIGGER apply_trip_location_privacy_trigger
+  BEFORE INSERT OR UPDATE OF last_latitude, last_longitude ON trips
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_trip_location_privacy();
+
+GRANT EXECUTE ON FUNCTION approximate_coordinate(DOUBLE PRECISION) TO authenticated;
+GRANT EXECUTE ON FUNCTION approximate_coordinate(DOUBLE PRECISION) TO service_role;
+GRANT EXECUTE ON FUNCTION approximate_address(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION approximate_address(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION should_approximate_location(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION should_approximate_location(TEXT) TO service_role;
+
+-- Note: To preview what connections see, execute:
+-- SELECT approximate_coordinate(6.524379), approximate_coordinate(3.379206),
+--   approximate_address('12, Broad Street, Lagos Island, Lagos, Nigeria');
@@ -0,0 +1,547 @@
+-- ============================================
+-- Migration: Secure unlock flow for SOS-locked accounts
+-- ============================================
+-- SOS sets users.is_locked = true, and any client could clear it with a plain
+-- update. The lock now has a lifecycle enforced by the database:
+--   - locking is recorded in account_locks (only the owner, or the service
+--     role, can lock an account)
+--   - unlocking requires one of:
+--       1. the locked user's own unlock PIN (unlock_account_with_pin), with a
+--          limited number of attempts per lock
+--       2. approval from enough connections (approve_account_unlock); the
+--          quorum is user_settings.unlock_quorum, capped at the number of
+--          connections the user had when the lock started
+--   - a direct update of users.is_locked to false is rejected unless it comes
+--     from one of those functions (or the service role)
+--   - every lock, approval, unlock and PIN change is written to
+--     account_lock_events (audit log, readable but not writable by clients)
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Number of connection approvals needed to unlock (1 = any single connection)
+ALTER TABLE user_settings
+ADD COLUMN IF NOT EXISTS unlock_quorum INTEGER DEFAULT 1;
+
+ALTER TABLE user_settings
+DROP CONSTRAINT IF EXISTS user_settings_unlock_quorum_check;
+
+ALTER TABLE user_settings
+ADD CONSTRAINT user_settings_unlock_quorum_check
+CHECK (unlock_quorum IS NULL OR (unlock_quorum >= 1 AND unlock_quorum <= 5));
+
+-- ============================================
+-- Unlock PINs (hashed, never readable by clients)
+-- ============================================
+CREATE TABLE IF NOT EXISTS user_unlock_pins (
+  user_id TEXT PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  pin_hash TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+DROP TRIGGER IF EXISTS update_user_unlock_pins_updated_at ON user_unlock_pins;
+CREATE TRIGGER update_user_unlock_pins_updated_at
+  BEFORE UPDATE ON user_unlock_pins
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- No policies: only the SECURITY DEFINER functions below can read or write PINs
+ALTER TABLE user_unlock_pins ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON user_unlock_pins TO service_role;
+
+-- ============================================
+-- Account locks
+-- ============================================
+CREATE TABLE IF NOT EXISTS account_locks (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  locked_by TEXT,
+  reason TEXT NOT NULL DEFAULT 'sos',
+  status TEXT NOT NULL DEFAULT 'locked' CHECK (status IN ('locked', 'unlocked')),
+  required_approvals INTEGER NOT NULL DEFAULT 1,
+  failed_pin_attempts INTEGER NOT NULL DEFAULT 0,
+  locked_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  unlocked_at TIMESTAMP WITH TIME ZONE,
+  unlocked_by TEXT,
+  unlock_method TEXT CHECK (unlock_method IN ('pin', 'quorum', 'admin')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_locks_user_id ON account_locks(user_id);
+
+-- Only one open lock per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_account_locks_one_open_per_user
+  ON account_locks(user_id)
+  WHERE status = 'locked';
+
+DROP TRIGGER IF EXISTS update_account_locks_updated_at ON account_locks;
+CREATE TRIGGER update_account_locks_updated_at
+  BEFORE UPDATE ON account_locks
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS account_unlock_approvals (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  lock_id UUID NOT NULL REFERENCES account_locks(id) ON DELETE CASCADE,
+  approver_id TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE (lock_id, approver_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_unlock_approvals_lock_id ON account_unlock_approvals(lock_id);
+
+-- ============================================
+-- Audit log
+-- ============================================
+CREATE TABLE IF NOT EXISTS account_lock_events (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  lock_id UUID REFERENCES account_locks(id) ON DELETE SET NULL,
+  actor_id TEXT,
+  actor_name TEXT,
+  action TEXT NOT NULL CHECK (action IN ('locked', 'unlock_approved', 'unlocked', 'pin_failed', 'pin_set', 'pin_removed')),
+  method TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_account_lock_events_user_id ON account_lock_events(user_id, created_at DESC);
+
+-- Read-only for clients: rows are only written by the functions below
+ALTER TABLE account_locks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE account_unlock_approvals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE account_lock_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Allow read access to account_locks" ON account_locks;
+CREATE POLICY "Allow read access to account_locks"
+  ON account_locks FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Allow read access to account_unlock_approvals" ON account_unlock_approvals;
+CREATE POLICY "Allow read access to account_unlock_approvals"
+  ON account_unlock_approvals FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Allow read access to account_lock_events" ON account_lock_events;
+CREATE POLICY "Allow read access to account_lock_events"
+  ON account_lock_events FOR SELECT
+  USING (true);
+
+GRANT SELECT ON account_locks TO authenticated;
+GRANT ALL ON account_locks TO service_role;
+GRANT SELECT ON account_unlock_approvals TO authenticated;
+GRANT ALL ON account_unlock_approvals TO service_role;
+GRANT SELECT ON account_lock_events TO authenticated;
+GRANT ALL ON account_lock_events TO service_role;
+
+-- Maximum wrong PIN entries per lock before only connections can unlock
+CREATE OR REPLACE FUNCTION max_unlock_pin_attempts()
+RETURNS INTEGER AS $$
+BEGIN
+  RETURN 5;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function: Check if the request comes from the backend
+-- True for the service role key (edge functions) and for direct database
+-- sessions (SQL editor, pg_cron, migrations). Requests made with the anon key
+-- or a user's JWT run as anon / authenticated and are never trusted, even
+-- when auth.uid() is NULL.
+CREATE OR REPLACE FUNCTION is_service_request()
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN COALESCE(auth.role(), '') = 'service_role'
+    OR session_user = 'postgres';
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function: Write an audit log entry
+CREATE OR REPLACE FUNCTION record_account_lock_event(
+  p_user_id TEXT,
+  p_lock_id UUID,
+  p_actor_id TEXT,
+  p_action TEXT,
+  p_method TEXT DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO account_lock_events (user_id, lock_id, actor_id, actor_name, action, method)
+  VALUES (
+    p_user_id,
+    p_lock_id,
+    p_actor_id,
+    (SELECT u.name FROM users u WHERE u.id = p_actor_id),
+    p_action,
+    p_method
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Check if two users are connected (either direction)
+CREATE OR REPLACE FUNCTION are_users_connected(p_user_id TEXT, p_other_user_id TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM connections c
+    WHERE c.status = 'connected'
+      AND (
+        (c.user_id = p_user_id AND c.connected_user_id = p_other_user_id)
+        OR (c.user_id = p_other_user_id AND c.connected_user_id = p_user_id)
+      )
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- Lock transitions (enforcement)
+-- ============================================
+
+-- Trigger function: Record locks and reject unauthorized unlocks
+-- Unlock functions set famguard.unlock_method / famguard.unlock_actor for the
+-- current transaction; backend requests (is_service_request) are treated as
+-- an admin unlock. Anyone else without a user session is rejected.
+CREATE OR REPLACE FUNCTION enforce_account_lock_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_actor TEXT;
+  v_method TEXT;
+  v_lock_id UUID;
+  v_quorum INTEGER;
+  v_connection_count INTEGER;
+BEGIN
+  IF COALESCE(OLD.is_locked, FALSE) = COALESCE(NEW.is_locked, FALSE) THEN
+    RETURN NEW;
+  END IF;
+
+  v_actor := auth.uid()::TEXT;
+
+  IF v_actor IS NULL AND NOT is_service_request() THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF NEW.is_locked THEN
+    IF v_actor IS NOT NULL AND v_actor <> NEW.id THEN
+      RAISE EXCEPTION 'Only the account owner can lock this account'
+        USING ERRCODE = '42501';
+    END IF;
+
+    SELECT COALESCE(us.unlock_quorum, 1) INTO v_quorum
+    FROM user_settings us
+    WHERE us.user_id = NEW.id;
+
+    SELECT COUNT(DISTINCT c.user_id) INTO v_connection_count
+    FROM connections c
+    WHERE c.connected_user_id = NEW.id
+      AND c.status = 'connected';
+
+    -- Close any lock left open (e.g. unlocked before this migration)
+    UPDATE account_locks
+    SET status = 'unlocked',
+        unlocked_at = NOW(),
+        unlock_method = 'admin'
+    WHERE user_id = NEW.id
+      AND status = 'locked';
+
+    INSERT INTO account_locks (user_id, locked_by, required_approvals)
+    VALUES (
+      NEW.id,
+      COALESCE(v_actor, NEW.id),
+      GREATEST(1, LEAST(COALESCE(v_quorum, 1), GREATEST(v_connection_count, 1)))
+    )
+    RETURNING id INTO v_lock_id;
+
+    PERFORM record_account_lock_event(NEW.id, v_lock_id, COALESCE(v_actor, NEW.id), 'locked', 'sos');
+    RETURN NEW;
+  END IF;
+
+  v_method := NULLIF(current_setting('famguard.unlock_method', true), '');
+
+  IF v_method IS NULL THEN
+    IF NOT is_service_request() THEN
+      RAISE EXCEPTION 'Unlocking requires the account PIN or approval from connections'
+        USING ERRCODE = '42501';
+    END IF;
+    v_method := 'admin';
+  ELSE
+    v_actor := NULLIF(current_setting('famguard.unlock_actor', true), '');
+  END IF;
+
+  UPDATE account_locks
+  SET status = 'unlocked',
+      unlocked_at = NOW(),
+      unlocked_by = v_actor,
+      unlock_method = v_method
+  WHERE user_id = NEW.id
+    AND status = 'locked'
+  RETURNING id INTO v_lock_id;
+
+  PERFORM record_account_lock_event(NEW.id, v_lock_id, v_actor, 'unlocked', v_method);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS enforce_account_lock_transition_trigger ON users;
+CREATE TRIGGER enforce_account_lock_transition_trigger
+  BEFORE UPDATE OF is_locked ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_account_lock_transition();
+
+-- Function: Clear the lock on behalf of an authorized unlock
+CREATE OR REPLACE FUNCTION perform_account_unlock(
+  p_user_id TEXT,
+  p_method TEXT,
+  p_actor_id TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM set_config('famguard.unlock_method', p_method, true);
+  PERFORM set_config('famguard.unlock_actor', p_actor_id, true);
+
+  UPDATE users
+  SET is_locked = FALSE
+  WHERE id = p_user_id;
+
+  PERFORM set_config('famguard.unlock_method', '', true);
+  PERFORM set_config('famguard.unlock_actor', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal helpers: not callable by clients (would bypass the checks)
+REVOKE ALL ON FUNCTION perform_account_unlock(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION record_account_lock_event(TEXT, UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Backfill: open a lock for accounts that are already locked
+INSERT INTO account_locks (user_id, locked_by)
+SELECT u.id, u.id
+FROM users u
+WHERE u.is_locked = TRUE
+  AND NOT EXISTS (
+    SELECT 1 FROM account_locks al
+    WHERE al.user_id = u.id AND al.status = 'locked'
+  );
+
+-- ============================================
+-- PIN management
+-- ============================================
+
+-- Function: Set or change the current user's unlock PIN (4-8 digits)
+CREATE OR REPLACE FUNCTION set_unlock_pin(p_pin TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_pin IS NULL OR p_pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 8 digits' USING ERRCODE = '22023';
+  END IF;
+
+  -- A locked phone may be in someone else's hands
+  IF EXISTS (SELECT 1 FROM users u WHERE u.id = v_user_id AND u.is_locked = TRUE) THEN
+    RAISE EXCEPTION 'PIN cannot be changed while the account is locked' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO user_unlock_pins (user_id, pin_hash)
+  VALUES (v_user_id, crypt(p_pin, gen_salt('bf')))
+  ON CONFLICT (user_id) DO UPDATE
+  SET pin_hash = EXCLUDED.pin_hash;
+
+  PERFORM record_account_lock_event(v_user_id, NULL, v_user_id, 'pin_set');
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Remove the current user's unlock PIN
+CREATE OR REPLACE FUNCTION remove_unlock_pin()
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM users u WHERE u.id = v_user_id AND u.is_locked = TRUE) THEN
+    RAISE EXCEPTION 'PIN cannot be changed while the account is locked' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM user_unlock_pins WHERE user_id = v_user_id;
+  IF FOUND THEN
+    PERFORM record_account_lock_event(v_user_id, NULL, v_user_id, 'pin_removed');
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- Unlocking
+-- ============================================
+
+-- Function: Unlock the current user's account with their PIN
+CREATE OR REPLACE FUNCTION unlock_account_with_pin(p_pin TEXT)
+RETURNS TABLE (
+  unlocked BOOLEAN,
+  attempts_remaining INTEGER
+) AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+  v_lock account_locks;
+  v_pin_hash TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_lock
+  FROM account_locks al
+  WHERE al.user_id = v_user_id
+    AND al.status = 'locked'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- Nothing to unlock
+    RETURN QUERY SELECT NOT EXISTS (
+      SELECT 1 FROM users u WHERE u.id = v_user_id AND u.is_locked = TRUE
+    ), NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  SELECT p.pin_hash INTO v_pin_hash
+  FROM user_unlock_pins p
+  WHERE p.user_id = v_user_id;
+
+  IF v_pin_hash IS NULL OR v_lock.failed_pin_attempts >= max_unlock_pin_attempts() THEN
+    RETURN QUERY SELECT FALSE, 0;
+    RETURN;
+  END IF;
+
+  IF crypt(COALESCE(p_pin, ''), v_pin_hash) = v_pin_hash THEN
+    PERFORM perform_account_unlock(v_user_id, 'pin', v_user_id);
+    RETURN QUERY SELECT TRUE, NULL::INTEGER;
+    RETURN;
+  END IF;
+
+  UPDATE account_locks
+  SET failed_pin_attempts = failed_pin_attempts + 1
+  WHERE id = v_lock.id;
+
+  PERFORM record_account_lock_event(v_user_id, v_lock.id, v_user_id, 'pin_failed', 'pin');
+
+  RETURN QUERY SELECT FALSE, GREATEST(0, max_unlock_pin_attempts() - v_lock.failed_pin_attempts - 1);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Approve unlocking a connection's account
+-- Unlocks once the lock's required number of approvals is reached
+CREATE OR REPLACE FUNCTION approve_account_unlock(p_user_id TEXT)
+RETURNS TABLE (
+  unlocked BOOLEAN,
+  approvals INTEGER,
+  required_approvals INTEGER
+) AS $$
+DECLARE
+  v_approver_id TEXT := auth.uid()::TEXT;
+  v_lock account_locks;
+  v_approvals INTEGER;
+BEGIN
+  IF v_approver_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_approver_id = p_user_id THEN
+    RAISE EXCEPTION 'Use the account PIN to unlock your own account' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT are_users_connected(p_user_id, v_approver_id) THEN
+    RAISE EXCEPTION 'Only connections can approve an unlock' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_lock
+  FROM account_locks al
+  WHERE al.user_id = p_user_id
+    AND al.status = 'locked'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT TRUE, 0, 0;
+    RETURN;
+  END IF;
+
+  INSERT INTO account_unlock_approvals (lock_id, approver_id)
+  VALUES (v_lock.id, v_approver_id)
+  ON CONFLICT (lock_id, approver_id) DO NOTHING;
+
+  IF FOUND THEN
+    PERFORM record_account_lock_event(p_user_id, v_lock.id, v_approver_id, 'unlock_approved', 'quorum');
+  END IF;
+
+  SELECT COUNT(*) INTO v_approvals
+  FROM account_unlock_approvals a
+  WHERE a.lock_id = v_lock.id;
+
+  IF v_approvals >= v_lock.required_approvals THEN
+    PERFORM perform_account_unlock(p_user_id, 'quorum', v_approver_id);
+    RETURN QUERY SELECT TRUE, v_approvals, v_lock.required_approvals;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT FALSE, v_approvals, v_lock.required_approvals;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Lock status for the locked user and their connections
+CREATE OR REPLACE FUNCTION get_account_lock_status(p_user_id TEXT)
+RETURNS TABLE (
+  lock_id UUID,
+  is_locked BOOLEAN,
+  locked_at TIMESTAMP WITH TIME ZONE,
+  required_approvals INTEGER,
+  approver_ids JSONB,
+  has_pin BOOLEAN,
+  pin_attempts_remaining INTEGER
+) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    al.id,
+    COALESCE(u.is_locked, FALSE),
+    al.locked_at,
+    al.required_approvals,
+    COALESCE(
+      (
+        SELECT jsonb_agg(a.approver_id ORDER BY a.created_at)
+        FROM account_unlock_approvals a
+        WHERE a.lock_id = al.id
+      ),
+      '[]'::jsonb
+    ),
+    EXISTS (SELECT 1 FROM user_unlock_pins p WHERE p.user_id = u.id),
+    CASE
+      WHEN al.id IS NULL THEN NULL
+      ELSE GREATEST(0, max_unlock_pin_attempts() - al.failed_pin_attempts)
+    END
+  FROM users u
+  LEFT JOIN account_locks al
+    ON al.user_id = u.id
+    AND al.status = 'locked'
+  WHERE u.id = p_user_id;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION set_unlock_pin(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_unlock_pin() TO authenticated;
+GRANT EXECUTE ON FUNCTION unlock_account_with_pin(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION approve_account_unlock(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_account_lock_status(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_account_lock_status(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION are_users_connected(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION are_users_connected(TEXT, TEXT) TO service_role;
+
+-- Note: To review a user's lock history, execute:
+-- SELECT action, actor_name, method, created_at FROM account_lock_events
+-- WHERE user_id = '<user_id>' ORDER BY created_at DESC;
@@ -0,0 +1,420 @@
+-- ============================================
+-- Migration: Silent duress SOS
+-- ============================================
+-- An attacker may force the user to cancel an alert or unlock the app. The
+-- user can now raise a silent SOS that looks like a normal cancel/unlock:
+--   - a duress PIN: entered on the lock screen it unlocks the app exactly like
+--     the unlock PIN (same audit log entry), but also starts a silent SOS
+--   - start_silent_sos(): used by the hidden gesture on the home screen
+-- While users.duress_active_at is set, emergency tracking keeps running and
+-- the exact location is shared. Connections are alerted with an sos_alert
+-- notification flagged silentDuress, and only a connection can end it.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS duress_active_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE user_unlock_pins
+ADD COLUMN IF NOT EXISTS duress_pin_hash TEXT;
+
+-- ============================================
+-- Duress state (enforcement)
+-- ============================================
+
+-- Trigger function: Reject duress changes that skip set_duress_active
+-- Clearing duress_active_at from the client would silently cancel the alert,
+-- and setting it on someone else would expose their exact location.
+-- set_duress_active sets famguard.duress_change for the current transaction;
+-- backend requests (is_service_request) are allowed.
+CREATE OR REPLACE FUNCTION enforce_duress_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.duress_active_at IS NOT DISTINCT FROM NEW.duress_active_at THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT is_service_request()
+    AND COALESCE(current_setting('famguard.duress_change', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Duress state can only be changed with a silent SOS function'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_duress_change_trigger ON users;
+CREATE TRIGGER enforce_duress_change_trigger
+  BEFORE UPDATE OF duress_active_at ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_duress_change();
+
+-- Function: Start (keeping the original start time) or end a user's duress state
+CREATE OR REPLACE FUNCTION set_duress_active(p_user_id TEXT, p_active BOOLEAN)
+RETURNS VOID AS $$
+BEGIN
+  PERFORM set_config('famguard.duress_change', 'on', true);
+
+  UPDATE users
+  SET duress_active_at = CASE WHEN p_active THEN COALESCE(duress_active_at, NOW()) END
+  WHERE id = p_user_id;
+
+  PERFORM set_config('famguard.duress_change', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal helper: not callable by clients (would bypass the checks)
+REVOKE ALL ON FUNCTION set_duress_active(TEXT, BOOLEAN) FROM PUBLIC, anon, authenticated;
+
+-- Function: Alert every connection about a silent SOS
+-- Returns the recipients so the caller can push to them
+CREATE OR REPLACE FUNCTION notify_silent_sos(
+  p_user_id TEXT,
+  p_location JSONB DEFAULT NULL
+)
+RETURNS TABLE (recipient_id TEXT) AS $$
+DECLARE
+  v_user_name TEXT;
+  v_title TEXT := '🤫 Silent SOS';
+  v_body TEXT;
+BEGIN
+  SELECT COALESCE(u.name, 'Someone') INTO v_user_name
+  FROM users u
+  WHERE u.id = p_user_id;
+
+  v_body := COALESCE(v_user_name, 'Someone')
+    || ' triggered a silent SOS and may be under duress. Do not call or text them - their phone may be watched.';
+
+  RETURN QUERY
+  WITH recipients AS (
+    SELECT DISTINCT c.user_id AS id
+    FROM connections c
+    WHERE c.connected_user_id = p_user_id
+      AND c.status = 'connected'
+    UNION
+    SELECT DISTINCT c.connected_user_id AS id
+    FROM connections c
+    WHERE c.user_id = p_user_id
+      AND c.status = 'connected'
+  ),
+  inserted AS (
+    INSERT INTO notifications (user_id, title, body, type, data, read)
+    SELECT
+      r.id,
+      v_title,
+      v_body,
+      'sos_alert',
+      jsonb_build_object(
+        'type', 'sos_alert',
+        'silentDuress', true,
+        'userId', p_user_id,
+        'userName', v_user_name,
+        'location', p_location,
+        'timestamp', NOW()
+      ),
+      false
+    FROM recipients r
+    WHERE r.id IS NOT NULL
+      AND r.id <> p_user_id
+    RETURNING notifications.user_id
+  )
+  SELECT i.user_id FROM inserted i;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION notify_silent_sos(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Function: Start a silent SOS for the current user (hidden gesture)
+CREATE OR REPLACE FUNCTION start_silent_sos(p_location JSONB DEFAULT NULL)
+RETURNS TABLE (recipient_id TEXT) AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_duress_active(v_user_id, TRUE);
+
+  RETURN QUERY SELECT * FROM notify_silent_sos(v_user_id, p_location);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: End a silent SOS (connections only - the user's phone may be
+-- in the attacker's hands)
+CREATE OR REPLACE FUNCTION end_silent_sos(p_user_id TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_actor TEXT := auth.uid()::TEXT;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_actor = p_user_id OR NOT are_users_connected(p_user_id, v_actor) THEN
+    RAISE EXCEPTION 'Only connections can end a silent SOS' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_duress_active(p_user_id, FALSE);
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- Duress PIN management
+-- ============================================
+
+-- Function: Set or change the current user's duress PIN
+-- Requires an unlock PIN, and the two must differ
+CREATE OR REPLACE FUNCTION set_duress_pin(p_pin TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+  v_pin_hash TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_pin IS NULL OR p_pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 8 digits' USING ERRCODE = '22023';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM users u WHERE u.id = v_user_id AND u.is_locked = TRUE) THEN
+    RAISE EXCEPTION 'PIN cannot be changed while the account is locked' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT p.pin_hash INTO v_pin_hash
+  FROM user_unlock_pins p
+  WHERE p.user_id = v_user_id;
+
+  IF v_pin_hash IS NULL THEN
+    RAISE EXCEPTION 'Set an unlock PIN first' USING ERRCODE = '22023';
+  END IF;
+
+  IF crypt(p_pin, v_pin_hash) = v_pin_hash THEN
+    RAISE EXCEPTION 'Duress PIN must be different from your unlock PIN' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE user_unlock_pins
+  SET duress_pin_hash = crypt(p_pin, gen_salt('bf'))
+  WHERE user_id = v_user_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Remove the current user's duress PIN
+CREATE OR REPLACE FUNCTION remove_duress_pin()
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM users u WHERE u.id = v_user_id AND u.is_locked = TRUE) THEN
+    RAISE EXCEPTION 'PIN cannot be changed while the account is locked' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE user_unlock_pins
+  SET duress_pin_hash = NULL
+  WHERE user_id = v_user_id;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Check if the current user has a duress PIN
+CREATE OR REPLACE FUNCTION has_duress_pin()
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM user_unlock_pins p
+    WHERE p.user_id = auth.uid()::TEXT
+      AND p.duress_pin_hash IS NOT NULL
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function: Set or change the current user's unlock PIN (4-8 digits)
+-- Redefined so the unlock PIN can't match the duress PIN
+CREATE OR REPLACE FUNCTION set_unlock_pin(p_pin TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+  v_duress_hash TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_pin IS NULL OR p_pin !~ '^[0-9]{4,8}$' THEN
+    RAISE EXCEPTION 'PIN must be 4 to 8 digits' USING ERRCODE = '22023';
+  END IF;
+
+  -- A locked phone may be in someone else's hands
+  IF EXISTS (SELECT 1 FROM users u WHERE u.id = v_user_id AND u.is_locked = TRUE) THEN
+    RAISE EXCEPTION 'PIN cannot be changed while the account is locked' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT p.duress_pin_hash INTO v_duress_hash
+  FROM user_unlock_pins p
+  WHERE p.user_id = v_user_id;
+
+  IF v_duress_hash IS NOT NULL AND crypt(p_pin, v_duress_hash) = v_duress_hash THEN
+    RAISE EXCEPTION 'Unlock PIN must be different from your duress PIN' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO user_unlock_pins (user_id, pin_hash)
+  VALUES (v_user_id, crypt(p_pin, gen_salt('bf')))
+  ON CONFLICT (user_id) DO UPDATE
+  SET pin_hash = EXCLUDED.pin_hash;
+
+  PERFORM record_account_lock_event(v_user_id, NULL, v_user_id, 'pin_set');
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Remove the current user's unlock PIN (and the duress PIN that depends on it)
+CREATE OR REPLACE FUNCTION remove_unlock_pin()
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM users u WHERE u.id = v_user_id AND u.is_locked = TRUE) THEN
+    RAISE EXCEPTION 'PIN cannot be changed while the account is locked' USING ERRCODE = '42501';
+  END IF;
+
+  DELETE FROM user_unlock_pins WHERE user_id = v_user_id;
+  IF FOUND THEN
+    PERFORM record_account_lock_event(v_user_id, NULL, v_user_id, 'pin_removed');
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- Unlocking with the duress PIN
+-- ============================================
+
+-- The result gains a duress column, so the function is recreated
+DROP FUNCTION IF EXISTS unlock_account_with_pin(TEXT);
+
+-- Function: Unlock the current user's account with their PIN
+-- The duress PIN unlocks too (recorded exactly like a PIN unlock) and starts
+-- a silent SOS; the app then starts tracking and pushes the alerts quietly
+CREATE OR REPLACE FUNCTION unlock_account_with_pin(
+  p_pin TEXT,
+  p_location JSONB DEFAULT NULL
+)
+RETURNS TABLE (
+  unlocked BOOLEAN,
+  attempts_remaining INTEGER,
+  duress BOOLEAN
+) AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+  v_lock account_locks;
+  v_pin_hash TEXT;
+  v_duress_hash TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_lock
+  FROM account_locks al
+  WHERE al.user_id = v_user_id
+    AND al.status = 'locked'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    -- Nothing to unlock
+    RETURN QUERY SELECT NOT EXISTS (
+      SELECT 1 FROM users u WHERE u.id = v_user_id AND u.is_locked = TRUE
+    ), NULL::INTEGER, FALSE;
+    RETURN;
+  END IF;
+
+  SELECT p.pin_hash, p.duress_pin_hash INTO v_pin_hash, v_duress_hash
+  FROM user_unlock_pins p
+  WHERE p.user_id = v_user_id;
+
+  -- The duress PIN works even after too many wrong attempts
+  IF v_duress_hash IS NOT NULL AND crypt(COALESCE(p_pin, ''), v_duress_hash) = v_duress_hash THEN
+    PERFORM perform_account_unlock(v_user_id, 'pin', v_user_id);
+
+    PERFORM set_duress_active(v_user_id, TRUE);
+
+    PERFORM * FROM notify_silent_sos(v_user_id, p_location);
+    RETURN QUERY SELECT TRUE, NULL::INTEGER, TRUE;
+    RETURN;
+  END IF;
+
+  IF v_pin_hash IS NULL OR v_lock.failed_pin_attempts >= max_unlock_pin_attempts() THEN
+    RETURN QUERY SELECT FALSE, 0, FALSE;
+    RETURN;
+  END IF;
+
+  IF crypt(COALESCE(p_pin, ''), v_pin_hash) = v_pin_hash THEN
+    PERFORM perform_account_unlock(v_user_id, 'pin', v_user_id);
+    RETURN QUERY SELECT TRUE, NULL::INTEGER, FALSE;
+    RETURN;
+  END IF;
+
+  UPDATE account_locks
+  SET failed_pin_attempts = failed_pin_attempts + 1
+  WHERE id = v_lock.id;
+
+  PERFORM record_account_lock_event(v_user_id, v_lock.id, v_user_id, 'pin_failed', 'pin');
+
+  RETURN QUERY SELECT FALSE, GREATEST(0, max_unlock_pin_attempts() - v_lock.failed_pin_attempts - 1), FALSE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Check if a user's shared location should be approximated
+-- Redefined: also exact while a silent SOS is active
+CREATE OR REPLACE FUNCTION should_approximate_location(p_user_id TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_mode TEXT;
+  v_is_locked BOOLEAN;
+  v_duress_active_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF p_user_id IS NULL THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT location_accuracy INTO v_mode
+  FROM user_settings
+  WHERE user_id = p_user_id;
+
+  IF v_mode IS DISTINCT FROM 'approximate' THEN
+    RETURN FALSE;
+  END IF;
+
+  SELECT is_locked, duress_active_at INTO v_is_locked, v_duress_active_at
+  FROM users
+  WHERE id = p_user_id;
+
+  RETURN NOT COALESCE(v_is_locked, FALSE) AND v_duress_active_at IS NULL;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION start_silent_sos(JSONB) TO authenticated;
+GRANT EXECUTE ON FUNCTION end_silent_sos(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_duress_pin(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_duress_pin() TO authenticated;
+GRANT EXECUTE ON FUNCTION has_duress_pin() TO authenticated;
+GRANT EXECUTE ON FUNCTION unlock_account_with_pin(TEXT, JSONB) TO authenticated;
+
+-- Note: To list users with an active silent SOS, execute:
+-- SELECT id, name, duress_active_at FROM users WHERE duress_active_at IS NOT NULL;
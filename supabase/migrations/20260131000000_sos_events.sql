@@ -0,0 +1,475 @@
+-- ============================================
+-- Migration: SOS events (timeline and resolution workflow)
+-- ============================================
+-- Every SOS (including a silent SOS) opens an sos_events row that keeps:
+--   - the full breadcrumb trail (sos_event_locations). SOS tracking still
+--     rewrites its 5 location_history rows for the map, but the trail is
+--     never overwritten
+--   - which connections acknowledged the alert ("I'm on my way")
+--   - a timeline of status changes and notes (sos_event_updates)
+-- Status: active -> responder_en_route -> resolved / false_alarm.
+-- Clients only read these tables; all writes go through the functions below,
+-- which check that the caller is the user in distress or one of their
+-- connections. A silent SOS can only be closed by a connection, and closing
+-- it ends the duress state (and vice versa).
+
+-- ============================================
+-- Tables
+-- ============================================
+CREATE TABLE IF NOT EXISTS sos_events (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  user_name TEXT,
+  status TEXT NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'responder_en_route', 'resolved', 'false_alarm')),
+  silent BOOLEAN NOT NULL DEFAULT FALSE,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  last_latitude DOUBLE PRECISION,
+  last_longitude DOUBLE PRECISION,
+  last_address TEXT,
+  last_reported_at TIMESTAMP WITH TIME ZONE,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  closed_by TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sos_events_user_id ON sos_events(user_id, created_at DESC);
+
+-- Only one open SOS event per user
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sos_events_one_open_per_user
+  ON sos_events(user_id)
+  WHERE status IN ('active', 'responder_en_route');
+
+DROP TRIGGER IF EXISTS update_sos_events_updated_at ON sos_events;
+CREATE TRIGGER update_sos_events_updated_at
+  BEFORE UPDATE ON sos_events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Breadcrumb trail
+CREATE TABLE IF NOT EXISTS sos_event_locations (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES sos_events(id) ON DELETE CASCADE,
+  latitude DOUBLE PRECISION NOT NULL,
+  longitude DOUBLE PRECISION NOT NULL,
+  address TEXT,
+  accuracy DOUBLE PRECISION,
+  recorded_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sos_event_locations_event_id ON sos_event_locations(event_id, recorded_at);
+
+-- Connections who acknowledged the alert
+CREATE TABLE IF NOT EXISTS sos_event_acknowledgements (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES sos_events(id) ON DELETE CASCADE,
+  responder_id TEXT NOT NULL,
+  responder_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(event_id, responder_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sos_event_acknowledgements_event_id ON sos_event_acknowledgements(event_id);
+
+-- Timeline (status changes and notes)
+CREATE TABLE IF NOT EXISTS sos_event_updates (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  event_id UUID NOT NULL REFERENCES sos_events(id) ON DELETE CASCADE,
+  actor_id TEXT,
+  actor_name TEXT,
+  kind TEXT NOT NULL CHECK (kind IN ('opened', 'acknowledged', 'status_changed', 'note')),
+  status TEXT CHECK (status IN ('active', 'responder_en_route', 'resolved', 'false_alarm')),
+  note TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sos_event_updates_event_id ON sos_event_updates(event_id, created_at);
+
+-- ============================================
+-- Row Level Security (read-only for clients)
+-- ============================================
+
+-- Function: Check if the current user may see an SOS event of p_user_id
+CREATE OR REPLACE FUNCTION can_view_sos_event(p_user_id TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN auth.uid() IS NOT NULL
+    AND (
+      p_user_id = auth.uid()::TEXT
+      OR are_users_connected(p_user_id, auth.uid()::TEXT)
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+ALTER TABLE sos_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sos_event_locations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sos_event_acknowledgements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sos_event_updates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users and connections can view SOS events" ON sos_events;
+CREATE POLICY "Users and connections can view SOS events"
+  ON sos_events FOR SELECT
+  USING (can_view_sos_event(user_id));
+
+DROP POLICY IF EXISTS "Users and connections can view SOS event locations" ON sos_event_locations;
+CREATE POLICY "Users and connections can view SOS event locations"
+  ON sos_event_locations FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM sos_events e
+    WHERE e.id = sos_event_locations.event_id
+      AND can_view_sos_event(e.user_id)
+  ));
+
+DROP POLICY IF EXISTS "Users and connections can view SOS event acknowledgements" ON sos_event_acknowledgements;
+CREATE POLICY "Users and connections can view SOS event acknowledgements"
+  ON sos_event_acknowledgements FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM sos_events e
+    WHERE e.id = sos_event_acknowledgements.event_id
+      AND can_view_sos_event(e.user_id)
+  ));
+
+DROP POLICY IF EXISTS "Users and connections can view SOS event updates" ON sos_event_updates;
+CREATE POLICY "Users and connections can view SOS event updates"
+  ON sos_event_updates FOR SELECT
+  USING (EXISTS (
+    SELECT 1 FROM sos_events e
+    WHERE e.id = sos_event_updates.event_id
+      AND can_view_sos_event(e.user_id)
+  ));
+
+GRANT SELECT ON sos_events TO authenticated;
+GRANT ALL ON sos_events TO service_role;
+GRANT SELECT ON sos_event_locations TO authenticated;
+GRANT ALL ON sos_event_locations TO service_role;
+GRANT SELECT ON sos_event_acknowledgements TO authenticated;
+GRANT ALL ON sos_event_acknowledgements TO service_role;
+GRANT SELECT ON sos_event_updates TO authenticated;
+GRANT ALL ON sos_event_updates TO service_role;
+
+-- Responders follow the event live
+ALTER PUBLICATION supabase_realtime ADD TABLE sos_events;
+ALTER PUBLICATION supabase_realtime ADD TABLE sos_event_locations;
+ALTER PUBLICATION supabase_realtime ADD TABLE sos_event_acknowledgements;
+ALTER PUBLICATION supabase_realtime ADD TABLE sos_event_updates;
+
+-- ============================================
+-- Opening an event and recording the trail
+-- ============================================
+
+-- Function: Open an SOS event for the current user
+-- Returns the already open event if there is one (a second SOS, or a silent
+-- SOS during a normal one, joins the same timeline).
+CREATE OR REPLACE FUNCTION open_sos_event(
+  p_location JSONB DEFAULT NULL,
+  p_silent BOOLEAN DEFAULT FALSE
+)
+RETURNS SETOF sos_events AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+  v_user_name TEXT;
+  v_event sos_events;
+  v_latitude DOUBLE PRECISION := (p_location->>'latitude')::DOUBLE PRECISION;
+  v_longitude DOUBLE PRECISION := (p_location->>'longitude')::DOUBLE PRECISION;
+  v_address TEXT := p_location->>'address';
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_event
+  FROM sos_events e
+  WHERE e.user_id = v_user_id
+    AND e.status IN ('active', 'responder_en_route')
+  FOR UPDATE;
+
+  IF FOUND THEN
+    IF p_silent AND NOT v_event.silent THEN
+      UPDATE sos_events
+      SET silent = TRUE
+      WHERE id = v_event.id
+      RETURNING * INTO v_event;
+    END IF;
+
+    RETURN NEXT v_event;
+    RETURN;
+  END IF;
+
+  SELECT COALESCE(u.name, 'Someone') INTO v_user_name
+  FROM users u
+  WHERE u.id = v_user_id;
+
+  INSERT INTO sos_events (
+    user_id, user_name, silent,
+    latitude, longitude, address,
+    last_latitude, last_longitude, last_address, last_reported_at
+  )
+  VALUES (
+    v_user_id, v_user_name, COALESCE(p_silent, FALSE),
+    v_latitude, v_longitude, v_address,
+    v_latitude, v_longitude, v_address,
+    CASE WHEN v_latitude IS NOT NULL THEN NOW() END
+  )
+  RETURNING * INTO v_event;
+
+  INSERT INTO sos_event_updates (event_id, actor_id, actor_name, kind, status)
+  VALUES (v_event.id, v_user_id, v_user_name, 'opened', 'active');
+
+  IF v_latitude IS NOT NULL AND v_longitude IS NOT NULL THEN
+    INSERT INTO sos_event_locations (event_id, latitude, longitude, address)
+    VALUES (v_event.id, v_latitude, v_longitude, v_address);
+  END IF;
+
+  RETURN NEXT v_event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Append a breadcrumb to the current user's open SOS event
+-- Returns FALSE once the event is closed, so the app stops recording.
+CREATE OR REPLACE FUNCTION record_sos_event_location(
+  p_event_id UUID,
+  p_latitude DOUBLE PRECISION,
+  p_longitude DOUBLE PRECISION,
+  p_address TEXT DEFAULT NULL,
+  p_accuracy DOUBLE PRECISION DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  UPDATE sos_events
+  SET last_latitude = p_latitude,
+      last_longitude = p_longitude,
+      last_address = COALESCE(p_address, last_address),
+      last_reported_at = NOW()
+  WHERE id = p_event_id
+    AND user_id = v_user_id
+    AND status IN ('active', 'responder_en_route');
+
+  IF NOT FOUND THEN
+    RETURN FALSE;
+  END IF;
+
+  INSERT INTO sos_event_locations (event_id, latitude, longitude, address, accuracy)
+  VALUES (p_event_id, p_latitude, p_longitude, p_address, p_accuracy);
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- Responder actions
+-- ============================================
+
+-- Function: Load an event the current user may act on (locked for update)
+CREATE OR REPLACE FUNCTION get_sos_event_for_actor(p_event_id UUID, p_actor_id TEXT)
+RETURNS sos_events AS $$
+DECLARE
+  v_event sos_events;
+BEGIN
+  IF p_actor_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_event
+  FROM sos_events e
+  WHERE e.id = p_event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'SOS event not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_event.user_id <> p_actor_id AND NOT are_users_connected(v_event.user_id, p_actor_id) THEN
+    RAISE EXCEPTION 'Not allowed to update this SOS event' USING ERRCODE = '42501';
+  END IF;
+
+  RETURN v_event;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION get_sos_event_for_actor(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Function: Acknowledge an SOS ("I'm on my way")
+-- Moves an active event to responder_en_route. Returns the event status.
+CREATE OR REPLACE FUNCTION acknowledge_sos_event(p_event_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+  v_actor TEXT := auth.uid()::TEXT;
+  v_actor_name TEXT;
+  v_event sos_events;
+BEGIN
+  v_event := get_sos_event_for_actor(p_event_id, v_actor);
+
+  IF v_event.user_id = v_actor THEN
+    RAISE EXCEPTION 'Only connections can respond to an SOS' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_event.status NOT IN ('active', 'responder_en_route') THEN
+    RETURN v_event.status;
+  END IF;
+
+  SELECT COALESCE(u.name, 'A connection') INTO v_actor_name
+  FROM users u
+  WHERE u.id = v_actor;
+
+  INSERT INTO sos_event_acknowledgements (event_id, responder_id, responder_name)
+  VALUES (p_event_id, v_actor, v_actor_name)
+  ON CONFLICT (event_id, responder_id) DO NOTHING;
+
+  IF NOT FOUND THEN
+    RETURN v_event.status;
+  END IF;
+
+  INSERT INTO sos_event_updates (event_id, actor_id, actor_name, kind, status)
+  VALUES (p_event_id, v_actor, v_actor_name, 'acknowledged', 'responder_en_route');
+
+  IF v_event.status = 'active' THEN
+    UPDATE sos_events
+    SET status = 'responder_en_route'
+    WHERE id = p_event_id;
+  END IF;
+
+  RETURN 'responder_en_route';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Change the status of an SOS event, with an optional note
+-- resolved / false_alarm close the event. A silent SOS can only be closed by
+-- a connection, and closing it ends the duress state.
+CREATE OR REPLACE FUNCTION set_sos_event_status(
+  p_event_id UUID,
+  p_status TEXT,
+  p_note TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_actor TEXT := auth.uid()::TEXT;
+  v_actor_name TEXT;
+  v_event sos_events;
+  v_closing BOOLEAN := p_status IN ('resolved', 'false_alarm');
+BEGIN
+  IF p_status NOT IN ('active', 'responder_en_route', 'resolved', 'false_alarm') THEN
+    RAISE EXCEPTION 'Invalid SOS event status: %', p_status USING ERRCODE = '22023';
+  END IF;
+
+  v_event := get_sos_event_for_actor(p_event_id, v_actor);
+
+  IF v_event.status NOT IN ('active', 'responder_en_route') THEN
+    RAISE EXCEPTION 'This SOS event is already closed' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_closing AND v_event.silent AND v_event.user_id = v_actor THEN
+    RAISE EXCEPTION 'Only connections can close a silent SOS' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_event.status = p_status THEN
+    RETURN TRUE;
+  END IF;
+
+  SELECT COALESCE(u.name, 'Someone') INTO v_actor_name
+  FROM users u
+  WHERE u.id = v_actor;
+
+  UPDATE sos_events
+  SET status = p_status,
+      closed_at = CASE WHEN v_closing THEN NOW() END,
+      closed_by = CASE WHEN v_closing THEN v_actor END
+  WHERE id = p_event_id;
+
+  INSERT INTO sos_event_updates (event_id, actor_id, actor_name, kind, status, note)
+  VALUES (p_event_id, v_actor, v_actor_name, 'status_changed', p_status, NULLIF(TRIM(p_note), ''));
+
+  IF v_closing AND v_event.silent THEN
+    PERFORM set_duress_active(v_event.user_id, FALSE);
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Add a note to the timeline of an SOS event
+CREATE OR REPLACE FUNCTION add_sos_event_note(p_event_id UUID, p_note TEXT)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_actor TEXT := auth.uid()::TEXT;
+  v_actor_name TEXT;
+  v_event sos_events;
+BEGIN
+  IF NULLIF(TRIM(p_note), '') IS NULL THEN
+    RAISE EXCEPTION 'Note cannot be empty' USING ERRCODE = '22023';
+  END IF;
+
+  v_event := get_sos_event_for_actor(p_event_id, v_actor);
+
+  SELECT COALESCE(u.name, 'Someone') INTO v_actor_name
+  FROM users u
+  WHERE u.id = v_actor;
+
+  INSERT INTO sos_event_updates (event_id, actor_id, actor_name, kind, note)
+  VALUES (v_event.id, v_actor, v_actor_name, 'note', LEFT(TRIM(p_note), 1000));
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- Ending a silent SOS closes its event
+-- ============================================
+
+-- Trigger function: Resolve the open silent event when duress ends
+-- (end_silent_sos from the connection screen)
+CREATE OR REPLACE FUNCTION resolve_silent_sos_event()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_actor TEXT := auth.uid()::TEXT;
+  v_actor_name TEXT;
+  v_event_id UUID;
+BEGIN
+  UPDATE sos_events
+  SET status = 'resolved',
+      closed_at = NOW(),
+      closed_by = v_actor
+  WHERE user_id = NEW.id
+    AND silent = TRUE
+    AND status IN ('active', 'responder_en_route')
+  RETURNING id INTO v_event_id;
+
+  IF v_event_id IS NOT NULL THEN
+    SELECT COALESCE(u.name, 'Someone') INTO v_actor_name
+    FROM users u
+    WHERE u.id = v_actor;
+
+    INSERT INTO sos_event_updates (event_id, actor_id, actor_name, kind, status, note)
+    VALUES (v_event_id, v_actor, v_actor_name, 'status_changed', 'resolved', 'Marked safe');
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS resolve_silent_sos_event_on_users ON users;
+CREATE TRIGGER resolve_silent_sos_event_on_users
+  AFTER UPDATE OF duress_active_at ON users
+  FOR EACH ROW
+  WHEN (OLD.duress_active_at IS NOT NULL AND NEW.duress_active_at IS NULL)
+  EXECUTE FUNCTION resolve_silent_sos_event();
+
+GRANT EXECUTE ON FUNCTION can_view_sos_event(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION open_sos_event(JSONB, BOOLEAN) TO authenticated;
+GRANT EXECUTE ON FUNCTION record_sos_event_location(UUID, DOUBLE PRECISION, DOUBLE PRECISION, TEXT, DOUBLE PRECISION) TO authenticated;
+GRANT EXECUTE ON FUNCTION acknowledge_sos_event(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION set_sos_event_status(UUID, TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_sos_event_note(UUID, TEXT) TO authenticated;
+
+-- Note: To review the timeline of a user's latest SOS, execute:
+-- SELECT kind, status, actor_name, note, created_at FROM sos_event_updates
+-- WHERE event_id = (SELECT id FROM sos_events WHERE user_id = '<user_id>' ORDER BY created_at DESC LIMIT 1)
+-- ORDER BY created_at;
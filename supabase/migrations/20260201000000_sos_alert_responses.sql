@@ -0,0 +1,235 @@
+-- ============================================
+-- Migration: Responding to SOS alerts from the notification
+-- ============================================
+-- sos_alert pushes carry the actions "I'm responding", "Call", "Navigate" and
+-- "Can't help" (a silent SOS has no "Call"). respond_to_sos_event() writes
+-- the response to the SOS event and notifies the sender and the other
+-- connections, so everyone knows who is handling it:
+--   - responding / navigating: the connection is on their way (moves an
+--     active event to responder_en_route)
+--   - calling: recorded on the timeline
+--   - cant_help: recorded, so others know to step in
+-- A silent SOS never notifies the sender (their phone may be watched).
+-- Replaces acknowledge_sos_event() from the sos_events migration.
+
+ALTER TABLE sos_event_acknowledgements
+ADD COLUMN IF NOT EXISTS response TEXT NOT NULL DEFAULT 'responding'
+  CHECK (response IN ('responding', 'cant_help'));
+
+ALTER TABLE sos_event_acknowledgements
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+DROP TRIGGER IF EXISTS update_sos_event_acknowledgements_updated_at ON sos_event_acknowledgements;
+CREATE TRIGGER update_sos_event_acknowledgements_updated_at
+  BEFORE UPDATE ON sos_event_acknowledgements
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE sos_event_updates DROP CONSTRAINT IF EXISTS sos_event_updates_kind_check;
+ALTER TABLE sos_event_updates
+  ADD CONSTRAINT sos_event_updates_kind_check
+  CHECK (kind IN ('opened', 'acknowledged', 'called', 'cant_help', 'status_changed', 'note'));
+
+DROP FUNCTION IF EXISTS acknowledge_sos_event(UUID);
+
+-- ============================================
+-- Responding
+-- ============================================
+
+-- Function: Respond to a connection's SOS
+-- p_event_id may be NULL (a silent SOS alert has no event id), in which case
+-- the user's open event is used. Returns the notification so the caller can
+-- push it; no rows when the response changed nothing.
+CREATE OR REPLACE FUNCTION respond_to_sos_event(
+  p_user_id TEXT,
+  p_response TEXT,
+  p_event_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  sos_event_id UUID,
+  recipient_ids JSONB,
+  title TEXT,
+  body TEXT
+) AS $$
+DECLARE
+  v_actor TEXT := auth.uid()::TEXT;
+  v_actor_name TEXT;
+  v_event sos_events;
+  v_previous TEXT;
+  v_response TEXT;
+  v_kind TEXT;
+  v_title TEXT;
+  v_body TEXT;
+  v_recipients JSONB;
+BEGIN
+  IF p_response NOT IN ('responding', 'navigating', 'calling', 'cant_help') THEN
+    RAISE EXCEPTION 'Invalid SOS response: %', p_response USING ERRCODE = '22023';
+  END IF;
+
+  IF p_event_id IS NULL THEN
+    SELECT e.id INTO p_event_id
+    FROM sos_events e
+    WHERE e.user_id = p_user_id
+      AND e.status IN ('active', 'responder_en_route');
+
+    IF p_event_id IS NULL THEN
+      RAISE EXCEPTION 'This SOS is no longer active' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  v_event := get_sos_event_for_actor(p_event_id, v_actor);
+
+  IF v_event.user_id = v_actor THEN
+    RAISE EXCEPTION 'Only connections can respond to an SOS' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_event.status NOT IN ('active', 'responder_en_route') THEN
+    RAISE EXCEPTION 'This SOS is no longer active' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(u.name, 'A connection') INTO v_actor_name
+  FROM users u
+  WHERE u.id = v_actor;
+
+  SELECT a.response INTO v_previous
+  FROM sos_event_acknowledgements a
+  WHERE a.event_id = v_event.id
+    AND a.responder_id = v_actor;
+
+  IF p_response = 'calling' THEN
+    v_kind := 'called';
+    v_title := '📞 ' || v_actor_name || ' is calling ' || v_event.user_name;
+    v_body := v_actor_name || ' is calling ' || v_event.user_name || ' about the SOS.';
+  ELSE
+    v_response := CASE WHEN p_response = 'cant_help' THEN 'cant_help' ELSE 'responding' END;
+
+    -- Same response again (e.g. "Navigate" after "I'm responding"): nothing to announce
+    IF v_previous IS NOT DISTINCT FROM v_response THEN
+      RETURN;
+    END IF;
+
+    INSERT INTO sos_event_acknowledgements (event_id, responder_id, responder_name, response)
+    VALUES (v_event.id, v_actor, v_actor_name, v_response)
+    ON CONFLICT ON CONSTRAINT sos_event_acknowledgements_event_id_responder_id_key
+    DO UPDATE SET response = EXCLUDED.response, responder_name = EXCLUDED.responder_name;
+
+    IF v_response = 'responding' THEN
+      v_kind := 'acknowledged';
+      v_title := '🏃 ' || v_actor_name || ' is responding';
+      v_body := v_actor_name || ' is on the way to help ' || v_event.user_name || '.';
+
+      IF v_event.status = 'active' THEN
+        UPDATE sos_events
+        SET status = 'responder_en_route'
+        WHERE id = v_event.id;
+      END IF;
+    ELSE
+      v_kind := 'cant_help';
+      v_title := '⚠️ ' || v_actor_name || ' can''t help';
+      v_body := v_actor_name || ' can''t help ' || v_event.user_name || ' right now.';
+    END IF;
+  END IF;
+
+  INSERT INTO sos_event_updates (event_id, actor_id, actor_name, kind, status)
+  VALUES (
+    v_event.id,
+    v_actor,
+    v_actor_name,
+    v_kind,
+    CASE WHEN v_kind = 'acknowledged' THEN 'responder_en_route' END
+  );
+
+  -- The sender (unless silent) and every other connection of the sender
+  WITH recipients AS (
+    SELECT c.user_id AS id
+    FROM connections c
+    WHERE c.connected_user_id = v_event.user_id
+      AND c.status = 'connected'
+    UNION
+    SELECT c.connected_user_id AS id
+    FROM connections c
+    WHERE c.user_id = v_event.user_id
+      AND c.status = 'connected'
+    UNION
+    SELECT v_event.user_id AS id
+    WHERE NOT v_event.silent
+  )
+  SELECT COALESCE(jsonb_agg(r.id), '[]'::jsonb) INTO v_recipients
+  FROM recipients r
+  WHERE r.id IS NOT NULL
+    AND r.id <> v_actor;
+
+  INSERT INTO notifications (user_id, title, body, type, data, read)
+  SELECT
+    recipient.id,
+    v_title,
+    v_body,
+    'sos_response',
+    jsonb_build_object(
+      'type', 'sos_response',
+      'sosEventId', v_event.id,
+      'userId', v_event.user_id,
+      'responderId', v_actor,
+      'responderName', v_actor_name,
+      'response', p_response,
+      'timestamp', NOW()
+    ),
+    false
+  FROM jsonb_array_elements_text(v_recipients) AS recipient(id);
+
+  RETURN QUERY SELECT v_event.id, v_recipients, v_title, v_body;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- Notification types
+-- ============================================
+
+-- Drop ALL existing type constraints (they might have different names)
+DO $$
+DECLARE
+    r RECORD;
+BEGIN
+    FOR r IN (
+        SELECT constraint_name
+        FROM information_schema.table_constraints
+        WHERE table_name = 'notifications'
+        AND constraint_type = 'CHECK'
+        AND constraint_name LIKE '%type%'
+    ) LOOP
+        EXECUTE 'ALTER TABLE notifications DROP CONSTRAINT IF EXISTS ' || quote_ident(r.constraint_name);
+    END LOOP;
+END $$;
+
+-- Re-add the constraint with all notification types, including SOS responses
+ALTER TABLE notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN (
+    'sos_alert',
+    'sos_response',
+    'connection_added',
+    'location_updated',
+    'incident',
+    'incident_proximity',
+    'location_reminder',
+    'check_in',
+    'check_in_emergency',
+    'check_in_unsafe',
+    'missed_check_in',
+    'travel_advisory',
+    'route_risk',
+    'general',
+    'app_update',
+    'place_arrival',
+    'place_departure',
+    'trip_started',
+    'trip_arrived',
+    'trip_cancelled',
+    'trip_overdue'
+  ));
+
+GRANT EXECUTE ON FUNCTION respond_to_sos_event(TEXT, TEXT, UUID) TO authenticated;
+
+-- Note: To see who is handling an SOS, execute:
+-- SELECT responder_name, response, updated_at FROM sos_event_acknowledgements
+-- WHERE event_id = '<event_id>' ORDER BY created_at;
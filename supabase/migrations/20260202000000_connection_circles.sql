@@ -0,0 +1,568 @@
+-- ============================================
+-- Migration: Connection circles and roles
+-- ============================================
+-- Connections used to be all-or-nothing: every connection saw the user's
+-- location, got every SOS and check-in alert, and could approve an unlock.
+-- Users can now group connections into named circles (Family, Work,
+-- Neighbors, ...) and decide per circle what its members get:
+--   - share_location:   members see the user's live location
+--   - sos_alerts:       members are alerted on an SOS (and its responses)
+--   - check_in_alerts:  members get emergency/unsafe/missed check-in alerts
+--   - unlock_approval:  members can approve unlocking the account after an SOS
+-- Each member has a role in the circle:
+--   - guardian:  always gets everything, whatever the circle settings
+--   - member:    follows the circle settings
+--   - dependent: follows the circle settings, but can never approve an unlock
+-- A connection in several circles gets a permission if any circle grants it.
+-- Connections that are not in any circle keep the previous behaviour
+-- (everything), so nothing changes until the user sets up circles.
+-- While the user is locked after an SOS or under duress, every connection
+-- keeps seeing the location.
+
+-- ============================================
+-- Tables
+-- ============================================
+CREATE TABLE IF NOT EXISTS circles (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  owner_id TEXT NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 40),
+  share_location BOOLEAN NOT NULL DEFAULT TRUE,
+  sos_alerts BOOLEAN NOT NULL DEFAULT TRUE,
+  check_in_alerts BOOLEAN NOT NULL DEFAULT TRUE,
+  unlock_approval BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_circles_owner_id ON circles(owner_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_circles_owner_name ON circles(owner_id, lower(btrim(name)));
+
+DROP TRIGGER IF EXISTS update_circles_updated_at ON circles;
+CREATE TRIGGER update_circles_updated_at
+  BEFORE UPDATE ON circles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TABLE IF NOT EXISTS circle_members (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  circle_id UUID NOT NULL REFERENCES circles(id) ON DELETE CASCADE,
+  member_id TEXT NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('guardian', 'member', 'dependent')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  UNIQUE(circle_id, member_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_circle_members_member_id ON circle_members(member_id);
+
+DROP TRIGGER IF EXISTS update_circle_members_updated_at ON circle_members;
+CREATE TRIGGER update_circle_members_updated_at
+  BEFORE UPDATE ON circle_members
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- Row Level Security (owners manage their own circles)
+-- ============================================
+ALTER TABLE circles ENABLE ROW LEVEL SECURITY;
+ALTER TABLE circle_members ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can manage their own circles" ON circles;
+CREATE POLICY "Users can manage their own circles"
+  ON circles FOR ALL
+  USING (owner_id = auth.uid()::TEXT)
+  WITH CHECK (owner_id = auth.uid()::TEXT);
+
+-- Only connections of the owner can be added to a circle
+DROP POLICY IF EXISTS "Users can manage the members of their circles" ON circle_members;
+CREATE POLICY "Users can manage the members of their circles"
+  ON circle_members FOR ALL
+  USING (EXISTS (
+    SELECT 1 FROM circles c
+    WHERE c.id = circle_members.circle_id
+      AND c.owner_id = auth.uid()::TEXT
+  ))
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM circles c
+      WHERE c.id = circle_members.circle_id
+        AND c.owner_id = auth.uid()::TEXT
+    )
+    AND are_users_connected(auth.uid()::TEXT, member_id)
+  );
+
+GRANT ALL ON circles TO authenticated;
+GRANT ALL ON circles TO service_role;
+GRANT ALL ON circle_members TO authenticated;
+GRANT ALL ON circle_members TO service_role;
+
+-- ============================================
+-- Permissions
+-- ============================================
+
+-- Function: Check if a connection gets a permission from the user's circles
+-- p_permission: 'location', 'sos', 'check_in' or 'unlock'
+CREATE OR REPLACE FUNCTION has_circle_permission(
+  p_user_id TEXT,
+  p_connection_id TEXT,
+  p_permission TEXT
+)
+RETURNS BOOLEAN AS $$
+BEGIN
+  -- Not in any circle: everything, as before circles existed
+  IF NOT EXISTS (
+    SELECT 1
+    FROM circle_members m
+    JOIN circles c ON c.id = m.circle_id
+    WHERE c.owner_id = p_user_id
+      AND m.member_id = p_connection_id
+  ) THEN
+    RETURN TRUE;
+  END IF;
+
+  RETURN EXISTS (
+    SELECT 1
+    FROM circle_members m
+    JOIN circles c ON c.id = m.circle_id
+    WHERE c.owner_id = p_user_id
+      AND m.member_id = p_connection_id
+      AND CASE p_permission
+        WHEN 'location' THEN m.role = 'guardian' OR c.share_location
+        WHEN 'sos' THEN m.role = 'guardian' OR c.sos_alerts
+        WHEN 'check_in' THEN m.role = 'guardian' OR c.check_in_alerts
+        WHEN 'unlock' THEN m.role = 'guardian' OR (m.role = 'member' AND c.unlock_approval)
+        ELSE FALSE
+      END
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function: Everyone connected to the user (either direction) who gets a permission
+CREATE OR REPLACE FUNCTION circle_recipients(p_user_id TEXT, p_permission TEXT)
+RETURNS TABLE (recipient_id TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  WITH connected AS (
+    SELECT c.user_id AS id
+    FROM connections c
+    WHERE c.connected_user_id = p_user_id
+      AND c.status = 'connected'
+    UNION
+    SELECT c.connected_user_id AS id
+    FROM connections c
+    WHERE c.user_id = p_user_id
+      AND c.status = 'connected'
+  )
+  SELECT connected.id
+  FROM connected
+  WHERE connected.id IS NOT NULL
+    AND connected.id <> p_user_id
+    AND has_circle_permission(p_user_id, connected.id, p_permission);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Internal helpers: clients use get_circle_recipients (own circles only)
+REVOKE ALL ON FUNCTION has_circle_permission(TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION circle_recipients(TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Function: Recipients for the current user's alerts
+-- Backend requests (is_service_request, e.g. edge functions) may ask for anyone
+CREATE OR REPLACE FUNCTION get_circle_recipients(p_user_id TEXT, p_permission TEXT)
+RETURNS TABLE (recipient_id TEXT) AS $$
+BEGIN
+  IF NOT is_service_request() AND (auth.uid() IS NULL OR auth.uid()::TEXT <> p_user_id) THEN
+    RAISE EXCEPTION 'You can only load your own circles' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_permission NOT IN ('location', 'sos', 'check_in', 'unlock') THEN
+    RAISE EXCEPTION 'Invalid circle permission: %', p_permission USING ERRCODE = '22023';
+  END IF;
+
+  RETURN QUERY SELECT * FROM circle_recipients(p_user_id, p_permission);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- Location sharing
+-- ============================================
+
+-- Function: Check if the user is in an emergency (locked after an SOS or under duress)
+CREATE OR REPLACE FUNCTION is_user_in_emergency(p_user_id TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN EXISTS (
+    SELECT 1
+    FROM users u
+    WHERE u.id = p_user_id
+      AND (COALESCE(u.is_locked, FALSE) OR u.duress_active_at IS NOT NULL)
+  );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Trigger function: connections rows (location of connected_user_id, seen by user_id)
+-- Runs before apply_connection_location_privacy (triggers fire by name)
+CREATE OR REPLACE FUNCTION apply_connection_circle_sharing()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.location_latitude IS NOT NULL
+    AND NOT has_circle_permission(NEW.connected_user_id, NEW.user_id, 'location')
+    AND NOT is_user_in_emergency(NEW.connected_user_id) THEN
+    NEW.location_latitude := NULL;
+    NEW.location_longitude := NULL;
+    NEW.location_address := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS apply_connection_circle_sharing_trigger ON connections;
+CREATE TRIGGER apply_connection_circle_sharing_trigger
+  BEFORE INSERT OR UPDATE OF location_latitude, location_longitude, location_address ON connections
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_connection_circle_sharing();
+
+-- Function: Clear the last shared location for connections that lost the
+-- location permission (it reappears with the next update once granted again)
+CREATE OR REPLACE FUNCTION clear_unshared_connection_locations(p_user_id TEXT)
+RETURNS VOID AS $$
+BEGIN
+  IF p_user_id IS NULL OR is_user_in_emergency(p_user_id) THEN
+    RETURN;
+  END IF;
+
+  UPDATE connections c
+  SET location_latitude = NULL,
+      location_longitude = NULL,
+      location_address = NULL
+  WHERE c.connected_user_id = p_user_id
+    AND c.location_latitude IS NOT NULL
+    AND NOT has_circle_permission(p_user_id, c.user_id, 'location');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION clear_unshared_connection_locations(TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Trigger function: Re-apply location sharing after circle changes
+CREATE OR REPLACE FUNCTION refresh_circle_location_sharing()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_owner_id TEXT;
+BEGIN
+  IF TG_TABLE_NAME = 'circles' THEN
+    v_owner_id := COALESCE(NEW.owner_id, OLD.owner_id);
+  ELSE
+    SELECT c.owner_id INTO v_owner_id
+    FROM circles c
+    WHERE c.id = COALESCE(NEW.circle_id, OLD.circle_id);
+  END IF;
+
+  -- Circle already deleted (member rows removed by cascade): handled by the circles trigger
+  IF v_owner_id IS NOT NULL THEN
+    PERFORM clear_unshared_connection_locations(v_owner_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS refresh_circle_location_sharing_on_circles ON circles;
+CREATE TRIGGER refresh_circle_location_sharing_on_circles
+  AFTER UPDATE OF share_location OR DELETE ON circles
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_circle_location_sharing();
+
+DROP TRIGGER IF EXISTS refresh_circle_location_sharing_on_members ON circle_members;
+CREATE TRIGGER refresh_circle_location_sharing_on_members
+  AFTER INSERT OR UPDATE OF role OR DELETE ON circle_members
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_circle_location_sharing();
+
+-- ============================================
+-- SOS fan-out
+-- ============================================
+
+-- Function: Alert a silent SOS to the connections who get SOS alerts
+-- Redefined: recipients follow the user's circles
+CREATE OR REPLACE FUNCTION notify_silent_sos(
+  p_user_id TEXT,
+  p_location JSONB DEFAULT NULL
+)
+RETURNS TABLE (recipient_id TEXT) AS $$
+DECLARE
+  v_user_name TEXT;
+  v_title TEXT := '🤫 Silent SOS';
+  v_body TEXT;
+BEGIN
+  SELECT COALESCE(u.name, 'Someone') INTO v_user_name
+  FROM users u
+  WHERE u.id = p_user_id;
+
+  v_body := COALESCE(v_user_name, 'Someone')
+    || ' triggered a silent SOS and may be under duress. Do not call or text them - their phone may be watched.';
+
+  RETURN QUERY
+  WITH inserted AS (
+    INSERT INTO notifications (user_id, title, body, type, data, read)
+    SELECT
+      r.recipient_id,
+      v_title,
+      v_body,
+      'sos_alert',
+      jsonb_build_object(
+        'type', 'sos_alert',
+        'silentDuress', true,
+        'userId', p_user_id,
+        'userName', v_user_name,
+        'location', p_location,
+        'timestamp', NOW()
+      ),
+      false
+    FROM circle_recipients(p_user_id, 'sos') r
+    RETURNING notifications.user_id
+  )
+  SELECT i.user_id FROM inserted i;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION notify_silent_sos(TEXT, JSONB) FROM PUBLIC, anon, authenticated;
+
+-- Function: Respond to a connection's SOS
+-- Redefined: responses go to the sender (unless silent) and the connections
+-- who got the SOS alert
+CREATE OR REPLACE FUNCTION respond_to_sos_event(
+  p_user_id TEXT,
+  p_response TEXT,
+  p_event_id UUID DEFAULT NULL
+)
+RETURNS TABLE (
+  sos_event_id UUID,
+  recipient_ids JSONB,
+  title TEXT,
+  body TEXT
+) AS $$
+DECLARE
+  v_actor TEXT := auth.uid()::TEXT;
+  v_actor_name TEXT;
+  v_event sos_events;
+  v_previous TEXT;
+  v_response TEXT;
+  v_kind TEXT;
+  v_title TEXT;
+  v_body TEXT;
+  v_recipients JSONB;
+BEGIN
+  IF p_response NOT IN ('responding', 'navigating', 'calling', 'cant_help') THEN
+    RAISE EXCEPTION 'Invalid SOS response: %', p_response USING ERRCODE = '22023';
+  END IF;
+
+  IF p_event_id IS NULL THEN
+    SELECT e.id INTO p_event_id
+    FROM sos_events e
+    WHERE e.user_id = p_user_id
+      AND e.status IN ('active', 'responder_en_route');
+
+    IF p_event_id IS NULL THEN
+      RAISE EXCEPTION 'This SOS is no longer active' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  v_event := get_sos_event_for_actor(p_event_id, v_actor);
+
+  IF v_event.user_id = v_actor THEN
+    RAISE EXCEPTION 'Only connections can respond to an SOS' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_event.status NOT IN ('active', 'responder_en_route') THEN
+    RAISE EXCEPTION 'This SOS is no longer active' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(u.name, 'A connection') INTO v_actor_name
+  FROM users u
+  WHERE u.id = v_actor;
+
+  SELECT a.response INTO v_previous
+  FROM sos_event_acknowledgements a
+  WHERE a.event_id = v_event.id
+    AND a.responder_id = v_actor;
+
+  IF p_response = 'calling' THEN
+    v_kind := 'called';
+    v_title := '📞 ' || v_actor_name || ' is calling ' || v_event.user_name;
+    v_body := v_actor_name || ' is calling ' || v_event.user_name || ' about the SOS.';
+  ELSE
+    v_response := CASE WHEN p_response = 'cant_help' THEN 'cant_help' ELSE 'responding' END;
+
+    -- Same response again (e.g. "Navigate" after "I'm responding"): nothing to announce
+    IF v_previous IS NOT DISTINCT FROM v_response THEN
+      RETURN;
+    END IF;
+
+    INSERT INTO sos_event_acknowledgements (event_id, responder_id, responder_name, response)
+    VALUES (v_event.id, v_actor, v_actor_name, v_response)
+    ON CONFLICT ON CONSTRAINT sos_event_acknowledgements_event_id_responder_id_key
+    DO UPDATE SET response = EXCLUDED.response, responder_name = EXCLUDED.responder_name;
+
+    IF v_response = 'responding' THEN
+      v_kind := 'acknowledged';
+      v_title := '🏃 ' || v_actor_name || ' is responding';
+      v_body := v_actor_name || ' is on the way to help ' || v_event.user_name || '.';
+
+      IF v_event.status = 'active' THEN
+        UPDATE sos_events
+        SET status = 'responder_en_route'
+        WHERE id = v_event.id;
+      END IF;
+    ELSE
+      v_kind := 'cant_help';
+      v_title := '⚠️ ' || v_actor_name || ' can''t help';
+      v_body := v_actor_name || ' can''t help ' || v_event.user_name || ' right now.';
+    END IF;
+  END IF;
+
+  INSERT INTO sos_event_updates (event_id, actor_id, actor_name, kind, status)
+  VALUES (
+    v_event.id,
+    v_actor,
+    v_actor_name,
+    v_kind,
+    CASE WHEN v_kind = 'acknowledged' THEN 'responder_en_route' END
+  );
+
+  WITH recipients AS (
+    SELECT r.recipient_id AS id
+    FROM circle_recipients(v_event.user_id, 'sos') r
+    UNION
+    SELECT v_event.user_id AS id
+    WHERE NOT v_event.silent
+  )
+  SELECT COALESCE(jsonb_agg(r.id), '[]'::jsonb) INTO v_recipients
+  FROM recipients r
+  WHERE r.id IS NOT NULL
+    AND r.id <> v_actor;
+
+  INSERT INTO notifications (user_id, title, body, type, data, read)
+  SELECT
+    recipient.id,
+    v_title,
+    v_body,
+    'sos_response',
+    jsonb_build_object(
+      'type', 'sos_response',
+      'sosEventId', v_event.id,
+      'userId', v_event.user_id,
+      'responderId', v_actor,
+      'responderName', v_actor_name,
+      'response', p_response,
+      'timestamp', NOW()
+    ),
+    false
+  FROM jsonb_array_elements_text(v_recipients) AS recipient(id);
+
+  RETURN QUERY SELECT v_event.id, v_recipients, v_title, v_body;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- Unlock rights
+-- ============================================
+
+-- Trigger function: Cap the approvals a new lock needs at the number of
+-- connections allowed to approve, so the quorum can always be met.
+-- With nobody allowed to approve, required_approvals is 0: only the PIN (or
+-- an admin) can unlock.
+CREATE OR REPLACE FUNCTION cap_unlock_quorum_to_circles()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_unlocker_count INTEGER;
+BEGIN
+  SELECT COUNT(*) INTO v_unlocker_count
+  FROM circle_recipients(NEW.user_id, 'unlock');
+
+  NEW.required_approvals := LEAST(GREATEST(NEW.required_approvals, 1), v_unlocker_count);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS cap_unlock_quorum_to_circles_trigger ON account_locks;
+CREATE TRIGGER cap_unlock_quorum_to_circles_trigger
+  BEFORE INSERT ON account_locks
+  FOR EACH ROW
+  EXECUTE FUNCTION cap_unlock_quorum_to_circles();
+
+-- Function: Approve unlocking a connection's account
+-- Redefined: only connections whose circles allow unlock approval
+CREATE OR REPLACE FUNCTION approve_account_unlock(p_user_id TEXT)
+RETURNS TABLE (
+  unlocked BOOLEAN,
+  approvals INTEGER,
+  required_approvals INTEGER
+) AS $$
+DECLARE
+  v_approver_id TEXT := auth.uid()::TEXT;
+  v_lock account_locks;
+  v_approvals INTEGER;
+BEGIN
+  IF v_approver_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_approver_id = p_user_id THEN
+    RAISE EXCEPTION 'Use the account PIN to unlock your own account' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT are_users_connected(p_user_id, v_approver_id) THEN
+    RAISE EXCEPTION 'Only connections can approve an unlock' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT has_circle_permission(p_user_id, v_approver_id, 'unlock') THEN
+    RAISE EXCEPTION 'Your circle does not allow you to approve this unlock' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_lock
+  FROM account_locks al
+  WHERE al.user_id = p_user_id
+    AND al.status = 'locked'
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT TRUE, 0, 0;
+    RETURN;
+  END IF;
+
+  -- Nobody could approve when the account was locked (circles changed since)
+  IF v_lock.required_approvals = 0 THEN
+    RAISE EXCEPTION 'This account can only be unlocked with its PIN' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO account_unlock_approvals (lock_id, approver_id)
+  VALUES (v_lock.id, v_approver_id)
+  ON CONFLICT (lock_id, approver_id) DO NOTHING;
+
+  IF FOUND THEN
+    PERFORM record_account_lock_event(p_user_id, v_lock.id, v_approver_id, 'unlock_approved', 'quorum');
+  END IF;
+
+  SELECT COUNT(*) INTO v_approvals
+  FROM account_unlock_approvals a
+  WHERE a.lock_id = v_lock.id;
+
+  IF v_approvals >= v_lock.required_approvals THEN
+    PERFORM perform_account_unlock(p_user_id, 'quorum', v_approver_id);
+    RETURN QUERY SELECT TRUE, v_approvals, v_lock.required_approvals;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT FALSE, v_approvals, v_lock.required_approvals;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE ALL ON FUNCTION get_circle_recipients(TEXT, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_circle_recipients(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_circle_recipients(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION approve_account_unlock(TEXT) TO authenticated;
+
+-- Note: To see what each connection of a user gets, execute:
+-- SELECT p.permission, r.recipient_id
+-- FROM unnest(ARRAY['location', 'sos', 'check_in', 'unlock']) AS p(permission)
+-- CROSS JOIN LATERAL circle_recipients('<user_id>', p.permission) r;
@@ -0,0 +1,346 @@
+-- ============================================
+-- Migration: Time-limited and scheduled location sharing
+-- ============================================
+-- connections.location_sharing_enabled was a permanent on/off switch. A user
+-- can now share with one connection:
+--   - until: for a while ("for 1 hour"), until location_sharing_until
+--   - until_arrival: until their ongoing trip arrives (or is cancelled)
+--   - schedule: only on some weekdays between two wall-clock times
+--     ("weekdays 7-9am"), in the sharer's time zone (user_settings.timezone)
+-- The window is stored on the row the connection reads (user_id = viewer,
+-- connected_user_id = sharer), so both sides see it.
+-- Enforced server-side, so it holds even if the app is killed:
+--   1. location writes outside the window are dropped (BEFORE trigger)
+--   2. expire_location_sharing() runs every minute: timed shares that ended
+--      are switched off and their last location cleared; scheduled shares
+--      have their last location cleared outside the window
+--   3. arriving (or cancelling the trip) ends "until I arrive" immediately
+-- While the sharer is locked after an SOS or under duress, the location is
+-- always shared.
+
+ALTER TABLE connections
+ADD COLUMN IF NOT EXISTS location_sharing_mode TEXT NOT NULL DEFAULT 'always'
+  CHECK (location_sharing_mode IN ('always', 'until', 'until_arrival', 'schedule'));
+
+ALTER TABLE connections
+ADD COLUMN IF NOT EXISTS location_sharing_until TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE connections
+ADD COLUMN IF NOT EXISTS location_sharing_trip_id UUID REFERENCES trips(id) ON DELETE SET NULL;
+
+-- ISO weekdays: 1 = Monday ... 7 = Sunday
+ALTER TABLE connections
+ADD COLUMN IF NOT EXISTS location_sharing_days SMALLINT[];
+
+ALTER TABLE connections
+ADD COLUMN IF NOT EXISTS location_sharing_start_time TIME;
+
+ALTER TABLE connections
+ADD COLUMN IF NOT EXISTS location_sharing_end_time TIME;
+
+CREATE INDEX IF NOT EXISTS idx_connections_location_sharing_mode
+ON connections(location_sharing_mode)
+WHERE location_sharing_mode <> 'always';
+
+CREATE INDEX IF NOT EXISTS idx_connections_location_sharing_trip_id
+ON connections(location_sharing_trip_id)
+WHERE location_sharing_trip_id IS NOT NULL;
+
+-- ============================================
+-- Sharing window
+-- ============================================
+
+-- Function: Check if a connections row currently shares the sharer's location
+-- Handles schedules that cross midnight (e.g. 22:00 - 02:00 counts for the start day).
+-- Unknown/invalid time zones fall back to UTC.
+CREATE OR REPLACE FUNCTION is_connection_location_shared(
+  p_connection connections,
+  p_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_timezone TEXT;
+  v_local TIMESTAMP;
+  v_time TIME;
+  v_day INTEGER;
+  v_previous_day INTEGER;
+BEGIN
+  IF NOT COALESCE(p_connection.location_sharing_enabled, TRUE) THEN
+    RETURN FALSE;
+  END IF;
+
+  IF p_connection.location_sharing_mode = 'until' THEN
+    RETURN p_connection.location_sharing_until IS NOT NULL
+      AND p_connection.location_sharing_until > p_at;
+  END IF;
+
+  IF p_connection.location_sharing_mode = 'until_arrival' THEN
+    RETURN EXISTS (
+      SELECT 1
+      FROM trips t
+      WHERE t.id = p_connection.location_sharing_trip_id
+        AND t.status IN ('active', 'overdue')
+    );
+  END IF;
+
+  IF p_connection.location_sharing_mode = 'schedule' THEN
+    IF p_connection.location_sharing_start_time IS NULL
+      OR p_connection.location_sharing_end_time IS NULL
+      OR p_connection.location_sharing_start_time = p_connection.location_sharing_end_time THEN
+      RETURN FALSE;
+    END IF;
+
+    SELECT us.timezone INTO v_timezone
+    FROM user_settings us
+    WHERE us.user_id = p_connection.connected_user_id
+    LIMIT 1;
+
+    BEGIN
+      v_local := p_at AT TIME ZONE COALESCE(NULLIF(v_timezone, ''), 'UTC');
+    EXCEPTION
+      WHEN OTHERS THEN
+        v_local := p_at AT TIME ZONE 'UTC';
+    END;
+
+    v_time := v_local::TIME;
+    v_day := EXTRACT(ISODOW FROM v_local)::INTEGER;
+    v_previous_day := EXTRACT(ISODOW FROM v_local - INTERVAL '1 day')::INTEGER;
+
+    IF p_connection.location_sharing_start_time < p_connection.location_sharing_end_time THEN
+      -- Same-day window (e.g. 07:00 - 09:00)
+      RETURN v_day = ANY(p_connection.location_sharing_days)
+        AND v_time >= p_connection.location_sharing_start_time
+        AND v_time < p_connection.location_sharing_end_time;
+    END IF;
+
+    -- Overnight window (e.g. 22:00 - 02:00)
+    RETURN (v_day = ANY(p_connection.location_sharing_days) AND v_time >= p_connection.location_sharing_start_time)
+      OR (v_previous_day = ANY(p_connection.location_sharing_days) AND v_time < p_connection.location_sharing_end_time);
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Trigger function: Drop location writes outside the sharing window
+CREATE OR REPLACE FUNCTION apply_connection_sharing_window()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.location_latitude IS NOT NULL
+    AND NOT is_connection_location_shared(NEW)
+    AND NOT is_user_in_emergency(NEW.connected_user_id) THEN
+    NEW.location_latitude := NULL;
+    NEW.location_longitude := NULL;
+    NEW.location_address := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS apply_connection_sharing_window_trigger ON connections;
+CREATE TRIGGER apply_connection_sharing_window_trigger
+  BEFORE INSERT OR UPDATE OF location_latitude, location_longitude, location_address ON connections
+  FOR EACH ROW
+  EXECUTE FUNCTION apply_connection_sharing_window();
+
+-- Trigger function: Turning sharing off also ends any time limit or schedule,
+-- so turning it back on means "always"
+CREATE OR REPLACE FUNCTION reset_connection_sharing_window()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NOT COALESCE(NEW.location_sharing_enabled, TRUE) THEN
+    NEW.location_sharing_mode := 'always';
+    NEW.location_sharing_until := NULL;
+    NEW.location_sharing_trip_id := NULL;
+    NEW.location_sharing_days := NULL;
+    NEW.location_sharing_start_time := NULL;
+    NEW.location_sharing_end_time := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS reset_connection_sharing_window_trigger ON connections;
+CREATE TRIGGER reset_connection_sharing_window_trigger
+  BEFORE UPDATE OF location_sharing_enabled ON connections
+  FOR EACH ROW
+  EXECUTE FUNCTION reset_connection_sharing_window();
+
+-- ============================================
+-- Choosing how to share
+-- ============================================
+
+-- Function: Set how the current user shares their location with a connection
+-- p_mode: 'always', 'until' (p_until, at most 7 days ahead), 'until_arrival'
+-- (needs an ongoing trip) or 'schedule' (p_days, p_start_time, p_end_time)
+CREATE OR REPLACE FUNCTION set_location_sharing_mode(
+  p_connected_user_id TEXT,
+  p_mode TEXT,
+  p_until TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  p_days SMALLINT[] DEFAULT NULL,
+  p_start_time TIME DEFAULT NULL,
+  p_end_time TIME DEFAULT NULL
+)
+RETURNS BOOLEAN AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+  v_trip_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF NOT are_users_connected(v_user_id, p_connected_user_id) THEN
+    RAISE EXCEPTION 'You can only share your location with connections' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_mode NOT IN ('always', 'until', 'until_arrival', 'schedule') THEN
+    RAISE EXCEPTION 'Invalid sharing mode: %', p_mode USING ERRCODE = '22023';
+  END IF;
+
+  IF p_mode = 'until' AND (p_until IS NULL OR p_until <= NOW() OR p_until > NOW() + INTERVAL '7 days') THEN
+    RAISE EXCEPTION 'Sharing can be limited to at most 7 days' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_mode = 'until_arrival' THEN
+    SELECT t.id INTO v_trip_id
+    FROM trips t
+    WHERE t.user_id = v_user_id
+      AND t.status IN ('active', 'overdue');
+
+    IF v_trip_id IS NULL THEN
+      RAISE EXCEPTION 'Start a trip first to share until you arrive' USING ERRCODE = 'P0002';
+    END IF;
+  END IF;
+
+  IF p_mode = 'schedule' AND (
+    COALESCE(array_length(p_days, 1), 0) = 0
+    OR EXISTS (SELECT 1 FROM unnest(p_days) AS d(day) WHERE d.day NOT BETWEEN 1 AND 7)
+    OR p_start_time IS NULL
+    OR p_end_time IS NULL
+    OR p_start_time = p_end_time
+  ) THEN
+    RAISE EXCEPTION 'A schedule needs at least one day and different start and end times' USING ERRCODE = '22023';
+  END IF;
+
+  UPDATE connections
+  SET location_sharing_enabled = TRUE,
+      location_sharing_mode = p_mode,
+      location_sharing_until = CASE WHEN p_mode = 'until' THEN p_until END,
+      location_sharing_trip_id = v_trip_id,
+      location_sharing_days = CASE WHEN p_mode = 'schedule' THEN p_days END,
+      location_sharing_start_time = CASE WHEN p_mode = 'schedule' THEN p_start_time END,
+      location_sharing_end_time = CASE WHEN p_mode = 'schedule' THEN p_end_time END
+  WHERE user_id = p_connected_user_id
+    AND connected_user_id = v_user_id;
+
+  -- e.g. a schedule set outside its window: hide the last location right away
+  IF NOT is_user_in_emergency(v_user_id) THEN
+    UPDATE connections c
+    SET location_latitude = NULL,
+        location_longitude = NULL,
+        location_address = NULL
+    WHERE c.user_id = p_connected_user_id
+      AND c.connected_user_id = v_user_id
+      AND c.location_latitude IS NOT NULL
+      AND NOT is_connection_location_shared(c);
+  END IF;
+
+  RETURN TRUE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- ============================================
+-- Expiry
+-- ============================================
+
+-- Function: End timed shares and hide locations outside their window
+-- Returns the number of rows changed
+CREATE OR REPLACE FUNCTION expire_location_sharing()
+RETURNS INTEGER AS $$
+DECLARE
+  v_ended INTEGER;
+  v_hidden INTEGER;
+BEGIN
+  -- Time limit passed or trip over: sharing is switched off (the reset
+  -- trigger clears the window)
+  UPDATE connections c
+  SET location_sharing_enabled = FALSE,
+      location_latitude = NULL,
+      location_longitude = NULL,
+      location_address = NULL
+  WHERE c.location_sharing_mode IN ('until', 'until_arrival')
+    AND NOT is_connection_location_shared(c)
+    AND NOT is_user_in_emergency(c.connected_user_id);
+  GET DIAGNOSTICS v_ended = ROW_COUNT;
+
+  -- Outside the schedule: hide the last location until the window reopens
+  UPDATE connections c
+  SET location_latitude = NULL,
+      location_longitude = NULL,
+      location_address = NULL
+  WHERE c.location_sharing_mode = 'schedule'
+    AND c.location_latitude IS NOT NULL
+    AND NOT is_connection_location_shared(c)
+    AND NOT is_user_in_emergency(c.connected_user_id);
+  GET DIAGNOSTICS v_hidden = ROW_COUNT;
+
+  RETURN v_ended + v_hidden;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Trigger function: End "until I arrive" as soon as the trip is over
+CREATE OR REPLACE FUNCTION end_trip_location_sharing()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE connections c
+  SET location_sharing_enabled = FALSE,
+      location_latitude = NULL,
+      location_longitude = NULL,
+      location_address = NULL
+  WHERE c.location_sharing_trip_id = NEW.id
+    AND c.location_sharing_mode = 'until_arrival'
+    AND NOT is_user_in_emergency(c.connected_user_id);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS end_trip_location_sharing_trigger ON trips;
+CREATE TRIGGER end_trip_location_sharing_trigger
+  AFTER UPDATE OF status ON trips
+  FOR EACH ROW
+  WHEN (NEW.status IN ('arrived', 'cancelled') AND OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION end_trip_location_sharing();
+
+REVOKE ALL ON FUNCTION expire_location_sharing() FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION set_location_sharing_mode(TEXT, TEXT, TIMESTAMP WITH TIME ZONE, SMALLINT[], TIME, TIME) TO authenticated;
+GRANT EXECUTE ON FUNCTION expire_location_sharing() TO service_role;
+
+-- ============================================
+-- Schedule (every minute)
+-- ============================================
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'expire-location-sharing') THEN
+    PERFORM cron.unschedule('expire-location-sharing');
+    RAISE NOTICE 'Unscheduled existing location sharing expiry job';
+  END IF;
+
+  PERFORM cron.schedule(
+    'expire-location-sharing',              -- Job name
+    '* * * * *',                            -- Cron schedule: every minute
+    'SELECT expire_location_sharing()'      -- SQL to execute
+  );
+
+  RAISE NOTICE 'Location sharing expiry cron job scheduled successfully (every minute)';
+END $$;
+
+-- Note: To see who a user currently shares their location with, execute:
+-- SELECT user_id, location_sharing_mode, location_sharing_until, is_connection_location_shared(c)
+-- FROM connections c WHERE connected_user_id = '<user_id>';
@@ -0,0 +1,526 @@
+-- ============================================
+-- Migration: Signed QR / deep-link connection invites
+-- ============================================
+-- Replaces the 6-digit connection codes (Math.random() on the client,
+-- readable and "used" by anyone) with signed, expiring invite tokens:
+--   token = <invite id>.<expiry (unix seconds)>.<signature>
+--   signature = HMAC-SHA256(id.expiry) with a server-only key (first 32 hex chars)
+-- Tokens are shown as QR codes or shared as links (see the invite edge
+-- function) and can only be created and redeemed through the functions
+-- below, which check the signature, expiry, use count and revocation and
+-- rate-limit failed attempts per user.
+-- Redeeming creates the connection server-side (the reverse row is created
+-- by trigger_bidirectional_connection) and notifies the inviter.
+-- Clients can no longer insert connections directly: they are only created
+-- by redeem_connection_invite and, for invitations by phone or from the
+-- contacts, by accept_connection_invitation.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- ============================================
+-- Signing key (server-only)
+-- ============================================
+CREATE TABLE IF NOT EXISTS connection_invite_keys (
+  id INTEGER PRIMARY KEY DEFAULT 1 CHECK (id = 1),
+  secret BYTEA NOT NULL DEFAULT gen_random_bytes(32),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO connection_invite_keys (id) VALUES (1) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE connection_invite_keys ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON connection_invite_keys FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Invites
+-- ============================================
+CREATE TABLE IF NOT EXISTS connection_invites (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  inviter_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  max_uses INTEGER NOT NULL DEFAULT 1 CHECK (max_uses BETWEEN 1 AND 20),
+  use_count INTEGER NOT NULL DEFAULT 0,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_connection_invites_inviter_id ON connection_invites(inviter_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_connection_invites_expires_at ON connection_invites(expires_at);
+
+DROP TRIGGER IF EXISTS update_connection_invites_updated_at ON connection_invites;
+CREATE TRIGGER update_connection_invites_updated_at
+  BEFORE UPDATE ON connection_invites
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE connection_invites ENABLE ROW LEVEL SECURITY;
+
+-- Inviters can see their own invites; tokens are never stored
+DROP POLICY IF EXISTS "Users can read their own invites" ON connection_invites;
+CREATE POLICY "Users can read their own invites"
+  ON connection_invites FOR SELECT
+  USING (inviter_id = auth.uid()::text);
+
+-- ============================================
+-- Redemption attempts (rate limiting)
+-- ============================================
+CREATE TABLE IF NOT EXISTS connection_invite_attempts (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  invite_id UUID REFERENCES connection_invites(id) ON DELETE SET NULL,
+  succeeded BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_connection_invite_attempts_user_created
+ON connection_invite_attempts(user_id, created_at DESC);
+
+ALTER TABLE connection_invite_attempts ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON connection_invite_attempts FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Legacy 6-digit codes
+-- ============================================
+-- Anyone could read and mark active codes used; codes can no longer be
+-- created or redeemed. Owners can still read (and delete) their old codes.
+DROP POLICY IF EXISTS "Users can create codes" ON connection_codes;
+DROP POLICY IF EXISTS "Users can read active codes" ON connection_codes;
+DROP POLICY IF EXISTS "Users can update codes" ON connection_codes;
+
+-- ============================================
+-- Connections (created server-side only)
+-- ============================================
+DROP POLICY IF EXISTS "Users can create connections" ON connections;
+
+-- The reverse row is inserted on behalf of the other user
+ALTER FUNCTION create_bidirectional_connection() SECURITY DEFINER;
+
+-- ============================================
+-- Tokens
+-- ============================================
+
+-- Function: Sign an invite id and expiry (server-only)
+CREATE OR REPLACE FUNCTION sign_connection_invite(p_invite_id UUID, p_expires_at TIMESTAMP WITH TIME ZONE)
+RETURNS TEXT AS $$
+DECLARE
+  v_payload TEXT := p_invite_id::TEXT || '.' || FLOOR(EXTRACT(EPOCH FROM p_expires_at))::BIGINT::TEXT;
+  v_secret BYTEA;
+BEGIN
+  SELECT secret INTO v_secret FROM connection_invite_keys WHERE id = 1;
+
+  RETURN v_payload || '.' || LEFT(encode(hmac(convert_to(v_payload, 'UTF8'), v_secret, 'sha256'), 'hex'), 32);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function: Verify a token and return its invite (NULL if forged or malformed)
+-- Expiry, use count and revocation are checked by the callers.
+CREATE OR REPLACE FUNCTION verify_connection_invite_token(p_token TEXT)
+RETURNS connection_invites AS $$
+DECLARE
+  v_parts TEXT[];
+  v_invite connection_invites%ROWTYPE;
+BEGIN
+  v_parts := string_to_array(TRIM(COALESCE(p_token, '')), '.');
+
+  IF array_length(v_parts, 1) IS DISTINCT FROM 3
+    OR v_parts[1] !~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+    OR v_parts[2] !~ '^[0-9]{1,12}$' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_invite
+  FROM connection_invites
+  WHERE id = v_parts[1]::UUID;
+
+  IF NOT FOUND
+    OR FLOOR(EXTRACT(EPOCH FROM v_invite.expires_at))::BIGINT::TEXT <> v_parts[2]
+    OR sign_connection_invite(v_invite.id, v_invite.expires_at) <> TRIM(p_token) THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN v_invite;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- Function: Check whether a user has too many failed invite attempts
+-- 10 failed attempts per hour
+CREATE OR REPLACE FUNCTION is_connection_invite_rate_limited(p_user_id TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN (
+    SELECT COUNT(*)
+    FROM connection_invite_attempts a
+    WHERE a.user_id = p_user_id
+      AND a.succeeded = false
+      AND a.created_at > NOW() - INTERVAL '1 hour'
+  ) >= 10;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- Client functions
+-- ============================================
+
+-- Function: Create an invite for the current user and return its token
+-- p_ttl_minutes: 5 minutes - 7 days (default 24 hours); p_max_uses: 1 - 20
+-- Limited to 20 invites per hour.
+CREATE OR REPLACE FUNCTION create_connection_invite(
+  p_ttl_minutes INTEGER DEFAULT 1440,
+  p_max_uses INTEGER DEFAULT 1
+)
+RETURNS TABLE (
+  invite_id UUID,
+  token TEXT,
+  expires_at TIMESTAMP WITH TIME ZONE
+) AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+  v_invite connection_invites%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_ttl_minutes NOT BETWEEN 5 AND 10080 OR p_max_uses NOT BETWEEN 1 AND 20 THEN
+    RAISE EXCEPTION 'Invites can last 5 minutes to 7 days and be used up to 20 times' USING ERRCODE = '22023';
+  END IF;
+
+  IF (
+    SELECT COUNT(*)
+    FROM connection_invites ci
+    WHERE ci.inviter_id = v_user_id
+      AND ci.created_at > NOW() - INTERVAL '1 hour'
+  ) >= 20 THEN
+    RAISE EXCEPTION 'Too many invites created. Please try again later.' USING ERRCODE = '54000';
+  END IF;
+
+  INSERT INTO connection_invites (inviter_id, expires_at, max_uses)
+  VALUES (v_user_id, date_trunc('second', NOW()) + make_interval(mins => p_ttl_minutes), p_max_uses)
+  RETURNING * INTO v_invite;
+
+  RETURN QUERY SELECT v_invite.id, sign_connection_invite(v_invite.id, v_invite.expires_at), v_invite.expires_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Revoke one of the current user's invites
+CREATE OR REPLACE FUNCTION revoke_connection_invite(p_invite_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+  UPDATE connection_invites
+  SET revoked_at = NOW()
+  WHERE id = p_invite_id
+    AND inviter_id = auth.uid()::TEXT
+    AND revoked_at IS NULL;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Look up who sent an invite before accepting it
+-- status: 'valid', 'already_connected', 'own_invite', 'expired', 'invalid' or 'rate_limited'
+CREATE OR REPLACE FUNCTION preview_connection_invite(p_token TEXT)
+RETURNS TABLE (
+  status TEXT,
+  inviter_id TEXT,
+  inviter_name TEXT,
+  inviter_photo TEXT
+) AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+  v_invite connection_invites%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF is_connection_invite_rate_limited(v_user_id) THEN
+    RETURN QUERY SELECT 'rate_limited'::TEXT, NULL::TEXT, NULL::TEXT, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  v_invite := verify_connection_invite_token(p_token);
+
+  IF v_invite.id IS NULL THEN
+    INSERT INTO connection_invite_attempts (user_id, succeeded) VALUES (v_user_id, false);
+    RETURN QUERY SELECT 'invalid'::TEXT, NULL::TEXT, NULL::TEXT, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    CASE
+      WHEN v_invite.inviter_id = v_user_id THEN 'own_invite'
+      WHEN are_users_connected(v_user_id, v_invite.inviter_id) THEN 'already_connected'
+      WHEN v_invite.revoked_at IS NOT NULL
+        OR v_invite.expires_at <= NOW()
+        OR v_invite.use_count >= v_invite.max_uses THEN 'expired'
+      ELSE 'valid'
+    END,
+    u.id,
+    u.name,
+    u.photo
+  FROM users u
+  WHERE u.id = v_invite.inviter_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Accept an invite and connect the current user with the inviter
+-- Failures are returned (not raised) so failed attempts are recorded for rate limiting.
+CREATE OR REPLACE FUNCTION redeem_connection_invite(p_token TEXT)
+RETURNS TABLE (
+  success BOOLEAN,
+  message TEXT,
+  inviter_id TEXT,
+  inviter_name TEXT
+) AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+  v_invite connection_invites%ROWTYPE;
+  v_inviter users%ROWTYPE;
+  v_user_name TEXT;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF is_connection_invite_rate_limited(v_user_id) THEN
+    RETURN QUERY SELECT false, 'Too many attempts. Please try again later.'::TEXT, NULL::TEXT, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  v_invite := verify_connection_invite_token(p_token);
+
+  IF v_invite.id IS NULL THEN
+    INSERT INTO connection_invite_attempts (user_id, succeeded) VALUES (v_user_id, false);
+    RETURN QUERY SELECT false, 'This invite is not valid.'::TEXT, NULL::TEXT, NULL::TEXT;
+    RETURN;
+  END IF;
+
+  -- Lock the invite so concurrent redemptions can't exceed max_uses
+  SELECT * INTO v_invite
+  FROM connection_invites
+  WHERE id = v_invite.id
+  FOR UPDATE;
+
+  SELECT * INTO v_inviter FROM users WHERE id = v_invite.inviter_id;
+
+  IF v_invite.inviter_id = v_user_id THEN
+    RETURN QUERY SELECT false, 'You cannot use your own invite.'::TEXT, v_inviter.id, v_inviter.name;
+    RETURN;
+  END IF;
+
+  IF are_users_connected(v_user_id, v_invite.inviter_id) THEN
+    RETURN QUERY SELECT true, 'Already connected'::TEXT, v_inviter.id, v_inviter.name;
+    RETURN;
+  END IF;
+
+  IF v_invite.revoked_at IS NOT NULL
+    OR v_invite.expires_at <= NOW()
+    OR v_invite.use_count >= v_invite.max_uses THEN
+    INSERT INTO connection_invite_attempts (user_id, invite_id, succeeded) VALUES (v_user_id, v_invite.id, false);
+    RETURN QUERY SELECT false, 'This invite has expired. Ask for a new one.'::TEXT, v_inviter.id, v_inviter.name;
+    RETURN;
+  END IF;
+
+  -- Reverse row is created by trigger_bidirectional_connection
+  INSERT INTO connections (
+    user_id,
+    connected_user_id,
+    connected_user_name,
+    connected_user_email,
+    connected_user_phone,
+    connected_user_photo,
+    status
+  )
+  VALUES (
+    v_user_id,
+    v_inviter.id,
+    v_inviter.name,
+    v_inviter.email,
+    v_inviter.phone,
+    v_inviter.photo,
+    'connected'
+  );
+
+  UPDATE connection_invites
+  SET use_count = use_count + 1
+  WHERE id = v_invite.id;
+
+  INSERT INTO connection_invite_attempts (user_id, invite_id, succeeded) VALUES (v_user_id, v_invite.id, true);
+
+  SELECT name INTO v_user_name FROM users WHERE id = v_user_id;
+
+  INSERT INTO notifications (user_id, title, body, type, data)
+  VALUES (
+    v_inviter.id,
+    'New Connection',
+    COALESCE(v_user_name, 'Someone') || ' connected with you using your invite',
+    'connection_added',
+    jsonb_build_object('userId', v_user_id, 'userName', v_user_name, 'inviteId', v_invite.id)
+  );
+
+  RETURN QUERY SELECT true, 'Connected'::TEXT, v_inviter.id, v_inviter.name;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Accept an invitation by phone and connect with the inviter
+-- Redefined: runs as definer now that clients can't insert connections, and
+-- only the invitee (the current user, matched by phone) can accept it.
+CREATE OR REPLACE FUNCTION accept_connection_invitation(
+  p_invitation_id UUID,
+  p_invitee_user_id TEXT
+)
+RETURNS TABLE (
+  success BOOLEAN,
+  message TEXT,
+  connection_id UUID
+) AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+  v_invitation connection_invitations%ROWTYPE;
+  v_inviter users%ROWTYPE;
+  v_invitee users%ROWTYPE;
+  v_connection_id UUID;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_invitee_user_id IS DISTINCT FROM v_user_id THEN
+    RAISE EXCEPTION 'You can only accept your own invitations' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_invitation
+  FROM connection_invitations ci
+  WHERE ci.id = p_invitation_id
+    AND ci.status = 'pending'
+    AND ci.expires_at > NOW()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN QUERY SELECT false, 'Invitation not found or expired'::TEXT, NULL::UUID;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_inviter FROM users WHERE id = v_invitation.inviter_user_id;
+
+  IF v_inviter.id IS NULL THEN
+    RETURN QUERY SELECT false, 'Inviter user not found'::TEXT, NULL::UUID;
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_invitee FROM users WHERE id = v_user_id;
+
+  IF v_invitee.id IS NULL THEN
+    RETURN QUERY SELECT false, 'Invitee user not found'::TEXT, NULL::UUID;
+    RETURN;
+  END IF;
+
+  IF v_invitee.phone IS DISTINCT FROM v_invitation.invitee_phone THEN
+    RETURN QUERY SELECT false, 'Phone number mismatch'::TEXT, NULL::UUID;
+    RETURN;
+  END IF;
+
+  SELECT c.id INTO v_connection_id
+  FROM connections c
+  WHERE (c.user_id = v_inviter.id AND c.connected_user_id = v_invitee.id)
+     OR (c.user_id = v_invitee.id AND c.connected_user_id = v_inviter.id)
+  LIMIT 1;
+
+  IF v_connection_id IS NOT NULL THEN
+    UPDATE connection_invitations
+    SET status = 'accepted', accepted_at = NOW()
+    WHERE id = p_invitation_id;
+
+    RETURN QUERY SELECT true, 'Already connected'::TEXT, v_connection_id;
+    RETURN;
+  END IF;
+
+  -- Reverse row is created by trigger_bidirectional_connection
+  INSERT INTO connections (
+    user_id,
+    connected_user_id,
+    connected_user_name,
+    connected_user_email,
+    connected_user_phone,
+    connected_user_photo,
+    status
+  )
+  VALUES (
+    v_inviter.id,
+    v_invitee.id,
+    v_invitee.name,
+    v_invitee.email,
+    v_invitee.phone,
+    v_invitee.photo,
+    'connected'
+  )
+  RETURNING id INTO v_connection_id;
+
+  UPDATE connection_invitations
+  SET status = 'accepted', accepted_at = NOW()
+  WHERE id = p_invitation_id;
+
+  INSERT INTO notifications (user_id, title, body, type, data)
+  VALUES (
+    v_inviter.id,
+    'Connection Accepted',
+    v_invitee.name || ' accepted your connection invitation',
+    'connection_added',
+    jsonb_build_object('connectionId', v_connection_id, 'invitationId', p_invitation_id)
+  );
+
+  RETURN QUERY SELECT true, 'Connection created successfully'::TEXT, v_connection_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Delete expired invites and old attempts
+CREATE OR REPLACE FUNCTION cleanup_expired_connection_invites()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM connection_invites
+  WHERE expires_at < NOW() - INTERVAL '1 day';
+
+  DELETE FROM connection_invite_attempts
+  WHERE created_at < NOW() - INTERVAL '1 day';
+END;
+$$ LANGUAGE plpgsql;
+
+REVOKE ALL ON FUNCTION sign_connection_invite(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION verify_connection_invite_token(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION is_connection_invite_rate_limited(TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION cleanup_expired_connection_invites() FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION accept_connection_invitation(UUID, TEXT) FROM PUBLIC, anon;
+
+GRANT SELECT ON connection_invites TO authenticated;
+GRANT EXECUTE ON FUNCTION create_connection_invite(INTEGER, INTEGER) TO authenticated;
+GRANT EXECUTE ON FUNCTION revoke_connection_invite(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION preview_connection_invite(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION redeem_connection_invite(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION accept_connection_invitation(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION cleanup_expired_connection_invites() TO service_role;
+
+-- ============================================
+-- Schedule (hourly)
+-- ============================================
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'cleanup-expired-connection-invites') THEN
+    PERFORM cron.unschedule('cleanup-expired-connection-invites');
+    RAISE NOTICE 'Unscheduled existing connection invite cleanup job';
+  END IF;
+
+  PERFORM cron.schedule(
+    'cleanup-expired-connection-invites',           -- Job name
+    '15 * * * *',                                   -- Cron schedule: every hour at :15
+    'SELECT cleanup_expired_connection_invites()'   -- SQL to execute
+  );
+
+  RAISE NOTICE 'Connection invite cleanup cron job scheduled successfully (hourly)';
+END $$;
+
+-- Note: Share links point to the invite edge function (EXPO_PUBLIC_INVITE_URL);
+-- deploy it with: supabase functions deploy invite --no-verify-jwt
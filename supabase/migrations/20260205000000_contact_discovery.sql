@@ -0,0 +1,314 @@
+-- ============================================
+-- Migration: Find contacts who already use the app
+-- ============================================
+-- Opt-in contacts import on the Find Contacts screen. Phone numbers never
+-- leave the device: the app normalizes each contact's number to E.164
+-- (using the region chosen on the Language & Region screen) and sends only
+--   SHA-256('famguard-contacts:' || e164)
+-- Registered users get the same hash in users.phone_hash, computed from
+-- their phone and region. Lookups are capped per request and per day so the
+-- endpoint can't be used to enumerate numbers.
+-- Client-side equivalent of normalize_phone_e164(): normalizePhoneNumber()
+-- in src/utils/phoneNumber.ts (keep the two in sync).
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- ============================================
+-- Normalization and hashing
+-- ============================================
+
+-- Function: Normalize a phone number to E.164 for a region (NULL if not valid)
+-- Supported regions match SUPPORTED_REGIONS in src/i18n/index.ts.
+CREATE OR REPLACE FUNCTION normalize_phone_e164(p_phone TEXT, p_region TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_digits TEXT := regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g');
+  v_calling_code TEXT;
+  v_min_length INTEGER;
+  v_max_length INTEGER;
+  v_national TEXT;
+  v_international TEXT;
+BEGIN
+  IF v_digits = '' THEN
+    RETURN NULL;
+  END IF;
+
+  IF COALESCE(p_phone, '') ~ '^\s*\+' THEN
+    v_international := v_digits;
+  ELSIF v_digits LIKE '00%' THEN
+    v_international := substr(v_digits, 3);
+  ELSE
+    -- Calling code and national (significant) number length per region
+    CASE UPPER(COALESCE(p_region, ''))
+      WHEN 'NG' THEN v_calling_code := '234'; v_min_length := 8; v_max_length := 10;
+      WHEN 'GH' THEN v_calling_code := '233'; v_min_length := 9; v_max_length := 9;
+      WHEN 'US' THEN v_calling_code := '1'; v_min_length := 10; v_max_length := 10;
+      WHEN 'CA' THEN v_calling_code := '1'; v_min_length := 10; v_max_length := 10;
+      WHEN 'GB' THEN v_calling_code := '44'; v_min_length := 9; v_max_length := 10;
+      WHEN 'AU' THEN v_calling_code := '61'; v_min_length := 9; v_max_length := 9;
+      WHEN 'IN' THEN v_calling_code := '91'; v_min_length := 10; v_max_length := 10;
+      ELSE RETURN NULL;
+    END CASE;
+
+    IF v_calling_code = '1' AND length(v_digits) = 11 AND v_digits LIKE '1%' THEN
+      -- NANP numbers written with the leading 1
+      v_national := substr(v_digits, 2);
+    ELSIF v_calling_code <> '1' AND v_digits LIKE '0%' THEN
+      -- Trunk prefix (e.g. 0803... in Nigeria)
+      v_national := substr(v_digits, 2);
+    ELSIF v_calling_code <> '1'
+      AND v_digits LIKE v_calling_code || '%'
+      AND length(v_digits) - length(v_calling_code) BETWEEN v_min_length AND v_max_length THEN
+      -- Already international, written without '+'
+      v_national := substr(v_digits, length(v_calling_code) + 1);
+    ELSE
+      v_national := v_digits;
+    END IF;
+
+    IF length(v_national) NOT BETWEEN v_min_length AND v_max_length OR v_national LIKE '0%' THEN
+      RETURN NULL;
+    END IF;
+
+    v_international := v_calling_code || v_national;
+  END IF;
+
+  IF length(v_international) NOT BETWEEN 8 AND 15 OR v_international LIKE '0%' THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN '+' || v_international;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function: Hash a user's phone number for contact matching
+-- Uses the user's region, falling back to Nigeria (sign-up asks for 11-digit
+-- local numbers there) when the number isn't valid in that region.
+CREATE OR REPLACE FUNCTION compute_user_phone_hash(p_phone TEXT, p_region TEXT)
+RETURNS TEXT AS $$
+DECLARE
+  v_e164 TEXT;
+BEGIN
+  v_e164 := COALESCE(normalize_phone_e164(p_phone, p_region), normalize_phone_e164(p_phone, 'NG'));
+
+  IF v_e164 IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN encode(digest('famguard-contacts:' || v_e164, 'sha256'), 'hex');
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS phone_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_users_phone_hash ON users(phone_hash) WHERE phone_hash IS NOT NULL;
+
+-- Trigger function: Keep users.phone_hash in sync with the phone number
+CREATE OR REPLACE FUNCTION set_user_phone_hash()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_region TEXT;
+BEGIN
+  SELECT region INTO v_region FROM user_settings WHERE user_id = NEW.id;
+  NEW.phone_hash := compute_user_phone_hash(NEW.phone, v_region);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS set_user_phone_hash_trigger ON users;
+CREATE TRIGGER set_user_phone_hash_trigger
+  BEFORE INSERT OR UPDATE OF phone ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION set_user_phone_hash();
+
+-- Trigger function: Recompute the hash when the user changes region
+CREATE OR REPLACE FUNCTION refresh_user_phone_hash()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE users
+  SET phone_hash = compute_user_phone_hash(phone, NEW.region)
+  WHERE id = NEW.user_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS refresh_user_phone_hash_trigger ON user_settings;
+CREATE TRIGGER refresh_user_phone_hash_trigger
+  AFTER INSERT OR UPDATE OF region ON user_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION refresh_user_phone_hash();
+
+-- Backfill existing users
+UPDATE users u
+SET phone_hash = compute_user_phone_hash(
+  u.phone,
+  (SELECT s.region FROM user_settings s WHERE s.user_id = u.id)
+)
+WHERE u.phone IS NOT NULL;
+
+-- ============================================
+-- Lookup limits
+-- ============================================
+CREATE TABLE IF NOT EXISTS contact_match_requests (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  hash_count INTEGER NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_contact_match_requests_user_created
+ON contact_match_requests(user_id, created_at DESC);
+
+ALTER TABLE contact_match_requests ENABLE ROW LEVEL SECURITY;
+REVOKE ALL ON contact_match_requests FROM PUBLIC, anon, authenticated;
+
+-- ============================================
+-- Client functions
+-- ============================================
+
+-- Function: Find registered users among hashed contact numbers
+-- At most 1000 hashes per call and 5000 per day.
+CREATE OR REPLACE FUNCTION match_contact_hashes(p_hashes TEXT[])
+RETURNS TABLE (
+  phone_hash TEXT,
+  user_id TEXT,
+  name TEXT,
+  photo TEXT,
+  is_connected BOOLEAN,
+  invitation_pending BOOLEAN
+) AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+  v_count INTEGER := COALESCE(cardinality(p_hashes), 0);
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF v_count > 1000 THEN
+    RAISE EXCEPTION 'At most 1000 contacts can be checked at once' USING ERRCODE = '22023';
+  END IF;
+
+  IF v_count = 0 THEN
+    RETURN;
+  END IF;
+
+  IF (
+    SELECT COALESCE(SUM(r.hash_count), 0)
+    FROM contact_match_requests r
+    WHERE r.user_id = v_user_id
+      AND r.created_at > NOW() - INTERVAL '1 day'
+  ) + v_count > 5000 THEN
+    RAISE EXCEPTION 'Too many contacts checked today. Please try again tomorrow.' USING ERRCODE = '54000';
+  END IF;
+
+  INSERT INTO contact_match_requests (user_id, hash_count) VALUES (v_user_id, v_count);
+
+  RETURN QUERY
+  SELECT
+    u.phone_hash,
+    u.id,
+    u.name,
+    u.photo,
+    are_users_connected(v_user_id, u.id),
+    EXISTS (
+      SELECT 1
+      FROM connection_invitations ci
+      WHERE ci.inviter_user_id = v_user_id
+        AND ci.invitee_phone = u.phone
+        AND ci.status = 'pending'
+        AND ci.expires_at > NOW()
+    )
+  FROM users u
+  WHERE u.phone_hash = ANY(p_hashes)
+    AND u.id <> v_user_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Send a connection invitation to a user found in the contacts
+-- The invitee's phone number stays server-side; they accept it like any
+-- invitation by phone.
+CREATE OR REPLACE FUNCTION send_contact_invitation(p_invitee_id TEXT)
+RETURNS TABLE (
+  success BOOLEAN,
+  message TEXT
+) AS $$
+DECLARE
+  v_user_id TEXT := auth.uid()::TEXT;
+  v_inviter users%ROWTYPE;
+  v_invitee users%ROWTYPE;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  SELECT * INTO v_inviter FROM users WHERE id = v_user_id;
+  SELECT * INTO v_invitee FROM users WHERE id = p_invitee_id;
+
+  IF v_invitee.id IS NULL OR v_invitee.phone_hash IS NULL OR v_invitee.id = v_user_id THEN
+    RETURN QUERY SELECT false, 'This contact cannot be invited.'::TEXT;
+    RETURN;
+  END IF;
+
+  IF are_users_connected(v_user_id, v_invitee.id) THEN
+    RETURN QUERY SELECT false, 'You are already connected to this user.'::TEXT;
+    RETURN;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1
+    FROM connection_invitations ci
+    WHERE ci.inviter_user_id = v_user_id
+      AND ci.invitee_phone = v_invitee.phone
+      AND ci.status = 'pending'
+      AND ci.expires_at > NOW()
+  ) THEN
+    RETURN QUERY SELECT true, 'Invitation already sent'::TEXT;
+    RETURN;
+  END IF;
+
+  INSERT INTO connection_invitations (
+    inviter_user_id,
+    inviter_name,
+    inviter_phone,
+    inviter_email,
+    inviter_photo,
+    invitee_phone,
+    status,
+    expires_at
+  )
+  VALUES (
+    v_user_id,
+    v_inviter.name,
+    v_inviter.phone,
+    v_inviter.email,
+    v_inviter.photo,
+    v_invitee.phone,
+    'pending',
+    NOW() + INTERVAL '7 days'
+  );
+
+  INSERT INTO notifications (user_id, title, body, type, data)
+  VALUES (
+    v_invitee.id,
+    'Connection Invitation',
+    v_inviter.name || ' wants to connect with you',
+    'connection_added',
+    jsonb_build_object(
+      'type', 'connection_invitation',
+      'inviterUserId', v_user_id,
+      'inviterName', v_inviter.name
+    )
+  );
+
+  RETURN QUERY SELECT true, 'Invitation sent'::TEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION normalize_phone_e164(TEXT, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION match_contact_hashes(TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION send_contact_invitation(TEXT) TO authenticated;
+
+-- Note: To check how a stored number is matched, execute:
+-- SELECT normalize_phone_e164(phone, 'NG'), phone_hash FROM users WHERE id = '<user_id>';
@@ -0,0 +1,209 @@
+-- ============================================
+-- Migration: Incident proximity alerts on incident insert
+-- ============================================
+-- Proximity alerts used to be computed by every app every 15 minutes
+-- (get_users_near_incidents over the whole user base) and pushed from
+-- whichever phone was awake. Now an AFTER INSERT trigger on incidents calls
+-- the notify-incident-proximity Edge Function once per incident:
+--
+--   1. claim_incident_proximity_recipients   -> users whose latest location is
+--                                               within 10 km, each recorded in
+--                                               incident_proximity_notifications
+--                                               under an idempotency key
+--   2. push + in-app notification for the claimed recipients only
+--   3. push_sent is set for each recipient whose push went out
+--   4. the run is logged in incident_proximity_dispatches
+--
+-- Retries (pg_net redelivery, manual re-runs, a run that failed halfway) only
+-- claim users not alerted yet, and hand back the recipients claimed earlier
+-- whose push_sent is still false, so a failed push is sent again instead of
+-- being lost.
+
+-- ============================================
+-- Idempotency key per recipient
+-- ============================================
+ALTER TABLE incident_proximity_notifications
+  ADD COLUMN IF NOT EXISTS idempotency_key TEXT,
+  ADD COLUMN IF NOT EXISTS push_sent BOOLEAN DEFAULT false;
+
+UPDATE incident_proximity_notifications
+SET idempotency_key = 'incident_proximity:' || incident_id || ':' || user_id
+WHERE idempotency_key IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_incident_proximity_notifications_idempotency_key
+  ON incident_proximity_notifications(idempotency_key);
+
+-- Only the server records proximity alerts now
+DROP POLICY IF EXISTS "Allow all insert" ON incident_proximity_notifications;
+DROP POLICY IF EXISTS "Allow all update" ON incident_proximity_notifications;
+DROP POLICY IF EXISTS "Allow all delete" ON incident_proximity_notifications;
+
+REVOKE INSERT, UPDATE, DELETE ON incident_proximity_notifications FROM authenticated;
+
+-- ============================================
+-- Fan-out log per incident (last run)
+-- ============================================
+CREATE TABLE IF NOT EXISTS incident_proximity_dispatches (
+  incident_id UUID PRIMARY KEY REFERENCES incidents(id) ON DELETE CASCADE,
+  recipient_count INTEGER DEFAULT 0,
+  sent_count INTEGER DEFAULT 0,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE incident_proximity_dispatches ENABLE ROW LEVEL SECURITY;
+
+GRANT ALL ON incident_proximity_dispatches TO service_role;
+
+-- ============================================
+-- Functions
+-- ============================================
+
+-- Function: Claim the users near an incident
+-- Uses each user's latest location_history row from the last 24 hours
+-- (older positions say nothing about where they are now) and skips the
+-- reporter. Returns the rows inserted by this call plus the rows claimed by an
+-- earlier run that were never pushed (already_claimed = true; they already
+-- have their in-app notification).
+-- notified_today tells whether the user already had a proximity alert today
+-- for another incident (push is limited to one per day).
+CREATE OR REPLACE FUNCTION claim_incident_proximity_recipients(
+  p_incident_id UUID,
+  p_max_distance_km DOUBLE PRECISION DEFAULT 10
+)
+RETURNS TABLE(
+  user_id TEXT,
+  distance_km DOUBLE PRECISION,
+  distance_text TEXT,
+  idempotency_key TEXT,
+  notified_today BOOLEAN,
+  already_claimed BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH incident AS (
+    SELECT i.id, i.user_id, i.location_latitude, i.location_longitude
+    FROM incidents i
+    WHERE i.id = p_incident_id
+  ),
+  user_locations AS (
+    SELECT DISTINCT ON (lh.user_id)
+      lh.user_id,
+      lh.latitude,
+      lh.longitude
+    FROM location_history lh
+    WHERE lh.latitude IS NOT NULL
+      AND lh.longitude IS NOT NULL
+      AND lh.created_at >= NOW() - INTERVAL '24 hours'
+    ORDER BY lh.user_id, lh.created_at DESC
+  ),
+  nearby AS (
+    SELECT
+      ul.user_id,
+      calculate_distance(ul.latitude, ul.longitude, inc.location_latitude, inc.location_longitude) AS distance_km,
+      EXISTS (
+        SELECT 1
+        FROM incident_proximity_notifications n
+        WHERE n.user_id = ul.user_id
+          AND n.incident_id <> inc.id
+          AND DATE(n.notified_at) = CURRENT_DATE
+      ) AS notified_today
+    FROM user_locations ul
+    CROSS JOIN incident inc
+    WHERE ul.user_id <> inc.user_id
+      AND calculate_distance(ul.latitude, ul.longitude, inc.location_latitude, inc.location_longitude)
+        <= p_max_distance_km
+  ),
+  claimed AS (
+    INSERT INTO incident_proximity_notifications (user_id, incident_id, distance_km, notified_at, idempotency_key)
+    SELECT
+      nb.user_id,
+      p_incident_id,
+      nb.distance_km,
+      NOW(),
+      'incident_proximity:' || p_incident_id || ':' || nb.user_id
+    FROM nearby nb
+    ON CONFLICT DO NOTHING
+    RETURNING incident_proximity_notifications.user_id, incident_proximity_notifications.idempotency_key
+  ),
+  -- Same snapshot as the insert above, so only rows from earlier runs
+  unsent AS (
+    SELECT n.user_id, n.distance_km, n.idempotency_key
+    FROM incident_proximity_notifications n
+    WHERE n.incident_id = p_incident_id
+      AND NOT COALESCE(n.push_sent, false)
+  )
+  SELECT
+    c.user_id,
+    nb.distance_km,
+    format_distance_for_user(c.user_id, nb.distance_km, 1),
+    c.idempotency_key,
+    nb.notified_today,
+    false
+  FROM claimed c
+  JOIN nearby nb ON nb.user_id = c.user_id
+  UNION ALL
+  SELECT
+    u.user_id,
+    u.distance_km,
+    format_distance_for_user(u.user_id, u.distance_km, 1),
+    u.idempotency_key,
+    EXISTS (
+      SELECT 1
+      FROM incident_proximity_notifications o
+      WHERE o.user_id = u.user_id
+        AND o.incident_id <> p_incident_id
+        AND DATE(o.notified_at) = CURRENT_DATE
+    ),
+    true
+  FROM unsent u
+  ORDER BY 2 ASC;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION claim_incident_proximity_recipients(UUID, DOUBLE PRECISION) TO service_role;
+
+-- The client-side checker is retired; nothing calls this anymore
+DROP FUNCTION IF EXISTS get_users_near_incidents(DOUBLE PRECISION, DOUBLE PRECISION, INTEGER);
+
+-- ============================================
+-- Trigger: call the Edge Function once per new incident
+-- ============================================
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+CREATE OR REPLACE FUNCTION handle_incident_proximity_on_insert()
+RETURNS TRIGGER AS $$
+DECLARE
+  project_ref TEXT := 'bbydsaxduuwbnwqmiant'; -- Replace with your project reference
+  service_role_key TEXT := 'YOUR_SERVICE_ROLE_KEY'; -- Replace with your service_role key
+  function_url TEXT;
+BEGIN
+  function_url := 'https://' || project_ref || '.supabase.co/functions/v1/notify-incident-proximity';
+
+  -- pg_net sends after commit, so the incident is visible to the function
+  PERFORM net.http_post(
+    url := function_url,
+    headers := jsonb_build_object(
+      'Authorization', 'Bearer ' || service_role_key,
+      'Content-Type', 'application/json'
+    ),
+    body := jsonb_build_object('incident_id', NEW.id)
+  );
+
+  RETURN NEW;
+EXCEPTION
+  WHEN OTHERS THEN
+    -- Never block reporting an incident because alerting failed
+    RAISE WARNING 'Could not queue incident proximity alerts for %: %', NEW.id, SQLERRM;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP TRIGGER IF EXISTS incidents_proximity_alerts ON incidents;
+CREATE TRIGGER incidents_proximity_alerts
+  AFTER INSERT ON incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION handle_incident_proximity_on_insert();
+
+-- Note: To retry an incident's alerts (new users are claimed, unsent pushes are resent), call
+-- notify-incident-proximity again with { "incident_id": "<incident_id>" }.
@@ -0,0 +1,325 @@
+-- ============================================
+-- Migration: Severity-aware incident alert budgets
+-- ============================================
+-- Replaces the one-push-per-day cap (has_been_notified_today), which silently
+-- downgraded a second, far more dangerous incident to in-app only.
+--
+-- Each claimed recipient gets a priority from the incident's category severity
+-- and the distance band (danger <= 3 km, warning <= 6 km, alert <= 10 km):
+--
+--   severity: Kidnapping, Assault, Robbery, Fire = 3
+--             Accident, Protest                  = 2
+--             Theft, Other                       = 1
+--   band:     danger = 3, warning = 2, alert = 1
+--
+--   critical  severity 3 in the danger band   -> always pushed
+--   high      severity x band >= 6            -> pushed while the budget allows
+--   normal    severity x band >= 3            -> pushed while the budget allows
+--   minor     everything else                 -> digest
+--
+-- Budget (pushes in the last 24 hours, critical ones included):
+--   high     at most 4, and 30 minutes since the last push
+--   normal   at most 2, and 3 hours since the last push
+-- Over budget means digest. The send-incident-digest Edge Function batches
+-- pending digest rows into one push per user every 3 hours. In-app
+-- notifications are still created right away for everyone.
+
+-- ============================================
+-- Delivery per recipient
+-- ============================================
+ALTER TABLE incident_proximity_notifications
+  ADD COLUMN IF NOT EXISTS priority TEXT CHECK (priority IN ('critical', 'high', 'normal', 'minor')),
+  ADD COLUMN IF NOT EXISTS delivery TEXT CHECK (delivery IN ('push', 'digest')),
+  ADD COLUMN IF NOT EXISTS digested_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_incident_proximity_notifications_pending_digest
+  ON incident_proximity_notifications(user_id)
+  WHERE delivery = 'digest' AND digested_at IS NULL;
+
+-- ============================================
+-- Functions
+-- ============================================
+
+-- Function: Severity of an incident category (1 = minor ... 3 = severe)
+CREATE OR REPLACE FUNCTION get_incident_category_severity(p_category TEXT)
+RETURNS INTEGER AS $$
+BEGIN
+  RETURN CASE p_category
+    WHEN 'Kidnapping' THEN 3
+    WHEN 'Assault' THEN 3
+    WHEN 'Robbery' THEN 3
+    WHEN 'Fire' THEN 3
+    WHEN 'Accident' THEN 2
+    WHEN 'Protest' THEN 2
+    ELSE 1
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function: Alert priority for an incident category at a distance
+CREATE OR REPLACE FUNCTION get_incident_alert_priority(
+  p_category TEXT,
+  p_distance_km DOUBLE PRECISION
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_severity INTEGER := get_incident_category_severity(p_category);
+  v_band INTEGER;
+BEGIN
+  v_band := CASE
+    WHEN p_distance_km <= 3 THEN 3
+    WHEN p_distance_km <= 6 THEN 2
+    ELSE 1
+  END;
+
+  IF v_severity = 3 AND v_band = 3 THEN
+    RETURN 'critical';
+  ELSIF v_severity * v_band >= 6 THEN
+    RETURN 'high';
+  ELSIF v_severity * v_band >= 3 THEN
+    RETURN 'normal';
+  END IF;
+  RETURN 'minor';
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function: Push now or add to the digest, given the user's recent pushes
+CREATE OR REPLACE FUNCTION get_incident_alert_delivery(
+  p_user_id TEXT,
+  p_priority TEXT
+)
+RETURNS TEXT AS $$
+DECLARE
+  v_recent_pushes INTEGER;
+  v_last_push_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF p_priority = 'critical' THEN
+    RETURN 'push';
+  ELSIF p_priority = 'minor' THEN
+    RETURN 'digest';
+  END IF;
+
+  SELECT COUNT(*), MAX(notified_at)
+  INTO v_recent_pushes, v_last_push_at
+  FROM incident_proximity_notifications
+  WHERE user_id = p_user_id
+    AND delivery = 'push'
+    AND notified_at >= NOW() - INTERVAL '24 hours';
+
+  IF p_priority = 'high'
+    AND v_recent_pushes < 4
+    AND (v_last_push_at IS NULL OR v_last_push_at <= NOW() - INTERVAL '30 minutes') THEN
+    RETURN 'push';
+  END IF;
+
+  IF p_priority = 'normal'
+    AND v_recent_pushes < 2
+    AND (v_last_push_at IS NULL OR v_last_push_at <= NOW() - INTERVAL '3 hours') THEN
+    RETURN 'push';
+  END IF;
+
+  RETURN 'digest';
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Function: Claim the users near an incident (see 20260206000000_incident_proximity_on_insert.sql)
+-- Now returns each recipient's priority and delivery instead of notified_today.
+-- Recipients claimed by an earlier run whose push was never sent are returned
+-- again with already_claimed = true.
+DROP FUNCTION IF EXISTS claim_incident_proximity_recipients(UUID, DOUBLE PRECISION);
+
+CREATE OR REPLACE FUNCTION claim_incident_proximity_recipients(
+  p_incident_id UUID,
+  p_max_distance_km DOUBLE PRECISION DEFAULT 10
+)
+RETURNS TABLE(
+  user_id TEXT,
+  distance_km DOUBLE PRECISION,
+  distance_text TEXT,
+  idempotency_key TEXT,
+  priority TEXT,
+  delivery TEXT,
+  already_claimed BOOLEAN
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH incident AS (
+    SELECT i.id, i.user_id, i.category, i.location_latitude, i.location_longitude
+    FROM incidents i
+    WHERE i.id = p_incident_id
+  ),
+  user_locations AS (
+    SELECT DISTINCT ON (lh.user_id)
+      lh.user_id,
+      lh.latitude,
+      lh.longitude
+    FROM location_history lh
+    WHERE lh.latitude IS NOT NULL
+      AND lh.longitude IS NOT NULL
+      AND lh.created_at >= NOW() - INTERVAL '24 hours'
+    ORDER BY lh.user_id, lh.created_at DESC
+  ),
+  nearby AS (
+    SELECT
+      ul.user_id,
+      calculate_distance(ul.latitude, ul.longitude, inc.location_latitude, inc.location_longitude) AS distance_km,
+      inc.category
+    FROM user_locations ul
+    CROSS JOIN incident inc
+    WHERE ul.user_id <> inc.user_id
+      AND calculate_distance(ul.latitude, ul.longitude, inc.location_latitude, inc.location_longitude)
+        <= p_max_distance_km
+  ),
+  decided AS (
+    SELECT
+      nb.user_id,
+      nb.distance_km,
+      get_incident_alert_priority(nb.category, nb.distance_km) AS priority
+    FROM nearby nb
+  ),
+  routed AS (
+    SELECT
+      d.user_id,
+      d.distance_km,
+      d.priority,
+      get_incident_alert_delivery(d.user_id, d.priority) AS delivery
+    FROM decided d
+  ),
+  claimed AS (
+    INSERT INTO incident_proximity_notifications (
+      user_id, incident_id, distance_km, notified_at, idempotency_key, priority, delivery
+    )
+    SELECT
+      r.user_id,
+      p_incident_id,
+      r.distance_km,
+      NOW(),
+      'incident_proximity:' || p_incident_id || ':' || r.user_id,
+      r.priority,
+      r.delivery
+    FROM routed r
+    ON CONFLICT DO NOTHING
+    RETURNING incident_proximity_notifications.user_id, incident_proximity_notifications.idempotency_key
+  ),
+  -- Same snapshot as the insert above, so only rows from earlier runs
+  unsent AS (
+    SELECT n.user_id, n.distance_km, n.idempotency_key, n.priority, n.delivery
+    FROM incident_proximity_notifications n
+    WHERE n.incident_id = p_incident_id
+      AND n.delivery = 'push'
+      AND NOT COALESCE(n.push_sent, false)
+  )
+  SELECT
+    c.user_id,
+    r.distance_km,
+    format_distance_for_user(c.user_id, r.distance_km, 1),
+    c.idempotency_key,
+    r.priority,
+    r.delivery,
+    false
+  FROM claimed c
+  JOIN routed r ON r.user_id = c.user_id
+  UNION ALL
+  SELECT
+    u.user_id,
+    u.distance_km,
+    format_distance_for_user(u.user_id, u.distance_km, 1),
+    u.idempotency_key,
+    u.priority,
+    u.delivery,
+    true
+  FROM unsent u
+  ORDER BY 2 ASC;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Function: Claim every pending digest row, one result row per user
+-- Rows are stamped digested_at in the same statement, so overlapping runs
+-- never send the same incident twice.
+CREATE OR REPLACE FUNCTION claim_incident_digests()
+RETURNS TABLE(
+  user_id TEXT,
+  incident_ids UUID[],
+  incident_count INTEGER,
+  closest_incident_id UUID,
+  closest_distance_text TEXT
+) AS $$
+BEGIN
+  RETURN QUERY
+  WITH claimed AS (
+    UPDATE incident_proximity_notifications n
+    SET digested_at = NOW()
+    WHERE n.delivery = 'digest'
+      AND n.digested_at IS NULL
+    RETURNING n.user_id, n.incident_id, n.distance_km
+  )
+  SELECT
+    c.user_id,
+    ARRAY_AGG(c.incident_id ORDER BY c.distance_km),
+    COUNT(*)::INTEGER,
+    (ARRAY_AGG(c.incident_id ORDER BY c.distance_km))[1],
+    format_distance_for_user(c.user_id, MIN(c.distance_km), 1)
+  FROM claimed c
+  GROUP BY c.user_id;
+END;
+$$ LANGUAGE plpgsql;
+
+GRANT EXECUTE ON FUNCTION get_incident_category_severity(TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_incident_category_severity(TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION get_incident_alert_priority(TEXT, DOUBLE PRECISION) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_incident_alert_priority(TEXT, DOUBLE PRECISION) TO service_role;
+GRANT EXECUTE ON FUNCTION get_incident_alert_delivery(TEXT, TEXT) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_incident_proximity_recipients(UUID, DOUBLE PRECISION) TO service_role;
+GRANT EXECUTE ON FUNCTION claim_incident_digests() TO service_role;
+
+-- The daily cap is gone
+DROP FUNCTION IF EXISTS has_been_notified_today(TEXT);
+
+-- ============================================
+-- Schedule (every 3 hours)
+-- ============================================
+CREATE EXTENSION IF NOT EXISTS pg_net;
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Function to call the edge function via HTTP
+CREATE OR REPLACE FUNCTION call_send_incident_digest_edge_function()
+RETURNS void AS $$
+DECLARE
+  project_ref TEXT := 'bbydsaxduuwbnwqmiant'; -- Replace with your project reference
+  service_role_key TEXT := 'YOUR_SERVICE_ROLE_KEY'; -- Replace with your service_role key
+  function_url TEXT;
+BEGIN
+  function_url := 'https://' || project_ref || '.supabase.co/functions/v1/send-incident-digest';
+
+  PERFORM net.http_post(
+    url := function_url,
+    headers := jsonb_build_object(
+      'Authorization', 'Bearer ' || service_role_key,
+      'Content-Type', 'application/json'
+    ),
+    body := '{}'::jsonb
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'send-incident-digest') THEN
+    PERFORM cron.unschedule('send-incident-digest');
+    RAISE NOTICE 'Unscheduled existing incident digest job';
+  END IF;
+
+  PERFORM cron.schedule(
+    'send-incident-digest',                            -- Job name
+    '0 */3 * * *',                                     -- Cron schedule: every 3 hours
+    'SELECT call_send_incident_digest_edge_function()' -- SQL to execute
+  );
+
+  RAISE NOTICE 'Incident digest cron job scheduled successfully (every 3 hours)';
+END $$;
+
+-- Note: To see how an incident would be prioritised, execute:
+-- SELECT get_incident_alert_priority('Kidnapping', 1.0);  -- critical
+
+-- Note: To see pending digest rows, execute:
+-- SELECT * FROM incident_proximity_notifications WHERE delivery = 'digest' AND digested_at IS NULL;
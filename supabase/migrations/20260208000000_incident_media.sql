@@ -0,0 +1,159 @@
+-- ============================================
+-- Migration: Photo and video evidence on incidents
+-- ============================================
+-- Reporters can attach up to 5 photos or short clips (30 s) to an incident.
+-- Files live in the public incident-media storage bucket under
+-- <incident_id>/<media_id>.<ext> with a JPEG thumbnail next to them
+-- (<media_id>_thumb.jpg). The app strips EXIF/GPS metadata before uploading
+-- (photos are re-encoded, location atoms in clips are blanked) and uploads
+-- through Storage's resumable (TUS) endpoint.
+--
+-- incident_media rows are inserted once the upload finished, so the feed
+-- never shows a broken gallery item.
+
+-- ============================================
+-- Storage bucket
+-- ============================================
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'incident-media',
+  'incident-media',
+  true,
+  52428800, -- 50 MB
+  ARRAY['image/jpeg', 'video/mp4', 'video/quicktime']
+)
+ON CONFLICT (id) DO UPDATE SET
+  public = EXCLUDED.public,
+  file_size_limit = EXCLUDED.file_size_limit,
+  allowed_mime_types = EXCLUDED.allowed_mime_types;
+
+-- Function: Whether the current user reported the incident a storage path belongs to
+CREATE OR REPLACE FUNCTION owns_incident_media_path(p_object_name TEXT)
+RETURNS BOOLEAN AS $$
+BEGIN
+  RETURN auth.uid() IS NOT NULL
+    AND EXISTS (
+      SELECT 1
+      FROM incidents i
+      WHERE i.id::TEXT = split_part(p_object_name, '/', 1)
+        AND i.user_id = auth.uid()::TEXT
+    );
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+DROP POLICY IF EXISTS "Anyone can view incident media" ON storage.objects;
+CREATE POLICY "Anyone can view incident media"
+  ON storage.objects FOR SELECT
+  USING (bucket_id = 'incident-media');
+
+DROP POLICY IF EXISTS "Reporters can upload incident media" ON storage.objects;
+CREATE POLICY "Reporters can upload incident media"
+  ON storage.objects FOR INSERT
+  WITH CHECK (bucket_id = 'incident-media' AND owns_incident_media_path(name));
+
+-- Resumed uploads update the object they created
+DROP POLICY IF EXISTS "Reporters can update incident media" ON storage.objects;
+CREATE POLICY "Reporters can update incident media"
+  ON storage.objects FOR UPDATE
+  USING (bucket_id = 'incident-media' AND owns_incident_media_path(name));
+
+DROP POLICY IF EXISTS "Reporters can delete incident media" ON storage.objects;
+CREATE POLICY "Reporters can delete incident media"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'incident-media' AND owns_incident_media_path(name));
+
+-- ============================================
+-- Media table
+-- ============================================
+CREATE TABLE IF NOT EXISTS incident_media (
+  id UUID PRIMARY KEY,
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  media_type TEXT NOT NULL CHECK (media_type IN ('photo', 'video')),
+  storage_path TEXT NOT NULL,
+  thumbnail_path TEXT NOT NULL,
+  width INTEGER,
+  height INTEGER,
+  duration_seconds DOUBLE PRECISION,
+  size_bytes BIGINT,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  -- Keep in sync with INCIDENT_MEDIA_MAX_VIDEO_SECONDS (plus 1 s for rounding)
+  CONSTRAINT incident_media_video_duration CHECK (
+    media_type <> 'video' OR (duration_seconds IS NOT NULL AND duration_seconds <= 31)
+  )
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_media_incident_id ON incident_media(incident_id, position);
+
+ALTER TABLE incident_media ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view incident media rows" ON incident_media;
+CREATE POLICY "Anyone can view incident media rows"
+  ON incident_media FOR SELECT
+  USING (true);
+
+DROP POLICY IF EXISTS "Reporters can add incident media rows" ON incident_media;
+CREATE POLICY "Reporters can add incident media rows"
+  ON incident_media FOR INSERT
+  WITH CHECK (
+    user_id = auth.uid()::TEXT
+    AND EXISTS (
+      SELECT 1 FROM incidents i
+      WHERE i.id = incident_media.incident_id
+        AND i.user_id = auth.uid()::TEXT
+    )
+  );
+
+DROP POLICY IF EXISTS "Reporters can delete incident media rows" ON incident_media;
+CREATE POLICY "Reporters can delete incident media rows"
+  ON incident_media FOR DELETE
+  USING (user_id = auth.uid()::TEXT);
+
+GRANT SELECT, INSERT, DELETE ON incident_media TO authenticated;
+GRANT ALL ON incident_media TO service_role;
+
+-- Feeds pick up evidence that finishes uploading after the incident appeared
+ALTER PUBLICATION supabase_realtime ADD TABLE incident_media;
+
+-- Keep in sync with INCIDENT_MEDIA_MAX_ITEMS in src/services/incidentMediaService.ts
+CREATE OR REPLACE FUNCTION enforce_incident_media_limit()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF (SELECT COUNT(*) FROM incident_media WHERE incident_id = NEW.incident_id) >= 5 THEN
+    RAISE EXCEPTION 'An incident can have at most 5 photos or videos';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS incident_media_limit ON incident_media;
+CREATE TRIGGER incident_media_limit
+  BEFORE INSERT ON incident_media
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_incident_media_limit();
+
+-- Function: Stored files whose incident is gone
+-- Incidents expire after 3 hours (cleanup_expired_incidents), which removes
+-- their incident_media rows but not the files; the cleanup-expired-incidents
+-- Edge Function deletes these through the Storage API.
+CREATE OR REPLACE FUNCTION get_orphaned_incident_media_paths(p_limit INTEGER DEFAULT 1000)
+RETURNS TABLE(path TEXT) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT o.name
+  FROM storage.objects o
+  WHERE o.bucket_id = 'incident-media'
+    AND NOT EXISTS (
+      SELECT 1 FROM incidents i
+      WHERE i.id::TEXT = split_part(o.name, '/', 1)
+    )
+  ORDER BY o.created_at
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_orphaned_incident_media_paths(INTEGER) TO service_role;
+
+-- Note: Enable "Resumable uploads" (TUS) for the project in Storage settings
+-- if it is not already on.
@@ -0,0 +1,350 @@
+-- ============================================
+-- Migration: Incident updates and lifecycle status
+-- ============================================
+-- Incidents used to be static once reported. Now:
+--   - anyone can post an update ("police have arrived", "road reopened"),
+--     each with its own timestamp and, optionally, where it was posted from;
+--     replies are threaded one level deep under the update they answer
+--   - incidents have a status: ongoing -> contained -> resolved (and back)
+--     The reporter changes it directly. Everyone else votes; a status wins
+--     once it has 3 votes and more than any other status.
+--
+-- Clients only read incident_updates and incident_status_votes; all writes go
+-- through the functions below. Anonymous posts, and posts by an anonymous
+-- reporter, are stored without user_id so the public thread can't be traced
+-- back to the author. Status changes and new updates also touch the
+-- incidents row, so feeds subscribed to incidents pick them up in realtime.
+
+-- ============================================
+-- Incident status
+-- ============================================
+ALTER TABLE incidents
+  ADD COLUMN IF NOT EXISTS status TEXT NOT NULL DEFAULT 'ongoing'
+    CHECK (status IN ('ongoing', 'contained', 'resolved')),
+  ADD COLUMN IF NOT EXISTS status_changed_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS update_count INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS last_update_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_incidents_status ON incidents(status);
+
+-- ============================================
+-- Tables
+-- ============================================
+
+-- Update thread (comments and status changes)
+CREATE TABLE IF NOT EXISTS incident_updates (
+  id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  parent_id UUID REFERENCES incident_updates(id) ON DELETE CASCADE,
+  user_id TEXT,
+  author_name TEXT,
+  is_reporter BOOLEAN NOT NULL DEFAULT FALSE,
+  kind TEXT NOT NULL CHECK (kind IN ('comment', 'status_changed')),
+  status TEXT CHECK (status IN ('ongoing', 'contained', 'resolved')),
+  body TEXT,
+  latitude DOUBLE PRECISION,
+  longitude DOUBLE PRECISION,
+  address TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_updates_incident_id ON incident_updates(incident_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_incident_updates_parent_id ON incident_updates(parent_id);
+
+-- One status vote per user and incident (changing your mind replaces it)
+CREATE TABLE IF NOT EXISTS incident_status_votes (
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('ongoing', 'contained', 'resolved')),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (incident_id, user_id)
+);
+
+DROP TRIGGER IF EXISTS update_incident_status_votes_updated_at ON incident_status_votes;
+CREATE TRIGGER update_incident_status_votes_updated_at
+  BEFORE UPDATE ON incident_status_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- ============================================
+-- Row Level Security (read-only for clients)
+-- ============================================
+ALTER TABLE incident_updates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE incident_status_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view incident updates" ON incident_updates;
+CREATE POLICY "Anyone can view incident updates"
+  ON incident_updates FOR SELECT
+  USING (true);
+
+-- Vote counts come from get_incident_status_votes; users only see their own vote
+DROP POLICY IF EXISTS "Users can view their own incident status votes" ON incident_status_votes;
+CREATE POLICY "Users can view their own incident status votes"
+  ON incident_status_votes FOR SELECT
+  USING (user_id = auth.uid()::TEXT);
+
+GRANT SELECT ON incident_updates TO authenticated;
+GRANT ALL ON incident_updates TO service_role;
+GRANT SELECT ON incident_status_votes TO authenticated;
+GRANT ALL ON incident_status_votes TO service_role;
+
+-- Detail screens follow the thread live
+ALTER PUBLICATION supabase_realtime ADD TABLE incident_updates;
+
+-- ============================================
+-- Status changes (enforcement)
+-- ============================================
+
+-- Trigger function: Reject status changes that skip set_incident_status
+-- perform_incident_status_change sets famguard.incident_status_change for the
+-- current transaction; backend requests (is_service_request) are allowed.
+CREATE OR REPLACE FUNCTION enforce_incident_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status IS NOT DISTINCT FROM NEW.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT is_service_request()
+    AND COALESCE(current_setting('famguard.incident_status_change', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Incident status can only be changed with set_incident_status'
+      USING ERRCODE = '42501';
+  END IF;
+
+  NEW.status_changed_at := NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_incident_status_change_trigger ON incidents;
+CREATE TRIGGER enforce_incident_status_change_trigger
+  BEFORE UPDATE OF status ON incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_incident_status_change();
+
+-- Function: Apply a status and record it in the thread
+-- p_actor_id NULL means the community decided (consensus); otherwise it is
+-- the reporter, whose id is left out of the thread if they reported anonymously.
+CREATE OR REPLACE FUNCTION perform_incident_status_change(
+  p_incident_id UUID,
+  p_status TEXT,
+  p_actor_id TEXT,
+  p_actor_name TEXT
+)
+RETURNS VOID AS $$
+DECLARE
+  v_reporter_is_anonymous BOOLEAN;
+BEGIN
+  PERFORM set_config('famguard.incident_status_change', 'on', true);
+
+  UPDATE incidents
+  SET status = p_status
+  WHERE id = p_incident_id
+  RETURNING reporter_is_anonymous INTO v_reporter_is_anonymous;
+
+  PERFORM set_config('famguard.incident_status_change', '', true);
+
+  INSERT INTO incident_updates (incident_id, user_id, author_name, is_reporter, kind, status)
+  VALUES (
+    p_incident_id,
+    CASE WHEN COALESCE(v_reporter_is_anonymous, FALSE) THEN NULL ELSE p_actor_id END,
+    p_actor_name,
+    p_actor_id IS NOT NULL,
+    'status_changed',
+    p_status
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Internal helper: not callable by clients (would bypass the checks)
+REVOKE ALL ON FUNCTION perform_incident_status_change(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Function: Change an incident's status (reporter) or vote for one (everyone else)
+-- A vote applies the status once it has 3 votes and more than any other
+-- status. Returns the incident's status afterwards and whether it changed.
+CREATE OR REPLACE FUNCTION set_incident_status(
+  p_incident_id UUID,
+  p_status TEXT
+)
+RETURNS TABLE(status TEXT, changed BOOLEAN) AS $$
+DECLARE
+  v_actor TEXT := auth.uid()::TEXT;
+  v_actor_name TEXT;
+  v_incident incidents;
+  v_votes INTEGER;
+  v_runner_up INTEGER;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_status NOT IN ('ongoing', 'contained', 'resolved') THEN
+    RAISE EXCEPTION 'Invalid incident status: %', p_status USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_incident
+  FROM incidents i
+  WHERE i.id = p_incident_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incident not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  -- The reporter decides directly
+  IF v_incident.user_id = v_actor THEN
+    IF v_incident.status = p_status THEN
+      RETURN QUERY SELECT v_incident.status, FALSE;
+      RETURN;
+    END IF;
+
+    v_actor_name := CASE WHEN v_incident.reporter_is_anonymous THEN 'Reporter' ELSE v_incident.reporter_name END;
+
+    PERFORM perform_incident_status_change(p_incident_id, p_status, v_actor, v_actor_name);
+    RETURN QUERY SELECT p_status, TRUE;
+    RETURN;
+  END IF;
+
+  INSERT INTO incident_status_votes (incident_id, user_id, status)
+  VALUES (p_incident_id, v_actor, p_status)
+  ON CONFLICT (incident_id, user_id) DO UPDATE SET status = EXCLUDED.status;
+
+  IF v_incident.status = p_status THEN
+    RETURN QUERY SELECT v_incident.status, FALSE;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO v_votes
+  FROM incident_status_votes v
+  WHERE v.incident_id = p_incident_id
+    AND v.status = p_status;
+
+  SELECT COALESCE(MAX(c.vote_count), 0) INTO v_runner_up
+  FROM (
+    SELECT COUNT(*) AS vote_count
+    FROM incident_status_votes o
+    WHERE o.incident_id = p_incident_id
+      AND o.status <> p_status
+    GROUP BY o.status
+  ) c;
+
+  IF v_votes >= 3 AND v_votes > v_runner_up THEN
+    PERFORM perform_incident_status_change(p_incident_id, p_status, NULL, 'Community');
+    RETURN QUERY SELECT p_status, TRUE;
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT v_incident.status, FALSE;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Function: Status vote counts for an incident, and the current user's vote
+CREATE OR REPLACE FUNCTION get_incident_status_votes(p_incident_id UUID)
+RETURNS TABLE(status TEXT, vote_count INTEGER, voted BOOLEAN) AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    v.status,
+    COUNT(*)::INTEGER,
+    BOOL_OR(v.user_id = auth.uid()::TEXT)
+  FROM incident_status_votes v
+  WHERE v.incident_id = p_incident_id
+  GROUP BY v.status;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER;
+
+-- ============================================
+-- Posting updates
+-- ============================================
+
+-- Function: Post an update on an incident, or a reply to one
+-- Replies to a reply are attached to the top-level update, so threads stay
+-- one level deep. p_location: { latitude, longitude, address } or NULL.
+CREATE OR REPLACE FUNCTION post_incident_update(
+  p_incident_id UUID,
+  p_body TEXT,
+  p_parent_id UUID DEFAULT NULL,
+  p_location JSONB DEFAULT NULL,
+  p_anonymous BOOLEAN DEFAULT FALSE
+)
+RETURNS SETOF incident_updates AS $$
+DECLARE
+  v_actor TEXT := auth.uid()::TEXT;
+  v_actor_name TEXT;
+  v_incident incidents;
+  v_parent incident_updates;
+  v_parent_id UUID;
+  v_hide_author BOOLEAN;
+  v_update incident_updates;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF NULLIF(TRIM(p_body), '') IS NULL THEN
+    RAISE EXCEPTION 'Update cannot be empty' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_incident
+  FROM incidents i
+  WHERE i.id = p_incident_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incident not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_parent_id IS NOT NULL THEN
+    SELECT * INTO v_parent
+    FROM incident_updates u
+    WHERE u.id = p_parent_id
+      AND u.incident_id = p_incident_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Update to reply to not found' USING ERRCODE = 'P0002';
+    END IF;
+
+    v_parent_id := COALESCE(v_parent.parent_id, v_parent.id);
+  END IF;
+
+  v_hide_author := p_anonymous OR (v_incident.user_id = v_actor AND v_incident.reporter_is_anonymous);
+
+  IF p_anonymous THEN
+    v_actor_name := 'Anonymous';
+  ELSIF v_hide_author THEN
+    -- Don't reveal an anonymous reporter through their updates
+    v_actor_name := 'Reporter';
+  ELSE
+    SELECT COALESCE(u.name, 'Someone') INTO v_actor_name
+    FROM users u
+    WHERE u.id = v_actor;
+  END IF;
+
+  INSERT INTO incident_updates (
+    incident_id, parent_id, user_id, author_name, is_reporter, kind, body,
+    latitude, longitude, address
+  )
+  VALUES (
+    p_incident_id, v_parent_id, CASE WHEN v_hide_author THEN NULL ELSE v_actor END, COALESCE(v_actor_name, 'Someone'), v_incident.user_id = v_actor, 'comment',
+    LEFT(TRIM(p_body), 1000),
+    (p_location->>'latitude')::DOUBLE PRECISION,
+    (p_location->>'longitude')::DOUBLE PRECISION,
+    p_location->>'address'
+  )
+  RETURNING * INTO v_update;
+
+  UPDATE incidents
+  SET update_count = update_count + 1,
+      last_update_at = v_update.created_at
+  WHERE id = p_incident_id;
+
+  RETURN NEXT v_update;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION set_incident_status(UUID, TEXT) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_incident_status_votes(UUID) TO authenticated;
+GRANT EXECUTE ON FUNCTION post_incident_update(UUID, TEXT, UUID, JSONB, BOOLEAN) TO authenticated;
+
+-- Note: To see an incident's thread, execute:
+-- SELECT * FROM incident_updates WHERE incident_id = '<incident-id>' ORDER BY created_at;
@@ -0,0 +1,249 @@
+-- ============================================
+-- Migration: One vote per user on incidents, community confirmation
+-- ============================================
+-- The app used to read incidents.upvotes, add 1 and write it back: concurrent
+-- votes were lost and anyone could upvote endlessly. Votes now live in
+-- incident_votes (one row per user and incident) and are cast through
+-- cast_incident_vote, which recounts the incident's totals in the same
+-- transaction.
+--
+--   confirm  "I can confirm"   -> counted in incidents.upvotes
+--   false    "This is false"   -> counted in incidents.false_votes
+--
+-- Each vote is weighted by how close the voter was to the incident when
+-- voting (latest location in the last hour):
+--   <= 1 km  1.0
+--   <= 3 km  0.75
+--   <= 10 km 0.5
+--   further, or no recent location  0.25
+--
+-- An incident is confirmed while its confirm weight is at least 2 (e.g. two
+-- people at the scene) and at least twice its false weight. The reporter
+-- can't vote on their own incident.
+
+-- ============================================
+-- Vote totals on incidents
+-- ============================================
+ALTER TABLE incidents
+  ADD COLUMN IF NOT EXISTS false_votes INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS confirm_weight DOUBLE PRECISION NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS false_weight DOUBLE PRECISION NOT NULL DEFAULT 0;
+
+-- ============================================
+-- Votes
+-- ============================================
+CREATE TABLE IF NOT EXISTS incident_votes (
+  incident_id UUID NOT NULL REFERENCES incidents(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  vote TEXT NOT NULL CHECK (vote IN ('confirm', 'false')),
+  distance_km DOUBLE PRECISION,
+  weight DOUBLE PRECISION NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (incident_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_incident_votes_user_id ON incident_votes(user_id);
+
+DROP TRIGGER IF EXISTS update_incident_votes_updated_at ON incident_votes;
+CREATE TRIGGER update_incident_votes_updated_at
+  BEFORE UPDATE ON incident_votes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Read-only for clients; users only see their own votes
+ALTER TABLE incident_votes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own incident votes" ON incident_votes;
+CREATE POLICY "Users can view their own incident votes"
+  ON incident_votes FOR SELECT
+  USING (user_id = auth.uid()::TEXT);
+
+GRANT SELECT ON incident_votes TO authenticated;
+GRANT ALL ON incident_votes TO service_role;
+
+-- ============================================
+-- Vote totals (enforcement)
+-- ============================================
+
+-- The old client-side upvote path
+DROP POLICY IF EXISTS "Users can upvote incidents" ON incidents;
+
+-- Only the reporter may edit their incident (was open to everyone)
+DROP POLICY IF EXISTS "Users can update their own incidents" ON incidents;
+CREATE POLICY "Users can update their own incidents"
+  ON incidents FOR UPDATE
+  USING (auth.uid()::TEXT = user_id)
+  WITH CHECK (auth.uid()::TEXT = user_id);
+
+-- Trigger function: Keep clients from writing vote totals directly
+-- New incidents start with no votes; client updates may only change the
+-- totals inside cast_incident_vote (famguard.incident_vote). Backend requests
+-- (is_service_request) are allowed.
+CREATE OR REPLACE FUNCTION enforce_incident_vote_totals()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF is_service_request() THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.upvotes := 0;
+    NEW.false_votes := 0;
+    NEW.confirm_weight := 0;
+    NEW.false_weight := 0;
+    NEW.confirmed := FALSE;
+    RETURN NEW;
+  END IF;
+
+  IF COALESCE(current_setting('famguard.incident_vote', true), '') <> 'on'
+    AND (
+      NEW.upvotes IS DISTINCT FROM OLD.upvotes
+      OR NEW.false_votes IS DISTINCT FROM OLD.false_votes
+      OR NEW.confirm_weight IS DISTINCT FROM OLD.confirm_weight
+      OR NEW.false_weight IS DISTINCT FROM OLD.false_weight
+      OR NEW.confirmed IS DISTINCT FROM OLD.confirmed
+    ) THEN
+    RAISE EXCEPTION 'Incident votes can only be changed with cast_incident_vote'
+      USING ERRCODE = '42501';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_incident_vote_totals_trigger ON incidents;
+CREATE TRIGGER enforce_incident_vote_totals_trigger
+  BEFORE INSERT OR UPDATE ON incidents
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_incident_vote_totals();
+
+-- ============================================
+-- Functions
+-- ============================================
+
+-- Function: Weight of a vote cast p_distance_km from the incident (NULL = unknown)
+CREATE OR REPLACE FUNCTION get_incident_vote_weight(p_distance_km DOUBLE PRECISION)
+RETURNS DOUBLE PRECISION AS $$
+BEGIN
+  RETURN CASE
+    WHEN p_distance_km IS NULL THEN 0.25
+    WHEN p_distance_km <= 1 THEN 1.0
+    WHEN p_distance_km <= 3 THEN 0.75
+    WHEN p_distance_km <= 10 THEN 0.5
+    ELSE 0.25
+  END;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Function: Cast, change (p_vote) or withdraw (p_vote NULL) the current user's vote
+-- The incident row is locked while its totals are recounted, so concurrent
+-- votes are never lost. Returns the new totals and the user's vote.
+CREATE OR REPLACE FUNCTION cast_incident_vote(
+  p_incident_id UUID,
+  p_vote TEXT
+)
+RETURNS TABLE(
+  upvotes INTEGER,
+  false_votes INTEGER,
+  confirmed BOOLEAN,
+  my_vote TEXT
+) AS $$
+DECLARE
+  v_actor TEXT := auth.uid()::TEXT;
+  v_incident incidents;
+  v_distance_km DOUBLE PRECISION;
+  v_confirm_count INTEGER;
+  v_false_count INTEGER;
+  v_confirm_weight DOUBLE PRECISION;
+  v_false_weight DOUBLE PRECISION;
+  v_confirmed BOOLEAN;
+BEGIN
+  IF v_actor IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_vote IS NOT NULL AND p_vote NOT IN ('confirm', 'false') THEN
+    RAISE EXCEPTION 'Invalid incident vote: %', p_vote USING ERRCODE = '22023';
+  END IF;
+
+  SELECT * INTO v_incident
+  FROM incidents i
+  WHERE i.id = p_incident_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Incident not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF v_incident.user_id = v_actor THEN
+    RAISE EXCEPTION 'You can''t vote on an incident you reported' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_vote IS NULL THEN
+    DELETE FROM incident_votes v
+    WHERE v.incident_id = p_incident_id
+      AND v.user_id = v_actor;
+  ELSE
+    SELECT calculate_distance(lh.latitude, lh.longitude, v_incident.location_latitude, v_incident.location_longitude)
+    INTO v_distance_km
+    FROM location_history lh
+    WHERE lh.user_id = v_actor
+      AND lh.latitude IS NOT NULL
+      AND lh.longitude IS NOT NULL
+      AND lh.created_at >= NOW() - INTERVAL '1 hour'
+    ORDER BY lh.created_at DESC
+    LIMIT 1;
+
+    INSERT INTO incident_votes (incident_id, user_id, vote, distance_km, weight)
+    VALUES (p_incident_id, v_actor, p_vote, v_distance_km, get_incident_vote_weight(v_distance_km))
+    ON CONFLICT (incident_id, user_id) DO UPDATE
+    SET vote = EXCLUDED.vote,
+        distance_km = EXCLUDED.distance_km,
+        weight = EXCLUDED.weight;
+  END IF;
+
+  SELECT
+    COUNT(*) FILTER (WHERE v.vote = 'confirm')::INTEGER,
+    COUNT(*) FILTER (WHERE v.vote = 'false')::INTEGER,
+    COALESCE(SUM(v.weight) FILTER (WHERE v.vote = 'confirm'), 0),
+    COALESCE(SUM(v.weight) FILTER (WHERE v.vote = 'false'), 0)
+  INTO v_confirm_count, v_false_count, v_confirm_weight, v_false_weight
+  FROM incident_votes v
+  WHERE v.incident_id = p_incident_id;
+
+  v_confirmed := v_confirm_weight >= 2 AND v_confirm_weight >= 2 * v_false_weight;
+
+  PERFORM set_config('famguard.incident_vote', 'on', true);
+
+  UPDATE incidents i
+  SET upvotes = v_confirm_count,
+      false_votes = v_false_count,
+      confirm_weight = v_confirm_weight,
+      false_weight = v_false_weight,
+      confirmed = v_confirmed
+  WHERE i.id = p_incident_id;
+
+  PERFORM set_config('famguard.incident_vote', '', true);
+
+  RETURN QUERY SELECT v_confirm_count, v_false_count, v_confirmed, p_vote;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+GRANT EXECUTE ON FUNCTION get_incident_vote_weight(DOUBLE PRECISION) TO authenticated;
+GRANT EXECUTE ON FUNCTION cast_incident_vote(UUID, TEXT) TO authenticated;
+
+-- ============================================
+-- Existing incidents
+-- ============================================
+-- Old upvotes can't be attributed to anyone; start every incident from zero
+-- (incidents expire after 3 hours, so nothing long-lived is lost).
+UPDATE incidents
+SET upvotes = 0,
+    false_votes = 0,
+    confirm_weight = 0,
+    false_weight = 0,
+    confirmed = FALSE;
+
+-- Note: To see how an incident's confirmation adds up, execute:
+-- SELECT vote, COUNT(*), SUM(weight) FROM incident_votes WHERE incident_id = '<incident-id>' GROUP BY vote;
@@ -566,9 +566,8 @@ CREATE POLICY "Users can read their own connections"
   ON connections FOR SELECT
   USING (true);
 
-CREATE POLICY "Users can create connections"
-  ON connections FOR INSERT
-  WITH CHECK (true);
+-- No INSERT policy: connections are created by redeem_connection_invite and
+-- accept_connection_invitation (see 20260204000000_signed_connection_invites.sql)
 
 CREATE POLICY "Users can update their own connections"
   ON connections FOR UPDATE